@@ -1,9 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { StyleSheet, Text, View, TextInput, Button, ScrollView, ActivityIndicator, Platform, SafeAreaView, KeyboardAvoidingView, Alert, TouchableOpacity, Modal, FlatList, Slider } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import * as FileSystem from 'expo-file-system';
 import { Audio } from 'expo-av';
 import { VOICES } from './kokoro/voices';
+import { queryVoices, VoiceInfo, VoiceSortKey } from './kokoro/voiceCatalog';
 import KokoroOnnx from './kokoro/kokoroOnnx';
 import { MODELS, downloadModel, isModelDownloaded, getDownloadedModels, deleteModel } from './kokoro/models';
 
@@ -16,7 +16,12 @@ export default function App() {
   const [isModelLoading, setIsModelLoading] = useState(true);
   const [progress, setProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('Loading TTS Model...');
-  const [availableVoices, setAvailableVoices] = useState<string[]>(Object.keys(VOICES));
+  const [voices, setVoices] = useState<Record<string, VoiceInfo>>(VOICES);
+  const [voiceSearch, setVoiceSearch] = useState("");
+  const [voiceLanguage, setVoiceLanguage] = useState<string | null>(null);
+  const [voiceGender, setVoiceGender] = useState<string | null>(null);
+  const [downloadedOnly, setDownloadedOnly] = useState(false);
+  const [voiceSortBy, setVoiceSortBy] = useState<VoiceSortKey>('grade');
   const [selectedVoice, setSelectedVoice] = useState<string>("af_heart");
   const [error, setError] = useState<string | null>(null);
   const [speed, setSpeed] = useState(1.0);
@@ -62,7 +67,7 @@ export default function App() {
     return () => {
       // Clean up sound when component unmounts
       if (sound) {
-        sound.unloadAsync();
+        KokoroOnnx.releaseAudio(sound);
       }
     };
   }, []);
@@ -99,23 +104,11 @@ export default function App() {
 
   const checkDownloadedVoices = async () => {
     try {
-      const voiceDirPath = `${FileSystem.documentDirectory}voices`;
-      const dirInfo = await FileSystem.getInfoAsync(voiceDirPath);
-      
-      if (!dirInfo.exists) {
-        return;
-      }
-      
-      const voiceFiles = await FileSystem.readDirectoryAsync(voiceDirPath);
-      const voices = new Set<string>();
-      
-      voiceFiles.forEach(file => {
-        if (file.endsWith('.bin')) {
-          const voiceId = file.replace('.bin', '');
-          voices.add(voiceId);
-        }
-      });
+      // Include voices imported with KokoroOnnx.importVoice()
+      const allVoices = await KokoroOnnx.getVoices();
+      setVoices(allVoices);
       
+      const voices = new Set<string>(await KokoroOnnx.getDownloadedVoices());
       setDownloadedVoices(voices);
       console.log('Downloaded voices:', voices);
     } catch (err) {
@@ -175,7 +168,7 @@ export default function App() {
 
   const downloadVoice = async () => {
     if (downloadedVoices.has(selectedVoice)) {
-      Alert.alert('Voice already downloaded', `The voice "${VOICES[selectedVoice].name}" is already installed on your device.`);
+      Alert.alert('Voice already downloaded', `The voice "${voices[selectedVoice].name}" is already installed on your device.`);
       return;
     }
 
@@ -187,9 +180,9 @@ export default function App() {
       
       if (success) {
         setDownloadedVoices(prev => new Set([...prev, selectedVoice]));
-        Alert.alert('Success', `Voice "${VOICES[selectedVoice].name}" downloaded successfully!`);
+        Alert.alert('Success', `Voice "${voices[selectedVoice].name}" downloaded successfully!`);
       } else {
-        setError(`Failed to download voice "${VOICES[selectedVoice].name}". Please try again.`);
+        setError(`Failed to download voice "${voices[selectedVoice].name}". Please try again.`);
       }
     } catch (err) {
       console.error('Error downloading voice:', err);
@@ -228,7 +221,7 @@ export default function App() {
     }
 
     if (!downloadedVoices.has(selectedVoice)) {
-      Alert.alert('Voice not downloaded', `Please download the "${VOICES[selectedVoice].name}" voice first.`);
+      Alert.alert('Voice not downloaded', `Please download the "${voices[selectedVoice].name}" voice first.`);
       return;
     }
 
@@ -238,7 +231,7 @@ export default function App() {
       
       // Stop any existing streaming audio
       if (sound) {
-        await sound.unloadAsync();
+        await KokoroOnnx.releaseAudio(sound);
         setSound(null);
       }
       
@@ -256,6 +249,7 @@ export default function App() {
         (status) => {
           setStreamProgress(status.progress);
           setTokensPerSecond(status.tokensPerSecond);
+          setTimeToFirstToken(status.timeToFirstToken);
           setStreamPosition(status.position);
           setStreamDuration(status.duration);
           setStreamingPhonemes(status.phonemes);
@@ -372,6 +366,28 @@ export default function App() {
     );
   };
 
+  // Voices shown in the picker
+  const filteredVoices = useMemo(
+    () => queryVoices(voices, downloadedVoices, {
+      language: voiceLanguage ?? undefined,
+      gender: voiceGender ?? undefined,
+      downloaded: downloadedOnly || undefined,
+      search: voiceSearch,
+      sortBy: voiceSortBy,
+    }),
+    [voices, downloadedVoices, voiceLanguage, voiceGender, downloadedOnly, voiceSearch, voiceSortBy]
+  );
+
+  const renderFilterChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.filterChip, active && styles.activeFilterChip]}
+      onPress={onPress}
+    >
+      <Text style={[styles.filterChipText, active && styles.activeFilterChipText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   const SpeedSelector = () => (
     <View style={styles.speedSelectorContainer}>
       <View style={styles.speedControls}>
@@ -473,26 +489,54 @@ export default function App() {
           
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Voice</Text>
+            <TextInput
+              style={styles.voiceSearchInput}
+              value={voiceSearch}
+              onChangeText={setVoiceSearch}
+              placeholder="Search voices"
+              autoCorrect={false}
+              clearButtonMode="while-editing"
+            />
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.voiceFilters}>
+              {renderFilterChip('All', voiceLanguage === null, () => setVoiceLanguage(null))}
+              {renderFilterChip('American', voiceLanguage === 'en-us', () => setVoiceLanguage('en-us'))}
+              {renderFilterChip('British', voiceLanguage === 'en-gb', () => setVoiceLanguage('en-gb'))}
+              <View style={styles.filterSeparator} />
+              {renderFilterChip('Any', voiceGender === null, () => setVoiceGender(null))}
+              {renderFilterChip('Female', voiceGender === 'Female', () => setVoiceGender('Female'))}
+              {renderFilterChip('Male', voiceGender === 'Male', () => setVoiceGender('Male'))}
+              <View style={styles.filterSeparator} />
+              {renderFilterChip('Downloaded', downloadedOnly, () => setDownloadedOnly(!downloadedOnly))}
+              {renderFilterChip(
+                voiceSortBy === 'grade' ? 'Sort: Grade' : 'Sort: Name',
+                false,
+                () => setVoiceSortBy(voiceSortBy === 'grade' ? 'name' : 'grade')
+              )}
+            </ScrollView>
             <View style={styles.voiceSelector}>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                {availableVoices.map((voiceId) => (
+                {filteredVoices.map((voice) => (
                   <TouchableOpacity
-                    key={voiceId}
+                    key={voice.id}
                     style={[
                       styles.voiceItem,
-                      selectedVoice === voiceId && styles.selectedVoiceItem,
-                      !downloadedVoices.has(voiceId) && styles.undownloadedVoiceItem
+                      selectedVoice === voice.id && styles.selectedVoiceItem,
+                      !voice.downloaded && styles.undownloadedVoiceItem
                     ]}
-                    onPress={() => setSelectedVoice(voiceId)}
+                    onPress={() => setSelectedVoice(voice.id)}
                   >
-                    <Text style={styles.voiceName}>{VOICES[voiceId].name}</Text>
-                    <Text style={styles.voiceGender}>{VOICES[voiceId].gender}</Text>
-                    {!downloadedVoices.has(voiceId) && (
+                    <Text style={styles.voiceName}>{voice.name}</Text>
+                    <Text style={styles.voiceGender}>{voice.gender}</Text>
+                    <Text style={styles.voiceGrade}>{voice.custom ? 'Imported' : voice.overallGrade}</Text>
+                    {!voice.downloaded && (
                       <Text style={styles.downloadIndicator}>↓</Text>
                     )}
                   </TouchableOpacity>
                 ))}
               </ScrollView>
+              {filteredVoices.length === 0 && (
+                <Text style={styles.noVoicesText}>No voices match these filters</Text>
+              )}
             </View>
             
             {!downloadedVoices.has(selectedVoice) && (
@@ -502,7 +546,7 @@ export default function App() {
                 disabled={isVoiceDownloading}
               >
                 <Text style={styles.buttonText}>
-                  {isVoiceDownloading ? 'Downloading...' : `Download ${VOICES[selectedVoice].name} Voice`}
+                  {isVoiceDownloading ? 'Downloading...' : `Download ${voices[selectedVoice].name} Voice`}
                 </Text>
               </TouchableOpacity>
             )}
@@ -699,9 +743,48 @@ const styles = StyleSheet.create({
     color: '#636366',
     fontSize: 14,
   },
+  voiceSearchInput: {
+    backgroundColor: '#f2f2f7',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  voiceFilters: {
+    marginBottom: 10,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    backgroundColor: '#f2f2f7',
+    marginRight: 6,
+  },
+  activeFilterChip: {
+    backgroundColor: '#007AFF',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#1c1c1e',
+  },
+  activeFilterChipText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  filterSeparator: {
+    width: 1,
+    backgroundColor: '#d1d1d6',
+    marginHorizontal: 6,
+  },
   voiceSelector: {
     marginBottom: 10,
   },
+  noVoicesText: {
+    fontSize: 14,
+    color: '#8e8e93',
+    paddingVertical: 10,
+  },
   voiceItem: {
     padding: 10,
     backgroundColor: '#f2f2f7',
@@ -728,6 +811,11 @@ const styles = StyleSheet.create({
     color: '#636366',
     marginTop: 2,
   },
+  voiceGrade: {
+    fontSize: 11,
+    color: '#8e8e93',
+    marginTop: 2,
+  },
   downloadIndicator: {
     fontSize: 16,
     color: '#007AFF',
@@ -0,0 +1,307 @@
+import { lookupWord } from './lexicon';
+
+/**
+ * Abbreviation, acronym and initialism expansion.
+ *
+ * Runs before number verbalization so that the phonemizer sees "Doctor Smith"
+ * rather than "Dr. Smith", "eff bee eye" rather than "FBI", and only keeps the
+ * period after an abbreviation when it also ends the sentence.
+ */
+
+export interface AbbreviationEntry {
+  // Spoken form, e.g. "Street"
+  expansion: string;
+  // Spoken form when the abbreviation is a title in front of a name, e.g. "Saint"
+  title?: string;
+  // Only expand when the next word matches, e.g. "No." before a number
+  nextWord?: RegExp;
+  // The abbreviation never ends a sentence (titles, "e.g.", "vs.")
+  inline?: boolean;
+}
+
+export interface AbbreviationOptions {
+  // Match the abbreviation exactly instead of case-insensitively
+  caseSensitive?: boolean;
+}
+
+// Built-in abbreviations, keyed by lowercase spelling
+const ABBREVIATIONS: Record<string, AbbreviationEntry> = {
+  'mr.': { expansion: 'Mister', inline: true },
+  'mr': { expansion: 'Mister', inline: true },
+  'mrs.': { expansion: 'Missus', inline: true },
+  'mrs': { expansion: 'Missus', inline: true },
+  'ms.': { expansion: 'Miz', inline: true },
+  'dr.': { expansion: 'Drive', title: 'Doctor' },
+  'dr': { expansion: 'Drive', title: 'Doctor' },
+  'st.': { expansion: 'Street', title: 'Saint' },
+  'st': { expansion: 'Street', title: 'Saint' },
+  'mt.': { expansion: 'Mount', inline: true },
+  'ft.': { expansion: 'Fort', inline: true, nextWord: /^[A-Z]/ },
+  'prof.': { expansion: 'Professor', inline: true },
+  'gen.': { expansion: 'General', inline: true, nextWord: /^[A-Z]/ },
+  'gov.': { expansion: 'Governor', inline: true, nextWord: /^[A-Z]/ },
+  'capt.': { expansion: 'Captain', inline: true },
+  'lt.': { expansion: 'Lieutenant', inline: true },
+  'sgt.': { expansion: 'Sergeant', inline: true },
+  'col.': { expansion: 'Colonel', inline: true, nextWord: /^[A-Z]/ },
+  'rev.': { expansion: 'Reverend', inline: true, nextWord: /^[A-Z]/ },
+  'hon.': { expansion: 'Honorable', inline: true },
+  'jr.': { expansion: 'Junior' },
+  'sr.': { expansion: 'Senior' },
+  'ave.': { expansion: 'Avenue' },
+  'rd.': { expansion: 'Road' },
+  'blvd.': { expansion: 'Boulevard' },
+  'ln.': { expansion: 'Lane' },
+  'apt.': { expansion: 'Apartment', inline: true },
+  'inc.': { expansion: 'Incorporated' },
+  'ltd.': { expansion: 'Limited' },
+  'co.': { expansion: 'Company' },
+  'corp.': { expansion: 'Corporation' },
+  'dept.': { expansion: 'Department' },
+  'est.': { expansion: 'established', inline: true },
+  'approx.': { expansion: 'approximately', inline: true },
+  'e.g.': { expansion: 'for example', inline: true },
+  'i.e.': { expansion: 'that is', inline: true },
+  'etc.': { expansion: 'et cetera' },
+  'vs.': { expansion: 'versus', inline: true },
+  'vs': { expansion: 'versus', inline: true },
+  'no.': { expansion: 'number', inline: true, nextWord: /^#?\d/ },
+  'vol.': { expansion: 'volume', inline: true, nextWord: /^\d/ },
+  'ch.': { expansion: 'chapter', inline: true, nextWord: /^\d/ },
+  'fig.': { expansion: 'figure', inline: true, nextWord: /^\d/ },
+  'p.': { expansion: 'page', inline: true, nextWord: /^\d/ },
+  'pp.': { expansion: 'pages', inline: true, nextWord: /^\d/ },
+};
+
+// Acronyms with an established spoken form
+const SPOKEN_ACRONYMS: Record<string, string> = {
+  ASAP: 'ay ess ay pee',
+  CAPTCHA: 'captcha',
+  IEEE: 'eye triple ee',
+  JPEG: 'jay peg',
+  JSON: 'jay son',
+  OK: 'oh kay',
+  SCSI: 'scuzzy',
+  WWW: 'double-you double-you double-you',
+  WYSIWYG: 'wizzy wig',
+};
+
+// Pronounceable-looking acronyms that are nevertheless spelled out
+const INITIALISMS = new Set(['CEO', 'CIA', 'SUV', 'USA', 'BMW', 'PDF', 'FAQ', 'GUI', 'IOU', 'UFO', 'IT', 'US']);
+
+// Spellings of the letter names that the phonemizer pronounces correctly
+const LETTER_NAMES: Record<string, string> = {
+  a: 'ay', b: 'bee', c: 'see', d: 'dee', e: 'ee', f: 'eff', g: 'gee', h: 'aitch', i: 'eye',
+  j: 'jay', k: 'kay', l: 'el', m: 'em', n: 'en', o: 'oh', p: 'pee', q: 'cue', r: 'ar',
+  s: 'ess', t: 'tee', u: 'you', v: 'vee', w: 'double-you', x: 'ex', y: 'why', z: 'zee',
+};
+
+// Abbreviations registered by the app, keyed by spelling (lowercase unless case-sensitive)
+const CUSTOM_ABBREVIATIONS = new Map<string, AbbreviationEntry & { caseSensitive: boolean }>();
+
+// Two or more consonant letters that can start an English syllable
+const ONSET_CLUSTERS = /^(?:[bcfgkp][lr]|[dt]r|s[cklmnptw]|sc[r]|s[pt]r|sh|ch|th|wh|ph|qu|tw|dw)/i;
+
+/**
+ * Register an app-specific abbreviation
+ * @param {string} abbreviation - The abbreviation as written, e.g. "TTS" or "approx."
+ * @param {string | AbbreviationEntry} expansion - The spoken form, or a full entry
+ * @param {AbbreviationOptions} options - Matching options
+ */
+export function registerAbbreviation(
+  abbreviation: string,
+  expansion: string | AbbreviationEntry,
+  options: AbbreviationOptions = {}
+): void {
+  const entry = typeof expansion === 'string' ? { expansion } : expansion;
+  const caseSensitive = !!options.caseSensitive;
+  CUSTOM_ABBREVIATIONS.set(caseSensitive ? abbreviation : abbreviation.toLowerCase(), { ...entry, caseSensitive });
+}
+
+/**
+ * Remove an app-specific abbreviation
+ * @param {string} abbreviation - The abbreviation as registered
+ * @returns {boolean} Whether an abbreviation was removed
+ */
+export function unregisterAbbreviation(abbreviation: string): boolean {
+  return CUSTOM_ABBREVIATIONS.delete(abbreviation) || CUSTOM_ABBREVIATIONS.delete(abbreviation.toLowerCase());
+}
+
+/**
+ * List the app-specific abbreviations
+ * @returns {Record<string, AbbreviationEntry>} Registered abbreviations by spelling
+ */
+export function getRegisteredAbbreviations(): Record<string, AbbreviationEntry> {
+  return Object.fromEntries(CUSTOM_ABBREVIATIONS);
+}
+
+/**
+ * Spell out letters by name
+ * @param {string} letters - Letters to spell, e.g. "FBI"
+ * @param {string} language - Voice language code (British English says "zed")
+ * @returns {string} e.g. "eff bee eye"
+ */
+export function spellOut(letters: string, language = 'en-us'): string {
+  return letters
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .split('')
+    .map(letter => (letter === 'z' && language === 'en-gb' ? 'zed' : LETTER_NAMES[letter]))
+    .join(' ');
+}
+
+/**
+ * Whether an all-caps word can be read as a word rather than letter by letter
+ * @param {string} word - Uppercase word, e.g. "NASA"
+ * @returns {boolean} Whether the word is pronounceable
+ */
+function isPronounceable(word: string): boolean {
+  if (INITIALISMS.has(word) || word.length < 3 || !/[AEIOU]/.test(word)) {
+    return false;
+  }
+  // Three-letter acronyms are only words when they look like one syllable (RAM, GIF)
+  if (word.length === 3) {
+    return /^[^AEIOU][AEIOU][^AEIOUY]$/.test(word);
+  }
+  // Longer acronyms need a vowel near the start and no long consonant runs
+  if (/[^AEIOUY]{3,}/.test(word) || /[AEIOU]{3,}/.test(word)) {
+    return false;
+  }
+  return /^[AEIOU]/.test(word) || /^[^AEIOU][AEIOUY]/.test(word) || ONSET_CLUSTERS.test(word);
+}
+
+/**
+ * Look up an abbreviation, app-specific entries first
+ * @param {string} word - The word as written, including any trailing period
+ * @returns {AbbreviationEntry | null} The matching entry
+ */
+function findAbbreviation(word: string): AbbreviationEntry | null {
+  const custom = CUSTOM_ABBREVIATIONS.get(word);
+  if (custom) {
+    return custom;
+  }
+  const caseInsensitive = CUSTOM_ABBREVIATIONS.get(word.toLowerCase());
+  if (caseInsensitive && !caseInsensitive.caseSensitive) {
+    return caseInsensitive;
+  }
+  return ABBREVIATIONS[word.toLowerCase()] || null;
+}
+
+/**
+ * Expand an all-caps or mixed-case word (NASA, FBI, CDs, iOS, macOS)
+ * @param {string} word - The word as written
+ * @param {boolean} shouting - Whether the surrounding words are also in capitals, in
+ * which case ordinary words (THIS IS GREAT) are left alone
+ * @param {string} language - Voice language code
+ * @returns {string | null} The spoken form, or null if the word is not an initialism
+ */
+function expandInitialism(word: string, shouting: boolean, language: string): string | null {
+  // Dotted initialisms: U.S.A., F.B.I.
+  if (/^(?:[A-Z]\.){2,}$/.test(word) || /^[A-Z](?:\.[A-Z])+$/.test(word)) {
+    return spellOut(word, language);
+  }
+
+  // Initialisms joined by an ampersand: AT&T, R&D
+  const joined = word.match(/^([A-Z]+)&([A-Z]+)$/);
+  if (joined) {
+    return `${spellOut(joined[1], language)} and ${spellOut(joined[2], language)}`;
+  }
+
+  // Lowercase prefix letter: iOS, iPhone, eBay
+  const prefixed = word.match(/^([a-z])([A-Z].*)$/);
+  if (prefixed) {
+    const rest = expandInitialism(prefixed[2], false, language) || prefixed[2];
+    return `${spellOut(prefixed[1], language)} ${rest}`;
+  }
+
+  // Lowercase word followed by capitals: macOS
+  const suffixed = word.match(/^([a-z]{2,})([A-Z]{2,})$/);
+  if (suffixed) {
+    return `${suffixed[1]} ${spellOut(suffixed[2], language)}`;
+  }
+
+  const caps = word.match(/^([A-Z]{2,})(s?)$/);
+  if (!caps || (shouting && lookupWord(word))) {
+    return null;
+  }
+
+  const [, letters, plural] = caps;
+  if (SPOKEN_ACRONYMS[letters]) {
+    return SPOKEN_ACRONYMS[letters] + plural;
+  }
+  if (isPronounceable(letters)) {
+    return null;
+  }
+  // Short words in capitals are usually emphasis (He said NO), not initialisms
+  if (letters.length < 3 && !INITIALISMS.has(letters) && lookupWord(letters.toLowerCase())) {
+    return null;
+  }
+  return spellOut(letters, language) + (plural ? 's' : '');
+}
+
+/**
+ * Expand abbreviations, acronyms and initialisms in text
+ * @param {string} text - The input text
+ * @param {string} language - Voice language code ('en-us' or 'en-gb')
+ * @returns {string} Text with abbreviations replaced by their spoken form
+ */
+export function expandAbbreviations(text: string, language = 'en-us'): string {
+  const parts = text.split(/(\s+)/);
+
+  // Words are at even indexes, whitespace at odd indexes
+  const split = (chunk: string) => {
+    const match = chunk.match(/^([("'“‘]*)(.*?)([)"'”’,;:!?]*)$/)!;
+    return { leading: match[1], core: match[2], trailing: match[3] };
+  };
+  const coreAt = (index: number) => (index >= 0 && index < parts.length ? split(parts[index]).core : '');
+  const isAllCaps = (word: string) => /^[A-Z]{2,}[.!?,]*$/.test(word);
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const { leading, core, trailing } = split(parts[i]);
+    if (!core) {
+      continue;
+    }
+
+    const previous = i >= 2 ? parts[i - 2] : '';
+    const next = coreAt(i + 2);
+    const nextStartsSentence = i + 2 >= parts.length || /^[A-Z]/.test(next);
+
+    // Known abbreviations; a period after an entry registered without one is punctuation
+    let entry = findAbbreviation(core);
+    let punctuation = '';
+    if (!entry && core.endsWith('.')) {
+      entry = findAbbreviation(core.slice(0, -1));
+      punctuation = '.';
+    }
+    if (entry && (!entry.nextWord || entry.nextWord.test(next))) {
+      // Titles come before names; after a street name or number it is a place (Main St.). A
+      // word ending in punctuation (In 1999, Dr. Smith) is not part of an address
+      const previousIsNumber = /^\d+[A-Za-z]?$/.test(previous);
+      const previousIsStreet = /^[A-Z][a-z]*$/.test(previous) && /^\d/.test(coreAt(i - 4));
+      const nextIsName = /^[A-Z]/.test(next);
+      const isPlace = nextIsName
+        ? previousIsNumber || previousIsStreet
+        : previousIsNumber || /^[A-Z][^.!?,;:]*$/.test(previous);
+      const spoken = entry.title && !isPlace ? entry.title : entry.expansion;
+      const isInline = spoken === entry.title || !!entry.inline;
+
+      // Keep the period when the abbreviation also ends the sentence
+      const endsSentence = core.endsWith('.') && !isInline && nextStartsSentence;
+      parts[i] = leading + spoken + (endsSentence ? '.' : punctuation) + trailing;
+      continue;
+    }
+
+    // Acronyms and initialisms; words in all-caps text are left alone
+    const shouting = isAllCaps(coreAt(i - 2)) || isAllCaps(next);
+    const dotted = /^(?:[A-Z]\.){2,}$/.test(core);
+    const word = dotted ? core : core.replace(/\.$/, '');
+    const spoken = expandInitialism(word, shouting, language);
+    if (spoken !== null) {
+      // A dotted initialism only keeps its final period at the end of a sentence
+      const period = dotted ? (nextStartsSentence ? '.' : '') : core.slice(word.length);
+      parts[i] = leading + spoken + period + trailing;
+    }
+  }
+
+  return parts.join('');
+}
@@ -0,0 +1,573 @@
+/**
+ * Audio file encoders for synthesized waveforms (mono float samples in [-1, 1]).
+ *
+ * WAV supports 16- and 24-bit PCM, 32-bit float, unsigned 8-bit PCM and
+ * G.711 µ-law for telephony. FLAC is a small pure-TypeScript encoder using
+ * fixed linear predictors and Rice-coded residuals; it is lossless but does
+ * not search as hard as the reference encoder, and leaves the optional MD5
+ * signature in STREAMINFO unset.
+ */
+
+export type WavEncoding = 'pcm16' | 'pcm24' | 'float32' | 'pcm8' | 'mulaw';
+
+export type FlacBitDepth = 16 | 24;
+
+// WAVE format tags
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_MULAW = 7;
+
+const BYTES_PER_SAMPLE: Record<WavEncoding, number> = {
+  pcm16: 2,
+  pcm24: 3,
+  float32: 4,
+  pcm8: 1,
+  mulaw: 1,
+};
+
+/**
+ * Write an ASCII chunk ID into a DataView
+ * @param {DataView} view - Target view
+ * @param {number} offset - Byte offset
+ * @param {string} text - Four-character ID
+ */
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Convert a float sample to a signed integer of the given bit depth
+ * @param {number} sample - Sample in [-1, 1]
+ * @param {number} bits - Bit depth
+ * @returns {number} Clipped integer sample
+ */
+function toInteger(sample: number, bits: number): number {
+  const max = 2 ** (bits - 1) - 1;
+  return Math.max(-max - 1, Math.min(max, Math.round(sample * max)));
+}
+
+/**
+ * Encode a 16-bit sample as G.711 µ-law
+ * @param {number} sample - Signed 16-bit sample
+ * @returns {number} µ-law byte
+ */
+function linearToMulaw(sample: number): number {
+  const BIAS = 0x84;
+  const CLIP = 32635;
+
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), CLIP) + BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+/**
+ * Encode samples as a WAV file
+ * @param {Float32Array} samples - Mono samples in [-1, 1]
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {WavEncoding} encoding - Sample encoding
+ * @param {Uint8Array[]} chunks - Complete extra chunks (e.g. LIST/INFO metadata) to write before the data
+ * @returns {ArrayBuffer} WAV file contents
+ */
+export function encodeWav(
+  samples: Float32Array,
+  sampleRate: number,
+  encoding: WavEncoding = 'pcm16',
+  chunks: Uint8Array[] = []
+): ArrayBuffer {
+  const bytesPerSample = BYTES_PER_SAMPLE[encoding];
+  if (!bytesPerSample) {
+    throw new Error(`Unsupported WAV encoding: ${encoding}`);
+  }
+
+  // Non-PCM formats need the extended fmt chunk and a fact chunk
+  const isPcm = encoding === 'pcm16' || encoding === 'pcm24' || encoding === 'pcm8';
+  const fmtLength = isPcm ? 16 : 18;
+  const factLength = isPcm ? 0 : 12;
+  const dataLength = samples.length * bytesPerSample;
+  const chunksLength = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const headerLength = 12 + 8 + fmtLength + factLength + chunksLength + 8;
+  const padding = dataLength % 2;
+
+  const buffer = new ArrayBuffer(headerLength + dataLength + padding);
+  const view = new DataView(buffer);
+
+  // "RIFF" chunk descriptor
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeAscii(view, 8, 'WAVE');
+
+  // "fmt " subchunk
+  const formatTag = encoding === 'float32' ? WAVE_FORMAT_IEEE_FLOAT : encoding === 'mulaw' ? WAVE_FORMAT_MULAW : WAVE_FORMAT_PCM;
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, fmtLength, true);
+  view.setUint16(20, formatTag, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  let offset = 20 + fmtLength;
+  if (!isPcm) {
+    view.setUint16(36, 0, true);
+
+    // "fact" subchunk with the number of samples
+    writeAscii(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, samples.length, true);
+    offset += factLength;
+  }
+
+  for (const chunk of chunks) {
+    new Uint8Array(buffer, offset, chunk.length).set(chunk);
+    offset += chunk.length;
+  }
+
+  // "data" subchunk
+  writeAscii(view, offset, 'data');
+  view.setUint32(offset + 4, dataLength, true);
+  offset += 8;
+
+  for (let i = 0; i < samples.length; i++) {
+    switch (encoding) {
+      case 'pcm16':
+        view.setInt16(offset, toInteger(samples[i], 16), true);
+        break;
+      case 'pcm24': {
+        const value = toInteger(samples[i], 24);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+        break;
+      }
+      case 'float32':
+        view.setFloat32(offset, Math.max(-1, Math.min(1, samples[i])), true);
+        break;
+      case 'pcm8':
+        // 8-bit WAV is unsigned with silence at 128
+        view.setUint8(offset, toInteger(samples[i], 8) + 128);
+        break;
+      case 'mulaw':
+        view.setUint8(offset, linearToMulaw(toInteger(samples[i], 16)));
+        break;
+    }
+    offset += bytesPerSample;
+  }
+
+  return buffer;
+}
+
+// FLAC
+
+const FLAC_BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 4;
+
+// Sample rates with their own code in the frame header
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7,
+  32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+/**
+ * Big-endian bit writer with a growable byte buffer
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private buffer = 0;
+  private bitCount = 0;
+
+  /**
+   * Write up to 32 bits of an unsigned value
+   * @param {number} value - Value to write
+   * @param {number} bits - Number of bits
+   */
+  writeBits(value: number, bits: number): void {
+    if (bits > 24) {
+      this.writeBits(Math.floor(value / 2 ** 24), bits - 24);
+      this.writeBits(value % 2 ** 24, 24);
+      return;
+    }
+    this.buffer = (this.buffer << bits) | (value & ((1 << bits) - 1));
+    this.bitCount += bits;
+    while (this.bitCount >= 8) {
+      this.bitCount -= 8;
+      this.pushByte((this.buffer >> this.bitCount) & 0xff);
+    }
+    this.buffer &= (1 << this.bitCount) - 1;
+  }
+
+  /**
+   * Write a signed value in two's complement
+   * @param {number} value - Value to write
+   * @param {number} bits - Number of bits
+   */
+  writeSigned(value: number, bits: number): void {
+    this.writeBits(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  /**
+   * Write a number in unary: that many zeros followed by a one
+   * @param {number} value - Value to write
+   */
+  writeUnary(value: number): void {
+    let zeros = value;
+    while (zeros > 24) {
+      this.writeBits(0, 24);
+      zeros -= 24;
+    }
+    this.writeBits(1, zeros + 1);
+  }
+
+  /**
+   * Pad with zero bits to a byte boundary
+   */
+  alignToByte(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0, 8 - this.bitCount);
+    }
+  }
+
+  /**
+   * Write whole bytes (the writer must be byte-aligned)
+   * @param {Uint8Array} bytes - Bytes to write
+   */
+  writeBytes(bytes: Uint8Array): void {
+    for (const byte of bytes) {
+      this.pushByte(byte);
+    }
+  }
+
+  /**
+   * The number of complete bytes written so far
+   * @returns {number} Byte length
+   */
+  get byteLength(): number {
+    return this.length;
+  }
+
+  /**
+   * The bytes written so far
+   * @param {number} start - First byte to include
+   * @returns {Uint8Array} View of the written bytes
+   */
+  getBytes(start = 0): Uint8Array {
+    return this.bytes.subarray(start, this.length);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * CRC-8 (polynomial x^8 + x^2 + x + 1) used by FLAC frame headers
+ * @param {Uint8Array} bytes - Bytes to check
+ * @returns {number} CRC-8
+ */
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * CRC-16 (polynomial x^16 + x^15 + x^2 + 1) used by FLAC frame footers
+ * @param {Uint8Array} bytes - Bytes to check
+ * @returns {number} CRC-16
+ */
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Write a frame number in FLAC's UTF-8-like variable length coding
+ * @param {BitWriter} writer - Target writer
+ * @param {number} value - Frame number
+ */
+function writeUtf8Number(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  const continuationBytes = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5;
+  const leadBits = 6 - continuationBytes;
+  const lead = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.writeBits(lead | Math.floor(value / 2 ** (6 * continuationBytes)) & ((1 << leadBits) - 1), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+/**
+ * Residuals of the fixed polynomial predictor of the given order
+ * @param {Int32Array} block - Samples of the block
+ * @param {number} order - Predictor order (0-4)
+ * @returns {number[]} Residuals for samples order..n-1
+ */
+function fixedResiduals(block: Int32Array, order: number): number[] {
+  const residuals: number[] = [];
+  for (let i = order; i < block.length; i++) {
+    switch (order) {
+      case 0:
+        residuals.push(block[i]);
+        break;
+      case 1:
+        residuals.push(block[i] - block[i - 1]);
+        break;
+      case 2:
+        residuals.push(block[i] - 2 * block[i - 1] + block[i - 2]);
+        break;
+      case 3:
+        residuals.push(block[i] - 3 * block[i - 1] + 3 * block[i - 2] - block[i - 3]);
+        break;
+      default:
+        residuals.push(block[i] - 4 * block[i - 1] + 6 * block[i - 2] - 4 * block[i - 3] + block[i - 4]);
+    }
+  }
+  return residuals;
+}
+
+/**
+ * Choose the Rice parameter for a run of folded residuals
+ * @param {number[]} folded - Residuals mapped to non-negative integers
+ * @param {number} start - First index
+ * @param {number} end - End index (exclusive)
+ * @param {number} maxParameter - Largest parameter the coding method allows
+ * @returns {{ parameter: number, bits: number }} Best parameter and its cost in bits
+ */
+function bestRiceParameter(folded: number[], start: number, end: number, maxParameter: number) {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += folded[i];
+  }
+  const count = end - start;
+  const estimate = count > 0 && sum > count ? Math.floor(Math.log2(sum / count)) : 0;
+
+  let best = { parameter: 0, bits: Infinity };
+  const lowest = Math.min(Math.max(0, estimate - 1), maxParameter);
+  for (let parameter = lowest; parameter <= Math.min(maxParameter, estimate + 1); parameter++) {
+    let bits = count * (parameter + 1);
+    const divisor = 2 ** parameter;
+    for (let i = start; i < end; i++) {
+      bits += Math.floor(folded[i] / divisor);
+    }
+    if (bits < best.bits) {
+      best = { parameter, bits };
+    }
+  }
+  return best;
+}
+
+/**
+ * Plan the Rice coding of a residual, choosing the partition order and parameters
+ * @param {number[]} residuals - Residuals of the predictor
+ * @param {number} blockSize - Samples in the block
+ * @param {number} order - Predictor order (the first partition is shorter by this much)
+ * @param {number} maxParameter - Largest parameter the coding method allows
+ * @returns {{ partitionOrder: number, parameters: number[], bits: number }} Cheapest coding
+ */
+function planResidual(residuals: number[], blockSize: number, order: number, maxParameter: number) {
+  const folded = residuals.map(r => (r >= 0 ? 2 * r : -2 * r - 1));
+  const parameterBits = maxParameter > 14 ? 5 : 4;
+
+  let best = { partitionOrder: 0, parameters: [] as number[], bits: Infinity };
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitionSize = blockSize >> partitionOrder;
+    if (blockSize % (1 << partitionOrder) !== 0 || partitionSize <= order) {
+      break;
+    }
+
+    const parameters: number[] = [];
+    let bits = 0;
+    for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+      const start = partition === 0 ? 0 : partition * partitionSize - order;
+      const end = (partition + 1) * partitionSize - order;
+      const choice = bestRiceParameter(folded, start, end, maxParameter);
+      parameters.push(choice.parameter);
+      bits += parameterBits + choice.bits;
+    }
+    if (bits < best.bits) {
+      best = { partitionOrder, parameters, bits };
+    }
+  }
+  return best;
+}
+
+/**
+ * Encode one channel of a block as a FLAC subframe
+ * @param {BitWriter} writer - Target writer
+ * @param {Int32Array} block - Integer samples of the block
+ * @param {number} bitsPerSample - Sample bit depth
+ */
+function writeSubframe(writer: BitWriter, block: Int32Array, bitsPerSample: number): void {
+  // Silence (or any constant run) is a single value
+  if (block.every(sample => sample === block[0])) {
+    writer.writeBits(0, 8);
+    writer.writeSigned(block[0], bitsPerSample);
+    return;
+  }
+
+  const maxParameter = bitsPerSample > 16 ? 30 : 14;
+
+  // Pick the predictor order whose residual codes smallest
+  let best: { order: number; residuals: number[]; plan: ReturnType<typeof planResidual> } | null = null;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, block.length - 1); order++) {
+    const residuals = fixedResiduals(block, order);
+    const plan = planResidual(residuals, block.length, order, maxParameter);
+    if (!best || order * bitsPerSample + plan.bits < best.order * bitsPerSample + best.plan.bits) {
+      best = { order, residuals, plan };
+    }
+  }
+
+  const verbatimBits = block.length * bitsPerSample;
+  if (!best || best.order * bitsPerSample + best.plan.bits + 6 >= verbatimBits) {
+    writer.writeBits(0b00000010, 8);
+    for (const sample of block) {
+      writer.writeSigned(sample, bitsPerSample);
+    }
+    return;
+  }
+
+  const { order, residuals, plan } = best;
+
+  // Subframe header: FIXED predictor of this order, no wasted bits
+  writer.writeBits((0b001000 | order) << 1, 8);
+  for (let i = 0; i < order; i++) {
+    writer.writeSigned(block[i], bitsPerSample);
+  }
+
+  // Residual: RICE (4-bit parameters) or RICE2 (5-bit parameters)
+  const parameterBits = maxParameter > 14 ? 5 : 4;
+  writer.writeBits(parameterBits === 5 ? 1 : 0, 2);
+  writer.writeBits(plan.partitionOrder, 4);
+
+  const partitionSize = block.length >> plan.partitionOrder;
+  for (let partition = 0; partition < plan.parameters.length; partition++) {
+    const parameter = plan.parameters[partition];
+    const divisor = 2 ** parameter;
+    writer.writeBits(parameter, parameterBits);
+
+    const start = partition === 0 ? 0 : partition * partitionSize - order;
+    const end = (partition + 1) * partitionSize - order;
+    for (let i = start; i < end; i++) {
+      const r = residuals[i];
+      const folded = r >= 0 ? 2 * r : -2 * r - 1;
+      writer.writeUnary(Math.floor(folded / divisor));
+      if (parameter > 0) {
+        writer.writeBits(folded % divisor, parameter);
+      }
+    }
+  }
+}
+
+/**
+ * Encode samples as a FLAC file
+ * @param {Float32Array} samples - Mono samples in [-1, 1]
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {FlacBitDepth} bitsPerSample - Bit depth of the encoded samples (16 or 24)
+ * @returns {ArrayBuffer} FLAC file contents
+ */
+export function encodeFlac(samples: Float32Array, sampleRate: number, bitsPerSample: FlacBitDepth = 16): ArrayBuffer {
+  if (bitsPerSample !== 16 && bitsPerSample !== 24) {
+    throw new Error(`Unsupported FLAC bit depth: ${bitsPerSample}`);
+  }
+
+  const integers = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    integers[i] = toInteger(samples[i], bitsPerSample);
+  }
+
+  // Frames
+  const frames = new BitWriter();
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  const blockCount = Math.ceil(samples.length / FLAC_BLOCK_SIZE);
+
+  for (let frameNumber = 0; frameNumber < blockCount; frameNumber++) {
+    const frameStart = frames.byteLength;
+    const block = integers.subarray(frameNumber * FLAC_BLOCK_SIZE, (frameNumber + 1) * FLAC_BLOCK_SIZE);
+
+    // Frame header: sync code, fixed block size, block size and sample rate codes
+    const sampleRateCode = FLAC_SAMPLE_RATE_CODES[sampleRate] ?? (sampleRate <= 0xffff ? 13 : sampleRate % 10 === 0 ? 14 : 0);
+    const blockSizeCode = block.length === FLAC_BLOCK_SIZE ? 12 : 7;
+    frames.writeBits(0b11111111111110, 14);
+    frames.writeBits(0, 1);
+    frames.writeBits(0, 1);
+    frames.writeBits(blockSizeCode, 4);
+    frames.writeBits(sampleRateCode, 4);
+    frames.writeBits(0, 4);
+    frames.writeBits(bitsPerSample === 16 ? 0b100 : 0b110, 3);
+    frames.writeBits(0, 1);
+    writeUtf8Number(frames, frameNumber);
+    if (blockSizeCode === 7) {
+      frames.writeBits(block.length - 1, 16);
+    }
+    if (sampleRateCode === 13) {
+      frames.writeBits(sampleRate, 16);
+    } else if (sampleRateCode === 14) {
+      frames.writeBits(sampleRate / 10, 16);
+    }
+    frames.writeBits(crc8(frames.getBytes(frameStart)), 8);
+
+    writeSubframe(frames, block, bitsPerSample);
+
+    // Frame footer
+    frames.alignToByte();
+    frames.writeBits(crc16(frames.getBytes(frameStart)), 16);
+
+    const frameSize = frames.byteLength - frameStart;
+    minFrameSize = Math.min(minFrameSize, frameSize);
+    maxFrameSize = Math.max(maxFrameSize, frameSize);
+  }
+
+  // "fLaC" marker and the STREAMINFO metadata block
+  const header = new BitWriter();
+  header.writeBytes(new Uint8Array([0x66, 0x4c, 0x61, 0x43]));
+  header.writeBits(1, 1);
+  header.writeBits(0, 7);
+  header.writeBits(34, 24);
+  // Block sizes exclude the shorter last block unless it is the only one
+  const blockSize = blockCount > 1 ? FLAC_BLOCK_SIZE : Math.max(16, Math.min(FLAC_BLOCK_SIZE, samples.length));
+  header.writeBits(blockSize, 16);
+  header.writeBits(blockSize, 16);
+  header.writeBits(blockCount > 0 ? minFrameSize : 0, 24);
+  header.writeBits(maxFrameSize, 24);
+  header.writeBits(sampleRate, 20);
+  header.writeBits(0, 3);
+  header.writeBits(bitsPerSample - 1, 5);
+  header.writeBits(Math.floor(samples.length / 2 ** 32), 4);
+  header.writeBits(samples.length % 2 ** 32, 32);
+  header.writeBytes(new Uint8Array(16));
+
+  const output = new Uint8Array(header.byteLength + frames.byteLength);
+  output.set(header.getBytes(), 0);
+  output.set(frames.getBytes(), header.byteLength);
+  return output.buffer;
+}
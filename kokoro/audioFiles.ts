@@ -0,0 +1,233 @@
+import * as FileSystem from 'expo-file-system';
+import type { Audio } from 'expo-av';
+
+/**
+ * Generated audio files.
+ *
+ * Every clip that is played goes through a WAV file in the cache directory.
+ * Files are tracked here. A file stays on disk while the sound created from it
+ * is loaded, and is deleted when the sound is released, or at the next budget
+ * check after the app unloads it. Files without a loaded sound, including the
+ * ones left over from earlier runs and the temp_audio_*.wav files of older
+ * versions, are evicted oldest first once they exceed the size budget or are
+ * older than the age budget. Sounds are never unloaded to meet the budget.
+ */
+
+export interface AudioFileBudget {
+  // Total size of the generated files in bytes
+  maxBytes?: number;
+  // Longest time a file without a loaded sound is kept, in milliseconds
+  maxAge?: number;
+}
+
+export interface AudioFileUsage {
+  count: number;
+  bytes: number;
+}
+
+interface AudioFileEntry {
+  uri: string;
+  size: number;
+  // When the file was written (Date.now())
+  lastUsed: number;
+  // The sound created from the file, while it may still be loaded
+  sound: Audio.Sound | null;
+}
+
+const AUDIO_DIRECTORY = `${FileSystem.cacheDirectory}kokoro_audio/`;
+
+// Files written by versions that did not track them
+const LEGACY_FILE = /^temp_audio_\d+\.wav$/;
+
+const DEFAULT_BUDGET: Required<AudioFileBudget> = {
+  maxBytes: 100 * 1024 * 1024,
+  maxAge: 24 * 60 * 60 * 1000,
+};
+
+let budget: Required<AudioFileBudget> = { ...DEFAULT_BUDGET };
+const files = new Map<string, AudioFileEntry>();
+let loadPromise: Promise<void> | null = null;
+let fileCounter = 0;
+
+/**
+ * Find the files left by earlier runs (only scans once)
+ * @returns {Promise<void>}
+ */
+function loadAudioFiles(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const dirInfo = await FileSystem.getInfoAsync(AUDIO_DIRECTORY);
+        if (!dirInfo.exists) {
+          await FileSystem.makeDirectoryAsync(AUDIO_DIRECTORY, { intermediates: true });
+        }
+
+        const found = [
+          ...(await FileSystem.readDirectoryAsync(AUDIO_DIRECTORY)).map(name => AUDIO_DIRECTORY + name),
+          ...(await FileSystem.readDirectoryAsync(FileSystem.cacheDirectory!))
+            .filter(name => LEGACY_FILE.test(name))
+            .map(name => FileSystem.cacheDirectory + name),
+        ];
+        for (const uri of found) {
+          const info = await FileSystem.getInfoAsync(uri, { size: true });
+          if (info.exists && !info.isDirectory && !files.has(uri)) {
+            files.set(uri, { uri, size: info.size, lastUsed: info.modificationTime * 1000, sound: null });
+          }
+        }
+      } catch (error) {
+        console.warn('Unable to scan generated audio files', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Whether a sound is still loaded
+ * @param {Audio.Sound} sound - The sound to check
+ * @returns {Promise<boolean>} False once the sound has been unloaded
+ */
+function isLoaded(sound: Audio.Sound): Promise<boolean> {
+  return sound.getStatusAsync().then(status => status.isLoaded, () => false);
+}
+
+/**
+ * Delete the files whose sounds were unloaded, then evict files without a loaded sound until the
+ * size and age budget is met, oldest first
+ * @param {string} keep - A file that must not be evicted (the one just written)
+ * @returns {Promise<void>}
+ */
+async function enforceBudget(keep: string | null = null): Promise<void> {
+  for (const entry of [...files.values()]) {
+    if (entry.sound && !(await isLoaded(entry.sound))) {
+      await releaseAudioFile(entry.uri);
+    }
+  }
+
+  const oldest = Date.now() - budget.maxAge;
+  let total = 0;
+  for (const entry of files.values()) {
+    total += entry.size;
+  }
+
+  // Files with a loaded sound may be playing or queued to play, so they are kept
+  const candidates = [...files.values()]
+    .filter(entry => entry.uri !== keep && !entry.sound)
+    .sort((a, b) => a.lastUsed - b.lastUsed);
+  for (const entry of candidates) {
+    if (total <= budget.maxBytes && entry.lastUsed >= oldest) {
+      continue;
+    }
+    total -= entry.size;
+    await releaseAudioFile(entry.uri);
+  }
+}
+
+/**
+ * Set the size and age budget for generated audio files, evicting files that no longer fit
+ * @param {AudioFileBudget} limits - The limits to change
+ * @returns {Promise<void>}
+ */
+export async function setAudioFileBudget(limits: AudioFileBudget): Promise<void> {
+  for (const [key, value] of Object.entries(limits)) {
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+      throw new Error(`Audio file budget ${key} must be a non-negative number, got ${value}`);
+    }
+  }
+  budget = { ...budget, ...Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined)) };
+  await loadAudioFiles();
+  await enforceBudget();
+}
+
+/**
+ * Get the size and age budget for generated audio files
+ * @returns {Required<AudioFileBudget>} The current limits
+ */
+export function getAudioFileBudget(): Required<AudioFileBudget> {
+  return { ...budget };
+}
+
+/**
+ * Write a generated audio file and track it
+ * @param {string} base64 - File contents, base64 encoded
+ * @param {string} extension - File extension
+ * @returns {Promise<string>} URI of the file
+ */
+export async function writeAudioFile(base64: string, extension = 'wav'): Promise<string> {
+  await loadAudioFiles();
+  const uri = `${AUDIO_DIRECTORY}audio_${Date.now()}_${fileCounter++}.${extension}`;
+  await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+
+  // Base64 holds 3 bytes in every 4 characters
+  const size = Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+  files.set(uri, { uri, size, lastUsed: Date.now(), sound: null });
+  await enforceBudget(uri);
+  return uri;
+}
+
+/**
+ * Tie a file to the sound created from it, keeping the file while the sound is loaded
+ * @param {Audio.Sound} sound - The sound created from the file
+ * @param {string} uri - URI from writeAudioFile()
+ */
+export function bindAudioFile(sound: Audio.Sound, uri: string): void {
+  const entry = files.get(uri);
+  if (entry) {
+    entry.sound = sound;
+  }
+}
+
+/**
+ * Unload a sound and delete the file it was created from
+ * @param {Audio.Sound} sound - A sound passed to bindAudioFile()
+ * @returns {Promise<void>}
+ */
+export async function releaseSound(sound: Audio.Sound): Promise<void> {
+  try {
+    await sound.unloadAsync();
+  } finally {
+    const entry = [...files.values()].find(candidate => candidate.sound === sound);
+    if (entry) {
+      await releaseAudioFile(entry.uri);
+    }
+  }
+}
+
+/**
+ * Delete a generated file that is no longer needed
+ * @param {string} uri - URI from writeAudioFile()
+ * @returns {Promise<void>}
+ */
+export async function releaseAudioFile(uri: string): Promise<void> {
+  files.delete(uri);
+  await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+}
+
+/**
+ * Get the number and total size of the generated audio files on disk
+ * @returns {Promise<AudioFileUsage>} File count and size in bytes
+ */
+export async function getAudioFileUsage(): Promise<AudioFileUsage> {
+  await loadAudioFiles();
+  let bytes = 0;
+  for (const entry of files.values()) {
+    bytes += entry.size;
+  }
+  return { count: files.size, bytes };
+}
+
+/**
+ * Delete every generated audio file, unloading the sounds created from them
+ * @returns {Promise<number>} The number of files deleted
+ */
+export async function clearAudioFiles(): Promise<number> {
+  await loadAudioFiles();
+  const entries = [...files.values()];
+  for (const entry of entries) {
+    if (entry.sound) {
+      await entry.sound.unloadAsync().catch(() => {});
+    }
+    await releaseAudioFile(entry.uri);
+  }
+  return entries.length;
+}
@@ -0,0 +1,372 @@
+/**
+ * Optional post-processing of synthesized waveforms before they are written out.
+ *
+ * The chain runs in a fixed order: leading/trailing silence trimming, DC
+ * offset removal, peak or loudness normalization, then fades. Loudness is measured
+ * as integrated loudness following ITU-R BS.1770 (K-weighting, 400 ms blocks,
+ * absolute and relative gating), so -16 LUFS means roughly the same perceived
+ * level for every voice. TPDF dither is separate because it belongs at the
+ * final quantization step, after any resampling.
+ */
+
+export interface AudioProcessingOptions {
+  // High-pass the waveform so it is centred on zero
+  removeDcOffset?: boolean;
+  // Remove leading and trailing silence
+  trimSilence?: boolean;
+  // Level below which audio counts as silence, in dBFS (default -50)
+  silenceThreshold?: number;
+  // Silence to keep at a trimmed edge, in milliseconds (default 50)
+  silencePadding?: number;
+  // Normalization mode (default 'none')
+  normalize?: 'peak' | 'loudness' | 'none';
+  // Peak level for 'peak' normalization, and the ceiling for 'loudness', in dBFS (default -1)
+  targetPeak?: number;
+  // Integrated loudness for 'loudness' normalization, in LUFS (default -16)
+  targetLoudness?: number;
+  // Fade-in length in milliseconds
+  fadeIn?: number;
+  // Fade-out length in milliseconds
+  fadeOut?: number;
+  // Add TPDF dither when quantizing to integer samples
+  dither?: boolean;
+}
+
+export interface ProcessingContext {
+  // Whether the samples start the clip (trimming and fade-in apply)
+  isStart?: boolean;
+  // Whether the samples end the clip (trimming and fade-out apply)
+  isEnd?: boolean;
+  // Normalization gain to reuse instead of measuring these samples
+  gain?: number;
+}
+
+const DEFAULT_SILENCE_THRESHOLD = -50;
+const DEFAULT_SILENCE_PADDING = 50;
+const DEFAULT_TARGET_PEAK = -1;
+const DEFAULT_TARGET_LOUDNESS = -16;
+
+// Corner frequency of the DC blocking filter, in Hz
+const DC_CUTOFF = 10;
+
+// Frame length used to detect silence, in milliseconds
+const SILENCE_FRAME = 10;
+
+// BS.1770 gating block length and hop, in seconds, and the gates in LU
+const LOUDNESS_BLOCK = 0.4;
+const LOUDNESS_HOP = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+/**
+ * Convert decibels to a linear gain
+ * @param {number} db - Level in dB
+ * @returns {number} Linear gain
+ */
+function dbToGain(db: number): number {
+  return 10 ** (db / 20);
+}
+
+/**
+ * Largest absolute sample value
+ * @param {Float32Array} samples - Audio samples
+ * @returns {number} Peak level (linear)
+ */
+export function peakLevel(samples: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return peak;
+}
+
+/**
+ * Remove DC offset with a first-order high-pass filter
+ * @param {Float32Array} samples - Audio samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @returns {Float32Array} Centred copy of the samples
+ */
+export function removeDcOffset(samples: Float32Array, sampleRate: number): Float32Array {
+  const pole = Math.exp((-2 * Math.PI * DC_CUTOFF) / sampleRate);
+  const output = new Float32Array(samples.length);
+  // Start from the first sample so an initial offset does not produce a step
+  let previousInput = samples[0] || 0;
+  let previousOutput = 0;
+  for (let i = 0; i < samples.length; i++) {
+    previousOutput = samples[i] - previousInput + pole * previousOutput;
+    previousInput = samples[i];
+    output[i] = previousOutput;
+  }
+  return output;
+}
+
+/**
+ * Remove silence from the start and/or end of a waveform
+ * @param {Float32Array} samples - Audio samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {number} thresholdDb - Frame RMS level below which audio is silence, in dBFS
+ * @param {number} paddingMs - Silence to keep before the first and after the last sound
+ * @param {boolean} trimStart - Whether to trim the start
+ * @param {boolean} trimEnd - Whether to trim the end
+ * @returns {Float32Array} Trimmed samples (a view when nothing is removed)
+ */
+export function trimSilence(
+  samples: Float32Array,
+  sampleRate: number,
+  thresholdDb = DEFAULT_SILENCE_THRESHOLD,
+  paddingMs = DEFAULT_SILENCE_PADDING,
+  trimStart = true,
+  trimEnd = true
+): Float32Array {
+  const frameLength = Math.max(1, Math.round((sampleRate * SILENCE_FRAME) / 1000));
+  const threshold = dbToGain(thresholdDb);
+  const padding = Math.round((sampleRate * paddingMs) / 1000);
+
+  const isLoud = (frameStart: number) => {
+    const end = Math.min(samples.length, frameStart + frameLength);
+    let energy = 0;
+    for (let i = frameStart; i < end; i++) {
+      energy += samples[i] * samples[i];
+    }
+    return Math.sqrt(energy / (end - frameStart)) >= threshold;
+  };
+
+  let first = -1;
+  let last = -1;
+  for (let frameStart = 0; frameStart < samples.length; frameStart += frameLength) {
+    if (isLoud(frameStart)) {
+      if (first === -1) {
+        first = frameStart;
+      }
+      last = Math.min(samples.length, frameStart + frameLength);
+    }
+  }
+
+  if (first === -1) {
+    // All silence: nothing to keep at a trimmed edge
+    return trimStart && trimEnd ? samples.subarray(0, 0) : samples;
+  }
+
+  const start = trimStart ? Math.max(0, first - padding) : 0;
+  const end = trimEnd ? Math.min(samples.length, last + padding) : samples.length;
+  return samples.subarray(start, end);
+}
+
+/**
+ * Apply raised-cosine fades to the edges of a waveform
+ * @param {Float32Array} samples - Audio samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {number} fadeInMs - Fade-in length in milliseconds
+ * @param {number} fadeOutMs - Fade-out length in milliseconds
+ * @returns {Float32Array} Faded copy of the samples
+ */
+export function applyFades(samples: Float32Array, sampleRate: number, fadeInMs = 0, fadeOutMs = 0): Float32Array {
+  const faded = new Float32Array(samples);
+  const half = Math.floor(faded.length / 2);
+  const fadeIn = Math.min(half, Math.round((sampleRate * fadeInMs) / 1000));
+  const fadeOut = Math.min(half, Math.round((sampleRate * fadeOutMs) / 1000));
+
+  for (let i = 0; i < fadeIn; i++) {
+    faded[i] *= 0.5 - 0.5 * Math.cos((Math.PI * i) / fadeIn);
+  }
+  for (let i = 0; i < fadeOut; i++) {
+    faded[faded.length - 1 - i] *= 0.5 - 0.5 * Math.cos((Math.PI * i) / fadeOut);
+  }
+  return faded;
+}
+
+/**
+ * Run a biquad filter over samples (direct form I)
+ * @param {Float32Array} samples - Input samples
+ * @param {number[]} b - Feed-forward coefficients, normalized by a0
+ * @param {number[]} a - Feedback coefficients a1 and a2, normalized by a0
+ * @returns {Float64Array} Filtered samples
+ */
+function biquad(samples: ArrayLike<number>, b: number[], a: number[]): Float64Array {
+  const output = new Float64Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * Apply the BS.1770 K-weighting filter (high shelf then high pass) at any sample rate
+ * @param {Float32Array} samples - Audio samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @returns {Float64Array} K-weighted samples
+ */
+function kWeight(samples: Float32Array, sampleRate: number): Float64Array {
+  // High shelf: +4 dB above about 1.5 kHz
+  const shelfGain = 10 ** (4 / 40);
+  const shelfW = (2 * Math.PI * 1500) / sampleRate;
+  const shelfAlpha = Math.sin(shelfW) / (2 * Math.SQRT1_2);
+  const shelfCos = Math.cos(shelfW);
+  const root = 2 * Math.sqrt(shelfGain) * shelfAlpha;
+  const shelfA0 = shelfGain + 1 - (shelfGain - 1) * shelfCos + root;
+  const shelved = biquad(
+    samples,
+    [
+      (shelfGain * (shelfGain + 1 + (shelfGain - 1) * shelfCos + root)) / shelfA0,
+      (-2 * shelfGain * (shelfGain - 1 + (shelfGain + 1) * shelfCos)) / shelfA0,
+      (shelfGain * (shelfGain + 1 + (shelfGain - 1) * shelfCos - root)) / shelfA0,
+    ],
+    [
+      (2 * (shelfGain - 1 - (shelfGain + 1) * shelfCos)) / shelfA0,
+      (shelfGain + 1 - (shelfGain - 1) * shelfCos - root) / shelfA0,
+    ]
+  );
+
+  // High pass at 38 Hz
+  const passW = (2 * Math.PI * 38) / sampleRate;
+  const passAlpha = Math.sin(passW) / (2 * 0.5);
+  const passCos = Math.cos(passW);
+  const passA0 = 1 + passAlpha;
+  return biquad(
+    shelved,
+    [(1 + passCos) / 2 / passA0, -(1 + passCos) / passA0, (1 + passCos) / 2 / passA0],
+    [(-2 * passCos) / passA0, (1 - passAlpha) / passA0]
+  );
+}
+
+/**
+ * Measure integrated loudness following ITU-R BS.1770
+ * @param {Float32Array} samples - Audio samples (mono)
+ * @param {number} sampleRate - Sample rate in Hz
+ * @returns {number} Loudness in LUFS, or -Infinity for silence
+ */
+export function measureLoudness(samples: Float32Array, sampleRate: number): number {
+  const weighted = kWeight(samples, sampleRate);
+  const blockLength = Math.min(weighted.length, Math.round(sampleRate * LOUDNESS_BLOCK));
+  const hop = Math.max(1, Math.round(sampleRate * LOUDNESS_HOP));
+  if (blockLength === 0) {
+    return -Infinity;
+  }
+
+  // Mean square of each overlapping block
+  const powers: number[] = [];
+  for (let start = 0; start + blockLength <= weighted.length; start += hop) {
+    let energy = 0;
+    for (let i = start; i < start + blockLength; i++) {
+      energy += weighted[i] * weighted[i];
+    }
+    powers.push(energy / blockLength);
+  }
+
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+  const audible = powers.filter(power => loudness(power) > ABSOLUTE_GATE);
+  if (audible.length === 0) {
+    return -Infinity;
+  }
+  const relativeGate = loudness(mean(audible)) + RELATIVE_GATE;
+  const gated = audible.filter(power => loudness(power) > relativeGate);
+  return loudness(mean(gated));
+}
+
+/**
+ * Work out the gain that normalizes a waveform
+ * @param {Float32Array} samples - Audio samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {AudioProcessingOptions} options - Normalization mode and targets
+ * @returns {number} Linear gain (1 when normalization is off or the audio is silent)
+ */
+export function normalizationGain(samples: Float32Array, sampleRate: number, options: AudioProcessingOptions): number {
+  const peak = peakLevel(samples);
+  const ceiling = dbToGain(options.targetPeak ?? DEFAULT_TARGET_PEAK);
+  if (peak === 0) {
+    return 1;
+  }
+
+  if (options.normalize === 'peak') {
+    return ceiling / peak;
+  }
+  if (options.normalize === 'loudness') {
+    const loudness = measureLoudness(samples, sampleRate);
+    if (!Number.isFinite(loudness)) {
+      return 1;
+    }
+    // Reach the target loudness unless that would push peaks over the ceiling
+    const gain = dbToGain((options.targetLoudness ?? DEFAULT_TARGET_LOUDNESS) - loudness);
+    return Math.min(gain, ceiling / peak);
+  }
+  return 1;
+}
+
+/**
+ * Run the post-processing chain (everything except dither)
+ * @param {Float32Array} samples - Audio samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {AudioProcessingOptions} options - Processing steps to apply
+ * @param {ProcessingContext} context - Which edges of the clip the samples hold, and a
+ * gain to reuse so that consecutive parts of one clip are normalized alike
+ * @returns {{ samples: Float32Array, gain: number, start: number }} Processed samples, the
+ * normalization gain used and the number of samples trimmed from the start
+ */
+export function processAudio(
+  samples: Float32Array,
+  sampleRate: number,
+  options: AudioProcessingOptions = {},
+  context: ProcessingContext = {}
+): { samples: Float32Array; gain: number; start: number } {
+  const { isStart = true, isEnd = true } = context;
+  let processed = samples;
+  let start = 0;
+
+  if (options.trimSilence && (isStart || isEnd)) {
+    processed = trimSilence(
+      processed,
+      sampleRate,
+      options.silenceThreshold,
+      options.silencePadding,
+      isStart,
+      isEnd
+    );
+    // The trimmed samples are a view of the input
+    start = (processed.byteOffset - samples.byteOffset) / Float32Array.BYTES_PER_ELEMENT;
+  }
+
+  if (options.removeDcOffset) {
+    processed = removeDcOffset(processed, sampleRate);
+  }
+
+  let gain = context.gain ?? normalizationGain(processed, sampleRate, options);
+  if (context.gain !== undefined && options.normalize && options.normalize !== 'none') {
+    // A reused gain must still respect the peak ceiling for these samples
+    const peak = peakLevel(processed);
+    const ceiling = dbToGain(options.targetPeak ?? DEFAULT_TARGET_PEAK);
+    gain = peak > 0 ? Math.min(gain, ceiling / peak) : gain;
+  }
+  if (gain !== 1) {
+    processed = processed.map(sample => sample * gain);
+  }
+
+  const fadeIn = isStart ? options.fadeIn || 0 : 0;
+  const fadeOut = isEnd ? options.fadeOut || 0 : 0;
+  if (fadeIn > 0 || fadeOut > 0) {
+    processed = applyFades(processed, sampleRate, fadeIn, fadeOut);
+  }
+
+  return { samples: processed, gain, start };
+}
+
+/**
+ * Add triangular (TPDF) dither of one quantization step before samples are
+ * rounded to integers, so low-level detail decorrelates into noise instead of
+ * distortion
+ * @param {Float32Array} samples - Audio samples in [-1, 1]
+ * @param {number} bits - Bit depth the samples will be quantized to
+ * @returns {Float32Array} Dithered copy of the samples
+ */
+export function applyDither(samples: Float32Array, bits = 16): Float32Array {
+  const step = 1 / (2 ** (bits - 1) - 1);
+  return samples.map(sample => sample + (Math.random() - Math.random()) * step);
+}
@@ -0,0 +1,160 @@
+/**
+ * Base64 encoding and decoding of binary data.
+ *
+ * expo-file-system only reads and writes binary files as base64 strings. The
+ * encoder converts whole blocks of bytes with one String.fromCharCode call
+ * each and joins the blocks once at the end, so it never builds a "binary
+ * string" one character at a time. The decoder uses the native atob when the
+ * runtime has one and otherwise decodes straight into the output bytes.
+ */
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const PADDING = 61; // '='
+
+// Character code of each 6-bit value, and the value of each character code (255 if invalid)
+const ENCODE = Uint8Array.from(ALPHABET, char => char.charCodeAt(0));
+const DECODE = new Uint8Array(256).fill(255);
+ENCODE.forEach((code, value) => {
+  DECODE[code] = value;
+});
+
+// Characters per String.fromCharCode call, a multiple of 4 that stays well
+// below the engines' argument limits
+const BLOCK_CHARS = 0x8000;
+
+/**
+ * View binary data as bytes without copying it
+ * @param {ArrayBuffer | ArrayBufferView} data - Buffer or typed array
+ * @returns {Uint8Array} The bytes
+ */
+function asBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  return new Uint8Array(data);
+}
+
+/**
+ * Encode binary data as base64
+ * @param {ArrayBuffer | ArrayBufferView} data - Buffer or typed array to encode
+ * @returns {string} Base64 string with padding
+ */
+export function encodeBase64(data: ArrayBuffer | ArrayBufferView): string {
+  const bytes = asBytes(data);
+  const length = bytes.length;
+  const blocks: string[] = [];
+  const codes = new Uint16Array(Math.min(BLOCK_CHARS, Math.ceil(length / 3) * 4));
+  let position = 0;
+
+  // Whole groups of 3 bytes, a block of characters at a time
+  const whole = length - (length % 3);
+  for (let i = 0; i < whole; i += 3) {
+    const triple = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    codes[position] = ENCODE[triple >> 18];
+    codes[position + 1] = ENCODE[(triple >> 12) & 63];
+    codes[position + 2] = ENCODE[(triple >> 6) & 63];
+    codes[position + 3] = ENCODE[triple & 63];
+    position += 4;
+    if (position === codes.length) {
+      // Reflect.apply takes the typed array itself as the argument list
+      blocks.push(Reflect.apply(String.fromCharCode, null, codes));
+      position = 0;
+    }
+  }
+
+  // The last one or two bytes, padded
+  if (whole < length) {
+    const triple = (bytes[whole] << 16) | (whole + 1 < length ? bytes[whole + 1] << 8 : 0);
+    codes[position] = ENCODE[triple >> 18];
+    codes[position + 1] = ENCODE[(triple >> 12) & 63];
+    codes[position + 2] = whole + 1 < length ? ENCODE[(triple >> 6) & 63] : PADDING;
+    codes[position + 3] = PADDING;
+    position += 4;
+  }
+  if (position > 0) {
+    blocks.push(Reflect.apply(String.fromCharCode, null, codes.subarray(0, position)));
+  }
+  return blocks.join('');
+}
+
+/**
+ * Decode base64 to bytes
+ * @param {string} base64 - Base64 string, with or without padding (line breaks are ignored)
+ * @returns {Uint8Array} The decoded bytes, in a buffer of their own
+ */
+export function decodeBase64(base64: string): Uint8Array<ArrayBuffer> {
+  // The native decoder is the fastest where the runtime has one (Hermes, browsers) and skips
+  // whitespace itself. Input it rejects goes through the decoder below, which reports the position
+  // of the invalid character
+  if (typeof globalThis.atob === 'function') {
+    let binary: string | null = null;
+    try {
+      binary = globalThis.atob(base64);
+    } catch (error) {
+      binary = null;
+    }
+    if (binary !== null) {
+      const length = binary.length;
+      const bytes = new Uint8Array(length);
+      for (let i = 0; i < length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return bytes;
+    }
+  }
+
+  const text = /\s/.test(base64) ? base64.replace(/\s+/g, '') : base64;
+  let end = text.length;
+  while (end > 0 && text.charCodeAt(end - 1) === PADDING) {
+    end--;
+  }
+  if (end % 4 === 1) {
+    throw new Error('Invalid base64 length');
+  }
+
+  const bytes = new Uint8Array(Math.floor((end * 3) / 4));
+  const value = (i: number) => {
+    const code = text.charCodeAt(i);
+    const decoded = code < 256 ? DECODE[code] : 255;
+    if (decoded === 255) {
+      throw new Error(`Invalid base64 character at position ${i}`);
+    }
+    return decoded;
+  };
+
+  // Whole groups of 4 characters. Valid values fit in 6 bits, so one check per group catches an
+  // invalid character, which value() then locates
+  const whole = end - (end % 4);
+  let position = 0;
+  for (let i = 0; i < whole; i += 4) {
+    const codeA = text.charCodeAt(i);
+    const codeB = text.charCodeAt(i + 1);
+    const codeC = text.charCodeAt(i + 2);
+    const codeD = text.charCodeAt(i + 3);
+    const a = DECODE[codeA & 0xff];
+    const b = DECODE[codeB & 0xff];
+    const c = DECODE[codeC & 0xff];
+    const d = DECODE[codeD & 0xff];
+    if ((codeA | codeB | codeC | codeD) > 255 || (a | b | c | d) > 63) {
+      for (let j = i; j < i + 4; j++) {
+        value(j);
+      }
+    }
+    bytes[position++] = (a << 2) | (b >> 4);
+    bytes[position++] = ((b & 15) << 4) | (c >> 2);
+    bytes[position++] = ((c & 3) << 6) | d;
+  }
+
+  // A final group of 2 or 3 characters holds 1 or 2 bytes
+  if (end - whole >= 2) {
+    const bits = (value(whole) << 18) | (value(whole + 1) << 12) | (end - whole === 3 ? value(whole + 2) << 6 : 0);
+    bytes[position++] = bits >> 16;
+    if (end - whole === 3) {
+      bytes[position] = (bits >> 8) & 0xff;
+    }
+  }
+  return bytes;
+}
@@ -0,0 +1,152 @@
+/**
+ * British English (Received Pronunciation) phonemization rules.
+ *
+ * The bundled lexicon and letter-to-sound rules produce General American
+ * pronunciations. For British voices these are rewritten: the accent is
+ * non-rhotic (r is only pronounced before a vowel), the GOAT vowel is əʊ,
+ * NURSE is ɜː, LOT is ɒ, the BATH words take ɑː and yod is kept after t, d
+ * and n ("tune", "new"). Words whose British pronunciation is not
+ * predictable from the American one are listed in a small lexicon.
+ */
+
+// Pronunciations that differ from the American ones in unpredictable ways
+const BRITISH_LEXICON: Record<string, string> = {
+  adult: 'ˈædʌlt',
+  adults: 'ˈædʌlts',
+  advertisement: 'ədvˈɜːtɪsmənt',
+  aluminium: 'ˌæljəmˈɪniəm',
+  because: 'bɪkˈɒz',
+  been: 'bˈiːn',
+  clerk: 'klˈɑːk',
+  either: 'ˈaɪðə',
+  fragile: 'fɹˈæʤaɪl',
+  garage: 'ɡˈæɹɑːʒ',
+  herb: 'hˈɜːb',
+  herbs: 'hˈɜːbz',
+  hostile: 'hˈɒstaɪl',
+  laboratory: 'ləbˈɒɹətɹi',
+  leisure: 'lˈɛʒə',
+  lieutenant: 'lɛftˈɛnənt',
+  missile: 'mˈɪsaɪl',
+  mobile: 'mˈəʊbaɪl',
+  neither: 'nˈaɪðə',
+  privacy: 'pɹˈɪvəsi',
+  process: 'pɹˈəʊsɛs',
+  progress: 'pɹˈəʊɡɹɛs',
+  route: 'ɹˈuːt',
+  routes: 'ɹˈuːts',
+  schedule: 'ʃˈɛdjuːl',
+  tomato: 'təmˈɑːtəʊ',
+  tomatoes: 'təmˈɑːtəʊz',
+  vase: 'vˈɑːz',
+  vitamin: 'vˈɪtəmɪn',
+  vitamins: 'vˈɪtəmɪnz',
+  yoghurt: 'jˈɒɡət',
+  zebra: 'zˈɛbɹə',
+};
+
+// Words with the BATH vowel (ɑː where American English has æ), with their inflections
+const BATH_WORDS = new RegExp(
+  '^(?:' +
+    [
+      'advantage', 'after', 'afternoon', 'answer', 'ask', 'aunt', 'banana', 'basket', 'bath',
+      'blast', 'branch', 'can\'t', 'cast', 'castle', 'chance', 'class', 'command', 'dance',
+      'demand', 'disaster', 'draft', 'example', 'fast', 'glance', 'glass', 'graph',
+      'grass', 'half', 'last', 'laugh', 'mask', 'master', 'nasty', 'pass', 'past', 'path',
+      'plant', 'rather', 'shaft', 'staff', 'task', 'vast',
+    ].join('|') +
+    ")(?:s|es|ed|ing|er|ers|y|ly)?$"
+);
+
+const VOWEL = '[ɑɐɒæəɘɚɛɜɝɞɨɪʊʌɔaeiou]';
+
+// Lookahead for a following vowel, skipping an intervening stress mark
+const BEFORE_VOWEL = `(?=[ˈˌ]?${VOWEL})`;
+const NOT_BEFORE_VOWEL = `(?![ˈˌ]?${VOWEL})`;
+
+/**
+ * Whether a word is likely spelled with the LOT vowel ("hot", "want", "quality")
+ * @param {string} word - Lowercase word
+ * @returns {boolean} Whether the spelling suggests ɒ rather than ɑː or ɔː
+ */
+function hasLotSpelling(word: string): boolean {
+  return /o/.test(word.replace(/o[aou]|ow/g, '')) || /(?:^|[^e])(?:w|qu)a/.test(word);
+}
+
+/**
+ * Whether a word is spelled with the THOUGHT vowel ("taught", "saw", "talk", "also")
+ * @param {string} word - Lowercase word
+ * @returns {boolean} Whether the spelling suggests ɔː
+ */
+function hasThoughtSpelling(word: string): boolean {
+  return /au|aw|ough|oa|al[^aeiouy]|al$/.test(word);
+}
+
+/**
+ * Look up a word in the British pronunciation lexicon
+ * @param {string} word - Lowercase word
+ * @returns {string | null} IPA pronunciation, or null if the word is not listed
+ */
+export function lookupBritishWord(word: string): string | null {
+  return BRITISH_LEXICON[word] || null;
+}
+
+/**
+ * Rewrite a General American pronunciation as British English
+ * @param {string} phonemes - American IPA pronunciation of the word
+ * @param {string} word - Lowercase spelling of the word, used to pick LOT, THOUGHT and BATH vowels
+ * @returns {string} British IPA pronunciation
+ */
+export function toBritishPhonemes(phonemes: string, word: string): string {
+  let result = phonemes;
+
+  // BATH words: the first stressed æ becomes ɑː
+  if (BATH_WORDS.test(word)) {
+    result = result.replace(/([ˈˌ])æ/, '$1ɑː');
+  }
+
+  // LOT: American ɑː spelled with o (or wa/qua) is ɒ, also before a pronounced r ("sorry")
+  if (hasLotSpelling(word)) {
+    result = result.replace(new RegExp(`ɑː(?!ɹ${NOT_BEFORE_VOWEL})`, 'g'), 'ɒ');
+  }
+
+  // THOUGHT/CLOTH: American ɔː spelled with o is ɒ, unless it is written au/aw/ough/al
+  if (/o/.test(word) && !hasThoughtSpelling(word)) {
+    result = result.replace(/ɔː(?!ɹ)/g, 'ɒ');
+  }
+
+  // NURSE and lettER before a vowel keep their r ("hurry", "every")
+  result = result
+    .replace(new RegExp(`ɝɹ?${BEFORE_VOWEL}`, 'g'), 'ʌɹ')
+    .replace(new RegExp(`ɚ${BEFORE_VOWEL}`, 'g'), 'əɹ')
+    .replace(/ɝ/g, 'ɜː')
+    .replace(/ɚ/g, 'ə');
+
+  // Non-rhotic: r is dropped unless a vowel follows, leaving a centring diphthong
+  result = result
+    .replace(new RegExp(`(?:ɪ|iː)ɹ${NOT_BEFORE_VOWEL}`, 'g'), 'ɪə')
+    .replace(new RegExp(`ɛɹ${NOT_BEFORE_VOWEL}`, 'g'), 'ɛə')
+    .replace(new RegExp(`(?:ʊ|uː)ɹ${NOT_BEFORE_VOWEL}`, 'g'), 'ʊə')
+    .replace(new RegExp(`(aɪ|aʊ)ɹ${NOT_BEFORE_VOWEL}`, 'g'), '$1ə')
+    .replace(new RegExp(`(${VOWEL}ː?)ɹ${NOT_BEFORE_VOWEL}`, 'g'), '$1');
+
+  // GOAT
+  result = result.replace(/oʊ/g, 'əʊ');
+
+  // Yod is kept after t, d and n when spelled u/ew/eu ("tune", "new", "duty")
+  if (/(?:^|[^o])u|ew|eu/.test(word)) {
+    result = result.replace(/([tdn])([ˈˌ]?uː)/g, '$1j$2');
+  }
+
+  return result;
+}
+
+/**
+ * Whether a word ends in a written r that is pronounced before a following vowel
+ * ("far away", "here it is")
+ * @param {string} word - Lowercase word
+ * @returns {boolean} Whether a linking r should be added before a vowel
+ */
+export function hasLinkingR(word: string): boolean {
+  return /re?$/.test(word);
+}
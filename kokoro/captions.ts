@@ -0,0 +1,177 @@
+import type { WordTiming } from './wordTiming';
+
+/**
+ * SRT and WebVTT captions from word timings.
+ *
+ * Words are grouped into cues that end at every sentence end and otherwise
+ * when the next word would not fit on the cue's lines or would keep it on
+ * screen too long. A cue that has to be cut mid-sentence is cut after a clause
+ * (a comma, semicolon, colon or dash) in its second half when there is one.
+ * Sentence and clause ends come from the punctuation that was spoken, so an
+ * abbreviation's period does not end a cue.
+ */
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CaptionOptions {
+  // Longest line in characters (a longer single word gets a line of its own)
+  maxLineLength?: number;
+  // Lines per cue
+  maxLines?: number;
+  // Longest time a cue stays on screen, in milliseconds
+  maxCueDuration?: number;
+  // Shortest time a cue stays on screen, in milliseconds, if the next cue leaves room
+  minCueDuration?: number;
+}
+
+export interface CaptionCue {
+  // Start and end in milliseconds
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const DEFAULT_OPTIONS: Required<CaptionOptions> = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 6000,
+  minCueDuration: 1000,
+};
+
+const SENTENCE_END = /[.!?…]/;
+const CLAUSE_END = /[,;:—]/;
+
+/**
+ * Wrap words onto lines, filling each line before starting the next
+ * @param {string[]} words - Words in order
+ * @param {number} maxLineLength - Longest line in characters
+ * @returns {string[]} The lines
+ */
+function wrapLines(words: string[], maxLineLength: number): string[] {
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines.length - 1;
+    if (last >= 0 && lines[last].length + 1 + word.length <= maxLineLength) {
+      lines[last] += ' ' + word;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Group word timings into caption cues
+ * @param {WordTiming[]} timings - Word timings in order, e.g. from generateAudio()
+ * @param {CaptionOptions} options - Line and duration limits
+ * @returns {CaptionCue[]} Cues in order, not overlapping
+ */
+export function buildCues(timings: WordTiming[], options: CaptionOptions = {}): CaptionCue[] {
+  const { maxLineLength, maxLines, maxCueDuration, minCueDuration } = { ...DEFAULT_OPTIONS, ...options };
+  if (!(maxLineLength >= 1 && maxLines >= 1 && maxCueDuration > 0)) {
+    throw new Error('Caption line length, line count and cue duration must be positive');
+  }
+
+  const groups: WordTiming[][] = [];
+  const fits = (words: WordTiming[]) =>
+    wrapLines(words.map(word => word.text), maxLineLength).length <= maxLines &&
+    words[words.length - 1].end - words[0].start <= maxCueDuration;
+
+  let current: WordTiming[] = [];
+  for (const timing of timings) {
+    if (current.length > 0 && !fits([...current, timing])) {
+      // Cut after the last clause in the second half of the cue, if any
+      let cut = current.length;
+      for (let i = current.length - 2; i >= Math.floor(current.length / 2); i--) {
+        if (CLAUSE_END.test(current[i].punctuation)) {
+          cut = i + 1;
+          break;
+        }
+      }
+      groups.push(current.slice(0, cut));
+      current = current.slice(cut);
+      if (current.length > 0 && !fits([...current, timing])) {
+        groups.push(current);
+        current = [];
+      }
+    }
+
+    current.push(timing);
+    if (SENTENCE_END.test(timing.punctuation)) {
+      groups.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((words, index) => {
+    const start = words[0].start;
+    const next = groups[index + 1];
+    // Short cues stay up a little longer, but never into the next one
+    let end = Math.max(words[words.length - 1].end, Math.min(start + minCueDuration, start + maxCueDuration));
+    if (next) {
+      end = Math.max(words[words.length - 1].end, Math.min(end, next[0].start));
+    }
+    return { start, end, lines: wrapLines(words.map(word => word.text), maxLineLength) };
+  });
+}
+
+/**
+ * Format a time for a caption file
+ * @param {number} milliseconds - Time from the start of the audio
+ * @param {string} separator - Separator before the milliseconds ("," for SRT, "." for WebVTT)
+ * @returns {string} The time as HH:MM:SS,mmm
+ */
+function formatTime(milliseconds: number, separator: string): string {
+  const total = Math.max(0, Math.round(milliseconds));
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Format cues as an SRT file
+ * @param {CaptionCue[]} cues - Cues in order
+ * @returns {string} The file contents
+ */
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatTime(cue.start, ',')} --> ${formatTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+/**
+ * Format cues as a WebVTT file
+ * @param {CaptionCue[]} cues - Cues in order
+ * @returns {string} The file contents
+ */
+export function formatWebVtt(cues: CaptionCue[]): string {
+  // "-->" may not appear in cue text, and "&" and "<" start entities and tags
+  const escape = (line: string) => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;');
+  const body = cues
+    .map(cue => `${formatTime(cue.start, '.')} --> ${formatTime(cue.end, '.')}\n${cue.lines.map(escape).join('\n')}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Build a caption file from word timings
+ * @param {WordTiming[]} timings - Word timings in order
+ * @param {CaptionFormat} format - 'srt' or 'vtt'
+ * @param {CaptionOptions} options - Line and duration limits
+ * @returns {string} The file contents
+ */
+export function buildCaptions(timings: WordTiming[], format: CaptionFormat, options: CaptionOptions = {}): string {
+  const cues = buildCues(timings, options);
+  if (format === 'srt') {
+    return formatSrt(cues);
+  }
+  if (format === 'vtt') {
+    return formatWebVtt(cues);
+  }
+  throw new Error(`Unsupported caption format: ${format}`);
+}
@@ -0,0 +1,134 @@
+/**
+ * Splitting of long phoneme strings into chunks the model can synthesize.
+ *
+ * The model takes at most MAX_PHONEME_LENGTH tokens and its style vector is
+ * chosen by input length, so long text is synthesized chunk by chunk. Chunks
+ * end at sentence boundaries where possible, then at clause punctuation, and
+ * only split between words as a last resort. Each chunk records the pause
+ * that should follow it when the waveforms are joined.
+ */
+
+export interface PhonemeChunk {
+  // Phonemes for the chunk
+  phonemes: string;
+  // Silence to insert after the chunk, in milliseconds
+  pause: number;
+}
+
+// Pauses between chunks, by the punctuation the chunk ends with
+const SENTENCE_PAUSE = 300;
+const CLAUSE_PAUSE = 150;
+const WORD_PAUSE = 0;
+
+const SENTENCE_END = /[.!?…]["”»]?$/;
+const CLAUSE_END = /[,;:—]["”»]?$/;
+
+/**
+ * Length of a phoneme string in model tokens
+ * @param {string} phonemes - Phoneme string
+ * @returns {number} Number of symbols
+ */
+function tokenLength(phonemes: string): number {
+  return Array.from(phonemes).length;
+}
+
+/**
+ * The pause that follows a piece of text
+ * @param {string} phonemes - Phonemes of the piece
+ * @returns {number} Pause in milliseconds
+ */
+function pauseAfter(phonemes: string): number {
+  if (SENTENCE_END.test(phonemes)) {
+    return SENTENCE_PAUSE;
+  }
+  if (CLAUSE_END.test(phonemes)) {
+    return CLAUSE_PAUSE;
+  }
+  return WORD_PAUSE;
+}
+
+/**
+ * Split text after the separators matched by a pattern, keeping the separators
+ * @param {string} phonemes - Phoneme string
+ * @param {RegExp} boundary - Global pattern matching the end of a piece
+ * @returns {string[]} Trimmed, non-empty pieces
+ */
+function splitAfter(phonemes: string, boundary: RegExp): string[] {
+  return phonemes
+    .split(boundary)
+    .map(piece => piece.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Split a piece that is too long at the next finer boundary
+ * @param {string} phonemes - Phoneme string
+ * @param {number} maxLength - Maximum chunk length in tokens
+ * @returns {string[]} Pieces no longer than maxLength
+ */
+function splitToFit(phonemes: string, maxLength: number): string[] {
+  if (tokenLength(phonemes) <= maxLength) {
+    return [phonemes];
+  }
+
+  // Clauses, then words, then (for a single enormous word) characters
+  const clauses = splitAfter(phonemes, /(?<=[,;:—])\s+/);
+  if (clauses.length > 1) {
+    return packPieces(clauses.flatMap(clause => splitToFit(clause, maxLength)), maxLength, false);
+  }
+
+  const words = phonemes.split(/\s+/).filter(Boolean);
+  if (words.length > 1) {
+    return packPieces(words.flatMap(word => splitToFit(word, maxLength)), maxLength, false);
+  }
+
+  const symbols = Array.from(phonemes);
+  const pieces = [];
+  for (let i = 0; i < symbols.length; i += maxLength) {
+    pieces.push(symbols.slice(i, i + maxLength).join(''));
+  }
+  return pieces;
+}
+
+/**
+ * Greedily join consecutive pieces while they fit
+ * @param {string[]} pieces - Pieces no longer than maxLength
+ * @param {number} maxLength - Maximum chunk length in tokens
+ * @param {boolean} keepSentences - Whether a sentence end always closes a chunk
+ * @returns {string[]} Joined pieces
+ */
+function packPieces(pieces: string[], maxLength: number, keepSentences: boolean): string[] {
+  const packed: string[] = [];
+  for (const piece of pieces) {
+    const last = packed[packed.length - 1];
+    const canJoin = last !== undefined && !(keepSentences && SENTENCE_END.test(last));
+    if (canJoin && tokenLength(last) + 1 + tokenLength(piece) <= maxLength) {
+      packed[packed.length - 1] = `${last} ${piece}`;
+    } else {
+      packed.push(piece);
+    }
+  }
+  return packed;
+}
+
+/**
+ * Split a phoneme string into chunks that fit the model
+ * @param {string} phonemes - Phoneme string for the whole text
+ * @param {number} maxLength - Maximum chunk length in tokens
+ * @param {boolean} perSentence - Keep every sentence in its own chunk instead of
+ * packing as many sentences as fit (gives a short first chunk when streaming)
+ * @returns {PhonemeChunk[]} Chunks with the pause that follows each
+ */
+export function chunkPhonemes(phonemes: string, maxLength: number, perSentence = false): PhonemeChunk[] {
+  const sentences = splitAfter(phonemes, /(?<=[.!?…]["”»]?)\s+/);
+  const pieces = packPieces(
+    sentences.flatMap(sentence => splitToFit(sentence, maxLength)),
+    maxLength,
+    perSentence
+  );
+
+  return pieces.map((piece, index) => ({
+    phonemes: piece,
+    pause: index === pieces.length - 1 ? 0 : pauseAfter(piece),
+  }));
+}
@@ -0,0 +1,30042 @@
+/**
+ * Bundled CMU Pronouncing Dictionary subset.
+ *
+ * The 30,000 most frequent words of spoken American English (ranked by the
+ * SUBTLEX-US subtitle corpus) that have a CMUdict entry, with their ARPAbet
+ * phones and stress digits. CMUdict is in the public domain; entries the
+ * engine pronounces differently live in the lexicon module's own table.
+ */
+
+// One entry per line: WORD PH ON ES
+export const CMUDICT_DATA = `
+a AH0
+aaa T R IH2 P AH0 L EY1
+aardvark AA1 R D V AA2 R K
+aargh AA1 R G
+aaron EH1 R AH0 N
+ab AE1 B
+aback AH0 B AE1 K
+abalone AE2 B AH0 L OW1 N IY0
+abandon AH0 B AE1 N D AH0 N
+abandoned AH0 B AE1 N D AH0 N D
+abandoning AH0 B AE1 N D AH0 N IH0 NG
+abandonment AH0 B AE1 N D AH0 N M AH0 N T
+abandons AH0 B AE1 N D AH0 N Z
+abbey AE1 B IY0
+abbot AE1 B AH0 T
+abbott AE1 B AH0 T
+abbreviated AH0 B R IY1 V IY0 EY2 T IH0 D
+abby AE1 B IY0
+abc EY1 B IY2 S IY2
+abdomen AE0 B D OW1 M AH0 N
+abdominal AE0 B D AA1 M AH0 N AH0 L
+abduct AE0 B D AH1 K T
+abducted AE0 B D AH1 K T IH0 D
+abductee AE0 B D AH2 K T IY1
+abductees AE0 B D AH2 K T IY1 Z
+abducting AE0 B D AH1 K T IH0 NG
+abduction AE0 B D AH1 K SH AH0 N
+abductions AE0 B D AH1 K SH AH0 N Z
+abductor AE0 B D AH1 K T ER0
+abel EY1 B AH0 L
+aberdeen AE1 B ER0 D IY2 N
+aberrant AE0 B EH1 R AH0 N T
+aberration AE2 B ER0 EY1 SH AH0 N
+abetting AH0 B EH1 T IH0 NG
+abide AH0 B AY1 D
+abiding AH0 B AY1 D IH0 NG
+abigail AE1 B AH0 G EY2 L
+abilene AE1 B IH0 L IY2 N
+abilities AH0 B IH1 L AH0 T IY2 Z
+ability AH0 B IH1 L AH0 T IY2
+abject AE1 B JH EH0 K T
+ablaze AH0 B L EY1 Z
+able EY1 B AH0 L
+abner AE1 B N ER0
+abnormal AE0 B N AO1 R M AH0 L
+abnormalities AE2 B N AO0 R M AE1 L AH0 T IY0 Z
+abnormality AE2 B N AO0 R M AE1 L AH0 T IY0
+abnormally AE0 B N AO1 R M AH0 L IY0
+aboard AH0 B AO1 R D
+abode AH0 B OW1 D
+abolish AH0 B AA1 L IH0 SH
+abolished AH0 B AA1 L IH0 SH T
+abominable AH0 B AA1 M AH0 N AH0 B AH0 L
+abomination AH0 B AA2 M AH0 N EY1 SH AH0 N
+abort AH0 B AO1 R T
+aborted AH0 B AO1 R T IH0 D
+aborting AH0 B AO1 R T IH0 NG
+abortion AH0 B AO1 R SH AH0 N
+abortions AH0 B AO1 R SH AH0 N Z
+abound AH0 B AW1 N D
+about AH0 B AW1 T
+above AH0 B AH1 V
+aboveboard AH0 B AH1 V B AO2 R D
+abracadabra AE2 B R AH0 K AH0 D AE1 B R AH0
+abraham EY1 B R AH0 HH AE2 M
+abrasion AH0 B R EY1 ZH AH0 N
+abrasions AH0 B R EY1 ZH AH0 N Z
+abrasive AH0 B R EY1 S IH0 V
+abraxas AH0 B R AE1 K S AH0 Z
+abreast AH0 B R EH1 S T
+abroad AH0 B R AO1 D
+abrupt AH0 B R AH1 P T
+abruptly AH0 B R AH1 P T L IY0
+abs EY1 B IY1 EH1 S
+abscess AE1 B S EH2 S
+absence AE1 B S AH0 N S
+absences AE1 B S AH0 N S IH0 Z
+absent AE1 B S AH0 N T
+absentee AE2 B S AH0 N T IY1
+absinthe AE1 B S IH0 N TH
+absolute AE1 B S AH0 L UW2 T
+absolutely AE2 B S AH0 L UW1 T L IY0
+absolutes AE1 B S AH0 L UW2 T S
+absolution AE2 B S AH0 L UW1 SH AH0 N
+absolve AH0 B Z AA1 L V
+absolved AH0 B Z AA1 L V D
+absorb AH0 B Z AO1 R B
+absorbed AH0 B Z AO1 R B D
+absorbing AH0 B Z AO1 R B IH0 NG
+absorbs AH0 B Z AO1 R B Z
+absorption AH0 B Z AO1 R P SH AH0 N
+abstain AH0 B S T EY1 N
+abstinence AE1 B S T AH0 N AH0 N S
+abstract AE0 B S T R AE1 K T
+abstraction AE0 B S T R AE1 K SH AH0 N
+absurd AH0 B S ER1 D
+absurdity AH0 B S ER1 D AH0 T IY0
+absurdly AH0 B S ER1 D L IY0
+abu AE1 B UW0
+abundance AH0 B AH1 N D AH0 N S
+abundant AH0 B AH1 N D AH0 N T
+abundantly AH0 B AH1 N D AH0 N T L IY0
+abuse AH0 B Y UW1 S
+abused AH0 B Y UW1 Z D
+abuser AH0 B Y UW1 Z ER0
+abuses AH0 B Y UW1 S IH0 Z
+abusing AH0 B Y UW1 Z IH0 NG
+abusive AH0 B Y UW1 S IH0 V
+abysmal AH0 B IH1 Z M AH0 L
+abyss AH0 B IH1 S
+ac EY1 S IY1
+academic AE2 K AH0 D EH1 M IH0 K
+academics AE2 K AH0 D EH1 M IH0 K S
+academy AH0 K AE1 D AH0 M IY0
+acapulco AE2 K AH0 P UH1 L K OW0
+accelerant AE0 K S EH1 L ER0 AH0 N T
+accelerate AE0 K S EH1 L ER0 EY2 T
+accelerated AE0 K S EH1 L ER0 EY2 T IH0 D
+accelerating AE0 K S EH1 L ER0 EY2 T IH0 NG
+acceleration AE2 K S EH2 L ER0 EY1 SH AH0 N
+accelerator AE0 K S EH1 L ER0 EY2 T ER0
+accent AH0 K S EH1 N T
+accents AE1 K S EH0 N T S
+accentuate AE0 K S EH1 N CH UW0 EY0 T
+accept AE0 K S EH1 P T
+acceptable AE0 K S EH1 P T AH0 B AH0 L
+acceptance AE0 K S EH1 P T AH0 N S
+accepted AE0 K S EH1 P T IH0 D
+accepting AE0 K S EH1 P T IH0 NG
+accepts AE0 K S EH1 P T S
+access AE1 K S EH2 S
+accessed AE1 K S EH2 S T
+accessible AE0 K S EH1 S AH0 B AH0 L
+accessing AE1 K S EH2 S IH0 NG
+accessories AE0 K S EH1 S ER0 IY0 Z
+accessorize AE0 K S EH1 S ER0 AY2 Z
+accessory AE0 K S EH1 S ER0 IY0
+accident AE1 K S AH0 D AH0 N T
+accidental AE2 K S AH0 D EH1 N T AH0 L
+accidentally AE2 K S AH0 D EH1 N T AH0 L IY0
+accidents AE1 K S AH0 D AH0 N T S
+acclaim AH0 K L EY1 M
+acclaimed AH0 K L EY1 M D
+accommodate AH0 K AA1 M AH0 D EY2 T
+accommodating AH0 K AA1 M AH0 D EY2 T IH0 NG
+accommodation AH0 K AA2 M AH0 D EY1 SH AH0 N
+accommodations AH0 K AA2 M AH0 D EY1 SH AH0 N Z
+accompanied AH0 K AH1 M P AH0 N IY0 D
+accompanies AH0 K AH1 M P AH0 N IY0 Z
+accompaniment AH0 K AH1 M P N IH0 M AH0 N T
+accompany AH0 K AH1 M P AH0 N IY0
+accompanying AH0 K AH1 M P AH0 N IY0 IH0 NG
+accomplice AH0 K AA1 M P L AH0 S
+accomplices AH0 K AA1 M P L AH0 S AH0 Z
+accomplish AH0 K AA1 M P L IH0 SH
+accomplished AH0 K AA1 M P L IH0 SH T
+accomplishing AH0 K AA1 M P L IH0 SH IH0 NG
+accomplishment AH0 K AA1 M P L IH0 SH M AH0 N T
+accomplishments AH0 K AA1 M P L IH0 SH M AH0 N T S
+accord AH0 K AO1 R D
+accordance AH0 K AO1 R D AH0 N S
+according AH0 K AO1 R D IH0 NG
+accordingly AH0 K AO1 R D IH0 NG L IY0
+accordion AH0 K AO1 R D IY0 AH0 N
+accosted AH0 K AA1 S T IH0 D
+account AH0 K AW1 N T
+accountability AH0 K AW1 N T AH0 B IH2 L IH0 T IY0
+accountable AH0 K AW1 N T AH0 B AH0 L
+accountant AH0 K AW1 N T AH0 N T
+accountants AH0 K AW1 N T AH0 N T S
+accounted AH0 K AW1 N T IH0 D
+accounting AH0 K AW1 N T IH0 NG
+accounts AH0 K AW1 N T S
+accredited AH0 K R EH1 D IH0 T IH0 D
+accrued AH0 K R UW1 D
+accumulate AH0 K Y UW1 M Y AH0 L EY2 T
+accumulated AH0 K Y UW1 M Y AH0 L EY2 T IH0 D
+accumulating AH0 K Y UW1 M Y AH0 L EY2 T IH0 NG
+accumulation AH0 K Y UW2 M Y AH0 L EY1 SH AH0 N
+accuracy AE1 K Y ER0 AH0 S IY0
+accurate AE1 K Y ER0 AH0 T
+accurately AE1 K Y ER0 AH0 T L IY0
+accursed AE2 K ER1 S T
+accusation AE2 K Y AH0 Z EY1 SH AH0 N
+accusations AE2 K Y AH0 Z EY1 SH AH0 N Z
+accuse AH0 K Y UW1 Z
+accused AH0 K Y UW1 Z D
+accuser AH0 K Y UW1 Z ER0
+accuses AH0 K Y UW1 Z IH0 Z
+accusing AH0 K Y UW1 Z IH0 NG
+accustomed AH0 K AH1 S T AH0 M D
+ace EY1 S
+aced EY1 S T
+aces EY1 S IH0 Z
+acetylene AH0 S EH1 T AH0 L IY2 N
+ach EY1 S IY1 EY1 CH
+ache EY1 K
+ached EY1 K T
+aches EY1 K S
+achieve AH0 CH IY1 V
+achieved AH0 CH IY1 V D
+achievement AH0 CH IY1 V M AH0 N T
+achievements AH0 CH IY1 V M AH0 N T S
+achieves AH0 CH IY1 V Z
+achieving AH0 CH IY1 V IH0 NG
+achilles AH0 K IH1 L IY0 Z
+aching EY1 K IH0 NG
+achy EY1 K IY0
+acid AE1 S AH0 D
+acids AE1 S AH0 D Z
+ack AE1 K
+acknowledge AE0 K N AA1 L IH0 JH
+acknowledged AE0 K N AA1 L IH0 JH D
+acknowledgement AE0 K N AA1 L IH0 JH M AH0 N T
+acknowledges AE0 K N AA1 L IH0 JH IH0 Z
+acknowledging AE0 K N AA1 L IH0 JH IH0 NG
+acknowledgment AE0 K N AA1 L IH0 JH M AH0 N T
+acme AE1 K M IY0
+acne AE1 K N IY0
+acorn EY1 K AO0 R N
+acorns EY1 K AO0 R N Z
+acoustic AH0 K UW1 S T IH0 K
+acoustics AH0 K UW1 S T IH0 K S
+acquaint AH0 K W EY1 N T
+acquaintance AH0 K W EY1 N T AH0 N S
+acquaintances AH0 K W EY1 N T AH0 N S IH0 Z
+acquainted AH0 K W EY1 N T IH0 D
+acquire AH0 K W AY1 ER0
+acquired AH0 K W AY1 ER0 D
+acquiring AH0 K W AY1 R IH0 NG
+acquisition AE2 K W AH0 Z IH1 SH AH0 N
+acquisitions AE2 K W AH0 Z IH1 SH AH0 N Z
+acquit AH0 K W IH1 T
+acquittal AH0 K W IH1 T AH0 L
+acquitted AH0 K W IH1 T IH0 D
+acre EY1 K ER0
+acreage EY1 K ER0 IH0 JH
+acres EY1 K ER0 Z
+acrobat AE1 K R AH0 B AE2 T
+acrobats AE1 K R AH0 B AE2 T S
+acronym AE1 K R AH0 N IH0 M
+across AH0 K R AO1 S
+acrylic AH0 K R IH1 L IH0 K
+act AE1 K T
+acted AE1 K T IH0 D
+actin AE1 K T AH0 N
+acting AE1 K T IH0 NG
+action AE1 K SH AH0 N
+actions AE1 K SH AH0 N Z
+activate AE1 K T AH0 V EY2 T
+activated AE1 K T AH0 V EY2 T IH0 D
+activates AE1 K T AH0 V EY2 T S
+activating AE1 K T AH0 V EY2 T IH0 NG
+activation AE2 K T AH0 V EY1 SH AH0 N
+active AE1 K T IH0 V
+actively AE1 K T IH0 V L IY0
+activist AE1 K T AH0 V AH0 S T
+activists AE1 K T AH0 V AH0 S T S
+activities AE0 K T IH1 V AH0 T IY0 Z
+activity AE0 K T IH1 V AH0 T IY0
+actor AE1 K T ER0
+actors AE1 K T ER0 Z
+actress AE1 K T R AH0 S
+actresses AE1 K T R AH0 S IH0 Z
+acts AE1 K T S
+actual AE1 K CH AH0 W AH0 L
+actuality AE2 K CH UW0 AE1 L AH0 T IY2
+actually AE1 K CH UW2 AH0 L IY0
+acuity AH0 K Y UW1 AH0 T IY0
+acupuncture AE1 K Y UW0 P AH2 NG K CH ER0
+acute AH0 K Y UW1 T
+acutely AH0 K Y UW1 T L IY0
+ad AE1 D
+adage AE1 D AH0 JH
+adam AE1 D AH0 M
+adamant AE1 D AH0 M AH0 N T
+adams AE1 D AH0 M Z
+adapt AH0 D AE1 P T
+adaptable AH0 D AE1 P T AH0 B AH0 L
+adaptation AE2 D AH0 P T EY1 SH AH0 N
+adapted AH0 D AE1 P T IH0 D
+adapting AH0 D AE1 P T IH0 NG
+add AE1 D
+added AE1 D AH0 D
+addendum AH0 D EH1 N D AH0 M
+adder AE1 D ER0
+addict AH0 D IH1 K T
+addicted AH0 D IH1 K T IH0 D
+addiction AH0 D IH1 K SH AH0 N
+addictions AH0 D IH1 K SH AH0 N Z
+addictive AH0 D IH1 K T IH0 V
+addicts AH0 D IH1 K T S
+adding AE1 D IH0 NG
+addison AE1 D AH0 S AH0 N
+addition AH0 D IH1 SH AH0 N
+additional AH0 D IH1 SH AH0 N AH0 L
+additionally AH0 D IH1 SH AH0 N AH2 L IY0
+address AE1 D R EH2 S
+addressed AH0 D R EH1 S T
+addresses AE1 D R EH1 S IH0 Z
+addressing AH0 D R EH1 S IH0 NG
+adds AE1 D Z
+ade EY1 D
+adept AH0 D EH1 P T
+adequate AE1 D AH0 K W AH0 T
+adequately AE1 D AH0 K W AH0 T L IY0
+adhere AH0 D HH IH1 R
+adhesive AE0 D HH IY1 S IH0 V
+adieu AH0 D UW1
+adios AA2 D IY0 OW1 S
+adjacent AH0 JH EY1 S AH0 N T
+adjective AE1 JH IH0 K T IH0 V
+adjectives AE1 JH IH0 K T IH0 V Z
+adjoining AH0 JH OY1 N IH0 NG
+adjourn AH0 JH ER1 N
+adjourned AH0 JH ER1 N D
+adjust AH0 JH AH1 S T
+adjustable AH0 JH AH1 S T AH0 B AH0 L
+adjusted AH0 JH AH1 S T IH0 D
+adjuster AH0 JH AH1 S T ER0
+adjusting AH0 JH AH1 S T IH0 NG
+adjustment AH0 JH AH1 S T M AH0 N T
+adjustments AH0 JH AH1 S T M AH0 N T S
+adjutant AE1 JH AH0 T AH0 N T
+admin AE1 D M IH0 N
+administer AH0 D M IH1 N AH0 S T ER0
+administered AH0 D M IH1 N AH0 S T ER0 D
+administering AE0 D M IH1 N IH0 S T ER2 IH0 NG
+administration AE0 D M IH2 N IH0 S T R EY1 SH AH0 N
+administrations AE0 D M IH2 N IH0 S T R EY1 SH AH0 N Z
+administrative AH0 D M IH1 N AH0 S T R EY2 T IH0 V
+administrator AH0 D M IH1 N AH0 S T R EY2 T ER0
+administrators AE0 D M IH1 N IH0 S T R EY2 T ER0 Z
+admirable AE1 D M ER0 AH0 B AH0 L
+admirably AE1 D M ER0 AH0 B L IY0
+admiral AE1 D M ER0 AH0 L
+admirals AE1 D M ER0 AH0 L Z
+admiralty AE1 D M ER0 AH0 L T IY0
+admiration AE2 D M ER0 EY1 SH AH0 N
+admire AE0 D M AY1 R
+admired AH0 D M AY1 ER0 D
+admirer AE0 D M AY1 R ER0
+admirers AH0 D M AY1 R ER0 Z
+admires AE0 D M AY1 R Z
+admiring AE0 D M AY1 R IH0 NG
+admissible AH0 D M IH1 S AH0 B AH0 L
+admission AE0 D M IH1 SH AH0 N
+admissions AE0 D M IH1 SH AH0 N Z
+admit AH0 D M IH1 T
+admits AH0 D M IH1 T S
+admittance AH0 D M IH1 T AH0 N S
+admitted AH0 D M IH1 T IH0 D
+admittedly AE0 D M IH1 T IH0 D L IY0
+admitting AE0 D M IH1 T IH0 NG
+ado AH0 D UW1
+adobe AH0 D OW1 B IY0
+adolescence AE2 D AH0 L EH1 S AH0 N S
+adolescent AE2 D AH0 L EH1 S AH0 N T
+adolescents AE2 D AH0 L EH1 S AH0 N T S
+adolf EY1 D AA0 L F
+adolph EY1 D AO0 L F
+adonis AH0 D AA1 N AH0 S
+adopt AH0 D AA1 P T
+adopted AH0 D AA1 P T IH0 D
+adopting AH0 D AA1 P T IH0 NG
+adoption AH0 D AA1 P SH AH0 N
+adoptive AH0 D AA1 P T IH0 V
+adorable AH0 D AO1 R AH0 B AH0 L
+adoration AE2 D ER0 EY1 SH AH0 N
+adore AH0 D AO1 R
+adored AH0 D AO1 R D
+adores AH0 D AO1 R Z
+adoring AH0 D AO1 R IH0 NG
+adrenal AH0 D R IY1 N AH0 L
+adrenalin AH0 D R EH1 N AH0 L IH0 N
+adrenaline AH0 D R EH1 N AH0 L AH0 N
+adrift AH0 D R IH1 F T
+ads AE1 D Z
+adulation AE2 JH AH0 L EY1 SH AH0 N
+adult AH0 D AH1 L T
+adulterer AH0 D AH1 L T ER0 ER0
+adulterous AH0 D AH1 L T ER0 AH0 S
+adultery AH0 D AH1 L T ER0 IY0
+adulthood AH0 D AH1 L T HH UH2 D
+adults AH0 D AH1 L T S
+advance AH0 D V AE1 N S
+advanced AH0 D V AE1 N S T
+advancement AH0 D V AE1 N S M AH0 N T
+advances AH0 D V AE1 N S AH0 Z
+advancing AH0 D V AE1 N S IH0 NG
+advantage AE0 D V AE1 N T IH0 JH
+advantageous AE2 D V AH0 N T EY1 JH AH0 S
+advantages AE0 D V AE1 N T IH0 JH IH0 Z
+advent AE1 D V EH2 N T
+adventist AE1 D V EH2 N T IH0 S T
+adventure AE0 D V EH1 N CH ER0
+adventurer AE0 D V EH1 N CH ER0 ER0
+adventures AE0 D V EH1 N CH ER0 Z
+adventurous AE0 D V EH1 N CH ER0 AH0 S
+adversaries AE1 D V ER0 S EH2 R IY0 Z
+adversary AE1 D V ER0 S EH2 R IY0
+adverse AE0 D V ER1 S
+adversity AE0 D V ER1 S IH0 T IY2
+advertise AE1 D V ER0 T AY2 Z
+advertised AE1 D V ER0 T AY2 Z D
+advertisement AE0 D V ER1 T AH0 Z M AH0 N T
+advertisements AE1 D V ER0 T AY2 Z M AH0 N T S
+advertisers AE1 D V ER0 T AY2 Z ER0 Z
+advertising AE1 D V ER0 T AY2 Z IH0 NG
+advice AE0 D V AY1 S
+advisable AH0 D V AY1 Z AH0 B AH0 L
+advise AE0 D V AY1 Z
+advised AE0 D V AY1 Z D
+advisement AH0 D V AY1 Z M AH0 N T
+adviser AE0 D V AY1 Z ER0
+advisers AE0 D V AY1 Z ER0 Z
+advises AE0 D V AY1 Z IH0 Z
+advising AE0 D V AY1 Z IH0 NG
+advisor AE0 D V AY1 Z ER0
+advisors AE0 D V AY1 Z ER0 Z
+advisory AE0 D V AY1 Z ER0 IY0
+advocacy AE1 D V AH0 K AH0 S IY0
+advocate AE1 D V AH0 K AH0 T
+advocated AE1 D V AH0 K EY2 T IH0 D
+advocates AE1 D V AH0 K AH0 T S
+advocating AE1 D V AH0 K EY2 T IH0 NG
+ae EY1
+aegean IH0 JH IY1 AH0 N
+aerial EH1 R IY0 AH0 L
+aerobics ER0 OW1 B IH0 K S
+aerodynamic EH2 R OW0 D AY0 N AE1 M IH0 K
+aerodynamics EH2 R OW0 D AY0 N AE1 M IH0 K S
+aerosol EH1 R AH0 S AA2 L
+aerospace EH1 R OW0 S P EY2 S
+aesop IY1 S AA2 P
+aesthetic EH0 S TH EH1 T IH0 K
+aesthetics EH0 S TH EH1 T IH0 K S
+afar AH0 F AA1 R
+affair AH0 F EH1 R
+affairs AH0 F EH1 R Z
+affect AH0 F EH1 K T
+affected AH0 F EH1 K T IH0 D
+affecting AH0 F EH1 K T IH0 NG
+affection AH0 F EH1 K SH AH0 N
+affectionate AH0 F EH1 K SH AH0 N AH0 T
+affectionately AH0 F EH1 K SH AH0 N AH0 T L IY0
+affections AH0 F EH1 K SH AH0 N Z
+affects AH0 F EH1 K T S
+affidavit AE2 F AH0 D EY1 V AH0 T
+affidavits AE2 F IH0 D EY1 V IH0 T S
+affiliate AH0 F IH1 L IY0 EY2 T
+affiliated AH0 F IH1 L IY0 EY2 T IH0 D
+affiliates AH0 F IH1 L IY0 AH0 T S
+affiliation AH0 F IH2 L IY0 EY1 SH AH0 N
+affiliations AH0 F IH2 L IY0 EY1 SH AH0 N Z
+affinity AH0 F IH1 N AH0 T IY0
+affirm AH0 F ER1 M
+affirmation AE2 F ER0 M EY1 SH AH0 N
+affirmative AH0 F ER1 M AH0 T IH0 V
+afflicted AH0 F L IH1 K T IH0 D
+affliction AH0 F L IH1 K SH AH0 N
+affluent AE1 F L UW0 AH0 N T
+afford AH0 F AO1 R D
+affordable AH0 F AO1 R D AH0 B AH0 L
+afforded AH0 F AO1 R D AH0 D
+affords AH0 F AO1 R D Z
+affront AH0 F R AH1 N T
+afghan AE1 F G AE2 N
+afghanistan AE0 F G AE1 N AH0 S T AE2 N
+afire AH0 F AY1 R
+aflame AH0 F L EY1 M
+afloat AH0 F L OW1 T
+afoot AH0 F UH1 T
+aforementioned AH0 F AO1 R M EH2 N SH AH0 N D
+afraid AH0 F R EY1 D
+afresh AH0 F R EH1 SH
+africa AE1 F R AH0 K AA0
+african AE1 F R AH0 K AH0 N
+africans AE1 F R AH0 K AH0 N Z
+afro AE1 F R OW0
+aft AE1 F T
+after AE1 F T ER0
+afterglow AE1 F T ER0 G L OW2
+afterlife AE1 F T ER0 L AY2 F
+aftermath AE1 F T ER0 M AE2 TH
+afternoon AE2 F T ER0 N UW1 N
+afternoons AE2 F T ER0 N UW1 N Z
+aftershave AE2 F T ER0 SH EY1 V
+afterthought AE1 F T ER0 TH AA2 T
+afterward AE1 F T ER0 W ER0 D
+afterwards AE1 F T ER0 W ER0 D Z
+ag AE1 G
+again AH0 G EH1 N
+against AH0 G EH1 N S T
+agamemnon AE2 G AH0 M EH1 M N AA2 N
+age EY1 JH
+aged EY1 JH D
+agee EY1 JH IY1
+ageless EY1 JH L AH0 S
+agencies EY1 JH AH0 N S IY0 Z
+agency EY1 JH AH0 N S IY0
+agenda AH0 JH EH1 N D AH0
+agendas AH0 JH EH1 N D AH0 Z
+agent EY1 JH AH0 N T
+agents EY1 JH AH0 N T S
+ages EY1 JH AH0 Z
+aggie AE1 G IY0
+aggravate AE1 G R AH0 V EY2 T
+aggravated AE1 G R AH0 V EY2 T IH0 D
+aggravating AE1 G R AH0 V EY2 T IH0 NG
+aggravation AE2 G R AH0 V EY1 SH AH0 N
+aggression AH0 G R EH1 SH AH0 N
+aggressive AH0 G R EH1 S IH0 V
+aggressively AH0 G R EH1 S IH0 V L IY0
+aggressiveness AH0 G R EH1 S IH0 V N AH0 S
+aggressor AH0 G R EH1 S ER0
+aggressors AH0 G R EH1 S ER0 Z
+agile AE1 JH AH0 L
+agility AH0 JH IH1 L AH0 T IY0
+agin AA0 JH IY1 N
+aging EY1 JH IH0 NG
+agitate AE1 JH AH0 T EY2 T
+agitated AE1 JH AH0 T EY2 T IH0 D
+agitation AE2 JH AH0 T EY1 SH AH0 N
+aglow AH0 G L OW1
+agnostic AE0 G N AA1 S T IH0 K
+ago AH0 G OW1
+agonizing AE1 G AH0 N AY0 Z IH0 NG
+agony AE1 G AH0 N IY0
+agree AH0 G R IY1
+agreeable AH0 G R IY1 AH0 B AH0 L
+agreed AH0 G R IY1 D
+agreeing AH0 G R IY1 IH0 NG
+agreement AH0 G R IY1 M AH0 N T
+agreements AH0 G R IY1 M AH0 N T S
+agrees AH0 G R IY1 Z
+agricultural AE2 G R AH0 K AH1 L CH ER0 AH0 L
+agriculture AE1 G R IH0 K AH2 L CH ER0
+aground AH0 G R AW1 N D
+agua AA1 G W AH0
+ah AA1
+aha AA2 HH AA1
+ahab EY1 HH AE2 B
+ahead AH0 HH EH1 D
+ahold AH0 HH OW1 L D
+ahoy AH0 HH OY1
+ai AY1
+aid EY1 D
+aide EY1 D
+aided EY1 D AH0 D
+aides EY1 D Z
+aiding EY1 D IH0 NG
+aids EY1 D Z
+ailing EY1 L IH0 NG
+ailment EY1 L M AH0 N T
+ailments EY1 L M AH0 N T S
+ails EY1 L Z
+aim EY1 M
+aimed EY1 M D
+aiming EY1 M IH0 NG
+aimless EY1 M L AH0 S
+aimlessly EY1 M L AH0 S L IY0
+aims EY1 M Z
+air EH1 R
+airbag EH1 R B AE2 G
+airborne EH1 R B AO2 R N
+aircraft EH1 R K R AE2 F T
+aired EH1 R D
+airfield EH1 R F IY2 L D
+airhead EH1 R HH EH2 D
+airing EH1 R IH0 NG
+airlift EH1 R L IH2 F T
+airline EH1 R L AY2 N
+airliner EH1 R L AY2 N ER0
+airlines EH1 R L AY2 N Z
+airlock EH1 R L AO2 K
+airmail EH1 R M EY2 L
+airman EH1 R M AH0 N
+airmen EH1 R M EH2 N
+airplane EH1 R P L EY2 N
+airplanes EH1 R P L EY0 N Z
+airport EH1 R P AO2 R T
+airports EH1 R P AO2 R T S
+airs EH1 R Z
+airship EH1 R SH IH2 P
+airspace EH1 R S P EY2 S
+airspeed EH1 R S P IY2 D
+airstrip EH1 R S T R IH2 P
+airtight EH1 R T AY2 T
+airtime EH1 R T AY2 M
+airwaves EH1 R W EY2 V Z
+airway EH1 R W EY2
+airways EH1 R W EY2 Z
+airy EH1 R IY0
+aisle AY1 L
+aisles AY1 L Z
+ajar AH0 JH AA1 R
+ajax EY1 JH AE2 K S
+aka AA1 K AH0
+ake EY1 K
+akin AH0 K IH1 N
+akron AE1 K R AH0 N
+al AE1 L
+alabama AE2 L AH0 B AE1 M AH0
+alabaster AE1 L AH0 B AE2 S T ER0
+aladdin AE0 L AE1 D IH0 N
+alameda AE2 L AH0 M IY1 D AH0
+alamo AE1 L AH0 M OW0
+alamos AE1 L AH0 M OW0 Z
+alan AE1 L AH0 N
+alarm AH0 L AA1 R M
+alarmed AH0 L AA1 R M D
+alarming AH0 L AA1 R M IH0 NG
+alarmist AH0 L AA1 R M AH0 S T
+alarms AH0 L AA1 R M Z
+alas AH0 L AE1 S
+alaska AH0 L AE1 S K AH0
+alaskan AH0 L AE1 S K AH0 N
+alba AE1 L B AH0
+albania AE0 L B EY1 N IY0 AH0
+albanian AE0 L B EY1 N IY0 AH0 N
+albany AO1 L B AH0 N IY0
+albatross AE1 L B AH0 T R AA2 S
+albeit AO0 L B IY1 IH0 T
+albert AE1 L B ER0 T
+alberta AE0 L B ER1 T AH0
+albino AE0 L B AY1 N OW2
+album AE1 L B AH0 M
+albums AE1 L B AH0 M Z
+albuquerque AE1 L B AH0 K ER0 K IY0
+alchemist AE1 L CH AH0 M IH0 S T
+alcohol AE1 L K AH0 HH AA2 L
+alcoholic AE2 L K AH0 HH AA1 L IH0 K
+alcoholics AE2 L K AH0 HH AA1 L IH0 K S
+alcoholism AE1 L K AH0 HH AO2 L IH2 Z AH0 M
+alcove AE1 L K OW2 V
+alden AA1 L D AH0 N
+alderman AO1 L D ER0 M AH0 N
+aldrin AO1 L D R IH0 N
+ale EY1 L
+alec AE1 L IH0 K
+alert AH0 L ER1 T
+alerted AH0 L ER1 T IH0 D
+alerting AH0 L ER1 T IH0 NG
+alerts AH0 L ER1 T S
+alexander AE2 L AH0 G Z AE1 N D ER0
+alexandria AE2 L AH0 G Z AE1 N D R IY0 AH0
+alexia AH0 L EH1 K S IY0 AH0
+alf AE1 L F
+alfa AE1 L F AH0
+alfalfa AE2 L F AE1 L F AH0
+alfonso AE2 L F AA1 N S OW0
+alfred AE1 L F R AH0 D
+algae AE1 L JH IY0
+algebra AE1 L JH AH0 B R AH0
+algeria AE0 L JH IH1 R IY0 AH0
+algerian AE0 L JH IH1 R IY0 AH0 N
+algiers AE0 L JH IH1 R Z
+algorithm AE1 L G ER0 IH2 DH AH0 M
+alhambra AE0 L HH AE1 M B R AH0
+alias EY1 L IY0 AH0 S
+aliases EY1 L IY0 AH0 S IH0 Z
+alibi AE1 L AH0 B AY2
+alibis AE1 L AH0 B AY2 Z
+alice AE1 L AH0 S
+alien EY1 L IY0 AH0 N
+alienate EY1 L Y AH0 N EY2 T
+alienated EY1 L IY0 AH0 N EY2 T IH0 D
+alienating EY1 L IY0 AH0 N EY2 T IH0 NG
+alienation EY2 L IY0 AH0 N EY1 SH AH0 N
+aliens EY1 L IY0 AH0 N Z
+alight AH0 L AY1 T
+align AH0 L AY1 N
+aligned AH0 L AY1 N D
+alignment AH0 L AY1 N M AH0 N T
+alike AH0 L AY1 K
+alimony AE1 L AH0 M OW2 N IY0
+aline AH0 L AY1 N
+alison AE1 L IH0 S AH0 N
+alive AH0 L AY1 V
+alkali AE1 L K AH0 L AY2
+alkaline AE1 L K AH0 L AY2 N
+all AO1 L
+allah AA1 L AH0
+allan AE1 L AH0 N
+allay AH0 L EY1
+allegation AE2 L AH0 G EY1 SH AH0 N
+allegations AE2 L AH0 G EY1 SH AH0 N Z
+alleged AH0 L EH1 JH D
+allegedly AH0 L EH1 JH AH0 D L IY0
+allegiance AH0 L IY1 JH AH0 N S
+alleging AH0 L EH1 JH IH0 NG
+allegro AH0 L EH1 G R OW2
+alleluia AE2 L EH0 L UW1 Y AA0
+allen AE1 L AH0 N
+allergic AH0 L ER1 JH IH0 K
+allergies AE1 L ER0 JH IY0 Z
+allergy AE1 L ER0 JH IY0
+alleviate AH0 L IY1 V IY0 EY2 T
+alley AE1 L IY0
+alleys AE1 L IY0 Z
+alleyway AE1 L IY0 W EY2
+alliance AH0 L AY1 AH0 N S
+alliances AH0 L AY1 AH0 N S AH0 Z
+allied AH0 L AY1 D
+allies AE1 L AY0 Z
+alligator AE1 L AH0 G EY2 T ER0
+alligators AE1 L AH0 G EY2 T ER0 Z
+allotment AH0 L AA1 T M AH0 N T
+allotted AH0 L AA1 T IH0 D
+allow AH0 L AW1
+allowance AH0 L AW1 AH0 N S
+allowances AH0 L AW1 AH0 N S IH0 Z
+allowed AH0 L AW1 D
+allowing AH0 L AW1 IH0 NG
+allows AH0 L AW1 Z
+alloy AE1 L OY2
+alls AO1 L Z
+alluded AH0 L UW1 D IH0 D
+allure AH0 L UH1 R
+alluring AH0 L UH1 R IH0 NG
+ally AE1 L AY0
+alma AA1 L M AH0
+almanac AA1 L M AH0 N AE2 K
+almighty AO0 L M AY1 T IY0
+almond AA1 M AH0 N D
+almonds AA1 L M AH0 N D Z
+almost AO1 L M OW2 S T
+alms AA1 L M Z
+aloe AE1 L OW2
+aloft AH0 L AO1 F T
+aloha AH0 L OW1 HH AA0
+alone AH0 L OW1 N
+along AH0 L AO1 NG
+alongside AH0 L AO1 NG S AY1 D
+aloof AH0 L UW1 F
+aloud AH0 L AW1 D
+alpha AE1 L F AH0
+alphabet AE1 L F AH0 B EH2 T
+alphabetical AE2 L F AH0 B EH1 T IH0 K AH0 L
+alphabetically AE2 L F AH0 B EH1 T IH0 K L IY0
+alphabetized AE1 L F AH0 B AH0 T AY2 Z D
+alpine AE1 L P AY2 N
+alps AE1 L P S
+already AO0 L R EH1 D IY0
+alright AO2 L R AY1 T
+alrighty AO2 L R AY1 T IY0
+als AE1 L Z
+also AO1 L S OW0
+altair AA0 L T EH1 R
+altar AO1 L T ER0
+alter AO1 L T ER0
+alteration AO2 L T ER0 EY1 SH AH0 N
+alterations AO2 L T ER0 EY1 SH AH0 N Z
+altercation AA2 L T ER0 K EY1 SH AH0 N
+altered AO1 L T ER0 D
+altering AO1 L T ER0 IH0 NG
+alternate AO1 L T ER0 N AH0 T
+alternating AO1 L T ER0 N EY2 T IH0 NG
+alternative AO0 L T ER1 N AH0 T IH0 V
+alternatives AO0 L T ER1 N AH0 T IH0 V Z
+alternator AO1 L T ER0 N EY2 T ER0
+alters AO1 L T ER0 Z
+althea AE0 L TH IY1 AH0
+although AO2 L DH OW1
+altimeter AE0 L T IH1 M AH0 T ER0
+altitude AE1 L T AH0 T UW2 D
+alto AE1 L T OW0
+altogether AO2 L T AH0 G EH1 DH ER0
+altruistic AO2 L T R UW0 IH1 S T IH0 K
+aluminum AH0 L UW1 M AH0 N AH0 M
+alumni AH0 L AH1 M N AY2
+alumnus AH0 L AH1 M N AH0 S
+always AO1 L W EY2 Z
+alzheimer AE1 L Z HH AY2 M ER0
+am AE1 M
+ama EY2 EH2 M EY1
+amaretto AE0 M AH0 R EH1 T OW0
+amargosa AH0 M AA0 R G OW1 S AH0
+amarillo AE2 M ER0 IH1 L OW0
+amassed AH0 M AE1 S T
+amateur AE1 M AH0 T ER2
+amateurish AE1 M AH0 CH ER2 IH0 SH
+amateurs AE1 M AH0 T ER2 Z
+amaze AH0 M EY1 Z
+amazed AH0 M EY1 Z D
+amazement AH0 M EY1 Z M AH0 N T
+amazes AH0 M EY1 Z IH0 Z
+amazing AH0 M EY1 Z IH0 NG
+amazingly AH0 M EY1 Z IH0 NG L IY0
+amazon AE1 M AH0 Z AA2 N
+amazonian AE2 M AH0 Z OW1 N IY0 AH0 N
+ambassador AE0 M B AE1 S AH0 D ER0
+ambassadors AE0 M B AE1 S AH0 D ER0 Z
+amber AE1 M B ER0
+ambience AE1 M B IY0 AH0 N S
+ambient AE1 M B IY0 AH0 N T
+ambiguity AE2 M B IH0 G Y UW1 AH0 T IY0
+ambiguous AE0 M B IH1 G Y UW0 AH0 S
+ambition AE0 M B IH1 SH AH0 N
+ambitions AE0 M B IH1 SH AH0 N Z
+ambitious AE0 M B IH1 SH AH0 S
+ambrose AE1 M B R OW2 Z
+ambrosia AE0 M B R OW1 ZH AH0
+ambulance AE1 M B Y AH0 L AH0 N S
+ambulances AE1 M B Y AH0 L AH0 N S AH0 Z
+ambush AE1 M B UH2 SH
+ambushed AE1 M B UH2 SH T
+amelia AH0 M IY1 L Y AH0
+amen EY0 M EH1 N
+amend AH0 M EH1 N D
+amended AH0 M EH1 N D IH0 D
+amendment AH0 M EH1 N D M AH0 N T
+amendments AH0 M EH1 N D M AH0 N T S
+amends AH0 M EH1 N D Z
+amenities AH0 M EH1 N AH0 T IY0 Z
+america AH0 M EH1 R AH0 K AH0
+american AH0 M EH1 R AH0 K AH0 N
+americana AH0 M EH2 R AH0 K AE1 N AH0
+americans AH0 M EH1 R AH0 K AH0 N Z
+americas AH0 M EH1 R AH0 K AH0 Z
+ami AA1 M IY0
+amiable EY1 M IY0 AH0 B AH0 L
+amid AH0 M IH1 D
+amidships AH0 M IH1 D SH IH0 P S
+amidst AH0 M IH1 D S T
+amie AE1 M IY0
+amigo AH0 M IY1 G OW2
+amigos AH0 M IY1 G OW2 Z
+amino AH0 M IY1 N OW0
+amir AH0 M IH1 R
+amis AE1 M IH0 S
+amish AA1 M IH0 SH
+amiss AH0 M IH1 S
+amity AE1 M IH0 T IY0
+ammo AE1 M OW2
+ammonia AH0 M OW1 N Y AH0
+ammonium AH0 M OW1 N IY0 AH0 M
+ammunition AE2 M Y AH0 N IH1 SH AH0 N
+amnesia AE0 M N IY1 ZH AH0
+amnesty AE1 M N AH0 S T IY0
+amniotic AE1 M N IY0 AO0 T IH0 K
+amoeba AH0 M IY1 B AH0
+amok AH0 M AH1 K
+among AH0 M AH1 NG
+amongst AH0 M AH1 NG S T
+amor AE1 M ER0
+amorous AE1 M ER0 AH0 S
+amos EY1 M AH0 S
+amount AH0 M AW1 N T
+amounts AH0 M AW1 N T S
+amour AA2 M UW1 R
+amp AE1 M P
+amphetamine AE0 M F EH1 T AH0 M IY2 N
+amphetamines AE0 M F EH1 T AH0 M IY2 N Z
+amphibian AE0 M F IH1 B IY0 AH0 N
+amphibious AE0 M F IH1 B IY0 AH0 S
+ample AE1 M P AH0 L
+amplified AE1 M P L AH0 F AY2 D
+amplifier AE1 M P L AH0 F AY2 ER0
+amplify AE1 M P L AH0 F AY2
+amply AE1 M P L IY0
+amputate AE1 M P Y AH0 T EY2 T
+amputated AE1 M P Y AH0 T EY2 T IH0 D
+amputation AE2 M P Y AH0 T EY1 SH AH0 N
+amsterdam AE1 M S T ER0 D AE2 M
+amtrak AE1 M T R AE0 K
+amuck AH0 M AH1 K
+amulet AE1 M Y AH0 L AH0 T
+amulets AE1 M Y AH0 L AH0 T S
+amuse AH0 M Y UW1 Z
+amused AH0 M Y UW1 Z D
+amusement AH0 M Y UW1 Z M AH0 N T
+amuses AH0 M Y UW1 Z IH0 Z
+amusing AH0 M Y UW1 Z IH0 NG
+amy EY1 M IY0
+an AE1 N
+ana AA1 N AH0
+anaconda AE2 N AH0 K AA1 N D AH0
+anaesthesia AE2 N AH0 S TH IY1 ZH AH0
+anaesthetic AE2 N AH0 S TH EH1 T IH0 K
+anagram AE1 N AH0 G R AE2 M
+anaheim AE1 N AH0 HH AY2 M
+anal EY1 N AH0 L
+analogy AH0 N AE1 L AH0 JH IY0
+analysis AH0 N AE1 L AH0 S AH0 S
+analyst AE1 N AH0 L IH0 S T
+analysts AE1 N AH0 L IH0 S T S
+analytical AE2 N AH0 L IH1 T IH0 K AH0 L
+analyze AE1 N AH0 L AY2 Z
+analyzed AE1 N AH0 L AY2 Z D
+analyzer AE1 N AH0 L AY2 Z ER0
+analyzing AE1 N AH0 L AY2 Z IH0 NG
+anarchist AE1 N ER0 K IH2 S T
+anarchists AE1 N ER0 K IH2 S T S
+anarchy AE1 N ER0 K IY2
+anatomical AE2 N AH0 T AA1 M AH0 K AH0 L
+anatomically AE2 N AH0 T AA1 M AH0 K L IY0
+anatomy AH0 N AE1 T AH0 M IY0
+ancestor AE1 N S EH2 S T ER0
+ancestors AE1 N S EH2 S T ER0 Z
+ancestral AE0 N S EH1 S T R AH0 L
+ancestry AE1 N S EH0 S T R IY0
+anchor AE1 NG K ER0
+anchorage AE1 NG K ER0 AH0 JH
+anchored AE1 NG K ER0 D
+anchorman AE1 NG K ER0 M AE2 N
+anchors AE1 NG K ER0 Z
+anchovies AE0 N CH OW1 V IY0 Z
+ancient EY1 N CH AH0 N T
+ancients EY1 N CH AH0 N T S
+and AH0 N D
+anders AE1 N D ER0 Z
+anderson AE1 N D ER0 S AH0 N
+andes AE1 N D IY0 Z
+andre AA1 N D R EY2
+andrew AE1 N D R UW0
+android AE1 N D R OY2 D
+androids AE1 N D R OY2 D Z
+andromeda AE0 N D R AA1 M AH0 D AH0
+ands AE1 N D Z
+anecdotal AE2 N AH0 K D OW1 T AH0 L
+anecdote AE1 N AH0 K D OW2 T
+anecdotes AE1 N AH0 K D OW2 T S
+anemia AH0 N IY1 M IY0 AH0
+anemic AH0 N IY1 M IH0 K
+anesthesia AE2 N IH0 S TH IY1 ZH AH0
+anesthesiologist AE2 N AH0 S TH IY2 Z IY0 AA1 L AH0 JH AH0 S T
+anesthetic AE2 N AH0 S TH EH1 T IH0 K
+aneurysm AE1 N Y UH0 R IH2 Z AH0 M
+anew AH0 N UW1
+angel EY1 N JH AH0 L
+angeles AE1 N JH AH0 L IH0 S
+angelic AE2 N JH EH1 L IH0 K
+angelica AE0 N JH EH1 L IH0 K AH0
+angelina AE0 N JH EH0 L IY1 N AH0
+angelique AE2 N JH EH0 L IY1 K
+angels EY1 N JH AH0 L Z
+anger AE1 NG G ER0
+angered AE1 NG G ER0 D
+angers AE1 NG G ER0 Z
+angina AE0 N JH AY1 N AH0
+angiogram AE1 N JH IY2 OW0 G R AE2 M
+angioplasty AE2 N JH IY2 AH0 P L AE1 S T IY0
+angle AE1 NG G AH0 L
+angler AE1 NG G L ER0
+angles AE1 NG G AH0 L Z
+angling AE1 NG G L IH0 NG
+angola AE0 NG G OW1 L AH0
+angora AE0 NG G AO1 R AH0
+angrier AE1 NG G R IY0 ER0
+angrily AE1 NG G R AH0 L IY0
+angry AE1 NG G R IY0
+angst AA1 NG K S T
+anguish AE1 NG G W IH0 SH
+anguished AE1 NG G W IH0 SH T
+angus AE1 NG G AH0 S
+animal AE1 N AH0 M AH0 L
+animals AE1 N AH0 M AH0 L Z
+animated AE1 N AH0 M EY2 T IH0 D
+animation AE2 N AH0 M EY1 SH AH0 N
+animosity AE2 N AH0 M AA1 S AH0 T IY0
+ankara AE1 NG K ER0 AH0
+ankh AE1 N K
+ankle AE1 NG K AH0 L
+ankles AE1 NG K AH0 L Z
+anklet AE1 NG K L IH0 T
+ann AE1 N
+anna AE1 N AH0
+annals AE1 N AH0 L Z
+annapolis AH0 N AE1 P AH0 L IH0 S
+anne AE1 N
+annex AE1 N EH2 K S
+annie AE1 N IY0
+annihilate AH0 N AY1 AH0 L EY2 T
+annihilated AH0 N AY1 AH0 L EY2 T IH0 D
+annihilation AH0 N AY2 AH0 L EY1 SH AH0 N
+anniversaries AE2 N AH0 V ER1 S ER0 IY0 Z
+anniversary AE2 N AH0 V ER1 S ER0 IY0
+announce AH0 N AW1 N S
+announced AH0 N AW1 N S T
+announcement AH0 N AW1 N S M AH0 N T
+announcements AH0 N AW1 N S M AH0 N T S
+announcer AH0 N AW1 N S ER0
+announces AH0 N AW1 N S IH0 Z
+announcing AH0 N AW1 N S IH0 NG
+annoy AH0 N OY1
+annoyance AH0 N OY1 AH0 N S
+annoyed AH0 N OY1 D
+annoying AH0 N OY1 IH0 NG
+annoys AH0 N OY1 Z
+annual AE1 N Y UW0 AH0 L
+annually AE1 N Y UW0 AH0 L IY0
+annuity AH0 N UW1 AH0 T IY0
+annul AE1 N AH0 L
+annulled AE1 N AH0 L D
+annulment AE1 N AH0 L M AH0 N T
+anointed AH0 N OY1 N T IH0 D
+anomalies AH0 N AA1 M AH0 L IY0 Z
+anomalous AH0 N AA1 M AH0 L AH0 S
+anomaly AH0 N AA1 M AH0 L IY0
+anon AE2 N AO1 N
+anonymity AE2 N AH0 N IH1 M IH0 T IY0
+anonymous AH0 N AA1 N AH0 M AH0 S
+anonymously AH0 N AA1 N AH0 M AH0 S L IY0
+anorexic AE2 N ER0 EH1 K S IH0 K
+another AH0 N AH1 DH ER0
+answer AE1 N S ER0
+answered AE1 N S ER0 D
+answering AE1 N S ER0 IH0 NG
+answers AE1 N S ER0 Z
+ant AE1 N T
+antacid AE0 N T AE1 S AH0 D
+antagonist AE0 N T AE1 G AH0 N AH0 S T
+antagonistic AE0 N T AE2 G AH0 N IH1 S T IH0 K
+antagonize AE0 N T AE1 G AH0 N AY2 Z
+antarctic AE0 N T AA1 R K T IH0 K
+antarctica AE2 N T AA1 R K T IH0 K AH0
+ante AE1 N T IY0
+antelope AE1 N T AH0 L OW2 P
+antenna AE0 N T EH1 N AH0
+antennae AE0 N T EH1 N IY0
+antennas AE0 N T EH1 N AH0 Z
+anterior AE0 N T IH1 R IY0 ER0
+anthem AE1 N TH AH0 M
+anthill AE1 N T HH IH2 L
+anthology AE0 N TH AA1 L AH0 JH IY0
+anthony AE1 N TH AH0 N IY0
+anthrax AE1 N TH R AE0 K S
+anthropological AE2 N TH R AH0 P AH0 L AA1 JH AH0 K AH0 L
+anthropologist AE2 N TH R AH0 P AA1 L AH0 JH AH0 S T
+anthropology AE2 N TH R AH0 P AA1 L AH0 JH IY0
+anti AE1 N T IY2
+antiaircraft AE2 N T IY0 EH1 R K R AE2 F T
+antibacterial AE2 N T IY0 B AE0 K T IH1 R IY0 AH0 L
+antibiotic AE2 N T IY0 B AY0 AA1 T IH0 K
+antibiotics AE2 N T IY0 B AY0 AA1 T IH0 K S
+antibodies AE1 N T IH0 B AA2 D IY0 Z
+anticipate AE0 N T IH1 S AH0 P EY2 T
+anticipated AE0 N T IH1 S AH0 P EY2 T IH0 D
+anticipating AE0 N T IH1 S AH0 P EY2 T IH0 NG
+anticipation AE0 N T IH2 S AH0 P EY1 SH AH0 N
+antics AE1 N T IH0 K S
+antidepressant AE2 N T IY0 D IH0 P R EH1 S AH0 N T
+antidepressants AE2 N T AY2 D IH0 P R EH1 S AH0 N T S
+antidote AE1 N T IH0 D OW2 T
+antifreeze AE1 N T IY0 F R IY2 Z
+antigen AE1 N T AH0 JH AH0 N
+antiquated AE1 N T AH0 K W EY2 T IH0 D
+antique AE0 N T IY1 K
+antiques AE0 N T IY1 K S
+antiquities AE0 N T IH1 K W AH0 T IY0 Z
+antiquity AE0 N T IH1 K W AH0 T IY0
+antiseptic AE2 N T AH0 S EH1 P T IH0 K
+antisocial AE2 N T IH0 S OW1 SH AH0 L
+antithesis AE0 N T IH1 TH AH0 S AH0 S
+antitoxin AE2 N T IY0 T AA1 K S AH0 N
+antiwar AE2 N T AY0 W AO1 R
+antler AE1 N T L ER0
+antlers AE1 N T L ER0 Z
+antoinette AE2 N T W AH0 N EH1 T
+antonio AE0 N T OW1 N IY2 OW0
+antony AE1 N T AH0 N IY0
+ants AE1 N T S
+antsy AE1 N T S IY0
+antwerp AE1 N T W ER0 P
+anus EY1 N AH0 S
+anvil AE1 N V AH0 L
+anxieties AE0 NG Z AY1 AH0 T IY0 Z
+anxiety AE0 NG Z AY1 AH0 T IY0
+anxious AE1 NG K SH AH0 S
+anxiously AE1 NG K SH AH0 S L IY0
+any EH1 N IY0
+anybody EH1 N IY0 B AH0 D IY0
+anyhow EH1 N IY0 HH AW2
+anymore EH2 N IY0 M AO1 R
+anyone EH1 N IY0 W AH2 N
+anyplace EH1 N IY0 P L EY2 S
+anything EH1 N IY0 TH IH2 NG
+anytime EH1 N IY0 T AY2 M
+anyway EH1 N IY0 W EY2
+anyways EH1 N IY0 W EY2 Z
+anywhere EH1 N IY0 W EH2 R
+aorta EY0 AO1 R T AH0
+aortic EY0 AO1 R T IH0 K
+ap EY2 P IY1
+apache AH0 P AE1 CH IY0
+apaches AH0 P AE1 CH IY0 Z
+apart AH0 P AA1 R T
+apartheid AH0 P AA1 R T AY2 T
+apartment AH0 P AA1 R T M AH0 N T
+apartments AH0 P AA1 R T M AH0 N T S
+apathetic AE2 P AH0 TH EH1 T IH0 K
+apathy AE1 P AH0 TH IY0
+ape EY1 P
+aperitif AH0 P EH2 R AH0 T IY1 F
+aperture AE1 P ER0 CH ER0
+apes EY1 P S
+apex EY1 P EH2 K S
+aphrodisiac AE2 F R OW0 D IY1 Z IY0 AE0 K
+aphrodite AE2 F R AH0 D AY1 T IY0
+apiece AH0 P IY1 S
+apocalypse AH0 P AA1 K AH0 L IH2 P S
+apocalyptic AH0 P AA2 K AH0 L IH1 P T IH0 K
+apollo AH0 P AA1 L OW0
+apologetic AH0 P AA2 L AH0 JH EH1 T IH0 K
+apologies AH0 P AA1 L AH0 JH IY2 Z
+apologise AH0 P AA1 L AH0 JH AY2 Z
+apologised AH0 P AA1 L AH0 JH AY2 Z D
+apologising AH0 P AA1 L AH0 JH AY2 Z IH0 NG
+apologize AH0 P AA1 L AH0 JH AY2 Z
+apologized AH0 P AA1 L AH0 JH AY2 Z D
+apologizes AH0 P AA1 L AH0 JH AY2 Z IH0 Z
+apologizing AH0 P AA1 L AH0 JH AY2 Z IH0 NG
+apology AH0 P AA1 L AH0 JH IY2
+apostle AH0 P AA1 S AH0 L
+apostles AH0 P AA1 S AH0 L Z
+apothecary AH0 P AA1 TH AH0 K EH2 R IY0
+app AE1 P
+appalled AH0 P AO1 L D
+appalling AH0 P AO1 L IH0 NG
+apparatus AE2 P ER0 AE1 T AH0 S
+apparel AH0 P AE1 R AH0 L
+apparent AH0 P EH1 R AH0 N T
+apparently AH0 P EH1 R AH0 N T L IY0
+apparition AE2 P ER0 IH1 SH AH0 N
+appeal AH0 P IY1 L
+appealed AH0 P IY1 L D
+appealing AH0 P IY1 L IH0 NG
+appeals AH0 P IY1 L Z
+appear AH0 P IH1 R
+appearance AH0 P IH1 R AH0 N S
+appearances AH0 P IH1 R AH0 N S AH0 Z
+appeared AH0 P IH1 R D
+appearing AH0 P IH1 R IH0 NG
+appears AH0 P IH1 R Z
+appease AH0 P IY1 Z
+appellate AH0 P EH1 L IH0 T
+appendage AH0 P EH1 N D IH0 JH
+appendectomy AE2 P IH0 N D EH1 K T AH0 M IY0
+appendicitis AH0 P EH2 N D IH2 S AY1 T IH0 Z
+appendix AH0 P EH1 N D IH0 K S
+appetite AE1 P AH0 T AY2 T
+appetites AE1 P AH0 T AY2 T S
+appetizer AE1 P AH0 T AY2 Z ER0
+appetizers AE1 P AH0 T AY2 Z ER0 Z
+appetizing AE1 P IH0 T AY2 Z IH0 NG
+applaud AH0 P L AO1 D
+applauded AH0 P L AO1 D IH0 D
+applauding AH0 P L AO1 D IH0 NG
+applause AH0 P L AO1 Z
+apple AE1 P AH0 L
+apples AE1 P AH0 L Z
+applesauce AE1 P AH0 L S AO2 S
+appliance AH0 P L AY1 AH0 N S
+appliances AH0 P L AY1 AH0 N S AH0 Z
+applicable AE1 P L AH0 K AH0 B AH0 L
+applicant AE1 P L IH0 K AH0 N T
+applicants AE1 P L IH0 K AH0 N T S
+application AE2 P L AH0 K EY1 SH AH0 N
+applications AE2 P L AH0 K EY1 SH AH0 N Z
+applied AH0 P L AY1 D
+applies AH0 P L AY1 Z
+apply AH0 P L AY1
+applying AH0 P L AY1 IH0 NG
+appoint AH0 P OY1 N T
+appointed AH0 P OY1 N T IH0 D
+appointing AH0 P OY1 N T IH0 NG
+appointment AH0 P OY1 N T M AH0 N T
+appointments AH0 P OY1 N T M AH0 N T S
+appraisal AH0 P R EY1 Z AH0 L
+appraised AH0 P R EY1 Z D
+appreciate AH0 P R IY1 SH IY0 EY2 T
+appreciated AH0 P R IY1 SH IY0 EY2 T IH0 D
+appreciates AH0 P R IY1 SH IY0 EY2 T S
+appreciating AH0 P R IY1 SH IY0 EY2 T IH0 NG
+appreciation AH0 P R IY2 SH IY0 EY1 SH AH0 N
+appreciative AH0 P R IY1 SH IY0 EY2 T IH0 V
+apprehend AE2 P R IH0 HH EH1 N D
+apprehended AE2 P R IH0 HH EH1 N D IH0 D
+apprehending AE2 P R IH0 HH EH1 N D IH0 NG
+apprehension AE2 P R IH0 HH EH1 N SH AH0 N
+apprehensive AE2 P R IH0 HH EH1 N S IH0 V
+apprentice AH0 P R EH1 N T AH0 S
+apprised AH0 P R AY1 Z D
+approach AH0 P R OW1 CH
+approached AH0 P R OW1 CH T
+approaches AH0 P R OW1 CH AH0 Z
+approaching AH0 P R OW1 CH IH0 NG
+appropriate AH0 P R OW1 P R IY0 AH0 T
+appropriated AH0 P R OW1 P R IY0 EY2 T IH0 D
+appropriately AH0 P R OW1 P R IY0 IH0 T L IY0
+appropriations AH0 P R OW2 P R IY0 EY1 SH AH0 N Z
+approval AH0 P R UW1 V AH0 L
+approve AH0 P R UW1 V
+approved AH0 P R UW1 V D
+approves AH0 P R UW1 V Z
+approving AH0 P R UW1 V IH0 NG
+approximate AH0 P R AA1 K S AH0 M AH0 T
+approximately AH0 P R AA1 K S AH0 M AH0 T L IY0
+apricot EY1 P R AH0 K AA2 T
+apricots AE1 P R AH0 K AA2 T S
+april EY1 P R AH0 L
+apron EY1 P R AH0 N
+aprons EY1 P R AH0 N Z
+apropos AE2 P R AH0 P OW1
+apt AE1 P T
+aptitude AE1 P T AH0 T UW2 D
+aptly AE1 P T L IY0
+aqua AE1 K W AH0
+aquamarine AA2 K W AH0 M ER0 IY1 N
+aquarium AH0 K W EH1 R IY0 AH0 M
+aquarius AH0 K W EH1 R IY0 AH0 S
+aquatic AH0 K W AA1 T IH0 K
+aqueduct AE1 K W AH0 D AH2 K T
+aquila AE1 K W AH0 L AH0
+ar AA1 R
+arab AE1 R AH0 B
+arabia AH0 R EY1 B IY0 AH0
+arabian AH0 R EY1 B IY0 AH0 N
+arabic AE1 R AH0 B IH0 K
+arabs AE1 R AH0 B Z
+araby AE1 R AH0 B IY2
+aramaic AA2 R AA0 M EH1 Y IH0 K
+arbitrarily AA1 R B IH0 T R EH2 R AH0 L IY0
+arbitrary AA1 R B AH0 T R EH2 R IY0
+arbitration AA2 R B IH0 T R EY1 SH AH0 N
+arbor AA1 R B ER0
+arc AA1 R K
+arcade AA0 R K EY1 D
+arcadia AA0 R K EY1 D IY0 AH0
+arcane AA2 R K EY1 N
+arch AA1 R CH
+archaeological AA2 R K IY0 AH0 L AA1 JH IH0 K AH0 L
+archaeologist AA2 R K IY0 AA1 L AH0 JH IH0 S T
+archaeologists AA2 R K IY0 AA1 L AH0 JH IH0 S T S
+archaeology AA2 R K IY0 AA1 L AH0 JH IY0
+archaic AA0 R K EY1 IH0 K
+archangel AA2 R K EY1 N JH AH0 L
+archbishop AA1 R CH B IH1 SH AH0 P
+archdiocese AA1 R CH D AY1 AH0 S AH0 S
+archduke AA1 R CH D UW2 K
+archeological AA2 R K IY0 AH0 L AA1 JH IH0 K AH0 L
+archer AA1 R CH ER0
+archers AA1 R CH ER0 Z
+archery AA1 R CH ER0 IY0
+arches AA1 R CH AH0 Z
+archie AA1 R CH IY0
+architect AA1 R K AH0 T EH2 K T
+architects AA1 R K AH0 T EH2 K T S
+architectural AA2 R K AH0 T EH1 K CH ER0 AH0 L
+architecture AA1 R K AH0 T EH2 K CH ER0
+archive AA1 R K AY2 V
+archives AA1 R K AY2 V Z
+arctic AA1 R K T IH0 K
+ardent AA1 R D AH0 N T
+arduous AA1 R JH UW0 AH0 S
+are AA1 R
+area EH1 R IY0 AH0
+areas EH1 R IY0 AH0 Z
+aren AA1 R AH0 N
+arena ER0 IY1 N AH0
+arenas ER0 IY1 N AH0 Z
+ares AA1 R Z
+argentina AA2 R JH AH0 N T IY1 N AH0
+argentine AA1 R JH AH0 N T IY2 N
+argh AA1 R G
+argo AA1 R G OW0
+arguably AA1 R G Y UW0 AH0 B L IY0
+argue AA1 R G Y UW0
+argued AA1 R G Y UW0 D
+argues AA1 R G Y UW0 Z
+arguing AA1 R G Y UW0 IH0 NG
+argument AA1 R G Y AH0 M AH0 N T
+argumentative AA2 R G Y AH0 M EH1 N T AH0 T IH0 V
+arguments AA1 R G Y AH0 M AH0 N T S
+argus AA1 R G AH0 S
+argyle AA1 R G AY2 L
+aria AA1 R IY0 AH0
+arid AE1 R AH0 D
+ariel EH1 R IY0 AH0 L
+aries EH1 R IY0 Z
+arise ER0 AY1 Z
+arises ER0 AY1 Z AH0 Z
+arising ER0 AY1 Z IH0 NG
+aristocracy EH2 R AH0 S T AA1 K R AH0 S IY0
+aristocrat ER0 IH1 S T AH0 K R AE2 T
+aristocratic ER0 IH2 S T AH0 K R AE1 T IH0 K
+aristocrats ER0 IH1 S T AH0 K R AE2 T S
+aristotle EH1 R AH0 S T AA2 T AH0 L
+arithmetic EH2 R IH0 TH M EH1 T IH0 K
+arizona EH2 R IH0 Z OW1 N AH0
+ark AA1 R K
+arkansas AA1 R K AH0 N S AA2
+arlington AA1 R L IH0 NG T AH0 N
+arm AA1 R M
+armada AA0 R M AA1 D AH0
+armadillo AA2 R M AH0 D IH1 L OW0
+armageddon AA2 R M AH0 G EH1 D AH0 N
+armament AA1 R M AH0 M AH0 N T
+armaments AA1 R M AH0 M AH0 N T S
+armband AA1 R M B AE2 N D
+armchair AA1 R M CH EH2 R
+armed AA1 R M D
+armenia AA0 R M IY1 N IY0 AH0
+armenian AA0 R M IY1 N IY0 AH0 N
+armenians AA0 R M IY1 N IY0 AH0 N Z
+armies AA1 R M IY0 Z
+arming AA1 R M IH0 NG
+armistice AA1 R M AH0 S T AH0 S
+armor AA1 R M ER0
+armored AA1 R M ER0 D
+armory AA1 R M ER0 IY0
+armour AA1 R M ER0
+armpit AA1 R M P IH2 T
+armpits AA1 R M P IH2 T S
+arms AA1 R M Z
+armstrong AA1 R M S T R AA2 NG
+army AA1 R M IY0
+arnold AA1 R N AH0 L D
+aroma ER0 OW1 M AH0
+aromatherapy AH0 R OW2 M AH0 TH ER1 AH0 P IY0
+aromatic EH2 R AH0 M AE1 T IH0 K
+arose ER0 OW1 Z
+around ER0 AW1 N D
+arousal ER0 AW1 Z AH0 L
+arouse ER0 AW1 Z
+aroused ER0 AW1 Z D
+arouses ER0 AW1 Z IH0 Z
+arousing ER0 AW1 Z IH0 NG
+arraigned ER0 EY1 N D
+arraignment ER0 EY1 N M AH0 N T
+arrange ER0 EY1 N JH
+arranged ER0 EY1 N JH D
+arrangement ER0 EY1 N JH M AH0 N T
+arrangements ER0 EY1 N JH M AH0 N T S
+arranges ER0 EY1 N JH IH0 Z
+arranging ER0 EY1 N JH IH0 NG
+array ER0 EY1
+arrest ER0 EH1 S T
+arrested ER0 EH1 S T IH0 D
+arresting ER0 EH1 S T IH0 NG
+arrests ER0 EH1 S T S
+arrhythmia ER0 IH1 DH M IY0 AH0
+arrival ER0 AY1 V AH0 L
+arrivals ER0 AY1 V AH0 L Z
+arrive ER0 AY1 V
+arrived ER0 AY1 V D
+arrives ER0 AY1 V Z
+arriving ER0 AY1 V IH0 NG
+arrogance EH1 R AH0 G AH0 N S
+arrogant EH1 R AH0 G AH0 N T
+arrow AE1 R OW0
+arrowhead AE1 R OW0 HH EH2 D
+arrows AE1 R OW0 Z
+arroyo ER0 OY1 OW0
+arse AA1 R S
+arsehole AA1 R S HH OW2 L
+arsenal AA1 R S AH0 N AH0 L
+arsenic AA1 R S AH0 N IH0 K
+arses AA1 R S IH0 Z
+arson AA1 R S AH0 N
+arsonist AA1 R S AH0 N AH0 S T
+art AA1 R T
+arterial AA0 R T IH1 R IY0 AH0 L
+arteries AA1 R T ER0 IY0 Z
+artery AA1 R T ER0 IY0
+arthritic AA0 R TH R IH1 T IH0 K
+arthritis AA0 R TH R AY1 T AH0 S
+arthur AA1 R TH ER0
+artichoke AA1 R T AH0 CH OW2 K
+article AA1 R T AH0 K AH0 L
+articles AA1 R T AH0 K AH0 L Z
+articulate AA0 R T IH1 K Y AH0 L EY2 T
+artifact AA1 R T AH0 F AE2 K T
+artifacts AA1 R T AH0 F AE2 K T S
+artificial AA2 R T AH0 F IH1 SH AH0 L
+artificially AA2 R T AH0 F IH1 SH AH0 L IY0
+artillery AA0 R T IH1 L ER0 IY0
+artist AA1 R T AH0 S T
+artistic AA0 R T IH1 S T IH0 K
+artistically AA0 R T IH1 S T IH0 K L IY0
+artistry AA1 R T IH0 S T R IY0
+artists AA1 R T IH0 S T S
+arts AA1 R T S
+artsy AA1 R T S IY1
+artwork AA1 R T W ER2 K
+arty AA1 R T IY0
+aryan AA1 R IY0 AH0 N
+as AE1 Z
+asap EY1 EH1 S EY1 P IY1
+asbestos AE0 S B EH1 S T AH0 S
+ascend AH0 S EH1 N D
+ascendant AH0 S EH1 N D AH0 N T
+ascended AH0 S EH1 N D IH0 D
+ascending AH0 S EH1 N D IH0 NG
+ascension AH0 S EH1 N SH AH0 N
+ascent AH0 S EH1 N T
+ascertain AE2 S ER0 T EY1 N
+ascertained AE2 S ER0 T EY1 N D
+ascot AE1 S K AA2 T
+ash AE1 SH
+ashamed AH0 SH EY1 M D
+asher AE1 SH ER0
+ashes AE1 SH AH0 Z
+ashore AH0 SH AO1 R
+ashram AE1 SH R AA0 M
+ashtray AE1 SH T R EY2
+ashtrays AE1 SH T R EY2 Z
+asia EY1 ZH AH0
+asian EY1 ZH AH0 N
+asians EY1 ZH AH0 N Z
+aside AH0 S AY1 D
+asinine AE1 S AH0 N AY2 N
+ask AE1 S K
+asked AE1 S K T
+askew AH0 S K Y UW1
+asking AE1 S K IH0 NG
+asks AE1 S K S
+asleep AH0 S L IY1 P
+asparagus AH0 S P EH1 R AH0 G AH0 S
+aspect AE1 S P EH2 K T
+aspects AE1 S P EH2 K T S
+aspen AE1 S P AH0 N
+asphalt AE1 S F AO2 L T
+aspirated AE1 S P ER0 EY2 T IH0 D
+aspiration AE2 S P ER0 EY1 SH AH0 N
+aspirations AE2 S P ER0 EY1 SH AH0 N Z
+aspire AH0 S P AY1 R
+aspirin AE1 S P R IH0 N
+aspiring AH0 S P AY1 R IH0 NG
+ass AE1 S
+assailant AH0 S EY1 L AH0 N T
+assailants AH0 S EY1 L AH0 N T S
+assassin AH0 S AE1 S AH0 N
+assassinate AH0 S AE1 S AH0 N EY2 T
+assassinated AH0 S AE1 S AH0 N EY2 T IH0 D
+assassinating AH0 S AE1 S AH0 N EY2 T IH0 NG
+assassination AH0 S AE2 S AH0 N EY1 SH AH0 N
+assassinations AH0 S AE2 S AH0 N EY1 SH AH0 N Z
+assassins AH0 S AE1 S AH0 N Z
+assault AH0 S AO1 L T
+assaulted AH0 S AO1 L T IH0 D
+assaulting AH0 S AO1 L T IH0 NG
+assaults AH0 S AO1 L T S
+assemble AH0 S EH1 M B AH0 L
+assembled AH0 S EH1 M B AH0 L D
+assembling AH0 S EH1 M B AH0 L IH0 NG
+assembly AH0 S EH1 M B L IY0
+assemblyman AH0 S EH1 M B L IY0 M AE2 N
+assert AH0 S ER1 T
+asserting AH0 S ER1 T IH0 NG
+assertion AH0 S ER1 SH AH0 N
+assertive AH0 S ER1 T IH0 V
+asserts AH0 S ER1 T S
+asses AE1 S AH0 Z
+assess AH0 S EH1 S
+assessed AH0 S EH1 S T
+assessing AH0 S EH1 S IH0 NG
+assessment AH0 S EH1 S M AH0 N T
+asset AE1 S EH2 T
+assets AE1 S EH2 T S
+asshole AE1 S HH OW0 L
+assholes AE1 S HH OW0 L Z
+assign AH0 S AY1 N
+assigned AH0 S AY1 N D
+assigning AH0 S AY1 N IH0 NG
+assignment AH0 S AY1 N M AH0 N T
+assignments AH0 S AY1 N M AH0 N T S
+assimilate AH0 S IH1 M AH0 L EY2 T
+assimilated AH0 S IH1 M AH0 L EY2 T IH0 D
+assisi AH0 S IY1 S IY0
+assist AH0 S IH1 S T
+assistance AH0 S IH1 S T AH0 N S
+assistant AH0 S IH1 S T AH0 N T
+assistants AH0 S IH1 S T AH0 N T S
+assisted AH0 S IH1 S T IH0 D
+assisting AH0 S IH1 S T IH0 NG
+assists AH0 S IH1 S T S
+associate AH0 S OW1 S IY0 AH0 T
+associated AH0 S OW1 S IY0 EY2 T IH0 D
+associates AH0 S OW1 S IY0 AH0 T S
+associating AH0 S OW1 S IY0 EY2 T IH0 NG
+association AH0 S OW2 S IY0 EY1 SH AH0 N
+associations AH0 S OW2 S IY0 EY1 SH AH0 N Z
+assorted AH0 S AO1 R T IH0 D
+assortment AH0 S AO1 R T M AH0 N T
+assume AH0 S UW1 M
+assumed AH0 S UW1 M D
+assumes AH0 S UW1 M Z
+assuming AH0 S UW1 M IH0 NG
+assumption AH0 S AH1 M P SH AH0 N
+assumptions AH0 S AH1 M P SH AH0 N Z
+assurance AH0 SH UH1 R AH0 N S
+assurances AH0 SH UH1 R AH0 N S IH0 Z
+assure AH0 SH UH1 R
+assured AH0 SH UH1 R D
+assuredly AH0 SH UH1 R AH0 D L IY0
+assures AH0 SH UH1 R Z
+assuring AH0 SH UH1 R IH0 NG
+ast AE1 S T
+asta AA1 S T AH0
+asterisk AE1 S T ER0 IH0 S K
+asteroid AE1 S T ER0 OY2 D
+asteroids AE1 S T ER0 OY2 D Z
+asthma AE1 Z M AH0
+asthmatic AE0 Z M AE1 T IH0 K
+astonish AH0 S T AA1 N IH0 SH
+astonished AH0 S T AA1 N IH0 SH T
+astonishing AH0 S T AA1 N IH0 SH IH0 NG
+astonishingly AH0 S T AA1 N IH0 SH IH0 NG L IY0
+astonishment AH0 S T AA1 N IH0 SH M AH0 N T
+astor AE1 S T ER0
+astound AH0 S T AW1 N D
+astounding AH0 S T AW1 N D IH0 NG
+astral AE1 S T R AH0 L
+astray AH0 S T R EY1
+astrologer AH0 S T R AA1 L AH0 JH ER0
+astrological AE2 S T R AH0 L AA1 JH IH0 K AH0 L
+astrology AH0 S T R AA1 L AH0 JH IY0
+astronaut AE1 S T R AH0 N AA2 T
+astronauts AE1 S T R AH0 N AO2 T S
+astronomer AH0 S T R AA1 N AH0 M ER0
+astronomers AH0 S T R AA1 N AH0 M ER0 Z
+astronomical AE2 S T R AH0 N AA1 M IH0 K AH0 L
+astronomy AH0 S T R AA1 N AH0 M IY0
+astrophysics AE2 S T R OW0 F IH1 Z IH0 K S
+astute AH0 S T UW1 T
+asunder AH0 S AH1 N D ER0
+asylum AH0 S AY1 L AH0 M
+at AE1 T
+atalanta AE2 T AH0 L AE1 N T AH0
+ate EY1 T
+atheist EY1 TH IY0 AH0 S T
+atheists EY1 TH IY0 AH0 S T S
+athena AH0 TH IY1 N AH0
+athens AE1 TH AH0 N Z
+athlete AE1 TH L IY2 T
+athletes AE1 TH L IY2 T S
+athletic AE0 TH L EH1 T IH0 K
+athletics AE0 TH L EH1 T IH0 K S
+atlanta AE0 T L AE1 N T AH0
+atlantic AH0 T L AE1 N T IH0 K
+atlantis AE0 T L AE1 N T IH0 S
+atlas AE1 T L AH0 S
+atm EY1 T IY2 EH1 M
+atmosphere AE1 T M AH0 S F IH2 R
+atmospheric AE2 T M AH0 S F EH1 R IH0 K
+atoll AE1 T AA2 L
+atom AE1 T AH0 M
+atomic AH0 T AA1 M IH0 K
+atoms AE1 T AH0 M Z
+atone AH0 T OW1 N
+atonement AH0 T OW1 N M AH0 N T
+atop AH0 T AA1 P
+atrium EY1 T R IY0 AH0 M
+atrocious AH0 T R OW1 SH AH0 S
+atrocities AH0 T R AA1 S AH0 T IY0 Z
+atrocity AH0 T R AA1 S AH0 T IY0
+atrophied AE1 T R AH0 F IY0 D
+atrophy AE1 T R AH0 F IY0
+atta AE1 T AH0
+attaboy AE1 T AH0 B OY2
+attach AH0 T AE1 CH
+attached AH0 T AE1 CH T
+attaches AH0 T AE1 CH IH0 Z
+attaching AH0 T AE1 CH IH0 NG
+attachment AH0 T AE1 CH M AH0 N T
+attachments AH0 T AE1 CH M AH0 N T S
+attack AH0 T AE1 K
+attacked AH0 T AE1 K T
+attacker AH0 T AE1 K ER0
+attackers AH0 T AE1 K ER0 Z
+attacking AH0 T AE1 K IH0 NG
+attacks AH0 T AE1 K S
+attain AH0 T EY1 N
+attained AH0 T EY1 N D
+attempt AH0 T EH1 M P T
+attempted AH0 T EH1 M P T IH0 D
+attempting AH0 T EH1 M P T IH0 NG
+attempts AH0 T EH1 M P T S
+attend AH0 T EH1 N D
+attendance AH0 T EH1 N D AH0 N S
+attendant AH0 T EH1 N D AH0 N T
+attendants AH0 T EH1 N D AH0 N T S
+attended AH0 T EH1 N D IH0 D
+attending AH0 T EH1 N D IH0 NG
+attends AH0 T EH1 N D Z
+attention AH0 T EH1 N SH AH0 N
+attentions AH0 T EH1 N SH AH0 N Z
+attentive AH0 T EH1 N T IH0 V
+attentively AH0 T EH1 N T IH0 V L IY0
+attest AH0 T EH1 S T
+attic AE1 T IH0 K
+attila AH0 T IH1 L AH0
+attire AH0 T AY1 ER0
+attitude AE1 T AH0 T UW2 D
+attitudes AE1 T AH0 T UW2 D Z
+attorney AH0 T ER1 N IY0
+attorneys AH0 T ER1 N IY0 Z
+attract AH0 T R AE1 K T
+attracted AH0 T R AE1 K T IH0 D
+attracting AH0 T R AE1 K T IH0 NG
+attraction AH0 T R AE1 K SH AH0 N
+attractions AH0 T R AE1 K SH AH0 N Z
+attractive AH0 T R AE1 K T IH0 V
+attracts AH0 T R AE1 K T S
+attribute AE1 T R AH0 B Y UW2 T
+attributed AH0 T R IH1 B Y AH0 T IH0 D
+attributes AE1 T R AH0 B Y UW2 T S
+attuned AH0 T UW1 N D
+atypical EY2 T IH1 P IH0 K AH0 L
+auburn AA1 B ER0 N
+auction AA1 K SH AH0 N
+auctioned AO1 K SH AH0 N D
+auctioneer AA2 K SH AH0 N IH1 R
+auctioning AO1 K SH AH0 N IH0 NG
+auctions AA1 K SH AH0 N Z
+audacious AA0 D EY1 SH AH0 S
+audacity AA0 D AE1 S AH0 T IY0
+audible AA1 D AH0 B AH0 L
+audience AA1 D IY0 AH0 N S
+audiences AA1 D IY0 AH0 N S AH0 Z
+audio AA1 D IY0 OW2
+audit AO1 D IH0 T
+audited AO1 D IH0 T IH0 D
+auditing AA1 D AH0 T IH0 NG
+audition AA0 D IH1 SH AH0 N
+auditioned AO2 D IH1 SH AH0 N D
+auditioning AA0 D IH1 SH AH0 N IH0 NG
+auditions AO2 D IH1 SH AH0 N Z
+auditor AO1 D IH0 T ER0
+auditorium AO2 D AH0 T AO1 R IY0 AH0 M
+auditory AO1 D IH0 T AO2 R IY0
+aught AO1 T
+augment AO0 G M EH1 N T
+august AA1 G AH0 S T
+augusta AH0 G AH1 S T AH0
+auguste AO1 G AH0 S T
+augustine AA1 G AH0 S T IY2 N
+auld AO1 L D
+aunt AE1 N T
+auntie AE1 N T IY0
+aunts AE1 N T S
+aura AO1 R AH0
+aurora ER0 AO1 R AH0
+auspicious AA0 S P IH1 SH AH0 S
+aussie AO1 S IY0
+austin AO1 S T AH0 N
+australia AO0 S T R EY1 L Y AH0
+australian AO0 S T R EY1 L Y AH0 N
+austria AO1 S T R IY0 AH0
+austrian AO1 S T R IY0 AH0 N
+authentic AH0 TH EH1 N T IH0 K
+authenticate AO0 TH EH1 N T AH0 K EY2 T
+authenticated AO0 TH EH1 N T AH0 K EY2 T IH0 D
+authentication AO0 TH EH2 N T AH0 K EY1 SH AH0 N
+authenticity AO2 TH AH0 N T IH1 S IH0 T IY0
+author AO1 TH ER0
+authorities AH0 TH AO1 R AH0 T IY0 Z
+authority AH0 TH AO1 R AH0 T IY0
+authorization AO2 TH ER0 AH0 Z EY1 SH AH0 N
+authorize AO1 TH ER0 AY2 Z
+authorized AO1 TH ER0 AY2 Z D
+authorizing AO1 TH ER0 AY2 Z IH0 NG
+authors AO1 TH ER0 Z
+autism AO1 T IH2 Z AH0 M
+autistic AO0 T IH1 S T IH0 K
+auto AO1 T OW0
+autobiographical AO2 T AH0 B AY2 AH0 G R AE1 F IH0 K AH0 L
+autobiography AO2 T AH0 B AY0 AA1 G R AH0 F IY0
+autograph AO1 T AH0 G R AE2 F
+autographed AO1 T AH0 G R AE2 F T
+autographs AO1 T AH0 G R AE2 F S
+automated AO1 T AH0 M EY2 T IH0 D
+automatic AO2 T AH0 M AE1 T IH0 K
+automatically AO2 T AH0 M AE1 T IH0 K L IY0
+automobile AO1 T AH0 M OW0 B IY2 L
+automobiles AO1 T AH0 M OW0 B IY2 L Z
+automotive AO2 T AH0 M OW1 T IH0 V
+autonomy AO0 T AA1 N AH0 M IY0
+autopilot AO1 T OW0 P AY2 L AH0 T
+autopsies AO1 T AA2 P S IY0 Z
+autopsy AO1 T AA2 P S IY0
+autumn AO1 T AH0 M
+auxiliary AA0 G Z IH1 L Y ER0 IY0
+av EY2 V IY1
+ava EY1 V AH0
+avail AH0 V EY1 L
+availability AH0 V EY2 L AH0 B IH1 L AH0 T IY0
+available AH0 V EY1 L AH0 B AH0 L
+avalanche AE1 V AH0 L AE2 N CH
+avalon AE1 V AH0 L AA2 N
+avarice AE1 V ER0 AH0 S
+avatar AE1 V AH0 T AA2 R
+ave AA1 V EY2
+avenge AH0 V EH1 N JH
+avenged AH0 V EH1 N JH D
+avenger AH0 V EH1 N JH ER0
+avenging AH0 V EH1 N JH IH0 NG
+avenue AE1 V AH0 N UW2
+avenues AE1 V AH0 N UW2 Z
+average AE1 V ER0 IH0 JH
+averages AE1 V R IH0 JH IH0 Z
+averaging AE1 V R IH0 JH IH0 NG
+averse AH0 V ER1 S
+aversion AH0 V ER1 ZH AH0 N
+avert AH0 V ER1 T
+averted AH0 V ER1 T IH0 D
+aviation EY2 V IY0 EY1 SH AH0 N
+aviator EY1 V IY0 EY2 T ER0
+avid AE1 V AH0 D
+avis EY1 V IH0 S
+avocado AE2 V AH0 K AA1 D OW0
+avocados AE2 V AH0 K AA1 D OW0 Z
+avoid AH0 V OY1 D
+avoidance AH0 V OY1 D AH0 N S
+avoided AH0 V OY1 D IH0 D
+avoiding AH0 V OY1 D IH0 NG
+avoids AH0 V OY1 D Z
+aw AO1
+await AH0 W EY1 T
+awaited AH0 W EY1 T IH0 D
+awaiting AH0 W EY1 T IH0 NG
+awaits AH0 W EY1 T S
+awake AH0 W EY1 K
+awaken AH0 W EY1 K AH0 N
+awakened AH0 W EY1 K AH0 N D
+awakening AH0 W EY1 K AH0 N IH0 NG
+awakens AH0 W EY1 K AH0 N Z
+award AH0 W AO1 R D
+awarded AH0 W AO1 R D IH0 D
+awards AH0 W AO1 R D Z
+aware AH0 W EH1 R
+awareness AH0 W EH1 R N AH0 S
+awash AH0 W AA1 SH
+away AH0 W EY1
+awe AA1
+awesome AA1 S AH0 M
+awful AA1 F AH0 L
+awfully AA1 F L IY0
+awhile AH0 W AY1 L
+awkward AA1 K W ER0 D
+awkwardly AO1 K W ER0 D L IY0
+awkwardness AO1 K W ER0 D N AH0 S
+awning AA1 N IH0 NG
+awoke AH0 W OW1 K
+awol EY1 W AO2 L
+awry ER0 AY1
+ax AE1 K S
+axe AE1 K S
+axed AE1 K S T
+axel AE1 K S AH0 L
+axes AE1 K S IH2 Z
+axis AE1 K S AH0 S
+axle AE1 K S AH0 L
+ay EY1
+aye AY1
+azaleas AH0 Z EY1 L Y AH0 Z
+aztec AE1 Z T EH2 K
+aztecs AE1 Z T EH2 K S
+azure AE1 ZH ER0
+b B IY1
+ba B IY2 EY1
+baa B IY2 EY2 EY1
+baba B AH1 B AH0
+babbitt B AE1 B IH0 T
+babble B AE1 B AH0 L
+babbling B AE1 B AH0 L IH0 NG
+babcock B AE1 B K AO0 K
+babe B EY1 B
+babes B EY1 B Z
+babies B EY1 B IY0 Z
+baboon B AH0 B UW1 N
+baboons B AE0 B UW1 N Z
+baby B EY1 B IY0
+babylon B AE1 B AH0 L AA2 N
+babysit B EY1 B IY0 S IH0 T
+babysitter B EY1 B IY0 S IH2 T ER0
+babysitters B EY1 B IY0 S IH2 T ER0 Z
+babysitting B EY1 B IY0 S IH2 T IH0 NG
+baccarat B AA2 K ER0 AA1
+bach B AA1 K
+bache B AE1 CH
+bachelor B AE1 CH AH0 L ER0
+bachelors B AE1 CH L ER0 Z
+back B AE1 K
+backache B AE1 K EY2 K
+backboard B AE1 K B AO2 R D
+backbone B AE1 K B OW2 N
+backdoor B AE1 K D AO2 R
+backdrop B AE1 K D R AA2 P
+backed B AE1 K T
+backer B AE1 K ER0
+backers B AE1 K ER0 Z
+backfield B AE1 K F IY2 L D
+backfire B AE1 K F AY2 R
+backfired B AE1 K F AY2 ER0 D
+backfires B AE1 K F AY2 ER0 Z
+backgammon B AE1 K G AE2 M AH0 N
+background B AE1 K G R AW2 N D
+backgrounds B AE1 K G R AW2 N D Z
+backhand B AE1 K HH AE2 N D
+backing B AE1 K IH0 NG
+backless B AE1 K L AH0 S
+backlog B AE1 K L AA2 G
+backpack B AE1 K P AE2 K
+backpacking B AE1 K P AE2 K IH0 NG
+backpacks B AE1 K P AE2 K S
+backroom B AE1 K R UW2 M
+backs B AE1 K S
+backseat B AE0 K S IY1 T
+backside B AE1 K S AY2 D
+backsides B AE1 K S AY2 D Z
+backstage B AE1 K S T EY1 JH
+backstreet B AE1 K S T IY2 T
+backstroke B AE1 K S T R OW2 K
+backtrack B AE1 K T R AE2 K
+backup B AE1 K AH2 P
+backups B AE1 K AH2 P S
+backward B AE1 K W ER0 D
+backwards B AE1 K W ER0 D Z
+backwash B AE1 K W AA2 SH
+backwater B AE1 K W AO2 T ER0
+backwoods B AE1 K W UH1 D Z
+backyard B AE1 K Y AA2 R D
+bacon B EY1 K AH0 N
+bacteria B AE0 K T IH1 R IY0 AH0
+bacterial B AE0 K T IH1 R IY0 AH0 L
+bad B AE1 D
+badass B AE1 D AE2 S
+bade B EY1 D
+badge B AE1 JH
+badger B AE1 JH ER0
+badgering B AE1 JH ER0 IH0 NG
+badges B AE1 JH IH0 Z
+badly B AE1 D L IY0
+badminton B AE1 D M IH2 N T AH0 N
+badness B AE1 D N AH0 S
+baffled B AE1 F AH0 L D
+baffles B AE1 F AH0 L Z
+baffling B AE1 F AH0 L IH0 NG
+bag B AE1 G
+bagel B EY1 G AH0 L
+bagels B EY1 G AH0 L Z
+baggage B AE1 G AH0 JH
+bagged B AE1 G D
+baggie B AE1 G IY0
+bagging B AE1 G IH0 NG
+baggy B AE1 G IY0
+baghdad B AE1 G D AE0 D
+bagman B AE1 G M AH0 N
+bagpipe B AE1 G P AY2 P
+bagpipes B AE1 G P AY2 P S
+bags B AE1 G Z
+baguette B AE2 G EH1 T
+bah B AA1
+bahamas B AH0 HH AA1 M AH0 Z
+baht B AA1 T
+bail B EY1 L
+bailed B EY1 L D
+bailey B EY1 L IY0
+bailiff B EY1 L AH0 F
+bailiffs B EY1 L AH0 F S
+bailing B EY1 L IH0 NG
+bait B EY1 T
+baited B EY1 T IH0 D
+baiting B EY1 T IH0 NG
+baja B AA1 HH AA2
+bake B EY1 K
+baked B EY1 K T
+baker B EY1 K ER0
+bakers B EY1 K ER0 Z
+bakersfield B EY1 K ER0 Z F IY2 L D
+bakery B EY1 K ER0 IY0
+bakes B EY1 K S
+baking B EY1 K IH0 NG
+bakshi B AE1 K SH IY0
+baku B AA0 K UW1
+bal B AE1 L
+balance B AE1 L AH0 N S
+balanced B AE1 L AH0 N S T
+balances B AE1 L AH0 N S AH0 Z
+balancing B AE1 L AH0 N S IH0 NG
+balboa B AA0 L B OW1 AH0
+balconies B AE1 L K AH0 N IY0 Z
+balcony B AE1 L K AH0 N IY0
+bald B AO1 L D
+balderdash B AO1 L D ER0 D AE2 SH
+balding B AO1 L D IH0 NG
+bale B EY1 L
+bali B AA1 L IY0
+balkan B AO1 L K AH0 N
+balkans B AO1 L K AH0 N Z
+ball B AO1 L
+ballad B AE1 L AH0 D
+ballads B AE1 L AH0 D Z
+ballard B AE1 L ER0 D
+ballast B AE1 L AH0 S T
+balled B AO1 L D
+baller B AO1 L ER0
+ballerina B AE2 L ER0 IY1 N AH0
+ballerinas B AE2 L ER0 IY1 N AH0 Z
+ballet B AE0 L EY1
+ballgame B AO0 L G EY1 M
+balling B AO1 L IH0 NG
+ballistic B AH0 L IH1 S T IH0 K
+ballistics B AH0 L IH1 S T IH0 K S
+ballon B AE1 L AH0 N
+balloon B AH0 L UW1 N
+balloons B AH0 L UW1 N Z
+ballot B AE1 L AH0 T
+ballots B AE1 L AH0 T S
+ballpark B AO1 L P AA2 R K
+ballplayer B AO1 L P L EY2 ER0
+ballplayers B AO0 L P L EY1 ER0 Z
+ballpoint B AO1 L P OY0 N T
+ballroom B AO1 L R UW2 M
+balls B AO1 L Z
+bally B AE1 L IY0
+balm B AA1 M
+balmy B AA1 M IY0
+baloney B AH0 L OW1 N IY0
+baltic B AO1 L T IH0 K
+baltimore B AO1 L T AH0 M AO2 R
+bam B AE1 M
+bambino B AE2 M B IY1 N OW0
+bamboo B AE0 M B UW1
+ban B AE1 N
+banal B AH0 N AA1 L
+banana B AH0 N AE1 N AH0
+bananas B AH0 N AE1 N AH0 Z
+band B AE1 N D
+bandage B AE1 N D IH0 JH
+bandaged B AE1 N D AH0 JH D
+bandages B AE1 N D AH0 JH AH0 Z
+bandit B AE1 N D AH0 T
+bandits B AE1 N D AH0 T S
+bandleader B AE1 N D L IY0 D ER0
+bands B AE1 N D Z
+bandstand B AE1 N D S T AE2 N D
+bandwagon B AE1 N D W AE2 G AH0 N
+bandwidth B AE1 N D W IH0 D TH
+bandy B AE1 N D IY0
+bane B EY1 N
+banes B EY1 N Z
+bang B AE1 NG
+banged B AE1 NG D
+banger B AE1 NG ER0
+bangers B AE1 NG ER0 Z
+banging B AE1 NG IH0 NG
+bangkok B AE0 NG K AA1 K
+bangladesh B AE1 NG L AH0 D EH2 SH
+bangles B AE1 NG G AH0 L Z
+bangs B AE1 NG Z
+banish B AE1 N IH0 SH
+banished B AE1 N IH0 SH T
+banister B AE1 N IH0 S T ER0
+banjo B AE1 N JH OW2
+bank B AE1 NG K
+banked B AE1 NG K T
+banker B AE1 NG K ER0
+bankers B AE1 NG K ER0 Z
+banking B AE1 NG K IH0 NG
+bankroll B AE1 NG K R OW2 L
+bankrupt B AE1 NG K R AH0 P T
+bankruptcy B AE1 NG K R AH0 P S IY0
+banks B AE1 NG K S
+banned B AE1 N D
+banner B AE1 N ER0
+bannerman B AE1 N ER0 M AH0 N
+banners B AE1 N ER0 Z
+banning B AE1 N IH0 NG
+bannister B AE1 N AH0 S T ER0
+banque B AE1 NG K
+banquet B AE1 NG K W AH0 T
+banshee B AE0 N SH IY1
+banter B AE1 N T ER0
+baptism B AE1 P T IH0 Z AH0 M
+baptist B AE1 P T AH0 S T
+baptists B AE1 P T AH0 S T S
+baptize B AE0 P T AY1 Z
+baptized B AE0 P T AY1 Z D
+bar B AA1 R
+barb B AA1 R B
+barbados B AA0 R B EY1 D OW0 S
+barbara B AA1 R B ER0 AH0
+barbarian B AA0 R B EH1 R IY0 AH0 N
+barbarians B AA0 R B EH1 R IY0 AH0 N Z
+barbaric B AA0 R B AE1 R IH0 K
+barbarism B AA1 R B ER0 IH2 Z AH0 M
+barbary B AA1 R B ER0 IY0
+barbecue B AA1 R B IH0 K Y UW2
+barbecued B AA1 R B IH0 K Y UW2 D
+barbecues B AA1 R B IH0 K Y UW2 Z
+barbecuing B AA1 R B IH0 K Y UW2 IH0 NG
+barbed B AA1 R B D
+barbell B AA1 R B EH2 L
+barbeque B AA1 R B IH0 K Y UW2
+barber B AA1 R B ER0
+barbershop B AA1 R B ER0 SH AA2 P
+barbie B AA1 R B IY0
+barbies B AA1 R B IY0 Z
+barcelona B AA2 R S IH0 L OW1 N AH0
+bard B AA1 R D
+bare B EH1 R
+bared B EH1 R D
+barefoot B EH1 R F UH2 T
+barely B EH1 R L IY0
+barf B AA1 R F
+bargain B AA1 R G AH0 N
+bargained B AA1 R G AH0 N D
+bargaining B AA1 R G IH0 N IH0 NG
+bargains B AA1 R G AH0 N Z
+barge B AA1 R JH
+barged B AA1 R JH D
+barging B AA1 R JH IH0 NG
+barish B EH1 R IH0 SH
+baritone B EH1 R AH0 T OW2 N
+barium B EH1 R IY0 AH0 M
+bark B AA1 R K
+barked B AA1 R K T
+barker B AA1 R K ER0
+barking B AA1 R K IH0 NG
+barks B AA1 R K S
+barley B AA1 R L IY0
+barlow B AA1 R L OW2
+barman B AA1 R M AH0 N
+barn B AA1 R N
+barnaby B AA1 R N AH0 B IY0
+barnacle B AA1 R N AH0 K AH0 L
+barnacles B AA1 R N AH0 K AH0 L Z
+barnard B AA1 R N AA0 R D
+barney B AA1 R N IY0
+barneys B AA1 R N IY0 Z
+barns B AA1 R N Z
+barnyard B AA1 R N Y AA2 R D
+barometer B ER0 AA1 M IH0 T ER0
+baron B AE1 R AH0 N
+baroness B EH1 R AH0 N IH0 S
+barons B AE1 R AH0 N Z
+baroque B ER0 OW1 K
+barrack B AE1 R AH0 K
+barracks B AE1 R AH0 K S
+barracuda B EH2 R AH0 K UW1 D AH0
+barrage B ER0 AA1 ZH
+barred B AA1 R D
+barrel B AE1 R AH0 L
+barrels B AE1 R AH0 L Z
+barren B AE1 R AH0 N
+barret B AE1 R IH0 T
+barricade B AE1 R AH0 K EY2 D
+barricaded B AE1 R AH0 K EY2 D IH0 D
+barricades B AE1 R AH0 K EY2 D Z
+barrier B AE1 R IY0 ER0
+barriers B AE1 R IY0 ER0 Z
+barring B AA1 R IH0 NG
+barrio B AA1 R IY0 OW0
+barrister B AE1 R IH0 S T ER0
+barroom B AA1 R R UW2 M
+barrow B AE1 R OW0
+barrows B AE1 R OW0 Z
+barry B AE1 R IY0
+bars B AA1 R Z
+bart B AA1 R T
+bartender B AA1 R T EH2 N D ER0
+bartenders B AA1 R T EH2 N D ER0 Z
+barter B AA1 R T ER0
+barth B AA1 R TH
+bartholomew B AA0 R TH AA1 L AH0 M Y UW2
+bartlett B AA1 R T L IH0 T
+barton B AA1 R T AH0 N
+basal B EY1 S AH0 L
+base B EY1 S
+baseball B EY1 S B AO1 L
+baseballs B EY1 S B AO1 L Z
+based B EY1 S T
+baseless B EY1 S L AH0 S
+baseline B EY1 S L AY2 N
+baseman B EY1 S M AH0 N
+basement B EY1 S M AH0 N T
+basements B EY1 S M AH0 N T S
+bases B EY1 S AH0 Z
+bash B AE1 SH
+bashed B AE1 SH T
+basher B AE1 SH ER0
+bashful B AE1 SH F AH0 L
+bashing B AE1 SH IH0 NG
+basic B EY1 S IH0 K
+basically B EY1 S IH0 K L IY0
+basics B EY1 S IH0 K S
+basil B AE1 Z AH0 L
+basin B EY1 S AH0 N
+basing B EY1 S IH0 NG
+basis B EY1 S AH0 S
+bask B AE1 S K
+basket B AE1 S K AH0 T
+basketball B AE1 S K AH0 T B AO2 L
+basketballs B AE1 S K AH0 T B AO2 L Z
+baskets B AE1 S K AH0 T S
+basking B AE1 S K IH0 NG
+bass B AE1 S
+basset B AE1 S IH0 T
+bassoon B AH0 S UW1 N
+basta B AE1 S T AH0
+bastard B AE1 S T ER0 D
+bastards B AE1 S T ER0 D Z
+baste B EY1 S T
+bastille B AE1 S T IH0 L
+bastion B AE1 S CH AH0 N
+bat B AE1 T
+bataan B AH0 T AA1 N
+batch B AE1 CH
+batches B AE1 CH AH0 Z
+bateman B EY1 T M AH0 N
+bates B EY1 T S
+bath B AE1 TH
+bathe B EY1 DH
+bathed B EY1 DH D
+bathing B EY1 DH IH0 NG
+bathrobe B AE1 TH R OW2 B
+bathrobes B AE1 TH R OW2 B Z
+bathroom B AE1 TH R UW2 M
+bathrooms B AE1 TH R UW2 M Z
+baths B AE1 TH S
+bathtub B AE1 TH T AH0 B
+bathtubs B AE1 TH T AH2 B Z
+batman B AE1 T M AE2 N
+baton B AH0 T AA1 N
+batons B AE0 T AA1 N Z
+bats B AE1 T S
+battalion B AH0 T AE1 L Y AH0 N
+battalions B AH0 T AE1 L Y AH0 N Z
+batted B AE1 T IH0 D
+batten B AE1 T AH0 N
+batter B AE1 T ER0
+battered B AE1 T ER0 D
+batteries B AE1 T ER0 IY0 Z
+battering B AE1 T ER0 IH0 NG
+battery B AE1 T ER0 IY0
+batting B AE1 T IH0 NG
+battle B AE1 T AH0 L
+battled B AE1 T AH0 L D
+battlefield B AE1 T AH0 L F IY2 L D
+battlefields B AE1 T AH0 L F IY2 L D Z
+battleground B AE1 T AH0 L G R AW2 N D
+battlements B AE1 T AH0 L M AH0 N T S
+battles B AE1 T AH0 L Z
+battleship B AE1 T AH0 L SH IH2 P
+battleships B AE1 T AH0 L SH IH2 P S
+battling B AE1 T AH0 L IH0 NG
+batts B AE1 T S
+batty B AE1 T IY0
+bauble B AO1 B AH0 L
+bavarian B AH0 V EH1 R IY0 AH0 N
+bawl B AO1 L
+baxter B AE1 K S T ER0
+bay B EY1
+baying B EY1 IH0 NG
+bayonet B EY1 AH0 N EH2 T
+bayonets B EY1 AH0 N EH2 T S
+bayou B AY1 UW0
+bazaar B AH0 Z AA1 R
+bazooka B AH0 Z UW1 K AH0
+bazookas B AH0 Z UW1 K AH0 Z
+be B IY1
+beach B IY1 CH
+beached B IY1 CH T
+beaches B IY1 CH AH0 Z
+beachfront B IY1 CH F R AA0 N T
+beachhead B IY1 CH HH EH2 D
+beacon B IY1 K AH0 N
+bead B IY1 D
+beads B IY1 D Z
+beady B IY1 D IY0
+beagle B IY1 G AH0 L
+beak B IY1 K
+beaker B IY1 K ER0
+beaks B IY1 K S
+beam B IY1 M
+beamed B IY1 M D
+beamer B IY1 M ER0
+beaming B IY1 M IH0 NG
+beams B IY1 M Z
+bean B IY1 N
+beans B IY1 N Z
+bear B EH1 R
+bearable B EH1 R AH0 B AH0 L
+beard B IH1 R D
+bearded B IH1 R D AH0 D
+beards B IH1 R D Z
+bearer B EH1 R ER0
+bearers B EH1 R ER0 Z
+bearing B EH1 R IH0 NG
+bearings B EH1 R IH0 NG Z
+bears B EH1 R Z
+beast B IY1 S T
+beastie B IY1 S T IY0
+beastly B IY1 S T L IY2
+beasts B IY1 S T S
+beat B IY1 T
+beaten B IY1 T AH0 N
+beater B IY1 T ER0
+beating B IY1 T IH0 NG
+beatings B IY1 T IH0 NG Z
+beatles B IY1 T AH0 L Z
+beatnik B IY1 T N IH0 K
+beatrice B IY1 AH0 T R AH0 S
+beats B IY1 T S
+beau B OW1
+beaucoup B OW2 K UW1
+beaufort B OW1 F ER0 T
+beaujolais B OW1 JH OW0 L EY2
+beaumont B OW1 M AO0 N T
+beauties B Y UW1 T IY0 Z
+beautiful B Y UW1 T AH0 F AH0 L
+beautifully B Y UW1 T AH0 F L IY0
+beauty B Y UW1 T IY0
+beaver B IY1 V ER0
+beavers B IY1 V ER0 Z
+bebop B IY1 B AA2 P
+bec B EH1 K
+became B IH0 K EY1 M
+because B IH0 K AO1 Z
+beck B EH1 K
+becker B EH1 K ER0
+becket B EH1 K AH0 T
+beckett B EH1 K IH0 T
+beckoning B EH1 K AH0 N IH0 NG
+beckons B EH1 K AH0 N Z
+become B IH0 K AH1 M
+becomes B IH0 K AH1 M Z
+becoming B IH0 K AH1 M IH0 NG
+bed B EH1 D
+bedbug B EH1 D B AH0 G
+bedbugs B EH1 D B AH0 G Z
+bedded B EH1 D IH0 D
+bedding B EH1 D IH0 NG
+bedlam B EH1 D L AH0 M
+bedpan B EH1 D P AE2 N
+bedpans B EH1 D P AE2 N Z
+bedridden B EH1 D R IH2 D AH0 N
+bedrock B EH1 D R AA2 K
+bedroom B EH1 D R UW2 M
+bedrooms B EH1 D R UW2 M Z
+beds B EH1 D Z
+bedside B EH1 D S AY2 D
+bedspread B EH1 D S P R EH2 D
+bedtime B EH1 D T AY2 M
+bee B IY1
+beech B IY1 CH
+beecher B IY1 CH ER0
+beechwood B IY1 CH W UH2 D
+beef B IY1 F
+beefed B IY1 F T
+beefing B IY1 F IH0 NG
+beefs B IY1 F S
+beefsteak B IY1 F S T EY2 K
+beefy B IY1 F IY0
+beehive B IY1 HH AY2 V
+been B IH1 N
+beep B IY1 P
+beeped B IY1 P T
+beeper B IY1 P ER0
+beeping B IY1 P IH0 NG
+beeps B IY1 P S
+beer B IH1 R
+beers B IH1 R Z
+beery B IH1 R IY0
+bees B IY1 Z
+beet B IY1 T
+beethoven B EY1 T OW0 V AH0 N
+beetle B IY1 T AH0 L
+beetles B IY1 T AH0 L Z
+beets B IY1 T S
+befall B IH0 F AO1 L
+befitting B IH0 F IH1 T IH0 NG
+before B IH0 F AO1 R
+beforehand B IH0 F AO1 R HH AE2 N D
+befriend B IH0 F R EH1 N D
+befriended B IH0 F R EH1 N D IH0 D
+beg B EH1 G
+began B IH0 G AE1 N
+begat B IH0 G AE1 T
+beget B IH0 G EH1 T
+begets B IH0 G EH1 T S
+beggar B EH1 G ER0
+beggars B EH1 G ER0 Z
+begged B EH1 G D
+begging B EH1 G IH0 NG
+begin B IH0 G IH1 N
+beginner B IH0 G IH1 N ER0
+beginners B IH0 G IH1 N ER0 Z
+beginning B IH0 G IH1 N IH0 NG
+beginnings B IH0 G IH1 N IH0 NG Z
+begins B IH0 G IH1 N Z
+begrudge B IH0 G R AH1 JH
+begs B EH1 G Z
+begun B IH0 G AH1 N
+behalf B IH0 HH AE1 F
+behave B IH0 HH EY1 V
+behaved B IH0 HH EY1 V D
+behaves B IH0 HH EY1 V Z
+behaving B IH0 HH EY1 V IH0 NG
+behavior B IH0 HH EY1 V Y ER0
+behavioral B IH0 HH EY1 V Y ER0 AH0 L
+behaviors B IH0 HH EY1 V Y ER0 Z
+behaviour B IH0 HH EY1 V Y ER0
+beheaded B IH0 HH EH1 D IH0 D
+beheld B IY0 HH EH1 L D
+behest B IH0 HH EH1 S T
+behind B IH0 HH AY1 N D
+behinds B IH0 HH AY1 N D Z
+behold B IH0 HH OW1 L D
+beholden B IH0 HH OW1 L D AH0 N
+beholder B IY0 HH OW1 L D ER0
+behoove B IH0 HH UW1 V
+beige B EY1 ZH
+bein B IY1 N
+being B IY1 IH0 NG
+beings B IY1 IH0 NG Z
+beirut B EY0 R UW1 T
+bel B EH1 L
+bela B EH1 L AH0
+belated B IH0 L EY1 T IH0 D
+belch B EH1 L CH
+belching B EH1 L CH IH0 NG
+belfast B EH1 L F AE2 S T
+belfry B EH1 L F R IY0
+belgian B EH1 L JH AH0 N
+belgium B EH1 L JH AH0 M
+belief B IH0 L IY1 F
+beliefs B IH0 L IY1 F S
+believable B AH0 L IY1 V AH0 B AH0 L
+believe B IH0 L IY1 V
+believed B IH0 L IY1 V D
+believer B AH0 L IY1 V ER0
+believers B AH0 L IY1 V ER0 Z
+believes B IH0 L IY1 V Z
+believing B IH0 L IY1 V IH0 NG
+belittle B IH0 L IH1 T AH0 L
+belittling B IH0 L IH1 T AH0 L IH0 NG
+bell B EH1 L
+bellboy B EH1 L B OY2
+belle B EH1 L
+bellevue B EH1 L V Y UW2
+bellhop B EH1 L HH AA2 P
+belli B EH1 L IY0
+bellies B EH1 L IY0 Z
+belligerent B AH0 L IH1 JH ER0 AH0 N T
+belling B EH1 L IH0 NG
+bellman B EH1 L M AH0 N
+bello B EH1 L OW0
+bellow B EH1 L OW0
+bellowing B EH1 L OW0 IH0 NG
+bellows B EH1 L OW0 Z
+bells B EH1 L Z
+belly B EH1 L IY0
+bellyache B EH1 L IY0 EY2 K
+bellyaching B EH1 L IY2 EY1 K IH2 NG
+belong B IH0 L AO1 NG
+belonged B IH0 L AO1 NG D
+belonging B IH0 L AO1 NG IH0 NG
+belongings B IH0 L AO1 NG IH0 NG Z
+belongs B IH0 L AO1 NG Z
+beloved B IH0 L AH1 V D
+below B IH0 L OW1
+belt B EH1 L T
+belted B EH1 L T AH0 D
+belts B EH1 L T S
+beltway B EH1 L T W EY2
+beluga B IH0 L UW1 G AH0
+belvedere B EH2 L V AH0 D IH1 R
+ben B EH1 N
+bench B EH1 N CH
+benches B EH1 N CH IH0 Z
+bend B EH1 N D
+bender B EH1 N D ER0
+benders B EH1 N D ER0 Z
+bending B EH1 N D IH0 NG
+bends B EH1 N D Z
+bene B EH1 N AH0
+beneath B IH0 N IY1 TH
+benedick B EH1 N AH0 D IH0 K
+benedict B EH1 N AH0 D IH2 K T
+benediction B EH2 N AH0 D IH1 K SH AH0 N
+benefactor B EH1 N AH0 F AE2 K T ER0
+benefactors B EH1 N AH0 F AE2 K T ER0 Z
+beneficial B EH2 N AH0 F IH1 SH AH0 L
+beneficiaries B EH2 N AH0 F IH1 SH IY0 EH2 R IY0 Z
+beneficiary B EH2 N AH0 F IH1 SH IY0 EH2 R IY0
+benefit B EH1 N AH0 F IH0 T
+benefited B EH1 N AH0 F IH2 T IH0 D
+benefits B EH1 N AH0 F IH0 T S
+benes B EH1 N IY0 S
+benet B EH1 N AH0 T
+benevolence B AH0 N EH1 V AH0 L AH0 N S
+benevolent B AH0 N EH1 V AH0 L AH0 N T
+bengal B EH1 NG G AH0 L
+benign B IH0 N AY1 N
+benjamin B EH1 N JH AH0 M AH0 N
+benjy B EH1 N JH IY0
+benn B EH1 N
+bennet B EH1 N IH0 T
+benny B EH1 N IY0
+bent B EH1 N T
+benzene B EH0 N Z IY1 N
+beowulf B EY1 AH0 W UH2 L F
+bequeath B IH0 K W IY1 TH
+berate B IH0 R EY1 T
+bereaved B ER0 IY1 V D
+bereavement B ER0 IY1 V M AH0 N T
+bereft B ER0 EH1 F T
+beret B EH1 R AH0 T
+berets B EH1 R AH0 T S
+beretta B ER0 EH1 T AH0
+berg B ER1 G
+berger B ER1 G ER0
+bergman B ER1 G M AH0 N
+berk B ER1 K
+berkeley B ER1 K L IY0
+berkowitz B ER1 K AH0 W IH0 T S
+berkshire B ER1 K SH ER0
+berlin B ER0 L IH1 N
+bermuda B ER0 M Y UW1 D AH0
+bernard B ER0 N AA1 R D
+berries B EH1 R IY0 Z
+berry B EH1 R IY0
+berserk B ER0 S ER1 K
+berth B ER1 TH
+bertha B ER1 TH AH0
+bertram B ER1 T R AH0 M
+beryl B EH1 R AH0 L
+beryllium B ER0 IH1 L IY0 AH0 M
+beseech B IY0 S IY1 CH
+beset B IH0 S EH1 T
+beside B IH0 S AY1 D
+besides B IH0 S AY1 D Z
+besiege B IH0 S IY1 JH
+besieged B IH0 S IY1 JH D
+bess B EH1 S
+best B EH1 S T
+bested B EH1 S T IH0 D
+bestiality B EH0 S CH AE1 L IH0 T IY0
+bestow B IH0 S T OW1
+bestowed B IH0 S T OW1 D
+bestseller B EH1 S T S EH1 L ER0
+bet B EH1 T
+beta B EY1 T AH0
+betcha B EH1 CH AH0
+beth B EH1 TH
+bethesda B AH0 TH EH1 Z D AH0
+bethlehem B EH1 TH L IH0 HH EH2 M
+betray B IH0 T R EY1
+betrayal B IH0 T R EY1 AH0 L
+betrayed B IH0 T R EY1 D
+betraying B IH0 T R EY1 IH0 NG
+betrays B IH0 T R EY1 Z
+bets B EH1 T S
+better B EH1 T ER0
+betterment B EH1 T ER0 M AH0 N T
+betters B EH1 T ER0 Z
+betting B EH1 T IH0 NG
+bettor B EH1 T ER0
+betty B EH1 T IY0
+between B IH0 T W IY1 N
+beulah B Y UW1 L AH0
+beverage B EH1 V ER0 IH0 JH
+beverages B EH1 V R IH0 JH IH0 Z
+beware B IH0 W EH1 R
+bewildered B IH0 W IH1 L D ER0 D
+bewitched B IH0 W IH1 CH T
+bey B EY1
+beyond B IH0 AA1 N D
+bi B AY1
+bianco B IY0 AA1 NG K OW0
+bias B AY1 AH0 S
+biased B AY1 AH0 S T
+bib B IH1 B
+bibi B IH0 B IY1
+bible B AY1 B AH0 L
+bibles B AY1 B AH0 L Z
+biblical B IH1 B L AH0 K AH0 L
+bibs B IH1 B Z
+bicarbonate B AY0 K AA1 R B AH0 N AH0 T
+bicentennial B AY2 S EH0 N T EH1 N IY0 AH0 L
+bicep B AY1 S EH2 P
+biceps B AY1 S EH2 P S
+bicker B IH1 K ER0
+bickering B IH1 K ER0 IH0 NG
+bicycle B AY1 S IH0 K AH0 L
+bicycles B AY1 S IH0 K AH0 L Z
+bid B IH1 D
+bidder B IH1 D ER0
+bidding B IH1 D IH0 NG
+bide B AY1 D
+bids B IH1 D Z
+bien B IY1 N
+bienvenue B AH0 N V EY1 N W EH0
+biff B IH1 F
+big B IH1 G
+bigfoot B IH1 G F UH2 T
+bigger B IH1 G ER0
+biggest B IH1 G AH0 S T
+biggie B IH1 G IY0
+bighorn B IH1 G HH AO2 R N
+bigot B IH1 G AH0 T
+bigotry B IH1 G AH0 T R IY0
+bike B AY1 K
+biker B AY1 K ER0
+bikers B AY1 K ER0 Z
+bikes B AY1 K S
+biking B AY1 K IH0 NG
+bikini B IH0 K IY1 N IY0
+bikinis B AH0 K IY1 N IY0 Z
+bilateral B AY0 L AE1 T ER0 AH0 L
+bilaterally B AY0 L AE1 T ER0 AH0 L IY0
+bilbo B IH1 L B OW2
+bile B AY1 L
+bilingual B AY0 L IH1 NG G W AH0 L
+bilious B IH1 L IY0 AH0 S
+bill B IH1 L
+billboard B IH1 L B AO2 R D
+billboards B IH1 L B AO2 R D Z
+billed B IH1 L D
+billet B IH1 L AH0 T
+billiard B IH1 L Y ER0 D
+billiards B IH1 L Y ER0 D Z
+billie B IH1 L IY0
+billing B IH1 L IH0 NG
+billings B IH1 L IH0 NG Z
+billion B IH1 L Y AH0 N
+billionaire B IH2 L Y AH0 N EH1 R
+billions B IH1 L Y AH0 N Z
+bills B IH1 L Z
+billy B IH1 L IY0
+bimbo B IH1 M B OW0
+bimbos B IH1 M B OW0 S
+bin B IH1 N
+binary B AY1 N ER0 IY0
+bind B AY1 N D
+binder B AY1 N D ER0
+binding B AY1 N D IH0 NG
+binds B AY1 N D Z
+bing B IH1 NG
+binge B IH1 N JH
+bingo B IH1 NG G OW0
+bink B IH1 NG K
+binoculars B AH0 N AA1 K Y AH0 L ER0 Z
+bins B IH1 N Z
+bio B AY2 OW1
+biochemical B AY2 OW0 K EH1 M AH0 K AH0 L
+biochemist B AY2 OW0 K EH1 M AH0 S T
+biochemistry B AY2 OW0 K EH1 M AH0 S T R IY0
+biographer B AY0 AA1 G R AH0 F ER0
+biographies B AY0 AA1 G R AH0 F IY0 Z
+biography B AY0 AA1 G R AH0 F IY0
+biological B AY2 AH0 L AA1 JH IH0 K AH0 L
+biologically B AY0 AH0 L AA1 JH IH0 K L IY0
+biologist B AY0 AA1 L AH0 JH IH0 S T
+biology B AY0 AA1 L AH0 JH IY0
+biometric B AY2 AH0 M EH1 T R AH0 K
+bionic B AY2 AO1 N IH0 K
+biopsy B AY1 AA0 P S IY0
+biotech B AY1 OW0 T EH2 K
+bipolar B AY0 P OW1 L ER0
+birch B ER1 CH
+bird B ER1 D
+birdcage B ER1 D K EY0 JH
+birdhouse B ER1 D HH AW0 S
+birdie B ER1 D IY0
+birdies B ER1 D IY0 Z
+birdman B ER1 D M AE0 N
+birds B ER1 D Z
+birdseed B ER1 D S IY2 D
+birdy B ER1 D IY0
+birmingham B ER1 M IH0 NG HH AE2 M
+birth B ER1 TH
+birthday B ER1 TH D EY2
+birthdays B ER1 TH D EY2 Z
+birthing B ER1 TH IH0 NG
+birthmark B ER1 TH M AA2 R K
+birthplace B ER1 TH P L EY2 S
+birthright B ER1 TH R AY2 T
+births B ER1 TH S
+biscuit B IH1 S K AH0 T
+biscuits B IH1 S K AH0 T S
+bisexual B AY2 S EH1 K SH UW0 AH0 L
+bish B IH1 SH
+bishop B IH1 SH AH0 P
+bishops B IH1 SH AH0 P S
+bismarck B IH1 Z M AA2 R K
+bison B AY1 S AH0 N
+bisque B IH1 S K
+bistro B IH1 S T R OW0
+bit B IH1 T
+bitch B IH1 CH
+bitches B IH1 CH IH0 Z
+bitching B IH1 CH IH0 NG
+bitchy B IH1 CH IY0
+bite B AY1 T
+biter B AY1 T ER0
+bites B AY1 T S
+biting B AY1 T IH0 NG
+bits B IH1 T S
+bitsy B IH1 T S IY0
+bitten B IH1 T AH0 N
+bitter B IH1 T ER0
+bitterly B IH1 T ER0 L IY0
+bitterness B IH1 T ER0 N AH0 S
+bitters B IH1 T ER0 Z
+bittersweet B IH1 T ER0 S W IY2 T
+bitty B IH1 T IY0
+biz B IH1 Z
+bizarre B AH0 Z AA1 R
+blab B L AE1 B
+black B L AE1 K
+blackberry B L AE1 K B EH2 R IY0
+blackbird B L AE1 K B ER0 D
+blackboard B L AE1 K B AO2 R D
+blacked B L AE1 K T
+blacken B L AE1 K AH0 N
+blackened B L AE1 K AH0 N D
+blacker B L AE1 K ER0
+blackest B L AE1 K AH0 S T
+blackfoot B L AE1 K F UH2 T
+blackie B L AE1 K IY0
+blackjack B L AE1 K JH AE2 K
+blacklist B L AE1 K L IH2 S T
+blacklisted B L AE1 K L IH2 S T IH0 D
+blackmail B L AE1 K M EY2 L
+blackmailed B L AE1 K M EY2 L D
+blackmailing B L AE1 K M EY2 L IH0 NG
+blackness B L AE1 K N AH0 S
+blackout B L AE1 K AW2 T
+blackouts B L AE1 K AW2 T S
+blacks B L AE1 K S
+blacksmith B L AE1 K S M IH2 TH
+blacktop B L AE1 K T AA2 P
+bladder B L AE1 D ER0
+blade B L EY1 D
+blades B L EY1 D Z
+blah B L AA1
+blair B L EH1 R
+blake B L EY1 K
+blame B L EY1 M
+blamed B L EY1 M D
+blameless B L EY1 M L AH0 S
+blames B L EY1 M Z
+blaming B L EY1 M IH0 NG
+blanc B L AE1 NG K
+blanca B L AA1 NG K AH0
+blanche B L AE1 N CH
+blanco B L AE1 NG K OW0
+bland B L AE1 N D
+blank B L AE1 NG K
+blanket B L AE1 NG K AH0 T
+blankets B L AE1 NG K AH0 T S
+blanks B L AE1 NG K S
+blanky B L AE1 NG K IY2
+blare B L EH1 R
+blares B L EH1 R Z
+blaring B L EH1 R IH0 NG
+blasphemous B L AE1 S F AH0 M AH0 S
+blasphemy B L AE1 S F AH0 M IY0
+blast B L AE1 S T
+blasted B L AE1 S T AH0 D
+blaster B L AE1 S T ER0
+blasting B L AE1 S T IH0 NG
+blastoff B L AE1 S T AO2 F
+blasts B L AE1 S T S
+blatant B L EY1 T AH0 N T
+blatantly B L EY1 T AH0 N T L IY0
+blather B L AE1 DH ER0
+blaze B L EY1 Z
+blazed B L EY1 Z D
+blazer B L EY1 Z ER0
+blazers B L EY1 Z ER0 Z
+blazes B L EY1 Z IH0 Z
+blazing B L EY1 Z IH0 NG
+bleach B L IY1 CH
+bleached B L IY1 CH T
+bleachers B L IY1 CH ER0 Z
+bleaching B L IY1 CH IH0 NG
+bleak B L IY1 K
+bled B L EH1 D
+bleed B L IY1 D
+bleeding B L IY1 D IH0 NG
+bleeds B L IY1 D Z
+bleep B L IY1 P
+bleeping B L IY1 P IH0 NG
+blemish B L EH1 M IH0 SH
+blend B L EH1 N D
+blended B L EH1 N D IH0 D
+blender B L EH1 N D ER0
+blending B L EH1 N D IH0 NG
+blends B L EH1 N D Z
+bless B L EH1 S
+blessed B L EH1 S T
+blesses B L EH1 S IH0 Z
+blessing B L EH1 S IH0 NG
+blessings B L EH1 S IH0 NG Z
+bleu B L UW1
+blew B L UW1
+blight B L AY1 T
+blimp B L IH1 M P
+blind B L AY1 N D
+blinded B L AY1 N D IH0 D
+blinders B L AY1 N D ER0 Z
+blindfold B L AY1 N D F OW2 L D
+blindfolded B L AY1 N D F OW2 L D IH0 D
+blinding B L AY1 N D IH0 NG
+blindly B L AY1 N D L IY0
+blindness B L AY1 N D N AH0 S
+blinds B L AY1 N D Z
+blindsided B L AY1 N D S AY2 D IH0 D
+blink B L IH1 NG K
+blinked B L IH1 NG K T
+blinking B L IH1 NG K IH0 NG
+blinks B L IH1 NG K S
+blip B L IH1 P
+bliss B L IH1 S
+blissful B L IH1 S F AH0 L
+blissfully B L IH1 S F AH0 L IY0
+blister B L IH1 S T ER0
+blistering B L IH1 S T ER0 IH0 NG
+blisters B L IH1 S T ER0 Z
+blithely B L AY1 TH L IY0
+blitz B L IH1 T S
+blitzkrieg B L IH1 T S K R IY2 G
+blizzard B L IH1 Z ER0 D
+bloat B L OW1 T
+bloated B L OW1 T IH0 D
+blob B L AA1 B
+blobs B L AA1 B Z
+bloc B L AA1 K
+block B L AA1 K
+blockade B L AA2 K EY1 D
+blockage B L AA1 K IH0 JH
+blockbuster B L AA1 K B AH2 S T ER0
+blockbusters B L AA1 K B AH2 S T ER0 Z
+blocked B L AA1 K T
+blocker B L AA1 K ER0
+blockers B L AA1 K ER0 Z
+blockhead B L AA1 K HH EH2 D
+blocking B L AA1 K IH0 NG
+blocks B L AA1 K S
+blog B L AO1 G
+bloke B L OW1 K
+blokes B L OW1 K S
+blond B L AA1 N D
+blonde B L AA1 N D
+blondes B L AA1 N D Z
+blonds B L AA1 N D Z
+blood B L AH1 D
+bloodbath B L AH1 D B AE2 TH
+blooded B L AH1 D IH0 D
+bloodhound B L AH1 D HH AW0 N D
+bloodhounds B L AH1 D HH AW0 N D Z
+bloodied B L AH1 D IY0 D
+bloodiest B L AH1 D IY0 AH0 S T
+bloodline B L AH1 D L AY2 N
+bloodlines B L AH1 D L AY2 N Z
+bloods B L AH1 D Z
+bloodshed B L AH1 D SH EH2 D
+bloodstained B L AH1 D S T EY2 N D
+bloodstains B L AH1 D S T EY2 N Z
+bloodstream B L AH1 D S T R IY2 M
+bloodsucker B L AH1 D S AH2 K ER0
+bloodsuckers B L AH1 D S AH2 K ER0 Z
+bloodsucking B L AH1 D S AH2 K IH0 NG
+bloodthirsty B L AH1 D TH ER2 S T IY0
+bloody B L AH1 D IY0
+bloom B L UW1 M
+bloomer B L UW1 M ER0
+bloomers B L UW1 M ER0 Z
+blooming B L UW1 M IH0 NG
+blooms B L UW1 M Z
+blossom B L AA1 S AH0 M
+blossomed B L AA1 S AH0 M D
+blossoming B L AA1 S AH0 M IH0 NG
+blossoms B L AA1 S AH0 M Z
+blot B L AA1 T
+blotted B L AA1 T AH0 D
+blotter B L AA1 T ER0
+blouse B L AW1 S
+blouses B L AW1 S AH0 Z
+blow B L OW1
+blower B L OW1 ER0
+blowfish B L OW1 F IH0 SH
+blowhard B L OW1 HH AA2 R D
+blowing B L OW1 IH0 NG
+blowjob B L OW1 JH AA2 B
+blowjobs B L OW1 JH AA2 B Z
+blown B L OW1 N
+blowout B L OW1 AW2 T
+blows B L OW1 Z
+blowtorch B L OW1 T AO2 R CH
+blowup B L OW1 AH2 P
+blubber B L AH1 B ER0
+bludgeoned B L AH1 JH AH0 N D
+blue B L UW1
+blueberries B L UW1 B EH2 R IY0 Z
+blueberry B L UW1 B EH2 R IY0
+bluebird B L UW1 B ER2 D
+bluebirds B L UW1 B ER2 D Z
+bluegrass B L UW1 G R AE2 S
+bluejay B L UW1 JH EY2
+blueprint B L UW1 P R IH2 N T
+blueprints B L UW1 P R IH2 N T S
+bluer B L UW1 ER0
+blues B L UW1 Z
+bluff B L AH1 F
+bluffed B L AH1 F T
+bluffing B L AH1 F IH0 NG
+bluffs B L AH1 F S
+blume B L UW1 M
+blunder B L AH1 N D ER0
+blundering B L AH1 N D ER0 IH0 NG
+blunders B L AH1 N D ER0 Z
+blunt B L AH1 N T
+bluntly B L AH1 N T L IY0
+blunts B L AH1 N T S
+blur B L ER1
+blurred B L ER1 D
+blurry B L ER1 IY0
+blurt B L ER1 T
+blush B L AH1 SH
+blushes B L AH1 SH AH0 Z
+blushing B L AH1 SH IH0 NG
+blvd B UH1 L AH0 V AA2 R D
+bo B OW1
+boa B OW1 AH0
+boar B AO1 R
+board B AO1 R D
+boarded B AO1 R D AH0 D
+boarder B AO1 R D ER0
+boarders B AO1 R D ER0 Z
+boarding B AO1 R D IH0 NG
+boardroom B AO1 R D R UW2 M
+boards B AO1 R D Z
+boardwalk B AO1 R D W AO2 K
+boast B OW1 S T
+boasted B OW1 S T AH0 D
+boasting B OW1 S T IH0 NG
+boasts B OW1 S T S
+boat B OW1 T
+boathouse B OW1 T HH AW1 S
+boating B OW1 T IH0 NG
+boatload B OW1 T L OW2 D
+boatman B OW1 T M AH0 N
+boats B OW1 T S
+boatswain B OW1 T S W EY0 N
+bob B AA1 B
+bobbie B AA1 B IY0
+bobbing B AA1 B IH0 NG
+bobby B AA1 B IY0
+bobcat B AA1 B K AE2 T
+bobo B OW1 B OW0
+bobsled B AA1 B S L EH2 D
+boca B OW1 K AH0
+bock B AA1 K
+bode B OW1 D
+bodega B OW0 D EY1 G AH0
+bodies B AA1 D IY0 Z
+bodily B AA1 D AH0 L IY0
+body B AA1 D IY0
+bodyguard B AA1 D IY0 G AA2 R D
+bodyguards B AA1 D IY0 G AA2 R D Z
+boeing B OW1 IH0 NG
+boff B AO1 F
+bog B AA1 G
+bogart B OW1 G AA2 R T
+bogey B OW1 G IY0
+bogeyman B OW1 G IY0 M AE2 N
+bogged B AA1 G D
+boggle B AA1 G AH0 L
+bogie B UH1 G IY0
+bogota B OW2 G AH0 T AA1
+bogus B OW1 G AH0 S
+bohemian B OW0 HH IY1 M IY0 AH0 N
+boil B OY1 L
+boiled B OY1 L D
+boiler B OY1 L ER0
+boilerplate B OY1 L ER0 P L EY2 T
+boilers B OY1 L ER0 Z
+boiling B OY1 L IH0 NG
+boils B OY1 L Z
+boise B OY1 Z IY0
+bold B OW1 L D
+bolder B OW1 L D ER0
+boldly B OW1 L D L IY0
+bolivar B AA1 L AH0 V ER0
+bolivia B AH0 L IH1 V IY0 AH0
+bollocks B AO1 L AO0 K S
+bologna B AH0 L OW1 N IY0
+bolshevik B OW1 L SH AH0 V IH2 K
+bolster B OW1 L S T ER0
+bolt B OW1 L T
+bolted B OW1 L T AH0 D
+bolts B OW1 L T S
+bolus B OW1 L AH0 S
+bom B AA1 M
+bomb B AA1 M
+bombarded B AA0 M B AA1 R D IH0 D
+bombardier B AA2 M B ER0 D IH1 R
+bombarding B AA0 M B AA1 R D IH0 NG
+bombardment B AA0 M B AA1 R D M AH0 N T
+bombay B AA0 M B EY1
+bombed B AA1 M D
+bomber B AA1 M ER0
+bombers B AA1 M ER0 Z
+bombing B AA1 M IH0 NG
+bombings B AA1 M IH0 NG Z
+bombs B AA1 M Z
+bombshell B AA1 M SH EH2 L
+bombshells B AA1 M SH EH2 L Z
+bon B AA1 N
+bona B OW1 N AH0
+bonanza B AH0 N AE1 N Z AH0
+bonaventure B AA1 N AH0 V EH2 N CH ER0
+bond B AA1 N D
+bondage B AA1 N D IH0 JH
+bonded B AA1 N D AH0 D
+bonding B AA1 N D IH0 NG
+bonds B AA1 N D Z
+bone B OW1 N
+boned B OW1 N D
+boneless B OW1 N L AH0 S
+boner B OW1 N ER0
+bones B OW1 N Z
+bonfire B AA1 N F AY2 ER0
+bong B AA1 NG
+bongo B AA1 NG G OW2
+bongos B AA1 NG G OW2 Z
+boning B OW1 N IH0 NG
+bonita B OW0 N IY1 T AH0
+bonjour B AH0 N ZH UH1 R
+bonk B AA1 NG K
+bonkers B AA1 NG K ER0 Z
+bonne B AA1 N
+bonnet B AA1 N AH0 T
+bonnie B AA1 N IY0
+bonny B AA1 N IY0
+bono B OW1 N OW0
+bonsai B AA0 N S AY1
+bonus B OW1 N AH0 S
+bonuses B OW1 N AH0 S IH0 Z
+bony B OW1 N IY0
+boo B UW1
+boob B UW1 B
+boobs B UW1 B Z
+booby B UW1 B IY0
+boodle B UW1 D AH0 L
+booed B UW1 D
+boogie B UW1 G IY0
+booing B UW1 IH0 NG
+book B UH1 K
+bookcase B UH1 K K EY2 S
+booked B UH1 K T
+booker B UH1 K ER0
+bookie B UH1 K IY0
+bookies B UH1 K IY0 Z
+booking B UH1 K IH0 NG
+bookings B UH1 K IH0 NG Z
+bookkeeper B UH1 K K IY2 P ER0
+bookkeeping B UH1 K K IY2 P IH0 NG
+booklet B UH1 K L IH0 T
+booklets B UH1 K L IH0 T S
+bookmaker B UH1 K M EY0 K ER0
+bookmark B UH1 K M AA0 R K
+books B UH1 K S
+bookshelf B UH1 K SH EH2 L F
+bookshelves B UH1 K SH EH2 L V Z
+bookshop B UH1 K SH AA2 P
+bookstore B UH1 K S T AO2 R
+bookstores B UH1 K S T AO2 R Z
+bookworm B UH1 K W ER2 M
+boom B UW1 M
+boomer B UW1 M ER0
+boomerang B UW1 M ER0 AE2 NG
+booming B UW1 M IH0 NG
+boon B UW1 N
+boondocks B UW1 N D AA2 K S
+boorish B UH1 R IH0 SH
+boost B UW1 S T
+boosted B UW1 S T IH0 D
+booster B UW1 S T ER0
+boosters B UW1 S T ER0 Z
+boosting B UW1 S T IH0 NG
+boot B UW1 T
+booted B UW1 T IH0 D
+booth B UW1 TH
+booths B UW1 TH S
+booties B UW1 T IY0 Z
+bootleg B UW1 T L EH2 G
+bootlegger B UW1 T L EH2 G ER0
+bootleggers B UW1 T L EH2 G ER0 Z
+bootlegging B UW1 T L EH2 G IH0 NG
+boots B UW1 T S
+booty B UW1 T IY0
+booze B UW1 Z
+boozer B UW1 Z ER0
+boozing B UW1 Z IH0 NG
+bop B AA1 P
+bopper B AA1 P ER0
+bora B AO1 R AH0
+bordeaux B AO0 R D OW1
+bordello B AO0 R D EH1 L OW2
+border B AO1 R D ER0
+bordering B AO1 R D ER0 IH0 NG
+borderline B AO1 R D ER0 L AY2 N
+borders B AO1 R D ER0 Z
+bore B AO1 R
+borealis B AO2 R IY0 AE1 L AH0 S
+bored B AO1 R D
+boredom B AO1 R D AH0 M
+bores B AO1 R Z
+borg B AO1 R G
+boring B AO1 R IH0 NG
+born B AO1 R N
+borne B AO1 R N
+borneo B AO1 R N IY0 OW2
+borough B ER1 OW2
+boroughs B ER1 OW2 Z
+borrow B AA1 R OW2
+borrowed B AA1 R OW2 D
+borrowing B AA1 R OW0 IH0 NG
+borrows B AA1 R OW0 Z
+bors B AO1 R Z
+borscht B AO1 R SH T
+bos B AA1 S
+bosh B AA1 SH
+bosom B UH1 Z AH0 M
+boss B AA1 S
+bosses B AO1 S IH0 Z
+bossy B AO1 S IY0
+boston B AA1 S T AH0 N
+boswell B AA1 Z W EH0 L
+bot B AO1 T
+botanical B AH0 T AE1 N IH0 K AH0 L
+botanist B AA1 T AH0 N IH0 S T
+botany B AA1 T AH0 N IY0
+botch B AA1 CH
+botched B AA1 CH T
+both B OW1 TH
+bother B AA1 DH ER0
+bothered B AA1 DH ER0 D
+bothering B AA1 DH ER0 IH0 NG
+bothers B AA1 DH ER0 Z
+bothersome B AA1 DH ER0 S AH0 M
+bots B AO1 T S
+botswana B AA0 T S W AA1 N AH0
+bottle B AA1 T AH0 L
+bottled B AA1 T AH0 L D
+bottleneck B AA1 T AH0 L N EH2 K
+bottles B AA1 T AH0 L Z
+bottling B AA1 T AH0 L IH0 NG
+bottom B AA1 T AH0 M
+bottomless B AA1 T AH0 M L AH0 S
+bottoms B AA1 T AH0 M Z
+botulism B AA1 CH UW0 L IH2 Z AH0 M
+boudoir B UW1 D OY2 R
+bough B AW1
+boughs B AW1 Z
+bought B AA1 T
+boulder B OW1 L D ER0
+boulders B OW1 L D ER0 Z
+boulevard B UH1 L AH0 V AA2 R D
+bounce B AW1 N S
+bounced B AW1 N S T
+bouncer B AW1 N S ER0
+bouncers B AW1 N S ER0 Z
+bounces B AW1 N S IH0 Z
+bouncing B AW1 N S IH0 NG
+bouncy B AW1 N S IY0
+bound B AW1 N D
+boundaries B AW1 N D ER0 IY0 Z
+boundary B AW1 N D ER0 IY0
+boundless B AW1 N D L AH0 S
+bounds B AW1 N D Z
+bountiful B AW1 N T IH0 F AH0 L
+bounty B AW1 N T IY0
+bouquet B UW0 K EY1
+bouquets B OW0 K EY1 Z
+bourbon B ER1 B AH0 N
+bourgeois B UH0 R ZH W AA1
+bourgeoisie B UH2 R ZH W AA2 Z IY1
+bourne B AO1 R N
+bout B AW1 T
+boutique B UW0 T IY1 K
+bouts B AW1 T S
+bovine B OW1 V AY2 N
+bow B AW1
+bowden B OW1 D AH0 N
+bowed B AW1 D
+bowel B AW1 AH0 L
+bowels B AW1 AH0 L Z
+bowers B AW1 ER0 Z
+bowery B AW1 ER0 IY0
+bowie B OW1 IY0
+bowing B OW1 IH0 NG
+bowl B OW1 L
+bowled B OW1 L D
+bowler B OW1 L ER0
+bowline B OW1 L AY0 N
+bowling B OW1 L IH0 NG
+bowls B OW1 L Z
+bowman B OW1 M AH0 N
+bows B AW1 Z
+bowser B OW1 Z ER0
+box B AA1 K S
+boxcar B AA1 K S K AA2 R
+boxed B AA1 K S T
+boxer B AA1 K S ER0
+boxers B AA1 K S ER0 Z
+boxes B AA1 K S AH0 Z
+boxing B AA1 K S IH0 NG
+boy B OY1
+boycott B OY1 K AA2 T
+boycotting B OY1 K AA2 T IH0 NG
+boyer B OY1 ER0
+boyfriend B OY1 F R EH2 N D
+boyfriends B OY1 F R EH2 N D Z
+boyhood B OY1 HH UH2 D
+boyish B OY1 IH0 SH
+boys B OY1 Z
+bozo B OW1 Z OW2
+bozos B OW1 Z OW2 Z
+bp B IY2 P IY1
+bra B R AA1
+brace B R EY1 S
+braced B R EY1 S T
+bracelet B R EY1 S L AH0 T
+bracelets B R EY1 S L IH0 T S
+braces B R EY1 S AH0 Z
+bracing B R EY1 S IH0 NG
+bracken B R AE1 K AH0 N
+bracket B R AE1 K IH0 T
+brad B R AE1 D
+brag B R AE1 G
+bragged B R AE1 G D
+bragging B R AE1 G IH0 NG
+brags B R AE1 G Z
+brahms B R AA1 M Z
+braid B R EY1 D
+braided B R EY1 D IH0 D
+braids B R EY1 D Z
+braille B R EY1 L
+brain B R EY1 N
+brainless B R EY1 N L IH0 S
+brains B R EY1 N Z
+brainstorm B R EY1 N S T AO2 R M
+brainstorming B R EY1 N S T AO2 R M IH0 NG
+brainwash B R EY1 N W AA2 SH
+brainwashed B R EY1 N W AA2 SH T
+brainwashing B R EY1 N W AA2 SH IH0 NG
+brainy B R EY1 N IY0
+brake B R EY1 K
+brakes B R EY1 K S
+braking B R EY1 K IH0 NG
+bran B R AE1 N
+branch B R AE1 N CH
+branches B R AE1 N CH AH0 Z
+branching B R AE1 N CH IH0 NG
+brand B R AE1 N D
+branded B R AE1 N D IH0 D
+brander B R AE1 N D ER0
+branding B R AE1 N D IH0 NG
+brandon B R AE1 N D AH0 N
+brands B R AE1 N D Z
+brandy B R AE1 N D IY0
+brannigan B R AE1 N IH0 G AH0 N
+brant B R AE1 N T
+bras B R AE1 S
+brash B R AE1 SH
+brass B R AE1 S
+brat B R AE1 T
+brats B R AE1 T S
+bratwurst B R AE1 T W ER0 S T
+bravado B R AH0 V AA1 D OW0
+brave B R EY1 V
+braved B R EY1 V D
+bravely B R EY1 V L IY0
+braver B R EY1 V ER0
+bravery B R EY1 V ER0 IY0
+braves B R EY1 V Z
+bravest B R EY1 V AH0 S T
+bravo B R AA1 V OW0
+brawl B R AO1 L
+brawling B R AO1 L IH0 NG
+brawn B R AO1 N
+bray B R EY1
+brazen B R EY1 Z AH0 N
+brazil B R AH0 Z IH1 L
+brazilian B R AH0 Z IH1 L Y AH0 N
+breach B R IY1 CH
+breached B R IY1 CH T
+breaches B R IY1 CH IH0 Z
+breaching B R IY1 CH IH0 NG
+bread B R EH1 D
+breadth B R EH1 D TH
+breadwinner B R EH1 D W IH2 N ER0
+break B R EY1 K
+breakaway B R EY1 K AH0 W EY2
+breakdown B R EY1 K D AW2 N
+breakdowns B R EY1 K D AW2 N Z
+breaker B R EY1 K ER0
+breakers B R EY1 K ER0 Z
+breakfast B R EH1 K F AH0 S T
+breakfasts B R EH1 K F AH0 S T S
+breaking B R EY1 K IH0 NG
+breakout B R EY1 K AW2 T
+breaks B R EY1 K S
+breakthrough B R EY1 K TH R UW2
+breakthroughs B R EY1 K TH R UW2 Z
+breakup B R EY1 K AH2 P
+breakups B R EY1 K AH0 P S
+breast B R EH1 S T
+breastfeeding B R EH1 S T F IY0 D IH0 NG
+breasts B R EH1 S T S
+breath B R EH1 TH
+breathe B R IY1 DH
+breathed B R IY1 DH D
+breather B R IY1 DH ER0
+breathes B R IY1 DH Z
+breathing B R IY1 DH IH0 NG
+breathless B R EH1 TH L AH0 S
+breaths B R EH1 TH S
+breathtaking B R EH1 TH T EY2 K IH0 NG
+breck B R EH1 K
+bred B R EH1 D
+bree B R IY1
+breech B R IY1 CH
+breeches B R IY1 CH IH0 Z
+breed B R IY1 D
+breeder B R IY1 D ER0
+breeders B R IY1 D ER0 Z
+breeding B R IY1 D IH0 NG
+breeds B R IY1 D Z
+breeze B R IY1 Z
+breezes B R IY1 Z IH0 Z
+breezy B R IY1 Z IY0
+brent B R EH1 N T
+bret B R EH1 T
+brethren B R EH1 DH R AH0 N
+brett B R EH1 T
+brew B R UW1
+brewed B R UW1 D
+brewer B R UW1 ER0
+brewery B R UW1 ER0 IY0
+brewing B R UW1 IH0 NG
+brewster B R UW1 S T ER0
+brian B R AY1 AH0 N
+briar B R AY1 ER0
+bribe B R AY1 B
+bribed B R AY1 B D
+bribery B R AY1 B ER0 IY0
+bribes B R AY1 B Z
+bribing B R AY1 B IH0 NG
+brick B R IH1 K
+bricks B R IH1 K S
+bridal B R AY1 D AH0 L
+bride B R AY1 D
+bridegroom B R AY1 D G R UW2 M
+brides B R AY1 D Z
+bridesmaid B R AY1 D Z M EY2 D
+bridesmaids B R AY1 D Z M EY2 D Z
+bridge B R IH1 JH
+bridgeport B R IH1 JH P AO2 R T
+bridger B R IH1 JH ER0
+bridges B R IH1 JH AH0 Z
+bridle B R AY1 D AH0 L
+brie B R IY1
+brief B R IY1 F
+briefcase B R IY1 F K EY2 S
+briefcases B R IY1 F K EY2 S IH0 Z
+briefed B R IY1 F T
+briefing B R IY1 F IH0 NG
+briefings B R IY1 F IH0 NG Z
+briefly B R IY1 F L IY0
+briefs B R IY1 F S
+brier B R AY1 ER0
+brig B R IH1 G
+brigade B R AH0 G EY1 D
+brigades B R IH0 G EY1 D Z
+brigadier B R IH2 G AH0 D IH1 R
+bright B R AY1 T
+brighten B R AY1 T AH0 N
+brighter B R AY1 T ER0
+brightest B R AY1 T AH0 S T
+brightly B R AY1 T L IY0
+brightness B R AY1 T N AH0 S
+brill B R IH1 L
+brilliance B R IH1 L Y AH0 N S
+brilliant B R IH1 L Y AH0 N T
+brilliantly B R IH1 L Y AH0 N T L IY0
+brim B R IH1 M
+brimmer B R IH1 M ER0
+brimming B R IH1 M IH0 NG
+brimstone B R IH1 M S T OW0 N
+brine B R AY1 N
+bring B R IH1 NG
+bringing B R IH1 NG IH0 NG
+brings B R IH1 NG Z
+brink B R IH1 NG K
+brisbane B R IH1 Z B EY2 N
+brisk B R IH1 S K
+brisket B R IH1 S K AH0 T
+bristles B R IH1 S AH0 L Z
+bristol B R IH1 S T AH0 L
+brit B R IH1 T
+britain B R IH1 T AH0 N
+britannia B R IH0 T AE1 N IY0 AH0
+britches B R IH1 CH AH0 Z
+british B R IH1 T IH0 SH
+brits B R IH1 T S
+britt B R IH1 T
+brittle B R IH1 T AH0 L
+bro B R OW1
+broach B R OW1 CH
+broad B R AO1 D
+broadband B R AO1 D B AE2 N D
+broadcast B R AO1 D K AE2 S T
+broadcasting B R AO1 D K AE2 S T IH0 NG
+broadcasts B R AO1 D K AE2 S T S
+broaden B R AO1 D AH0 N
+broader B R AO1 D ER0
+broadside B R AO1 D S AY2 D
+broadsword B R AO1 D S AO2 R D
+broadway B R AO1 D W EY2
+broccoli B R AA1 K AH0 L IY0
+brochure B R OW0 SH UH1 R
+brochures B R OW0 SH UH1 R Z
+brock B R AA1 K
+brodie B R OW1 T IY0
+brogan B R OW1 G AH0 N
+broil B R OY1 L
+broiled B R OY1 L D
+broke B R OW1 K
+broken B R OW1 K AH0 N
+broker B R OW1 K ER0
+brokerage B R OW1 K ER0 IH0 JH
+brokered B R OW1 K ER0 D
+brokers B R OW1 K ER0 Z
+bromide B R OW1 M AY2 D
+bronc B R AA1 NG K
+bronchial B R AA1 N CH IY0 AH0 L
+bronchitis B R AA0 NG K AY1 T AH0 S
+bronco B R AA1 NG K OW0
+broncos B R AA1 NG K OW0 Z
+bronx B R AA1 NG K S
+bronze B R AA1 N Z
+bronzed B R AA1 N Z D
+brooch B R UW1 CH
+brood B R UW1 D
+brooding B R UW1 D IH0 NG
+brook B R UH1 K
+brooklyn B R UH1 K L AH0 N
+brooks B R UH1 K S
+broom B R UW1 M
+brooms B R UW1 M Z
+broomstick B R UW1 M S T IH2 K
+broomsticks B R UW1 M S T IH2 K S
+broth B R AO1 TH
+brothel B R AA1 TH AH0 L
+brothels B R AA1 TH AH0 L Z
+brother B R AH1 DH ER0
+brotherhood B R AH1 DH ER0 HH UH2 D
+brotherly B R AH1 DH ER0 L IY0
+brothers B R AH1 DH ER0 Z
+brougham B R UW1 G AH0 M
+brought B R AO1 T
+brow B R AW1
+brown B R AW1 N
+brownie B R AW1 N IY0
+brownies B R AW1 N IY0 Z
+browning B R AW1 N IH0 NG
+browns B R AW1 N Z
+brownstone B R AW1 N S T OW2 N
+browse B R AW1 Z
+browsing B R AW1 Z IH0 NG
+bruce B R UW1 S
+bruise B R UW1 Z
+bruised B R UW1 Z D
+bruises B R UW1 Z AH0 Z
+bruising B R UW1 Z IH0 NG
+brunch B R AH1 N CH
+brunette B R UW0 N EH1 T
+brunettes B R UW0 N EH1 T S
+brunswick B R AH1 N Z W IH0 K
+brunt B R AH1 N T
+brush B R AH1 SH
+brushed B R AH1 SH T
+brushes B R AH1 SH IH0 Z
+brushing B R AH1 SH IH0 NG
+brussels B R AH1 S AH0 L Z
+brut B R UW1 T
+brutal B R UW1 T AH0 L
+brutality B R UW0 T AE1 L AH0 T IY0
+brutally B R UW1 T AH0 L IY0
+brute B R UW1 T
+brutish B R UW1 T IH0 SH
+brutus B R UW1 T AH0 S
+bryan B R AY1 AH0 N
+bs B IY2 EH1 S
+bub B AH1 B
+bubba B AH1 B AH0
+bubble B AH1 B AH0 L
+bubbles B AH1 B AH0 L Z
+bubbling B AH1 B AH0 L IH0 NG
+bubbly B AH1 B L IY0
+bubonic B Y UW0 B AA1 N IH0 K
+buchanan B Y UW0 K AE1 N AH0 N
+bucharest B Y UW1 K ER0 EH2 S T
+buck B AH1 K
+bucked B AH1 K T
+bucket B AH1 K AH0 T
+buckets B AH1 K AH0 T S
+bucking B AH1 K IH0 NG
+buckland B AH1 K L AH0 N D
+buckle B AH1 K AH0 L
+buckled B AH1 K AH0 L D
+buckler B AH1 K AH0 L ER0
+buckles B AH1 K AH0 L Z
+buckling B AH1 K L IH0 NG
+bucko B AH1 K OW0
+bucks B AH1 K S
+buckshot B AH1 K SH AA2 T
+buckwheat B AH1 K W IY2 T
+bucky B AH1 K IY0
+bud B AH1 D
+budapest B UW1 D AH0 P EH2 S T
+buddha B UW1 D AH0
+buddhism B UW1 D IH0 Z AH0 M
+buddhist B UW1 D AH0 S T
+buddhists B UW1 D AH0 S T S
+buddies B AH1 D IY0 Z
+budding B AH1 D IH0 NG
+buddy B AH1 D IY0
+budge B AH1 JH
+budget B AH1 JH IH0 T
+budgets B AH1 JH IH0 T S
+buds B AH1 D Z
+bueno B W EY1 N OW0
+buenos B W EY1 N OW0 S
+buff B AH1 F
+buffalo B AH1 F AH0 L OW2
+buffer B AH1 F ER0
+buffet B AH1 F AH0 T
+buffoon B AH0 F UW1 N
+buffy B AH1 F IY0
+bug B AH1 G
+bugged B AH1 G D
+bugger B AH1 G ER0
+buggers B AH1 G ER0 Z
+buggies B AH1 G IY0 Z
+bugging B AH1 G IH0 NG
+buggy B AH1 G IY0
+bugle B Y UW1 G AH0 L
+bugles B Y UW1 G AH0 L Z
+bugs B AH1 G Z
+buick B Y UW1 IH0 K
+build B IH1 L D
+builder B IH1 L D ER0
+builders B IH1 L D ER0 Z
+building B IH1 L D IH0 NG
+buildings B IH1 L D IH0 NG Z
+builds B IH1 L D Z
+buildup B IH1 L D AH2 P
+built B IH1 L T
+bulb B AH1 L B
+bulbs B AH1 L B Z
+bulgarian B AH0 L G EH1 R IY0 AH0 N
+bulge B AH1 L JH
+bulging B AH1 L JH IH0 NG
+bulimia B Y UW0 L IH1 M IY0 AH0
+bulimic B Y UW0 L IH1 M IH0 K
+bulk B AH1 L K
+bulkhead B AH1 L K HH EH2 D
+bulky B AH1 L K IY0
+bull B UH1 L
+bulldog B UH1 L D AO2 G
+bulldogs B UH1 L D AO2 G Z
+bulldoze B UH1 L D OW2 Z
+bulldozer B UH1 L D OW2 Z ER0
+bulldozers B UH1 L D OW2 Z ER0 Z
+bullet B UH1 L AH0 T
+bulletin B UH1 L IH0 T AH0 N
+bulletins B UH1 L AH0 T AH0 N Z
+bulletproof B UH1 L AH0 T P R UW2 F
+bullets B UH1 L AH0 T S
+bullfight B UH1 L F AY2 T
+bullfighter B UH1 L F AY2 T ER0
+bullfighting B UH1 L F AY2 T IH0 NG
+bullfrog B UH1 L F R AO2 G
+bullhorn B UH1 L HH AO2 R N
+bullied B UH1 L IY0 D
+bullies B UH1 L IY0 Z
+bullion B UH1 L Y AH0 N
+bullock B UH1 L AH0 K
+bullpen B UH1 L P EH2 N
+bulls B UH1 L Z
+bullseye B UW1 L Z AY0
+bullshit B UH1 L SH IH2 T
+bullshitter B UH1 L SH IH2 T ER0
+bullshitting B UH1 L SH IH2 T IH0 NG
+bully B UH1 L IY0
+bullying B UH1 L IY0 IH0 NG
+bum B AH1 M
+bumblebee B AH1 M B AH0 L B IY2
+bumbling B AH1 M B AH0 L IH0 NG
+bummed B AH1 M D
+bummer B AH1 M ER0
+bump B AH1 M P
+bumped B AH1 M P T
+bumper B AH1 M P ER0
+bumpers B AH1 M P ER0 Z
+bumping B AH1 M P IH0 NG
+bumpkin B AH1 M P K IH0 N
+bumps B AH1 M P S
+bumpy B AH1 M P IY0
+bums B AH1 M Z
+bun B AH1 N
+bunch B AH1 N CH
+bunches B AH1 N CH AH0 Z
+bundle B AH1 N D AH0 L
+bundled B AH1 N D AH0 L D
+bundles B AH1 N D AH0 L Z
+bundy B AH1 N D IY0
+bung B AH1 NG
+bungalow B AH1 NG G AH0 L OW2
+bungalows B AH1 NG G AH0 L OW2 Z
+bungee B AH1 N JH IY0
+bungled B AH1 NG G AH0 L D
+bungling B AH1 NG G AH0 L IH0 NG
+bunk B AH1 NG K
+bunker B AH1 NG K ER0
+bunkers B AH1 NG K ER0 Z
+bunks B AH1 NG K S
+bunnies B AH1 N IY0 Z
+bunny B AH1 N IY0
+buns B AH1 N Z
+bunt B AH1 N T
+bunyan B AH1 N Y AH0 N
+buoy B UW1 IY0
+buoyancy B OY1 AH0 N S IY0
+burbank B ER1 B AE2 NG K
+burden B ER1 D AH0 N
+burdened B ER1 D AH0 N D
+burdens B ER1 D AH0 N Z
+burdon B ER1 D AH0 N
+bureau B Y UH1 R OW0
+bureaucracy B Y UH0 R AA1 K R AH0 S IY0
+bureaucrat B Y UH1 R AH0 K R AE2 T
+bureaucratic B Y UH2 R AH0 K R AE1 T IH0 K
+bureaucrats B Y UH1 R AH0 K R AE2 T S
+burg B ER1 G
+burgeoning B ER1 JH AH0 N IH0 NG
+burger B ER1 G ER0
+burgers B ER1 G ER0 Z
+burgess B ER1 JH AH0 S
+burglar B ER1 G L ER0
+burglaries B ER1 G L ER0 IY0 Z
+burglars B ER1 G L ER0 Z
+burglary B ER1 G L ER0 IY0
+burgomaster B ER1 G AH0 M AE2 S T ER0
+burgundy B ER1 G AH0 N D IY0
+burial B EH1 R IY0 AH0 L
+buried B EH1 R IY0 D
+buries B EH1 R IY0 Z
+burke B ER1 K
+burlesque B ER0 L EH1 S K
+burley B ER1 L IY0
+burly B ER1 L IY0
+burma B ER1 M AH0
+burmese B ER0 M IY1 Z
+burn B ER1 N
+burned B ER1 N D
+burner B ER1 N ER0
+burners B ER1 N ER0 Z
+burning B ER1 N IH0 NG
+burns B ER1 N Z
+burnside B ER1 N S AY2 D
+burnt B ER1 N T
+burp B ER1 P
+burping B ER1 P IH0 NG
+burr B ER1
+burrito B ER0 IY1 T OW0
+burritos B ER0 IY1 T OW0 S
+burro B ER1 OW0
+burros B ER1 OW0 Z
+burroughs B AH1 R OW0 Z
+burrow B ER1 OW0
+burrowing B ER1 OW0 IH0 NG
+burrows B ER1 OW0 Z
+burst B ER1 S T
+bursting B ER1 S T IH0 NG
+bursts B ER1 S T S
+burt B ER1 T
+burton B ER1 T AH0 N
+bury B EH1 R IY0
+burying B EH1 R IY0 IH0 NG
+bus B AH1 S
+busboy B AH1 S B OY2
+busboys B AH1 S B OY2 Z
+buses B AH1 S IH0 Z
+bush B UH1 SH
+bushel B UH1 SH AH0 L
+bushes B UH1 SH AH0 Z
+bushy B UH1 SH IY0
+busier B IH1 Z IY0 ER0
+busiest B IH1 Z IY0 AH0 S T
+business B IH1 Z N AH0 S
+businesses B IH1 Z N AH0 S AH0 Z
+businessman B IH1 Z N AH0 S M AE2 N
+businessmen B IH1 Z N IH0 S M EH2 N
+businesswoman B IH1 Z N IH0 S W UH2 M AH0 N
+busing B AH1 S IH0 NG
+busload B AH0 S L OW1 D
+bust B AH1 S T
+busted B AH1 S T IH0 D
+buster B AH1 S T ER0
+busters B AH1 S T ER0 Z
+busting B AH1 S T IH0 NG
+bustle B AH1 S AH0 L
+bustling B AH1 S AH0 L IH0 NG
+busts B AH1 S T S
+busy B IH1 Z IY0
+but B AH1 T
+butane B Y UW0 T EY1 N
+butch B UH1 CH
+butcher B UH1 CH ER0
+butchered B UH1 CH ER0 D
+butchering B UH1 CH ER0 IH0 NG
+butchers B UH1 CH ER0 Z
+butchery B UH1 CH ER0 IY0
+butler B AH1 T L ER0
+butlers B AH1 T L ER0 Z
+buts B AH1 T S
+butt B AH1 T
+butte B Y UW1 T
+butter B AH1 T ER0
+butterball B AH1 T ER0 B AO2 L
+buttercup B AH1 T ER0 K AH2 P
+buttered B AH1 T ER0 D
+butterflies B AH1 T ER0 F L AY2 Z
+butterfly B AH1 T ER0 F L AY2
+buttering B AH1 T ER0 IH0 NG
+buttermilk B AH1 T ER0 M IH2 L K
+butters B AH1 T ER0 Z
+butterscotch B AH1 T ER0 S K AA2 CH
+buttery B AH1 T ER0 IY0
+butting B AH1 T IH0 NG
+buttock B AH1 T AH0 K
+buttocks B AH1 T AH0 K S
+button B AH1 T AH0 N
+buttoned B AH1 T AH0 N D
+buttons B AH1 T AH0 N Z
+butts B AH1 T S
+buy B AY1
+buyer B AY1 ER0
+buyers B AY1 ER0 Z
+buying B AY1 IH0 NG
+buys B AY1 Z
+buzz B AH1 Z
+buzzard B AH1 Z ER0 D
+buzzards B AH1 Z ER0 D Z
+buzzed B AH1 Z D
+buzzer B AH1 Z ER0
+buzzes B AH1 Z IH0 Z
+buzzing B AH1 Z IH0 NG
+buzzy B AH1 Z IY0
+by B AY1
+bye B AY1
+bygone B AY1 G AO2 N
+bygones B AY1 G AO2 N Z
+bylaws B AY1 L AO2 Z
+byline B AY1 L AY2 N
+bypass B AY1 P AE2 S
+bypassed B AY1 P AE2 S T
+byproduct B AY1 P R AA0 D AH0 K T
+byron B AY1 R AH0 N
+bystander B AY1 S T AE2 N D ER0
+bystanders B AY1 S T AE2 N D ER0 Z
+byte B AY1 T
+bytes B AY1 T S
+byzantine B IH1 Z AH0 N T AY2 N
+c S IY1
+ca K AH1
+cab K AE1 B
+cabal K AH0 B AA1 L
+caballero K AE2 B AH0 Y EH1 R OW0
+cabana K AH0 B AE1 N AH0
+cabaret K AE2 B ER0 EY1
+cabarets K AE2 B ER0 EY1 Z
+cabbage K AE1 B AH0 JH
+cabbages K AE1 B IH0 JH IH0 Z
+cabbie K AE1 B IY0
+cabby K AE1 B IY0
+cabdriver K AE1 B D R AY2 V ER0
+cabernet K AE2 B ER0 N EY1
+cabin K AE1 B AH0 N
+cabinet K AE1 B AH0 N AH0 T
+cabinets K AE1 B AH0 N AH0 T S
+cabins K AE1 B AH0 N Z
+cable K EY1 B AH0 L
+cabled K EY1 B AH0 L D
+cables K EY1 B AH0 L Z
+caboodle K AH0 B UW1 D AH0 L
+caboose K AH0 B UW1 S
+cabot K AE1 B AH0 T
+cabs K AE1 B Z
+cache K AE1 SH
+cackle K AE1 K AH0 L
+cackling K AE1 K AH0 L IH0 NG
+cactus K AE1 K T AH0 S
+cad K AE1 D
+cadaver K AH0 D AE1 V ER0
+cadavers K AH0 D AE1 V ER0 Z
+caddie K AE1 D IY0
+caddy K AE1 D IY0
+cadence K EY1 D AH0 N S
+cadet K AH0 D EH1 T
+cadets K AH0 D EH1 T S
+cadillac K AE1 D AH0 L AE2 K
+cadillacs K AE1 D AH0 L AE2 K S
+cady K EY1 D IY0
+caesar S IY1 Z ER0
+cafe K AH0 F EY1
+cafes K AE2 F EY1 Z
+cafeteria K AE2 F AH0 T IH1 R IY0 AH0
+caffeine K AE0 F IY1 N
+cage K EY1 JH
+caged K EY1 JH D
+cages K EY1 JH IH0 Z
+cagey K EY1 JH IY0
+cahill K EY1 HH IH2 L
+cahoots K AH0 HH UW1 T S
+cai K AY1
+cain K EY1 N
+cairo K AY1 R OW0
+cajun K EY1 JH AH0 N
+cake K EY1 K
+cakes K EY1 K S
+cal K AE1 L
+calabrese K AA0 L AA0 B R EY1 Z IY0
+calais K AH0 L EY1
+calamari K AA0 L AA0 M AA1 R IY0
+calamity K AH0 L AE1 M AH0 T IY0
+calcium K AE1 L S IY0 AH0 M
+calculate K AE1 L K Y AH0 L EY2 T
+calculated K AE1 L K Y AH0 L EY2 T IH0 D
+calculating K AE1 L K Y AH0 L EY2 T IH0 NG
+calculation K AE2 L K Y AH0 L EY1 SH AH0 N
+calculations K AE2 L K Y AH0 L EY1 SH AH0 N Z
+calculator K AE1 L K Y AH0 L EY2 T ER0
+calculus K AE1 L K Y AH0 L AH0 S
+calcutta K AE2 L K AH1 T AH0
+calderon K AO1 L D ER0 AA0 N
+calendar K AE1 L AH0 N D ER0
+calendars K AE1 L AH0 N D ER0 Z
+calf K AE1 F
+calgary K AE1 L G ER0 IY0
+caliber K AE1 L AH0 B ER0
+calibrated K AE1 L AH0 B R EY2 T AH0 D
+calico K AE1 L AH0 K OW2
+california K AE2 L AH0 F AO1 R N Y AH0
+calisthenics K AE2 L AH0 S TH EH1 N IH0 K S
+call K AO1 L
+callan K AE1 L AH0 N
+callback K AO1 L B AE2 K
+called K AO1 L D
+caller K AO1 L ER0
+callers K AO1 L ER0 Z
+calligraphy K AH0 L IH1 G R AH0 F IY0
+calling K AO1 L IH0 NG
+calliope K AH0 L AY1 AH0 P IY2
+callous K AE1 L AH0 S
+callow K AE1 L OW0
+calls K AO1 L Z
+calm K AA1 M
+calmed K AA1 M D
+calmer K AA1 M ER0
+calming K AA1 M IH0 NG
+calmly K AA1 M L IY0
+calms K AA1 M Z
+calories K AE1 L ER0 IY0 Z
+calves K AE1 V Z
+calvin K AE1 L V AH0 N
+calypso K AH0 L IH1 P S OW2
+cam K AE1 M
+camaraderie K AA2 M ER0 AA1 D ER0 IY0
+cambodia K AE2 M B OW1 D IY0 AH0
+cambodian K AE2 M B OW1 D IY0 AH0 N
+cambridge K EY1 M B R IH0 JH
+camcorder K AE1 M K AO2 R D ER0
+camden K AE1 M D AH0 N
+came K EY1 M
+camel K AE1 M AH0 L
+camelot K AE1 M AH0 L AA2 T
+camels K AE1 M AH0 L Z
+cameo K AE1 M IY0 OW2
+camera K AE1 M ER0 AH0
+cameraman K AE1 M ER0 AH0 M AH0 N
+cameramen K AE1 M ER0 AH0 M EH0 N
+cameras K AE1 M ER0 AH0 Z
+camilla K AH0 M IH1 L AH0
+camino K AH0 M IY1 N OW0
+camouflage K AE1 M AH0 F L AA2 ZH
+camouflaged K AE1 M AH0 F L AA2 ZH D
+camp K AE1 M P
+campaign K AE0 M P EY1 N
+campaigning K AE0 M P EY1 N IH0 NG
+campaigns K AE0 M P EY1 N Z
+campbell K AE1 M B AH0 L
+camped K AE1 M P T
+camper K AE1 M P ER0
+campers K AE1 M P ER0 Z
+campesinos K AE2 M P EH0 S IY1 N OW0 S
+campfire K AE1 M P F AY2 ER0
+campfires K AE1 M P F AY2 ER0 Z
+camping K AE1 M P IH0 NG
+campion K AE1 M P IY0 AH0 N
+camps K AE1 M P S
+campsite K AE1 M P S AY2 T
+campus K AE1 M P AH0 S
+cams K AE1 M Z
+can K AE1 N
+can't K AE1 N T
+canaan K EY1 N AH0 N
+canada K AE1 N AH0 D AH0
+canadian K AH0 N EY1 D IY0 AH0 N
+canadians K AH0 N EY1 D IY0 AH0 N Z
+canal K AH0 N AE1 L
+canals K AH0 N AE1 L Z
+canaries K AH0 N EH1 R IY0 Z
+canary K AH0 N EH1 R IY0
+canasta K AH0 N AE1 S T AH0
+cancan K AE1 N K AE2 N
+cancel K AE1 N S AH0 L
+canceled K AE1 N S AH0 L D
+canceling K AE1 N S AH0 L IH0 NG
+cancellation K AE2 N S AH0 L EY1 SH AH0 N
+cancelled K AE1 N S AH0 L D
+cancelling K AE1 N S AH0 L IH0 NG
+cancels K AE1 N S AH0 L Z
+cancer K AE1 N S ER0
+cancerous K AE1 N S ER0 AH0 S
+cancers K AE1 N S ER0 Z
+candid K AE1 N D AH0 D
+candidacy K AE1 N D IH0 D AH0 S IY0
+candidate K AE1 N D AH0 D EY0 T
+candidates K AE1 N D AH0 D EY0 T S
+candidly K AE1 N D IH0 D L IY0
+candied K AE1 N D IY0 D
+candies K AE1 N D IY0 Z
+candle K AE1 N D AH0 L
+candlelight K AE1 N D AH0 L L AY2 T
+candler K AE1 N D AH0 L ER0
+candles K AE1 N D AH0 L Z
+candlestick K AE1 N D AH0 L S T IH2 K
+candlesticks K AE1 N D AH0 L S T IH2 K S
+candor K AE1 N D ER0
+candy K AE1 N D IY0
+cane K EY1 N
+canes K EY1 N Z
+canfield K AE1 N F IY2 L D
+canine K EY1 N AY2 N
+canines K EY1 N AY2 N Z
+canister K AE1 N AH0 S T ER0
+canisters K AE1 N AH0 S T ER0 Z
+canker K AE1 NG K ER0
+cann K AE1 N
+cannabis K AE1 N AH0 B AH0 S
+canned K AE1 N D
+cannibal K AE1 N AH0 B AH0 L
+cannibalism K AE1 N AH0 B AH0 L IH2 Z AH0 M
+cannibals K AE1 N AH0 B AH0 L Z
+cannon K AE1 N AH0 N
+cannonball K AE1 N AH0 N B AO2 L
+cannons K AE1 N AH0 N Z
+cannot K AE1 N AA0 T
+canoe K AH0 N UW1
+canoes K AH0 N UW1 Z
+canon K AE1 N AH0 N
+canons K AE1 N AH0 N Z
+canopy K AE1 N AH0 P IY0
+cans K AE1 N Z
+cant K AE1 N T
+cantaloupe K AE1 N T AH0 L OW2 P
+canteen K AE0 N T IY1 N
+canteens K AE0 N T IY1 N Z
+canterbury K AE1 N T ER0 B EH2 R IY0
+cantina K AE2 N T IY1 N AH0
+canton K AE1 N T AH0 N
+cantonese K AE2 N T AH0 N IY1 Z
+cantor K AE1 N T ER0
+canvas K AE1 N V AH0 S
+canvases K AE1 N V AH0 S IH0 Z
+canvass K AE1 N V AH0 S
+canvassing K AE1 N V AH0 S IH0 NG
+canyon K AE1 N Y AH0 N
+canyons K AE1 N Y AH0 N Z
+cap K AE1 P
+capabilities K EY2 P AH0 B IH1 L AH0 T IY0 Z
+capability K EY2 P AH0 B IH1 L AH0 T IY0
+capable K EY1 P AH0 B AH0 L
+capacitor K AH0 P AE1 S AH0 T ER0
+capacity K AH0 P AE1 S AH0 T IY0
+cape K EY1 P
+caper K EY1 P ER0
+capers K EY1 P ER0 Z
+capes K EY1 P S
+capita K AE1 P IH0 T AH0
+capital K AE1 P AH0 T AH0 L
+capitalism K AE1 P IH0 T AH0 L IH2 Z AH0 M
+capitalist K AE1 P AH0 T AH0 L IH0 S T
+capitalistic K AE2 P IH0 T AH0 L IH1 S T IH0 K
+capitalists K AE1 P AH0 T AH0 L IH0 S T S
+capitalize K AE1 P AH0 T AH0 L AY2 Z
+capitals K AE1 P AH0 T AH0 L Z
+capitan K AE1 P IH0 T AH0 N
+capitol K AE1 P IH0 T AH0 L
+capitulate K AH0 P IH1 CH UW0 L IH0 T
+caplan K AE1 P L AH0 N
+capo K AA1 P OW0
+capone K AH0 P OW1 N
+capote K AH0 P OW1 T
+capped K AE1 P T
+cappella K AA0 P EH1 L AH0
+cappuccino K AE2 P UW2 CH IY1 N OW0
+cappy K AE1 P IY0
+caprice K AH0 P R IY1 S
+capricious K AH0 P R IH1 SH AH0 S
+capricorn K AE1 P R AH0 K AO0 R N
+caps K AE1 P S
+capsized K AE1 P S AY2 Z D
+capsule K AE1 P S AH0 L
+capsules K AE1 P S AH0 L Z
+captain K AE1 P T AH0 N
+captains K AE1 P T AH0 N Z
+caption K AE1 P SH AH0 N
+captioning K AE1 P SH AH0 N IH0 NG
+captions K AE1 P SH AH0 N Z
+captivated K AE1 P T IH0 V EY2 T IH0 D
+captive K AE1 P T IH0 V
+captives K AE1 P T IH0 V Z
+captivity K AE0 P T IH1 V AH0 T IY0
+captor K AE1 P T ER0
+captors K AE1 P T ER0 Z
+capture K AE1 P CH ER0
+captured K AE1 P CH ER0 D
+captures K AE1 P CH ER0 Z
+capturing K AE1 P CH ER0 IH0 NG
+capulet K AE1 P UW0 L EH2 T
+car K AA1 R
+caramel K EH1 R AH0 M AH0 L
+carat K EH1 R AH0 T
+carats K EH1 R AH0 T S
+caravan K AE1 R AH0 V AE2 N
+carbide K AA1 R B AY2 D
+carbine K AA1 R B AY2 N
+carbohydrates K AA2 R B OW0 HH AY1 D R EY0 T S
+carbon K AA1 R B AH0 N
+carbonated K AA1 R B AH0 N EY2 T IH0 D
+carbs K AA1 R B Z
+carburetor K AA1 R B ER0 EY2 T ER0
+carcass K AA1 R K AH0 S
+carcasses K AA1 R K AH0 S IH0 Z
+card K AA1 R D
+cardboard K AA1 R D B AO2 R D
+cardiac K AA1 R D IY0 AE2 K
+cardigan K AA1 R D IH0 G AH0 N
+cardinal K AA1 R D AH0 N AH0 L
+cardinals K AA1 R D AH0 N AH0 L Z
+cardiologist K AA2 R D IY0 AA1 L AH0 JH IH0 S T
+cardiology K AA2 R D IY0 AA1 L AH0 JH IY0
+cardiovascular K AA2 R D IY0 OW0 V AE1 S K Y AH0 L ER0
+cards K AA1 R D Z
+care K EH1 R
+cared K EH1 R D
+career K ER0 IH1 R
+careers K ER0 IH1 R Z
+carefree K EH1 R F R IY2
+careful K EH1 R F AH0 L
+carefully K EH1 R F AH0 L IY0
+caregiver K EH1 R G IH2 V ER0
+careless K EH1 R L AH0 S
+carelessly K EH1 R L AH0 S L IY0
+carelessness K EH1 R L AH0 S N AH0 S
+cares K EH1 R Z
+caress K ER0 EH1 S
+caressed K ER0 EH1 S T
+caressing K ER0 EH1 S IH0 NG
+caretaker K EH1 R T EY2 K ER0
+carey K EH1 R IY0
+cargo K AA1 R G OW2
+caribbean K ER0 IH1 B IY0 AH0 N
+caribou K EH1 R IH0 B UW2
+caricature K EH1 R AH0 K AH0 CH ER0
+caring K EH1 R IH0 NG
+carjack K AA1 R JH AE2 K
+carjacked K AA1 R JH AE2 K T
+carjacking K AA1 R JH AE2 K IH0 NG
+carl K AA1 R L
+carlin K AA1 R L IH0 N
+carlino K AA0 R L IY1 N OW0
+carlo K AA1 R L OW0
+carload K AA1 R L OW2 D
+carmel K AA0 R M EH1 L
+carmen K AA1 R M AH0 N
+carmine K AA1 R M AH0 N
+carnage K AA1 R N IH0 JH
+carnal K AA1 R N AH0 L
+carnation K AA0 R N EY1 SH AH0 N
+carnations K AA0 R N EY1 SH AH0 N Z
+carne K AA1 R N
+carnegie K AA1 R N AH0 G IY0
+carney K AA1 R N IY0
+carnival K AA1 R N AH0 V AH0 L
+carnivals K AA1 R N AH0 V AH0 L Z
+carnivore K AA1 R N IH0 V AO2 R
+carnivores K AA1 R N AH0 V AO2 R Z
+carnivorous K AA0 R N IH1 V ER0 AH0 S
+carol K AE1 R AH0 L
+carole K AE1 R AH0 L
+carolina K EH2 R AH0 L AY1 N AH0
+caroline K EH1 R AH0 L AY2 N
+carols K EH1 R AH0 L Z
+carolyn K EH1 R AH0 L IH0 N
+carotid K ER0 AA1 T IH0 D
+carousel K EH1 R AH0 S EH2 L
+carp K AA1 R P
+carpal K AA1 R P AH0 L
+carpenter K AA1 R P AH0 N T ER0
+carpenters K AA1 R P AH0 N T ER0 Z
+carpentry K AA1 R P AH0 N T R IY0
+carpet K AA1 R P AH0 T
+carpeting K AA1 R P AH0 T IH0 NG
+carpets K AA1 R P AH0 T S
+carpool K AA1 R P UW2 L
+carr K AA1 R
+carriage K AE1 R IH0 JH
+carriages K AE1 R IH0 JH IH0 Z
+carried K AE1 R IY0 D
+carrier K AE1 R IY0 ER0
+carriers K AE1 R IY0 ER0 Z
+carries K AE1 R IY0 Z
+carrion K EH1 R IY0 AH0 N
+carroll K AE1 R AH0 L
+carrot K AE1 R AH0 T
+carrots K AE1 R AH0 T S
+carrousel K EH1 R AH0 S EH2 L
+carry K AE1 R IY0
+carrying K AE1 R IY0 IH0 NG
+cars K AA1 R Z
+carsick K AA1 R S IH0 K
+carson K AA1 R S AH0 N
+cart K AA1 R T
+carte K AA1 R T
+cartel K AA0 R T EH1 L
+cartels K AA0 R T EH1 L Z
+carter K AA1 R T ER0
+cartier K AA1 R T IY0 ER0
+cartilage K AA1 R T AH0 L AH0 JH
+carting K AA1 R T IH0 NG
+carton K AA1 R T AH0 N
+cartons K AA1 R T AH0 N Z
+cartoon K AA0 R T UW1 N
+cartoonist K AA0 R T UW1 N AH0 S T
+cartoons K AA0 R T UW1 N Z
+cartridge K AA1 R T R AH0 JH
+cartridges K AA1 R T R AH0 JH AH0 Z
+carts K AA1 R T S
+cartwheel K AA1 R T W IY2 L
+cartwheels K AA1 R T W IY2 L Z
+cartwright K AA1 R T R AY2 T
+carve K AA1 R V
+carved K AA1 R V D
+carver K AA1 R V ER0
+carving K AA1 R V IH0 NG
+carvings K AA1 R V IH0 NG Z
+caryl K EH1 R AH0 L
+casa K AA1 S AH0
+casablanca K AE2 S AH0 B L AE1 NG K AH0
+casanova K AE2 S AH0 N OW1 V AA0
+cascade K AE0 S K EY1 D
+case K EY1 S
+caseload K EY1 S L OW2 D
+cases K EY1 S AH0 Z
+caseworker K EY1 S W ER2 K ER0
+cash K AE1 SH
+cashed K AE1 SH T
+cashews K AE1 SH UW2 Z
+cashier K AE0 SH IH1 R
+cashing K AE1 SH IH0 NG
+cashmere K AE1 ZH M IH0 R
+casing K EY1 S IH0 NG
+casings K EY1 S IH0 NG Z
+casino K AH0 S IY1 N OW0
+casinos K AH0 S IY1 N OW0 Z
+casket K AE1 S K AH0 T
+caskets K AE1 S K AH0 T S
+casper K AE1 S P ER0
+caspian K AE1 S P IY0 AH0 N
+cass K AE1 S
+cassandra K AH0 S AE1 N D R AH0
+casserole K AE1 S ER0 OW2 L
+cassette K AH0 S EH1 T
+cassettes K AH0 S EH1 T S
+cassie K AE1 S IY0
+cassino K AH0 S IY1 N OW0
+cassiopeia K AH2 S IY0 AH0 P IY1 AH0
+cassock K AE1 S AH0 K
+cast K AE1 S T
+castaway K AE1 S T AH0 W EY2
+caste K AE1 S T
+castillo K AE2 S T IY1 OW0
+casting K AE1 S T IH0 NG
+castle K AE1 S AH0 L
+castles K AE1 S AH0 L Z
+castor K AE1 S T ER0
+castrate K AE1 S T R EY2 T
+castrated K AE1 S T R EY2 T IH0 D
+castration K AE2 S T R EY1 SH AH0 N
+castro K AE1 S T R OW0
+casts K AE1 S T S
+casual K AE1 ZH AH0 W AH0 L
+casually K AE1 ZH AH0 W AH0 L IY0
+casualties K AE1 ZH AH0 W AH0 L T IY0 Z
+casualty K AE1 ZH AH0 W AH0 L T IY0
+cat K AE1 T
+cataclysmic K AE2 T AH0 K L IH1 Z M IH0 K
+catacombs K AE1 T AH0 K OW2 M Z
+catalina K AE2 T AH0 L IY1 N AH0
+catalog K AE1 T AH0 L AO0 G
+catalogs K AE1 T AH0 L AA0 G Z
+catalogue K AE1 T AH0 L AO2 G
+catalogued K AE1 T AH0 L AO2 G D
+catalogues K AE1 T AH0 L AO2 G Z
+cataloguing K AE1 T AH0 L AO2 G IH0 NG
+catalyst K AE1 T AH0 L AH0 S T
+catapult K AE1 T AH0 P AH2 L T
+catapults K AE1 T AH0 P AH0 L T S
+cataracts K AE1 T ER0 AE2 K T S
+catastrophe K AH0 T AE1 S T R AH0 F IY0
+catastrophic K AE2 T AH0 S T R AA1 F IH0 K
+catatonic K AE2 T AH0 T AA1 N IH0 K
+catch K AE1 CH
+catcher K AE1 CH ER2
+catches K AE1 CH AH0 Z
+catching K AE1 CH IH0 NG
+catchy K AE1 CH IY2
+catechism K AE1 T AH0 K IH2 Z AH0 M
+categorically K AE2 T AH0 G AA1 R IH0 K L IY0
+categories K AE1 T AH0 G AO2 R IY0 Z
+category K AE1 T AH0 G AO2 R IY0
+cater K EY1 T ER0
+catered K EY1 T ER0 D
+caterer K EY1 T ER0 ER0
+caterers K EY1 T ER0 ER0 Z
+catering K EY1 T ER0 IH0 NG
+caterpillar K AE1 T AH0 P IH2 L ER0
+caterpillars K AE1 T AH0 P IH2 L ER0 Z
+cates K EY1 T S
+catfish K AE1 T F IH2 SH
+catharsis K AH0 TH AA1 R S AH0 S
+cathartic K AH0 TH AA1 R T IH0 K
+cathedral K AH0 TH IY1 D R AH0 L
+cathedrals K AH0 TH IY1 D R AH0 L Z
+catherine K AE1 TH ER0 AH0 N
+catheter K AE1 TH AH0 T ER0
+catholic K AE1 TH L IH0 K
+catholicism K AH0 TH AO1 L AH0 S IH2 Z AH0 M
+catholics K AE1 TH L IH0 K S
+cathy K AE1 TH IY0
+catlike K AE1 T L AY2 K
+catnip K AE1 T N IH0 P
+cats K AE1 T S
+cattle K AE1 T AH0 L
+cattlemen K AE1 T AH0 L M AH0 N
+catty K AE1 T IY0
+catwalk K AE1 T W AA2 K
+caucasian K AO0 K EY1 ZH AH0 N
+caucus K AO1 K AH0 S
+caught K AA1 T
+cauldron K AA1 L D R AH0 N
+cauliflower K AA1 L AH0 F L AW2 ER0
+caulk K AA1 K
+cause K AA1 Z
+caused K AA1 Z D
+causes K AA1 Z AH0 Z
+causeway K AA1 Z W EY2
+causing K AA1 Z IH0 NG
+cauterize K AO1 T ER0 AY0 Z
+caution K AA1 SH AH0 N
+cautionary K AO1 SH AH0 N EH2 R IY0
+cautious K AO1 SH AH0 S
+cautiously K AO1 SH AH0 S L IY0
+cava K AA1 V AH0
+cavalier K AE2 V AH0 L IH1 R
+cavalry K AE1 V AH0 L R IY0
+cave K EY1 V
+caveat K EY1 V IY0 AE2 T
+caved K EY1 V D
+caveman K EY1 V M AE2 N
+cavendish K AE1 V AH0 N D IH0 SH
+cavern K AE1 V ER0 N
+caverns K AE1 V ER0 N Z
+caves K EY1 V Z
+caviar K AE1 V IY0 AA2 R
+caving K EY1 V IH0 NG
+cavities K AE1 V IH0 T IY0 Z
+cavity K AE1 V AH0 T IY0
+cavorting K AH0 V AO1 R T IH0 NG
+caw K AO1
+caxton K AE1 K S T AH0 N
+cayenne K AY2 EH1 N
+cayman K EY1 M AH0 N
+caymans K EY1 M AH0 N Z
+cb S IY2 B IY1
+cc S IY2 S IY1
+cd S IY2 D IY1
+ce S IY2 IY1
+cease S IY1 S
+ceased S IY1 S T
+ceasefire S IY1 S F AY1 ER0
+ceases S IY1 S IH0 Z
+cecil S IY1 S AH0 L
+cedar S IY1 D ER0
+cedars S IY1 D ER0 Z
+ceiling S IY1 L IH0 NG
+ceilings S IY1 L IH0 NG Z
+celeb S AH0 L EH1 B
+celebrate S EH1 L AH0 B R EY2 T
+celebrated S EH1 L AH0 B R EY2 T IH0 D
+celebrates S EH1 L AH0 B R EY2 T S
+celebrating S EH1 L AH0 B R EY2 T IH0 NG
+celebration S EH2 L AH0 B R EY1 SH AH0 N
+celebrations S EH2 L AH0 B R EY1 SH AH0 N Z
+celebratory S AH0 L EH1 B R AH0 T AO2 R IY0
+celebrities S AH0 L EH1 B R IH0 T IY0 Z
+celebrity S AH0 L EH1 B R IH0 T IY0
+celery S EH1 L ER0 IY0
+celeste S AH0 L EH1 S T
+celestial S AH0 L EH1 S CH AH0 L
+celibacy S EH1 L AH0 B AH0 S IY0
+celibate S EH1 L IH0 B AH0 T
+cell S EH1 L
+cellar S EH1 L ER0
+cellars S EH1 L ER0 Z
+cellist CH EH1 L AH0 S T
+cello CH EH1 L OW0
+cellophane S EH1 L AH0 F EY2 N
+cellphone S EH1 L F OW0 N
+cellphones S EH1 L F OW2 N Z
+cells S EH1 L Z
+cellular S EH1 L Y AH0 L ER0
+celluloid S EH1 L AH0 L OY2 D
+celsius S EH1 L S IY0 AH0 S
+celtic S EH1 L T IH0 K
+cement S AH0 M EH1 N T
+cemeteries S EH1 M AH0 T EH2 R IY0 Z
+cemetery S EH1 M AH0 T EH2 R IY0
+censor S EH1 N S ER0
+censored S EH1 N S ER0 D
+censors S EH1 N S ER0 Z
+censorship S EH1 N S ER0 SH IH2 P
+census S EH1 N S AH0 S
+cent S EH1 N T
+centauri S EH0 N T AA1 R IY0
+centavos S EH0 N T AA1 V OW2 S
+centennial S EH0 N T EH1 N IY0 AH0 L
+center S EH1 N T ER0
+centered S EH1 N T ER0 D
+centerfold S EH1 N T ER0 F OW2 L D
+centerpiece S EH1 N T ER0 P IY2 S
+centers S EH1 N T ER0 Z
+centimeter S EH1 N T AH0 M IY2 T ER0
+centimeters S EH1 N T AH0 M IY2 T ER0 Z
+centipede S EH1 N T IH0 P IY2 D
+central S EH1 N T R AH0 L
+centre S EH1 N T ER0
+centres S EH1 N T ER0 Z
+centrifugal S EH1 N T R IH0 F Y UW2 G AH0 L
+cents S EH1 N T S
+centuries S EH1 N CH ER0 IY0 Z
+centurion S EH0 N T UH1 R IY0 AH0 N
+century S EH1 N CH ER0 IY0
+cera S EH1 R AH0
+ceramic S ER0 AE1 M IH0 K
+ceramics S ER0 AE1 M IH0 K S
+cereal S IH1 R IY0 AH0 L
+cereals S IH1 R IY0 AH0 L Z
+cerebral S EH1 R AH0 B R AH0 L
+ceremonial S EH2 R AH0 M OW1 N IY0 AH0 L
+ceremonies S EH1 R AH0 M OW2 N IY0 Z
+ceremony S EH1 R AH0 M OW2 N IY0
+certain S ER1 T AH0 N
+certainly S ER1 T AH0 N L IY0
+certainty S ER1 T AH0 N T IY0
+certificate S ER0 T IH1 F IH0 K AH0 T
+certificates S ER0 T IH1 F IH0 K AH0 T S
+certification S ER2 T AH0 F AH0 K EY1 SH AH0 N
+certified S ER1 T AH0 F AY2 D
+certify S ER1 T AH0 F AY2
+cervantes S EH0 R V AA1 N T EH0 S
+cervical S ER1 V AH0 K AH0 L
+cervix S ER1 V IH0 K S
+cesar S IY1 Z ER0
+cesare CH EY0 Z AA1 R EY0
+cesspool S EH1 S P UW2 L
+cetera S EH1 T ER0 AH0
+ceylon S IH0 L AA1 N
+cha CH AA1
+chablis SH AH0 B L IY1
+chad CH AE1 D
+chafe CH EY1 F
+chafing CH EY1 F IH0 NG
+chai CH AY1
+chain CH EY1 N
+chained CH EY1 N D
+chains CH EY1 N Z
+chainsaw CH EY1 N S AO2
+chair CH EH1 R
+chairman CH EH1 R M AH0 N
+chairs CH EH1 R Z
+chaise SH EY1 Z
+chalet SH AE1 L EY2
+chalice CH AE1 L IH0 S
+chalk CH AA1 K
+chalked CH AO1 K T
+challenge CH AE1 L AH0 N JH
+challenged CH AE1 L AH0 N JH D
+challenger CH AE1 L AH0 N JH ER0
+challenges CH AE1 L AH0 N JH IH0 Z
+challenging CH AE1 L AH0 N JH IH0 NG
+chamber CH EY1 M B ER0
+chamberlain CH EY1 M B ER0 L AH0 N
+chambers CH EY1 M B ER0 Z
+chameleon K AH0 M IY1 L IY0 AH0 N
+chamomile K AE2 M AH0 M AY1 L
+champ CH AE1 M P
+champagne SH AE0 M P EY1 N
+champion CH AE1 M P IY0 AH0 N
+champions CH AE1 M P IY0 AH0 N Z
+championship CH AE1 M P IY0 AH0 N SH IH2 P
+championships CH AE1 M P IY0 AH0 N SH IH2 P S
+champs CH AE1 M P S
+chan CH AE1 N
+chance CH AE1 N S
+chancellor CH AE1 N S AH0 L ER0
+chances CH AE1 N S AH0 Z
+chandelier SH AE0 N D AH0 L IH1 R
+chandeliers SH AE2 N D AH0 L IH1 Z
+chandler CH AE1 N D L ER0
+chang CH AE1 NG
+change CH EY1 N JH
+changeable CH EY1 N JH AH0 B AH0 L
+changed CH EY1 N JH D
+changeover CH EY1 N JH OW2 V ER0
+changer CH EY1 N JH ER0
+changes CH EY1 N JH AH0 Z
+changing CH EY1 N JH IH0 NG
+channel CH AE1 N AH0 L
+channeling CH AE1 N AH0 L IH0 NG
+channels CH AE1 N AH0 L Z
+chant CH AE1 N T
+chanted CH AE1 N T IH0 D
+chanting CH AE1 N T IH0 NG
+chants CH AE1 N T S
+chanukah HH AA1 N AH0 K AH0
+chao CH AW1
+chaos K EY1 AA0 S
+chaotic K EY0 AA1 T IH0 K
+chap CH AE1 P
+chapel CH AE1 P AH0 L
+chaperone SH AE1 P ER0 OW2 N
+chaperoning SH AE1 P ER0 OW2 N IH0 NG
+chapin SH AH0 P AE1 N
+chaplain CH AE1 P L AH0 N
+chaplin CH AE1 P L AH0 N
+chapman CH AE1 P M AH0 N
+chaps CH AE1 P S
+chapter CH AE1 P T ER0
+chapters CH AE1 P T ER0 Z
+char CH AA1 R
+character K EH1 R IH0 K T ER0
+characteristic K EH2 R AH0 K T ER0 IH1 S T IH0 K
+characteristics K EH2 R AH0 K T ER0 IH1 S T IH0 K S
+characterize K EH1 R AH0 K T ER0 AY2 Z
+characterized K EH1 R AH0 K T ER0 AY2 Z D
+characters K AE1 R AH0 K T ER0 Z
+charade SH ER0 EY1 D
+charades SH ER0 EY1 D Z
+charcoal CH AA1 R K OW2 L
+chardonnay CH AA0 R D AA1 N EY0
+charge CH AA1 R JH
+charged CH AA1 R JH D
+charger CH AA1 R JH ER0
+chargers CH AA1 R JH ER0 Z
+charges CH AA1 R JH AH0 Z
+charging CH AA1 R JH IH0 NG
+chariot CH EH1 R IY0 AH0 T
+chariots CH EH1 R IY0 AH0 T S
+charisma K ER0 IH1 Z M AH0
+charismatic K EH0 R IH0 Z M AE1 T IH0 K
+charitable CH AE1 R AH0 T AH0 B AH0 L
+charities CH EH1 R AH0 T IY0 Z
+charity CH EH1 R IH0 T IY0
+charlatan SH AA1 R L AH0 T AH0 N
+charlemagne SH AA1 R L AH0 M EY2 N
+charles CH AA1 R L Z
+charleston CH AA1 R L S T AH0 N
+charley CH AA1 R L IY0
+charlie CH AA1 R L IY0
+charlotte SH AA1 R L AH0 T
+charm CH AA1 R M
+charmed CH AA1 R M D
+charmer CH AA1 R M ER0
+charming CH AA1 R M IH0 NG
+charmingly CH AA1 R M IH0 NG L IY0
+charms CH AA1 R M Z
+charred CH AA1 R D
+chart CH AA1 R T
+charted CH AA1 R T AH0 D
+charter CH AA1 R T ER0
+chartered CH AA1 R T ER0 D
+charting CH AA1 R T IH0 NG
+chartreuse SH AA0 R T R UW1 Z
+charts CH AA1 R T S
+chase CH EY1 S
+chased CH EY1 S T
+chaser CH EY1 S ER0
+chasers CH EY1 S ER0 Z
+chases CH EY1 S AH0 Z
+chasing CH EY1 S IH0 NG
+chasm K AE1 Z AH0 M
+chassis CH AE1 S IY0
+chaste CH EY1 S T
+chastity CH AE1 S T AH0 T IY0
+chat CH AE1 T
+chateau SH AE0 T OW1
+chats CH AE1 T S
+chattanooga CH AE2 T AH0 N UW1 G AH0
+chatted CH AE1 T AH0 D
+chattel CH AE1 T AH0 L
+chatter CH AE1 T ER0
+chattering CH AE1 T ER0 IH0 NG
+chatting CH AE1 T IH0 NG
+chatty CH AE1 T IY0
+chaucer CH AO1 S ER0
+chauffeur SH OW0 F ER1
+chauffeurs SH OW0 F ER1 Z
+chauvinist SH OW1 V AH0 N AH0 S T
+chauvinistic CH OW2 V AH0 N IH1 S T IH0 K
+che CH EY1
+cheap CH IY1 P
+cheapen CH IY1 P AH0 N
+cheaper CH IY1 P ER0
+cheapest CH IY1 P AH0 S T
+cheaply CH IY1 P L IY0
+cheapskate CH IY1 P S K EY2 T
+cheat CH IY1 T
+cheated CH IY1 T AH0 D
+cheater CH IY1 T ER0
+cheaters CH IY1 T ER0 Z
+cheating CH IY1 T IH0 NG
+cheats CH IY1 T S
+check CH EH1 K
+checkbook CH EH1 K B UH2 K
+checked CH EH1 K T
+checker CH EH1 K ER0
+checkered CH EH1 K ER0 D
+checkers CH EH1 K ER0 Z
+checking CH EH1 K IH0 NG
+checklist CH EH1 K L IH2 S T
+checkmate CH EH1 K M EY2 T
+checkout CH EH1 K AW2 T
+checkpoint CH EH1 K P OY2 N T
+checkpoints CH EH1 K P OY2 N T S
+checks CH EH1 K S
+checkup CH EH1 K AH2 P
+checkups CH EH1 K AH2 P S
+cheddar CH EH1 D ER0
+chee CH IY1
+cheek CH IY1 K
+cheekbone CH IY1 K B OW2 N
+cheekbones CH IY1 K B OW2 N Z
+cheeks CH IY1 K S
+cheeky CH IY1 K IY0
+cheer CH IH1 R
+cheered CH IH1 R D
+cheerful CH IH1 R F AH0 L
+cheerfully CH IH1 R F AH0 L IY0
+cheering CH IH1 R IH0 NG
+cheerio CH IH1 R IY0 OW0
+cheerios CH IH1 R IY0 OW0 S
+cheerleader CH IH1 R L IY2 D ER0
+cheerleaders CH IH1 R L IY2 D ER0 Z
+cheerleading CH IH1 R L IY2 D IH0 NG
+cheers CH IH1 R Z
+cheery CH IH1 R IY0
+cheese CH IY1 Z
+cheeseburger CH IY1 Z B ER0 G ER0
+cheeseburgers CH IY1 Z B ER0 G ER0 Z
+cheesecake CH IY1 Z K EY2 K
+cheeses CH IY1 Z IH0 Z
+cheesy CH IY1 Z IY0
+cheetah CH IY1 T AH0
+chef SH EH1 F
+chefs SH EH1 F S
+chekhov CH EH1 K AA0 V
+chem K EH1 M
+chemical K EH1 M AH0 K AH0 L
+chemically K EH1 M AH0 K L IY0
+chemicals K EH1 M IH0 K AH0 L Z
+chemist K EH1 M IH0 S T
+chemistry K EH1 M AH0 S T R IY0
+chemists K EH1 M AH0 S T S
+chemo K IY1 M OW0
+chemotherapy K IY2 M OW0 TH EH1 R AH0 P IY0
+cheng CH EH1 NG
+cheque CH EH1 K
+cheques CH EH1 K S
+cher SH EH1 R
+cherie SH EH1 R IY0
+cherish CH EH1 R IH0 SH
+cherished CH EH1 R IH0 SH T
+cherokee CH EH1 R AH0 K IY2
+cherries CH EH1 R IY0 Z
+cherry CH EH1 R IY0
+cherub CH EH1 R AH0 B
+cherubs CH EH1 R AH0 B Z
+chesapeake CH EH1 S AH0 P IY2 K
+cheshire CH EH1 SH ER0
+chess CH EH1 S
+chessboard CH EH1 S B AO2 R D
+chest CH EH1 S T
+chester CH EH1 S T ER0
+chestnut CH EH1 S N AH2 T
+chestnuts CH EH1 S N AH0 T S
+chests CH EH1 S T S
+cheung CH Y UW1 NG
+chevalier SH EH2 V AH0 L IH1 R
+chevrolet SH EH2 V R AH0 L EY1
+chevron SH EH1 V R AH0 N
+chevy SH EH1 V IY2
+chew CH UW1
+chewed CH UW1 D
+chewing CH UW1 IH0 NG
+chews CH UW1 Z
+chewy CH UW1 IY0
+cheyenne SH AY0 EH1 N
+chez SH EY1
+chi K AY1
+chia CH IY1 AH0
+chianti CH IY0 AE1 N T IY0
+chic SH IY1 K
+chicago SH AH0 K AA1 G OW2
+chicano CH IH0 K AA1 N OW0
+chicanos CH IH0 K AA1 N OW0 Z
+chick CH IH1 K
+chicken CH IH1 K AH0 N
+chickened CH IH1 K AH0 N D
+chickening CH IH1 K AH0 N IH0 NG
+chickens CH IH1 K AH0 N Z
+chicks CH IH1 K S
+chico CH IY1 K OW2
+chief CH IY1 F
+chiefs CH IY1 F S
+chieftain CH IY1 F T AH0 N
+chiffon SH IH0 F AA1 N
+chiffre SH IY1 F R AH0
+chihuahua CH AH0 W AA1 W AA2
+child CH AY1 L D
+childbirth CH AY1 L D B ER2 TH
+childhood CH AY1 L D HH UH2 D
+childish CH AY1 L D IH0 SH
+childless CH AY1 L D L AH0 S
+childlike CH AY1 L D L AY2 K
+children CH IH1 L D R AH0 N
+chile CH IH1 L IY0
+chilean CH IH1 L IY0 AH0 N
+chili CH IH1 L IY0
+chill CH IH1 L
+chilled CH IH1 L D
+chilling CH IH1 L IH0 NG
+chills CH IH1 L Z
+chilly CH IH1 L IY0
+chime CH AY1 M
+chimera CH IH0 M EH1 R AH0
+chimes CH AY1 M Z
+chimney CH IH1 M N IY0
+chimneys CH IH1 M N IY0 Z
+chimp CH IH1 M P
+chimpanzee CH IH0 M P AE1 N Z IY0
+chimpanzees CH IH0 M P AE1 N Z IY0 Z
+chimps CH IH1 M P S
+chin CH IH1 N
+china CH AY1 N AH0
+chinatown CH AY1 N AH0 T AW2 N
+chinchilla CH IH0 N CH IH1 L AH0
+chinese CH AY0 N IY1 Z
+ching CH IH1 NG
+chink CH IH1 NG K
+chinks CH IH1 NG K S
+chino CH IY1 N OW0
+chip CH IH1 P
+chipmunk CH IH1 P M AH0 NG K
+chipmunks CH IH1 P M AH0 NG K S
+chipped CH IH1 P T
+chipper CH IH1 P ER0
+chippewa CH IH1 P AH0 W AA2
+chipping CH IH1 P IH0 NG
+chippy CH IH1 P IY0
+chips CH IH1 P S
+chiropractor K AY1 R AH0 P R AE2 K T ER0
+chirp CH ER1 P
+chirping CH ER1 P IH0 NG
+chisel CH IH1 Z AH0 L
+chiseled CH IH1 Z AH0 L D
+chit CH IH1 T
+chitchat CH IH1 T CH AE2 T
+chitlins CH IH1 T L IH0 N Z
+chivalry SH IH1 V AH0 L R IY0
+chives CH AY1 V Z
+chlamydia K L AE0 M AY1 D IY0 AH0
+chloe K L OW1 IY0
+chloride K L AO1 R AY0 D
+chlorine K L AO1 R IY0 N
+chloroform K L AO1 R AH0 F AO2 R M
+cho CH OW1
+chocolate CH AO1 K L AH0 T
+chocolates CH AO1 K L AH0 T S
+choice CH OY1 S
+choices CH OY1 S AH0 Z
+choir K W AY1 ER0
+choirs K W AY1 R Z
+choke CH OW1 K
+choked CH OW1 K T
+chokes CH OW1 K S
+choking CH OW1 K IH0 NG
+cholera K AA1 L ER0 AH0
+cholesterol K AH0 L EH1 S T ER0 AO2 L
+chomp CH AA1 M P
+chomping CH AA1 M P IH0 NG
+choose CH UW1 Z
+chooses CH UW1 Z AH0 Z
+choosing CH UW1 Z IH0 NG
+choosy CH UW1 Z IY0
+chop CH AA1 P
+chopin SH OW1 P AE0 N
+chopped CH AA1 P T
+chopper CH AA1 P ER0
+choppers CH AA1 P ER0 Z
+chopping CH AA1 P IH0 NG
+choppy CH AA1 P IY0
+chops CH AA1 P S
+chopsticks CH AA1 P S T IH2 K S
+chord K AO1 R D
+chords K AO1 R D Z
+chore CH AO1 R
+choreographed K AO1 R IY0 AH0 G R AE2 F T
+choreographer K AO2 R IY0 AA1 G R AH0 F ER0
+choreography K AO2 R IY0 AA1 G R AH0 F IY0
+chores CH AO1 R Z
+chorus K AO1 R AH0 S
+chose CH OW1 Z
+chosen CH OW1 Z AH0 N
+chou CH UW1
+chow CH AW1
+chowder CH AW1 D ER0
+choy CH OY1
+christ K R AY1 S T
+christen K R IH1 S AH0 N
+christendom K R IH1 S AH0 N D AH0 M
+christened K R IH1 S AH0 N D
+christening K R IH1 S AH0 N IH0 NG
+christian K R IH1 S CH AH0 N
+christianity K R IH2 S CH IY0 AE1 N IH0 T IY0
+christians K R IH1 S CH AH0 N Z
+christie K R IH1 S T IY0
+christine K R IH0 S T IY1 N
+christmas K R IH1 S M AH0 S
+christmases K R IH1 S M AH0 S IH0 Z
+christopher K R IH1 S T AH0 F ER0
+christy K R IH1 S T IY0
+chrome K R OW1 M
+chromium K R OW1 M IY0 AH0 M
+chromosome K R OW1 M AH0 S OW2 M
+chromosomes K R OW1 M AH0 Z OW2 M Z
+chronic K R AA1 N IH0 K
+chronicle K R AA1 N IH0 K AH0 L
+chronicles K R AA1 N IH0 K AH0 L Z
+chronological K R AA2 N AH0 L AA1 JH IH0 K AH0 L
+chrysler K R AY1 S L ER0
+chubby CH AH1 B IY0
+chuck CH AH1 K
+chucked CH AH1 K T
+chuckie CH AH1 K IY0
+chucking CH AH1 K IH0 NG
+chuckle CH AH1 K AH0 L
+chuckles CH AH1 K AH0 L Z
+chuckling CH AH1 K L IH0 NG
+chug CH AH1 G
+chugging CH AH1 G IH0 NG
+chum CH AH1 M
+chummy CH AH1 M IY0
+chump CH AH1 M P
+chums CH AH1 M Z
+chun CH AH1 N
+chung CH AH1 NG
+chunk CH AH1 NG K
+chunks CH AH1 NG K S
+chunky CH AH1 NG K IY0
+church CH ER1 CH
+churches CH ER1 CH IH0 Z
+churchgoer CH ER1 CH G OW2 ER0
+churchill CH ER1 CH IH0 L
+churchyard CH ER1 CH Y AA2 R D
+churn CH ER1 N
+churned CH ER1 N D
+churning CH ER1 N IH0 NG
+chute SH UW1 T
+chutes SH UW1 T S
+chutney CH AH1 T N IY0
+ciao CH AW1
+cicely S IH1 S AH0 L IY0
+cicero S IH1 S ER0 OW2
+cider S AY1 D ER0
+cigar S IH0 G AA1 R
+cigarette S IH2 G ER0 EH1 T
+cigarettes S IH2 G ER0 EH1 T S
+cigars S IH0 G AA1 R Z
+cilantro S IH0 L AE1 N T R OW2
+cinch S IH1 N CH
+cincinnati S IH2 N S AH0 N AE1 T IY0
+cinder S IH1 N D ER0
+cinderella S IH2 N D ER0 EH1 L AH0
+cinders S IH1 N D ER0 Z
+cinema S IH1 N AH0 M AH0
+cinematic S IH2 N AH0 M AE1 T IH0 K
+cinematographer S IH2 N IH0 M AH0 T AA1 G R AH0 F ER0
+cinematography S IH2 N IH0 M AH0 T AA1 G R AH0 F IY0
+cinnamon S IH1 N AH0 M AH0 N
+cinque S IH1 NG K
+cipher S AY1 F ER0
+circa S ER1 K AH0
+circle S ER1 K AH0 L
+circled S ER1 K AH0 L D
+circles S ER1 K AH0 L Z
+circling S ER1 K AH0 L IH0 NG
+circuit S ER1 K AH0 T
+circuitry S ER1 K AH0 T R IY0
+circuits S ER1 K AH0 T S
+circular S ER1 K Y AH0 L ER0
+circulate S ER1 K Y AH0 L EY2 T
+circulated S ER1 K Y AH0 L EY2 T IH0 D
+circulating S ER1 K Y AH0 L EY2 T IH0 NG
+circulation S ER1 K Y AH0 L EY2 SH AH0 N
+circulatory S ER1 K Y AH0 L AH0 T AO2 R IY0
+circumcised S ER1 K AH0 M S AY2 Z D
+circumcision S ER2 K AH0 M S IH1 ZH AH0 N
+circumference S ER2 K AH1 M F R AH0 N S
+circumstance S ER1 K AH0 M S T AE2 N S
+circumstances S ER1 K AH0 M S T AE2 N S AH0 Z
+circumstantial S ER2 K AH0 M S T AE1 N SH AH0 L
+circumvent S ER2 K AH0 M V EH1 N T
+circus S ER1 K AH0 S
+circuses S ER1 K AH0 S AH0 Z
+cirque S ER1 K
+cirrhosis S ER0 OW1 S AH0 S
+cisco S IH1 S K OW2
+citadel S IH1 T AH0 D EH2 L
+citation S AY0 T EY1 SH AH0 N
+citations S AY0 T EY1 SH AH0 N Z
+cite S AY1 T
+cited S AY1 T AH0 D
+cities S IH1 T IY0 Z
+citing S AY1 T IH0 NG
+citizen S IH1 T AH0 Z AH0 N
+citizenry S IH1 T IH0 Z AH0 N R IY0
+citizens S IH1 T AH0 Z AH0 N Z
+citizenship S IH1 T IH0 Z AH0 N SH IH2 P
+citrus S IH1 T R AH0 S
+city S IH1 T IY0
+citywide S IH1 T IY0 W AY2 D
+civic S IH1 V IH0 K
+civics S IH1 V IH0 K S
+civil S IH1 V AH0 L
+civilian S AH0 V IH1 L Y AH0 N
+civilians S AH0 V IH1 L Y AH0 N Z
+civility S AH0 V IH1 L AH0 T IY0
+civilization S IH2 V AH0 L IH0 Z EY1 SH AH0 N
+civilizations S IH2 V AH0 L IH0 Z EY1 SH AH0 N Z
+civilized S IH1 V AH0 L AY2 Z D
+clack K L AE1 K
+claim K L EY1 M
+claimed K L EY1 M D
+claiming K L EY1 M IH0 NG
+claims K L EY1 M Z
+clair K L EH1 R
+claire K L EH1 R
+clairvoyant K L EH0 R V OY1 AH0 N T
+clam K L AE1 M
+clammy K L AE1 M IY0
+clamoring K L AE1 M ER0 IH0 NG
+clamp K L AE1 M P
+clamped K L AE1 M P T
+clamps K L AE1 M P S
+clams K L AE1 M Z
+clan K L AE1 N
+clandestine K L AE0 N D EH1 S T IH0 N
+clang K L AE1 NG
+clanging K L AE1 NG IH0 NG
+clank K L AE1 NG K
+clanking K L AE1 NG K IH0 NG
+clans K L AE1 N Z
+clap K L AE1 P
+clapped K L AE1 P T
+clapper K L AE1 P ER0
+clapping K L AE1 P IH0 NG
+claps K L AE1 P S
+clare K L EH1 R
+clarence K L EH1 R AH0 N S
+clarification K L EH2 R AH0 F AH0 K EY1 SH AH0 N
+clarified K L EH1 R AH0 F AY2 D
+clarify K L EH1 R AH0 F AY2
+clarinet K L EH2 R AH0 N EH1 T
+clarion K L EH1 R IY0 AH0 N
+clarity K L EH1 R AH0 T IY0
+clark K L AA1 R K
+clarke K L AA1 R K
+clash K L AE1 SH
+clasp K L AE1 S P
+class K L AE1 S
+classes K L AE1 S AH0 Z
+classic K L AE1 S IH0 K
+classical K L AE1 S IH0 K AH0 L
+classically K L AE1 S IH0 K L IY0
+classics K L AE1 S IH0 K S
+classier K L AE1 S IY0 ER0
+classification K L AE2 S AH0 F AH0 K EY1 SH AH0 N
+classified K L AE1 S AH0 F AY2 D
+classifieds K L AE1 S AH0 F AY2 D Z
+classify K L AE1 S AH0 F AY2
+classmate K L AE1 S M EY2 T
+classmates K L AE1 S M EY2 T S
+classroom K L AE1 S R UW2 M
+classrooms K L AE1 S R UW2 M Z
+classy K L AE1 S IY0
+clatter K L AE1 T ER0
+clattering K L AE1 T ER0 IH0 NG
+claudius K L AO1 D IY0 AH0 S
+claus K L AO1 Z
+clause K L AO1 Z
+clauses K L AO1 Z AH0 Z
+claustrophobia K L AO2 S T R AH0 F OW1 B IY0 AH0
+claustrophobic K L AO2 S T R AH0 F OW1 B IH0 K
+clavicle K L AE1 V AH0 K AH0 L
+claw K L AO1
+clawed K L AO1 D
+clawing K L AO1 IH0 NG
+claws K L AO1 Z
+clay K L EY1
+clayman K L EY1 M AH0 N
+claymore K L EY1 M AO2 R
+clean K L IY1 N
+cleaned K L IY1 N D
+cleaner K L IY1 N ER0
+cleaners K L IY1 N ER0 Z
+cleanest K L IY1 N AH0 S T
+cleaning K L IY1 N IH0 NG
+cleanliness K L EH1 N L IY0 N IH0 S
+cleanly K L IY1 N L IY0
+cleans K L IY1 N Z
+cleanse K L EH1 N Z
+cleansed K L EH1 N Z D
+cleanser K L EH1 N Z ER0
+cleansing K L EH1 N Z IH0 NG
+cleanup K L IY1 N AH2 P
+clear K L IH1 R
+clearance K L IH1 R AH0 N S
+clearances K L IH1 R AH0 N S IH0 Z
+cleared K L IH1 R D
+clearer K L IH1 R ER0
+clearest K L IH1 R IH0 S T
+clearing K L IH1 R IH0 NG
+clearly K L IH1 R L IY0
+clears K L IH1 R Z
+clearwater K L IH1 R W AO2 T ER0
+cleat K L IY1 T
+cleats K L IY1 T S
+cleavage K L IY1 V AH0 JH
+cleaver K L IY1 V ER0
+cleaves K L IY1 V Z
+cleft K L EH1 F T
+clem K L EH1 M
+clemency K L EH1 M AH0 N S IY0
+clement K L EH1 M AH0 N T
+clementine K L EH1 M AH0 N T AY2 N
+clements K L EH1 M AH0 N T S
+clench K L EH1 N CH
+clenched K L EH1 N CH T
+cleopatra K L IY2 AH0 P AE1 T R AH0
+clergy K L ER1 JH IY0
+clergyman K L ER1 JH IY0 M AH0 N
+cleric K L EH1 R IH0 K
+clerical K L EH1 R AH0 K AH0 L
+clerk K L ER1 K
+clerks K L ER1 K S
+cleve K L IY1 V
+cleveland K L IY1 V L AH0 N D
+clever K L EH1 V ER0
+cleverer K L EH1 V AH0 R ER2
+cleverly K L EH1 V ER0 L IY0
+cleverness K L EH1 V ER0 N AH0 S
+cliche K L IY0 SH EY1
+click K L IH1 K
+clicked K L IH1 K T
+clicker K L IH1 K ER0
+clicking K L IH1 K IH0 NG
+clicks K L IH1 K S
+client K L AY1 AH0 N T
+clientele K L AY2 AH0 N T EH1 L
+clients K L AY1 AH0 N T S
+cliff K L IH1 F
+cliffs K L IH1 F S
+climate K L AY1 M AH0 T
+climax K L AY1 M AE2 K S
+climb K L AY1 M
+climbed K L AY1 M D
+climber K L AY1 M ER0
+climbers K L AY1 M ER0 Z
+climbing K L AY1 M IH0 NG
+climbs K L AY1 M Z
+clinch K L IH1 N CH
+clincher K L IH1 N CH ER0
+cline K L AY1 N
+cling K L IH1 NG
+clinging K L IH1 NG IH0 NG
+clings K L IH1 NG Z
+clinic K L IH1 N IH0 K
+clinical K L IH1 N AH0 K AH0 L
+clinically K L IH1 N IH0 K AH0 L IY0
+clinics K L IH1 N IH0 K S
+clink K L IH1 NG K
+clint K L IH1 N T
+clip K L IH1 P
+clipboard K L IH1 P B AO2 R D
+clipped K L IH1 P T
+clipper K L IH1 P ER0
+clippers K L IH1 P ER0 Z
+clipping K L IH1 P IH0 NG
+clippings K L IH1 P IH0 NG Z
+clips K L IH1 P S
+clique K L IY1 K
+clitoris K L AY0 T AO1 R IH0 S
+clive K L AY1 V
+cloak K L OW1 K
+cloaked K L OW1 K T
+cloaking K L OW1 K IH0 NG
+cloakroom K L OW1 K R UW2 M
+clobber K L AA1 B ER0
+clobbered K L AA1 B ER0 D
+clock K L AA1 K
+clocked K L AA1 K T
+clocking K L AA1 K IH0 NG
+clocks K L AA1 K S
+clockwise K L AA1 K W AY2 Z
+clockwork K L AA1 K W ER2 K
+clog K L AA1 G
+clogged K L AO1 G D
+clogging K L AA1 G IH0 NG
+clogs K L AA1 G Z
+cloister K L OY1 S T ER0
+clone K L OW1 N
+cloned K L OW1 N D
+clones K L OW1 N Z
+cloning K L OW1 N IH0 NG
+close K L OW1 S
+closed K L OW1 Z D
+closely K L OW1 S L IY0
+closeness K L OW1 S N IH0 S
+closer K L OW1 S ER0
+closes K L OW1 Z IH0 Z
+closest K L OW1 S AH0 S T
+closet K L AA1 Z AH0 T
+closets K L AA1 Z AH0 T S
+closing K L OW1 Z IH0 NG
+closings K L OW1 Z IH0 NG Z
+closure K L OW1 ZH ER0
+clot K L AA1 T
+cloth K L AO1 TH
+clothe K L OW1 DH
+clothed K L OW1 DH D
+clothes K L OW1 DH Z
+clothing K L OW1 DH IH0 NG
+cloths K L AO1 TH S
+clots K L AA1 T S
+clotted K L AA1 T AH0 D
+clotting K L AA1 T IH0 NG
+cloud K L AW1 D
+clouded K L AW1 D IH0 D
+clouding K L AW1 D IH0 NG
+clouds K L AW1 D Z
+cloudy K L AW1 D IY0
+clout K L AW1 T
+clove K L OW1 V
+clover K L OW1 V ER0
+cloves K L OW1 V Z
+clown K L AW1 N
+clowning K L AW1 N IH0 NG
+clowns K L AW1 N Z
+club K L AH1 B
+clubbed K L AH1 B D
+clubbing K L AH1 B IH0 NG
+clubhouse K L AH1 B HH AW2 S
+clubs K L AH1 B Z
+cluck K L AH1 K
+clucking K L AH1 K IH0 NG
+clue K L UW1
+clueless K L UW1 L AH0 S
+clues K L UW1 Z
+clump K L AH1 M P
+clumpy K L AH1 M P IY0
+clumsiness K L AH1 M Z IY0 N AH0 S
+clumsy K L AH1 M Z IY0
+clung K L AH1 NG
+clunk K L AH1 NG K
+clunky K L AH1 NG K IY0
+cluster K L AH1 S T ER0
+clusters K L AH1 S T ER0 Z
+clutch K L AH1 CH
+clutched K L AH1 CH T
+clutches K L AH1 CH AH0 Z
+clutching K L AH1 CH IH0 NG
+clutter K L AH1 T ER0
+cluttered K L AH1 T ER0 D
+co K OW1
+coach K OW1 CH
+coached K OW1 CH T
+coaches K OW1 CH IH0 Z
+coaching K OW1 CH IH0 NG
+coachman K OW1 CH M AH0 N
+coal K OW1 L
+coalition K OW2 AH0 L IH1 SH AH0 N
+coals K OW1 L Z
+coarse K AO1 R S
+coast K OW1 S T
+coastal K OW1 S T AH0 L
+coaster K OW1 S T ER0
+coasters K OW1 S T ER0 Z
+coasting K OW1 S T IH0 NG
+coastline K OW1 S T L AY2 N
+coasts K OW1 S T S
+coat K OW1 T
+coated K OW1 T AH0 D
+coating K OW1 T IH0 NG
+coats K OW1 T S
+coattails K OW1 T T EY2 L Z
+coax K OW1 K S
+cob K AA1 B
+cobalt K OW1 B AO2 L T
+cobb K AA1 B
+cobbler K AA1 B L ER0
+cobra K OW1 B R AH0
+cobras K OW1 B R AH0 Z
+cobwebs K AA1 B W EH2 B Z
+coca K OW1 K AH0
+cocaine K OW0 K EY1 N
+cock K AA1 K
+cockamamie K AO2 K AH0 M EY1 M IY0
+cocked K AA1 K T
+cocker K AA1 K ER0
+cockeyed K AA1 K AY2 D
+cocking K AA1 K IH0 NG
+cockles K AA1 K AH0 L Z
+cockney K AA1 K N IY0
+cockpit K AA1 K P IH2 T
+cockroach K AA1 K R OW2 CH
+cockroaches K AA1 K R OW2 CH IH0 Z
+cocks K AA1 K S
+cocksucker K AA1 K S AH2 K ER0
+cocktail K AA1 K T EY2 L
+cocktails K AA1 K T EY2 L Z
+cocky K AA1 K IY0
+coco K OW1 K OW2
+cocoa K OW1 K OW0
+coconut K OW1 K AH0 N AH2 T
+coconuts K OW1 K AH0 N AH2 T S
+cocoon K AH0 K UW1 N
+cod K AA1 D
+coddle K AA1 D AH0 L
+coddled K AA1 D AH0 L D
+code K OW1 D
+coded K OW1 D IH0 D
+codes K OW1 D Z
+coding K OW1 D IH0 NG
+coe K OW1
+coed K OW1 EH2 D
+coeds K OW1 EH2 D Z
+coerce K OW0 ER1 S
+coerced K OW0 ER1 S T
+coercion K OW0 ER1 SH AH0 N
+coexist K OW2 AH0 G Z IH1 S T
+coffee K AA1 F IY0
+coffeehouse K AO1 F IY0 HH AW2 S
+coffees K AO1 F IY0 Z
+coffin K AO1 F IH0 N
+coffins K AO1 F IH0 N Z
+cog K AO1 G
+cognac K OW1 N Y AE2 K
+cognitive K AA1 G N IH0 T IH0 V
+cohen K OW1 AH0 N
+coherent K OW0 HH IH1 R AH0 N T
+coho K OW1 HH OW0
+cohorts K OW1 HH AO0 R T S
+coil K OY1 L
+coils K OY1 L Z
+coin K OY1 N
+coincide K OW2 IH0 N S AY1 D
+coincidence K OW0 IH1 N S IH0 D AH0 N S
+coincidences K OW0 IH1 N S AH0 D AH0 N S IH0 Z
+coincidental K OW0 IH2 N S AH0 D EH1 N T AH0 L
+coincidentally K OW0 IH2 N S IH0 D EH1 N T AH0 L IY0
+coincides K OW2 IH0 N S AY1 D Z
+coined K OY1 N D
+coins K OY1 N Z
+coke K OW1 K
+cokes K OW1 K S
+cola K OW1 L AH0
+cold K OW1 L D
+colder K OW1 L D ER0
+coldest K OW1 L D AH0 S T
+coldness K OW1 L D N AH0 S
+colds K OW1 L D Z
+cole K OW1 L
+coles K OW1 L Z
+coleslaw K OW1 L S L AA2
+coley K OW1 L IY0
+coli K OW1 L IY0
+colin K OW1 L IH0 N
+coliseum K AA2 L AH0 S IY1 AH0 M
+collaborate K AH0 L AE1 B ER0 EY2 T
+collaborating K AH0 L AE1 B ER0 EY2 T IH0 NG
+collaboration K AH0 L AE2 B ER0 EY1 SH AH0 N
+collaborator K AH0 L AE1 B ER0 EY2 T ER0
+collaborators K AH0 L AE1 B ER0 EY2 T ER0 Z
+collage K AH0 L AA1 ZH
+collagen K AA1 L AH0 G AH0 N
+collapse K AH0 L AE1 P S
+collapsed K AH0 L AE1 P S T
+collapses K AH0 L AE1 P S IH0 Z
+collapsible K AH0 L AE1 P S AH0 B AH0 L
+collapsing K AH0 L AE1 P S IH0 NG
+collar K AA1 L ER0
+collarbone K AA1 L ER0 B OW2 N
+collard K AA1 L ER0 D
+collars K AA1 L ER0 Z
+collate K AH0 L EY1 T
+collateral K AH0 L AE1 T ER0 AH0 L
+colleague K AA1 L IY0 G
+colleagues K AA1 L IY0 G Z
+collect K AH0 L EH1 K T
+collected K AH0 L EH1 K T AH0 D
+collectibles K AH0 L EH1 K T AH0 B AH0 L Z
+collecting K AH0 L EH1 K T IH0 NG
+collection K AH0 L EH1 K SH AH0 N
+collections K AH0 L EH1 K SH AH0 N Z
+collective K AH0 L EH1 K T IH0 V
+collectively K AH0 L EH1 K T IH0 V L IY0
+collector K AH0 L EH1 K T ER0
+collectors K AH0 L EH1 K T ER0 Z
+collects K AH0 L EH1 K T S
+colleen K AA2 L IY1 N
+college K AA1 L IH0 JH
+colleges K AA1 L IH0 JH IH0 Z
+collegiate K AH0 L IY1 JH IH0 T
+collide K AH0 L AY1 D
+collided K AH0 L AY1 D IH0 D
+collie K AA1 L IY0
+collier K AA1 L Y ER0
+collin K AA1 L IH0 N
+collins K AA1 L IH0 N Z
+collision K AH0 L IH1 ZH AH0 N
+collusion K AH0 L UW1 ZH AH0 N
+cologne K AH0 L OW1 N
+colombia K AH0 L AH1 M B IY0 AH0
+colombian K AH0 L AH1 M B IY0 AH0 N
+colombians K AH0 L AH1 M B IY0 AH0 N Z
+colombo K AH0 L AH1 M B OW0
+colon K OW1 L AH0 N
+colonel K ER1 N AH0 L
+colonels K ER1 N AH0 L Z
+colonial K AH0 L OW1 N IY0 AH0 L
+colonialism K AH0 L OW1 N IY0 AH0 L IH2 Z AH0 M
+colonies K AA1 L AH0 N IY0 Z
+colonists K AA1 L AH0 N IH0 S T S
+colony K AA1 L AH0 N IY0
+color K AH1 L ER0
+colorado K AA2 L ER0 AA1 D OW0
+colorblind K AH1 L ER0 B L AY2 N D
+colored K AH1 L ER0 D
+coloreds K AA1 L ER0 AH0 D Z
+colorful K AH1 L ER0 F AH0 L
+coloring K AH1 L ER0 IH0 NG
+colorless K AH1 L ER0 L AH0 S
+colors K AH1 L ER0 Z
+colossal K AH0 L AA1 S AH0 L
+colour K AH1 L ER0
+coloured K AH1 L ER0 D
+colouring K AH1 L ER0 R IH2 NG
+colours K AH1 L ER0 Z
+colt K OW1 L T
+colts K OW1 L T S
+columbia K AH0 L AH1 M B IY0 AH0
+columbian K OW2 L AH1 M B IY0 AH0 N
+columbine K AA1 L AH0 M B AY2 N
+columbo K OW2 L AH1 M B OW0
+columbus K AH0 L AH1 M B AH0 S
+column K AA1 L AH0 M
+columnist K AA1 L AH0 M N AH0 S T
+columnists K AA1 L AH0 M N AH0 S T S
+columns K AA1 L AH0 M Z
+com K AA1 M
+coma K OW1 M AH0
+comanche K AH0 M AE1 N CH IY0
+comanches K AH0 M AE1 N CH IY0 Z
+comandante K OW2 M AH0 N D AA1 N T EY0
+comas K OW1 M AH0 Z
+comatose K OW1 M AH0 T OW2 S
+comb K OW1 M
+combat K AA1 M B AE0 T
+combatants K AH0 M B AE1 T AH0 N T S
+combative K AH0 M B AE1 T IH0 V
+combed K OW1 M D
+combes K OW1 M Z
+combination K AA2 M B AH0 N EY1 SH AH0 N
+combinations K AA2 M B AH0 N EY1 SH AH0 N Z
+combine K AA1 M B AY0 N
+combined K AH0 M B AY1 N D
+combines K AH0 M B AY1 N Z
+combing K OW1 M IH0 NG
+combining K AH0 M B AY1 N IH0 NG
+combo K AA1 M B OW2
+combs K OW1 M Z
+combustion K AH0 M B AH1 S CH AH0 N
+come K AH1 M
+comeback K AH1 M B AE2 K
+comebacks K AH1 M B AE2 K S
+comedian K AH0 M IY1 D IY0 AH0 N
+comedians K AH0 M IY1 D IY0 AH0 N Z
+comedies K AA1 M AH0 D IY0 Z
+comedy K AA1 M AH0 D IY0
+comely K AH1 M L IY0
+comer K AH1 M ER0
+comes K AH1 M Z
+comet K AA1 M AH0 T
+cometh K AH1 M IH0 TH
+comets K AA1 M AH0 T S
+comfort K AH1 M F ER0 T
+comfortable K AH1 M F ER0 T AH0 B AH0 L
+comfortably K AH1 M F ER0 T AH0 B L IY0
+comforted K AH1 M F ER0 T IH0 D
+comforter K AH1 M F ER0 T ER0
+comforting K AH1 M F ER0 T IH0 NG
+comforts K AH1 M F ER0 T S
+comfy K AH1 M F IY0
+comic K AA1 M IH0 K
+comical K AA1 M IH0 K AH0 L
+comics K AA1 M IH0 K S
+coming K AH1 M IH0 NG
+comings K AH1 M IH0 NG Z
+comm K AA1 M
+comma K AA1 M AH0
+command K AH0 M AE1 N D
+commandant K AA2 M AH0 N D AA1 N T
+commanded K AH0 M AE1 N D IH0 D
+commandeer K AA2 M AH0 N D IH1 R
+commandeered K AA2 M AH0 N D IH1 R D
+commander K AH0 M AE1 N D ER0
+commanders K AH0 M AE1 N D ER0 Z
+commanding K AH0 M AE1 N D IH0 NG
+commandment K AH0 M AE1 N D M AH0 N T
+commandments K AH0 M AE1 N D M AH0 N T S
+commando K AH0 M AE1 N D OW2
+commandos K AH0 M AE1 N D OW2 Z
+commands K AH0 M AE1 N D Z
+commas K AA1 M AH0 Z
+commemorate K AH0 M EH1 M ER0 EY2 T
+commemorative K AH0 M EH1 M R AH0 T IH0 V
+commence K AH0 M EH1 N S
+commenced K AH0 M EH1 N S T
+commencement K AH0 M EH1 N S M AH0 N T
+commencing K AH0 M EH1 N S IH0 NG
+commend K AH0 M EH1 N D
+commendable K AH0 M EH1 N D AH0 B AH0 L
+commendation K AA2 M AH0 N D EY1 SH AH0 N
+commended K AH0 M EH1 N D IH0 D
+comment K AA1 M EH0 N T
+commentary K AA1 M AH0 N T EH2 R IY0
+commentator K AA1 M AH0 N T EY2 T ER0
+commented K AA1 M EH0 N T AH0 D
+commenting K AA1 M EH0 N T IH0 NG
+comments K AA1 M EH0 N T S
+commerce K AA1 M ER0 S
+commercial K AH0 M ER1 SH AH0 L
+commercials K AH0 M ER1 SH AH0 L Z
+commie K AA1 M IY0
+commies K AA1 M IY0 Z
+commissar K AA1 M AH0 S AA2 R
+commissary K AA1 M AH0 S EH2 R IY0
+commission K AH0 M IH1 SH AH0 N
+commissioned K AH0 M IH1 SH AH0 N D
+commissioner K AH0 M IH1 SH AH0 N ER0
+commissioners K AH0 M IH1 SH AH0 N ER0 Z
+commissions K AH0 M IH1 SH AH0 N Z
+commit K AH0 M IH1 T
+commitment K AH0 M IH1 T M AH0 N T
+commitments K AH0 M IH1 T M AH0 N T S
+commits K AH0 M IH1 T S
+committed K AH0 M IH1 T IH0 D
+committee K AH0 M IH1 T IY0
+committees K AH0 M IH1 T IY0 Z
+committing K AH0 M IH1 T IH0 NG
+commode K AH0 M OW1 D
+commodities K AH0 M AA1 D AH0 T IY0 Z
+commodity K AH0 M AA1 D AH0 T IY0
+commodore K AA1 M AH0 D AO2 R
+common K AA1 M AH0 N
+commoner K AA1 M AH0 N ER0
+commoners K AA1 M AH0 N ER0 Z
+commonly K AA1 M AH0 N L IY0
+commonplace K AA1 M AH0 N P L EY2 S
+commons K AA1 M AH0 N Z
+commonwealth K AA1 M AH0 N W EH2 L TH
+commotion K AH0 M OW1 SH AH0 N
+communal K AH0 M Y UW1 N AH0 L
+commune K AA1 M Y UW0 N
+communicate K AH0 M Y UW1 N AH0 K EY2 T
+communicated K AH0 M Y UW1 N AH0 K EY2 T IH0 D
+communicates K AH0 M Y UW1 N IH0 K EY2 T S
+communicating K AH0 M Y UW1 N AH0 K EY2 T IH0 NG
+communication K AH0 M Y UW2 N AH0 K EY1 SH AH0 N
+communications K AH0 M Y UW2 N AH0 K EY1 SH AH0 N Z
+communicator K AH0 M Y UW1 N AH0 K EY2 T ER0
+communion K AH0 M Y UW1 N Y AH0 N
+communism K AA1 M Y AH0 N IH2 Z AH0 M
+communist K AA1 M Y AH0 N AH0 S T
+communists K AA1 M Y AH0 N AH0 S T S
+communities K AH0 M Y UW1 N AH0 T IY0 Z
+community K AH0 M Y UW1 N AH0 T IY0
+commute K AH0 M Y UW1 T
+commuted K AH0 M Y UW1 T IH0 D
+commuter K AH0 M Y UW1 T ER0
+commuting K AH0 M Y UW1 T IH0 NG
+comp K AA1 M P
+compact K AA1 M P AE0 K T
+companies K AH1 M P AH0 N IY2 Z
+companion K AH0 M P AE1 N Y AH0 N
+companions K AH0 M P AE1 N Y AH0 N Z
+companionship K AH0 M P AE1 N Y AH0 N SH IH2 P
+company K AH1 M P AH0 N IY2
+comparable K AA1 M P ER0 AH0 B AH0 L
+comparative K AH0 M P EH1 R AH0 T IH0 V
+comparatively K AH0 M P EH1 R AH0 T IH0 V L IY0
+compare K AH0 M P EH1 R
+compared K AH0 M P EH1 R D
+compares K AH0 M P EH1 R Z
+comparing K AH0 M P EH1 R IH0 NG
+comparison K AH0 M P EH1 R AH0 S AH0 N
+comparisons K AH0 M P EH1 R AH0 S AH0 N Z
+compartment K AH0 M P AA1 R T M AH0 N T
+compartments K AH0 M P AA1 R T M AH0 N T S
+compass K AH1 M P AH0 S
+compassion K AH0 M P AE1 SH AH0 N
+compassionate K AH0 M P AE1 SH AH0 N AH0 T
+compatibility K AH0 M P AE2 T AH0 B IH1 L AH0 T IY2
+compatible K AH0 M P AE1 T AH0 B AH0 L
+compel K AH0 M P EH1 L
+compelled K AH0 M P EH1 L D
+compelling K AH0 M P EH1 L IH0 NG
+compels K AH0 M P EH1 L Z
+compensate K AA1 M P AH0 N S EY2 T
+compensated K AA1 M P AH0 N S EY2 T AH0 D
+compensating K AA1 M P AH0 N S EY2 T IH0 NG
+compensation K AA2 M P AH0 N S EY1 SH AH0 N
+compensations K AA2 M P AH0 N S EY1 SH AH0 N Z
+compete K AH0 M P IY1 T
+competed K AH0 M P IY1 T IH0 D
+competence K AA1 M P AH0 T IH0 N S
+competent K AA1 M P AH0 T IH0 N T
+competing K AH0 M P IY1 T IH0 NG
+competition K AA2 M P AH0 T IH1 SH AH0 N
+competitions K AA2 M P AH0 T IH1 SH AH0 N Z
+competitive K AH0 M P EH1 T AH0 T IH0 V
+competitor K AH0 M P EH1 T AH0 T ER0
+competitors K AH0 M P EH1 T AH0 T ER0 Z
+compilation K AA2 M P AH0 L EY1 SH AH0 N
+compile K AH0 M P AY1 L
+compiled K AH0 M P AY1 L D
+compiling K AH0 M P AY1 L IH0 NG
+complacency K AH0 M P L EY1 S AH0 N S IY0
+complacent K AH0 M P L EY1 S AH0 N T
+complain K AH0 M P L EY1 N
+complainant K AH0 M P L EY1 N AH0 N T
+complained K AH0 M P L EY1 N D
+complaining K AH0 M P L EY1 N IH0 NG
+complains K AH0 M P L EY1 N Z
+complaint K AH0 M P L EY1 N T
+complaints K AH0 M P L EY1 N T S
+complement K AA1 M P L AH0 M AH0 N T
+complementary K AA2 M P L AH0 M EH1 N T R IY0
+complete K AH0 M P L IY1 T
+completed K AH0 M P L IY1 T AH0 D
+completely K AH0 M P L IY1 T L IY0
+completes K AH0 M P L IY1 T S
+completing K AH0 M P L IY1 T IH0 NG
+completion K AH0 M P L IY1 SH AH0 N
+complex K AA1 M P L EH0 K S
+complexes K AA1 M P L EH0 K S AH0 Z
+complexion K AH0 M P L EH1 K SH AH0 N
+complexities K AH0 M P L EH1 K S IH0 T IY0 Z
+complexity K AH0 M P L EH1 K S AH0 T IY0
+compliance K AH0 M P L AY1 AH0 N S
+complicate K AA1 M P L AH0 K EY2 T
+complicated K AA1 M P L AH0 K EY2 T AH0 D
+complicates K AA1 M P L IH0 K EY2 T S
+complication K AA2 M P L AH0 K EY1 SH AH0 N
+complications K AA2 M P L AH0 K EY1 SH AH0 N Z
+complicit K AH0 M P L IH1 S AH0 T
+complicity K AH0 M P L IH1 S AH0 T IY0
+complied K AH0 M P L AY1 D
+compliment K AA1 M P L AH0 M EH0 N T
+complimentary K AA2 M P L AH0 M EH1 N T ER0 IY0
+complimented K AA1 M P L AH0 M EH2 N T IH0 D
+complimenting K AA1 M P L AH0 M EH2 N T IH0 NG
+compliments K AA1 M P L AH0 M EH0 N T S
+comply K AH0 M P L AY1
+complying K AH0 M P L AY1 IH0 NG
+component K AH0 M P OW1 N AH0 N T
+components K AH0 M P OW1 N AH0 N T S
+compose K AH0 M P OW1 Z
+composed K AH0 M P OW1 Z D
+composer K AH0 M P OW1 Z ER0
+composers K AH0 M P OW1 Z ER0 Z
+composing K AH0 M P OW1 Z IH0 NG
+composite K AH0 M P AA1 Z AH0 T
+composition K AA2 M P AH0 Z IH1 SH AH0 N
+compositions K AA2 M P AH0 Z IH1 SH AH0 N Z
+compost K AA1 M P OW0 S T
+composure K AH0 M P OW1 ZH ER0
+compound K AA1 M P AW0 N D
+compounded K AH0 M P AW1 N D AH0 D
+compounds K AA1 M P AW0 N D Z
+comprehend K AA2 M P R IY0 HH EH1 N D
+comprehension K AA2 M P R IY0 HH EH1 N SH AH0 N
+comprehensive K AA2 M P R IY0 HH EH1 N S IH0 V
+compress K AA1 M P R EH0 S
+compressed K AH0 M P R EH1 S T
+compresses K AA1 M P R EH0 S AH0 Z
+compression K AH0 M P R EH1 SH AH0 N
+compressor K AH0 M P R EH1 S ER0
+comprised K AH0 M P R AY1 Z D
+compromise K AA1 M P R AH0 M AY2 Z
+compromised K AA1 M P R AH0 M AY2 Z D
+compromises K AA1 M P R AH0 M AY2 Z IH0 Z
+compromising K AA1 M P R AH0 M AY2 Z IH0 NG
+compulsion K AH0 M P AH1 L SH AH0 N
+compulsive K AH0 M P AH1 L S IH0 V
+compulsory K AH0 M P AH1 L S ER0 IY0
+compunction K AH0 M P AH1 NG K SH AH0 N
+compute K AH0 M P Y UW1 T
+computed K AH0 M P Y UW1 T AH0 D
+computer K AH0 M P Y UW1 T ER0
+computerized K AH0 M P Y UW1 T ER0 AY2 Z D
+computers K AH0 M P Y UW1 T ER0 Z
+computing K AH0 M P Y UW1 T IH0 NG
+comrade K AA1 M R AE2 D
+comrades K AA1 M R AE2 D Z
+coms K AA1 M Z
+comstock K AA1 M S T AA2 K
+con K AA1 N
+conceal K AH0 N S IY1 L
+concealed K AH0 N S IY1 L D
+concealing K AH0 N S IY1 L IH0 NG
+concealment K AH0 N S IY1 L M AH0 N T
+concede K AH0 N S IY1 D
+conceit K AH0 N S IY1 T
+conceited K AH0 N S IY1 T AH0 D
+conceivable K AH0 N S IY1 V AH0 B AH0 L
+conceivably K AH0 N S IY1 V AH0 B L IY0
+conceive K AH0 N S IY1 V
+conceived K AH0 N S IY1 V D
+conceiving K AH0 N S IY1 V IH0 NG
+concentrate K AA1 N S AH0 N T R EY2 T
+concentrated K AA1 N S AH0 N T R EY2 T IH0 D
+concentrating K AA1 N S AH0 N T R EY2 T IH0 NG
+concentration K AA2 N S AH0 N T R EY1 SH AH0 N
+concentric K AH0 N S EH1 N T R IH0 K
+concept K AA1 N S EH0 P T
+conception K AH0 N S EH1 P SH AH0 N
+concepts K AA1 N S EH0 P T S
+concern K AH0 N S ER1 N
+concerned K AH0 N S ER1 N D
+concerning K AH0 N S ER1 N IH0 NG
+concerns K AH0 N S ER1 N Z
+concert K AA1 N S ER0 T
+concerto K AH0 N CH EH1 R T OW0
+concerts K AA1 N S ER0 T S
+concession K AH0 N S EH1 SH AH0 N
+concessions K AH0 N S EH1 SH AH0 N Z
+conch K AA1 N CH
+concierge K AA2 N S IY0 EH1 R ZH
+concise K AH0 N S AY1 S
+conclude K AH0 N K L UW1 D
+concluded K AH0 N K L UW1 D AH0 D
+concludes K AH0 N K L UW1 D Z
+concluding K AH0 N K L UW1 D IH0 NG
+conclusion K AH0 N K L UW1 ZH AH0 N
+conclusions K AH0 N K L UW1 ZH AH0 N Z
+conclusive K AH0 N K L UW1 S IH0 V
+conclusively K AH0 N K L UW1 S IH0 V L IY0
+concoct K AH0 N K AA1 K T
+concocted K AH0 N K AA1 K T AH0 D
+concoction K AH0 N K AA1 K SH AH0 N
+concord K AA1 N K AO2 R D
+concourse K AA1 N K AO2 R S
+concrete K AH0 N K R IY1 T
+concubine K AA1 N K Y AH0 B AY2 N
+concubines K AA1 N K Y AH0 B AY2 N Z
+concur K AH0 N K ER1
+concussion K AH0 N K AH1 SH AH0 N
+concussions K AH0 N K AH1 SH AH0 N Z
+condemn K AH0 N D EH1 M
+condemnation K AA2 N D AH0 M N EY1 SH AH0 N
+condemned K AH0 N D EH1 M D
+condemning K AH0 N D EH1 M IH0 NG
+condensation K AA2 N D AH0 N S EY1 SH AH0 N
+condense K AH0 N D EH1 N S
+condensed K AH0 N D EH1 N S T
+condescend K AA2 N D IH0 S EH1 N D
+condescending K AA2 N D IH0 S EH1 N D IH0 NG
+condiments K AA1 N D AH0 M AH0 N T S
+condition K AH0 N D IH1 SH AH0 N
+conditional K AH0 N D IH1 SH AH0 N AH0 L
+conditioned K AH0 N D IH1 SH AH0 N D
+conditioner K AH0 N D IH1 SH AH0 N ER0
+conditioning K AH0 N D IH1 SH AH0 N IH0 NG
+conditions K AH0 N D IH1 SH AH0 N Z
+condo K AA1 N D OW0
+condolence K AH0 N D OW1 L AH0 N S
+condolences K AH0 N D OW1 L AH0 N S AH0 Z
+condom K AA1 N D AH0 M
+condominium K AA2 N D AH0 M IH1 N IY0 AH0 M
+condominiums K AA2 N D AH0 M IH1 N IY0 AH0 M Z
+condoms K AA1 N D AH0 M Z
+condone K AH0 N D OW1 N
+condor K AA1 N D ER0
+condos K AA1 N D OW0 Z
+conducive K AH0 N D UW1 S IH0 V
+conduct K AA1 N D AH0 K T
+conducted K AH0 N D AH1 K T AH0 D
+conducting K AH0 N D AH1 K T IH0 NG
+conductive K AH0 N D AH1 K T IH0 V
+conductor K AH0 N D AH1 K T ER0
+conducts K AH0 N D AH1 K T S
+conduit K AA1 N D UW0 IH0 T
+cone K OW1 N
+cones K OW1 N Z
+coney K OW1 N IY0
+confectionary K AH0 N F EH1 K SH AH0 N EH2 R IY0
+confederacy K AH0 N F EH1 D ER0 AH0 S IY0
+confederate K AH0 N F EH1 D ER0 AH0 T
+confederates K AH0 N F EH1 D ER0 AH0 T S
+confederation K AH0 N F EH2 D ER0 EY1 SH AH0 N
+confer K AH0 N F ER1
+conference K AA1 N F ER0 AH0 N S
+conferences K AA1 N F ER0 AH0 N S AH0 Z
+conferred K AH0 N F ER1 D
+conferring K AH0 N F ER1 IH0 NG
+confess K AH0 N F EH1 S
+confessed K AH0 N F EH1 S T
+confesses K AH0 N F EH1 S IH0 Z
+confessing K AH0 N F EH1 S IH0 NG
+confession K AH0 N F EH1 SH AH0 N
+confessional K AH0 N F EH1 SH AH0 N AH0 L
+confessions K AH0 N F EH1 SH AH0 N Z
+confetti K AH0 N F EH1 T IY0
+confidant K AA1 N F AH0 D AA2 N T
+confidante K AA1 N F AH0 D AE2 N T
+confide K AH0 N F AY1 D
+confided K AH0 N F AY1 D IH0 D
+confidence K AA1 N F AH0 D AH0 N S
+confident K AA1 N F AH0 D AH0 N T
+confidential K AA2 N F AH0 D EH1 N SH AH0 L
+confidentiality K AA2 N F AH0 D EH2 N SH IY0 AE1 L AH0 T IY0
+confidentially K AA2 N F AH0 D EH1 N SH AH0 L IY0
+configuration K AH0 N F IH2 G Y ER0 EY1 SH AH0 N
+confine K AH0 N F AY1 N
+confined K AH0 N F AY1 N D
+confinement K AH0 N F AY1 N M AH0 N T
+confines K AA1 N F AY2 N Z
+confining K AH0 N F AY1 N IH0 NG
+confirm K AH0 N F ER1 M
+confirmation K AA2 N F ER0 M EY1 SH AH0 N
+confirmed K AH0 N F ER1 M D
+confirming K AH0 N F ER1 M IH0 NG
+confirms K AH0 N F ER1 M Z
+confiscate K AA1 N F AH0 S K EY2 T
+confiscated K AA1 N F AH0 S K EY2 T AH0 D
+confiscating K AA1 N F AH0 S K EY2 T IH0 NG
+conflict K AA1 N F L IH0 K T
+conflicted K AH0 N F L IH1 K T IH0 D
+conflicting K AH0 N F L IH1 K T IH0 NG
+conflicts K AH0 N F L IH1 K T S
+conform K AH0 N F AO1 R M
+conformed K AH0 N F AO1 R M D
+conformity K AH0 N F AO1 R M AH0 T IY0
+confound K AA0 N F AW1 N D
+confounded K AH0 N F AW1 N D IH0 D
+confront K AH0 N F R AH1 N T
+confrontation K AA2 N F R AH0 N T EY1 SH AH0 N
+confrontational K AA2 N F R AH0 N T EY1 SH AH0 N AH0 L
+confronted K AH0 N F R AH1 N T AH0 D
+confronting K AH0 N F R AH1 N T IH0 NG
+confronts K AH0 N F R AH1 N T S
+confucius K AH0 N F Y UW1 SH AH0 S
+confuse K AH0 N F Y UW1 Z
+confused K AH0 N F Y UW1 Z D
+confuses K AH0 N F Y UW1 Z IH0 Z
+confusing K AH0 N F Y UW1 Z IH0 NG
+confusion K AH0 N F Y UW1 ZH AH0 N
+cong K AO1 NG
+conga K AO1 NG G AH0
+congeniality K AH0 N JH IY2 N IY0 AE1 L AH0 T IY0
+congenital K AH0 N JH EH1 N AH0 T AH0 L
+congested K AH0 N JH EH1 S T AH0 D
+congestion K AH0 N JH EH1 S CH AH0 N
+congestive K AH0 N JH EH1 S T IH0 V
+conglomerate K AH0 N G L AA1 M ER0 AH0 T
+congo K AA1 NG G OW0
+congrats K AH0 N G R AE1 T S
+congratulate K AH0 N G R AE1 CH AH0 L EY2 T
+congratulated K AH0 N G R AE1 CH AH0 L EY2 T IH0 D
+congratulating K AH0 N G R AE1 CH AH0 L EY2 T IH0 NG
+congratulation K AH0 N G R AE2 CH AH0 L EY1 SH AH0 N
+congratulations K AH0 N G R AE2 CH AH0 L EY1 SH AH0 N Z
+congregate K AA1 NG G R AH0 G EY2 T
+congregation K AA2 NG G R AH0 G EY1 SH AH0 N
+congress K AA1 NG G R AH0 S
+congressional K AH0 N G R EH1 SH AH0 N AH0 L
+congressman K AA1 NG G R AH0 S M AH0 N
+congressmen K AA1 NG G R AH0 S M IH0 N
+congresswoman K AA1 NG G R AH0 S W UH2 M AH0 N
+conjecture K AH0 N JH EH1 K CH ER0
+conjugal K AA1 N JH AH0 G AH0 L
+conjunction K AH0 N JH AH1 NG K SH AH0 N
+conjure K AA1 N JH ER0
+conjured K AA1 N JH ER0 D
+conjuring K AA1 N JH ER0 IH0 NG
+conk K AA1 NG K
+conn K AA1 N
+connect K AH0 N EH1 K T
+connected K AH0 N EH1 K T IH0 D
+connecticut K AH0 N EH1 T AH0 K AH0 T
+connecting K AH0 N EH1 K T IH0 NG
+connection K AH0 N EH1 K SH AH0 N
+connections K AH0 N EH1 K SH AH0 N Z
+connects K AH0 N EH1 K T S
+conned K AA1 N D
+conner K AA1 N ER0
+conners K AA1 N ER0 Z
+connie K AO1 N IY0
+conning K AA1 N IH0 NG
+conniving K AH0 N AY1 V IH0 NG
+connoisseur K AA2 N AH0 S ER1
+connotation K AA2 N AH0 T EY1 SH AH0 N
+conquer K AA1 NG K ER0
+conquered K AA1 NG K ER0 D
+conquering K AA1 NG K ER0 IH0 NG
+conqueror K AA1 NG K ER0 ER0
+conquerors K AA1 NG K ER0 ER0 Z
+conquers K AA1 NG K ER0 Z
+conquest K AA1 NG K W EH0 S T
+conquests K AA1 N K W EH2 S T S
+cons K AA1 N Z
+conscience K AA1 N SH AH0 N S
+conscientious K AA2 N SH IY0 EH1 N SH AH0 S
+conscious K AA1 N SH AH0 S
+consciously K AA1 N SH AH0 S L IY0
+consciousness K AA1 N SH AH0 S N AH0 S
+consecrated K AA1 N S AH0 K R EY2 T IH0 D
+consecutive K AH0 N S EH1 K Y AH0 T IH0 V
+consensual K AH0 N S EH1 N S UW0 AH0 L
+consensus K AH0 N S EH1 N S AH0 S
+consent K AH0 N S EH1 N T
+consented K AH0 N S EH1 N T IH0 D
+consenting K AH0 N S EH1 N T IH0 NG
+consequence K AA1 N S AH0 K W AH0 N S
+consequences K AA1 N S AH0 K W EH2 N S AH0 Z
+consequently K AA1 N S AH0 K W AH0 N T L IY0
+conservancy K AH0 N S ER1 V AH0 N S IY0
+conservation K AA2 N S ER0 V EY1 SH AH0 N
+conservative K AH0 N S ER1 V AH0 T IH0 V
+conservatory K AH0 N S ER1 V AH0 T AO0 R IY0
+conserve K AH0 N S ER1 V
+consider K AH0 N S IH1 D ER0
+considerable K AH0 N S IH1 D ER0 AH0 B AH0 L
+considerably K AH0 N S IH1 D ER0 AH0 B L IY0
+considerate K AH0 N S IH1 D ER0 AH0 T
+consideration K AH0 N S IH2 D ER0 EY1 SH AH0 N
+considerations K AH0 N S IH2 D ER0 EY1 SH AH0 N Z
+considered K AH0 N S IH1 D ER0 D
+considering K AH0 N S IH1 D ER0 IH0 NG
+considers K AH0 N S IH1 D ER0 Z
+consignment K AH0 N S AY1 N M AH0 N T
+consist K AH0 N S IH1 S T
+consisted K AH0 N S IH1 S T AH0 D
+consistency K AH0 N S IH1 S T AH0 N S IY0
+consistent K AH0 N S IH1 S T AH0 N T
+consistently K AH0 N S IH1 S T AH0 N T L IY0
+consisting K AH0 N S IH1 S T IH0 NG
+consists K AH0 N S IH1 S T S
+consolation K AA2 N S AH0 L EY1 SH AH0 N
+console K AA1 N S OW0 L
+consoled K AH0 N S OW1 L D
+consolidate K AH0 N S AA1 L IH0 D EY2 T
+consolidated K AH0 N S AA1 L AH0 D EY2 T AH0 D
+consoling K AH0 N S OW1 L IH0 NG
+consort K AH0 N S AO1 R T
+consorting K AH0 N S AO1 R T IH0 NG
+consortium K AH0 N S AO1 R SH IY0 AH0 M
+conspicuous K AH0 N S P IH1 K Y UW0 AH0 S
+conspiracies K AH0 N S P IH1 R AH0 S IY0 Z
+conspiracy K AH0 N S P IH1 R AH0 S IY0
+conspirators K AH0 N S P IH1 R AH0 T ER0 Z
+conspire K AH0 N S P AY1 ER0
+conspired K AH0 N S P AY1 ER0 D
+conspiring K AH0 N S P AY1 R IH0 NG
+constable K AA1 N S T AH0 B AH0 L
+constance K AA1 N S T AH0 N S
+constant K AA1 N S T AH0 N T
+constantinople K AA2 N S T AE0 N T AH0 N OW1 P AH0 L
+constantly K AA1 N S T AH0 N T L IY0
+constellation K AA2 N S T AH0 L EY1 SH AH0 N
+constellations K AA2 N S T AH0 L EY1 SH AH0 N Z
+constipated K AA1 N S T AH0 P EY2 T AH0 D
+constipation K AA2 N S T AH0 P EY1 SH AH0 N
+constituency K AH0 N S T IH1 CH UW0 AH0 N S IY0
+constituents K AH0 N S T IH1 CH UW0 AH0 N T S
+constitute K AA1 N S T AH0 T UW2 T
+constituted K AA1 N S T AH0 T UW2 T AH0 D
+constitutes K AA1 N S T AH0 T UW2 T S
+constitution K AA2 N S T AH0 T UW1 SH AH0 N
+constitutional K AA2 N S T AH0 T UW1 SH AH0 N AH0 L
+constraints K AH0 N S T R EY1 N T S
+construct K AH0 N S T R AH1 K T
+constructed K AH0 N S T R AH1 K T AH0 D
+constructing K AH0 N S T R AH1 K T IH0 NG
+construction K AH0 N S T R AH1 K SH AH0 N
+constructive K AH0 N S T R AH1 K T IH0 V
+construe K AH0 N S T R UW1
+construed K AH0 N S T R UW1 D
+consul K AA1 N S AH0 L
+consular K AA1 N S AH0 L ER0
+consulate K AA1 N S AH0 L AH0 T
+consult K AH0 N S AH1 L T
+consultant K AH0 N S AH1 L T AH0 N T
+consultants K AH0 N S AH1 L T AH0 N T S
+consultation K AA2 N S AH0 L T EY1 SH AH0 N
+consulted K AH0 N S AH1 L T AH0 D
+consulting K AH0 N S AH1 L T IH0 NG
+consults K AH0 N S AH1 L T S
+consume K AH0 N S UW1 M
+consumed K AH0 N S UW1 M D
+consumer K AH0 N S UW1 M ER0
+consumers K AH0 N S UW1 M ER0 Z
+consumes K AH0 N S UW1 M Z
+consuming K AH0 N S UW1 M IH0 NG
+consummate K AA1 N S AH0 M AH0 T
+consummated K AA1 N S AH0 M EY2 T AH0 D
+consumption K AH0 N S AH1 M P SH AH0 N
+contact K AA1 N T AE2 K T
+contacted K AA1 N T AE2 K T IH0 D
+contacting K AA1 N T AE2 K T IH0 NG
+contacts K AA1 N T AE2 K T S
+contagion K AH0 N T EY1 JH AH0 N
+contagious K AH0 N T EY1 JH AH0 S
+contain K AH0 N T EY1 N
+contained K AH0 N T EY1 N D
+container K AH0 N T EY1 N ER0
+containers K AH0 N T EY1 N ER0 Z
+containing K AH0 N T EY1 N IH0 NG
+containment K AH0 N T EY1 N M AH0 N T
+contains K AH0 N T EY1 N Z
+contaminate K AH0 N T AE1 M AH0 N EY2 T
+contaminated K AH0 N T AE1 M AH0 N EY2 T IH0 D
+contaminating K AH0 N T AE1 M AH0 N EY2 T IH0 NG
+contamination K AH0 N T AE2 M AH0 N EY1 SH AH0 N
+contemplate K AA1 N T AH0 M P L EY2 T
+contemplated K AA1 N T AH0 M P L EY2 T IH0 D
+contemplating K AA1 N T AH0 M P L EY2 T IH0 NG
+contemporaries K AH0 N T EH1 M P ER0 EH2 R IY0 Z
+contemporary K AH0 N T EH1 M P ER0 EH2 R IY0
+contempt K AH0 N T EH1 M P T
+contemptible K AH0 N T EH1 M P T AH0 B AH0 L
+contend K AH0 N T EH1 N D
+contender K AH0 N T EH1 N D ER0
+contenders K AH0 N T EH1 N D ER0 Z
+content K AA1 N T EH0 N T
+contented K AH0 N T EH1 N T AH0 D
+contention K AH0 N T EH1 N SH AH0 N
+contentment K AH0 N T EH1 N T M AH0 N T
+contents K AA1 N T EH0 N T S
+contest K AA1 N T EH0 S T
+contestant K AH0 N T EH1 S T AH0 N T
+contestants K AH0 N T EH1 S T AH0 N T S
+contesting K AH0 N T EH1 S T IH0 NG
+contests K AA1 N T EH0 S T S
+context K AA1 N T EH0 K S T
+continent K AA1 N T AH0 N AH0 N T
+continental K AA2 N T AH0 N EH1 N T AH0 L
+continents K AA1 N T AH0 N AH0 N T S
+contingencies K AH0 N T IH1 N JH AH0 N S IY0 Z
+contingency K AH0 N T IH1 N JH AH0 N S IY0
+contingent K AH0 N T IH1 N JH AH0 N T
+continual K AH0 N T IH1 N Y UW0 AH0 L
+continually K AH0 N T IH1 N Y UW0 AH0 L IY0
+continuance K AH0 N T IH1 N Y UW0 AH0 N S
+continuation K AH0 N T IH2 N Y UW0 EY1 SH AH0 N
+continue K AH0 N T IH1 N Y UW0
+continued K AH0 N T IH1 N Y UW0 D
+continues K AH0 N T IH1 N Y UW0 Z
+continuing K AH0 N T IH1 N Y UW0 IH0 NG
+continuity K AA2 N T AH0 N UW1 AH0 T IY0
+continuous K AH0 N T IH1 N Y UW0 AH0 S
+continuously K AH0 N T IH1 N Y UW0 AH0 S L IY0
+continuum K AH0 N T IH1 N Y UW0 AH0 M
+contour K AA1 N T UH2 R
+contours K AA1 N T UH2 R Z
+contraband K AA1 N T R AH0 B AE2 N D
+contraception K AA2 N T R AH0 S EH1 P SH AH0 N
+contraceptive K AA2 N T R AH0 S EH1 P T IH0 V
+contraceptives K AA2 N T R AH0 S EH1 P T IH0 V Z
+contract K AA1 N T R AE2 K T
+contracted K AA1 N T R AE0 K T AH0 D
+contracting K AA1 N T R AE0 K T IH0 NG
+contraction K AH0 N T R AE1 K SH AH0 N
+contractions K AH0 N T R AE1 K SH AH0 N Z
+contractor K AA1 N T R AE2 K T ER0
+contractors K AA1 N T R AE2 K T ER0 Z
+contracts K AA1 N T R AE2 K T S
+contradict K AA2 N T R AH0 D IH1 K T
+contradicting K AA2 N T R AH0 D IH1 K T IH0 NG
+contradiction K AA2 N T R AH0 D IH1 K SH AH0 N
+contradictions K AA2 N T R AH0 D IH1 K SH AH0 N Z
+contradictory K AA2 N T R AH0 D IH1 K T ER0 IY0
+contradicts K AA2 N T R AH0 D IH1 K T S
+contraption K AH0 N T R AE1 P SH AH0 N
+contraptions K AH0 N T R AE1 P SH AH0 N Z
+contrary K AA1 N T R EH0 R IY0
+contrast K AA1 N T R AE0 S T
+contribute K AH0 N T R IH1 B Y UW0 T
+contributed K AH0 N T R IH1 B Y UW0 T IH0 D
+contributes K AH0 N T R IH1 B Y UW0 T S
+contributing K AH0 N T R IH1 B Y UW0 T IH0 NG
+contribution K AA2 N T R AH0 B Y UW1 SH AH0 N
+contributions K AA2 N T R AH0 B Y UW1 SH AH0 N Z
+contributor K AH0 N T R IH1 B Y AH0 T ER0
+contributors K AH0 N T R IH1 B Y AH0 T ER0 Z
+contrition K AH0 N T R IH1 SH AH0 N
+contrived K AH0 N T R AY1 V D
+control K AH0 N T R OW1 L
+controlled K AH0 N T R OW1 L D
+controller K AH0 N T R OW1 L ER0
+controllers K AH0 N T R OW1 L ER0 Z
+controlling K AH0 N T R OW1 L IH0 NG
+controls K AH0 N T R OW1 L Z
+controversial K AA2 N T R AH0 V ER1 SH AH0 L
+controversy K AA1 N T R AH0 V ER2 S IY0
+contusion K AH0 N T UW1 ZH AH0 N
+contusions K AH0 N T UW1 ZH AH0 N Z
+conundrum K AH0 N AH1 N D R AH0 M
+convalescent K AA2 N V AH0 L EH1 S AH0 N T
+convene K AH0 N V IY1 N
+convened K AH0 N V IY1 N D
+convenience K AH0 N V IY1 N Y AH0 N S
+conveniences K AH0 N V IY1 N Y AH0 N S IH0 Z
+convenient K AH0 N V IY1 N Y AH0 N T
+conveniently K AH0 N V IY1 N Y AH0 N T L IY0
+convent K AA1 N V AH0 N T
+convention K AH0 N V EH1 N SH AH0 N
+conventional K AH0 N V EH1 N SH AH0 N AH0 L
+conventions K AH0 N V EH1 N SH AH0 N Z
+converge K AH0 N V ER1 JH
+converging K AH0 N V ER1 JH IH0 NG
+conversation K AA2 N V ER0 S EY1 SH AH0 N
+conversational K AA2 N V ER0 S EY1 SH AH0 N AH0 L
+conversationalist K AA2 N V ER0 S EY1 SH AH0 N AH0 L AH0 S T
+conversations K AA2 N V ER0 S EY1 SH AH0 N Z
+converse K AA1 N V ER0 S
+conversing K AH0 N V ER1 S IH0 NG
+conversion K AH0 N V ER1 ZH AH0 N
+convert K AA1 N V ER0 T
+converted K AH0 N V ER1 T IH0 D
+convertible K AH0 N V ER1 T AH0 B AH0 L
+convertibles K AH0 N V ER1 T AH0 B AH0 L Z
+converting K AH0 N V ER1 T IH0 NG
+converts K AA1 N V ER0 T S
+convey K AH0 N V EY1
+conveyed K AH0 N V EY1 D
+conveyor K AH0 N V EY1 ER0
+convict K AA1 N V IH0 K T
+convicted K AH0 N V IH1 K T AH0 D
+convicting K AH0 N V IH1 K T IH0 NG
+conviction K AH0 N V IH1 K SH AH0 N
+convictions K AH0 N V IH1 K SH AH0 N Z
+convicts K AA1 N V IH0 K T S
+convince K AH0 N V IH1 N S
+convinced K AH0 N V IH1 N S T
+convinces K AH0 N V IH1 N S IH0 Z
+convincing K AH0 N V IH1 N S IH0 NG
+convoluted K AA1 N V AH0 L UW2 T AH0 D
+convoy K AA1 N V OY2
+convulsions K AH0 N V AH1 L SH AH0 N Z
+coo K UW1
+cooing K UW1 IH0 NG
+cook K UH1 K
+cookbook K UH1 K B UH2 K
+cooked K UH1 K T
+cooker K UH1 K ER0
+cookie K UH1 K IY0
+cookies K UH1 K IY0 Z
+cooking K UH1 K IH0 NG
+cookout K UH1 K AW2 T
+cooks K UH1 K S
+cool K UW1 L
+coolant K UW1 L AH0 N T
+cooled K UW1 L D
+cooler K UW1 L ER0
+coolers K UW1 L ER0 Z
+coolest K UW1 L AH0 S T
+cooley K UW1 L IY0
+coolidge K UW1 L IH0 JH
+cooling K UW1 L IH0 NG
+coolness K UW1 L N AH0 S
+cools K UW1 L Z
+coombe K UW1 M B
+coombs K UW1 M Z
+coon K UW1 N
+coons K UW1 N Z
+coop K UW1 P
+cooped K UW1 P T
+cooper K UW1 P ER0
+cooperate K OW0 AA1 P ER0 EY2 T
+cooperated K OW0 AA1 P ER0 EY2 T AH0 D
+cooperates K OW0 AA1 P ER0 EY2 T S
+cooperating K OW0 AA1 P ER0 EY2 T IH0 NG
+cooperation K OW0 AA2 P ER0 EY1 SH AH0 N
+cooperative K OW0 AA1 P ER0 EY2 T IH0 V
+coopers K UW1 P ER0 Z
+coordinate K OW0 AO1 R D AH0 N AH0 T
+coordinated K OW0 AO1 R D AH0 N EY0 T IH0 D
+coordinates K OW0 AO1 R D AH0 N AH0 T S
+coordinating K OW0 AO1 R D AH0 N EY2 T IH0 NG
+coordination K OW0 AO2 R D AH0 N EY1 SH AH0 N
+coordinator K OW0 AO1 R D AH0 N EY2 T ER0
+coot K UW1 T
+cooter K UW1 T ER0
+cop K AA1 P
+copa K OW1 P AH0
+cope K OW1 P
+copenhagen K OW1 P AH0 N HH EY2 G AH0 N
+copernicus K AH0 P ER1 N AH0 K AH0 S
+copied K AA1 P IY0 D
+copier K AA1 P IY0 ER0
+copies K AA1 P IY0 Z
+copilot K OW1 P AY0 L AH0 T
+coping K OW1 P IH0 NG
+copped K AA1 P T
+copper K AA1 P ER0
+coppers K AA1 P ER0 Z
+copping K AA1 P IH0 NG
+cops K AA1 P S
+copy K AA1 P IY0
+copycat K AA1 P IY0 K AE2 T
+copying K AA1 P IY0 IH0 NG
+copyright K AA1 P IY0 R AY2 T
+cor K AO1 R
+cora K AO1 R AH0
+coral K AO1 R AH0 L
+cord K AO1 R D
+cordial K AO1 R JH AH0 L
+cordially K AO1 R JH AH0 L IY0
+cordless K AO1 R D L AH0 S
+cordoba K AO2 R D OW1 B AH0
+cordon K AO1 R D AH0 N
+cordoned K AO1 R D AH0 N D
+cords K AO1 R D Z
+corduroy K AO1 R D ER0 OY2
+cordy K AO1 R D IY0
+core K AO1 R
+cores K AO1 R Z
+corinne K ER0 IY1 N
+corinth K AO1 R AH0 N TH
+corinthians K ER0 IH1 N TH IY0 AH0 N Z
+cork K AO1 R K
+corkscrew K AO1 R K S K R UW2
+corky K AO1 R K IY0
+corn K AO1 R N
+cornbread K AO1 R N B R EH2 D
+cornea K AO1 R N IY0 AH0
+cornell K AO0 R N EH1 L
+corner K AO1 R N ER0
+cornered K AO1 R N ER0 D
+corners K AO1 R N ER0 Z
+cornerstone K AO1 R N ER0 S T OW2 N
+cornfield K AO1 R N F IY2 L D
+cornish K AO1 R N IH0 SH
+corns K AO1 R N Z
+cornucopia K AO2 R N AH0 K OW1 P IY0 AH0
+cornwall K AO1 R N W AO0 L
+cornwallis K AO0 R N W AO1 L AH0 S
+corny K AO1 R N IY0
+corona K ER0 OW1 N AH0
+coronado K ER0 OW0 N AA1 D OW0
+coronary K AO1 R AH0 N EH2 R IY0
+coronation K AO2 R AH0 N EY1 SH AH0 N
+coroner K AO1 R AH0 N ER0
+corp K AO1 R P
+corporal K AO1 R P ER0 AH0 L
+corporate K AO1 R P ER0 AH0 T
+corporation K AO2 R P ER0 EY1 SH AH0 N
+corporations K AO2 R P ER0 EY1 SH AH0 N Z
+corps K AO1 R
+corpse K AO1 R P S
+corpses K AO1 R P S AH0 Z
+corpsman K AO1 R M AH0 N
+corpus K AO1 R P AH0 S
+corral K ER0 AE1 L
+correct K ER0 EH1 K T
+corrected K ER0 EH1 K T AH0 D
+correcting K ER0 EH1 K T IH0 NG
+correction K ER0 EH1 K SH AH0 N
+correctional K ER0 EH1 K SH AH0 N AH0 L
+corrections K ER0 EH1 K SH AH0 N Z
+corrective K ER0 EH1 K T IH0 V
+correctly K ER0 EH1 K T L IY0
+correlate K AO1 R AH0 L EY2 T
+correlation K AO2 R AH0 L EY1 SH AH0 N
+correspond K AO2 R AH0 S P AA1 N D
+correspondence K AO2 R AH0 S P AA1 N D AH0 N S
+correspondent K AO2 R AH0 S P AA1 N D AH0 N T
+correspondents K AO2 R AH0 S P AA1 N D AH0 N T S
+corresponding K AO2 R AH0 S P AA1 N D IH0 NG
+corresponds K AO2 R AH0 S P AA1 N D Z
+corridor K AO1 R AH0 D ER0
+corridors K AO1 R IH0 D ER0 Z
+corrie K AO1 R IY0
+corroborate K ER0 AA1 B ER0 EY2 T
+corroborated K ER0 AA1 B ER0 EY2 T IH0 D
+corroborating K ER0 AA1 B ER0 EY2 T IH0 NG
+corroboration K ER0 AO2 B ER0 EY1 SH AH0 N
+corroded K ER0 OW1 D IH0 D
+corrosive K ER0 OW1 S IH0 V
+corrupt K ER0 AH1 P T
+corrupted K ER0 AH1 P T IH0 D
+corrupting K ER0 AH1 P T IH0 NG
+corruption K ER0 AH1 P SH AH0 N
+corrupts K ER0 AH1 P T S
+corsage K AO0 R S AA1 ZH
+corset K AO1 R S AH0 T
+corso K AO1 R S OW0
+cort K AO1 R T
+cortex K AO1 R T EH0 K S
+cortez K AO0 R T EH1 Z
+cortina K ER0 T IY1 N AH0
+cortisone K AO1 R T AH0 Z OW2 N
+corvette K AO0 R V EH1 T
+cos K AO1 S
+cosmetic K AA0 Z M EH1 T IH0 K
+cosmetics K AA0 Z M EH1 T IH0 K S
+cosmic K AA1 Z M IH0 K
+cosmo K AO1 Z M OW0
+cosmopolitan K AA2 Z M AH0 P AA1 L AH0 T AH0 N
+cosmos K AA1 Z M OW0 S
+cossack K AO1 S AH0 K
+cossacks K AA1 S AE0 K S
+cost K AA1 S T
+costa K AO1 S T AA0
+costar K OW1 S T AA0 R
+costing K AO1 S T IH0 NG
+costly K AA1 S T L IY0
+costs K AA1 S T S
+costume K AA0 S T UW1 M
+costumes K AA0 S T UW1 M Z
+cosy K OW1 Z IY0
+cot K AA1 T
+cots K AA1 T S
+cottage K AA1 T AH0 JH
+cottages K AA1 T IH0 JH IH0 Z
+cotter K AA1 T ER0
+cotton K AA1 T AH0 N
+cottonwood K AA1 T AH0 N W UH2 D
+couch K AW1 CH
+couches K AW1 CH IH0 Z
+cougar K UW1 G ER0
+cougars K UW1 G ER0 Z
+cough K AA1 F
+coughed K AO1 F T
+coughing K AA1 F IH0 NG
+coughs K AO1 F S
+could K UH1 D
+couldn't K UH1 D AH0 N T
+coulter K OW1 L T ER0
+council K AW1 N S AH0 L
+councilman K AW1 N S AH0 L M AH0 N
+counsel K AW1 N S AH0 L
+counseled K AW1 N S AH0 L D
+counseling K AW1 N S AH0 L IH0 NG
+counsellor K AW1 N S AH0 L ER0
+counsellors K AW1 N S AH0 L ER0 Z
+counselor K AW1 N S AH0 L ER0
+counselors K AW1 N S AH0 L ER0 Z
+count K AW1 N T
+countdown K AW1 N T D AW2 N
+counted K AW1 N T IH0 D
+countenance K AW1 N T AH0 N AH0 N S
+counter K AW1 N T ER0
+counteract K AW1 N T ER0 AE2 K T
+counterattack K AW1 N T ER0 AH0 T AE2 K
+counterclockwise K AW2 N T ER0 K L AO1 K W AY0 Z
+counterfeit K AW1 N T ER0 F IH2 T
+counterfeiting K AW1 N T ER0 F IH2 T IH0 NG
+counterintelligence K AW2 N T ER0 IH0 N T EH1 L IH0 JH AH0 N S
+countermeasures K AW1 N T ER0 M EH2 ZH ER0 Z
+counteroffer K AW1 N T ER0 AO2 F ER0
+counterpart K AW1 N T ER0 P AA2 R T
+counterparts K AW1 N T ER0 P AA2 R T S
+counterpoint K AW1 N T ER0 P OY2 N T
+counterproductive K AW1 N T ER0 P R AH0 D AH2 K T IH0 V
+counters K AW1 N T ER0 Z
+countess K AW1 N T AH0 S
+counties K AW1 N T IY0 Z
+counting K AW1 N T IH0 NG
+countless K AW1 N T L AH0 S
+countries K AH1 N T R IY0 Z
+country K AH1 N T R IY0
+countrymen K AH1 N T R IY0 M IH0 N
+countryside K AH1 N T R IY0 S AY2 D
+counts K AW1 N T S
+county K AW1 N T IY0
+coup K UW1
+coupe K UW1 P
+couple K AH1 P AH0 L
+coupled K AH1 P AH0 L D
+couples K AH1 P AH0 L Z
+coupling K AH1 P L IH0 NG
+coupon K UW1 P AO2 N
+coupons K UW1 P AO2 N Z
+courage K ER1 AH0 JH
+courageous K ER0 EY1 JH AH0 S
+courier K ER1 IY0 ER0
+couriers K ER1 IY0 ER0 Z
+course K AO1 R S
+courses K AO1 R S AH0 Z
+coursing K AO1 R S IH0 NG
+court K AO1 R T
+courted K AO1 R T IH0 D
+courteous K ER1 T IY0 AH0 S
+courtesy K ER1 T AH0 S IY0
+courthouse K AO1 R T HH AW2 S
+courting K AO1 R T IH0 NG
+courtroom K AO1 R T R UW2 M
+courts K AO1 R T S
+courtship K AO1 R CH IH2 P
+courtyard K AO1 R T Y AA2 R D
+cousin K AH1 Z AH0 N
+cousins K AH1 Z AH0 N Z
+couture K UW0 T UH1 R
+cove K OW1 V
+coven K AH1 V AH0 N
+covenant K AH1 V AH0 N AH0 N T
+coventry K AH1 V AH0 N T R IY0
+cover K AH1 V ER0
+coverage K AH1 V ER0 AH0 JH
+covered K AH1 V ER0 D
+covering K AH1 V ER0 IH0 NG
+covers K AH1 V ER0 Z
+covert K OW1 V ER0 T
+covertly K OW0 V ER1 T L IY0
+covet K AH1 V AH0 T
+coveted K AH1 V AH0 T IH0 D
+covey K AH1 V IY0
+cow K AW1
+coward K AW1 ER0 D
+cowardice K AW1 ER0 D AH0 S
+cowardly K AW1 ER0 D L IY0
+cowards K AW1 ER0 D Z
+cowboy K AW1 B OY2
+cowboys K AW1 B OY2 Z
+cower K AW1 ER0
+cowering K AW1 ER0 IH0 NG
+cowgirl K AW1 G ER2 L
+cowgirls K AW1 G ER2 L Z
+coworker K OW1 W ER1 K ER0
+coworkers K OW1 W ER1 K ER0 Z
+cows K AW1 Z
+cox K AA1 K S
+coy K OY1
+coyote K AY0 OW1 T IY0
+coyotes K AY0 OW1 T IY0 S
+coz K AA1 Z
+cozy K OW1 Z IY0
+cpu S IY2 P IY2 Y UW1
+crab K R AE1 B
+crabby K R AE1 B IY0
+crabs K R AE1 B Z
+crack K R AE1 K
+cracked K R AE1 K T
+cracker K R AE1 K ER0
+crackerjack K R AE1 K ER0 JH AE2 K
+crackers K R AE1 K ER0 Z
+crackhead K R AE1 K HH EH2 D
+crackheads K R AE1 K HH EH2 D Z
+cracking K R AE1 K IH0 NG
+crackle K R AE1 K AH0 L
+crackles K R AE1 K AH0 L Z
+crackling K R AE1 K L IH0 NG
+crackpot K R AE1 K P AA2 T
+cracks K R AE1 K S
+cradle K R EY1 D AH0 L
+craft K R AE1 F T
+crafted K R AE1 F T IH0 D
+crafting K R AE1 F T IH0 NG
+crafts K R AE1 F T S
+craftsman K R AE1 F T S M AH0 N
+craftsmanship K R AE1 F T S M AH0 N SH IH2 P
+craftsmen K R AE1 F T S M EH0 N
+crafty K R AE1 F T IY0
+crag K R AE1 G
+craig K R EY1 G
+crain K R EY1 N
+cram K R AE1 M
+crammed K R AE1 M D
+cramming K R AE1 M IH0 NG
+cramp K R AE1 M P
+cramped K R AE1 M P T
+cramping K R AE1 M P IH0 NG
+cramps K R AE1 M P S
+cranberries K R AE1 N B EH2 R IY0 Z
+cranberry K R AE1 N B EH2 R IY0
+crandall K R AE1 N D AH0 L
+crane K R EY1 N
+cranes K R EY1 N Z
+cranial K R EY1 N Y AH0 L
+cranium K R EY1 N IY2 AH0 M
+crank K R AE1 NG K
+cranked K R AE1 NG K T
+cranking K R AE1 NG K IH0 NG
+cranky K R AE1 NG K IY0
+cranny K R AE1 N IY0
+crap K R AE1 P
+crappy K R AE1 P IY2
+craps K R AE1 P S
+crash K R AE1 SH
+crashed K R AE1 SH T
+crashes K R AE1 SH IH0 Z
+crashing K R AE1 SH IH0 NG
+crass K R AE1 S
+crate K R EY1 T
+crater K R EY1 T ER0
+craters K R EY1 T ER0 Z
+crates K R EY1 T S
+crave K R EY1 V
+craved K R EY1 V D
+craven K R EY1 V AH0 N
+craves K R EY1 V Z
+craving K R EY1 V IH0 NG
+cravings K R EY1 V IH0 NG Z
+craw K R AO1
+crawfish K R AO1 F IH2 SH
+crawl K R AO1 L
+crawled K R AO1 L D
+crawler K R AO1 L ER0
+crawley K R AO1 L IY0
+crawling K R AO1 L IH0 NG
+crawls K R AO1 L Z
+cray K R EY1
+crayon K R EY1 AA2 N
+crayons K R EY1 AA2 N Z
+craze K R EY1 Z
+crazed K R EY1 Z D
+crazier K R EY1 Z IY0 ER0
+crazies K R EY1 Z IY0 Z
+craziest K R EY1 Z IY0 AH0 S T
+craziness K R EY1 Z IY0 N AH0 S
+crazy K R EY1 Z IY0
+creak K R IY1 K
+creaking K R IY1 K IH0 NG
+cream K R IY1 M
+creamed K R IY1 M D
+creamer K R IY1 M ER0
+creams K R IY1 M Z
+creamy K R IY1 M IY0
+crease K R IY1 S
+creases K R IY1 S IH0 Z
+creasy K R IY1 S IY0
+create K R IY0 EY1 T
+created K R IY0 EY1 T AH0 D
+creates K R IY0 EY1 T S
+creating K R IY0 EY1 T IH0 NG
+creation K R IY0 EY1 SH AH0 N
+creationism K R IY0 EY1 SH AH0 N IH2 Z AH0 M
+creations K R IY0 EY1 SH AH0 N Z
+creative K R IY0 EY1 T IH0 V
+creatively K R IY0 EY1 T IH0 V L IY0
+creativity K R IY2 EY0 T IH1 V AH0 T IY0
+creator K R IY0 EY1 T ER0
+creators K R IY0 EY1 T ER0 Z
+creature K R IY1 CH ER0
+creatures K R IY1 CH ER0 Z
+credence K R IY1 D AH0 N S
+credentials K R AH0 D EH1 N SH AH0 L Z
+credibility K R EH2 D AH0 B IH1 L IH0 T IY0
+credible K R EH1 D AH0 B AH0 L
+credit K R EH1 D AH0 T
+credited K R EH1 D AH0 T AH0 D
+creditors K R EH1 D IH0 T ER0 Z
+credits K R EH1 D IH0 T S
+credo K R EY1 D OW0
+creed K R IY1 D
+creek K R IY1 K
+creep K R IY1 P
+creeping K R IY1 P IH0 NG
+creeps K R IY1 P S
+creepy K R IY1 P IY0
+cremate K R IY1 M EY0 T
+cremated K R IY1 M EY0 T IH0 D
+cremation K R IY0 M EY1 SH AH0 N
+crematorium K R IY0 M AH0 T AO1 R IY0 AH0 M
+creme K R IY1 M
+creole K R IY1 OW0 L
+crepe K R EY1 P
+crepes K R EY1 P S
+crept K R EH1 P T
+crescendo K R IH0 SH EH1 N D OW0
+crescent K R EH1 S AH0 N T
+crest K R EH1 S T
+crete K R IY1 T
+cretin K R IY1 T AH0 N
+crevice K R EH1 V AH0 S
+crew K R UW1
+crewe K R UW1
+crewman K R UW1 M AH0 N
+crewmen K R UW1 M IH0 N
+crews K R UW1 Z
+crib K R IH1 B
+cribbage K R IH1 B IH0 JH
+cribs K R IH1 B Z
+crick K R IH1 K
+cricket K R IH1 K AH0 T
+crickets K R IH1 K AH0 T S
+cried K R AY1 D
+crier K R AY1 ER0
+cries K R AY1 Z
+crime K R AY1 M
+crimes K R AY1 M Z
+criminal K R IH1 M AH0 N AH0 L
+criminally K R IH1 M AH0 N AH0 L IY0
+criminals K R IH1 M AH0 N AH0 L Z
+criminology K R IH2 M IH0 N AA1 L AH0 JH IY0
+crimp K R IH1 M P
+crimson K R IH1 M Z AH0 N
+cringe K R IH1 N JH
+crip K R IH1 P
+cripple K R IH1 P AH0 L
+crippled K R IH1 P AH0 L D
+cripples K R IH1 P AH0 L Z
+crippling K R IH1 P AH0 L IH0 NG
+crips K R IH1 P S
+cris K R IH1 S
+crises K R AY1 S IY0 Z
+crisis K R AY1 S AH0 S
+crisp K R IH1 S P
+crispin K R IH1 S P IH0 N
+crisps K R IH1 S P S
+crispy K R IH1 S P IY0
+criteria K R AY0 T IH1 R IY0 AH0
+critic K R IH1 T IH0 K
+critical K R IH1 T IH0 K AH0 L
+critically K R IH1 T IH0 K AH0 L IY0
+criticism K R IH1 T IH0 S IH2 Z AH0 M
+criticisms K R IH1 T IH0 S IH2 Z AH0 M Z
+criticize K R IH1 T IH0 S AY2 Z
+criticized K R IH1 T AH0 S AY2 Z D
+criticizes K R IH1 T IH0 S AY2 Z IH0 Z
+criticizing K R IH1 T IH0 S AY2 Z IH0 NG
+critics K R IH1 T IH0 K S
+critique K R AH0 T IY1 K
+critter K R IH1 T ER0
+critters K R IH1 T ER0 Z
+croak K R OW1 K
+croaker K R OW1 K ER0
+croc K R AA1 K
+crock K R AA1 K
+crocker K R AA1 K ER0
+crocodile K R AA1 K AH0 D AY2 L
+crocodiles K R AA1 K AH0 D AY2 L Z
+croft K R AO1 F T
+croissant K W AA2 S AA1 N T
+croissants K W AA2 S AA1 N T S
+cromwell K R AA1 M W AH0 L
+crone K R OW1 N
+cronies K R OW1 N IY0 Z
+crook K R UH1 K
+crooked K R UH1 K AH0 D
+crooks K R UH1 K S
+crooner K R UW1 N ER0
+crop K R AA1 P
+cropped K R AA1 P T
+cropper K R AA1 P ER0
+crops K R AA1 P S
+croquet K R OW0 K EY1
+crosby K R AO1 Z B IY0
+cross K R AO1 S
+crossbow K R AO1 S B OW2
+crossed K R AO1 S T
+crosses K R AO1 S IH0 Z
+crossfire K R AO1 S F AY0 R
+crossing K R AO1 S IH0 NG
+crossover K R AO1 S OW2 V ER0
+crossroads K R AO1 S R OW2 D Z
+crosstown K R AO1 S T AW2 N
+crosswalk K R AA1 S W AA2 K
+crossword K R AO1 S W ER2 D
+crosswords K R AO1 S W ER2 D Z
+crotch K R AA1 CH
+crotchety K R AA1 CH AH0 T IY0
+crouch K R AW1 CH
+crouching K R AW1 CH IH0 NG
+croup K R UW1 P
+crow K R OW1
+crowbar K R OW1 B AA2 R
+crowd K R AW1 D
+crowded K R AW1 D AH0 D
+crowding K R AW1 D IH0 NG
+crowds K R AW1 D Z
+crowing K R OW1 IH0 NG
+crown K R AW1 N
+crowned K R AW1 N D
+crowning K R AW1 N IH0 NG
+crowns K R AW1 N Z
+crows K R OW1 Z
+crucial K R UW1 SH AH0 L
+crucified K R UW1 S AH0 F AY2 D
+crucifix K R UW1 S AH0 F IH2 K S
+crucifixes K R UW1 S AH0 F IH2 K S IH0 Z
+crucifixion K R UW2 S IH0 F IH1 K SH AH0 N
+crucify K R UW1 S AH0 F AY2
+crud K R AH1 D
+cruddy K R AH1 D IY0
+crude K R UW1 D
+cruel K R UW1 AH0 L
+cruelest K R UW1 L AH0 S T
+cruelly K R UW1 L IY0
+cruelty K R UW1 L T IY0
+cruise K R UW1 Z
+cruiser K R UW1 Z ER0
+cruisers K R UW1 Z ER0 Z
+cruises K R UW1 Z IH0 Z
+cruising K R UW1 Z IH0 NG
+crumb K R AH1 M
+crumble K R AH1 M B AH0 L
+crumbled K R AH1 M B AH0 L D
+crumbles K R AH1 M B AH0 L Z
+crumbling K R AH1 M B AH0 L IH0 NG
+crumbs K R AH1 M Z
+crummy K R AH1 M IY0
+crumpled K R AH1 M P AH0 L D
+crunch K R AH1 N CH
+crunching K R AH1 N CH IH0 NG
+crunchy K R AH1 N CH IY0
+crusade K R UW0 S EY1 D
+crusader K R UW0 S EY1 D ER0
+crusaders K R UW0 S EY1 D ER0 Z
+crusades K R UW0 S EY1 D Z
+crush K R AH1 SH
+crushed K R AH1 SH T
+crusher K R AH1 SH ER0
+crushes K R AH1 SH IH0 Z
+crushing K R AH1 SH IH0 NG
+crust K R AH1 S T
+crusts K R AH1 S T S
+crusty K R AH1 S T IY0
+crutch K R AH1 CH
+crutches K R AH1 CH IH0 Z
+crux K R AH1 K S
+cry K R AY1
+crybaby K R AY1 B EY1 B IY0
+crying K R AY1 IH0 NG
+cryogenic K R AY1 AH0 JH EH2 N IH0 K
+cryonics K R AY2 AO1 N IH0 K S
+crypt K R IH1 P T
+cryptic K R IH1 P T IH0 K
+crystal K R IH1 S T AH0 L
+crystalline K R IH1 S T AH0 L AY2 N
+crystallized K R IH1 S T AH0 L AY2 Z D
+crystals K R IH1 S T AH0 L Z
+csi S IY1 EH2 S AY1
+ct K AO1 R T
+cub K AH1 B
+cuba K Y UW1 B AH0
+cuban K Y UW1 B AH0 N
+cubans K Y UW1 B AH0 N Z
+cube K Y UW1 B
+cubes K Y UW1 B Z
+cubic K Y UW1 B IH0 K
+cubicle K Y UW1 B IH0 K AH0 L
+cubicles K Y UW1 B IH0 K AH0 L Z
+cubs K AH1 B Z
+cuckoo K AH1 K UW2
+cucumber K Y UW1 K AH0 M B ER0
+cucumbers K Y UW1 K AH0 M B ER0 Z
+cuddle K AH1 D AH0 L
+cuddling K AH1 D L IH0 NG
+cuddly K AH1 D L IY0
+cuddy K AH1 D IY0
+cue K Y UW1
+cues K Y UW1 Z
+cuff K AH1 F
+cuffed K AH1 F T
+cuffs K AH1 F S
+cuidado K W IY0 D AE1 D OW0
+cuisine K W IH0 Z IY1 N
+culinary K Y UW1 L IH0 N EH2 R IY0
+cully K AH1 L IY0
+culmination K AH2 L M AH0 N EY1 SH AH0 N
+culp K AH1 L P
+culpa K AH1 L P AH0
+culprit K AH1 L P R IH0 T
+culprits K AH1 L P R IH0 T S
+cult K AH1 L T
+cultivate K AH1 L T AH0 V EY2 T
+cultivated K AH1 L T AH0 V EY2 T IH0 D
+cultivating K AH1 L T IH0 V EY2 T IH0 NG
+cults K AH1 L T S
+cultural K AH1 L CH ER0 AH0 L
+culturally K AH1 L CH ER0 AH0 L IY2
+culture K AH1 L CH ER0
+cultured K AH1 L CH ER0 D
+cultures K AH1 L CH ER0 Z
+culver K AH1 L V ER0
+culvert K AH1 L V ER0 T
+cum K AH1 M
+cumberland K AH1 M B ER0 L AH0 N D
+cumbersome K AH1 M B ER0 S AH0 M
+cumin K Y UW1 M AH0 N
+cunning K AH1 N IH0 NG
+cunt K AH1 N T
+cup K AH1 P
+cupboard K AH1 B ER0 D
+cupboards K AH1 B ER0 D Z
+cupcake K AH1 P K EY2 K
+cupcakes K AH1 P K EY2 K S
+cupid K Y UW1 P IH0 D
+cups K AH1 P S
+cur K ER1
+curator K Y UH0 R EY1 T ER0
+curb K ER1 B
+curd K ER1 D
+cure K Y UH1 R
+cured K Y UH1 R D
+cures K Y UH1 R Z
+curfew K ER1 F Y UW0
+curie K Y UH0 R IY1
+curing K Y UH1 R IH0 NG
+curiosity K Y UH2 R IY0 AA1 S AH0 T IY0
+curious K Y UH1 R IY0 AH0 S
+curiously K Y UH1 R IY0 AH0 S L IY0
+curl K ER1 L
+curled K ER1 L D
+curlers K ER1 L ER0 Z
+curling K ER1 L IH0 NG
+curls K ER1 L Z
+curly K ER1 L IY0
+currency K ER1 AH0 N S IY0
+current K ER1 AH0 N T
+currently K ER1 AH0 N T L IY0
+currents K ER1 AH0 N T S
+curriculum K ER0 IH1 K Y AH0 L AH0 M
+curry K AH1 R IY0
+curse K ER1 S
+cursed K ER1 S T
+curses K ER1 S IH0 Z
+cursing K ER1 S IH0 NG
+cursory K ER1 S ER0 IY0
+curt K ER1 T
+curtain K ER1 T AH0 N
+curtains K ER1 T AH0 N Z
+curtsy K ER1 T S IY0
+curve K ER1 V
+curved K ER1 V D
+curves K ER1 V Z
+cush K AH1 SH
+cushion K UH1 SH AH0 N
+cushions K UH1 SH AH0 N Z
+cushy K UH1 SH IY0
+cusp K AH1 S P
+cuss K AH1 S
+cussing K AH1 S IH0 NG
+custard K AH1 S T ER0 D
+custodial K AH0 S T OW1 D IY0 AH0 L
+custodian K AH0 S T OW1 D IY0 AH0 N
+custody K AH1 S T AH0 D IY0
+custom K AH1 S T AH0 M
+customary K AH1 S T AH0 M EH2 R IY0
+customer K AH1 S T AH0 M ER0
+customers K AH1 S T AH0 M ER0 Z
+customized K AH1 S T AH0 M AY2 Z D
+customs K AH1 S T AH0 M Z
+cut K AH1 T
+cutback K AH1 T B AE2 K
+cutbacks K AH1 T B AE2 K S
+cute K Y UW1 T
+cuteness K Y UW1 T N AH0 S
+cuter K Y UW1 T ER0
+cutest K Y UW1 T IH0 S T
+cutesy K Y UW1 T S IY0
+cuticle K Y UW1 T AH0 K AH0 L
+cutie K Y UW1 T IY0
+cutlass K AH1 T L AH0 S
+cutler K AH1 T L ER0
+cutlery K AH1 T L ER0 IY0
+cutlet K AH1 T L AH0 T
+cutlets K AH1 T L AH0 T S
+cutoff K AH1 T AO2 F
+cutout K AH1 T AW2 T
+cuts K AH1 T S
+cutter K AH1 T ER0
+cutters K AH1 T ER0 Z
+cutthroat K AH1 T TH R OW2 T
+cutting K AH1 T IH0 NG
+cv S IY2 V IY1
+cy S AY1
+cyanide S AY1 AH0 N AY2 D
+cyberspace S AY1 B ER0 S P EY2 S
+cyborg S AY1 B AO0 R G
+cycle S AY1 K AH0 L
+cycles S AY1 K AH0 L Z
+cycling S AY1 K AH0 L IH0 NG
+cyclone S IH0 K L OW1 N
+cyclops S AY1 K L AO2 P S
+cygnus S IH1 G N AH0 S
+cylinder S IH1 L AH0 N D ER0
+cylinders S IH1 L AH0 N D ER0 Z
+cymbal S IH1 M B AH0 L
+cymbals S IH1 M B AH0 L Z
+cynic S IH1 N IH0 K
+cynical S IH1 N IH0 K AH0 L
+cynicism S IH1 N IH0 S IH2 Z AH0 M
+cynthia S IH1 N TH IY0 AH0
+cypher S AY1 F ER0
+cypress S AY1 P R AH0 S
+cyprus S AY1 P R AH0 S
+cyrus S AY1 R AH0 S
+cyst S IH1 S T
+cystic S IH1 S T IH0 K
+czar Z AA1 R
+czech CH EH1 K
+czechoslovakia CH EH2 K AH0 S L OW0 V AA1 K IY0 AH0
+czechoslovakian CH EH2 CH AH0 S L OW0 V AA1 K IY0 AH0 N
+d D IY1
+da D AA1
+dab D AE1 B
+dabble D AE1 B AH0 L
+dabbling D AE1 B AH0 L IH0 NG
+dachshund D AA1 K S HH UH2 N D
+dad D AE1 D
+dada D AA1 D AA2
+daddies D AE1 D IY0 Z
+daddy D AE1 D IY0
+dade D EY1 D
+dado D EY1 D OW2
+dads D AE1 D Z
+daedalus D EH1 D AH0 L AH0 S
+daffodils D AE1 F AH0 D IH2 L Z
+daffy D AE1 F IY0
+daft D AE1 F T
+dag D AE1 G
+dagger D AE1 G ER0
+daggers D AE1 G ER0 Z
+dagon D EY1 G AH0 N
+dah D AH1
+dahlia D AE1 L Y AH0
+dailies D EY1 L IY0 Z
+daily D EY1 L IY0
+dainty D EY1 N T IY0
+daiquiri D AE1 K ER0 IY0
+dairy D EH1 R IY0
+dais D EY1 Z
+daisies D EY1 Z IY0 Z
+daisy D EY1 Z IY0
+dakota D AH0 K OW1 T AH0
+dal D AE1 L
+dalai D AE1 L EY2
+dale D EY1 L
+dallas D AE1 L AH0 S
+dally D AE1 L IY0
+dalmatian D AE0 L M EY1 SH AH0 N
+dalton D AO1 L T AH0 N
+dam D AE1 M
+damage D AE1 M AH0 JH
+damaged D AE1 M AH0 JH D
+damages D AE1 M AH0 JH AH0 Z
+damaging D AE1 M IH0 JH IH0 NG
+damascus D AH0 M AE1 S K AH0 S
+dame D EY1 M
+dames D EY1 M Z
+damme D AE1 M
+dammit D AE1 M IH0 T
+damn D AE1 M
+damnation D AE0 M N EY1 SH AH0 N
+damned D AE1 M D
+damning D AE1 M IH0 NG
+damocles D AE1 M AH0 K L IY2 Z
+damon D EY1 M AH0 N
+damp D AE1 M P
+dampen D AE1 M P AH0 N
+damper D AE1 M P ER0
+dams D AE1 M Z
+damsel D AE1 M Z AH0 L
+dan D AE1 N
+dana D EY1 N AH0
+dance D AE1 N S
+danced D AE1 N S T
+dancer D AE1 N S ER0
+dancers D AE1 N S ER0 Z
+dances D AE1 N S AH0 Z
+dancing D AE1 N S IH0 NG
+dandelion D AE1 N D AH0 L AY2 AH0 N
+dandruff D AE1 N D R AH0 F
+dandy D AE1 N D IY0
+dane D EY1 N
+danes D EY1 N Z
+dang D AE1 NG
+danger D EY1 N JH ER0
+dangerous D EY1 N JH ER0 AH0 S
+dangerously D EY1 N JH ER0 AH0 S L IY0
+dangers D EY1 N JH ER0 Z
+dangle D AE1 NG G AH0 L
+dangler D AE1 NG G AH0 L ER0
+dangling D AE1 NG G AH0 L IH0 NG
+daniel D AE1 N Y AH0 L
+danish D EY1 N IH0 SH
+dank D AE1 NG K
+danker D AE1 NG K ER0
+danny D AE1 N IY0
+dante D AA1 N T EY0
+danton D AE1 N T AH0 N
+danube D AE1 N Y UW0 B
+daphne D AE1 F N IY0
+dapper D AE1 P ER0
+dar D AA1 R
+darby D AA1 R B IY0
+darcy D AA1 R S IY0
+dare D EH1 R
+dared D EH1 R D
+daredevil D EH1 R D EH2 V AH0 L
+dares D EH1 R Z
+daresay D EH1 R S EY0
+daring D EH1 R IH0 NG
+dark D AA1 R K
+darken D AA1 R K AH0 N
+darkened D AA1 R K AH0 N D
+darker D AA1 R K ER0
+darkest D AA1 R K AH0 S T
+darkness D AA1 R K N AH0 S
+darkroom D AA1 R K R UW2 M
+darling D AA1 R L IH0 NG
+darlings D AA1 R L IH0 NG Z
+darn D AA1 R N
+darned D AA1 R N D
+darnedest D AA1 R N D EH0 S T
+dart D AA1 R T
+darts D AA1 R T S
+darwin D AA1 R W IH0 N
+darwinism D AA1 R W IH0 N IH2 Z AH0 M
+das D AE1 S
+dash D AE1 SH
+dashboard D AE1 SH B AO2 R D
+dashed D AE1 SH T
+dasher D AE1 SH ER0
+dashing D AE1 SH IH0 NG
+dastardly D AE1 S T ER0 D L IY0
+dat D AE1 T
+data D EY1 T AH0
+database D EY1 T AH0 B EY2 S
+databases D EY1 T AH0 B EY2 S IH0 Z
+date D EY1 T
+dated D EY1 T IH0 D
+dateline D EY1 T L AY2 N
+dates D EY1 T S
+dating D EY1 T IH0 NG
+daughter D AO1 T ER0
+daughters D AO1 T ER0 Z
+daunting D AO1 N T IH0 NG
+dauphin D AW1 F IH0 N
+dave D EY1 V
+davenport D AE1 V AH0 N P AO2 R T
+david D EY1 V IH0 D
+davies D EY1 V IY0 Z
+davis D EY1 V AH0 S
+davy D EY1 V IY0
+dawdle D AO1 D AH0 L
+dawdling D AO1 D L IH0 NG
+dawn D AO1 N
+dawned D AO1 N D
+dawning D AO1 N IH0 NG
+dawns D AO1 N Z
+day D EY1
+daybreak D EY1 B R EY2 K
+daycare D EY1 K EH2 R
+daydream D EY1 D R IY2 M
+daydreaming D EY1 D R IY2 M IH0 NG
+daydreams D EY1 D R IY2 M Z
+daylight D EY1 L AY2 T
+daylights D EY1 L AY2 T S
+days D EY1 Z
+daytime D EY1 T AY2 M
+dayton D EY1 T AH0 N
+daze D EY1 Z
+dazed D EY1 Z D
+dazzle D AE1 Z AH0 L
+dazzled D AE1 Z AH0 L D
+dazzling D AE1 Z AH0 L IH0 NG
+dc D IY2 S IY1
+de D IY1
+dea D IY1
+deacon D IY1 K AH0 N
+deactivate D IY2 AE1 K T IH0 V EY2 T
+deactivated D IY2 AE1 K T IH0 V EY2 T IH0 D
+dead D EH1 D
+deadbeat D EH1 D B IY2 T
+deadbeats D EH1 D B IY2 T S
+deader D EH1 D ER0
+deadlier D EH1 D L IY0 ER0
+deadliest D EH1 D L IY0 AH0 S T
+deadline D EH1 D L AY2 N
+deadlines D EH1 D L AY2 N Z
+deadly D EH1 D L IY0
+deadwood D EH1 D W UH2 D
+deaf D EH1 F
+deafening D EH1 F AH0 N IH0 NG
+deafness D EH1 F N AH0 S
+deal D IY1 L
+dealer D IY1 L ER0
+dealers D IY1 L ER0 Z
+dealership D IY1 L ER0 SH IH2 P
+dealerships D IY1 L ER0 SH IH2 P S
+dealing D IY1 L IH0 NG
+dealings D IY1 L IH0 NG Z
+deals D IY1 L Z
+dealt D EH1 L T
+dean D IY1 N
+dear D IH1 R
+dearborn D IH1 R B AO2 R N
+dearer D IH1 R ER0
+dearest D IH1 R AH0 S T
+dearly D IH1 R L IY0
+deary D IH1 R IY0
+death D EH1 TH
+deathbed D EH1 TH B EH2 D
+deathly D EH1 TH L IY0
+deaths D EH1 TH S
+deb D EH1 B
+debacle D AH0 B AA1 K AH0 L
+debatable D AH0 B EY1 T AH0 B AH0 L
+debate D AH0 B EY1 T
+debated D AH0 B EY1 T IH0 D
+debates D AH0 B EY1 T S
+debating D AH0 B EY1 T IH0 NG
+debauchery D AH0 B AO1 CH ER0 IY0
+debbie D EH1 B IY0
+debby D EH1 B IY0
+debilitating D AH0 B IH1 L AH0 T EY2 T IH0 NG
+debonair D EH2 B AH0 N EH1 R
+deborah D EH1 B ER0 AH0
+debrief D IH0 B R IY1 F
+debriefed D IH0 B R IY1 F T
+debriefing D IH0 B R IY1 F IH0 NG
+debris D AH0 B R IY1
+debs D EH1 B Z
+debt D EH1 T
+debtor D EH1 T ER0
+debtors D EH1 T ER0 Z
+debts D EH1 T S
+debut D EY0 B Y UW1
+debutante D EH1 B Y AH0 T AA1 N T
+debutantes D EH1 B Y AH0 T AA1 N T S
+dec D EH1 K
+decade D EH0 K EY1 D
+decadence D EH1 K AH0 D AH0 N S
+decadent D EH1 K AH0 D AH0 N T
+decades D EH0 K EY1 D Z
+decaf D IY1 K AE0 F
+decapitate D IY0 K AE1 P AH0 T EY2 T
+decapitated D IY0 K AE1 P AH0 T EY2 T IH0 D
+decapitation D IH0 K AE2 P IH0 T EY1 SH AH0 N
+decathlon D IY0 K AE1 TH L AO0 N
+decay D IH0 K EY1
+decaying D IH0 K EY1 IH0 NG
+deceased D IH0 S IY1 S T
+decedent D EH0 S IY1 D AH0 N T
+deceit D AH0 S IY1 T
+deceitful D AH0 S IY1 T F AH0 L
+deceive D IH0 S IY1 V
+deceived D IH0 S IY1 V D
+deceiving D IH0 S IY1 V IH0 NG
+december D IH0 S EH1 M B ER0
+decency D IY1 S AH0 N S IY0
+decent D IY1 S AH0 N T
+decently D IY1 S AH0 N T L IY0
+deception D IH0 S EH1 P SH AH0 N
+deceptions D IH0 S EH1 P SH AH0 N Z
+deceptive D IH0 S EH1 P T IH0 V
+decibels D EH1 S AH0 B AH0 L Z
+decide D IH2 S AY1 D
+decided D IH2 S AY1 D IH0 D
+decidedly D IH2 S AY1 D AH0 D L IY0
+decides D IH2 S AY1 D Z
+deciding D IH2 S AY1 D IH0 NG
+decimal D EH1 S AH0 M AH0 L
+decimated D EH1 S AH0 M EY2 T IH0 D
+decipher D IH0 S AY1 F ER0
+deciphered D IH0 S AY1 F ER0 D
+decision D IH0 S IH1 ZH AH0 N
+decisions D IH0 S IH1 ZH AH0 N Z
+decisive D IH0 S AY1 S IH0 V
+deck D EH1 K
+decked D EH1 K T
+decker D EH1 K ER0
+decks D EH1 K S
+declaration D EH2 K L ER0 EY1 SH AH0 N
+declarations D EH2 K L ER0 EY1 SH AH0 N Z
+declare D IH0 K L EH1 R
+declared D IH0 K L EH1 R D
+declares D IH0 K L EH1 R Z
+declaring D IH0 K L EH1 R IH0 NG
+decline D IH0 K L AY1 N
+declined D IH0 K L AY1 N D
+declines D IH0 K L AY1 N Z
+declining D IH0 K L AY1 N IH0 NG
+deco D EH1 K OW0
+decode D IH0 K OW1 D
+decoded D IH0 K OW1 D AH0 D
+decoder D IH0 K OW1 D ER0
+decoding D IH0 K OW1 D IH0 NG
+decommissioned D IY0 K AH0 M IH1 SH AH0 N D
+decompose D IY2 K AH0 M P OW1 Z
+decomposed D IY2 K AH0 M P OW1 Z D
+decomposing D IY2 K AH0 M P OW1 Z IH0 NG
+decomposition D IY2 K AH0 M P OW0 Z IH1 SH AH0 N
+decompression D IY2 K AH0 M P R EH1 SH AH0 N
+decontamination D IY0 K AH0 N T AE2 M AH0 N EY1 SH AH0 N
+decor D IH0 K AO1 R
+decorate D EH1 K ER0 EY2 T
+decorated D EH1 K ER0 EY2 T IH0 D
+decorating D EH1 K ER0 EY2 T IH0 NG
+decoration D EH2 K ER0 EY1 SH AH0 N
+decorations D EH2 K ER0 EY1 SH AH0 N Z
+decorative D EH1 K R AH0 T IH0 V
+decorator D EH1 K ER0 EY2 T ER0
+decorators D EH1 K ER0 EY2 T ER0 Z
+decorum D IH0 K AO1 R AH0 M
+decoy D AH0 K OY1
+decoys D IY1 K OY0 Z
+decrease D IH0 K R IY1 S
+decreased D IH0 K R IY1 S T
+decreasing D IH0 K R IY1 S IH0 NG
+decree D IH0 K R IY1
+decreed D IH0 K R IY1 D
+decrees D IH0 K R IY1 Z
+decrepit D AH0 K R EH1 P IH0 T
+dedicate D EH1 D AH0 K EY2 T
+dedicated D EH1 D AH0 K EY0 T AH0 D
+dedicating D EH1 D IH0 K EY2 T IH0 NG
+dedication D EH2 D AH0 K EY1 SH AH0 N
+deduce D IH0 D UW1 S
+deduced D IH0 D UW1 S T
+deduct D IH0 D AH1 K T
+deducted D IH0 D AH1 K T IH0 D
+deductible D IH0 D AH1 K T AH0 B AH0 L
+deduction D IH0 D AH1 K SH AH0 N
+deductions D IH0 D AH1 K SH AH0 N Z
+deductive D IH0 D AH1 K T AH0 V
+dee D IY1
+deed D IY1 D
+deeds D IY1 D Z
+deem D IY1 M
+deemed D IY1 M D
+deemer D IY1 M ER0
+deep D IY1 P
+deepen D IY1 P AH0 N
+deeper D IY1 P ER0
+deepest D IY1 P AH0 S T
+deeply D IY1 P L IY0
+deer D IH1 R
+defaced D IH0 F EY1 S T
+defamation D EH2 F AH0 M EY1 SH AH0 N
+default D IH0 F AO1 L T
+defeat D IH0 F IY1 T
+defeated D IH0 F IY1 T AH0 D
+defeating D IH0 F IY1 T IH0 NG
+defeatist D IH0 F IY1 T IH0 S T
+defeats D IH0 F IY1 T S
+defect D IY1 F EH0 K T
+defected D IH0 F EH1 K T IH0 D
+defection D IH0 F EH1 K SH AH0 N
+defective D IH0 F EH1 K T IH0 V
+defector D IH0 F EH1 K T ER0
+defects D IY1 F EH0 K T S
+defence D IH0 F EH1 N S
+defend D IH0 F EH1 N D
+defendant D IH0 F EH1 N D AH0 N T
+defendants D IH0 F EH1 N D AH0 N T S
+defended D IH0 F EH1 N D AH0 D
+defender D IH0 F EH1 N D ER0
+defenders D IH0 F EH1 N D ER0 Z
+defending D IH0 F EH1 N D IH0 NG
+defends D IH0 F EH1 N D Z
+defense D IH0 F EH1 N S
+defenseless D IH0 F EH1 N S L AH0 S
+defenses D IH0 F EH1 N S AH0 Z
+defensive D IH0 F EH1 N S IH0 V
+defer D IH0 F ER1
+deference D EH1 F ER0 AH0 N S
+defiance D IH0 F AY1 AH0 N S
+defiant D IH0 F AY1 AH0 N T
+defibrillator D IY0 F IH1 B R IH0 L EY2 T ER0
+deficiencies D IH0 F IH1 SH AH0 N S IY0 Z
+deficiency D IH0 F IH1 SH AH0 N S IY0
+deficient D IH0 F IH1 SH AH0 N T
+deficit D EH1 F AH0 S AH0 T
+defied D IH0 F AY1 D
+defies D IH0 F AY1 Z
+define D IH0 F AY1 N
+defined D IH0 F AY1 N D
+defines D IH0 F AY1 N Z
+defining D IH0 F AY1 N IH0 NG
+definite D EH1 F AH0 N AH0 T
+definitely D EH1 F AH0 N AH0 T L IY0
+definition D EH2 F AH0 N IH1 SH AH0 N
+definitions D EH2 F AH0 N IH1 SH AH0 N Z
+definitive D IH0 F IH1 N IH0 T IH0 V
+definitively D IH0 F IH1 N IH0 T IH0 V L IY0
+deflate D IH0 F L EY1 T
+deflect D IH0 F L EH1 K T
+deflected D IH0 F L EH1 K T IH0 D
+deflection D IH0 F L EH1 K SH AH0 N
+deflector D IH0 F L EH1 K T ER0
+deformed D IH0 F AO1 R M D
+deformity D IH0 F AO1 R M AH0 T IY0
+defraud D IH0 F R AO1 D
+defrauded D IH0 F R AO1 D IH0 D
+defrost D IH0 F R AO1 S T
+deft D EH1 F T
+defunct D IH0 F AH1 NG K T
+defuse D IH0 F Y UW1 Z
+defy D IH0 F AY1
+defying D IH0 F AY1 IH0 NG
+degas D EY1 G AH0 S
+degenerate D IH0 JH EH1 N ER0 AH0 T
+degenerated D IH0 JH EH1 N ER0 EY2 T IH0 D
+degenerates D IH0 JH EH1 N ER0 AH0 T S
+degeneration D IH0 JH EH2 N ER0 EY1 SH AH0 N
+degradation D EH2 G R AH0 D EY1 SH AH0 N
+degrade D IH0 G R EY1 D
+degraded D IH0 G R EY1 D AH0 D
+degrading D IH0 G R EY1 D IH0 NG
+degree D IH0 G R IY1
+degrees D IH0 G R IY1 Z
+dehydrated D IH0 HH AY1 D R EY0 T AH0 D
+dehydration D IY2 HH AY0 D R EY1 SH AH0 N
+deign D EY1 N
+deity D IY1 AH0 T IY0
+deja D IY1 JH AH0
+del D EH1 L
+delaware D EH1 L AH0 W EH2 R
+delay D IH0 L EY1
+delayed D IH0 L EY1 D
+delaying D IH0 L EY1 IH0 NG
+delays D IH0 L EY1 Z
+delectable D IH0 L EH1 K T AH0 B AH0 L
+delegate D EH1 L AH0 G EY2 T
+delegates D EH1 L AH0 G EY2 T S
+delegation D EH2 L AH0 G EY1 SH AH0 N
+delete D IH0 L IY1 T
+deleted D IH0 L IY1 T AH0 D
+delhi D EH1 L IY0
+deli D EH1 L IY0
+deliberate D IH0 L IH1 B ER0 AH0 T
+deliberately D IH0 L IH1 B ER0 AH0 T L IY0
+deliberation D IH0 L IH2 B ER0 EY1 SH AH0 N
+deliberations D IH0 L IH2 B ER0 EY1 SH AH0 N Z
+delicacies D EH1 L IH0 K AH0 S IY0 Z
+delicacy D EH1 L AH0 K AH0 S IY0
+delicate D EH1 L AH0 K AH0 T
+delicately D EH1 L AH0 K AH0 T L IY0
+delicatessen D EH2 L IH0 K AH0 T EH1 S AH0 N
+delicious D IH0 L IH1 SH AH0 S
+deliciously D IH0 L IH1 SH AH0 SH L IY0
+delight D IH0 L AY1 T
+delighted D IH0 L AY1 T AH0 D
+delightful D IH0 L AY1 T F AH0 L
+delightfully D IH0 L AY1 T F AH0 L IY0
+delights D IH0 L AY1 T S
+delilah D AH0 L AY1 L AH0
+deline D EH0 L IY1 N IY0
+delinquency D IH0 L IH1 NG K W AH0 N S IY0
+delinquent D IH0 L IH1 NG K W AH0 N T
+delinquents D IH0 L IH1 NG K W AH0 N T S
+delirious D IH0 L IH1 R IY0 AH0 S
+delirium D IH0 L IH1 R IY0 AH0 M
+deliver D IH0 L IH1 V ER0
+deliverance D IH0 L IH1 V ER0 AH0 N S
+delivered D IH0 L IH1 V ER0 D
+deliveries D IH0 L IH1 V ER0 IY0 Z
+delivering D IH0 L IH1 V ER0 IH0 NG
+delivers D IH0 L IH1 V ER0 Z
+delivery D IH0 L IH1 V ER0 IY0
+dell D EH1 L
+della D EH1 L AH0
+delphine D EH0 L F IY1 N IY0
+delta D EH1 L T AH0
+delude D IH0 L UW1 D
+deluded D IH0 L UW1 D IH0 D
+deluge D EH1 L Y UW0 JH
+delusion D IH0 L UW1 ZH AH0 N
+delusional D IH0 L UW1 ZH AH0 N AH0 L
+delusions D IH0 L UW1 ZH AH0 N Z
+deluxe D AH0 L AH1 K S
+delve D EH1 L V
+demand D IH0 M AE1 N D
+demanded D IH0 M AE1 N D AH0 D
+demanding D IH0 M AE1 N D IH0 NG
+demands D IH0 M AE1 N D Z
+demean D IH0 M IY1 N
+demeaning D IH0 M IY1 N IH0 NG
+demeanor D IH0 M IY1 N ER0
+demented D IH0 M EH1 N T IH0 D
+dementia D IH0 M EH1 N SH IY0 AH0
+demerits D IY0 M EH1 R AH0 T S
+demi D EH1 M IY0
+demise D IH0 M AY1 Z
+demo D EH1 M OW0
+democracy D IH0 M AA1 K R AH0 S IY0
+democrat D EH1 M AH0 K R AE2 T
+democratic D EH2 M AH0 K R AE1 T IH0 K
+democrats D EH1 M AH0 K R AE2 T S
+demographic D EH2 M AH0 G R AE1 F IH0 K
+demographics D EH2 M AH0 G R AE1 F IH0 K S
+demolish D IH0 M AA1 L IH0 SH
+demolished D IH0 M AA1 L IH0 SH T
+demolition D EH2 M AH0 L IH1 SH AH0 N
+demon D IY1 M AH0 N
+demonic D IH0 M AA1 N IH0 K
+demons D IY1 M AH0 N Z
+demonstrate D EH1 M AH0 N S T R EY2 T
+demonstrated D EH1 M AH0 N S T R EY2 T IH0 D
+demonstrates D EH1 M AH0 N S T R EY2 T S
+demonstrating D EH1 M AH0 N S T R EY2 T IH0 NG
+demonstration D EH2 M AH0 N S T R EY1 SH AH0 N
+demonstrations D EH2 M AH0 N S T R EY1 SH AH0 N Z
+demonstrative D IH0 M AA1 N S T R AH0 T IH0 V
+demonstrators D EH1 M AH0 N S T R EY2 T ER0 Z
+demoralizing D IH0 M AO1 R AH0 L AY2 Z IH0 NG
+demos D EH1 M OW2 Z
+demoted D IH0 M OW1 T IH0 D
+demotion D IH0 M OW1 SH AH0 N
+demure D IH0 M Y UH1 R
+den D EH1 N
+deniability D IH0 N AY2 AH0 B IH1 L IH0 T IY0
+denial D IH0 N AY1 AH0 L
+denials D IH0 N AY1 AH0 L Z
+denied D IH0 N AY1 D
+denies D IH0 N AY1 Z
+denigrate D EH1 N AH0 G R EY2 T
+denim D EH1 N AH0 M
+denmark D EH1 N M AA2 R K
+denning D EH1 N IH0 NG
+dennis D EH1 N IH0 S
+denomination D IH0 N AO2 M AH0 N EY1 SH AH0 N
+denominator D IH0 N AA1 M AH0 N EY2 T ER0
+denounce D IH0 N AW1 N S
+denounced D IH0 N AW1 N S T
+denouncing D IH0 N AW1 N S IH0 NG
+dens D EH1 N Z
+dense D EH1 N S
+density D EH1 N S AH0 T IY0
+dent D EH1 N T
+dental D EH1 N T AH0 L
+dented D EH1 N T IH0 D
+dentist D EH1 N T AH0 S T
+dentistry D EH1 N T IH0 S T R IY0
+dentists D EH1 N T AH0 S T S
+dents D EH1 N T S
+dentures D EH1 N CH ER0 Z
+denver D EH1 N V ER0
+deny D IH0 N AY1
+denying D IH0 N AY1 IH0 NG
+deodorant D IY0 OW1 D ER0 AH0 N T
+depart D IH0 P AA1 R T
+departed D IH0 P AA1 R T IH0 D
+departing D IH0 P AA1 R T IH0 NG
+department D IH0 P AA1 R T M AH0 N T
+departmental D IH0 P AA2 R T M EH1 N AH0 L
+departments D IH0 P AA1 R T M AH0 N T S
+departs D IH0 P AA1 R T S
+departure D IH0 P AA1 R CH ER0
+departures D IH0 P AA1 R CH ER0 Z
+depend D IH0 P EH1 N D
+dependable D IH0 P EH1 N D AH0 B AH0 L
+depended D IH0 P EH1 N D AH0 D
+dependence D IH0 P EH1 N D AH0 N S
+dependency D IH0 P EH1 N D AH0 N S IY0
+dependent D IH0 P EH1 N D AH0 N T
+depending D IH0 P EH1 N D IH0 NG
+depends D IH0 P EH1 N D Z
+depict D IH0 P IH1 K T
+depicted D IH0 P IH1 K T AH0 D
+depicting D IH0 P IH1 K T IH0 NG
+depiction D IH0 P IH1 K SH AH0 N
+depleted D IH0 P L IY1 T IH0 D
+depletion D IH0 P L IY1 SH AH0 N
+deplorable D IH0 P L AO1 R AH0 B AH0 L
+deploy D IH0 P L OY1
+deployed D IH0 P L OY1 D
+deploying D IH0 P L OY1 IH0 NG
+deployment D IH0 P L OY1 M AH0 N T
+deport D IH0 P AO1 R T
+deportation D IY2 P AO0 R T EY1 SH AH0 N
+deported D IH0 P AO1 R T AH0 D
+depose D IH0 P OW1 Z
+deposed D IH0 P OW1 Z D
+deposit D AH0 P AA1 Z IH0 T
+deposited D AH0 P AA1 Z IH0 T IH0 D
+deposition D EH2 P AH0 Z IH1 SH AH0 N
+depositions D EH2 P AH0 Z IH1 SH AH0 N Z
+depositors D AH0 P AA1 Z IH0 T ER0 Z
+depository D IH0 P AA1 Z AH0 T AO2 R IY0
+deposits D AH0 P AA1 Z IH0 T S
+depot D IY1 P OW0
+depots D IY1 P OW0 Z
+depraved D IY0 P R EY1 V D
+depravity D IH0 P R AE1 V AH0 T IY0
+depreciation D IH0 P R IY2 SH IY0 EY1 SH AH0 N
+depress D IH0 P R EH1 S
+depressed D IH0 P R EH1 S T
+depresses D IH0 P R EH1 S AH0 Z
+depressing D IH0 P R EH1 S IH0 NG
+depression D IH0 P R EH1 SH AH0 N
+depressive D IH0 P R EH1 S IH0 V
+deprivation D EH2 P R AH0 V EY1 SH AH0 N
+deprive D IH0 P R AY1 V
+deprived D IH0 P R AY1 V D
+depriving D IH0 P R AY1 V IH0 NG
+depth D EH1 P TH
+depths D EH1 P TH S
+deputies D EH1 P Y AH0 T IY0 Z
+deputize D EH1 P Y AH0 T AY2 Z
+deputy D EH1 P Y AH0 T IY0
+der D ER1
+derail D IH0 R EY1 L
+derailed D IH0 R EY1 L D
+deranged D IH0 R EY1 N JH D
+derby D ER1 B IY0
+derelict D EH1 R AH0 L IH2 K T
+dereliction D EH2 R AH0 L IH1 K SH AH0 N
+derelicts D EH1 R AH0 L IH2 K T S
+derivation D EH2 R AH0 V EY1 SH AH0 N
+derivative D ER0 IH1 V AH0 T IH0 V
+derive D ER0 AY1 V
+derived D ER0 AY1 V D
+derives D ER0 AY1 V Z
+dermatologist D ER2 M AH0 T AA1 L AH0 JH IH0 S T
+derogatory D ER0 AA1 G AH0 T AO2 R IY0
+derrick D EH1 R IH0 K
+derringer D EH1 R AH0 N JH ER0
+derry D EH1 R IY0
+dervish D ER1 V IH0 SH
+des D EH1 S
+descend D IH0 S EH1 N D
+descendant D IH0 S EH1 N D AH0 N T
+descendants D IH0 S EH1 N D AH0 N T S
+descended D IH0 S EH1 N D AH0 D
+descending D IH0 S EH1 N D IH0 NG
+descends D IH0 S EH1 N D Z
+descent D IH0 S EH1 N T
+describe D IH0 S K R AY1 B
+described D IH0 S K R AY1 B D
+describes D IH0 S K R AY1 B Z
+describing D IH0 S K R AY1 B IH0 NG
+description D IH0 S K R IH1 P SH AH0 N
+descriptions D IH0 S K R IH1 P SH AH0 N Z
+descriptive D IH0 S K R IH1 P T IH0 V
+desecrate D EH0 Z AH0 K R EY1 T
+desecrated D EH0 Z AH0 K R EY1 T IH0 D
+desecration D EH0 S AH0 K R EY1 SH AH0 N
+desert D EH1 Z ER0 T
+deserted D IH0 Z ER1 T IH0 D
+deserter D EH1 Z ER0 T ER0
+deserters D EH1 Z ER0 T ER0 Z
+deserting D EH1 Z ER0 T IH0 NG
+desertion D IH0 Z ER1 SH AH0 N
+deserts D EH1 Z ER0 T S
+deserve D IH0 Z ER1 V
+deserved D IH0 Z ER1 V D
+deserves D IH0 Z ER1 V Z
+deserving D IH0 Z ER1 V IH0 NG
+desi D EH1 Z IY0
+design D IH0 Z AY1 N
+designate D EH1 Z AH0 G N EY2 T
+designated D EH1 Z IH0 G N EY2 T IH0 D
+designed D IH0 Z AY1 N D
+designer D IH0 Z AY1 N ER0
+designers D IH0 Z AY1 N ER0 Z
+designing D IH0 Z AY1 N IH0 NG
+designs D IH0 Z AY1 N Z
+desirable D IH0 Z AY1 R AH0 B AH0 L
+desire D IH0 Z AY1 ER0
+desired D IH0 Z AY1 ER0 D
+desires D IH0 Z AY1 ER0 Z
+desist D IH0 S IH1 S T
+desk D EH1 S K
+desks D EH1 S K S
+desolate D EH1 S AH0 L AH0 T
+desolation D EH2 S AH0 L EY1 SH AH0 N
+despair D IH0 S P EH1 R
+desperado D EH2 S P ER0 AA1 D OW0
+desperate D EH1 S P R IH0 T
+desperately D EH1 S P ER0 AH0 T L IY0
+desperation D EH2 S P ER0 EY1 SH AH0 N
+despicable D IH0 S P IH1 K AH0 B AH0 L
+despise D IH0 S P AY1 Z
+despised D IH0 S P AY1 Z D
+despises D IH0 S P AY1 Z IH0 Z
+despite D IH0 S P AY1 T
+despondent D IH0 S P AA1 N D AH0 N T
+dessert D IH0 Z ER1 T
+desserts D IH0 Z ER1 T S
+destination D EH2 S T AH0 N EY1 SH AH0 N
+destinations D EH2 S T AH0 N EY1 SH AH0 N Z
+destined D EH1 S T IH0 N D
+destinies D EH1 S T AH0 N IY0 Z
+destiny D EH1 S T AH0 N IY0
+destitute D EH1 S T AH0 T UW2 T
+destroy D IH0 S T R OY1
+destroyed D IH0 S T R OY1 D
+destroyer D IH0 S T R OY1 ER0
+destroyers D IH0 S T R OY1 ER0 Z
+destroying D IH0 S T R OY1 IH0 NG
+destroys D IH0 S T R OY1 Z
+destruct D IH0 S T R AH1 K T
+destruction D IH0 S T R AH1 K SH AH0 N
+destructive D IH0 S T R AH1 K T IH0 V
+detach D IH1 T AE2 CH
+detached D IH0 T AE1 CH T
+detachment D IH0 T AE1 CH M AH0 N T
+detail D IH0 T EY1 L
+detailed D IH0 T EY1 L D
+detailing D IH0 T EY1 L IH0 NG
+details D IH0 T EY1 L Z
+detain D IH0 T EY1 N
+detained D IH0 T EY1 N D
+detaining D IH0 T EY1 N IH0 NG
+detect D IH0 T EH1 K T
+detectable D IH0 T EH1 K T AH0 B AH0 L
+detected D IH0 T EH1 K T AH0 D
+detecting D IH0 T EH1 K T IH0 NG
+detection D IH0 T EH1 K SH AH0 N
+detective D IH0 T EH1 K T IH0 V
+detectives D IH0 T EH1 K T IH0 V Z
+detector D IH0 T EH1 K T ER0
+detectors D IH0 T EH1 K T ER0 Z
+detects D IH0 T EH1 K T S
+detention D IH0 T EH1 N SH AH0 N
+deter D IH0 T ER1
+detergent D IH0 T ER1 JH AH0 N T
+deteriorate D IH0 T IH1 R IY0 ER0 EY2 T
+deteriorated D IH0 T IH1 R IY0 ER0 EY2 T IH0 D
+deteriorating D IH0 T IH1 R IY0 ER0 EY2 T IH0 NG
+deterioration D IH0 T IH1 R IY0 ER0 EY2 SH AH0 N
+determination D IH0 T ER2 M AH0 N EY1 SH AH0 N
+determine D AH0 T ER1 M AH0 N
+determined D IH0 T ER1 M AH0 N D
+determines D AH0 T ER1 M AH0 N Z
+determining D IH0 T ER1 M AH0 N IH0 NG
+deterrent D IH0 T ER1 R AH0 N T
+detest D IH0 T EH1 S T
+detonate D EH1 T AH0 N EY2 T
+detonated D EH1 T AH0 N EY2 T AH0 D
+detonating D EH1 T AH0 N EY2 T IH0 NG
+detonation D EH2 T AH0 N EY1 SH AH0 N
+detonator D EH1 T AH0 N EY2 T ER0
+detonators D EH1 T AH0 N EY2 T ER0 Z
+detour D IH0 T UH1 R
+detox D IY1 T AA2 K S
+detriment D EH1 T R AH0 M AH0 N T
+detrimental D EH2 T R AH0 M EH1 N T AH0 L
+detroit D IH0 T R OY1 T
+deuce D UW1 S
+deux D UW1
+dev D EH1 V
+devastate D EH1 V AH0 S T EY2 T
+devastated D EH1 V AH0 S T EY2 T IH0 D
+devastating D EH1 V AH0 S T EY2 T IH0 NG
+devastation D EH2 V AH0 S T EY1 SH AH0 N
+develop D IH0 V EH1 L AH0 P
+developed D IH0 V EH1 L AH0 P T
+developer D IH0 V EH1 L AH0 P ER0
+developers D IH0 V EH1 L AH0 P ER0 Z
+developing D IH0 V EH1 L AH0 P IH0 NG
+development D IH0 V EH1 L AH0 P M AH0 N T
+developmental D IH0 V EH2 L AH0 P M EH1 N T AH0 L
+developments D IH0 V EH1 L AH0 P M AH0 N T S
+develops D IH0 V EH1 L AH0 P S
+deviant D IY1 V IY0 AH0 N T
+deviate D IY1 V IY0 EY2 T
+deviated D IY1 V IY0 EY2 T IH0 D
+deviation D IY2 V IY0 EY1 SH AH0 N
+device D IH0 V AY1 S
+devices D IH0 V AY1 S AH0 Z
+devil D EH1 V AH0 L
+devilish D EH1 V L IH0 SH
+devils D EH1 V AH0 L Z
+devious D IY1 V IY0 AH0 S
+devise D IH0 V AY1 Z
+devised D IH0 V AY1 Z D
+devising D IH0 V AY1 Z IH0 NG
+devoid D IH0 V OY1 D
+devon D EH1 V AH0 N
+devonshire D IH0 V AA1 N SH AY2 R
+devote D IH0 V OW1 T
+devoted D IH0 V OW1 T IH0 D
+devoting D IH0 V OW1 T IH0 NG
+devotion D IH0 V OW1 SH AH0 N
+devour D IH0 V AW1 ER0
+devoured D IH0 V AW1 ER0 D
+devouring D IH0 V AW1 ER0 IH0 NG
+devout D IH0 V AW1 T
+dew D UW1
+dewitt D AH0 W IH1 T
+dex D EH1 K S
+dexter D EH1 K S T ER0
+dexterity D EH0 K S T EH1 R AH0 T IY0
+dharma D AA1 R M AH0
+di D IY1
+dia D IY1 AH0
+diabetes D AY2 AH0 B IY1 T IY0 Z
+diabetic D AY2 AH0 B EH1 T IH0 K
+diablo D AY2 AE1 B L OW0
+diabolical D AY2 AH0 B AA1 L IH0 K AH0 L
+diagnose D AY2 AH0 G N OW1 S
+diagnosed D AY2 AH0 G N OW1 S T
+diagnoses D AY2 AH0 G N OW1 S IY0 Z
+diagnosis D AY2 AH0 G N OW1 S AH0 S
+diagnostic D AY2 AH0 G N AA1 S T IH0 K
+diagnostics D AY2 AH0 G N AA1 S T IH0 K S
+diagonal D AY0 AE1 G AH0 N AH0 L
+diagram D AY1 AH0 G R AE2 M
+diagrams D AY1 AH0 G R AE2 M Z
+dial D AY1 AH0 L
+dialect D AY1 AH0 L EH2 K T
+dialects D AY1 AH0 L EH2 K T S
+dialed D AY1 AH0 L D
+dialing D AY1 AH0 L IH0 NG
+dialogue D AY1 AH0 L AO2 G
+dials D AY1 AH0 L Z
+dialysis D AY0 AE1 L AH0 S AH0 S
+diameter D AY0 AE1 M AH0 T ER0
+diamond D AY1 M AH0 N D
+diamonds D AY1 M AH0 N D Z
+diana D AY0 AE1 N AH0
+diane D AY0 AE1 N
+diaper D AY1 P ER0
+diapers D AY1 AH0 P ER0 Z
+diaphragm D AY1 AH0 F R AE2 M
+diaries D AY1 ER0 IY0 Z
+diarrhea D AY2 ER0 IY1 AH0
+diarrhoea D AY2 ER0 IY1 AH0
+diary D AY1 ER0 IY0
+dias D AY1 AH0 Z
+diatribe D AY1 AH0 T R AY2 B
+dibs D IH1 B Z
+dice D AY1 S
+diced D AY1 S T
+dicey D AY1 S IY0
+dick D IH1 K
+dickens D IH1 K AH0 N Z
+dickey D IH1 K IY0
+dickhead D IH1 K HH EH2 D
+dickie D IH1 K IY0
+dicks D IH1 K S
+dicky D IH1 K IY0
+dictate D IH0 K T EY1 T
+dictated D IH0 K T EY1 T IH0 D
+dictates D IH0 K T EY1 T S
+dictating D IH1 K T EY2 T IH0 NG
+dictation D IH0 K T EY1 SH AH0 N
+dictator D IH0 K T EY1 T ER0
+dictators D IH0 K T EY1 T ER0 Z
+dictatorship D IH0 K T EY1 T ER0 SH IH2 P
+diction D IH1 K SH AH0 N
+dictionary D IH1 K SH AH0 N EH2 R IY0
+did D IH1 D
+diddle D IH1 D AH0 L
+diddy D IH1 D IY0
+didn't D IH1 D AH0 N T
+die D AY1
+died D AY1 D
+diego D IY0 EY1 G OW0
+diem D IY1 M
+dies D AY1 Z
+diesel D IY1 S AH0 L
+diet D AY1 AH0 T
+dietary D AY1 AH0 T EH2 R IY0
+dieting D AY1 AH0 T IH0 NG
+diets D AY1 IH0 T S
+diff D IH1 F
+differ D IH1 F ER0
+difference D IH1 F ER0 AH0 N S
+differences D IH1 F ER0 AH0 N S IH0 Z
+different D IH1 F ER0 AH0 N T
+differential D IH2 F ER0 EH1 N SH AH0 L
+differentiate D IH2 F ER0 EH1 N SH IY0 EY2 T
+differently D IH1 F R AH0 N T L IY0
+differs D IH1 F ER0 Z
+difficult D IH1 F AH0 K AH0 L T
+difficulties D IH1 F AH0 K AH0 L T IY0 Z
+difficulty D IH1 F AH0 K AH0 L T IY0
+diffuse D IH0 F Y UW1 S
+dig D IH1 G
+digest D AY0 JH EH1 S T
+digested D AY1 JH EH2 S T IH0 D
+digestion D AY0 JH EH1 S CH AH0 N
+digestive D AY0 JH EH1 S T IH0 V
+digger D IH1 G ER0
+diggers D IH1 G ER0 Z
+digging D IH1 G IH0 NG
+digit D IH1 JH AH0 T
+digital D IH1 JH AH0 T AH0 L
+digitally D IH1 JH AH0 T AH0 L IY0
+digits D IH1 JH AH0 T S
+dignified D IH1 G N AH0 F AY2 D
+dignify D IH1 G N AH0 F AY2
+dignitaries D IH1 G N AH0 T EH2 R IY0 Z
+dignity D IH1 G N AH0 T IY0
+digs D IH1 G Z
+dike D AY1 K
+dilated D AY2 L EY1 T IH0 D
+dilation D AY2 L EY1 SH AH0 N
+dildo D IH1 L D OW2
+dilemma D IH0 L EH1 M AH0
+diligence D IH1 L AH0 JH AH0 N S
+diligent D IH1 L IH0 JH AH0 N T
+diligently D IH1 L AH0 JH AH0 N T L IY0
+dill D IH1 L
+dilly D IH1 L IY0
+dilute D AY0 L UW1 T
+diluted D AY0 L UW1 T AH0 D
+dim D IH1 M
+dime D AY1 M
+dimension D IH0 M EH1 N SH AH0 N
+dimensional D IH0 M EH1 N SH AH0 N AH0 L
+dimensions D IH0 M EH1 N SH AH0 N Z
+dimes D AY1 M Z
+diminish D IH0 M IH1 N IH0 SH
+diminished D IH0 M IH1 N IH0 SH T
+diminishing D IH0 M IH1 N IH0 SH IH0 NG
+diminutive D IH0 M IH1 N Y AH0 T IH0 V
+dimmed D IH1 M D
+dimmer D IH1 M ER0
+dimple D IH1 M P AH0 L
+dimples D IH1 M P AH0 L Z
+din D IH1 N
+dinar D IH0 N AA1 R
+dinars D AY1 N ER0 Z
+dine D AY1 N
+dined D AY1 N D
+diner D AY1 N ER0
+diners D AY1 N ER0 Z
+ding D IH1 NG
+dinghy D IH1 NG IY0
+dingo D IH1 NG G OW0
+dings D IH1 NG Z
+dingus D IH1 NG G IH0 S
+dingy D IH1 N JH IY0
+dining D AY1 N IH0 NG
+dink D IH1 NG K
+dinky D IH1 NG K IY0
+dinner D IH1 N ER0
+dinners D IH1 N ER0 Z
+dinnertime D IH1 N ER0 T AY2 M
+dinosaur D AY1 N AH0 S AO2 R
+dinosaurs D AY1 N AH0 S AO2 R Z
+diocese D AY1 AH0 S IY2 Z
+dioxide D AY0 AA1 K S AY2 D
+dip D IH1 P
+diphtheria D IH0 F TH IH1 R IY0 AA0
+diploma D IH0 P L OW1 M AA0
+diplomacy D IH0 P L OW1 M AH0 S IY0
+diplomas D IH0 P L OW1 M AH0 Z
+diplomat D IH1 P L AH0 M AE2 T
+diplomatic D IH2 P L AH0 M AE1 T IH0 K
+diplomats D IH1 P L AH0 M AE2 T S
+dipped D IH1 P T
+dipper D IH1 P ER0
+dipping D IH1 P IH0 NG
+dippy D IH1 P IY0
+dips D IH1 P S
+dipstick D IH1 P S T IH2 K
+dire D AY1 R
+direct D ER0 EH1 K T
+directed D ER0 EH1 K T AH0 D
+directing D ER0 EH1 K T IH0 NG
+direction D ER0 EH1 K SH AH0 N
+directional D ER0 EH1 K SH AH0 N AH0 L
+directions D ER0 EH1 K SH AH0 N Z
+directive D ER0 EH1 K T IH0 V
+directives D AY0 R EH1 K T IH0 V Z
+directly D ER0 EH1 K T L IY0
+director D ER0 EH1 K T ER0
+directorate D ER0 EH1 K T ER0 AH0 T
+directors D ER0 EH1 K T ER0 Z
+directory D ER0 EH1 K T ER0 IY0
+directs D ER0 EH1 K T S
+dirk D ER1 K
+dirt D ER1 T
+dirtier D ER1 T IY0 ER0
+dirtiest D ER1 T IY0 AH0 S T
+dirty D ER1 T IY0
+dis D IH1 S
+disabilities D IH0 S AH0 B IH1 L AH0 T IY0 Z
+disability D IH2 S AH0 B IH1 L IH0 T IY0
+disable D IH0 S EY1 B AH0 L
+disabled D IH0 S EY1 B AH0 L D
+disabling D IH0 S EY1 B AH0 L IH0 NG
+disadvantage D IH2 S AH0 D V AE1 N T IH0 JH
+disadvantaged D IH0 S AH0 D V AE1 N T IH0 JH D
+disadvantages D IH2 S AH0 D V AE1 N T IH0 JH IH0 Z
+disagree D IH0 S AH0 G R IY1
+disagreeable D IH2 S AH0 G R IY1 AH0 B AH0 L
+disagreed D IH0 S AH0 G R IY1 D
+disagreeing D IH0 S AH0 G R IY1 IH0 NG
+disagreement D IH0 S AH0 G R IY1 M AH0 N T
+disagreements D IH2 S AH0 G R IY1 M AH0 N T S
+disagrees D IH0 S AH0 G R IY1 Z
+disappear D IH2 S AH0 P IH1 R
+disappearance D IH2 S AH0 P IH1 R AH0 N S
+disappearances D IH2 S AH0 P IH1 R AH0 N S IH0 Z
+disappeared D IH2 S AH0 P IH1 R D
+disappearing D IH2 S AH0 P IH1 R IH0 NG
+disappears D IH2 S AH0 P IH1 R Z
+disappoint D IH2 S AH0 P OY1 N T
+disappointed D IH2 S AH0 P OY1 N T IH0 D
+disappointing D IH2 S AH0 P OY1 N T IH0 NG
+disappointment D IH2 S AH0 P OY1 N T M AH0 N T
+disappointments D IH0 S AH0 P OY1 N T M AH0 N T S
+disappoints D IH2 S AH0 P OY1 N T S
+disapproval D IH0 S AH0 P R UW1 V AH0 L
+disapprove D IH2 S AH0 P R UW1 V
+disapproves D IH0 S AH0 P R UW1 V Z
+disapproving D IH0 S AH0 P R UW1 V IH0 NG
+disarm D IH0 S AA1 R M
+disarmament D IH0 S AA1 R M AH0 M AH0 N T
+disarmed D IH0 S AA1 R M D
+disarming D IH0 S AA1 R M IH0 NG
+disarray D IH2 S ER0 EY1
+disaster D IH0 Z AE1 S T ER0
+disasters D IH0 Z AE1 S T ER0 Z
+disastrous D IH0 Z AE1 S T R AH0 S
+disband D IH0 S B AE1 N D
+disbanded D IH0 S B AE1 N D IH0 D
+disbarred D IH0 S B AA1 R D
+disbelief D IH2 S B IH0 L IY1 F
+disc D IH1 S K
+discard D IH0 S K AA1 R D
+discarded D IH0 S K AA1 R D IH0 D
+discern D IH0 S ER1 N
+discerning D IH0 S ER1 N IH0 NG
+discharge D IH0 S CH AA1 R JH
+discharged D IH0 S CH AA1 R JH D
+discharging D IH0 S CH AA1 R JH IH0 NG
+disciple D IH0 S AY1 P AH0 L
+disciples D IH0 S AY1 P AH0 L Z
+disciplinary D IH1 S AH0 P L AH0 N EH2 R IY0
+discipline D IH1 S AH0 P L AH0 N
+disciplined D IH1 S AH0 P L AH0 N D
+disciplining D IH1 S AH0 P L AH0 N IH0 NG
+disclose D IH0 S K L OW1 Z
+disclosed D IH0 S K L OW1 Z D
+disclosure D IH0 S K L OW1 ZH ER0
+disco D IH1 S K OW0
+discoloration D IH0 S K AH2 L ER0 EY1 SH AH0 N
+discomfort D IH0 S K AH1 M F ER0 T
+disconcerting D IH2 S K AH0 N S ER1 T IH0 NG
+disconnect D IH0 S K AH0 N EH1 K T
+disconnected D IH2 S K AH0 N EH1 K T IH0 D
+discontent D IH0 S K AH0 N T EH1 N T
+discontinue D IH0 S K AH0 N T IH1 N Y UW0
+discontinued D IH0 S K AH0 N T IH1 N Y UW0 D
+discord D IH1 S K AO0 R D
+discordant D IH0 S K AO1 R D AH0 N T
+discount D IH0 S K AW1 N T
+discounts D IH0 S K AW1 N T S
+discourage D IH0 S K ER1 IH0 JH
+discouraged D IH0 S K ER1 AH0 JH D
+discouraging D IH0 S K ER1 AH0 JH IH0 NG
+discourse D IH1 S K AO0 R S
+discover D IH0 S K AH1 V ER0
+discovered D IH0 S K AH1 V ER0 D
+discoveries D IH0 S K AH1 V ER0 IY0 Z
+discovering D IH0 S K AH1 V ER0 IH0 NG
+discovers D IH0 S K AH1 V ER0 Z
+discovery D IH0 S K AH1 V ER0 IY0
+discredit D IH0 S K R EH1 D AH0 T
+discredited D IH0 S K R EH1 D IH0 T IH0 D
+discreet D IH0 S K R IY1 T
+discreetly D IH0 S K R IY1 T L IY0
+discrepancies D IH0 S K R EH1 P AH0 N S IY0 Z
+discrepancy D IH0 S K R EH1 P AH0 N S IY0
+discrete D IH0 S K R IY1 T
+discretion D IH0 S K R EH1 SH AH0 N
+discretionary D IH0 S K R EH1 SH AH0 N EH2 R IY0
+discriminate D IH0 S K R IH1 M AH0 N EY2 T
+discriminating D IH0 S K R IH1 M AH0 N EY2 T IH0 NG
+discrimination D IH0 S K R IH2 M AH0 N EY1 SH AH0 N
+discs D IH1 S K S
+discuss D IH0 S K AH1 S
+discussed D IH0 S K AH1 S T
+discussing D IH0 S K AH1 S IH0 NG
+discussion D IH0 S K AH1 SH AH0 N
+discussions D IH0 S K AH1 SH AH0 N Z
+disdain D IH0 S D EY1 N
+disease D IH0 Z IY1 Z
+diseased D IH0 Z IY1 Z D
+diseases D IH0 Z IY1 Z AH0 Z
+disembark D IH0 S EH0 M B AA1 R K
+disembodied D IH0 S IH0 B AA1 D IY0 D
+disenfranchised D IH0 S IH0 N F R AE1 N CH AY2 Z D
+disengage D IH0 S IH0 N G EY1 JH
+disengaged D IH0 S IH0 N G EY1 JH D
+disfigured D IH0 S F IH1 G Y ER0 D
+disgrace D IH0 S G R EY1 S
+disgraced D IH0 S G R EY1 S T
+disgraceful D IH0 S G R EY1 S F AH0 L
+disgruntled D IH0 S G R AH1 N T AH0 L D
+disguise D IH0 S G AY1 Z
+disguised D IH0 S G AY1 Z D
+disguises D IH0 S G AY1 Z IH0 Z
+disguising D IH0 S G AY1 Z IH0 NG
+disgust D IH0 S G AH1 S T
+disgusted D IH0 S G AH1 S T AH0 D
+disgusting D IH0 S G AH1 S T IH0 NG
+disgusts D IH0 S G AH1 S T S
+dish D IH1 SH
+dishes D IH1 SH AH0 Z
+dishing D IH1 SH IH0 NG
+dishonest D IH0 S AA1 N AH0 S T
+dishonesty D IH0 S AA1 N AH0 S T IY0
+dishonor D IH0 S AA1 N ER0
+dishonorable D IH0 S AA1 N ER0 AH0 B AH0 L
+dishonored D IH0 S AA1 N ER0 D
+dishwasher D IH1 SH W AA2 SH ER0
+dishwashing D IH1 SH W AA2 SH IH0 NG
+disillusioned D IH2 S IH0 L UW1 ZH AH0 N D
+disillusionment D IH2 S IH0 L UW1 ZH AH0 N M AH0 N T
+disinfect D IH0 S IH0 N F EH1 K T
+disinfectant D IH0 S IH0 N F EH1 K T AH0 N T
+disintegrate D IH0 S IH1 N T AH0 G R EY2 T
+disintegrated D IH0 S IH1 N T AH0 G R EY2 T IH0 D
+disinterested D IH0 S IH1 N T R IH0 S T IH0 D
+disk D IH1 S K
+diskette D IH0 S K EH1 T
+disks D IH1 S K S
+dislike D IH0 S L AY1 K
+disliked D IH0 S L AY1 K T
+dislikes D IH0 S L AY1 K S
+dislocated D IH1 S L OW0 K EY0 T IH0 D
+dislocation D IH0 S L OW1 K EY1 SH AH0 N
+dislodge D IH0 S L AA1 JH
+dislodged D IH0 S L AA1 JH D
+disloyal D IH0 S L OY1 AH0 L
+disloyalty D IH0 S L OY1 AH0 L T IY0
+dismal D IH1 Z M AH0 L
+dismantle D IH0 S M AE1 N T AH0 L
+dismantled D IH0 S M AE1 N T AH0 L D
+dismantling D IH0 S M AE1 N T AH0 L IH0 NG
+dismay D IH0 S M EY1
+dismayed D IH0 S M EY1 D
+dismember D IH0 S M EH1 M B ER0
+dismembered D IH0 S M EH1 M B ER0 D
+dismemberment D IH0 S M EH1 M B ER0 M AH0 N T
+dismiss D IH0 S M IH1 S
+dismissal D IH0 S M IH1 S AH0 L
+dismissed D IH0 S M IH1 S T
+dismissing D IH0 S M IH1 S IH0 NG
+dismissive D IH0 S M IH1 S IH0 V
+disney D IH1 Z N IY0
+disneyland D IH1 Z N IY0 L AE2 N D
+disobedience D IH2 S AH0 B IY1 D IY0 AH0 N S
+disobey D IH2 S AH0 B EY1
+disobeyed D IH2 S OW0 B EY1 D
+disobeying D IH2 S OW0 B EY1 IH0 NG
+disorder D IH0 S AO1 R D ER0
+disorderly D IH0 S AO1 R D ER0 L IY0
+disorders D IH0 S AO1 R D ER0 Z
+disorganized D IH0 S AO1 R G AH0 N AY2 Z D
+disorientation D IH0 S AO2 R IY0 AH0 N T EY1 SH AH0 N
+disoriented D IH0 S AO1 R IY0 EH2 N T IH0 D
+disown D IH0 S OW1 N
+disowned D IH0 S OW1 N D
+disparage D IH0 S P EH1 R IH0 JH
+disparaged D IH0 S P EH1 R IH0 JH D
+disparaging D IH0 S P EH1 R IH0 JH IH0 NG
+dispatch D IH0 S P AE1 CH
+dispatched D IH0 S P AE1 CH T
+dispatcher D IH0 S P AE1 CH ER0
+dispatches D IH0 S P AE1 CH IH0 Z
+dispatching D IH0 S P AE1 CH IH0 NG
+dispel D IH0 S P EH1 L
+dispensary D IH0 S P EH1 N S ER0 IY0
+dispensation D IH2 S P AH0 N S EY1 SH AH0 N
+dispense D IH0 S P EH1 N S
+dispensed D IH0 S P EH1 N S T
+dispenser D IH0 S P EH1 N S ER0
+dispensing D IH0 S P EH1 N S IH0 NG
+dispersal D IH0 S P ER1 S AH0 L
+disperse D IH0 S P ER1 S
+dispersed D IH0 S P ER1 S T
+displace D IH0 S P L EY1 S
+displaced D IH0 S P L EY1 S T
+displacement D IH0 S P L EY1 S M AH0 N T
+display D IH0 S P L EY1
+displayed D IH0 S P L EY1 D
+displaying D IH0 S P L EY1 IH0 NG
+displays D IH0 S P L EY1 Z
+displease D IH0 S P L IY1 Z
+displeased D IH0 S P L IY1 Z D
+displeasure D IH0 S P L EH1 ZH ER0
+disposable D IH0 S P OW1 Z AH0 B AH0 L
+disposal D IH0 S P OW1 Z AH0 L
+dispose D IH0 S P OW1 Z
+disposed D IH0 S P OW1 Z D
+disposing D IH0 S P OW1 Z IH0 NG
+disposition D IH2 S P AH0 Z IH1 SH AH0 N
+disproportionate D IH2 S P R AH0 P AO1 R SH AH0 N IH0 T
+disprove D IH0 S P R UW1 V
+dispute D IH0 S P Y UW1 T
+disputes D IH0 S P Y UW1 T S
+disputing D IH0 S P Y UW1 T IH0 NG
+disqualification D IH0 S K W AA2 L AH0 F AH0 K EY1 SH AH0 N
+disqualified D IH0 S K W AA1 L AH0 F AY2 D
+disqualify D IH0 S K W AA1 L AH0 F AY2
+disregard D IH2 S R IH0 G AA1 R D
+disregarding D IH2 S R IH0 G AA1 R D IH0 NG
+disrespect D IH2 S R IH0 S P EH1 K T
+disrespected D IH2 S R IH0 S P EH1 K T IH0 D
+disrespectful D IH2 S R IH0 S P EH1 K T F AH0 L
+disrespecting D IH2 S R IH0 S P EH1 K T IH0 NG
+disrupt D IH0 S R AH1 P T
+disrupted D IH0 S R AH1 P T IH0 D
+disrupting D IH0 S R AH1 P T IH0 NG
+disruption D IH0 S R AH1 P SH AH0 N
+disruptive D IH0 S R AH1 P T IH0 V
+disrupts D IH0 S R AH1 P T S
+diss D IH1 S
+dissatisfaction D IH2 S AE0 T IH0 S F AE1 K SH AH0 N
+dissatisfied D IH0 S AE1 T AH0 S F AY2 D
+dissect D AY0 S EH1 K T
+dissected D AY0 S EH1 K T AH0 D
+dissecting D AY0 S EH1 K T IH0 NG
+dissection D AY0 S EH1 K SH AH0 N
+dissension D IH0 S EH1 N SH AH0 N
+dissent D IH0 S EH1 N T
+dissertation D IH2 S ER0 T EY1 SH AH0 N
+disservice D IH0 S ER1 V AH0 S
+dissimilar D IH0 S IH1 M AH0 L ER0
+dissing D IH1 S IH0 NG
+dissipated D IH1 S AH0 P EY2 T IH0 D
+dissolve D IH0 Z AA1 L V
+dissolved D IH0 Z AA1 L V D
+dissolves D IH0 Z AA1 L V Z
+dissolving D IH0 Z AO1 L V IH0 NG
+dissuade D IH0 S W EY1 D
+distal D IH1 S T AH0 L
+distance D IH1 S T AH0 N S
+distances D IH1 S T AH0 N S AH0 Z
+distant D IH1 S T AH0 N T
+distaste D IH0 S T EY1 S T
+distasteful D IH0 S T EY1 S T F AH0 L
+distended D IH0 S T EH1 N D IH0 D
+distilled D IH0 S T IH1 L D
+distillery D IH0 S T IH1 L ER0 IY0
+distinct D IH0 S T IH1 NG K T
+distinction D IH0 S T IH1 NG K SH AH0 N
+distinctions D IH0 S T IH1 NG K SH AH0 N Z
+distinctive D IH0 S T IH1 NG K T IH0 V
+distinctly D IH0 S T IH1 NG K T L IY0
+distinguish D IH0 S T IH1 NG G W IH0 SH
+distinguished D IH0 S T IH1 NG G W IH0 SH T
+distinguishing D IH0 S T IH1 NG G W IH0 SH IH0 NG
+distort D IH0 S T AO1 R T
+distorted D IH0 S T AO1 R T AH0 D
+distorting D IH0 S T AO1 R T IH0 NG
+distortion D IH0 S T AO1 R SH AH0 N
+distortions D IH0 S T AO1 R SH AH0 N Z
+distract D IH0 S T R AE1 K T
+distracted D IH0 S T R AE1 K T AH0 D
+distracting D IH0 S T R AE1 K T IH0 NG
+distraction D IH0 S T R AE1 K SH AH0 N
+distractions D IH0 S T R AE1 K SH AH0 N Z
+distracts D IH0 S T R AE1 K T S
+distraught D IH0 S T R AO1 T
+distress D IH0 S T R EH1 S
+distressed D IH0 S T R EH1 S T
+distressing D IH0 S T R EH1 S IH0 NG
+distribute D IH0 S T R IH1 B Y UW0 T
+distributed D IH0 S T R IH1 B Y AH0 T AH0 D
+distributing D IH0 S T R IH1 B Y UW0 T IH0 NG
+distribution D IH2 S T R AH0 B Y UW1 SH AH0 N
+distributor D IH0 S T R IH1 B Y AH0 T ER0
+distributors D IH0 S T R IH1 B Y AH0 T ER0 Z
+district D IH1 S T R IH0 K T
+districts D IH1 S T R IH0 K T S
+distrust D IH0 S T R AH1 S T
+disturb D IH0 S T ER1 B
+disturbance D IH0 S T ER1 B AH0 N S
+disturbances D IH0 S T ER1 B AH0 N S AH0 Z
+disturbed D IH0 S T ER1 B D
+disturbing D IH0 S T ER1 B IH0 NG
+disturbs D IH0 S T ER1 B Z
+ditch D IH1 CH
+ditched D IH1 CH T
+ditches D IH1 CH AH0 Z
+ditching D IH1 CH IH0 NG
+ditto D IH1 T OW0
+ditty D IH1 T IY0
+diva D IY1 V AH0
+dive D AY1 V
+dived D AY1 V D
+diver D AY1 V ER0
+divers D AY1 V ER0 Z
+diverse D AY0 V ER1 S
+diversify D AY0 V ER1 S AH0 F AY2
+diversion D AY0 V ER1 ZH AH0 N
+diversionary D AY0 V ER1 ZH AH0 N EH2 R IY0
+diversions D IH0 V ER1 ZH AH0 N Z
+diversity D IH0 V ER1 S IH0 T IY0
+divert D AY0 V ER1 T
+diverted D AY0 V ER1 T IH0 D
+diverting D AY0 V ER1 T IH0 NG
+dives D AY1 V Z
+divide D IH0 V AY1 D
+divided D IH0 V AY1 D IH0 D
+dividend D IH1 V IH0 D EH2 N D
+dividends D IH1 V AH0 D EH2 N D Z
+divides D IH0 V AY1 D Z
+dividing D IH0 V AY1 D IH0 NG
+divine D IH0 V AY1 N
+divinely D IH0 V AY1 N L IY0
+diving D AY1 V IH0 NG
+divinity D IH0 V IH1 N AH0 T IY0
+division D IH0 V IH1 ZH AH0 N
+divisional D IH0 V IH1 ZH AH0 N AH0 L
+divisions D IH0 V IH1 ZH AH0 N Z
+divorce D IH0 V AO1 R S
+divorced D IH0 V AO1 R S T
+divorcee D AH0 V AO1 R S IY2
+divorces D IH0 V AO1 R S IH0 Z
+divorcing D IH0 V AO1 R S IH0 NG
+divulge D IH0 V AH1 L JH
+divvy D IH1 V IY0
+dix D IH1 K S
+dixie D IH1 K S IY0
+dixieland D IH1 K S IY0 L AE2 N D
+dizziness D IH1 Z IY0 N AH0 S
+dizzy D IH1 Z IY0
+dj D IY1 JH EY1
+dk D IY1 K EY1
+do D UW1
+doable D UW1 AH0 B AH0 L
+doberman D OW1 B ER0 M AH0 N
+dobie D AA1 B IY0
+dobson D AA1 B S AH0 N
+doc D AA1 K
+docile D AA1 S AH0 L
+dock D AA1 K
+docked D AA1 K T
+docket D AA1 K AH0 T
+docking D AA1 K IH0 NG
+docks D AA1 K S
+docs D AA1 K S
+doctor D AA1 K T ER0
+doctoral D AA1 K T ER0 AH0 L
+doctorate D AA1 K T ER0 AH0 T
+doctored D AA1 K T ER0 D
+doctoring D AA1 K T ER0 IH0 NG
+doctors D AA1 K T ER0 Z
+doctrine D AA1 K T R AH0 N
+document D AA1 K Y AH0 M EH0 N T
+documentaries D AA2 K Y AH0 M EH1 N T ER0 IY0 Z
+documentary D AA2 K Y AH0 M EH1 N T ER0 IY0
+documentation D AA2 K Y AH0 M EH0 N T EY1 SH AH0 N
+documented D AA1 K Y AH0 M EH2 N T AH0 D
+documenting D AA1 K Y AH0 M AH0 N T IH0 NG
+documents D AA1 K Y AH0 M AH0 N T S
+dodd D AA1 D
+dodge D AA1 JH
+dodged D AA1 JH D
+dodger D AA1 JH ER0
+dodgers D AA1 JH ER0 Z
+dodging D AA1 JH IH0 NG
+dodo D OW1 D OW0
+doe D OW1
+doer D UW1 R
+does D AH1 Z
+doesn't D AH1 Z AH0 N T
+dog D AO1 G
+dogged D AO1 G D
+doggie D AO1 G IY0
+doggies D AO1 G IY0 Z
+dogging D AO1 G IH0 NG
+doggone D AO1 G AO0 N
+doggy D AO1 G IY0
+doghouse D AO1 G HH AW2 S
+dogma D AA1 G M AH0
+dogs D AA1 G Z
+doh D OW1
+doily D OY1 L IY0
+doing D UW1 IH0 NG
+doings D UW1 IH0 NG Z
+dolce D OW1 L CH EY2
+dole D OW1 L
+doling D OW1 L IH0 NG
+doll D AA1 L
+dollar D AA1 L ER0
+dollars D AA1 L ER0 Z
+dolled D AA1 L D
+dollhouse D AA1 L HH AW2 S
+dolls D AA1 L Z
+dolly D AA1 L IY0
+dolores D AH0 L AO1 R IH0 S
+dolphin D AA1 L F AH0 N
+dolphins D AA1 L F AH0 N Z
+dom D AA1 M
+domain D OW0 M EY1 N
+dome D OW1 M
+domestic D AH0 M EH1 S T IH0 K
+domesticated D AH0 M EH1 S T AH0 K EY2 T AH0 D
+domesticity D OW2 M EH2 S T IH1 S AH0 T IY0
+dominance D AA1 M AH0 N AH0 N S
+dominant D AA1 M AH0 N AH0 N T
+dominate D AA1 M AH0 N EY2 T
+dominated D AA1 M AH0 N EY2 T AH0 D
+dominates D AA1 M AH0 N EY2 T S
+dominating D AA1 M AH0 N EY2 T IH0 NG
+domination D AA2 M AH0 N EY1 SH AH0 N
+domineering D AA2 M AH0 N IH1 R IH0 NG
+domini D AA1 M IH0 N IY0
+dominican D AH0 M IH1 N AH0 K AH0 N
+dominicans D OW0 M IH1 N IH0 K AH0 N Z
+dominick D AA1 M AH0 N IH0 K
+dominion D AH0 M IH1 N Y AH0 N
+dominique D AO0 M IH0 N IY1 K
+domino D AA1 M AH0 N OW2
+dominoes D AA1 M AH0 N OW2 Z
+don D AA1 N
+don't D OW1 N T
+donald D AA1 N AH0 L D
+donate D OW1 N EY2 T
+donated D OW1 N EY2 T IH0 D
+donates D OW1 N EY2 T S
+donating D OW1 N EY2 T IH0 NG
+donation D OW0 N EY1 SH AH0 N
+donations D OW0 N EY1 SH AH0 N Z
+done D AH1 N
+dong D AO1 NG
+donkey D AA1 NG K IY0
+donkeys D AA1 NG K IY0 Z
+donna D AA1 N AH0
+donnas D AA1 N AH0 Z
+donne D AH1 N
+donny D AA1 N IY0
+donor D OW1 N ER0
+donors D OW1 N ER0 Z
+donovan D AA1 N AH0 V AH0 N
+dons D AA1 N Z
+donut D OW1 N AH2 T
+donuts D OW1 N AH2 T S
+doo D UW1
+doodle D UW1 D AH0 L
+doodles D UW1 D AH0 L Z
+dooley D UW1 L IY0
+doom D UW1 M
+doomed D UW1 M D
+doomsday D UW1 M Z D EY2
+door D AO1 R
+doorbell D AO1 R B EH2 L
+doorknob D UW1 R N AA0 B
+doorknobs D UW1 R N AA0 B Z
+doorman D AO1 R M AE2 N
+doormat D AO1 R M AE2 T
+doornail D AO1 R N EY2 L
+doors D AO1 R Z
+doorstep D AO1 R S T EH2 P
+doorway D AO1 R W EY2
+doorways D AO1 R W EY2 Z
+doozy D UW1 Z IY0
+dopamine D AA1 P AH0 M AY2 N
+dope D OW1 P
+doped D OW1 P T
+dopey D OW1 P IY0
+doppler D AA1 P L ER0
+dora D AO1 R AH0
+dorado D AO0 R AA1 D OW0
+dorian D AO1 R IY0 AH0 N
+doris D AO1 R AH0 S
+dorm D AO1 R M
+dormant D AO1 R M AH0 N T
+dormitory D AO1 R M AH0 T AO2 R IY0
+dorms D AO1 R M Z
+dorothy D AO1 R AH0 TH IY0
+dorsal D AO1 R S AH0 L
+dort D AO1 R T
+dory D AO1 R IY0
+dos D AO1 S
+dosage D OW1 S AH0 JH
+dose D OW1 S
+doses D OW1 S AH0 Z
+dossier D AO2 S Y EY1
+dossiers D AO2 S Y EY1 Z
+dost D AA1 S T
+dot D AA1 T
+doth D AO1 TH
+doting D OW1 T IH0 NG
+dots D AA1 T S
+dotted D AA1 T AH0 D
+dotty D AA1 T IY0
+double D AH1 B AH0 L
+doubled D AH1 B AH0 L D
+doubles D AH1 B AH0 L Z
+doubling D AH1 B AH0 L IH0 NG
+doubly D AH1 B L IY0
+doubt D AW1 T
+doubted D AW1 T IH0 D
+doubtful D AW1 T F AH0 L
+doubting D AW1 T IH0 NG
+doubtless D AW1 T L AH0 S
+doubts D AW1 T S
+douche D UW1 SH
+dough D OW1
+doughboy D OW1 B OY2
+doughnut D OW1 N AH2 T
+doughnuts D OW1 N AH2 T S
+doughy D OW1 IY0
+douglas D AH1 G L AH0 S
+douse D AW1 S
+doused D AW1 S T
+dove D AH1 V
+dover D OW1 V ER0
+doves D AH1 V Z
+dow D AW1
+dowager D AW1 AH0 JH ER0
+dowd D AW1 D
+down D AW1 N
+downed D AW1 N D
+downer D AW1 N ER0
+downers D AW1 N ER0 Z
+downfall D AW1 N F AO2 L
+downhill D AW1 N HH IH1 L
+downing D AW1 N IH0 NG
+download D AW1 N L OW2 D
+downloaded D AW1 N L OW2 D IH0 D
+downloading D AW1 N L OW2 D IH0 NG
+downright D AW1 N R AY2 T
+downriver D AW2 N R IH1 V ER0
+downs D AW1 N Z
+downside D AW1 N S AY2 D
+downsized D AW1 N S AY2 Z D
+downsizing D AW1 N S AY2 Z IH0 NG
+downstairs D AW1 N S T EH1 R Z
+downstate D AW1 N S T EY2 T
+downstream D AW1 N S T R IY1 M
+downtime D AW1 N T AY2 M
+downtown D AW1 N T AW1 N
+downtrodden D AW2 N T R AA1 D AH0 N
+downward D AW1 N W ER0 D
+downwind D AW0 N W IH1 N D
+downy D AW1 N IY0
+dowry D AW1 R IY0
+doze D OW1 Z
+dozed D OW1 Z D
+dozen D AH1 Z AH0 N
+dozens D AH1 Z AH0 N Z
+dozing D OW1 Z IH0 NG
+dr D R AY1 V
+drab D R AE1 B
+draco D R EY1 K OW0
+draft D R AE1 F T
+drafted D R AE1 F T IH0 D
+drafting D R AE1 F T IH0 NG
+drafts D R AE1 F T S
+drafty D R AE1 F T IY0
+drag D R AE1 G
+dragged D R AE1 G D
+dragging D R AE1 G IH0 NG
+dragnet D R AE1 G N EH2 T
+drago D R AA1 G OW0
+dragon D R AE1 G AH0 N
+dragons D R AE1 G AH0 N Z
+drags D R AE1 G Z
+drain D R EY1 N
+drainage D R EY1 N AH0 JH
+drained D R EY1 N D
+draining D R EY1 N IH0 NG
+drains D R EY1 N Z
+drake D R EY1 K
+drama D R AA1 M AH0
+dramamine D R AE1 M AH0 M IY2 N
+dramas D R AA1 M AH0 Z
+dramatic D R AH0 M AE1 T IH0 K
+dramatically D R AH0 M AE1 T IH0 K L IY0
+dramatics D R AH0 M AE1 T IH0 K S
+drank D R AE1 NG K
+drape D R EY1 P
+draped D R EY1 P T
+draper D R EY1 P ER0
+drapes D R EY1 P S
+drastic D R AE1 S T IH0 K
+drastically D R AE1 S T IH0 K L IY0
+draught D R AE1 F T
+draw D R AO1
+drawback D R AO1 B AE2 K
+drawbacks D R AO1 B AE2 K S
+drawbridge D R AO1 B R IH2 JH
+drawer D R AO1 R
+drawers D R AO1 R Z
+drawing D R AO1 IH0 NG
+drawings D R AO1 IH0 NG Z
+drawn D R AO1 N
+draws D R AO1 Z
+dread D R EH1 D
+dreaded D R EH1 D IH0 D
+dreadful D R EH1 D F AH0 L
+dreadfully D R EH1 D F AH0 L IY0
+dreading D R EH1 D IH0 NG
+dream D R IY1 M
+dreamed D R IY1 M D
+dreamer D R IY1 M ER0
+dreamers D R IY1 M ER0 Z
+dreaming D R IY1 M IH0 NG
+dreamland D R IY1 M L AE2 N D
+dreams D R IY1 M Z
+dreamt D R EH1 M T
+dreamy D R IY1 M IY0
+dreary D R IH1 R IY0
+dredge D R EH1 JH
+dredging D R EH1 JH IH0 NG
+dregs D R EH1 G Z
+drenched D R EH1 N CH T
+dresden D R EH1 Z D IH0 N
+dress D R EH1 S
+dressed D R EH1 S T
+dresser D R EH1 S ER0
+dresses D R EH1 S AH0 Z
+dressing D R EH1 S IH0 NG
+dressings D R EH1 S IH0 NG Z
+dressmaker D R EH1 S M EY2 K ER0
+dressy D R EH1 S IY0
+drew D R UW1
+drey D R EY1
+dribble D R IH1 B AH0 L
+dribbles D R IH1 B AH0 L Z
+dribbling D R IH1 B AH0 L IH0 NG
+dried D R AY1 D
+drier D R AY1 ER0
+dries D R AY1 Z
+drift D R IH1 F T
+drifted D R IH1 F T AH0 D
+drifter D R IH1 F T ER0
+drifters D R IH1 F T ER0 Z
+drifting D R IH1 F T IH0 NG
+drifts D R IH1 F T S
+driftwood D R IH1 F T W UH2 D
+drill D R IH1 L
+drilled D R IH1 L D
+drilling D R IH1 L IH0 NG
+drills D R IH1 L Z
+drink D R IH1 NG K
+drinker D R IH1 NG K ER0
+drinkers D R IH1 NG K ER0 Z
+drinking D R IH1 NG K IH0 NG
+drinks D R IH1 NG K S
+drip D R IH1 P
+dripped D R IH1 P T
+dripping D R IH1 P IH0 NG
+drips D R IH1 P S
+drive D R AY1 V
+drivel D R IH1 V AH0 L
+driven D R IH1 V AH0 N
+driver D R AY1 V ER0
+drivers D R AY1 V ER0 Z
+drives D R AY1 V Z
+driveway D R AY1 V W EY2
+driving D R AY1 V IH0 NG
+drizzle D R IH1 Z AH0 L
+droll D R OW1 L
+drone D R OW1 N
+drones D R OW1 N Z
+droning D R OW1 N IH0 NG
+drool D R UW1 L
+drooled D R UW1 L D
+drooling D R UW1 L IH0 NG
+droop D R UW1 P
+droopy D R UW1 P IY0
+drop D R AA1 P
+dropout D R AA1 P AW2 T
+dropped D R AA1 P T
+dropper D R AA1 P ER0
+dropping D R AA1 P IH0 NG
+droppings D R AA1 P IH0 NG Z
+drops D R AA1 P S
+drought D R AW1 T
+drove D R OW1 V
+droves D R OW1 V Z
+drown D R AW1 N
+drowned D R AW1 N D
+drowning D R AW1 N IH0 NG
+drowns D R AW1 N Z
+drowsy D R AW1 Z IY0
+drug D R AH1 G
+drugged D R AH1 G D
+druggie D R AH1 G IY0
+drugging D R AH1 G IH0 NG
+druggist D R AH1 G IH0 S T
+drugs D R AH1 G Z
+drugstore D R AH1 G S T AO2 R
+drugstores D R AH1 G S T AO2 R Z
+druid D R UW1 IH0 D
+druids D R UW1 IH0 D Z
+drum D R AH1 M
+drummed D R AH1 M D
+drummer D R AH1 M ER0
+drummers D R AH1 M ER0 Z
+drumming D R AH1 M IH0 NG
+drums D R AH1 M Z
+drumstick D R AH1 M S T IH0 K
+drunk D R AH1 NG K
+drunkard D R AH1 NG K ER0 D
+drunken D R AH1 NG K AH0 N
+drunkenness D R AH1 NG K AH0 N N AH0 S
+drunks D R AH1 NG K S
+druthers D R AH1 DH ER0 Z
+dry D R AY1
+dryer D R AY1 ER0
+drying D R AY1 IH0 NG
+drywall D R AY1 W AA2 L
+du D UW1
+dual D UW1 AH0 L
+duality D UW0 AE1 L AH0 T IY0
+dub D AH1 B
+dubbed D AH1 B D
+dubious D UW1 B IY0 AH0 S
+dublin D AH1 B L IH0 N
+duc D AH1 K
+ducal D UW1 K AH0 L
+duce D UW1 S
+duchess D AH1 CH AH0 S
+duck D AH1 K
+ducked D AH1 K T
+ducking D AH1 K IH0 NG
+duckling D AH1 K L IH0 NG
+ducks D AH1 K S
+ducky D AH1 K IY2
+duct D AH1 K T
+ducts D AH1 K T S
+dud D AH1 D
+dude D UW1 D
+dudes D Y UW1 D Z
+dudley D AH1 D L IY0
+duds D AH1 D Z
+due D UW1
+duel D UW1 AH0 L
+dueling D UW1 L IH0 NG
+duels D UW1 AH0 L Z
+dues D UW1 Z
+duet D UW0 EH1 T
+duff D AH1 F
+duffel D AH1 F AH0 L
+duffer D AH1 F ER0
+duffy D AH1 F IY0
+dug D AH1 G
+dugout D AH1 G AW2 T
+duh D AH1
+duke D UW1 K
+dukes D UW1 K S
+dull D AH1 L
+duller D AH1 L ER0
+dullest D AH1 L AH0 S T
+duluth D AH0 L UW1 TH
+duly D UW1 L IY0
+dum D AH1 M
+duma D UW1 M AH0
+dumb D AH1 M
+dumbbell D AH1 M B EH2 L
+dumber D AH1 M ER0
+dumbest D AH1 M AH0 S T
+dumbledore D AH1 M B AH0 L D AO2 R
+dumbo D AH1 M B OW0
+dummies D AH1 M IY0 Z
+dummy D AH1 M IY0
+dump D AH1 M P
+dumped D AH1 M P T
+dumping D AH1 M P IH0 NG
+dumpling D AH1 M P L IH0 NG
+dumplings D AH1 M P L IH0 NG Z
+dumps D AH1 M P S
+dumpster D AH1 M P S T ER0
+dumpsters D AH1 M P S T ER0 Z
+dumpty D AH1 M P T IY0
+dumpy D AH1 M P IY0
+dundee D AH0 N D IY1
+dune D UW1 N
+dunes D UW1 N Z
+dung D AH1 NG
+dungeon D AH1 N JH AH0 N
+dungeons D AH1 N JH AH0 N Z
+dunk D AH1 NG K
+dunked D AH1 NG K T
+dunkirk D AH1 N K ER0 K
+dunne D AH1 N
+dunno D AH0 N OW1
+duo D UW1 OW0
+duodenum D UW0 AA1 D AH0 N AH0 M
+dupe D UW1 P
+duped D UW1 P T
+duper D UW1 P ER0
+duplex D UW1 P L EH2 K S
+duplicate D UW1 P L AH0 K AH0 T
+duplicated D UW1 P L IH0 K EY2 T IH0 D
+duplicates D Y UW1 P L AH0 K EY2 T S
+durable D UH1 R AH0 B AH0 L
+durant D UH1 R AH0 N T
+duration D UH1 R EY1 SH AH0 N
+duress D UH1 R EH0 S
+durham D ER1 AH0 M
+during D UH1 R IH0 NG
+dusk D AH1 S K
+dust D AH1 S T
+dusted D AH1 S T IH0 D
+duster D AH1 S T ER0
+dusting D AH1 S T IH0 NG
+dusty D AH1 S T IY0
+dutch D AH1 CH
+dutchman D AH1 CH M AH0 N
+duties D UW1 T IY0 Z
+dutiful D UW1 T IY0 F AH0 L
+duty D UW1 T IY0
+dux D AH1 K S
+dwarf D W AO1 R F
+dwarfs D W AO1 R F S
+dwarves D W AO1 R V Z
+dweeb D W IY1 B
+dwell D W EH1 L
+dwellers D W EH1 L ER0 Z
+dwelling D W EH1 L IH0 NG
+dwells D W EH1 L Z
+dwight D W AY1 T
+dwindling D W IH1 N D AH0 L IH0 NG
+dye D AY1
+dyed D AY1 D
+dyer D AY1 ER0
+dyes D AY1 Z
+dying D AY1 IH0 NG
+dyke D AY1 K
+dykes D AY1 K S
+dynamic D AY0 N AE1 M IH0 K
+dynamics D AY0 N AE1 M IH0 K S
+dynamite D AY1 N AH0 M AY2 T
+dynamo D AY1 N AH0 M OW2
+dynasty D AY1 N AH0 S T IY0
+dysentery D IH1 S AH0 N T EH2 R IY0
+dysfunction D IH0 S F AH1 NG K SH AH0 N
+dysfunctional D IH0 S F AH1 NG K SH AH0 N AH0 L
+dyslexia D IH0 S L EH1 K S IY0 AH0
+dyslexic D IH0 S L EH1 K S IH0 K
+e IY1
+each IY1 CH
+eager IY1 G ER0
+eagerly IY1 G ER0 L IY0
+eagerness IY1 G ER0 N AH0 S
+eagle IY1 G AH0 L
+eagles IY1 G AH0 L Z
+ear IY1 R
+earful IY1 R F AH2 L
+earl ER1 L
+earlier ER1 L IY0 ER0
+earliest ER1 L IY0 AH0 S T
+early ER1 L IY0
+earmuffs IH1 R M AH2 F S
+earn ER1 N
+earned ER1 N D
+earner ER1 N ER0
+earnest ER1 N IH0 S T
+earning ER1 N IH0 NG
+earnings ER1 N IH0 NG Z
+earns ER1 N Z
+earphones IH1 R F OW2 N Z
+earpiece IH1 R P IY0 S
+earplugs IH1 R P L AH2 G Z
+earring IH1 R IH0 NG
+earrings IH1 R IH0 NG Z
+ears IH1 R Z
+earshot IH1 R SH AA2 T
+earth ER1 TH
+earthbound ER1 TH B AW2 N D
+earthling ER1 TH L IH0 NG
+earthlings ER1 TH L IH0 NG Z
+earthly ER1 TH L IY0
+earthquake ER1 TH K W EY2 K
+earthquakes ER1 TH K W EY2 K S
+earthy ER1 TH IY0
+ease IY1 Z
+eased IY1 Z D
+easel IY1 Z AH0 L
+eases IY1 Z IH0 Z
+easier IY1 Z IY0 ER0
+easiest IY1 Z IY0 AH0 S T
+easily IY1 Z AH0 L IY0
+easing IY1 Z IH0 NG
+east IY1 S T
+eastbound IY1 S T B AW2 N D
+easter IY1 S T ER0
+eastern IY1 S T ER0 N
+eastman IY1 S T M AH0 N
+easy IY1 Z IY0
+easygoing IY1 Z IY0 G OW1 IH0 NG
+eat IY1 T
+eaten IY1 T AH0 N
+eater IY1 T ER0
+eaters IY1 T ER0 Z
+eating IY1 T IH0 NG
+eats IY1 T S
+eau OW1
+eavesdrop IY1 V Z D R AA2 P
+eavesdropping IY1 V Z D R AA2 P IH0 NG
+ebb EH1 B
+ebenezer EH2 B IH0 N IY1 Z ER0
+ebony EH1 B AH0 N IY0
+eccentric IH0 K S EH1 N T R IH0 K
+eccentricities EH2 K S EH0 N T R IH1 S IH0 T IY0 Z
+echelon EH1 SH AH0 L AA2 N
+echidna IH0 K IH1 D N AH0
+echo EH1 K OW0
+echoes EH1 K OW0 Z
+echoing EH1 K OW0 IH0 NG
+eclectic IH0 K L EH1 K T IH0 K
+eclipse IH0 K L IH1 P S
+ecological IY0 K AH0 L AA1 JH IH0 K AH0 L
+ecology IH0 K AA1 L AH0 JH IY0
+econ IY1 K AA2 N
+economic EH2 K AH0 N AA1 M IH0 K
+economical EH2 K AH0 N AA1 M IH0 K AH0 L
+economically EH2 K AH0 N AA1 M IH0 K L IY0
+economics EH2 K AH0 N AA1 M IH0 K S
+economies IH0 K AA1 N AH0 M IY0 Z
+economy IH0 K AA1 N AH0 M IY0
+ecosystem IY1 K OW0 S IH2 S T AH0 M
+ecstasy EH1 K S T AH0 S IY0
+ecstatic EH0 K S T AE1 T IH0 K
+ecuador EH1 K W AH0 D AO2 R
+ed EH1 D
+eddy EH1 D IY0
+edelweiss EY1 D AH0 L V AY2 S
+edema IH0 D IY1 M AH0
+eden IY1 D AH0 N
+edgar EH1 D G ER0
+edge EH1 JH
+edges EH1 JH AH0 Z
+edgewise EH1 JH W AY2 Z
+edging EH1 JH IH0 NG
+edgy EH1 JH IY0
+edible EH1 D AH0 B AH0 L
+edict IY1 D IH0 K T
+edification EH2 D AH0 F AH0 K EY1 SH AH0 N
+edifice EH1 D AH0 F AH0 S
+edinburgh EH1 D AH0 N B ER0 OW0
+edison EH1 D IH0 S AH0 N
+edit EH1 D AH0 T
+edited EH1 D AH0 T AH0 D
+edith IY1 D IH0 TH
+editing EH1 D AH0 T IH0 NG
+edition AH0 D IH1 SH AH0 N
+editions IH0 D IH1 SH AH0 N Z
+editor EH1 D AH0 T ER0
+editorial EH2 D AH0 T AO1 R IY0 AH0 L
+editorials EH2 D AH0 T AO1 R IY0 AH0 L Z
+editors EH1 D IH0 T ER0 Z
+educate EH1 JH AH0 K EY2 T
+educated EH1 JH AH0 K EY2 T IH0 D
+educating EH1 JH AH0 K EY2 T IH0 NG
+education EH2 JH AH0 K EY1 SH AH0 N
+educational EH2 JH AH0 K EY1 SH AH0 N AH0 L
+educator EH1 JH AH0 K EY2 T ER0
+edward EH1 D W ER0 D
+edwards EH1 D W ER0 D Z
+ee IY1
+eel IY1 L
+eels IY1 L Z
+eerie IH1 R IY0
+effect IH0 F EH1 K T
+effected IH0 F EH1 K T IH0 D
+effective IH0 F EH1 K T IH0 V
+effectively IH0 F EH1 K T IH0 V L IY0
+effectiveness IH0 F EH1 K T IH0 V N AH0 S
+effects IH0 F EH1 K T S
+effeminate IY0 F EH1 M IH0 N AH0 T
+efficacy EH1 F IH0 K AE2 S IY0
+efficiency IH0 F IH1 SH AH0 N S IY0
+efficient IH0 F IH1 SH AH0 N T
+efficiently IH0 F IH1 SH AH0 N T L IY0
+effigy EH1 F IH0 JH IY0
+effort EH1 F ER0 T
+effortless EH1 F ER0 T L AH0 S
+efforts EH1 F ER0 T S
+effrontery IH0 F R AH1 N T ER0 IY0
+egg EH1 G
+egghead EH1 G HH EH2 D
+eggheads EH1 G HH EH2 D Z
+eggnog EH1 G N AO2 G
+eggplant EH1 G P L AE2 N T
+eggs EH1 G Z
+eggshell EH1 G SH EH2 L
+eggshells EH1 G SH EH2 L Z
+ego IY1 G OW0
+egomaniac IY2 G OW0 M EY1 N IY0 AE0 K
+egos IY1 G OW0 Z
+egotistical IY2 G AH0 T IH1 S T IH0 K AH0 L
+egregious IH0 G R IY1 JH AH0 S
+egypt IY1 JH AH0 P T
+egyptian IH0 JH IH1 P SH AH0 N
+egyptians IH0 JH IH1 P SH AH0 N Z
+eh EH1
+eiffel AY1 F AH0 L
+eight EY1 T
+eighteen EY0 T IY1 N
+eighteenth EY0 T IY1 N TH
+eighth EY1 T TH
+eighties EY1 T IY0 Z
+eights EY1 T S
+eighty EY1 T IY0
+einstein AY1 N S T AY0 N
+eisenhower AY1 Z AH0 N HH AW2 ER0
+either IY1 DH ER0
+ejaculate IH0 JH AE1 K Y UW0 L EY2 T
+ejaculation IY0 JH AE2 K Y UW0 L EY1 SH AH0 N
+eject IH0 JH EH1 K T
+ejected IH0 JH EH1 K T IH0 D
+ejection IH0 JH EH1 K SH AH0 N
+el EH1 L
+elaborate IH0 L AE1 B R AH0 T
+elaine IH0 L EY1 N
+elapsed IH0 L AE1 P S T
+elastic IH0 L AE1 S T IH0 K
+elasticity IY2 L AE2 S T IH1 S AH0 T IY0
+elated IH0 L EY1 T AH0 D
+elation IH0 L EY1 SH AH0 N
+elbow EH1 L B OW2
+elbows EH1 L B OW2 Z
+elder EH1 L D ER0
+elderly EH1 L D ER0 L IY0
+elders EH1 L D ER0 Z
+eldest EH1 L D AH0 S T
+eleanor EH1 L AH0 N AO0 R
+elect IH0 L EH1 K T
+elected IH0 L EH1 K T AH0 D
+election IH0 L EH1 K SH AH0 N
+elections IH0 L EH1 K SH AH0 N Z
+elective IH0 L EH1 K T IH0 V
+electoral IH0 L EH1 K T ER0 AH0 L
+electra IH0 L EH1 K T R AH0
+electric IH0 L EH1 K T R IH0 K
+electrical IH0 L EH1 K T R IH0 K AH0 L
+electrically IH0 L EH1 K T R IH0 K AH0 L IY0
+electrician IH0 L EH0 K T R IH1 SH AH0 N
+electricity IH0 L EH2 K T R IH1 S AH0 T IY0
+electrified IH0 L EH1 K T R AH0 F AY2 D
+electrifying IH0 L EH1 K T R AH0 F AY2 IH0 NG
+electro IH0 L EH1 K T R OW0
+electrocute IH2 L EH1 K T R AH0 K Y UW2 T
+electrocuted IH2 L EH1 K T R AH0 K Y UW2 T IH0 D
+electrocution IH2 L EH2 K T R AH0 K Y UW1 SH AH0 N
+electrode IH2 L EH1 K T R OW0 D
+electrodes IH2 L EH1 K T R OW0 D Z
+electrolytes IH0 L EH2 K T R AA0 L AY1 T S
+electromagnetic IH2 L EH2 K T R OW0 M AE0 G N EH1 T IH0 K
+electron IH2 L EH1 K T R AA0 N
+electronic IH2 L EH2 K T R AA1 N IH0 K
+electronically IH2 L EH2 K T R AA1 N IH0 K AH0 L IY2
+electronics IH2 L EH2 K T R AA1 N IH0 K S
+electrons IH2 L EH1 K T R AA0 N Z
+electroshock IH2 L EH1 K T R OW2 SH AA2 K
+elegance EH1 L AH0 G AH0 N S
+elegant EH1 L AH0 G AH0 N T
+elegantly EH1 L IH0 G AH0 N T L IY2
+elektra EH0 L EH1 K T R AH0
+element EH1 L AH0 M AH0 N T
+elemental EH2 L AH0 M EH1 N T AH0 L
+elementary EH2 L AH0 M EH1 N T R IY0
+elements EH1 L AH0 M AH0 N T S
+elephant EH1 L AH0 F AH0 N T
+elephants EH1 L AH0 F AH0 N T S
+elevate EH1 L AH0 V EY2 T
+elevated EH1 L AH0 V EY2 T IH0 D
+elevation EH2 L AH0 V EY1 SH AH0 N
+elevator EH1 L AH0 V EY2 T ER0
+elevators EH1 L AH0 V EY2 T ER0 Z
+eleven IH0 L EH1 V AH0 N
+eleventh IH0 L EH1 V AH0 N TH
+elf EH1 L F
+eli IY1 L AY0
+elicit IH0 L IH1 S IH0 T
+eligibility EH2 L IH0 JH AH0 B IH1 L IH0 T IY0
+eligible EH1 L AH0 JH AH0 B AH0 L
+elijah EH0 L AY1 JH AH0
+eliminate IH0 L IH1 M AH0 N EY2 T
+eliminated IH0 L IH1 M AH0 N EY2 T IH0 D
+eliminates IH0 L IH1 M AH0 N EY2 T S
+eliminating IH0 L IH1 M AH0 N EY2 T IH0 NG
+elimination IH0 L IH2 M AH0 N EY1 SH AH0 N
+elisha EH1 L IH0 SH AH0
+elite IH0 L IY1 T
+elitist EY0 L IY1 T IH0 S T
+elixir IH0 L IH1 K S ER0
+elizabeth IH0 L IH1 Z AH0 B AH0 TH
+elizabethan EH2 L IH0 Z AH0 B IY1 TH AH0 N
+elk EH1 L K
+elks EH1 L K S
+ell EH1 L
+elle EH1 L
+ellen EH1 L AH0 N
+elm EH1 L M
+elmer EH1 L M ER0
+elocution EH2 L AH0 K Y UW1 SH AH0 N
+elongated IH0 L AO1 NG G EY0 T AH0 D
+elope IH0 L OW1 P
+eloped IH0 L OW1 P D
+eloquence EH1 L AH0 K W AH0 N S
+eloquent EH1 L AH0 K W AH0 N T
+eloquently EH1 L AH0 K W AH0 N T L IY0
+else EH1 L S
+elsewhere EH1 L S W EH2 R
+elude IH0 L UW1 D
+eluded IH0 L UW1 D IH0 D
+eluding IH0 L UW1 D IH0 NG
+elusive IH0 L UW1 S IH0 V
+elves EH1 L V Z
+elvis EH1 L V IH0 S
+em EH1 M
+email IY0 M EY1 L
+emails IY0 M EY1 L Z
+emanating EH1 M AH0 N EY2 T IH0 NG
+emancipated IH0 M AE1 N S AH0 P EY2 T IH0 D
+emancipation IH0 M AE2 N S AH0 P EY1 SH AH0 N
+embalmed EH0 M B AA1 M D
+embalming EH0 M B AA1 M IH0 NG
+embankment EH0 M B AE1 NG K M AH0 N T
+embargo EH0 M B AA1 R G OW0
+embark EH0 M B AA1 R K
+embarked EH0 M B AA1 R K T
+embarking EH0 M B AA1 R K IH0 NG
+embarrass IH0 M B EH1 R AH0 S
+embarrassed IH0 M B EH1 R AH0 S T
+embarrasses IH0 M B AE1 R AH0 S IH0 Z
+embarrassing IH0 M B EH1 R AH0 S IH0 NG
+embarrassment IH0 M B EH1 R AH0 S M AH0 N T
+embassies EH1 M B AH0 S IY0 Z
+embassy EH1 M B AH0 S IY0
+embedded EH0 M B EH1 D IH0 D
+embellish IH0 M B EH1 L IH0 SH
+embers EH1 M B ER0 Z
+embezzled IH0 M B EH1 Z AH0 L D
+embezzlement EH0 M B EH1 Z AH0 L M AH0 N T
+embezzler IH0 M B EH1 Z AH0 L ER0
+embezzling IH0 M B EH1 Z AH0 L IH0 NG
+emblem EH1 M B L AH0 M
+embodies EH0 M B AA1 D IY0 Z
+embodiment EH0 M B AA1 D IY0 M AH0 N T
+embody IH0 M B AA1 D IY0
+embolism EH1 M B OW0 L IH2 Z AH0 M
+embrace EH0 M B R EY1 S
+embraced EH0 M B R EY1 S T
+embraces EH0 M B R EY1 S IH0 Z
+embracing EH0 M B R EY1 S IH0 NG
+embroidered EH0 M B R OY1 D ER0 D
+embroidery EH0 M B R OY1 D ER0 IY0
+embryo EH1 M B R IY0 OW2
+embryos EH1 M B R IY0 OW2 Z
+emcee EH1 M S IY1
+emerald EH1 M R AH0 L D
+emeralds EH1 M R AH0 L D Z
+emerge IH0 M ER1 JH
+emerged IH0 M ER1 JH D
+emergencies IH0 M ER1 JH AH0 N S IY0 Z
+emergency IH0 M ER1 JH AH0 N S IY0
+emergent IH0 M ER1 JH AH0 N T
+emerges IH0 M ER1 JH IH0 Z
+emerging IH0 M ER1 JH IH0 NG
+emerson EH1 M ER0 S AH0 N
+emery EH1 M ER0 IY0
+emigrate EH1 M AH0 G R EY2 T
+emigrated EH1 M AH0 G R EY2 T IH0 D
+emily EH1 M IH0 L IY0
+eminence EH1 M AH0 N AH0 N S
+eminent EH1 M AH0 N AH0 N T
+emir IH0 M IH1 R
+emissary EH1 M AH0 S EH2 R IY0
+emission IH0 M IH1 SH AH0 N
+emissions IH0 M IH1 SH AH0 N Z
+emit IH0 M IH1 T
+emits IH0 M IH1 T S
+emitting IH0 M IH1 T IH0 NG
+emma EH1 M AH0
+emmet EH1 M IH0 T
+emmy EH1 M IY0
+emory EH1 M ER0 IY0
+emotion IH0 M OW1 SH AH0 N
+emotional IH0 M OW1 SH AH0 N AH0 L
+emotionally IH0 M OW1 SH N AH0 L IY0
+emotions IH0 M OW1 SH AH0 N Z
+empathize EH1 M P AH0 TH AY2 Z
+empathy EH1 M P AH0 TH IY0
+emperor EH1 M P ER0 ER0
+emperors EH1 M P ER0 ER0 Z
+emphasis EH1 M F AH0 S AH0 S
+emphasize EH1 M F AH0 S AY2 Z
+emphatic EH0 M F AE1 T IH0 K
+emphatically EH0 M F AE1 T IH0 K L IY0
+emphysema EH2 M F AH0 Z IY1 M AH0
+empire EH1 M P AY0 ER0
+empires EH1 M P AY0 ER0 Z
+empirical EH2 M P IH1 R IH0 K AH0 L
+employ EH0 M P L OY1
+employed EH0 M P L OY1 D
+employee EH0 M P L OY1 IY0
+employees EH0 M P L OY1 IY0 Z
+employer EH0 M P L OY1 ER0
+employers EH0 M P L OY1 ER0 Z
+employing EH0 M P L OY1 IH0 NG
+employment EH0 M P L OY1 M AH0 N T
+employs EH0 M P L OY1 Z
+emporium EH2 M P AO1 R IY0 AH0 M
+empower IH0 M P AW1 ER0
+empowered IH0 M P AW1 ER0 D
+empowering IH0 M P AW1 ER0 IH0 NG
+empress EH1 M P R EH0 S
+emptied EH1 M P T IY0 D
+empties EH1 M P T IY0 Z
+emptiness EH1 M P T IY0 N AH0 S
+empty EH1 M P T IY0
+emptying EH1 M P T IY0 IH0 NG
+ems IY1 EH1 M EH1 S
+emu IY1 M Y UW2
+emulate EH1 M Y AH0 L EY2 T
+en EH1 N
+enable EH0 N EY1 B AH0 L
+enabled EH0 N EY1 B AH0 L D
+enables EH0 N EY1 B AH0 L Z
+enabling EH0 N EY1 B AH0 L IH0 NG
+enacted EH0 N AE1 K T AH0 D
+enamel IH0 N AE1 M AH0 L
+enamored EH0 N AE1 M ER0 D
+encampment IH0 N K AE1 M P M IH0 N T
+encased EH0 N K EY1 S T
+enchant EH0 N CH AE1 N T
+enchanted EH0 N CH AE1 N T IH0 D
+enchanting EH0 N CH AE1 N T IH0 NG
+enchantment EH0 N CH AE1 N T M AH0 N T
+enchilada EH0 N CH IH0 L AA1 D AH0
+enclose IH0 N K L OW1 Z
+enclosed EH0 N K L OW1 Z D
+enclosure EH0 N K L OW1 ZH ER0
+encoded EH0 N K OW1 D IH0 D
+encore AA1 N K AO2 R
+encounter IH0 N K AW1 N T ER0
+encountered IH0 N K AW1 N T ER0 D
+encountering EH0 N K AW1 N T ER0 IH0 NG
+encounters IH0 N K AW1 N T ER0 Z
+encourage EH0 N K ER1 IH0 JH
+encouraged EH0 N K ER1 IH0 JH D
+encouragement EH0 N K ER1 IH0 JH M AH0 N T
+encourages EH0 N K ER1 IH0 JH IH0 Z
+encouraging EH0 N K ER1 IH0 JH IH0 NG
+encroaching IH0 N K R OW1 CH IH0 NG
+encrypted EH0 N K R IH1 P T IH0 D
+encryption EH0 N K R IH1 P SH AH0 N
+encyclopedia IH0 N S AY2 K L AH0 P IY1 D IY0 AH0
+encyclopedias IH0 N S AY2 K L AH0 P IY1 D IY0 AH0 Z
+end EH1 N D
+endanger EH0 N D EY1 N JH ER0
+endangered EH0 N D EY1 N JH ER0 D
+endangering EH0 N D EY1 N JH ER0 IH0 NG
+endangerment EH0 N D EY1 N JH ER0 M AH0 N T
+endearing EH0 N D IY1 R IH0 NG
+endearment IH0 N D IH1 R M AH0 N T
+endeavor IH0 N D EH1 V ER0
+endeavors IH0 N D EH1 V ER0 Z
+endeavour IH0 N D EH1 V ER0
+ended EH1 N D AH0 D
+endgame EH1 N D G EY0 M
+ending EH1 N D IH0 NG
+endings EH1 N D IH0 NG Z
+endless EH1 N D L AH0 S
+endlessly EH1 N D L AH0 S L IY0
+endorse EH0 N D AO1 R S
+endorsed EH0 N D AO1 R S T
+endorsement EH0 N D AO1 R S M AH0 N T
+endorsements EH0 N D AO1 R S M AH0 N T S
+endorsing EH0 N D AO1 R S IH0 NG
+endowed EH0 N D AW1 D
+endowment EH0 N D AW1 M AH0 N T
+ends EH1 N D Z
+endurance EH1 N D ER0 AH0 N S
+endure EH0 N D Y UH1 R
+endured EH0 N D Y UH1 R D
+endures EH0 N D Y UH1 R Z
+enduring EH0 N D Y UH1 R IH0 NG
+enema EH1 N AH0 M AH0
+enemies EH1 N AH0 M IY0 Z
+enemy EH1 N AH0 M IY0
+energetic EH2 N ER0 JH EH1 T IH0 K
+energies EH1 N ER0 JH IY0 Z
+energize EH1 N ER0 JH AY2 Z
+energized EH1 N ER0 JH AY2 Z D
+energizer EH1 N ER0 JH AY2 Z ER0
+energy EH1 N ER0 JH IY0
+enfold IH0 N F OW1 L D
+enforce EH0 N F AO1 R S
+enforced EH0 N F AO1 R S T
+enforcement EH0 N F AO1 R S M AH0 N T
+enforcer EH0 N F AO1 R S ER0
+enforcing EH0 N F AO1 R S IH0 NG
+eng EH1 NG
+engage EH0 N G EY1 JH
+engaged EH0 N G EY1 JH D
+engagement EH0 N G EY1 JH M AH0 N T
+engagements EH0 N G EY1 JH M AH0 N T S
+engages EH0 N G EY1 JH IH0 Z
+engaging EH0 N G EY1 JH IH0 NG
+engine EH1 N JH AH0 N
+engineer EH1 N JH AH0 N IH1 R
+engineered EH2 N JH AH0 N IY1 R D
+engineering EH1 N JH AH0 N IH1 R IH0 NG
+engineers EH1 N JH AH0 N IH1 R Z
+engines EH1 N JH AH0 N Z
+england IH1 NG G L AH0 N D
+engle EH1 NG G AH0 L
+english IH1 NG G L IH0 SH
+englishman IH1 NG G L IH0 SH M AH0 N
+englishmen EH2 NG L IH1 SH M AH0 N
+engrave IH0 N G R EY1 V
+engraved IH0 N G R EY1 V D
+engraving IH0 N G R EY1 V IH0 NG
+engravings IH0 N G R EY1 V IH0 NG Z
+engulfed IH0 N G AH1 L F T
+enhance EH0 N HH AE1 N S
+enhanced EH0 N HH AE1 N S T
+enhancement EH0 N HH AE1 N S M AH0 N T
+enhances EH0 N HH AE1 N S IH0 Z
+enhancing EH0 N HH AE1 N S IH0 NG
+enigma IH0 N IH1 G M AH0
+enjoy EH2 N JH OY1
+enjoyable EH2 N JH OY1 AH0 B AH0 L
+enjoyed EH2 N JH OY1 D
+enjoying EH2 N JH OY1 IH0 NG
+enjoyment EH2 N JH OY1 M AH0 N T
+enjoys EH2 N JH OY1 Z
+enlarge EH2 N L AA1 R JH
+enlarged EH2 N L AA1 R JH D
+enlargement IH0 N L AA1 R JH M AH0 N T
+enlighten EH2 N L AY1 T AH0 N
+enlightened EH2 N L AY1 T AH0 N D
+enlightening EH2 N L AY1 T AH0 N IH0 NG
+enlightenment EH2 N L AY1 T AH0 N M AH0 N T
+enlist EH2 N L IH1 S T
+enlisted EH2 N L IH1 S T IH0 D
+enlisting EH0 N L IH1 S T IH0 NG
+enlistment EH0 N L IH1 S T M AH0 N T
+enmity EH1 N M AH0 T IY0
+ennui EH0 N UW1 IY0
+enoch IY1 N AH0 K
+enormity IH0 N AO1 R M AH0 T IY0
+enormous IH0 N AO1 R M AH0 S
+enormously IH0 N AO1 R M AH0 S L IY0
+enough IH0 N AH1 F
+enquire IH0 N K W AY1 ER0
+enquirer IH0 N K W AY1 R ER0
+enrage EH0 N R EY1 JH
+enraged EH0 N R EY1 JH D
+enrich EH0 N R IH1 CH
+enriched EH0 N R IH1 CH T
+enright IH0 N R AY1 T
+enroll EH0 N R OW1 L
+enrolled EH0 N R OW1 L D
+enrollment EH0 N R OW1 L M AH0 N T
+ensemble AA0 N S AA1 M B AH0 L
+ensign EH1 N S AH0 N
+enslave EH0 N S L EY1 V
+enslaved EH0 N S L EY1 V D
+ensued IH0 N S UW1 D
+ensure EH0 N SH UH1 R
+ensured EH0 N SH UH1 R D
+ensuring EH0 N SH UH1 R IH0 NG
+entail EH0 N T EY1 L
+entails IH0 N T EY1 L Z
+entangled EH0 N T AE1 NG G AH0 L D
+enter EH1 N T ER0
+entered EH1 N T ER0 D
+entering EH1 N T ER0 IH0 NG
+enterprise EH1 N T ER0 P R AY2 Z
+enterprises EH1 N T ER0 P R AY2 Z IH0 Z
+enterprising EH1 N T ER0 P R AY2 Z IH0 NG
+enters EH1 N T ER0 Z
+entertain EH2 N T ER0 T EY1 N
+entertained EH2 N T ER0 T EY1 N D
+entertainer EH2 N T ER0 T EY1 N ER0
+entertainers EH2 N T ER0 T EY1 N ER0 Z
+entertaining EH2 N T ER0 T EY1 N IH0 NG
+entertainment EH2 N T ER0 T EY1 N M AH0 N T
+entertains EH2 N T ER0 T EY1 N Z
+enthused IH0 N TH UW1 Z D
+enthusiasm IH0 N TH UW1 Z IY0 AE2 Z AH0 M
+enthusiast EH0 N TH UW1 Z IY0 AE2 S T
+enthusiastic IH0 N TH UW2 Z IY0 AE1 S T IH0 K
+enthusiasts EH0 N TH UW1 Z IY0 AE2 S T S
+entice IH0 N T AY1 S
+enticing EH0 N T AY1 S IH0 NG
+entire IH0 N T AY1 ER0
+entirely IH0 N T AY1 ER0 L IY0
+entirety IH0 N T AY1 ER0 T IY0
+entities EH1 N T IH0 T IY0 Z
+entitle EH0 N T AY1 T AH0 L
+entitled EH0 N T AY1 T AH0 L D
+entitles EH0 N T AY1 T AH0 L Z
+entity EH1 N T AH0 T IY0
+entombed EH0 N T UW1 M D
+entomologist EH2 N T AH0 M AA1 L AH0 JH AH0 S T
+entourage AA2 N T UH0 R AA1 ZH
+entrails EH1 N T R AH0 L Z
+entrance EH1 N T R AH0 N S
+entrances EH1 N T R AH0 N S AH0 Z
+entrapment IH0 N T R AE1 P M AH0 N T
+entre AA1 N T R EY0
+entree AA1 N T R EY2
+entrees AA1 N T R EY2 Z
+entrepreneur AA2 N T R AH0 P R AH0 N ER1
+entrepreneurs AA2 N T R AH0 P R AH0 N ER1 Z
+entries EH1 N T R IY0 Z
+entrust EH0 N T R AH1 S T
+entrusted EH0 N T R AH1 S T IH0 D
+entry EH1 N T R IY0
+entwined EH0 N T W AY1 N D
+envelope EH1 N V AH0 L OW2 P
+enveloped EH0 N V EH1 L AH0 P T
+envelopes EH1 N V AH0 L OW2 P S
+envied EH1 N V IY0 D
+envious EH1 N V IY0 AH0 S
+environment IH0 N V AY1 R AH0 N M AH0 N T
+environmental IH0 N V AY2 R AH0 N M EH1 N T AH0 L
+environmentalist IH0 N V AY2 R AH0 N M EH1 N T AH0 L IH0 S T
+environmentalists EH0 N V AY1 R AH0 N M EH2 N T AH0 L IH0 S T S
+environmentally IH0 N V AY2 R AH0 N M EH1 N T AH0 L IY0
+environments IH0 N V AY1 R AH0 N M AH0 N T S
+envision EH0 N V IH1 ZH AH0 N
+envisioned EH0 N V IH1 ZH AH0 N D
+envoy EH1 N V OY0
+envy EH1 N V IY0
+enzyme EH1 N Z AY2 M
+enzymes EH1 N Z AY2 M Z
+eons IY1 AH0 N Z
+epa IY2 P IY2 EY1
+ephraim IY1 F R AH0 M
+epic EH1 P IH0 K
+epicenter EH1 P AH0 S EH2 N T ER0
+epidemic EH2 P AH0 D EH1 M IH0 K
+epidermis EH2 P AH0 D ER1 M AH0 S
+epidural EH2 P AH0 D ER1 AH0 L
+epilepsy EH1 P AH0 L EH2 P S IY0
+epileptic EH2 P AH0 L EH1 P T IH0 K
+epinephrine EH2 P IH0 N EH1 F R IH0 N
+epiphany IH0 P IH1 F AH0 N IY0
+episcopalian IH0 P IH2 S K AH0 P EY1 L IY0 AH0 N
+episode EH1 P AH0 S OW2 D
+episodes EH1 P AH0 S OW2 D Z
+epitaph EH1 P AH0 T AE2 F
+epitome IH0 P IH1 T AH0 M IY0
+epsilon EH1 P S AH0 L AA2 N
+equal IY1 K W AH0 L
+equality IH0 K W AA1 L AH0 T IY0
+equalizer IY1 K W AH0 L AY2 Z ER0
+equally IY1 K W AH0 L IY0
+equals IY1 K W AH0 L Z
+equate IH0 K W EY1 T
+equation IH0 K W EY1 ZH AH0 N
+equations IH0 K W EY1 ZH AH0 N Z
+equator IH0 K W EY1 T ER0
+equatorial IY2 K W AH0 T AO1 R IY0 AH0 L
+equestrian IH0 K W EH1 S T R IY0 AH0 N
+equilibrium IY2 K W AH0 L IH1 B R IY0 AH0 M
+equinox IY1 K W AH0 N AA2 K S
+equip IH0 K W IH1 P
+equipment IH0 K W IH1 P M AH0 N T
+equipped IH0 K W IH1 P T
+equips IH0 K W IH1 P S
+equitable EH1 K W AH0 T AH0 B AH0 L
+equity EH1 K W AH0 T IY0
+equivalent IH0 K W IH1 V AH0 L AH0 N T
+er ER0
+era EH1 R AH0
+eradicate IH0 R AE1 D AH0 K EY2 T
+eradicated IH0 R AE1 D AH0 K EY2 T IH0 D
+eradication IH0 R AE2 D AH0 K EY1 SH AH0 N
+eras IH1 R AH0 Z
+erase IH0 R EY1 S
+erased IH0 R EY1 S T
+eraser IH0 R EY1 S ER0
+erasers IH0 R EY1 S ER0 Z
+erases IH0 R EY1 S IH0 Z
+erasing IH0 R EY1 S IH0 NG
+ere EH1 R
+erect IH0 R EH1 K T
+erected IH0 R EH1 K T AH0 D
+erection IH0 R EH1 K SH AH0 N
+erections IH0 R EH1 K SH AH0 N Z
+ergo ER1 G OW0
+eric EH1 R IH0 K
+erica EH1 R IH0 K AH0
+erie IH1 R IY0
+erika EH1 R IH0 K AH0
+erin EH1 R IH0 N
+erk ER1 K
+ermine ER1 M AH0 N
+ernest ER1 N AH0 S T
+eroding IH0 R OW1 D IH0 NG
+eros IH1 R AA0 S
+erosion IH0 R OW1 ZH AH0 N
+erotic IH0 R AA1 T IH0 K
+erotica IH0 R AA1 T IH0 K AH0
+err EH1 R
+errand EH1 R AH0 N D
+errands EH1 R AH0 N D Z
+errant EH1 R AH0 N T
+erratic IH0 R AE1 T IH0 K
+erratically EH0 R AE1 T IH0 K L IY0
+erroneous EH0 R OW1 N IY0 AH0 S
+error EH1 R ER0
+errors EH1 R ER0 Z
+ers ER1 Z
+erupt IH0 R AH1 P T
+erupted IY2 R AH1 P T IH0 D
+erupting IY2 R AH1 P T IH0 NG
+eruption IY2 R AH1 P SH AH0 N
+erupts IY2 R AH1 P T S
+es EH1 S
+escalade EH2 S K AH0 L AA1 D
+escalate EH1 S K AH0 L EY2 T
+escalated EH1 S K AH0 L EY2 T IH0 D
+escalating EH1 S K AH0 L EY2 T IH0 NG
+escalation EH2 S K AH0 L EY1 SH AH0 N
+escalator EH1 S K AH0 L EY2 T ER0
+escapade EH1 S K AH0 P EY2 D
+escapades EH1 S K AH0 P EY2 D Z
+escape IH0 S K EY1 P
+escaped IH0 S K EY1 P T
+escapes IH0 S K EY1 P S
+escaping IH0 S K EY1 P IH0 NG
+escargot EH2 S K AA1 R G OW0
+escarpment EH0 S K AA1 R P M AH0 N T
+escort EH0 S K AO1 R T
+escorted EH0 S K AO1 R T IH0 D
+escorting EH1 S K AO0 R T IH0 NG
+escorts EH1 S K AO0 R T S
+escrow EH0 S K R OW1
+eskimo EH1 S K AH0 M OW2
+eskimos EH1 S K AH0 M OW2 Z
+esophagus IH0 S AA1 F AH0 G AH0 S
+esoteric EH2 S AH0 T EH1 R IH0 K
+especially AH0 S P EH1 SH L IY0
+espionage EH1 S P IY0 AH0 N AA0 JH
+esplanade EH2 S P L AH0 N AA1 D
+espresso EH2 S P R EH1 S OW0
+esprit EH0 S P R IY1
+esquire EH1 S K W AY2 R
+essay EH0 S EY1
+essays EH0 S EY1 Z
+essence EH1 S AH0 N S
+essential EH0 S EH1 N SH AH0 L
+essentially EH0 S EH1 N SH AH0 L IY0
+essentials EH0 S EH1 N SH AH0 L Z
+est EH1 S T
+establish IH0 S T AE1 B L IH0 SH
+established IH0 S T AE1 B L IH0 SH T
+establishing IH0 S T AE1 B L IH0 SH IH0 NG
+establishment IH0 S T AE1 B L IH0 SH M AH0 N T
+establishments EH0 S T AE1 B L IH0 SH M AH0 N T S
+estate IH0 S T EY1 T
+estates IH0 S T EY1 T S
+esteem AH0 S T IY1 M
+esteemed IH0 S T IY1 M D
+esther EH1 S T ER0
+estimate EH1 S T AH0 M AH0 T
+estimated EH1 S T AH0 M EY2 T AH0 D
+estimates EH1 S T AH0 M AH0 T S
+estimating EH1 S T AH0 M EY2 T IH0 NG
+estimation EH2 S T AH0 M EY1 SH AH0 N
+estonia EH0 S T OW1 N IY0 AH0
+estrada EH0 S T R AA1 D AH0
+estranged EH0 S T R EY1 N JH D
+estrogen EH1 S T R AH0 JH AH0 N
+et EH1 T
+etc EH2 T S EH1 T ER0 AH0
+etcetera EH1 T S EH1 T ER0 AH0
+etched EH1 CH T
+eternal IH0 T ER1 N AH0 L
+eternally IH0 T ER1 N AH0 L IY0
+eternity IH0 T ER1 N AH0 T IY0
+ethanol EH1 TH AH0 N AO2 L
+ethel EH1 TH AH0 L
+ether IY1 TH ER0
+ethereal IH0 TH IH1 R IY0 AH0 L
+ethic EH1 TH IH0 K
+ethical EH1 TH IH0 K AH0 L
+ethically EH1 TH IH0 K AH0 L IY0
+ethics EH1 TH IH0 K S
+ethiopia IY2 TH IY0 OW1 P IY0 AH0
+ethiopian IY2 TH IY0 OW1 P IY0 AH0 N
+ethnic EH1 TH N IH0 K
+ethyl EH1 TH AH0 L
+etiquette EH1 T AH0 K AH0 T
+eton IY1 T AH0 N
+eucalyptus Y UW2 K AH0 L IH1 P T AH0 S
+euclid Y UW1 K L IH0 D
+eugene Y UW0 JH IY1 N
+eulogy Y UW1 L AH0 JH IY0
+eunuch Y UW1 N AH0 K
+euphemism Y UW1 F AH0 M IH2 Z AH0 M
+euphemisms Y UW1 F AH0 M IH2 Z AH0 M Z
+euphoria Y UW0 F AO1 R IY0 AH0
+euphoric Y UW0 F AO1 R IH0 K
+eureka Y UH0 R IY1 K AH0
+euro Y UW1 R OW0
+europa Y UH0 R OW1 P AH0
+europe Y UH1 R AH0 P
+european Y UH2 R AH0 P IY1 AH0 N
+europeans Y UH2 R AH0 P IY1 AH0 N Z
+euros Y UW1 R OW2 Z
+euthanasia Y UW2 TH AH0 N EY1 ZH AH0
+evacuate IH0 V AE1 K Y AH0 EY2 T
+evacuated IH0 V AE1 K Y AH0 W EY2 T IH0 D
+evacuating IH0 V AE1 K Y AH0 W EY2 T IH0 NG
+evacuation IH0 V AE2 K Y AH0 W EY1 SH AH0 N
+evade IH0 V EY1 D
+evading IH0 V EY1 D IH0 NG
+evaluate IH0 V AE1 L Y UW0 EY2 T
+evaluated IH0 V AE1 L Y UW0 EY2 T AH0 D
+evaluating IH0 V AE1 L Y UW0 EY2 T IH0 NG
+evaluation IH0 V AE2 L Y UW0 EY1 SH AH0 N
+evaluations IH0 V AE2 L Y UW0 EY1 SH AH0 N Z
+evans EH1 V AH0 N Z
+evaporate IH0 V AE1 P ER0 EY2 T
+evaporated IH0 V AE1 P ER0 EY2 T AH0 D
+evaporating IH0 V AE1 P ER0 EY2 T IH0 NG
+evasion IH0 V EY1 ZH AH0 N
+evasive IH0 V EY1 Z IH0 V
+eve IY1 V
+even IY1 V IH0 N
+evening IY1 V N IH0 NG
+evenings IY1 V N IH0 NG Z
+evenly IY1 V AH0 N L IY0
+evens IY1 V AH0 N Z
+event IH0 V EH1 N T
+eventful IH0 V EH1 N T F AH0 L
+events IH0 V EH1 N T S
+eventual AH0 V EH1 N CH UW0 AH0 L
+eventually IH0 V EH1 N CH AH0 W AH0 L IY0
+ever EH1 V ER0
+everest EH1 V ER0 AH0 S T
+everglades EH1 V ER0 G L EY2 D Z
+everlasting EH2 V ER0 L AE1 S T IH0 NG
+evermore EH1 V ER0 M AO2 R
+every EH1 V ER0 IY0
+everybody EH1 V R IY0 B AA2 D IY0
+everyday EH1 V R IY0 D EY1
+everyman EH1 V R IY0 M AH0 N
+everyone EH1 V R IY0 W AH2 N
+everyplace EH1 V R IY0 P L EY2 S
+everything EH1 V R IY0 TH IH2 NG
+everywhere EH1 V R IY0 W EH2 R
+evict IH0 V IH1 K T
+evicted IH0 V IH1 K T IH0 D
+eviction IH0 V IH1 K SH AH0 N
+evidence EH1 V AH0 D AH0 N S
+evidenced EH1 V IH0 D AH0 N S T
+evidences EH1 V AH0 D AH0 N S AH0 Z
+evident EH1 V AH0 D AH0 N T
+evidentiary EH2 V IH0 D EH1 N SH IY0 EH0 R IY0
+evidently EH1 V AH0 D AH0 N T L IY0
+evil IY1 V AH0 L
+evildoers IY1 V AH0 L D UW2 ER0 Z
+evils IY1 V AH0 L Z
+eviscerated AH0 V IH1 S ER0 EY2 T IH0 D
+evocative IH0 V AA1 K AH0 T IH0 V
+evoke IH0 V OW1 K
+evolution EH2 V AH0 L UW1 SH AH0 N
+evolutionary EH2 V AH0 L UW1 SH AH0 N EH2 R IY0
+evolve IH0 V AA1 L V
+evolved IH0 V AA1 L V D
+evolving IH0 V AA1 L V IH0 NG
+ewe Y UW1
+ewing Y UW1 IH0 NG
+ex EH1 K S
+exact IH0 G Z AE1 K T
+exacting IH0 G Z AE1 K T IH0 NG
+exactly IH0 G Z AE1 K T L IY0
+exaggerate IH0 G Z AE1 JH ER0 EY2 T
+exaggerated IH0 G Z AE1 JH ER0 EY2 T AH0 D
+exaggerating IH0 G Z AE1 JH ER0 EY2 T IH0 NG
+exaggeration IH0 G Z AE2 JH ER0 EY1 SH AH0 N
+exalted IH0 G Z AO1 L T IH0 D
+exam IH0 G Z AE1 M
+examination IH0 G Z AE2 M AH0 N EY1 SH AH0 N
+examinations IH0 G Z AE2 M AH0 N EY1 SH AH0 N Z
+examine IH0 G Z AE1 M IH0 N
+examined IH0 G Z AE1 M AH0 N D
+examiner IH0 G Z AE1 M AH0 N ER0
+examines IH0 G Z AE1 M AH0 N Z
+examining IH0 G Z AE1 M IH0 N IH0 NG
+example IH0 G Z AE1 M P AH0 L
+examples IH0 G Z AE1 M P AH0 L Z
+exams IH0 G Z AE1 M Z
+excalibur EH2 K S K AE1 L AH0 B ER0
+excavated EH1 K S K AH0 V EY2 T IH0 D
+excavation EH2 K S K AH0 V EY1 SH AH0 N
+exceed IH0 K S IY1 D
+exceeded IH0 K S IY1 D AH0 D
+exceeding IH0 K S IY1 D IH0 NG
+exceedingly IH0 K S IY1 D IH0 NG L IY0
+exceeds IH0 K S IY1 D Z
+excel IH0 K S EH1 L
+excelled IH0 K S EH1 L D
+excellence EH1 K S AH0 L AH0 N S
+excellency EH1 K S L EH1 N S IY0
+excellent EH1 K S AH0 L AH0 N T
+excelsior IH0 K S EH1 L S IY0 ER0
+except IH0 K S EH1 P T
+excepted IH0 K S EH1 P T IH0 D
+excepting EH2 K S EH1 P T IH0 NG
+exception IH0 K S EH1 P SH AH0 N
+exceptional IH0 K S EH1 P SH AH0 N AH0 L
+exceptionally IH0 K S EH1 P SH AH0 N AH0 L IY0
+exceptions IH0 K S EH1 P SH AH0 N Z
+excess EH1 K S EH2 S
+excesses EH2 K S EH1 S IH0 Z
+excessive IH0 K S EH1 S IH0 V
+excessively IH0 K S EH1 S IH0 V L IY0
+exchange IH0 K S CH EY1 N JH
+exchanged IH0 K S CH EY1 N JH D
+exchanges IH0 K S CH EY1 N JH AH0 Z
+exchanging IH0 K S CH EY1 N JH IH0 NG
+excitable IH0 K S AY1 T AH0 B AH0 L
+excite IH0 K S AY1 T
+excited IH0 K S AY1 T AH0 D
+excitedly IH0 K S AY1 T AH0 D L IY0
+excitement IH0 K S AY1 T M AH0 N T
+excites IH0 K S AY1 T S
+exciting IH0 K S AY1 T IH0 NG
+exclamation EH2 K S K L AH0 M EY1 SH AH0 N
+exclude IH0 K S K L UW1 D
+excluded IH0 K S K L UW1 D AH0 D
+excludes IH0 K S K L UW1 D Z
+excluding IH0 K S K L UW1 D IH0 NG
+exclusive IH0 K S K L UW1 S IH0 V
+exclusively IH0 K S K L UW1 S IH0 V L IY0
+excommunicated EH2 K S K AH0 M Y UW1 N AH0 K EY2 T AH0 D
+excrement EH1 K S K R AH0 M AH0 N T
+excruciating IH0 K S K R UW1 SH IY0 EY2 T IH0 NG
+excursion IH0 K S K ER1 ZH AH0 N
+excuse IH0 K S K Y UW1 S
+excused IH0 K S K Y UW1 Z D
+excuses IH0 K S K Y UW1 S IH0 Z
+excusing IH0 K S K Y UW1 Z IH0 NG
+exec EH2 G Z EH1 K
+execs EH2 G Z EH1 K S
+execute EH1 K S AH0 K Y UW2 T
+executed EH1 K S AH0 K Y UW2 T IH0 D
+executing EH1 K S AH0 K Y UW2 T IH0 NG
+execution EH2 K S AH0 K Y UW1 SH AH0 N
+executioner EH2 K S AH0 K Y UW1 SH AH0 N ER0
+executions EH2 K S AH0 K Y UW1 SH AH0 N Z
+executive IH0 G Z EH1 K Y AH0 T IH0 V
+executives IH0 G Z EH1 K Y AH0 T IH0 V Z
+executor IH0 G Z EH1 K Y AH0 T ER0
+exemplary IH0 G Z EH1 M P L ER0 IY0
+exempt IH0 G Z EH1 M P T
+exemption IH0 G Z EH1 M P SH AH0 N
+exercise EH1 K S ER0 S AY2 Z
+exercised EH1 K S ER0 S AY2 Z D
+exercises EH1 K S ER0 S AY2 Z AH0 Z
+exercising EH1 K S ER0 S AY2 Z IH0 NG
+exert IH0 G Z ER1 T
+exertion IH0 G Z ER1 SH AH0 N
+exes EH1 K S IH0 Z
+exhale EH0 K S HH EY1 L
+exhaust IH0 G Z AO1 S T
+exhausted IH0 G Z AO1 S T IH0 D
+exhausting IH0 G Z AO1 S T IH0 NG
+exhaustion IH0 G Z AO1 S CH AH0 N
+exhaustive IH0 G Z AO1 S T IH0 V
+exhibit IH0 G Z IH1 B IH0 T
+exhibited IH0 G Z IH1 B AH0 T AH0 D
+exhibiting IH0 G Z IH1 B IH0 T IH0 NG
+exhibition EH2 K S AH0 B IH1 SH AH0 N
+exhibits IH0 G Z IH1 B AH0 T S
+exhilarated IH0 G Z IH1 L ER0 EY2 T IH0 D
+exhilarating IH0 G Z IH1 L ER0 EY2 T IH0 NG
+exhilaration IH0 G Z IH2 L ER0 EY1 SH AH0 N
+exhumation EH0 K S HH Y UW2 M EY1 SH AH0 N
+exhume EH0 K S HH Y UW1 M
+exhumed EH0 K S HH Y UW1 M D
+exile EH1 G Z AY2 L
+exiled EH1 G Z AY2 L D
+exist IH0 G Z IH1 S T
+existed IH0 G Z IH1 S T AH0 D
+existence EH0 G Z IH1 S T AH0 N S
+existential EH2 G Z IH2 S T EH1 N SH AH0 L
+existing IH0 G Z IH1 S T IH0 NG
+exists IH0 G Z IH1 S T S
+exit EH1 G Z IH0 T
+exited EH1 G Z AH0 T IH0 D
+exiting EH1 G Z IH0 T IH0 NG
+exits EH1 G Z IH0 T S
+exodus EH1 K S AH0 D AH0 S
+exonerate IH0 G Z AA1 N ER0 EY2 T
+exonerated IH0 G Z AA1 N ER0 EY2 T IH0 D
+exorbitant IH0 G Z AO1 R B IH0 T AH0 N T
+exorcism EH1 K S ER0 S IH2 Z AH0 M
+exorcist EH1 K S ER0 S AH0 S T
+exotic IH0 G Z AA1 T IH0 K
+expand IH0 K S P AE1 N D
+expanded IH0 K S P AE1 N D AH0 D
+expanding IH0 K S P AE1 N D IH0 NG
+expands IH0 K S P AE1 N D Z
+expansion IH0 K S P AE1 N SH AH0 N
+expect IH0 K S P EH1 K T
+expectancy IH0 K S P EH1 K T AH0 N S IY0
+expectant IH0 K S P EH1 K T AH0 N T
+expectation EH2 K S P EH0 K T EY1 SH AH0 N
+expectations EH2 K S P EH0 K T EY1 SH AH0 N Z
+expected IH0 K S P EH1 K T AH0 D
+expecting IH0 K S P EH1 K T IH0 NG
+expects IH0 K S P EH1 K T S
+expedient IH0 K S P IY1 D IY0 AH0 N T
+expedite EH1 K S P IH0 D AY2 T
+expedition EH2 K S P AH0 D IH1 SH AH0 N
+expeditionary EH2 K S P AH0 D IH1 SH AH0 N EH2 R IY0
+expeditions EH2 K S P AH0 D IH1 SH AH0 N Z
+expel IH0 K S P EH1 L
+expelled IH0 K S P EH1 L D
+expendable IH0 K S P EH1 N D AH0 B AH0 L
+expended IH0 K S P EH1 N D IH0 D
+expenditure IH0 K S P EH1 N D AH0 CH ER0
+expenditures IH0 K S P EH1 N D AH0 CH ER0 Z
+expense IH0 K S P EH1 N S
+expenses IH0 K S P EH1 N S AH0 Z
+expensive IH0 K S P EH1 N S IH0 V
+experience IH0 K S P IH1 R IY0 AH0 N S
+experienced IH0 K S P IH1 R IY0 AH0 N S T
+experiences IH0 K S P IH1 R IY0 AH0 N S IH0 Z
+experiencing IH0 K S P IH1 R IY0 AH0 N S IH0 NG
+experiment IH0 K S P EH1 R AH0 M AH0 N T
+experimental IH0 K S P EH2 R IH0 M EH1 N T AH0 L
+experimentation IH0 K S P EH2 R AH0 M AH0 N T EY1 SH AH0 N
+experimented IH0 K S P EH1 R AH0 M AH0 N T AH0 D
+experimenting EH0 K S P EH1 R AH0 M EH2 N T IH0 NG
+experiments IH0 K S P EH1 R AH0 M AH0 N T S
+expert EH1 K S P ER0 T
+expertise EH2 K S P ER0 T IY1 Z
+experts EH1 K S P ER0 T S
+expiration EH2 K S P ER0 EY1 SH AH0 N
+expire IH0 K S P AY1 R
+expired IH0 K S P AY1 R D
+expires IH0 K S P AY1 ER0 Z
+explain IH0 K S P L EY1 N
+explained IH0 K S P L EY1 N D
+explaining IH0 K S P L EY1 N IH0 NG
+explains IH0 K S P L EY1 N Z
+explanation EH2 K S P L AH0 N EY1 SH AH0 N
+explanations EH2 K S P L AH0 N EY1 SH AH0 N Z
+explicit IH0 K S P L IH1 S AH0 T
+explicitly IH0 K S P L IH1 S AH0 T L IY0
+explode IH0 K S P L OW1 D
+exploded IH0 K S P L OW1 D AH0 D
+explodes IH0 K S P L OW1 D Z
+exploding IH0 K S P L OW1 D IH0 NG
+exploit EH1 K S P L OY2 T
+exploitation EH2 K S P L OY2 T EY1 SH AH0 N
+exploited EH1 K S P L OY2 T AH0 D
+exploiting EH1 K S P L OY2 T IH0 NG
+exploits EH1 K S P L OY2 T S
+exploration EH2 K S P L ER0 EY1 SH AH0 N
+exploratory IH0 K S P L AO1 R AH0 T AO2 R IY0
+explore IH0 K S P L AO1 R
+explored IH0 K S P L AO1 R D
+explorer IH0 K S P L AO1 R ER0
+explorers IH0 K S P L AO1 R ER0 Z
+exploring IH0 K S P L AO1 R IH0 NG
+explosion IH0 K S P L OW1 ZH AH0 N
+explosions IH0 K S P L OW1 ZH AH0 N Z
+explosive IH0 K S P L OW1 S IH0 V
+explosives IH0 K S P L OW1 S IH0 V Z
+expo EH1 K S P OW0
+exponentially EH2 K S P OW0 N EH1 N SH AH0 L IY0
+export EH1 K S P AO0 R T
+exporting IH0 K S P AO1 R T IH0 NG
+exports EH1 K S P AO0 R T S
+expose IH0 K S P OW1 Z
+exposed IH0 K S P OW1 Z D
+exposes IH0 K S P OW1 Z IH0 Z
+exposing IH0 K S P OW1 Z IH0 NG
+exposition EH2 K S P AH0 Z IH1 SH AH0 N
+exposure IH0 K S P OW1 ZH ER0
+express IH0 K S P R EH1 S
+expressed IH0 K S P R EH1 S T
+expresses IH0 K S P R EH1 S AH0 Z
+expressing IH0 K S P R EH1 S IH0 NG
+expression IH0 K S P R EH1 SH AH0 N
+expressions IH0 K S P R EH1 SH AH0 N Z
+expressive IH0 K S P R EH1 S IH0 V
+expressly EH0 K S P R EH1 S L IY0
+expressway IH0 K S P R EH1 S W EY2
+expulsion IH0 K S P AH1 L SH AH0 N
+expunged IH0 K S P AH1 N JH D
+exquisite EH1 K S K W AH0 Z AH0 T
+exquisitely EH2 K S K W IH1 Z IH0 T L IY0
+extend IH0 K S T EH1 N D
+extended IH0 K S T EH1 N D AH0 D
+extending IH0 K S T EH1 N D IH0 NG
+extends IH0 K S T EH1 N D Z
+extension IH0 K S T EH1 N SH AH0 N
+extensions IH0 K S T EH1 N SH AH0 N Z
+extensive IH0 K S T EH1 N S IH0 V
+extensively IH0 K S T EH1 N S IH0 V L IY0
+extent IH0 K S T EH1 N T
+extenuating IH0 K S T EH1 N Y UW0 EY2 T IH0 NG
+exterior IH0 K S T IH1 R IY0 ER0
+exterminate IH0 K S T ER1 M AH0 N EY2 T
+exterminated IH0 K S T ER1 M AH0 N EY2 T IH0 D
+extermination IH0 K S T ER2 M AH0 N EY1 SH AH0 N
+exterminator IH0 K S T ER1 M AH0 N EY2 T ER0
+exterminators IH0 K S T ER1 M AH0 N EY2 T ER0 Z
+external IH0 K S T ER1 N AH0 L
+extinct IH0 K S T IH1 NG K T
+extinction IH0 K S T IH1 NG K SH AH0 N
+extinguish IH0 K S T IH1 NG G W IH0 SH
+extinguished IH0 K S T IH1 NG G W IH0 SH T
+extinguisher IH0 K S T IH1 NG G W IH0 SH ER0
+extinguishers IH0 K S T IH1 NG G W IH0 SH ER0 Z
+extort EH0 K S T AO1 R T
+extortion EH0 K S T AO1 R SH AH0 N
+extra EH1 K S T R AH0
+extract EH1 K S T R AE2 K T
+extracted EH0 K S T R AE1 K T IH0 D
+extracting EH0 K S T R AE1 K T IH0 NG
+extraction EH0 K S T R AE1 K SH AH0 N
+extracurricular EH2 K S T R AH0 K ER0 IH1 K Y AH0 L ER0
+extradite EH1 K S T R AH0 D AY2 T
+extradited EH1 K S T R AH0 D AY2 T IH0 D
+extradition EH2 K S T R AH0 D IH1 SH AH0 N
+extramarital EH2 K S T R AH0 M EH1 R AH0 T AH0 L
+extraneous EH0 K S T R EY1 N IY0 AH0 S
+extraordinaire EH2 K S T R AH0 AO1 R D IH0 N EH2 R
+extraordinarily EH0 K S T R AO2 R D AH0 N EH1 R AH0 L IY0
+extraordinary EH2 K S T R AH0 AO1 R D AH0 N EH2 R IY0
+extrapolate EH0 K S T R AE1 P AH0 L EY2 T
+extras EH1 K S T R AH0 Z
+extraterrestrial EH2 K S T R AH0 T ER0 EH1 S T R IY0 AH0 L
+extraterrestrials EH2 K S T R AH0 T ER2 EH1 S T R IY0 AH0 L Z
+extravagance EH0 K S T R AE1 V AH0 G AH0 N S
+extravagant EH0 K S T R AE1 V AH0 G AH0 N T
+extravaganza EH0 K S T R AE2 V AH0 G AE1 N Z AH0
+extreme EH0 K S T R IY1 M
+extremely EH0 K S T R IY1 M L IY0
+extremes EH0 K S T R IY1 M Z
+extremist EH0 K S T R IY1 M IH0 S T
+extremists EH0 K S T R IY1 M AH0 S T S
+extremities EH0 K S T R EH1 M AH0 T IY0 Z
+extremity EH0 K S T R EH1 M AH0 T IY0
+extricate EH1 K S T R AH0 K EY2 T
+exuberance IH0 G Z UW1 B ER0 AH0 N S
+exxon EH1 K S AA0 N
+eye AY1
+eyeball AY1 B AO2 L
+eyeballs AY1 B AO2 L Z
+eyebrow AY1 B R AW2
+eyebrows AY1 B R AW2 Z
+eyed AY1 D
+eyeglasses AY1 G L AE2 S AH0 Z
+eyeing AY1 IH0 NG
+eyelash AY1 L AE2 SH
+eyelashes AY1 L AE2 SH IH0 Z
+eyelid AY1 L IH2 D
+eyelids AY1 L IH2 D Z
+eyeliner AY1 L AY2 N ER0
+eyes AY1 Z
+eyesight AY1 S AY2 T
+eyesore AY1 S AO2 R
+eyewitness AY1 W IH1 T N AH0 S
+eyewitnesses AY1 W IH2 T N AH0 S IH0 Z
+ezekiel EH1 Z IH0 K IY2 L
+ezra EH1 Z R AH0
+f EH1 F
+fab F AE1 B
+fabian F EY1 B IY0 AH0 N
+fable F EY1 B AH0 L
+fabled F EY1 B AH0 L D
+fabric F AE1 B R IH0 K
+fabricate F AE1 B R AH0 K EY2 T
+fabricated F AE1 B R IH0 K EY2 T AH0 D
+fabricating F AE1 B R IH0 K EY2 T IH0 NG
+fabrication F AE2 B R IH0 K EY1 SH AH0 N
+fabrics F AE1 B R IH0 K S
+fabulous F AE1 B Y AH0 L AH0 S
+fabulously F AE1 B Y UW0 L AH0 S L IY0
+facade F AH0 S AA1 D
+face F EY1 S
+faced F EY1 S T
+facedown F EY1 S D AW1 N
+faceless F EY1 S L AH0 S
+faces F EY1 S AH0 Z
+facet F AE1 S AH0 T
+facets F AE1 S AH0 T S
+facial F EY1 SH AH0 L
+facilitate F AH0 S IH1 L AH0 T EY2 T
+facilitated F AH0 S IH1 L AH0 T EY2 T IH0 D
+facilitator F AH0 S IH1 L AH0 T EY2 T ER0
+facilities F AH0 S IH1 L AH0 T IY0 Z
+facility F AH0 S IH1 L IH0 T IY0
+facing F EY1 S IH0 NG
+fact F AE1 K T
+faction F AE1 K SH AH0 N
+factions F AE1 K SH AH0 N Z
+facto F AE1 K T OW0
+factor F AE1 K T ER0
+factored F AE1 K T ER0 D
+factories F AE1 K T ER0 IY0 Z
+factoring F AE1 K T ER0 IH0 NG
+factors F AE1 K T ER0 Z
+factory F AE1 K T ER0 IY0
+facts F AE1 K T S
+factual F AE1 K CH UW0 AH0 L
+faculties F AE1 K AH0 L T IY0 Z
+faculty F AE1 K AH0 L T IY0
+fad F AE1 D
+fade F EY1 D
+faded F EY1 D AH0 D
+fades F EY1 D Z
+fading F EY1 D IH0 NG
+fag F AE1 G
+faggot F AE1 G AH0 T
+fags F AE1 G Z
+fahrenheit F EH1 R AH0 N HH AY2 T
+fail F EY1 L
+failed F EY1 L D
+failing F EY1 L IH0 NG
+failings F EY1 L IH0 NG Z
+fails F EY1 L Z
+failure F EY1 L Y ER0
+failures F EY1 L Y ER0 Z
+fain F EY1 N
+faint F EY1 N T
+fainted F EY1 N T IH0 D
+faintest F EY1 N T AH0 S T
+fainting F EY1 N T IH0 NG
+faintly F EY1 N T L IY0
+fair F EH1 R
+fairbanks F EH1 R B AH0 NG K S
+faire F EH1 R
+fairer F EH1 R ER0
+fairest F EH1 R IH0 S T
+fairies F EH1 R IY0 Z
+fairly F EH1 R L IY0
+fairness F EH1 R N AH0 S
+fairs F EH1 R Z
+fairway F EH1 R W EY2
+fairy F EH1 R IY0
+fait F EY1 T
+faith F EY1 TH
+faithful F EY1 TH F AH0 L
+faithfully F EY1 TH F AH0 L IY0
+faiths F EY1 TH S
+fajitas F AH0 JH IY1 T AH0 Z
+fake F EY1 K
+faked F EY1 K T
+faker F EY1 K ER0
+fakes F EY1 K S
+faking F EY1 K IH0 NG
+falafel F AH0 L AA1 F AH0 L
+falcon F AE1 L K AH0 N
+falcons F AE1 L K AH0 N Z
+falk F AO1 K
+fall F AO1 L
+fallacy F AE1 L AH0 S IY0
+fallback F AO1 L B AE2 K
+fallen F AA1 L AH0 N
+falling F AA1 L IH0 NG
+fallopian F AH0 L OW1 P IY0 AH0 N
+fallout F AO1 L AW2 T
+fallow F AE1 L OW2
+falls F AO1 L Z
+false F AO1 L S
+falsely F AO1 L S L IY0
+falsetto F AO0 L S EH1 T OW2
+falsified F AO1 L S AH0 F AY2 D
+falsifying F AO1 L S AH0 F AY2 IH0 NG
+falter F AO1 L T ER0
+fame F EY1 M
+famed F EY1 M D
+familial F AH0 M IH1 L Y AH0 L
+familiar F AH0 M IH1 L Y ER0
+familiarity F AH0 M IH2 L Y EH1 R AH0 T IY0
+familiarize F AH0 M IH1 L Y ER0 AY2 Z
+families F AE1 M AH0 L IY0 Z
+family F AE1 M AH0 L IY0
+famine F AE1 M AH0 N
+famished F AE1 M IH0 SH T
+famous F EY1 M AH0 S
+famously F EY1 M AH0 S L IY0
+fan F AE1 N
+fanatic F AH0 N AE1 T IH0 K
+fanatical F AH0 N AE1 T IH0 K AH0 L
+fanatics F AH0 N AE1 T IH0 K S
+fancied F AE1 N S IY0 D
+fancies F AE1 N S IY0 Z
+fanciful F AE1 N S IH0 F AH0 L
+fancy F AE1 N S IY0
+fanfare F AE1 N F EH2 R
+fang F AE1 NG
+fangs F AE1 NG Z
+fanned F AE1 N D
+fanning F AE1 N IH0 NG
+fanny F AE1 N IY0
+fans F AE1 N Z
+fantasia F AE0 N T EY1 ZH AH0
+fantasies F AE1 N T AH0 S IY0 Z
+fantasize F AE1 N T AH0 S AY2 Z
+fantasized F AE1 N T IH0 S AY2 Z D
+fantasizing F AE1 N T AH0 S AY2 Z IH0 NG
+fantastic F AE0 N T AE1 S T IH0 K
+fantastically F AE0 N T AE1 S T IH0 K L IY0
+fantasy F AE1 N T AH0 S IY0
+far F AA1 R
+faraday F AE1 R AH0 D EY2
+faraway F AA1 R AH0 W EY1
+farce F AA1 R S
+fare F EH1 R
+fared F EH1 R D
+fares F EH1 R Z
+farewell F EH2 R W EH1 L
+farley F AA1 R L IY0
+farm F AA1 R M
+farmed F AA1 R M D
+farmer F AA1 R M ER0
+farmers F AA1 R M ER0 Z
+farmhouse F AA1 R M HH AW2 S
+farming F AA1 R M IH0 NG
+farmland F AA1 R M L AE2 N D
+farms F AA1 R M Z
+faro F EH1 R OW0
+farrel F EH1 R AH0 L
+farrow F EH1 R OW2
+fart F AA1 R T
+farther F AA1 R DH ER0
+farthest F AA1 R DH AH0 S T
+farthing F AA1 R DH IH0 NG
+farting F AA1 R T IH0 NG
+fascinate F AE1 S AH0 N EY2 T
+fascinated F AE1 S AH0 N EY2 T AH0 D
+fascinates F AE1 S AH0 N EY2 T S
+fascinating F AE1 S AH0 N EY2 T IH0 NG
+fascination F AE2 S AH0 N EY1 SH AH0 N
+fascism F AE1 SH IH2 Z AH0 M
+fascist F AE1 SH IH0 S T
+fascists F AE1 SH IH0 S T S
+fashion F AE1 SH AH0 N
+fashionable F AE1 SH AH0 N AH0 B AH0 L
+fashionably F AE1 SH AH0 N AH0 B L IY0
+fashioned F AE1 SH AH0 N D
+fashions F AE1 SH AH0 N Z
+fast F AE1 S T
+fastball F AE1 S T B AO2 L
+fasten F AE1 S AH0 N
+fastened F AE1 S AH0 N D
+faster F AE1 S T ER0
+fastest F AE1 S T AH0 S T
+fastidious F AE0 S T IH1 D IY0 AH0 S
+fasting F AE1 S T IH0 NG
+fat F AE1 T
+fatal F EY1 T AH0 L
+fatalities F AH0 T AE1 L IH0 T IY0 Z
+fatality F AH0 T AE1 L IH0 T IY0
+fatally F EY1 T AH0 L IY0
+fate F EY1 T
+fated F EY1 T IH0 D
+fateful F EY1 T F AH0 L
+fates F EY1 T S
+father F AA1 DH ER0
+fathered F AA1 DH ER0 D
+fatherhood F AA1 DH ER0 HH UH2 D
+fatherland F AA1 DH ER0 L AE2 N D
+fatherless F AA1 DH ER0 L AH0 S
+fatherly F AA1 DH ER0 L IY0
+fathers F AA1 DH ER0 Z
+fathom F AE1 DH AH0 M
+fathoms F AE1 DH AH0 M Z
+fatigue F AH0 T IY1 G
+fatigued F AH0 T IY1 G D
+fatigues F AH0 T IY1 G Z
+fats F AE1 T S
+fatten F AE1 T AH0 N
+fattening F AE1 T AH0 N IH0 NG
+fatter F AE1 T ER0
+fattest F AE1 T AH0 S T
+fatty F AE1 T IY0
+faucet F AO1 S AH0 T
+faucets F AO1 S AH0 T S
+faulkner F AO1 K N ER0
+fault F AO1 L T
+faults F AO1 L T S
+faulty F AO1 L T IY0
+fauna F AO1 N AH0
+faust F AW1 S T
+faux F AO1 K S
+favela F AA0 V EH1 L AH0
+favor F EY1 V ER0
+favorable F EY1 V ER0 AH0 B AH0 L
+favorably F EY1 V ER0 AH0 B L IY0
+favored F EY1 V ER0 D
+favoring F EY1 V ER0 IH0 NG
+favorite F EY1 V ER0 IH0 T
+favorites F EY1 V ER0 IH0 T S
+favoritism F EY1 V ER0 IH0 T IH2 Z AH0 M
+favors F EY1 V ER0 Z
+favour F EY1 V ER0
+favourite F EY1 V ER0 IH0 T
+favours F EY1 V ER0 Z
+fawn F AO1 N
+fawning F AO1 N IH0 NG
+fax F AE1 K S
+faxed F AE1 K S T
+faxes F AE1 K S IH0 Z
+faxing F AE1 K S IH0 NG
+fay F EY1
+fayed F EY1 D
+faze F EY1 Z
+fbi EH1 F B IY1 AY1
+fe F EY1
+fear F IH1 R
+feared F IH1 R D
+fearful F IH1 R F AH0 L
+fearing F IH1 R IH0 NG
+fearless F IH1 R L AH0 S
+fears F IH1 R Z
+fearsome F IH1 R S AH0 M
+feasible F IY1 Z AH0 B AH0 L
+feast F IY1 S T
+feasting F IY1 S T IH0 NG
+feat F IY1 T
+feather F EH1 DH ER0
+feathered F EH1 DH ER0 D
+feathers F EH1 DH ER0 Z
+feats F IY1 T S
+feature F IY1 CH ER0
+featured F IY1 CH ER0 D
+features F IY1 CH ER0 Z
+featuring F IY1 CH ER0 IH0 NG
+february F EH1 B Y AH0 W EH2 R IY0
+fecal F IY1 K AH0 L
+feces F IY1 S IY2 Z
+feck F EH1 K
+fed F EH1 D
+federal F EH1 D ER0 AH0 L
+federation F EH2 D ER0 EY1 SH AH0 N
+fedora F IH0 D AO1 R AH0
+feds F EH1 D Z
+fee F IY1
+feeble F IY1 B AH0 L
+feed F IY1 D
+feedback F IY1 D B AE2 K
+feeder F IY1 D ER0
+feeders F IY1 D ER0 Z
+feeding F IY1 D IH0 NG
+feeds F IY1 D Z
+feel F IY1 L
+feelers F IY1 L ER0 Z
+feeling F IY1 L IH0 NG
+feelings F IY1 L IH0 NG Z
+feels F IY1 L Z
+fees F IY1 Z
+feet F IY1 T
+feign F EY1 N
+feint F EY1 N T
+feisty F AY1 S T IY0
+felicity F IH0 L IH1 S AH0 T IY0
+feline F IY1 L AY2 N
+felix F IY1 L IH0 K S
+fell F EH1 L
+fella F EH1 L AH0
+fellas F EH1 L AH0 S
+fellatio F AH0 L EY1 SH IY0 OW0
+feller F EH1 L ER0
+fellers F EH1 L ER0 Z
+felling F EH1 L IH0 NG
+fellow F EH1 L OW0
+fellows F EH1 L OW0 Z
+fellowship F EH1 L OW0 SH IH2 P
+felon F EH1 L AH0 N
+felonies F EH1 L AH0 N IY0 Z
+felonious F EH0 L OW1 N IY0 AH0 S
+felons F EH1 L AH0 N Z
+felony F EH1 L AH0 N IY0
+felt F EH1 L T
+female F IY1 M EY2 L
+females F IY1 M EY2 L Z
+feminine F EH1 M AH0 N AH0 N
+femininity F EH2 M AH0 N IH1 N AH0 T IY0
+feminism F EH1 M IH0 N IH2 Z AH0 M
+feminist F EH1 M AH0 N IH0 S T
+feminists F EH1 M AH0 N IH0 S T S
+femme F EH1 M
+femoral F EH1 M ER2 AH0 L
+femur F IY1 M ER0
+fen F EH1 N
+fence F EH1 N S
+fenced F EH1 N S T
+fences F EH1 N S AH0 Z
+fencing F EH1 N S IH0 NG
+fend F EH1 N D
+fender F EH1 N D ER0
+fenders F EH1 N D ER0 Z
+fennel F EH1 N AH0 L
+fenster F EH1 N S T ER0
+fermented F ER0 M EH1 N T AH0 D
+fern F ER1 N
+ferns F ER1 N Z
+ferocious F ER0 OW1 SH AH0 S
+ferrara F ER0 AA1 R AH0
+ferret F EH1 R AH0 T
+ferris F EH1 R IH0 S
+ferry F EH1 R IY0
+ferryboat F EH1 R IY0 B OW2 T
+fertile F ER1 T AH0 L
+fertility F ER0 T IH1 L AH0 T IY0
+fertilize F ER1 T AH0 L AY2 Z
+fertilized F ER1 T AH0 L AY2 Z D
+fertilizer F ER1 T AH0 L AY2 Z ER0
+fervent F ER1 V AH0 N T
+fervor F ER1 V ER0
+fess F EH1 S
+fest F EH1 S T
+fester F EH1 S T ER0
+festering F EH1 S T ER0 IH0 NG
+festival F EH1 S T AH0 V AH0 L
+festivals F EH1 S T AH0 V AH0 L Z
+festive F EH1 S T IH0 V
+festivities F EH0 S T IH1 V AH0 T IY0 Z
+fetal F IY1 T AH0 L
+fetch F EH1 CH
+fetched F EH1 CH T
+fetching F EH1 CH IH0 NG
+fete F EY1 T
+fetish F EH1 T IH0 SH
+fettuccine F EH2 T AH0 CH IY1 N IY0
+fetus F IY1 T AH0 S
+feud F Y UW1 D
+feuding F Y UW1 D IH0 NG
+fever F IY1 V ER0
+feverish F IY1 V ER0 IH0 SH
+few F Y UW1
+fewer F Y UW1 ER0
+fey F EY1
+fez F EH1 Z
+fi F AY1
+fiance F IY0 AA1 N S EY2
+fiancee F IY0 AE1 N S IY0
+fiasco F IY0 AE1 S K OW0
+fib F IH1 B
+fiber F AY1 B ER0
+fiberglass F AY1 B ER0 G L AE2 S
+fibers F AY1 B ER0 Z
+fibre F AY1 B ER0
+fibres F AY1 B ER0 Z
+fibrosis F AY0 B R OW1 S AH0 S
+fibrous F AY1 B R AH0 S
+fickle F IH1 K AH0 L
+fico F IY1 K OW0
+fiction F IH1 K SH AH0 N
+fictional F IH1 K SH AH0 N AH0 L
+fictitious F IH0 K T IH1 SH AH0 S
+fiddle F IH1 D AH0 L
+fiddler F IH1 D AH0 L ER0
+fiddling F IH1 D L IH0 NG
+fide F AY1 D
+fidel F IH0 D EH1 L
+fidelity F AH0 D EH1 L AH0 T IY0
+fidgeting F IH1 JH AH0 T IH0 NG
+fido F AY1 D OW0
+fie F IY1
+field F IY1 L D
+fielder F IY1 L D ER0
+fielding F IY1 L D IH0 NG
+fields F IY1 L D Z
+fiend F IY1 N D
+fiendish F IY1 N D IH0 SH
+fiends F IY1 N D Z
+fierce F IH1 R S
+fiercely F IH1 R S L IY0
+fiery F AY1 ER0 IY0
+fiesta F IY0 EH1 S T AH0
+fife F AY1 F
+fifteen F IH0 F T IY1 N
+fifteenth F IH0 F T IY1 N TH
+fifth F IH1 F TH
+fifties F IH1 F T IY0 Z
+fifty F IH1 F T IY0
+fig F IH1 G
+figaro F IH1 G ER0 OW2
+fight F AY1 T
+fighter F AY1 T ER0
+fighters F AY1 T ER0 Z
+fighting F AY1 T IH0 NG
+fights F AY1 T S
+figment F IH1 G M IH0 N T
+figs F IH1 G Z
+figuratively F IH0 G Y UH1 R AH0 T IH0 V L IY0
+figure F IH1 G Y ER0
+figured F IH1 G Y ER0 D
+figurehead F IH1 G Y ER0 HH EH2 D
+figures F IH1 G Y ER0 Z
+figurine F IH2 G Y ER0 IY1 N
+figurines F IH2 G Y ER0 IY1 N Z
+figuring F IH1 G Y ER0 IH0 NG
+fiji F IY1 JH IY0
+filament F IH1 L AH0 M AH0 N T
+file F AY1 L
+filed F AY1 L D
+files F AY1 L Z
+filet F IH0 L EY1
+filial F IH1 L IY0 AH0 L
+filing F AY1 L IH0 NG
+filings F AY1 L IH0 NG Z
+filipino F IH2 L AH0 P IY1 N OW0
+filipinos F IH2 L AH0 P IY1 N OW0 Z
+fill F IH1 L
+filled F IH1 L D
+filler F IH1 L ER0
+fillet F AH0 L EY1
+filling F IH1 L IH0 NG
+fillings F IH1 L IH0 NG Z
+fillmore F IH1 L M AO0 R
+fills F IH1 L Z
+filly F IH1 L IY0
+film F IH1 L M
+filmed F IH1 L M D
+filming F IH1 L M IH0 NG
+filmmaker F IH1 L M EY2 K ER0
+filmmakers F IH1 L M EY2 K ER0 Z
+filmmaking F IH1 L M EY2 K IH0 NG
+films F IH1 L M Z
+filter F IH1 L T ER0
+filtered F IH1 L T ER0 D
+filtering F IH1 L T ER0 IH0 NG
+filters F IH1 L T ER0 Z
+filth F IH1 L TH
+filthy F IH1 L TH IY0
+filtration F IH0 L T R EY1 SH AH0 N
+fin F IH1 N
+final F AY1 N AH0 L
+finale F AH0 N AE1 L IY0
+finalist F AY1 N AH0 L IH0 S T
+finalists F AY1 N AH0 L IH0 S T S
+finality F AY0 N AE1 L AH0 T IY0
+finalize F AY1 N AH0 L AY2 Z
+finalized F AY1 N AH0 L AY2 Z D
+finally F AY1 N AH0 L IY0
+finals F AY1 N AH0 L Z
+finance F AH0 N AE1 N S
+financed F IH0 N AE1 N S T
+finances F IH0 N AE1 N S IH0 Z
+financial F AH0 N AE1 N SH AH0 L
+financially F AH0 N AE1 N SH AH0 L IY0
+financier F IH2 N AH0 N S IH1 R
+financing F AH0 N AE1 N S IH0 NG
+finch F IH1 N CH
+find F AY1 N D
+finder F AY1 N D ER0
+finders F AY1 N D ER0 Z
+finding F AY1 N D IH0 NG
+findings F AY1 N D IH0 NG Z
+finds F AY1 N D Z
+fine F AY1 N
+fined F AY1 N D
+finely F AY1 N L IY0
+finer F AY1 N ER0
+finery F AY1 N ER0 IY0
+fines F AY1 N Z
+finesse F IH0 N EH1 S
+finest F AY1 N AH0 S T
+finger F IH1 NG G ER0
+fingered F IH1 NG G ER0 D
+fingering F IH1 NG G ER0 IH0 NG
+fingernail F IH1 NG G ER0 N EY2 L
+fingernails F IH1 NG G ER0 N EY2 L Z
+fingerprint F IH1 NG G ER0 P R IH2 N T
+fingerprinted F IH1 NG G ER0 P R IH2 N T IH0 D
+fingerprinting F IH1 NG G ER0 P R IH2 N T IH0 NG
+fingerprints F IH1 NG G ER0 P R IH2 N T S
+fingers F IH1 NG G ER0 Z
+fingertips F IH1 NG G ER0 T IH2 P S
+finish F IH1 N IH0 SH
+finished F IH1 N IH0 SH T
+finishes F IH1 N IH0 SH IH0 Z
+finishing F IH1 N IH0 SH IH0 NG
+finite F AY1 N AY2 T
+fink F IH1 NG K
+finland F IH1 N L AE2 N D
+finn F IH1 N
+finnish F IH1 N IH0 SH
+fins F IH1 N Z
+fir F ER1
+fire F AY1 ER0
+firearm F AY1 ER0 AA2 R M
+firearms F AY1 ER0 AA2 R M Z
+fireball F AY1 ER0 B AO2 L
+fireballs F AY1 ER0 B AO2 L Z
+firebird F AY1 ER0 B ER2 D
+firecracker F AY1 ER0 K R AE2 K ER0
+firecrackers F AY1 ER0 K R AE2 K ER0 Z
+fired F AY1 ER0 D
+firefight F AY1 R F AY2 T
+firefighter F AY1 R F AY2 T ER0
+firefighters F AY1 ER0 F AY2 T ER0 Z
+fireflies F AY1 ER0 F L AY2 Z
+firefly F AY1 ER0 F L AY2
+firehouse F AY1 ER0 HH AW2 S
+fireman F AY1 R M AH0 N
+firemen F AY1 R M AH0 N
+fireplace F AY1 ER0 P L EY2 S
+fireplaces F AY1 ER0 P L EY2 S AH0 Z
+firepower F AY1 R P AW2 ER0
+fires F AY1 ER0 Z
+fireside F AY1 ER0 S AY2 D
+firestone F AY1 R S T OW2 N
+firewall F AY1 R W AA0 L
+firewood F AY1 ER0 W UH2 D
+fireworks F AY1 R W ER2 K S
+firing F AY1 R IH0 NG
+firm F ER1 M
+firmer F ER1 M ER0
+firmly F ER1 M L IY0
+firms F ER1 M Z
+first F ER1 S T
+firstborn F ER1 S T B AO1 R N
+firsthand F ER0 S T HH AE1 N D
+firstly F ER1 S T L IY0
+firsts F ER1 S T S
+fiscal F IH1 S K AH0 L
+fish F IH1 SH
+fished F IH1 SH T
+fisher F IH1 SH ER0
+fisherman F IH1 SH ER0 M AE2 N
+fishermen F IH1 SH ER0 M IH0 N
+fishes F IH1 SH AH0 Z
+fishing F IH1 SH IH0 NG
+fishman F IH1 SH M AE2 N
+fishy F IH1 SH IY0
+fisk F IH1 S K
+fission F IH1 SH AH0 N
+fissure F IH1 SH ER0
+fist F IH1 S T
+fistful F IH1 S T F AH0 L
+fists F IH1 S T S
+fit F IH1 T
+fitch F IH1 CH
+fitness F IH1 T N AH0 S
+fits F IH1 T S
+fitted F IH1 T AH0 D
+fittest F IH1 T AH0 S T
+fitting F IH1 T IH0 NG
+fittings F IH1 T IH0 NG Z
+fitz F IH1 T S
+five F AY1 V
+fives F AY1 V Z
+fix F IH1 K S
+fixable F IH1 K S AH0 B AH0 L
+fixated F IH1 K S EY2 T IH0 D
+fixation F IH0 K S EY1 SH AH0 N
+fixed F IH1 K S T
+fixer F IH1 K S ER0
+fixes F IH1 K S IH0 Z
+fixing F IH1 K S IH0 NG
+fixings F IH1 K S IH0 NG Z
+fixture F IH1 K S CH ER0
+fixtures F IH1 K S CH ER0 Z
+fizz F IH1 Z
+fjord F Y AO1 R D
+flabbergasted F L AE1 B ER0 G AE2 S T IH0 D
+flabby F L AE1 B IY0
+flaccid F L AE1 K S IH0 D
+flack F L AE1 K
+flag F L AE1 G
+flagged F L AE1 G D
+flagpole F L AE1 G P OW2 L
+flagrant F L EY1 G R AH0 N T
+flags F L AE1 G Z
+flagship F L AE1 G SH IH2 P
+flagstaff F L AE1 G S T AE2 F
+flailing F L EY1 L IH0 NG
+flair F L EH1 R
+flak F L AE1 K
+flake F L EY1 K
+flakes F L EY1 K S
+flaky F L EY1 K IY0
+flamboyant F L AE0 M B OY1 AH0 N T
+flame F L EY1 M
+flamenco F L AH0 M EH1 NG K OW2
+flames F L EY1 M Z
+flaming F L EY1 M IH0 NG
+flamingo F L AH0 M IH1 NG G OW0
+flamingos F L AH0 M IH1 NG G OW0 Z
+flammable F L AE1 M AH0 B AH0 L
+flan F L AE1 N
+flanders F L AE1 N D ER0 Z
+flank F L AE1 NG K
+flanked F L AE1 NG K T
+flanking F L AE1 NG K IH0 NG
+flanks F L AE1 NG K S
+flannel F L AE1 N AH0 L
+flap F L AE1 P
+flapjack F L AE1 P JH AE2 K
+flapjacks F L AE1 P JH AE2 K S
+flapping F L AE1 P IH0 NG
+flaps F L AE1 P S
+flare F L EH1 R
+flared F L EH1 R D
+flares F L EH1 R Z
+flaring F L EH1 R IH0 NG
+flash F L AE1 SH
+flashback F L AE1 SH B AE2 K
+flashbacks F L AE1 SH B AE2 K S
+flashbulbs F L AE1 SH B AH0 L B Z
+flashed F L AE1 SH T
+flasher F L AE1 SH ER0
+flashes F L AE1 SH IH0 Z
+flashing F L AE1 SH IH0 NG
+flashlight F L AE1 SH L AY2 T
+flashlights F L AE1 SH L AY2 T S
+flashy F L AE1 SH IY0
+flask F L AE1 S K
+flat F L AE1 T
+flatbed F L AE1 T B EH2 D
+flats F L AE1 T S
+flatten F L AE1 T AH0 N
+flattened F L AE1 T AH0 N D
+flatter F L AE1 T ER0
+flattered F L AE1 T ER0 D
+flattering F L AE1 T ER0 IH0 NG
+flattery F L AE1 T ER0 IY0
+flatware F L AE1 T W EH2 R
+flaubert F L AW1 B ER0 T
+flaunt F L AO1 N T
+flaunting F L AO1 N T IH0 NG
+flavor F L EY1 V ER0
+flavored F L EY1 V ER0 D
+flavors F L EY1 V ER0 Z
+flaw F L AO1
+flawed F L AO1 D
+flawless F L AO1 L AH0 S
+flaws F L AO1 Z
+flax F L AE1 K S
+flayed F L EY1 D
+flea F L IY1
+fleas F L IY1 Z
+flecks F L EH1 K S
+fled F L EH1 D
+fledgling F L EH1 JH L IH0 NG
+flee F L IY1
+fleece F L IY1 S
+fleeing F L IY1 IH0 NG
+flees F L IY1 Z
+fleet F L IY1 T
+fleeting F L IY1 T IH0 NG
+fleets F L IY1 T S
+fleming F L EH1 M IH0 NG
+flesh F L EH1 SH
+fleshy F L EH1 SH IY0
+fletcher F L EH1 CH ER0
+fleur F L ER1
+flew F L UW1
+flex F L EH1 K S
+flexed F L EH1 K S T
+flexibility F L EH2 K S AH0 B IH1 L AH0 T IY0
+flexible F L EH1 K S AH0 B AH0 L
+flexing F L EH1 K S IH0 NG
+flick F L IH1 K
+flicker F L IH1 K ER0
+flickering F L IH1 K ER0 IH0 NG
+flicking F L IH1 K IH0 NG
+flicks F L IH1 K S
+flier F L AY1 ER0
+fliers F L AY1 ER0 Z
+flies F L AY1 Z
+flight F L AY1 T
+flights F L AY1 T S
+flighty F L AY1 T IY0
+flimsy F L IH1 M Z IY0
+flinch F L IH1 N CH
+flinched F L IH1 N CH T
+flinching F L IH1 N CH IH0 NG
+fling F L IH1 NG
+flinging F L IH1 NG IH0 NG
+flings F L IH1 NG Z
+flint F L IH1 N T
+flip F L IH1 P
+flippant F L IH1 P AH0 N T
+flipped F L IH1 P T
+flipper F L IH1 P ER0
+flippers F L IH1 P ER0 Z
+flipping F L IH1 P IH0 NG
+flips F L IH1 P S
+flirt F L ER1 T
+flirtation F L ER0 T EY1 SH AH0 N
+flirtatious F L ER0 T EY1 SH AH0 S
+flirted F L ER1 T IH0 D
+flirting F L ER1 T IH0 NG
+flirts F L ER1 T S
+flit F L IH1 T
+flitting F L IH1 T IH0 NG
+flo F L OW1
+float F L OW1 T
+floated F L OW1 T AH0 D
+floater F L OW1 T ER0
+floating F L OW1 T IH0 NG
+floats F L OW1 T S
+flock F L AA1 K
+flocking F L AA1 K IH0 NG
+flocks F L AA1 K S
+flog F L AA1 G
+flogging F L AA1 G IH0 NG
+flood F L AH1 D
+flooded F L AH1 D AH0 D
+flooding F L AH1 D IH0 NG
+floods F L AH1 D Z
+floor F L AO1 R
+floorboard F L AO1 R B AO2 R D
+floorboards F L AO1 R B AO2 R D Z
+floored F L AO1 R D
+flooring F L AO1 R IH0 NG
+floors F L AO1 R Z
+flop F L AA1 P
+flopped F L AA1 P T
+flopping F L AA1 P IH0 NG
+floppy F L AA1 P IY0
+flops F L AA1 P S
+flor F L AO1 R
+flora F L AO1 R AH0
+floral F L AO1 R AH0 L
+florence F L AO1 R AH0 N S
+florentine F L AO1 R AH0 N T IY2 N
+flores F L AO1 R EH2 Z
+florida F L AO1 R AH0 D AH0
+florin F L AO1 R IH0 N
+florist F L AA1 R IH0 S T
+floss F L AA1 S
+flotation F L OW0 T EY1 SH AH0 N
+flounder F L AW1 N D ER0
+floundering F L AW1 N D ER0 IH0 NG
+flour F L AW1 ER0
+flourish F L ER1 IH0 SH
+flourishing F L ER1 IH0 SH IH0 NG
+flow F L OW1
+flowed F L OW1 D
+flower F L AW1 ER0
+flowered F L AW1 ER0 D
+flowering F L AW1 ER0 IH0 NG
+flowerpot F L AW1 ER0 P AA2 T
+flowers F L AW1 ER0 Z
+flowery F L AW1 ER0 IY0
+flowing F L OW1 IH0 NG
+flown F L OW1 N
+flows F L OW1 Z
+flu F L UW1
+fluctuating F L AH1 K CH AH0 W EY2 T IH0 NG
+fluctuation F L AH2 K CH UW0 EY1 SH AH0 N
+fluctuations F L AH2 K CH UW0 EY1 SH AH0 N Z
+flue F L UW1
+fluent F L UW1 AH0 N T
+fluently F L UW1 AH0 N T L IY0
+fluff F L AH1 F
+fluffy F L AH1 F IY0
+fluid F L UW1 AH0 D
+fluids F L UW1 AH0 D Z
+fluke F L UW1 K
+flung F L AH1 NG
+flunk F L AH1 NG K
+flunked F L AH1 NG K T
+flunking F L AH1 NG K IH0 NG
+fluorescent F L UH2 R EH1 S AH0 N T
+flurry F L ER1 IY0
+flush F L AH1 SH
+flushed F L AH1 SH T
+flushes F L AH1 SH IH0 Z
+flushing F L AH1 SH IH0 NG
+flustered F L AH1 S T ER0 D
+flute F L UW1 T
+flutes F L UW1 T S
+flutter F L AH1 T ER0
+fluttering F L AH1 T ER0 IH0 NG
+flux F L AH1 K S
+fly F L AY1
+flyer F L AY1 ER0
+flyers F L AY1 ER0 Z
+flying F L AY1 IH0 NG
+flypaper F L AY1 P EY2 P ER0
+flywheel F L AY1 W IY2 L
+fm EH1 F EH1 M
+foal F OW1 L
+foam F OW1 M
+foaming F OW1 M IH0 NG
+foamy F OW1 M IY0
+fob F AO1 B
+focal F OW1 K AH0 L
+focus F OW1 K AH0 S
+focused F OW1 K AH0 S T
+focuses F OW1 K AH0 S IH0 Z
+focusing F OW1 K AH0 S IH0 NG
+fodder F AA1 D ER0
+foe F OW1
+foes F OW1 Z
+fog F AA1 G
+foggiest F AA1 G IY0 AH0 S T
+foggy F AA1 G IY0
+foil F OY1 L
+foiled F OY1 L D
+fold F OW1 L D
+folded F OW1 L D AH0 D
+folder F OW1 L D ER0
+folders F OW1 L D ER0 Z
+folding F OW1 L D IH0 NG
+folds F OW1 L D Z
+foliage F OW1 L IH0 JH
+folk F OW1 K
+folklore F OW1 K L AO2 R
+folks F OW1 K S
+follicles F AA1 L IH0 K AH0 L Z
+follies F AA1 L IY0 Z
+follow F AA1 L OW0
+followed F AA1 L OW0 D
+follower F AA1 L OW0 ER0
+followers F AA1 L OW0 ER0 Z
+following F AA1 L OW0 IH0 NG
+follows F AA1 L OW0 Z
+folly F AA1 L IY0
+folsom F OW1 L S AH0 M
+fond F AA1 N D
+fonder F AA1 N D ER0
+fondest F AA1 N D AH0 S T
+fondle F AO1 N D AH0 L
+fondled F AO1 N D AH0 L D
+fondling F AA1 N D AH0 L IH0 NG
+fondly F AA1 N D L IY0
+fondness F AA1 N D N AH0 S
+fondue F AA0 N D Y UW1
+font F AA1 N T
+foo F UW1
+food F UW1 D
+foods F UW1 D Z
+fool F UW1 L
+fooled F UW1 L D
+foolhardy F UW1 L HH AA2 R D IY0
+fooling F UW1 L IH0 NG
+foolish F UW1 L IH0 SH
+foolishly F UW1 L IH0 SH L IY0
+foolishness F UW1 L IH0 SH N AH0 S
+foolproof F UW1 L P R UW2 F
+fools F UW1 L Z
+foot F UH1 T
+footage F UH1 T IH0 JH
+football F UH1 T B AO2 L
+foothills F UH1 T HH IH2 L Z
+foothold F UH1 T HH OW2 L D
+footing F UH1 T IH0 NG
+footloose F UH1 T L UW2 S
+footnote F UH1 T N OW2 T
+footpath F UH1 T P AE2 TH
+footprint F UH1 T P R IH2 N T
+footprints F UH1 T P R IH2 N T S
+footstep F UH1 T S T EH2 P
+footsteps F UH1 T S T EH2 P S
+footwear F UH1 T W EH2 R
+footwork F UH1 T W ER2 K
+for F AO1 R
+forage F AO1 R IH0 JH
+foraging F AO1 R IH0 JH IH0 NG
+foray F AO1 R EY0
+forbade F ER0 B EY1 D
+forbearance F AO0 R B EH1 R AH0 N S
+forbid F ER0 B IH1 D
+forbidden F AO1 R B IH0 D AH0 N
+forbidding F ER0 B IH1 D IH0 NG
+forbids F ER0 B IH1 D Z
+force F AO1 R S
+forced F AO1 R S T
+forceful F AO1 R S F AH0 L
+forceps F AO1 R S EH0 P S
+forces F AO1 R S IH0 Z
+forcibly F AO1 R S AH0 B L IY0
+forcing F AO1 R S IH0 NG
+ford F AO1 R D
+fords F AO1 R D Z
+fore F AO1 R
+forearm F AO0 R AA1 R M
+forearms F AO0 R AA1 R M Z
+foreboding F AO0 R B OW1 D IH0 NG
+forecast F AO1 R K AE2 S T
+foreclose F AO0 R K L OW1 Z
+foreclosed F AO0 R K L OW1 Z D
+foreclosure F AO0 R K L OW1 ZH ER0
+forefathers F AO1 R F AA2 DH ER0 Z
+forefinger F AO1 R F IH2 NG G ER0
+forefront F AO1 R F R AH2 N T
+forego F AO0 R G OW1
+foregone F AO1 R G AO1 N
+foreground F AO1 R G R AW2 N D
+forehead F AO1 R HH EH0 D
+foreheads F AO1 R HH EH2 D Z
+foreign F AO1 R AH0 N
+foreigner F AO1 R AH0 N ER0
+foreigners F AO1 R AH0 N ER0 Z
+foreman F AO1 R M AH0 N
+foremost F AO1 R M OW2 S T
+forensic F ER0 EH1 N S IH0 K
+forensics F ER0 EH1 N S IH0 K S
+foreperson F AO1 R P ER0 S AH0 N
+foreplay F AO1 R P L EY2
+foresaw F AO2 R S AO1
+foresee F AO0 R S IY1
+foreseeable F AO0 R S IY1 AH0 B AH0 L
+foreseen F AO2 R S IY1 N
+foresight F AO1 R S AY2 T
+foreskin F OW1 R S K IH2 N
+forest F AO1 R AH0 S T
+forests F AO1 R AH0 S T S
+foretell F AO0 R T EH1 L
+foretold F AO0 R T OW1 L D
+forever F ER0 EH1 V ER0
+forfeit F AO1 R F IH0 T
+forfeited F AO1 R F IH0 T IH0 D
+forgave F ER0 G EY1 V
+forge F AO1 R JH
+forged F AO1 R JH D
+forger F AO1 R JH ER0
+forgeries F AO1 R JH ER0 IY0 Z
+forgery F AO1 R JH ER0 IY0
+forget F ER0 G EH1 T
+forgetful F AO0 R G EH1 T F AH0 L
+forgets F ER0 G EH1 T S
+forgettable F AO0 R G EH1 T AH0 B AH0 L
+forgetting F ER0 G EH1 T IH0 NG
+forging F AO1 R JH IH0 NG
+forgive F ER0 G IH1 V
+forgiven F ER0 G IH1 V AH0 N
+forgiveness F ER0 G IH1 V N AH0 S
+forgives F ER0 G IH1 V Z
+forgiving F ER0 G IH1 V IH0 NG
+forgo F AO0 R G OW1
+forgot F ER0 G AA1 T
+forgotten F ER0 G AA1 T AH0 N
+fork F AO1 R K
+forked F AO1 R K T
+forklift F AO1 R K L IH2 F T
+forks F AO1 R K S
+forlorn F ER0 L AO1 R N
+form F AO1 R M
+formal F AO1 R M AH0 L
+formaldehyde F AO0 R M AE1 L D AH0 HH AY2 D
+formalities F AO0 R M AE1 L AH0 T IY0 Z
+formality F AO0 R M AE1 L AH0 T IY0
+formally F AO1 R M AH0 L IY0
+format F AO1 R M AE2 T
+formation F AO0 R M EY1 SH AH0 N
+formations F AO0 R M EY1 SH AH0 N Z
+formative F AO1 R M AH0 T IH0 V
+formed F AO1 R M D
+former F AO1 R M ER0
+formerly F AO1 R M ER0 L IY0
+formica F AO0 R M AY1 K AH0
+formidable F AO1 R M AH0 D AH0 B AH0 L
+forming F AO1 R M IH0 NG
+forms F AO1 R M Z
+formula F AO1 R M Y AH0 L AH0
+formulas F AO1 R M Y AH0 L AH0 Z
+formulate F AO1 R M Y AH0 L EY2 T
+formulated F AO1 R M Y AH0 L EY2 T AH0 D
+forsake F AO0 R S EY1 K
+forsaken F AO0 R S EY1 K AH0 N
+forsaking F AO0 R S EY1 K IH0 NG
+fort F AO1 R T
+forte F AO1 R T EY0
+forth F AO1 R TH
+forthcoming F AO1 R TH K AH1 M IH0 NG
+forthright F AO1 R TH R AY1 T
+forthwith F AO1 R TH W IH1 TH
+forties F AO1 R T IY0 Z
+fortified F AO1 R T AH0 F AY2 D
+fortitude F AO1 R T IH0 T UW2 D
+fortnight F AO1 R T N AY2 T
+fortress F AO1 R T R AH0 S
+forts F AO1 R T S
+fortuitous F AO0 R T UW1 IH0 T AH0 S
+fortunate F AO1 R CH AH0 N AH0 T
+fortunately F AO1 R CH AH0 N AH0 T L IY0
+fortune F AO1 R CH AH0 N
+fortunes F AO1 R CH AH0 N Z
+forty F AO1 R T IY0
+forum F AO1 R AH0 M
+forward F AO1 R W ER0 D
+forwarded F AO1 R W ER0 D IH0 D
+forwarding F AO1 R W ER0 D IH0 NG
+forwards F AO1 R W ER0 D Z
+foss F AA1 S
+fossil F AA1 S AH0 L
+fossils F AA1 S AH0 L Z
+foster F AA1 S T ER0
+fostered F AA1 S T ER0 D
+fought F AO1 T
+foul F AW1 L
+fouled F AW1 L D
+fouling F AW1 L IH0 NG
+fouls F AW1 L Z
+found F AW1 N D
+foundation F AW0 N D EY1 SH AH0 N
+foundations F AW0 N D EY1 SH AH0 N Z
+founded F AW1 N D IH0 D
+founder F AW1 N D ER0
+founders F AW1 N D ER0 Z
+founding F AW1 N D IH0 NG
+foundry F AW1 N D R IY0
+fountain F AW1 N T AH0 N
+fountains F AW1 N T AH0 N Z
+four F AO1 R
+fours F AO1 R Z
+foursome F AO1 R S AH0 M
+fourteen F AO1 R T IY1 N
+fourteenth F AO1 R T IY1 N TH
+fourth F AO1 R TH
+fowl F AW1 L
+fowler F AW1 L ER0
+fox F AA1 K S
+foxes F AA1 K S AH0 Z
+foxhole F AA1 K S HH OW2 L
+foxholes F AA1 K S HH OW2 L Z
+foxtrot F AA1 K S T R AA0 T
+foxy F AA1 K S IY0
+foy F OY1
+foyer F OY1 ER0
+fraction F R AE1 K SH AH0 N
+fractions F R AE1 K SH AH0 N Z
+fracture F R AE1 K CH ER0
+fractured F R AE1 K CH ER0 D
+fractures F R AE1 K CH ER0 Z
+fragile F R AE1 JH AH0 L
+fragment F R AE1 G M AH0 N T
+fragmented F R AE1 G M AH0 N T IH0 D
+fragments F R AE1 G M AH0 N T S
+fragrance F R EY1 G R AH0 N S
+fragrant F R EY1 G R AH0 N T
+frail F R EY1 L
+frailty F R EY1 L T IY0
+frame F R EY1 M
+framed F R EY1 M D
+frames F R EY1 M Z
+framework F R EY1 M W ER2 K
+framing F R EY1 M IH0 NG
+franc F R AE1 NG K
+france F R AE1 N S
+frances F R AE1 N S IH0 S
+franchise F R AE1 N CH AY2 Z
+franchises F R AE1 N CH AY2 Z IH0 Z
+francis F R AE1 N S AH0 S
+francisco F R AE0 N S IH1 S K OW0
+franco F R AE1 NG K OW0
+francs F R AE1 NG K S
+frank F R AE1 NG K
+frankenstein F R AE1 NG K AH0 N S T AY2 N
+frankfurt F R AE1 NG K F ER0 T
+franklin F R AE1 NG K L IH0 N
+frankly F R AE1 NG K L IY0
+frankness F R AE1 NG K N AH0 S
+franks F R AE1 NG K S
+frantic F R AE1 N T IH0 K
+frantically F R AE1 N T AH0 K AH0 L IY0
+franz F R AE1 N Z
+fraser F R EY1 Z ER0
+frasier F R EY1 ZH ER0
+fraternal F R AH0 T ER1 N AH0 L
+fraternity F R AH0 T ER1 N AH0 T IY0
+fraternize F R AE1 T ER0 N AY2 Z
+fraternizing F R AE1 T ER0 N AY2 Z IH0 NG
+frau F R AW1
+fraud F R AO1 D
+frauds F R AO1 D Z
+fraudulent F R AO1 JH AH0 L AH0 N T
+fraught F R AO1 T
+fray F R EY1
+frayed F R EY1 D
+frazzled F R AE1 Z AH0 L D
+freak F R IY1 K
+freaked F R IY1 K T
+freaking F R IY1 K IH0 NG
+freaks F R IY1 K S
+freaky F R IY1 K IY0
+freckle F R EH1 K AH0 L
+freckles F R EH1 K AH0 L Z
+fred F R EH1 D
+frederick F R EH1 D R IH0 K
+free F R IY1
+freebie F R IY1 B IY0
+freebies F R IY1 B IY0 Z
+freed F R IY1 D
+freedman F R IY1 D M AH0 N
+freedom F R IY1 D AH0 M
+freedoms F R IY1 D AH0 M Z
+freeing F R IY1 IH0 NG
+freelance F R IY1 L AE2 N S
+freelancer F R IY1 L AE2 N S ER0
+freeloaders F R IY1 L OW2 D ER0 Z
+freely F R IY1 L IY0
+freeman F R IY1 M AH0 N
+freer F R IY1 ER0
+frees F R IY1 Z
+freestone F R IY1 S T OW2 N
+freestyle F R IY1 S T AY2 L
+freeway F R IY1 W EY2
+freeways F R IY1 W EY2 Z
+freeze F R IY1 Z
+freezer F R IY1 Z ER0
+freezers F R IY1 Z ER0 Z
+freezes F R IY1 Z IH0 Z
+freezing F R IY1 Z IH0 NG
+freight F R EY1 T
+freighter F R EY1 T ER0
+french F R EH1 N CH
+frenchman F R EH1 N CH M AE0 N
+frenchmen F R EH1 N CH M EH0 N
+frenzied F R EH1 N Z IY0 D
+frenzy F R EH1 N Z IY0
+freon F R IY1 AA0 N
+frequencies F R IY1 K W AH0 N S IY0 Z
+frequency F R IY1 K W AH0 N S IY0
+frequent F R IY1 K W AH0 N T
+frequented F R IY1 K W AH0 N T IH0 D
+frequently F R IY1 K W AH0 N T L IY0
+fresco F R EH1 S K OW0
+fresh F R EH1 SH
+freshen F R EH1 SH AH0 N
+freshener F R EH1 SH AH0 N ER0
+freshening F R EH1 SH AH0 N IH0 NG
+fresher F R EH1 SH ER0
+freshest F R EH1 SH AH0 S T
+freshly F R EH1 SH L IY0
+freshman F R EH1 SH M AH0 N
+freshmen F R EH1 SH M IH0 N
+freshness F R EH1 SH N AH0 S
+freshwater F R EH1 SH W AO2 T ER0
+fresno F R EH1 Z N OW0
+fret F R EH1 T
+fretting F R EH1 T IH0 NG
+freud F R OY1 D
+freudian F R UW1 D IY0 AH0 N
+freya F R EY1 AH0
+friar F R AY1 ER0
+friction F R IH1 K SH AH0 N
+friday F R AY1 D IY0
+fridays F R AY1 D IY0 Z
+fridge F R IH1 JH
+fried F R AY1 D
+friedman F R IY1 D M AH0 N
+friend F R EH1 N D
+friendlier F R EH1 N D L IY0 ER0
+friendliest F R EH1 N D L IY0 AH0 S T
+friendly F R EH1 N D L IY0
+friends F R EH1 N D Z
+friendship F R EH1 N D SH IH0 P
+friendships F R EH1 N D SH IH0 P S
+fries F R AY1 Z
+frigate F R IH1 G AH0 T
+frigging F R IH1 G IH0 NG
+fright F R AY1 T
+frighten F R AY1 T AH0 N
+frightened F R AY1 T AH0 N D
+frightening F R AY1 T AH0 N IH0 NG
+frighteningly F R AY1 T AH0 N IH0 NG L IY0
+frightens F R AY1 T AH0 N Z
+frightful F R AY1 T F AH0 L
+frightfully F R AY1 T F AH0 L IY0
+frigid F R IH1 JH AH0 D
+frills F R IH1 L Z
+frilly F R IH1 L IY0
+fringe F R IH1 N JH
+fringes F R IH1 N JH IH0 Z
+frisbee F R IH1 S B IY0
+frisco F R IY1 S K OW0
+frisk F R IH1 S K
+frisked F R IH1 S K T
+frisky F R IH1 S K IY0
+fritter F R IH1 T ER0
+fritz F R IH1 T S
+frivolous F R IH1 V AH0 L AH0 S
+fro F R OW1
+frock F R AA1 K
+frocks F R AA1 K S
+frog F R AA1 G
+frogs F R AA1 G Z
+frolic F R AA1 L IH0 K
+from F R AH1 M
+front F R AH1 N T
+frontal F R AH1 N T AH0 L
+fronted F R AH1 N T IH0 D
+frontier F R AH0 N T IH1 R
+frontiers F R AH0 N T IH1 R Z
+fronting F R AH1 N T IH0 NG
+fronts F R AH1 N T S
+frost F R AO1 S T
+frostbite F R AO1 S T B AY2 T
+frosted F R AO1 S T AH0 D
+frosting F R AO1 S T IH0 NG
+frosty F R AO1 S T IY0
+frown F R AW1 N
+frowned F R AW1 N D
+frowning F R AW1 N IH0 NG
+frowns F R AW1 N Z
+froze F R OW1 Z
+frozen F R OW1 Z AH0 N
+fruit F R UW1 T
+fruitcake F R UW1 T K EY2 K
+fruitful F R UW1 T F AH0 L
+fruition F R UW0 IH1 SH AH0 N
+fruitless F R UW1 T L AH0 S
+fruits F R UW1 T S
+fruity F R UW1 T IY0
+frustrate F R AH1 S T R EY2 T
+frustrated F R AH1 S T R EY2 T AH0 D
+frustrating F R AH1 S T R EY2 T IH0 NG
+frustration F R AH0 S T R EY1 SH AH0 N
+frustrations F R AH0 S T R EY1 SH AH0 N Z
+fry F R AY1
+fryer F R AY1 ER0
+frying F R AY1 IH0 NG
+fu F UW1
+fuck F AH1 K
+fucked F AH1 K T
+fucker F AH1 K ER0
+fuckers F AH1 K ER0 Z
+fucking F AH1 K IH0 NG
+fucks F AH1 K S
+fudge F AH1 JH
+fuel F Y UW1 AH0 L
+fueled F Y UW1 AH0 L D
+fueling F Y UW1 L IH0 NG
+fuelled F Y UW1 AH0 L D
+fuels F Y UW1 AH0 L Z
+fugitive F Y UW1 JH AH0 T IH0 V
+fugitives F Y UW1 JH IH0 T IH0 V Z
+fugue F Y UW1 G
+fuhrer F UH1 R ER0
+fuji F UW1 JH IY0
+fulfil F UH0 L F IH1 L
+fulfill F UH0 L F IH1 L
+fulfilled F UH0 L F IH1 L D
+fulfilling F UH0 L F IH1 L IH0 NG
+fulfillment F UH0 L F IH1 L M AH0 N T
+full F UH1 L
+fullback F UH1 L B AE2 K
+fuller F UH1 L ER0
+fullest F UH1 L AH0 S T
+fullness F UH1 L N AH0 S
+fully F UH1 L IY0
+fumble F AH1 M B AH0 L
+fumbled F AH1 M B AH0 L D
+fumbles F AH1 M B AH0 L Z
+fumbling F AH1 M B AH0 L IH0 NG
+fumes F Y UW1 M Z
+fun F AH1 N
+function F AH1 NG K SH AH0 N
+functional F AH1 NG K SH AH0 N AH0 L
+functioned F AH1 NG K SH AH0 N D
+functioning F AH1 NG K SH AH0 N IH0 NG
+functions F AH1 NG K SH AH0 N Z
+fund F AH1 N D
+fundamental F AH2 N D AH0 M EH1 N T AH0 L
+fundamentalist F AH2 N D AH0 M EH1 N T AH0 L IH0 S T
+fundamentally F AH2 N D AH0 M EH1 N T AH0 L IY0
+fundamentals F AH2 N D AH0 M EH1 N T AH0 L Z
+funded F AH1 N D AH0 D
+funding F AH1 N D IH0 NG
+fundraiser F AH1 N D R EY2 Z ER0
+fundraising F AH1 N D R EY2 S IH0 NG
+funds F AH1 N D Z
+funeral F Y UW1 N ER0 AH0 L
+funerals F Y UW1 N ER0 AH0 L Z
+fungal F AH1 NG G AH0 L
+fungus F AH1 NG G AH0 S
+funk F AH1 NG K
+funky F AH1 NG K IY0
+funnel F AH1 N AH0 L
+funnier F AH1 N IY0 ER0
+funniest F AH1 N IY0 AH0 S T
+funny F AH1 N IY0
+fur F ER1
+furious F Y UH1 R IY0 AH0 S
+furiously F Y UH1 R IY0 AH0 S L IY0
+furlong F ER1 L AO2 NG
+furlough F ER1 L OW0
+furnace F ER1 N AH0 S
+furnaces F ER1 N AH2 S IH0 Z
+furnish F ER1 N IH0 SH
+furnished F ER1 N IH0 SH T
+furnishings F ER1 N IH0 SH IH0 NG Z
+furniture F ER1 N IH0 CH ER0
+furry F ER1 IY0
+furs F ER1 Z
+further F ER1 DH ER0
+furthermore F ER1 DH ER0 M AO2 R
+furthest F ER1 TH AH0 S T
+furtive F ER1 T IH0 V
+fury F Y UH1 R IY0
+fuse F Y UW1 Z
+fused F Y UW1 Z D
+fuselage F Y UW1 S AH0 L AA2 JH
+fuses F Y UW1 Z AH0 Z
+fusion F Y UW1 ZH AH0 N
+fuss F AH1 S
+fussing F AH1 S IH0 NG
+fussy F AH1 S IY0
+futile F Y UW1 T AH0 L
+futility F Y UW0 T IH1 L AH0 T IY0
+futon F UW1 T AA0 N
+future F Y UW1 CH ER0
+futures F Y UW1 CH ER0 Z
+futuristic F Y UW2 CH ER0 IH1 S T IH0 K
+fuzz F AH1 Z
+fuzzy F AH1 Z IY0
+g JH IY1
+ga G AA1
+gab G AE1 B
+gabbing G AE1 B IH0 NG
+gabby G AE1 B IY0
+gable G EY1 B AH0 L
+gables G EY1 B AH0 L Z
+gabriel G EY1 B R IY0 AH0 L
+gaby G AE1 B IY0
+gad G AE1 D
+gadget G AE1 JH AH0 T
+gadgets G AE1 JH AH0 T S
+gael G EY1 L
+gaelic G EY1 L IH0 K
+gaff G AE1 F
+gag G AE1 G
+gaga G AA1 G AH2
+gage G EY1 JH
+gagged G AE1 G D
+gaggle G AE1 G AH0 L
+gags G AE1 G Z
+gail G EY1 L
+gaily G EY1 L IY0
+gain G EY1 N
+gained G EY1 N D
+gaining G EY1 N IH0 NG
+gains G EY1 N Z
+gait G EY1 T
+gal G AE1 L
+gala G AE1 L AH0
+galactic G AH0 L AE1 K T IH0 K
+galahad G AE1 L AH0 HH AE2 D
+galaxies G AE1 L AH0 K S IY0 Z
+galaxy G AE1 L AH0 K S IY0
+gale G EY1 L
+galen G EY1 L AH0 N
+galilee G AE1 L AH0 L IY2
+galileo G AE2 L AH0 L IY1 OW0
+gall G AO1 L
+gallant G AE1 L AH0 N T
+gallantly G AE1 L AH0 N T L IY0
+gallantry G AE1 L AH0 N T R IY0
+gallbladder G AO1 L B L AE2 D ER0
+galleon G AE1 L IY0 AH0 N
+galleries G AE1 L ER0 IY0 Z
+gallery G AE1 L ER0 IY0
+galley G AE1 L IY0
+galleys G AE1 L IY0 Z
+gallon G AE1 L AH0 N
+gallons G AE1 L AH0 N Z
+gallop G AE1 L AH0 P
+galloping G AE1 L AH0 P IH0 NG
+galloway G AE1 L OW0 W EY2
+gallows G AE1 L OW0 Z
+galls G AO1 L Z
+gallup G AE1 L AH0 P
+galore G AH0 L AO1 R
+galoshes G AH0 L AA1 SH AH0 Z
+gals G AE1 L Z
+galt G AO1 L T
+galvanized G AE1 L V AH0 N AY2 Z D
+gambit G AE1 M B IH0 T
+gamble G AE1 M B AH0 L
+gambled G AE1 M B AH0 L D
+gambler G AE1 M B L ER0
+gamblers G AE1 M B L ER0 Z
+gambles G AE1 M B AH0 L Z
+gambling G AE1 M B AH0 L IH0 NG
+game G EY1 M
+games G EY1 M Z
+gaming G EY1 M IH0 NG
+gamma G AE1 M AH0
+gamut G AE1 M AH0 T
+gander G AE1 N D ER0
+gandhi G AA1 N D IY0
+gang G AE1 NG
+gangbusters G AE1 NG B AH2 S T ER0 Z
+ganging G AE1 NG IH0 NG
+gangly G AE1 NG L IY0
+gangplank G AE1 NG P L AE2 NG K
+gangrene G AE1 N G R IY0 N
+gangs G AE1 NG Z
+gangsta G AE1 NG S T AH0
+gangster G AE1 NG S T ER0
+gangsters G AE1 NG S T ER0 Z
+gant G AE1 N T
+gantry G AE1 N T R IY0
+gap G AE1 P
+gaping G EY1 P IH0 NG
+gaps G AE1 P S
+gar G AA1 R
+garage G ER0 AA1 ZH
+garages G ER0 AA1 ZH IH0 Z
+garb G AA1 R B
+garbage G AA1 R B IH0 JH
+garbled G AA1 R B AH0 L D
+garbo G AA1 R B OW0
+gard G AA1 R D
+garde G AA1 R D
+garden G AA1 R D AH0 N
+gardener G AA1 R D AH0 N ER0
+gardeners G AA1 R D AH0 N ER0 Z
+gardenias G AA0 R D IY1 N Y AH0 Z
+gardening G AA1 R D AH0 N IH0 NG
+gardens G AA1 R D AH0 N Z
+gareth G EH1 R IH0 TH
+garfield G AA1 R F IY2 L D
+gargantuan G AA0 R G AE1 N CH UW0 AH0 N
+gargoyle G AA1 R G OY2 L
+gargoyles G AA1 R G OY2 L Z
+garibaldi G AE2 R AH0 B AO1 L D IY0
+garland G AA1 R L AH0 N D
+garlic G AA1 R L IH0 K
+garment G AA1 R M AH0 N T
+garments G AA1 R M AH0 N T S
+garner G AA1 R N ER0
+garnet G AA1 R N AH0 T
+garnett G AA1 R N IH0 T
+garnish G AA1 R N IH0 SH
+garret G EH1 R IH0 T
+garrison G AE1 R IH0 S AH0 N
+garter G AA1 R T ER0
+garters G AA1 R T ER0 Z
+garth G AA1 R TH
+garvey G AA1 R V IY0
+gary G EH1 R IY0
+gas G AE1 S
+gases G AE1 S AH0 Z
+gash G AE1 SH
+gasket G AE1 S K AH0 T
+gaslight G AE1 S L AY0 T
+gasoline G AE1 S AH0 L IY2 N
+gasp G AE1 S P
+gasping G AE1 S P IH0 NG
+gasps G AE1 S P S
+gassed G AE1 S T
+gassing G AE1 S IH0 NG
+gastric G AE1 S T R IH0 K
+gat G AE1 T
+gate G EY1 T
+gated G EY1 T IH0 D
+gatekeeper G EY1 T K IY2 P ER0
+gates G EY1 T S
+gateway G EY1 T W EY2
+gather G AE1 DH ER0
+gathered G AE1 DH ER0 D
+gathering G AE1 DH ER0 IH0 NG
+gatherings G AE1 DH ER0 IH0 NG Z
+gathers G AE1 DH ER0 Z
+gator G EY1 T ER0
+gators G EY1 T ER0 Z
+gatsby G AE1 T S B IY0
+gauche G OW1 SH
+gaucho G AW1 CH OW0
+gaudy G AO1 D IY0
+gauge G EY1 JH
+gauges G EY1 JH AH0 Z
+gaul G AO1 L
+gauntlet G AO1 N T L AH0 T
+gauze G AO1 Z
+gave G EY1 V
+gavel G AE1 V AH0 L
+gawain G AA1 W AH0 N
+gawk G AO1 K
+gawking G AO1 K IH0 NG
+gawky G AO1 K IY0
+gay G EY1
+gayer G EY1 ER0
+gays G EY1 Z
+gaze G EY1 Z
+gazebo G AH0 Z IY1 B OW0
+gazed G EY1 Z D
+gazelle G AH0 Z EH1 L
+gazelles G AH0 Z EH1 L Z
+gazette G AH0 Z EH1 T
+gazing G EY1 Z IH0 NG
+gear G IH1 R
+geared G IH1 R D
+gearing G IH1 R IH0 NG
+gears G IH1 R Z
+gecko G EH1 K OW0
+ged G EH1 D
+gee JH IY1
+geek G IY1 K
+geeks G IY1 K S
+geeky G IY1 K IY0
+gees JH IY1 S
+geese G IY1 S
+geez JH IY1 Z
+geiger G AY1 G ER0
+geisha G EY1 SH AH0
+gel JH EH1 L
+gelatin JH EH1 L AH0 T AH0 N
+gelder G EH1 L D ER0
+gem JH EH1 M
+gemini JH EH1 M AH0 N AY2
+gems JH EH1 M Z
+gen JH EH1 N
+gendarme ZH AA1 N D AA2 R M
+gender JH EH1 N D ER0
+gene JH IY1 N
+genealogy JH IY2 N IY0 AA1 L AH0 JH IY0
+general JH EH1 N ER0 AH0 L
+generalissimo JH EH2 N EH0 R AH0 L IH1 S IH0 M OW2
+generally JH EH1 N ER0 AH0 L IY0
+generals JH EH1 N ER0 AH0 L Z
+generate JH EH1 N ER0 EY2 T
+generated JH EH1 N ER0 EY2 T AH0 D
+generates JH EH1 N ER0 EY2 T S
+generating JH EH1 N ER0 EY2 T IH0 NG
+generation JH EH2 N ER0 EY1 SH AH0 N
+generations JH EH2 N ER0 EY1 SH AH0 N Z
+generator JH EH1 N ER0 EY2 T ER0
+generators JH EH1 N ER0 EY2 T ER0 Z
+generic JH AH0 N EH1 R IH0 K
+generosity JH EH2 N ER0 AA1 S AH0 T IY0
+generous JH EH1 N ER0 AH0 S
+generously JH EH1 N ER0 AH0 S L IY0
+genes JH IY1 N Z
+genesis JH EH1 N AH0 S AH0 S
+genetic JH AH0 N EH1 T IH0 K
+genetically JH AH0 N EH1 T IH0 K L IY0
+geneticist JH AH0 N EH1 T AH0 S AH0 S T
+genetics JH AH0 N EH1 T IH0 K S
+geneva JH AH0 N IY1 V AH0
+genghis JH EH1 NG HH IH0 S
+genie JH IY1 N IY0
+genital JH EH1 N AH0 T AH0 L
+genitalia JH EH0 N AH0 T AA1 L Y AH0
+genitals JH EH1 N AH0 T AH0 L Z
+genius JH IY1 N Y AH0 S
+geniuses JH IY1 N Y AH0 S IH0 Z
+genoa JH EH1 N OW0 AH0
+genocide JH EH1 N AH0 S AY2 D
+genome JH IY1 N OW2 M
+genre ZH AA1 N R AH0
+gent JH EH1 N T
+genteel JH EH0 N T IY1 L
+gentile JH EH1 N T AY2 L
+gentle JH EH1 N T AH0 L
+gentleman JH EH1 N T AH0 L M AH0 N
+gentlemanly JH EH1 N T AH0 L M AH0 N L IY0
+gentlemen JH EH1 N T AH0 L M IH0 N
+gentleness JH EH1 N T AH0 L N AH0 S
+gentler JH EH1 N T L ER0
+gently JH EH1 N T L IY0
+gentry JH EH1 N T R IY0
+gents JH EH1 N T S
+genuine JH EH1 N Y AH0 W AH0 N
+genuinely JH EH1 N Y AH0 W AH0 N L IY0
+genus JH IY1 N AH0 S
+geographic JH IY2 AH0 G R AE1 F IH0 K
+geographical JH IY2 AH0 G R AE1 F IH0 K AH0 L
+geographically JH IY2 AH0 G R AE1 F IH0 K AH0 L IY0
+geography JH IY0 AA1 G R AH0 F IY0
+geological JH IY2 AH0 L AA1 JH IH0 K AH0 L
+geologist JH IY0 AA1 L AH0 JH AH0 S T
+geologists JH IY0 AA1 L AH0 JH IH0 S T S
+geology JH IY0 AA1 L AH0 JH IY0
+geometric JH IY2 AH0 M EH1 T R IH0 K
+geometry JH IY0 AA1 M AH0 T R IY0
+george JH AO1 R JH
+georgette JH AO0 R JH EH1 T
+georgia JH AO1 R JH AH0
+georgian JH AO1 R JH AH0 N
+gerald JH EH1 R AH0 L D
+gerbil JH ER1 B IH0 L
+gerbils JH ER1 B IH0 L S
+gere G IH1 R
+geriatric JH EH2 R IY0 AE1 T R IH0 K
+germ JH ER1 M
+german JH ER1 M AH0 N
+germans JH ER1 M AH0 N Z
+germany JH ER1 M AH0 N IY0
+germs JH ER1 M Z
+gertrude G ER1 T R UW0 D
+gestapo G AH0 S T AA1 P OW0
+gestation JH EH0 S T EY1 SH AH0 N
+gesture JH EH1 S CH ER0
+gestures JH EH1 S CH ER0 Z
+gesundheit G AH0 Z UH1 N D HH AY0 T
+get G EH1 T
+getaway G EH1 T AH0 W EY2
+gets G EH1 T S
+getting G EH1 T IH0 NG
+gettysburg G EH1 T IY0 Z B ER0 G
+ghana G AE1 N AH0
+ghastly G AE1 S T L IY0
+ghetto G EH1 T OW0
+ghost G OW1 S T
+ghostly G OW1 S T L IY0
+ghosts G OW1 S T S
+ghoul G UW1 L
+ghouls G UW1 L Z
+giant JH AY1 AH0 N T
+giants JH AY1 AH0 N T S
+gib G IH1 B
+gibberish G IH1 B ER0 IH0 SH
+gibbons G IH1 B IH0 N Z
+gibraltar JH IH0 B R AO1 L T ER0
+gibson G IH1 B S AH0 N
+giddy G IH1 D IY0
+gideon G IH1 D IY0 AH0 N
+gift G IH1 F T
+gifted G IH1 F T AH0 D
+gifts G IH1 F T S
+gig G IH1 G
+gigabyte G IH1 G AH0 B AY2 T
+gigantic JH AY0 G AE1 N T IH0 K
+giggle G IH1 G AH0 L
+giggles G IH1 G AH0 L Z
+giggling G IH1 G AH0 L IH0 NG
+gigolo JH IH1 G AH0 L OW0
+gigs G IH1 G Z
+gila G IY1 L AH0
+gilbert G IH1 L B ER0 T
+gilded G IH1 L D IH0 D
+giles JH AY1 L Z
+gill G IH1 L
+gillian JH IH1 L IY0 AH0 N
+gills G IH1 L Z
+gilly G IH1 L IY0
+gimme G IH1 M IY0
+gimmick G IH1 M IH0 K
+gimmicks G IH1 M IH0 K S
+gin JH IH1 N
+ginger JH IH1 N JH ER0
+gingerbread JH IH1 N JH ER0 B R EH2 D
+ginny JH IH1 N IY0
+ginseng JH IH1 N S EH2 NG
+gipper G IH1 P ER0
+giraffe JH ER0 AE1 F
+giraffes JH ER0 AE1 F S
+girder G ER1 D ER0
+girdle G ER1 D AH0 L
+girl G ER1 L
+girlfriend G ER1 L F R EH2 N D
+girlfriends G ER1 L F R EH2 N D Z
+girlie G ER1 L IY0
+girlish G ER1 L IH0 SH
+girls G ER1 L Z
+giron ZH IH1 R AH0 N
+girth G ER1 TH
+gist JH IH1 S T
+git G IH1 T
+giulio JH UW1 L IY0 OW0
+giuseppe JH IH0 S EH1 P IY0
+give G IH1 V
+giveaway G IH1 V AH0 W EY2
+given G IH1 V AH0 N
+giver G IH1 V ER0
+gives G IH1 V Z
+giveth G IH1 V EH0 TH
+giving G IH1 V IH0 NG
+gizmo G IH1 Z M OW2
+gizzard G IH1 Z ER0 D
+glacier G L EY1 SH ER0
+glad G L AE1 D
+glade G L EY1 D
+glades G L EY1 D Z
+gladiator G L AE1 D IY0 EY2 T ER0
+gladiators G L AE1 D IY0 EY2 T ER0 Z
+gladly G L AE1 D L IY0
+glam G L AE1 M
+glamorous G L AE1 M ER0 AH0 S
+glamour G L AE1 M ER0
+glance G L AE1 N S
+glanced G L AE1 N S T
+glances G L AE1 N S IH0 Z
+glancing G L AE1 N S IH0 NG
+gland G L AE1 N D
+glands G L AE1 N D Z
+glandular G L AE1 N JH AH0 L ER0
+glare G L EH1 R
+glaring G L EH1 R IH0 NG
+glasgow G L AE1 S K OW2
+glass G L AE1 S
+glasses G L AE1 S AH0 Z
+glassy G L AE1 S IY0
+glaucoma G L AO0 K OW1 M AH0
+glaze G L EY1 Z
+glazed G L EY1 Z D
+gleam G L IY1 M
+gleaming G L IY1 M IH0 NG
+glee G L IY1
+glen G L EH1 N
+glendale G L EH1 N D EY2 L
+glib G L IH1 B
+glick G L IH1 K
+glide G L AY1 D
+glider G L AY1 D ER0
+gliders G L AY1 D ER0 Z
+gliding G L AY1 D IH0 NG
+glimmer G L IH1 M ER0
+glimpse G L IH1 M P S
+glimpsed G L IH1 M P S T
+glimpses G L IH1 M P S IH0 Z
+glint G L IH1 N T
+glisten G L IH1 S AH0 N
+glistening G L IH1 S AH0 N IH0 NG
+glitch G L IH1 CH
+glitches G L IH1 CH IH0 Z
+glitter G L IH1 T ER0
+glittering G L IH1 T ER0 IH0 NG
+glitters G L IH1 T ER0 Z
+gloat G L OW1 T
+gloating G L OW1 T IH0 NG
+global G L OW1 B AH0 L
+globalization G L OW2 B AH0 L IH0 Z EY1 SH AH0 N
+globe G L OW1 B
+globes G L OW1 B Z
+gloom G L UW1 M
+gloomy G L UW1 M IY0
+gloria G L AO1 R IY0 AH0
+glories G L AO1 R IY0 Z
+glorified G L AO1 R AH0 F AY2 D
+glorify G L AO1 R AH0 F AY2
+glorious G L AO1 R IY0 AH0 S
+gloriously G L AO1 R IY0 AH0 S L IY0
+glory G L AO1 R IY0
+gloss G L AO1 S
+glossy G L AO1 S IY0
+gloucester G L AO1 S T ER0
+glove G L AH1 V
+glover G L AH1 V ER0
+gloves G L AH1 V Z
+glow G L OW1
+glowed G L OW1 D
+glowing G L OW1 IH0 NG
+glows G L OW1 Z
+gluck G L AH1 K
+glucose G L UW1 K OW2 S
+glue G L UW1
+glued G L UW1 D
+glum G L AH1 M
+gluttony G L AH1 T AH0 N IY0
+gm JH IY2 EH1 M
+gnarly N AA1 R L IY0
+gnat N AE1 T
+gnats N AE1 T S
+gnaw N AO1
+gnawed N AO1 D
+gnawing N AO1 IH0 NG
+gnome N OW1 M
+gnomes N OW1 M Z
+gnu N UW1
+go G OW1
+goal G OW1 L
+goalie G OW1 L IY0
+goalkeeper G OW1 L K IY2 P ER0
+goals G OW1 L Z
+goat G OW1 T
+goatee G OW1 T IY1
+goats G OW1 T S
+gob G AA1 B
+gobble G AA1 B AH0 L
+gobbledygook G AA2 B AH0 L D IY0 G UH1 K
+gobbler G AA1 B AH0 L ER0
+gobbling G AA1 B AH0 L IH0 NG
+gobi G OW1 B IY0
+goblet G AA1 B L AH0 T
+goblin G AA1 B L IH0 N
+goblins G AA1 B L IH0 N Z
+god G AA1 D
+goddam G AA1 D D AE2 M
+goddammit G AA1 D D AE2 M IH0 T
+goddamn G AA1 D D AE2 M
+goddamned G AA1 D D AE2 M D
+goddard G AA1 D ER0 D
+goddess G AA1 D AH0 S
+goddesses G AA1 D AH0 S IH0 Z
+godfather G AA1 D F AA2 DH ER0
+godiva G AH0 D AY1 V AH0
+godless G AA1 D L AH0 S
+godly G AA1 D L IY0
+godmother G AA1 D M AH2 DH ER0
+gods G AA1 D Z
+godsend G AA1 D S EH2 N D
+godspeed G AA1 D S P IY0 D
+goebbels G OW1 B AH0 L Z
+goes G OW1 Z
+goethe G OW1 TH
+goggle G AA1 G AH0 L
+goggles G AA1 G AH0 L Z
+gogo G OW1 G OW2
+going G OW1 IH0 NG
+goings G OW1 IH0 NG Z
+gold G OW1 L D
+golden G OW1 L D AH0 N
+goldfish G OW1 L D F IH2 SH
+goldie G OW1 L D IY0
+goldilocks G OW1 L D IY0 L AO2 K S
+goldmine G OW1 L D M AY2 N
+goldsmith G OW1 L D S M IH2 TH
+goldy G OW1 L D IY0
+golem G OW1 L AH0 M
+golf G AA1 L F
+golfer G AA1 L F ER0
+golfers G AA1 L F ER0 Z
+golfing G AA1 L F IH0 NG
+goliath G AH0 L AY1 AH0 TH
+golly G AA1 L IY0
+gomer G OW1 M ER0
+gomorrah G AH0 M AO1 R AH0
+gonads G OW1 N AE0 D Z
+gondola G AA1 N D AH0 L AH0
+gone G AO1 N
+goner G AA1 N ER0
+gong G AO1 NG
+gonna G AA1 N AH0
+gonorrhea G AA2 N ER0 IY1 AH0
+gonzalo G AA0 N Z AA1 L OW0
+gonzo G AA1 N Z OW0
+goo G UW1
+good G UH1 D
+goodbye G UH2 D B AY1
+goodbyes G UH2 D B AY1 Z
+goodie G UH1 D IY0
+goodies G UH1 D IY0 Z
+goodly G UH1 D L IY0
+goodman G UH1 D M AH0 N
+goodness G UH1 D N AH0 S
+goodnight G UH1 D N AY2 T
+goodrich G UH1 D R IH2 CH
+goods G UH1 D Z
+goodwill G UH1 D W IH1 L
+goody G UH1 D IY0
+gooey G UW1 IY0
+goof G UW1 F
+goofed G UW1 F T
+goofing G UW1 F IH0 NG
+goofy G UW1 F IY0
+google G UW1 G AH0 L
+googled G UW1 G AH0 L D
+gook G UH1 K
+goon G UW1 N
+goons G UW1 N Z
+goop G UW1 P
+goose G UW1 S
+gooseberry G UW1 S B EH2 R IY0
+goosey G UW1 S IY0
+gopher G OW1 F ER0
+gophers G OW1 F ER0 Z
+gora G AO1 R AH0
+goran G AO1 R AH0 N
+gore G AO1 R
+gored G AO1 R D
+gorge G AO1 R JH
+gorgeous G AO1 R JH AH0 S
+gorilla G ER0 IH1 L AH0
+gorillas G ER0 IH1 L AH0 Z
+goring G AO1 R IH0 NG
+gorman G AO1 R M AH0 N
+gory G AO1 R IY0
+gosh G AA1 SH
+gospel G AA1 S P AH0 L
+gospels G AA1 S P AH0 L Z
+goss G AO1 S
+gossamer G AA1 S AH0 M ER0
+gossip G AA1 S AH0 P
+gossiping G AA1 S AH0 P IH0 NG
+gossips G AA1 S AH0 P S
+got G AA1 T
+gotcha G AA1 CH AH0
+goth G AA1 TH
+gotham G AA1 TH AH0 M
+gothic G AA1 TH IH0 K
+gotta G AA1 T AH0
+gotten G AA1 T AH0 N
+gouge G AW1 JH
+gouged G AW1 JH D
+gouging G AW1 JH IH0 NG
+goulash G UW1 L AA2 SH
+gourd G AO1 R D
+gourmet G UH1 R M EY2
+gout G AW1 T
+gov G AH1 V
+govern G AH1 V ER0 N
+governed G AH1 V ER0 N D
+governess G AH1 V ER0 N AH0 S
+governing G AH1 V ER0 N IH0 NG
+government G AH1 V ER0 M AH0 N T
+governmental G AH1 V ER0 M EH2 N T AH0 L
+governments G AH1 V ER0 M AH0 N T S
+governor G AH1 V ER0 N ER0
+governors G AH1 V ER0 N ER0 Z
+governs G AH1 V ER0 N Z
+gown G AW1 N
+gowns G AW1 N Z
+goy G OY1
+gps G IY1 P IY0 EH1 S
+grab G R AE1 B
+grabbed G R AE1 B D
+grabbing G R AE1 B IH0 NG
+grabs G R AE1 B Z
+grace G R EY1 S
+graced G R EY1 S T
+graceful G R EY1 S F AH0 L
+gracefully G R EY1 S F AH0 L IY0
+graces G R EY1 S IH0 Z
+gracias G R AA1 S IY0 AH0 Z
+gracious G R EY1 SH AH0 S
+graciously G R EY1 SH AH0 S L IY0
+grad G R AE1 D
+grade G R EY1 D
+graded G R EY1 D AH0 D
+grader G R EY1 D ER0
+graders G R EY1 D ER0 Z
+grades G R EY1 D Z
+grading G R EY1 D IH0 NG
+gradual G R AE1 JH UW0 AH0 L
+gradually G R AE1 JH UW0 AH0 L IY0
+graduate G R AE1 JH AH0 W AH0 T
+graduated G R AE1 JH UW0 EY2 T IH0 D
+graduates G R AE1 JH AH0 W AH0 T S
+graduating G R AE1 JH AH0 W EY2 T IH0 NG
+graduation G R AE2 JH UW0 EY1 SH AH0 N
+graf G R AE1 F
+graffiti G R AH0 F IY1 T IY0
+graft G R AE1 F T
+grafts G R AE1 F T S
+graham G R EY1 AH0 M
+grail G R EY1 L
+grain G R EY1 N
+grains G R EY1 N Z
+gram G R AE1 M
+grama G R AE1 M AH0
+gramercy G R AH0 M ER1 S IY0
+grammar G R AE1 M ER0
+grammy G R AE1 M IY0
+grams G R AE1 M Z
+gran G R AE1 N
+granada G R AH0 N AA1 D AH0
+grand G R AE1 N D
+grandad G R AE1 N D AE2 D
+grandchild G R AE1 N D CH AY2 L D
+grandchildren G R AE1 N CH IH2 L D R AH0 N
+granddad G R AE1 N D AE2 D
+granddaddy G R AE1 N D AE2 D IY0
+granddaughter G R AE1 N D AO2 T ER0
+grande G R AE1 N D
+grander G R AE1 N D ER0
+grandest G R AE1 N D AH0 S T
+grandeur G R AE0 N D UW1 R
+grandfather G R AE1 N D F AA2 DH ER0
+grandfathers G R AE1 N D F AA2 DH ER0 Z
+grandiose G R AE2 N D IY0 OW1 S
+grandma G R AE1 N D M AA0
+grandmas G R AE1 N D M AA2 Z
+grandmaster G R AE1 N D M AE1 S T ER0
+grandmother G R AE1 N D M AH2 DH ER0
+grandmothers G R AE1 N D M AH2 DH ER0 Z
+grandpa G R AE1 N D P AA2
+grandparents G R AE1 N D P EH2 R AH0 N T S
+grandson G R AE1 N D S AH2 N
+grandsons G R AE1 N D S AH2 N Z
+grandstand G R AE1 N D S T AE2 N D
+grandstanding G R AE1 N D S T AE2 N D IH0 NG
+grange G R EY1 N JH
+granger G R EY1 N JH ER0
+granite G R AE1 N AH0 T
+granny G R AE1 N IY0
+granola G R AH0 N OW1 L AH0
+grant G R AE1 N T
+granted G R AE1 N T AH0 D
+granting G R AE1 N T IH0 NG
+grants G R AE1 N T S
+grape G R EY1 P
+grapefruit G R EY1 P F R UW2 T
+grapes G R EY1 P S
+grapevine G R EY1 P V AY2 N
+graph G R AE1 F
+graphic G R AE1 F IH0 K
+graphics G R AE1 F IH0 K S
+graphite G R AE1 F AY2 T
+graphs G R AE1 F S
+grappling G R AE1 P L IH0 NG
+gras G R AE1 S
+grasp G R AE1 S P
+grasped G R AE1 S P T
+grasping G R AE1 S P IH0 NG
+grass G R AE1 S
+grasshopper G R AE1 S HH AA2 P ER0
+grasshoppers G R AE1 S HH AA2 P ER0 Z
+grassroots G R AE1 S R UW1 T S
+grassy G R AE1 S IY0
+grate G R EY1 T
+grateful G R EY1 T F AH0 L
+gratefully G R EY1 T F AH0 L IY0
+grates G R EY1 T S
+gratification G R AE2 T AH0 F AH0 K EY1 SH AH0 N
+gratified G R AE1 T AH0 F AY2 D
+gratifying G R AE1 T AH0 F AY2 IH0 NG
+grating G R EY1 T IH0 NG
+gratis G R AE1 T AH0 S
+gratitude G R AE1 T AH0 T UW2 D
+gratuitous G R AH0 T UW1 AH0 T AH0 S
+gratuity G R AH0 T UW1 IH0 T IY0
+grave G R EY1 V
+gravel G R AE1 V AH0 L
+gravely G R EY1 V L IY0
+graves G R EY1 V Z
+gravest G R AE1 V AH0 S T
+gravestone G R EY1 V S T OW2 N
+graveyard G R EY1 V Y AA2 R D
+graveyards G R EY1 V Y AA2 R D Z
+gravitational G R AE2 V IH0 T EY1 SH AH0 N AH0 L
+gravity G R AE1 V AH0 T IY0
+gravy G R EY1 V IY0
+gray G R EY1
+graze G R EY1 Z
+grazed G R EY1 Z D
+grazer G R EY1 Z ER0
+grazing G R EY1 Z IH0 NG
+grease G R IY1 S
+greased G R IY1 S T
+greaser G R IY1 S ER0
+greasy G R IY1 S IY0
+great G R EY1 T
+greater G R EY1 T ER0
+greatest G R EY1 T AH0 S T
+greatly G R EY1 T L IY0
+greatness G R EY1 T N AH0 S
+greats G R EY1 T S
+grecian G R IY1 SH AH0 N
+greco G R EH1 K OW0
+greece G R IY1 S
+greed G R IY1 D
+greedy G R IY1 D IY0
+greek G R IY1 K
+greeks G R IY1 K S
+green G R IY1 N
+greenbacks G R IY1 N B AE2 K S
+greener G R IY1 N ER0
+greenfield G R IY1 N F IY2 L D
+greenhouse G R IY1 N HH AW2 S
+greenland G R IY1 N L AH0 N D
+greenleaf G R IY1 N L IY2 F
+greenly G R IY1 N L IY0
+greens G R IY1 N Z
+greenwich G R EH1 N IH0 CH
+greenwood G R IY1 N W UH2 D
+greet G R IY1 T
+greeted G R IY1 T AH0 D
+greeting G R IY1 T IH0 NG
+greetings G R IY1 T IH0 NG Z
+greets G R IY1 T S
+gregor G R EH1 G ER0
+gregory G R EH1 G ER0 IY0
+gremlins G R EH1 M L AH0 N Z
+grenada G R IH0 N EY1 D AH0
+grenade G R AH0 N EY1 D
+grenades G R AH0 N EY1 D Z
+greta G R IY1 T AH0
+grew G R UW1
+grey G R EY1
+greyhound G R EY1 HH AW2 N D
+gribble G R IH1 B AH0 L
+grid G R IH1 D
+gridlock G R IH1 D L AA2 K
+grids G R IH1 D Z
+grief G R IY1 F
+grievance G R IY1 V AH0 N S
+grievances G R IY1 V AH0 N S AH0 Z
+grieve G R IY1 V
+grieved G R IY1 V D
+grieves G R IY1 V Z
+grieving G R IY1 V IH0 NG
+grievous G R IY1 V AH0 S
+griff G R IH1 F
+griffin G R IH1 F IH0 N
+grill G R IH1 L
+grille G R IH1 L
+grilled G R IH1 L D
+grilling G R IH1 L IH0 NG
+grim G R IH1 M
+grimace G R IH1 M AH0 S
+grime G R AY1 M
+grimes G R AY1 M Z
+grimm G R IH1 M
+grimy G R AY1 M IY0
+grin G R IH1 N
+grinch G R IH1 N CH
+grind G R AY1 N D
+grinder G R AY1 N D ER0
+grinding G R AY1 N D IH0 NG
+grinds G R AY1 N D Z
+grindstone G R AY1 N D S T OW2 N
+gringo G R IH1 NG G OW0
+gringos G R IH1 NG G OW0 Z
+grinning G R IH1 N IH0 NG
+grins G R IH1 N Z
+grip G R IH1 P
+gripe G R AY1 P
+gripes G R AY1 P S
+griping G R AY1 P IH0 NG
+gripped G R IH1 P T
+gripping G R IH1 P IH0 NG
+grips G R IH1 P S
+grisly G R IH1 Z L IY0
+grit G R IH1 T
+grits G R IH1 T S
+gritty G R IH1 T IY0
+grizzlies G R IH1 Z L IY0 Z
+grizzly G R IH1 Z L IY0
+groan G R OW1 N
+groaning G R OW1 N IH0 NG
+groans G R OW1 N Z
+grocer G R OW1 S ER0
+groceries G R OW1 S ER0 IY0 Z
+grocery G R OW1 S ER0 IY0
+grog G R AA1 G
+groggy G R AA1 G IY0
+groin G R OY1 N
+groom G R UW1 M
+groomed G R UW1 M D
+grooming G R UW1 M IH0 NG
+grooms G R UW1 M Z
+groot G R UW1 T
+groove G R UW1 V
+grooves G R UW1 V Z
+groovy G R UW1 V IY0
+grope G R OW1 P
+groped G R OW1 P T
+groping G R OW1 P IH0 NG
+gross G R OW1 S
+grossed G R OW1 S T
+grossly G R OW1 S L IY0
+grotesque G R OW0 T EH1 S K
+grotto G R AA1 T OW2
+grouch G R AW1 CH
+groucho G R UW1 CH OW0
+grouchy G R AW1 CH IY0
+ground G R AW1 N D
+groundbreaking G R AW1 N D B R EY2 K IH0 NG
+grounded G R AW1 N D IH0 D
+groundhog G R AW1 N D HH AA2 G
+grounding G R AW1 N D IH0 NG
+grounds G R AW1 N D Z
+groundskeeper G R AW1 N D S K IY2 P ER0
+groundwork G R AW1 N D W ER2 K
+group G R UW1 P
+groupie G R UW1 P IY0
+groupies G R UW1 P IY0 Z
+grouping G R UW1 P IH0 NG
+groups G R UW1 P S
+grouse G R AW1 S
+grout G R AW1 T
+grove G R OW1 V
+grovel G R AA1 V AH0 L
+groveling G R AO1 V AH0 L IH0 NG
+grover G R OW1 V ER0
+groves G R OW1 V Z
+grow G R OW1
+growing G R OW1 IH0 NG
+growl G R AW1 L
+growling G R OW1 L IH0 NG
+growls G R AW1 L Z
+grown G R OW1 N
+grownup G R OW1 N AH2 P
+grownups G R OW1 N AH2 P S
+grows G R OW1 Z
+growth G R OW1 TH
+grub G R AH1 B
+grubby G R AH1 B IY0
+grubs G R AH1 B Z
+grudge G R AH1 JH
+grudges G R AH1 JH IH0 Z
+gruel G R UW1 IH0 L
+grueling G R UW1 IH0 L IH0 NG
+gruesome G R UW1 S AH0 M
+gruff G R AH1 F
+grumbling G R AH1 M B AH0 L IH0 NG
+grump G R AH1 M P
+grumpy G R AH1 M P IY0
+grundy G R AH1 N D IY0
+grunge G R AH1 N JH
+grunt G R AH1 N T
+grunting G R AH1 N T IH0 NG
+grunts G R AH1 N T S
+gu G UW1
+guacamole G W AA2 K AH0 M OW1 L IY0
+guam G W AA1 M
+guano G W AA1 N OW2
+guarantee G EH2 R AH0 N T IY1
+guaranteed G EH2 R AH0 N T IY1 D
+guaranteeing G EH2 R AH0 N T IY1 IH0 NG
+guarantees G EH2 R AH0 N T IY1 Z
+guard G AA1 R D
+guarded G AA1 R D AH0 D
+guardian G AA1 R D IY0 AH0 N
+guardians G AA1 R D IY0 AH0 N Z
+guardianship G AA1 R D IY0 AH0 N SH IH0 P
+guarding G AA1 R D IH0 NG
+guardrail G AA1 R D R EY2 L
+guards G AA1 R D Z
+guardsmen G AA1 R D Z M IH0 N
+guatemala G W AA2 T AH0 M AA1 L AH0
+guatemalan G W AA2 T AH0 M AA1 L AH0 N
+guerilla G ER0 IH1 L AH0
+guerillas G ER0 IH1 L AH0 Z
+guerrilla G ER0 IH1 L AH0
+guerrillas G ER0 IH1 L AH0 Z
+guess G EH1 S
+guessed G EH1 S T
+guesser G EH1 S ER0
+guesses G EH1 S AH0 Z
+guessing G EH1 S IH0 NG
+guesswork G EH1 S W ER2 K
+guest G EH1 S T
+guesthouse G EH1 S T HH AW2 S
+guests G EH1 S T S
+guff G AH1 F
+guidance G AY1 D AH0 N S
+guide G AY1 D
+guidebook G AY1 D B UH2 K
+guidebooks G AY1 D B UH2 K S
+guided G AY1 D AH0 D
+guideline G AY1 D L AY2 N
+guidelines G AY1 D L AY2 N Z
+guides G AY1 D Z
+guiding G AY1 D IH0 NG
+guild G IH1 L D
+guilder G IH1 L D ER0
+guilders G IH1 L D ER0 Z
+guile G AY1 L
+guillotine G IH1 L AH0 T IY2 N
+guilt G IH1 L T
+guilty G IH1 L T IY0
+guinea G IH1 N IY0
+guineas G IH1 N IY0 Z
+guinness G IH1 N AH0 S
+guise G AY1 Z
+guitar G IH0 T AA1 R
+guitarist G IH2 T AA1 R IH0 S T
+guitars G IH0 T AA1 R Z
+gulag G Y UW1 L AE0 G
+gulch G AH1 L CH
+gulf G AH1 L F
+gull G AH1 L
+gullet G AH1 L AH0 T
+gullible G AH1 L AH0 B AH0 L
+gulliver G AH1 L IH0 V ER0
+gulls G AH1 L Z
+gully G AH1 L IY0
+gulp G AH1 L P
+gulps G AH1 L P S
+gum G AH1 M
+gumbo G AH1 M B OW0
+gummy G AH1 M IY0
+gump G AH1 M P
+gumption G AH1 M P SH AH0 N
+gums G AH1 M Z
+gumshoe G AH1 M SH UW2
+gun G AH1 N
+gunboat G AH1 N B OW2 T
+gunfight G AH1 N F AY2 T
+gunfighter G AH1 N F AY2 T ER0
+gunfire G AH1 N F AY2 ER0
+gung G AH1 NG
+gunman G AH1 N M AH0 N
+gunmen G AH1 N M EH2 N
+gunned G AH1 N D
+gunner G AH1 N ER0
+gunners G AH1 N ER0 Z
+gunnery G AH1 N ER0 IY0
+gunning G AH1 N IH0 NG
+gunny G AH1 N IY0
+gunpoint G AH1 N P OY2 N T
+gunpowder G AH1 N P AW2 D ER0
+guns G AH1 N Z
+gunshot G AH1 N SH AA2 T
+gunshots G AH1 N SH AA2 T S
+gunslinger G AH1 N S L IH2 NG ER0
+gunter G AH1 N T ER0
+gunther G AH1 N TH ER0
+guppy G AH1 P IY0
+gurgling G ER1 G AH0 L IH0 NG
+gurney G ER1 N IY0
+guru G UW1 R UW2
+gush G AH1 SH
+gusher G AH1 SH ER0
+gushing G AH1 SH IH0 NG
+gussie G AH1 S IY0
+gust G AH1 S T
+gusting G AH1 S T IH0 NG
+gusto G AH1 S T OW2
+gut G AH1 T
+gutierrez G UW0 T Y EH1 R EH0 Z
+gutless G AH1 T L EH0 S
+guts G AH1 T S
+gutsy G AH1 T S IY1
+gutted G AH1 T IH0 D
+gutter G AH1 T ER0
+gutters G AH1 T ER0 Z
+gutting G AH1 T IH0 NG
+guy G AY1
+guys G AY1 Z
+guzzler G AH1 Z L ER0
+guzzling G AH1 Z AH0 L IH0 NG
+gym JH IH1 M
+gymnasium JH IH0 M N EY1 Z IY0 AH0 M
+gymnast JH IH1 M N AH0 S T
+gymnastics JH IH0 M N AE1 S T IH0 K S
+gynecologist G AY2 N AH0 K AA1 L AH0 JH AH0 S T
+gyp JH IH1 P
+gypsies JH IH1 P S IY0 Z
+gypsy JH IH1 P S IY0
+gyro JH AY1 R OW2
+h EY1 CH
+ha HH AA1
+habeas HH AE1 B IY0 AH0 S
+habit HH AE1 B AH0 T
+habitat HH AE1 B AH0 T AE2 T
+habits HH AE1 B AH0 T S
+habitual HH AH0 B IH1 CH UW0 AH0 L
+hacienda HH AE2 S IY0 EH1 N D AH0
+hack HH AE1 K
+hacked HH AE1 K T
+hacker HH AE1 K ER0
+hackers HH AE1 K ER0 Z
+hacking HH AE1 K IH0 NG
+hacks HH AE1 K S
+hacksaw HH AE1 K S AO2
+had HH AE1 D
+hades HH EY1 D IY0 Z
+haff HH AE1 F
+hag HH AE1 G
+haggard HH AE1 G ER0 D
+haggis HH AE1 G AH0 S
+haggle HH AE1 G AH0 L
+haggling HH AE1 G AH0 L IH0 NG
+hah HH AA1
+haiku HH AY1 K UW0
+hail HH EY1 L
+hailed HH EY1 L D
+hailing HH EY1 L IH0 NG
+hails HH EY1 L Z
+hair HH EH1 R
+haircut HH EH1 R K AH2 T
+haircuts HH EH1 R K AH2 T S
+hairdo HH EH1 R D UW2
+hairdresser HH EH1 R D R EH2 S ER0
+hairdressers HH EH1 R D R EH2 S ER0 Z
+hairdressing HH EH1 R D R EH2 S IH0 NG
+hairless HH EH1 R L AH0 S
+hairline HH EH1 R L AY2 N
+hairs HH EH1 R Z
+hairspray HH EH1 R S P R EY2
+hairstyle HH EH1 R S T AY2 L
+hairy HH EH1 R IY0
+haiti HH EY1 T IY0
+haitian HH EY1 SH AH0 N
+hakim HH AA0 K IY1 M
+hale HH EY1 L
+hales HH EY1 L Z
+half HH AE1 F
+halfback HH AE1 F B AE2 K
+halftime HH AE1 F T AY2 M
+halfway HH AE1 F W EY1
+halibut HH AE1 L AH0 B AH0 T
+hall HH AO1 L
+hallelujah HH AE2 L AH0 L UW1 Y AH0
+hallmark HH AA1 L M AA2 R K
+hallowed HH AE1 L OW0 D
+halloween HH AE2 L AH0 W IY1 N
+hallows HH AE1 L OW0 Z
+halls HH AO1 L Z
+hallucinate HH AH0 L UW1 S AH0 N EY0 T
+hallucinating HH AH0 L UW1 S AH0 N EY0 T IH0 NG
+hallucination HH AH0 L UW2 S AH0 N EY1 SH AH0 N
+hallucinations HH AH0 L UW2 S AH0 N EY1 SH AH0 N Z
+hallucinogenic HH AH0 L UW2 S AH0 N AH0 JH EH1 N IH0 K
+hallway HH AO1 L W EY2
+hallways HH AO1 L W EY2 Z
+halo HH EY1 L OW0
+halt HH AO1 L T
+halted HH AO1 L T AH0 D
+halter HH AO1 L T ER0
+halves HH AE1 V Z
+ham HH AE1 M
+hamburg HH AE1 M B ER0 G
+hamburger HH AE1 M B ER0 G ER0
+hamburgers HH AE1 M B ER0 G ER0 Z
+hamilton HH AE1 M AH0 L T AH0 N
+hamlet HH AE1 M L AH0 T
+hammer HH AE1 M ER0
+hammered HH AE1 M ER0 D
+hammering HH AE1 M ER0 IH0 NG
+hammers HH AE1 M ER0 Z
+hammock HH AE1 M AH0 K
+hamper HH AE1 M P ER0
+hampshire HH AE1 M P SH ER0
+hams HH AE1 M Z
+hamster HH AE1 M S T ER0
+hamsters HH AE1 M S T ER0 Z
+han HH AA1 N
+hand HH AE1 N D
+handbag HH AE1 N D B AE2 G
+handbags HH AE1 N D B AE2 G Z
+handball HH AE1 N D B AO2 L
+handbook HH AE1 N D B UH2 K
+handcuff HH AE1 N D K AH2 F
+handcuffed HH AE1 N D K AH2 F T
+handcuffs HH AE1 N D K AH2 F S
+handed HH AE1 N D AH0 D
+handel HH AE1 N D AH0 L
+handful HH AE1 N D F UH2 L
+handgun HH AE1 N D G AH2 N
+handguns HH AE1 N D G AH2 N Z
+handheld HH AE1 N D HH EH1 L D
+handicap HH AE1 N D IY0 K AE2 P
+handicapped HH AE1 N D IY0 K AE2 P T
+handing HH AE1 N D IH0 NG
+handiwork HH AE1 N D IY0 W ER2 K
+handkerchief HH AE1 NG K ER0 CH IH0 F
+handkerchiefs HH AE1 NG K ER0 CH AH0 F S
+handle HH AE1 N D AH0 L
+handlebars HH AE1 N D AH0 L B AA2 R Z
+handled HH AE1 N D AH0 L D
+handler HH AE1 N D L ER0
+handlers HH AE1 N D L ER0 Z
+handles HH AE1 N D AH0 L Z
+handling HH AE1 N D L IH0 NG
+handmade HH AE1 N D M EY1 D
+handout HH AE1 N D AW2 T
+handouts HH AE1 N D AW2 T S
+handpicked HH AE1 N D P IH1 K T
+hands HH AE1 N D Z
+handshake HH AE1 N D SH EY2 K
+handshakes HH AE1 N D SH EY2 K S
+handsome HH AE1 N S AH0 M
+handsomely HH AE1 N S AH0 M L IY0
+handwriting HH AE1 N D R AY2 T IH0 NG
+handwritten HH AE1 N D R IH2 T AH0 N
+handy HH AE1 N D IY0
+handyman HH AE1 N D IY0 M AE2 N
+hang HH AE1 NG
+hangar HH AE1 NG ER0
+hanged HH AE1 NG D
+hanger HH AE1 NG ER0
+hangers HH AE1 NG ER0 Z
+hanging HH AE1 NG IH0 NG
+hangings HH AE1 NG G IH0 NG Z
+hangman HH AE1 NG M AH0 N
+hangout HH AE1 NG AW2 T
+hangover HH AE1 NG OW2 V ER0
+hangovers HH AE1 NG OW2 V ER0 Z
+hangs HH AE1 NG Z
+hank HH AE1 NG K
+hankering HH AE1 NG K ER0 IH0 NG
+hanks HH AE1 NG K S
+hanky HH AE1 NG K IY0
+hanna HH AE1 N AH0
+hanoi HH AE1 N OY0
+hanover HH AE1 N OW0 V ER0
+hans HH AA1 N S
+hansel HH AE1 N S AH0 L
+hanukkah HH AA1 N AH0 K AH0
+hao HH AW1
+hap HH AE1 P
+hapless HH AE1 P L AH0 S
+happen HH AE1 P AH0 N
+happened HH AE1 P AH0 N D
+happening HH AE1 P AH0 N IH0 NG
+happenings HH AE1 P AH0 N IH0 NG Z
+happens HH AE1 P AH0 N Z
+happier HH AE1 P IY0 ER0
+happiest HH AE1 P IY0 AH0 S T
+happily HH AE1 P AH0 L IY0
+happiness HH AE1 P IY0 N AH0 S
+happy HH AE1 P IY0
+hapsburg HH AE1 P S B ER0 G
+harass HH ER0 AE1 S
+harassed HH ER0 AE1 S T
+harassing HH ER0 AE1 S IH0 NG
+harassment HH ER0 AE1 S M AH0 N T
+harbinger HH AA1 R B IH0 N JH ER0
+harbor HH AA1 R B ER0
+harbored HH AA1 R B ER0 D
+harboring HH AA1 R B ER0 IH0 NG
+harbors HH AA1 R B ER0 Z
+harbour HH AA1 R B ER0
+hard HH AA1 R D
+hardball HH AA1 R D B AO2 L
+hardcore HH AA1 R D K AO1 R
+harden HH AA1 R D AH0 N
+hardened HH AA1 R D AH0 N D
+hardening HH AA1 R D AH0 N IH0 NG
+hardens HH AA1 R D AH0 N Z
+harder HH AA1 R D ER0
+hardest HH AA1 R D AH0 S T
+hardheaded HH AA1 R D HH EH2 D IH0 D
+harding HH AA1 R D IH0 NG
+hardly HH AA1 R D L IY0
+hardness HH AA1 R D N AH0 S
+hardship HH AA1 R D SH IH0 P
+hardships HH AA1 R D SH IH0 P S
+hardware HH AA1 R D W EH2 R
+hardwood HH AA1 R D W UH2 D
+hardworking HH AA1 R D W ER2 K IH0 NG
+hardy HH AA1 R D IY0
+hare HH EH1 R
+harebrained HH EH1 R B R EY2 N D
+harem HH EH1 R AH0 M
+hark HH AA1 R K
+harken HH AA1 R K AH0 N
+harlem HH AA1 R L AH0 M
+harlequin HH AA1 R L AH0 K W AH0 N
+harlot HH AA1 R L AH0 T
+harm HH AA1 R M
+harmed HH AA1 R M D
+harmful HH AA1 R M F AH0 L
+harming HH AA1 R M IH0 NG
+harmless HH AA1 R M L AH0 S
+harmonia HH AA0 R M OW1 N IY0 AH0
+harmonica HH AA0 R M AA1 N IH0 K AH0
+harmonies HH AA1 R M AH0 N IY0 Z
+harmonious HH AA0 R M OW1 N IY0 AH0 S
+harmony HH AA1 R M AH0 N IY0
+harms HH AA1 R M Z
+harness HH AA1 R N AH0 S
+harnessed HH AA1 R N AH0 S T
+harold HH EH1 R AH0 L D
+harp HH AA1 R P
+harper HH AA1 R P ER0
+harping HH AA1 R P IH0 NG
+harpoon HH AA0 R P UW1 N
+harpoons HH AA0 R P UW1 N Z
+harriet HH EH1 R IY0 AH0 T
+harris HH EH1 R IH0 S
+harrison HH EH1 R IH0 S AH0 N
+harrowing HH EH1 R OW0 IH0 NG
+harry HH EH1 R IY0
+harsh HH AA1 R SH
+harshly HH AA1 R SH L IY0
+hart HH AA1 R T
+hartford HH AA1 R T F ER0 D
+harts HH AA1 R T S
+harvard HH AA1 R V ER0 D
+harvest HH AA1 R V AH0 S T
+harvested HH AA1 R V AH0 S T IH0 D
+harvesting HH AA1 R V AH0 S T IH0 NG
+harvey HH AA1 R V IY0
+has HH AE1 Z
+hasan HH EY1 Z AH0 N
+hash HH AE1 SH
+hashish HH AE1 SH IH0 SH
+hassel HH AE1 S AH0 L
+hassle HH AE1 S AH0 L
+hassled HH AE1 S AH0 L D
+hassles HH AE1 S AH0 L Z
+hassling HH AE1 S AH0 L IH0 NG
+hast HH AE1 S T
+hasta HH AE1 S T AH0
+haste HH EY1 S T
+hasten HH EY1 S AH0 N
+hastily HH EY1 S T AH0 L IY0
+hastings HH EY1 S T IH0 NG Z
+hasty HH EY1 S T IY0
+hat HH AE1 T
+hatch HH AE1 CH
+hatched HH AE1 CH T
+hatcher HH AE1 CH ER0
+hatches HH AE1 CH IH0 Z
+hatchet HH AE1 CH AH0 T
+hatching HH AE1 CH IH0 NG
+hate HH EY1 T
+hated HH EY1 T AH0 D
+hateful HH EY1 T F AH0 L
+hater HH EY1 T ER0
+haters HH EY1 T ER0 Z
+hates HH EY1 T S
+hath HH AE1 TH
+hating HH EY1 T IH0 NG
+hatred HH EY1 T R AH0 D
+hats HH AE1 T S
+hatter HH AE1 T ER0
+haughty HH AO1 T IY0
+haul HH AO1 L
+hauled HH AO1 L D
+hauling HH AO1 L IH0 NG
+hauls HH AO1 L Z
+haunt HH AO1 N T
+haunted HH AO1 N T IH0 D
+haunting HH AO1 N T IH0 NG
+haunts HH AO1 N T S
+haute HH OW1 T
+havana HH AH0 V AE1 N AH0
+have HH AE1 V
+haven HH EY1 V AH0 N
+haves HH AE1 V Z
+having HH AE1 V IH0 NG
+havoc HH AE1 V AH0 K
+haw HH AO1
+hawaii HH AH0 W AY1 IY2
+hawaiian HH AH0 W AY1 AH0 N
+hawaiians HH AH0 W AY1 AH0 N Z
+hawk HH AO1 K
+hawker HH AO1 K ER0
+hawkeye HH AO1 K AY2
+hawking HH AO1 K IH0 NG
+hawkins HH AO1 K IH0 N Z
+hawks HH AO1 K S
+hawthorne HH AO1 TH AO0 R N
+hay HH EY1
+haye HH EY1
+hayes HH EY1 Z
+hays HH EY1 Z
+haystack HH EY1 S T AE2 K
+hayward HH EY1 W ER0 D
+haywire HH EY1 W AY2 R
+hazard HH AE1 Z ER0 D
+hazardous HH AE1 Z ER0 D AH0 S
+hazards HH AE1 Z ER0 D Z
+haze HH EY1 Z
+hazel HH EY1 Z AH0 L
+hazen HH EY1 Z AH0 N
+hazing HH EY1 Z IH0 NG
+hazy HH EY1 Z IY0
+he HH IY1
+head HH EH1 D
+headache HH EH1 D EY2 K
+headaches HH EH1 D EY2 K S
+headband HH EH1 D B AE2 N D
+headboard HH EH1 D B AO2 R D
+headdress HH EH1 D R EH2 S
+headed HH EH1 D AH0 D
+header HH EH1 D ER0
+headfirst HH EH1 D F ER1 S T
+headgear HH EH1 D G IH2 R
+headhunters HH EH1 D HH AH2 N T ER0 Z
+heading HH EH1 D IH0 NG
+headless HH EH1 D L AH0 S
+headlight HH EH1 D L AY2 T
+headlights HH EH1 D L AY2 T S
+headline HH EH1 D L AY2 N
+headliner HH EH1 D L AY2 N ER0
+headlines HH EH1 D L AY2 N Z
+headlining HH EH1 D L AY2 N IH0 NG
+headlong HH EH1 D L AO2 NG
+headman HH EH1 D M AH0 N
+headmaster HH EH1 D M AE1 S T ER0
+headmistress HH EH1 D M IH2 S T R AH0 S
+headphones HH EH1 D F OW2 N Z
+headquarter HH EH1 D K W AO2 R T ER0
+headquarters HH EH1 D K W AO2 R T ER0 Z
+heads HH EH1 D Z
+headset HH EH1 D S EH2 T
+headsets HH EH1 D S EH2 T S
+headstone HH EH1 D S T OW2 N
+headstrong HH EH1 D S T R AO2 NG
+headway HH EH1 D W EY2
+heady HH EH1 D IY0
+heal HH IY1 L
+healed HH IY1 L D
+healer HH IY1 L ER0
+healers HH IY1 L ER0 Z
+healing HH IY1 L IH0 NG
+heals HH IY1 L Z
+health HH EH1 L TH
+healthcare HH EH1 L TH K EH2 R
+healthier HH EH1 L TH IY0 ER0
+healthiest HH EH1 L TH IY0 IH0 S T
+healthy HH EH1 L TH IY0
+heap HH IY1 P
+heaped HH IY1 P T
+heaps HH IY1 P S
+hear HH IY1 R
+heard HH ER1 D
+hearing HH IY1 R IH0 NG
+hearings HH IY1 R IH0 NG Z
+hears HH IY1 R Z
+hearsay HH IY1 R S EY2
+hearse HH ER1 S
+hearst HH ER1 S T
+heart HH AA1 R T
+heartache HH AA1 R T EY2 K
+heartbeat HH AA1 R T B IY2 T
+heartbeats HH AA1 R T B IY2 T S
+heartbreak HH AA1 R T B R EY2 K
+heartbreaking HH AA1 R T B R EY2 K IH0 NG
+heartbroken HH AA1 R T B R OW2 K AH0 N
+heartburn HH AA1 R T B ER2 N
+hearted HH AA1 R T AH0 D
+heartfelt HH AA1 R T F EH2 L T
+hearth HH AA1 R TH
+heartily HH AA1 R T AH0 L IY0
+heartland HH AA1 R T L AE2 N D
+heartless HH AA1 R T L AH0 S
+hearts HH AA1 R T S
+heartthrob HH AA1 R T TH R AA2 B
+heartwarming HH AA1 R T W AO2 R M IH0 NG
+hearty HH AA1 R T IY0
+heat HH IY1 T
+heated HH IY1 T AH0 D
+heater HH IY1 T ER0
+heaters HH IY1 T ER0 Z
+heath HH IY1 TH
+heathen HH IY1 DH AH0 N
+heather HH EH1 DH ER0
+heating HH IY1 T IH0 NG
+heats HH IY1 T S
+heave HH IY1 V
+heaven HH EH1 V AH0 N
+heavenly HH EH1 V AH0 N L IY0
+heavens HH EH1 V AH0 N Z
+heavier HH EH1 V IY0 ER0
+heaviest HH EH1 V IY0 AH0 S T
+heavily HH EH1 V AH0 L IY0
+heaving HH IY1 V IH0 NG
+heavy HH EH1 V IY0
+heavyweight HH EH1 V IY0 W EY2 T
+hebrew HH IY1 B R UW0
+hebrews HH IY1 B R UW0 Z
+hecht HH EH1 K T
+heck HH EH1 K
+heckle HH EH1 K AH0 L
+heckler HH EH1 K L ER0
+heckling HH EH1 K L IH0 NG
+hectic HH EH1 K T IH0 K
+hector HH EH1 K T ER0
+hedge HH EH1 JH
+hedgehog HH EH1 JH HH AA2 G
+hedges HH EH1 JH IH0 Z
+hedging HH EH1 JH IH0 NG
+hee HH IY1
+heed HH IY1 D
+heel HH IY1 L
+heels HH IY1 L Z
+hefty HH EH1 F T IY0
+heh HH EH1
+heifer HH AY1 F ER0
+height HH AY1 T
+heightened HH AY1 T AH0 N D
+heights HH AY1 T S
+heil HH AY1 L
+heinous HH EY1 N AH0 S
+heir EH1 R
+heiress EH1 R AH0 S
+heirloom EH1 R L UW2 M
+heirlooms EH1 R L UW2 M Z
+heirs EH1 R Z
+heist HH AY1 S T
+held HH EH1 L D
+helen HH EH1 L AH0 N
+helena HH EH1 L AH0 N AH0
+helicopter HH EH1 L IH0 K AA2 P T ER0
+helicopters HH EH1 L IH0 K AA2 P T ER0 Z
+helios HH IY1 L IY0 AA2 S
+helium HH IY1 L IY0 AH0 M
+helix HH IY1 L IH0 K S
+hell HH EH1 L
+heller HH EH1 L ER0
+hellfire HH EH1 L F AY2 R
+hellish HH EH1 L IH0 SH
+hellman HH EH1 L M AH0 N
+hello HH AH0 L OW1
+helluva HH EH2 L UW1 V AH0
+helm HH EH1 L M
+helmet HH EH1 L M AH0 T
+helmets HH EH1 L M AH0 T S
+helmsman HH EH1 L M Z M AE2 N
+help HH EH1 L P
+helped HH EH1 L P T
+helper HH EH1 L P ER0
+helpers HH EH1 L P ER0 Z
+helpful HH EH1 L P F AH0 L
+helping HH EH1 L P IH0 NG
+helpless HH EH1 L P L AH0 S
+helplessly HH EH1 L P L AH0 S L IY0
+helps HH EH1 L P S
+helsinki HH EH1 L S IH0 NG K IY0
+hem HH EH1 M
+heman HH IY1 M AH0 N
+hemingway HH EH1 M IH0 NG W EY2
+hemisphere HH EH1 M IH0 S F IH2 R
+hemlock HH EH1 M L AA2 K
+hemmed HH EH1 M D
+hemoglobin HH IY2 M AH0 G L OW1 B AH0 N
+hemorrhage HH EH1 M ER0 IH0 JH
+hemorrhagic HH EH2 M ER0 AE1 G IH0 K
+hemorrhaging HH EH1 M ER0 IH0 JH IH0 NG
+hemorrhoid HH EH1 M ER0 OY2 D
+hemorrhoids HH EH1 M ER0 OY2 D Z
+hemp HH EH1 M P
+hen HH EH1 N
+hence HH EH1 N S
+henceforth HH EH1 N S F AO1 R TH
+henchman HH EH1 N CH M AH0 N
+henchmen HH EH1 N CH M AH0 N
+heng HH EH1 NG
+henhouse HH EH1 N HH AW2 S
+henry HH EH1 N R IY0
+hens HH EH1 N Z
+hep HH EH1 P
+heparin HH EH1 P ER0 IH0 N
+hepatitis HH EH2 P AH0 T AY1 T AH0 S
+hepburn HH EH1 P B ER0 N
+her HH ER1
+hera HH IH1 R AH0
+herald HH EH1 R AH0 L D
+herb ER1 B
+herbal ER1 B AH0 L
+herbert HH ER1 B ER0 T
+herbs ER1 B Z
+hercules HH ER1 K Y AH0 L IY2 Z
+herd HH ER1 D
+herded HH ER1 D IH0 D
+herder HH EH1 R D ER0
+herding HH ER1 D IH0 NG
+herds HH ER1 D Z
+here HH IY1 R
+hereabouts HH IH1 R AH0 B AW2 T S
+hereafter HH IH0 R AE1 F T ER0
+hereby HH IH0 R B AY1
+hereditary HH ER0 EH1 D AH0 T EH2 R IY0
+herein HH IH0 R IH1 N
+heresy HH EH1 R AH0 S IY0
+heretic HH EH1 R AH0 T IH0 K
+heretics HH EH1 R AH0 T IH0 K S
+herewith HH IH1 R W IH1 TH
+heritage HH EH1 R AH0 T AH0 JH
+herm HH ER1 M
+herman HH ER1 M AH0 N
+hermaphrodite HH ER0 M AE1 F R AH0 D AY2 T
+hermes HH ER1 M IY0 Z
+hermetically HH ER0 M EH1 T IH0 K AH0 L IY0
+hermit HH ER1 M AH0 T
+hernia HH ER1 N IY0 AH0
+hero HH IH1 R OW0
+heroes HH IH1 R OW0 Z
+heroic HH IH0 R OW1 IH0 K
+heroically HH IH2 R OW1 IH0 K L IY0
+heroics HH IH0 R OW1 IH0 K S
+heroin HH EH1 R OW0 AH0 N
+heroine HH EH1 R OW0 AH0 N
+heroism HH EH1 R OW0 IH2 Z AH0 M
+heron HH EH1 R AH0 N
+herpes HH ER1 P IY0 Z
+herr HH EH1 R
+herring HH EH1 R IH0 NG
+hers HH ER0 Z
+herself HH ER0 S EH1 L F
+hershey HH ER1 SH IY0
+hertz HH EH1 R T S
+hesitant HH EH1 Z IH0 T AH0 N T
+hesitate HH EH1 Z AH0 T EY2 T
+hesitated HH EH1 Z IH0 T EY2 T IH0 D
+hesitating HH EH1 Z AH0 T EY2 T IH0 NG
+hesitation HH EH2 Z AH0 T EY1 SH AH0 N
+heterosexual HH EH2 T ER0 OW0 S EH1 K SH AH0 W AH0 L
+hex HH EH1 K S
+hey HH EY1
+hi HH AY1
+hiatus HH AY0 EY1 T AH0 S
+hibernation HH AY2 B ER0 N EY1 SH AH0 N
+hiccup HH IH1 K AH0 P
+hiccups HH IH1 K AH0 P S
+hick HH IH1 K
+hickey HH IH1 K IY0
+hickory HH IH1 K ER0 IY0
+hicks HH IH1 K S
+hid HH IH1 D
+hidalgo HH AH0 D AE1 L G OW2
+hidden HH IH1 D AH0 N
+hide HH AY1 D
+hideaway HH AY1 D AH0 W EY2
+hideous HH IH1 D IY0 AH0 S
+hideously HH IH1 D IY0 AH0 S L IY0
+hideout HH AY1 D AW2 T
+hides HH AY1 D Z
+hiding HH AY1 D IH0 NG
+hierarchy HH AY1 ER0 AA2 R K IY0
+hieroglyphics HH AY2 R OW0 G L IH1 F IH0 K S
+high HH AY1
+highbrow HH AY1 B R AW2
+higher HH AY1 ER0
+highest HH AY1 AH0 S T
+highfalutin HH AY2 F AH0 L UW1 T IH0 N
+highland HH AY1 L AH0 N D
+highlands HH AY1 L AH0 N D Z
+highlight HH AY1 L AY2 T
+highlighted HH AY1 L AY2 T IH0 D
+highlights HH AY1 L AY2 T S
+highly HH AY1 L IY0
+highness HH AY1 N AH0 S
+highs HH AY1 Z
+highway HH AY1 W EY2
+highways HH AY1 W EY2 Z
+hijack HH AY1 JH AE2 K
+hijacked HH AY1 JH AE2 K T
+hijacker HH AY1 JH AE2 K ER0
+hijackers HH AY1 JH AE2 K ER0 Z
+hijacking HH AY1 JH AE2 K IH0 NG
+hike HH AY1 K
+hiked HH AY1 K T
+hiker HH AY1 K ER0
+hikers HH AY1 K ER0 Z
+hikes HH AY1 K S
+hiking HH AY1 K IH0 NG
+hilarious HH IH0 L EH1 R IY0 AH0 S
+hilary HH IH1 L ER0 IY0
+hill HH IH1 L
+hillbillies HH IH1 L B IH2 L IY0 Z
+hillbilly HH IH1 L B IH0 L IY0
+hillcrest HH IH1 L K R EH0 S T
+hiller HH IH1 L ER0
+hillman HH IH1 L M AE2 N
+hills HH IH1 L Z
+hillside HH IH1 L S AY2 D
+hilltop HH IH1 L T AA2 P
+hilly HH IH1 L IY0
+hilt HH IH1 L T
+hilts HH IH1 L T S
+him HH IH1 M
+himalayas HH IH2 M AH0 L AY1 AH0 S
+himself HH IH0 M S EH1 L F
+hind HH AY1 N D
+hinder HH IH1 N D ER0
+hindered HH IH1 N D ER0 D
+hindi HH IH1 N D IY0
+hindrance HH IH1 N D R AH0 N S
+hindsight HH AY1 N D S AY2 T
+hindu HH IH1 N D UW2
+hindus HH IH1 N D UW2 Z
+hing HH IH1 NG
+hinge HH IH1 N JH
+hinges HH IH1 N JH IH0 Z
+hint HH IH1 N T
+hinted HH IH1 N T AH0 D
+hinting HH IH1 N T IH0 NG
+hints HH IH1 N T S
+hip HH IH1 P
+hippie HH IH1 P IY0
+hippies HH IH1 P IY0 Z
+hippo HH IH1 P OW0
+hippocrates HH IH1 P AH0 K R EY2 T S
+hippocratic HH IH0 P AH0 K R AE1 T IH0 K
+hippodrome HH IH1 P AH0 D R OW2 M
+hippopotamus HH IH2 P AH0 P AA1 T AH0 M AH0 S
+hips HH IH1 P S
+hire HH AY1 ER0
+hired HH AY1 ER0 D
+hires HH AY1 ER0 Z
+hiring HH AY1 R IH0 NG
+hiro HH IH1 R OW0
+hiroshima HH IH2 R OW0 SH IY1 M AH0
+his HH IH1 Z
+hispanic HH IH0 S P AE1 N IH0 K
+hispaniola HH IH0 S P AA2 NG OW1 L AH0
+hiss HH IH1 S
+hisself HH IH2 S EH1 L F
+hisses HH IH1 S IH0 Z
+hissing HH IH1 S IH0 NG
+historian HH IH0 S T AO1 R IY0 AH0 N
+historians HH IH0 S T AO1 R IY0 AH0 N Z
+historic HH IH0 S T AO1 R IH0 K
+historical HH IH0 S T AO1 R IH0 K AH0 L
+historically HH IH0 S T AO1 R IH0 K AH0 L IY0
+histories HH IH1 S T ER0 IY0 Z
+history HH IH1 S T ER0 IY0
+hit HH IH1 T
+hitch HH IH1 CH
+hitched HH IH1 CH T
+hitchhike HH IH1 CH HH AY2 K
+hitchhiked HH IH1 CH HH AY2 K T
+hitchhiker HH IH1 CH HH AY2 K ER0
+hitchhikers HH IH1 CH HH AY2 K ER0 Z
+hitchhiking HH IH1 CH HH AY2 K IH0 NG
+hitching HH IH1 CH IH0 NG
+hither HH IH1 DH ER0
+hitler HH IH1 T L ER0
+hits HH IH1 T S
+hitter HH IH1 T ER0
+hitters HH IH1 T ER0 Z
+hitting HH IH1 T IH0 NG
+hive HH AY1 V
+hives HH AY1 V Z
+hm HH M
+hmm HH M
+ho HH OW1
+hoagie HH OW1 G IY0
+hoard HH AO1 R D
+hoarding HH AO1 R D IH0 NG
+hoarse HH AO1 R S
+hoax HH OW1 K S
+hobbies HH AA1 B IY0 Z
+hobbit HH AA1 B IH0 T
+hobble HH AA1 B AH0 L
+hobby HH AA1 B IY0
+hobo HH OW1 B OW0
+hock HH AA1 K
+hockey HH AA1 K IY0
+hocus HH OW1 K AH0 S
+hodge HH AA1 JH
+hoe HH OW1
+hoedown HH OW1 D AW2 N
+hoes HH OW1 Z
+hog HH AA1 G
+hogan HH OW1 G AA2 N
+hogg HH AA1 G
+hogging HH AO1 G IH0 NG
+hogs HH AA1 G Z
+hogwash HH AA1 G W AA2 SH
+hoi HH OY1
+hoist HH OY1 S T
+hoisted HH OY1 S T AH0 D
+hoke HH OW1 K
+hokey HH OW1 K IY0
+hola HH OW1 L AH0
+hold HH OW1 L D
+holden HH OW1 L D AH0 N
+holder HH OW1 L D ER0
+holders HH OW1 L D ER0 Z
+holding HH OW1 L D IH0 NG
+holdings HH OW1 L D IH0 NG Z
+holds HH OW1 L D Z
+holdup HH OW1 L D AH2 P
+hole HH OW1 L
+holed HH OW1 L D
+holes HH OW1 L Z
+holiday HH AA1 L AH0 D EY2
+holidays HH AA1 L AH0 D EY2 Z
+holiest HH OW1 L IY0 IH0 S T
+holiness HH OW1 L IY0 N AH0 S
+holistic HH OW0 L IH1 S T IH0 K
+holland HH AA1 L AH0 N D
+hollander HH AA1 L AH0 N D ER0
+holler HH AA1 L ER0
+hollered HH AA1 L ER0 D
+hollering HH AA1 L ER0 IH0 NG
+hollers HH AA1 L ER0 Z
+hollow HH AA1 L OW0
+hollowed HH AA1 L OW0 D
+holly HH AA1 L IY0
+hollywood HH AA1 L IY0 W UH2 D
+holmes HH OW1 M Z
+holocaust HH AA1 L AH0 K AO2 S T
+hologram HH AA1 L AH0 G R AE2 M
+holograms HH AA1 L AH0 G R AE2 M Z
+holographic HH AA2 L AH0 G R AE1 F IH0 K
+holster HH OW1 L S T ER0
+holt HH OW1 L T
+holy HH OW1 L IY0
+hom HH AA1 M
+homage AA1 M AH0 JH
+hombre HH AA1 M B R AH0
+home HH OW1 M
+homeboys HH OW1 M B OY2 Z
+homecoming HH OW1 M K AH2 M IH0 NG
+homeland HH OW1 M L AE2 N D
+homeless HH OW1 M L AH0 S
+homely HH OW1 M L IY0
+homemade HH OW1 M M EY1 D
+homemaker HH OW1 M M EY2 K ER0
+homeowner HH OW1 M OW2 N ER0
+homeowners HH OW1 M OW2 N ER0 Z
+homer HH OW1 M ER0
+homes HH OW1 M Z
+homesick HH OW1 M S IH2 K
+homestead HH OW1 M S T EH2 D
+hometown HH OW1 M T AW2 N
+homeward HH OW1 M W ER0 D
+homework HH OW1 M W ER2 K
+homey HH OW1 M IY0
+homicidal HH AA2 M AH0 S AY1 D AH0 L
+homicide HH AA1 M AH0 S AY2 D
+homicides HH AA1 M AH0 S AY2 D Z
+homing HH OW1 M IH0 NG
+hominy HH AA1 M IH0 N IY0
+homo HH OW1 M OW0
+homophobia HH OW2 M AH0 F OW1 B IY0 AH0
+homophobic HH OW2 M AH0 F OW1 B IH0 K
+homosexual HH OW2 M OW0 S EH1 K SH AH2 W AH0 L
+homosexuality HH OW2 M OW0 S EH2 K SH UW0 AE1 L AH0 T IY2
+homosexuals HH OW2 M OW0 S EH1 K SH UW2 AH0 L Z
+hon HH AA1 N
+honcho HH AO1 N CH OW0
+honda HH AO1 N D AH0
+hondo HH AA1 N D OW0
+honduras HH AA0 N D UH1 R AH0 S
+hone HH OW1 N
+honed HH OW1 N D
+honest AA1 N AH0 S T
+honestly AA1 N AH0 S T L IY0
+honesty AA1 N AH0 S T IY0
+honey HH AH1 N IY0
+honeycomb HH AH1 N IY0 K OW2 M
+honeydew HH AH1 N IY0 D UW2
+honeymoon HH AH1 N IY0 M UW2 N
+honeymooners HH AH1 N IY0 M UW2 N ER0 Z
+honeymoons HH AH1 N IY0 M UW2 N Z
+honeys HH AH1 N IY0 Z
+hong HH AO1 NG
+honing HH OW1 N IH0 NG
+honk HH AA1 NG K
+honking HH AO1 NG K IH0 NG
+honks HH AO1 NG K S
+honky HH AO1 NG K IY0
+honolulu HH AA2 N AH0 L UW1 L UW0
+honor AA1 N ER0
+honorable AA1 N ER0 AH0 B AH0 L
+honorably AA1 N ER0 AH0 B L IY0
+honorary AA1 N ER0 EH2 R IY0
+honored AA1 N ER0 D
+honoring AA1 N ER0 IH0 NG
+honors AA1 N ER0 Z
+honour AA1 N ER0
+honourable AA1 N ER0 AH0 B AH0 L
+honoured AA1 N ER0 D
+hoo HH UW1
+hooch HH UW1 CH
+hood HH UH1 D
+hooded HH UH1 D IH0 D
+hoodlum HH UH1 D L AH0 M
+hoodlums HH UW1 D L AH0 M Z
+hoods HH UH1 D Z
+hoodwinked HH UH1 D W IH2 NG K T
+hooey HH UW1 IY0
+hoof HH UW1 F
+hook HH UH1 K
+hooked HH UH1 K T
+hooker HH UH1 K ER0
+hookers HH UH1 K ER0 Z
+hooking HH UH1 K IH0 NG
+hooks HH UH1 K S
+hookup HH UH1 K AH2 P
+hooky HH UH1 K IY0
+hooligan HH UW1 L IH0 G AH0 N
+hooligans HH UW1 L IH0 G AH0 N Z
+hoop HH UW1 P
+hooper HH UW1 P ER0
+hoopla HH UW1 P L AA2
+hoops HH UW1 P S
+hooray HH UH0 R EY1
+hoot HH UW1 T
+hooter HH UW1 T ER0
+hooters HH UW1 T ER0 Z
+hoots HH UW1 T S
+hoover HH UW1 V ER0
+hooves HH UH1 V Z
+hop HH AA1 P
+hope HH OW1 P
+hoped HH OW1 P T
+hopeful HH OW1 P F AH0 L
+hopefully HH OW1 P F AH0 L IY0
+hopeless HH OW1 P L AH0 S
+hopelessly HH OW1 P L AH0 S L IY0
+hopes HH OW1 P S
+hoping HH OW1 P IH0 NG
+hopped HH AA1 P T
+hopper HH AA1 P ER0
+hopping HH AA1 P IH0 NG
+hoppy HH AO1 P IY0
+hops HH AA1 P S
+hopscotch HH AA1 P S K AA2 CH
+horace HH AO1 R AH0 S
+horde HH AO1 R D
+hordes HH AO1 R D Z
+horizon HH ER0 AY1 Z AH0 N
+horizons HH ER0 AY1 Z AH0 N Z
+horizontal HH AO2 R AH0 Z AA1 N T AH0 L
+horizontally HH AO2 R IH0 Z AA1 N T AH0 L IY0
+hormonal HH AO1 R M OW2 N AH0 L
+hormone HH AO1 R M OW2 N
+hormones HH AO1 R M OW2 N Z
+horn HH AO1 R N
+hornblower HH AO1 R N B L OW2 ER0
+horned HH AO1 R N D
+hornet HH AO1 R N IH0 T
+hornets HH AO1 R N AH0 T S
+horning HH AO1 R N IH0 NG
+horns HH AO1 R N Z
+horny HH AO1 R N IY0
+horoscope HH AO1 R AH0 S K OW2 P
+horoscopes HH AO1 R AH0 S K OW2 P S
+horrendous HH AO2 R EH1 N D AH0 S
+horrible HH AO1 R AH0 B AH0 L
+horribly HH AO1 R AH0 B L IY0
+horrid HH AO1 R AH0 D
+horrific HH AO0 R IH1 F IH0 K
+horrified HH AO1 R AH0 F AY2 D
+horrifying HH AO1 R AH0 F AY2 IH0 NG
+horror HH AO1 R ER0
+horrors HH AO1 R ER0 Z
+hors HH AO1 R Z
+horse HH AO1 R S
+horseback HH AO1 R S B AE2 K
+horseman HH AO1 R S M AH0 N
+horsemen HH AO1 R S M AH0 N
+horseplay HH AO1 R S P L EY2
+horsepower HH AO1 R S P AW2 ER0
+horseradish HH AO1 R S R AE2 D IH0 SH
+horses HH AO1 R S AH0 Z
+horseshit HH AO1 R S SH IH2 T
+horseshoe HH AO1 R S SH UW2
+horseshoes HH AO1 R S SH UW2 Z
+horsey HH AO1 R S IY0
+horsing HH AO1 R S IH0 NG
+horst HH AO1 R S T
+hose HH OW1 Z
+hosed HH OW1 Z D
+hoses HH OW1 Z IH0 Z
+hosing HH OW1 Z IH0 NG
+hospice HH AA1 S P AH0 S
+hospitable HH AA1 S P IH1 T AH0 B AH0 L
+hospital HH AA1 S P IH2 T AH0 L
+hospitality HH AA2 S P AH0 T AE1 L AH0 T IY0
+hospitalized HH AA1 S P IH0 T AH0 L AY2 Z D
+hospitals HH AA1 S P IH2 T AH0 L Z
+hoss HH AA1 S
+host HH OW1 S T
+hostage HH AA1 S T IH0 JH
+hostages HH AA1 S T AH0 JH AH0 Z
+hosted HH OW1 S T IH0 D
+hostel HH AA1 S T AH0 L
+hostess HH OW1 S T AH0 S
+hostesses HH OW1 S T AH0 S AH0 Z
+hostile HH AA1 S T AH0 L
+hostilities HH AA0 S T IH1 L AH0 T IY0 Z
+hostility HH AA0 S T IH1 L AH0 T IY0
+hosting HH OW1 S T IH0 NG
+hosts HH OW1 S T S
+hot HH AA1 T
+hotbed HH AA1 T B EH2 D
+hotcakes HH AA1 T K EY2 K S
+hotchkiss HH AA1 CH K IH0 S
+hotdog HH AA1 T D AO2 G
+hotel HH OW0 T EH1 L
+hotels HH OW0 T EH1 L Z
+hothouse HH AA1 T HH AW2 S
+hotline HH AA1 T L AY2 N
+hots HH AA1 T S
+hotshot HH AA1 SH AA2 T
+hotshots HH AA1 SH AA2 T S
+hotter HH AA1 T ER0
+hottest HH AA1 T AH0 S T
+hound HH AW1 N D
+hounded HH AW1 N D IH0 D
+hounding HH AW1 N D IH0 NG
+hounds HH AW1 N D Z
+hour AW1 ER0
+hourglass AW1 ER0 G L AE2 S
+hourly AW1 R L IY0
+hours AW1 ER0 Z
+house HH AW1 S
+houseboat HH AW1 S B OW2 T
+housebroken HH AW1 S B R OW2 K AH0 N
+housecleaning HH AW1 S K L IY2 N IH0 NG
+housed HH AW1 Z D
+houseguest HH AW1 S G EH0 S T
+household HH AW1 S HH OW2 L D
+households HH AW1 S HH OW2 L D Z
+housekeeper HH AW1 S K IY2 P ER0
+housekeepers HH AW1 S K IY2 P ER0 Z
+housekeeping HH AW1 S K IY2 P IH0 NG
+houseman HH AW1 S M AH0 N
+houses HH AW1 S AH0 Z
+housewarming HH AW1 S W AA2 M IH0 NG
+housewife HH AW1 S W AY2 F
+housewives HH AW1 S W AY2 V Z
+housework HH AW1 S W ER2 K
+housing HH AW1 Z IH0 NG
+houston HH Y UW1 S T AH0 N
+hovel HH AH1 V AH0 L
+hover HH AH1 V ER0
+hovercraft HH AH1 V ER0 K R AE2 F T
+hovered HH AH1 V ER0 D
+hovering HH AH1 V ER0 IH0 NG
+how HH AW1
+howdy HH AW1 D IY0
+howe HH AW1
+however HH AW2 EH1 V ER0
+howitzer HH AW1 AH0 T S ER0
+howl HH AW1 L
+howled HH AW1 L D
+howling HH AW1 L IH0 NG
+howls HH AW1 L Z
+hoy HH OY1
+hoyle HH OY1 L
+hr EY1 CH AA1 R
+hub HH AH1 B
+hubble HH AH1 B AH0 L
+hubbub HH AH1 B AH0 B
+hubby HH AH1 B IY0
+hubcaps HH AH1 B K AE2 P S
+hubris HH Y UW1 B R AH0 S
+huck HH AH1 K
+huckleberry HH AH1 K AH0 L B EH2 R IY0
+hud HH AH1 D
+huddle HH AH1 D AH0 L
+huddled HH AH1 D AH0 L D
+hudson HH AH1 D S AH0 N
+hue HH Y UW1
+huerta HH W EH1 R T AH2
+huff HH AH1 F
+huffing HH AH1 F IH0 NG
+huffy HH AH1 F IY0
+hug HH AH1 G
+huge HH Y UW1 JH
+hugely HH Y UW1 JH L IY0
+hugged HH AH1 G D
+hugger HH AH1 G ER0
+hugging HH AH1 G IH0 NG
+hugh HH Y UW1
+hugo HH Y UW1 G OW0
+hugs HH AH1 G Z
+huh HH AH1
+hula HH UW1 L AH0
+hulk HH AH1 L K
+hull HH AH1 L
+hullabaloo HH AH2 L AH0 B AH0 L UW1
+hum HH AH1 M
+human HH Y UW1 M AH0 N
+humane HH Y UW0 M EY1 N
+humanely HH Y UW0 M EY1 N L IY0
+humanitarian HH Y UW2 M AE2 N AH0 T EH1 R IY0 AH0 N
+humanity HH Y UW0 M AE1 N IH0 T IY0
+humankind HH Y UW1 M AH0 N K AY2 N D
+humanly HH Y UW1 M AH0 N L IY0
+humanoid HH Y UW1 M AH0 N OY2 D
+humans HH Y UW1 M AH0 N Z
+humble HH AH1 M B AH0 L
+humbled HH AH1 M B AH0 L D
+humbling HH AH1 M B AH0 L IH0 NG
+humbly HH AH1 M B L IY0
+humbug HH AH1 M B AH2 G
+humdrum HH AH1 M D R AH2 M
+humerus HH Y UW1 M ER0 AH0 S
+humid HH Y UW1 M AH0 D
+humidity HH Y UW0 M IH1 D AH0 T IY0
+humiliate HH Y UW0 M IH1 L IY0 EY2 T
+humiliated HH Y UW0 M IH1 L IY0 EY2 T IH0 D
+humiliating HH Y UW0 M IH1 L IY0 EY2 T IH0 NG
+humiliation HH Y UW0 M IH2 L IY0 EY1 SH AH0 N
+humility HH Y UW0 M IH1 L IH0 T IY0
+hummel HH AH1 M AH0 L
+hummer HH AH1 M ER0
+humming HH AH1 M IH0 NG
+hummingbird HH AH1 M IH0 NG B ER2 D
+hummingbirds HH AH1 M IH0 NG B ER2 D Z
+hummus HH UH1 M AH0 S
+humongous HH Y UW0 M AO1 NG G AH0 S
+humor HH Y UW1 M ER0
+humorous HH Y UW1 M ER0 AH0 S
+humour HH Y UW1 M ER0
+hump HH AH1 M P
+humpback HH AH1 M P B AE2 K
+humped HH AH1 M P T
+humph HH AH1 M F
+humpty HH AH1 M P T IY0
+hums HH AH1 M Z
+hun HH AH1 N
+hunch HH AH1 N CH
+hunchback HH AH1 N CH B AE2 K
+hunched HH AH1 N CH T
+hunches HH AH1 N CH IH0 Z
+hundred HH AH1 N D R AH0 D
+hundreds HH AH1 N D R AH0 D Z
+hundredth HH AH1 N D R AH0 D TH
+hung HH AH1 NG
+hungarian HH AH0 NG G EH1 R IY0 AH0 N
+hungarians HH AH0 NG G EH1 R IY0 AH0 N Z
+hungary HH AH1 NG G ER0 IY0
+hunger HH AH1 NG G ER0
+hungrier HH AH1 NG G R IY0 ER0
+hungry HH AH1 NG G R IY0
+hunk HH AH1 NG K
+hunker HH AH1 NG K ER0
+hunks HH AH1 NG K S
+hunky HH AH1 NG K IY0
+hunt HH AH1 N T
+hunted HH AH1 N T AH0 D
+hunter HH AH1 N T ER0
+hunters HH AH1 N T ER0 Z
+hunting HH AH1 N T IH0 NG
+huntley HH AH1 N T L IY0
+huntress HH AH1 N T R IH0 S
+hunts HH AH1 N T S
+hurdle HH ER1 D AH0 L
+hurdles HH ER1 D AH0 L Z
+hurl HH ER1 L
+hurled HH ER1 L D
+hurley HH ER1 L IY0
+hurling HH ER1 L IH0 NG
+hurrah HH UH0 R AA1
+hurray HH AH0 R EY1
+hurricane HH ER1 AH0 K EY2 N
+hurricanes HH ER1 AH0 K EY2 N Z
+hurried HH ER1 IY0 D
+hurry HH ER1 IY0
+hurrying HH ER1 IY0 IH0 NG
+hurst HH ER1 S T
+hurt HH ER1 T
+hurtful HH ER1 T F AH0 L
+hurting HH ER1 T IH0 NG
+hurtling HH ER1 T L IH0 NG
+hurts HH ER1 T S
+husband HH AH1 Z B AH0 N D
+husbands HH AH1 Z B AH0 N D Z
+hush HH AH1 SH
+hushed HH AH1 SH T
+husk HH AH1 S K
+husky HH AH1 S K IY0
+hussy HH AH1 S IY0
+hustle HH AH1 S AH0 L
+hustled HH AH1 S AH0 L D
+hustler HH AH1 S AH0 L ER0
+hustlers HH AH1 S AH0 L ER0 Z
+hustling HH AH1 S AH0 L IH0 NG
+hut HH AH1 T
+hutch HH AH1 CH
+huts HH AH1 T S
+huzzah HH UH2 Z AA1
+hy HH AY1
+hyacinth HH AY1 AH0 S IH2 N TH
+hybrid HH AY1 B R AH0 D
+hybrids HH AY1 B R AH0 D Z
+hyde HH AY1 D
+hydra HH AY1 D R AH0
+hydrant HH AY1 D R AH0 N T
+hydrate HH AY1 D R EY2 T
+hydrated HH AY1 D R EY2 T AH0 D
+hydraulic HH AY0 D R AO1 L IH0 K
+hydraulics HH AY0 D R AO1 L IH0 K S
+hydrogen HH AY1 D R AH0 JH AH0 N
+hyena HH AY0 IY1 N AH0
+hyenas HH AY0 IY1 N AH0 Z
+hygiene HH AY1 JH IY2 N
+hygienist HH AY2 G IY1 N IH0 S T
+hymen HH AY1 M AH0 N
+hymn HH IH1 M
+hymns HH IH1 M Z
+hype HH AY1 P
+hyped HH AY1 P T
+hyper HH AY1 P ER0
+hyperactive HH AY2 P ER0 AE1 K T IH0 V
+hyperion HH AY0 P IH1 R IY0 AH0 N
+hyperspace HH AY2 P ER0 S P EY1 S
+hypertension HH AY2 P ER0 T EH1 N SH AH0 N
+hypnosis HH IH0 P N OW1 S AH0 S
+hypnotic HH IH0 P N AA1 T IH0 K
+hypnotism HH IH1 P N AH0 T IH2 Z AH0 M
+hypnotist HH IH1 P N AH0 T IH0 S T
+hypnotize HH IH1 P N AH0 T AY2 Z
+hypnotized HH IH1 P N AH0 T AY2 Z D
+hypo HH AY1 P OW0
+hypochondriac HH AY2 P AH0 K AA1 N D R IY0 AE0 K
+hypocrisy HH IH0 P AA1 K R AH0 S IY0
+hypocrite HH IH1 P AH0 K R IH2 T
+hypocrites HH IH1 P AH0 K R IH2 T S
+hypocritical HH IH2 P AH0 K R IH1 T IH0 K AH0 L
+hypodermic HH AY2 P AH0 D ER1 M IH0 K
+hypoglycemic HH AY2 P OW0 G L AY0 S IY1 M IH0 K
+hypothalamus HH AY2 P OW0 TH AA1 L AH0 M AH0 S
+hypothermia HH AY2 P AH0 TH ER1 M IY0 AH0
+hypothesis HH AY0 P AA1 TH AH0 S AH0 S
+hypothetical HH AY2 P AH0 TH EH1 T AH0 K AH0 L
+hypothetically HH AY2 P AH0 TH EH1 T IH0 K L IY0
+hysterectomy HH IH2 S T ER0 EH1 K T AH0 M IY0
+hysteria HH IH0 S T EH1 R IY0 AH0
+hysterical HH IH0 S T EH1 R IH0 K AH0 L
+hysterically HH IH2 S T EH1 R IH0 K L IY0
+hysterics HH IH2 S T EH1 R IH0 K S
+i AY1
+i'd AY1 D
+i'll AY1 L
+i'm AY1 M
+i've AY1 V
+ia IY1 AH0
+iago IY0 AA1 G OW0
+ibm AY1 B IY2 EH2 M
+ibuprofen AY2 B Y UW0 P R OW1 F AH0 N
+icarus IH1 K ER2 AH0 S
+ice AY1 S
+iceberg AY1 S B ER0 G
+icebergs AY1 S B ER0 G Z
+icebox AY1 S B AA2 K S
+icebreaker AY1 S B R EY2 K ER0
+iced AY1 S T
+iceland AY1 S L AH0 N D
+iceman AY1 S M AE0 N
+ich IH1 CH
+icicle AY1 S IH0 K AH0 L
+icicles AY1 S IH0 K AH0 L Z
+icing AY1 S IH0 NG
+icon AY1 K AA0 N
+icons AY1 K AA2 N Z
+icy AY1 S IY0
+id IH1 D
+idaho AY1 D AH0 HH OW2
+idea AY0 D IY1 AH0
+ideal AY0 D IY1 L
+idealism AY0 D IY1 L IH0 Z AH0 M
+idealist AY0 D IY1 L IH0 S T
+idealistic AY0 D IY2 AH0 L IH1 S T IH0 K
+ideally AY0 D IY1 L IY0
+ideals AY0 D IY1 L Z
+ideas AY0 D IY1 AH0 Z
+ident AY0 D EH1 N T
+identical AY0 D EH1 N T IH0 K AH0 L
+identifiable AY0 D EH1 N T AH0 F AY2 AH0 B AH0 L
+identification AY0 D EH2 N T AH0 F AH0 K EY1 SH AH0 N
+identified AY0 D EH1 N T AH0 F AY2 D
+identifies AY0 D EH1 N T AH0 F AY2 Z
+identify AY0 D EH1 N T AH0 F AY2
+identifying AY0 D EH1 N T AH0 F AY2 IH0 NG
+identities AY0 D EH1 N T IH0 T IY2 Z
+identity AY0 D EH1 N T IH0 T IY2
+ideology AY2 D IY0 AA1 L AH0 JH IY0
+idiocy IH1 D IY0 AH0 S IY0
+idiot IH1 D IY2 AH0 T
+idiotic IH2 D IY0 AA1 T IH0 K
+idiots IH1 D IY2 AH0 T S
+idle AY1 D AH0 L
+idling AY1 D AH0 L IH0 NG
+idly AY1 D L IY0
+idol AY1 D AH0 L
+idolized AY1 D AH0 L AY2 Z D
+idols AY1 D AH0 L Z
+idyllic AY0 D IH1 L IH0 K
+if IH1 F
+iffy IH1 F IY0
+ifs IH1 F S
+igloo IH1 G L UW0
+igneous IH1 G N IY0 AH0 S
+ignite IH2 G N AY1 T
+ignited IH2 G N AY1 T IH0 D
+ignites IH2 G N AY1 T S
+ignition IH2 G N IH1 SH AH0 N
+ignoramus IH2 G N ER0 EY1 M AH0 S
+ignorance IH1 G N ER0 AH0 N S
+ignorant IH1 G N ER0 AH0 N T
+ignore IH2 G N AO1 R
+ignored IH2 G N AO1 R D
+ignores IH2 G N AO1 R Z
+ignoring IH2 G N AO1 R IH0 NG
+iguana AY0 G W AA1 N AH0
+iguanas IH2 G W AA1 N AH0 Z
+ike AY1 K
+il IH1 L
+ilk IH1 L K
+ill IH1 L
+illegal IH2 L IY1 G AH0 L
+illegally IH2 L IY1 G AH0 L IY0
+illegals IH2 L IY1 G AH0 L Z
+illegitimate IH2 L IH0 JH IH1 T AH0 M IH0 T
+illicit IH2 L IH1 S AH0 T
+illinois IH2 L AH0 N OY1
+illiterate IH2 L IH1 T ER0 AH0 T
+illness IH1 L N AH0 S
+illnesses IH1 L N AH0 S IH0 Z
+illogical IH2 L AA1 JH IH0 K AH0 L
+ills IH1 L Z
+illuminate IH2 L UW1 M IH0 N IH0 T
+illuminated IH2 L UW1 M AH0 N EY2 T AH0 D
+illuminating IH2 L UW1 M AH0 N EY2 T IH0 NG
+illumination IH2 L UW2 M AH0 N EY1 SH AH0 N
+illusion IH2 L UW1 ZH AH0 N
+illusions IH2 L UW1 ZH AH0 N Z
+illustrate IH1 L AH0 S T R EY2 T
+illustrated IH1 L AH0 S T R EY2 T AH0 D
+illustrates IH1 L AH0 S T R EY2 T S
+illustration IH2 L AH0 S T R EY1 SH AH0 N
+illustrations IH2 L AH0 S T R EY1 SH AH0 N Z
+illustrious IH2 L AH1 S T R IY0 AH0 S
+im IH1 M
+image IH1 M AH0 JH
+imagery IH1 M AH0 JH R IY0
+images IH1 M AH0 JH AH0 Z
+imaginable IH2 M AE1 JH AH0 N AH0 B AH0 L
+imaginary IH2 M AE1 JH AH0 N EH2 R IY0
+imagination IH2 M AE2 JH AH0 N EY1 SH AH0 N
+imaginations IH2 M AE2 JH AH0 N EY1 SH AH0 N Z
+imaginative IH2 M AE1 JH AH0 N AH0 T IH0 V
+imagine IH2 M AE1 JH AH0 N
+imagined IH2 M AE1 JH AH0 N D
+imagines IH2 M AE1 JH AH0 N Z
+imaging IH1 M IH0 JH IH0 NG
+imagining IH2 M AE1 JH AH0 N IH0 NG
+imam AY1 M AE0 M
+imbalance IH0 M B AE1 L AH0 N S
+imbecile IH1 M B AH0 S AH0 L
+imbeciles IH1 M B AH0 S AH0 L Z
+imitate IH1 M AH0 T EY2 T
+imitated IH1 M AH0 T EY2 T IH0 D
+imitates IH1 M AH0 T EY2 T S
+imitating IH1 M AH0 T EY2 T IH0 NG
+imitation IH2 M AH0 T EY1 SH AH0 N
+imitations IH2 M IH0 T EY1 SH AH0 N Z
+immaculate IH2 M AE1 K Y UW0 L IH0 T
+immaterial IH2 M AH0 T IH1 R IY0 AH0 L
+immature IH2 M AH0 T Y UH1 R
+immeasurable IH2 M EH1 ZH ER0 AE2 B AH0 L
+immediate IH2 M IY1 D IY2 AH0 T
+immediately IH2 M IY1 D IY2 AH0 T L IY0
+immense IH2 M EH1 N S
+immensely IH2 M EH1 N S L IY0
+immerse IH2 M ER1 S
+immersed IH2 M ER1 S T
+immigrant IH1 M AH0 G R AH0 N T
+immigrants IH1 M AH0 G R AH0 N T S
+immigrated IH1 M AH0 G R EY2 T IH0 D
+immigration IH2 M AH0 G R EY1 SH AH0 N
+imminent IH1 M AH0 N AH0 N T
+immobile IH2 M OW1 B AH0 L
+immoral IH2 M AO1 R AH0 L
+immorality IH2 M ER0 AE1 L IH0 T IY0
+immortal IH2 M AO1 R T AH0 L
+immortality IH2 M AO0 R T AE1 L IH0 T IY0
+immortalized IH2 M AO1 R T AH0 L AY0 Z D
+immortals IH2 M AO1 R T AH0 L Z
+immune IH2 M Y UW1 N
+immunity IH2 M Y UW1 N AH0 T IY0
+imp IH1 M P
+impact IH2 M P AE1 K T
+impacted IH1 M P AE2 K T IH0 D
+impacts IH2 M P AE1 K T S
+impaired IH2 M P EH1 R D
+impale IH2 M P EY1 L
+impaled IH2 M P EY1 L D
+impart IH2 M P AA1 R T
+impartial IH2 M P AA1 R SH AH0 L
+impassable IH2 M P AE1 S AH0 B AH0 L
+impasse IH2 M P AE1 S
+impassioned IH2 M P AE1 SH AH0 N D
+impatience IH2 M P EY1 SH AH0 N S
+impatient IH2 M P EY1 SH AH0 N T
+impeach IH2 M P IY1 CH
+impeached IH2 M P IY1 CH T
+impeachment IH2 M P IY1 CH M AH0 N T
+impeccable IH2 M P EH1 K AH0 B AH0 L
+impeccably IH2 M P EH1 K AH0 B L IY0
+impede IH2 M P IY1 D
+impediment IH2 M P EH1 D AH0 M AH0 N T
+impending IH2 M P EH1 N D IH0 NG
+impenetrable IH2 M P EH1 N AH0 T R AH0 B AH0 L
+imperative IH2 M P EH1 R AH0 T IH0 V
+imperfect IH2 M P ER1 F IH0 K T
+imperfection IH2 M P ER0 F EH1 K SH AH0 N
+imperfections IH2 M P ER0 F EH1 K SH AH0 N Z
+imperial IH2 M P IH1 R IY0 AH0 L
+imperialist IH2 M P IH1 R IY0 AH0 L IH0 S T
+imperious IH2 M P IH1 R IY0 AH0 S
+impersonal IH2 M P ER1 S AH0 N AH0 L
+impersonate IH2 M P ER1 S AH0 N EY2 T
+impersonated IH2 M P ER1 S AH0 N EY2 T IH0 D
+impersonating IH2 M P ER1 S AH0 N EY2 T IH0 NG
+impersonation IH2 M P ER0 S AH0 N EY1 SH AH0 N
+impersonator IH2 M P ER1 S AH0 N EY0 T ER0
+impersonators IH2 M P ER1 S AH0 N EY2 T ER0 Z
+impertinent IH2 M P ER1 T AH0 N AH0 N T
+impervious IH2 M P ER1 V IY0 AH0 S
+impetuous IH2 M P EH1 CH W AH0 S
+implant IH2 M P L AE1 N T
+implanted IH2 M P L AE1 N T IH0 D
+implants IH2 M P L AE1 N T S
+implement IH1 M P L AH0 M AH0 N T
+implemented IH1 M P L AH0 M EH2 N T AH0 D
+implementing IH1 M P L AH0 M EH2 N T IH0 NG
+implements IH1 M P L AH0 M AH0 N T S
+implicate IH1 M P L IH0 K EY2 T
+implicated IH1 M P L IH0 K EY2 T IH0 D
+implicates IH1 M P L IH0 K EY2 T S
+implicating IH1 M P L IH0 K EY2 T IH0 NG
+implication IH2 M P L AH0 K EY1 SH AH0 N
+implications IH2 M P L AH0 K EY1 SH AH0 N Z
+implicit IH2 M P L IH1 S AH0 T
+implicitly IH2 M P L IH1 S AH0 T L IY0
+implied IH2 M P L AY1 D
+implies IH2 M P L AY1 Z
+implode IH2 M P L OW1 D
+implore IH2 M P L AO1 R
+implosion IH2 M P L OW1 ZH AH0 N
+imply IH2 M P L AY1
+implying IH2 M P L AY1 IH0 NG
+impolite IH2 M P AH0 L AY1 T
+import IH2 M P AO1 R T
+importance IH2 M P AO1 R T AH0 N S
+important IH2 M P AO1 R T AH0 N T
+importantly IH2 M P AO1 R T AH0 N T L IY0
+imported IH2 M P AO1 R T IH0 D
+importing IH2 M P AO1 R T IH0 NG
+imports IH2 M P AO1 R T S
+impose IH2 M P OW1 Z
+imposed IH2 M P OW1 Z D
+imposing IH2 M P OW1 Z IH0 NG
+imposition IH2 M P AH0 Z IH1 SH AH0 N
+impossibility IH2 M P AO2 S IH0 B IH1 L IH0 T IY0
+impossible IH2 M P AA1 S AH0 B AH0 L
+impossibly IH2 M P AA1 S AH0 B L IY0
+imposter IH2 M P AO1 S T ER0
+impostor IH2 M P AO1 S T ER0
+impotence IH1 M P AH0 T AH0 N S
+impotent IH1 M P AH0 T AH0 N T
+impound IH2 M P AW1 N D
+impounded IH2 M P AW1 N D IH0 D
+impoverished IH2 M P AA1 V R IH0 SH T
+impractical IH2 M P R AE1 K T AH0 K AH0 L
+impregnable IH2 M P R EH1 G N AH0 B AH0 L
+impregnate IH2 M P R EH1 G N EY2 T
+impregnated IH2 M P R EH1 G N EY2 T AH0 D
+impress IH2 M P R EH1 S
+impressed IH2 M P R EH1 S T
+impresses IH2 M P R EH1 S IH0 Z
+impressing IH2 M P R EH1 S IH0 NG
+impression IH2 M P R EH1 SH AH0 N
+impressionable IH2 M P R EH1 SH AH0 N AH0 B AH0 L
+impressionist IH2 M P R EH1 SH AH0 N AH0 S T
+impressions IH2 M P R EH1 SH AH0 N Z
+impressive IH2 M P R EH1 S IH0 V
+imprint IH2 M P R IH1 N T
+imprinted IH2 M P R IH1 N T IH0 D
+imprints IH2 M P R IH1 N T S
+imprison IH2 M P R IH1 Z AH0 N
+imprisoned IH2 M P R IH1 Z AH0 N D
+imprisonment IH2 M P R IH1 Z AH0 N M AH0 N T
+improbable IH2 M P R AA1 B AH0 B AH0 L
+impromptu IH2 M P R AA1 M P T UW0
+improper IH2 M P R AA1 P ER0
+improperly IH2 M P R AA1 P ER0 L IY0
+impropriety IH2 M P R AH0 P R AY1 AH0 T IY0
+improve IH2 M P R UW1 V
+improved IH2 M P R UW1 V D
+improvement IH2 M P R UW1 V M AH0 N T
+improvements IH2 M P R UW1 V M AH0 N T S
+improves IH2 M P R UW1 V Z
+improving IH2 M P R UW1 V IH0 NG
+improvisation IH2 M P R AA0 V IH0 Z EY1 SH AH0 N
+improvise IH1 M P R AH0 V AY2 Z
+improvised IH1 M P R AH0 V AY2 Z D
+improvising IH1 M P R AH0 V AY2 Z IH0 NG
+impulse IH1 M P AH0 L S
+impulses IH1 M P AH0 L S IH0 Z
+impulsive IH2 M P AH1 L S IH0 V
+impunity IH2 M P Y UW1 N IH0 T IY0
+impure IH2 M P Y UH1 R
+impurities IH2 M P Y UH1 R AH0 T IY0 Z
+in IH0 N
+inability IH2 N AH0 B IH1 L IH0 T IY0
+inaccessible IH2 N AH0 K S EH1 S AH0 B AH0 L
+inaccurate IH2 N AE1 K Y ER0 AH0 T
+inactive IH2 N AE1 K T IH0 V
+inadequacy IH2 N AE1 D IH0 K W AH0 S IY0
+inadequate IH2 N AE1 D AH0 K W AH0 T
+inadmissible IH2 N AH0 D M IH1 S AH0 B AH0 L
+inadvertently IH2 N AH0 D V ER1 T AH0 N T L IY0
+inalienable IH2 N EY1 L Y AH0 N AH0 B AH0 L
+inane IH2 N EY1 N
+inanimate IH2 N AE1 N AH0 M AH0 T
+inappropriate IH2 N AH0 P R OW1 P R IY0 IH0 T
+inappropriately IH2 N AH0 P R AA1 P R IY0 AH0 T L IY0
+inasmuch IH2 N AE1 S M AH0 K
+inaudible IH2 N AO1 D AH0 B AH0 L
+inaugural IH2 N AO1 G ER0 AH0 L
+inbound IH2 N B AW1 N D
+inbred IH1 N B R EH2 D
+inbreeding IH2 N B R IY1 D IH0 NG
+inc IH1 NG K
+incandescent IH2 N K AH0 N D EH1 S AH0 N T
+incantation IH2 N K AE1 N T EY1 SH AH0 N
+incapable IH2 N K EY1 P AH0 B AH0 L
+incapacitated IH2 N K AH0 P AE1 S IH0 T EY2 T IH0 D
+incarcerated IH2 N K AA1 R S ER0 EY2 T IH0 D
+incarceration IH2 N K AA2 R S ER0 EY1 SH AH0 N
+incarnate IH2 N K AA1 R N AH0 T
+incarnation IH2 N K AA1 R N EY1 SH AH0 N
+incendiary IH2 N S EH1 N D IY0 EH0 R IY0
+incense IH2 N S EH1 N S
+incentive IH2 N S EH1 N T IH0 V
+inception IH2 N S EH1 P SH AH0 N
+incessant IH2 N S EH1 S AH0 N T
+incessantly IH2 N S EH1 S AH0 N T L IY0
+incest IH1 N S EH2 S T
+incestuous IH2 N S EH1 S CH W AH0 S
+inch IH1 N CH
+inches IH1 N CH AH0 Z
+incidence IH1 N S AH0 D AH0 N S
+incident IH1 N S AH0 D AH0 N T
+incidental IH2 N S IH0 D EH1 N T AH0 L
+incidentally IH2 N S IH0 D EH1 N T AH0 L IY0
+incidentals IH2 N S IH0 D EH1 N T AH0 L Z
+incidents IH1 N S AH0 D AH0 N T S
+incinerate IH2 N S IH1 N ER0 EY2 T
+incinerated IH2 N S IH1 N ER0 EY2 T IH0 D
+incinerator IH2 N S IH1 N ER0 EY2 T ER0
+incised IH2 N S AY1 Z D
+incision IH2 N S IH1 ZH AH0 N
+incite IH2 N S AY1 T
+inciting IH2 N S AY1 T IH0 NG
+inclination IH2 N K L AH0 N EY1 SH AH0 N
+incline IH2 N K L AY1 N
+inclined IH2 N K L AY1 N D
+include IH2 N K L UW1 D
+included IH2 N K L UW1 D AH0 D
+includes IH2 N K L UW1 D Z
+including IH2 N K L UW1 D IH0 NG
+incognito IH2 N K AO0 G N IY1 T OW0
+incoherent IH2 N K OW0 HH IH1 R AH0 N T
+income IH1 N K AH2 M
+incoming IH1 N K AH2 M IH0 NG
+incomparable IH2 N K AA1 M P ER0 AH0 B AH0 L
+incompatible IH2 N K AH0 M P AE1 T AH0 B AH0 L
+incompetence IH2 N K AA1 M P AH0 T AH0 N S
+incompetent IH2 N K AA1 M P AH0 T AH0 N T
+incomplete IH2 N K AH0 M P L IY1 T
+incomprehensible IH2 NG K AA2 M P R AH0 HH EH1 N S IH0 B AH0 L
+inconceivable IH2 N K AH0 N S IY1 V AH0 B AH0 L
+inconclusive IH2 N K AH0 N K L UW1 S IH0 V
+inconsequential IH2 NG K AA2 N S AH0 K W EH1 N CH AH0 L
+inconsistencies IH2 NG K AA1 N S IH0 S T EH2 N S IY0 Z
+inconsistent IH2 N K AH0 N S IH1 S T AH0 N T
+inconspicuous IH2 NG K AA1 N S P IH0 K W AH0 S
+incontinent IH2 N K AA1 N T AH0 N AH0 N T
+incontrovertible IH2 NG K AA2 N T R OW0 V ER1 T IH0 B AH0 L
+inconvenience IH2 N K AH0 N V IY1 N Y AH0 N S
+inconvenienced IH2 N K AH0 N V IY1 N Y AH0 N S T
+inconveniences IH2 N K AH0 N V IY1 N Y AH0 N S IH0 Z
+inconvenient IH2 N K AH0 N V IY1 N Y AH0 N T
+incorporate IH2 N K AO1 R P ER0 EY2 T
+incorporated IH2 N K AO1 R P ER0 EY2 T IH0 D
+incorporation IH2 N K AO2 R P ER0 EY1 SH AH0 N
+incorrect IH2 N K ER0 EH1 K T
+incorrectly IH2 N K ER0 EH1 K T L IY0
+incorrigible IH2 N K AA1 R AH0 JH AH0 B AH0 L
+increase IH2 N K R IY1 S
+increased IH2 N K R IY1 S T
+increases IH0 N K R IY1 S AH0 Z
+increasing IH2 N K R IY1 S IH0 NG
+increasingly IH0 N K R IY1 S IH0 NG L IY0
+incredible IH2 N K R EH1 D AH0 B AH0 L
+incredibly IH2 N K R EH1 D AH0 B L IY0
+incriminate IH2 N K R IH1 M AH0 N EY2 T
+incriminating IH2 N K R IH1 M AH0 N EY2 T IH0 NG
+incubation IH2 NG K Y UW0 B EY1 SH AH0 N
+incubator IH1 NG K Y AH0 B EY2 T ER0
+incumbent IH2 N K AH1 M B AH0 N T
+incur IH2 N K ER1
+incurable IH2 N K Y UH1 R AH0 B AH0 L
+incurred IH2 N K ER1 D
+indebted IH2 N D EH1 T IH0 D
+indecency IH2 N D IY1 S AH0 N S IY0
+indecent IH2 N D IY1 S AH0 N T
+indecision IH2 N D IH0 S IH1 ZH AH0 N
+indecisive IH2 N D IH0 S AY1 S IH0 V
+indeed IH2 N D IY1 D
+indefinite IH2 N D EH1 F AH0 N AH0 T
+indefinitely IH2 N D EH1 F AH0 N AH0 T L IY0
+indelible IH2 N D EH1 L IH0 B AH0 L
+indelicate IH2 N D EH1 L IH0 K AH0 T
+indemnity IH2 N D EH1 M N AH0 T IY0
+indentured IH2 N D EH1 N CH ER0 D
+independence IH2 N D IH0 P EH1 N D AH0 N S
+independent IH2 N D IH0 P EH1 N D AH0 N T
+independently IH2 N D IH0 P EH1 N D AH0 N T L IY0
+independents IH2 N D IH0 P EH1 N D AH0 N T S
+indescribable IH2 N D IH0 S K R AY1 B AH0 B AH0 L
+indestructible IH2 N D AH0 S T R AH1 K T IH0 B AH0 L
+indeterminate IH2 N D IH0 T ER1 M IH0 N IH0 T
+index IH1 N D EH0 K S
+india IH1 N D IY0 AH0
+indian IH1 N D IY0 AH0 N
+indiana IH2 N D IY0 AE1 N AH0
+indians IH1 N D IY0 AH0 N Z
+indicate IH1 N D AH0 K EY2 T
+indicated IH1 N D AH0 K EY2 T AH0 D
+indicates IH1 N D IH0 K EY2 T S
+indicating IH1 N D AH0 K EY2 T IH0 NG
+indication IH2 N D AH0 K EY1 SH AH0 N
+indications IH2 N D AH0 K EY1 SH AH0 N Z
+indicative IH2 N D IH1 K AH0 T IH0 V
+indicator IH1 N D AH0 K EY2 T ER0
+indicators IH1 N D AH0 K EY2 T ER0 Z
+indict IH2 N D AY1 T
+indicted IH2 N D AY1 T IH0 D
+indictment IH2 N D AY1 T M AH0 N T
+indictments IH2 N D AY1 T M AH0 N T S
+indie IH1 N D IY0
+indifference IH2 N D IH1 F ER0 AH0 N S
+indifferent IH2 N D IH1 F R AH0 N T
+indigenous IH2 N D IH1 JH AH0 N AH0 S
+indigent IH1 N D IH0 JH AH0 N T
+indigestion IH2 N D AY0 JH EH1 S CH AH0 N
+indignant IH2 N D IH1 G N AH0 N T
+indignation IH2 N D IH0 G N EY1 SH AH0 N
+indignity IH2 N D IH1 G N AH0 T IY2
+indigo IH1 N D AH0 G OW2
+indirect IH2 N D ER0 EH1 K T
+indirectly IH2 N D ER0 EH1 K T L IY2
+indiscreet IH2 N D IH0 S K R IY1 T
+indiscretion IH2 N D IH0 S K R EH1 SH AH0 N
+indiscretions IH2 N D IH0 S K R EH1 SH AH0 N Z
+indiscriminately IH2 N D IH0 S K R IH1 M AH0 N AH0 T L IY2
+indispensable IH2 N D IH0 S P EH1 N S AH0 B AH0 L
+indistinct IH2 N D IH0 S T IH1 NG K T
+indistinguishable IH2 N D IH0 S T IH1 NG G W IH0 SH AH0 B AH0 L
+individual IH2 N D AH0 V IH1 JH AH0 W AH0 L
+individualism IH2 N D IH0 V IH0 D UW1 AH0 L IH2 Z AH0 M
+individuality IH2 N D IH2 V IH0 JH UW0 AE1 L IH0 T IY0
+individually IH2 N D IH0 V IH1 JH UW0 AH0 L IY0
+individuals IH2 N D AH0 V IH1 JH AH0 W AH0 L Z
+indivisible IH2 N D IH0 V IH1 S IH0 B AH0 L
+indoctrination IH2 N D AA2 K T R AH0 N EY1 SH AH0 N
+indonesia IH2 N D OW0 N IY1 ZH AH0
+indoor IH1 N D AO2 R
+indoors IH1 N D AO2 R Z
+induce IH2 N D UW1 S
+induced IH2 N D UW1 S T
+inducement IH2 N D UW1 S M AH0 N T
+induces IH2 N D UW1 S IH0 Z
+inducing IH2 N D UW1 S IH0 NG
+induction IH2 N D AH1 K SH AH0 N
+indulge IH2 N D AH1 L JH
+indulged IH2 N D AH1 L JH D
+indulgence IH2 N D AH1 L JH AH0 N S
+indulgent IH2 N D AH1 L JH AH0 N T
+indulging IH2 N D AH1 L JH IH0 NG
+industrial IH2 N D AH1 S T R IY0 AH0 L
+industrialist IH2 N D AH1 S T R IY0 AH0 L IH0 S T
+industrialists IH2 N D AH1 S T R IY0 AH0 L IH0 S T S
+industries IH1 N D AH0 S T R IY0 Z
+industrious IH2 N D AH1 S T R IY0 AH0 S
+industry IH1 N D AH0 S T R IY0
+indy IH1 N D IY0
+inebriated IH2 N EH1 B R IY0 EY2 T AH0 D
+inedible IH2 N EH1 D AH0 B AH0 L
+ineffective IH2 N IH0 F EH1 K T IH0 V
+ineffectual IH2 N AH0 F EH1 K CH UW0 AH0 L
+inefficiency IH2 N IH0 F IH1 SH AH0 N S IY0
+inefficient IH2 N IH0 F IH1 SH AH0 N T
+inept IH2 N EH1 P T
+inert IH2 N ER1 T
+inertia IH2 N ER1 SH AH0
+inertial IH2 N ER1 SH AH0 L
+inescapable IH2 N IH0 S K EY1 P AH0 B AH0 L
+inevitability IH2 N EH2 V IH0 T AH0 B IH1 L IH0 T IY0
+inevitable IH2 N EH1 V AH0 T AH0 B AH0 L
+inevitably IH2 N EH1 V AH0 T AH0 B L IY0
+inexcusable IH2 N IH0 K S K Y UW1 Z AH0 B AH0 L
+inexpensive IH2 N IH0 K S P EH1 N S IH0 V
+inexperience IH2 N IH0 K S P IH1 R IY0 AH0 N S
+inexperienced IH0 N IH0 K S P IH1 R IY0 AH0 N S T
+inexplicable IH2 N AH0 K S P L IH1 S AH0 B AH0 L
+inexplicably IH2 N IH0 K S P L IH1 K AH0 B L IY0
+infallible IH2 N F AE1 L AH0 B AH0 L
+infamous IH1 N F AH0 M AH0 S
+infamy IH1 N F AH0 M IY0
+infancy IH1 N F AH0 N S IY0
+infant IH1 N F AH0 N T
+infantile IH1 N F AH0 N T IH0 L
+infantry IH1 N F AH0 N T R IY0
+infants IH1 N F AH0 N T S
+infarction IH2 N F AA1 R K SH AH0 N
+infatuated IH2 N F AE1 CH UW0 EY2 T IH0 D
+infatuation IH2 N F AE2 CH UW0 EY1 SH AH0 N
+infect IH2 N F EH1 K T
+infected IH2 N F EH1 K T IH0 D
+infecting IH2 N F EH1 K T IH0 NG
+infection IH2 N F EH1 K SH AH0 N
+infections IH2 N F EH1 K SH AH0 N Z
+infectious IH2 N F EH1 K SH AH0 S
+infer IH2 N F ER1
+inferior IH2 N F IH1 R IY0 ER0
+inferiority IH2 N F IH0 R IY0 AO1 R IH0 T IY2
+infernal IH2 N F ER1 N AH0 L
+inferno IH2 N F ER1 N OW2
+infertile IH2 N F ER1 T AH0 L
+infertility IH2 N F ER0 T IH1 L IH0 T IY2
+infest IH2 N F EH1 S T
+infestation IH2 N F EH1 S T EY1 SH AH0 N
+infested IH2 N F EH1 S T IH0 D
+infidel IH1 N F IH0 D EH2 L
+infidelity IH2 N F IH0 D EH1 L IH0 T IY0
+infidels IH1 N F IH0 D EH0 L Z
+infield IH1 N F IY2 L D
+infiltrate IH1 N F IH0 L T R EY2 T
+infiltrated IH1 N F IH0 L T R EY2 T IH0 D
+infiltrating IH2 N F IH1 L T R EY2 T IH0 NG
+infiltration IH2 N F IH0 L T R EY1 SH AH0 N
+infinite IH1 N F AH0 N AH0 T
+infinitely IH1 N F AH0 N AH0 T L IY0
+infinitesimal IH2 N F IH0 N IH0 T EH1 S IH0 M AH0 L
+infinity IH2 N F IH1 N IH0 T IY0
+infirm IH0 N F ER1 M
+infirmary IH0 N F ER1 M ER0 IY0
+inflame IH0 N F L EY1 M
+inflamed IH0 N F L EY1 M D
+inflammation IH2 N F L AH0 M EY1 SH AH0 N
+inflammatory IH0 N F L AE1 M AH0 T AO2 R IY0
+inflatable IH0 N F L EY1 T AH0 B AH0 L
+inflate IH0 N F L EY1 T
+inflated IH2 N F L EY1 T IH0 D
+inflation IH2 N F L EY1 SH AH0 N
+inflict IH2 N F L IH1 K T
+inflicted IH2 N F L IH1 K T IH0 D
+inflicting IH2 N F L IH1 K T IH0 NG
+infliction IH2 N F L IH1 K SH AH0 N
+influence IH1 N F L UW0 AH0 N S
+influenced IH1 N F L UW0 AH0 N S T
+influences IH1 N F L UW2 AH0 N S IH0 Z
+influencing IH1 N F L UW2 AH0 N S IH0 NG
+influential IH2 N F L UW0 EH1 N SH AH0 L
+influenza IH2 N F L UW0 EH1 N Z AH0
+influx IH1 N F L AH2 K S
+info IH1 N F OW0
+infomercial IH1 N F OW0 M ER2 SH AH0 L
+infomercials IH1 N F OW0 M ER2 SH AH0 L Z
+inform IH2 N F AO1 R M
+informal IH2 N F AO1 R M AH0 L
+informant IH2 N F AO1 R M AH0 N T
+informants IH2 N F AO1 R M AH0 N T S
+information IH2 N F ER0 M EY1 SH AH0 N
+informational IH2 N F ER0 M EY1 SH AH0 N AH0 L
+informative IH2 N F AO1 R M AH0 T IH0 V
+informed IH2 N F AO1 R M D
+informer IH2 N F AO1 R M ER0
+informers IH2 N F AO1 R M ER0 Z
+informing IH2 N F AO1 R M IH0 NG
+informs IH2 N F AO1 R M Z
+infraction IH2 N F R AE1 K SH AH0 N
+infractions IH2 N F R AE1 K SH AH0 N Z
+infrared IH2 N F R ER0 EH1 D
+infrastructure IH2 N F R AH0 S T R AH1 K CH ER0
+infuriating IH2 N F Y UH1 R IY0 EY2 T IH0 NG
+infused IH2 N F Y UW1 Z D
+infusion IH2 N F Y UW1 ZH AH0 N
+ing IH1 NG
+ingenious IH2 N JH IY1 N Y AH0 S
+ingenue IH1 N JH EH2 N Y UW2
+ingenuity IH2 N JH AH0 N UW1 AH0 T IY2
+ingest IH2 N JH EH1 S T
+ingested IH2 N JH EH1 S T AH0 D
+ingesting IH2 N JH EH1 S T IH0 NG
+ingestion IH2 N JH EH1 S CH AH0 N
+ingrained IH2 N G R EY1 N D
+ingredient IH2 N G R IY1 D IY0 AH0 N T
+ingredients IH2 N G R IY1 D IY0 AH0 N T S
+inhabit IH2 N HH AE1 B AH0 T
+inhabitants IH0 N HH AE1 B AH0 T AH0 N T S
+inhabited IH2 N HH AE1 B AH0 T AH0 D
+inhalation IH0 N AH0 L EY1 SH AH0 N
+inhale IH2 N HH EY1 L
+inhaled IH2 N HH EY1 L D
+inhaler IH2 N HH EY1 L ER0
+inhalers IH2 N HH EY1 L ER0 Z
+inhaling IH2 N HH EY1 L IH0 NG
+inherent IH0 N HH IH1 R AH0 N T
+inherently IH0 N HH IH1 R AH0 N T L IY0
+inherit IH2 N HH EH1 R AH0 T
+inheritance IH2 N HH EH1 R AH0 T AH0 N S
+inherited IH2 N HH EH1 R AH0 T IH0 D
+inherits IH2 N HH EH1 R AH0 T S
+inhibit IH2 N HH IH1 B AH0 T
+inhibited IH2 N HH IH1 B AH0 T IH0 D
+inhibition IH2 N HH AH0 B IH1 SH AH0 N
+inhibitions IH2 N HH AH0 B IH1 SH AH0 N Z
+inhibitor IH2 N HH IH1 B AH0 T ER0
+inhibitors IH2 N HH IH1 B AH0 T ER0 Z
+inhospitable IH0 N HH AA1 S P AH0 T AH0 B AH0 L
+inhuman IH2 N HH Y UW1 M AH0 N
+inhumane IH2 N HH Y UW0 M EY1 N
+iniquity IH2 N IH1 K W IH0 T IY0
+initial IH2 N IH1 SH AH0 L
+initially IH2 N IH1 SH AH0 L IY0
+initials IH2 N IH1 SH AH0 L Z
+initiate IH2 N IH1 SH IY0 EY2 T
+initiated IH2 N IH1 SH IY0 EY2 T AH0 D
+initiating IH2 N IH1 SH IY0 EY2 T IH0 NG
+initiation IH2 N IH2 SH IY0 EY1 SH AH0 N
+initiative IH2 N IH1 SH AH0 T IH0 V
+inject IH2 N JH EH1 K T
+injected IH2 N JH EH1 K T AH0 D
+injecting IH2 N JH EH1 K T IH0 NG
+injection IH2 N JH EH1 K SH AH0 N
+injections IH2 N JH EH1 K SH AH0 N Z
+injector IH2 N JH EH1 K T ER0
+injunction IH2 N JH AH1 NG K SH AH0 N
+injure IH1 N JH ER0
+injured IH1 N JH ER0 D
+injuries IH1 N JH ER0 IY0 Z
+injuring IH1 N JH ER0 IH0 NG
+injury IH1 N JH ER0 IY0
+injustice IH2 N JH AH1 S T IH0 S
+injustices IH2 N JH AH1 S T AH0 S IH0 Z
+ink IH1 NG K
+inkling IH1 NG K L IH0 NG
+inland IH1 N L AE2 N D
+inlay IH1 N L EY2
+inlet IH1 N L EH2 T
+inmate IH1 N M EY2 T
+inmates IH1 N M EY2 T S
+inn IH1 N
+innards IH1 N ER0 D Z
+innate IH2 N EY1 T
+inner IH1 N ER0
+innermost IH1 N ER0 M OW2 S T
+inning IH1 N IH0 NG
+innings IH1 N IH0 NG Z
+innkeeper IH1 N K IY2 P ER0
+innocence IH1 N AH0 S AH0 N S
+innocent IH1 N AH0 S AH0 N T
+innocently IH1 N AH0 S AH0 N T L IY0
+innocents IH1 N AH0 S AH0 N T S
+innocuous IH2 N AA1 K Y UW0 AH0 S
+innovation IH2 N AH0 V EY1 SH AH0 N
+innovations IH2 N AH0 V EY1 SH AH0 N Z
+innovative IH1 N AH0 V EY2 T IH0 V
+inns IH1 N Z
+innuendo IH2 N Y UW0 EH1 N D OW0
+inoculate IH2 N AA1 K Y AH0 L EY2 T
+inoculated IH2 N AA1 K Y AH0 L EY2 T IH0 D
+inoculation IH2 N AA2 K Y AH0 L EY1 SH AH0 N
+inoperable IH2 N AA1 P ER0 AH0 B AH0 L
+inoperative IH2 N AA1 P ER0 AH0 T IH0 V
+inordinate IH2 N AO1 R D AH0 N IH0 T
+input IH1 N P UH2 T
+inquest IH1 N K W EH2 S T
+inquire IH2 N K W AY1 R
+inquired IH2 N K W AY1 ER0 D
+inquiries IH2 N K W AY1 ER0 IY0 Z
+inquiring IH2 N K W AY1 ER0 IH0 NG
+inquiry IH2 N K W AY1 R IY2
+inquisition IH2 N K W AH0 Z IH1 SH AH0 N
+inquisitive IH2 N K W IH1 Z IH0 T IH0 V
+inquisitor IH2 N K W IH1 Z AH0 T ER0
+ins IH1 N Z
+insane IH2 N S EY1 N
+insanity IH2 N S AE1 N AH0 T IY0
+insatiable IH2 N S EY1 SH AH0 B AH0 L
+inscribed IH2 N S K R AY1 B D
+inscription IH2 N S K R IH1 P SH AH0 N
+inscrutable IH2 N S K R UW1 T AH0 B AH0 L
+insect IH1 N S EH2 K T
+insecticide IH2 N S EH1 K T AH0 S AY2 D
+insects IH1 N S EH2 K T S
+insecure IH1 N S AH0 K Y ER0
+insecurities IH2 N S AH0 K Y UH1 R IH0 T IY0 Z
+insecurity IH2 N S IH0 K Y UH1 R IH0 T IY0
+insemination IH2 N S EH2 M AH0 N EY1 SH AH0 N
+insensitive IH2 N S EH1 N S AH0 T IH0 V
+insensitivity IH2 N S EH2 N S AH0 T IH1 V AH0 T IY0
+inseparable IH2 N S EH1 P ER0 AH0 B AH0 L
+insert IH2 N S ER1 T
+inserted IH2 N S ER1 T AH0 D
+inserting IH2 N S ER1 T IH0 NG
+insertion IH2 N S ER1 SH AH0 N
+inserts IH2 N S ER1 T S
+inside IH2 N S AY1 D
+insider IH2 N S AY1 D ER0
+insides IH2 N S AY1 D Z
+insidious IH2 N S IH1 D IY2 AH0 S
+insight IH1 N S AY2 T
+insightful IH1 N S AY2 T F AH0 L
+insights IH1 N S AY2 T S
+insignia IH2 N S IH1 G N IY2 AH0
+insignificant IH2 N S IH0 G N Y IH1 F IH0 K AH0 N T
+insincere IH2 N S IH0 N S IH1 R
+insinuate IH2 N S IH1 N Y UW0 EY0 T
+insinuating IH2 N S IH1 N Y UW0 EY0 T IH0 NG
+insinuation IH2 N S IH2 N Y UW0 EY1 SH AH0 N
+insinuations IH2 N S IH2 N Y UW0 EY1 SH AH0 N Z
+insipid IH2 N S IH1 P AH0 D
+insist IH2 N S IH1 S T
+insisted IH2 N S IH1 S T AH0 D
+insistence IH2 N S IH1 S T AH0 N S
+insistent IH2 N S IH1 S T AH0 N T
+insisting IH2 N S IH1 S T IH0 NG
+insists IH2 N S IH1 S T S
+insofar IH1 N S AH0 F AA0 R
+insolence IH1 N S AH0 L AH0 N S
+insolent IH1 N S AH0 L AH0 N T
+insomnia IH2 N S AA1 M N IY0 AH0
+insomniac IH2 N S AA1 M N IY0 AE2 K
+inspect IH2 N S P EH1 K T
+inspected IH2 N S P EH1 K T IH0 D
+inspecting IH2 N S P EH1 K T IH0 NG
+inspection IH2 N S P EH1 K SH AH0 N
+inspections IH2 N S P EH1 K SH AH0 N Z
+inspector IH2 N S P EH1 K T ER0
+inspectors IH2 N S P EH1 K T ER0 Z
+inspiration IH2 N S P ER0 EY1 SH AH0 N
+inspirational IH2 N S P ER0 EY1 SH AH0 N AH0 L
+inspire IH2 N S P AY1 R
+inspired IH2 N S P AY1 ER0 D
+inspires IH2 N S P AY1 R Z
+inspiring IH2 N S P AY1 R IH0 NG
+instability IH2 N S T AH0 B IH1 L IH0 T IY0
+install IH2 N S T AO1 L
+installation IH2 N S T AH0 L EY1 SH AH0 N
+installations IH2 N S T AH0 L EY1 SH AH0 N Z
+installed IH2 N S T AO1 L D
+installing IH2 N S T AO1 L IH0 NG
+installment IH2 N S T AO1 L M AH0 N T
+installments IH2 N S T AO1 L M AH0 N T S
+instance IH1 N S T AH0 N S
+instances IH1 N S T AH0 N S AH0 Z
+instant IH1 N S T AH0 N T
+instantaneous IH2 N S T AH0 N T AE1 N IY0 AH0 S
+instantaneously IH2 N S T AH0 N T AE1 N IY0 AH0 S L IY0
+instantly IH1 N S T AH0 N T L IY0
+instead IH2 N S T EH1 D
+instigated IH1 N S T AH0 G EY2 T IH0 D
+instill IH2 N S T IH1 L
+instilled IH2 N S T IH1 L D
+instinct IH1 N S T IH0 NG K T
+instinctive IH2 N S T IH1 NG K T IH0 V
+instinctively IH2 N S T IH1 NG K T IH0 V L IY2
+instincts IH1 N S T IH0 NG K T S
+institute IH1 N S T AH0 T UW2 T
+instituted IH1 N S T AH0 T UW2 T IH0 D
+institution IH2 N S T IH0 T UW1 SH AH0 N
+institutional IH2 N S T IH0 T UW1 SH AH0 N AH0 L
+institutionalized IH2 N S T IH0 T UW1 SH AH0 N AH0 L AY2 Z D
+institutions IH2 N S T IH0 T UW1 SH AH0 N Z
+instruct IH2 N S T R AH1 K T
+instructed IH2 N S T R AH1 K T AH0 D
+instructing IH2 N S T R AH1 K T IH0 NG
+instruction IH2 N S T R AH1 K SH AH0 N
+instructions IH2 N S T R AH1 K SH AH0 N Z
+instructive IH2 N S T R AH1 K T IH0 V
+instructor IH2 N S T R AH1 K T ER0
+instructors IH2 N S T R AH1 K T ER0 Z
+instrument IH1 N S T R AH0 M AH0 N T
+instrumental IH2 N S T R AH0 M EH1 N T AH0 L
+instruments IH1 N S T R AH0 M AH0 N T S
+insubordinate IH2 N S AH0 B AO1 R D AH0 N EY2 T
+insubordination IH2 N S AH0 B AO2 R D AH0 N EY1 SH AH0 N
+insubstantial IH2 N S AH0 B S T AE1 N SH AH0 L
+insufferable IH2 N S AH1 F ER0 AH0 B AH0 L
+insufficient IH2 N S AH0 F IH1 SH AH0 N T
+insulate IH1 N S AH0 L EY2 T
+insulated IH1 N S AH0 L EY2 T AH0 D
+insulation IH2 N S AH0 L EY1 SH AH0 N
+insulin IH1 N S AH0 L AH0 N
+insult IH2 N S AH1 L T
+insulted IH2 N S AH1 L T IH0 D
+insulting IH2 N S AH1 L T IH0 NG
+insults IH2 N S AH1 L T S
+insurance IH2 N SH UH1 R AH0 N S
+insure IH2 N SH UH1 R
+insured IH2 N SH UH1 R D
+insurgents IH2 N S ER1 JH AH0 N T S
+insurmountable IH2 N S ER0 M AW1 N T AH0 B AH0 L
+insurrection IH2 N S ER0 EH1 K SH AH0 N
+intact IH2 N T AE1 K T
+intake IH1 N T EY2 K
+intangible IH2 N T AE1 N JH AH0 B AH0 L
+integral IH1 N T AH0 G R AH0 L
+integrate IH1 N T AH0 G R EY2 T
+integrated IH1 N T AH0 G R EY2 T AH0 D
+integration IH2 N T AH0 G R EY1 SH AH0 N
+integrity IH2 N T EH1 G R AH0 T IY0
+intel IH2 N T EH1 L
+intellect IH1 N T AH0 L EH2 K T
+intellects IH1 N T AH0 L EH2 K T S
+intellectual IH2 N T AH0 L EH1 K CH UW0 AH0 L
+intellectually IH2 N T AH0 L EH1 K CH UW0 AH0 L IY0
+intellectuals IH2 N T AH0 L EH1 K CH UW0 AH0 L Z
+intelligence IH2 N T EH1 L AH0 JH AH0 N S
+intelligent IH2 N T EH1 L AH0 JH AH0 N T
+intelligently IH2 N T EH1 L IH0 JH AH0 N T L IY0
+intend IH2 N T EH1 N D
+intended IH2 N T EH1 N D IH0 D
+intending IH2 N T EH1 N D IH0 NG
+intends IH2 N T EH1 N D Z
+intense IH2 N T EH1 N S
+intensely IH2 N T EH1 N S L IY0
+intensifies IH0 N T EH1 N S AH0 F AY2 Z
+intensity IH0 N T EH1 N S AH0 T IY0
+intensive IH2 N T EH1 N S IH0 V
+intent IH2 N T EH1 N T
+intention IH2 N T EH1 N CH AH0 N
+intentional IH2 N T EH1 N SH AH0 N AH0 L
+intentionally IH2 N T EH1 N SH AH0 N AH0 L IY0
+intentions IH2 N T EH1 N CH AH0 N Z
+intents IH2 N T EH1 N T S
+inter IH2 N T ER1
+interact IH2 N T ER0 AE1 K T
+interacting IH2 N T ER0 AE1 K T IH0 NG
+interaction IH2 N T ER0 AE1 K SH AH0 N
+interactions IH2 N T ER0 AE1 K SH AH0 N Z
+interactive IH2 N T ER0 AE1 K T IH0 V
+interagency IH2 N T ER0 EY1 JH AH0 N S IY0
+intercede IH2 N T ER0 S IY1 D
+intercept IH2 N T ER0 S EH1 P T
+intercepted IH2 N T ER0 S EH1 P T AH0 D
+intercepting IH2 N T ER0 S EH1 P T IH0 NG
+interception IH2 N T ER0 S EH1 P SH AH0 N
+intercepts IH2 N T ER0 S EH1 P T S
+interchange IH2 N T ER0 CH EY1 N JH
+interchangeable IH2 N T ER0 CH EY1 N JH AH0 B AH0 L
+intercom IH1 N T ER0 K AA2 M
+interconnected IH2 N T ER0 K AH0 N EH1 K T IH0 D
+intercourse IH1 N T ER0 K AO2 R S
+interest IH1 N T R AH0 S T
+interested IH1 N T R AH0 S T IH0 D
+interesting IH1 N T R AH0 S T IH0 NG
+interestingly IH1 N T ER0 EH2 S T IH0 NG L IY0
+interests IH1 N T R AH0 S T S
+interface IH1 N T ER0 F EY2 S
+interfere IH2 N T ER0 F IH1 R
+interfered IH2 N T ER0 F IH1 R D
+interference IH2 N T ER0 F IH1 R AH0 N S
+interferes IH2 N T ER0 F IH1 R Z
+interfering IH2 N T ER0 F IH1 R IH0 NG
+interim IH1 N T ER0 AH0 M
+interior IH2 N T IH1 R IY0 ER0
+interiors IH2 N T IH1 R IY0 ER0 Z
+interject IH2 N T ER0 JH EH1 K T
+interlock IH2 N T ER0 L AA1 K
+interlude IH1 N T ER0 L UW2 D
+intermediary IH2 N ER0 M IY1 D IY0 EH0 R IY0
+intermediate IH2 N T ER0 M IY1 D IY0 IH0 T
+interminable IH2 N T ER1 M AH0 N AH0 B AH0 L
+intermission IH2 N T ER0 M IH1 SH AH0 N
+intermittent IH2 N T ER0 M IH1 T AH0 N T
+intern IH1 N T ER0 N
+internal IH2 N T ER1 N AH0 L
+internally IH2 N T ER1 N AH0 L IY0
+international IH2 N T ER0 N AE1 SH AH0 N AH0 L
+internationally IH2 N T ER0 N AE1 SH AH0 N AH0 L IY0
+interned IH1 N T ER2 N D
+internet IH1 N T ER0 N EH2 T
+internist IH2 N T ER1 N IH0 S T
+internment IH2 N T ER1 N M AH0 N T
+interns IH1 N T ER0 N Z
+internship IH1 N T ER0 N SH IH2 P
+interoffice IH2 N T ER0 AO1 F AH0 S
+interpersonal IH2 N T ER0 P ER1 S AH0 N AH0 L
+interplanetary IH2 N T ER0 P L AE1 N AH0 T EH2 R IY0
+interpol IH1 N T ER0 P OW2 L
+interpret IH2 N T ER1 P R AH0 T
+interpretation IH2 N T ER2 P R IH0 T EY1 SH AH0 N
+interpreted IH2 N T ER1 P R AH0 T AH0 D
+interpreter IH2 N T ER1 P R AH0 T ER0
+interpreting IH1 N T ER0 P R EH2 T IH0 NG
+interpretive IH2 N T ER1 P R AH0 T IH0 V
+interrogate IH2 N T EH1 R AH0 G EY2 T
+interrogated IH2 N T EH1 R AH0 G EY2 T IH0 D
+interrogating IH2 N T EH1 R AH0 G EY2 T IH0 NG
+interrogation IH2 N T EH2 R AH0 G EY1 SH AH0 N
+interrogations IH2 N T EH2 R AH0 G EY1 SH AH0 N Z
+interrogator IH2 N T EH1 R AH0 G EY2 T ER0
+interrupt IH2 N T ER0 AH1 P T
+interrupted IH2 N T ER0 AH1 P T IH0 D
+interrupting IH2 N T ER0 AH1 P T IH0 NG
+interruption IH2 N T ER0 AH1 P SH AH0 N
+interruptions IH2 N T ER0 AH1 P SH AH0 N Z
+interrupts IH2 N T ER0 AH1 P T S
+intersect IH2 N T ER0 S EH1 K T
+intersection IH2 N T ER0 S EH1 K SH AH0 N
+interstate IH2 N T ER0 S T EY1 T
+interstellar IH2 N T ER0 S T EH1 L ER0
+intertwined IH2 N T ER0 T W AY1 N D
+interval IH1 N T ER0 V AH0 L
+intervals IH1 N T ER0 V AH0 L Z
+intervene IH2 N T ER0 V IY1 N
+intervened IH2 N T ER0 V IY1 N D
+intervening IH2 N T ER0 V IY1 N IH0 NG
+intervention IH2 N T ER0 V EH1 N SH AH0 N
+interview IH1 N T ER0 V Y UW2
+interviewed IH1 N T ER0 V Y UW2 D
+interviewer IH1 N T ER0 V Y UW2 ER0
+interviewing IH1 N T ER0 V Y UW2 IH0 NG
+interviews IH1 N T ER0 V Y UW2 Z
+intestinal IH0 N T EH1 S T AH0 N AH0 L
+intestine IH2 N T EH1 S T AH0 N
+intestines IH2 N T EH1 S T AH0 N Z
+intimacy IH1 N T AH0 M AH0 S IY0
+intimate IH1 N T AH0 M AH0 T
+intimately IH1 N T AH0 M AH0 T L IY0
+intimidate IH2 N T IH1 M IH0 D EY2 T
+intimidated IH2 N T IH1 M IH0 D EY2 T IH0 D
+intimidating IH2 N T IH1 M IH0 D EY2 T IH0 NG
+intimidation IH2 N T IH2 M IH0 D EY1 SH AH0 N
+into IH1 N T UW0
+intolerable IH2 N T AA1 L ER0 AH0 B AH0 L
+intolerance IH2 N T AA1 L ER0 AH0 N S
+intolerant IH2 N T AA1 L ER0 AH0 N T
+intoxicated IH0 N T AA1 K S AH0 K EY2 T IH0 D
+intoxicating IH2 N T AA1 K S IH0 K EY2 T IH0 NG
+intoxication IH2 N T AA2 K S AH0 K EY1 SH AH0 N
+intracranial IH2 N T R AH0 K R EY1 N IY0 AH0 L
+intravenous IH2 N T R AH0 V IY1 N AH0 S
+intrepid IH0 N T R EH1 P AH0 D
+intricacies IH1 N T R AH0 K AH0 S IY0 Z
+intricate IH1 N T R AH0 K AH0 T
+intrigue IH2 N T R IY1 G
+intrigued IH1 N T R IY0 G D
+intrigues IH2 N T R IY1 G Z
+intriguing IH2 N T R IY1 G IH0 NG
+intro IH1 N T R OW0
+introduce IH2 N T R AH0 D UW1 S
+introduced IH2 N T R AH0 D UW1 S T
+introduces IH2 N T R AH0 D UW1 S IH0 Z
+introducing IH2 N T R AH0 D UW1 S IH0 NG
+introduction IH2 N T R AH0 D AH1 K SH AH0 N
+introductions IH2 N T R AH0 D AH1 K SH AH0 N Z
+introductory IH2 N T R AH0 D AH1 K T ER0 IY0
+introspective IH2 N T R AH0 S P EH1 K T IH0 V
+intrude IH2 N T R UW1 D
+intruded IH2 N T R UW1 D AH0 D
+intruder IH2 N T R UW1 D ER0
+intruders IH2 N T R UW1 D ER0 Z
+intruding IH2 N T R UW1 D IH0 NG
+intrusion IH2 N T R UW1 ZH AH0 N
+intrusive IH2 N T R UW1 S IH0 V
+intuition IH2 N T UW0 IH1 SH AH0 N
+intuitive IH2 N T UW1 AH0 T IH0 V
+invade IH2 N V EY1 D
+invaded IH2 N V EY1 D AH0 D
+invader IH2 N V EY1 D ER0
+invaders IH2 N V EY1 D ER0 Z
+invades IH2 N V EY1 D Z
+invading IH2 N V EY1 D IH0 NG
+invalid IH1 N V AH0 L AH0 D
+invalidate IH2 N V AE1 L IH0 D EY2 T
+invaluable IH2 N V AE1 L Y AH0 B AH0 L
+invariably IH2 N V EH1 R IY0 AH0 B L IY0
+invasion IH2 N V EY1 ZH AH0 N
+invasive IH2 N V EY1 S IH0 V
+invent IH2 N V EH1 N T
+invented IH2 N V EH1 N T AH0 D
+inventing IH2 N V EH1 N T IH0 NG
+invention IH2 N V EH1 N SH AH0 N
+inventions IH2 N V EH1 N SH AH0 N Z
+inventive IH2 N V EH1 N T IH0 V
+inventor IH2 N V EH1 N T ER0
+inventors IH2 N V EH1 N T ER0 Z
+inventory IH2 N V AH0 N T AO1 R IY0
+invents IH2 N V EH1 N T S
+inverse IH2 N V ER1 S
+inverted IH2 N V ER1 T IH0 D
+invest IH2 N V EH1 S T
+invested IH2 N V EH1 S T AH0 D
+investigate IH2 N V EH1 S T AH0 G EY2 T
+investigated IH2 N V EH1 S T AH0 G EY2 T AH0 D
+investigating IH2 N V EH1 S T AH0 G EY2 T IH0 NG
+investigation IH2 N V EH2 S T AH0 G EY1 SH AH0 N
+investigations IH2 N V EH2 S T AH0 G EY1 SH AH0 N Z
+investigative IH2 N V EH1 S T AH0 G EY2 T IH0 V
+investigator IH2 N V EH1 S T AH0 G EY2 T ER0
+investigators IH2 N V EH1 S T AH0 G EY2 T ER0 Z
+investing IH2 N V EH1 S T IH0 NG
+investment IH2 N V EH1 S T M AH0 N T
+investments IH2 N V EH1 S T M AH0 N T S
+investor IH2 N V EH1 S T ER0
+investors IH2 N V EH1 S T ER0 Z
+invigorating IH2 N V IH1 G ER0 EY2 T IH0 NG
+invincible IH2 N V IH1 N S AH0 B AH0 L
+invisibility IH2 N V IH2 Z AH0 B IH1 L AH0 T IY0
+invisible IH2 N V IH1 Z AH0 B AH0 L
+invitation IH2 N V IH0 T EY1 SH AH0 N
+invitations IH2 N V IH0 T EY1 SH AH0 N Z
+invite IH2 N V AY1 T
+invited IH2 N V AY1 T AH0 D
+invites IH2 N V AY1 T S
+inviting IH2 N V AY1 T IH0 NG
+invoice IH1 N V OY0 S
+invoices IH1 N V OY0 S IH0 Z
+invoke IH2 N V OW1 K
+invoked IH2 N V OW1 K T
+invoking IH2 N V OW1 K IH0 NG
+involuntarily IH2 N V OW0 L AH1 N T ER0 IH2 L IY0
+involuntary IH2 N V AA1 L AH0 N T EH2 R IY0
+involve IH2 N V AA1 L V
+involved IH2 N V AA1 L V D
+involvement IH2 N V AA1 L V M AH0 N T
+involves IH2 N V AA1 L V Z
+involving IH2 N V AA1 L V IH0 NG
+invulnerable IH2 N V AH1 L N ER0 AH0 B AH0 L
+inward IH1 N W ER0 D
+io AY1 OW0
+iodine AY1 AH0 D AY2 N
+ion AY1 AH0 N
+iota AY2 OW1 T AH0
+iowa AY1 AH0 W AH0
+ira AY1 R AH0
+iran IH2 R AA1 N
+iraq IH2 R AA1 K
+irate AY0 R EY1 T
+ire AY1 R
+ireland AY1 ER0 L AH0 N D
+irene AY0 R IY1 N
+iris AY1 R AH0 S
+irises AY1 R AH0 S IH0 Z
+irish AY1 R IH0 SH
+iron AY1 ER0 N
+ironclad AY1 ER0 N K L AE2 D
+ironed AY1 ER0 N D
+ironic AY0 R AA1 N IH0 K
+ironically AY0 R AA1 N IH0 K L IY0
+ironies AY1 R AH0 N IY0 Z
+ironing AY1 ER0 N IH0 NG
+irons AY1 ER0 N Z
+irony AY1 R AH0 N IY0
+irrational IH2 R AE1 SH AH0 N AH0 L
+irrefutable IH2 R AH0 F Y UW1 T AH0 B AH0 L
+irregular IH2 R EH1 G Y AH0 L ER0
+irregularities IH2 R EH0 G Y AH0 L EH1 R AH0 T IY0 Z
+irregularity IH2 R EH2 G Y AH0 L EH1 R AH0 T IY0
+irrelevant IH2 R EH1 L AH0 V AH0 N T
+irreparable IH2 R EH1 P ER0 AH0 B AH0 L
+irreplaceable IH2 R AH0 P L EY1 S AH0 B AH0 L
+irresistible IH2 R IH0 Z IH1 S T AH0 B AH0 L
+irresponsible IH2 R AH0 S P AA1 N S AH0 B AH0 L
+irreversible IH2 R IH0 V ER1 S AH0 B AH0 L
+irrevocable IH2 R EH1 V AH0 K AH0 B AH0 L
+irrevocably IH2 R EH1 V AH0 K AH0 B L IY0
+irrigate IH1 R AH0 G EY2 T
+irrigation IH2 R AH0 G EY1 SH AH0 N
+irritable IH1 R AH0 T AH0 B AH0 L
+irritate IH1 R IH0 T EY2 T
+irritated IH1 R AH0 T EY2 T AH0 D
+irritates IH1 R IH0 T EY2 T S
+irritating IH1 R AH0 T EY2 T IH0 NG
+irritation IH2 R IH0 T EY1 SH AH0 N
+irs AY1 AA2 R EH1 S
+is IH1 Z
+isaac AY1 Z AH0 K
+isabel IH1 Z AH0 B EH2 L
+isabella IH2 Z AH0 B EH1 L AH0
+isaiah AY2 Z EY1 AH0
+ischemic IH2 S K EH1 M IH0 K
+ish IH1 SH
+ishmael IH1 SH M IY0 L
+island AY1 L AH0 N D
+islanders AY1 L AH0 N D ER0 Z
+islands AY1 L AH0 N D Z
+isle AY1 L
+isn't IH1 Z AH0 N T
+isolate AY1 S AH0 L EY2 T
+isolated AY1 S AH0 L EY2 T AH0 D
+isolating AY1 S AH0 L EY2 T IH0 NG
+isolation AY2 S AH0 L EY1 SH AH0 N
+isolde IH0 S OW1 L D AH0
+isotope AY1 S AH0 T OW2 P
+isotopes AY1 S AH0 T OW2 P S
+israel IH1 Z R IY0 AH0 L
+issue IH1 SH UW0
+issued IH1 SH UW0 D
+issues IH1 SH UW0 Z
+issuing IH1 SH UW0 IH0 NG
+istanbul IH2 S T AA0 N B UW1 L
+it IH1 T
+it's IH1 T S
+italian IH2 T AE1 L Y AH0 N
+italians IH2 T AE1 L Y AH0 N Z
+italy IH1 T AH0 L IY0
+itch IH1 CH
+itches IH1 CH AH0 Z
+itching IH1 CH IH0 NG
+itchy IH1 CH IY0
+item AY1 T AH0 M
+items AY1 T AH0 M Z
+itinerary AY0 T IH1 N ER0 EH2 R IY0
+its IH1 T S
+itself IH2 T S EH1 L F
+ivory AY1 V ER0 IY0
+ivy AY1 V IY0
+j JH EY1
+ja Y AA1
+jab JH AE1 B
+jabbing JH AE1 B IH0 NG
+jabs JH AE1 B Z
+jack JH AE1 K
+jackal JH AE1 K AH0 L
+jackass JH AE1 K AE2 S
+jacked JH AE1 K T
+jacket JH AE1 K AH0 T
+jackets JH AE1 K IH0 T S
+jackhammer JH AE1 K HH AE2 M ER0
+jackie JH AE1 K IY0
+jacking JH AE1 K IH0 NG
+jackman JH AE1 K M AH0 N
+jacko JH AE1 K OW0
+jackpot JH AE1 K P AA2 T
+jackrabbit JH AE1 K R AE2 B AH0 T
+jacks JH AE1 K S
+jackson JH AE1 K S AH0 N
+jacksonville JH AE1 K S AH0 N V IH2 L
+jacky JH AE1 K IY0
+jacob JH EY1 K AH0 B
+jacoby JH AH0 K OW1 B IY0
+jacqueline JH AE1 K W AH0 L IH0 N
+jade JH EY1 D
+jaded JH EY1 D AH0 D
+jagged JH AE1 G D
+jagger JH AE1 G ER0
+jaguar JH AE1 G W AA2 R
+jaguars JH AE1 G W AA2 R Z
+jai JH AY1
+jail JH EY1 L
+jailbreak JH EY1 L B R EY2 K
+jailed JH EY1 L D
+jailer JH EY1 L ER0
+jailhouse JH EY1 L HH AW2 S
+jails JH EY1 L Z
+jake JH EY1 K
+jalopy JH AH0 L AA1 P IY0
+jam JH AE1 M
+jamaica JH AH0 M EY1 K AH0
+jamaican JH AH0 M EY1 K AH0 N
+jamaicans JH AH0 M EY1 K AH0 N Z
+james JH EY1 M Z
+jameson JH EY1 M S AH0 N
+jammed JH AE1 M D
+jammer JH AE1 M ER0
+jamming JH AE1 M IH0 NG
+jams JH AE1 M Z
+jane JH EY1 N
+janeiro JH AH0 N EH1 R OW2
+janet JH AE1 N AH0 T
+jangle JH AE1 NG G AH0 L
+janitor JH AE1 N AH0 T ER0
+janitorial JH AE2 N IH0 T AO1 R IY0 AH0 L
+janitors JH AE1 N AH0 T ER0 Z
+january JH AE1 N Y UW0 EH2 R IY0
+janus JH EY1 N AH0 S
+jap JH AE1 P
+japan JH AH0 P AE1 N
+japanese JH AE2 P AH0 N IY1 Z
+jar JH AA1 R
+jargon JH AA1 R G AH0 N
+jars JH AA1 R Z
+jasmin JH AE1 Z M IH0 N
+jasmine JH AE1 Z M AH0 N
+jason JH EY1 S AH0 N
+jasper JH AE1 S P ER0
+jaundice JH AO1 N D AH0 S
+jaunt JH AO1 N T
+java JH AA1 V AH0
+javelin JH AE1 V AH0 L AH0 N
+jaw JH AO1
+jawbone JH AO1 B OW2 N
+jaws JH AO1 Z
+jay JH EY1
+jays JH EY1 Z
+jaywalking JH EY1 W AO2 K IH0 NG
+jazz JH AE1 Z
+jazzed JH AE1 Z D
+jazzy JH AE1 Z IY0
+jealous JH EH1 L AH0 S
+jealousy JH EH1 L AH0 S IY0
+jean JH IY1 N
+jeans JH IY1 N Z
+jed JH EH1 D
+jeep JH IY1 P
+jeeps JH IY1 P S
+jeering JH IY1 R IH0 NG
+jeez JH IY1 Z
+jeff JH EH1 F
+jefferson JH EH1 F ER0 S AH0 N
+jeffersonian JH EH2 F ER0 S OW1 N IY0 AH0 N
+jehovah JH AH0 HH OW1 V AH0
+jekyll JH EH1 K AH0 L
+jellies JH EH1 L IY0 Z
+jello JH EH1 L OW0
+jelly JH EH1 L IY0
+jellyfish JH EH1 L IY0 F IH2 SH
+jemima JH EH0 M IY1 M AH0
+jen JH EH1 N
+jenna JH EH1 N AH0
+jennie JH EH1 N IY0
+jenny JH EH1 N IY0
+jeopardize JH EH1 P ER0 D AY2 Z
+jeopardized JH EH1 P ER0 D AY2 Z D
+jeopardizing JH EH1 P ER0 D AY2 Z IH0 NG
+jeopardy JH EH1 P ER0 D IY0
+jeremiah JH EH2 R AH0 M AY1 AH0
+jeremy JH EH1 R AH0 M IY2
+jericho JH EH1 R IH0 K OW2
+jerk JH ER1 K
+jerked JH ER1 K T
+jerking JH ER1 K IH0 NG
+jerks JH ER1 K S
+jerky JH ER1 K IY0
+jerry JH EH1 R IY0
+jersey JH ER1 Z IY0
+jerseys JH ER1 Z IY0 Z
+jerusalem JH ER0 UW1 S AH0 L AH0 M
+jess JH EH1 S
+jesse JH EH1 S IY0
+jest JH EH1 S T
+jester JH EH1 S T ER0
+jesters JH EH1 S T ER0 Z
+jesuit JH EH1 ZH UW0 IH0 T
+jesuits JH EH1 ZH UW0 IH0 T S
+jesus JH IY1 Z AH0 S
+jet JH EH1 T
+jets JH EH1 T S
+jettison JH EH1 T IH0 S AH0 N
+jetty JH EH1 T IY0
+jew JH UW1
+jewel JH UW1 AH0 L
+jeweler JH UW1 AH0 L ER0
+jewelers JH UW1 AH0 L ER0 Z
+jewelry JH UW1 AH0 L R IY0
+jewels JH UW1 AH0 L Z
+jewish JH UW1 IH0 SH
+jews JH UW1 Z
+jib JH IH1 B
+jibe JH AY1 B
+jiffy JH IH1 F IY0
+jig JH IH1 G
+jiggle JH IH1 G AH0 L
+jiggling JH IH1 G AH0 L IH0 NG
+jigsaw JH IH1 G S AO2
+jihad JH IY1 HH AE0 D
+jill JH IH1 L
+jilted JH IH1 L T IH0 D
+jim JH IH1 M
+jimmy JH IH1 M IY0
+jin JH IH1 N
+jing JH IH1 NG
+jingle JH IH1 NG G AH0 L
+jingles JH IH1 NG G AH0 L Z
+jinks JH IH1 NG K S
+jinx JH IH1 NG K S
+jitterbug JH IH1 T ER0 B AH2 G
+jitters JH IH1 T ER0 Z
+jittery JH IH1 T ER0 IY0
+jive JH AY1 V
+jo JH OW1
+joan JH OW1 N
+job JH AA1 B
+jobless JH AA1 B L AH0 S
+jobs JH AA1 B Z
+jock JH AA1 K
+jockey JH AA1 K IY0
+jockeys JH AA1 K IY0 Z
+jocks JH AA1 K S
+joe JH OW1
+joel JH OW1 AH0 L
+joes JH OW1 Z
+joey JH OW1 IY0
+jog JH AA1 G
+jogger JH AA1 G ER0
+jogging JH AA1 G IH0 NG
+jogs JH AA1 G Z
+johannesburg JH OW2 HH AE1 N IH0 S B ER0 G
+john JH AA1 N
+johnnie JH AA1 N IY0
+johnny JH AA1 N IY0
+johns JH AA1 N Z
+johnson JH AA1 N S AH0 N
+joie ZH W AA1
+join JH OY1 N
+joined JH OY1 N D
+joiner JH OY1 N ER0
+joining JH OY1 N IH0 NG
+joins JH OY1 N Z
+joint JH OY1 N T
+joints JH OY1 N T S
+joke JH OW1 K
+joked JH OW1 K T
+joker JH OW1 K ER0
+jokers JH OW1 K ER0 Z
+jokes JH OW1 K S
+joking JH OW1 K IH0 NG
+jollies JH AA1 L IY0 Z
+jolly JH AA1 L IY0
+jolt JH OW1 L T
+jonah JH OW1 N AH0
+jonathan JH AA1 N AH0 TH AH0 N
+jones JH OW1 N Z
+jordan JH AO1 R D AH0 N
+jordans JH AO1 R D AH0 N Z
+jose HH OW2 Z EY1
+joseph JH OW1 S AH0 F
+josephine JH OW1 S AH0 F IY2 N
+josey JH OW1 Z IY0
+josh JH AA1 SH
+joshua JH AA1 SH UW2 AH0
+josie JH OW1 Z IY0
+joss JH AO1 S
+jot JH AA1 T
+jotted JH AA1 T IH0 D
+joules JH UW1 L Z
+jour JH UW1 R
+journal JH ER1 N AH0 L
+journalism JH ER1 N AH0 L IH2 Z AH0 M
+journalist JH ER1 N AH0 L AH0 S T
+journalistic JH ER2 N AH0 L IH1 S T IH0 K
+journalists JH ER1 N AH0 L AH0 S T S
+journals JH ER1 N AH0 L Z
+journey JH ER1 N IY0
+journeyed JH ER1 N IY0 D
+journeys JH ER1 N IY0 Z
+joust JH AW1 S T
+jousting JH AW1 S T IH0 NG
+jowls JH AW1 L Z
+joy JH OY1
+joyce JH OY1 S
+joyful JH OY1 F AH0 L
+joyous JH OY1 AH0 S
+joyride JH OY1 R AY2 D
+joys JH OY1 Z
+joystick JH OY1 S T IH2 K
+jr JH UW1 N Y ER0
+juan W AA1 N
+jubilee JH UW1 B AH0 L IY2
+judah JH UW1 D AH0
+judaism JH UW1 D EY0 IH2 Z AH0 M
+judas JH UW1 D AH0 S
+jude JH UW1 D
+judge JH AH1 JH
+judged JH AH1 JH D
+judgement JH AH1 JH M AH0 N T
+judges JH AH1 JH IH0 Z
+judging JH AH1 JH IH0 NG
+judgment JH AH1 JH M AH0 N T
+judgmental JH AH0 JH M EH1 N T AH0 L
+judgments JH AH1 JH M AH0 N T S
+judicial JH UW0 D IH1 SH AH0 L
+judith JH UW1 D AH0 TH
+judo JH UW1 D OW2
+judy JH UW1 D IY0
+jug JH AH1 G
+juggernaut JH AH1 G ER0 N AO2 T
+juggle JH AH1 G AH0 L
+juggler JH AH1 G AH0 L ER0
+juggling JH AH1 G AH0 L IH0 NG
+jugs JH AH1 G Z
+jugular JH UW1 G Y AH0 L ER0
+juice JH UW1 S
+juices JH UW1 S AH0 Z
+juicy JH UW1 S IY0
+jujitsu JH UW0 JH IH1 T S UW2
+juju JH UW1 JH UW0
+juke JH UW1 K
+jukebox JH UW1 K B AA2 K S
+julep JH UW1 L AH0 P
+julian JH UW1 L IY0 AH0 N
+juliet JH UW1 L IY0 EH2 T
+julio JH UW1 L IY0 OW0
+julius JH UW1 L Y AH0 S
+july JH UW2 L AY1
+jumble JH AH1 M B AH0 L
+jumbled JH AH1 M B AH0 L D
+jumbo JH AH1 M B OW0
+jump JH AH1 M P
+jumped JH AH1 M P T
+jumper JH AH1 M P ER0
+jumpers JH AH1 M P ER0 Z
+jumping JH AH1 M P IH0 NG
+jumps JH AH1 M P S
+jumpsuit JH AH1 M P S UW2 T
+jumpsuits JH AH1 M P S UW2 T S
+jumpy JH AH1 M P IY0
+jun JH AH1 N
+junco JH AH1 NG K OW0
+junction JH AH1 NG K SH AH0 N
+juncture JH AH1 NG K CH ER0
+june JH UW1 N
+jungle JH AH1 NG G AH0 L
+jungles JH AH1 NG G AH0 L Z
+junior JH UW1 N Y ER0
+juniors JH UW1 N Y ER0 Z
+juniper JH UW1 N AH0 P ER0
+junk JH AH1 NG K
+junket JH AH1 NG K IH0 T
+junkie JH AH1 NG K IY0
+junkies JH AH1 NG K IY0 Z
+junky JH AH1 NG K IY0
+junkyard JH AH1 NG K Y AA2 R D
+junta HH UH1 N T AH0
+jupiter JH UW1 P AH0 T ER0
+jurassic JH UH0 R AE1 S IH0 K
+juries JH UH1 R IY0 Z
+jurisdiction JH UH2 R AH0 S D IH1 K SH AH0 N
+juror JH UH1 R ER0
+jurors JH UH1 R ER0 Z
+jury JH UH1 R IY0
+jus JH UW1
+just JH AH1 S T
+justice JH AH1 S T AH0 S
+justices JH AH1 S T AH0 S AH0 Z
+justifiable JH AH1 S T AH0 F AY2 AH0 B AH0 L
+justification JH AH2 S T AH0 F AH0 K EY1 SH AH0 N
+justified JH AH1 S T AH0 F AY2 D
+justifies JH AH1 S T AH0 F AY2 Z
+justify JH AH1 S T AH0 F AY2
+justly JH AH1 S T L IY0
+juvenile JH UW1 V AH0 N AH0 L
+juveniles JH UW1 V AH0 N AH0 L Z
+k K EY1
+ka K AA1
+kabuki K AH0 B UW1 K IY2
+kafka K AA1 F K AH0
+kahuna K AH0 HH UW1 N AH0
+kai K AY1
+kaiser K AY1 Z ER0
+kale K EY1 L
+kaleidoscope K AH0 L AY1 D AH0 S K OW2 P
+kali K AA1 L IY2
+kam K AE1 M
+kama K AA1 M AH0
+kamikaze K AA2 M AH0 K AA1 Z IY0
+kan K AE1 N
+kana K AE1 N AH0
+kane K EY1 N
+kang K AE1 NG
+kangaroo K AE2 NG G ER0 UW1
+kangaroos K AE2 NG G ER0 UW1 Z
+kansas K AE1 N Z AH0 S
+kant K AE1 N T
+kappa K AE1 P AH0
+karaoke K EH2 R IY0 OW1 K IY0
+karate K ER0 AA1 T IY0
+karen K EH1 R AH0 N
+karma K AA1 R M AH0
+karst K AA1 R S T
+kashmir K AE1 SH M IH0 R
+kat K AE1 T
+kath K AE1 TH
+katharine K AE1 TH R IH0 N
+katherine K AE1 TH ER0 IH0 N
+kathy K AE1 TH IY0
+katrina K AH0 T R IY1 N AH0
+kay K EY1
+kayak K AY1 AE0 K
+kayo K EY0 OW1
+kazoo K AH0 Z UW1
+keats K IY1 T S
+kebab K AH0 B AA1 B
+keel K IY1 L
+keeler K IY1 L ER0
+keen K IY1 N
+keenly K IY1 N L IY0
+keep K IY1 P
+keeper K IY1 P ER0
+keepers K IY1 P ER0 Z
+keeping K IY1 P IH0 NG
+keeps K IY1 P S
+keepsake K IY1 P S EY2 K
+keg K EH1 G
+kegs K EH1 G Z
+keister K IY1 IH0 S T ER0
+kelly K EH1 L IY0
+kelp K EH1 L P
+kelvin K EH1 L V AH0 N
+kemp K EH1 M P
+ken K EH1 N
+kennedy K EH1 N AH0 D IY0
+kennel K EH1 N AH0 L
+kennels K EH1 N AH0 L Z
+kenner K EH1 N ER0
+kenny K EH1 N IY2
+keno K IY1 N OW0
+kensington K EH1 N Z IH0 NG T AH0 N
+kent K EH1 N T
+kentucky K AH0 N T AH1 K IY0
+kenya K EH1 N Y AH0
+kept K EH1 P T
+kerb K ER1 B
+kerchief K ER1 CH AH0 F
+kern K ER1 N
+kernel K ER1 N AH0 L
+kerosene K EH1 R AH0 S IY2 N
+kerry K EH1 R IY0
+kersey K ER1 S IY0
+ketchup K EH1 CH AH0 P
+kettle K EH1 T AH0 L
+key K IY1
+keyboard K IY1 B AO2 R D
+keyboards K IY1 B AO2 R D Z
+keyed K IY1 D
+keyhole K IY1 HH OW2 L
+keyholes K IY1 HH OW2 L Z
+keynote K IY1 N OW2 T
+keypad K IY1 P AE2 D
+keys K IY1 Z
+keystone K IY1 S T OW2 N
+keyword K IY1 W ER2 D
+khaki K AA1 K IY0
+khakis K AE1 K IY0 Z
+khan K AA1 N
+khmer K M EH1 R
+khrushchev K R UW1 S CH EH2 V
+ki K IY1
+kibble K IH1 B AH0 L
+kick K IH1 K
+kickback K IH1 K B AE2 K
+kickbacks K IH1 K B AE2 K S
+kicked K IH1 K T
+kicker K IH1 K ER0
+kicking K IH1 K IH0 NG
+kickoff K IH1 K AO2 F
+kicks K IH1 K S
+kid K IH1 D
+kidded K IH1 D IH0 D
+kidder K IH1 D ER0
+kiddie K IH1 D IY0
+kiddies K IH1 D IY0 Z
+kidding K IH1 D IH0 NG
+kiddy K IH1 D IY0
+kidnap K IH1 D N AE2 P
+kidnapped K IH1 D N AE2 P T
+kidnapper K IH1 D N AE2 P ER0
+kidnappers K IH1 D N AE2 P ER0 Z
+kidnapping K IH1 D N AE2 P IH0 NG
+kidnappings K IH1 D N AE2 P IH0 NG Z
+kidnaps K IH1 D N AE2 P S
+kidney K IH1 D N IY0
+kidneys K IH1 D N IY0 Z
+kids K IH1 D Z
+kiev K IY2 EH1 V
+kiki K IY1 K IY0
+kill K IH1 L
+killed K IH1 L D
+killer K IH1 L ER0
+killers K IH1 L ER0 Z
+killing K IH1 L IH0 NG
+killings K IH1 L IH0 NG Z
+killjoy K IH1 L JH OY0
+kills K IH1 L Z
+kiln K IH1 L N
+kilo K IH1 L OW2
+kilogram K IH1 L AH0 G R AE2 M
+kilometer K AH0 L AA1 M AH0 T ER0
+kilometers K AH0 L AA1 M AH2 T ER0 Z
+kilometres K IH2 L AO1 M AH2 T ER0 Z
+kilos K IY1 L OW2 Z
+kilowatt K IH1 L AH0 W AA2 T
+kilt K IH1 L T
+kim K IH1 M
+kimchi K IH1 M CH IY0
+kimono K AH0 M OW1 N AH0
+kimura K IY0 M UH1 R AH0
+kin K IH1 N
+kind K AY1 N D
+kinda K IH1 N D AH0
+kinder K AY1 N D ER0
+kindergarten K IH1 N D ER0 G AA2 R T AH0 N
+kindest K AY1 N D AH0 S T
+kindling K IH1 N D L IH0 NG
+kindly K AY1 N D L IY0
+kindness K AY1 N D N AH0 S
+kindred K IH1 N D R IH0 D
+kinds K AY1 N D Z
+kinetic K AH0 N EH1 T IH0 K
+king K IH1 NG
+kingdom K IH1 NG D AH0 M
+kingdoms K IH1 NG D AH0 M Z
+kingpin K IH1 NG P IH2 N
+kings K IH1 NG Z
+kingston K IH1 NG S T AH0 N
+kinks K IH1 NG K S
+kinky K IH1 NG K IY0
+kinship K IH1 N SH IH2 P
+kinsman K IH1 N Z M AE2 N
+kiosk K IY1 AO2 S K
+kip K IH1 P
+kipper K IH1 P ER0
+kippers K IH1 P ER0 Z
+kippur K IH1 P ER0
+kirby K ER1 B IY0
+kirk K ER1 K
+kirsch K ER1 SH
+kismet K IH1 Z M IH0 T
+kiss K IH1 S
+kissed K IH1 S T
+kisser K IH1 S ER0
+kisses K IH1 S AH0 Z
+kissing K IH1 S IH0 NG
+kit K IH1 T
+kitchen K IH1 CH AH0 N
+kitchenette K IH2 CH AH0 N EH1 T
+kitchens K IH1 CH AH0 N Z
+kite K AY1 T
+kites K AY1 T S
+kits K IH1 T S
+kitsch K IH1 CH
+kitten K IH1 T AH0 N
+kittens K IH1 T AH0 N Z
+kitty K IH1 T IY0
+kiwi K IY1 W IY0
+klan K L AE1 N
+kleenex K L IY1 N AH0 K S
+klutz K L AH1 T S
+knack N AE1 K
+knapsack N AE1 P S AE2 K
+knave N EY1 V
+knee N IY1
+kneecap N IY1 K AE2 P
+kneecaps N IY1 K AE2 P S
+kneel N IY1 L
+kneeling N IY1 L IH0 NG
+knees N IY1 Z
+knell N EH1 L
+knelt N EH1 L T
+knew N UW1
+knick N IH1 K
+knickers N IH1 K ER0 Z
+knickknacks N IH1 K N AE2 K S
+knife N AY1 F
+knifed N AY1 F T
+knight N AY1 T
+knighted N AY1 T IH0 D
+knighthood N AY1 T HH UH2 D
+knights N AY1 T S
+knit N IH1 T
+knitted N IH1 T AH0 D
+knitting N IH1 T IH0 NG
+knives N AY1 V Z
+knob N AA1 B
+knobs N AA1 B Z
+knock N AA1 K
+knockdown N AA1 K D AW2 N
+knocked N AA1 K T
+knocking N AA1 K IH0 NG
+knockoff N AA1 K AO2 F
+knockoffs N AA1 K AO2 F S
+knockout N AA1 K AW2 T
+knocks N AA1 K S
+knoll N OW1 L
+knot N AA1 T
+knots N AA1 T S
+knotted N AA1 T IH0 D
+know N OW1
+knowing N OW1 IH0 NG
+knowingly N OW1 IH0 NG L IY0
+knowledge N AA1 L AH0 JH
+knowledgeable N AA1 L AH0 JH AH0 B AH0 L
+known N OW1 N
+knows N OW1 Z
+knox N AA1 K S
+knoxville N AA1 K S V IH0 L
+knuckle N AH1 K AH0 L
+knuckles N AH1 K AH0 L Z
+ko K OW1
+koala K OW0 AA1 L AH0
+kodak K OW1 D AE2 K
+kodiak K OW1 D IY0 AE2 K
+kojima K AH0 Y AY1 M AH0
+koko K OW1 K OW0
+kona K OW1 N AH0
+kondo K AA1 N D OW0
+kong K AO1 NG
+kook K UW1 K
+kooks K UW1 K S
+kooky K UW1 K IY0
+koran K AO0 R AA1 N
+korea K AO2 R IY1 AH0
+korean K AO2 R IY1 AH0 N
+koreans K AO2 R IY1 AH0 N Z
+kosher K OW1 SH ER0
+kowtow K AW1 T AW1
+kraft K R AE1 F T
+kraut K R AW1 T
+kremlin K R EH1 M L AH0 N
+kris K R IH1 S
+krishna K R IH1 SH N AH0
+krispies K R IH1 S P IY0 Z
+kriss K R IH1 S
+kronos K R OW1 N OW0 S
+krypton K R IH1 P T AA0 N
+kryptonite K R IH1 P T AH0 N AY2 T
+kuan K W AA1 N
+kudos K UW1 D OW0 S
+kumquat K AH1 M K W AA0 T
+kung K AH1 NG
+kuwait K UW0 W EY1 T
+kwan K W AA1 N
+kyle K AY1 L
+kylie K AY1 L IY2
+kyoto K Y OW1 T OW0
+l EH1 L
+la L AA1
+lab L AE1 B
+label L EY1 B AH0 L
+labeled L EY1 B AH0 L D
+labeling L EY1 B AH0 L IH0 NG
+labelled L EY1 B AH0 L D
+labels L EY1 B AH0 L Z
+labor L EY1 B ER0
+laboratories L AE1 B R AH0 T AO2 R IY0 Z
+laboratory L AE1 B R AH0 T AO2 R IY0
+labored L EY1 B ER0 D
+laborer L EY1 B ER0 ER0
+laborers L EY1 B ER0 ER0 Z
+laboring L EY1 B ER0 IH0 NG
+labors L EY1 B ER0 Z
+labour L EY1 B ER0
+labrador L AE1 B R AH0 D AO2 R
+labs L AE1 B Z
+labyrinth L AE1 B ER0 IH2 N TH
+lac L AE1 K
+lace L EY1 S
+laced L EY1 S T
+laceration L AE2 S ER0 EY1 SH AH0 N
+lacerations L AE2 S ER0 EY1 SH AH0 N Z
+laces L EY1 S AH0 Z
+lacey L EY1 S IY0
+lack L AE1 K
+lacked L AE1 K T
+lackey L AE1 K IY0
+lackeys L AE1 K IY0 Z
+lacking L AE1 K IH0 NG
+lacks L AE1 K S
+lacquer L AE1 K ER0
+lacrosse L AH0 K R AO1 S
+lactose L AE1 K T OW0 S
+lacy L EY1 S IY0
+lad L AE1 D
+ladder L AE1 D ER0
+ladders L AE1 D ER0 Z
+laden L EY1 D AH0 N
+ladies L EY1 D IY0 Z
+ladle L EY1 D AH0 L
+ladles L EY1 D AH0 L Z
+lads L AE1 D Z
+lady L EY1 D IY0
+ladybug L EY1 D IY0 B AH2 G
+ladylike L EY1 D IY0 L AY2 K
+lafayette L AA2 F IY0 EH1 T
+lag L AE1 G
+lager L AA1 G ER0
+lagging L AE1 G IH0 NG
+lagoon L AH0 G UW1 N
+laguna L AH0 G UW1 N AH0
+lai L AY1
+laid L EY1 D
+lain L EY1 N
+lair L EH1 R
+laird L EH1 R D
+lake L EY1 K
+laker L EY1 K ER0
+lakers L EY1 K ER0 Z
+lakes L EY1 K S
+lakeside L EY1 K S AY2 D
+lam L AE1 M
+lama L AA1 M AH0
+lamb L AE1 M
+lambert L AE1 M B ER0 T
+lambs L AE1 M Z
+lame L EY1 M
+lament L AH0 M EH1 N T
+laminated L AE1 M AH0 N EY2 T AH0 D
+lamp L AE1 M P
+lamppost L AE1 M P P OW2 S T
+lamps L AE1 M P S
+lan L AE1 N
+lancaster L AE1 N K AE2 S T ER0
+lance L AE1 N S
+lancelot L AE1 N S AH0 L AA2 T
+lancer L AE1 N S ER0
+lancers L AE1 N S ER0 Z
+land L AE1 N D
+landed L AE1 N D AH0 D
+landers L AE1 N D ER0 Z
+landfall L AE1 N D F AO2 L
+landfill L AE1 N D F IH2 L
+landing L AE1 N D IH0 NG
+landings L AE1 N D IH0 NG Z
+landlady L AE1 N D L EY2 D IY0
+landlord L AE1 N D L AO2 R D
+landlords L AE1 N D L AO2 R D Z
+landmark L AE1 N D M AA2 R K
+landmarks L AE1 N D M AA2 R K S
+landowner L AE1 N D OW2 N ER0
+lands L AE1 N D Z
+landscape L AE1 N D S K EY2 P
+landscaper L AE1 N D S K EY2 P ER0
+landscapes L AE1 N D S K EY2 P S
+landscaping L AE1 N D S K EY2 P IH0 NG
+landslide L AE1 N D S L AY2 D
+lane L EY1 N
+lanes L EY1 N Z
+laney L EY1 N IY0
+lang L AE1 NG
+langley L AE1 NG L IY0
+language L AE1 NG G W AH0 JH
+languages L AE1 NG G W AH0 JH AH0 Z
+lanky L AE1 NG K IY0
+lansing L AE1 N S IH0 NG
+lantern L AE1 N T ER0 N
+lanterns L AE1 N T ER0 N Z
+lao L AW1
+laos L AA1 OW0 S
+lap L AE1 P
+lapdog L AE1 P D AO2 G
+lapel L AH0 P EH1 L
+lapels L AH0 P EH1 L Z
+lapping L AE1 P IH0 NG
+laps L AE1 P S
+lapse L AE1 P S
+lapsed L AE1 P S T
+lapses L AE1 P S IH0 Z
+laptop L AE1 P T AA2 P
+laptops L AE1 P T AA2 P S
+lar L AA1 R
+larceny L AA1 R S AH0 N IY0
+lard L AA1 R D
+large L AA1 R JH
+largely L AA1 R JH L IY0
+larger L AA1 R JH ER0
+largest L AA1 R JH AH0 S T
+largo L AA1 R G OW0
+lark L AA1 R K
+larks L AA1 R K S
+larry L EH1 R IY0
+lars L AA1 R Z
+larvae L AA1 R V IY0
+laryngitis L AA2 R IH0 N JH AY1 T AH0 S
+laryngoscope L AA0 R IH1 N G AH0 S K OW2 P
+larynx L EH1 R IH0 NG K S
+las L AA1 S
+lasagna L AA0 S AA1 N Y AH0
+lascivious L AH0 S IH1 V IY0 AH0 S
+laser L EY1 Z ER0
+lasers L EY1 Z ER0 Z
+lash L AE1 SH
+lashed L AE1 SH T
+lashes L AE1 SH IH0 Z
+lashing L AE1 SH IH0 NG
+lass L AE1 S
+lassie L AE1 S IY0
+lasso L AE1 S OW0
+last L AE1 S T
+lasted L AE1 S T AH0 D
+lasting L AE1 S T IH0 NG
+lastly L AE1 S T L IY0
+lasts L AE1 S T S
+lat L AA1 T
+latch L AE1 CH
+latched L AE1 CH T
+latchkey L AE1 CH K IY2
+late L EY1 T
+lately L EY1 T L IY0
+latent L EY1 T AH0 N T
+later L EY1 T ER0
+lateral L AE1 T ER0 AH0 L
+latest L EY1 T AH0 S T
+latex L EY1 T EH2 K S
+latham L AE1 TH AH0 M
+lathe L EY1 DH
+lather L AE1 DH ER0
+latigo L AH0 T IY1 G OW0
+latimer L AE1 T AH0 M ER0
+latin L AE1 T AH0 N
+latino L AA0 T IY1 N OW0
+latinos L AA0 T IY1 N OW0 S
+latitude L AE1 T AH0 T UW2 D
+latrine L AH0 T R IY1 N
+latrines L AH0 T R IY1 N Z
+lats L AA1 T S
+latte L AA1 T EY2
+latter L AE1 T ER0
+lattin L AE1 T IH0 N
+latvian L AE1 T V IY0 AH0 N
+laudanum L AO1 D AH0 N AH0 M
+laude L AO1 D
+lauderdale L AO1 D ER0 D EY2 L
+laugh L AE1 F
+laughable L AE1 F AH0 B AH0 L
+laughed L AE1 F T
+laughing L AE1 F IH0 NG
+laughingstock L AE1 F IH0 NG S T AA2 K
+laughs L AE1 F S
+laughter L AE1 F T ER0
+launch L AO1 N CH
+launched L AO1 N CH T
+launcher L AO1 N CH ER0
+launchers L AO1 N CH ER0 Z
+launches L AO1 N CH AH0 Z
+launching L AO1 N CH IH0 NG
+launder L AO1 N D ER0
+laundered L AO1 N D ER0 D
+laundering L AO1 N D ER0 IH0 NG
+laundromat L AO1 N D R AH0 M AE2 T
+laundry L AO1 N D R IY0
+laura L AO1 R AH0
+laurel L AO1 R AH0 L
+laurels L AO1 R AH0 L Z
+laurence L AO1 R AH0 N S
+laury L AO1 R IY0
+lava L AA1 V AH0
+lavatory L AE1 V AH0 T AO2 R IY0
+lavender L AE1 V AH0 N D ER0
+lavish L AE1 V IH0 SH
+law L AO1
+lawful L AO1 F AH0 L
+lawfully L AO1 F AH0 L IY0
+lawless L AO1 L AH0 S
+lawlessness L AO1 L AH0 S N AH0 S
+lawmakers L AO1 M EY2 K ER0 Z
+lawman L AO1 M AH0 N
+lawn L AO1 N
+lawnmower L AO1 N M OW0 ER0
+lawns L AO1 N Z
+lawrence L AO1 R AH0 N S
+laws L AO1 Z
+lawsuit L AO1 S UW2 T
+lawsuits L AO1 S UW2 T S
+lawyer L AO1 Y ER0
+lawyering L AO1 Y ER0 IH0 NG
+lawyers L AO1 Y ER0 Z
+lax L AE1 K S
+laxative L AE1 K S AH0 T IH0 V
+lay L EY1
+layaway L EY1 AH0 W EY2
+layer L EY1 ER0
+layers L EY1 ER0 Z
+laying L EY1 IH0 NG
+layman L EY1 M AH0 N
+layne L EY1 N
+layout L EY1 AW2 T
+layover L EY1 OW2 V ER0
+lays L EY1 Z
+lazar L EY1 Z ER0
+lazarus L AE1 Z ER0 AH0 S
+laziness L EY1 Z IY0 N AH0 S
+lazy L EY1 Z IY0
+lb P AW1 N D
+lbs P AW1 N D Z
+le L AH0
+lea L IY1
+leach L IY1 CH
+lead L EH1 D
+leaded L EH1 D IH0 D
+leader L IY1 D ER0
+leaders L IY1 D ER0 Z
+leadership L IY1 D ER0 SH IH2 P
+leading L IY1 D IH0 NG
+leads L IY1 D Z
+leaf L IY1 F
+leafy L IY1 F IY0
+league L IY1 G
+leaguer L IY1 G ER0
+leagues L IY1 G Z
+leak L IY1 K
+leakage L IY1 K AH0 JH
+leaked L IY1 K T
+leaking L IY1 K IH0 NG
+leaks L IY1 K S
+leaky L IY1 K IY0
+lean L IY1 N
+leaned L IY1 N D
+leaning L IY1 N IH0 NG
+leans L IY1 N Z
+leap L IY1 P
+leaped L EH1 P T
+leapfrog L IY1 P F R AO2 G
+leaping L IY1 P IH0 NG
+leaps L IY1 P S
+leapt L EH1 P T
+lear L IH1 R
+learn L ER1 N
+learned L ER1 N D
+learner L ER1 N ER0
+learning L ER1 N IH0 NG
+learns L ER1 N Z
+learnt L ER1 N T
+leary L IH1 R IY0
+lease L IY1 S
+leased L IY1 S T
+leases L IY1 S IH0 Z
+leash L IY1 SH
+leashes L IY1 SH IH0 Z
+leasing L IY1 S IH0 NG
+least L IY1 S T
+leather L EH1 DH ER0
+leave L IY1 V
+leaves L IY1 V Z
+leaving L IY1 V IH0 NG
+lebanese L EH1 B AH0 N IY2 Z
+lebanon L EH1 B AH0 N AH0 N
+lecherous L EH1 CH ER0 AH0 S
+lecture L EH1 K CH ER0
+lectured L EH1 K CH ER0 D
+lecturer L EH1 K CH ER0 ER0
+lectures L EH1 K CH ER0 Z
+lecturing L EH1 K CH ER0 IH0 NG
+led L EH1 D
+ledge L EH1 JH
+ledger L EH1 JH ER0
+ledgers L EH1 JH ER0 Z
+lee L IY1
+leech L IY1 CH
+leeches L IY1 CH IH0 Z
+leeds L IY1 D Z
+leek L IY1 K
+leery L IH1 R IY0
+leeway L IY1 W EY2
+left L EH1 F T
+leftover L EH1 F T OW2 V ER0
+leftovers L EH1 F T OW2 V ER0 Z
+lefty L EH1 F T IY0
+leg L EH1 G
+legacy L EH1 G AH0 S IY0
+legal L IY1 G AH0 L
+legally L IY1 G AH0 L IY0
+legate L EH1 G AH0 T
+legend L EH1 JH AH0 N D
+legendary L EH1 JH AH0 N D EH2 R IY0
+legends L EH1 JH AH0 N D Z
+legion L IY1 JH AH0 N
+legions L IY1 JH AH0 N Z
+legislate L EH1 JH IH0 S L EY2 T
+legislation L EH2 JH AH0 S L EY1 SH AH0 N
+legislative L EH1 JH AH0 S L EY2 T IH0 V
+legislature L EH1 JH AH0 S L EY2 CH ER0
+legit L EH1 JH IH0 T
+legitimacy L AH0 JH IH1 T AH0 M AH0 S IY0
+legitimate L AH0 JH IH1 T AH0 M AH0 T
+legitimately L AH0 JH IH1 T AH0 M AH0 T L IY0
+legs L EH1 G Z
+legwork L EH1 G W ER2 K
+lei L EY1
+leicester L EH1 S T ER0
+leighton L EY1 T AH0 N
+leipzig L AY1 P S IH0 G
+leisure L EH1 ZH ER0
+leisurely L IY1 Z ER0 L IY0
+lemmon L EH1 M AH0 N
+lemon L EH1 M AH0 N
+lemonade L EH1 M AH0 N EY1 D
+lemons L EH1 M AH0 N Z
+lend L EH1 N D
+lending L EH1 N D IH0 NG
+lends L EH1 N D Z
+leng L EH1 NG
+length L EH1 NG K TH
+lengths L EH1 NG K TH S
+lengthwise L EH1 NG TH W AY2 Z
+lengthy L EH1 NG TH IY0
+leniency L IY1 N Y AH0 N S IY0
+lenient L IY1 N IY0 AH0 N T
+lenin L EH1 N AH0 N
+leningrad L EH1 N AH0 N G R AE2 D
+leno L EH1 N OW0
+lens L EH1 N Z
+lenses L EH1 N Z AH0 Z
+lent L EH1 N T
+leo L IY1 OW0
+leon L IY1 AA0 N
+leonard L EH1 N ER0 D
+leonardo L IY2 AH0 N AA1 R D OW0
+leone L IY0 OW1 N
+leonid L IY1 AH0 N IH0 D
+leopard L EH1 P ER0 D
+leopards L EH1 P ER0 D Z
+leotard L IY1 AH0 T AA2 R D
+lep L EH1 P
+leper L EH1 P ER0
+lepers L EH1 P ER0 Z
+leprechaun L EH1 P ER0 K AW0 N
+leprechauns L EH1 P ER0 K AO2 N Z
+leprosy L EH1 P R AH0 S IY0
+les L EH1 S
+lesbian L EH1 Z B IY0 AH0 N
+lesbians L EH1 Z B IY0 AH0 N Z
+lesion L IY1 ZH AH0 N
+lesions L IY1 ZH AH0 N Z
+less L EH1 S
+lessen L EH1 S AH0 N
+lesser L EH1 S ER0
+lesson L EH1 S AH0 N
+lessons L EH1 S AH0 N Z
+lest L EH1 S T
+lester L EH1 S T ER0
+let L EH1 T
+let's L EH1 T S
+letdown L EH1 T D AW2 N
+lethal L IY1 TH AH0 L
+lethargic L AH0 TH AA1 R JH IH0 K
+leto L IY1 T OW0
+lets L EH1 T S
+letter L EH1 T ER0
+letterhead L EH1 T ER0 HH EH2 D
+lettering L EH1 T ER0 IH0 NG
+letterman L EH1 T ER0 M AH0 N
+letters L EH1 T ER0 Z
+letting L EH1 T IH0 NG
+lettuce L EH1 T AH0 S
+leukemia L UW0 K IY1 M IY0 AH0
+lev L EH1 V
+levee L EH1 V IY0
+level L EH1 V AH0 L
+leveled L EH1 V AH0 L D
+leveling L EH1 V AH0 L IH0 NG
+levelled L EH1 V AH0 L D
+levels L EH1 V AH0 L Z
+lever L EH1 V ER0
+leverage L EH1 V ER0 IH0 JH
+levers L EH1 V ER0 Z
+levi L IY1 V AY0
+leviathan L AH0 V AY1 AH0 TH AH0 N
+levin L EH1 V IH0 N
+levitate L EH1 V IH0 T EY2 T
+leviticus L AH0 V IH1 T AH0 K AH0 S
+levity L EH1 V IH0 T IY0
+levy L EH1 V IY0
+lew L UW1
+lewd L UW1 D
+lewis L UW1 IH0 S
+lex L EH1 K S
+ley L EY1
+li L IY1
+liabilities L AY2 AH0 B IH1 L AH0 T IY0 Z
+liability L AY2 AH0 B IH1 L IH0 T IY0
+liable L AY1 AH0 B AH0 L
+liaison L IY0 EY1 Z AA2 N
+liang L Y AE1 NG
+liar L AY1 ER0
+liars L AY1 ER0 Z
+lib L IH1 B
+libel L AY1 B AH0 L
+liberal L IH1 B ER2 AH0 L
+liberally L IH1 B ER2 AH0 L IY2
+liberals L IH1 B ER2 AH0 L Z
+liberate L IH1 B ER2 EY2 T
+liberated L IH1 B ER2 EY2 T IH0 D
+liberating L IH1 B ER2 EY2 T IH0 NG
+liberation L IH2 B ER2 EY1 SH AH0 N
+liberator L IH1 B ER2 EY2 T AH0 R
+liberia L AY2 B IH1 R IY2 AH0
+liberties L IH1 B ER0 T IY2 Z
+liberty L IH1 B ER0 T IY2
+libido L AH0 B IY1 D OW0
+libra L IY1 B R AA0
+librarian L AY0 B R EH1 R IY2 AH0 N
+libraries L AY1 B R EH0 R IY2 Z
+library L AY1 B R EH0 R IY2
+libya L IH1 B IY2 AH0
+libyan L IH1 B IY2 AH0 N
+lice L AY1 S
+licence L AY1 S AH0 N S
+license L AY1 S AH0 N S
+licensed L AY1 S AH0 N S T
+licenses L AY1 S AH0 N S IH0 Z
+lick L IH1 K
+licked L IH1 K T
+licking L IH1 K IH0 NG
+licks L IH1 K S
+licorice L IH1 K ER0 IH0 SH
+lid L IH1 D
+lido L IY1 D OW0
+lids L IH1 D Z
+lie L AY1
+lied L AY1 D
+liege L IY1 JH
+lien L IY1 N
+lies L AY1 Z
+lieu L UW1
+lieutenant L UW0 T EH1 N AH0 N T
+lieutenants L UW0 T EH1 N AH0 N T S
+life L AY1 F
+lifeblood L AY1 F B L AH2 D
+lifeboat L AY1 F B OW2 T
+lifeboats L AY1 F B OW2 T S
+lifeguard L AY1 F G AA2 R D
+lifeguards L AY1 F G AA2 R D Z
+lifeless L AY1 F L AH0 S
+lifelike L AY1 F L AY2 K
+lifeline L AY1 F L AY2 N
+lifelong L AY1 F L AO1 NG
+lifer L AY1 F ER0
+lifesaver L AY1 F S EY2 V ER0
+lifesaving L AY1 F S EY2 V IH0 NG
+lifespan L AY1 F S P AE2 N
+lifestyle L AY1 F S T AY2 L
+lifestyles L AY1 F S T AY2 L Z
+lifetime L AY1 F T AY2 M
+lifetimes L AY1 F T AY2 M Z
+lift L IH1 F T
+lifted L IH1 F T AH0 D
+lifting L IH1 F T IH0 NG
+liftoff L IH1 F T AO2 F
+lifts L IH1 F T S
+ligament L IH1 G AH0 M AH0 N T
+ligaments L IH1 G AH0 M AH0 N T S
+light L AY1 T
+lighted L AY1 T AH0 D
+lighten L AY1 T AH0 N
+lightening L AY1 T AH0 N IH0 NG
+lighter L AY1 T ER0
+lighters L AY1 T ER0 Z
+lightheaded L AY2 T HH EH1 D AH0 D
+lighthouse L AY1 T HH AW2 S
+lighting L AY1 T IH0 NG
+lightly L AY1 T L IY0
+lightness L AY1 T N AH0 S
+lightning L AY1 T N IH0 NG
+lights L AY1 T S
+lightweight L AY1 T W EY1 T
+likable L AY1 K AH0 B AH0 L
+like L AY1 K
+likeable L AY1 K AH0 B AH0 L
+liked L AY1 K T
+likelihood L AY1 K L IY0 HH UH2 D
+likely L AY1 K L IY0
+likeness L AY1 K N AH0 S
+likes L AY1 K S
+likewise L AY1 K W AY2 Z
+liking L AY1 K IH0 NG
+lila L IY1 L AH0
+lilac L AY1 L AE2 K
+lilacs L AY1 L AE2 K S
+lilies L IH1 L IY0 Z
+lilith L IH1 L IH0 TH
+lilly L IH1 L IY0
+lily L IH1 L IY0
+lima L AY1 M AH0
+limb L IH1 M
+limber L IH1 M B ER0
+limbo L IH1 M B OW0
+limbs L IH1 M Z
+lime L AY1 M
+limehouse L AY1 M HH AW2 S
+limelight L AY1 M L AY2 T
+limerick L IH1 M ER0 IH0 K
+limericks L IH1 M ER0 IH0 K S
+limes L AY1 M Z
+limestone L AY1 M S T OW2 N
+limit L IH1 M AH0 T
+limitation L IH2 M IH0 T EY1 SH AH0 N
+limitations L IH2 M IH0 T EY1 SH AH0 N Z
+limited L IH1 M AH0 T AH0 D
+limiting L IH1 M AH0 T IH0 NG
+limitless L IH1 M AH0 T L AH0 S
+limits L IH1 M AH0 T S
+limo L IH1 M OW0
+limos L IH1 M OW0 Z
+limousine L IH1 M AH0 Z IY2 N
+limousines L IH1 M AH0 Z IY2 N Z
+limp L IH1 M P
+limping L IH1 M P IH0 NG
+lin L IH1 N
+lina L IY1 N AH0
+lincoln L IH1 NG K AH0 N
+lind L IH1 N D
+linda L IH1 N D AH0
+linden L IH1 N D AH0 N
+linder L IH1 N D ER0
+lindy L IH1 N D IY0
+line L AY1 N
+lineage L IH1 N IY0 AH0 JH
+linear L IH1 N IY0 ER0
+linebacker L AY1 N B AE2 K ER0
+lined L AY1 N D
+linen L IH1 N AH0 N
+linens L IH1 N AH0 N Z
+liner L AY1 N ER0
+liners L AY1 N ER0 Z
+lines L AY1 N Z
+lineup L AY1 N AH2 P
+ling L IH1 NG
+linger L IH1 NG G ER0
+lingered L IH1 NG G ER0 D
+lingerie L AA1 N ZH ER0 EY2
+lingering L IH1 NG G ER0 IH0 NG
+lingers L IH1 NG G ER0 Z
+lingo L IH1 NG G OW0
+linguine L IH0 NG G W IY1 N IY0
+linguist L IH1 NG G W IH0 S T
+linguistic L IH0 NG G W IH1 S T IH0 K
+linguistics L IH0 NG G W IH1 S T IH0 K S
+lining L AY1 N IH0 NG
+link L IH1 NG K
+linkage L IH1 NG K AH0 JH
+linked L IH1 NG K T
+linking L IH1 NG K IH0 NG
+links L IH1 NG K S
+lino L IY1 N OW0
+linoleum L AH0 N OW1 L IY0 AH0 M
+lins L IH1 N Z
+lint L IH1 N T
+linwood L IH1 N W UH2 D
+lion L AY1 AH0 N
+lionel L AY1 AH0 N AH0 L
+lions L AY1 AH0 N Z
+lip L IH1 P
+liposuction L IH1 P OW0 S AH2 K SH AH0 N
+lips L IH1 P S
+lipstick L IH1 P S T IH2 K
+liqueur L IH0 K ER1
+liquid L IH1 K W AH0 D
+liquidate L IH1 K W IH0 D EY2 T
+liquidated L IH1 K W IH0 D EY2 T IH0 D
+liquids L IH1 K W AH0 D Z
+liquor L IH1 K ER0
+liquors L IH1 K ER0 Z
+lira L IH1 R AH0
+lire L IH1 R AH0
+lis L IH1 S
+lisbon L IH1 Z B AH0 N
+lisp L IH1 S P
+list L IH1 S T
+listed L IH1 S T AH0 D
+listen L IH1 S AH0 N
+listened L IH1 S AH0 N D
+listener L IH1 S AH0 N ER0
+listeners L IH1 S AH0 N ER0 Z
+listening L IH1 S AH0 N IH0 NG
+listens L IH1 S AH0 N Z
+listing L IH1 S T IH0 NG
+listings L IH1 S T IH0 NG Z
+lists L IH1 S T S
+lit L IH1 T
+lite L AY1 T
+liter L IY1 T ER0
+literacy L IH1 T ER0 AH0 S IY0
+literal L IH1 T ER0 AH0 L
+literally L IH1 T ER0 AH0 L IY0
+literary L IH1 T ER0 EH2 R IY0
+literate L IH1 T ER0 AH0 T
+literature L IH1 T ER0 AH0 CH ER0
+liters L IY1 T ER0 Z
+lithium L IH1 TH IY0 AH0 M
+lithuanian L IH2 TH AH0 W EY1 N IY0 AH0 N
+litigation L IH2 T AH0 G EY1 SH AH0 N
+litigator L IH1 T AH0 G EY2 T ER0
+litigious L IH0 T IH1 JH AH0 S
+litter L IH1 T ER0
+littered L IH1 T ER0 D
+littering L IH1 T ER0 IH0 NG
+little L IH1 T AH0 L
+littler L IH1 T AH0 L ER0
+littlest L IH1 T AH0 L AH0 S T
+livable L IH1 V AH0 B AH0 L
+live L AY1 V
+lived L IH1 V D
+livelihood L AY1 V L IY0 HH UH2 D
+lively L AY1 V L IY0
+liven L AY1 V AH0 N
+liver L IH1 V ER0
+liverpool L IH1 V ER0 P UW2 L
+livers L IH1 V ER0 Z
+livery L IH1 V ER0 IY0
+lives L IH1 V Z
+livestock L AY1 V S T AA2 K
+livid L IH1 V IH0 D
+lividity L IH0 V IH1 D IH0 T IY0
+living L IH1 V IH0 NG
+liza L IY1 Z AH0
+lizard L IH1 Z ER0 D
+lizards L IH1 Z ER0 D Z
+lizzie L IH1 Z IY0
+llama L AA1 M AH0
+ln L EY1 N
+lo L OW1
+load L OW1 D
+loaded L OW1 D IH0 D
+loader L OW1 D ER0
+loading L OW1 D IH0 NG
+loads L OW1 D Z
+loaf L OW1 F
+loafer L OW1 F ER0
+loafers L OW1 F ER0 Z
+loan L OW1 N
+loaned L OW1 N D
+loaning L OW1 N IH0 NG
+loans L OW1 N Z
+loathe L OW1 DH
+loathed L OW1 DH D
+loathing L OW1 TH IH0 NG
+loathsome L OW1 DH S AH0 M
+loaves L OW1 V Z
+lob L AA1 B
+lobby L AA1 B IY0
+lobbying L AA1 B IY0 IH0 NG
+lobbyist L AA1 B IY0 AH0 S T
+lobbyists L AA1 B IY0 IH0 S T S
+lobe L OW1 B
+lobes L OW1 B Z
+lobo L OW1 B OW0
+lobotomy L OW1 B OW2 T OW2 M IY0
+lobster L AA1 B S T ER0
+lobsters L AA1 B S T ER0 Z
+loca L OW1 K AH0
+local L OW1 K AH0 L
+locale L OW0 K AE1 L
+localized L OW1 K AH0 L AY2 Z D
+locally L OW1 K AH0 L IY0
+locals L OW1 K AH0 L Z
+locate L OW1 K EY2 T
+located L OW1 K EY2 T AH0 D
+locating L OW1 K EY2 T IH0 NG
+location L OW0 K EY1 SH AH0 N
+locations L OW0 K EY1 SH AH0 N Z
+locator L OW1 K EY2 T ER0
+loch L AA1 K
+lock L AA1 K
+locked L AA1 K T
+locker L AA1 K ER0
+lockers L AA1 K ER0 Z
+locket L AA1 K IH0 T
+locking L AA1 K IH0 NG
+lockout L AA1 K AW2 T
+locks L AA1 K S
+locksmith L AA1 K S M IH2 TH
+lockup L AA1 K AH2 P
+loco L OW1 K OW0
+locomotive L OW2 K AH0 M OW1 T IH0 V
+locus L OW1 K AH0 S
+locust L OW1 K AH0 S T
+locusts L OW1 K AH0 S T S
+lode L OW1 D
+lodge L AA1 JH
+lodged L AA1 JH D
+lodges L AA1 JH AH0 Z
+lodging L AA1 JH IH0 NG
+lodgings L AA1 JH IH0 NG Z
+loft L AO1 F T
+lofty L AO1 F T IY0
+log L AO1 G
+logan L OW1 G AH0 N
+logbook L AO1 G B UH2 K
+logged L AO1 G D
+logging L AO1 G IH0 NG
+logic L AA1 JH IH0 K
+logical L AA1 JH IH0 K AH0 L
+logically L AA1 JH IH0 K L IY0
+logistical L AH0 JH IH1 S T IH0 K AH0 L
+logistics L AH0 JH IH1 S T IH0 K S
+logo L OW1 G OW0
+logos L OW1 G OW2 Z
+logs L AO1 G Z
+loin L OY1 N
+loiter L OY1 T ER0
+loitering L OY1 T ER0 IH0 NG
+lollipop L AA1 L IY0 P AA2 P
+lollipops L AA1 L IY0 P AA2 P S
+loma L OW1 M AH0
+lombard L AA1 M B AA0 R D
+london L AH1 N D AH0 N
+lone L OW1 N
+loneliness L OW1 N L IY0 N AH0 S
+lonely L OW1 N L IY0
+loner L OW1 N ER0
+loners L OW1 N ER0 Z
+lonesome L OW1 N S AH0 M
+long L AO1 NG
+longed L AO1 NG D
+longer L AO1 NG G ER0
+longest L AO1 NG G AH0 S T
+longevity L AO0 N JH EH1 V AH0 T IY0
+longhorn L AO1 NG HH AO2 R N
+longing L AO1 NG IH0 NG
+longitude L AA1 N JH AH0 T UW2 D
+longs L AO1 NG Z
+longtime L AO1 NG T AY2 M
+loo L UW1
+look L UH1 K
+looked L UH1 K T
+looker L UH1 K ER0
+looking L UH1 K IH0 NG
+lookout L UH1 K AW2 T
+looks L UH1 K S
+loom L UW1 M
+looming L UW1 M IH0 NG
+looms L UW1 M Z
+loon L UW1 N
+looney L UW1 N IY0
+loons L UW1 N Z
+loony L UW1 N IY0
+loop L UW1 P
+looped L UW1 P T
+loophole L UW1 P HH OW2 L
+loopholes L UW1 P HH OW2 L Z
+looping L UW1 P IH0 NG
+loops L UW1 P S
+loopy L UW1 P IY0
+loose L UW1 S
+loosely L UW1 S L IY0
+loosen L UW1 S AH0 N
+loosened L UW1 S AH0 N D
+loosening L UW1 S AH0 N IH0 NG
+loosens L UW1 S AH0 N Z
+looser L UW1 S ER0
+loosing L UW1 S IH0 NG
+loot L UW1 T
+looted L UW1 T AH0 D
+looters L UW1 T ER0 Z
+looting L UW1 T IH0 NG
+lop L AA1 P
+lopsided L AA1 P S AY1 D IH0 D
+lor L AO1 R
+lora L AO1 R AH0
+lord L AO1 R D
+lords L AO1 R D Z
+lordship L AO1 R D SH IH0 P
+lordy L AO1 R D IY2
+lore L AO1 R
+lorelei L AO1 R IH0 L AY2
+loren L AO1 R AH0 N
+lori L AO1 R IY0
+lorry L AO1 R IY0
+lose L UW1 Z
+loser L UW1 Z ER0
+losers L UW1 Z ER0 Z
+loses L UW1 Z AH0 Z
+losing L UW1 Z IH0 NG
+loss L AO1 S
+losses L AO1 S AH0 Z
+lost L AO1 S T
+lot L AA1 T
+lotion L OW1 SH AH0 N
+lotions L OW1 SH AH0 N Z
+lots L AA1 T S
+lottery L AA1 T ER0 IY0
+lotto L AA1 T OW2
+lotus L OW1 T AH0 S
+loud L AW1 D
+louder L AW1 D ER0
+loudest L AW1 D AH0 S T
+loudly L AW1 D L IY0
+loudspeaker L AW1 D S P IY2 K ER0
+louie L UW0 IY1
+louis L UW1 IH0 S
+louise L UW0 IY1 Z
+louisiana L UW0 IY2 Z IY0 AE1 N AH0
+louisville L UW1 IY0 V IH2 L
+lounge L AW1 N JH
+lounging L AW1 N JH IH0 NG
+louse L AW1 S
+loused L AW1 Z D
+lousy L AW1 Z IY0
+lout L AW1 T
+louvre L UW1 V R AH0
+lovable L AH1 V AH0 B AH0 L
+love L AH1 V
+loved L AH1 V D
+loveless L AH1 V L AH0 S
+lovely L AH1 V L IY0
+lovemaking L AH1 V M EY0 K IH0 NG
+lover L AH1 V ER0
+lovers L AH1 V ER0 Z
+loves L AH1 V Z
+loving L AH1 V IH0 NG
+lovingly L AH1 V IH0 NG L IY0
+low L OW1
+lowdown L OW1 D AW2 N
+lowe L OW1
+lower L OW1 ER0
+lowered L OW1 ER0 D
+lowering L OW1 ER0 IH0 NG
+lowers L OW1 ER0 Z
+lowest L OW1 AH0 S T
+lowly L OW1 L IY0
+lowry L AW1 R IY0
+lows L OW1 Z
+lox L AA1 K S
+loy L OY1
+loyal L OY1 AH0 L
+loyalties L OY1 AH0 L T IY0 Z
+loyalty L OY1 AH0 L T IY0
+lp EH1 L P IY1
+ls EH1 L EH1 S
+lu L UW1
+luau L UW1 AW2
+lube L UW1 B
+lubricant L UW1 B R AH0 K AH0 N T
+lubricated L UW1 B R AH0 K EY2 T IH0 D
+luce L UW1 S
+lucerne L UW1 S ER0 N
+lucia L UW1 SH AH0
+lucid L UW1 S AH0 D
+lucidity L UW0 S IH1 D IH0 T IY0
+lucifer L UW1 S AH0 F ER0
+lucille L UW0 S IY1 L
+luck L AH1 K
+lucked L AH1 K T
+luckier L AH1 K IY0 ER0
+luckiest L AH1 K IY0 AH0 S T
+luckily L AH1 K AH0 L IY0
+lucky L AH1 K IY0
+lucrative L UW1 K R AH0 T IH0 V
+lucy L UW1 S IY0
+ludicrous L UW1 D AH0 K R AH0 S
+ludo L UW1 D OW2
+ludwig L AH1 D W IH0 G
+lug L AH1 G
+luger L UW1 G ER0
+luggage L AH1 G AH0 JH
+lugging L AH1 G IH0 NG
+lugs L AH1 G Z
+luke L UW1 K
+lukewarm L UW1 K W AO1 R M
+lull L AH1 L
+lullaby L AH1 L AH0 B AY2
+lulu L UW1 L UW2
+lum L AH1 M
+lumbar L AH1 M B AA2 R
+lumber L AH1 M B ER0
+lumberjack L AH1 M B ER0 JH AE2 K
+luminous L UW1 M AH0 N AH0 S
+lump L AH1 M P
+lumps L AH1 M P S
+lumpy L AH1 M P IY0
+luna L UW1 N AH0
+lunacy L UW1 N AH0 S IY0
+lunar L UW1 N ER0
+lunatic L UW1 N AH0 T IH2 K
+lunatics L UW1 N AH0 T IH2 K S
+lunch L AH1 N CH
+luncheon L AH1 N CH AH0 N
+lunches L AH1 N CH IH0 Z
+lunching L AH1 N CH IH0 NG
+lunchroom L AH1 N CH R UW2 M
+lunchtime L AH1 N CH T AY2 M
+lung L AH1 NG
+lunge L AH1 N JH
+lungs L AH1 NG Z
+lupe L UW1 P
+lupus L UW1 P AH0 S
+lurch L ER1 CH
+lure L UH1 R
+lured L UH1 R D
+lures L UH1 R Z
+lurid L UH1 R AH0 D
+luring L UH1 R IH0 NG
+lurk L ER1 K
+lurking L ER1 K IH0 NG
+lurks L ER1 K S
+luscious L AH1 SH IH0 S
+lush L AH1 SH
+lust L AH1 S T
+luster L AH1 S T ER0
+lustful L AH1 S T F AH0 L
+lusting L AH1 S T IH0 NG
+lustrous L AH1 S T R AH0 S
+lusty L AH1 S T IY0
+lute L UW1 T
+luther L UW1 TH ER0
+lutheran L UW1 TH ER0 AH0 N
+luxembourg L AH1 K S AH0 M B AO2 R G
+luxuries L AH1 G ZH ER0 IY0 Z
+luxurious L AH0 G ZH ER1 IY0 AH0 S
+luxury L AH1 G ZH ER0 IY0
+ly L AY1
+lye L AY1
+lying L AY1 IH0 NG
+lymph L IH1 M F
+lymphatic L IH2 M F AE1 T IH0 K
+lymphoma L IH0 M F OW1 M AH0
+lyn L IH1 N
+lynch L IH1 N CH
+lynched L IH1 N CH T
+lynching L IH1 N CH IH0 NG
+lynn L IH1 N
+lyon L AY1 AH0 N
+lyric L IH1 R IH0 K
+lyrical L IH1 R IH0 K AH0 L
+lyrics L IH1 R IH0 K S
+lysol L AY1 S AO2 L
+m EH1 M
+ma M AA1
+mab M AE1 B
+mac M AE1 K
+macabre M AH0 K AA1 B R AH0
+macadamia M AE2 K AH0 D EY1 M IY0 AH0
+macao M AH0 K AW1
+macaroni M AE2 K ER0 OW1 N IY0
+macbeth M AH0 K B EH1 TH
+mace M EY1 S
+macfarlane M AH0 K F AA1 R L AH0 N
+mach M AA1 K
+machete M AH0 SH EH1 T IY2
+machine M AH0 SH IY1 N
+machinery M AH0 SH IY1 N ER0 IY0
+machines M AH0 SH IY1 N Z
+machinist M AH0 SH IY1 N AH0 S T
+macho M AA1 CH OW0
+macintosh M AE1 K AH0 N T AO2 SH
+mack M AE1 K
+mackerel M AE1 K ER0 AH0 L
+mackinaw M AE1 K AH0 N AO2
+macro M AE1 K R OW0
+mad M AE1 D
+madagascar M AE2 D AH0 G AE1 S K ER0
+madam M AE1 D AH0 M
+madame M AE1 D AH0 M
+madcap M AE1 D K AE2 P
+madden M AE1 D AH0 N
+maddening M AE1 D AH0 N IH0 NG
+madder M AE1 D ER0
+made M EY1 D
+madeleine M AE2 D AH0 L EH1 N
+madeline M AE1 D AH0 L IH0 N
+mademoiselle M AE2 D AH0 M AH0 Z EH1 L
+madge M AE1 JH
+madhouse M AE1 D HH AW2 S
+madison M AE1 D AH0 S AH0 N
+madly M AE1 D L IY0
+madman M AE1 D M AE2 N
+madmen M AE1 D M AH0 N
+madness M AE1 D N AH0 S
+madonna M AH0 D AA1 N AH0
+madre M AA1 D R EY2
+madrid M AH0 D R IH1 D
+mae M EY1
+maestro M AY1 S T R OW0
+mafia M AA1 F IY0 AH0
+mag M AE1 G
+magazine M AE1 G AH0 Z IY2 N
+magazines M AE1 G AH0 Z IY2 N Z
+magdalene M AE1 G D AH0 L IY2 N
+magellan M AH0 JH EH1 L AH0 N
+magenta M AH0 JH EH1 N T AH0
+maggie M AE1 G IY2
+maggot M AE1 G AH0 T
+maggots M AE1 G AH0 T S
+magi M EY1 JH AY0
+magic M AE1 JH IH0 K
+magical M AE1 JH IH0 K AH0 L
+magically M AE1 JH IH0 K AH0 L IY0
+magician M AH0 JH IH1 SH AH0 N
+magicians M AH0 JH IH1 SH AH0 N Z
+magistrate M AE1 JH AH0 S T R EY2 T
+magma M AE1 G M AH0
+magna M AE1 G N AH0
+magnanimous M AE0 G N AE1 N AH0 M AH0 S
+magnesia M AE0 G N IY1 ZH AH0
+magnesium M AE0 G N IY1 Z IY0 AH0 M
+magnet M AE1 G N AH0 T
+magnetic M AE0 G N EH1 T IH0 K
+magnetism M AE1 G N AH0 T IH2 Z AH0 M
+magnets M AE1 G N AH0 T S
+magnification M AE2 G N AH0 F AH0 K EY1 SH AH0 N
+magnificent M AE0 G N IH1 F AH0 S AH0 N T
+magnificently M AE0 G N IH1 F AH0 S AH0 N T L IY0
+magnified M AE1 G N AH0 F AY2 D
+magnify M AE1 G N AH0 F AY2
+magnifying M AE1 G N AH0 F AY2 IH0 NG
+magnitude M AE1 G N AH0 T UW2 D
+magnolia M AE0 G N OW1 L Y AH0
+magnum M AE1 G N AH0 M
+magpie M AE1 G P AY2
+mags M AE1 G Z
+mahal M AH0 HH AA1 L
+mahatma M AH0 HH AA1 T M AH0
+mahogany M AH0 HH AA1 G AH0 N IY0
+maid M EY1 D
+maiden M EY1 D AH0 N
+maidens M EY1 D AH0 N Z
+maids M EY1 D Z
+mail M EY1 L
+mailbox M EY1 L B AA2 K S
+mailboxes M EY1 L B AA2 K S IH0 Z
+mailed M EY1 L D
+mailer M EY1 L ER0
+mailing M EY1 L IH0 NG
+mailman M EY1 L M AE2 N
+mails M EY1 L Z
+maim M EY1 M
+maimed M EY1 M D
+main M EY1 N
+maine M EY1 N
+mainframe M EY1 N F R EY2 M
+mainland M EY1 N L AE2 N D
+mainly M EY1 N L IY0
+mainstream M EY1 N S T R IY2 M
+maintain M EY0 N T EY1 N
+maintained M EY0 N T EY1 N D
+maintaining M EY0 N T EY1 N IH0 NG
+maintains M EY0 N T EY1 N Z
+maintenance M EY1 N T AH0 N AH0 N S
+maitre M EY1 T R AH0
+majestic M AH0 JH EH1 S T IH0 K
+majesty M AE1 JH AH0 S T IY0
+major M EY1 JH ER0
+majored M EY1 JH ER0 D
+majoring M EY1 JH ER0 IH0 NG
+majority M AH0 JH AO1 R AH0 T IY0
+majors M EY1 JH ER0 Z
+make M EY1 K
+makeover M AE1 K OW2 V ER0
+maker M EY1 K ER0
+makers M EY1 K ER0 Z
+makes M EY1 K S
+makeshift M EY1 K SH IH2 F T
+makeup M EY1 K AH2 P
+making M EY1 K IH0 NG
+makings M EY1 K IH0 NG Z
+mal M AE1 L
+malady M AE1 L AH0 D IY0
+malaga M AE1 L AH0 G AH0
+malaria M AH0 L EH1 R IY0 AH0
+malarkey M AH0 L AA1 R K IY0
+malay M EY1 L EY0
+malaysia M AH0 L EY1 ZH AH0
+malaysian M AH0 L EY1 ZH AH0 N
+male M EY1 L
+males M EY1 L Z
+malevolent M AH0 L EH1 V AH0 L AH0 N T
+malfeasance M AE2 L F IY1 Z AH0 N S
+malfunction M AE0 L F AH1 NG K SH AH0 N
+malfunctioned M AE0 L F AH1 NG K SH AH0 N D
+malfunctioning M AE0 L F AH1 NG K SH AH0 N IH0 NG
+mali M AA1 L IY0
+malice M AE1 L AH0 S
+malicious M AH0 L IH1 SH AH0 S
+malignant M AH0 L IH1 G N AH0 N T
+malik M AE1 L IH0 K
+mall M AO1 L
+mallard M AE1 L ER0 D
+mallet M AE1 L IH0 T
+malls M AO1 L Z
+malnutrition M AE2 L N UW0 T R IH1 SH AH0 N
+malo M AA1 L OW0
+malpractice M AE0 L P R AE1 K T AH0 S
+malt M AO1 L T
+malta M AO1 L T AH0
+malted M AO1 L T AH0 D
+mam M AA1 M
+mama M AA1 M AH0
+mamas M AA1 M AH0 Z
+mamba M AA1 M B AH0
+mambo M AA1 M B OW0
+mamie M EY1 M IY0
+mamma M AA1 M AH0
+mammal M AE1 M AH0 L
+mammals M AE1 M AH0 L Z
+mammoth M AE1 M AH0 TH
+man M AE1 N
+manage M AE1 N AH0 JH
+manageable M AE1 N IH0 JH AH0 B AH0 L
+managed M AE1 N AH0 JH D
+management M AE1 N AH0 JH M AH0 N T
+manager M AE1 N AH0 JH ER0
+managerial M AE2 N IH0 JH IH1 R IY0 AH0 L
+managers M AE1 N AH0 JH ER0 Z
+manages M AE1 N IH0 JH IH0 Z
+managing M AE1 N AH0 JH IH0 NG
+manchester M AE1 N CH EH2 S T ER0
+manchu M AE1 N CH UW0
+manchuria M AE0 N CH UH1 R IY0 AH0
+mandarin M AE1 N D ER0 AH0 N
+mandate M AE1 N D EY2 T
+mandated M AE1 N D EY2 T IH0 D
+mandatory M AE1 N D AH0 T AO2 R IY0
+mandible M AE1 N D AH0 B AH0 L
+mandolin M AE1 N D AH0 L IH2 N
+mandrake M AE1 N D R EY2 K
+mane M EY1 N
+maneuver M AH0 N UW1 V ER0
+maneuvering M AH0 N UW1 V ER0 IH0 NG
+maneuvers M AH0 N UW1 V ER0 Z
+manger M EY1 N JH ER0
+mangle M AE1 NG G AH0 L
+mangled M AE1 NG G AH0 L D
+mango M AE1 NG G OW0
+mangoes M AE1 NG G OW0 Z
+mangy M EY1 N JH IY0
+manhandled M AE1 N HH AE2 N D AH0 L D
+manhattan M AE0 N HH AE1 T AH0 N
+manhole M AE1 N HH OW2 L
+manhood M AE1 N HH UH2 D
+manhunt M AE1 N HH AH2 N T
+mania M EY1 N IY0 AH0
+maniac M EY1 N IY0 AE2 K
+maniacal M AH0 N AY1 AH0 K AH0 L
+maniacs M EY1 N IY0 AE2 K S
+manic M AE1 N IH0 K
+manicure M AE1 N IH0 K Y ER0
+manicured M AE1 N IH0 K Y ER0 D
+manicurist M AE1 N IH0 K Y ER2 IH0 S T
+manifest M AE1 N AH0 F EH2 S T
+manifestation M AE2 N AH0 F EH0 S T EY1 SH AH0 N
+manifestations M AE2 N AH0 F EH0 S T EY1 SH AH0 N Z
+manifested M AE1 N AH0 F EH2 S T AH0 D
+manifesting M AE1 N AH0 F EH2 S T IH0 NG
+manifesto M AE2 N AH0 F EH1 S T OW2
+manifests M AE1 N AH0 F EH2 S T S
+manifold M AE1 N AH0 F OW2 L D
+manila M AH0 N IH1 L AH0
+manipulate M AH0 N IH1 P Y AH0 L EY2 T
+manipulated M AH0 N IH1 P Y AH0 L EY2 T IH0 D
+manipulating M AH0 N IH1 P Y AH0 L EY2 T IH0 NG
+manipulation M AH0 N IH2 P Y AH0 L EY1 SH AH0 N
+manipulative M AH0 N IH1 P Y AH0 L EY2 T IH0 V
+mankind M AE1 N K AY1 N D
+manly M AE1 N L IY0
+manna M AE1 N AH0
+manned M AE1 N D
+mannequin M AE1 N AH0 K IH0 N
+mannequins M AE1 N AH0 K IH0 N Z
+manner M AE1 N ER0
+mannering M AE1 N ER0 IH0 NG
+mannerisms M AE1 N ER0 IH2 Z AH0 M Z
+manners M AE1 N ER0 Z
+manning M AE1 N IH0 NG
+manny M AE1 N IY0
+mano M AA1 N OW0
+manor M AE1 N ER0
+manors M AE1 N ER0 Z
+manpower M AE1 N P AW2 ER0
+mans M AE1 N Z
+mansion M AE1 N SH AH0 N
+mansions M AE1 N CH AH0 N Z
+manslaughter M AE1 N S L AO2 T ER0
+manta M AE1 N T AH0
+mantel M AE1 N T AH0 L
+mantis M AE1 N T IH0 S
+mantle M AE1 N T AH0 L
+mantra M AE1 N T R AH0
+mantua M AE1 N CH UW0 AH0
+manual M AE1 N Y UW0 AH0 L
+manually M AE1 N Y UW0 AH0 L IY0
+manuals M AE1 N Y UW0 AH0 L Z
+manufacture M AE2 N Y AH0 F AE1 K CH ER0
+manufactured M AE2 N Y AH0 F AE1 K CH ER0 D
+manufacturer M AE2 N Y AH0 F AE1 K CH ER0 ER0
+manufacturers M AE2 N Y AH0 F AE1 K CH ER0 ER0 Z
+manufactures M AE2 N Y AH0 F AE1 K CH ER0 Z
+manufacturing M AE2 N Y AH0 F AE1 K CH ER0 IH0 NG
+manure M AH0 N UH1 R
+manuscript M AE1 N Y AH0 S K R IH2 P T
+manuscripts M AE1 N Y AH0 S K R IH2 P T S
+many M EH1 N IY0
+mao M AW1
+map M AE1 P
+maple M EY1 P AH0 L
+mapped M AE1 P T
+mapping M AE1 P IH0 NG
+maps M AE1 P S
+mar M AA1 R
+mara M AA1 R AH0
+marathon M EH1 R AH0 TH AA2 N
+marble M AA1 R B AH0 L
+marbles M AA1 R B AH0 L Z
+marc M AA1 R K
+marcel M AA0 R S EH1 L
+marcella M AA0 R S EH1 L AH0
+marcello M AA2 R S EH1 L OW0
+march M AA1 R CH
+marched M AA1 R CH T
+marches M AA1 R CH IH0 Z
+marching M AA1 R CH IH0 NG
+marco M AA1 R K OW0
+mardi M AA1 R D IY0
+mare M EH1 R
+mares M EH1 R Z
+margaret M AA1 R G ER0 IH0 T
+margarine M AA1 R JH ER0 AH0 N
+margarita M AA2 R G ER0 IY1 T AH0
+margaritas M AA2 R G EH0 R IY1 T AH0 S
+marge M AA1 R JH
+margin M AA1 R JH AH0 N
+marginal M AA1 R JH AH0 N AH0 L
+marginalized M AA1 R JH AH0 N AH0 L AY2 Z D
+margins M AA1 R JH AH0 N Z
+marguerite M AA2 R G ER0 IY1 T
+maria M ER0 IY1 AH0
+mariachi M AA2 R IY0 AA1 CH IY0
+marian M EH1 R IY0 AH0 N
+mariana M EH2 R IY0 AE1 N AH0
+marianne M EH2 R IY0 AE1 N
+marie M ER0 IY1
+marijuana M EH2 R AH0 W AA1 N AH0
+marilyn M EH1 R AH0 L AH0 N
+marina M ER0 IY1 N AH0
+marinate M EH1 R AH0 N EY2 T
+marinated M EH1 R AH0 N EY2 T IH0 D
+marine M ER0 IY1 N
+mariner M EH1 R AH0 N ER0
+mariners M EH1 R AH0 N ER0 Z
+marines M ER0 IY1 N Z
+maris M EH1 R IH0 S
+marital M EH1 R AH0 T AH0 L
+maritime M EH1 R AH0 T AY2 M
+marjorie M AA1 R JH ER0 IY0
+mark M AA1 R K
+marked M AA1 R K T
+marker M AA1 R K ER0
+markers M AA1 R K ER0 Z
+market M AA1 R K AH0 T
+marketable M AA1 R K AH0 T AH0 B AH0 L
+marketing M AA1 R K AH0 T IH0 NG
+marketplace M AA1 R K AH0 T P L EY2 S
+markets M AA1 R K AH0 T S
+marking M AA1 R K IH0 NG
+markings M AA1 R K IH0 NG Z
+marks M AA1 R K S
+marksman M AA1 R K S M AH0 N
+marksmanship M AA1 R K S M AH0 N SH IH0 P
+marksmen M AA1 R K S M EH0 N
+marlin M AA1 R L AH0 N
+marmalade M AA1 R M AH0 L EY2 D
+maroon M ER0 UW1 N
+marooned M ER0 UW1 N D
+marquee M AA0 R K IY1
+marquis M AA2 R K IY1
+marriage M EH1 R IH0 JH
+marriages M EH1 R IH0 JH IH0 Z
+married M EH1 R IY0 D
+marries M EH1 R IY0 Z
+marron M EH1 R AH0 N
+marrow M EH1 R OW0
+marry M EH1 R IY0
+marrying M EH1 R IY0 IH0 NG
+mars M AA1 R Z
+marseille M AA0 R S AY1 L
+marseilles M AA0 R S AY1 L AH0 S
+marsh M AA1 R SH
+marshal M AA1 R SH AH0 L
+marshall M AA1 R SH AH0 L
+marshals M AA1 R SH AH0 L Z
+marshes M AA1 R SH AH0 Z
+marshmallow M AA1 R SH M EH2 L OW0
+marshmallows M AA1 R SH M EH2 L OW0 Z
+mart M AA1 R T
+martel M AA1 R T EH2 L
+martha M AA1 R TH AH0
+martial M AA1 R SH AH0 L
+martian M AA1 R SH AH0 N
+martians M AA1 R SH AH0 N Z
+martin M AA1 R T AH0 N
+martinez M AA0 R T IY1 N EH0 Z
+martini M AA0 R T IY1 N IY0
+martinis M AA0 R T IY1 N IY0 Z
+martins M AA1 R T IH0 N Z
+martyr M AA1 R T ER0
+martyrdom M AA1 R T ER0 D AH0 M
+martyred M AA1 R T ER0 D
+martyrs M AA1 R T ER0 Z
+marvel M AA1 R V AH0 L
+marvellous M AA1 R V AH0 L AH0 S
+marvelous M AA1 R V AH0 L AH0 S
+marx M AA1 R K S
+marxist M AA1 R K S AH0 S T
+mary M EH1 R IY0
+maryland M EH1 R AH0 L AH0 N D
+marzipan M AA1 R Z AH0 P AE0 N
+mas M AA1 Z
+masa M AA1 S AA0
+mascara M AE0 S K EH1 R AH0
+mascot M AE1 S K AH0 T
+masculine M AE1 S K Y AH0 L AH0 N
+masculinity M AE2 S K Y AH0 L IH1 N AH0 T IY0
+mash M AE1 SH
+mashed M AE1 SH T
+mask M AE1 S K
+masked M AE1 S K T
+masking M AE1 S K IH0 NG
+masks M AE1 S K S
+masochist M AE1 S AH0 K IH0 S T
+mason M EY1 S AH0 N
+masquerade M AE2 S K ER0 EY1 D
+masquerading M AE2 S K ER0 EY1 D IH0 NG
+mass M AE1 S
+massa M AE1 S AH0
+massachusetts M AE2 S AH0 CH UW1 S AH0 T S
+massacre M AE1 S AH0 K ER0
+massacred M AE1 S AH0 K ER0 D
+massacres M AE1 S IH0 K ER0 Z
+massage M AH0 S AA1 ZH
+massaged M AH0 S AA1 ZH D
+massager M AH0 S AA1 ZH ER0
+massages M AH0 S AA1 ZH IH0 Z
+massaging M AH0 S AA1 ZH IH0 NG
+masse M AE1 S
+masses M AE1 S AH0 Z
+massing M AE1 S IH0 NG
+massive M AE1 S IH0 V
+mast M AE1 S T
+master M AE1 S T ER0
+mastered M AE1 S T ER0 D
+masterful M AE1 S T ER0 F AH0 L
+mastering M AE1 S T ER0 IH0 NG
+mastermind M AE1 S T ER0 M AY2 N D
+masterminded M AE1 S T ER0 M AY2 N D IH0 D
+masterpiece M AE1 S T ER0 P IY2 S
+masterpieces M AE1 S T ER0 P IY2 S AH0 Z
+masters M AE1 S T ER0 Z
+mastery M AE1 S T ER0 IY0
+mastodon M AE1 S T AH0 D AO2 N
+masturbate M AE1 S T ER0 B EY2 T
+masturbated M AE1 S T ER0 B EY2 T IH0 D
+masturbating M AE1 S T ER0 B EY2 T IH0 NG
+masturbation M AE2 S T ER0 B EY1 SH AH0 N
+mat M AE1 T
+matador M AE1 T AH0 D AO2 R
+match M AE1 CH
+matchbook M AE1 CH B UH2 K
+matchbox M AE1 CH B AA2 K S
+matched M AE1 CH T
+matches M AE1 CH AH0 Z
+matching M AE1 CH IH0 NG
+matchmaker M AE1 CH M EY2 K ER0
+matchmaking M AE1 CH M EY2 K IH0 NG
+mate M EY1 T
+mated M EY1 T IH0 D
+mater M AA1 T ER0
+material M AH0 T IH1 R IY0 AH0 L
+materialism M AH0 T IH1 R IY0 AH0 L IH2 Z AH0 M
+materialistic M AH0 T IH2 R IY0 AH0 L IH1 S T IH0 K
+materialize M AH0 T IH1 R IY0 AH0 L AY2 Z
+materials M AH0 T IH1 R IY0 AH0 L Z
+maternal M AH0 T ER1 N AH0 L
+maternity M AH0 T ER1 N IH0 T IY0
+mates M EY1 T S
+matey M EY1 T IY0
+math M AE1 TH
+mathematic M AE2 TH AH0 M AE1 T IH0 K
+mathematical M AE2 TH AH0 M AE1 T IH0 K AH0 L
+mathematically M AE2 TH AH0 M AE1 T IH0 K AH0 L IY0
+mathematician M AE2 TH AH0 M AH0 T IH1 SH AH0 N
+mathematicians M AE2 TH AH0 M AH0 T IH1 SH AH0 N Z
+mathematics M AE2 TH AH0 M AE1 T IH0 K S
+matilda M AH0 T IH1 L D AH0
+matinee M AE1 T IH0 N EY2
+matinees M AE2 T IH0 N EY1 Z
+mating M EY1 T IH0 NG
+matriarch M EY1 T R IY0 AA2 R K
+matrimonial M AE2 T R AH0 M OW1 N IY0 AH0 L
+matrimony M AE1 T R AH0 M OW2 N IY0
+matrix M EY1 T R IH0 K S
+matron M EY1 T R AH0 N
+mats M AE1 T S
+matt M AE1 T
+matte M AE1 T
+matter M AE1 T ER0
+mattered M AE1 T ER0 D
+matters M AE1 T ER0 Z
+matthew M AE1 TH Y UW0
+mattocks M AE1 T AH0 K S
+mattress M AE1 T R AH0 S
+mattresses M AE1 T R AH0 S AH0 Z
+mature M AH0 CH UH1 R
+matured M AH0 T Y UH1 R D
+maturity M AH0 CH UH1 R AH0 T IY0
+mau M OW1
+maud M AO1 D
+maudlin M AO1 D L IH0 N
+maul M AO1 L
+mauled M AO1 L D
+mauser M AW1 S ER0
+mausoleum M AO2 S AH0 L IY1 AH0 M
+mauve M AO1 V
+maverick M AE1 V ER0 IH0 K
+mavericks M AE1 V ER0 IH0 K S
+mavis M EY1 V IH0 S
+max M AE1 K S
+maxed M AE1 K S T
+maxi M AE1 K S IY0
+maxim M AE1 K S AH0 M
+maximize M AE1 K S AH0 M AY2 Z
+maximum M AE1 K S AH0 M AH0 M
+maximus M AE1 K S AH0 M AH0 S
+maxwell M AE1 K S W EH2 L
+may M EY1
+maya M AY1 AH0
+mayan M AY1 AH0 N
+mayans M AY1 AH0 N Z
+maybe M EY1 B IY0
+mayberry M EY1 B EH2 R IY0
+mayday M EY1 D EY0
+mayflower M EY1 F L AW2 ER0
+mayhem M EY1 HH EH2 M
+mayo M EY1 OW0
+mayonnaise M EY1 AH0 N EY2 Z
+mayor M EY1 ER0
+mays M EY1 Z
+maze M EY1 Z
+mazel M AH1 Z AH0 L
+mc M IH0 K
+mccoy M AH0 K OY1
+mcdonald M AH0 K D AA1 N AH0 L D
+md EH2 M D IY1
+me M IY1
+mea M IY1
+mead M IY1 D
+meadow M EH1 D OW2
+meadows M EH1 D OW2 Z
+meager M IY1 G ER0
+meal M IY1 L
+meals M IY1 L Z
+mean M IY1 N
+meaner M IY1 N ER0
+meanest M IY1 N AH0 S T
+meaning M IY1 N IH0 NG
+meaningful M IY1 N IH0 NG F AH0 L
+meaningless M IY1 N IH0 NG L AH0 S
+meanings M IY1 N IH0 NG Z
+meanness M IY1 N N AH0 S
+means M IY1 N Z
+meant M EH1 N T
+meantime M IY1 N T AY2 M
+meanwhile M IY1 N W AY2 L
+measles M IY1 Z AH0 L Z
+measly M IY1 Z L IY0
+measure M EH1 ZH ER0
+measured M EH1 ZH ER0 D
+measurement M EH1 ZH ER0 M AH0 N T
+measurements M EH1 ZH ER0 M AH0 N T S
+measures M EH1 ZH ER0 Z
+measuring M EH1 ZH ER0 IH0 NG
+meat M IY1 T
+meatball M IY1 T B AO2 L
+meatballs M IY1 T B AO2 L Z
+meatloaf M IY1 T L OW0 F
+meats M IY1 T S
+meaty M IY1 T IY0
+mecca M EH1 K AH0
+mechanic M AH0 K AE1 N IH0 K
+mechanical M AH0 K AE1 N IH0 K AH0 L
+mechanics M AH0 K AE1 N IH0 K S
+mechanism M EH1 K AH0 N IH2 Z AH0 M
+mechanisms M EH1 K AH0 N IH2 Z AH0 M Z
+mechanized M EH1 K AH0 N AY2 Z D
+med M EH1 D
+medal M EH1 D AH0 L
+medallion M AH0 D AE1 L Y AH0 N
+medals M EH1 D AH0 L Z
+meddle M EH1 D AH0 L
+meddlesome M EH1 D AH0 L S AH0 M
+meddling M EH1 D AH0 L IH0 NG
+medea M AH0 D IY1 AH0
+media M IY1 D IY0 AH0
+medial M IY1 D IY0 AH0 L
+median M IY1 D IY0 AH0 N
+mediate M IY1 D IY0 EY2 T
+mediation M IY2 D IY0 EY1 SH AH0 N
+mediator M IY1 D IY0 EY2 T ER0
+medic M EH1 D IH0 K
+medicaid M EH1 D AH0 K EY2 D
+medical M EH1 D AH0 K AH0 L
+medically M EH1 D AH0 K L IY0
+medicare M EH1 D AH0 K EH2 R
+medicate M EH1 D IH0 K EY2 T
+medicated M EH1 D IH0 K EY2 T IH0 D
+medication M EH2 D AH0 K EY1 SH AH0 N
+medications M EH2 D AH0 K EY1 SH AH0 N Z
+medicinal M AH0 D IH1 S AH0 N AH0 L
+medicine M EH1 D AH0 S AH0 N
+medicines M EH1 D AH0 S AH0 N Z
+medics M EH1 D IH0 K S
+medieval M IH0 D IY1 V AH0 L
+medina M AH0 D AY1 N AH0
+mediocre M IY2 D IY0 OW1 K ER0
+mediocrity M IY2 D IY0 AA1 K R AH0 T IY0
+meditate M EH1 D AH0 T EY2 T
+meditating M EH1 D AH0 T EY2 T IH0 NG
+meditation M EH2 D AH0 T EY1 SH AH0 N
+mediterranean M EH2 D AH0 T ER0 EY1 N IY0 AH0 N
+medium M IY1 D IY0 AH0 M
+mediums M IY1 D IY0 AH0 M Z
+medley M EH1 D L IY0
+medulla M IH0 D AH1 L AH0
+medusa M AH0 D UW1 S AH0
+mee M IY1
+meek M IY1 K
+meeker M IY1 K ER0
+meer M IY1 ER0
+meet M IY1 T
+meeting M IY1 T IH0 NG
+meetings M IY1 T IH0 NG Z
+meets M IY1 T S
+meg M EH1 G
+mega M EH1 G AH0
+megabyte M EH1 G AH0 B AY2 T
+megalomaniac M EH2 G AH0 L OW0 M EY1 N IY0 AE2 K
+megaphone M EH1 G AH0 F OW2 N
+megatron M EH1 G AH0 T R AA2 N
+mein M IY1 N
+mel M EH1 L
+melancholy M EH1 L AH0 N K AA2 L IY0
+melanoma M EH2 L AH0 N OW1 M AH0
+melba M EH1 L B AH0
+melbourne M EH1 L B ER0 N
+melee M EY1 L EY2
+melissa M AH0 L IH1 S AH0
+mellon M EH1 L AH0 N
+mellow M EH1 L OW0
+mellowed M EH1 L OW0 D
+melodies M EH1 L AH0 D IY0 Z
+melodrama M EH1 L AH0 D R AA2 M AH0
+melodramatic M EH2 L AH0 D R AH0 M AE1 T IH0 K
+melody M EH1 L AH0 D IY0
+melon M EH1 L AH0 N
+melons M EH1 L AH0 N Z
+melt M EH1 L T
+meltdown M EH1 L T D AW2 N
+melted M EH1 L T AH0 D
+melting M EH1 L T IH0 NG
+melton M EH1 L T AH0 N
+melts M EH1 L T S
+member M EH1 M B ER0
+members M EH1 M B ER0 Z
+membership M EH1 M B ER0 SH IH2 P
+membrane M EH1 M B R EY2 N
+membranes M EH1 M B R EY2 N Z
+memento M IH0 M EH1 N T OW0
+mementos M IH0 M EH1 N T OW0 Z
+memo M EH1 M OW2
+memoirs M EH1 M W AA2 R Z
+memorabilia M EH2 M ER0 AH0 B IY1 L Y AH0
+memorable M EH1 M ER0 AH0 B AH0 L
+memorandum M EH2 M ER0 AE1 N D AH0 M
+memorial M AH0 M AO1 R IY0 AH0 L
+memories M EH1 M ER0 IY0 Z
+memorize M EH1 M ER0 AY2 Z
+memorized M EH1 M ER0 AY2 Z D
+memorizing M EH1 M ER0 AY2 Z IH0 NG
+memory M EH1 M ER0 IY0
+memos M EH1 M OW0 Z
+memphis M EH1 M F AH0 S
+men M EH1 N
+menace M EH1 N AH0 S
+menacing M EH1 N AH0 S IH0 NG
+menagerie M AH0 N AE1 JH ER0 IY0
+mend M EH1 N D
+mendacity M EH0 N D AE1 S IH0 T IY0
+mended M EH1 N D IH0 D
+mendel M EH1 N D AH0 L
+mendelssohn M EH1 N D AH0 L S AH0 N
+mending M EH1 N D IH0 NG
+meng M EH1 NG
+menial M IY1 N IY0 AH0 L
+meningitis M EH2 N AH0 N JH AY1 T AH0 S
+menopause M EH1 N AH0 P AW2 Z
+mens M EH1 N Z
+mensch M EH1 N SH
+menstrual M EH1 N S T R UW0 AH0 L
+menstruation M EH2 N S T R UW0 EY1 SH AH0 N
+mental M EH1 N T AH0 L
+mentality M EH0 N T AE1 L AH0 T IY0
+mentally M EH1 N T AH0 L IY0
+menthol M EH1 N TH AO0 L
+mention M EH1 N SH AH0 N
+mentioned M EH1 N SH AH0 N D
+mentioning M EH1 N SH AH0 N IH0 NG
+mentions M EH1 N SH AH0 N Z
+mentor M EH1 N T AO2 R
+menu M EH1 N Y UW0
+menus M EH1 N Y UW0 Z
+meow M IY0 AW1
+mer M EH1 R
+merc M ER1 K
+mercenaries M ER1 S AH0 N EH2 R IY0 Z
+mercenary M ER1 S AH0 N EH2 R IY0
+mercer M ER1 S ER0
+merchandise M ER1 CH AH0 N D AY2 Z
+merchandising M ER1 CH AH0 N D AY2 Z IH0 NG
+merchant M ER1 CH AH0 N T
+merchants M ER1 CH AH0 N T S
+merci M ER0 S IY1
+merciful M ER1 S IH0 F AH0 L
+mercifully M ER1 S IH0 F AH0 L IY2
+merciless M ER1 S AH0 L AH0 S
+mercilessly M ER1 S AH0 L AH0 S L IY0
+mercury M ER1 K Y ER0 IY0
+mercy M ER1 S IY0
+mere M IH1 R
+merely M IH1 R L IY0
+merengue M ER0 EY1 NG
+merge M ER1 JH
+merged M ER1 JH D
+merger M ER1 JH ER0
+mergers M ER1 JH ER0 Z
+merging M ER1 JH IH0 NG
+meridian M ER0 IH1 D IY0 AH0 N
+merit M EH1 R AH0 T
+merits M EH1 R AH0 T S
+merl M ER1 L
+merle M ER1 L
+merlin M ER1 L IH0 N
+mermaid M ER1 M EY2 D
+mermaids M ER1 M EY2 D Z
+merman M ER1 M AE2 N
+merrier M EH1 R IY0 ER0
+merrily M EH1 R AH0 L IY0
+merry M EH1 R IY0
+merv M ER1 V
+mesa M EY1 S AH0
+mescaline M EH1 S K AH0 L IY2 N
+mesdames M EY0 D AE1 M Z
+mesh M EH1 SH
+mesmerized M EH1 Z M ER0 AY2 Z D
+mess M EH1 S
+message M EH1 S AH0 JH
+messages M EH1 S AH0 JH AH0 Z
+messed M EH1 S T
+messenger M EH1 S AH0 N JH ER0
+messengers M EH1 S AH0 N JH ER0 Z
+messer M EH1 S ER0
+messes M EH1 S IH0 Z
+messiah M AH0 S AY1 AH0
+messieurs M EY0 S Y ER1 Z
+messing M EH1 S IH0 NG
+messrs M EH1 S ER0 Z
+messy M EH1 S IY0
+met M EH1 T
+meta M IY1 T AH0
+metabolic M EH2 T AH0 B AA1 L IH0 K
+metabolism M AH0 T AE1 B AH0 L IH2 Z AH0 M
+metal M EH1 T AH0 L
+metallic M AH0 T AE1 L IH0 K
+metals M EH1 T AH0 L Z
+metamorphosis M EH2 T AH0 M AO1 R F AH0 S AH0 S
+metaphor M EH1 T AH0 F AO0 R
+metaphorical M EH2 T AH0 F AO1 R IH0 K AH0 L
+metaphorically M EH2 T AH0 F AO1 R IH0 K L IY0
+metaphors M EH1 T AH0 F AO0 R Z
+metaphysical M EH2 T AH0 F IH1 Z IH0 K AH0 L
+meteor M IY1 T IY0 ER0
+meteorite M IY1 T IY0 AO0 R AY2 T
+meteorological M IY2 T IY0 AO2 R AH0 L AA1 JH IH0 K AH0 L
+meteors M IY1 T IY0 ER0 Z
+meter M IY1 T ER0
+meters M IY1 T ER0 Z
+meth M EH1 TH
+methadone M EH1 TH AH0 D OW2 N
+methamphetamine M EH2 TH AE0 M F EH1 T AH0 M IY0 N
+methane M EH1 TH EY2 N
+method M EH1 TH AH0 D
+methodical M AH0 TH AA1 D AH0 K AH0 L
+methodically M AH0 TH AA1 D IH0 K AH0 L IY0
+methodist M EH1 TH AH0 D AH0 S T
+methodology M EH2 TH AH0 D AA1 L AH0 JH IY0
+methods M EH1 TH AH0 D Z
+methuselah M AH0 TH Y UW1 Z AH0 L AH0
+meticulous M AH0 T IH1 K Y AH0 L AH0 S
+meticulously M AH0 T IH1 K Y AH0 L AH0 S L IY0
+metre M IY1 T ER0
+metres M IY1 T ER0 Z
+metric M EH1 T R IH0 K
+metro M EH1 T R OW2
+metropolis M AH0 T R AA1 P AH0 L AH0 S
+metropolitan M EH2 T R AH0 P AA1 L AH0 T AH0 N
+mets M EH1 T S
+mettle M EH1 T AH0 L
+mew M Y UW1
+mexican M EH1 K S AH0 K AH0 N
+mexicans M EH1 K S IH0 K AH0 N Z
+mexico M EH1 K S AH0 K OW2
+mezzanine M EH1 Z AH0 N IY2 N
+mg EH2 M G IY1
+mi M IY1
+mia M IY1 AH0
+miami M AY0 AE1 M IY0
+mic M IH1 K
+micah M AY1 K AH0
+mice M AY1 S
+michael M AY1 K AH0 L
+michelangelo M AY2 K AH0 L AE1 N JH AH0 L OW2
+michigan M IH1 SH IH0 G AH0 N
+mick M IH1 K
+mickey M IH1 K IY0
+mickle M IH1 K AH0 L
+micky M IH1 K IY0
+micro M AY1 K R OW2
+microbes M AY1 K R OW2 B Z
+microchip M AY1 K R OW2 CH IH1 P
+microchips M AY1 K R OW2 CH IH1 P S
+microfilm M AY1 K R AH0 F IH2 L M
+microphone M AY1 K R AH0 F OW2 N
+microphones M AY1 K R OW0 F OW2 N Z
+microprocessor M AY2 K R OW0 P R AA1 S EH0 S ER0
+microscope M AY1 K R AH0 S K OW2 P
+microscopic M AY2 K R AH0 S K AA1 P IH0 K
+microwave M AY1 K R AH0 W EY2 V
+microwaves M AY1 K R OW0 W EY2 V Z
+mid M IH1 D
+midair M IH1 D EH1 R
+midas M AY1 D AH0 S
+midday M IH1 D D EY2
+middle M IH1 D AH0 L
+middleman M IH1 D AH0 L M AE2 N
+middlemen M IH1 D AH0 L M EH2 N
+middleweight M IH1 D AH0 L W EY2 T
+midge M IH1 JH
+midget M IH1 JH AH0 T
+midgets M IH1 JH AH0 T S
+midland M IH1 D L AE2 N D
+midlife M IH1 D L AY2 F
+midline M IH1 D L AY2 N
+midnight M IH1 D N AY2 T
+midsection M IH1 D S EH2 K SH AH0 N
+midshipman M IH1 D SH IH1 P M AH0 N
+midst M IH1 D S T
+midsummer M IH1 D S AH1 M ER0
+midterm M IH1 D T ER2 M
+midterms M IH1 D T ER2 M Z
+midtown M IH1 D T AW2 N
+midway M IH1 D W EY2
+midwest M IH2 D W EH1 S T
+midwestern M IH0 D W EH1 S T ER0 N
+midwife M IH1 D W AY2 F
+miffed M IH1 F T
+mig M IH1 G
+might M AY1 T
+mightier M AY1 T IY0 ER0
+mightiest M AY1 T IY0 AH0 S T
+mighty M AY1 T IY0
+mignon M IH1 G N AH0 N
+migraine M AY1 G R EY2 N
+migraines M AY1 G R EY2 N Z
+migrate M AY1 G R EY2 T
+migrated M AY1 G R EY2 T IH0 D
+migrating M AY1 G R EY2 T IH0 NG
+migration M AY0 G R EY1 SH AH0 N
+migratory M AY1 G R AH0 T AO2 R IY0
+migs M IH1 G Z
+mikado M IH0 K AA1 D OW0
+mike M AY1 K
+mikes M AY1 K S
+mil M IH1 L
+milady M IH0 L EY1 D IY2
+milan M AH0 L AA1 N
+mild M AY1 L D
+mildew M IH1 L D UW2
+mildly M AY1 L D L IY0
+mildred M IH1 L D R IH0 D
+mile M AY1 L
+mileage M AY1 L AH0 JH
+miles M AY1 L Z
+milestone M AY1 L S T OW2 N
+militant M IH1 L AH0 T AH0 N T
+militarily M IH2 L AH0 T EH1 R AH0 L IY0
+military M IH1 L AH0 T EH2 R IY0
+militia M AH0 L IH1 SH AH0
+milk M IH1 L K
+milked M IH1 L K T
+milking M IH1 L K IH0 NG
+milkman M IH1 L K M AE2 N
+milkshake M IH1 L K SH EY2 K
+milky M IH1 L K IY0
+mill M IH1 L
+millard M IH1 L ER0 D
+mille M IH1 L
+millennia M AH0 L EH1 N IY0 AH0
+millennium M AH0 L EH1 N IY0 AH0 M
+miller M IH1 L ER0
+millet M IH1 L AH0 T
+milligram M IH1 L AH0 G R AE2 M
+milligrams M IH1 L AH0 G R AE2 M Z
+milliliter M IH1 L AH0 L IY2 T ER0
+millimeter M IH1 L AH0 M IY2 T ER0
+millimeters M IH1 L AH0 M IY2 T ER0 Z
+milling M IH1 L IH0 NG
+million M IH1 L Y AH0 N
+millionaire M IH2 L Y AH0 N EH1 R
+millionaires M IH2 L Y AH0 N EH1 R Z
+millions M IH1 L Y AH0 N Z
+millionth M IH1 L Y AH0 N TH
+millisecond M IH1 L IH0 S EH2 K AH0 N D
+millman M IH1 L M AH0 N
+mills M IH1 L Z
+millstone M IH1 L S T OW2 N
+milly M IH1 L IY0
+milo M AY1 L OW0
+mils M IH1 L Z
+milt M IH1 L T
+milton M IH1 L T AH0 N
+milwaukee M IH0 L W AO1 K IY0
+mim M IH1 M
+mime M AY1 M
+mimic M IH1 M IH0 K
+mimicking M IH1 M IH0 K IH0 NG
+mimics M IH1 M IH0 K S
+mimosa M IH0 M OW1 S AH0
+min M IH1 N
+mina M IY1 N AH0
+minas M IY1 N AH0 S
+mince M IH1 N S
+mincemeat M IH1 N S M IY2 T
+mincing M IH1 N S IH0 NG
+mind M AY1 N D
+minded M AY1 N D AH0 D
+mindful M AY1 N D F AH0 L
+minding M AY1 N D IH0 NG
+mindless M AY1 N D L AH0 S
+minds M AY1 N D Z
+mindset M AY1 N D S EH2 T
+mine M AY1 N
+mined M AY1 N D
+minefield M AY1 N F IY2 L D
+minefields M AY1 N F IY2 L D Z
+miner M AY1 N ER0
+mineral M IH1 N ER0 AH0 L
+minerals M IH1 N ER0 AH0 L Z
+miners M AY1 N ER0 Z
+minerva M AH0 N ER1 V AH0
+mines M AY1 N Z
+ming M IH1 NG
+mingle M IH1 NG G AH0 L
+mingling M IH1 NG G AH0 L IH0 NG
+mini M IH1 N IY0
+miniature M IH1 N IY0 AH0 CH UH2 R
+minibus M IH1 N IY0 B AH2 S
+minimal M IH1 N AH0 M AH0 L
+minimize M IH1 N AH0 M AY2 Z
+minimum M IH1 N AH0 M AH0 M
+mining M AY1 N IH0 NG
+minion M IH1 N Y AH0 N
+minions M IH1 N Y AH0 N Z
+miniskirt M IH1 N IY0 S K ER2 T
+minister M IH1 N AH0 S T ER0
+ministers M IH1 N AH0 S T ER0 Z
+ministry M IH1 N AH0 S T R IY0
+minivan M IH1 N IY0 V AE1 N
+mink M IH1 NG K
+minneapolis M IH2 N IY0 AE1 P AH0 L IH0 S
+minnesota M IH2 N IH0 S OW1 T AH0
+minnie M IH1 N IY0
+minnow M IH1 N OW0
+minnows M IH1 N OW0 Z
+minor M AY1 N ER0
+minorities M AY0 N AO1 R AH0 T IY0 Z
+minority M AY0 N AO1 R AH0 T IY0
+minors M AY1 N ER0 Z
+minstrel M IH1 N S T R AH0 L
+mint M IH1 N T
+minted M IH1 N T IH0 D
+mints M IH1 N T S
+minuet M IH0 N Y UW2 EH1 T
+minus M AY1 N AH0 S
+minuscule M IH1 N AH0 S K Y UW2 L
+minute M IH1 N AH0 T
+minutemen M IH1 N AH0 T M EH2 N
+minutes M IH1 N AH0 T S
+mir M IH1 R
+mirabelle M IH1 R AH0 B EH2 L
+miracle M IH1 R AH0 K AH0 L
+miracles M IH1 R AH0 K AH0 L Z
+miraculous M ER0 AE1 K Y AH0 L AH0 S
+miraculously M ER0 AE1 K Y AH0 L AH0 S L IY0
+mirage M ER0 AA1 ZH
+mire M AY1 R
+mired M AY1 R D
+miriam M IH1 R IY0 AH0 M
+miro M IH1 R OW0
+mirror M IH1 R ER0
+mirrored M IH1 R ER0 D
+mirrors M IH1 R ER0 Z
+mis M IH1 S
+misbehave M IH2 S B AH0 HH EY1 V
+misbehaved M IH2 S B AH0 HH EY1 V D
+misbehaving M IH2 S B AH0 HH EY1 V IH0 NG
+miscalculated M IH0 S K AE1 L K Y AH0 L EY2 T IH0 D
+miscalculation M IH0 S K AE1 L K Y AH0 L EY1 SH AH0 N
+miscarriage M IH0 S K EH1 R AH0 JH
+miscarriages M IH0 S K EH1 R IH0 JH IH0 Z
+miscellaneous M IH2 S AH0 L EY1 N IY0 AH0 S
+mischief M IH1 S CH AH0 F
+mischievous M IH1 S CH AH0 V AH0 S
+miscommunication M IH0 S K AH0 M Y UW2 N AH0 K EY1 SH AH0 N
+misconception M IH0 S K AH0 N S EH1 P SH AH0 N
+misconduct M IH0 S K AA1 N D AH0 K T
+misconstrued M IH2 S K AH0 N S T R UW1 D
+misdemeanor M IH2 S D AH0 M IY1 N ER0
+misdemeanors M IH2 S D AH0 M IY1 N ER0 Z
+misdiagnosed M IH0 S D AY2 IH0 G N OW1 Z D
+miser M AY1 Z ER0
+miserable M IH1 Z ER0 AH0 B AH0 L
+miserably M IH1 Z ER0 AH0 B L IY0
+miseries M IH1 Z ER0 IY0 Z
+misery M IH1 Z ER0 IY0
+misfire M IH0 S F AY1 ER0
+misfit M IH1 S F IH2 T
+misfits M IH1 S F IH2 T S
+misfortune M IH0 S F AO1 R CH AH0 N
+misfortunes M IH0 S F AO1 R CH AH0 N Z
+misgivings M IH0 S G IH1 V IH0 NG Z
+misguided M IH0 S G AY1 D IH0 D
+mishap M IH1 S HH AE2 P
+misinformation M IH2 S IH0 N F ER0 M EY1 SH AH0 N
+misinformed M IH0 S IH0 N F AO1 R M D
+misinterpret M IH0 S IH0 N T ER1 P R AH0 T
+misinterpreted M IH0 S IH0 N T ER1 P R AH0 T IH0 D
+misjudge M IH0 S JH AH1 JH
+misjudged M IH0 S JH AH1 JH D
+mislaid M IH0 S L EY1 D
+mislead M IH0 S L IY1 D
+misleading M IH0 S L IY1 D IH0 NG
+misled M IH0 S L EH1 D
+misplace M IH0 S P L EY1 S
+misplaced M IH0 S P L EY1 S T
+misprint M IH1 S P R IH1 N T
+misquoted M IH0 S K W OW1 T IH0 D
+misread M IH0 S R IY1 D
+misreading M IH0 S R IY1 D IH0 NG
+misrepresented M IH2 S R EH0 P R IH0 Z EH1 N T IH0 D
+miss M IH1 S
+missed M IH1 S T
+misses M IH1 S AH0 Z
+misshapen M IH0 S SH EY1 P AH0 N
+missile M IH1 S AH0 L
+missiles M IH1 S AH0 L Z
+missing M IH1 S IH0 NG
+mission M IH1 SH AH0 N
+missionaries M IH1 SH AH0 N EH2 R IY0 Z
+missionary M IH1 SH AH0 N EH2 R IY0
+missions M IH1 SH AH0 N Z
+missis M IH1 S IH0 Z
+mississippi M IH2 S IH0 S IH1 P IY0
+missouri M AH0 Z UH1 R IY0
+misspelled M IH0 S S P EH1 L D
+misspoke M IH0 S S P OW1 K
+missus M IH1 S IH0 Z
+missy M IH1 S IY0
+mist M IH1 S T
+mistake M IH0 S T EY1 K
+mistaken M IH0 S T EY1 K AH0 N
+mistakenly M IH0 S T EY1 K AH0 N L IY0
+mistakes M IH0 S T EY1 K S
+mistaking M IH0 S T EY1 K IH0 NG
+mister M IH1 S T ER0
+mistletoe M IH1 S AH0 L T OW2
+mistook M IH0 S T UH1 K
+mistreat M IH0 S T R IY1 T
+mistreated M IH0 S T R IY1 T IH0 D
+mistreating M IH0 S T R IY1 T IH0 NG
+mistreatment M IH0 S T R IY1 T M AH0 N T
+mistress M IH1 S T R AH0 S
+mistresses M IH1 S T R AH0 S AH0 Z
+mistrial M IH0 S T R AY1 AH0 L
+mistrust M IH0 S T R AH1 S T
+mists M IH1 S T S
+misty M IH1 S T IY0
+misunderstand M IH2 S AH0 N D ER0 S T AE1 N D
+misunderstanding M IH2 S AH0 N D ER0 S T AE1 N D IH0 NG
+misunderstandings M IH2 S AH0 N D ER0 S T AE1 N D IH0 NG Z
+misunderstood M IH2 S AH0 N D ER0 S T UH1 D
+misuse M IH0 S Y UW1 Z
+misused M IH0 S Y UW1 Z D
+mit EH1 M AY1 T IY1
+mitch M IH1 CH
+mite M AY1 T
+miter M AY1 T ER0
+mites M AY1 T S
+mitigate M IH1 T AH0 G EY2 T
+mitigating M IH1 T AH0 G EY2 T IH0 NG
+mitt M IH1 T
+mitten M IH1 T AH0 N
+mittens M IH1 T AH0 N Z
+mitts M IH1 T S
+mitzvah M IH1 T S V AH0
+mix M IH1 K S
+mixed M IH1 K S T
+mixer M IH1 K S ER0
+mixers M IH1 K S ER0 Z
+mixes M IH1 K S AH0 Z
+mixing M IH1 K S IH0 NG
+mixture M IH1 K S CH ER0
+mm M
+mnemonic N IH0 M AA1 N IH0 K
+mo M OW1
+moan M OW1 N
+moaned M OW1 N D
+moaning M OW1 N IH0 NG
+moans M OW1 N Z
+moat M OW1 T
+mob M AA1 B
+mobbed M AA1 B D
+mobile M OW1 B AH0 L
+mobility M OW0 B IH1 L AH0 T IY0
+mobilization M OW2 B AH0 L AH0 Z EY1 SH AH0 N
+mobilize M OW1 B AH0 L AY2 Z
+mobilized M OW1 B AH0 L AY2 Z D
+mobilizing M OW1 B AH0 L AY2 Z IH0 NG
+mobs M AA1 B Z
+mobster M AA1 B S T ER0
+mobsters M AA1 B S T ER0 Z
+moccasins M AA1 K AH0 S IH0 N Z
+mocha M OW1 K AH0
+mock M AA1 K
+mocked M AA1 K T
+mockery M AA1 K ER0 IY0
+mocking M AA1 K IH0 NG
+mockingbird M AA1 K IH0 NG B ER2 D
+mocks M AA1 K S
+mod M AO1 D
+mode M OW1 D
+model M AA1 D AH0 L
+modeled M AA1 D AH0 L D
+modeling M AA1 D AH0 L IH2 NG
+modelling M AA1 D AH0 L IH2 NG
+models M AA1 D AH0 L Z
+modem M OW1 D AH0 M
+moderate M AA1 D ER0 AH0 T
+moderately M AA1 D ER0 AH0 T L IY0
+moderation M AA2 D ER0 EY1 SH AH0 N
+modern M AA1 D ER0 N
+modes M OW1 D Z
+modest M AA1 D AH0 S T
+modestly M AA1 D AH0 S T L IY0
+modesty M AA1 D AH0 S T IY0
+modicum M AA1 D IH0 K AH0 M
+modification M AA2 D AH0 F AH0 K EY1 SH AH0 N
+modifications M AA2 D AH0 F AH0 K EY1 SH AH0 N Z
+modified M AA1 D AH0 F AY2 D
+modify M AA1 D AH0 F AY2
+module M AA1 JH UW0 L
+modus M OW1 D AH0 S
+moe M OW1
+mogul M OW1 G AH0 L
+mohammed M OW0 HH AE1 M IH0 D
+mohawk M OW1 HH AO2 K
+moi M W AA1
+moira M OY1 R AH0
+moist M OY1 S T
+moisture M OY1 S CH ER0
+moisturizer M OY1 S CH ER0 AY2 Z ER0
+mojo M OW1 JH OW0
+molar M OW1 L AH0 R
+molasses M AH0 L AE1 S AH0 Z
+mold M OW1 L D
+molded M OW1 L D AH0 D
+molding M OW1 L D IH0 NG
+molds M OW1 L D Z
+moldy M OW1 L D IY0
+mole M OW1 L
+molecular M AH0 L EH1 K Y AH0 L ER0
+molecule M AA1 L AH0 K Y UW2 L
+molecules M AA1 L AH0 K Y UW2 L Z
+molehill M OW1 L HH IH2 L
+moles M OW1 L Z
+molest M AH0 L EH1 S T
+molestation M OW2 L EH0 S T EY1 SH AH0 N
+molested M AH0 L EH1 S T IH0 D
+molester M AH0 L EH1 S T ER0
+molesters M AH0 L EH1 S T ER0 Z
+molesting M AH0 L EH1 S T IH0 NG
+moll M AA1 L
+mollie M AA1 L IY0
+molly M AA1 L IY0
+molten M OW1 L T AH0 N
+molting M OW1 L T IH0 NG
+moly M OW1 L IY0
+mom M AA1 M
+moment M OW1 M AH0 N T
+momentarily M OW2 M AH0 N T EH1 R AH0 L IY0
+momentary M OW1 M AH0 N T EH2 R IY0
+momentous M OW0 M EH1 N T AH0 S
+moments M OW1 M AH0 N T S
+momentum M OW0 M EH1 N T AH0 M
+momma M AA1 M AH0
+mommies M AA1 M IY0 Z
+mommy M AA1 M IY0
+moms M AA1 M Z
+mon M OW1 N
+mona M OW1 N AH0
+monaco M AA1 N AH0 K OW2
+monarch M AA1 N AA2 R K
+monarchy M AA1 N AA0 R K IY0
+monasteries M AA1 N AH0 S T EH2 R IY0 Z
+monastery M AA1 N AH0 S T EH2 R IY0
+monday M AH1 N D IY0
+mondays M AH1 N D IY0 Z
+mondo M AA1 N D OW0
+monetary M AA1 N AH0 T EH2 R IY0
+money M AH1 N IY0
+moneymaker M AH1 N IY0 M EY2 K ER0
+moneys M AH1 N IY0 Z
+mong M AO1 NG
+mongol M AA1 NG G AH0 L
+mongolia M AA0 NG G OW1 L IY0 AH0
+mongolian M AA0 NG G OW1 L IY0 AH0 N
+mongoloid M AA1 NG G AH0 L OY2 D
+mongoose M AA1 NG G UW0 S
+monica M AA1 N IH0 K AH0
+monies M AH1 N IY0 Z
+moniker M AA1 N IH0 K ER0
+monitor M AA1 N AH0 T ER0
+monitored M AA1 N AH0 T ER0 D
+monitoring M AA1 N AH0 T ER0 IH0 NG
+monitors M AA1 N AH0 T ER0 Z
+monk M AH1 NG K
+monkey M AH1 NG K IY0
+monkeys M AH1 NG K IY0 Z
+monks M AH1 NG K S
+mono M OW1 N OW0
+monogamous M AH0 N AA1 G AH0 M AH0 S
+monogamy M AH0 N AA1 G AH0 M IY0
+monogram M AA1 N AH0 G R AE2 M
+monogrammed M AA1 N AH0 G R AE2 M D
+monolith M AA1 N AH0 L IH2 TH
+monologue M AA1 N AH0 L AO2 G
+monologues M AA1 N AH0 L AO2 G Z
+monopolize M AH0 N AA1 P AH0 L AY2 Z
+monopoly M AH0 N AA1 P AH0 L IY0
+monotonous M AH0 N AA1 T AH0 N AH0 S
+monotony M AH0 N AA1 T AH0 N IY0
+monoxide M AH0 N AA1 K S AY0 D
+monroe M AH0 N R OW1
+monsieur M AH0 S Y ER1
+monsignor M AA0 N S IY1 N Y ER0
+monsoon M AA0 N S UW1 N
+monster M AA1 N S T ER0
+monsters M AA1 N S T ER0 Z
+monstrosity M AA0 N S T R AA1 S AH0 T IY0
+monstrous M AA1 N S T R AH0 S
+mont M AA1 N T
+montage M AA0 N T AA1 ZH
+montague M AA1 N T AH0 G Y UW2
+montana M AA0 N T AE1 N AH0
+monte M AA1 N T IY0
+monterey M AA2 N T ER0 EY1
+montero M AA0 N T EH1 R OW0
+montezuma M AA2 N T IH0 Z UW1 M AH0
+montgomery M AA0 N T G AH1 M R IY0
+month M AH1 N TH
+monthly M AH1 N TH L IY0
+months M AH1 N TH S
+montreal M AH2 N T R IY0 AO1 L
+monument M AA1 N Y UW0 M AH0 N T
+monumental M AA2 N Y AH0 M EH1 N T AH0 L
+monumentally M AA2 N Y AH0 M EH1 N T AH0 L IY0
+monuments M AA1 N Y AH0 M AH0 N T S
+moo M UW1
+mood M UW1 D
+moods M UW1 D Z
+moody M UW1 D IY0
+moon M UW1 N
+moonbeam M UW1 N B IY2 M
+moonbeams M UW1 N B IY2 M Z
+moonlight M UW1 N L AY2 T
+moonlighting M UW1 N L AY2 T IH0 NG
+moonlit M UW1 N L IH2 T
+moons M UW1 N Z
+moonshine M UW1 N SH AY2 N
+moor M UH1 R
+moore M UH1 R
+moors M UH1 R Z
+moos M UW1 Z
+moose M UW1 S
+moot M UW1 T
+mop M AA1 P
+mope M OW1 P
+moped M OW1 P T
+moping M OW1 P IH0 NG
+mopped M AA1 P T
+mopping M AA1 P IH0 NG
+mops M AA1 P S
+mora M AO1 R AH0
+moral M AO1 R AH0 L
+morale M ER0 AE1 L
+morales M ER0 AE1 L Z
+morality M ER0 AE1 L AH0 T IY0
+morally M AO1 R AH0 L IY0
+morals M AO1 R AH0 L Z
+moratorium M AO2 R AH0 T AO1 R IY0 AH0 M
+moray M ER0 EY1
+morbid M AO1 R B AH0 D
+mordecai M AO1 R D AH0 K AY2
+more M AO1 R
+morello M ER0 EH1 L OW0
+moreover M AO0 R OW1 V ER0
+mores M AO1 R EY2 Z
+morgan M AO1 R G AH0 N
+morgenstern M AO1 R G IH0 N S T ER0 N
+morgue M AO1 R G
+mormon M AO1 R M AH0 N
+mormons M AO1 R M AH0 N Z
+morn M AO1 R N
+morning M AO1 R N IH0 NG
+mornings M AO1 R N IH0 NG Z
+moroccan M ER0 AA1 K AH0 N
+morocco M ER0 AA1 K OW0
+moron M AO1 R AA2 N
+morons M AO1 R AA2 N Z
+morose M ER0 OW1 S
+morph M AO1 R F
+morpheus M AO1 R F IY2 AH0 S
+morphine M AO1 R F IY0 N
+morris M AO1 R AH0 S
+morrow M AA1 R OW0
+morse M AO1 R S
+morsel M AO1 R S AH0 L
+mort M AO1 R T
+mortal M AO1 R T AH0 L
+mortality M AO0 R T AE1 L AH0 T IY0
+mortally M AO1 R T AH0 L IY0
+mortals M AO1 R T AH0 L Z
+mortar M AO1 R T ER0
+mortars M AO1 R T ER0 Z
+mortgage M AO1 R G AH0 JH
+mortgaged M AO1 R G IH0 JH D
+mortgages M AO1 R G AH0 JH AH0 Z
+mortician M AO0 R T IH1 SH AH0 N
+mortified M AO1 R T AH0 F AY2 D
+mortis M AO1 R T IH0 S
+mortuary M AO1 R CH UW0 EH2 R IY0
+mos M AO1 S
+mosaic M OW0 Z EY1 IH0 K
+moscow M AA1 S K OW2
+moses M OW1 Z AH0 S
+mosey M OW1 Z IY0
+mosque M AA1 S K
+mosquito M AH0 S K IY1 T OW0
+mosquitoes M AH0 S K IY1 T OW0 Z
+moss M AO1 S
+most M OW1 S T
+mostly M OW1 S T L IY0
+motel M OW0 T EH1 L
+motels M OW0 T EH1 L Z
+moth M AO1 TH
+mothballs M AO1 TH B AO2 L Z
+mother M AH1 DH ER0
+motherfucker M AH1 DH ER0 F AH2 K ER0
+motherfuckers M AH1 DH ER0 F AH2 K ER0 Z
+motherfucking M AH1 DH ER0 F AH2 K IH0 NG
+motherhood M AH1 DH ER0 HH UH2 D
+mothering M AH1 DH ER0 IH0 NG
+motherland M AH1 DH ER0 L AE2 N D
+motherless M AH1 DH ER0 L IH0 S
+motherly M AH1 DH ER0 L IY0
+mothers M AH1 DH ER0 Z
+moths M AO1 TH S
+motif M OW0 T IY1 F
+motion M OW1 SH AH0 N
+motionless M OW1 SH AH0 N L AH0 S
+motions M OW1 SH AH0 N Z
+motivate M OW1 T AH0 V EY2 T
+motivated M OW1 T AH0 V EY2 T AH0 D
+motivation M OW2 T AH0 V EY1 SH AH0 N
+motivational M OW2 T AH0 V EY1 SH AH0 N AH0 L
+motivations M OW2 T AH0 V EY1 SH AH0 N Z
+motivator M OW1 T AH0 V EY0 T ER0
+motive M OW1 T IH0 V
+motives M OW1 T IH0 V Z
+motley M AA1 T L IY0
+motor M OW1 T ER0
+motorbike M OW1 T ER0 B AY2 K
+motorboat M OW1 T ER0 B OW2 T
+motorcade M OW1 T ER0 K EY2 D
+motorcar M OW1 T ER0 K AA2 R
+motorcycle M OW1 T ER0 S AY2 K AH0 L
+motorcycles M OW1 T ER0 S AY2 K AH0 L Z
+motoring M OW1 T ER0 IH0 NG
+motorist M OW1 T ER0 IH0 S T
+motorized M OW1 T ER0 AY2 Z D
+motors M OW1 T ER0 Z
+mott M AA1 T
+motto M AA1 T OW0
+mould M OW1 L D
+moulin M UW0 L AE1 N
+mound M AW1 N D
+mounds M AW1 N D Z
+mount M AW1 N T
+mountain M AW1 N T AH0 N
+mountaineer M AW1 N T IH0 N IH2 R
+mountains M AW1 N T AH0 N Z
+mountainside M AW1 N T AH0 N S AY2 D
+mountaintop M AW1 N T AH0 N T AA2 P
+mounted M AW1 N T AH0 D
+mounties M AW1 N T IY0 Z
+mounting M AW1 N T IH0 NG
+mounts M AW1 N T S
+mourn M AO1 R N
+mourned M AO1 R N D
+mourners M AO1 R N ER0 Z
+mournful M AO1 R N F AH0 L
+mourning M AO1 R N IH0 NG
+mourns M AO1 R N Z
+mouse M AW1 S
+mousetrap M AW1 S T R AE2 P
+mousse M UW1 S
+moustache M AH1 S T AE2 SH
+mousy M AW1 S IY0
+mouth M AW1 TH
+mouthed M AW1 DH D
+mouthful M AW1 TH F UH2 L
+mouthing M AW1 DH IH0 NG
+mouthpiece M AW1 TH P IY2 S
+mouths M AW1 DH Z
+mouthwash M AW1 TH W AA2 SH
+movable M UW1 V AH0 B AH0 L
+move M UW1 V
+moved M UW1 V D
+movement M UW1 V M AH0 N T
+movements M UW1 V M AH0 N T S
+mover M UW1 V ER0
+movers M UW1 V ER0 Z
+moves M UW1 V Z
+movie M UW1 V IY0
+movies M UW1 V IY0 Z
+moving M UW1 V IH0 NG
+mow M OW1
+mowed M OW1 D
+mower M OW1 ER0
+mowing M AW1 IH0 NG
+moxie M AA1 K S IY0
+moya M OY1 AH0
+mozambique M OW2 Z AE0 M B IY1 K
+mozart M OW1 Z AA0 R T
+mozzarella M AA2 T S AH0 R EH1 L AH0
+mph EH1 M P IY1 EY1 CH
+mr M IH1 S T ER0
+mrs M IH1 S IH0 Z
+ms M IH1 Z
+mt M AW1 N T
+mu M UW1
+much M AH1 CH
+muck M AH1 K
+mucking M AH1 K IH0 NG
+muckle M AH1 K AH0 L
+mucous M Y UW1 K AH0 S
+mucus M Y UW1 K AH0 S
+mud M AH1 D
+mudd M AH1 D
+muddle M AH1 D AH0 L
+muddled M AH1 D AH0 L D
+muddy M AH1 D IY0
+muff M AH1 F
+muffin M AH1 F AH0 N
+muffins M AH1 F AH0 N Z
+muffled M AH1 F AH0 L D
+muffler M AH1 F L ER0
+muffy M AH1 F IY0
+mug M AH1 G
+mugged M AH1 G D
+mugger M AH1 G ER0
+muggers M AH1 G ER0 Z
+mugging M AH1 G IH0 NG
+mugs M AH1 G Z
+muhammad M UH0 HH AA1 M AH0 D
+muir M Y UH1 R
+mulberry M AH1 L B EH2 R IY0
+mulch M AH1 L CH
+mulder M AH1 L D ER0
+mule M Y UW1 L
+mules M Y UW1 L Z
+mull M AH1 L
+mullen M AH1 L AH0 N
+muller M AH1 L ER0
+mullet M AH1 L AH0 T
+mulligan M AH1 L IH0 G AH0 N
+mulling M AH1 L IH0 NG
+multimedia M AH2 L T IY0 M IY1 D IY0 AH0
+multimillionaire M AH2 L T IY0 M IH2 L Y AH0 N EH1 R
+multinational M AH2 L T AY2 N AE1 SH AH0 N AH0 L
+multiple M AH1 L T AH0 P AH0 L
+multiples M AH1 L T AH0 P AH0 L Z
+multiplex M AH1 L T IY0 P L EH2 K S
+multiplication M AH2 L T AH0 P L AH0 K EY1 SH AH0 N
+multiplied M AH1 L T AH0 P L AY2 D
+multiply M AH1 L T AH0 P L AY2
+multiplying M AH1 L T AH0 P L AY2 IH0 NG
+multitude M AH1 L T AH0 T UW2 D
+mum M AH1 M
+mumble M AH1 M B AH0 L
+mumbles M AH1 M B AH0 L Z
+mumbling M AH1 M B AH0 L IH0 NG
+mumbo M AH1 M B OW0
+mummies M AH1 M IY0 Z
+mummified M AH1 M IH0 F AY2 D
+mummy M AH1 M IY0
+mumps M AH1 M P S
+mums M AH1 M Z
+mun M AH1 N
+munch M AH1 N CH
+munchies M AH1 N CH IY2 Z
+munching M AH1 N CH IH0 NG
+mundane M AH0 N D EY1 N
+munger M AH1 NG ER0
+munich M Y UW1 N IH0 K
+municipal M Y UW0 N IH1 S AH0 P AH0 L
+munitions M Y UW0 N IH1 SH AH0 N Z
+munster M AH1 N S T ER0
+muntz M AH1 N T S
+mural M Y UH1 R AH0 L
+murals M Y UH1 R AH0 L Z
+murder M ER1 D ER0
+murdered M ER1 D ER0 D
+murderer M ER1 D ER0 ER0
+murderers M ER1 D ER0 ER0 Z
+murdering M ER1 D ER0 IH0 NG
+murderous M ER1 D ER0 AH0 S
+murders M ER1 D ER0 Z
+murky M ER1 K IY0
+murmur M ER1 M ER0
+murmuring M ER1 M ER0 IH0 NG
+murmurs M ER1 M ER0 Z
+murphy M ER1 F IY0
+murray M ER1 IY0
+muscle M AH1 S AH0 L
+muscles M AH1 S AH0 L Z
+muscular M AH1 S K Y AH0 L ER0
+musculature M AH1 S K Y AH0 L AH0 CH ER0
+muse M Y UW1 Z
+muses M Y UW1 Z AH0 Z
+museum M Y UW0 Z IY1 AH0 M
+museums M Y UW0 Z IY1 AH0 M Z
+mush M AH1 SH
+mushroom M AH1 SH R UW0 M
+mushrooms M AH1 SH R UW0 M Z
+mushy M AH1 SH IY0
+music M Y UW1 Z IH0 K
+musical M Y UW1 Z IH0 K AH0 L
+musically M Y UW1 Z IH0 K L IY0
+musicals M Y UW1 Z IH0 K AH0 L Z
+musician M Y UW0 Z IH1 SH AH0 N
+musicians M Y UW0 Z IH1 SH AH0 N Z
+musk M AH1 S K
+musket M AH1 S K AH0 T
+musketeer M AH2 S K AH0 T IY1 R
+musketeers M AH2 S K AH0 T IY1 R Z
+muskie M AH1 S K IY0
+muskrat M AH1 S K R AE2 T
+muslim M AH1 Z L AH0 M
+muslims M AH1 Z L AH0 M Z
+mussel M AH1 S AH0 L
+mussels M AH1 S AH0 L Z
+mussolini M UW2 S OW0 L IY1 N IY0
+must M AH1 S T
+mustache M AH1 S T AE2 SH
+mustaches M AH1 S T AE2 SH IH0 Z
+mustang M AH1 S T AE2 NG
+mustangs M AH1 S T AE2 NG Z
+mustard M AH1 S T ER0 D
+muster M AH1 S T ER0
+mustered M AH1 S T ER0 D
+musty M AH1 S T IY0
+mutant M Y UW1 T AH0 N T
+mutants M Y UW1 T AH0 N T S
+mutate M Y UW1 T EY2 T
+mutated M Y UW1 T EY2 T IH0 D
+mutating M Y UW1 T EY0 T IH0 NG
+mutation M Y UW0 T EY1 SH AH0 N
+mutations M Y UW0 T EY1 SH AH0 N Z
+mute M Y UW1 T
+muted M Y UW1 T IH0 D
+mutilate M Y UW1 T AH0 L EY2 T
+mutilated M Y UW1 T AH0 L EY2 T AH0 D
+mutilation M Y UW2 T AH0 L EY1 SH AH0 N
+mutiny M Y UW1 T AH0 N IY0
+mutt M AH1 T
+mutter M AH1 T ER0
+muttering M AH1 T ER0 IH0 NG
+mutters M AH1 T ER0 Z
+mutton M AH1 T AH0 N
+mutts M AH1 T S
+mutual M Y UW1 CH UW0 AH0 L
+mutually M Y UW1 CH UW0 AH0 L IY0
+muzzle M AH1 Z AH0 L
+my M AY1
+myocardial M AY2 AH0 K AA1 R D IY0 AH0 L
+myopic M AY0 AA1 P IH0 K
+myriad M IH1 R IY0 AH0 D
+myron M AY1 R AH0 N
+myrtle M ER1 T AH0 L
+myself M AY2 S EH1 L F
+mysteries M IH1 S T ER0 IY0 Z
+mysterious M IH0 S T IH1 R IY0 AH0 S
+mysteriously M IH2 S T IH1 R IY0 AH0 S L IY0
+mystery M IH1 S T ER0 IY0
+mystic M IH1 S T IH0 K
+mystical M IH1 S T IH0 K AH0 L
+mysticism M IH1 S T IH0 S IH2 Z AH0 M
+mystics M IH1 S T IH0 K S
+mystified M IH1 S T AH0 F AY2 D
+mystifying M IH1 S T AH0 F AY2 IH0 NG
+mystique M IH0 S T IY1 K
+myth M IH1 TH
+mythic M IH1 TH IH0 K
+mythical M IH1 TH AH0 K AH0 L
+mythological M IH2 TH AH0 L AA1 JH IH0 K AH0 L
+mythology M AH0 TH AA1 L AH0 JH IY2
+myths M IH1 TH S
+n EH1 N
+na N AA1
+nab N AE1 B
+nabbed N AE1 B D
+nacho N AE1 CH OW2
+nachos N AA1 CH OW2 Z
+nada N AA1 D AA0
+nadir N EY1 D ER0
+nag N AE1 G
+nagel N EY1 G AH0 L
+nagged N AE1 G D
+nagging N AE1 G IH0 NG
+nags N AE1 G Z
+nah N AA1
+nail N EY1 L
+nailed N EY1 L D
+nailing N EY1 L IH0 NG
+nails N EY1 L Z
+nairobi N AY2 R OW1 B IY0
+naive N AY2 IY1 V
+naked N EY1 K AH0 D
+nam N AE1 M
+namaste N AA1 M AA0 S T EY2
+name N EY1 M
+named N EY1 M D
+nameless N EY1 M L AH0 S
+namely N EY1 M L IY0
+names N EY1 M Z
+naming N EY1 M IH0 NG
+nan N AE1 N
+nana N AE1 N AH0
+nance N AE1 N S
+nancy N AE1 N S IY0
+nannies N AE1 N IY0 Z
+nanny N AE1 N IY0
+naomi N EY0 OW1 M IY0
+nap N AE1 P
+napa N AE1 P AH0
+napalm N EY1 P AA0 M
+napier N EY1 P IY0 ER0
+napkin N AE1 P K IH0 N
+napkins N AE1 P K IH0 N Z
+naples N EY1 P AH0 L Z
+napoleon N AH0 P OW1 L IY0 AH0 N
+napoleonic N AH0 P OW2 L IY0 AA1 N IH0 K
+napping N AE1 P IH0 NG
+naps N AE1 P S
+narc N AA1 R K
+narcissism N AA1 R S IH0 S IH2 Z AH0 M
+narcissist N AA1 R S IH0 S IH0 S T
+narcissistic N AA2 R S IH0 S IH1 S T IH0 K
+narco N AA1 R K OW0
+narcotic N AA0 R K AA1 T IH0 K
+narcotics N AA0 R K AA1 T IH0 K S
+narrated N EH1 R EY2 T IH0 D
+narration N EH0 R EY1 SH AH0 N
+narrative N AE1 R AH0 T IH0 V
+narrator N EH1 R EY0 T ER0
+narrow N EH1 R OW0
+narrowed N EH1 R OW0 D
+narrowing N EH1 R OW0 IH0 NG
+narrowly N EH1 R OW0 L IY0
+narrows N EH1 R OW0 Z
+nary N EH1 R IY0
+nasa N AE1 S AH0
+nasal N EY1 Z AH0 L
+nash N AE1 SH
+nashville N AE1 SH V IH0 L
+nastier N AE1 S T IY0 ER0
+nastiest N AE1 S T IY0 AH0 S T
+nasty N AE1 S T IY0
+nat N AE1 T
+nation N EY1 SH AH0 N
+national N AE1 SH AH0 N AH0 L
+nationality N AE2 SH AH0 N AE1 L AH0 T IY0
+nationally N AE1 SH AH0 N AH0 L IY0
+nationals N AE1 SH AH0 N AH0 L Z
+nations N EY1 SH AH0 N Z
+nationwide N EY1 SH AH0 N W AY1 D
+native N EY1 T IH0 V
+natives N EY1 T IH0 V Z
+nativity N AH0 T IH1 V AH0 T IY0
+nato N EY1 T OW0
+natural N AE1 CH ER0 AH0 L
+naturalist N AE1 CH ER0 AH0 L AH0 S T
+naturally N AE1 CH ER0 AH0 L IY0
+nature N EY1 CH ER0
+natures N EY1 CH ER0 Z
+naught N AO1 T
+naughty N AO1 T IY0
+nausea N AO1 Z IY0 AH0
+nauseated N AO1 Z IY0 EY2 T AH0 D
+nauseating N AO1 ZH IY0 EY2 T IH0 NG
+nauseous N AO1 SH AH0 S
+nautical N AO1 T AH0 K AH0 L
+nautilus N AO1 T AH0 L AH0 S
+nav N AE1 V
+navajo N AA1 V AH0 HH OW2
+naval N EY1 V AH0 L
+nave N EY1 V
+navel N EY1 V AH0 L
+navigate N AE1 V AH0 G EY2 T
+navigating N AE1 V AH0 G EY2 T IH0 NG
+navigation N AE1 V AH0 G EY1 SH AH0 N
+navigational N AE2 V AH0 G EY1 SH AH0 N AH0 L
+navigator N AE1 V AH0 G EY2 T ER0
+navy N EY1 V IY0
+naw N AA1
+nay N EY1
+nazareth N AE1 Z AH0 R IH0 TH
+nazi N AA1 T S IY0
+nazis N AA1 T S IY0 Z
+ne N IY1
+neal N IY1 L
+neanderthal N IY0 AE1 N D ER0 TH AO2 L
+neanderthals N IY0 AE1 N D ER0 TH AO2 L Z
+near N IH1 R
+nearby N IH1 R B AY1
+nearer N IH1 R ER0
+nearest N IH1 R AH0 S T
+nearing N IH1 R IH0 NG
+nearly N IH1 R L IY0
+nearsighted N IY1 R S AY2 T IH0 D
+neat N IY1 T
+neater N IY1 T ER0
+neatest N IY1 T AH0 S T
+neatly N IY1 T L IY0
+neatness N IY1 T N AH0 S
+nebraska N AH0 B R AE1 S K AH0
+nebula N EH1 B Y AH0 L AH0
+necessarily N EH2 S AH0 S EH1 R AH0 L IY0
+necessary N EH1 S AH0 S EH2 R IY0
+necessities N AH0 S EH1 S IH0 T IY0 Z
+necessity N AH0 S EH1 S AH0 T IY0
+neck N EH1 K
+necklace N EH1 K L AH0 S
+necklaces N EH1 K L AH0 S IH0 Z
+necks N EH1 K S
+necktie N EH1 K T AY2
+neckties N EH1 K T AY2 Z
+necromancer N EH1 K R AH0 M AE2 N S ER0
+nectar N EH1 K T ER0
+nee N IY1
+need N IY1 D
+needed N IY1 D AH0 D
+needing N IY1 D IH0 NG
+needle N IY1 D AH0 L
+needlepoint N IY1 D AH0 L P OY2 N T
+needles N IY1 D AH0 L Z
+needless N IY1 D L AH0 S
+needlessly N IY1 D L AH0 S L IY0
+needlework N IY1 D AH0 L W ER2 K
+needs N IY1 D Z
+needy N IY1 D IY0
+nefarious N AH0 F EH1 R IY0 AH0 S
+negate N IH0 G EY1 T
+negative N EH1 G AH0 T IH0 V
+negatively N EH1 G AH0 T IH0 V L IY0
+negatives N EH1 G AH0 T IH0 V Z
+negativity N EH2 G AH0 T IH1 V AH0 T IY0
+neglect N AH0 G L EH1 K T
+neglected N AH0 G L EH1 K T AH0 D
+neglectful N IH0 G L EH1 K T F AH0 L
+neglecting N IH0 G L EH1 K T IH0 NG
+negligence N EH1 G L AH0 JH AH0 N S
+negligent N EH1 G L AH0 JH AH0 N T
+negligible N EH1 G L AH0 JH AH0 B AH0 L
+negotiable N AH0 G OW1 SH AH0 B AH0 L
+negotiate N AH0 G OW1 SH IY0 EY2 T
+negotiated N AH0 G OW1 SH IY0 EY2 T AH0 D
+negotiating N IH0 G OW1 SH IY0 EY2 T IH0 NG
+negotiation N IH0 G OW2 SH IY0 EY1 SH AH0 N
+negotiations N AH0 G OW2 SH IY0 EY1 SH AH0 N Z
+negotiator N AH0 G OW1 SH IY0 EY2 T ER0
+negotiators N IH0 G OW1 SH IY0 EY2 T ER0 Z
+negro N IY1 G R OW0
+negroes N IY1 G R OW0 Z
+neighbor N EY1 B ER0
+neighborhood N EY1 B ER0 HH UH2 D
+neighborhoods N EY1 B ER0 HH UH2 D Z
+neighboring N EY1 B ER0 IH0 NG
+neighborly N EY1 B ER0 L IY0
+neighbors N EY1 B ER0 Z
+neighbour N EY1 B ER0
+neighbourhood N EY1 B ER0 HH UH2 D
+neighbours N EY1 B ER0 Z
+nein N IY1 N
+neither N IY1 DH ER0
+nelly N EH1 L IY0
+nelson N EH1 L S AH0 N
+nemesis N EH1 M AH0 S IH0 S
+nemo N EH1 M OW0
+nene N IY1 N
+neo N IY1 OW0
+neon N IY1 AA0 N
+nepal N AH0 P AO1 L
+nephew N EH1 F Y UW0
+nephews N EH1 F Y UW0 Z
+neptune N EH1 P T UW0 N
+nerd N ER1 D
+nerds N ER1 D Z
+nerdy N ER1 D IY0
+nerve N ER1 V
+nerves N ER1 V Z
+nervous N ER1 V AH0 S
+nervously N ER1 V AH0 S L IY0
+nervousness N ER1 V AH0 S N AH0 S
+ness N EH1 S
+nest N EH1 S T
+nesting N EH1 S T IH0 NG
+nestle N EH1 S AH0 L
+nestled N EH1 S AH0 L D
+nestor N EH1 S T ER0
+nests N EH1 S T S
+net N EH1 T
+nether N EH1 DH ER0
+netherlands N EH1 DH ER0 L AH0 N D Z
+nets N EH1 T S
+netting N EH1 T IH0 NG
+network N EH1 T W ER2 K
+networking N EH1 T W ER2 K IH0 NG
+networks N EH1 T W ER2 K S
+neural N UH1 R AH0 L
+neurological N UH2 R AH0 L AA1 JH IH0 K AH0 L
+neurologist N UH0 R AA1 L AH0 JH AH0 S T
+neurology N UH0 R AA1 L AH0 JH IY0
+neurons N UH1 R AA0 N Z
+neuroses N UH0 R OW1 S IY0 Z
+neurosis N UH0 R OW1 S AH0 S
+neurosurgeon N UH1 R OW0 S ER2 JH AH0 N
+neurosurgery N UH2 R OW0 S ER1 JH ER0 IY0
+neurotic N UH0 R AA1 T IH0 K
+neuter N UW1 T ER0
+neutered N UW1 T ER0 D
+neutral N UW1 T R AH0 L
+neutrality N UW0 T R AE1 L AH0 T IY0
+neutralize N UW1 T R AH0 L AY2 Z
+neutralized N UW1 T R AH0 L AY2 Z D
+neutron N UW1 T R AA2 N
+neutrons N UW1 T R AA2 N Z
+nevada N AH0 V AA1 D AH0
+never N EH1 V ER0
+neverland N EH1 V ER0 L AE0 N D
+nevermind N EH1 V ER0 M AY2 N D
+nevertheless N EH2 V ER0 DH AH0 L EH1 S
+new N UW1
+newark N UW1 ER0 K
+newbie N UW1 B IY2
+newborn N UW1 B AO0 R N
+newborns N UW1 B AO2 R N Z
+newcastle N UW1 K AE2 S AH0 L
+newcomer N UW1 K AH2 M ER0
+newcomers N UW1 K AH2 M ER0 Z
+newer N UW1 ER0
+newest N UW1 AH0 S T
+newfangled N UW2 F AE1 NG G AH0 L D
+newfound N UW1 F AW1 N D
+newfoundland N UW1 F AH0 N D L AH0 N D
+newly N UW1 L IY0
+newlywed N UW1 L IY0 W EH2 D
+newlyweds N UW1 L IY0 W EH2 D Z
+newport N UW1 P AO0 R T
+news N UW1 Z
+newscast N UW1 Z K AE2 S T
+newscaster N UW1 Z K AE2 S T ER0
+newsflash N UW1 S F L AE0 SH
+newsletter N UW1 Z L EH2 T ER0
+newsman N UW1 Z M AE2 N
+newsmen N UW1 Z M IH0 N
+newspaper N UW1 Z P EY2 P ER0
+newspaperman N UW1 Z P EY2 P ER0 M AE2 N
+newspapermen N UW1 Z P AE2 P ER0 M AH0 N
+newspapers N UW1 Z P EY2 P ER0 Z
+newsreel N UW1 Z R IY2 L
+newsreels N UW1 Z R IY2 L Z
+newsroom N UW1 Z R UW2 M
+newsstand N UW1 Z S T AE2 N D
+newsweek N UW1 Z W IY2 K
+newsworthy N UW1 Z W ER2 DH IY0
+newt N UW1 T
+newton N UW1 T AH0 N
+next N EH1 K S T
+nexus N EH1 K S AH0 S
+ng EH1 NG
+ni N IY1
+niagara N AY0 AE1 G R AH0
+nibble N IH1 B AH0 L
+nibbling N IH1 B AH0 L IH0 NG
+nibs N IH1 B Z
+nicaragua N IH2 K ER0 AA1 G W AH0
+nice N AY1 S
+nicely N AY1 S L IY0
+nicer N AY1 S ER0
+nicest N AY1 S IH0 S T
+niche N IH1 CH
+nicholas N IH1 K AH0 L AH0 S
+nick N IH1 K
+nicked N IH1 K T
+nickel N IH1 K AH0 L
+nickels N IH1 K AH0 L Z
+nickname N IH1 K N EY2 M
+nicknamed N IH1 K N EY2 M D
+nicknames N IH1 K N EY2 M Z
+nicks N IH1 K S
+nicky N IH1 K IY0
+nicotine N IH1 K AH0 T IY2 N
+niece N IY1 S
+nieces N IY1 S IH0 Z
+nielsen N IY1 L S AH0 N
+nietzsche N IY1 CH IY0
+nieves N IY0 EH1 V EH0 S
+nifty N IH1 F T IY0
+nigeria N AY0 JH IH1 R IY0 AH0
+nigerian N AY0 JH IH1 R IY0 AH0 N
+nigger N IH1 G ER0
+niggers N IH1 G ER0 Z
+nigh N AY1
+night N AY1 T
+nightclub N AY1 T K L AH2 B
+nightclubs N AY1 T K L AH2 B Z
+nightfall N AY1 T F AO2 L
+nighthawk N AY1 T HH AO2 K
+nightingale N AY1 T IH0 NG G EY0 L
+nightlife N AY1 T L AY2 F
+nightly N AY1 T L IY0
+nightmare N AY1 T M EH2 R
+nightmares N AY1 T M EH2 R Z
+nights N AY1 T S
+nightshade N AY1 CH EY2 D
+nightstand N AY1 T S T AE2 N D
+nightstick N AY1 T S T IH2 K
+nighttime N AY1 T T AY2 M
+nike N AY1 K IY0
+nil N IH1 L
+nile N AY1 L
+nimble N IH1 M B AH0 L
+nimbus N IH1 M B AH0 S
+nimrod N IH1 M R AA0 D
+nincompoop N IH1 NG K AH0 M P UW2 P
+nine N AY1 N
+nines N AY1 N Z
+nineteen N AY1 N T IY1 N
+nineteenth N AY1 N T IY1 N TH
+nineties N AY1 N T IY0 Z
+ninety N AY1 N T IY0
+ninja N IH1 N JH AH0
+ninjas N IH1 N JH AH0 Z
+ninny N IH1 N IY0
+ninth N AY1 N TH
+nip N IH1 P
+nipped N IH1 P T
+nipper N IH1 P ER0
+nipping N IH1 P IH0 NG
+nipple N IH1 P AH0 L
+nipples N IH1 P AH0 L Z
+nippy N IH1 P IY0
+nips N IH1 P S
+nirvana N IH0 R V AA1 N AH0
+nite N AY1 T
+nitrate N AY1 T R EY2 T
+nitrates N AY1 T R EY2 T S
+nitro N IH1 T R OW0
+nitrogen N AY1 T R AH0 JH AH0 N
+nitroglycerin N AY2 T R OW0 G L IH1 S ER0 AH0 N
+nitroglycerine N AY2 T R OW0 G L IH1 S ER0 AH0 N
+nitrous N IH1 T R AH0 S
+nix N IH1 K S
+nixon N IH1 K S AH0 N
+no N OW1
+noah N OW1 AH0
+nobel N OW0 B EH1 L
+nobility N OW0 B IH1 L AH0 T IY0
+noble N OW1 B AH0 L
+nobleman N OW1 B AH0 L M AH0 N
+nobler N OW1 B L ER0
+nobles N OW1 B AH0 L Z
+noblest N OW1 B L IH0 S T
+nobly N AA1 B L IY0
+nobodies N OW1 B AA2 D IY2 Z
+nobody N OW1 B AA2 D IY2
+nocturnal N AA0 K T ER1 N AH0 L
+nod N AA1 D
+nodded N AA1 D AH0 D
+nodding N AA1 D IH0 NG
+node N OW1 D
+nodes N OW1 D Z
+nods N AA1 D Z
+noel N OW0 EH1 L
+noir N OY1 R
+noise N OY1 Z
+noises N OY1 Z IH0 Z
+noisy N OY1 Z IY0
+noll N OW1 L
+nom N AA1 M
+nomad N OW1 M AE2 D
+nomadic N OW0 M AE1 D IH0 K
+nome N OW1 M
+nominal N AA1 M AH0 N AH0 L
+nominate N AA1 M AH0 N AH0 T
+nominated N AA1 M AH0 N EY2 T AH0 D
+nomination N AA2 M AH0 N EY1 SH AH0 N
+nominations N AA2 M AH0 N EY1 SH AH0 N Z
+nominee N AA2 M AH0 N IY1
+nominees N AA2 M AH0 N IY1 Z
+non N AA1 N
+nonchalant N AA2 N SH AH0 L AA1 N T
+none N AH1 N
+nonetheless N AH2 N DH AH0 L EH1 S
+nonexistent N AA2 N AH0 G Z IH1 S T AH0 N T
+nonfat N AA1 N F AE1 T
+nonfiction N AA0 N F IH1 K SH AH0 N
+nonnegotiable N AA2 N AH0 G OW1 SH AH0 B AH0 L
+nonprofit N AA0 N P R AA1 F AH0 T
+nonsense N AA1 N S EH0 N S
+nonsensical N AA0 N S EH1 N S IH0 K AH0 L
+nonsmoking N AA1 N S M OW1 K IH0 NG
+nonstop N AA2 N S T AA1 P
+nonviolent N AA0 N V AY1 AH0 L AH0 N T
+noodle N UW1 D AH0 L
+noodles N UW1 D AH0 L Z
+nook N UH1 K
+noon N UW1 N
+noose N UW1 S
+nope N OW1 P
+nor N AO1 R
+nordic N AO1 R D IH0 K
+norfolk N AO1 R F AH0 K
+norland N AO1 R L AH0 N D
+norm N AO1 R M
+norma N AO1 R M AH0
+normal N AO1 R M AH0 L
+normalcy N AO1 R M AH0 L S IY0
+normality N AO2 R M AE1 L AH0 T IY0
+normally N AO1 R M AH0 L IY0
+norman N AO1 R M AH0 N
+normandy N AO1 R M AH0 N D IY0
+norms N AO1 R M Z
+norse N AO1 R S
+north N AO1 R TH
+northbound N AO1 R TH B AW0 N D
+northeast N AO2 R TH IY1 S T
+northeastern N AO2 R TH IY1 S T ER0 N
+northern N AO1 R DH ER0 N
+northwest N AO2 R TH W EH1 S T
+northwestern N AO2 R TH W EH1 S T ER0 N
+norway N AO1 R W EY2
+norwegian N AO2 R W IY1 JH AH0 N
+norwegians N AO0 R W IY1 JH AH0 N Z
+nose N OW1 Z
+nosebleed N OW1 Z B L IY2 D
+noses N OW1 Z IH0 Z
+nosing N OW1 Z IH0 NG
+nostalgia N AO0 S T AE1 L JH AH0
+nostalgic N AO0 S T AE1 L JH IH0 K
+nostradamus N AO2 S T R AH0 D AE1 M AH0 S
+nostril N AA1 S T R IH0 L
+nostrils N AA1 S T R AH0 L Z
+nosy N OW1 Z IY0
+not N AA1 T
+notable N OW1 T AH0 B AH0 L
+notably N OW1 T AH0 B L IY0
+notary N OW1 T ER0 IY0
+notch N AA1 CH
+notches N AA1 CH AH0 Z
+note N OW1 T
+notebook N OW1 T B UH2 K
+notebooks N OW1 T B UH2 K S
+noted N OW1 T AH0 D
+notes N OW1 T S
+nother N AH1 DH ER0
+nothing N AH1 TH IH0 NG
+nothingness N AH1 TH IH0 NG N AH0 S
+nothings N AH1 TH IH0 NG Z
+notice N OW1 T AH0 S
+noticeable N OW1 T AH0 S AH0 B AH0 L
+noticed N OW1 T AH0 S T
+notices N OW1 T AH0 S AH0 Z
+noticing N OW1 T IH0 S IH0 NG
+notification N OW2 T AH0 F AH0 K EY1 SH AH0 N
+notified N OW1 T AH0 F AY2 D
+notify N OW1 T AH0 F AY2
+notifying N OW1 T AH0 F AY2 IH0 NG
+noting N OW1 T IH0 NG
+notion N OW1 SH AH0 N
+notions N OW1 SH AH0 N Z
+notoriety N OW2 T ER0 AY1 AH0 T IY0
+notorious N OW0 T AO1 R IY0 AH0 S
+notoriously N OW0 T AO1 R IY0 AH0 S L IY0
+notre N OW1 T R AH0
+notwithstanding N AA2 T W IH0 TH S T AE1 N D IH0 NG
+noun N AW1 N
+nourish N ER1 IH0 SH
+nourished N ER1 IH0 SH T
+nourishing N ER1 IH0 SH IH0 NG
+nourishment N ER1 IH0 SH M AH0 N T
+nous N UW1 S
+nouveau N UW2 V OW1
+nova N OW1 V AH0
+novel N AA1 V AH0 L
+novelist N AA1 V AH0 L AH0 S T
+novels N AA1 V AH0 L Z
+novelty N AA1 V AH0 L T IY0
+november N OW0 V EH1 M B ER0
+novice N AA1 V AH0 S
+now N AW1
+nowadays N AW1 AH0 D EY2 Z
+nowhere N OW1 W EH2 R
+nozzle N AA1 Z AH0 L
+nu N UW1
+nuance N UW1 AA0 N S
+nuances N UW1 AA0 N S IH0 Z
+nubian N Y UW1 B IY0 AH0 N
+nuclear N UW1 K L IY0 ER0
+nucleus N UW1 K L IY0 AH0 S
+nude N UW1 D
+nudes N UW1 D Z
+nudge N AH1 JH
+nudging N AH1 JH IH0 NG
+nudist N UW1 D IH0 S T
+nudity N UW1 D IH0 T IY0
+nugget N AH1 G IH0 T
+nuggets N AH1 G AH0 T S
+nuisance N UW1 S AH0 N S
+nuke N UW1 K
+nukes N UW1 K S
+null N AH1 L
+nullify N AH1 L AH0 F AY2
+numb N AH1 M
+number N AH1 M B ER0
+numbered N AH1 M B ER0 D
+numbers N AH1 M B ER0 Z
+numbing N AH1 M IH0 NG
+numbness N AH1 M N AH0 S
+numerical N UW0 M EH1 R AH0 K AH0 L
+numerous N UW1 M ER0 AH0 S
+nun N AH1 N
+nunnery N AH1 N ER0 IY0
+nuns N AH1 N Z
+nuptials N AH1 P CH AH0 L Z
+nurse N ER1 S
+nursed N ER1 S T
+nursery N ER1 S ER0 IY0
+nurses N ER1 S AH0 Z
+nursing N ER1 S IH0 NG
+nurture N ER1 CH ER0
+nurtured N ER1 CH ER0 D
+nurturing N ER1 CH ER0 IH0 NG
+nut N AH1 T
+nutcracker N AH1 T K R AE2 K ER0
+nutmeg N AH1 T M EH2 G
+nutrient N UW1 T R IY0 AH0 N T
+nutrients N UW1 T R IY0 AH0 N T S
+nutrition N UW0 T R IH1 SH AH0 N
+nutritional N UW0 T R IH1 SH AH0 N AH0 L
+nutritious N UW0 T R IH1 SH AH0 S
+nuts N AH1 T S
+nutshell N AH1 T SH EH2 L
+nutter N AH1 T ER0
+nutty N AH1 T IY0
+nyet N Y EH1 T
+nylon N AY1 L AA2 N
+nylons N AY1 L AA2 N Z
+nymph N IH1 M F
+nympho N IH2 M F OW0
+nymphomaniac N IH2 M F OW0 M EY1 N IY0 AE2 K
+nymphs N IH1 M F S
+o OW1
+o'clock AH0 K L AA1 K
+oak OW1 K
+oakland OW1 K L AH0 N D
+oaks OW1 K S
+oakwood OW1 K W UH2 D
+oar AO1 R
+oars AO1 R Z
+oasis OW0 EY1 S IH0 S
+oat OW1 T
+oath OW1 TH
+oaths OW1 DH Z
+oatmeal OW1 T M IY2 L
+oats OW1 T S
+obedience OW0 B IY1 D IY0 AH0 N S
+obedient OW0 B IY1 D IY0 AH0 N T
+obese OW0 B IY1 S
+obesity OW0 B IY1 S AH0 T IY0
+obey OW0 B EY1
+obeyed OW0 B EY1 D
+obeying OW0 B EY1 IH0 NG
+obeys OW0 B EY1 Z
+obituaries OW0 B IH1 CH UW0 EH2 R IY0 Z
+obituary OW0 B IH1 CH UW0 EH2 R IY0
+object AA1 B JH EH0 K T
+objected AH0 B JH EH1 K T AH0 D
+objecting AH0 B JH EH1 K T IH0 NG
+objection AH0 B JH EH1 K SH AH0 N
+objectionable AH0 B JH EH1 K SH AH0 N AH0 B AH0 L
+objections AH0 B JH EH1 K SH AH0 N Z
+objective AH0 B JH EH1 K T IH0 V
+objectively AA0 B JH EH1 K T IH0 V L IY0
+objectives AH0 B JH EH1 K T IH0 V Z
+objectivity AA2 B JH EH0 K T IH1 V IH0 T IY0
+objector AH0 B JH EH1 K T ER0
+objects AA1 B JH EH0 K T S
+obligated AA1 B L AH0 G EY2 T IH0 D
+obligation AA2 B L AH0 G EY1 SH AH0 N
+obligations AA2 B L AH0 G EY1 SH AH0 N Z
+obligatory AH0 B L IH1 G AH0 T AO2 R IY0
+oblige AH0 B L AY1 JH
+obliged AH0 B L AY1 JH D
+obliging AH0 B L AY1 JH IH0 NG
+oblique AH0 B L IY1 K
+obliterate AH0 B L IH1 T ER0 EY2 T
+obliterated AH0 B L IH1 T ER0 EY2 T IH0 D
+oblivion AH0 B L IH1 V IY0 AH0 N
+oblivious AH0 B L IH1 V IY0 AH0 S
+obnoxious AA0 B N AA1 K SH AH0 S
+oboe OW1 B OW0
+obscene AA0 B S IY1 N
+obscenity AH0 B S EH1 N IH0 T IY0
+obscure AH0 B S K Y UH1 R
+obscured AH0 B S K Y UH1 R D
+obscurity AH0 B S K Y UH1 R AH0 T IY0
+observant AH0 B Z ER1 V AH0 N T
+observation AA2 B Z ER0 V EY1 SH AH0 N
+observations AA2 B Z ER0 V EY1 SH AH0 N Z
+observatory AH0 B Z ER1 V AH0 T AO2 R IY0
+observe AH0 B Z ER1 V
+observed AH0 B Z ER1 V D
+observer AH0 B Z ER1 V ER0
+observers AH0 B Z ER1 V ER0 Z
+observing AH0 B Z ER1 V IH0 NG
+obsess AH0 B S EH1 S
+obsessed AH0 B S EH1 S T
+obsessing AH0 B S EH1 S IH0 NG
+obsession AH0 B S EH1 SH AH0 N
+obsessions AH0 B S EH1 SH AH0 N Z
+obsessive AH0 B S EH1 S IH0 V
+obsolete AA1 B S AH0 L IY2 T
+obstacle AA1 B S T AH0 K AH0 L
+obstacles AA1 B S T AH0 K AH0 L Z
+obstetrician AA2 B S T AH0 T R IH1 SH AH0 N
+obstinate AA1 B S T AH0 N AH0 T
+obstruct AH0 B S T R AH1 K T
+obstructed AH0 B S T R AH1 K T IH0 D
+obstructing AH0 B S T R AH1 K T IH0 NG
+obstruction AH0 B S T R AH1 K SH AH0 N
+obtain AH0 B T EY1 N
+obtained AH0 B T EY1 N D
+obtaining AH0 B T EY1 N IH0 NG
+obvious AA1 B V IY0 AH0 S
+obviously AA1 B V IY0 AH0 S L IY0
+occasion AH0 K EY1 ZH AH0 N
+occasional AH0 K EY1 ZH AH0 N AH0 L
+occasionally AH0 K EY1 ZH AH0 N AH0 L IY0
+occasioned AH0 K EY1 ZH AH0 N D
+occasions AH0 K EY1 ZH AH0 N Z
+occipital AA0 K S IH1 P AH0 T AH0 L
+occult AH0 K AH1 L T
+occupancy AA1 K Y AH0 P AH0 N S IY0
+occupant AA1 K Y AH0 P AH0 N T
+occupants AA1 K Y AH0 P AH0 N T S
+occupation AA2 K Y AH0 P EY1 SH AH0 N
+occupational AA0 K Y AH0 P EY1 SH AH0 N AH0 L
+occupied AA1 K Y AH0 P AY2 D
+occupies AA1 K Y AH0 P AY2 Z
+occupy AA1 K Y AH0 P AY2
+occupying AA1 K Y AH0 P AY2 IH0 NG
+occur AH0 K ER1
+occurred AH0 K ER1 D
+occurrence AH0 K ER1 AH0 N S
+occurrences AH0 K ER1 AH0 N S IH0 Z
+occurring AH0 K ER1 IH0 NG
+occurs AH0 K ER1 Z
+ocean OW1 SH AH0 N
+oceanic OW2 SH IY0 AE1 N IH0 K
+oceans OW1 SH AH0 N Z
+och AA1 K
+octave AA1 K T IH0 V
+october AA0 K T OW1 B ER0
+octopus AA1 K T AH0 P UH2 S
+ocular AO1 K Y UW0 L ER0
+oda OW1 D AH0
+odd AA1 D
+oddball AA1 D B AO2 L
+oddest AA1 D AH0 S T
+oddly AA1 D L IY0
+odds AA1 D Z
+ode OW1 D
+odell OW0 D EH1 L
+odessa OW0 D EH1 S AH0
+odin OW1 D AH0 N
+odious OW1 D IY0 AH0 S
+odor OW1 D ER0
+odorless OW1 D ER0 L AH0 S
+odors OW1 D ER0 Z
+odour OW1 D ER0
+odyssey AA1 D AH0 S IY0
+oedipal EH1 D AH0 P AH0 L
+oedipus EH1 D IH0 P AH0 S
+oeuvre UW1 V R AH0
+of AH1 V
+off AO1 F
+offbeat AO1 F B IY1 T
+offend AH0 F EH1 N D
+offended AH0 F EH1 N D AH0 D
+offender AH0 F EH1 N D ER0
+offenders AH0 F EH1 N D ER0 Z
+offending AH0 F EH1 N D IH0 NG
+offends AH0 F EH1 N D Z
+offense AH0 F EH1 N S
+offenses AH0 F EH1 N S IH0 Z
+offensive AH0 F EH1 N S IH0 V
+offer AO1 F ER0
+offered AO1 F ER0 D
+offering AO1 F ER0 IH0 NG
+offerings AO1 F ER0 IH0 NG Z
+offers AO1 F ER0 Z
+offhand AO1 F HH AE1 N D
+office AO1 F IH0 S
+officer AO1 F AH0 S ER0
+officers AO1 F AH0 S ER0 Z
+offices AO1 F AH0 S AH0 Z
+official AH0 F IH1 SH AH0 L
+officially AH0 F IH1 SH AH0 L IY0
+officials AH0 F IH1 SH AH0 L Z
+offing AO1 F IH0 NG
+offline AO1 F L AY2 N
+offset AO0 F S EH1 T
+offshore AO1 F SH AO1 R
+offspring AO1 F S P R IH2 NG
+offstage AO1 F S T EY1 JH
+oft AO1 F T
+often AO1 F AH0 N
+oftentimes AO1 F AH0 N T AY2 M Z
+og AA1 G
+ogle OW1 G AH0 L
+ogre OW1 G ER0
+oh OW1
+ohio OW0 HH AY1 OW0
+oi OY1
+oil OY1 L
+oiled OY1 L D
+oilers OY1 L ER0 Z
+oils OY1 L Z
+oily OY1 L IY0
+ointment OY1 N T M AH0 N T
+ok OW1 K EY1
+okay OW2 K EY1
+okayed OW2 K EY1 D
+okey OW1 K IY0
+oki OW1 K IY0
+okie OW1 K IY0
+okinawa OW2 K IH2 N AA1 W AH0
+oklahoma OW2 K L AH0 HH OW1 M AH0
+okra OW1 K R AH0
+ola OW1 L AH0
+old OW1 L D
+olden OW1 L D AH0 N
+older OW1 L D ER0
+oldest OW1 L D AH0 S T
+oldie OW1 L D IY0
+oldies OW1 L D IY0 Z
+olds OW1 L D Z
+oldsmobile OW1 L D Z M OW0 B IY2 L
+ole OW1 L
+olfactory OW0 L F AE1 K T ER0 IY0
+olive AA1 L AH0 V
+oliver AA1 L AH0 V ER0
+olives AA1 L IH0 V Z
+olivia OW0 L IH1 V IY0 AH0
+olympia OW0 L IH1 M P IY0 AH0
+olympic OW0 L IH1 M P IH0 K
+olympics OW0 L IH1 M P IH0 K S
+olympus OW0 L IH1 M P AH0 S
+om AO1 M
+omaha OW1 M AH0 HH AA2
+omega OW0 M EH1 G AH0
+omelet AA1 M L AH0 T
+omelets AA1 M L AH0 T S
+omen OW1 M AH0 N
+omens OW1 M AH0 N Z
+omer OW1 M ER0
+ominous AA1 M AH0 N AH0 S
+omission OW0 M IH1 SH AH0 N
+omit OW0 M IH1 T
+omitted OW0 M IH1 T AH0 D
+omni AA1 M N IY0
+omnipotent AA0 M N IH1 P AH0 T AH0 N T
+omniscient AA0 M N IH1 SH AH0 N T
+on AA1 N
+onboard AA1 N B AO2 R D
+once W AH1 N S
+oncologist AA0 NG K AA1 L AH0 JH IH0 S T
+oncology AA0 NG K AA1 L AH0 JH IY0
+oncoming AO1 N K AH2 M IH0 NG
+one W AH1 N
+oneness W AH1 N N AH0 S
+ones W AH1 N Z
+oneself W AH2 N S EH1 L F
+ongoing AA1 N G OW2 IH0 NG
+onion AH1 N Y AH0 N
+onions AH1 N Y AH0 N Z
+online AO1 N L AY2 N
+onlookers AO1 N L UH2 K ER0 Z
+only OW1 N L IY0
+ono OW1 N OW0
+ons AA1 N Z
+onset AA1 N S EH2 T
+onslaught AO1 N S L AO2 T
+onstage AA2 N S T EY1 JH
+ontario AA0 N T EH1 R IY0 OW0
+onto AA1 N T UW0
+onward AO1 N W ER0 D
+onwards AA1 N W ER0 D Z
+onyx AA1 N IH0 K S
+oodles UW1 D AH0 L Z
+ooh UW1
+oomph UW1 M F
+oops UW1 P S
+ooze UW1 Z
+oozing UW1 Z IH0 NG
+op AA1 P
+opal OW1 P AH0 L
+open OW1 P AH0 N
+opened OW1 P AH0 N D
+opener OW1 P AH0 N ER0
+openers OW1 P AH0 N ER0 Z
+opening OW1 P AH0 N IH0 NG
+openings OW1 P AH0 N IH0 NG Z
+openly OW1 P AH0 N L IY0
+openness OW1 P AH0 N N AH0 S
+opens OW1 P AH0 N Z
+opera AA1 P R AH0
+operandi AA2 P ER0 AE1 N D IY0
+operas AA1 P R AH0 Z
+operate AA1 P ER0 EY2 T
+operated AA1 P ER0 EY2 T AH0 D
+operates AA1 P ER0 EY2 T S
+operatic AA2 P ER0 AE1 T IH0 K
+operating AA1 P ER0 EY2 T IH0 NG
+operation AA2 P ER0 EY1 SH AH0 N
+operational AA2 P ER0 EY1 SH AH0 N AH0 L
+operations AA2 P ER0 EY1 SH AH0 N Z
+operative AA1 P ER0 AH0 T IH0 V
+operatives AA1 P ER0 AH0 T IH0 V Z
+operator AA1 P ER0 EY2 T ER0
+operators AA1 P ER0 EY2 T ER0 Z
+ophelia AH0 F IY1 L Y AH0
+ophthalmologist AA2 P TH AH0 M AA1 L AH0 JH IH0 S T
+opiate OW1 P IY2 AH0 T
+opiates OW1 P IY2 AH0 T S
+opinion AH0 P IH1 N Y AH0 N
+opinionated AH0 P IH1 N Y AH0 N EY2 T IH0 D
+opinions AH0 P IH1 N Y AH0 N Z
+opium OW1 P IY0 AH0 M
+opponent AH0 P OW1 N AH0 N T
+opponents AH0 P OW1 N AH0 N T S
+opportune AA2 P ER0 T UW1 N
+opportunist AA2 P ER0 T UW1 N IH0 S T
+opportunistic AA2 P ER0 T UW2 N IH1 S T IH0 K
+opportunities AA2 P ER0 T UW1 N AH0 T IY0 Z
+opportunity AA2 P ER0 T UW1 N AH0 T IY0
+oppose AH0 P OW1 Z
+opposed AH0 P OW1 Z D
+opposes AH0 P OW1 Z IH0 Z
+opposing AH0 P OW1 Z IH0 NG
+opposite AA1 P AH0 Z AH0 T
+opposites AA1 P AH0 Z AH0 T S
+opposition AA2 P AH0 Z IH1 SH AH0 N
+oppressed AH0 P R EH1 S T
+oppression AH0 P R EH1 SH AH0 N
+oppressive AH0 P R EH1 S IH0 V
+oppressor AH0 P R EH1 S ER0
+oppressors AH0 P R EH1 S ER0 Z
+ops AA1 P S
+opt AA1 P T
+opted AA1 P T IH0 D
+optic AA1 P T IH0 K
+optical AA1 P T IH0 K AH0 L
+optics AA1 P T IH0 K S
+optimal AA1 P T AH0 M AH0 L
+optimism AA1 P T AH0 M IH2 Z AH0 M
+optimist AA1 P T AH0 M IH0 S T
+optimistic AA2 P T AH0 M IH1 S T IH0 K
+optimum AA1 P T AH0 M AH0 M
+option AA1 P SH AH0 N
+optional AA1 P SH AH0 N AH0 L
+options AA1 P SH AH0 N Z
+optometrist AA0 P T AA1 M AH0 T R IH0 S T
+opus OW1 P AH0 S
+or AO1 R
+ora AO1 R AH0
+oracle AO1 R AH0 K AH0 L
+oracles AO1 R AH0 K AH0 L Z
+oral AO1 R AH0 L
+orally AO1 R AH0 L IY0
+orange AO1 R AH0 N JH
+oranges AO1 R AH0 N JH AH0 Z
+orangutan AO0 R AE1 NG AH0 T AE0 N
+orb AO1 R B
+orbit AO1 R B AH0 T
+orbital AO1 R B AH0 T AH0 L
+orbiting AO1 R B AH0 T IH0 NG
+orbits AO1 R B AH0 T S
+orca AO1 R K AH0
+orchard AO1 R CH ER0 D
+orchestra AO1 R K AH0 S T R AH0
+orchestrate AO1 R K IH0 S T R EY2 T
+orchestrated AO1 R K IH0 S T R EY2 T IH0 D
+orchestrating AO1 R K IH0 S T R EY2 T IH0 NG
+orchid AO1 R K AH0 D
+orchids AO1 R K AH0 D Z
+ord AO1 R D
+ordained AO0 R D EY1 N D
+ordeal AO0 R D IY1 L
+order AO1 R D ER0
+ordered AO1 R D ER0 D
+ordering AO1 R D ER0 IH0 NG
+orderly AO1 R D ER0 L IY0
+orders AO1 R D ER0 Z
+ordinance AO1 R D AH0 N AH0 N S
+ordinarily AO2 R D AH0 N EH1 R AH0 L IY0
+ordinary AO1 R D AH0 N EH2 R IY0
+ordnance AO1 R D N AH0 N S
+ore AO1 R
+oregano AO2 R EH1 G AH0 N OW2
+oregon AO1 R AH0 G AH0 N
+ores AO1 R Z
+orestes AO0 R EH1 S T IY0 Z
+org AO1 R G
+organ AO1 R G AH0 N
+organic AO0 R G AE1 N IH0 K
+organisation AO2 R G AH0 N IH0 Z EY1 SH AH0 N
+organism AO1 R G AH0 N IH2 Z AH0 M
+organisms AO1 R G AH0 N IH2 Z AH0 M Z
+organist AO1 R G AH0 N AH0 S T
+organization AO2 R G AH0 N AH0 Z EY1 SH AH0 N
+organizational AO2 R G AH0 N AH0 Z EY1 SH AH0 N AH0 L
+organizations AO2 R G AH0 N AH0 Z EY1 SH AH0 N Z
+organize AO1 R G AH0 N AY2 Z
+organized AO1 R G AH0 N AY2 Z D
+organizer AO1 R G AH0 N AY2 Z ER0
+organizers AO1 R G AH0 N AY2 Z ER0 Z
+organizes AO1 R G AH0 N AY2 Z IH0 Z
+organizing AO1 R G AH0 N AY2 Z IH0 NG
+organs AO1 R G AH0 N Z
+orgasm AO1 R G AE0 Z AH0 M
+orgasms AO1 R G AE0 Z AH0 M Z
+orgies AO1 R JH IY0 Z
+orgy AO1 R JH IY0
+orient AO1 R IY0 EH2 N T
+oriental AO2 R IY0 EH1 N T AH0 L
+orientals AO2 R IY0 EH1 N T AH0 L Z
+orientation AO2 R IY0 EH0 N T EY1 SH AH0 N
+oriented AO1 R IY0 EH2 N T AH0 D
+orifice AO1 R AH0 F AH0 S
+origami AO2 R IY0 G AA1 M IY2
+origin AO1 R AH0 JH AH0 N
+original ER0 IH1 JH AH0 N AH0 L
+originality ER0 IH2 JH AH0 N AE1 L IH0 T IY0
+originally ER0 IH1 JH AH0 N AH0 L IY0
+originals ER0 IH1 JH AH0 N AH0 L Z
+originate ER0 IH1 JH AH0 N EY2 T
+originated ER0 IH1 JH AH0 N EY2 T AH0 D
+originating ER0 IH1 JH AH0 N EY2 T IH0 NG
+origins AO1 R AH0 JH IH0 N Z
+orion OW0 R AY1 AH0 N
+orleans AO1 R L IY0 AH0 N Z
+ornament AO1 R N AH0 M AH0 N T
+ornaments AO1 R N AH0 M AH0 N T S
+ornery AO1 R N ER0 IY0
+orphan AO1 R F AH0 N
+orphanage AO1 R F AH0 N AH0 JH
+orphanages AO1 R F AH0 N IH0 JH IH0 Z
+orphaned AO1 R F AH0 N D
+orphans AO1 R F AH0 N Z
+orpheus AO1 R F IY0 AH0 S
+orth AO1 R TH
+ortho AO1 R TH OW2
+orthodontist AO2 R TH AH0 D AA1 N T AH0 S T
+orthodox AO1 R TH AH0 D AA2 K S
+orthopedic AO2 R TH AH0 P IY1 D IH0 K
+os AA1 S
+osaka OW0 S AA1 K AH0
+oscar AO1 S K ER0
+oscars AO1 S K ER0 Z
+oscillator AA1 S AH0 L EY2 T ER0
+oslo AA1 Z L OW0
+osmond AA1 S M AH0 N D
+osmosis AO2 Z M OW1 S IH0 S
+ostensibly AA0 S T EH1 N S AH0 B L IY0
+ostentatious AA2 S T AH0 N T EY1 SH AH0 S
+ostracized AO1 S T R AH0 S AY2 Z D
+ostrich AO1 S T R IH0 CH
+ostriches AA1 S T R IH0 CH IH0 Z
+ot AO1 T
+othello AH0 TH EH1 L OW0
+other AH1 DH ER0
+others AH1 DH ER0 Z
+otherwise AH1 DH ER0 W AY2 Z
+ottawa AA1 T AH0 W AA2
+otter AA1 T ER0
+otto AA1 T OW2
+ottoman AA1 T AH0 M AH0 N
+ouch AW1 CH
+ought AO1 T
+oui W IY1
+ounce AW1 N S
+ounces AW1 N S AH0 Z
+our AW1 ER0
+ours AW1 ER0 Z
+ourself AW0 ER0 S EH1 L F
+ourselves AW0 ER0 S EH1 L V Z
+out AW1 T
+outage AW1 T AH0 JH
+outback AW1 T B AE2 K
+outbid AW1 T B IH2 D
+outboard AW1 T B AO2 R D
+outbound AW1 T B AW2 N D
+outbreak AW1 T B R EY2 K
+outburst AW1 T B ER2 S T
+outbursts AW1 T B ER2 S T S
+outcast AW1 T K AE2 S T
+outcasts AW1 T K AE2 S T S
+outclassed AW1 T K L AE2 S T
+outcome AW1 T K AH2 M
+outcomes AW1 T K AH2 M Z
+outdated AW1 T D EY2 T IH0 D
+outdid AW1 T D IH2 D
+outdo AW2 T D UW1
+outdone AW1 T D AH1 N
+outdoor AW1 T D AO2 R
+outdoors AW1 T D AO1 R Z
+outer AW1 T ER0
+outfit AW1 T F IH2 T
+outfits AW1 T F IH2 T S
+outfitted AW1 T F IH2 T IH0 D
+outflank AW1 T F L AE2 NG K
+outgoing AW1 T G OW2 IH0 NG
+outgrew AW2 T G R UW1
+outgrow AW2 T G R OW1
+outgrown AW2 T G R OW1 N
+outgunned AW1 T G AH2 N D
+outhouse AW1 T HH AW2 S
+outing AW1 T IH0 NG
+outlandish AW0 T L AE1 N D IH0 SH
+outlast AW1 T L AE2 S T
+outlaw AW1 T L AO2
+outlawed AW1 T L AO2 D
+outlaws AW1 T L AO2 Z
+outlet AW1 T L EH2 T
+outlets AW1 T L EH2 T S
+outline AW1 T L AY2 N
+outlined AW1 T L AY2 N D
+outlines AW1 T L AY2 N Z
+outlive AW2 T L IH1 V
+outlived AW2 T L IH1 V D
+outlook AW1 T L UH2 K
+outlying AW1 T L AY2 IH0 NG
+outnumber AW0 T N AH1 M B ER0
+outnumbered AW2 T N AH1 M B ER0 D
+outpatient AW1 T P EY2 SH AH0 N T
+outpost AW1 T P OW2 S T
+outposts AW1 T P OW2 S T S
+outpouring AW2 T P AO1 R IH0 NG
+output AW1 T P UH2 T
+outrage AW1 T R EY2 JH
+outraged AW1 T R EY2 JH D
+outrageous AW0 T R EY1 JH AH0 S
+outreach AW1 T R IY2 CH
+outrigger AW1 T R IH2 G ER0
+outright AW1 T R AY1 T
+outrun AW0 T R AH1 N
+outs AW1 T S
+outset AW1 T S EH2 T
+outside AW1 T S AY1 D
+outsider AW0 T S AY1 D ER0
+outsiders AW0 T S AY1 D ER0 Z
+outskirts AW1 T S K ER2 T S
+outsmart AW1 T S M AA2 R T
+outsmarted AW1 T S M AA2 R T IH0 D
+outspoken AW1 T S P OW1 K AH0 N
+outstanding AW2 T S T AE1 N D IH0 NG
+outstretched AW0 T S T R EH1 CH T
+outta UW1 T AH0
+outward AW1 T W ER0 D
+outweigh AW1 T W EY2
+outweighs AW1 T W EY2 Z
+outwit AW1 T W IH2 T
+ova OW1 V AH0
+oval OW1 V AH0 L
+ovarian OW0 V EH1 R IY2 AH0 N
+ovaries OW1 V ER2 IY0 Z
+ovary OW1 V ER2 IY0
+ovation OW0 V EY1 SH AH0 N
+oven AH1 V AH0 N
+ovens AH1 V AH0 N Z
+over OW1 V ER0
+overactive OW1 V ER0 AE1 K T IH0 V
+overall OW1 V ER0 AO2 L
+overalls OW1 V ER0 AO2 L Z
+overbearing OW1 V ER0 B EH1 R IH0 NG
+overboard OW1 V ER0 B AO2 R D
+overbooked OW1 V ER0 B UH2 K T
+overcame OW1 V ER0 K EY1 M
+overcast OW1 V ER0 K AE2 S T
+overcharge OW1 V ER0 CH AA2 R JH
+overcharged OW1 V ER0 CH AA1 R JH D
+overcoat OW1 V ER0 K OW2 T
+overcoats OW1 V ER0 K OW2 T S
+overcome OW1 V ER0 K AH2 M
+overcomes OW1 V ER0 K AH2 M Z
+overcoming OW1 V ER0 K AH2 M IH0 NG
+overconfident OW2 V ER0 K AA1 N F IH0 D AH0 N T
+overcooked OW2 V ER0 K UH1 K T
+overcrowded OW1 V ER0 K R AW2 D IH0 D
+overdid OW1 V ER0 D IH2 D
+overdo OW1 V ER0 D UW1
+overdoing OW1 V ER0 D UW1 IH0 NG
+overdone OW1 V ER0 D AH1 N
+overdose OW1 V ER0 D OW2 S
+overdosed OW1 V ER0 D OW2 S T
+overdrive OW1 V ER0 D R AY2 V
+overdue OW1 V ER0 D UW1
+overestimate OW2 V ER0 EH1 S T AH0 M EY2 T
+overestimated OW2 V ER0 EH1 S T AH0 M EY2 T IH0 D
+overestimating OW2 V ER0 EH1 S T AH0 M EY2 T IH0 NG
+overexcited OW2 V ER0 EH0 K S AY1 T IH0 D
+overextended OW2 V ER0 IH0 K S T EH1 N D IH0 D
+overflow OW1 V ER0 F L OW2
+overflowed OW2 V ER0 F L OW1 D
+overflowing OW1 V ER0 F L OW2 IH0 NG
+overgrown OW2 V ER0 G R OW1 N
+overhaul OW1 V ER0 HH AO2 L
+overhead OW1 V ER0 HH EH1 D
+overhear OW1 V ER0 HH IY1 R
+overheard OW1 V ER0 HH ER1 D
+overhearing OW2 V ER0 HH IY1 R IH0 NG
+overheat OW1 V ER0 HH IY2 T
+overheated OW1 V ER0 HH IY2 T IH0 D
+overheating OW1 V ER0 HH IY2 T IH0 NG
+overjoyed OW2 V ER0 JH OY1 D
+overkill OW1 V ER0 K IH2 L
+overland OW1 V ER0 L AE2 N D
+overlap OW1 V ER0 L AE2 P
+overlapping OW1 V ER0 L AE2 P IH0 NG
+overlay OW1 V ER0 L EY2
+overload OW1 V ER0 L OW2 D
+overloaded OW1 V ER0 L OW2 D IH0 D
+overloading OW1 V ER0 L OW2 D IH0 NG
+overlook OW1 V ER0 L UH2 K
+overlooked OW1 V ER0 L UH2 K T
+overlooking OW1 V ER0 L UH2 K IH0 NG
+overlooks OW1 V ER0 L UH2 K S
+overlord OW1 V ER0 L AO2 R D
+overly OW1 V ER0 L IY0
+overnight OW1 V ER0 N AY1 T
+overpaid OW1 V ER0 P EY1 D
+overpass OW1 V ER0 P AE2 S
+overpower OW2 V ER0 P AW1 ER0
+overpowered OW2 V ER0 P AW1 ER0 D
+overpowering OW1 V ER0 P AW1 R IH0 NG
+overpriced OW1 V ER0 P R AY2 S T
+overprotective OW2 V ER0 P R AH0 T EH1 K T AH0 V
+overqualified OW1 V ER0 K W AA2 L AH0 F AY2 D
+overrated OW2 V ER0 R EY1 T IH0 D
+overreact OW1 V ER0 R IY0 AE1 K T
+overreacted OW1 V ER0 R IY0 AE2 K T IH0 D
+overreacting OW1 V ER0 R IY0 AE2 K T IH0 NG
+overreaction OW1 V ER0 R IY0 AE2 K SH AH0 N
+override OW1 V ER0 R AY2 D
+overrides OW1 V ER0 R AY2 D Z
+overriding OW1 V ER0 R AY2 D IH0 NG
+overrule OW1 V ER0 R UW2 L
+overruled OW2 V ER0 R UW1 L D
+overrun OW1 V ER0 R AH2 N
+overseas OW1 V ER0 S IY1 Z
+oversee OW1 V ER0 S IY2
+overseeing OW1 V ER0 S IY2 IH0 NG
+overseer OW1 V ER0 S IY1 ER0
+overshot OW1 V ER0 SH AA2 T
+oversight OW1 V ER0 S AY2 T
+oversimplifying OW0 V ER0 S IH1 M P L IH0 F AY2 IH0 NG
+oversized OW1 V ER0 S AY2 Z D
+overslept OW2 V ER0 S L EH1 P T
+overstayed OW2 V ER0 S T EY1 D
+overstep OW1 V ER0 S T EH2 P
+overstepped OW1 V ER0 S T EH2 P T
+overt OW0 V ER1 T
+overtake OW1 V ER0 T EY2 K
+overtaken OW1 V ER0 T EY2 K AH0 N
+overthrow OW1 V ER0 TH R OW2
+overthrown OW2 V ER0 TH R OW1 N
+overtime OW1 V ER0 T AY2 M
+overtones OW1 V ER0 T OW2 N Z
+overture OW1 V ER0 CH ER0
+overtures OW1 V ER0 CH UH2 R Z
+overturn OW1 V ER0 T ER2 N
+overturned OW1 V ER0 T ER2 N D
+overview OW1 V ER0 V Y UW2
+overweight OW2 V ER0 W EY1 T
+overwhelm OW2 V ER0 W EH1 L M
+overwhelmed OW2 V ER0 W EH1 L M D
+overwhelming OW2 V ER0 W EH1 L M IH0 NG
+overwhelmingly OW2 V ER0 W EH1 L M IH0 NG L IY0
+overwhelms OW2 V ER0 W EH1 L M Z
+overwork OW2 V ER0 W ER1 K
+overworked OW2 V ER0 W ER1 K T
+overwrought OW2 V ER0 R AO1 T
+overzealous OW2 V ER0 Z EH1 L AH0 S
+ow OW1
+owe OW1
+owed OW1 D
+owes OW1 Z
+owing OW1 IH0 NG
+owl AW1 L
+owls AW1 L Z
+own OW1 N
+owned OW1 N D
+owner OW1 N ER0
+owners OW1 N ER0 Z
+ownership OW1 N ER0 SH IH2 P
+owning OW1 N IH0 NG
+owns OW1 N Z
+ox AA1 K S
+oxen AA1 K S AH0 N
+oxford AA1 K S F ER0 D
+oxide AA1 K S AY2 D
+oxygen AA1 K S AH0 JH AH0 N
+oxymoron AA2 K S IY1 M AO1 R AA0 N
+oy OY1
+oyster OY1 S T ER0
+oysters OY1 S T ER0 Z
+oz AA1 Z
+ozone OW1 Z OW2 N
+p P IY1
+pa P AA1
+pablo P AA1 B L OW0
+pac P AE1 K
+pace P EY1 S
+paced P EY1 S T
+pacemaker P EY1 S M EY2 K ER0
+paces P EY1 S IH0 Z
+pacey P EY1 S IY0
+pacific P AH0 S IH1 F IH0 K
+pacifier P AE1 S AH0 F AY2 ER0
+pacifist P AE1 S IH0 F IH0 S T
+pacify P AE1 S AH0 F AY2
+pacing P EY1 S IH0 NG
+pack P AE1 K
+package P AE1 K AH0 JH
+packaged P AE1 K IH0 JH D
+packages P AE1 K AH0 JH AH0 Z
+packaging P AE1 K IH0 JH IH0 NG
+packed P AE1 K T
+packer P AE1 K ER0
+packers P AE1 K ER0 Z
+packet P AE1 K AH0 T
+packets P AE1 K IH0 T S
+packing P AE1 K IH0 NG
+packs P AE1 K S
+paco P EY1 K OW0
+pact P AE1 K T
+pad P AE1 D
+padded P AE1 D IH0 D
+paddies P AE1 D IY0 Z
+padding P AE1 D IH0 NG
+paddle P AE1 D AH0 L
+paddles P AE1 D AH0 L Z
+paddling P AE1 D AH0 L IH0 NG
+paddock P AE1 D AH0 K
+paddy P AE1 D IY0
+padlock P AE1 D L AA2 K
+padlocked P AE1 D L AA2 K T
+padre P AE1 D R EY2
+pads P AE1 D Z
+pagan P EY1 G AH0 N
+page P EY1 JH
+pageant P AE1 JH AH0 N T
+pageants P AE1 JH AH0 N T S
+paged P EY1 JH D
+pager P EY1 JH ER0
+pagers P EY1 JH ER0 Z
+pages P EY1 JH AH0 Z
+paging P EY1 JH IH0 NG
+pagoda P AH0 G OW1 D AH0
+paid P EY1 D
+pail P EY1 L
+pain P EY1 N
+paine P EY1 N
+painful P EY1 N F AH0 L
+painfully P EY1 N F AH0 L IY0
+painkiller P EY1 N K IH2 L ER0
+painkillers P EY1 N K IH2 L ER0 Z
+painless P EY1 N L AH0 S
+pains P EY1 N Z
+paint P EY1 N T
+paintball P EY1 N T B AA2 L
+paintbrush P EY1 N T B R AH2 SH
+painted P EY1 N T IH0 D
+painter P EY1 N T ER0
+painters P EY1 N T ER0 Z
+painting P EY1 N T IH0 NG
+paintings P EY1 N T IH0 NG Z
+paints P EY1 N T S
+pair P EH1 R
+paired P EH1 R D
+pairing P EH1 R IH0 NG
+pairs P EH1 R Z
+paisley P EY1 Z L IY0
+pajama P AH0 JH AA1 M AH0
+pajamas P AH0 JH AA1 M AH0 Z
+pakistan P AE1 K IH0 S T AE2 N
+pakistani P AE2 K IH0 S T AE1 N IY0
+pal P AE1 L
+palace P AE1 L AH0 S
+palaces P AE1 L AH0 S AH0 Z
+palatable P AE1 L AH0 T AH0 B AH0 L
+palate P AE1 L AH0 T
+palatial P AH0 L EY1 SH AH0 L
+pale P EY1 L
+paleontologist P EY2 L IY0 AH0 N T AA1 L AH0 JH IH0 S T
+paleontology P EY2 L IY0 AH0 N T AA1 L AH0 JH IY0
+palestine P AE1 L AH0 S T AY2 N
+palestinian P AE2 L IH0 S T IH1 N IY0 AH0 N
+palestinians P AE2 L IH0 S T IH1 N IY0 AH0 N Z
+palette P AE1 L AH0 T
+palisades P AE2 L IH0 S EY1 D Z
+pall P AA1 L
+palladium P AH0 L EY1 D IY0 AH0 M
+pallet P AE1 L AH0 T
+palm P AA1 M
+palmer P AA1 M ER0
+palms P AA1 M Z
+palomino P AE2 L AH0 M IY1 N OW0
+palpable P AE1 L P AH0 B AH0 L
+palpitations P AE2 L P IH0 T EY1 SH AH0 N Z
+pals P AE1 L Z
+palsy P AO1 L Z IY0
+paltry P AO1 L T R IY0
+pam P AE1 M
+pamper P AE1 M P ER0
+pampered P AE1 M P ER0 D
+pampering P AE1 M P ER0 IH0 NG
+pampers P AE1 M P ER0 Z
+pamphlet P AE1 M F L AH0 T
+pamphlets P AE1 M F L AH0 T S
+pan P AE1 N
+panama P AE1 N AH0 M AA2
+pancake P AE1 N K EY2 K
+pancakes P AE1 N K EY2 K S
+pancreas P AE1 N K R IY0 AH0 S
+pancreatic P AE2 N K R IY0 AE1 T IH0 K
+panda P AE1 N D AH0
+pandas P AE1 N D AH0 Z
+pandemonium P AE2 N D IH0 M OW1 N IY0 AH0 M
+pandering P AE1 N D ER0 IH0 NG
+pandit P AH1 N D AH0 T
+pandora P AE0 N D AO1 R AH0
+pane P EY1 N
+panel P AE1 N AH0 L
+panels P AE1 N AH0 L Z
+pang P AE1 NG
+pangs P AE1 NG Z
+panhandle P AE1 N HH AE2 N D AH0 L
+panhandler P AE1 N HH AE2 N D L ER0
+panic P AE1 N IH0 K
+panicked P AE1 N IH0 K T
+panicking P AE1 N IH0 K IH0 NG
+panicky P AE1 N IH0 K IY0
+panics P AE1 N IH0 K S
+panned P AE1 N D
+panning P AE1 N IH0 NG
+pans P AE1 N Z
+pansies P AE1 N Z IY0 Z
+pansy P AE1 N Z IY0
+pant P AE1 N T
+pantheon P AE1 N TH IY0 AA2 N
+panther P AE1 N TH ER0
+panthers P AE1 N TH ER0 Z
+panties P AE1 N T IY0 Z
+panting P AE1 N T IH0 NG
+pantomime P AE1 N T AH0 M AY2 M
+pantry P AE1 N T R IY0
+pants P AE1 N T S
+panty P AE1 N T IY0
+pantyhose P AE1 N T IY0 HH OW2 Z
+panzer P AE1 N Z ER0
+paolo P AW1 L OW0
+pap P AE1 P
+papa P AA1 P AH2
+papal P EY1 P AH0 L
+paparazzi P AA2 P AA0 R AO1 Z IY2
+papaya P AH0 P AY1 AH0
+paper P EY1 P ER0
+paperback P EY1 P ER0 B AE2 K
+paperboy P EY1 P ER0 B AO2 Y
+papers P EY1 P ER0 Z
+paperweight P EY1 P ER0 W EY2 T
+paperwork P EY1 P ER0 W ER2 K
+paprika P AE0 P R IY1 K AH0
+par P AA1 R
+para P EH1 R AH0
+parabolic P EH2 R AH0 B AA1 L IH0 K
+parachute P EH1 R AH0 SH UW2 T
+parachuted P EH1 R AH0 SH UW2 T IH0 D
+parachutes P EH1 R AH0 SH UW2 T S
+parachuting P EH1 R AH0 SH UW2 T IH0 NG
+parade P ER0 EY1 D
+parades P ER0 EY1 D Z
+paradigm P EH1 R AH0 D AY2 M
+parading P ER0 EY1 D IH0 NG
+paradise P EH1 R AH0 D AY2 S
+paradox P EH1 R AH0 D AA2 K S
+paraffin P EH1 R AH0 F AH0 N
+paragon P EH1 R AH0 G AA2 N
+paragraph P AE1 R AH0 G R AE2 F
+paragraphs P AE1 R AH0 G R AE2 F S
+paraguay P EH1 R AH0 G W EY2
+parakeet P EH1 R AH0 K IY2 T
+paralegal P EH2 R AH0 L IY1 G AH0 L
+parallel P EH1 R AH0 L EH2 L
+paralysis P ER0 AE1 L AH0 S AH0 S
+paralyze P EH1 R AH0 L AY2 Z
+paralyzed P EH1 R AH0 L AY2 Z D
+paralyzing P EH1 R AH0 L AY2 Z IH0 NG
+paramedic P EH2 R AH0 M EH1 D IH0 K
+paramedics P EH2 R AH0 M EH1 D IH0 K S
+parameters P ER0 AE1 M AH0 T ER0 Z
+paramilitary P EH2 R AH0 M IH1 L AH0 T EH2 R IY0
+paramount P EH1 R AH0 M AW2 N T
+paranoia P EH2 R AH0 N OY1 AH0
+paranoid P EH1 R AH0 N OY2 D
+paranormal P EH0 R AH0 N AO1 R M AH0 L
+paraphernalia P EH2 R AH0 F AH0 N EY1 L Y AH0
+paraplegic P EH2 R AH0 P L EH1 G IH0 K
+parasite P EH1 R AH0 S AY2 T
+parasites P EH1 R AH0 S AY2 T S
+parasitic P EH2 R AH0 S IH1 T IH0 K
+paratrooper P EH1 R AH0 T R UW2 P ER0
+paratroopers P EH1 R AH0 T R UW2 P ER0 Z
+parcel P AA1 R S AH0 L
+parcels P AA1 R S AH0 L Z
+parched P AA1 R CH T
+parchment P AA1 R CH M AH0 N T
+pardo P AA1 R D OW0
+pardon P AA1 R D AH0 N
+pardoned P AA1 R D AH0 N D
+pardons P AA1 R D AH0 N Z
+parent P EH1 R AH0 N T
+parental P ER0 EH1 N T AH0 L
+parenthood P EH1 R AH0 N T HH UH2 D
+parenting P EH1 R AH0 N T IH0 NG
+parents P EH1 R AH0 N T S
+pariah P ER0 AY1 AH0
+parietal P ER0 AY1 AH0 T AH0 L
+paris P EH1 R IH0 S
+parish P AE1 R IH0 SH
+parishioners P ER0 IH1 SH AH0 N ER0 Z
+parisian P ER0 IH1 ZH AH0 N
+park P AA1 R K
+parka P AA1 R K AH0
+parked P AA1 R K T
+parker P AA1 R K ER0
+parkers P AA1 R K ER0 Z
+parking P AA1 R K IH0 NG
+parkinson P AA1 R K IH0 N S AH0 N
+parks P AA1 R K S
+parkway P AA1 R K W EY2
+parlance P AA1 R L AH0 N S
+parlay P AA1 R L EY0
+parley P AA1 R L IY0
+parliament P AA1 R L AH0 M AH0 N T
+parlor P AA1 R L ER0
+parlors P AA1 R L ER0 Z
+parlour P AA1 R L ER0
+parma P AA1 R M AH0
+parmesan P AA1 R M AH0 Z AA2 N
+parochial P ER0 OW1 K IY0 AH0 L
+parody P EH1 R AH0 D IY0
+parole P ER0 OW1 L
+paroled P ER0 OW1 L D
+parr P AA1 R
+parrot P EH1 R AH0 T
+parrots P EH1 R AH0 T S
+parry P EH1 R IY0
+parsley P AA1 R S L IY0
+parson P AA1 R S AH0 N
+parsons P AA1 R S AH0 N Z
+part P AA1 R T
+partake P AA0 R T EY1 K
+parte P AA1 R T
+parted P AA1 R T IH0 D
+parthenon P AA1 R TH AH0 N AA2 N
+partial P AA1 R SH AH0 L
+partially P AA1 R SH AH0 L IY0
+participant P AA0 R T IH1 S AH0 P AH0 N T
+participants P AA0 R T IH1 S AH0 P AH0 N T S
+participate P AA0 R T IH1 S AH0 P EY2 T
+participated P AA0 R T IH1 S AH0 P EY2 T IH0 D
+participating P AA0 R T IH1 S AH0 P EY2 T IH0 NG
+participation P AA0 R T IH2 S AH0 P EY1 SH AH0 N
+particle P AA1 R T AH0 K AH0 L
+particles P AA1 R T AH0 K AH0 L Z
+particular P ER0 T IH1 K Y AH0 L ER0
+particularly P AA2 R T IH1 K Y AH0 L ER0 L IY0
+particulars P ER0 T IH1 K Y AH0 L ER0 Z
+partied P AA1 R T IY0 D
+parties P AA1 R T IY0 Z
+parting P AA1 R T IH0 NG
+partition P AA0 R T IH1 SH AH0 N
+partly P AA1 R T L IY0
+partner P AA1 R T N ER0
+partnered P AA1 R T N ER0 D
+partners P AA1 R T N ER0 Z
+partnership P AA1 R T N ER0 SH IH2 P
+partnerships P AA1 R T N ER0 SH IH2 P S
+parton P AA1 R T AH0 N
+partridge P AA1 R T R AH0 JH
+parts P AA1 R T S
+party P AA1 R T IY0
+partying P AA1 R T IY0 IH0 NG
+pas P AA1 Z
+pasadena P AE2 S AH0 D IY1 N ER0
+pascal P AE0 S K AE1 L
+pasha P AH0 SH AA1
+paso P AE1 S OW0
+pass P AE1 S
+passable P AE1 S AH0 B AH0 L
+passage P AE1 S AH0 JH
+passages P AE1 S AH0 JH AH0 Z
+passageway P AE1 S AH0 JH W EY2
+passe P AE2 S EY1
+passed P AE1 S T
+passenger P AE1 S AH0 N JH ER0
+passengers P AE1 S AH0 N JH ER0 Z
+passes P AE1 S AH0 Z
+passing P AE1 S IH0 NG
+passion P AE1 SH AH0 N
+passionate P AE1 SH AH0 N AH0 T
+passionately P AE1 SH AH0 N AH0 T L IY0
+passions P AE1 SH AH0 N Z
+passive P AE1 S IH0 V
+passover P AE1 S OW2 V ER0
+passport P AE1 S P AO2 R T
+passports P AE1 S P AO2 R T S
+password P AE1 S W ER2 D
+passwords P AE1 S W ER2 D Z
+past P AE1 S T
+pasta P AA1 S T AH0
+paste P EY1 S T
+pasted P EY1 S T IH0 D
+pastel P AE0 S T EH1 L
+pastels P AE0 S T EH1 L Z
+pasteur P AH0 S T UW1 R
+pastime P AE1 S T AY2 M
+pastor P AE1 S T ER0
+pastrami P AH0 S T R AA1 M IY0
+pastries P EY1 S T R IY0 Z
+pastry P EY1 S T R IY0
+pasture P AE1 S CH ER0
+pastures P AE1 S CH ER0 Z
+pat P AE1 T
+patch P AE1 CH
+patched P AE1 CH T
+patches P AE1 CH AH0 Z
+patching P AE1 CH IH0 NG
+pate P EY1 T
+patel P AH0 T EH1 L
+patent P AE1 T AH0 N T
+patented P AE1 T AH0 N T IH0 D
+patents P AE1 T AH0 N T S
+paternal P AH0 T ER1 N AH0 L
+paternity P AH0 T ER1 N IH0 T IY0
+path P AE1 TH
+pathetic P AH0 TH EH1 T IH0 K
+pathetically P AH0 TH EH1 T IH0 K AH0 L IY0
+pathogen P AE1 TH AH0 JH AH0 N
+pathological P AE2 TH AH0 L AA1 JH IH0 K AH0 L
+pathologist P AH0 TH AA1 L AH0 JH AH0 S T
+pathology P AH0 TH AA1 L AH0 JH IY0
+paths P AE1 DH Z
+pathway P AE1 TH W EY2
+pathways P AE1 TH W EY2 Z
+patience P EY1 SH AH0 N S
+patient P EY1 SH AH0 N T
+patiently P EY1 SH AH0 N T L IY0
+patients P EY1 SH AH0 N T S
+patio P AE1 T IY0 OW2
+patriarch P EY1 T R IY0 AA2 R K
+patriarchal P EY2 T R IY0 AA1 R K AH0 L
+patrice P AH0 T R IY1 S
+patricia P AH0 T R IH1 SH AH0
+patrick P AE1 T R IH0 K
+patriot P EY1 T R IY0 AH0 T
+patriotic P EY2 T R IY0 AA1 T IH0 K
+patriotism P EY1 T R IY0 AH0 T IH2 Z AH0 M
+patriots P EY1 T R IY0 AH0 T S
+patrol P AH0 T R OW1 L
+patrolled P AH0 T R OW1 L D
+patrolling P AH0 T R OW1 L IH0 NG
+patrolman P AH0 T R OW1 L M AE2 N
+patrolmen P AH0 T R OW0 L M EH1 N
+patrols P AH0 T R OW1 L Z
+patron P EY1 T R AH0 N
+patronage P AE1 T R AH0 N IH0 JH
+patronize P EY1 T R AH0 N AY2 Z
+patronized P EY1 T R AH0 N AY2 Z D
+patronizing P EY1 T R AH0 N AY2 Z IH0 NG
+patrons P EY1 T R AH0 N Z
+pats P AE1 T S
+patsy P AE1 T S IY0
+patted P AE1 T IH0 D
+patter P AE1 T ER0
+pattern P AE1 T ER0 N
+patterns P AE1 T ER0 N Z
+patties P AE1 T IY0 Z
+patting P AE1 T IH0 NG
+patty P AE1 T IY0
+paul P AO1 L
+paulie P AO1 L IY2
+pauline P AO0 L IY1 N
+pauper P AO1 P ER0
+paupers P AO1 P ER0 Z
+pause P AO1 Z
+paused P AO1 Z D
+pauses P AO1 Z AH0 Z
+pausing P AO1 Z IH0 NG
+pave P EY1 V
+paved P EY1 V D
+pavement P EY1 V M AH0 N T
+pavilion P AH0 V IH1 L Y AH0 N
+paving P EY1 V IH0 NG
+pavlov P AE1 V L AA0 V
+paw P AO1
+pawing P AO1 IH0 NG
+pawn P AO1 N
+pawned P AO1 N D
+pawnee P AO1 N IY1
+pawns P AO1 N Z
+pawnshop P AO1 N SH AA2 P
+paws P AO1 Z
+pax P AE1 K S
+pay P EY1
+payable P EY1 AH0 B AH0 L
+payback P EY1 B AE2 K
+paycheck P EY1 CH EH2 K
+paychecks P EY1 CH EH2 K S
+payday P EY1 D EY2
+paying P EY1 IH0 NG
+payload P EY1 L OW2 D
+payment P EY1 M AH0 N T
+payments P EY1 M AH0 N T S
+payoff P EY1 AO2 F
+payoffs P EY1 AO2 F S
+payout P EY1 AW2 T
+payroll P EY1 R OW2 L
+payrolls P EY1 R OW2 L Z
+pays P EY1 Z
+pc P IY1 S IY1
+pea P IY1
+peabody P IY1 B AA2 D IY0
+peace P IY1 S
+peaceably P IY1 S AH0 B L IY0
+peaceful P IY1 S F AH0 L
+peacefully P IY1 S F AH0 L IY0
+peacekeeper P IY1 S K IY2 P ER0
+peacekeepers P IY1 S K IY2 P ER0 Z
+peacetime P IY1 S T AY2 M
+peach P IY1 CH
+peaches P IY1 CH AH0 Z
+peachy P IY1 CH IY0
+peacock P IY1 K AA2 K
+peacocks P IY1 K AA2 K S
+peak P IY1 K
+peaked P IY1 K T
+peaking P IY1 K IH0 NG
+peaks P IY1 K S
+peanut P IY1 N AH0 T
+peanuts P IY1 N AH0 T S
+pear P EH1 R
+pearce P IH1 R S
+pearl P ER1 L
+pearls P ER1 L Z
+pearly P ER1 L IY0
+pears P EH1 R Z
+peas P IY1 Z
+peasant P EH1 Z AH0 N T
+peasants P EH1 Z AH0 N T S
+pebble P EH1 B AH0 L
+pebbles P EH1 B AH0 L Z
+pecan P AH0 K AA1 N
+peck P EH1 K
+pecking P EH1 K IH0 NG
+peculiar P AH0 K Y UW1 L Y ER0
+peculiarities P IH0 K Y UW2 L IY0 EH1 R AH0 T IY0 Z
+pedal P EH1 D AH0 L
+pedals P EH1 D AH0 L Z
+pedantic P AH0 D AE1 N T IH0 K
+peddle P EH1 D AH0 L
+peddler P EH1 D L ER0
+peddlers P EH1 D L ER0 Z
+peddling P EH1 D AH0 L IH0 NG
+pedestal P EH1 D AH0 S T AH0 L
+pedestrian P AH0 D EH1 S T R IY0 AH0 N
+pedestrians P AH0 D EH1 S T R IY0 AH0 N Z
+pediatric P IY2 D IY0 AE1 T R IH0 K
+pediatrician P IY2 D IY0 AH0 T R IH1 SH AH0 N
+pediatrics P IY2 D IY0 AE1 T R IH0 K S
+pedicure P EH1 D IH0 K Y ER0
+pedicures P EH1 D IH0 K Y ER0 Z
+pedigree P EH1 D AH0 G R IY0
+pedophile P EH1 D OW0 F AY0 L
+pedophiles P EH1 D OW0 F AY0 L Z
+pedro P EY1 D R OW0
+pee P IY1
+peebles P IY1 B AH0 L Z
+peed P IY1 D
+peeing P IY1 IH0 NG
+peek P IY1 K
+peeked P IY1 K T
+peeking P IY1 K IH0 NG
+peel P IY1 L
+peele P IY1 L
+peeled P IY1 L D
+peeler P IY1 L ER0
+peeling P IY1 L IH0 NG
+peels P IY1 L Z
+peep P IY1 P
+peeped P IY1 P T
+peeping P IY1 P IH0 NG
+peeps P IY1 P S
+peer P IH1 R
+peering P IY1 R IH0 NG
+peerless P IH1 R L IH0 S
+peers P IH1 R Z
+pees P IY1 Z
+peeved P IY1 V D
+peewee P IY1 W IY2
+peg P EH1 G
+pegasus P EH1 G AH0 S AH0 S
+pegged P EH1 G D
+peggy P EH1 G IY0
+pegs P EH1 G Z
+peking P IY1 K IH1 NG
+pelham P EH1 L AH0 M
+pelican P EH1 L AH0 K AH0 N
+pell P EH1 L
+pellet P EH1 L AH0 T
+pellets P EH1 L AH0 T S
+pelt P EH1 L T
+pelts P EH1 L T S
+pelvic P EH1 L V IH0 K
+pelvis P EH1 L V AH0 S
+pembroke P EH1 M B R OW2 K
+pen P EH1 N
+penal P IY1 N AH0 L
+penalized P IY1 N AH0 L AY2 Z D
+penalties P EH1 N AH0 L T IY0 Z
+penalty P EH1 N AH0 L T IY0
+penance P EH1 N AH0 N S
+pence P EH1 N S
+penchant P EH1 N CH AH0 N T
+pencil P EH1 N S AH0 L
+pencils P EH1 N S AH0 L Z
+pendant P EH1 N D AH0 N T
+pending P EH1 N D IH0 NG
+pendulum P EH1 N JH AH0 L AH0 M
+penelope P AH0 N EH1 L AH0 P IY0
+penetrate P EH1 N AH0 T R EY2 T
+penetrated P EH1 N AH0 T R EY2 T IH0 D
+penetrates P EH1 N AH0 T R EY2 T S
+penetrating P EH1 N AH0 T R EY2 T IH0 NG
+penetration P EH2 N AH0 T R EY1 SH AH0 N
+peng P EH1 NG
+penguin P EH1 NG G W AH0 N
+penguins P EH1 NG G W AH0 N Z
+penicillin P EH2 N AH0 S IH1 L AH0 N
+penile P IY1 N AY0 L
+peninsula P AH0 N IH1 N S AH0 L AH0
+penis P IY1 N IH0 S
+penises P IY1 N IH0 S IH0 Z
+penitent P EH1 N IH0 T IH0 N T
+penitentiary P EH2 N IH0 T EH1 N CH ER0 IY0
+pennant P EH1 N AH0 N T
+penned P EH1 N D
+penner P EH1 N ER0
+penney P EH1 N IY0
+pennies P EH1 N IY0 Z
+penniless P EH1 N IY0 L AH0 S
+pennsylvania P EH2 N S AH0 L V EY1 N Y AH0
+penny P EH1 N IY0
+pens P EH1 N Z
+pension P EH1 N SH AH0 N
+pensions P EH1 N SH AH0 N Z
+pensive P EH1 N S IH0 V
+pentagon P EH1 N T IH0 G AA2 N
+penthouse P EH1 N T HH AW2 S
+pentothal P EH1 N T AH0 TH AA0 L
+people P IY1 P AH0 L
+peoples P IY1 P AH0 L Z
+pep P EH1 P
+pepper P EH1 P ER0
+peppermint P EH1 P ER0 M IH2 N T
+pepperoni P EH2 P ER0 OW1 N IY0
+peppers P EH1 P ER0 Z
+peppy P EH1 P IY0
+pepsi P EH1 P S IY0
+peptide P EH1 P T AY2 D
+peptides P EH1 P T AY2 D Z
+per P ER1
+perceive P ER0 S IY1 V
+perceived P ER0 S IY1 V D
+percent P ER0 S EH1 N T
+percentage P ER0 S EH1 N T AH0 JH
+percentages P ER0 S EH1 N T IH0 JH IH0 Z
+percentile P ER0 S EH1 N T AY2 L
+perception P ER0 S EH1 P SH AH0 N
+perceptions P ER0 S EH1 P SH AH0 N Z
+perceptive P ER0 S EH1 P T IH0 V
+perch P ER1 CH
+perchance P ER0 CH AE1 N S
+perched P ER1 CH T
+percussion P ER0 K AH1 SH AH0 N
+perennial P ER0 EH1 N IY0 AH0 L
+perfect P ER0 F EH1 K T
+perfected P ER0 F EH1 K T IH0 D
+perfecting P ER0 F EH1 K T IH0 NG
+perfection P ER0 F EH1 K SH AH0 N
+perfectionist P ER0 F EH1 K SH AH0 N AH0 S T
+perfectly P ER1 F AH0 K T L IY0
+perforated P ER1 F ER0 EY2 T IH0 D
+perform P ER0 F AO1 R M
+performance P ER0 F AO1 R M AH0 N S
+performances P ER0 F AO1 R M AH0 N S AH0 Z
+performed P ER0 F AO1 R M D
+performer P ER0 F AO1 R M ER0
+performers P ER0 F AO1 R M ER0 Z
+performing P ER0 F AO1 R M IH0 NG
+performs P ER0 F AO1 R M Z
+perfume P ER0 F Y UW1 M
+perfumed P ER0 F Y UW1 M D
+perfumes P ER0 F Y UW1 M Z
+perhaps P ER0 HH AE1 P S
+peril P EH1 R AH0 L
+perilous P EH1 R AH0 L AH0 S
+perils P EH1 R AH0 L Z
+perimeter P ER0 IH1 M AH0 T ER0
+perimeters P ER0 IH1 M AH0 T ER0 Z
+period P IH1 R IY0 AH0 D
+periodic P IH2 R IY0 AA1 D IH0 K
+periodically P IY2 R IY0 AA1 D IH0 K AH0 L IY0
+periods P IH1 R IY0 AH0 D Z
+peripheral P ER0 IH1 F ER0 AH0 L
+periphery P ER0 IH1 F ER0 IY0
+periscope P EH1 R AH0 S K OW2 P
+perish P EH1 R IH0 SH
+perished P EH1 R IH0 SH T
+peritoneal P EH2 R IY0 T OW0 N IY1 AH0 L
+perjured P ER1 JH ER0 D
+perjury P ER1 JH ER0 IY0
+perk P ER1 K
+perks P ER1 K S
+perky P ER1 K IY0
+permanent P ER1 M AH0 N AH0 N T
+permanently P ER1 M AH0 N AH0 N T L IY0
+permissible P ER0 M IH1 S AH0 B AH0 L
+permission P ER0 M IH1 SH AH0 N
+permit P ER0 M IH1 T
+permits P ER0 M IH1 T S
+permitted P ER0 M IH1 T IH0 D
+permitting P ER0 M IH1 T IH0 NG
+pernicious P ER0 N IH1 SH AH0 S
+peroxide P ER0 AA1 K S AY2 D
+perpetrated P ER1 P AH0 T R EY2 T IH0 D
+perpetrator P ER1 P AH0 T R EY2 T ER0
+perpetrators P ER1 P AH0 T R EY2 T ER0 Z
+perpetual P ER0 P EH1 CH UW0 AH0 L
+perpetually P ER0 P EH1 CH UW0 AH0 L IY0
+perpetuate P ER0 P EH1 CH AH0 W EY2 T
+perpetuity P ER2 P IH0 T Y UW1 IH0 T IY0
+perplexed P ER0 P L EH1 K S T
+perplexing P ER0 P L EH1 K S IH0 NG
+perrier P EH1 R IY0 ER0
+perry P EH1 R IY0
+persecute P ER1 S AH0 K Y UW2 T
+persecuted P ER1 S AH0 K Y UW2 T IH0 D
+persecuting P ER1 S IH0 K Y UW2 T IH0 NG
+persecution P ER2 S AH0 K Y UW1 SH AH0 N
+perseus P ER1 S IY0 AH0 S
+perseverance P ER2 S AH0 V IH1 R AH0 N S
+persevere P ER0 S AH0 V IH1 R
+persia P ER1 ZH AH0
+persian P ER1 ZH AH0 N
+persians P ER1 ZH AH0 N Z
+persist P ER0 S IH1 S T
+persisted P ER0 S IH1 S T IH0 D
+persistence P ER0 S IH1 S T AH0 N S
+persistent P ER0 S IH1 S T AH0 N T
+persists P ER0 S IH1 S T S
+person P ER1 S AH0 N
+persona P ER0 S OW1 N AH0
+personal P ER1 S IH0 N AH0 L
+personalities P ER2 S AH0 N AE1 L IH0 T IY0 Z
+personality P ER2 S AH0 N AE1 L IH0 T IY0
+personalize P ER1 S AH0 N AH0 L AY2 Z
+personalized P ER1 S AH0 N AH0 L AY2 Z D
+personally P ER1 S AH0 N AH0 L IY0
+personals P ER1 S IH0 N IH0 L Z
+personification P ER0 S AA2 N AH0 F AH0 K EY1 SH AH0 N
+personified P ER0 S AA1 N AH0 F AY2 D
+personnel P ER2 S AH0 N EH1 L
+persons P ER1 S AH0 N Z
+perspective P ER0 S P EH1 K T IH0 V
+perspiration P ER2 S P ER0 EY1 SH AH0 N
+perspiring P ER0 S P AY1 R IH0 NG
+persuade P ER0 S W EY1 D
+persuaded P ER0 S W EY1 D IH0 D
+persuading P ER0 S W EY1 D IH0 NG
+persuasion P ER0 S W EY1 ZH AH0 N
+persuasive P ER0 S W EY1 S IH0 V
+pert P ER1 T
+pertain P ER0 T EY1 N
+pertaining P ER0 T EY1 N IH0 NG
+pertains P ER0 T EY1 N Z
+pertinent P ER1 T IH0 N IH0 N T
+perturbed P ER0 T ER1 B D
+peru P ER0 UW1
+peruse P ER0 UW1 Z
+peruvian P ER0 UW1 V IY0 AH0 N
+pervasive P ER0 V EY1 S IH0 V
+perverse P ER0 V ER1 S
+perversion P ER0 V ER1 ZH AH0 N
+pervert P ER1 V ER0 T
+perverted P ER0 V ER1 T IH0 D
+perverts P ER1 V ER0 T S
+pesky P EH1 S K IY0
+pesos P EY1 S OW0 Z
+pessimism P EH1 S AH0 M IH2 Z AH0 M
+pessimist P EH1 S AH0 M AH0 S T
+pessimistic P EH2 S AH0 M IH1 S T IH0 K
+pest P EH1 S T
+pester P EH1 S T ER0
+pestering P EH1 S T ER0 IH0 NG
+pesticide P EH1 S T AH0 S AY2 D
+pesticides P EH1 S T AH0 S AY2 D Z
+pestilence P EH1 S T AH0 L AH0 N S
+pests P EH1 S T S
+pet P EH1 T
+petal P EH1 T AH0 L
+petals P EH1 T AH0 L Z
+pete P IY1 T
+peter P IY1 T ER0
+peters P IY1 T ER0 Z
+petersburg P IY1 T ER0 Z B ER0 G
+petersen P IY1 T ER0 S AH0 N
+petit P EH1 T IY0
+petite P AH0 T IY1 T
+petition P AH0 T IH1 SH AH0 N
+petitioned P AH0 T IH1 SH AH0 N D
+petitioner P AH0 T IH1 SH AH0 N ER0
+petitions P AH0 T IH1 SH AH0 N Z
+petri P EH1 T R IY0
+petrie P EH1 T R IY0
+petrified P EH1 T R AH0 F AY2 D
+petrol P EH1 T R OW0 L
+petroleum P AH0 T R OW1 L IY0 AH0 M
+pets P EH1 T S
+petticoat P EH1 T IY0 K OW2 T
+petticoats P EH1 T IY0 K OW2 T S
+petting P EH1 T IH0 NG
+petty P EH1 T IY2
+petulant P EH1 CH AH0 L AH0 N T
+petunia P AH0 T UW1 N IY0 AH0
+petunias P AH0 T UW1 N IY0 AH0 Z
+pew P Y UW1
+pewter P Y UW1 T ER0
+peyote P IH0 Y AO1 T IY2
+peyton P EY1 T AH0 N
+ph P IY1 EY1 CH
+phalanges F AH0 L AE1 N JH IY0 Z
+phallic F AE1 L IH0 K
+phantom F AE1 N T AH0 M
+phantoms F AE1 N T AH0 M Z
+pharaoh F EH1 R OW0
+pharaohs F EH1 R OW0 Z
+pharmaceutical F AA2 R M AH0 S UW1 T IH0 K AH0 L
+pharmaceuticals F AA2 R M AH0 S UW1 T IH0 K AH0 L Z
+pharmacist F AA1 R M AH0 S IH0 S T
+pharmacy F AA1 R M AH0 S IY0
+phase F EY1 Z
+phases F EY1 Z AH0 Z
+pheasant F EH1 Z AH0 N T
+pheasants F EH1 Z AH0 N T S
+phenomena F AH0 N AA1 M AH0 N AH0
+phenomenal F AH0 N AA1 M AH0 N AH0 L
+phenomenon F AH0 N AA1 M AH0 N AA2 N
+pheromone F EH1 R AH0 M OW2 N
+pheromones F EH1 R AH0 M OW2 N Z
+phew F Y UW1
+phi F AY1
+phil F IH1 L
+philadelphia F IH2 L AH0 D EH1 L F IY0 AH0
+philandering F AY2 L AE1 N D ER0 IH0 NG
+philanthropic F IH2 L AH0 N TH R AA1 P IH0 K
+philanthropist F AH0 L AE1 N TH R AH0 P AH0 S T
+philharmonic F IH2 L HH AA2 R M AA1 N IH0 K
+philip F IH1 L AH0 P
+philippine F IH1 L AH0 P IY2 N
+philippines F IH1 L AH0 P IY2 N Z
+philistine F IH1 L AH0 S T IY2 N
+philistines F IH1 L AH0 S T IY2 N Z
+philosopher F AH0 L AA1 S AH0 F ER0
+philosophers F AH0 L AA1 S AH0 F ER0 Z
+philosophical F IH2 L AH0 S AA1 F IH0 K AH0 L
+philosophies F AH0 L AA1 S AH0 F IY0 Z
+philosophy F AH0 L AA1 S AH0 F IY0
+phlegm F L EH1 M
+phobia F OW1 B IY0 AH0
+phobias F OW1 B IY0 AH0 Z
+phoebe F IY1 B IY0
+phoebus F IY1 B AH0 S
+phoenix F IY1 N IH0 K S
+phone F OW1 N
+phoned F OW1 N D
+phones F OW1 N Z
+phoney F OW1 N IY0
+phoning F OW1 N IH0 NG
+phonograph F OW1 N AH0 G R AE2 F
+phony F OW1 N IY0
+phooey F UW1 IY0
+phosphate F AA1 S F EY0 T
+phosphorus F AA1 S F ER0 AH0 S
+photo F OW1 T OW2
+photocopy F OW1 T OW0 K AA2 P IY0
+photogenic F OW2 T AH0 JH EH1 N IH0 K
+photograph F OW1 T AH0 G R AE2 F
+photographed F OW1 T AH0 G R AE2 F T
+photographer F AH0 T AA1 G R AH0 F ER0
+photographers F AH0 T AA1 G R AH0 F ER0 Z
+photographic F OW2 T AH0 G R AE1 F IH0 K
+photographing F OW1 T AH0 G R AE2 F IH0 NG
+photographs F OW1 T AH0 G R AE2 F S
+photography F AH0 T AA1 G R AH0 F IY0
+photon F OW1 T AA2 N
+photons F OW1 T AA2 N Z
+photos F OW1 T OW2 Z
+phrase F R EY1 Z
+phrased F R EY1 Z D
+phrases F R EY1 Z AH0 Z
+phrasing F R EY1 Z IH0 NG
+phu F UW1
+phyllis F IH1 L IH0 S
+physical F IH1 Z IH0 K AH0 L
+physically F IH1 Z IH0 K AH0 L IY0
+physicals F IH1 Z IH0 K AH0 L Z
+physician F AH0 Z IH1 SH AH0 N
+physicians F AH0 Z IH1 SH AH0 N Z
+physicist F IH1 Z IH0 S IH0 S T
+physicists F IH1 Z IH0 S IH0 S T S
+physics F IH1 Z IH0 K S
+physiological F IH2 Z IY0 AH0 L AA1 JH IH0 K AH0 L
+physiologically F IH2 Z IY0 AH0 L AA1 JH IH0 K L IY0
+physiology F IH2 Z IY0 AA1 L AH0 JH IY0
+physique F AH0 Z IY1 K
+pi P AY1
+pianist P IY0 AE1 N AH0 S T
+piano P IY0 AE1 N OW0
+pianos P IY0 AE1 N OW0 Z
+piazza P IY0 AE1 Z AH0
+pic P IH1 K
+picard P IH0 K AA1 R D
+picasso P IH0 K AA1 S OW0
+piccadilly P IH1 K AH0 D IH2 L IY0
+piccolo P IH1 K AH0 L OW2
+pick P IH1 K
+picked P IH1 K T
+picker P IH1 K ER0
+pickering P IH1 K ER0 IH0 NG
+pickers P IH1 K ER0 Z
+picket P IH1 K IH0 T
+picking P IH1 K IH0 NG
+pickings P IH1 K IH0 NG Z
+pickle P IH1 K AH0 L
+pickled P IH1 K AH0 L D
+pickles P IH1 K AH0 L Z
+pickpocket P IH1 K P AA2 K AH0 T
+picks P IH1 K S
+pickup P IH1 K AH2 P
+pickups P IH1 K AH2 P S
+picky P IH1 K IY0
+picnic P IH1 K N IH2 K
+picnics P IH1 K N IH2 K S
+pico P IY1 K OW0
+picture P IH1 K CH ER0
+pictured P IH1 K CH ER0 D
+pictures P IH1 K CH ER0 Z
+picturesque P IH1 K CH ER0 AH0 S K
+picturing P IH1 K CH ER0 IH0 NG
+pie P AY1
+piece P IY1 S
+pieced P IY1 S T
+pieces P IY1 S AH0 Z
+piecing P IY1 S IH0 NG
+pied P AY1 D
+piedmont P IY1 D M AA2 N T
+pier P IH1 R
+pierce P IH1 R S
+pierced P IH1 R S T
+piercing P IH1 R S IH0 NG
+pierre P IY0 EH1 R
+piers P IH1 R Z
+pies P AY1 Z
+piety P AY1 AH0 T IY0
+pig P IH1 G
+pigeon P IH1 JH AH0 N
+pigeons P IH1 JH AH0 N Z
+piggy P IH1 G IY0
+piggyback P IH1 G IY0 B AE2 K
+piglet P IH1 G L IH0 T
+pigment P IH1 G M AH0 N T
+pigmentation P IH2 G M AH0 N T EY1 SH AH0 N
+pigs P IH1 G Z
+pigskin P IH1 G S K IH2 N
+pigsty P IH1 G S T AY2
+pike P AY1 K
+pilar P AY1 L ER0
+pilate P AY1 L AH2 T
+pile P AY1 L
+piled P AY1 L D
+piles P AY1 L Z
+pileup P AY1 L AH2 P
+pilfering P IH1 L F ER0 IH0 NG
+pilgrim P IH1 L G R AH0 M
+pilgrimage P IH1 L G R AH0 M AH0 JH
+pilgrims P IH1 L G R AH0 M Z
+piling P AY1 L IH0 NG
+pill P IH1 L
+pillage P IH1 L IH0 JH
+pillar P IH1 L ER0
+pillars P IH1 L ER0 Z
+pillow P IH1 L OW0
+pillows P IH1 L OW0 Z
+pills P IH1 L Z
+pilot P AY1 L AH0 T
+piloting P AY1 L AH0 T IH0 NG
+pilots P AY1 L AH0 T S
+pimp P IH1 M P
+pimping P IH1 M P IH0 NG
+pimple P IH1 M P AH0 L
+pimples P IH1 M P AH0 L Z
+pimps P IH1 M P S
+pin P IH1 N
+pina P IY1 N AH0
+pinball P IH1 N B AO2 L
+pinch P IH1 N CH
+pinched P IH1 N CH T
+pinching P IH1 N CH IH0 NG
+pine P AY1 N
+pineal P AY2 N IY1 AH0 L
+pineapple P AY1 N AE2 P AH0 L
+pineapples P AY1 N AE2 P AH0 L Z
+pines P AY1 N Z
+ping P IH1 NG
+pining P AY1 N IH0 NG
+pink P IH1 NG K
+pinkie P IH1 NG K IY0
+pinks P IH1 NG K S
+pinky P IH1 NG K IY0
+pinnacle P IH1 N AH0 K AH0 L
+pinned P IH1 N D
+pinning P IH1 N IH0 NG
+pino P IY1 N OW0
+pinocchio P IH0 N OW1 K IY0 OW0
+pinot P IH1 N AH0 T
+pinpoint P IH1 N P OY2 N T
+pinpointed P IH1 N P OY2 N T IH0 D
+pins P IH1 N Z
+pint P AY1 N T
+pinto P IH1 N T OW2
+pints P AY1 N T S
+pioneer P AY2 AH0 N IH1 R
+pioneers P AY2 AH0 N IH1 R Z
+pious P AY1 AH0 S
+pip P IH1 P
+pipe P AY1 P
+piped P AY1 P T
+pipeline P AY1 P L AY2 N
+piper P AY1 P ER0
+pipes P AY1 P S
+piping P AY1 P IH0 NG
+pippin P IH1 P IH0 N
+pips P IH1 P S
+pique P IY1 K
+piracy P AY1 R AH0 S IY0
+piranha P IH0 R AE1 N HH AH0
+pirate P AY1 R AH0 T
+pirates P AY1 R AH0 T S
+pirating P AY1 R AH0 T IH0 NG
+pirouette P IH2 R UW0 EH1
+pisa P IY1 S AH0
+pisces P AY1 S IY0 Z
+piss P IH1 S
+pissed P IH1 S T
+pisses P IH1 S IH2 Z
+pissing P IH1 S IH2 NG
+pistachio P AH0 S T AE1 SH IY0 OW2
+pistachios P AH0 S T AE1 SH IY0 OW2 Z
+pistol P IH1 S T AH0 L
+pistols P IH1 S T AH0 L Z
+piston P IH1 S T AH0 N
+pistons P IH1 S T AH0 N Z
+pit P IH1 T
+pita P IY1 T AH0
+pitch P IH1 CH
+pitched P IH1 CH T
+pitcher P IH1 CH ER0
+pitchers P IH1 CH ER0 Z
+pitches P IH1 CH IH0 Z
+pitchfork P IH1 CH F AO2 R K
+pitchforks P IH1 CH F AO2 R K S
+pitching P IH1 CH IH0 NG
+pitfalls P IH1 T F AO2 L Z
+pithy P IH1 TH IY0
+pitied P IH1 T IY2 D
+pitiful P IH1 T AH0 F AH0 L
+pitifully P IH1 T IH0 F AH0 L IY0
+pits P IH1 T S
+pituitary P AH0 T UW1 AH0 T EH2 R IY0
+pity P IH1 T IY0
+pivot P IH1 V AH0 T
+pivotal P IH1 V AH0 T AH0 L
+pixie P IH1 K S IY0
+pizza P IY1 T S AH0
+pizzas P IY1 T S AH0 Z
+pizzazz P IH2 Z AE1 Z
+pizzeria P IY2 T S ER0 IY1 AH0
+placate P L EY1 K EY0 T
+place P L EY1 S
+placebo P L AH0 S IY1 B OW0
+placed P L EY1 S T
+placement P L EY1 S M AH0 N T
+placenta P L AH0 S EH1 N T AH0
+places P L EY1 S AH0 Z
+placid P L AE1 S AH0 D
+placing P L EY1 S IH0 NG
+plagiarism P L EY1 JH ER0 IH2 Z AH0 M
+plague P L EY1 G
+plagued P L EY1 G D
+plagues P L EY1 G Z
+plaid P L AE1 D
+plain P L EY1 N
+plainclothes P L EY1 N K L OW1 Z
+plainly P L EY1 N L IY0
+plains P L EY1 N Z
+plaintiff P L EY1 N T AH0 F
+plaintiffs P L EY1 N T IH0 F S
+plait P L EY1 T
+plan P L AE1 N
+plane P L EY1 N
+planes P L EY1 N Z
+planet P L AE1 N AH0 T
+planetarium P L AE2 N AH0 T EH1 R IY0 AH0 M
+planetary P L AE1 N AH0 T EH2 R IY0
+planets P L AE1 N AH0 T S
+plank P L AE1 NG K
+planks P L AE1 NG K S
+plankton P L AE1 NG K T AH0 N
+planned P L AE1 N D
+planner P L AE1 N ER0
+planning P L AE1 N IH0 NG
+plans P L AE1 N Z
+plant P L AE1 N T
+plantation P L AE2 N T EY1 SH AH0 N
+plantations P L AE2 N T EY1 SH AH0 N Z
+planted P L AE1 N T IH0 D
+planter P L AE1 N T ER0
+planters P L AE1 N T ER0 Z
+planting P L AE1 N T IH0 NG
+plants P L AE1 N T S
+plaque P L AE1 K
+plasma P L AE1 Z M AH0
+plaster P L AE1 S T ER0
+plastered P L AE1 S T ER0 D
+plastic P L AE1 S T IH0 K
+plastics P L AE1 S T IH0 K S
+plate P L EY1 T
+plateau P L AE0 T OW1
+platelets P L EY1 T L AH0 T S
+plates P L EY1 T S
+platform P L AE1 T F AO2 R M
+platforms P L AE1 T F AO2 R M Z
+plating P L EY1 T IH0 NG
+platinum P L AE1 T N AH0 M
+plato P L EY1 T OW0
+platonic P L AH0 T AA1 N IH0 K
+platoon P L AH0 T UW1 N
+platter P L AE1 T ER0
+platters P L AE1 T ER0 Z
+plausible P L AO1 Z AH0 B AH0 L
+play P L EY1
+playa P L AY1 AH0
+playback P L EY1 B AE2 K
+playbook P L EY1 B UH0 K
+playboy P L EY1 B OY2
+played P L EY1 D
+player P L EY1 ER0
+players P L EY1 ER0 Z
+playful P L EY1 F AH0 L
+playground P L EY1 G R AW2 N D
+playgrounds P L EY1 G R AW2 N D Z
+playhouse P L EY1 HH AW2 S
+playing P L EY1 IH0 NG
+playmate P L EY1 M EY2 T
+playmates P L EY1 M EY2 T S
+playoff P L EY1 AO2 F
+playoffs P L EY1 AO2 F S
+playpen P L EY1 P EH2 N
+playroom P L EY1 R UW2 M
+plays P L EY1 Z
+plaything P L EY1 TH IH2 NG
+playthings P L EY1 TH IH2 NG Z
+playwright P L EY1 R AY2 T
+plaza P L AA1 Z AH0
+plea P L IY1
+plead P L IY1 D
+pleaded P L IY1 D IH0 D
+pleading P L IY1 D IH0 NG
+pleads P L IY1 D Z
+pleas P L IY1 Z
+pleasant P L EH1 Z AH0 N T
+pleasantly P L EH1 Z AH0 N T L IY0
+pleasantries P L EH1 Z AH0 N T R IY0 Z
+please P L IY1 Z
+pleased P L IY1 Z D
+pleases P L IY1 Z IH0 Z
+pleasing P L IY1 Z IH0 NG
+pleasurable P L EH1 ZH ER0 AH0 B AH0 L
+pleasure P L EH1 ZH ER0
+pleasures P L EH1 ZH ER0 Z
+pleats P L IY1 T S
+pledge P L EH1 JH
+pledged P L EH1 JH D
+pledges P L EH1 JH IH0 Z
+pledging P L EH1 JH IH0 NG
+plentiful P L EH1 N T AH0 F AH0 L
+plenty P L EH1 N T IY0
+plethora P L EH1 TH ER0 AH0
+pleural P L UH1 R AH0 L
+plexiglas P L EH1 K S IH0 G L AE2 S
+plexus P L EH1 K S AH0 S
+pliers P L AY1 ER0 Z
+plight P L AY1 T
+plink P L IH1 NG K
+plop P L AA1 P
+plot P L AA1 T
+plots P L AA1 T S
+plotted P L AA1 T IH0 D
+plotting P L AA1 T IH0 NG
+plough P L AW1
+plow P L AW1
+plowed P L AW1 D
+plowing P L AW1 IH0 NG
+plows P L AW1 Z
+ploy P L OY1
+pluck P L AH1 K
+plucked P L AH1 K T
+plucking P L AH1 K IH0 NG
+plucky P L AH1 K IY0
+plug P L AH1 G
+plugged P L AH1 G D
+plugging P L AH1 G IH0 NG
+plugs P L AH1 G Z
+plum P L AH1 M
+plumb P L AH1 M
+plumber P L AH1 M ER0
+plumbers P L AH1 M ER0 Z
+plumbing P L AH1 M IH0 NG
+plume P L UW1 M
+plumes P L UW1 M Z
+plummer P L AH1 M ER0
+plummet P L AH1 M AH0 T
+plummeting P L AH1 M AH0 T IH0 NG
+plump P L AH1 M P
+plums P L AH1 M Z
+plunder P L AH1 N D ER0
+plundered P L AH1 N D ER0 D
+plunge P L AH1 N JH
+plunged P L AH1 N JH D
+plunger P L AH1 N JH ER0
+plunging P L AH1 N JH IH0 NG
+plural P L UH1 R AH0 L
+plus P L AH1 S
+plush P L AH1 SH
+pluto P L UW1 T OW0
+plutonium P L UW0 T OW1 N IY0 AH0 M
+ply P L AY1
+plying P L AY1 IH0 NG
+plymouth P L IH1 M AH0 TH
+plywood P L AY1 W UH2 D
+pm P IY1 EH1 M
+pneumatic N UW0 M AE1 T IH0 K
+pneumonia N UW0 M OW1 N Y AH0
+po P OW1
+poach P OW1 CH
+poached P OW1 CH T
+poacher P OW1 CH ER0
+poachers P OW1 CH ER0 Z
+poaching P OW1 CH IH0 NG
+pocket P AA1 K AH0 T
+pocketbook P AA1 K AH0 T B UH2 K
+pocketful P AA1 K AH0 T F UH2 L
+pockets P AA1 K AH0 T S
+poco P OW1 K OW0
+pocus P OW1 K AH0 S
+pod P AA1 D
+podium P OW1 D IY0 AH0 M
+pods P AA1 D Z
+podunk P OW1 T AH0 NG K
+poe P OW1
+poem P OW1 AH0 M
+poems P OW1 AH0 M Z
+poet P OW1 AH0 T
+poetic P OW0 EH1 T IH0 K
+poetry P OW1 AH0 T R IY0
+poets P OW1 AH0 T S
+pogo P OW1 G OW2
+poignant P OY1 N Y AH0 N T
+point P OY1 N T
+pointe P OY1 N T
+pointed P OY1 N T IH0 D
+pointer P OY1 N T ER0
+pointers P OY1 N T ER0 Z
+pointing P OY1 N T IH0 NG
+pointless P OY1 N T L AH0 S
+points P OY1 N T S
+pointy P OY1 N T IY0
+poise P OY1 Z
+poised P OY1 Z D
+poison P OY1 Z AH0 N
+poisoned P OY1 Z AH0 N D
+poisoning P OY1 Z AH0 N IH0 NG
+poisonous P OY1 Z AH0 N AH0 S
+poisons P OY1 Z AH0 N Z
+poke P OW1 K
+poked P OW1 K T
+poker P OW1 K ER0
+pokes P OW1 K S
+pokey P OW1 K IY0
+poking P OW1 K IH0 NG
+pol P AO1 L
+polack P OW1 L AE0 K
+poland P OW1 L AH0 N D
+polar P OW1 L ER0
+polarity P OW0 L EH1 R AH0 T IY0
+polarized P OW1 L ER0 AY2 Z D
+polaroid P OW1 L ER0 OY2 D
+polaroids P OW1 L ER0 OY2 D Z
+pole P OW1 L
+polecat P OW1 L K AE2 T
+poles P OW1 L Z
+police P AH0 L IY1 S
+policeman P AH0 L IY1 S M AH0 N
+policemen P AH0 L IY1 S M IH0 N
+polices P AH0 L IY1 S IH0 Z
+policewoman P AH0 L IY1 S W UH2 M AH0 N
+policies P AA1 L AH0 S IY0 Z
+policy P AA1 L AH0 S IY0
+polio P OW1 L IY0 OW2
+polish P AA1 L IH0 SH
+polished P AA1 L IH0 SH T
+polishing P AA1 L IH0 SH IH0 NG
+polite P AH0 L AY1 T
+politely P AH0 L AY1 T L IY0
+politeness P AH0 L AY1 T N AH0 S
+politic P AA1 L AH0 T IH2 K
+political P AH0 L IH1 T AH0 K AH0 L
+politically P AH0 L IH1 T IH0 K AH0 L IY0
+politician P AA2 L AH0 T IH1 SH AH0 N
+politicians P AA2 L AH0 T IH1 SH AH0 N Z
+politics P AA1 L AH0 T IH2 K S
+polk P OW1 K
+polka P OW1 L K AA0
+poll P OW1 L
+pollack P AA1 L AH0 K
+pollard P AA1 L ER0 D
+pollen P AA1 L AH0 N
+polling P OW1 L IH0 NG
+pollock P AA1 L AH0 K
+polls P OW1 L Z
+pollute P AH0 L UW1 T
+polluted P AH0 L UW1 T IH0 D
+polluting P AH0 L UW1 T IH0 NG
+pollution P AH0 L UW1 SH AH0 N
+pollux P AA1 L AH0 K S
+polly P AA1 L IY0
+polo P OW1 L OW0
+polonius P AH0 L OW1 N IY0 AH0 S
+poltergeist P OW1 L T ER0 G AY2 S T
+poly P AA1 L IY0
+polyester P AA2 L IY2 EH1 S T ER0
+polygamy P AH0 L IH1 G AH0 M IY2
+polygraph P AA1 L IY2 G R AE2 F
+polymer P AA1 L AH0 M ER0
+polynesian P AA2 L IH2 N IY1 ZH AH0 N
+pom P AO1 M
+pomona P OW0 M OW1 N AH0
+pomp P AA1 M P
+pompadour P AA1 M P AH0 D AO0 R
+pompey P AA1 M P IY0
+pompoms P AA1 M P AA0 M Z
+pompous P AA1 M P AH0 S
+pon P AA1 N
+ponce P OW1 N S EY0
+poncho P AA1 N CH OW0
+pond P AA1 N D
+ponder P AA1 N D ER0
+pondered P AA1 N D ER0 D
+pondering P AA1 N D ER0 IH0 NG
+ponds P AA1 N D Z
+pong P AO1 NG
+ponies P OW1 N IY0 Z
+pontiac P AA1 N T IY0 AE2 K
+pontius P AA1 N T IY2 IH0 S
+ponton P AA1 N T AH0 N
+pontoon P AA0 N T UW1 N
+pony P OW1 N IY2
+ponytail P OW1 N IY0 T EY2 L
+poo P UW1
+pooch P UW1 CH
+poodle P UW1 D AH0 L
+poodles P UW1 D AH0 L Z
+poof P UW1 F
+pooh P UW1
+pool P UW1 L
+pooled P UW1 L D
+pooling P UW1 L IH0 NG
+pools P UW1 L Z
+poon P UW1 N
+poop P UW1 P
+pooped P UW1 P T
+poops P UW1 P S
+poor P UW1 R
+poorer P UW1 R ER0
+poorest P UW1 R IH0 S T
+poorhouse P UW1 R HH AW2 S
+poorly P UW1 R L IY0
+pop P AA1 P
+popcorn P AA1 P K AO2 R N
+pope P OW1 P
+popes P OW1 P Z
+popeye P AA1 P AY2
+poppa P AA1 P AH0
+popped P AA1 P T
+popper P AA1 P ER0
+poppers P AA1 P ER0 Z
+poppies P AA1 P IY0 Z
+popping P AA1 P IH0 NG
+poppy P AA1 P IY0
+poppycock P AA1 P IY0 K AO2 K
+pops P AA1 P S
+popsicle P AA1 P S IH0 K AH0 L
+populace P AA1 P Y AH0 L AH0 S
+popular P AA1 P Y AH0 L ER0
+popularity P AA2 P Y AH0 L EH1 R AH0 T IY0
+populated P AA1 P Y AH0 L EY2 T IH0 D
+population P AA2 P Y AH0 L EY1 SH AH0 N
+populations P AA2 P Y AH0 L EY1 SH AH0 N Z
+por P AO1 R
+porcelain P AO1 R S AH0 L AH0 N
+porch P AO1 R CH
+porcupine P AO1 R K Y AH0 P AY2 N
+porcupines P AO1 R K Y AH0 P AY2 N Z
+pore P AO1 R
+pores P AO1 R Z
+pork P AO1 R K
+porker P AO1 R K ER0
+porky P AO1 R K IY0
+porn P AO1 R N
+porno P AO1 R N OW0
+pornographer P AO2 R N AA1 G R AH0 F ER0
+pornographic P AO2 R N AH0 G R AE1 F IH0 K
+pornography P AO0 R N AA1 G R AH0 F IY0
+porous P AO1 R AH0 S
+porpoise P AO1 R P AH0 S
+porridge P AO1 R AH0 JH
+port P AO1 R T
+portable P AO1 R T AH0 B AH0 L
+portal P AO1 R T AH0 L
+portals P AO1 R T AH0 L Z
+porter P AO1 R T ER0
+porters P AO1 R T ER0 Z
+portfolio P AO0 R T F OW1 L IY0 OW2
+portia P AO1 R SH AH0
+portico P AO1 R T AH0 K OW2
+portion P AO1 R SH AH0 N
+portions P AO1 R SH AH0 N Z
+portland P AO1 R T L AH0 N D
+portman P AO1 R T M AH0 N
+portrait P AO1 R T R AH0 T
+portraits P AO1 R T R AH0 T S
+portray P AO0 R T R EY1
+portrayal P AO0 R T R EY1 AH0 L
+portrayed P AO0 R T R EY1 D
+portraying P AO0 R T R EY1 IH0 NG
+ports P AO1 R T S
+portugal P AO1 R CH AH0 G AH0 L
+portuguese P AO1 R CH AH0 G IY2 Z
+pos P AA1 S
+pose P OW1 Z
+posed P OW1 Z D
+poseidon P AH0 S AY1 D AH0 N
+poser P OW1 Z ER0
+poses P OW1 Z AH0 Z
+posey P OW1 Z IY0
+posh P AA1 SH
+posing P OW1 Z IH0 NG
+position P AH0 Z IH1 SH AH0 N
+positioned P AH0 Z IH1 SH AH0 N D
+positioning P AH0 Z IH1 SH AH0 N IH0 NG
+positions P AH0 Z IH1 SH AH0 N Z
+positive P AA1 Z AH0 T IH0 V
+positively P AA1 Z AH0 T IH0 V L IY0
+posse P AA1 S IY0
+possess P AH0 Z EH1 S
+possessed P AH0 Z EH1 S T
+possesses P AH0 Z EH1 S AH0 Z
+possessing P AH0 Z EH1 S IH0 NG
+possession P AH0 Z EH1 SH AH0 N
+possessions P AH0 Z EH1 SH AH0 N Z
+possessive P AH0 Z EH1 S IH0 V
+possibilities P AA2 S AH0 B IH1 L AH0 T IY0 Z
+possibility P AA2 S AH0 B IH1 L AH0 T IY2
+possible P AA1 S AH0 B AH0 L
+possibly P AA1 S AH0 B L IY0
+possum P AA1 S AH0 M
+post P OW1 S T
+postage P OW1 S T AH0 JH
+postal P OW1 S T AH0 L
+postcard P OW1 S T K AA2 R D
+postcards P OW1 S T K AA2 R D Z
+posted P OW1 S T IH0 D
+poster P OW1 S T ER0
+posterior P AO2 S T IH1 R Y ER0
+posterity P AA0 S T EH1 R AH0 T IY0
+posters P OW1 S T ER0 Z
+posting P OW1 S T IH0 NG
+postings P OW1 S T IH0 NG Z
+postman P OW1 S T M AH0 N
+postmark P OW1 S T M AA2 R K
+postmaster P OW1 S T M AE2 S T ER0
+postmodern P OW2 S T M AA1 D ER0 N
+postmortem P OW2 S T M AO1 R T EH0 M
+postpone P OW0 S T P OW1 N
+postponed P OW0 S T P OW1 N D
+postponement P OW0 S T P OW1 N M AH0 N T
+postponing P OW0 S T P OW1 N IH0 NG
+posts P OW1 S T S
+postscript P OW1 S K R IH2 P T
+posture P AA1 S CH ER0
+posturing P AA1 S CH ER0 IH0 NG
+postwar P OW1 S T W AO1 R
+pot P AA1 T
+potassium P AH0 T AE1 S IY0 AH0 M
+potato P AH0 T EY1 T OW2
+potatoes P AH0 T EY1 T OW0 Z
+potency P OW1 T AH0 N S IY0
+potent P OW1 T AH0 N T
+potential P AH0 T EH1 N SH AH0 L
+potentially P AH0 T EH1 N SH AH0 L IY0
+potentials P AH0 T EH1 N SH AH0 L Z
+pothole P AA1 T HH OW2 L
+potholes P AA1 T HH OW2 L Z
+potion P OW1 SH AH0 N
+potions P OW1 SH AH0 N Z
+potluck P AA1 T L AH2 K
+potomac P AH0 T OW1 M AH0 K
+potpourri P OW2 P UH0 R IY1
+pots P AA1 T S
+potted P AA1 T IH0 D
+potter P AA1 T ER0
+potters P AA1 T ER0 Z
+pottery P AA1 T ER0 IY0
+potty P AA1 T IY0
+pouch P AW1 CH
+poultice P OW1 L T AH0 S
+poultry P OW1 L T R IY0
+pounce P AW1 N S
+pound P AW1 N D
+pounded P AW1 N D IH0 D
+pounding P AW1 N D IH0 NG
+pounds P AW1 N D Z
+pour P AO1 R
+poured P AO1 R D
+pouring P AO1 R IH0 NG
+pours P AO1 R Z
+pout P AW1 T
+pouting P AW1 T IH0 NG
+pouty P AW1 T IY0
+poverty P AA1 V ER0 T IY0
+pow P AW1
+powder P AW1 D ER0
+powdered P AW1 D ER0 D
+powders P AW1 D ER0 Z
+power P AW1 ER0
+powered P AW1 ER0 D
+powerful P AW1 ER0 F AH0 L
+powerhouse P AW1 ER0 HH AW2 S
+powering P AW1 ER0 IH0 NG
+powerless P AW1 ER0 L AH0 S
+powers P AW1 ER0 Z
+pows P OW1 Z
+powwow P AW1 W AW2
+pox P AA1 K S
+pr P IY1 AA1 R
+practical P R AE1 K T AH0 K AH0 L
+practically P R AE1 K T IH0 K L IY0
+practice P R AE1 K T AH0 S
+practiced P R AE1 K T AH0 S T
+practices P R AE1 K T AH0 S AH0 Z
+practicing P R AE1 K T AH0 S IH0 NG
+practise P R AE1 K T IH0 S
+practised P R AE1 K T IH0 S T
+practitioner P R AE0 K T IH1 SH AH0 N ER0
+prado P R AA1 D OW0
+praetor P R IY1 T ER0
+pragmatic P R AE0 G M AE1 T IH0 K
+prague P R AA1 G
+prairie P R EH1 R IY0
+praise P R EY1 Z
+praised P R EY1 Z D
+praises P R EY1 Z AH0 Z
+praising P R EY1 Z IH0 NG
+prance P R AE1 N S
+prancer P R AE1 N S ER0
+prancing P R AE1 N S IH0 NG
+prank P R AE1 NG K
+pranks P R AE1 NG K S
+prattle P R AE1 T AH0 L
+prattling P R AE1 T L IH0 NG
+prawn P R AO1 N
+prawns P R AO1 N Z
+pray P R EY1
+prayed P R EY1 D
+prayer P R EH1 R
+prayers P R EH1 R Z
+praying P R EY1 IH0 NG
+prays P R EY1 Z
+pre P R IY1
+preach P R IY1 CH
+preached P R IY1 CH T
+preacher P R IY1 CH ER0
+preachers P R IY1 CH ER0 Z
+preaches P R IY1 CH IH0 Z
+preaching P R IY1 CH IH0 NG
+preamble P R IY0 AE1 M B AH0 L
+prearranged P R IY2 ER0 EY1 N JH D
+precarious P R IY0 K EH1 R IY0 AH0 S
+precaution P R IY0 K AO1 SH AH0 N
+precautionary P R IH0 K AO1 SH AH0 N EH0 R IY0
+precautions P R IY0 K AO1 SH AH0 N Z
+precede P R IH0 S IY1 D
+preceded P R IH0 S IY1 D IH0 D
+precedence P R EH1 S AH0 D AH0 N S
+precedent P R EH1 S IH0 D AH0 N T
+precedes P R IH0 S IY1 D Z
+preceding P R IY0 S IY1 D IH0 NG
+precinct P R IY1 S IH2 NG K T
+precincts P R IY1 S IH2 NG K T S
+precious P R EH1 SH AH0 S
+precipice P R EH1 S AH0 P AH0 S
+precipitation P R IH0 S IH2 P IH0 T EY1 SH AH0 N
+precise P R IH0 S AY1 S
+precisely P R IH0 S AY1 S L IY0
+precision P R IY0 S IH1 ZH AH0 N
+preclude P R IH0 K L UW1 D
+precludes P R IH0 K L UW1 D Z
+precocious P R IH0 K OW1 SH AH0 S
+preconceived P R IY2 K AH0 N S IY1 V D
+preconceptions P R IY0 K AH0 N S EH1 P SH AH0 N Z
+predator P R EH1 D AH0 T ER0
+predators P R EH1 D AH0 T ER0 Z
+predatory P R EH1 D AH0 T AO2 R IY0
+predecessor P R EH1 D AH0 S EH2 S ER0
+predecessors P R EH1 D AH0 S EH2 S ER0 Z
+predetermined P R IY2 D IY0 T ER1 M IH0 N D
+predicament P R IH0 D IH1 K AH0 M AH0 N T
+predicated P R EH1 D AH0 K EY2 T IH0 D
+predict P R IH0 D IH1 K T
+predictable P R IH0 D IH1 K T AH0 B AH0 L
+predicted P R IH0 D IH1 K T IH0 D
+predicting P R IH0 D IH1 K T IH0 NG
+prediction P R IY0 D IH1 K SH AH0 N
+predictions P R IY0 D IH1 K SH AH0 N Z
+predicts P R IH0 D IH1 K T S
+predisposed P R IY2 D IH0 S P OW1 Z D
+predominantly P R IH2 D AA1 M AH0 N AH0 N T L IY2
+preempt P R IY1 EH2 M P T
+preemptive P R IY0 EH1 M P T IH0 V
+preface P R EH1 F AH0 S
+prefect P R IY1 F EH2 K T
+prefecture P R IY1 F EH2 K CH ER0
+prefer P R AH0 F ER1
+preferable P R EH1 F ER0 AH0 B AH0 L
+preferably P R EH1 F ER0 AH0 B L IY0
+preference P R EH1 F ER0 AH0 N S
+preferences P R EH1 F ER0 AH0 N S IH0 Z
+preferential P R EH2 F ER0 EH1 N SH AH0 L
+preferred P R AH0 F ER1 D
+prefers P R AH0 F ER1 Z
+prefix P R IY1 F IH0 K S
+pregnancies P R EH1 G N AH0 N S IY0 Z
+pregnancy P R EH1 G N AH0 N S IY0
+pregnant P R EH1 G N AH0 N T
+prehistoric P R IY2 HH IH0 S T AO1 R IH0 K
+prejudice P R EH1 JH AH0 D IH0 S
+prejudiced P R EH1 JH AH0 D AH0 S T
+prejudices P R EH1 JH AH0 D IH0 S IH0 Z
+prejudicial P R EH2 JH AH0 D IH1 SH AH0 L
+prelim P R IH0 L IH1 M
+preliminaries P R IH0 L IH1 M AH0 N EH2 R IY0 Z
+preliminary P R IH0 L IH1 M AH0 N EH2 R IY0
+prelude P R EY1 L UW2 D
+premarital P R IY0 M EH1 R AH0 T AH0 L
+premature P R IY2 M AH0 CH UH1 R
+prematurely P R IY2 M AH0 CH UH1 R L IY0
+premeditated P R IY0 M EH1 D AH0 T EY2 T IH0 D
+premeditation P R IY0 M EH2 D AH0 T EY1 SH AH0 N
+premier P R EH0 M IH1 R
+premiere P R EH0 M IH1 R
+premise P R EH1 M IH0 S
+premises P R EH1 M AH0 S AH0 Z
+premium P R IY1 M IY0 AH0 M
+premiums P R IY1 M IY0 AH0 M Z
+premonition P R EH0 M AH0 N IH1 SH AH0 N
+premonitions P R EH0 M AH0 N IH1 SH AH0 N Z
+prenatal P R IY0 N EY1 T AH0 L
+prentice P R EH1 N T IH0 S
+prenuptial P R IY0 N AH1 P SH AH0 L
+preoccupation P R IY0 AA2 K Y AH0 P EY1 SH AH0 N
+preoccupied P R IY0 AA1 K Y AH0 P AY2 D
+preordained P R IY2 AO0 R D EY1 N D
+prep P R EH1 P
+preparation P R EH2 P ER0 EY1 SH AH0 N
+preparations P R EH2 P ER0 EY1 SH AH0 N Z
+preparatory P R IH0 P EH1 R AH0 T AO2 R IY0
+prepare P R IY0 P EH1 R
+prepared P R IY0 P EH1 R D
+prepares P R IY0 P EH1 R Z
+preparing P R IY0 P EH1 R IH0 NG
+preponderance P R IY0 P AA1 N D R AH0 N S
+preposterous P R IH0 P AA1 S T ER0 AH0 S
+prepped P R EH1 P T
+preppie P R EH1 P IY0
+prepping P R EH1 P IH0 NG
+preppy P R EH1 P IY0
+prerequisite P R IY0 R EH1 K W AH0 Z AH0 T
+prerogative P R IH0 R AA1 G AH0 T IH0 V
+pres P R EH1 Z
+presbyterian P R EH2 S B IH0 T IH1 R IY0 AH0 N
+preschool P R IY0 S K UW1 L
+prescribe P R AH0 S K R AY1 B
+prescribed P R IY0 S K R AY1 B D
+prescribing P R IY0 S K R AY1 B IH0 NG
+prescription P R AH0 S K R IH1 P SH AH0 N
+prescriptions P R AH0 S K R IH1 P SH AH0 N Z
+presence P R EH1 Z AH0 N S
+present P R EH1 Z AH0 N T
+presentable P R AH0 Z EH1 N T AH0 B AH0 L
+presentation P R EH2 Z AH0 N T EY1 SH AH0 N
+presentations P R EH2 Z AH0 N T EY1 SH AH0 N Z
+presented P R IY0 Z EH1 N T IH0 D
+presenter P R EH1 Z AH0 N T ER0
+presenting P R IH0 Z EH1 N T IH0 NG
+presently P R EH1 Z AH0 N T L IY0
+presents P R EH1 Z AH0 N T S
+preservation P R EH2 Z ER0 V EY1 SH AH0 N
+preservatives P R AH0 Z ER1 V AH0 T IH0 V Z
+preserve P R AH0 Z ER1 V
+preserved P R AH0 Z ER1 V D
+preserver P R IY0 Z ER1 V ER0
+preserves P R AH0 Z ER1 V Z
+preserving P R AH0 Z ER1 V IH0 NG
+preset P R IY0 S EH1 T
+preside P R IH0 Z AY1 D
+presided P R IH0 Z AY1 D IH0 D
+presidency P R EH1 Z AH0 D AH0 N S IY0
+president P R EH1 Z AH0 D EH2 N T
+presidential P R EH2 Z AH0 D EH1 N SH AH0 L
+presidents P R EH1 Z AH0 D EH2 N T S
+presiding P R IH0 Z AY1 D IH0 NG
+presley P R EH1 S L IY0
+press P R EH1 S
+pressed P R EH1 S T
+presses P R EH1 S AH0 Z
+pressing P R EH1 S IH0 NG
+pressure P R EH1 SH ER0
+pressured P R EH1 SH ER0 D
+pressures P R EH1 SH ER0 Z
+pressuring P R EH1 SH ER0 IH0 NG
+pressurized P R EH1 SH ER0 AY2 Z D
+prestige P R EH0 S T IY1 ZH
+prestigious P R EH0 S T IH1 JH AH0 S
+presto P R EH1 S T OW2
+presumably P R AH0 Z UW1 M AH0 B L IY0
+presume P R IH0 Z UW1 M
+presumed P R AH0 Z UW1 M D
+presuming P R IH0 Z UW1 M IH0 NG
+presumption P R IH0 Z AH1 M P SH AH0 N
+presumptuous P R IH0 Z AH1 M P CH AH0 W AH0 S
+pretend P R IY0 T EH1 N D
+pretended P R IY0 T EH1 N D IH0 D
+pretender P R IY0 T EH1 N D ER0
+pretenders P R IY0 T EH1 N D ER0 Z
+pretending P R IY0 T EH1 N D IH0 NG
+pretends P R IY0 T EH1 N D Z
+pretense P R IY0 T EH1 N S
+pretenses P R IY0 T EH1 N S IH0 Z
+pretentious P R IY0 T EH1 N SH AH0 S
+pretext P R IY1 T EH2 K S T
+prettier P R IH1 T IY0 ER0
+prettiest P R IH1 T IY0 AH0 S T
+pretty P R IH1 T IY0
+pretzel P R EH1 T Z AH0 L
+pretzels P R EH1 T Z AH0 L Z
+prevail P R IH0 V EY1 L
+prevailed P R IH0 V EY1 L D
+prevailing P R IH0 V EY1 L IH0 NG
+prevails P R IH0 V EY1 L Z
+prevalent P R EH1 V AH0 L AH0 N T
+prevent P R IH0 V EH1 N T
+preventative P R IY0 V EH1 N T AH0 T IH0 V
+prevented P R IH0 V EH1 N T IH0 D
+preventing P R IH0 V EH1 N T IH0 NG
+prevention P R IY0 V EH1 N SH AH0 N
+prevents P R IH0 V EH1 N T S
+preview P R IY1 V Y UW2
+previews P R IY1 V Y UW2 Z
+previous P R IY1 V IY0 AH0 S
+previously P R IY1 V IY0 AH0 S L IY0
+prey P R EY1
+preyed P R EY1 D
+preying P R EY1 IH0 NG
+preys P R EY1 Z
+priam P R AY1 AE2 M
+price P R AY1 S
+priced P R AY1 S T
+priceless P R AY1 S L AH0 S
+prices P R AY1 S AH0 Z
+pricey P R AY1 S IY0
+pricing P R AY1 S IH0 NG
+prick P R IH1 K
+prickly P R IH1 K L IY0
+pricks P R IH1 K S
+pride P R AY1 D
+prided P R AY1 D IH0 D
+prides P R AY1 D Z
+pried P R AY1 D
+priest P R IY1 S T
+priestess P R IY1 S T AH0 S
+priesthood P R IY1 S T HH UH0 D
+priestly P R IY1 S T L IY0
+priests P R IY1 S T S
+prig P R IH1 G
+prim P R IH1 M
+prima P R IY1 M AH0
+primal P R AY1 M AH0 L
+primaries P R AY1 M EH2 R IY0 Z
+primarily P R AY0 M EH1 R AH0 L IY0
+primary P R AY1 M EH2 R IY0
+primate P R AY1 M EY2 T
+primates P R AY1 M EY2 T S
+prime P R AY1 M
+primed P R AY1 M D
+primer P R AY1 M ER0
+primeval P R AY0 M IY1 V AH0 L
+primitive P R IH1 M AH0 T IH0 V
+primo P R IY1 M OW2
+primordial P R IH0 M AO1 R D IY0 AH0 L
+primrose P R IH1 M R OW2 Z
+prince P R IH1 N S
+princes P R IH1 N S AH0 Z
+princess P R IH1 N S EH0 S
+princesses P R IH1 N S EH0 S IH0 Z
+princeton P R IH1 N S T AH0 N
+principal P R IH1 N S AH0 P AH0 L
+principals P R IH1 N S AH0 P AH0 L Z
+principle P R IH1 N S AH0 P AH0 L
+principles P R IH1 N S AH0 P AH0 L Z
+pringle P R IH1 NG G AH0 L
+print P R IH1 N T
+printed P R IH1 N T IH0 D
+printer P R IH1 N T ER0
+printers P R IH1 N T ER0 Z
+printing P R IH1 N T IH0 NG
+printout P R IH1 N T AW2 T
+prints P R IH1 N T S
+prior P R AY1 ER0
+priorities P R AY0 AO1 R AH0 T IY0 Z
+prioritize P R AY0 AO1 R AH0 T AY2 Z
+priority P R AY0 AO1 R AH0 T IY0
+priors P R AY1 ER0 Z
+prism P R IH1 Z AH0 M
+prison P R IH1 Z AH0 N
+prisoner P R IH1 Z AH0 N ER0
+prisoners P R IH1 Z AH0 N ER0 Z
+prisons P R IH1 Z AH0 N Z
+prissy P R IH1 S IY0
+pristine P R IH1 S T IY0 N
+prius P R AY1 AH0 S
+privacy P R AY1 V AH0 S IY0
+private P R AY1 V AH0 T
+privately P R AY1 V AH0 T L IY0
+privates P R AY1 V AH0 T S
+privilege P R IH1 V L AH0 JH
+privileged P R IH1 V L AH0 JH D
+privileges P R IH1 V L AH0 JH AH0 Z
+privy P R IH1 V IY0
+prix P R IY1
+prize P R AY1 Z
+prized P R AY1 Z D
+prizes P R AY1 Z AH0 Z
+pro P R OW1
+proactive P R OW2 AE1 K T IH0 V
+prob P R AA1 B
+probabilities P R AA2 B AH0 B IH1 L AH0 T IY2 Z
+probability P R AA2 B AH0 B IH1 L AH0 T IY2
+probable P R AA1 B AH0 B AH0 L
+probably P R AA1 B AH0 B L IY2
+probate P R OW1 B EY2 T
+probation P R OW0 B EY1 SH AH0 N
+probative P R OW0 B EY1 T IH0 V
+probe P R OW1 B
+probed P R OW1 B D
+probes P R OW1 B Z
+probing P R OW1 B IH0 NG
+problem P R AA1 B L AH0 M
+problematic P R AA2 B L AH0 M AE1 T IH0 K
+problems P R AA1 B L AH0 M Z
+proboscis P R OW0 B AA1 S AH0 S
+procedural P R AH0 S IY1 JH ER0 AH0 L
+procedure P R AH0 S IY1 JH ER0
+procedures P R AH0 S IY1 JH ER0 Z
+proceed P R AH0 S IY1 D
+proceeded P R AH0 S IY1 D IH0 D
+proceeding P R AH0 S IY1 D IH0 NG
+proceedings P R OW0 S IY1 D IH0 NG Z
+proceeds P R AH0 S IY1 D Z
+process P R AA1 S EH2 S
+processed P R AA1 S EH0 S T
+processes P R AA1 S EH0 S AH0 Z
+processing P R AA1 S EH0 S IH0 NG
+procession P R AH0 S EH1 SH AH0 N
+processor P R AA1 S EH2 S ER0
+processors P R AA1 S EH2 S ER0 Z
+proclaim P R OW0 K L EY1 M
+proclaimed P R OW0 K L EY1 M D
+proclaims P R OW0 K L EY1 M Z
+proclamation P R AA2 K L AH0 M EY1 SH AH0 N
+procrastination P R AH0 K R AE2 S T AH0 N EY1 SH AH0 N
+procreate P R OW1 K R IY0 EY1 T
+procreation P R OW1 K R IY0 EY1 SH AH0 N
+proctologist P R AO2 K T AA1 L AH0 G IH2 S T
+proctor P R AA1 K T ER0
+procure P R OW0 K Y UH1 R
+procured P R OW0 K Y UH1 R D
+procurement P R OW0 K Y UH1 R M AH0 N T
+prod P R AA1 D
+prodded P R AA1 D IH0 D
+prodding P R AA1 D IH0 NG
+prodigal P R AA1 D IH0 G AH0 L
+prodigious P R AH0 D IH1 JH AH0 S
+prodigy P R AA1 D AH0 JH IY0
+prods P R AA1 D Z
+produce P R AH0 D UW1 S
+produced P R AH0 D UW1 S T
+producer P R AH0 D UW1 S ER0
+producers P R AH0 D UW1 S ER0 Z
+produces P R AH0 D UW1 S AH0 Z
+producing P R AH0 D UW1 S IH0 NG
+product P R AA1 D AH0 K T
+production P R AH0 D AH1 K SH AH0 N
+productions P R AH0 D AH1 K SH AH0 N Z
+productive P R AH0 D AH1 K T IH0 V
+productivity P R OW2 D AH0 K T IH1 V AH0 T IY0
+products P R AA1 D AH0 K T S
+profane P R OW0 F EY1 N
+profanity P R OW0 F AE1 N AH0 T IY0
+profess P R AH0 F EH1 S
+profession P R AH0 F EH1 SH AH0 N
+professional P R AH0 F EH1 SH AH0 N AH0 L
+professionalism P R AH0 F EH1 SH AH0 N AH0 L IH2 Z AH0 M
+professionally P R AH0 F EH1 SH AH0 N AH0 L IY0
+professionals P R AH0 F EH1 SH AH0 N AH0 L Z
+professions P R AH0 F EH1 SH AH0 N Z
+professor P R AH0 F EH1 S ER0
+professors P R AH0 F EH1 S ER0 Z
+proficiency P R AH0 F IH1 SH AH0 N S IY0
+proficient P R AA0 F IH1 SH AH0 N T
+profile P R OW1 F AY2 L
+profiled P R OW1 F AY2 L D
+profiles P R OW1 F AY2 L Z
+profiling P R OW1 F AY2 L IH0 NG
+profit P R AA1 F AH0 T
+profitable P R AA1 F AH0 T AH0 B AH0 L
+profited P R AA1 F AH0 T AH0 D
+profiting P R AA1 F AH0 T IH0 NG
+profits P R AA1 F IH0 T S
+profound P R OW0 F AW1 N D
+profoundly P R OW0 F AW1 N D L IY0
+profusely P R AH0 F Y UW1 S L IY0
+progeny P R AA1 JH AH0 N IY0
+prognosis P R AA0 G N OW1 S AH0 S
+program P R OW1 G R AE2 M
+programme P R OW1 G R AE2 M
+programmed P R OW1 G R AE2 M D
+programmer P R OW1 G R AE2 M ER0
+programmers P R OW1 G R AE2 M ER0 Z
+programming P R OW1 G R AE2 M IH0 NG
+programs P R OW1 G R AE2 M Z
+progress P R AA1 G R EH2 S
+progressed P R AH0 G R EH1 S T
+progresses P R AA1 G R EH2 S AH0 Z
+progressing P R AH0 G R EH1 S IH0 NG
+progression P R AH0 G R EH1 SH AH0 N
+progressive P R AH0 G R EH1 S IH0 V
+progressively P R AA0 G R EH1 S IH0 V L IY0
+prohibit P R OW0 HH IH1 B AH0 T
+prohibited P R OW0 HH IH1 B AH0 T AH0 D
+prohibition P R OW2 AH0 B IH1 SH AH0 N
+prohibits P R OW0 HH IH1 B AH0 T S
+project P R AA1 JH EH0 K T
+projected P R AH0 JH EH1 K T AH0 D
+projectile P R AH0 JH EH1 K T AH0 L
+projecting P R AH0 JH EH1 K T IH0 NG
+projection P R AH0 JH EH1 K SH AH0 N
+projections P R AH0 JH EH1 K SH AH0 N Z
+projector P R AH0 JH EH1 K T ER0
+projects P R AA1 JH EH0 K T S
+prolific P R OW0 L IH1 F IH0 K
+prologue P R OW1 L AA0 G
+prolong P R AH0 L AO1 NG
+prolonged P R AH0 L AO1 NG D
+prolonging P R OW0 L AO1 NG IH0 NG
+prom P R AA1 M
+promenade P R AA2 M AH0 N EY1 D
+prometheus P R AH0 M IY1 TH IY2 AH0 S
+prominence P R AA1 M AH0 N AH0 N S
+prominent P R AA1 M AH0 N AH0 N T
+promiscuity P R OW2 M IH0 S K Y UW1 AH0 T IY0
+promiscuous P R OW1 M IH0 S K W AH0 S
+promise P R AA1 M AH0 S
+promised P R AA1 M AH0 S T
+promises P R AA1 M AH0 S AH0 Z
+promising P R AA1 M AH0 S IH0 NG
+promo P R OW1 M OW2
+promos P R OW1 M OW2 Z
+promote P R AH0 M OW1 T
+promoted P R AH0 M OW1 T IH0 D
+promoter P R AH0 M OW1 T ER0
+promoters P R AH0 M OW1 T ER0 Z
+promotes P R AH0 M OW1 T S
+promoting P R AH0 M OW1 T IH0 NG
+promotion P R AH0 M OW1 SH AH0 N
+promotional P R AH0 M OW1 SH AH0 N AH0 L
+promotions P R AH0 M OW1 SH AH0 N Z
+prompt P R AA1 M P T
+prompted P R AA1 M P T IH0 D
+prompting P R AA1 M P T IH0 NG
+promptly P R AA1 M P T L IY0
+prompts P R AA1 M P T S
+proms P R AA1 M Z
+prone P R OW1 N
+prong P R AO1 NG
+pronounce P R AH0 N AW1 N S
+pronounced P R AH0 N AW1 N S T
+pronouncing P R AH0 N AW1 N S IH0 NG
+pronouns P R OW1 N AW0 N Z
+pronto P R AA1 N T OW0
+pronunciation P R OW0 N AH2 N S IY0 EY1 SH AH0 N
+proof P R UW1 F
+proofs P R UW1 F S
+prop P R AA1 P
+propaganda P R AA2 P AH0 G AE1 N D AH0
+propagate P R AA1 P AH0 G EY2 T
+propane P R OW1 P EY2 N
+propellant P R AH0 P EH1 L AH0 N T
+propelled P R AH0 P EH1 L D
+propeller P R AH0 P EH1 L ER0
+propellers P R AH0 P EH1 L ER0 Z
+proper P R AA1 P ER0
+properly P R AA1 P ER0 L IY0
+properties P R AA1 P ER0 T IY0 Z
+property P R AA1 P ER0 T IY0
+prophecies P R AA1 F AH0 S IY0 Z
+prophecy P R AA1 F AH0 S IY0
+prophesied P R AA1 F AH0 S AY2 D
+prophesies P R AA1 F AH0 S AY0 Z
+prophet P R AA1 F AH0 T
+prophetic P R AH0 F EH1 T IH0 K
+prophets P R AA1 F AH0 T S
+prophylactic P R AA2 F IH0 L AE1 K T IH0 K
+proportion P R AH0 P AO1 R SH AH0 N
+proportional P R AH0 P AO1 R SH AH0 N AH0 L
+proportions P R AH0 P AO1 R SH AH0 N Z
+proposal P R AH0 P OW1 Z AH0 L
+proposals P R AH0 P OW1 Z AH0 L Z
+propose P R AH0 P OW1 Z
+proposed P R AH0 P OW1 Z D
+proposes P R AH0 P OW1 Z IH0 Z
+proposing P R AH0 P OW1 Z IH0 NG
+proposition P R AA2 P AH0 Z IH1 SH AH0 N
+propped P R AA1 P T
+proprietary P R AH0 P R AY1 AH0 T EH2 R IY0
+proprietor P R AH0 P R AY1 AH0 T ER0
+propriety P R AH0 P R AY1 AH0 T IY0
+props P R AA1 P S
+propulsion P R AH0 P AH1 L SH AH0 N
+pros P R OW1 Z
+prosaic P R OW0 Z EY1 IH0 K
+prosciutto P R AH0 SH UW1 T OW2
+prose P R OW1 Z
+prosecute P R AA1 S AH0 K Y UW2 T
+prosecuted P R AA1 S IH0 K Y UW2 T IH0 D
+prosecuting P R AA1 S IH0 K Y UW2 T IH0 NG
+prosecution P R AA2 S AH0 K Y UW1 SH AH0 N
+prosecutor P R AA1 S IH0 K Y UW2 T ER0
+prosecutors P R AA1 S IH0 K Y UW2 T ER0 Z
+prospect P R AA1 S P EH0 K T
+prospecting P R AO2 S P EH1 K T IH0 NG
+prospective P R AH0 S P EH1 K T IH0 V
+prospector P R AO1 S P EH2 K T ER0
+prospects P R AA1 S P EH0 K T S
+prospectus P R AH0 S P EH1 K T AH0 S
+prosper P R AA1 S P ER0
+prospered P R AA1 S P ER0 D
+prosperity P R AA0 S P EH1 R AH0 T IY0
+prosperous P R AA1 S P ER0 AH0 S
+prostate P R AA1 S T EY2 T
+prosthetic P R AA0 S TH EH1 T IH0 K
+prostitute P R AA1 S T AH0 T UW2 T
+prostitutes P R AA1 S T AH0 T UW2 T S
+prostitution P R AA2 S T AH0 T UW1 SH AH0 N
+prostrate P R AA1 S T R EY0 T
+protagonist P R OW0 T AE1 G AH0 N AH0 S T
+protect P R AH0 T EH1 K T
+protected P R AH0 T EH1 K T IH0 D
+protecting P R AH0 T EH1 K T IH0 NG
+protection P R AH0 T EH1 K SH AH0 N
+protective P R AH0 T EH1 K T IH0 V
+protector P R AH0 T EH1 K T ER0
+protectors P R AH0 T EH1 K T ER0 Z
+protects P R AH0 T EH1 K T S
+protege P R OW1 T AH0 ZH EY2
+protein P R OW1 T IY2 N
+proteins P R OW1 T IY2 N Z
+protest P R OW1 T EH2 S T
+protestant P R AA1 T AH0 S T AH0 N T
+protestants P R AA1 T AH0 S T AH0 N T S
+protested P R AH0 T EH1 S T IH0 D
+protesters P R OW1 T EH2 S T ER0 Z
+protesting P R AH0 T EH1 S T IH0 NG
+protestors P R OW1 T EH2 S T ER0 Z
+protests P R OW1 T EH2 S T S
+protocol P R OW1 T AH0 K AA2 L
+protocols P R OW1 T AH0 K AO2 L Z
+proton P R OW1 T AA2 N
+protons P R OW1 T AA2 N Z
+prototype P R OW1 T AH0 T AY2 P
+prototypes P R OW1 T AH0 T AY2 P S
+protruding P R OW0 T R UW1 D IH0 NG
+proud P R AW1 D
+prouder P R AW1 D ER0
+proudest P R AW1 D AH0 S T
+proudly P R AW1 D L IY0
+prove P R UW1 V
+proved P R UW1 V D
+proven P R UW1 V AH0 N
+provence P R OW1 V AH0 N S
+proverb P R AA1 V ER0 B
+proverbial P R AH0 V ER1 B IY0 AH0 L
+proverbs P R AA1 V ER0 B Z
+proves P R UW1 V Z
+provide P R AH0 V AY1 D
+provided P R AH0 V AY1 D IH0 D
+providence P R AA1 V AH0 D AH0 N S
+provider P R AH0 V AY1 D ER0
+providers P R AH0 V AY1 D ER0 Z
+provides P R AH0 V AY1 D Z
+providing P R AH0 V AY1 D IH0 NG
+province P R AA1 V AH0 N S
+provinces P R AA1 V AH0 N S AH0 Z
+provincial P R AH0 V IH1 N SH AH0 L
+proving P R UW1 V IH0 NG
+provision P R AH0 V IH1 ZH AH0 N
+provisional P R AH0 V IH1 ZH AH0 N AH0 L
+provisions P R AH0 V IH1 ZH AH0 N Z
+provocation P R AA2 V AH0 K EY1 SH AH0 N
+provocative P R OW0 V AA1 K AH0 T IH0 V
+provoke P R AH0 V OW1 K
+provoked P R AH0 V OW1 K T
+provokes P R AH0 V OW1 K S
+provoking P R AH0 V OW1 K IH0 NG
+provolone P R OW1 V AH0 L OW0 N
+provost P R OW1 V OW0 S T
+prowess P R AW1 AH0 S
+prowl P R AW1 L
+prowler P R AW1 L ER0
+prowling P R AW1 L IH0 NG
+proximal P R AA1 K S AH0 M AH0 L
+proximity P R AA0 K S IH1 M AH0 T IY0
+proxy P R AA1 K S IY0
+prude P R UW1 D
+prudence P R UW1 D AH0 N S
+prudent P R UW1 D AH0 N T
+prune P R UW1 N
+prunella P R UW0 N EH1 L AH0
+prunes P R UW1 N Z
+pruning P R UW1 N IH0 NG
+pry P R AY1
+prying P R AY1 IH0 NG
+psalm S AA1 L M
+psalms S AA1 L M Z
+pseudo S UW1 D OW0
+psi S AY1
+psoriasis S ER0 AY1 AH0 S AH0 S
+psych S AY1 K
+psyche S AY1 K IY0
+psyched S AY1 K T
+psychedelic S AY2 K AH0 D EH1 L IH0 K
+psychiatric S AY2 K IY0 AE1 T R IH0 K
+psychiatrist S AH0 K AY1 AH0 T R AH0 S T
+psychiatrists S AH0 K AY1 AH0 T R AH0 S T S
+psychiatry S AY0 K AY1 AH0 T R IY0
+psychic S AY1 K IH0 K
+psychics S AY1 K IH0 K S
+psycho S AY1 K OW0
+psychoanalysis S AY2 K OW0 AH0 N AE1 L AH0 S AH0 S
+psychoanalyst S AY2 K OW0 AE1 N AH0 L AH0 S T
+psychobabble S AY2 K OW0 B AE1 B AH0 L
+psychological S AY2 K AH0 L AA1 JH IH0 K AH0 L
+psychologically S AY2 K AH0 L AA1 JH IH0 K L IY0
+psychologist S AY0 K AA1 L AH0 JH AH0 S T
+psychologists S AY0 K AA1 L AH0 JH AH0 S T S
+psychology S AY0 K AA1 L AH0 JH IY0
+psychopath S AY1 K OW0 P AE2 TH
+psychopathic S AY2 K AH0 P AE1 TH IH0 K
+psychopaths S AY1 K OW0 P AE2 TH S
+psychosis S AY0 K OW1 S AH0 S
+psychosomatic S AY0 K OW2 S AH0 M AE1 T IH0 K
+psychotherapy S AY2 K OW0 TH EH1 R AH0 P IY0
+psychotic S AY2 K AA1 T IH0 K
+pu P UW1
+pub P AH1 B
+puberty P Y UW1 B ER0 T IY0
+pubic P Y UW1 B IH0 K
+public P AH1 B L IH0 K
+publication P AH2 B L IH0 K EY1 SH AH0 N
+publications P AH2 B L IH0 K EY1 SH AH0 N Z
+publicist P AH1 B L IH0 S IH0 S T
+publicists P AH1 B L IH0 S IH0 S T S
+publicity P AH0 B L IH1 S AH0 T IY0
+publicly P AH1 B L IH0 K L IY0
+publish P AH1 B L IH0 SH
+published P AH1 B L IH0 SH T
+publisher P AH1 B L IH0 SH ER0
+publishers P AH1 B L IH0 SH ER0 Z
+publishes P AH1 B L IH0 SH AH0 Z
+publishing P AH1 B L IH0 SH IH0 NG
+pubs P AH1 B Z
+puccini P UW0 CH IY1 N IY0
+puck P AH1 K
+pucker P AH1 K ER0
+pudding P UH1 D IH0 NG
+puddle P AH1 D AH0 L
+puddles P AH1 D AH0 L Z
+pudgy P AH1 JH IY0
+puerile P Y UW0 R IY1 L
+puerto P W EH1 R T OW2
+puff P AH1 F
+puffed P AH1 F T
+puffer P AH1 F ER0
+puffing P AH1 F IH0 NG
+puffs P AH1 F S
+puffy P AH1 F IY0
+pug P AH1 G
+puget P Y UW1 JH IH0 T
+puke P Y UW1 K
+pukes P Y UW1 K S
+puking P Y UW1 K IH2 NG
+pulitzer P UH1 L AH0 T S ER0
+pull P UH1 L
+pulled P UH1 L D
+pulley P UH1 L IY0
+pulleys P UH1 L IY0 Z
+pulling P UH1 L IH0 NG
+pullman P UH1 L M AH0 N
+pulls P UH1 L Z
+pulmonary P UH1 L M AH0 N EH2 R IY0
+pulp P AH1 L P
+pulpit P UH1 L P IH0 T
+pulsar P UH1 L S ER0
+pulsating P AH1 L S EY2 T IH0 NG
+pulse P AH1 L S
+pulses P AH1 L S IH0 Z
+pulsing P AH1 L S IH0 NG
+pulverized P AH1 L V ER0 AY2 Z D
+pump P AH1 M P
+pumped P AH1 M P T
+pumpernickel P AH1 M P ER0 N IH2 K AH0 L
+pumping P AH1 M P IH0 NG
+pumpkin P AH1 M P K IH0 N
+pumpkins P AH1 M P K AH0 N Z
+pumps P AH1 M P S
+pun P AH1 N
+punch P AH1 N CH
+punched P AH1 N CH T
+punches P AH1 N CH IH0 Z
+punching P AH1 N CH IH0 NG
+punchline P AH1 N CH L AY2 N
+punchy P AH1 N CH IY0
+punctual P AH1 NG K CH UW0 AH0 L
+punctuality P AH2 NG K CH UW0 AE1 L IH0 T IY0
+punctuation P AH2 NG K CH UW0 EY1 SH AH0 N
+puncture P AH1 NG K CH ER0
+punctured P AH1 NG K CH ER0 D
+punctures P AH1 NG K CH ER0 Z
+pungent P AH1 N JH AH0 N T
+punish P AH1 N IH0 SH
+punishable P AH1 N IH0 SH AH0 B AH0 L
+punished P AH1 N IH0 SH T
+punisher P AH1 N IH0 SH ER0
+punishes P AH1 N IH0 SH AH0 Z
+punishing P AH1 N IH0 SH IH0 NG
+punishment P AH1 N IH0 SH M AH0 N T
+punishments P AH1 N IH0 SH M AH0 N T S
+punitive P Y UW1 N AH0 T IH0 V
+punk P AH1 NG K
+punks P AH1 NG K S
+punky P AH1 NG K IY0
+punt P AH1 N T
+puny P Y UW1 N IY0
+pup P AH1 P
+pupa P Y UW1 P AH0
+pupil P Y UW1 P AH0 L
+pupils P Y UW1 P AH0 L Z
+puppet P AH1 P AH0 T
+puppeteer P AH0 P AH0 T IY1 R
+puppets P AH1 P AH0 T S
+puppies P AH1 P IY0 Z
+puppy P AH1 P IY0
+pups P AH1 P S
+purchase P ER1 CH AH0 S
+purchased P ER1 CH AH0 S T
+purchases P ER1 CH AH0 S AH0 Z
+purchasing P ER1 CH AH0 S IH0 NG
+purdy P ER1 D IY0
+pure P Y UH1 R
+purebred P Y UH1 R B R EH1 D
+purely P Y UH1 R L IY0
+purer P Y UH1 R ER0
+purest P Y UH1 R AH0 S T
+purgatory P ER1 G AH0 T AO2 R IY0
+purge P ER1 JH
+purged P ER1 JH D
+purging P ER1 JH IH0 NG
+purification P Y UH2 R AH0 F AH0 K EY1 SH AH0 N
+purified P Y UH1 R AH0 F AY2 D
+purify P Y UH1 R AH0 F AY2
+purim P UH1 R AH0 M
+puritan P Y UH1 R AH0 T AH0 N
+puritanical P Y UH2 R AH0 T AE1 N IH0 K AH0 L
+puritans P Y UH1 R AH0 T AH0 N Z
+purity P Y UH1 R AH0 T IY0
+purple P ER1 P AH0 L
+purpose P ER1 P AH0 S
+purposely P ER1 P AH0 S L IY0
+purposes P ER1 P AH0 S AH0 Z
+purr P ER1
+purring P ER1 IH0 NG
+purse P ER1 S
+purser P ER1 S ER0
+purses P ER1 S IH0 Z
+pursuant P ER0 S UW1 AH0 N T
+pursue P ER0 S UW1
+pursued P ER0 S UW1 D
+pursuing P ER0 S UW1 IH0 NG
+pursuit P ER0 S UW1 T
+pursuits P ER0 S UW1 T S
+purview P ER1 V Y UW2
+pus P AH1 S
+push P UH1 SH
+pushed P UH1 SH T
+pusher P UH1 SH ER0
+pushers P UH1 SH ER0 Z
+pushes P UH1 SH AH0 Z
+pushing P UH1 SH IH0 NG
+pushover P UH1 SH OW2 V ER0
+pushups P UH1 SH AH2 P S
+pushy P UH1 SH IY0
+puss P UH1 S
+pussies P UH1 S IY0 Z
+pussy P UH1 S IY0
+pussycat P UH1 S IY0 K AE2 T
+pussycats P UH1 S IY0 K AE2 T S
+put P UH1 T
+putrid P Y UW1 T R IH0 D
+puts P UH1 T S
+putt P AH1 T
+putter P AH1 T ER0
+putting P AH1 T IH0 NG
+putty P AH1 T IY0
+putz P AH1 T S
+puzzle P AH1 Z AH0 L
+puzzled P AH1 Z AH0 L D
+puzzles P AH1 Z AH0 L Z
+puzzling P AH1 Z AH0 L IH0 NG
+pygmies P IH1 G M IY0 Z
+pygmy P IH1 G M IY0
+pylon P AY1 L AA2 N
+pylons P AY1 L AA2 N Z
+pyongyang P Y AO1 NG Y AE1 NG
+pyramid P IH1 R AH0 M IH0 D
+pyramids P IH1 R AH0 M IH0 D Z
+pyre P AY1 ER0
+pyro P AY1 R OW0
+pyrotechnics P AY2 R OW0 T EH1 K N IH0 K S
+python P AY1 TH AA0 N
+q K Y UW1
+qu K UW1
+quack K W AE1 K
+quacks K W AE1 K S
+quad K W AA1 D
+quadrant K W AA1 D R AH0 N T
+quadruple K W AA0 D R UW1 P AH0 L
+quagmire K W AE1 G M AY2 ER0
+quahog K W AA1 HH AO2 G
+quail K W EY1 L
+quaint K W EY1 N T
+quake K W EY1 K
+quaker K W EY1 K ER0
+quakers K W EY1 K ER0 Z
+quaking K W EY1 K IH0 NG
+qualification K W AA2 L AH0 F AH0 K EY1 SH AH0 N
+qualifications K W AA2 L AH0 F AH0 K EY1 SH AH0 N Z
+qualified K W AA1 L AH0 F AY2 D
+qualifies K W AA1 L AH0 F AY2 Z
+qualify K W AA1 L AH0 F AY2
+qualifying K W AA1 L AH0 F AY2 IH0 NG
+qualities K W AA1 L AH0 T IY0 Z
+quality K W AA1 L AH0 T IY0
+qualms K W AA1 M Z
+quan K W AO1 N
+quandary K W AA1 N D ER0 IY0
+quantities K W AA1 N T AH0 T IY0 Z
+quantity K W AA1 N T AH0 T IY0
+quantum K W AA1 N T AH0 M
+quarantine K W AO1 R AH0 N T IY2 N
+quarantined K W AO1 R AH0 N T IY2 N D
+quark K W AA1 R K
+quarrel K W AO1 R AH0 L
+quarreled K W AO1 R AH0 L D
+quarreling K W AA1 R AH0 L IH0 NG
+quarrels K W AO1 R AH0 L Z
+quarry K W AO1 R IY0
+quart K W AO1 R T
+quarter K W AO1 R T ER0
+quarterback K W AO1 R T ER0 B AE2 K
+quarterbacks K W AO1 R T ER0 B AE2 K S
+quarterly K W AO1 R T ER0 L IY0
+quartermaster K W AO1 R T ER0 M AE2 S T ER0
+quarters K W AO1 R T ER0 Z
+quartet K W AO0 R T EH1 T
+quarts K W AO1 R T S
+quartz K W AO1 R T S
+quasar K W EY1 Z AA0 R
+quasi K W AA1 S IY0
+quasimodo K AE0 Z IY0 M OW1 D OW0
+que K Y UW1
+queasy K W IY1 Z IY0
+quebec K W AH0 B EH1 K
+queen K W IY1 N
+queens K W IY1 N Z
+queer K W IH1 R
+queers K W IH1 R Z
+quell K W EH1 L
+quench K W EH1 N CH
+query K W IY1 R IY0
+quest K W EH1 S T
+question K W EH1 S CH AH0 N
+questionable K W EH1 S CH AH0 N AH0 B AH0 L
+questioned K W EH1 S CH AH0 N D
+questioning K W EH1 S CH AH0 N IH0 NG
+questionnaire K W EH2 S CH AH0 N EH1 R
+questions K W EH1 S CH AH0 N Z
+queue K Y UW1
+qui K IY1
+quibble K W IH1 B AH0 L
+quiche K IY1 SH
+quick K W IH1 K
+quicken K W IH1 K AH0 N
+quicker K W IH1 K ER0
+quickest K W IH1 K IH0 S T
+quickie K W IH1 K IY0
+quickly K W IH1 K L IY0
+quicksand K W IH1 K S AE2 N D
+quicksilver K W IH1 K S IH1 L V ER0
+quid K W IH1 D
+quiet K W AY1 AH0 T
+quieted K W AY1 AH0 T IH0 D
+quieter K W AY1 AH0 T ER0
+quietly K W AY1 AH0 T L IY0
+quill K W IH1 L
+quilt K W IH1 L T
+quilts K W IH1 L T S
+quince K W IH1 N S
+quincy K W IH1 N S IY0
+quinine K W AY1 N AY2 N
+quint K W IH1 N T
+quintessential K W IH2 N T IH0 S EH1 N SH AH0 L
+quintet K W IH0 N T EH1 T
+quinton K W IH0 N T AO1 N
+quips K W IH1 P S
+quirk K W ER1 K
+quirks K W ER1 K S
+quirky K W ER1 K IY0
+quist K W IH1 S T
+quit K W IH1 T
+quite K W AY1 T
+quits K W IH1 T S
+quitter K W IH1 T ER0
+quitters K W IH1 T ER0 Z
+quitting K W IH1 T IH0 NG
+quiver K W IH1 V ER0
+quivering K W IH1 V ER0 IH0 NG
+quixote K IY0 HH OW1 T IY0
+quiz K W IH1 Z
+quizzes K W IH1 Z IH0 Z
+quo K W OW1
+quorum K W AO1 R AH0 M
+quota K W OW1 T AH0
+quotas K W OW1 T AH0 Z
+quotation K W OW0 T EY1 SH AH0 N
+quotations K W OW0 T EY1 SH AH0 N Z
+quote K W OW1 T
+quoted K W OW1 T IH0 D
+quotes K W OW1 T S
+quotient K W OW1 SH AH0 N T
+quoting K W OW1 T IH0 NG
+r AA1 R
+ra R AA1
+rabbi R AE1 B AY2
+rabbis R AE1 B AY2 Z
+rabbit R AE1 B AH0 T
+rabbits R AE1 B AH0 T S
+rabble R AE1 B AH0 L
+rabid R AE1 B IH0 D
+rabies R EY1 B IY0 Z
+raccoon R AE0 K UW1 N
+raccoons R AE0 K UW1 N Z
+race R EY1 S
+raced R EY1 S T
+racehorse R EY1 S HH AO2 R S
+racehorses R AE1 S HH AO2 R S IH0 Z
+racer R EY1 S ER0
+racers R EY1 S ER0 Z
+races R EY1 S AH0 Z
+racetrack R EY1 S T R AE2 K
+rach R AE1 CH
+racial R EY1 SH AH0 L
+racially R EY1 SH AH0 L IY0
+racing R EY1 S IH0 NG
+racism R EY1 S IH2 Z AH0 M
+racist R EY1 S IH0 S T
+racists R EY1 S IH0 S T S
+rack R AE1 K
+racked R AE1 K T
+racket R AE1 K IH0 T
+racketeering R AE2 K IH0 T IH1 R IH0 NG
+rackets R AE1 K AH0 T S
+racking R AE1 K IH0 NG
+racks R AE1 K S
+racquet R AE1 K IH0 T
+racquetball R AE1 K AH0 T B AO2 L
+racy R EY1 S IY0
+rad R AE1 D
+radar R EY1 D AA2 R
+radial R EY1 D IY0 AH0 L
+radiant R EY1 D IY2 AH0 N T
+radiate R EY1 D IY0 AH0 T
+radiating R EY1 D IY0 EY2 T IH0 NG
+radiation R EY2 D IY0 EY1 SH AH0 N
+radiator R EY1 D IY0 EY2 T ER0
+radical R AE1 D AH0 K AH0 L
+radically R AE1 D IH0 K L IY0
+radicals R AE1 D AH0 K AH0 L Z
+radio R EY1 D IY0 OW2
+radioactive R EY2 D IY0 OW0 AE1 K T IH0 V
+radioactivity R EY1 D IY0 OW0 AE2 K T IH2 V AH0 T IY2
+radioed R EY1 D IY0 OW2 D
+radiologist R EY2 D IY0 AA1 L AH0 JH IH0 S T
+radiology R EY2 D IY0 AA1 L AH0 JH IY0
+radios R EY1 D IY0 OW2 Z
+radish R AE1 D IH0 SH
+radishes R AE1 D IH0 SH IH0 Z
+radium R EY1 D IY0 AH0 M
+radius R EY1 D IY0 AH0 S
+raff R AE1 F
+raffle R AE1 F AH0 L
+raffles R AE1 F AH0 L Z
+raft R AE1 F T
+rafters R AE1 F T ER0 Z
+rafting R AE1 F T IH0 NG
+rafts R AE1 F T S
+rag R AE1 G
+rage R EY1 JH
+raged R EY1 JH D
+rages R EY1 JH IH0 Z
+ragged R AE1 G AH0 D
+raggedy R AE1 G AH0 D IY0
+raging R EY1 JH IH0 NG
+rags R AE1 G Z
+ragtime R AE1 G T AY2 M
+rah R AA1
+raid R EY1 D
+raided R EY1 D IH0 D
+raider R EY1 D ER0
+raiders R EY1 D ER0 Z
+raiding R EY1 D IH0 NG
+raids R EY1 D Z
+rail R EY1 L
+railing R EY1 L IH0 NG
+railings R EY1 L IH0 NG Z
+railroad R EY1 L R OW2 D
+railroads R EY1 L R OW2 D Z
+rails R EY1 L Z
+railway R EY1 L W EY2
+rain R EY1 N
+rainbow R EY1 N B OW2
+rainbows R EY1 N B OW2 Z
+raincoat R EY1 N K OW2 T
+raincoats R EY1 N K OW2 T S
+raindrops R EY1 N D R AA2 P S
+rained R EY1 N D
+rainer R EY1 N ER0
+raines R EY1 N Z
+rainfall R EY1 N F AO2 L
+rainforest R AY1 N F AO2 R AH0 S T
+rainier R EY0 N IH1 R
+raining R EY1 N IH0 NG
+rainmaker R EY1 N M EY2 K ER0
+rains R EY1 N Z
+rainstorm R EY1 N S T AO2 R M
+rainy R EY1 N IY0
+raise R EY1 Z
+raised R EY1 Z D
+raises R EY1 Z AH0 Z
+raisin R EY1 Z IH0 N
+raising R EY1 Z IH0 NG
+raisins R EY1 Z AH0 N Z
+raj R AA1 ZH
+rake R EY1 K
+raked R EY1 K T
+raking R EY1 K IH0 NG
+rales R EY1 L Z
+rallied R AE1 L IY0 D
+rallies R AE1 L IY0 Z
+rally R AE1 L IY0
+rallying R AE1 L IY0 IH0 NG
+ralph R AE1 L F
+ram R AE1 M
+ramada R AH0 M AA1 D AH0
+ramble R AE1 M B AH0 L
+rambling R AE1 M B L IH0 NG
+rambunctious R AE0 M B AH1 NG K SH AH0 S
+ramifications R AE2 M AH0 F AH0 K EY1 SH AH0 N Z
+rammed R AE1 M D
+ramming R AE1 M IH0 NG
+ramon R AH0 M OW1 N
+ramp R AE1 M P
+rampage R AE1 M P EY2 JH
+rampant R AE1 M P AH0 N T
+rampart R AE1 M P AA2 R T
+ramps R AE1 M P S
+ramrod R AE1 M R AA2 D
+rams R AE1 M Z
+ran R AE1 N
+rance R AE1 N S
+ranch R AE1 N CH
+rancher R AE1 N CH ER0
+ranchers R AE1 N CH ER0 Z
+ranches R AE1 N CH AH0 Z
+rancho R AE1 N CH OW0
+rancid R AE1 N S IH0 D
+rand R AE1 N D
+randall R AE1 N D AH0 L
+random R AE1 N D AH0 M
+randomly R AE1 N D AH0 M L IY0
+randy R AE1 N D IY0
+rang R AE1 NG
+range R EY1 N JH
+ranger R EY1 N JH ER0
+rangers R EY1 N JH ER0 Z
+ranges R EY1 N JH AH0 Z
+ranging R EY1 N JH IH0 NG
+rangoon R AE0 NG G UW1 N
+rank R AE1 NG K
+ranked R AE1 NG K T
+ranking R AE1 NG K IH0 NG
+ranks R AE1 NG K S
+ransack R AE1 N S AE2 K
+ransacked R AE1 N S AE2 K T
+ransom R AE1 N S AH0 M
+rant R AE1 N T
+ranting R AE1 N T IH0 NG
+rap R AE1 P
+rape R EY1 P
+raped R EY1 P T
+rapes R EY1 P S
+raphael R AA2 F AY0 EH1 L
+rapid R AE1 P AH0 D
+rapidly R AE1 P AH0 D L IY0
+rapids R AE1 P AH0 D Z
+raping R EY1 P IH0 NG
+rapist R EY1 P IH0 S T
+rapists R EY1 P IH0 S T S
+rapped R AE1 P T
+rapper R AE1 P ER0
+rappers R AE1 P ER0 Z
+rapping R AE1 P IH0 NG
+rapport R AE0 P AO1 R
+raps R AE1 P S
+raptor R AE1 P T ER0
+raptors R AE1 P T ER0 Z
+rapture R AE1 P CH ER0
+rare R EH1 R
+rarely R EH1 R L IY0
+rarest R EH1 R AH0 S T
+rarity R EH1 R AH0 T IY0
+rascal R AE1 S K AH0 L
+rascals R AE1 S K AH0 L Z
+rash R AE1 SH
+rashes R AE1 SH IH0 Z
+raspberries R AE1 Z B EH2 R IY0 Z
+raspberry R AE1 Z B EH2 R IY0
+rat R AE1 T
+ratatouille R AE2 T AH0 T UW1 Y
+ratchet R AE1 CH AH0 T
+rate R EY1 T
+rated R EY1 T IH0 D
+rates R EY1 T S
+rathe R EY1 DH
+rather R AE1 DH ER0
+ratified R AE1 T AH0 F AY2 D
+rating R EY1 T IH0 NG
+ratings R EY1 T IH0 NG Z
+ratio R EY1 SH IY0 OW2
+ration R AE1 SH AH0 N
+rational R AE1 SH AH0 N AH0 L
+rationale R AE2 SH AH0 N AE1 L
+rationalization R AE2 SH AH0 N AH0 L IH0 Z EY1 SH AH0 N
+rationalize R AE1 SH AH0 N AH0 L AY2 Z
+rationally R AE1 SH AH0 N AH0 L IY0
+rationed R AE1 SH AH0 N D
+rationing R AE1 SH AH0 N IH0 NG
+rations R AE1 SH AH0 N Z
+ratios R EY1 SH IY0 OW2 Z
+rats R AE1 T S
+rattle R AE1 T AH0 L
+rattled R AE1 T AH0 L D
+rattler R AE1 T AH0 L ER0
+rattles R AE1 T AH0 L Z
+rattlesnake R AE1 T AH0 L S N EY2 K
+rattlesnakes R AE1 T AH0 L S N EY2 K S
+rattling R AE1 T L IH0 NG
+ratty R AE1 T IY0
+raucous R AO1 K AH0 S
+raunchy R AO1 N CH IY0
+ravage R AE1 V IH0 JH
+ravaged R AE1 V IH0 JH D
+rave R EY1 V
+ravel R AE1 V AH0 L
+raven R EY1 V AH0 N
+ravenous R AE1 V AH0 N AH0 S
+ravens R EY1 V AH0 N Z
+raves R EY1 V Z
+ravine R AH0 V IY1 N
+raving R EY1 V IH0 NG
+ravioli R AE2 V IY0 OW1 L IY0
+ravishing R AE1 V IH0 SH IH0 NG
+raw R AA1
+rawhide R AO1 HH AY2 D
+ray R EY1
+rayon R EY1 AH0 N
+rays R EY1 Z
+razor R EY1 Z ER0
+razors R EY1 Z ER0 Z
+re R EY1
+rea R EY1
+reach R IY1 CH
+reachable R IY1 CH AH0 B AH0 L
+reached R IY1 CH T
+reaches R IY1 CH AH0 Z
+reaching R IY1 CH IH0 NG
+react R IY0 AE1 K T
+reacted R IY0 AE1 K T IH0 D
+reacting R IY0 AE1 K T IH0 NG
+reaction R IY0 AE1 K SH AH0 N
+reactionary R IY0 AE1 K SH AH0 N EH2 R IY0
+reactions R IY0 AE1 K SH AH0 N Z
+reactivate R IY1 AE1 K T AH0 V EY2 T
+reactivated R IY1 AE1 K T AH0 V EY2 T IH0 D
+reactive R IY0 AE1 K T IH0 V
+reactor R IY0 AE1 K T ER0
+reactors R IY0 AE1 K T ER0 Z
+reacts R IY0 AE1 K T S
+read R EH1 D
+reader R IY1 D ER0
+readers R IY1 D ER0 Z
+readily R EH1 D AH0 L IY0
+readiness R EH1 D IY0 N AH0 S
+reading R IY1 D IH0 NG
+readings R IY1 D IH0 NG Z
+readjust R IY2 AH0 JH AH1 S T
+readout R IY1 D AW2 T
+reads R IY1 D Z
+ready R EH1 D IY0
+reagan R EY1 G AH0 N
+real R IY1 L
+realign R IY0 AH0 L AY1 N
+realisation R IY1 L AH0 Z EY1 SH AH0 N
+realise R IY1 AH0 L AY2 Z
+realised R IY1 AH0 L AY2 Z D
+realises R IY1 AH0 L AY2 Z IH0 Z
+realism R IY1 AH0 L IH0 Z M
+realist R IY1 AH0 L IH0 S T
+realistic R IY2 AH0 L IH1 S T IH0 K
+realistically R IY2 AH0 L IH1 S T IH0 K L IY0
+realities R IY2 AE1 L AH0 T IY2 Z
+reality R IY2 AE1 L AH0 T IY2
+realization R IY1 L AH0 Z EY1 SH AH0 N
+realize R IY1 AH0 L AY2 Z
+realized R IY1 AH0 L AY2 Z D
+realizes R IY1 AH0 L AY2 Z IH0 Z
+realizing R IY1 AH0 L AY2 Z IH0 NG
+really R IH1 L IY0
+realm R EH1 L M
+realms R EH1 L M Z
+realtor R IY1 AH0 L T ER0
+realtors R IY1 AH0 L T ER0 Z
+realty R IY1 AH0 L T IY2
+reap R IY1 P
+reaper R IY1 P ER0
+reaping R IY1 P IH0 NG
+reappear R IY2 AH0 P IH1 R
+reappeared R IY2 AH0 P IH1 R D
+reapply R IY2 AH0 P L AY0
+rear R IH1 R
+reared R IH1 R D
+rearrange R IY2 ER0 EY1 N JH
+rearranged R IY2 ER0 EY1 N JH D
+rearranging R IY2 ER0 EY1 N JH IH0 NG
+rears R IH1 R Z
+reason R IY1 Z AH0 N
+reasonable R IY1 Z AH0 N AH0 B AH0 L
+reasonably R IY1 Z AH0 N AH0 B L IY0
+reasoned R IY1 Z AH0 N D
+reasoning R IY1 Z AH0 N IH0 NG
+reasons R IY1 Z AH0 N Z
+reassemble R IY2 AH0 S EH1 M B AH0 L
+reassign R IY2 AH0 S AY1 N
+reassigned R IY2 AH0 S AY1 N D
+reassignment R IY0 AH0 S AY1 N M AH0 N T
+reassurance R IY2 AH0 SH UH1 R AH0 N S
+reassure R IY2 AH0 SH UH1 R
+reassured R IY2 AH0 SH UH1 R D
+reassuring R IY2 AH0 SH UH1 R IH0 NG
+reattach R IY1 AH0 T AE1 CH
+rebate R IY1 B EY2 T
+rebel R EH1 B AH0 L
+rebelled R IH0 B EH1 L D
+rebelling R IH0 B EH1 L IH0 NG
+rebellion R IH0 B EH1 L Y AH0 N
+rebellious R IH0 B EH1 L Y AH0 S
+rebels R EH1 B AH0 L Z
+rebirth R IY0 B ER1 TH
+reboot R IY0 B UW1 T
+reborn R IY1 B AO1 R N
+rebound R IY0 B AW1 N D
+rebounds R IY1 B AW2 N D Z
+rebuild R IY0 B IH1 L D
+rebuilding R IY0 B IH1 L D IH0 NG
+rebuilt R IY0 B IH1 L T
+rebuke R IY0 B Y UW1 K
+rebuttal R IH0 B AH1 T AH0 L
+rec R EH1 K
+recalculated R IY0 K AE1 L K Y AH0 L EY2 T IH0 D
+recall R IY1 K AO2 L
+recalled R IH0 K AO1 L D
+recalling R IH0 K AO1 L IH0 NG
+recalls R IY1 K AO2 L Z
+recant R IY0 K AE1 N T
+recap R IY1 K AE2 P
+recapture R IY0 K AE1 P CH ER0
+recaptured R IY0 K AE1 P CH ER0 D
+recast R IY0 K AE1 S T
+receding R IH0 S IY1 D IH0 NG
+receipt R IH0 S IY1 T
+receipts R IH0 S IY1 T S
+receive R AH0 S IY1 V
+received R AH0 S IY1 V D
+receiver R AH0 S IY1 V ER0
+receivers R AH0 S IY1 V ER0 Z
+receives R AH0 S IY1 V Z
+receiving R AH0 S IY1 V IH0 NG
+recent R IY1 S AH0 N T
+recently R IY1 S AH0 N T L IY0
+receptacle R AH0 S EH1 P T AH0 K AH0 L
+reception R IH0 S EH1 P SH AH0 N
+receptionist R IH0 S EH1 P SH AH0 N IH0 S T
+receptive R IH0 S EH1 P T IH0 V
+receptor R IY0 S EH1 P T ER0
+receptors R AH0 S EH1 P T ER0 Z
+recess R IH0 S EH1 S
+recessed R IH0 S EH1 S T
+recesses R IY1 S EH0 S AH0 Z
+recession R IH0 S EH1 SH AH0 N
+recharge R IY0 CH AA1 R JH
+recheck R IY1 CH EH1 K
+rechecked R IY0 CH EH1 K T
+recipe R EH1 S AH0 P IY0
+recipes R EH1 S AH0 P IY0 Z
+recipient R AH0 S IH1 P IY0 AH0 N T
+recipients R IH0 S IH1 P IY0 AH0 N T S
+reciprocal R IH0 S IH1 P R AH0 K AH0 L
+reciprocate R IH0 S IH1 P R AH0 K EY2 T
+recital R AH0 S AY1 T AH0 L
+recitation R EH2 S AH0 T EY1 SH AH0 N
+recite R AH0 S AY1 T
+recited R AH0 S AY1 T IH0 D
+recites R IY0 S AY1 T S
+reciting R IY0 S AY1 T IH0 NG
+reckless R EH1 K L AH0 S
+recklessly R EH1 K L AH0 S L IY0
+recklessness R EH1 K L AH0 S N AH0 S
+reckon R EH1 K AH0 N
+reckoned R EH1 K AH0 N D
+reckoning R EH1 K AH0 N IH0 NG
+reckons R EH1 K AH0 N Z
+reclaim R IY0 K L EY1 M
+reclaimed R IY0 K L EY1 M D
+reclamation R EH2 K L AH0 M EY1 SH AH0 N
+reclining R IH0 K L AY1 N IH0 NG
+recluse R IH0 K L UW1 S
+reclusive R IH0 K L UW1 S IH0 V
+recognise R EH1 K AH0 G N AY2 Z
+recognised R EH1 K AH0 G N AY2 Z D
+recognises R EH1 K AH0 G N AY2 Z IH0 Z
+recognition R EH2 K AH0 G N IH1 SH AH0 N
+recognizable R EH2 K AH0 G N AY1 Z AH0 B AH0 L
+recognizance R IH0 K AA1 N AH0 Z AH0 N S
+recognize R EH1 K AH0 G N AY2 Z
+recognized R EH1 K AH0 G N AY2 Z D
+recognizes R EH1 K AH0 G N AY2 Z AH0 Z
+recognizing R EH1 K AH0 G N AY2 Z IH0 NG
+recoil R IY0 K OY1 L
+recollect R EH2 K AH0 L EH1 K T
+recollection R EH2 K AH0 L EH1 K SH AH0 N
+recollections R EH2 K AH0 L EH1 K SH AH0 N Z
+recommend R EH2 K AH0 M EH1 N D
+recommendation R EH2 K AH0 M AH0 N D EY1 SH AH0 N
+recommendations R EH2 K AH0 M AH0 N D EY1 SH AH0 N Z
+recommended R EH2 K AH0 M EH1 N D IH0 D
+recommending R EH2 K AH0 M EH1 N D IH0 NG
+recommends R EH2 K AH0 M EH1 N D Z
+recompense R EH1 K AH0 M P EH2 N S
+recon R IY1 K AO0 N
+reconcile R EH1 K AH0 N S AY2 L
+reconciled R EH1 K AH0 N S AY2 L D
+reconciliation R EH2 K AH0 N S IH2 L IY0 EY1 SH AH0 N
+reconfigure R IY2 K AH0 N F IH1 G Y ER0
+reconnaissance R IY0 K AA1 N AH0 S AH0 N S
+reconnect R IY0 K AH0 N EH1 K T
+reconnected R IY0 K AH0 N EH1 K T IH0 D
+reconsider R IY2 K AH0 N S IH1 D ER0
+reconsidered R IY2 K AH0 N S IH1 D ER0 D
+reconsidering R IY2 K AH0 N S IH1 D ER0 IH0 NG
+reconstruct R IY2 K AH0 N S T R AH1 K T
+reconstructed R IY2 K AH0 N S T R AH1 K T IH0 D
+reconstruction R IY2 K AH0 N S T R AH1 K SH AH0 N
+reconstructive R IY2 K AH0 N S T R AH1 K T IH0 V
+reconvene R IY0 K AH0 N V IY1 N
+record R AH0 K AO1 R D
+recorded R AH0 K AO1 R D IH0 D
+recorder R IH0 K AO1 R D ER0
+recorders R IH0 K AO1 R D ER0 Z
+recording R AH0 K AO1 R D IH0 NG
+recordings R IH0 K AO1 R D IH0 NG Z
+records R AH0 K AO1 R D Z
+recount R IH0 K AW1 N T
+recounts R IY2 K AW1 N T S
+recourse R IY1 K AO0 R S
+recover R IH0 K AH1 V ER0
+recovered R AH0 K AH1 V ER0 D
+recovering R AH0 K AH1 V ER0 IH0 NG
+recovers R IH0 K AH1 V ER0 Z
+recovery R IH0 K AH1 V R IY0
+recreate R EH1 K R IY0 EY2 T
+recreated R EH1 K R IY0 EY2 T IH0 D
+recreating R EH1 K R IY0 EY2 T IH0 NG
+recreation R EH2 K R IY0 EY1 SH AH0 N
+recreational R EH2 K R IY0 EY1 SH AH0 N AH0 L
+recruit R AH0 K R UW1 T
+recruited R IH0 K R UW1 T IH0 D
+recruiter R IH0 K R UW1 T ER0
+recruiters R IH0 K R UW1 T ER0 Z
+recruiting R AH0 K R UW1 T IH0 NG
+recruitment R AH0 K R UW1 T M AH0 N T
+recruits R AH0 K R UW1 T S
+rectal R EH1 K T AH0 L
+rectangular R EH0 K T AE1 NG G Y AH0 L ER0
+rectified R EH1 K T AH0 F AY2 D
+rectify R EH1 K T AH0 F AY2
+rector R EH1 K T ER0
+rectory R EH1 K T ER0 IY0
+rectum R EH1 K T AH0 M
+recuperate R IH0 K UW1 P ER0 EY2 T
+recuperating R IH0 K UW1 P ER0 EY2 T IH0 NG
+recurrence R IH0 K ER1 AH0 N S
+recurring R IH0 K ER1 IH0 NG
+recuse R IH2 K Y UW1 Z
+recycle R IY0 S AY1 K AH0 L
+recycled R IY0 S AY1 K AH0 L D
+recycling R IY0 S AY1 K AH0 L IH0 NG
+red R EH1 D
+redcoats R EH1 D K OW2 T S
+redd R EH1 D
+redding R EH1 D IH0 NG
+reddy R EH1 D IY0
+redecorate R IY0 D EH1 K ER0 EY2 T
+redecorated R IY0 D EH1 K ER0 EY2 T IH0 D
+redecorating R IY0 D EH1 K ER0 EY2 T IH0 NG
+redeem R IH0 D IY1 M
+redeemed R IH0 D IY1 M D
+redeeming R IH0 D IY1 M IH0 NG
+redefine R IY0 D IH0 F AY1 N
+redemption R IH0 D EH1 M P SH AH0 N
+redesign R IY2 D IH0 Z AY1 N
+redesigned R IY2 D IH0 Z AY1 N D
+redhead R EH1 D HH EH2 D
+redheaded R EH1 D HH EH2 D IH0 D
+redheads R EH1 D HH EH1 D Z
+redial R IY0 D AY1 AH0 L
+redid R IY0 D IH1 D
+redirect R IY2 D ER0 EH1 K T
+redneck R EH1 D N EH2 K
+rednecks R EH1 D N EH2 K S
+redo R IY0 D UW1
+redoing R IY0 D UW1 IH0 NG
+redone R IY0 D AH1 N
+reds R EH1 D Z
+redskin R EH1 D S K IH2 N
+redskins R EH1 D S K IH2 N Z
+reduce R AH0 D UW1 S
+reduced R AH0 D UW1 S T
+reduces R AH0 D UW1 S AH0 Z
+reducing R AH0 D UW1 S IH0 NG
+reduction R AH0 D AH1 K SH AH0 N
+redundancies R IH0 D AH1 N D AH0 N S IY0 Z
+redundancy R IH0 D AH1 N D AH0 N S IY0
+redundant R IH0 D AH1 N D AH0 N T
+redwood R EH1 D W UH2 D
+ree R IY1
+reebok R IY1 B AA0 K
+reed R IY1 D
+reeds R IY1 D Z
+reef R IY1 F
+reefer R IY1 F ER0
+reefs R IY1 F S
+reek R IY1 K
+reeking R IY1 K IH0 NG
+reeks R IY1 K S
+reel R IY1 L
+reelected R IY0 IH0 L EH1 K T IH0 D
+reelection R IY0 IH0 L EH1 K SH AH0 N
+reeling R IY1 L IH0 NG
+reels R IY1 L Z
+reenact R IY0 IH0 N AE1 K T
+reenactment R IY0 IH0 N AE1 K T M AH0 N T
+reentry R IY0 IH1 N T R IY0
+reese R IY1 S
+reestablish R IY0 IH0 S T AE1 B L IH0 SH
+reevaluate R IY2 IH0 V AE1 L UW0 EY2 T
+reeves R IY1 V Z
+reexamine R IY0 EH0 G Z AE1 M AH0 N
+ref R EH1 F
+refer R AH0 F ER1
+referee R EH2 F ER0 IY1
+reference R EH1 F ER0 AH0 N S
+references R EH1 F ER0 AH0 N S IH0 Z
+referencing R EH1 F ER0 AH0 N S IH0 NG
+referral R IH0 F ER1 AH0 L
+referrals R IH0 F ER1 AH0 L Z
+referred R AH0 F ER1 D
+referring R IH0 F ER1 IH0 NG
+refers R AH0 F ER1 Z
+refill R IY1 F IH0 L
+refills R IY0 F IH1 L Z
+refine R AH0 F AY1 N
+refined R AH0 F AY1 N D
+refinement R AH0 F AY1 N M AH0 N T
+refineries R IH0 F AY1 N ER0 IY0 Z
+refinery R IH0 F AY1 N ER0 IY0
+refining R AH0 F AY1 N IH0 NG
+reflect R IH0 F L EH1 K T
+reflected R IH0 F L EH1 K T IH0 D
+reflecting R IH0 F L EH1 K T IH0 NG
+reflection R IH0 F L EH1 K SH AH0 N
+reflections R IH0 F L EH1 K SH AH0 N Z
+reflective R IH0 F L EH1 K T IH0 V
+reflector R IH0 F L EH1 K T ER0
+reflects R IH0 F L EH1 K T S
+reflex R IY1 F L EH0 K S
+reflexes R IY1 F L EH0 K S AH0 Z
+reflux R IY1 F L AH2 K S
+refocus R IY0 F OW1 K AH0 S
+reform R AH0 F AO1 R M
+reformatory R IH0 F AO1 R M AH0 T AO2 R IY0
+reformed R IH0 F AO1 R M D
+reforms R AH0 F AO1 R M Z
+refrain R IH0 F R EY1 N
+refresh R IH0 F R EH1 SH
+refreshed R IY0 F R EH1 SH T
+refresher R IH0 F R EH1 SH ER0
+refreshing R IH0 F R EH1 SH IH0 NG
+refreshment R AH0 F R EH1 SH M AH0 N T
+refreshments R AH0 F R EH1 SH M AH0 N T S
+refrigerated R IH0 F R IH1 JH ER0 EY2 T IH0 D
+refrigeration R IH0 F R IH2 JH ER0 EY1 SH AH0 N
+refrigerator R AH0 F R IH1 JH ER0 EY2 T ER0
+refrigerators R IH0 F R IH1 JH ER0 EY2 T ER0 Z
+refuel R IY0 F Y UW1 AH0 L
+refueling R IY0 F Y UW1 AH0 L IH0 NG
+refuge R EH1 F Y UW0 JH
+refugee R EH1 F Y UW0 JH IY0
+refugees R EH1 F Y UW2 JH IY0 Z
+refund R IH0 F AH1 N D
+refunds R IH0 F AH1 N D Z
+refusal R AH0 F Y UW1 Z AH0 L
+refuse R AH0 F Y UW1 Z
+refused R AH0 F Y UW1 Z D
+refuses R AH0 F Y UW1 Z AH0 Z
+refusing R AH0 F Y UW1 Z IH0 NG
+refute R IH0 F Y UW1 T
+reg R EH1 G
+regain R IH0 G EY1 N
+regained R IY0 G EY1 N D
+regains R IY0 G EY1 N Z
+regal R IY1 G AH0 L
+regard R IH0 G AA1 R D
+regarded R IH0 G AA1 R D IH0 D
+regarding R IH0 G AA1 R D IH0 NG
+regardless R AH0 G AA1 R D L AH0 S
+regards R IH0 G AA1 R D Z
+regatta R IH0 G AA1 T AH0
+regency R IY1 JH AH0 N S IY0
+regenerate R IY0 JH EH1 N ER0 EY2 T
+regeneration R IY0 JH EH1 N ER0 EY1 SH AH0 N
+regent R IY1 JH AH0 N T
+reggae R EH1 G EY2
+regime R AH0 ZH IY1 M
+regimen R EH1 JH AH0 M AH0 N
+regiment R EH1 JH AH0 M AH0 N T
+regimental R EH2 JH AH0 M EH1 N T AH0 L
+regiments R EH1 JH AH0 M AH0 N T S
+regimes R AH0 ZH IY1 M Z
+regina R IH0 JH IY1 N AH0
+region R IY1 JH AH0 N
+regional R IY1 JH AH0 N AH0 L
+regionals R IY1 JH AH0 N AH0 L Z
+regions R IY1 JH AH0 N Z
+register R EH1 JH IH0 S T ER0
+registered R EH1 JH IH0 S T ER0 D
+registering R EH1 JH IH0 S T ER0 IH0 NG
+registers R EH1 JH AH0 S T ER0 Z
+registrar R EH1 JH IH0 S T R AA2 R
+registration R EH2 JH IH0 S T R EY1 SH AH0 N
+registry R EH1 JH IH0 S T R IY0
+regress R IY1 G R EH0 S
+regression R AH0 G R EH1 SH AH0 N
+regret R AH0 G R EH1 T
+regretful R IH0 G R EH1 T F AH0 L
+regretfully R IH0 G R EH1 T F AH0 L IY0
+regrets R IH0 G R EH1 T S
+regrettable R IH0 G R EH1 T AH0 B AH0 L
+regrettably R IH0 G R EH1 T AH0 B L IY0
+regretted R IH0 G R EH1 T IH0 D
+regretting R IH0 G R EH1 T IH0 NG
+regroup R IY0 G R UW1 P
+regrouping R IY0 G R UW1 P IH0 NG
+regular R EH1 G Y AH0 L ER0
+regularity R EH2 G Y AH0 L EH1 R AH0 T IY0
+regularly R EH1 G Y AH0 L ER0 L IY0
+regulars R EH1 G Y AH0 L ER0 Z
+regulate R EH1 G Y AH0 L EY2 T
+regulated R EH1 G Y AH0 L EY2 T IH0 D
+regulation R EH2 G Y AH0 L EY1 SH AH0 N
+regulations R EH2 G Y AH0 L EY1 SH AH0 N Z
+regulator R EH1 G Y AH0 L EY2 T ER0
+regulatory R EH1 G Y AH0 L AH0 T AO2 R IY0
+rehab R IY0 HH AE0 B
+rehabilitate R IY2 HH AH0 B IH1 L AH0 T EY2 T
+rehabilitated R IY2 HH AH0 B IH1 L AH0 T EY2 T IH0 D
+rehabilitation R IY2 HH AH0 B IH2 L AH0 T EY1 SH AH0 N
+rehash R IY0 HH AE1 SH
+rehearsal R IH0 HH ER1 S AH0 L
+rehearsals R IH0 HH ER1 S AH0 L Z
+rehearse R IY0 HH ER1 S
+rehearsed R IY0 HH ER1 S T
+rehearsing R IH0 HH ER1 S IH0 NG
+rehired R IY0 HH AY1 ER0 D
+reich R AY1 K
+reign R EY1 N
+reigned R EY1 N D
+reigning R EY1 N IH0 NG
+reigns R EY1 N Z
+reimburse R IY2 IH0 M B ER1 S
+rein R EY1 N
+reina R EY0 IY1 N AH0
+reincarnate R IY2 IH0 N K AA1 R N EY2 T
+reincarnated R IY2 IH0 N K AA1 R N EY2 T IH0 D
+reincarnation R IY2 IH0 N K AA0 R N EY1 SH AH0 N
+reindeer R EY1 N D IH2 R
+reinforce R IY2 IH0 N F AO1 R S
+reinforced R IY2 IH0 N F AO1 R S T
+reinforcement R IY2 IH0 N F AO1 R S M AH0 N T
+reinforcements R IY2 IH0 N F AO1 R S M AH0 N T S
+reinforces R IY2 IH0 N F AO1 R S IH0 Z
+reinforcing R IY2 IH0 N F AO1 R S IH0 NG
+reins R EY1 N Z
+reinstate R IY2 IH0 N S T EY1 T
+reinstated R IY2 IH0 N S T EY1 T IH0 D
+reinstatement R IY2 IH0 N S T EY1 T M AH0 N T
+reinvent R IY2 IH0 N V EH1 N T
+reiterate R IY0 IH1 T ER0 EY2 T
+reject R IH0 JH EH1 K T
+rejected R IH0 JH EH1 K T IH0 D
+rejecting R IH0 JH EH1 K T IH0 NG
+rejection R IH0 JH EH1 K SH AH0 N
+rejects R IH0 JH EH1 K T S
+rejoice R IH0 JH OY1 S
+rejoicing R IH0 JH OY1 S IH0 NG
+rejoin R IY0 JH OY1 N
+rekindle R IY0 K IH1 N D AH0 L
+relapse R IY0 L AE1 P S
+relate R IH0 L EY1 T
+related R IH0 L EY1 T IH0 D
+relates R IH0 L EY1 T S
+relating R IH0 L EY1 T IH0 NG
+relation R IY0 L EY1 SH AH0 N
+relations R IY0 L EY1 SH AH0 N Z
+relationship R IY0 L EY1 SH AH0 N SH IH2 P
+relationships R IY0 L EY1 SH AH0 N SH IH2 P S
+relative R EH1 L AH0 T IH0 V
+relatively R EH1 L AH0 T IH0 V L IY0
+relatives R EH1 L AH0 T IH0 V Z
+relativity R EH2 L AH0 T IH1 V AH0 T IY0
+relax R IH0 L AE1 K S
+relaxation R IY2 L AE0 K S EY1 SH AH0 N
+relaxed R IH0 L AE1 K S T
+relaxes R IH0 L AE1 K S IH0 Z
+relaxing R IH0 L AE1 K S IH0 NG
+relay R IY1 L EY2
+relayed R IY1 L EY2 D
+relaying R IY1 L EY2 IH0 NG
+relays R IY1 L EY2 Z
+release R IY0 L IY1 S
+released R IY0 L IY1 S T
+releases R IH0 L IY1 S IH0 Z
+releasing R IY0 L IY1 S IH0 NG
+relentless R IH0 L EH1 N T L IH0 S
+relentlessly R IH0 L EH1 N T L AH0 S L IY0
+relevance R EH1 L AH0 V AH0 N S
+relevant R EH1 L AH0 V AH0 N T
+reliability R IY0 L AY2 AH0 B IH1 L AH0 T IY0
+reliable R IH0 L AY1 AH0 B AH0 L
+reliance R IH0 L AY1 AH0 N S
+relic R EH1 L IH0 K
+relics R EH1 L IH0 K S
+relied R IH0 L AY1 D
+relief R IH0 L IY1 F
+relies R IH0 L AY1 Z
+relieve R IH0 L IY1 V
+relieved R IH0 L IY1 V D
+relieves R IY0 L IY1 V Z
+relieving R IH0 L IY1 V IH0 NG
+religion R IH0 L IH1 JH AH0 N
+religions R IY0 L IH1 JH AH0 N Z
+religious R IH0 L IH1 JH AH0 S
+religiously R IH0 L IH1 JH AH0 S L IY0
+relinquish R IH0 L IH1 NG K W IH0 SH
+relish R EH1 L IH0 SH
+relive R IY0 L IH1 V
+reliving R IY0 L IH1 V IH0 NG
+reload R IY0 L OW1 D
+relocate R IY2 L OW1 K EY0 T
+relocated R IY2 L OW1 K EY0 T IH0 D
+relocating R IY2 L OW1 K EY0 T IH0 NG
+relocation R IY2 L OW1 K EY1 SH AH0 N
+reluctance R IH0 L AH1 K T AH0 N S
+reluctant R IH0 L AH1 K T AH0 N T
+reluctantly R IH0 L AH1 K T AH0 N T L IY0
+rely R IH0 L AY1
+relying R IY0 L AY1 IH0 NG
+rem R EH1 M
+remain R IH0 M EY1 N
+remainder R IH0 M EY1 N D ER0
+remained R IH0 M EY1 N D
+remaining R IH0 M EY1 N IH0 NG
+remains R IH0 M EY1 N Z
+remake R IY1 M EY1 K
+remanded R IH0 M AE1 N D IH0 D
+remark R IH0 M AA1 R K
+remarkable R IH0 M AA1 R K AH0 B AH0 L
+remarkably R IH0 M AA1 R K AH0 B L IY0
+remarked R IH0 M AA1 R K T
+remarks R IH0 M AA1 R K S
+remarried R IY0 M EH1 R IY0 D
+remarry R IY0 M EH1 R IY0
+rematch R IY1 M AE1 CH
+rembrandt R EH1 M B R AE2 N T
+remedial R IH0 M IY1 D IY0 AH0 L
+remedies R EH1 M AH0 D IY0 Z
+remedy R EH1 M AH0 D IY0
+remember R IH0 M EH1 M B ER0
+remembered R IH0 M EH1 M B ER0 D
+remembering R IH0 M EH1 M B ER0 IH0 NG
+remembers R IH0 M EH1 M B ER0 Z
+remembrance R IY0 M EH1 M B R AH0 N S
+remind R IY0 M AY1 N D
+reminded R IY0 M AY1 N D IH0 D
+reminder R IY0 M AY1 N D ER0
+reminders R IY0 M AY1 N D ER0 Z
+reminding R IY0 M AY1 N D IH0 NG
+reminds R IY0 M AY1 N D Z
+reminisce R EH2 M AH0 N IH1 S
+reminiscent R EH2 M AH0 N IH1 S AH0 N T
+reminiscing R EH2 M AH0 N IH1 S IH0 NG
+remiss R IY0 M IH1 S
+remission R IY0 M IH1 SH AH0 N
+remnants R EH1 M N AH0 N T S
+remodel R IY0 M AA1 D AH0 L
+remodeled R IY0 M AA1 D AH0 L D
+remodeling R IH0 M AA1 D AH0 L IH0 NG
+remorse R IH0 M AO1 R S
+remorseful R IH0 M AO1 R S F AH0 L
+remote R IH0 M OW1 T
+remotely R IY0 M OW1 T L IY0
+removal R IH0 M UW1 V AH0 L
+remove R IY0 M UW1 V
+removed R IY0 M UW1 V D
+remover R IH0 M UW1 V ER0
+removes R IY0 M UW1 V Z
+removing R IY0 M UW1 V IH0 NG
+ren R EH1 N
+renaissance R EH2 N AH0 S AA1 N S
+renal R IY1 N AH0 L
+render R EH1 N D ER0
+rendered R EH1 N D ER0 D
+rendering R EH1 N D ER0 IH0 NG
+renders R EH1 N D ER0 Z
+rendezvous R AA1 N D IH0 V UW2
+rendition R EH0 N D IH1 SH AH0 N
+renegade R EH1 N AH0 G EY2 D
+renegotiate R IY2 N IH0 G OW1 SH IY0 EY2 T
+renew R IH0 N UW1
+renewal R IH0 N UW1 AH0 L
+renewed R IH0 N UW1 D
+renewing R IH0 N UW1 IH0 NG
+reno R IY1 N OW0
+renoir R EH0 N W AA1 R
+renounce R IH0 N AW1 N S
+renounced R IH0 N AW1 N S T
+renovate R EH1 N AH0 V EY2 T
+renovated R EH1 N AH0 V EY2 T IH0 D
+renovating R EH1 N AH0 V EY2 T IH0 NG
+renovation R EH2 N AH0 V EY1 SH AH0 N
+renovations R EH1 N AH0 V EY2 SH AH0 N Z
+renown R IH0 N AW1 N
+renowned R IH0 N AW1 N D
+rent R EH1 N T
+rental R EH1 N T AH0 L
+rentals R EH1 N T AH0 L Z
+rented R EH1 N T IH0 D
+renting R EH1 N T IH0 NG
+rents R EH1 N T S
+reopen R IY0 OW1 P AH0 N
+reopened R IY0 OW1 P AH0 N D
+reopening R IY0 OW1 P AH0 N IH0 NG
+reorganization R IY2 AO0 R G AH0 N AH0 Z EY1 SH AH0 N
+reorganize R IY0 AO1 R G AH0 N AY2 Z
+rep R EH1 P
+repaid R IY0 P EY1 D
+repaint R IY0 P EY1 N T
+repair R IH0 P EH1 R
+repaired R IH0 P EH1 R D
+repairing R IH0 P EH1 R IH0 NG
+repairman R IH0 P EH1 R M AE2 N
+repairs R IH0 P EH1 R Z
+reparations R EH2 P ER0 EY1 SH AH0 N Z
+repartee R EH2 P ER0 T IY1
+repay R IY0 P EY1
+repaying R IY0 P EY1 IH0 NG
+repeat R IH0 P IY1 T
+repeated R IH0 P IY1 T IH0 D
+repeatedly R IH0 P IY1 T IH0 D L IY0
+repeater R IH0 P IY1 T ER0
+repeating R IH0 P IY1 T IH0 NG
+repeats R IH0 P IY1 T S
+repel R IH0 P EH1 L
+repellent R IH0 P EH1 L AH0 N T
+repent R IH0 P EH1 N T
+repentance R IH0 P EH1 N T AH0 N S
+repercussions R IY2 P ER0 K AH1 SH AH0 N Z
+repertoire R EH1 P ER0 T W AA2 R
+repertory R EH1 P ER0 T AO2 R IY0
+repetition R EH2 P AH0 T IH1 SH AH0 N
+repetitive R IH0 P EH1 T IH0 T IH0 V
+rephrase R IY0 F R EY1 Z
+replace R IY2 P L EY1 S
+replaced R IY2 P L EY1 S T
+replacement R IH0 P L EY1 S M AH0 N T
+replacements R IY0 P L EY1 S M AH0 N T S
+replaces R IH0 P L EY1 S IH0 Z
+replacing R IH0 P L EY1 S IH0 NG
+replay R IY0 P L EY1
+replenish R IY0 P L EH1 N IH0 SH
+replica R EH1 P L IH0 K AH0
+replicate R EH1 P L AH0 K EY2 T
+replied R IH0 P L AY1 D
+replies R IH0 P L AY1 Z
+reply R IH0 P L AY1
+report R IY0 P AO1 R T
+reported R IY2 P AO1 R T IH0 D
+reportedly R IH0 P AO1 R T AH0 D L IY0
+reporter R IH0 P AO1 R T ER0
+reporters R IH0 P AO1 R T ER0 Z
+reporting R IY0 P AO1 R T IH0 NG
+reports R IH0 P AO1 R T S
+repose R IY0 P OW1 Z
+reposition R IY2 P AH0 Z IH1 SH AH0 N
+repossess R IY2 P AH0 Z EH1 S
+repossessed R IY2 P AH0 Z EH1 S T
+reprehensible R EH2 P R IH0 HH EH1 N S AH0 B AH0 L
+represent R EH2 P R IH0 Z EH1 N T
+representation R EH2 P R AH0 Z EH0 N T EY1 SH AH0 N
+representative R EH2 P R AH0 Z EH1 N T AH0 T IH0 V
+representatives R EH2 P R AH0 Z EH1 N T AH0 T IH0 V Z
+represented R EH2 P R IH0 Z EH1 N T IH0 D
+representing R EH2 P R IH0 Z EH1 N T IH0 NG
+represents R EH2 P R IH0 Z EH1 N T S
+repress R IY0 P R EH1 S
+repressed R IY0 P R EH1 S T
+repression R IY0 P R EH1 SH AH0 N
+reprieve R IY0 P R IY1 V
+reprimand R EH1 P R AH0 M AE2 N D
+reprimanded R EH1 P R AH0 M AE2 N D IH0 D
+reprisal R IY0 P R AY1 Z AH0 L
+reprisals R IH0 P R AY1 Z AH0 L Z
+reproach R IY0 P R OW1 CH
+reproduce R IY2 P R AH0 D UW1 S
+reproduced R IY2 P R AH0 D UW1 S T
+reproducing R IY2 P R AH0 D UW1 S IH0 NG
+reproduction R IY2 P R AH0 D AH1 K SH AH0 N
+reproductive R IY2 P R AH0 D AH1 K T IH0 V
+reprogram R IY0 P R OW1 G R AE2 M
+reprogrammed R IY0 P R OW1 G R AE2 M D
+reprogramming R IY0 P R OW1 G R AE2 M IH0 NG
+reps R EH1 P S
+reptile R EH1 P T AY0 L
+reptiles R EH1 P T AY0 L Z
+reptilian R EH0 P T IH1 L Y AH0 N
+reptilians R EH0 P T IH1 L Y AH0 N Z
+republic R IY0 P AH1 B L AH0 K
+republican R IH0 P AH1 B L IH0 K AH0 N
+republicans R IH0 P AH1 B L IH0 K AH0 N Z
+repudiate R IY0 P Y UW1 D IY0 EY2 T
+repugnant R IH0 P AH1 G N AH0 N T
+repulse R IY0 P AH1 L S
+repulsed R IY0 P AH1 L S T
+repulsive R IY0 P AH1 L S IH0 V
+reputable R EH1 P Y AH0 T AH0 B AH0 L
+reputation R EH2 P Y AH0 T EY1 SH AH0 N
+reputations R EH2 P Y AH0 T EY1 SH AH0 N Z
+reputed R IH0 P Y UW1 T IH0 D
+request R IH0 K W EH1 S T
+requested R IH0 K W EH1 S T IH0 D
+requesting R IH0 K W EH1 S T IH0 NG
+requests R IH0 K W EH1 S T S
+requiem R EH1 K W IY0 AH0 M
+require R IY2 K W AY1 ER0
+required R IY0 K W AY1 ER0 D
+requirement R IH0 K W AY1 R M AH0 N T
+requirements R IH0 K W AY1 R M AH0 N T S
+requires R IY0 K W AY1 ER0 Z
+requiring R IY0 K W AY1 ER0 IH0 NG
+requisite R EH1 K W AH0 Z AH0 T
+requisition R EH2 K W AH0 Z IH1 SH AH0 N
+requisitioned R EH2 K W AH0 Z IH1 SH AH0 N D
+reread R IY1 R IY1 D
+rereading R IY1 R IY1 D IH0 NG
+reroute R IY0 R UW1 T
+rerouted R IY0 R UW1 T IH0 D
+rerun R IY1 R AH1 N
+reruns R IY1 R AH1 N Z
+res R EY1 Z
+reschedule R IY0 S K EH1 JH UW0 L
+rescheduled R IY0 S K EH1 JH UW0 L D
+rescind R IH0 S IH1 N D
+rescinded R IH0 S IH1 N D IH0 D
+rescue R EH1 S K Y UW0
+rescued R EH1 S K Y UW0 D
+rescuer R EH1 S K Y UW2 ER0
+rescues R EH1 S K Y UW2 Z
+rescuing R EH1 S K Y UW0 IH0 NG
+research R IY0 S ER1 CH
+researched R IY0 S ER1 CH T
+researcher R IY1 S ER0 CH ER0
+researchers R IY1 S ER0 CH ER0 Z
+researches R IY0 S ER1 CH IH0 Z
+researching R IY0 S ER1 CH IH0 NG
+resection R IY2 S EH1 K SH AH0 N
+reseda R EH0 S EY1 D AH0
+resemblance R IH0 Z EH1 M B L AH0 N S
+resemble R IH0 Z EH1 M B AH0 L
+resembled R IH0 Z EH1 M B AH0 L D
+resembles R IH0 Z EH1 M B AH0 L Z
+resembling R IH0 Z EH1 M B AH0 L IH0 NG
+resent R IH0 Z EH1 N T
+resented R IY0 Z EH1 N T IH0 D
+resentful R IH0 Z EH1 N T F AH0 L
+resenting R IH0 Z EH1 N T IH0 NG
+resentment R IH0 Z EH1 N T M AH0 N T
+resents R IH0 Z EH1 N T S
+reservation R EH2 Z ER0 V EY1 SH AH0 N
+reservations R EH2 Z ER0 V EY1 SH AH0 N Z
+reserve R IH0 Z ER1 V
+reserved R IH0 Z ER1 V D
+reserves R IH0 Z ER1 V Z
+reservoir R EH1 Z AH0 V W AA2 R
+reset R IY0 S EH1 T
+reside R IH0 Z AY1 D
+residence R EH1 Z IH0 D AH0 N S
+residency R EH1 Z IH0 D AH0 N S IY0
+resident R EH1 Z IH0 D AH0 N T
+residential R EH2 Z IH0 D EH1 N SH AH0 L
+residents R EH1 Z IH0 D AH0 N T S
+resides R IH0 Z AY1 D Z
+residing R IH0 Z AY1 D IH0 NG
+residual R IH0 Z IH1 JH UW0 AH0 L
+residue R EH1 Z AH0 D UW2
+resign R IH0 Z AY1 N
+resignation R EH2 Z AH0 G N EY1 SH AH0 N
+resigned R IH0 Z AY1 N D
+resigning R IH0 Z AY1 N IH0 NG
+resilient R IH0 Z IH1 L Y AH0 N T
+resin R EH1 Z AH0 N
+resist R IH0 Z IH1 S T
+resistance R IH0 Z IH1 S T AH0 N S
+resistant R IH0 Z IH1 S T AH0 N T
+resisted R IH0 Z IH1 S T IH0 D
+resisting R IH0 Z IH1 S T IH0 NG
+resists R IH0 Z IH1 S T S
+resolute R EH1 Z AH0 L UW2 T
+resolution R EH2 Z AH0 L UW1 SH AH0 N
+resolutions R EH2 Z AH0 L UW1 SH AH0 N Z
+resolve R IY0 Z AA1 L V
+resolved R IY0 Z AA1 L V D
+resolving R IY0 Z AA1 L V IH0 NG
+resonance R EH1 Z AH0 N AH0 N S
+resonate R EH1 Z AH0 N EY2 T
+resort R IH0 Z AO1 R T
+resorting R IH0 Z AO1 R T IH0 NG
+resorts R IH0 Z AO1 R T S
+resounding R IY0 S AW1 N D IH0 NG
+resource R IY1 S AO0 R S
+resourceful R IY0 S AO1 R S F AH0 L
+resourcefulness R IY0 S AO1 R S F AH0 L N AH0 S
+resources R IY1 S AO0 R S IH0 Z
+respect R IH0 S P EH1 K T
+respectability R IY0 S P EH2 K T AH0 B IH1 L IH0 T IY0
+respectable R IH0 S P EH1 K T AH0 B AH0 L
+respected R IH0 S P EH1 K T IH0 D
+respectful R IH0 S P EH1 K T F AH0 L
+respectfully R IH0 S P EH1 K T F AH0 L IY0
+respecting R IY0 S P EH1 K T IH0 NG
+respective R IH0 S P EH1 K T IH0 V
+respectively R IH0 S P EH1 K T IH0 V L IY0
+respects R IH0 S P EH1 K T S
+respiration R EH2 S P ER0 EY1 SH AH0 N
+respirator R EH1 S P ER0 EY2 T ER0
+respiratory R EH1 S P ER0 AH0 T AO2 R IY0
+respite R EH1 S P IH0 T
+respond R IH0 S P AA1 N D
+responded R IH0 S P AA1 N D IH0 D
+responders R IH0 S P AA1 N D ER0 Z
+responding R IH0 S P AA1 N D IH0 NG
+responds R IH0 S P AA1 N D Z
+response R IH0 S P AA1 N S
+responses R IH0 S P AA1 N S IH0 Z
+responsibilities R IY0 S P AA2 N S AH0 B IH1 L AH0 T IY0 Z
+responsibility R IY0 S P AA2 N S AH0 B IH1 L AH0 T IY0
+responsible R IY0 S P AA1 N S AH0 B AH0 L
+responsibly R IH0 S P AA1 N S AH0 B L IY0
+responsive R IH0 S P AA1 N S IH0 V
+rest R EH1 S T
+restart R IY0 S T AA1 R T
+restaurant R EH1 S T ER0 AA2 N T
+restaurants R EH1 S T ER0 AA2 N T S
+rested R EH1 S T AH0 D
+restful R EH1 S T F AH0 L
+resting R EH1 S T IH0 NG
+restitution R EH2 S T IH0 T UW1 SH AH0 N
+restless R EH1 S T L AH0 S
+restlessness R EH1 S T L AH0 S N AH0 S
+restock R IY0 S T AA1 K
+restoration R EH2 S T ER0 EY1 SH AH0 N
+restore R IH0 S T AO1 R
+restored R IH0 S T AO1 R D
+restoring R IH0 S T AO1 R IH0 NG
+restrain R IY0 S T R EY1 N
+restrained R IY0 S T R EY1 N D
+restraining R IY0 S T R EY1 N IH0 NG
+restraint R IH0 S T R EY1 N T
+restraints R IH0 S T R EY1 N T S
+restrict R IY0 S T R IH1 K T
+restricted R IY0 S T R IH1 K T AH0 D
+restricting R IY0 S T R IH1 K T IH0 NG
+restriction R IY0 S T R IH1 K SH AH0 N
+restrictions R IY0 S T R IH1 K SH AH0 N Z
+restrictive R IY0 S T R IH1 K T IH0 V
+restroom R EH1 S T R UW2 M
+restrooms R EH1 S T R UW2 M Z
+restructure R IY0 S T R AH1 K CH ER0
+restructured R IY0 S T R AH1 K CH ER0 D
+restructuring R IY0 S T R AH1 K CH ER0 IH0 NG
+rests R EH1 S T S
+result R IH0 Z AH1 L T
+resulted R IH0 Z AH1 L T IH0 D
+resulting R IH0 Z AH1 L T IH0 NG
+results R IH0 Z AH1 L T S
+resume R IH0 Z UW1 M
+resumed R IH0 Z UW1 M D
+resumes R IH0 Z UW1 M Z
+resuming R IH0 Z UW1 M IH0 NG
+resupply R IY0 S AH0 P L AY1
+resurfaced R IY0 S ER1 F AH0 S T
+resurrect R EH2 Z ER0 EH1 K T
+resurrected R EH2 Z ER0 EH1 K T IH0 D
+resurrection R EH2 Z ER0 EH1 K SH AH0 N
+resuscitate R IH0 S AH1 S IH0 T EY2 T
+resuscitated R IH0 S AH1 S IH0 T EY2 T IH0 D
+resuscitation R IH0 S AH2 S IH0 T EY1 SH AH0 N
+retail R IY1 T EY2 L
+retain R IH0 T EY1 N
+retained R IH0 T EY1 N D
+retainer R IH0 T EY1 N ER0
+retaining R IH0 T EY1 N IH0 NG
+retains R IH0 T EY1 N Z
+retake R IY1 T EY1 K
+retaliate R IH0 T AE1 L IY0 EY2 T
+retaliation R IY0 T AE2 L IY0 EY1 SH AH0 N
+retaliatory R IY0 T AE1 L Y AH0 T AO2 R IY0
+retard R IH0 T AA1 R D
+retardation R IY0 T AA0 R D EY1 SH AH0 N
+retarded R IH0 T AA1 R D IH0 D
+retards R IH0 T AA1 R D Z
+retention R IY0 T EH1 N SH AH0 N
+rethink R IY0 TH IH1 NG K
+retina R EH1 T AH0 N AH0
+retinal R EH1 T AH0 N AH0 L
+retire R IH0 T AY1 R
+retired R IH0 T AY1 R D
+retirement R IY0 T AY1 ER0 M AH0 N T
+retires R IH0 T AY1 R Z
+retiring R IH0 T AY1 R IH0 NG
+retort R IY1 T AO2 R T
+retrace R IY0 T R EY1 S
+retract R IY0 T R AE1 K T
+retracted R IY0 T R AE1 K T AH0 D
+retraction R IY0 T R AE1 K SH AH0 N
+retreat R IY0 T R IY1 T
+retreated R IY0 T R IY1 T AH0 D
+retreating R IY0 T R IY1 T IH0 NG
+retreats R IY0 T R IY1 T S
+retrial R IY0 T R AY1 AH0 L
+retribution R EH2 T R AH0 B Y UW1 SH AH0 N
+retrieval R IH0 T R IY1 V AH0 L
+retrieve R IH0 T R IY1 V
+retrieved R IY0 T R IY1 V D
+retriever R IY0 T R IY1 V ER0
+retrieving R IY0 T R IY1 V IH0 NG
+retro R EH1 T R OW0
+retroactive R EH2 T R OW0 AE1 K T IH0 V
+retrograde R EH1 T R AH0 G R EY2 D
+retrospect R EH1 T R AH0 S P EH2 K T
+retrospective R EH2 T R AH0 S P EH1 K T IH0 V
+return R IH0 T ER1 N
+returned R IH0 T ER1 N D
+returning R IH0 T ER1 N IH0 NG
+returns R IH0 T ER1 N Z
+reuben R UW1 B AH0 N
+reunion R IY0 UW1 N Y AH0 N
+reunions R IY0 UW1 N Y AH0 N Z
+reunite R IY2 UW0 N AY1 T
+reunited R IY2 UW0 N AY1 T IH0 D
+reuniting R IY2 UW0 N AY1 T IH0 NG
+rev R EH1 V
+reveal R IH0 V IY1 L
+revealed R IH0 V IY1 L D
+revealing R IH0 V IY1 L IH0 NG
+reveals R IH0 V IY1 L Z
+reveille R EH1 V AH0 L IY2
+revel R EH1 V AH0 L
+revelation R EH2 V AH0 L EY1 SH AH0 N
+revelations R EH2 V AH0 L EY1 SH AH0 N Z
+revels R EH1 V AH0 L Z
+revenge R IY0 V EH1 N JH
+revenue R EH1 V AH0 N UW2
+revenues R EH1 V AH0 N UW2 Z
+revere R IH0 V IH1 R
+revered R IH0 V IH1 R D
+reverence R EH1 V ER0 AH0 N S
+reverend R EH1 V ER0 AH0 N D
+reversal R IH0 V ER1 S AH0 L
+reverse R IH0 V ER1 S
+reversed R IH0 V ER1 S T
+reverses R IH0 V ER1 S IH0 Z
+reversible R IH0 V ER1 S AH0 B AH0 L
+reversing R IH0 V ER1 S IH0 NG
+revert R IH0 V ER1 T
+review R IY2 V Y UW1
+reviewed R IY0 V Y UW1 D
+reviewer R IY0 V Y UW1 ER0
+reviewing R IY0 V Y UW1 IH0 NG
+reviews R IY0 V Y UW1 Z
+revise R IH0 V AY1 Z
+revised R IH0 V AY1 Z D
+revising R IH0 V AY1 Z IH0 NG
+revision R IY0 V IH1 ZH AH0 N
+revisions R IY0 V IH1 ZH AH0 N Z
+revisit R IY0 V IH1 Z IH0 T
+revival R IH0 V AY1 V AH0 L
+revive R IH0 V AY1 V
+revived R IH0 V AY1 V D
+reviving R IH0 V AY1 V IH0 NG
+revoir R IH0 V W AA1 R
+revoke R IH0 V OW1 K
+revoked R IH0 V OW1 K T
+revolt R IH0 V OW1 L T
+revolting R IY0 V OW1 L T IH0 NG
+revolution R EH2 V AH0 L UW1 SH AH0 N
+revolutionaries R EH2 V AH0 L UW1 SH AH0 N EH2 R IY0 Z
+revolutionary R EH2 V AH0 L UW1 SH AH0 N EH2 R IY0
+revolutionize R EH2 V AH0 L UW1 SH AH0 N AY2 Z
+revolutions R EH2 V AH0 L UW1 SH AH0 N Z
+revolve R IY0 V AA1 L V
+revolver R IH0 V AA1 L V ER0
+revolvers R IH0 V AA1 L V ER0 Z
+revolves R IY0 V AA1 L V Z
+revolving R IY0 V AA1 L V IH0 NG
+revs R EH1 V Z
+revue R IH0 V Y UW1
+revving R EH1 V IH0 NG
+reward R IH0 W AO1 R D
+rewarded R IH0 W AO1 R D IH0 D
+rewarding R IH0 W AO1 R D IH0 NG
+rewards R IH0 W AO1 R D Z
+rewind R IY1 W AY0 N D
+rewire R IY0 W AY1 ER0
+rewiring R IY0 W AY1 ER0 IH0 NG
+rewrite R IY0 R AY1 T
+rewrites R IY0 R AY1 T S
+rewriting R IY0 R AY1 T IH0 NG
+rewritten R IY0 R IH1 T AH0 N
+rewrote R IY0 R OW1 T
+rex R EH1 K S
+reykjavik R EH1 K Y AH0 V IH0 K
+rhapsody R AE1 P S AH0 D IY0
+rhetoric R EH1 T ER0 IH0 K
+rhetorical R IH0 T AO1 R IH0 K AH0 L
+rheumatism R UW1 M AH0 T IH2 Z AH0 M
+rhine R AY1 N
+rhinestone R AY1 N S T OW2 N
+rhinestones R AY1 N S T OW2 N Z
+rhino R AY1 N OW2
+rhinoceros R AY0 N AA1 S ER0 AH0 S
+rhodes R OW1 D Z
+rhodesia R OW0 D IY1 ZH AH0
+rhubarb R UW1 B AA2 R B
+rhyme R AY1 M
+rhymed R AY1 M D
+rhymes R AY1 M Z
+rhyming R AY1 M IH0 NG
+rhythm R IH1 DH AH0 M
+rhythmic R IH1 DH M IH0 K
+rhythms R IH1 DH AH0 M Z
+rib R IH1 B
+ribbed R IH1 B D
+ribble R IH1 B AH0 L
+ribbon R IH1 B AH0 N
+ribbons R IH1 B AH0 N Z
+ribs R IH1 B Z
+rice R AY1 S
+rich R IH1 CH
+richard R IH1 CH ER0 D
+richardson R IH1 CH ER0 D S AH0 N
+richer R IH1 CH ER0
+riches R IH1 CH AH0 Z
+richest R IH1 CH AH0 S T
+richly R IH1 CH L IY0
+richmond R IH1 CH M AH0 N D
+richness R IH1 CH N AH0 S
+richter R IH1 K T ER0
+rick R IH1 K
+rickets R IH1 K IH0 T S
+rickety R IH1 K AH0 T IY0
+rickey R IH1 K IY0
+ricochet R IH1 K AH0 SH EY2
+rid R IH1 D
+riddance R IH1 D AH0 N S
+ridden R IH1 D AH0 N
+ridding R IH1 D IH0 NG
+riddle R IH1 D AH0 L
+riddled R IH1 D AH0 L D
+riddles R IH1 D AH0 L Z
+ride R AY1 D
+rider R AY1 D ER0
+riders R AY1 D ER0 Z
+rides R AY1 D Z
+ridge R IH1 JH
+ridges R IH1 JH AH0 Z
+ridgeway R IH1 JH W EY2
+ridicule R IH1 D AH0 K Y UW2 L
+ridiculed R IH1 D AH0 K Y UW2 L D
+ridiculous R IH0 D IH1 K Y AH0 L AH0 S
+ridiculously R AH0 D IH1 K Y AH0 L AH0 S L IY0
+riding R AY1 D IH0 NG
+ridley R IH1 D L IY0
+rife R AY1 F
+riff R IH1 F
+riffraff R IH1 F R AE2 F
+rifle R AY1 F AH0 L
+rifleman R AY1 F AH0 L M AH0 N
+rifles R AY1 F AH0 L Z
+rifling R AY1 F L IH0 NG
+rift R IH1 F T
+rig R IH1 G
+riga R IY1 G AH0
+rigatoni R IH0 G AH0 T OW1 N IY0
+rigged R IH1 G D
+rigging R IH1 G IH0 NG
+right R AY1 T
+righteous R AY1 CH AH0 S
+righteousness R AY1 CH AH0 S N AH0 S
+rightful R AY1 T F AH0 L
+rightfully R AY1 T F AH0 L IY0
+rightly R AY1 T L IY0
+righto R AY1 T OW0
+rights R AY1 T S
+righty R AY1 T IY0
+rigid R IH1 JH AH0 D
+rigor R IH1 G ER0
+rigorous R IH1 G ER0 AH0 S
+rigs R IH1 G Z
+rile R AY1 L
+riled R AY1 L D
+riley R AY1 L IY0
+rim R IH1 M
+rims R IH1 M Z
+rind R AY1 N D
+rinds R AY1 N D Z
+ring R IH1 NG
+ringer R IH1 NG ER0
+ringers R IH1 NG ER0 Z
+ringing R IH1 NG IH0 NG
+ringleader R IH1 NG L IY2 D ER0
+ringmaster R IH1 NG M AE2 S T ER0
+rings R IH1 NG Z
+ringside R IH1 NG S AY2 D
+rink R IH1 NG K
+rinse R IH1 N S
+rio R IY1 OW0
+riot R AY1 AH0 T
+rioters R AY1 AH0 T ER0 Z
+rioting R AY1 AH0 T IH0 NG
+riots R AY1 AH0 T S
+rip R IH1 P
+ripe R AY1 P
+ripen R AY1 P AH0 N
+ripped R IH1 P T
+ripper R IH1 P ER0
+ripping R IH1 P IH0 NG
+ripple R IH1 P AH0 L
+ripples R IH1 P AH0 L Z
+rippling R IH1 P AH0 L IH0 NG
+rips R IH1 P S
+rise R AY1 Z
+risen R IH1 Z AH0 N
+riser R AY1 Z ER0
+rises R AY1 Z AH0 Z
+rising R AY1 Z IH0 NG
+risk R IH1 S K
+risked R IH1 S K T
+risking R IH1 S K IH0 NG
+risks R IH1 S K S
+risky R IH1 S K IY0
+risotto R IY2 S AO1 T OW2
+rita R IY1 T AH0
+rite R AY1 T
+rites R AY1 T S
+ritter R IH1 T ER0
+ritual R IH1 CH UW0 AH0 L
+ritualistic R IH2 CH UW0 AH0 L IH1 S T IH0 K
+rituals R IH1 CH UW0 AH0 L Z
+ritz R IH1 T S
+ritzy R IH1 T S IY0
+rival R AY1 V AH0 L
+rivalry R AY1 V AH0 L R IY0
+rivals R AY1 V AH0 L Z
+river R IH1 V ER0
+riverbank R IH1 V ER0 B AE2 NG K
+riverbed R IH1 V ER0 B EH2 D
+riverboat R IH1 V ER0 B OW2 T
+rivers R IH1 V ER0 Z
+riverside R IH1 V ER0 S AY2 D
+rivet R IH1 V AH0 T
+riveted R IH1 V AH0 T IH0 D
+riveting R IH1 V AH0 T IH0 NG
+rivets R IH1 V AH0 T S
+riviera R IH2 V IY0 EH1 R AH0
+ro R OW1
+roach R OW1 CH
+roaches R OW1 CH IH0 Z
+road R OW1 D
+roadblock R OW1 D B L AA2 K
+roadblocks R OW1 D B L AA2 K S
+roadhouse R OW1 D HH AW2 S
+roadie R OW1 D IY0
+roadrunner R OW1 D R AH2 N ER0
+roads R OW1 D Z
+roadside R OW1 D S AY2 D
+roadster R OW1 D S T ER0
+roam R OW1 M
+roamed R OW1 M D
+roaming R OW1 M IH0 NG
+roams R OW1 M Z
+roar R AO1 R
+roared R AO1 R D
+roaring R AO1 R IH0 NG
+roars R AO1 R Z
+roast R OW1 S T
+roasted R OW1 S T AH0 D
+roasting R OW1 S T IH0 NG
+rob R AA1 B
+robbed R AA1 B D
+robber R AA1 B ER0
+robberies R AA1 B ER0 IY0 Z
+robbers R AA1 B ER0 Z
+robbery R AA1 B ER0 IY0
+robbin R AA1 B IH0 N
+robbing R AA1 B IH0 NG
+robbins R AA1 B IH0 N Z
+robe R OW1 B
+robert R AA1 B ER0 T
+roberts R AA1 B ER0 T S
+robes R OW1 B Z
+robin R AA1 B AH0 N
+robins R AA1 B AH0 N Z
+robinson R AA1 B AH0 N S AH0 N
+robot R OW1 B AA2 T
+robotic R OW2 B AA1 T IH0 K
+robotics R OW2 B AA1 T IH0 K S
+robots R OW1 B AA2 T S
+robs R AA1 B Z
+robust R OW0 B AH1 S T
+roc R AA1 K
+roche R OW1 CH
+rochelle R OW0 SH EH1 L
+rochester R AA1 CH EH2 S T ER0
+rock R AA1 K
+rocked R AA1 K T
+rocker R AA1 K ER0
+rockers R AA1 K ER0 Z
+rocket R AA1 K AH0 T
+rockets R AA1 K AH0 T S
+rockies R AA1 K IY0 Z
+rocking R AA1 K IH0 NG
+rocks R AA1 K S
+rocky R AA1 K IY0
+rod R AA1 D
+rode R OW1 D
+rodent R OW1 D AH0 N T
+rodents R OW1 D AH0 N T S
+rodeo R OW1 D IY0 OW2
+rodman R AA1 D M AH0 N
+rodney R AA1 D N IY0
+rodriguez R AA0 D R IY1 G EH0 Z
+rods R AA1 D Z
+roe R OW1
+roebuck R OW1 B AH2 K
+roemer R OW1 M ER0
+rog R AA1 G
+roger R AA1 JH ER0
+rogers R AA1 JH ER0 Z
+rogue R OW1 G
+rogues R OW1 G Z
+rohan R OW1 AH0 N
+roland R OW1 L AH0 N D
+role R OW1 L
+roles R OW1 L Z
+roll R OW1 L
+rolled R OW1 L D
+roller R OW1 L ER0
+rollers R OW1 L ER0 Z
+rolling R OW1 L IH0 NG
+rolls R OW1 L Z
+rom R AA1 M
+roman R OW1 M AH0 N
+romance R OW0 M AE1 N S
+romances R OW0 M AE1 N S IH0 Z
+romancing R OW0 M AE1 N S IH0 NG
+romanian R OW0 M EY1 N IY0 AH0 N
+romano R OW0 M AA1 N OW2
+romans R OW1 M AH0 N Z
+romantic R OW0 M AE1 N T IH0 K
+romantically R OW0 M AE1 N T IH0 K AH0 L IY0
+rome R OW1 M
+romeo R OW1 M IY0 OW2
+romero R OW0 M EH1 R OW0
+romp R AA1 M P
+romping R AA1 M P IH0 NG
+romulus R AA1 M Y AH0 L AH0 S
+ronald R AA1 N AH0 L D
+roof R UW1 F
+roofer R UW1 F ER0
+roofs R UW1 F S
+rooftop R UW1 F T AA2 P
+rooftops R UW1 F T AA2 P S
+rook R UH1 K
+rookie R UH1 K IY0
+rookies R UH1 K IY0 Z
+rooks R UH1 K S
+room R UW1 M
+roomful R UW1 M F UH2 L
+rooming R UW1 M IH0 NG
+roommate R UW1 M EY2 T
+roommates R UW1 M EY2 T S
+rooms R UW1 M Z
+roomy R UW1 M IY0
+roosevelt R OW1 Z AH0 V EH2 L T
+roost R UW1 S T
+rooster R UW1 S T ER0
+roosters R UW1 S T ER0 Z
+root R UW1 T
+rooted R UW1 T AH0 D
+rooting R UW1 T IH0 NG
+roots R UW1 T S
+rope R OW1 P
+roped R OW1 P T
+roper R OW1 P ER0
+ropes R OW1 P S
+roping R OW1 P IH0 NG
+roque R OW1 K
+rorschach R AO1 R SH AA2
+rory R AO1 R IY0
+rosa R OW1 Z AH0
+rosalind R AA1 Z AH0 L IH0 N D
+rosario R OW0 Z AA1 R IY0 OW0
+rosary R OW1 Z ER0 IY0
+roscoe R AA1 S K OW0
+rose R OW1 Z
+rosebud R OW1 Z B AH0 D
+rosemary R OW1 Z M EH2 R IY0
+roses R OW1 Z IH0 Z
+rosewood R OW1 Z W UH2 D
+ross R AA1 S
+roster R AA1 S T ER0
+rosy R OW1 Z IY0
+rot R AA1 T
+rotary R OW1 T ER0 IY0
+rotate R OW1 T EY2 T
+rotated R OW1 T EY2 T IH0 D
+rotating R OW1 T EY2 T IH0 NG
+rotation R OW0 T EY1 SH AH0 N
+rotor R OW1 T ER0
+rots R AA1 T S
+rotted R AA1 T IH0 D
+rotten R AA1 T AH0 N
+rotterdam R AA1 T ER0 D AE2 M
+rotting R AA1 T IH0 NG
+rottweiler R AA1 T W AY0 L ER0
+rotunda R OW0 T AH1 N D AH0
+rouge R UW1 ZH
+rough R AH1 F
+roughed R AH1 F T
+rougher R AH1 F ER0
+roughest R AH1 F AH0 S T
+roughing R AH1 F IH0 NG
+roughly R AH1 F L IY0
+roughneck R AH1 F N EH2 K
+roughnecks R AH1 F N EH2 K S
+roughshod R AH1 F SH AA1 D
+roulette R UW0 L EH1 T
+round R AW1 N D
+roundabout R AW1 N D AH0 B AW2 T
+rounded R AW1 N D AH0 D
+rounder R AW1 N D ER0
+rounding R AW1 N D IH0 NG
+rounds R AW1 N D Z
+roundtree R AW1 N D T R IY2
+roundup R AW1 N D AH2 P
+rouse R AW1 S
+rousing R AW1 Z IH0 NG
+rousseau R UW0 S OW1
+rout R AW1 T
+route R UW1 T
+routed R UW1 T IH0 D
+router R UW1 T ER0
+routes R UW1 T S
+routine R UW0 T IY1 N
+routinely R UW0 T IY1 N L IY0
+routines R UW0 T IY1 N Z
+routing R AW1 T IH0 NG
+rove R OW1 V
+rover R OW1 V ER0
+roving R OW1 V IH0 NG
+row R OW1
+rowan R OW1 AH0 N
+rowboat R OW1 B OW2 T
+rowdy R AW1 D IY0
+rowed R OW1 D
+rowing R OW1 IH0 NG
+rows R OW1 Z
+roxy R AA1 K S IY0
+royal R OY1 AH0 L
+royale R OY0 AE1 L
+royally R OY1 AH0 L IY0
+royals R OY1 AH0 L Z
+royalties R OY1 AH0 L T IY0 Z
+royalty R OY1 AH0 L T IY0
+rpm AA1 R P IY1 EH1 M
+rsvp AA1 R EH1 S V IY1 P IY1
+rub R AH1 B
+rubbed R AH1 B D
+rubber R AH1 B ER0
+rubbers R AH1 B ER0 Z
+rubbing R AH1 B IH0 NG
+rubbish R AH1 B IH0 SH
+rubble R AH1 B AH0 L
+rube R UW1 B
+rubies R UW1 B IY0 Z
+rubin R UW1 B IH0 N
+rubles R UW1 B AH0 L Z
+rubs R AH1 B Z
+ruby R UW1 B IY0
+ruckus R AH1 K AH0 S
+rudd R AH1 D
+rudder R AH1 D ER0
+ruddy R AH1 D IY0
+rude R UW1 D
+rudely R UW1 D L IY0
+rudeness R UW1 D N AH0 S
+rudimentary R UW2 D AH0 M EH1 N T ER0 IY0
+rue R UW1
+ruff R AH1 F
+ruffin R AH1 F IH0 N
+ruffle R AH1 F AH0 L
+ruffled R AH1 F AH0 L D
+ruffles R AH1 F AH0 L Z
+rufus R UW1 F AH0 S
+rug R AH1 G
+rugby R AH1 G B IY0
+rugged R AH1 G AH0 D
+rugs R AH1 G Z
+ruin R UW1 AH0 N
+ruined R UW1 AH0 N D
+ruining R UW1 IH0 N IH0 NG
+ruins R UW1 AH0 N Z
+rule R UW1 L
+ruled R UW1 L D
+ruler R UW1 L ER0
+rulers R UW1 L ER0 Z
+rules R UW1 L Z
+ruling R UW1 L IH0 NG
+rum R AH1 M
+rumble R AH1 M B AH0 L
+rumbles R AH1 M B AH0 L Z
+rumbling R AH1 M B AH0 L IH0 NG
+rummage R AH1 M IH0 JH
+rummaging R AH1 M IH0 JH IH0 NG
+rummy R AH1 M IY0
+rumor R UW1 M ER0
+rumored R UW1 M ER0 D
+rumors R UW1 M ER0 Z
+rumour R UW1 M ER0
+rumours R UW1 M ER0 Z
+rump R AH1 M P
+run R AH1 N
+runaround R AH1 N AH0 R AW2 N D
+runaway R AH1 N AH0 W EY2
+runaways R AH1 N AH0 W EY2 Z
+rundown R AH1 N D AW2 N
+rune R UW1 N
+runes R UW1 N Z
+rung R AH1 NG
+runner R AH1 N ER0
+runners R AH1 N ER0 Z
+running R AH1 N IH0 NG
+runny R AH1 N IY0
+runs R AH1 N Z
+runway R AH1 N W EY2
+runways R AH1 N W EY2 Z
+rupture R AH1 P CH ER0
+ruptured R AH1 P CH ER0 D
+rural R UH1 R AH0 L
+ruse R UW1 Z
+rush R AH1 SH
+rushed R AH1 SH T
+rushes R AH1 SH AH0 Z
+rushing R AH1 SH IH0 NG
+rusk R AH1 S K
+ruskin R AH1 S K IH0 N
+russ R AH1 S
+russel R AH1 S AH0 L
+russell R AH1 S AH0 L
+russia R AH1 SH AH0
+russian R AH1 SH AH0 N
+russians R AH1 SH AH0 N Z
+rust R AH1 S T
+rusted R AH1 S T IH0 D
+rustic R AH1 S T IH0 K
+rusting R AH1 S T IH0 NG
+rustle R AH1 S AH0 L
+rustler R AH1 S L ER0
+rustlers R AH1 S AH0 L ER0 Z
+rustling R AH1 S L IH0 NG
+rusty R AH1 S T IY0
+rut R AH1 T
+rutabaga R UW1 T AH0 B EY0 G AH0
+ruth R UW1 TH
+rutherford R AH1 TH ER0 F ER0 D
+ruthless R UW1 TH L AH0 S
+ruthlessly R UW1 TH L AH0 S L IY0
+ryder R AY1 D ER0
+rye R AY1
+s EH1 S
+sa S AA1
+sabbath S AE1 B AH0 TH
+sabbatical S AH0 B AE1 T IH0 K AH0 L
+saber S EY1 B ER0
+sabina S AH0 B IY1 N AH0
+sable S EY1 B AH0 L
+sabotage S AE1 B AH0 T AA2 ZH
+sabotaged S AE1 B AH0 T AA2 ZH D
+sabotaging S AE1 B AH0 T AA2 ZH IH0 NG
+saboteur S AE2 B AH0 T ER1
+saboteurs S AE2 B AH0 T ER1 Z
+sabra S AA1 B R AH0
+sac S AE1 K
+sack S AE1 K
+sacked S AE1 K T
+sacks S AE1 K S
+sacrament S AE1 K R AH0 M AH0 N T
+sacramento S AE2 K R AH0 M EH1 N T OW0
+sacred S EY1 K R AH0 D
+sacrifice S AE1 K R AH0 F AY2 S
+sacrificed S AE1 K R AH0 F AY2 S T
+sacrifices S AE1 K R AH0 F AY2 S IH0 Z
+sacrificial S AE2 K R AH0 F IH1 SH AH0 L
+sacrificing S AE1 K R AH0 F AY2 S IH0 NG
+sacrilege S AE1 K R AH0 L AH0 JH
+sacrilegious S AE2 K R AH0 L EH1 JH IH0 S
+sad S AE1 D
+saddened S AE1 D AH0 N D
+saddens S AE1 D AH0 N Z
+sadder S AE1 D ER0
+saddest S AE1 D AH0 S T
+saddle S AE1 D AH0 L
+saddlebag S AE1 D AH0 L B AE2 G
+saddlebags S AE1 D AH0 L B AE2 G Z
+saddled S AE1 D AH0 L D
+saddles S AE1 D AH0 L Z
+sadist S EY1 D AH0 S T
+sadistic S AH0 D IH1 S T IH0 K
+sadly S AE1 D L IY0
+sadness S AE1 D N AH0 S
+safari S AH0 F AA1 R IY0
+safe S EY1 F
+safeguard S EY1 F G AA2 R D
+safeguards S EY1 F G AA2 R D Z
+safekeeping S EY1 F K IY1 P IH0 NG
+safely S EY1 F L IY0
+safer S EY1 F ER0
+safes S EY1 F S
+safest S EY1 F AH0 S T
+safety S EY1 F T IY0
+safeway S EY1 F W EY2
+saffron S AE1 F R AH0 N
+sag S AE1 G
+saga S AA1 G AH0
+sage S EY1 JH
+sagebrush S EY1 JH B R AH2 SH
+sagging S AE1 G IH0 NG
+sahara S AH0 HH EH1 R AH0
+sai S AY1
+said S EH1 D
+saigon S AY2 G AA1 N
+sail S EY1 L
+sailboat S EY1 L B OW2 T
+sailed S EY1 L D
+sailing S EY1 L IH0 NG
+sailor S EY1 L ER0
+sailors S EY1 L ER0 Z
+sails S EY1 L Z
+saint S EY1 N T
+sainted S EY1 N T IH0 D
+saintly S EY1 N T L IY0
+saints S EY1 N T S
+sake S EY1 K
+sakes S EY1 K S
+saki S AA1 K IY0
+sal S AE1 L
+salaam S AH0 L AA1 M
+salad S AE1 L AH0 D
+saladin S AE1 L AH0 D IH0 N
+salads S AE1 L AH0 D Z
+salami S AH0 L AA1 M IY0
+salaries S AE1 L ER0 IY0 Z
+salary S AE1 L ER0 IY0
+sale S EY1 L
+salem S EY1 L AH0 M
+sales S EY1 L Z
+salesman S EY1 L Z M AH0 N
+salesmen S EY1 L Z M IH0 N
+salesperson S EY1 L Z P ER2 S AH0 N
+saleswoman S EY1 L Z W UH2 M AH0 N
+salient S EY1 L IY0 AH0 N T
+salina S AH0 L IY1 N AH0
+salinas S AH0 L IY1 N AH0 S
+saline S AH0 L IY1 N
+salisbury S AE1 L Z B ER0 IY0
+saliva S AH0 L AY1 V AH0
+salivating S AE1 L AH0 V EY2 T IH0 NG
+salle S EY1 L
+sally S AE1 L IY0
+salmon S AE1 M AH0 N
+salmonella S AE2 L M AH0 N EH1 L AH0
+salome S AH0 L OW1 M IY0
+salon S AH0 L AA1 N
+salons S AH0 L AA1 N Z
+saloon S AH0 L UW1 N
+saloons S AH0 L UW1 N Z
+salsa S AO1 L S AH0
+salt S AO1 L T
+salted S AO1 L T IH0 D
+salts S AO1 L T S
+saltwater S AO2 L T W AA1 T ER0
+salty S AO1 L T IY0
+salute S AH0 L UW1 T
+saluted S AH0 L UW1 T IH0 D
+salutes S AH0 L UW1 T S
+saluting S AH0 L UW1 T IH0 NG
+salvador S AE1 L V AH0 D AO2 R
+salvage S AE1 L V AH0 JH
+salvageable S AE1 L V IH0 JH AH0 B AH0 L
+salvaged S AE1 L V IH0 JH D
+salvaging S AE1 L V IH0 JH IH0 NG
+salvation S AE0 L V EY1 SH AH0 N
+salve S AA1 V
+salvo S AE1 L V OW0
+sam S AE1 M
+samaritan S AH0 M EH1 R IH0 T AH0 N
+samba S AA1 M B AH0
+sambo S AE1 M B OW0
+same S EY1 M
+sammy S AE1 M IY0
+sample S AE1 M P AH0 L
+sampled S AE1 M P AH0 L D
+sampler S AE1 M P L ER0
+samples S AE1 M P AH0 L Z
+sampling S AE1 M P L IH0 NG
+samson S AE1 M S AH0 N
+samuel S AE1 M Y UW0 L
+samurai S AE1 M UH0 R AY2
+san S AE1 N
+sancho S AA1 N K OW0
+sanctimonious S AE2 NG K T AH0 M OW1 N IY0 AH0 S
+sanction S AE1 NG K SH AH0 N
+sanctioned S AE1 NG K SH AH0 N D
+sanctions S AE1 NG K SH AH0 N Z
+sanctity S AE1 NG K T IH0 T IY0
+sanctuary S AE1 NG K CH UW0 EH2 R IY0
+sanctum S AE1 NG K T AH0 M
+sand S AE1 N D
+sandals S AE1 N D AH0 L Z
+sandbag S AE1 N D B AE2 G
+sandbox S AE1 N D B AA2 K S
+sanded S AE1 N D IH0 D
+sander S AE1 N D ER0
+sanders S AE1 N D ER0 Z
+sandman S AE1 N D M AE2 N
+sandpaper S AE1 N D P EY2 P ER0
+sandra S AE1 N D R AH0
+sandrock S AE1 N D R AA2 K
+sands S AE1 N D Z
+sandstone S AE1 N D S T OW2 N
+sandstorm S AE1 N D S T AO2 R M
+sandwich S AE1 N D W IH0 CH
+sandwiches S AE1 N D W IH0 CH IH0 Z
+sandy S AE1 N D IY0
+sane S EY1 N
+sang S AE1 NG
+sanitary S AE1 N IH0 T EH2 R IY0
+sanitation S AE2 N AH0 T EY1 SH AH0 N
+sanity S AE1 N AH0 T IY0
+sank S AE1 NG K
+sanka S AE1 NG K AH0
+sans S AE1 N Z
+sanskrit S AE1 N S K R IH0 T
+santa S AE1 N T AH0
+santiago S AE2 N T IY0 AA1 G OW0
+santos S AE1 N T OW0 S
+santy S AE1 N T IY0
+sao S AW1
+sap S AE1 P
+sapiens S EY1 P IY0 AH0 N Z
+sapphire S AE1 F AY0 ER0
+sapphires S AE1 F AY0 ER0 Z
+saps S AE1 P S
+sarah S EH1 R AH0
+saran S ER0 AE1 N
+saratoga S EH2 R AH0 T OW1 G AH0
+sarcasm S AA1 R K AE2 Z AH0 M
+sarcastic S AA0 R K AE1 S T IH0 K
+sarcophagus S AA0 R K AA1 F AH0 G AH0 S
+sardine S AA0 R D IY1 N
+sardines S AA0 R D IY1 N Z
+sardinia S AA0 R D IY1 N IY0 AH0
+sarge S AA1 R JH
+sari S AA1 R IY0
+sark S AA1 R K
+sartain S AA0 R T EY1 N
+sash S AE1 SH
+sass S AE1 S
+sassafras S AE1 S AH0 F R AE2 S
+sassy S AE1 S IY0
+sat S AE1 T
+satan S EY1 T AH0 N
+satanic S AH0 T AE1 N IH0 K
+satanism S EY1 T AH0 N IH2 Z AH0 M
+satellite S AE1 T AH0 L AY2 T
+satellites S AE1 T AH0 L AY2 T S
+satin S AE1 T AH0 N
+satire S AE1 T AY2 ER0
+satisfaction S AE2 T AH0 S F AE1 K SH AH0 N
+satisfactorily S AE2 T IH0 S F AE1 K T R AH0 L IY0
+satisfactory S AE2 T AH0 S F AE1 K T R IY0
+satisfied S AE1 T AH0 S F AY2 D
+satisfies S AE1 T IH0 S F AY2 Z
+satisfy S AE1 T AH0 S F AY2
+satisfying S AE1 T IH0 S F AY2 IH0 NG
+saturated S AE1 CH ER0 EY2 T IH0 D
+saturation S AE2 CH ER0 EY1 SH AH0 N
+saturday S AE1 T ER0 D IY0
+saturdays S AE1 T ER0 D IY0 Z
+saturn S AE1 T ER0 N
+sauce S AO1 S
+saucer S AO1 S ER0
+saucers S AO1 S ER0 Z
+sauces S AO1 S AH0 Z
+saucy S AO1 S IY0
+saudi S AO1 D IY0
+sauerkraut S AW1 ER0 K R AW2 T
+saul S AO1 L
+sauna S AO1 N AH0
+saunders S AO1 N D ER0 Z
+sausage S AO1 S AH0 JH
+sausages S AO1 S IH0 JH IH0 Z
+savage S AE1 V AH0 JH
+savagely S AE1 V IH0 JH L IY0
+savagery S AE1 V IH0 JH EH2 R IY0
+savages S AE1 V AH0 JH AH0 Z
+savannah S AH0 V AE1 N AH0
+savant S AH0 V AA1 N T
+save S EY1 V
+saved S EY1 V D
+saver S EY1 V ER0
+saves S EY1 V Z
+savin S AE1 V IH0 N
+saving S EY1 V IH0 NG
+savings S EY1 V IH0 NG Z
+savior S EY1 V Y ER0
+savor S EY1 V ER0
+savoy S AH0 V OY1
+savvy S AE1 V IY0
+saw S AO1
+sawdust S AO1 D AH2 S T
+sawed S AO1 D
+sawing S AO1 IH0 NG
+sawmill S AO1 M IH2 L
+saws S AO1 Z
+sawyer S AO1 Y ER0
+sax S AE1 K S
+saxon S AE1 K S AH0 N
+saxons S AE1 K S AH0 N Z
+saxophone S AE1 K S AH0 F OW2 N
+say S EY1
+sayer S EY1 ER0
+sayers S EY1 ER0 Z
+saying S EY1 IH0 NG
+sayings S EY1 IH0 NG Z
+says S EH1 Z
+scab S K AE1 B
+scabs S K AE1 B Z
+scaffold S K AE1 F AH0 L D
+scala S K AA1 L AH0
+scald S K AO1 L D
+scalded S K AO1 L D IH0 D
+scalding S K AO1 L D IH0 NG
+scale S K EY1 L
+scaled S K EY1 L D
+scales S K EY1 L Z
+scallops S K AE1 L AH0 P S
+scalp S K AE1 L P
+scalped S K AE1 L P T
+scalpel S K AE1 L P AH0 L
+scalpels S K AE1 L P AH0 L Z
+scalper S K AE1 L P ER0
+scalping S K AE1 L P IH0 NG
+scalps S K AE1 L P S
+scam S K AE1 M
+scammed S K AE1 M D
+scamper S K AE1 M P ER0
+scams S K AE1 M Z
+scan S K AE1 N
+scandal S K AE1 N D AH0 L
+scandalous S K AE1 N D AH0 L AH0 S
+scandals S K AE1 N D AH0 L Z
+scandinavia S K AE2 N D IH0 N EY1 V IY0 AH0
+scandinavian S K AE2 N D IH0 N EY1 V IY0 AH0 N
+scanned S K AE1 N D
+scanner S K AE1 N ER0
+scanners S K AE1 N ER0 Z
+scanning S K AE1 N IH0 NG
+scans S K AE1 N Z
+scapegoat S K EY1 P G OW2 T
+scapula S K AE1 P Y AH0 L AH0
+scar S K AA1 R
+scarce S K EH1 R S
+scarcely S K EH1 R S L IY0
+scare S K EH1 R
+scarecrow S K AE1 R K R OW2
+scared S K EH1 R D
+scares S K EH1 R Z
+scarf S K AA1 R F
+scarface S K AA1 R F EY2 S
+scarier S K EH1 R IY0 ER0
+scariest S K EH1 R IY0 AH0 S T
+scaring S K EH1 R IH0 NG
+scarlet S K AA1 R L AH0 T
+scarred S K AA1 R D
+scarring S K AA1 R IH0 NG
+scars S K AA1 R Z
+scarves S K AA1 R V Z
+scary S K EH1 R IY0
+scat S K AE1 T
+scatter S K AE1 T ER0
+scattered S K AE1 T ER0 D
+scattering S K AE1 T ER0 IH0 NG
+scavenger S K AE1 V AH0 N JH ER0
+scavengers S K AE1 V AH0 N JH ER0 Z
+scenario S IH0 N EH1 R IY0 OW0
+scenarios S IH0 N EH1 R IY0 OW0 Z
+scene S IY1 N
+scenery S IY1 N ER0 IY0
+scenes S IY1 N Z
+scenic S IY1 N IH0 K
+scent S EH1 N T
+scented S EH1 N T IH0 D
+scents S EH1 N T S
+sceptre S EH1 P T ER0
+schedule S K EH1 JH UH0 L
+scheduled S K EH1 JH UH0 L D
+schedules S K EH1 JH UH0 L Z
+scheduling S K EH1 JH UH0 L IH0 NG
+schematic S K IH0 M AE1 T IH0 K
+schematics S K IH0 M AE1 T IH0 K S
+scheme S K IY1 M
+schemes S K IY1 M Z
+scheming S K IY1 M IH0 NG
+schiller SH IH1 L ER0
+schilling SH IH1 L IH0 NG
+schist SH IH1 S T
+schizophrenia S K IH2 T S AH0 F R IY1 N IY0 AH0
+schizophrenic SH IH2 Z AH0 F R EH1 N IH0 K
+schmaltz SH M AA1 L T S
+schmooze SH M UW1 Z
+schmuck SH M AH1 K
+schnapps SH N AE1 P S
+schneider SH N AY1 D ER0
+schnell SH N EH1 L
+schnook SH N UH1 K
+scholar S K AA1 L ER0
+scholarly S K AA1 L ER0 L IY0
+scholars S K AA1 L ER0 Z
+scholarship S K AA1 L ER0 SH IH2 P
+scholarships S K AA1 L ER0 SH IH2 P S
+scholastic S K AH0 L AE1 S T IH0 K
+school S K UW1 L
+schoolbooks S K UW1 L B UH2 K S
+schoolboy S K UW1 L B OY2
+schoolchildren S K UW1 L CH IH2 L D R AH0 N
+schooled S K UW1 L D
+schoolgirl S K UW1 L G ER2 L
+schoolgirls S K UW1 L G ER2 L Z
+schoolhouse S K UW1 L HH AW2 S
+schooling S K UW1 L IH0 NG
+schoolmaster S K UW1 L M AE2 S T ER0
+schoolroom S K UW1 L R UW2 M
+schools S K UW1 L Z
+schoolteacher S K UW1 L T IY2 CH ER0
+schoolteachers S K UW1 L T IY2 CH ER0 Z
+schoolwork S K UW1 L W ER2 K
+schoolyard S K UW1 L Y AA2 R D
+schooner S K UW1 N ER0
+schubert SH UW1 B ER0 T
+schultz SH UH1 L T S
+science S AY1 AH0 N S
+sciences S AY1 AH0 N S AH0 Z
+scientific S AY2 AH0 N T IH1 F IH0 K
+scientifically S AY2 AH0 N T IH1 F IH0 K AH0 L IY0
+scientist S AY1 AH0 N T IH0 S T
+scientists S AY1 AH0 N T IH0 S T S
+scientology S AY2 AH0 N T AA1 L AH0 JH IY0
+scissor S IH1 Z ER0
+scissors S IH1 Z ER0 Z
+scoff S K AO1 F
+scoffs S K AO1 F S
+scold S K OW1 L D
+scolded S K OW1 L D IH0 D
+scolding S K OW1 L D IH0 NG
+scone S K OW1 N
+scones S K OW1 N Z
+scoop S K UW1 P
+scooped S K UW1 P T
+scooping S K UW1 P IH0 NG
+scoops S K UW1 P S
+scoot S K UW1 T
+scooter S K UW1 T ER0
+scooters S K UW1 T ER0 Z
+scope S K OW1 P
+scopes S K OW1 P S
+scoping S K OW1 P IH0 NG
+scorch S K AO1 R CH
+scorched S K AO1 R CH T
+scorcher S K AO1 R CH ER0
+scorching S K AO1 R CH IH0 NG
+score S K AO1 R
+scoreboard S K AO1 R B AO2 R D
+scored S K AO1 R D
+scorer S K AO1 R ER0
+scores S K AO1 R Z
+scoring S K AO1 R IH0 NG
+scorn S K AO1 R N
+scorned S K AO1 R N D
+scorpio S K AO1 R P IY0 OW2
+scorpion S K AO1 R P IY0 AH0 N
+scorpions S K AO1 R P IY0 AH0 N Z
+scot S K AA1 T
+scotch S K AA1 CH
+scotches S K AA1 CH IH0 Z
+scotia S K OW1 SH AH0
+scotland S K AA1 T L AH0 N D
+scots S K AA1 T S
+scotsman S K AA1 T S M AH0 N
+scott S K AA1 T
+scottie S K AA1 T IY0
+scottish S K AA1 T IH0 SH
+scoundrel S K AW1 N D R AH0 L
+scoundrels S K AW1 N D R AH0 L Z
+scour S K AW1 ER0
+scoured S K AW1 ER0 D
+scourge S K ER1 JH
+scouring S K AW1 ER0 IH0 NG
+scout S K AW1 T
+scouted S K AW1 T IH0 D
+scouting S K AW1 T IH0 NG
+scouts S K AW1 T S
+scow S K AW1
+scowl S K AW1 L
+scrabble S K R AE1 B AH0 L
+scram S K R AE1 M
+scramble S K R AE1 M B AH0 L
+scrambled S K R AE1 M B AH0 L D
+scrambling S K R AE1 M B AH0 L IH0 NG
+scrap S K R AE1 P
+scrapbook S K R AE1 P B UH2 K
+scrape S K R EY1 P
+scraped S K R EY1 P T
+scrapes S K R EY1 P S
+scraping S K R EY1 P IH0 NG
+scrapings S K R EY1 P IH0 NG Z
+scrapped S K R AE1 P T
+scrappy S K R AE1 P IY0
+scraps S K R AE1 P S
+scratch S K R AE1 CH
+scratched S K R AE1 CH T
+scratches S K R AE1 CH AH0 Z
+scratching S K R AE1 CH IH0 NG
+scratchy S K R AE1 CH IY0
+scrawny S K R AO1 N IY0
+scream S K R IY1 M
+screamed S K R IY1 M D
+screamer S K R IY1 M ER0
+screamers S K R IY1 M ER0 Z
+screaming S K R IY1 M IH0 NG
+screams S K R IY1 M Z
+screech S K R IY1 CH
+screeches S K R IY1 CH IH0 Z
+screeching S K R IY1 CH IH0 NG
+screen S K R IY1 N
+screened S K R IY1 N D
+screening S K R IY1 N IH0 NG
+screenings S K R IY1 N IH0 NG Z
+screenplay S K R IY1 N P L EY2
+screenplays S K R IY1 N P L EY2 Z
+screens S K R IY1 N Z
+screenwriter S K R IY1 N R AY2 T ER0
+screw S K R UW1
+screwball S K R UW1 B AO2 L
+screwdriver S K R UW1 D R AY2 V ER0
+screwed S K R UW1 D
+screwing S K R UW1 IH0 NG
+screws S K R UW1 Z
+screwy S K R UW1 IY0
+scribble S K R IH1 B AH0 L
+scribbled S K R IH1 B AH0 L D
+scribbling S K R IH1 B AH0 L IH0 NG
+scrimmage S K R IH1 M IH0 JH
+scrip S K R IH1 P
+script S K R IH1 P T
+scripted S K R IH1 P T IH0 D
+scripts S K R IH1 P T S
+scripture S K R IH1 P CH ER0
+scriptures S K R IH1 P CH ER0 Z
+scroll S K R OW1 L
+scrolls S K R OW1 L Z
+scrooge S K R UW1 JH
+scrounge S K R AW1 N JH
+scrounging S K R AW1 N JH IH0 NG
+scrub S K R AH1 B
+scrubbed S K R AH1 B D
+scrubbing S K R AH1 B IH0 NG
+scruffy S K R AH1 F IY0
+scruples S K R UW1 P AH0 L Z
+scrutinized S K R UW1 T AH0 N AY2 Z D
+scrutiny S K R UW1 T AH0 N IY0
+scuba S K UW1 B AH0
+scud S K AH1 D
+scuff S K AH1 F
+scuffle S K AH1 F AH0 L
+sculpt S K AH1 L P T
+sculpted S K AH1 L P T IH0 D
+sculpting S K AH1 L P T IH0 NG
+sculptor S K AH1 L P T ER0
+sculpture S K AH1 L P CH ER0
+sculptures S K AH1 L P CH ER0 Z
+scum S K AH1 M
+scumbag S K AH1 M B AE2 G
+scumbags S K AH1 M B AE2 G Z
+scurry S K ER1 IY0
+scurrying S K ER1 IY0 IH0 NG
+scuttle S K AH1 T AH0 L
+scuttlebutt S K AH1 T AH0 L B AH2 T
+scuttling S K AH1 T AH0 L IH0 NG
+scylla S IH1 L AH0
+scythe S IH1 TH
+se S EY1
+sea S IY1
+seaboard S IY1 B AO2 R D
+seafood S IY1 F UW2 D
+seagull S IY1 G AH2 L
+seagulls S IY1 G AH2 L Z
+seal S IY1 L
+sealed S IY1 L D
+sealing S IY1 L IH0 NG
+seals S IY1 L Z
+seam S IY1 M
+seaman S IY1 M AH0 N
+seamen S IY1 M AH0 N
+seamless S IY1 M L AH0 S
+seams S IY1 M Z
+seamstress S IY1 M S T R IH0 S
+seance S EY1 AA0 N S
+search S ER1 CH
+searched S ER1 CH T
+searcher S ER1 CH ER0
+searches S ER1 CH IH0 Z
+searching S ER1 CH IH0 NG
+searchlight S ER1 CH L AY2 T
+searchlights S ER1 CH L AY2 T S
+searing S IH1 R IH0 NG
+sears S IH1 R Z
+seas S IY1 Z
+seashell S IY1 SH EH2 L
+seashells S IY1 SH EH2 L Z
+seashore S IY1 SH AO2 R
+seasick S IY1 S IH2 K
+seaside S IY1 S AY2 D
+season S IY1 Z AH0 N
+seasonal S IY1 Z AH0 N AH0 L
+seasoned S IY1 Z AH0 N D
+seasoning S IY1 Z AH0 N IH0 NG
+seasons S IY1 Z AH0 N Z
+seat S IY1 T
+seatbelt S IY1 T B EH2 L T
+seated S IY1 T IH0 D
+seating S IY1 T IH0 NG
+seats S IY1 T S
+seattle S IY0 AE1 T AH0 L
+seawater S IY1 W AA2 T ER0
+seaweed S IY1 W IY2 D
+sec S EH1 K
+secluded S IH0 K L UW1 D IH0 D
+seclusion S IH0 K L UW1 ZH AH0 N
+second S EH1 K AH0 N D
+secondary S EH1 K AH0 N D EH2 R IY0
+seconded S EH1 K AH0 N D IH0 D
+secondhand S EH1 K AH0 N D HH AE2 N D
+secondly S EH1 K AH0 N D L IY0
+seconds S EH1 K AH0 N D Z
+secrecy S IY1 K R AH0 S IY0
+secret S IY1 K R AH0 T
+secretarial S EH2 K R AH0 T EH1 R IY0 AH0 L
+secretaries S EH1 K R AH0 T EH2 R IY0 Z
+secretary S EH1 K R AH0 T EH2 R IY0
+secretion S AH0 K R IY1 SH AH0 N
+secretions S AH0 K R IY1 SH AH0 N Z
+secretive S IY1 K R AH0 T IH0 V
+secretly S IY1 K R IH0 T L IY0
+secrets S IY1 K R AH0 T S
+sect S EH1 K T
+section S EH1 K SH AH0 N
+sectional S EH1 K SH AH0 N AH0 L
+sections S EH1 K SH AH0 N Z
+sector S EH1 K T ER0
+sectors S EH1 K T ER0 Z
+secular S EH1 K Y AH0 L ER0
+secure S IH0 K Y UH1 R
+secured S IH0 K Y UH1 R D
+securely S IH0 K Y UH1 R L IY0
+securing S IH0 K Y UH1 R IH0 NG
+securities S IH0 K Y UH1 R AH0 T IY0 Z
+security S IH0 K Y UH1 R AH0 T IY0
+sedan S AH0 D AE1 N
+sedate S IH0 D EY1 T
+sedated S IH0 D EY1 T IH0 D
+sedation S AH0 D EY1 SH AH0 N
+sedative S EH1 D AH0 T IH0 V
+seder S EY1 D ER0
+sediment S EH1 D AH0 M AH0 N T
+sedition S IH0 D IH1 SH AH0 N
+seduce S IH0 D UW1 S
+seduced S IH0 D UW1 S T
+seducer S IH0 D UW1 S ER0
+seducing S IH0 D UW1 S IH0 NG
+seduction S IH0 D AH1 K SH AH0 N
+seductive S IH0 D AH1 K T IH0 V
+see S IY1
+seed S IY1 D
+seeds S IY1 D Z
+seedy S IY1 D IY0
+seeing S IY1 IH0 NG
+seek S IY1 K
+seeker S IY1 K ER0
+seekers S IY1 K ER0 Z
+seeking S IY1 K IH0 NG
+seeks S IY1 K S
+seem S IY1 M
+seemed S IY1 M D
+seeming S IY1 M IH0 NG
+seemingly S IY1 M IH0 NG L IY0
+seems S IY1 M Z
+seen S IY1 N
+seepage S IY1 P IH0 JH
+seeping S IY1 P IH0 NG
+seer S IY1 R
+sees S IY1 Z
+seesaw S IY1 S AO2
+seething S IY1 DH IH0 NG
+sefton S EH1 F T AH0 N
+segment S EH1 G M AH0 N T
+segments S EH1 G M AH0 N T S
+segregation S EH2 G R AH0 G EY1 SH AH0 N
+segue S EH1 G
+seidel S AY1 D AH0 L
+seine S EY1 N
+seismic S AY1 Z M IH0 K
+seize S IY1 Z
+seized S IY1 Z D
+seizing S IY1 Z IH0 NG
+seizure S IY1 ZH ER0
+seizures S IY1 ZH ER0 Z
+selden S EH1 L D AH0 N
+seldom S EH1 L D AH0 M
+select S AH0 L EH1 K T
+selected S AH0 L EH1 K T IH0 D
+selecting S AH0 L EH1 K T IH0 NG
+selection S AH0 L EH1 K SH AH0 N
+selections S AH0 L EH1 K SH AH0 N Z
+selective S AH0 L EH1 K T IH0 V
+selects S AH0 L EH1 K T S
+selenium S AH0 L IY1 N IY0 AH0 M
+self S EH1 L F
+selfish S EH1 L F IH0 SH
+selfishness S EH1 L F IH0 SH N AH0 S
+selfless S EH1 L F L AH0 S
+selflessness S EH1 L F L AH0 S N IH0 S
+sell S EH1 L
+seller S EH1 L ER0
+sellers S EH1 L ER0 Z
+selling S EH1 L IH0 NG
+sellout S EH1 L AW2 T
+sells S EH1 L Z
+seltzer S EH1 L T S ER0
+selves S EH1 L V Z
+semantics S IH0 M AE1 N T IH0 K S
+semblance S EH1 M B L AH0 N S
+semen S IY1 M AH0 N
+semester S AH0 M EH1 S T ER0
+semesters S AH0 M EH1 S T ER0 Z
+semi S EH1 M IY0
+semiautomatic S EH2 M IY0 AO2 T AH0 M AE1 T IH0 K
+semifinal S EH2 M IY0 F AY1 N AH0 L
+semifinals S EH2 M IY0 F AY1 N AH0 L Z
+seminal S EH1 M AH0 N AH0 L
+seminar S EH1 M AH0 N AA2 R
+seminars S EH1 M AH0 N AA2 R Z
+seminary S EH1 M AH0 N EH2 R IY0
+semple S EH1 M P AH0 L
+sen S EH1 N
+senate S EH1 N AH0 T
+senator S EH1 N AH0 T ER0
+senators S EH1 N AH0 T ER0 Z
+send S EH1 N D
+sender S EH1 N D ER0
+sending S EH1 N D IH0 NG
+sends S EH1 N D Z
+seneca S EH1 N AH0 K AH0
+senile S IY1 N AY2 L
+senility S AH0 N IH1 L AH0 T IY0
+senior S IY1 N Y ER0
+seniority S IY0 N Y AO1 R IH0 T IY0
+seniors S IY1 N Y ER0 Z
+sennett S EH1 N IH0 T
+senor S IY2 N Y AO1 R
+senora S IY2 N Y AO1 R AH0
+sensation S EH0 N S EY1 SH AH0 N
+sensational S EH0 N S EY1 SH AH0 N AH0 L
+sensations S EH0 N S EY1 SH AH0 N Z
+sense S EH1 N S
+sensed S EH1 N S T
+senseless S EH1 N S L AH0 S
+senses S EH1 N S IH0 Z
+sensibilities S EH2 N S IH0 B IH1 L IH0 T IY0 Z
+sensibility S EH2 N S IH0 B IH1 L IH0 T IY0
+sensible S EH1 N S AH0 B AH0 L
+sensing S EH1 N S IH0 NG
+sensitive S EH1 N S AH0 T IH0 V
+sensitivity S EH2 N S IH0 T IH1 V IH0 T IY0
+sensor S EH1 N S ER0
+sensors S EH1 N S ER0 Z
+sensory S EH1 N S ER0 IY0
+sensual S EH1 N SH AH0 W AH0 L
+sensuality S EH2 N SH UW2 AE1 L AH0 T IY2
+sensuous S EH1 N SH AH0 W AH0 S
+sent S EH1 N T
+sentence S EH1 N T AH0 N S
+sentenced S EH1 N T AH0 N S T
+sentences S EH1 N T AH0 N S AH0 Z
+sentencing S EH1 N T AH0 N S IH0 NG
+sentiment S EH1 N T AH0 M AH0 N T
+sentimental S EH2 N T AH0 M EH1 N T AH0 L
+sentimentality S EH2 N T AH0 M EH0 N T AE1 L IH0 T IY0
+sentiments S EH1 N T AH0 M AH0 N T S
+sentinel S EH1 N T AH0 N AH0 L
+sentinels S EH1 N T AH0 N AH0 L Z
+sentries S EH1 N T R IY0 Z
+sentry S EH1 N T R IY0
+seoul S OW1 L
+sep S EH1 P
+separate S EH1 P ER0 EY2 T
+separated S EH1 P ER0 EY2 T IH0 D
+separately S EH1 P ER0 AH0 T L IY0
+separates S EH1 P ER0 EY2 T S
+separating S EH1 P ER0 EY2 T IH0 NG
+separation S EH2 P ER0 EY1 SH AH0 N
+sepsis S EH1 P S IH0 S
+september S EH0 P T EH1 M B ER0
+septic S EH1 P T IH0 K
+sequel S IY1 K W AH0 L
+sequence S IY1 K W AH0 N S
+sequences S IY1 K W AH0 N S AH0 Z
+sequencing S IY1 K W AH0 N S IH0 NG
+sequestered S IH0 K W EH1 S T ER0 D
+sequined S IY1 K W AH0 N D
+sequins S IY1 K W AH0 N Z
+sera S IH1 R AH0
+serb S ER1 B
+serbian S ER1 B IY0 AH0 N
+serena S AH0 R IY1 N AH0
+serenade S EH2 R AH0 N EY1 D
+serendipity S EH2 R AH0 N D IH1 P IH0 T IY0
+serene S ER0 IY1 N
+serenity S ER0 EH1 N AH0 T IY0
+serfs S ER1 F S
+serge S ER1 JH
+sergeant S AA1 R JH AH0 N T
+sergeants S AA1 R JH AH0 N T S
+serial S IH1 R IY2 AH0 L
+serialize S IH1 R IY2 AH0 L AY2 Z
+series S IH1 R IY0 Z
+serious S IH1 R IY0 AH0 S
+seriously S IH1 R IY0 AH0 S L IY0
+seriousness S IH1 R IY0 AH0 S N AH0 S
+sermon S ER1 M AH0 N
+sermons S ER1 M AH0 N Z
+serotonin S ER0 AH0 T OW1 N IH0 N
+serpent S ER1 P AH0 N T
+serpents S ER1 P AH0 N T S
+serrano S ER0 AA1 N OW0
+serum S IH1 R AH0 M
+servant S ER1 V AH0 N T
+servants S ER1 V AH0 N T S
+serve S ER1 V
+served S ER1 V D
+server S ER1 V ER0
+servers S ER1 V ER0 Z
+serves S ER1 V Z
+service S ER1 V AH0 S
+serviced S ER1 V IH0 S T
+servicemen S ER1 V AH0 S M EH0 N
+services S ER1 V AH0 S AH0 Z
+servicing S ER1 V IH0 S IH0 NG
+serving S ER1 V IH0 NG
+servitude S ER1 V AH0 T UW2 D
+sesame S EH1 S AH0 M IY0
+session S EH1 SH AH0 N
+sessions S EH1 SH AH0 N Z
+set S EH1 T
+setback S EH1 T B AE2 K
+setbacks S EH1 T B AE2 K S
+seth S EH1 TH
+seton S IY1 T AH0 N
+sets S EH1 T S
+setter S EH1 T ER0
+setting S EH1 T IH0 NG
+settings S EH1 T IH0 NG Z
+settle S EH1 T AH0 L
+settled S EH1 T AH0 L D
+settlement S EH1 T AH0 L M AH0 N T
+settlements S EH1 T AH0 L M AH0 N T S
+settlers S EH1 T L ER0 Z
+settles S EH1 T AH0 L Z
+settling S EH1 T AH0 L IH0 NG
+setup S EH1 T AH2 P
+seven S EH1 V AH0 N
+sevens S EH1 V AH0 N Z
+seventeen S EH1 V AH0 N T IY1 N
+seventeenth S EH1 V AH0 N T IY1 N TH
+seventh S EH1 V AH0 N TH
+seventies S EH1 V AH0 N T IY0 Z
+seventy S EH1 V AH0 N T IY0
+sever S EH1 V ER0
+several S EH1 V R AH0 L
+severance S EH1 V ER2 AH0 N S
+severe S AH0 V IH1 R
+severed S EH1 V ER0 D
+severely S AH0 V IH1 R L IY0
+severity S IH0 V EH1 R IH0 T IY0
+seville S AH0 V IH1 L
+sew S OW1
+sewage S UW1 AH0 JH
+sewed S OW1 D
+sewer S UW1 ER0
+sewers S UW1 ER0 Z
+sewing S OW1 IH0 NG
+sewn S OW1 N
+sex S EH1 K S
+sexes S EH1 K S AH0 Z
+sexier S EH1 K S IY0 ER0
+sexiest S EH1 K S IY0 AH0 S T
+sexist S EH1 K S IH0 S T
+sexless S EH1 K S L IH0 S
+sexton S EH1 K S T AH0 N
+sexual S EH1 K SH UW0 AH0 L
+sexuality S EH2 K SH UW0 AE1 L AH0 T IY0
+sexually S EH1 K SH UW0 AH0 L IY0
+sexy S EH1 K S IY0
+sh SH
+sha SH AA1
+shabby SH AE1 B IY0
+shack SH AE1 K
+shackle SH AE1 K AH0 L
+shackled SH AE1 K AH0 L D
+shackles SH AE1 K AH0 L Z
+shacks SH AE1 K S
+shad SH AE1 D
+shade SH EY1 D
+shades SH EY1 D Z
+shading SH EY1 D IH0 NG
+shadow SH AE1 D OW2
+shadowed SH AE1 D OW0 D
+shadowing SH AE1 D OW0 IH0 NG
+shadows SH AE1 D OW2 Z
+shadowy SH AE1 D OW0 IY0
+shady SH EY1 D IY0
+shaft SH AE1 F T
+shafts SH AE1 F T S
+shag SH AE1 G
+shagging SH AE1 G IH0 NG
+shaggy SH AE1 G IY0
+shah SH AA1
+shake SH EY1 K
+shakedown SH EY1 K D AW2 N
+shaken SH EY1 K AH0 N
+shaker SH EY1 K ER0
+shakers SH EY1 K ER0 Z
+shakes SH EY1 K S
+shakespeare SH EY1 K S P IY2 R
+shakespearean SH EY2 K S P IH1 R IY0 AH0 N
+shaking SH EY1 K IH0 NG
+shaky SH EY1 K IY0
+shall SH AE1 L
+shallow SH AE1 L OW0
+shalom SH AH0 L OW1 M
+shalt SH AE1 L T
+sham SH AE1 M
+shaman SH EY1 M AH0 N
+shambles SH AE1 M B AH0 L Z
+shame SH EY1 M
+shamed SH EY1 M D
+shameful SH EY1 M F AH0 L
+shameless SH EY1 M L AH0 S
+shamelessly SH EY1 M L AH0 S L IY0
+shaming SH EY1 M IH0 NG
+shampoo SH AE0 M P UW1
+shampoos SH AE0 M P UW1 Z
+shamrock SH AE1 M R AA2 K
+shamus SH EY1 M AH0 S
+shan SH AE1 N
+shanghai SH AE1 NG HH AY1
+shank SH AE1 NG K
+shanks SH AE1 NG K S
+shanti SH AE1 N T IY0
+shanty SH AE1 N T IY0
+shape SH EY1 P
+shaped SH EY1 P T
+shapely SH EY1 P L IY0
+shapes SH EY1 P S
+shaping SH EY1 P IH0 NG
+shard SH AA1 R D
+shards SH AA1 R D Z
+share SH EH1 R
+shared SH EH1 R D
+shareholder SH EH1 R HH OW2 L D ER0
+shareholders SH EH1 R HH OW2 L D ER0 Z
+shares SH EH1 R Z
+sharif SH ER0 IY1 F
+sharing SH EH1 R IH0 NG
+shark SH AA1 R K
+sharks SH AA1 R K S
+sharon SH AE1 R AH0 N
+sharp SH AA1 R P
+sharpen SH AA1 R P AH0 N
+sharpened SH AA1 R P AH0 N D
+sharpening SH AA1 R P AH0 N IH0 NG
+sharper SH AA1 R P ER0
+sharpest SH AA1 R P AH0 S T
+sharply SH AA1 R P L IY0
+sharps SH AA1 R P S
+sharpshooter SH AA1 R P SH UW0 T ER0
+sharpshooters SH AA1 R P SH UW0 T ER0 Z
+shatter SH AE1 T ER0
+shattered SH AE1 T ER0 D
+shattering SH AE1 T ER0 IH0 NG
+shatters SH AE1 T ER0 Z
+shave SH EY1 V
+shaved SH EY1 V D
+shaver SH EY1 V ER0
+shaves SH EY1 V Z
+shaving SH EY1 V IH0 NG
+shavings SH EY1 V IH0 NG Z
+shaw SH AO1
+shawl SH AO1 L
+shawn SH AO1 N
+shay SH EY1
+she SH IY1
+shea SH EY1
+shear SH IH1 R
+sheared SH IH1 R D
+shears SH IY1 R Z
+sheath SH IY1 TH
+shed SH EH1 D
+shedding SH EH1 D IH0 NG
+sheds SH EH1 D Z
+sheen SH IY1 N
+sheep SH IY1 P
+sheepskin SH IY1 P S K IH2 N
+sheer SH IH1 R
+sheet SH IY1 T
+sheets SH IY1 T S
+sheffield SH EH1 F IY0 L D
+sheik SH IY1 K
+sheikh SH IY1 K
+sheila SH IY1 L AH0
+shelf SH EH1 L F
+shell SH EH1 L
+shelled SH EH1 L D
+shelley SH EH1 L IY0
+shellfish SH EH1 L F IH2 SH
+shelling SH EH1 L IH0 NG
+shells SH EH1 L Z
+shelly SH EH1 L IY0
+shelter SH EH1 L T ER0
+sheltered SH EH1 L T ER0 D
+shelters SH EH1 L T ER0 Z
+shelves SH EH1 L V Z
+shenanigans SH AH0 N AE1 N IH0 G AH0 N Z
+sheng SH EH1 NG
+shepherd SH EH1 P ER0 D
+shepherds SH EH1 P ER0 D Z
+sheraton SH EH1 R AH0 T AH0 N
+sherbet SH ER1 B AH0 T
+sheriff SH EH1 R AH0 F
+sheriffs SH EH1 R AH0 F S
+sherlock SH ER1 L AA2 K
+sherry SH EH1 R IY0
+shetland SH EH1 T L AH0 N D
+shh SH
+shi SH IY1
+shied SH AY1 D
+shield SH IY1 L D
+shielded SH IY1 L D IH0 D
+shielding SH IY1 L D IH0 NG
+shields SH IY1 L D Z
+shift SH IH1 F T
+shifted SH IH1 F T IH0 D
+shifter SH IH1 F T ER0
+shifting SH IH1 F T IH0 NG
+shiftless SH IH1 F T L IH0 S
+shifts SH IH1 F T S
+shifty SH IH1 F T IY0
+shih SH IY1
+shill SH IH1 L
+shilling SH IH1 L IH0 NG
+shillings SH IH1 L IH0 NG Z
+shimmer SH IH1 M ER0
+shimmering SH IH1 M ER0 IH0 NG
+shimmy SH IH1 M IY0
+shin SH IH1 N
+shinbone SH IH1 N B OW2 N
+shindig SH IH1 N D IH0 G
+shine SH AY1 N
+shined SH AY1 N D
+shiner SH AY1 N ER0
+shines SH AY1 N Z
+shingle SH IH1 NG G AH0 L
+shingles SH IH1 NG G AH0 L Z
+shining SH AY1 N IH0 NG
+shiny SH AY1 N IY0
+ship SH IH1 P
+shipmate SH IH1 P M EY2 T
+shipmates SH IH1 P M EY2 T S
+shipment SH IH1 P M AH0 N T
+shipments SH IH1 P M AH0 N T S
+shipped SH IH1 P T
+shipping SH IH1 P IH0 NG
+ships SH IH1 P S
+shipshape SH IH1 P SH EY2 P
+shipwreck SH IH1 P R EH0 K
+shipyard SH IH1 P Y AA2 R D
+shipyards SH IH1 P Y AA2 R D Z
+shire SH AY1 R
+shirl SH ER1 L
+shirley SH ER1 L IY0
+shirt SH ER1 T
+shirts SH ER1 T S
+shit SH IH1 T
+shithead SH IH1 T HH EH2 D
+shitload SH IH1 T L OW2 D
+shits SH IH1 T S
+shitting SH IH1 T IH0 NG
+shitty SH IH1 T IY2
+shiva SH IY1 V AH0
+shiver SH IH1 V ER0
+shivering SH IH1 V ER0 IH0 NG
+shivers SH IH1 V ER0 Z
+shock SH AA1 K
+shocked SH AA1 K T
+shocker SH AA1 K ER0
+shocking SH AA1 K IH0 NG
+shockingly SH AA1 K IH0 NG L IY0
+shocks SH AA1 K S
+shoddy SH AA1 D IY0
+shoe SH UW1
+shoehorn SH UW1 HH AO2 R N
+shoelace SH UW1 L EY2 S
+shoelaces SH UW1 L EY2 S AH0 Z
+shoemaker SH UW1 M EY2 K ER0
+shoes SH UW1 Z
+shoeshine SH UW1 SH AY2 N
+shogun SH OW1 G AH0 N
+shoji SH OW1 JH IY0
+shone SH OW1 N
+shoo SH UW1
+shook SH UH1 K
+shoot SH UW1 T
+shooter SH UW1 T ER0
+shooters SH UW1 T ER0 Z
+shooting SH UW1 T IH0 NG
+shootings SH UW1 T IH0 NG Z
+shootout SH UW1 T AW0 T
+shoots SH UW1 T S
+shop SH AA1 P
+shopkeeper SH AA1 P K IY2 P ER0
+shopkeepers SH AA1 P K IY2 P ER0 Z
+shoplift SH AA1 P L IH2 F T
+shoplifter SH AA1 P L IH2 F T ER0
+shoplifting SH AA1 P L IH2 F T IH0 NG
+shoppe SH AA1 P
+shopped SH AA1 P T
+shopper SH AA1 P ER0
+shoppers SH AA1 P ER0 Z
+shopping SH AA1 P IH0 NG
+shops SH AA1 P S
+shore SH AO1 R
+shoreline SH AO1 R L AY2 N
+shores SH AO1 R Z
+short SH AO1 R T
+shortage SH AO1 R T AH0 JH
+shortages SH AO1 R T AH0 JH AH0 Z
+shortcake SH AO1 R T K EY2 K
+shortcomings SH AO1 R T K AH2 M IH0 NG Z
+shortcut SH AO1 R T K AH2 T
+shortcuts SH AO1 R T K AH2 T S
+shorted SH AO1 R T IH0 D
+shorten SH AO1 R T AH0 N
+shortened SH AO1 R T AH0 N D
+shortening SH AO1 R T AH0 N IH0 NG
+shorter SH AO1 R T ER0
+shortest SH AO1 R T IH0 S T
+shorthand SH AO1 R T HH AE2 N D
+shorting SH AO1 R T IH0 NG
+shortly SH AO1 R T L IY0
+shortness SH AO1 R T N AH0 S
+shorts SH AO1 R T S
+shortsighted SH AO1 R T S AY1 T IH0 D
+shortstop SH AO1 R T S T AA2 P
+shortwave SH AO1 R T W EY1 V
+shorty SH AO1 R T IY0
+shot SH AA1 T
+shotgun SH AA1 T G AH2 N
+shotguns SH AA1 T G AH2 N Z
+shots SH AA1 T S
+should SH UH1 D
+shoulder SH OW1 L D ER0
+shoulders SH OW1 L D ER0 Z
+shout SH AW1 T
+shouted SH AW1 T IH0 D
+shouting SH AW1 T IH0 NG
+shouts SH AW1 T S
+shove SH AH1 V
+shoved SH AH1 V D
+shovel SH AH1 V AH0 L
+shoveling SH AH1 V L IH0 NG
+shovels SH AH1 V AH0 L Z
+shoves SH AH1 V Z
+shoving SH AH1 V IH0 NG
+show SH OW1
+showbiz SH OW1 B IH0 Z
+showboat SH OW1 B OW2 T
+showcase SH OW1 K EY2 S
+showdown SH OW1 D AW2 N
+showed SH OW1 D
+shower SH AW1 ER0
+showered SH AW1 ER0 D
+showering SH AW1 ER0 IH0 NG
+showers SH AW1 ER0 Z
+showgirl SH OW1 G ER2 L
+showgirls SH OW1 G ER2 L Z
+showing SH OW1 IH0 NG
+showman SH OW1 M AH0 N
+showmanship SH OW1 M AH0 N SH IH2 P
+shown SH OW1 N
+showroom SH OW1 R UH2 M
+shows SH OW1 Z
+showtime SH OW1 T AY2 M
+showy SH OW1 IY0
+shrank SH R AE1 NG K
+shrapnel SH R AE1 P N AH0 L
+shred SH R EH1 D
+shredded SH R EH1 D IH0 D
+shredder SH R EH1 D ER0
+shredding SH R EH1 D IH0 NG
+shreds SH R EH1 D Z
+shrewd SH R UW1 D
+shriek SH R IY1 K
+shrieking SH R IY1 K IH0 NG
+shrieks SH R IY1 K S
+shrill SH R IH1 L
+shrimp SH R IH1 M P
+shrine SH R AY1 N
+shrink SH R IH1 NG K
+shrinking SH R IH1 NG K IH0 NG
+shrinks SH R IH1 NG K S
+shrivel SH R IH1 V AH0 L
+shriveled SH R IH1 V AH0 L D
+shriver SH R AY1 V ER0
+shroud SH R AW1 D
+shrouded SH R AW1 D IH0 D
+shrub SH R AH1 B
+shrubbery SH R AH1 B ER0 IY0
+shrubs SH R AH1 B Z
+shrug SH R AH1 G
+shrunk SH R AH1 NG K
+shrunken SH R AH1 NG K AH0 N
+shtick SH T IH1 K
+shuck SH AH1 K
+shucks SH AH1 K S
+shudder SH AH1 D ER0
+shuddering SH AH1 D ER0 IH0 NG
+shuffle SH AH1 F AH0 L
+shuffled SH AH1 F AH0 L D
+shuffling SH AH1 F L IH0 NG
+shun SH AH1 N
+shunned SH AH1 N D
+shunt SH AH1 N T
+shut SH AH1 T
+shutdown SH AH1 T D AW2 N
+shuts SH AH1 T S
+shutter SH AH1 T ER0
+shutters SH AH1 T ER0 Z
+shutting SH AH1 T IH0 NG
+shuttle SH AH1 T AH0 L
+shy SH AY1
+shylock SH AY1 L AA2 K
+shyness SH AY1 N AH0 S
+shyster SH AY1 S T ER0
+si S IY1
+siam S AY0 AE1 M
+siamese S AY2 AH0 M IY1 Z
+siberia S AY0 B IH1 R IY0 AH0
+siberian S AY0 B IH1 R IY0 AH0 N
+sibling S IH1 B L IH0 NG
+siblings S IH1 B L IH0 NG Z
+sic S IH1 K
+sicilian S IH0 S IH1 L IY0 AH0 N
+sicily S IH1 S AH0 L IY0
+sick S IH1 K
+sicken S IH1 K AH0 N
+sickened S IH1 K AH0 N D
+sickening S IH1 K AH0 N IH0 NG
+sicker S IH1 K ER0
+sickest S IH1 K AH0 S T
+sickle S IH1 K AH0 L
+sickly S IH1 K L IY0
+sickness S IH1 K N AH0 S
+side S AY1 D
+sidearm S AY1 D AA0 R M
+sidebar S AY1 D B AA2 R
+sidekick S AY1 D K IH2 K
+sideline S AY1 D L AY2 N
+sidelines S AY1 D L AY2 N Z
+sides S AY1 D Z
+sideshow S AY1 D SH OW2
+sidetracked S AY1 D T R AE2 K T
+sidewalk S AY1 D W AO2 K
+sidewalks S AY1 D W AO2 K S
+sideways S AY1 D W EY2 Z
+sidewinder S AY1 D W AY2 N D ER0
+siding S AY1 D IH0 NG
+sidle S AY1 D AH0 L
+sidney S IH1 D N IY0
+sie S IY1
+siege S IY1 JH
+siegfried S IY1 G F R IY2 D
+sierra S IY0 EH1 R AH0
+sierras S IY0 EH1 R AH0 Z
+siesta S IY0 EH1 S T AH0
+sieve S IH1 V
+sift S IH1 F T
+sifting S IH1 F T IH0 NG
+sig S IH1 G
+sigh S AY1
+sighed S AY1 D
+sighing S AY1 IH0 NG
+sighs S AY1 Z
+sight S AY1 T
+sighted S AY1 T IH0 D
+sighting S AY1 T IH0 NG
+sightings S AY1 T IH0 NG Z
+sights S AY1 T S
+sightseeing S AY1 T S IY1 IH0 NG
+sigma S IH1 G M AH0
+sign S AY1 N
+signage S AY1 N IH0 JH
+signal S IH1 G N AH0 L
+signaled S IH1 G N AH0 L D
+signaling S IH1 G N AH0 L IH0 NG
+signals S IH1 G N AH0 L Z
+signature S IH1 G N AH0 CH ER0
+signatures S IH1 G N AH0 CH ER0 Z
+signed S AY1 N D
+significance S AH0 G N IH1 F IH0 K AH0 N S
+significant S AH0 G N IH1 F IH0 K AH0 N T
+significantly S IH0 G N IH1 F IH0 K AH0 N T L IY0
+signifies S IH1 G N AH0 F AY2 Z
+signify S IH1 G N AH0 F AY2
+signifying S IH1 G N AH0 F AY2 IH0 NG
+signing S AY1 N IH0 NG
+signor S IY1 N Y AO0 R
+signore S IY0 N Y AO1 R EY0
+signpost S AY1 N P OW2 S T
+signs S AY1 N Z
+sikes S AY1 K S
+sil S IH1 L
+silence S AY1 L AH0 N S
+silenced S AY1 L AH0 N S T
+silencer S AY1 L AH0 N S ER2
+silences S AY1 L AH0 N S IH0 Z
+silent S AY1 L AH0 N T
+silently S AY1 L AH0 N T L IY0
+silhouette S IH2 L AH0 W EH1 T
+silicon S IH1 L AH0 K AH0 N
+silicone S IH1 L AH0 K OW2 N
+silk S IH1 L K
+silken S IH1 L K AH0 N
+silks S IH1 L K S
+silky S IH1 L K IY0
+sill S IH1 L
+sillier S IH1 L IY0 ER0
+silliest S IH1 L IY0 AH0 S T
+silliness S IH1 L IY0 N AH0 S
+silly S IH1 L IY0
+silo S AY1 L OW0
+silos S AY1 L OW2 Z
+silt S IH1 L T
+silva S IH1 L V AH0
+silver S IH1 L V ER0
+silverware S IH1 L V ER0 W EH2 R
+silvery S IH1 L V ER0 IY0
+sim S IH1 M
+simba S IH1 M B AH0
+simeon S IH1 M IY0 AH0 N
+simian S IH1 M IY0 AH0 N
+similar S IH1 M AH0 L ER0
+similarities S IH2 M AH0 L EH1 R AH0 T IY0 Z
+similarity S IH2 M AH0 L EH1 R AH0 T IY0
+similarly S IH1 M AH0 L ER0 L IY0
+simmer S IH1 M ER0
+simmons S IH1 M AH0 N Z
+simon S AY1 M AH0 N
+simple S IH1 M P AH0 L
+simpler S IH1 M P AH0 L ER0
+simplest S IH1 M P L AH0 S T
+simplicity S IH0 M P L IH1 S AH0 T IY0
+simplify S IH1 M P L AH0 F AY2
+simplistic S IH0 M P L IH1 S T IH0 K
+simply S IH1 M P L IY0
+simpson S IH1 M P S AH0 N
+sims S IH1 M Z
+simulate S IH1 M Y AH0 L AH0 T
+simulated S IH1 M Y AH0 L EY2 T IH0 D
+simulation S IH2 M Y AH0 L EY1 SH AH0 N
+simulations S IH2 M Y UW0 L EY1 SH AH0 N Z
+simulator S IH1 M Y AH0 L EY2 T ER0
+simultaneous S AY2 M AH0 L T EY1 N IY0 AH0 S
+simultaneously S AY2 M AH0 L T EY1 N IY0 AH0 S L IY0
+sin S IH1 N
+sinatra S AH0 N AA1 T R AH0
+since S IH1 N S
+sincere S IH0 N S IH1 R
+sincerely S IH0 N S IH1 R L IY0
+sincerity S IH0 N S EH1 R AH0 T IY0
+sinewy S IH1 N Y UW0 IY0
+sinful S IH1 N F AH0 L
+sing S IH1 NG
+singapore S IH1 NG AH0 P AO2 R
+singe S IH1 N JH
+singed S IH1 N JH D
+singer S IH1 NG ER0
+singers S IH1 NG ER0 Z
+singh S IH1 NG
+singing S IH1 NG IH0 NG
+single S IH1 NG G AH0 L
+singled S IH1 NG G AH0 L D
+singles S IH1 NG G AH0 L Z
+sings S IH1 NG Z
+singular S IH1 NG G Y AH0 L ER0
+singularity S IH1 NG G Y AH0 L EH1 R AH0 T IY0
+singularly S IH1 NG G Y AH0 L ER0 L IY0
+sinister S IH1 N IH0 S T ER0
+sink S IH1 NG K
+sinker S IH1 NG K ER0
+sinkhole S IH1 NG K HH OW2 L
+sinking S IH1 NG K IH0 NG
+sinks S IH1 NG K S
+sinned S IH1 N D
+sinner S IH1 N ER0
+sinners S IH1 N ER0 Z
+sinning S IH1 N IH0 NG
+sins S IH1 N Z
+sinus S AY1 N AH0 S
+sinuses S AY1 N AH0 S AH0 Z
+sioux S UW1
+sip S IH1 P
+siphon S AY1 F AH0 N
+siphoning S AY1 F AH0 N IH0 NG
+sipping S IH1 P IH0 NG
+sips S IH1 P S
+sir S ER1
+sire S AY1 ER0
+siren S AY1 R AH0 N
+sirens S AY1 R AH0 N Z
+sirius S IH1 R IH2 AH0 S
+sirs S ER1 R Z
+sis S IH1 S
+sissy S IH1 S IY0
+sister S IH1 S T ER0
+sisterhood S IH1 S T ER0 HH UH0 D
+sisters S IH1 S T ER0 Z
+sistine S IH0 S T IY1 N
+sit S IH1 T
+sitar S IH0 T AA1 R
+sitcom S IH1 T K AA2 M
+site S AY1 T
+sites S AY1 T S
+sits S IH1 T S
+sitter S IH1 T ER0
+sitting S IH1 T IH0 NG
+situated S IH1 CH UW0 EY2 T IH0 D
+situation S IH2 CH UW0 EY1 SH AH0 N
+situations S IH2 CH UW0 EY1 SH AH0 N Z
+six S IH1 K S
+sixes S IH1 K S IH0 Z
+sixteen S IH0 K S T IY1 N
+sixteenth S IH0 K S T IY1 N TH
+sixth S IH1 K S TH
+sixties S IH1 K S T IY0 Z
+sixty S IH1 K S T IY0
+sizable S AY1 Z AH0 B AH0 L
+size S AY1 Z
+sizeable S AY1 Z AH0 B AH0 L
+sized S AY1 Z D
+sizes S AY1 Z AH0 Z
+sizing S AY1 Z IH0 NG
+sizzle S IH1 Z AH0 L
+sizzler S IH1 Z L ER0
+sizzling S IH1 Z AH0 L IH0 NG
+skate S K EY1 T
+skateboard S K EY1 T B AO2 R D
+skateboarding S K EY1 T B AO2 R D IH0 NG
+skated S K EY1 T IH0 D
+skater S K EY1 T ER0
+skaters S K EY1 T ER0 Z
+skates S K EY1 T S
+skating S K EY1 T IH0 NG
+skeet S K IY1 T
+skeeter S K IY1 T ER0
+skeletal S K EH1 L AH0 T AH0 L
+skeleton S K EH1 L AH0 T AH0 N
+skeletons S K EH1 L AH0 T AH0 N Z
+skelter S K EH1 L T ER0
+skeptic S K EH1 P T IH0 K
+skeptical S K EH1 P T AH0 K AH0 L
+skepticism S K EH1 P T IH0 S IH2 Z AH0 M
+sketch S K EH1 CH
+sketches S K EH1 CH AH0 Z
+sketching S K EH1 CH IH0 NG
+sketchy S K EH1 CH IY0
+skewer S K Y UW1 ER0
+skewers S K Y UW1 ER0 Z
+ski S K IY1
+skid S K IH1 D
+skidded S K IH1 D IH0 D
+skids S K IH1 D Z
+skied S K IY1 D
+skier S K AY1 R
+skies S K AY1 Z
+skiff S K IH1 F
+skiing S K IY1 IH0 NG
+skill S K IH1 L
+skilled S K IH1 L D
+skillet S K IH1 L AH0 T
+skillful S K IH1 L F AH0 L
+skillfully S K IH1 L F AH0 L IY0
+skilling S K IH1 L IH0 NG
+skills S K IH1 L Z
+skim S K IH1 M
+skimmed S K IH1 M D
+skimming S K IH1 M IH0 NG
+skimp S K IH1 M P
+skimpy S K IH1 M P IY0
+skin S K IH1 N
+skinhead S K IH1 N HH EH2 D
+skinheads S K IH1 N HH EH2 D Z
+skinned S K IH1 N D
+skinner S K IH1 N ER0
+skinnier S K IH1 N IY0 ER0
+skinny S K IH1 N IY0
+skins S K IH1 N Z
+skip S K IH1 P
+skipped S K IH1 P T
+skipper S K IH1 P ER0
+skipping S K IH1 P IH0 NG
+skippy S K IH1 P IY0
+skips S K IH1 P S
+skirmish S K ER1 M IH0 SH
+skirt S K ER1 T
+skirts S K ER1 T S
+skis S K IY1 Z
+skit S K IH1 T
+skittish S K IH1 T IH0 SH
+skittles S K IH1 T AH0 L Z
+skulk S K AH1 L K
+skulking S K AH1 L K IH0 NG
+skull S K AH1 L
+skulls S K AH1 L Z
+skunk S K AH1 NG K
+skunks S K AH1 NG K S
+sky S K AY1
+skydiving S K AY1 D AY0 V IH0 NG
+skye S K AY1
+skylark S K AY1 L AA2 R K
+skylight S K AY1 L AY2 T
+skyline S K AY1 L AY2 N
+skyrocket S K AY1 R AA2 K AH0 T
+skyscraper S K AY1 S K R EY2 P ER0
+skyscrapers S K AY1 S K R EY2 P ER0 Z
+skyway S K AY1 W EY2
+slab S L AE1 B
+slabs S L AE1 B Z
+slack S L AE1 K
+slacker S L AE1 K ER0
+slackers S L AE1 K ER0 Z
+slacks S L AE1 K S
+slade S L EY1 D
+slag S L AE1 G
+slain S L EY1 N
+slam S L AE1 M
+slammed S L AE1 M D
+slammer S L AE1 M ER0
+slamming S L AE1 M IH0 NG
+slams S L AE1 M Z
+slander S L AE1 N D ER0
+slandered S L AE1 N D ER0 D
+slang S L AE1 NG
+slant S L AE1 N T
+slanted S L AE1 N T IH0 D
+slap S L AE1 P
+slapped S L AE1 P T
+slapping S L AE1 P IH0 NG
+slaps S L AE1 P S
+slash S L AE1 SH
+slashed S L AE1 SH T
+slasher S L AE1 SH ER0
+slashing S L AE1 SH IH0 NG
+slate S L EY1 T
+slated S L EY1 T IH0 D
+slater S L EY1 T ER0
+slats S L AE1 T S
+slattery S L AE1 T ER0 IY0
+slaughter S L AO1 T ER0
+slaughtered S L AO1 T ER0 D
+slaughterhouse S L AO1 T ER0 HH AW2 S
+slaughtering S L AO1 T ER0 IH0 NG
+slave S L EY1 V
+slavery S L EY1 V ER0 IY0
+slaves S L EY1 V Z
+slavin S L AE1 V IH0 N
+slaw S L AO1
+slay S L EY1
+slayer S L EY1 ER0
+slaying S L EY1 IH0 NG
+sleaze S L IY1 Z
+sleazy S L IY1 Z IY0
+sled S L EH1 D
+sledding S L EH1 D IH0 NG
+sledge S L EH1 JH
+sledgehammer S L EH1 JH HH AE2 M ER0
+sleek S L IY1 K
+sleep S L IY1 P
+sleeper S L IY1 P ER0
+sleepers S L IY1 P ER0 Z
+sleeping S L IY1 P IH0 NG
+sleepless S L IY1 P L AH0 S
+sleepover S L IY1 P OW2 V ER0
+sleepovers S L IY1 P OW2 V ER0 Z
+sleeps S L IY1 P S
+sleepwalk S L IY1 P W AO2 K
+sleepwalking S L IY1 P W AO2 K IH0 NG
+sleepy S L IY1 P IY0
+sleet S L IY1 T
+sleeve S L IY1 V
+sleeves S L IY1 V Z
+sleigh S L EY1
+sleight S L AY1 T
+slender S L EH1 N D ER0
+slept S L EH1 P T
+slew S L UW1
+slice S L AY1 S
+sliced S L AY1 S T
+slices S L AY1 S AH0 Z
+slicing S L AY1 S IH0 NG
+slick S L IH1 K
+slicker S L IH1 K ER0
+slid S L IH1 D
+slide S L AY1 D
+slider S L AY1 D ER0
+slides S L AY1 D Z
+sliding S L AY1 D IH0 NG
+slight S L AY1 T
+slightest S L AY1 T AH0 S T
+slightly S L AY1 T L IY0
+slim S L IH1 M
+slime S L AY1 M
+slimming S L IH1 M IH0 NG
+slimy S L AY1 M IY0
+sling S L IH1 NG
+slinging S L IH1 NG IH0 NG
+slings S L IH1 NG Z
+slingshot S L IH1 NG SH AA2 T
+slinky S L IH1 NG K IY0
+slip S L IH1 P
+slipped S L IH1 P T
+slipper S L IH1 P ER0
+slippers S L IH1 P ER0 Z
+slippery S L IH1 P ER0 IY0
+slipping S L IH1 P IH0 NG
+slips S L IH1 P S
+slit S L IH1 T
+slits S L IH1 T S
+slitting S L IH1 T IH0 NG
+sliver S L IH1 V ER0
+sloan S L OW1 N
+slob S L AA1 B
+slobber S L AA1 B ER0
+slobbering S L AA1 B ER0 IH0 NG
+slobs S L AA1 B Z
+slogan S L OW1 G AH0 N
+slogans S L OW1 G AH0 N Z
+slop S L AA1 P
+slope S L OW1 P
+sloper S L OW1 P ER0
+slopes S L OW1 P S
+sloping S L OW1 P IH0 NG
+sloppy S L AA1 P IY0
+slot S L AA1 T
+sloth S L OW1 TH
+slots S L AA1 T S
+slouch S L AW1 CH
+slough S L AH1 F
+slow S L OW1
+slowdown S L OW1 D AW2 N
+slowed S L OW1 D
+slower S L OW1 ER0
+slowest S L OW1 AH0 S T
+slowing S L OW1 IH0 NG
+slowly S L OW1 L IY0
+slowpoke S L OW1 P OW2 K
+slows S L OW1 Z
+sludge S L AH1 JH
+slug S L AH1 G
+slugged S L AH1 G D
+slugger S L AH1 G ER0
+slugging S L AH1 G IH0 NG
+sluggish S L AH1 G IH0 SH
+slugs S L AH1 G Z
+sluice S L UW1 S
+slum S L AH1 M
+slumber S L AH1 M B ER0
+slump S L AH1 M P
+slumped S L AH1 M P T
+slums S L AH1 M Z
+slung S L AH1 NG
+slur S L ER1
+slurp S L ER1 P
+slurred S L ER1 D
+slurring S L ER1 IH0 NG
+slurs S L ER1 Z
+slush S L AH1 SH
+slut S L AH1 T
+sluts S L AH1 T S
+slutty S L AH1 T IY2
+sly S L AY1
+smack S M AE1 K
+smacked S M AE1 K T
+smacking S M AE1 K IH0 NG
+smacks S M AE1 K S
+small S M AO1 L
+smaller S M AO1 L ER0
+smallest S M AO1 L AH0 S T
+smallish S M AO1 L IH0 SH
+smallpox S M AO1 L P AA2 K S
+smalls S M AO1 L Z
+smart S M AA1 R T
+smartass S M AA1 R T AE1 S
+smarten S M AA1 R T AH0 N
+smarter S M AA1 R T ER0
+smartest S M AA1 R T AH0 S T
+smarts S M AA1 R T S
+smarty S M AA1 R T IY0
+smash S M AE1 SH
+smashed S M AE1 SH T
+smashes S M AE1 SH IH0 Z
+smashing S M AE1 SH IH0 NG
+smear S M IH1 R
+smeared S M IH1 R D
+smee S M IY1
+smell S M EH1 L
+smelled S M EH1 L D
+smelling S M EH1 L IH0 NG
+smells S M EH1 L Z
+smelly S M EH1 L IY0
+smelt S M EH1 L T
+smidgen S M IH1 JH AH0 N
+smile S M AY1 L
+smiled S M AY1 L D
+smiles S M AY1 L Z
+smiley S M AY1 L IY0
+smiling S M AY1 L IH0 NG
+smirk S M ER1 K
+smirking S M ER1 K IH0 NG
+smith S M IH1 TH
+smithereens S M IH2 DH ER0 IY1 N Z
+smithers S M IH1 DH ER0 Z
+smiths S M IH1 TH S
+smitten S M IH1 T AH0 N
+smock S M AA1 K
+smog S M AA1 G
+smoke S M OW1 K
+smoked S M OW1 K T
+smoker S M OW1 K ER0
+smokers S M OW1 K ER0 Z
+smokes S M OW1 K S
+smokey S M OW1 K IY0
+smoking S M OW1 K IH0 NG
+smoky S M OW1 K IY0
+smoldering S M OW1 L D ER0 IH0 NG
+smooch S M UW1 CH
+smoot S M UW1 T
+smooth S M UW1 DH
+smoother S M UW1 DH ER0
+smoothly S M UW1 DH L IY0
+smorgasbord S M AO1 R G AH0 S B AO2 R D
+smother S M AH1 DH ER0
+smothered S M AH1 DH ER0 D
+smothering S M AH1 DH ER0 IH0 NG
+smudge S M AH1 JH
+smudged S M AH1 JH D
+smug S M AH1 G
+smuggle S M AH1 G AH0 L
+smuggled S M AH1 G AH0 L D
+smuggler S M AH1 G L ER0
+smugglers S M AH1 G L ER0 Z
+smuggling S M AH1 G L IH0 NG
+smut S M AH1 T
+snack S N AE1 K
+snacking S N AE1 K IH0 NG
+snacks S N AE1 K S
+snafu S N AE1 F UW0
+snag S N AE1 G
+snagged S N AE1 G D
+snail S N EY1 L
+snails S N EY1 L Z
+snake S N EY1 K
+snakebite S N EY1 K B AY2 T
+snakes S N EY1 K S
+snap S N AE1 P
+snape S N EY1 P
+snapped S N AE1 P T
+snapper S N AE1 P ER0
+snapping S N AE1 P IH0 NG
+snappy S N AE1 P IY0
+snaps S N AE1 P S
+snapshot S N AE1 P SH AA2 T
+snapshots S N AE1 P SH AA2 T S
+snare S N EH1 R
+snarl S N AA1 R L
+snarling S N AA1 R L IH0 NG
+snarls S N AA1 R L Z
+snatch S N AE1 CH
+snatched S N AE1 CH T
+snatcher S N AE1 CH ER0
+snatchers S N AE1 CH ER0 Z
+snatching S N AE1 CH IH0 NG
+snazzy S N AE1 Z IY0
+sneak S N IY1 K
+sneaked S N IY1 K T
+sneaker S N IY1 K ER0
+sneakers S N IY1 K ER0 Z
+sneaking S N IY1 K IH0 NG
+sneaks S N IY1 K S
+sneaky S N IY1 K IY0
+sneer S N IH1 R
+sneeze S N IY1 Z
+sneezed S N IY1 Z D
+sneezes S N IY1 Z IH0 Z
+sneezing S N IY1 Z IH0 NG
+snell S N EH1 L
+snicker S N IH1 K ER0
+snickering S N IH1 K ER0 IH0 NG
+snickers S N IH1 K ER0 Z
+snide S N AY1 D
+sniff S N IH1 F
+sniffed S N IH1 F T
+sniffer S N IH1 F ER0
+sniffing S N IH1 F IH0 NG
+sniffle S N IH1 F AH0 L
+sniffles S N IH1 F AH0 L Z
+sniffling S N IH1 F L IH0 NG
+sniffs S N IH1 F S
+sniffy S N IH1 F IY0
+snifter S N IH1 F T ER0
+snip S N IH1 P
+snipe S N AY1 P
+sniper S N AY1 P ER0
+snipers S N AY1 P ER0 Z
+snitch S N IH1 CH
+snitching S N IH1 CH IH0 NG
+snob S N AA1 B
+snobbish S N AA1 B IH0 SH
+snobs S N AA1 B Z
+snooker S N UH1 K ER0
+snoop S N UW1 P
+snooping S N UW1 P IH0 NG
+snoops S N UW1 P S
+snoopy S N UW1 P IY0
+snooty S N UW1 T IY0
+snooze S N UW1 Z
+snoozing S N UW1 Z IH0 NG
+snore S N AO1 R
+snores S N AO1 R Z
+snoring S N AO1 R IH0 NG
+snorkel S N AO1 R K AH0 L
+snorkeling S N AO1 R K AH0 L IH2 NG
+snort S N AO1 R T
+snorted S N AO1 R T IH0 D
+snorting S N AO1 R T IH0 NG
+snorts S N AO1 R T S
+snot S N AO1 T
+snotty S N AO1 T IY2
+snout S N AW1 T
+snow S N OW1
+snowball S N OW1 B AO2 L
+snowballs S N OW1 B AO2 L Z
+snowboard S N OW1 B AO2 R D
+snowboarder S N OW1 B AO2 R D ER0
+snowboarders S N OW1 B AO2 R D ER0 Z
+snowed S N OW1 D
+snowfall S N OW1 F AA0 L
+snowflake S N OW1 F L EY2 K
+snowflakes S N OW1 F L EY2 K S
+snowing S N OW1 IH0 NG
+snowman S N OW1 M AE2 N
+snowmobile S N OW1 M OW0 B IY2 L
+snowplow S N OW1 P L AW2
+snows S N OW1 Z
+snowshoes S N OW1 SH UW2 Z
+snowstorm S N OW1 S T AO2 R M
+snowy S N OW1 IY0
+snub S N AH1 B
+snubbed S N AH1 B D
+snuck S N AH1 K
+snuff S N AH1 F
+snuffed S N AH1 F T
+snug S N AH1 G
+snuggle S N AH1 G AH0 L
+snuggled S N AH1 G AH0 L D
+so S OW1
+soak S OW1 K
+soaked S OW1 K T
+soaking S OW1 K IH0 NG
+soap S OW1 P
+soapbox S OW1 P B AA2 K S
+soaps S OW1 P S
+soapy S OW1 P IY0
+soar S AO1 R
+soared S AO1 R D
+soaring S AO1 R IH0 NG
+soars S AO1 R Z
+sob S AA1 B
+sobbing S AA1 B IH0 NG
+sober S OW1 B ER0
+sobered S OW1 B ER0 D
+sobering S OW1 B ER0 IH0 NG
+sobers S OW1 B ER0 Z
+sobriety S AH0 B R AY1 AH0 T IY0
+sobs S AA1 B Z
+soccer S AA1 K ER0
+sociable S OW1 SH AH0 B AH0 L
+social S OW1 SH AH0 L
+socialism S OW1 SH AH0 L IH2 Z AH0 M
+socialist S OW1 SH AH0 L AH0 S T
+socialite S OW1 SH AH0 L AY2 T
+socialize S OW1 SH AH0 L AY2 Z
+socializing S OW1 SH AH0 L AY2 Z IH0 NG
+socially S OW1 SH AH0 L IY0
+societies S AH0 S AY1 AH0 T IY0 Z
+society S AH0 S AY1 AH0 T IY0
+sociological S OW2 S IY0 AH0 L AA1 JH IH0 K AH0 L
+sociology S OW2 S IY0 AA1 L AH0 JH IY0
+sociopath S OW1 S IY0 OW0 P AE2 TH
+sock S AA1 K
+socked S AA1 K T
+socket S AA1 K AH0 T
+sockets S AA1 K AH0 T S
+socks S AA1 K S
+socrates S AA1 K R AH0 T IY2 Z
+sod S AA1 D
+soda S OW1 D AH0
+sodas S OW1 D AH0 Z
+sodium S OW1 D IY0 AH0 M
+sodom S AO1 D AH0 M
+sodomized S AO1 D AH0 M AY2 Z D
+sodomy S AA1 D AH0 M IY0
+sofa S OW1 F AH0
+sofas S OW1 F AH0 Z
+sofia S OW0 F IY1 AH0
+soft S AA1 F T
+softball S AO1 F T B AO2 L
+soften S AA1 F AH0 N
+softened S AO1 F AH0 N D
+softener S AO1 F AH0 N ER0
+softening S AO1 F AH0 N IH0 NG
+softer S AA1 F T ER0
+softest S AO1 F T AH0 S T
+softly S AO1 F T L IY0
+softness S AO1 F T N AH0 S
+software S AO1 F T W EH2 R
+soggy S AA1 G IY0
+soho S OW1 HH OW0
+soil S OY1 L
+soiled S OY1 L D
+soir S OY1 R
+soiree S W AA0 R EY1
+sojourn S OW1 JH ER0 N
+sok S AA1 K
+sol S AA1 L
+solace S AA1 L AH0 S
+solar S OW1 L ER0
+sold S OW1 L D
+soldering S AA1 D ER0 IH0 NG
+soldier S OW1 L JH ER0
+soldiering S OW1 L JH ER0 IH0 NG
+soldiers S OW1 L JH ER0 Z
+sole S OW1 L
+soleil S OW0 L EY1 L
+solely S OW1 AH0 L IY0
+solemn S AA1 L AH0 M
+solemnly S AO1 L AH0 M L IY0
+soles S OW1 L Z
+solicit S AH0 L IH1 S IH0 T
+solicitation S AH0 L IH2 S IH0 T EY1 SH AH0 N
+solicited S AH0 L IH1 S IH0 T IH0 D
+soliciting S AH0 L IH1 S AH0 T IH0 NG
+solicitor S AH0 L IH1 S AH0 T ER0
+solicitors S AH0 L IH1 S AH0 T ER0 Z
+solid S AA1 L AH0 D
+solidarity S AA2 L AH0 D EH1 R AH0 T IY0
+solidly S AA1 L AH0 D L IY0
+solids S AA1 L AH0 D Z
+soliloquy S AH0 L IH1 L AH0 K W IY0
+solitaire S AA2 L AH0 T EH1 R
+solitary S AA1 L AH0 T EH2 R IY0
+solitude S AA1 L AH0 T UW2 D
+solo S OW1 L OW2
+solomon S AA1 L AH0 M AH0 N
+solos S OW1 L OW0 Z
+solstice S AO1 L S T IH0 S
+solution S AH0 L UW1 SH AH0 N
+solutions S AH0 L UW1 SH AH0 N Z
+solve S AA1 L V
+solved S AA1 L V D
+solvent S AA1 L V AH0 N T
+solver S AA1 L V ER0
+solves S AA1 L V Z
+solving S AA1 L V IH0 NG
+somalia S AH0 M AA1 L IY0 AH0
+somber S AA1 M B ER0
+sombrero S AA0 M B R EH1 R OW0
+some S AH1 M
+somebody S AH1 M B AA2 D IY0
+someday S AH1 M D EY2
+somehow S AH1 M HH AW2
+someone S AH1 M W AH2 N
+someplace S AH1 M P L EY2 S
+somersault S AH1 M ER0 S AO2 L T
+somersaults S AH1 M ER0 S AO2 L T S
+somerset S AH1 M ER0 S EH2 T
+something S AH1 M TH IH0 NG
+sometime S AH1 M T AY2 M
+sometimes S AH0 M T AY1 M Z
+somewhat S AH1 M W AH1 T
+somewhere S AH1 M W EH2 R
+somewheres S AH1 M W EH2 R Z
+son S AH1 N
+sonar S OW1 N AA0 R
+sonata S AH0 N AA1 T AH0
+song S AO1 NG
+songs S AO1 NG Z
+songwriter S AO1 NG R AY2 T ER0
+songwriters S AO1 NG R AY2 T ER0 Z
+songwriting S AO1 NG R AY2 T IH0 NG
+sonic S AA1 N IH0 K
+sonics S AA1 N IH0 K S
+sonnet S AA1 N IH0 T
+sonnets S AA1 N IH0 T S
+sonny S AH1 N IY0
+sonogram S AO1 N AH0 G R AE2 M
+sons S AH1 N Z
+soon S UW1 N
+sooner S UW1 N ER0
+soot S UH1 T
+soothe S UW1 DH
+soothes S UW1 DH Z
+soothing S UW1 DH IH0 NG
+sop S AA1 P
+sophia S OW0 F IY1 AH0
+sophisticated S AH0 F IH1 S T AH0 K EY2 T IH0 D
+sophistication S AH0 F IH2 S T AH0 K EY1 SH AH0 N
+sophomore S AA1 F M AO2 R
+sophomores S AA1 F M AO2 R Z
+soprano S AH0 P R AA1 N OW0
+sopranos S AH0 P R AE1 N OW0 Z
+sorbet S AO2 R B EY1
+sorcerer S AO1 R S ER0 ER0
+sorcerers S AO1 R S ER0 ER0 Z
+sorcery S AO1 R S ER0 IY0
+sordid S AO1 R D AH0 D
+sore S AO1 R
+sorely S AO1 R L IY0
+sores S AO1 R Z
+sorority S ER0 AO1 R AH0 T IY0
+sorrel S AO1 R AH0 L
+sorrow S AA1 R OW0
+sorrowful S AA1 R OW0 F AH0 L
+sorrows S AA1 R OW0 Z
+sorry S AA1 R IY0
+sort S AO1 R T
+sorted S AO1 R T IH0 D
+sorting S AO1 R T IH0 NG
+sorts S AO1 R T S
+sos EH2 OW2 EH1 S
+sot S AO1 T
+souffle S UW0 F L EY1
+sought S AO1 T
+soul S OW1 L
+soulful S OW1 L F AH0 L
+soulless S OW1 L L AH0 S
+souls S OW1 L Z
+sound S AW1 N D
+sounded S AW1 N D IH0 D
+sounding S AW1 N D IH0 NG
+soundly S AW1 N D L IY0
+sounds S AW1 N D Z
+soundtrack S AW1 N D T R AE2 K
+soup S UW1 P
+soups S UW1 P S
+sour S AW1 ER0
+source S AO1 R S
+sources S AO1 R S AH0 Z
+sous S UW1 Z
+south S AW1 TH
+southbound S AW1 TH B AW2 N D
+southeast S AW2 TH IY1 S T
+southern S AH1 DH ER0 N
+southerners S AH1 DH ER0 N ER0 Z
+southland S AW1 TH L AE2 N D
+southpaw S AW1 TH P AW2
+southwest S AW2 TH W EH1 S T
+southwestern S AW2 TH W EH1 S T ER0 N
+souvenir S UW2 V AH0 N IH1 R
+souvenirs S UW2 V AH0 N IH1 R Z
+sovereign S AA1 V R AH0 N
+sovereigns S AA1 V R AH0 N Z
+sovereignty S AA1 V R AH0 N T IY0
+soviet S OW1 V IY0 AH0 T
+soviets S OW1 V IY0 EH2 T S
+sow S AW1
+sown S OW1 N
+sox S AA1 K S
+soy S OY1
+soybean S OY1 B IY2 N
+soybeans S OY1 B IY2 N Z
+spa S P AA1
+space S P EY1 S
+spacecraft S P EY1 S K R AE2 F T
+spaced S P EY1 S T
+spaces S P EY1 S AH0 Z
+spaceship S P EY1 S SH IH2 P
+spaceships S P EY1 S SH IH2 P S
+spacey S P EY1 S IY0
+spacing S P EY1 S IH0 NG
+spacious S P EY1 SH AH0 S
+spade S P EY1 D
+spades S P EY1 D Z
+spaghetti S P AH0 G EH1 T IY0
+spain S P EY1 N
+spake S P EY1 K
+spalding S P AO1 L D IH0 NG
+spam S P AE1 M
+span S P AE1 N
+spandex S P AE1 N D AH0 K S
+spaniard S P AE1 N Y ER0 D
+spaniards S P AE1 N Y ER0 D Z
+spaniel S P AE1 N Y AH0 L
+spanish S P AE1 N IH0 SH
+spank S P AE1 NG K
+spanked S P AE1 NG K T
+spanking S P AE1 NG K IH0 NG
+spanky S P AE1 N K IY2
+spann S P AE1 N
+spans S P AE1 N Z
+spar S P AA1 R
+spare S P EH1 R
+spared S P EH1 R D
+spares S P EH1 R Z
+sparing S P EH1 R IH0 NG
+spark S P AA1 R K
+sparked S P AA1 R K T
+sparking S P AA1 R K IH0 NG
+sparkle S P AA1 R K AH0 L
+sparkles S P AA1 R K AH0 L Z
+sparkling S P AA1 R K L IH0 NG
+sparkly S P AA1 R K L IY0
+sparks S P AA1 R K S
+sparky S P AA1 R K IY0
+sparring S P AA1 R IH0 NG
+sparrow S P EH1 R OW0
+sparrows S P EH1 R OW0 Z
+sparta S P AA1 R T AA0
+spartan S P AA1 R T AH0 N
+spartans S P AA1 R T AH0 N Z
+spasm S P AE1 Z AH0 M
+spasms S P AE1 Z AH0 M Z
+spastic S P AE1 S T IH0 K
+spat S P AE1 T
+spatial S P EY1 SH AH0 L
+spats S P AE1 T S
+spatter S P AE1 T ER0
+spatula S P AE1 CH UH2 L AH0
+spawn S P AA1 N
+spawned S P AO1 N D
+spawning S P AA1 N IH0 NG
+speak S P IY1 K
+speaker S P IY1 K ER0
+speakerphone S P IY1 K ER0 F OW2 N
+speakers S P IY1 K ER0 Z
+speaking S P IY1 K IH0 NG
+speaks S P IY1 K S
+spear S P IH1 R
+spearhead S P IH1 R HH EH2 D
+spears S P IH1 R Z
+spec S P EH1 K
+special S P EH1 SH AH0 L
+specialist S P EH1 SH AH0 L AH0 S T
+specialists S P EH1 SH AH0 L AH0 S T S
+speciality S P EH2 SH IY0 AE1 L IH0 T IY0
+specialize S P EH1 SH AH0 L AY2 Z
+specialized S P EH1 SH AH0 L AY2 Z D
+specializes S P EH1 SH AH0 L AY2 Z AH0 Z
+specializing S P EH1 SH AH0 L AY2 Z IH0 NG
+specially S P EH1 SH AH0 L IY0
+specials S P EH1 SH AH0 L Z
+specialties S P EH1 SH AH0 L T IY0 Z
+specialty S P EH1 SH AH0 L T IY0
+species S P IY1 SH IY0 Z
+specific S P AH0 S IH1 F IH0 K
+specifically S P AH0 S IH1 F IH0 K L IY0
+specifications S P EH2 S AH0 F AH0 K EY1 SH AH0 N Z
+specifics S P IH0 S IH1 F IH0 K S
+specified S P EH1 S AH0 F AY2 D
+specify S P EH1 S AH0 F AY2
+specimen S P EH1 S AH0 M AH0 N
+specimens S P EH1 S AH0 M AH0 N Z
+speck S P EH1 K
+speckled S P EH1 K AH0 L D
+specks S P EH1 K S
+specs S P EH1 K S
+spectacle S P EH1 K T AH0 K AH0 L
+spectacles S P EH1 K T AH0 K AH0 L Z
+spectacular S P EH0 K T AE1 K Y AH0 L ER0
+spectator S P EH1 K T EY0 T ER0
+spectators S P EH1 K T EY0 T ER0 Z
+specter S P EH1 K T ER0
+spectral S P EH1 K T R AH0 L
+spectre S P EH1 K T ER0
+spectrum S P EH1 K T R AH0 M
+speculate S P EH1 K Y AH0 L EY2 T
+speculated S P EH1 K Y AH0 L EY2 T IH0 D
+speculating S P EH1 K Y AH0 L EY2 T IH0 NG
+speculation S P EH2 K Y AH0 L EY1 SH AH0 N
+speculations S P EH2 K Y AH0 L EY1 SH AH0 N Z
+sped S P EH1 D
+speech S P IY1 CH
+speeches S P IY1 CH AH0 Z
+speechless S P IY1 CH L AH0 S
+speed S P IY1 D
+speedboat S P IY1 D B OW2 T
+speeding S P IY1 D IH0 NG
+speeds S P IY1 D Z
+speedway S P IY1 D W EY2
+speedy S P IY1 D IY2
+spell S P EH1 L
+spelled S P EH1 L D
+speller S P EH1 L ER0
+spellers S P EH1 L ER0 Z
+spelling S P EH1 L IH0 NG
+spells S P EH1 L Z
+spence S P EH1 N S
+spencer S P EH1 N S ER0
+spend S P EH1 N D
+spender S P EH1 N D ER0
+spenders S P EH1 N D ER0 Z
+spending S P EH1 N D IH0 NG
+spends S P EH1 N D Z
+spent S P EH1 N T
+sperm S P ER1 M
+spew S P Y UW1
+spewing S P Y UW1 IH0 NG
+sphere S F IH1 R
+spheres S F IH1 R Z
+sphincter S F IH1 NG K T ER0
+sphinx S F IH1 NG K S
+spic S P IH1 K
+spice S P AY1 S
+spiced S P AY1 S T
+spices S P AY1 S AH0 Z
+spicy S P AY1 S IY0
+spider S P AY1 D ER0
+spiderman S P AY1 D ER0 M AE0 N
+spiders S P AY1 D ER0 Z
+spied S P AY1 D
+spiel S P IY1 L
+spies S P AY1 Z
+spiffy S P IH1 F IY0
+spigot S P IH1 G AH0 T
+spike S P AY1 K
+spiked S P AY1 K T
+spikes S P AY1 K S
+spiking S P AY1 K IH0 NG
+spill S P IH1 L
+spilled S P IH1 L D
+spiller S P IH1 L ER0
+spilling S P IH1 L IH0 NG
+spills S P IH1 L Z
+spilt S P IH1 L T
+spin S P IH1 N
+spinach S P IH1 N AH0 CH
+spinal S P AY1 N AH0 L
+spindle S P IH1 N D AH0 L
+spine S P AY1 N
+spineless S P AY1 N L AH0 S
+spines S P AY1 N Z
+spinner S P IH1 N ER0
+spinning S P IH1 N IH0 NG
+spins S P IH1 N Z
+spinster S P IH1 N S T ER0
+spiral S P AY1 R AH0 L
+spires S P AY1 R Z
+spirit S P IH1 R AH0 T
+spirited S P IH1 R IH0 T IH0 D
+spirits S P IH1 R IH0 T S
+spiritual S P IH1 R IH0 CH UW2 AH0 L
+spiritualism S P IH1 R IH0 CH UW2 AH0 L IH2 Z M
+spirituality S P IH2 R IH0 CH UW2 AE1 L AH0 T IY2
+spiritually S P IH1 R IH0 CH UW2 AH0 L IY2
+spiro S P IH1 R OW2
+spit S P IH1 T
+spite S P AY1 T
+spiteful S P AY1 T F AH0 L
+spits S P IH1 T S
+spitting S P IH1 T IH0 NG
+splash S P L AE1 SH
+splashed S P L AE1 SH T
+splashes S P L AE1 SH IH0 Z
+splashing S P L AE1 SH IH0 NG
+splat S P L AE1 T
+splatter S P L AE1 T ER0
+splattered S P L AE1 T ER0 D
+spleen S P L IY1 N
+splendid S P L EH1 N D IH0 D
+splendidly S P L EH1 N D AH0 D L IY0
+splendor S P L EH1 N D ER0
+splice S P L AY1 S
+spliced S P L AY1 S T
+splint S P L IH1 N T
+splinter S P L IH1 N T ER0
+splintered S P L IH1 N T ER0 D
+splinters S P L IH1 N T ER0 Z
+splints S P L IH1 N T S
+split S P L IH1 T
+splits S P L IH1 T S
+splitting S P L IH1 T IH0 NG
+splurge S P L ER1 JH
+spoil S P OY1 L
+spoiled S P OY1 L D
+spoiling S P OY1 L IH0 NG
+spoils S P OY1 L Z
+spokane S P OW0 K AE1 N
+spoke S P OW1 K
+spoken S P OW1 K AH0 N
+spokes S P OW1 K S
+spokesman S P OW1 K S M AH0 N
+spokesperson S P OW1 K S P ER0 S AH0 N
+sponge S P AH1 N JH
+sponges S P AH1 N JH AH0 Z
+sponsor S P AA1 N S ER0
+sponsored S P AA1 N S ER0 D
+sponsoring S P AA1 N S ER0 IH0 NG
+sponsors S P AA1 N S ER0 Z
+sponsorship S P AA1 N S ER0 SH IH2 P
+spontaneity S P AA2 N T AH0 N IY1 AH0 T IY0
+spontaneous S P AA0 N T EY1 N IY0 AH0 S
+spontaneously S P AA0 N T EY1 N IY0 AH0 S L IY0
+spook S P UW1 K
+spooked S P UW1 K T
+spooks S P UW1 K S
+spooky S P UW1 K IY0
+spool S P UW1 L
+spoon S P UW1 N
+spooner S P UW1 N ER0
+spoonful S P UW1 N F UH2 L
+spoons S P UW1 N Z
+sporadic S P ER0 AE1 D IH0 K
+spores S P AO1 R Z
+sport S P AO1 R T
+sporting S P AO1 R T IH0 NG
+sports S P AO1 R T S
+sportsman S P AO1 R T S M AH0 N
+sportsmanship S P AO1 R T S M AH0 N SH IH2 P
+sportswear S P AO1 R T S W EH2 R
+sportswriter S P AO1 R T S R AY2 T ER0
+sporty S P AO1 R T IY0
+spot S P AA1 T
+spotless S P AA1 T L AH0 S
+spotlight S P AA1 T L AY2 T
+spots S P AA1 T S
+spotted S P AA1 T IH0 D
+spotter S P AA1 T ER0
+spotting S P AA1 T IH0 NG
+spotty S P AA1 T IY0
+spousal S P AW1 Z AH0 L
+spouse S P AW1 S
+spouses S P AW1 S IH0 Z
+spout S P AW1 T
+spouting S P AW1 T IH0 NG
+sprain S P R EY1 N
+sprained S P R EY1 N D
+sprang S P R AE1 NG
+spray S P R EY1
+sprayed S P R EY1 D
+spraying S P R EY1 IH0 NG
+sprays S P R EY1 Z
+spread S P R EH1 D
+spreader S P R EH1 D ER0
+spreading S P R EH1 D IH0 NG
+spreads S P R EH1 D Z
+spreadsheet S P R EH1 D SH IY2 T
+spree S P R IY1
+spring S P R IH1 NG
+springer S P R IH1 NG ER0
+springfield S P R IH1 NG F IY2 L D
+springing S P R IH1 NG IH0 NG
+springs S P R IH1 NG Z
+springtime S P R IH1 NG T AY2 M
+sprinkle S P R IH1 NG K AH0 L
+sprinkled S P R IH1 NG K AH0 L D
+sprinkler S P R IH1 NG K L ER0
+sprinklers S P R IH1 NG K L ER0 Z
+sprinkles S P R IH1 NG K AH0 L Z
+sprinkling S P R IH1 NG K L IH0 NG
+sprint S P R IH1 N T
+sprints S P R IH1 N T S
+sprite S P R AY1 T
+sprocket S P R AA1 K AH0 T
+sprout S P R AW1 T
+sprouted S P R AW1 T IH0 D
+sprouting S P R AW1 T IH0 NG
+sprouts S P R AW1 T S
+spruce S P R UW1 S
+sprucing S P R UW1 S IH0 NG
+sprung S P R AH1 NG
+spry S P R AY1
+spud S P AH1 D
+spuds S P AH1 D Z
+spun S P AH1 N
+spunk S P AH1 NG K
+spunky S P AH1 NG K IY0
+spur S P ER1
+spurred S P ER1 D
+spurs S P ER1 Z
+spurt S P ER1 T
+sputnik S P AH1 T N IH0 K
+sputtering S P AH1 T ER0 IH0 NG
+spy S P AY1
+spyglass S P AY1 G L AE2 S
+spying S P AY1 IH0 NG
+squabble S K W AA1 B AH0 L
+squabbling S K W AA1 B AH0 L IH0 NG
+squad S K W AA1 D
+squadron S K W AA1 D R AH0 N
+squadrons S K W AA1 D R AH0 N Z
+squads S K W AA1 D Z
+squalid S K W AA1 L AH0 D
+squall S K W AO1 L
+squalor S K W AA1 L ER0
+squander S K W AA1 N D ER0
+squandered S K W AA1 N D ER0 D
+squandering S K W AA1 N D ER0 IH0 NG
+square S K W EH1 R
+squared S K W EH1 R D
+squarely S K W EH1 R L IY0
+squares S K W EH1 R Z
+squash S K W AA1 SH
+squashed S K W AA1 SH T
+squashing S K W AA1 SH IH0 NG
+squat S K W AA1 T
+squatters S K W AA1 T ER0 Z
+squatting S K W AA1 T IH0 NG
+squawk S K W AO1 K
+squawking S K W AO1 K IH0 NG
+squawks S K W AO1 K S
+squeak S K W IY1 K
+squeaker S K W IY1 K ER0
+squeaking S K W IY1 K IH0 NG
+squeaks S K W IY1 K S
+squeaky S K W IY1 K IY0
+squeal S K W IY1 L
+squealing S K W IY1 L IH0 NG
+squeals S K W IY1 L Z
+squeamish S K W IY1 M IH0 SH
+squeegee S K W IY1 JH IY0
+squeeze S K W IY1 Z
+squeezed S K W IY1 Z D
+squeezes S K W IY1 Z IH0 Z
+squeezing S K W IY1 Z IH0 NG
+squid S K W IH1 D
+squint S K W IH1 N T
+squire S K W AY1 R
+squirm S K W ER1 M
+squirming S K W ER1 M IH0 NG
+squirrel S K W ER1 AH0 L
+squirrels S K W ER1 AH0 L Z
+squirt S K W ER1 T
+squirted S K W ER1 T IH0 D
+squirting S K W ER1 T IH0 NG
+squirts S K W ER1 T S
+squishy S K W IH1 SH IY0
+sr S IY1 N Y ER0
+sri SH R IY1
+ss EH1 S EH1 S
+st S T R IY1 T
+sta S T AH1
+stab S T AE1 B
+stabbed S T AE1 B D
+stabbing S T AE1 B IH0 NG
+stability S T AH0 B IH1 L IH0 T IY0
+stabilize S T EY1 B AH0 L AY2 Z
+stabilized S T EY1 B AH0 L AY2 Z D
+stabilizer S T EY1 B AH0 L AY2 Z ER0
+stabilizers S T EY1 B AH0 L AY2 Z ER0 Z
+stabilizing S T EY1 B AH0 L AY2 Z IH0 NG
+stable S T EY1 B AH0 L
+stables S T EY1 B AH0 L Z
+stabs S T AE1 B Z
+stack S T AE1 K
+stacked S T AE1 K T
+stacking S T AE1 K IH0 NG
+stacks S T AE1 K S
+stadium S T EY1 D IY0 AH0 M
+staff S T AE1 F
+staffing S T AE1 F IH0 NG
+stafford S T AE1 F ER0 D
+stag S T AE1 G
+stage S T EY1 JH
+stagecoach S T EY1 JH K OW2 CH
+staged S T EY1 JH D
+stagehand S T EY1 JH HH AE2 N D
+stages S T EY1 JH AH0 Z
+stagger S T AE1 G ER0
+staggered S T AE1 G ER0 D
+staggering S T AE1 G ER0 IH2 NG
+staggers S T AE1 G ER0 Z
+staging S T EY1 JH IH0 NG
+stagnant S T AE1 G N AH0 N T
+stain S T EY1 N
+stained S T EY1 N D
+staining S T EY1 N IH0 NG
+stainless S T EY1 N L AH0 S
+stains S T EY1 N Z
+stair S T EH1 R
+staircase S T EH1 R K EY2 S
+stairs S T EH1 R Z
+stairway S T EH1 R W EY2
+stairwell S T EH1 R W EH2 L
+stairwells S T EH1 R W EH2 L Z
+stake S T EY1 K
+staked S T EY1 K T
+stakeout S T EY1 K AW2 T
+stakeouts S T EY1 K AW2 T S
+stakes S T EY1 K S
+staking S T EY1 K IH0 NG
+stalag S T AE1 L AE2 G
+stale S T EY1 L
+stalemate S T EY1 L M EY2 T
+stalin S T AA1 L AH0 N
+stalingrad S T AE1 L IH0 N G R AE2 D
+stalk S T AO1 K
+stalked S T AO1 K T
+stalker S T AO1 K ER0
+stalkers S T AO1 K ER0 Z
+stalking S T AO1 K IH0 NG
+stalks S T AO1 K S
+stall S T AO1 L
+stalled S T AO1 L D
+stalling S T AO1 L IH0 NG
+stallion S T AE1 L Y AH0 N
+stallions S T AE1 L Y AH0 N Z
+stalls S T AO1 L Z
+stalwart S T AO1 L W ER0 T
+stamina S T AE1 M AH0 N AH0
+stammer S T AE1 M ER0
+stamp S T AE1 M P
+stamped S T AE1 M P T
+stampede S T AE0 M P IY1 D
+stamper S T AE1 M P ER0
+stamping S T AE1 M P IH0 NG
+stamps S T AE1 M P S
+stance S T AE1 N S
+stand S T AE1 N D
+standard S T AE1 N D ER0 D
+standardized S T AE1 N D ER0 D AY2 Z D
+standards S T AE1 N D ER0 D Z
+standby S T AE1 N D B AY1
+standing S T AE1 N D IH0 NG
+standish S T AE1 N D IH0 SH
+standoff S T AE1 N D AO2 F
+standpoint S T AE1 N D P OY2 N T
+stands S T AE1 N D Z
+standstill S T AE1 N D S T IH2 L
+standup S T AE1 N D AH2 P
+stanford S T AE1 N F ER0 D
+stank S T AE1 NG K
+stanley S T AE1 N L IY0
+staph S T AE1 F
+staple S T EY1 P AH0 L
+stapled S T EY1 P AH0 L D
+stapler S T EY1 P AH0 L ER0
+staples S T EY1 P AH0 L Z
+star S T AA1 R
+starboard S T AA1 R B ER0 D
+starch S T AA1 R CH
+starched S T AA1 R CH T
+stardom S T AA1 R D AH0 M
+stardust S T AA1 R D AH2 S T
+stare S T EH1 R
+stared S T EH1 R D
+stares S T EH1 R Z
+starfish S T AA1 R F IH2 SH
+staring S T EH1 R IH0 NG
+stark S T AA1 R K
+starlet S T AA1 R L AH0 T
+starlight S T AA1 R L AY2 T
+starling S T AA1 R L IH0 NG
+starr S T AA1 R
+starred S T AA1 R D
+starring S T AA1 R IH0 NG
+starry S T AA1 R IY2
+stars S T AA1 R Z
+starship S T AA1 R SH IH2 P
+start S T AA1 R T
+started S T AA1 R T IH0 D
+starter S T AA1 R T ER0
+starters S T AA1 R T ER0 Z
+starting S T AA1 R T IH0 NG
+startle S T AA1 R T AH0 L
+startled S T AA1 R T AH0 L D
+startling S T AA1 R T L IH0 NG
+starts S T AA1 R T S
+startup S T AA1 R T AH2 P
+starvation S T AA0 R V EY1 SH AH0 N
+starve S T AA1 R V
+starved S T AA1 R V D
+starving S T AA1 R V IH0 NG
+stash S T AE1 SH
+stashed S T AE1 SH T
+stat S T AE1 T
+state S T EY1 T
+stated S T EY1 T IH0 D
+statehood S T EY1 T HH UH2 D
+stately S T EY1 T L IY0
+statement S T EY1 T M AH0 N T
+statements S T EY1 T M AH0 N T S
+states S T EY1 T S
+stateside S T EY1 T S AY1 D
+statesman S T EY1 T S M AH0 N
+statewide S T EY1 T W AY2 D
+static S T AE1 T IH0 K
+stating S T EY1 T IH0 NG
+station S T EY1 SH AH0 N
+stationary S T EY1 SH AH0 N EH2 R IY0
+stationed S T EY1 SH AH0 N D
+stationery S T EY1 SH AH0 N EH2 R IY0
+stations S T EY1 SH AH0 N Z
+statistic S T AH0 T IH1 S T IH0 K
+statistical S T AH0 T IH1 S T IH0 K AH0 L
+statistically S T AH0 T IH1 S T IH0 K AH0 L IY0
+statistics S T AH0 T IH1 S T IH0 K S
+stats S T AE1 T S
+statue S T AE1 CH UW2
+statues S T AE1 CH UW2 Z
+stature S T AE1 CH ER0
+status S T AE1 T AH0 S
+statute S T AE1 CH UW0 T
+statutes S T AE1 CH UW0 T S
+statutory S T AE1 CH AH0 T AO2 R IY0
+staunch S T AO1 N CH
+stave S T EY1 V
+stay S T EY1
+stayed S T EY1 D
+staying S T EY1 IH0 NG
+stays S T EY1 Z
+stead S T EH1 D
+steadfast S T EH1 D F AE2 S T
+steadily S T EH1 D AH0 L IY0
+steadman S T EH1 D M AH0 N
+steady S T EH1 D IY0
+steak S T EY1 K
+steakhouse S T EY1 K HH AW2 S
+steaks S T EY1 K S
+steal S T IY1 L
+stealing S T IY1 L IH0 NG
+steals S T IY1 L Z
+stealth S T EH1 L TH
+stealthy S T EH1 L TH IY0
+steam S T IY1 M
+steamboat S T IY1 M B OW2 T
+steamed S T IY1 M D
+steamer S T IY1 M ER0
+steaming S T IY1 M IH0 NG
+steamship S T IY1 M SH IH2 P
+steamy S T IY1 M IY0
+stebbins S T EH1 B IH0 N Z
+steed S T IY1 D
+steel S T IY1 L
+steele S T IY1 L
+steely S T IY1 L IY0
+steep S T IY1 P
+steeped S T IY1 P T
+steeple S T IY1 P AH0 L
+steer S T IH1 R
+steered S T IH1 R D
+steering S T IH1 R IH0 NG
+steers S T IH1 R Z
+stein S T AY1 N
+stella S T EH1 L AH0
+stellar S T EH1 L ER0
+stem S T EH1 M
+stemple S T EH1 M P AH0 L
+stems S T EH1 M Z
+stench S T EH1 N CH
+steno S T EH1 N OW0
+stenographer S T EH0 N AH1 G R AH0 F ER0
+step S T EH1 P
+stepdaughter S T EH1 P D AO2 T ER0
+stepfather S T EH1 P F AA2 DH ER0
+stephen S T IY1 V AH0 N
+stepladder S T EH1 P L AE2 D ER0
+stepmother S T EH1 P M AH2 DH ER0
+steppe S T EH1 P
+stepped S T EH1 P T
+steppers S T EH1 P ER0 Z
+stepping S T EH1 P IH0 NG
+steps S T EH1 P S
+stepsister S T EH1 P S IH2 S T ER0
+stepson S T EH1 P S AH2 N
+stereo S T EH1 R IY0 OW2
+stereos S T EH1 R IY0 OW2 Z
+stereotype S T EH1 R IY0 AH0 T AY2 P
+stereotypes S T EH1 R IY0 AH0 T AY2 P S
+sterile S T EH1 R AH0 L
+sterilization S T EH2 R AH0 L AH0 Z EY1 SH AH0 N
+sterilize S T EH1 R AH0 L AY2 Z
+sterilized S T EH1 R AH0 L AY2 Z D
+sterling S T ER1 L IH0 NG
+stern S T ER1 N
+steroid S T ER0 OY1 D
+steroids S T EH1 R OY0 D Z
+stethoscope S T EH1 TH AH0 S K OW2 P
+stetson S T EH1 T S AH0 N
+steve S T IY1 V
+steven S T IY1 V AH0 N
+stew S T UW1
+steward S T UW1 ER0 D
+stewardess S T UW1 ER0 D AH0 S
+stewardesses S T UW1 ER0 D AH0 S IH0 Z
+stewards S T UW1 ER0 D Z
+stewart S T UW1 ER0 T
+stewed S T UW1 D
+stewing S T UW1 IH0 NG
+stick S T IH1 K
+sticker S T IH1 K ER0
+stickers S T IH1 K ER0 Z
+sticking S T IH1 K IH0 NG
+stickle S T IH1 K AH0 L
+stickler S T IH1 K AH0 L ER0
+sticks S T IH1 K S
+sticky S T IH1 K IY0
+stiff S T IH1 F
+stiffed S T IH1 F T
+stiffs S T IH1 F S
+stifle S T AY1 F AH0 L
+stifled S T AY1 F AH0 L D
+stifler S T AY1 F L ER0
+stifling S T AY1 F L IH0 NG
+stigma S T IH1 G M AH0
+stigmata S T IH0 G M AA1 T AH0
+stiles S T AY1 L Z
+stiletto S T AH0 L EH1 T OW0
+still S T IH1 L
+stillborn S T IH1 L B AO1 R N
+stiller S T IH1 L ER0
+stillman S T IH1 L M AH0 N
+stillness S T IH1 L N AH0 S
+stills S T IH1 L Z
+stillwater S T IH1 L W AO2 T ER0
+stilts S T IH1 L T S
+stimulant S T IH1 M Y AH0 L AH0 N T
+stimulants S T IH1 M Y AH0 L AH0 N T S
+stimulate S T IH1 M Y AH0 L EY2 T
+stimulated S T IH1 M Y AH0 L EY2 T IH0 D
+stimulates S T IH1 M Y AH0 L EY2 T S
+stimulating S T IH1 M Y AH0 L EY2 T IH0 NG
+stimulation S T IH2 M Y AH0 L EY1 SH AH0 N
+stimuli S T IH1 M Y AH0 L AY2
+stimulus S T IH1 M Y AH0 L AH0 S
+sting S T IH1 NG
+stinger S T IH1 NG ER0
+stingers S T IH1 NG ER0 Z
+stinging S T IH1 NG IH0 NG
+stings S T IH1 NG Z
+stingy S T IH1 N JH IY0
+stink S T IH1 NG K
+stinking S T IH1 NG K IH0 NG
+stinks S T IH1 NG K S
+stinky S T IH1 NG K IY0
+stint S T IH1 N T
+stipend S T AY1 P AH0 N D
+stipulate S T IH1 P Y AH0 L EY2 T
+stipulated S T IH1 P Y AH0 L EY2 T IH0 D
+stir S T ER1
+stirred S T ER1 D
+stirring S T ER1 IH0 NG
+stirrups S T ER1 AH0 P S
+stirs S T ER1 Z
+stitch S T IH1 CH
+stitched S T IH1 CH T
+stitches S T IH1 CH IH0 Z
+stitching S T IH1 CH IH0 NG
+stock S T AA1 K
+stockade S T AA1 K EY2 D
+stockbroker S T AA1 K B R OW2 K ER0
+stocked S T AA1 K T
+stockholder S T AA1 K HH OW2 L D ER0
+stockholders S T AA1 K HH OW2 L D ER0 Z
+stockholm S T AA1 K HH OW2 L M
+stocking S T AA1 K IH0 NG
+stockings S T AA1 K IH0 NG Z
+stockpile S T AA1 K P AY2 L
+stockroom S T AA1 K R UW2 M
+stocks S T AA1 K S
+stogie S T OW1 G IY2
+stoic S T OW1 IH0 K
+stoke S T OW1 K
+stoked S T OW1 K T
+stoker S T OW1 K ER0
+stokes S T OW1 K S
+stole S T OW1 L
+stolen S T OW1 L AH0 N
+stomach S T AH1 M AH0 K
+stomachs S T AH1 M AH0 K S
+stomp S T AA1 M P
+stomped S T AA1 M P T
+stomping S T AA1 M P IH0 NG
+stone S T OW1 N
+stoned S T OW1 N D
+stonehenge S T OW1 N HH EH2 N JH
+stoneman S T OW1 N M AH0 N
+stoner S T OW1 N ER0
+stones S T OW1 N Z
+stonewall S T OW1 N W AO2 L
+stoney S T OW1 N IY0
+stony S T OW1 N IY0
+stood S T UH1 D
+stooge S T UW1 JH
+stooges S T UW1 JH IH0 Z
+stool S T UW1 L
+stools S T UW1 L Z
+stoop S T UW1 P
+stoops S T UW1 P S
+stop S T AA1 P
+stoplight S T AA1 P L AY2 T
+stopover S T AA1 P OW2 V ER0
+stopped S T AA1 P T
+stopper S T AA1 P ER0
+stopping S T AA1 P IH0 NG
+stops S T AA1 P S
+stopwatch S T AA1 P W AA2 CH
+storage S T AO1 R AH0 JH
+store S T AO1 R
+stored S T AO1 R D
+storefront S T AO1 R F R AA2 N T
+storehouse S T AO1 R HH AW2 S
+storekeeper S T AO1 R K IY2 P ER0
+storeroom S T AO1 R R UW2 M
+stores S T AO1 R Z
+stories S T AO1 R IY0 Z
+storing S T AO1 R IH0 NG
+stork S T AO1 R K
+storm S T AO1 R M
+stormed S T AO1 R M D
+stormer S T AO1 R M ER0
+storming S T AO1 R M IH0 NG
+storms S T AO1 R M Z
+stormy S T AO1 R M IY0
+story S T AO1 R IY0
+storybook S T AO1 R IY0 B UH2 K
+storyteller S T AO1 R IY0 T EH2 L ER0
+storytelling S T AO1 R IY0 T EH2 L IH0 NG
+stout S T AW1 T
+stove S T OW1 V
+stow S T OW1
+stowaway S T OW1 AH0 W EY2
+stowaways S T OW1 AH0 W EY2 Z
+stowed S T OW1 D
+straddle S T R AE1 D AH0 L
+straddling S T R AE1 D L IH0 NG
+stragglers S T R AE1 G L ER0 Z
+straight S T R EY1 T
+straightaway S T R EY1 T AH0 W EY2
+straighten S T R EY1 T AH0 N
+straightened S T R EY1 T AH0 N D
+straightening S T R EY1 T AH0 N IH0 NG
+straighter S T R EY1 T ER0
+straightforward S T R EY1 T F AO1 R W ER0 D
+straights S T R EY1 T S
+strain S T R EY1 N
+strained S T R EY1 N D
+straining S T R EY1 N IH0 NG
+strains S T R EY1 N Z
+straitjacket S T R EY1 T JH AE2 K AH0 T
+straits S T R EY1 T S
+strand S T R AE1 N D
+stranded S T R AE1 N D IH0 D
+strands S T R AE1 N D Z
+strange S T R EY1 N JH
+strangely S T R EY1 N JH L IY0
+strangeness S T R EY1 N JH N AH0 S
+stranger S T R EY1 N JH ER0
+strangers S T R EY1 N JH ER0 Z
+strangest S T R EY1 N JH IH0 S T
+strangle S T R AE1 NG G AH0 L
+strangled S T R AE1 NG G AH0 L D
+stranglehold S T R AE1 NG G AH0 L HH OW2 L D
+strangler S T R AE1 NG G L ER0
+strangling S T R AE1 NG G AH0 L IH0 NG
+strangulation S T R AE2 NG G Y AH0 L EY1 SH AH0 N
+strap S T R AE1 P
+strapped S T R AE1 P T
+strapping S T R AE1 P IH0 NG
+straps S T R AE1 P S
+strategic S T R AH0 T IY1 JH IH0 K
+strategically S T R AH0 T IY1 JH IH0 K L IY0
+strategies S T R AE1 T AH0 JH IY0 Z
+strategist S T R AE1 T IH0 JH IH0 S T
+strategy S T R AE1 T AH0 JH IY0
+stratosphere S T R AE1 T AH0 S F IH2 R
+strauss S T R AW1 S
+stravinsky S T R AH0 V IH1 N S K IY0
+straw S T R AO1
+strawberries S T R AO1 B EH2 R IY0 Z
+strawberry S T R AO1 B EH2 R IY0
+straws S T R AO1 Z
+stray S T R EY1
+strayed S T R EY1 D
+strays S T R EY1 Z
+streak S T R IY1 K
+streaking S T R IY1 K IH0 NG
+streaks S T R IY1 K S
+stream S T R IY1 M
+streamers S T R IY1 M ER0 Z
+streaming S T R IY1 M IH0 NG
+streamline S T R IY1 M L AY2 N
+streamlined S T R IY1 M L AY2 N D
+streams S T R IY1 M Z
+streep S T R IY1 P
+street S T R IY1 T
+streetcar S T R IY1 T K AA2 R
+streets S T R IY1 T S
+strength S T R EH1 NG K TH
+strengthen S T R EH1 NG TH AH0 N
+strengthened S T R EH1 NG TH AH0 N D
+strengthening S T R EH1 NG TH AH0 N IH0 NG
+strengthens S T R EH1 NG TH AH0 N Z
+strengths S T R EH1 NG K TH S
+strenuous S T R EH1 N Y UW0 AH0 S
+strep S T R EH1 P
+stress S T R EH1 S
+stressed S T R EH1 S T
+stresses S T R EH1 S AH0 Z
+stressful S T R EH1 S F AH0 L
+stressing S T R EH1 S IH0 NG
+stressor S T R EH1 S ER0
+stretch S T R EH1 CH
+stretched S T R EH1 CH T
+stretcher S T R EH1 CH ER0
+stretchers S T R EH1 CH ER0 Z
+stretches S T R EH1 CH AH0 Z
+stretching S T R EH1 CH IH0 NG
+strewn S T R UW1 N
+stricken S T R IH1 K AH0 N
+strict S T R IH1 K T
+strictest S T R IH1 K T AH0 S T
+strictly S T R IH1 K T L IY0
+stride S T R AY1 D
+strides S T R AY1 D Z
+striding S T R AY1 D IH0 NG
+strife S T R AY1 F
+strike S T R AY1 K
+strikeout S T R AY1 K AW2 T
+striker S T R AY1 K ER0
+strikers S T R AY1 K ER0 Z
+strikes S T R AY1 K S
+striking S T R AY1 K IH0 NG
+string S T R IH1 NG
+stringer S T R IH1 NG ER0
+stringing S T R IH1 NG IH0 NG
+strings S T R IH1 NG Z
+stringy S T R IH1 NG IY0
+strip S T R IH1 P
+stripe S T R AY1 P
+striped S T R AY1 P T
+stripes S T R AY1 P S
+stripped S T R IH1 P T
+stripper S T R IH1 P ER0
+strippers S T R IH1 P ER0 Z
+stripping S T R IH1 P IH0 NG
+strips S T R IH1 P S
+striptease S T R IH1 P T IY2 Z
+strive S T R AY1 V
+striving S T R AY1 V IH0 NG
+strobe S T R OW1 B
+strode S T R OW1 D
+stroganoff S T R OW1 G AH0 N AO2 F
+stroke S T R OW1 K
+stroked S T R OW1 K T
+strokes S T R OW1 K S
+stroking S T R OW1 K IH0 NG
+stroll S T R OW1 L
+strolled S T R OW1 L D
+stroller S T R OW1 L ER0
+strolling S T R OW1 L IH0 NG
+strolls S T R OW1 L Z
+strom S T R AA1 M
+strong S T R AO1 NG
+stronger S T R AO1 NG ER0
+strongest S T R AO1 NG G AH0 S T
+stronghold S T R AO1 NG HH OW2 L D
+strongly S T R AO1 NG L IY0
+stroud S T R AW1 D
+struck S T R AH1 K
+structural S T R AH1 K CH ER0 AH0 L
+structure S T R AH1 K CH ER0
+structured S T R AH1 K CH ER0 D
+structures S T R AH1 K CH ER0 Z
+strudel S T R UW1 D AH0 L
+struggle S T R AH1 G AH0 L
+struggled S T R AH1 G AH0 L D
+struggles S T R AH1 G AH0 L Z
+struggling S T R AH1 G AH0 L IH0 NG
+strung S T R AH1 NG
+strut S T R AH1 T
+struts S T R AH1 T S
+strutting S T R AH1 T IH0 NG
+strychnine S T R IH1 K N AY2 N
+stuart S T UW1 ER0 T
+stub S T AH1 B
+stubbed S T AH1 B D
+stubble S T AH1 B AH0 L
+stubborn S T AH1 B ER0 N
+stubbornness S T AH1 B ER0 N N AH0 S
+stubby S T AH1 B IY0
+stubs S T AH1 B Z
+stucco S T AH1 K OW0
+stuck S T AH1 K
+stud S T AH1 D
+student S T UW1 D AH0 N T
+students S T UW1 D AH0 N T S
+studied S T AH1 D IY0 D
+studies S T AH1 D IY0 Z
+studio S T UW1 D IY0 OW2
+studios S T UW1 D IY0 OW2 Z
+studs S T AH1 D Z
+study S T AH1 D IY0
+studying S T AH1 D IY0 IH0 NG
+stuff S T AH1 F
+stuffed S T AH1 F T
+stuffing S T AH1 F IH0 NG
+stuffs S T AH1 F S
+stuffy S T AH1 F IY0
+stumble S T AH1 M B AH0 L
+stumbled S T AH1 M B AH0 L D
+stumbles S T AH1 M B AH0 L Z
+stumbling S T AH1 M B AH0 L IH0 NG
+stump S T AH1 M P
+stumped S T AH1 M P T
+stumps S T AH1 M P S
+stun S T AH1 N
+stung S T AH1 NG
+stunk S T AH1 NG K
+stunned S T AH1 N D
+stunner S T AH1 N ER0
+stunning S T AH1 N IH0 NG
+stunningly S T AH1 N IH0 NG L IY0
+stunt S T AH1 N T
+stunted S T AH1 N T IH0 D
+stunts S T AH1 N T S
+stupendous S T UW0 P EH1 N D AH0 S
+stupid S T UW1 P AH0 D
+stupider S T UW1 P IH0 D ER0
+stupidest S T UW1 P IH0 D AH0 S T
+stupidity S T UW0 P IH1 D IH0 T IY2
+stupidly S T UW1 P AH0 D L IY0
+stupor S T UW1 P ER0
+sturdy S T ER1 D IY0
+sturgeon S T ER1 JH AH0 N
+stutter S T AH1 T ER0
+stuttering S T AH1 T ER0 IH0 NG
+stutters S T AH1 T ER0 Z
+sty S T AY1
+style S T AY1 L
+styles S T AY1 L Z
+styling S T AY1 L IH0 NG
+stylish S T AY1 L IH0 SH
+stylist S T AY1 L IH0 S T
+stymied S T AY1 M IY0 D
+styrofoam S T AY1 R AH0 F OW2 M
+styx S T IH1 K S
+su S UW1
+suave S W AA1 V
+sub S AH1 B
+subatomic S AH2 B AH0 T AA1 M IH0 K
+subbing S AH1 B IH0 NG
+subcommittee S AH1 B K AH0 M IH1 T IY0
+subconscious S AH0 B K AA1 N SH AH0 S
+subconsciously S AH0 B K AA1 N SH AH0 S L IY0
+subcutaneous S AH0 B K Y UW2 T EY1 N IY0 AH0 S
+subdivision S AH1 B D IH0 V IH2 ZH AH0 N
+subdue S AH0 B D UW1
+subdued S AH0 B D UW1 D
+subject S AH0 B JH EH1 K T
+subjected S AH0 B JH EH1 K T IH0 D
+subjecting S AH0 B JH EH1 K T IH0 NG
+subjective S AH0 B JH EH1 K T IH0 V
+subjects S AH1 B JH IH0 K T S
+sublet S AH1 B L EH2 T
+sublime S AH0 B L AY1 M
+subliminal S AH0 B L IH1 M IH0 N AH0 L
+submachine S AH2 B M AH0 SH IY1 N
+submarine S AH1 B M ER0 IY2 N
+submarines S AH1 B M ER0 IY2 N Z
+submerge S AH0 B M ER1 JH
+submerged S AH0 B M ER1 JH D
+submersible S AH0 B M ER1 S IH0 B AH0 L
+submission S AH0 B M IH1 SH AH0 N
+submissive S AH0 B M IH1 S IH0 V
+submit S AH0 B M IH1 T
+submitted S AH0 B M IH1 T IH0 D
+submitting S AH0 B M IH1 T IH0 NG
+subordinate S AH0 B AO1 R D AH0 N EY2 T
+subordinates S AH0 B AO1 R D AH0 N EY2 T S
+subpoena S AH0 P IY1 N AH0
+subpoenaed S AH0 P IY1 N AH0 D
+subs S AH1 B Z
+subscribe S AH0 B S K R AY1 B
+subscribed S AH0 B S K R AY1 B D
+subscriber S AH0 B S K R AY1 B ER0
+subscription S AH0 B S K R IH1 P SH AH0 N
+subscriptions S AH0 B S K R IH1 P SH AH0 N Z
+subsection S AH1 B S EH0 K SH AH0 N
+subsequent S AH1 B S AH0 K W AH0 N T
+subsequently S AH1 B S AH0 K W AH0 N T L IY0
+subservient S AH0 B S ER1 V IY0 AH0 N T
+subside S AH0 B S AY1 D
+subsided S AH0 B S AY1 D IH0 D
+subsidiary S AH0 B S IH1 D IY0 EH2 R IY0
+subsidize S AH1 B S IH0 D AY2 Z
+subspace S AH1 B S P EY2 S
+substance S AH1 B S T AH0 N S
+substances S AH1 B S T AH0 N S AH0 Z
+substandard S AH0 B S T AE1 N D ER0 D
+substantial S AH0 B S T AE1 N SH AH0 L
+substantially S AH0 B S T AE1 N SH AH0 L IY0
+substantiate S AH0 B S T AE1 N CH IY0 EY2 T
+substation S AH1 B S T EY2 SH AH0 N
+substitute S AH1 B S T AH0 T UW2 T
+substituted S AH1 B S T AH0 T UW2 T IH0 D
+substitutes S AH1 B S T AH0 T UW2 T S
+substituting S AH1 B S T IH0 T UW2 T IH0 NG
+substitution S AH2 B S T IH0 T UW1 SH AH0 N
+subterfuge S AH1 B T ER0 F Y UW2 JH
+subterranean S AH0 B T ER0 EY1 N IY0 AH0 N
+subtext S AH1 B T EH2 K S T
+subtitle S AH1 B T AY2 T AH0 L
+subtitled S AH1 B T AY2 T AH0 L D
+subtitles S AH1 B T AY2 T AH0 L Z
+subtle S AH1 T AH0 L
+subtlety S AH1 T AH0 L T IY0
+subtly S AH1 T AH0 L IY0
+subtract S AH0 B T R AE1 K T
+suburb S AH1 B ER0 B
+suburban S AH0 B ER1 B AH0 N
+suburbia S AH0 B ER1 B IY0 AH0
+suburbs S AH1 B ER0 B Z
+subversive S AH0 B V ER1 S IH0 V
+subvert S AH0 B V ER1 T
+subway S AH1 B W EY2
+subways S AH1 B W EY2 Z
+succeed S AH0 K S IY1 D
+succeeded S AH0 K S IY1 D IH0 D
+succeeding S AH0 K S IY1 D IH0 NG
+succeeds S AH0 K S IY1 D Z
+success S AH0 K S EH1 S
+successes S AH0 K S EH1 S AH0 Z
+successful S AH0 K S EH1 S F AH0 L
+successfully S AH0 K S EH1 S F AH0 L IY0
+succession S AH0 K S EH1 SH AH0 N
+successor S AH0 K S EH1 S ER0
+succinctly S AH0 K S IH1 NG K T L IY0
+succulent S AH1 K Y AH0 L IH0 N T
+succumb S AH0 K AH1 M
+succumbed S AH0 K AH1 M D
+such S AH1 CH
+suck S AH1 K
+sucked S AH1 K T
+sucker S AH1 K ER0
+suckered S AH1 K ER0 D
+suckers S AH1 K ER0 Z
+sucking S AH1 K IH0 NG
+suckling S AH1 K L IH0 NG
+sucks S AH1 K S
+sucre S UW1 K ER0
+suction S AH1 K SH AH0 N
+sudan S UW0 D AE1 N
+sudanese S UW2 D AH0 N IY1 Z
+sudden S AH1 D AH0 N
+suddenly S AH1 D AH0 N L IY0
+suds S AH1 D Z
+sue S UW1
+sued S UW1 D
+suede S W EY1 D
+sues S UW1 Z
+suey S UW1 IY0
+suez S UW1 EH0 Z
+suffer S AH1 F ER0
+suffered S AH1 F ER0 D
+suffering S AH1 F ER0 IH0 NG
+sufferings S AH1 F ER0 IH0 NG Z
+suffers S AH1 F ER0 Z
+suffice S AH0 F AY1 S
+sufficient S AH0 F IH1 SH AH0 N T
+sufficiently S AH0 F IH1 SH AH0 N T L IY0
+suffocate S AH1 F AH0 K EY2 T
+suffocated S AH1 F AH0 K EY2 T IH0 D
+suffocating S AH1 F AH0 K EY2 T IH0 NG
+suffocation S AH2 F AH0 K EY1 SH AH0 N
+suffolk S AH1 F AH0 K
+sugar SH UH1 G ER0
+sugars SH UH1 G ER0 Z
+sugary SH UH1 G ER0 IY0
+suggest S AH0 JH EH1 S T
+suggested S AH0 JH EH1 S T IH0 D
+suggesting S AH0 JH EH1 S T IH0 NG
+suggestion S AH0 JH EH1 S CH AH0 N
+suggestions S AH0 JH EH1 S CH AH0 N Z
+suggestive S AH0 JH EH1 S T IH0 V
+suggests S AH0 JH EH1 S T S
+sui S UW1 IY0
+suicidal S UW2 AH0 S AY1 D AH0 L
+suicide S UW1 AH0 S AY2 D
+suicides S UW1 AH0 S AY2 D Z
+suing S UW1 IH0 NG
+suit S UW1 T
+suitable S UW1 T AH0 B AH0 L
+suitcase S UW1 T K EY2 S
+suitcases S UW1 T K EY2 S IH0 Z
+suite S W IY1 T
+suited S UW1 T IH0 D
+suites S W IY1 T S
+suitor S UW1 T ER0
+suitors S UW1 T ER0 Z
+suits S UW1 T S
+sulfa S AH1 L F AH0
+sulfate S AH1 L F EY2 T
+sulfur S AH1 L F ER0
+sulfuric S AH0 L F Y UH1 R IH0 K
+sulk S AH1 L K
+sulking S AH1 L K IH0 NG
+sullen S AH1 L AH0 N
+sullied S AH1 L IY0 D
+sully S AH1 L IY0
+sulphur S AH1 L F ER0
+sultan S AH1 L T AH0 N
+sultry S AH1 L T R IY0
+sum S AH1 M
+sumatra S UW2 M AA1 T R AH0
+summarize S AH1 M ER0 AY2 Z
+summary S AH1 M ER0 IY0
+summation S AH0 M EY1 SH AH0 N
+summed S AH1 M D
+summer S AH1 M ER0
+summers S AH1 M ER0 Z
+summertime S AH1 M ER0 T AY2 M
+summit S AH1 M AH0 T
+summon S AH1 M AH0 N
+summoned S AH1 M AH0 N D
+summoning S AH1 M AH0 N IH0 NG
+summons S AH1 M AH0 N Z
+sumner S AH1 M N ER0
+sumo S UW1 M OW0
+sump S AH1 M P
+sumptuous S AH1 M P CH W AH0 S
+sums S AH1 M Z
+sun S AH1 N
+sunbathing S AH1 N B EY2 DH IH0 NG
+sunbeam S AH1 N B IY2 M
+sunburn S AH1 N B ER2 N
+sunburned S AH1 N B ER2 N D
+sundae S AH1 N D EY0
+sunday S AH1 N D EY2
+sundays S AH1 N D EY2 Z
+sundial S AH1 N D AY2 L
+sundown S AH1 N D AW2 N
+sundry S AH1 N D R IY0
+sunflower S AH1 N F L AW2 ER0
+sunflowers S AH1 N F L AW2 ER0 Z
+sung S AH1 NG
+sunglasses S AH1 N G L AE2 S IH0 Z
+sunk S AH1 NG K
+sunken S AH1 NG K AH0 N
+sunlight S AH1 N L AY2 T
+sunny S AH1 N IY0
+sunrise S AH1 N R AY2 Z
+sunroof S AH1 N R UW2 F
+suns S AH1 N Z
+sunscreen S AH0 N S K R IY1 N
+sunset S AH1 N S EH2 T
+sunsets S AH1 N S EH2 T S
+sunshine S AH1 N SH AY2 N
+suntan S AH1 N T AE2 N
+sunup S AH1 N AH0 P
+sup S AH1 P
+super S UW1 P ER0
+superb S UH0 P ER1 B
+superficial S UW2 P ER0 F IH1 SH AH0 L
+superfluous S UW1 P ER0 F L W AH2 S
+superhero S UW2 P ER0 HH IY1 R OW0
+superheroes S UW2 P ER0 HH IY1 R OW0 Z
+superhuman S UW2 P ER0 HH Y UW1 M AH0 N
+superintendent S UW2 P ER0 AH0 N T EH1 N D AH0 N T
+superior S UW0 P IH1 R IY0 ER0
+superiority S UW2 P IH0 R IY0 AO1 R IH0 T IY0
+superiors S UW0 P IH1 R IY0 ER0 Z
+superman S UW1 P ER0 M AH0 N
+supermarket S UW1 P ER0 M AA2 R K IH0 T
+supermarkets S UW1 P ER0 M AA2 R K IH0 T S
+supermodel S UW1 P ER0 M AA2 D AH0 L
+supernatural S UW2 P ER0 N AE1 CH ER0 AH0 L
+supernova S UW2 P ER0 N OW1 V AH0
+superpower S UW2 P ER0 P AW1 ER0
+superpowers S UW2 P ER0 P AW1 ER0 Z
+supersonic S UW2 P ER0 S AA1 N IH0 K
+superstar S UW2 P ER0 S T AA1 R
+superstars S UW2 P ER0 S T AA1 R Z
+superstition S UW2 P ER0 S T IH1 SH AH0 N
+superstitions S UW2 P ER0 S T IH1 SH AH0 N Z
+superstitious S UW2 P ER0 S T IH1 SH AH0 S
+superstore S UW1 P ER0 S T AO2 R
+superstructure S UW1 P ER0 S T R AH2 K CH ER0
+supervise S UW1 P ER0 V AY2 Z
+supervised S UW1 P ER0 V AY2 Z D
+supervising S UW1 P ER0 V AY2 Z IH0 NG
+supervision S UW2 P ER0 V IH1 ZH AH0 N
+supervisor S UW1 P ER0 V AY2 Z ER0
+supervisors S UW2 P ER0 V AY1 Z ER0 Z
+supervisory S UW2 P ER0 V AY1 Z ER0 IY0
+superwoman S UW1 P ER0 W UH2 M AH0 N
+supper S AH1 P ER0
+supple S AH1 P AH0 L
+supplement S AH1 P L AH0 M AH0 N T
+supplemental S AH2 P L AH0 M EH1 N T AH0 L
+supplements S AH1 P L AH0 M AH0 N T S
+supplied S AH0 P L AY1 D
+supplier S AH0 P L AY1 ER0
+suppliers S AH0 P L AY1 ER0 Z
+supplies S AH0 P L AY1 Z
+supply S AH0 P L AY1
+supplying S AH0 P L AY1 IH0 NG
+support S AH0 P AO1 R T
+supported S AH0 P AO1 R T IH0 D
+supporter S AH0 P AO1 R T ER0
+supporters S AH0 P AO1 R T ER0 Z
+supporting S AH0 P AO1 R T IH0 NG
+supportive S AH0 P AO1 R T IH0 V
+supports S AH0 P AO1 R T S
+suppose S AH0 P OW1 Z
+supposed S AH0 P OW1 Z D
+supposedly S AH0 P OW1 Z AH0 D L IY0
+supposes S AH0 P OW1 Z IH0 Z
+supposing S AH0 P OW1 Z IH0 NG
+supposition S AH2 P AH0 Z IH1 SH AH0 N
+suppress S AH0 P R EH1 S
+suppressed S AH0 P R EH1 S T
+suppressing S AH0 P R EH1 S IH0 NG
+suppression S AH0 P R EH1 SH AH0 N
+supremacy S AH0 P R EH1 M AH0 S IY0
+supreme S AH0 P R IY1 M
+supremely S UW0 P R IY1 M AH0 L IY0
+sur S ER1
+surat S ER0 AA1 T
+sure SH UH1 R
+surely SH UH1 R L IY0
+surest SH UH1 R IH0 S T
+surf S ER1 F
+surface S ER1 F AH0 S
+surfaced S ER1 F IH0 S T
+surfaces S ER1 F AH0 S AH0 Z
+surfacing S ER1 F AH0 S IH0 NG
+surfboard S ER1 F B AO2 R D
+surfboards S ER1 F B AO2 R D Z
+surfed S ER1 F T
+surfer S ER1 F ER0
+surfers S ER1 F ER0 Z
+surfing S ER1 F IH0 NG
+surge S ER1 JH
+surgeon S ER1 JH AH0 N
+surgeons S ER1 JH AH0 N Z
+surgeries S ER1 JH ER0 IY0 Z
+surgery S ER1 JH ER0 IY0
+surges S ER1 JH AH0 Z
+surgical S ER1 JH IH0 K AH0 L
+surgically S ER1 JH IH0 K AH0 L IY0
+surging S ER1 JH IH0 NG
+surly S ER1 L IY0
+surmise S ER0 M AY1 Z
+surname S ER1 N EY2 M
+surpass S ER0 P AE1 S
+surpassed S ER0 P AE1 S T
+surpasses S ER0 P AE1 S IH0 Z
+surplus S ER1 P L AH0 S
+surprise S ER0 P R AY1 Z
+surprised S ER0 P R AY1 Z D
+surprises S ER0 P R AY1 Z IH0 Z
+surprising S ER0 P R AY1 Z IH0 NG
+surprisingly S ER0 P R AY1 Z IH0 NG L IY0
+surreal S ER0 IY1 L
+surrealism S ER0 IY1 L IH0 Z AH0 M
+surrender S ER0 EH1 N D ER0
+surrendered S ER0 EH1 N D ER0 D
+surrendering S ER0 EH1 N D ER0 IH0 NG
+surrenders S ER0 EH1 N D ER0 Z
+surrey S ER1 IY0
+surrogate S ER1 AH0 G AH0 T
+surrogates S ER1 AH0 G AH0 T S
+surround S ER0 AW1 N D
+surrounded S ER0 AW1 N D IH0 D
+surrounding S ER0 AW1 N D IH0 NG
+surroundings S ER0 AW1 N D IH0 NG Z
+surrounds S ER0 AW1 N D Z
+surveil S ER0 V EY1 L
+surveillance S ER0 V EY1 L AH0 N S
+survey S ER0 V EY1
+surveyed S ER0 V EY1 D
+surveying S ER0 V EY1 IH0 NG
+surveyor S ER0 V EY1 ER0
+surveys S ER0 V EY1 Z
+survival S ER0 V AY1 V AH0 L
+survive S ER0 V AY1 V
+survived S ER0 V AY1 V D
+survives S ER0 V AY1 V Z
+surviving S ER0 V AY1 V IH0 NG
+survivor S ER0 V AY1 V ER0
+survivors S ER0 V AY1 V ER0 Z
+susan S UW1 Z AH0 N
+susceptible S AH0 S EH1 P T AH0 B AH0 L
+sushi S UW1 SH IY0
+suspect S AH0 S P EH1 K T
+suspected S AH0 S P EH1 K T IH0 D
+suspecting S AH0 S P EH1 K T IH0 NG
+suspects S AH0 S P EH1 K T S
+suspend S AH0 S P EH1 N D
+suspended S AH0 S P EH1 N D IH0 D
+suspenders S AH0 S P EH1 N D ER0 Z
+suspending S AH0 S P EH1 N D IH0 NG
+suspense S AH0 S P EH1 N S
+suspension S AH0 S P EH1 N SH AH0 N
+suspicion S AH0 S P IH1 SH AH0 N
+suspicions S AH0 S P IH1 SH AH0 N Z
+suspicious S AH0 S P IH1 SH AH0 S
+suspiciously S AH0 S P IH1 SH AH0 S L IY0
+sussex S AH1 S IH0 K S
+sustain S AH0 S T EY1 N
+sustained S AH0 S T EY1 N D
+sustaining S AH0 S T EY1 N IH0 NG
+sustains S AH0 S T EY1 N Z
+sustenance S AH1 S T AH0 N AH0 N S
+sutter S AH1 T ER0
+suture S UW1 CH ER0
+sutures S UW1 CH ER0 Z
+suturing S UW1 CH ER0 IH0 NG
+suzanne S UW0 Z AE1 N
+suzette S UW2 Z EH1 T
+suzuki S AH0 Z UW1 K IY0
+swab S W AA1 B
+swabs S W AA1 B Z
+swahili S W AA0 HH IY1 L IY0
+swales S W EY1 L Z
+swallow S W AA1 L OW0
+swallowed S W AA1 L OW0 D
+swallowing S W AA1 L OW0 IH0 NG
+swallows S W AA1 L OW0 Z
+swam S W AE1 M
+swami S W AA1 M IY0
+swamp S W AA1 M P
+swamped S W AO1 M P T
+swamps S W AA1 M P S
+swan S W AA1 N
+swank S W AE1 NG K
+swanky S W AA1 NG K IY0
+swans S W AA1 N Z
+swap S W AA1 P
+swapped S W AA1 P T
+swapping S W AA1 P IH0 NG
+swarm S W AO1 R M
+swarmed S W AO1 R M D
+swarming S W AO1 R M IH0 NG
+swarms S W AO1 R M Z
+swarthy S W AO1 R DH IY0
+swastika S W AA1 S T IH0 K AH0
+swat S W AA1 T
+swatch S W AA1 CH
+swatches S W AA1 CH AH0 Z
+sway S W EY1
+swayed S W EY1 D
+swaying S W EY1 IH0 NG
+swear S W EH1 R
+swearing S W EH1 R IH0 NG
+swears S W EH1 R Z
+sweat S W EH1 T
+sweated S W EH1 T IH0 D
+sweater S W EH1 T ER0
+sweaters S W EH1 T ER0 Z
+sweating S W EH1 T IH0 NG
+sweats S W EH1 T S
+sweatshirt S W EH1 T SH ER2 T
+sweatshop S W EH1 T SH AA2 P
+sweaty S W EH1 T IY0
+swede S W IY1 D
+sweden S W IY1 D AH0 N
+swedes S W IY1 D Z
+swedish S W IY1 D IH0 SH
+sweep S W IY1 P
+sweeper S W IY1 P ER0
+sweepers S W IY1 P ER0 Z
+sweeping S W IY1 P IH0 NG
+sweeps S W IY1 P S
+sweepstakes S W IY1 P S T EY2 K S
+sweet S W IY1 T
+sweeten S W IY1 T AH0 N
+sweetened S W IY1 T AH0 N D
+sweetener S W IY1 T AH0 N ER0
+sweeter S W IY1 T ER0
+sweetest S W IY1 T AH0 S T
+sweetheart S W IY1 T HH AA2 R T
+sweethearts S W IY1 T HH AA2 R T S
+sweetie S W IY1 T IY0
+sweetly S W IY1 T L IY0
+sweetness S W IY1 T N AH0 S
+sweets S W IY1 T S
+sweetwater S W IY1 T W AA2 T ER0
+swell S W EH1 L
+swelled S W EH1 L D
+swelling S W EH1 L IH0 NG
+swells S W EH1 L Z
+swept S W EH1 P T
+swerve S W ER1 V
+swerved S W ER1 V D
+swift S W IH1 F T
+swiftly S W IH1 F T L IY0
+swig S W IH1 G
+swill S W IH1 L
+swim S W IH1 M
+swimmer S W IH1 M ER0
+swimmers S W IH1 M ER0 Z
+swimming S W IH1 M IH0 NG
+swims S W IH1 M Z
+swimsuit S W IH1 M S UW2 T
+swimsuits S W IH1 M S UW2 T S
+swindle S W IH1 N D AH0 L
+swindled S W IH1 N D AH0 L D
+swindler S W IH1 N D AH0 L ER0
+swine S W AY1 N
+swing S W IH1 NG
+swinger S W IH1 NG ER0
+swingers S W IH1 NG ER0 Z
+swinging S W IH1 NG IH0 NG
+swings S W IH1 NG Z
+swink S W IH1 NG K
+swipe S W AY1 P
+swiped S W AY1 P T
+swiping S W AY1 P IH0 NG
+swirl S W ER1 L
+swirling S W ER1 L IH0 NG
+swirls S W ER1 L Z
+swish S W IH1 SH
+swiss S W IH1 S
+switch S W IH1 CH
+switchblade S W IH1 CH B L EY2 D
+switchboard S W IH1 CH B AO2 R D
+switched S W IH1 CH T
+switcher S W IH1 CH ER0
+switches S W IH1 CH AH0 Z
+switching S W IH1 CH IH0 NG
+switzerland S W IH1 T S ER0 L AH0 N D
+swivel S W IH1 V AH0 L
+swollen S W OW1 L AH0 N
+swoon S W UW1 N
+swoop S W UW1 P
+swooped S W UW1 P T
+swooping S W UW1 P IH0 NG
+sword S AO1 R D
+swordfish S AO1 R D F IH2 SH
+swordplay S AO1 R D P L EY2
+swords S AO1 R D Z
+swore S W AO1 R
+sworn S W AO1 R N
+swum S W AH1 M
+swung S W AH1 NG
+sycamore S IH1 K AH0 M AO2 R
+sydney S IH1 D N IY0
+syed S AY1 D
+sykes S AY1 K S
+syllable S IH1 L AH0 B AH0 L
+syllables S IH1 L AH0 B AH0 L Z
+syllabus S IH1 L AH0 B AH0 S
+sylvester S IH0 L V EH1 S T ER0
+sylvia S IH1 L V IY0 AH0
+symbiotic S IH2 M B IY0 AA1 T IH0 K
+symbol S IH1 M B AH0 L
+symbolic S IH0 M B AA1 L IH0 K
+symbolically S IH0 M B AA1 L IH0 K AH0 L IY0
+symbolism S IH1 M B AH0 L IH2 Z AH0 M
+symbolize S IH1 M B AH0 L AY2 Z
+symbolizes S IH1 M B AH0 L AY2 Z IH0 Z
+symbols S IH1 M B AH0 L Z
+symmetrical S AH0 M EH1 T R IH0 K AH0 L
+symmetry S IH1 M AH0 T R IY0
+sympathetic S IH2 M P AH0 TH EH1 T IH0 K
+sympathies S IH1 M P AH0 TH IY0 Z
+sympathize S IH1 M P AH0 TH AY2 Z
+sympathizer S IH1 M P AH0 TH AY2 Z ER0
+sympathy S IH1 M P AH0 TH IY0
+symphonic S IH0 M F AA1 N IH0 K
+symphonies S IH1 M F AH0 N IY0 Z
+symphony S IH1 M F AH0 N IY0
+symposium S IH0 M P OW1 Z IY0 AH0 M
+symptom S IH1 M P T AH0 M
+symptomatic S IH2 M P T AH0 M AE1 T IH0 K
+symptoms S IH1 M P T AH0 M Z
+synagogue S IH1 N AH0 G AO2 G
+synapse S IH1 AE0 P S
+synaptic S IH2 N AE1 P T IH0 K
+sync S IH1 NG K
+synch S IH1 N CH
+synchro S IH1 NG K R OW0
+synchronization S IH2 NG K R AH0 N AH0 Z EY1 SH AH0 N
+synchronize S IH1 NG K R AH0 N AY2 Z
+synchronized S IH1 NG K R AH0 N AY2 Z D
+syndicate S IH1 N D IH0 K AH0 T
+syndicated S IH1 N D IH0 K EY2 T IH0 D
+syndication S IH2 N D IH0 K EY1 SH AH0 N
+syndrome S IH1 N D R OW2 M
+synergy S IH1 N ER0 JH IY0
+synonymous S AH0 N AA1 N AH0 M AH0 S
+synopsis S IH0 N AA1 P S IH0 S
+syntax S IH1 N T AE2 K S
+synthesis S IH1 N TH AH0 S AH0 S
+synthesizer S IH1 N TH AH0 S AY2 Z ER0
+synthetic S IH0 N TH EH1 T IH0 K
+syphilis S IH1 F AH0 L IH0 S
+syracuse S IH1 R AH0 K Y UW2 Z
+syria S IH1 R IY0 AH0
+syringe S ER0 IH1 N JH
+syringes S ER0 IH1 N JH AH0 Z
+syrup S ER1 AH0 P
+system S IH1 S T AH0 M
+systematic S IH2 S T AH0 M AE1 T IH0 K
+systematically S IH2 S T AH0 M AE1 T IH0 K L IY0
+systems S IH1 S T AH0 M Z
+systolic S IH0 S T AO1 L IH0 K
+t T IY1
+ta T AA1
+tab T AE1 B
+tabasco T AH0 B AE1 S K OW0
+tabby T AE1 B IY0
+taber T EY1 B ER0
+tabernacle T AE1 B ER0 N AE2 K AH0 L
+table T EY1 B AH0 L
+tablecloth T EY1 B AH0 L K L AO2 TH
+tablecloths T EY1 B AH0 L K L AO2 TH S
+tables T EY1 B AH0 L Z
+tablet T AE1 B L AH0 T
+tablets T AE1 B L AH0 T S
+tabloid T AE1 B L OY0 D
+tabloids T AE1 B L OY0 D Z
+taboo T AE0 B UW1
+taboos T AE0 B UW1 Z
+tabs T AE1 B Z
+tachycardia T AA2 K IY0 K AA1 R D IY2 AH0
+tack T AE1 K
+tackle T AE1 K AH0 L
+tackled T AE1 K AH0 L D
+tackles T AE1 K AH0 L Z
+tackling T AE1 K L IH0 NG
+tacks T AE1 K S
+tacky T AE1 K IY0
+taco T AA1 K OW0
+tacoma T AH0 K OW1 M AA0
+tacos T AA1 K OW0 Z
+tact T AE1 K T
+tactful T AE1 K T F AH0 L
+tactic T AE1 K T IH0 K
+tactical T AE1 K T IH0 K AH0 L
+tactics T AE1 K T IH0 K S
+tactile T AE1 K T IH0 L
+tactless T AE1 K T L AH0 S
+tad T AE1 D
+tadpole T AE1 D P OW2 L
+tadpoles T AE1 D P OW2 L Z
+tae T EY1
+taffeta T AE1 F AH0 T AH0
+taffy T AE1 F IY0
+taft T AE1 F T
+tag T AE1 G
+tagged T AE1 G D
+tagging T AE1 G IH0 NG
+tags T AE1 G Z
+tahiti T AH0 HH IY1 T IY0
+tai T AY1
+tail T EY1 L
+tailed T EY1 L D
+tailgate T EY1 L G EY2 T
+tailing T EY1 L IH0 NG
+tailor T EY1 L ER0
+tailored T EY1 L ER0 D
+tailoring T EY1 L ER0 IH0 NG
+tailors T EY1 L ER0 Z
+tailpipe T EY1 L P AY2 P
+tails T EY1 L Z
+taint T EY1 N T
+tainted T EY1 N T IH0 D
+taipei T AY1 P EY2
+tait T EY1 T
+taiwan T AY1 W AA1 N
+taiwanese T AY1 W AA0 N IY1 Z
+taj T AA1 ZH
+take T EY1 K
+taken T EY1 K AH0 N
+takeoff T EY1 K AO2 F
+takeout T EY1 K AW2 T
+takeover T EY1 K OW2 V ER0
+taker T EY1 K ER0
+takers T EY1 K ER0 Z
+takes T EY1 K S
+taketh T EY1 K AH0 TH
+taking T EY1 K IH0 NG
+tal T AA1 L
+talbot T AE1 L B AH0 T
+talcum T AE1 L K AH0 M
+tale T EY1 L
+talent T AE1 L AH0 N T
+talented T AE1 L AH0 N T IH0 D
+talents T AE1 L AH0 N T S
+tales T EY1 L Z
+talisman T AE1 L IH0 S M AH0 N
+talk T AO1 K
+talkative T AO1 K AH0 T IH0 V
+talked T AO1 K T
+talker T AO1 K ER0
+talkie T AO1 K IY0
+talking T AO1 K IH0 NG
+talks T AO1 K S
+talky T AO1 K IY0
+tall T AO1 L
+tallahassee T AE2 L AH0 HH AE1 S IY0
+taller T AO1 L ER0
+tallest T AO1 L IH0 S T
+tally T AE1 L IY0
+tallyho T AE2 L IY0 HH OW1
+talmud T AE1 L M AH0 D
+talon T AE1 L AH0 N
+talons T AE1 L AH0 N Z
+tam T AE1 M
+tamales T AH0 M AA1 L IY0 Z
+tamara T AH0 M AA1 R AH0
+tambourine T AE2 M B ER0 IY1 N
+tame T EY1 M
+tamed T EY1 M D
+tamer T EY1 M ER0
+taming T EY1 M IH0 NG
+tammany T AE1 M AH0 N IY0
+tammy T AE1 M IY0
+tampa T AE1 M P AH0
+tamper T AE1 M P ER0
+tampered T AE1 M P ER0 D
+tampering T AE1 M P ER0 IH0 NG
+tampon T AE1 M P AA0 N
+tampons T AE1 M P AA0 N Z
+tan T AE1 N
+tandem T AE1 N D AH0 M
+tang T AE1 NG
+tangent T AE1 N JH AH0 N T
+tangerine T AE2 N JH ER0 IY1 N
+tangible T AE1 N JH AH0 B AH0 L
+tangle T AE1 NG G AH0 L
+tangled T AE1 NG G AH0 L D
+tango T AE1 NG G OW0
+tania T AA1 N Y AH0
+tank T AE1 NG K
+tanked T AE1 NG K T
+tanker T AE1 NG K ER0
+tankers T AE1 NG K ER0 Z
+tanks T AE1 NG K S
+tanned T AE1 N D
+tanner T AE1 N ER0
+tanning T AE1 N IH0 NG
+tantalizing T AE1 N T AH0 L AY2 Z IH0 NG
+tantamount T AE1 N T AH0 M AW2 N T
+tantric T AE1 N T R IH0 K
+tantrum T AE1 N T R AH0 M
+tantrums T AE1 N T R AH0 M Z
+tao T AW1
+taos T AW1 Z
+tap T AE1 P
+tape T EY1 P
+taped T EY1 P T
+tapes T EY1 P S
+tapestries T AE1 P AH0 S T R IY0 Z
+tapestry T AE1 P AH0 S T R IY0
+taping T EY1 P IH0 NG
+tapped T AE1 P T
+tapping T AE1 P IH0 NG
+taps T AE1 P S
+tar T AA1 R
+tara T EH1 R AH0
+tarantula T AH0 R AE1 N CH UW0 L AH0
+tardiness T AA1 R D IY0 N AH0 S
+tardy T AA1 R D IY0
+target T AA1 R G AH0 T
+targeted T AA1 R G AH0 T IH0 D
+targeting T AA1 R G AH0 T IH0 NG
+targets T AA1 R G AH0 T S
+tarmac T AA1 R M AE2 K
+tarnish T AA1 R N IH0 SH
+tarnished T AA1 R N IH0 SH T
+taro T EH1 R OW0
+tarot T AE2 R OW1
+tarp T AA1 R P
+tarred T AA1 R D
+tarry T EH1 R IY0
+tart T AA1 R T
+tartan T AA1 R T AH0 N
+tartar T AA1 R T ER0
+tartars T AA1 R T ER0 Z
+tarts T AA1 R T S
+tarzan T AA1 R Z AE2 N
+task T AE1 S K
+tasked T AE1 S K T
+tasker T AE1 S K ER0
+tasks T AE1 S K S
+tassel T AE1 S AH0 L
+taste T EY1 S T
+tasted T EY1 S T IH0 D
+tasteful T EY1 S T F AH0 L
+tastefully T EY1 S T F AH0 L IY0
+tasteless T EY1 S T L AH0 S
+tastes T EY1 S T S
+tasting T EY1 S T IH0 NG
+tasty T EY1 S T IY0
+tat T AE1 T
+tate T EY1 T
+tater T EY1 T ER0
+taters T EY1 T ER0 Z
+tattler T AE1 T L ER0
+tattoo T AE2 T UW1
+tattooed T AE2 T UW1 D
+tattooing T AE2 T UW1 IH0 NG
+tattoos T AE2 T UW1 Z
+taught T AO1 T
+taunt T AO1 N T
+taunting T AO1 N T IH0 NG
+taurus T AO1 R AH0 S
+taut T AO1 T
+tavern T AE1 V ER0 N
+tawdry T AO1 D R IY0
+tawny T AA1 N IY0
+tax T AE1 K S
+taxation T AE0 K S EY1 SH AH0 N
+taxes T AE1 K S AH0 Z
+taxi T AE1 K S IY0
+taxicab T AE1 K S IY0 K AE2 B
+taxing T AE1 K S IH0 NG
+taxis T AE1 K S IY0 Z
+taxpayer T AE1 K S P EY2 ER0
+taxpayers T AE1 K S P EY2 ER0 Z
+tay T EY1
+tb T IY1 B IY1
+tchaikovsky CH EY2 K AA1 V S K IY0
+te T IY1
+tea T IY1
+teach T IY1 CH
+teacher T IY1 CH ER0
+teachers T IY1 CH ER0 Z
+teaches T IY1 CH AH0 Z
+teaching T IY1 CH IH0 NG
+teachings T IY1 CH IH0 NG Z
+teacup T IY1 K AH2 P
+teak T IY1 K
+teal T IY1 L
+team T IY1 M
+teamed T IY1 M D
+teaming T IY1 M IH0 NG
+teammate T IY1 M EY2 T
+teammates T IY1 M M EY2 T S
+teams T IY1 M Z
+teamsters T IY1 M S T ER0 Z
+teamwork T IY1 M W ER2 K
+teapot T IY1 P AA2 T
+tear T EH1 R
+tearful T IH1 R F AH0 L
+tearing T EH1 R IH0 NG
+tears T EH1 R Z
+teas T IY1 Z
+tease T IY1 Z
+teased T IY1 Z D
+teaser T IY1 Z ER0
+teasing T IY1 Z IH0 NG
+teaspoon T IY1 S P UW2 N
+teaspoons T IY1 S P UW2 N Z
+teat T IY1 T
+teats T IY1 T S
+tec T EH1 K
+tech T EH1 K
+technical T EH1 K N IH0 K AH0 L
+technicalities T EH2 K N IH0 K AE1 L AH0 T IY0 Z
+technicality T EH2 K N IH0 K AE1 L IH0 T IY0
+technically T EH1 K N IH0 K AH0 L IY0
+technician T EH0 K N IH1 SH AH0 N
+technicians T EH0 K N IH1 SH AH0 N Z
+technicolor T EH1 K N IH0 K AH2 L ER0
+technique T EH0 K N IY1 K
+techniques T EH0 K N IY1 K S
+techno T EH1 K N OW0
+technological T EH2 K N AH0 L AA1 JH IH0 K AH0 L
+technologically T EH2 K N AH0 L AA1 JH IH0 K AH0 L IY0
+technologies T EH0 K N AA1 L AH0 JH IY0 Z
+technology T EH0 K N AA1 L AH0 JH IY0
+techs T EH1 K S
+ted T EH1 D
+teddy T EH1 D IY0
+tedious T IY1 D IY0 AH0 S
+tedium T IY1 D IY0 AH0 M
+tee T IY1
+teeming T IY1 M IH0 NG
+teen T IY1 N
+teenage T IY1 N EY2 JH
+teenager T IY1 N EY2 JH ER0
+teenagers T IY1 N EY2 JH ER0 Z
+teens T IY1 N Z
+teensy T IY1 N S IY0
+teeny T IY1 N IY0
+teeth T IY1 TH
+teething T IY1 DH IH0 NG
+tel T EH1 L
+telecast T EH1 L AH0 K AE2 S T
+telecommunications T EH2 L AH0 K AH0 M Y UW2 N AH0 K EY1 SH AH0 N Z
+telegram T EH1 L AH0 G R AE2 M
+telegrams T EH1 L AH0 G R AE2 M Z
+telegraph T EH1 L AH0 G R AE2 F
+telegraphed T EH1 L AH0 G R AE2 F T
+telemarketing T EH2 L AH0 M AA1 R K AH0 T IH0 NG
+telemetry T AH0 L EH1 M AH0 T R IY0
+telepathic T EH2 L AH0 P AE1 TH AH0 K
+telepathy T AH0 L EH1 P AH0 TH IY0
+telephone T EH1 L AH0 F OW2 N
+telephoned T EH1 L AH0 F OW2 N D
+telephones T EH1 L AH0 F OW2 N Z
+telephoning T EH1 L AH0 F OW2 N IH0 NG
+telephoto T EH1 L AH0 F OW2 T OW0
+teleprompter T EH1 L AH0 P R AA2 M P T ER0
+telescope T EH1 L AH0 S K OW2 P
+telescopes T EH1 L AH0 S K OW2 P S
+telethon T EH1 L AH0 TH AA0 N
+teletype T EH1 L AH0 T AY2 P
+televised T EH1 L AH0 V AY2 Z D
+television T EH1 L AH0 V IH2 ZH AH0 N
+televisions T EH1 L AH0 V IH2 ZH AH0 N Z
+telex T EH1 L EH2 K S
+telfer T EH1 L F ER0
+telford T EH1 L F ER0 D
+tell T EH1 L
+teller T EH1 L ER0
+tellers T EH1 L ER0 Z
+telling T EH1 L IH0 NG
+tells T EH1 L Z
+telltale T EH1 L T EY2 L
+telly T EH1 L IY0
+temp T EH1 M P
+tempe T EH1 M P IY0
+temper T EH1 M P ER0
+temperament T EH1 M P R AH0 M AH0 N T
+temperamental T EH2 M P R AH0 M EH1 N T AH0 L
+temperance T EH1 M P ER0 AH0 N S
+temperature T EH1 M P R AH0 CH ER0
+temperatures T EH1 M P R AH0 CH ER0 Z
+tempered T EH1 M P ER0 D
+tempers T EH1 M P ER0 Z
+tempest T EH1 M P AH0 S T
+templar T EH1 M P L ER0
+template T EH1 M P L AH0 T
+templates T EH1 M P L AH0 T S
+temple T EH1 M P AH0 L
+temples T EH1 M P AH0 L Z
+tempo T EH1 M P OW2
+temporal T EH1 M P ER0 AH0 L
+temporarily T EH2 M P ER0 EH1 R AH0 L IY0
+temporary T EH1 M P ER0 EH2 R IY0
+temps T EH1 M P S
+tempt T EH1 M P T
+temptation T EH0 M T EY1 SH AH0 N
+temptations T EH0 M T EY1 SH AH0 N Z
+tempted T EH1 M P T IH0 D
+tempting T EH1 M P T IH0 NG
+temptress T EH1 M P T R IH0 S
+ten T EH1 N
+tenacious T AH0 N EY1 SH AH0 S
+tenacity T AH0 N AE1 S IH0 T IY0
+tenant T EH1 N AH0 N T
+tenants T EH1 N AH0 N T S
+tend T EH1 N D
+tended T EH1 N D IH0 D
+tendencies T EH1 N D AH0 N S IY0 Z
+tendency T EH1 N D AH0 N S IY0
+tender T EH1 N D ER0
+tenderloin T EH1 N D ER0 L OY2 N
+tenderly T EH1 N D ER0 L IY0
+tenderness T EH1 N D ER0 N AH0 S
+tending T EH1 N D IH0 NG
+tendon T EH1 N D AH0 N
+tendons T EH1 N D AH0 N Z
+tends T EH1 N D Z
+tenement T EH1 N AH0 M AH0 N T
+tenements T EH1 N AH0 M AH0 N T S
+tenfold T EH1 N F OW2 L D
+teng T EH1 NG
+tenner T EH1 N ER0
+tennessee T EH2 N AH0 S IY1
+tennis T EH1 N AH0 S
+tennyson T EH1 N IH0 S AH0 N
+tenor T EH1 N ER0
+tens T EH1 N Z
+tense T EH1 N S
+tension T EH1 N SH AH0 N
+tensions T EH1 N CH AH0 N Z
+tent T EH1 N T
+tentacle T EH1 N T AH0 K AH0 L
+tentacles T EH1 N T AH0 K AH0 L Z
+tentative T EH1 N T AH0 T IH0 V
+tenth T EH1 N TH
+tents T EH1 N T S
+tenuous T EH1 N Y AH0 W AH0 S
+tenure T EH1 N Y ER0
+tenured T EH1 N Y ER0 D
+tequila T AH0 K IY1 L AH0
+ter T ER1
+teriyaki T EH2 R IH0 Y AA1 K IY0
+term T ER1 M
+terminal T ER1 M AH0 N AH0 L
+terminally T ER1 M AH0 N AH0 L IY0
+terminals T ER1 M AH0 N AH0 L Z
+terminate T ER1 M AH0 N EY2 T
+terminated T ER1 M AH0 N EY2 T IH0 D
+terminating T ER1 M AH0 N EY2 T IH0 NG
+termination T ER0 M AH0 N EY1 SH AH0 N
+terminator T ER1 M AH0 N EY2 T ER0
+terminology T ER2 M IH0 N AA1 L AH0 JH IY0
+terminus T ER1 M IH0 N AH0 S
+termite T ER1 M AY0 T
+termites T ER1 M AY0 T S
+terms T ER1 M Z
+terra T EH1 R AA2
+terrace T EH1 R AH0 S
+terrain T ER0 EY1 N
+terre T EH1 R AH0
+terrible T EH1 R AH0 B AH0 L
+terribly T EH1 R AH0 B L IY0
+terrier T EH1 R IY0 ER0
+terrific T ER0 IH1 F IH0 K
+terrified T EH1 R AH0 F AY2 D
+terrifies T EH1 R AH0 F AY2 Z
+terrify T EH1 R AH0 F AY2
+terrifying T EH1 R AH0 F AY2 IH0 NG
+territorial T EH2 R IH0 T AO1 R IY0 AH0 L
+territories T EH1 R AH0 T AO2 R IY0 Z
+territory T EH1 R IH0 T AO2 R IY0
+terror T EH1 R ER0
+terrorism T EH1 R ER0 IH2 Z AH0 M
+terrorist T EH1 R ER0 IH0 S T
+terrorists T EH1 R ER0 AH0 S T S
+terrorize T EH1 R ER0 AY2 Z
+terrorized T EH1 R ER0 AY2 Z D
+terrorizing T EH1 R ER0 AY2 Z IH0 NG
+terrors T EH1 R ER0 Z
+terry T EH1 R IY0
+tesla T EH1 S L AH0
+test T EH1 S T
+testament T EH1 S T AH0 M AH0 N T
+tested T EH1 S T IH0 D
+tester T EH1 S T ER0
+testicle T EH1 S T IH2 K AH0 L
+testicles T EH1 S T IH2 K AH0 L Z
+testicular T EH2 S T IH1 K Y AH0 L ER0
+testified T EH1 S T AH0 F AY2 D
+testifies T EH1 S T AH0 F AY2 Z
+testify T EH1 S T AH0 F AY2
+testifying T EH1 S T AH0 F AY2 IH0 NG
+testimonial T EH2 S T AH0 M OW1 N IY0 AH0 L
+testimonies T EH1 S T AH0 M OW2 N IY0 Z
+testimony T EH1 S T AH0 M OW2 N IY0
+testing T EH1 S T IH0 NG
+testosterone T EH2 S T AA1 S T ER0 OW2 N
+tests T EH1 S T S
+testy T EH1 S T IY0
+tetanus T EH1 T AH0 N AH0 S
+tete T EH1 T
+tether T EH1 DH ER0
+tethered T EH1 DH ER0 D
+tex T EH1 K S
+texan T EH1 K S AH0 N
+texans T EH1 K S AH0 N Z
+texas T EH1 K S AH0 S
+text T EH1 K S T
+textbook T EH1 K S T B UH2 K
+textbooks T EH1 K S T B UH2 K S
+textile T EH1 K S T AY2 L
+texting T EH1 K S T IH2 NG
+texts T EH1 K S T S
+texture T EH1 K S CH ER0
+textures T EH1 K S CH ER0 Z
+th T IY1 EY1 CH
+thaddeus TH AE1 D IY0 AH0 S
+thai T AY1
+thailand T AY1 L AE2 N D
+thames T EH1 M Z
+than DH AE1 N
+thane TH EY1 N
+thank TH AE1 NG K
+thanked TH AE1 NG K T
+thankful TH AE1 NG K F AH0 L
+thankfully TH AE1 NG K F AH0 L IY0
+thanking TH AE1 NG K IH0 NG
+thankless TH AE1 NG K L AH0 S
+thanks TH AE1 NG K S
+thanksgiving TH AE2 NG K S G IH1 V IH0 NG
+thankyou TH AE1 NG K Y UW1
+thar TH AA1 R
+that DH AE1 T
+that's DH AE1 T S
+thatch TH AE1 CH
+thatcher TH AE1 CH ER0
+thaw TH AO1
+thawed TH AO1 D
+the DH AH0
+theater TH IY1 AH0 T ER0
+theaters TH IY1 AH0 T ER0 Z
+theatre TH IY1 AH0 T ER0
+theatres TH IY1 AH0 T ER0 Z
+theatrical TH IY0 AE1 T R IH0 K AH0 L
+theatrics TH IY1 T R IH0 K S
+thee DH IY1
+theft TH EH1 F T
+thefts TH EH1 F T S
+their DH EH1 R
+theirs DH EH1 R Z
+them DH EH1 M
+theme TH IY1 M
+themes TH IY1 M Z
+themselves DH EH0 M S EH1 L V Z
+then DH EH1 N
+thence DH EH1 N S
+theodore TH IY1 AH0 D AO2 R
+theologian TH IY2 AH0 L OW1 JH IY0 AH0 N
+theological TH IY2 AH0 L AA1 JH IH0 K AH0 L
+theology TH IY0 AA1 L AH0 JH IY0
+theorem TH IH1 R AH0 M
+theoretical TH IY2 ER0 EH1 T IH0 K AH0 L
+theoretically TH IY2 ER0 EH1 T IH0 K AH0 L IY0
+theories TH IH1 R IY0 Z
+theory TH IH1 R IY0
+therapeutic TH EH2 R AH0 P Y UW1 T IH0 K
+therapies TH EH1 R AH0 P IY0 Z
+therapist TH EH1 R AH0 P AH0 S T
+therapists TH EH1 R AH0 P IH0 S T S
+therapy TH EH1 R AH0 P IY0
+there DH EH1 R
+there's DH EH1 R Z
+thereafter DH EH0 R AE1 F T ER0
+thereby DH EH1 R B AY1
+therefore DH EH1 R F AO2 R
+therein DH EH0 R IH1 N
+thereof DH EH2 R AH1 V
+thereto DH EH1 R T UW2
+thermal TH ER1 M AH0 L
+thermometer TH ER0 M AA1 M AH0 T ER0
+thermometers TH ER0 M AA1 M AH0 T ER0 Z
+thermos TH ER1 M AH0 S
+thermostat TH ER1 M AH0 S T AE2 T
+thesaurus TH AH0 S AO1 R AH0 S
+these DH IY1 Z
+thesis TH IY1 S AH0 S
+thespian TH EH1 S P IY0 AH0 N
+theta TH EY1 T AH0
+they DH EY1
+they're DH EH1 R
+thick TH IH1 K
+thickens TH IH1 K AH0 N Z
+thicker TH IH1 K ER0
+thicket TH IH1 K IH0 T
+thickness TH IH1 K N AH0 S
+thief TH IY1 F
+thievery TH IY1 V ER0 IY0
+thieves TH IY1 V Z
+thieving TH IY1 V IH0 NG
+thigh TH AY1
+thighs TH AY1 Z
+thimble TH IH1 M B AH0 L
+thin TH IH1 N
+thine DH AY1 N
+thing TH IH1 NG
+things TH IH1 NG Z
+thingy TH IH1 NG IY0
+think TH IH1 NG K
+thinker TH IH1 NG K ER0
+thinkers TH IH1 NG K ER0 Z
+thinking TH IH1 NG K IH0 NG
+thinks TH IH1 NG K S
+thinly TH IH1 N L IY0
+thinner TH IH1 N ER0
+thinning TH IH1 N IH0 NG
+thins TH IH1 N Z
+third TH ER1 D
+thirdly TH ER1 D L IY0
+thirds TH ER1 D Z
+thirst TH ER1 S T
+thirsty TH ER1 S T IY0
+thirteen TH ER1 T IY1 N
+thirteenth TH ER1 T IY1 N TH
+thirties TH ER1 T IY0 Z
+thirty TH ER1 D IY2
+this DH IH1 S
+thistle TH IH1 S AH0 L
+thither DH IH1 TH ER2
+tho DH OW1
+thomas T AA1 M AH0 S
+thompson T AA1 M P S AH0 N
+thong TH AO1 NG
+thor TH AO1 R
+thoracic TH AO0 R AE1 S IH0 K
+thorax TH AO1 R AE0 K S
+thorn TH AO1 R N
+thorns TH AO1 R N Z
+thorny TH AO1 R N IY0
+thorough TH ER1 OW0
+thoroughbred TH ER1 OW0 B R EH1 D
+thoroughbreds TH ER1 OW0 B R EH1 D Z
+thoroughfare TH ER1 OW0 F EH2 R
+thoroughly TH ER1 OW0 L IY0
+thoroughness TH ER1 OW0 N AH0 S
+thorpe TH AO1 R P
+those DH OW1 Z
+thou DH AW1
+though DH OW1
+thought TH AO1 T
+thoughtful TH AO1 T F AH0 L
+thoughtless TH AO1 T L AH0 S
+thoughts TH AO1 T S
+thousand TH AW1 Z AH0 N D
+thousands TH AW1 Z AH0 N D Z
+thousandth TH AW1 Z AH0 N D TH
+thrall TH R AO1 L
+thrash TH R AE1 SH
+thrashed TH R AE1 SH T
+thrashing TH R AE1 SH IH0 NG
+thread TH R EH1 D
+threads TH R EH1 D Z
+threat TH R EH1 T
+threaten TH R EH1 T AH0 N
+threatened TH R EH1 T AH0 N D
+threatening TH R EH1 T AH0 N IH0 NG
+threatens TH R EH1 T AH0 N Z
+threats TH R EH1 T S
+three TH R IY1
+threes TH R IY1 Z
+threesome TH R IY1 S AH0 M
+threshold TH R EH1 SH OW2 L D
+threw TH R UW1
+thrice TH R AY1 S
+thrift TH R IH1 F T
+thrifty TH R IH1 F T IY0
+thrill TH R IH1 L
+thrilled TH R IH1 L D
+thriller TH R IH1 L ER0
+thrilling TH R IH1 L IH0 NG
+thrills TH R IH1 L Z
+thrive TH R AY1 V
+thrives TH R AY1 V Z
+thriving TH R AY1 V IH0 NG
+throat TH R OW1 T
+throats TH R OW1 T S
+throbbing TH R AA1 B IH0 NG
+throes TH R OW1 Z
+thrombosis TH R AA0 M B OW1 S AH0 S
+throne TH R OW1 N
+throng TH R AO1 NG
+throttle TH R AA1 T AH0 L
+through TH R UW1
+throughout TH R UW0 AW1 T
+throw TH R OW1
+throwback TH R OW1 B AE2 K
+thrower TH R OW1 ER0
+throwing TH R OW1 IH0 NG
+thrown TH R OW1 N
+throws TH R OW1 Z
+thru TH R UW1
+thrush TH R AH1 SH
+thrust TH R AH1 S T
+thruster TH R AH1 S T ER0
+thrusters TH R AH1 S T ER0 Z
+thrusting TH R AH1 S T IH0 NG
+thud TH AH1 D
+thug TH AH1 G
+thugs TH AH1 G Z
+thumb TH AH1 M
+thumbs TH AH1 M Z
+thump TH AH1 M P
+thumper TH AH1 M P ER0
+thumping TH AH1 M P IH0 NG
+thunder TH AH1 N D ER0
+thunderbird TH AH1 N D ER0 B ER2 D
+thunderbolt TH AH1 N D ER0 B AO2 L T
+thundering TH AH1 N D ER0 IH0 NG
+thunderous TH AH1 N D ER0 AH0 S
+thunderstorm TH AH1 N D ER0 S T AO2 R M
+thunderstorms TH AH1 N D ER0 S T AO2 R M Z
+thursday TH ER1 Z D EY2
+thursdays TH ER1 Z D EY0 Z
+thus DH AH1 S
+thwart TH W AO1 R T
+thwarted TH W AO1 R T IH0 D
+thy DH AY1
+thyroid TH AY1 R OY0 D
+thyself DH AY2 S EH1 L F
+ti T IY1
+tiara T IY0 AA1 R AH0
+tibby T IH1 B IY0
+tibet T AH0 B EH1 T
+tibetan T IH0 B EH1 T AH0 N
+tibia T IH1 B IY0 AH0
+tic T IH1 K
+tick T IH1 K
+ticked T IH1 K T
+ticker T IH1 K ER0
+ticket T IH1 K AH0 T
+tickets T IH1 K AH0 T S
+ticking T IH1 K IH0 NG
+tickle T IH1 K AH0 L
+tickled T IH1 K AH0 L D
+tickles T IH1 K AH0 L Z
+ticklish T IH1 K AH0 L IH0 SH
+ticks T IH1 K S
+tics T IH1 K S
+tidal T AY1 D AH0 L
+tidbit T IH1 D B IH2 T
+tidbits T IH1 D B IH0 T S
+tide T AY1 D
+tides T AY1 D Z
+tidings T AY1 D IH0 NG Z
+tidy T AY1 D IY0
+tie T AY1
+tied T AY1 D
+tier T IY1 R
+tiers T IY1 R Z
+ties T AY1 Z
+tiff T IH1 F
+tiffany T IH1 F AH0 N IY0
+tiger T AY1 G ER0
+tigers T AY1 G ER0 Z
+tight T AY1 T
+tighten T AY1 T AH0 N
+tightened T AY1 T AH0 N D
+tightening T AY1 T AH0 N IH0 NG
+tightens T AY1 T AH0 N Z
+tighter T AY1 T ER0
+tightest T AY1 T AH0 S T
+tightly T AY1 T L IY0
+tightrope T AY1 T R OW2 P
+tights T AY1 T S
+tiki T IY1 K IY1
+til T IH1 L
+tilden T IH1 L D AH0 N
+tile T AY1 L
+tiles T AY1 L Z
+till T IH1 L
+tiller T IH1 L ER0
+tillman T IH1 L M AH0 N
+tilly T IH1 L IY0
+tilt T IH1 L T
+tilted T IH1 L T IH0 D
+tilting T IH1 L T IH0 NG
+tim T IH1 M
+timber T IH1 M B ER0
+timberline T IH1 M B ER0 L AY2 N
+timbers T IH1 M B ER0 Z
+time T AY1 M
+timed T AY1 M D
+timeless T AY1 M L AH0 S
+timely T AY1 M L IY0
+timeout T AY1 M AW2 T
+timepiece T AY1 M P IY2 S
+timer T AY1 M ER0
+timers T AY1 M ER0 Z
+times T AY1 M Z
+timetable T AY1 M T EY2 B AH0 L
+timid T IH1 M IH0 D
+timing T AY1 M IH0 NG
+timmer T IH1 M ER0
+timon T AY1 M AH0 N
+timothy T IH1 M AH0 TH IY0
+tin T IH1 N
+ting T IH1 NG
+tingle T IH1 NG G AH0 L
+tingler T IH1 NG G AH0 L ER0
+tingling T IH1 NG G AH0 L IH0 NG
+tiniest T AY1 N IY0 AH0 S T
+tinker T IH1 NG K ER0
+tinkering T IH1 NG K ER0 IH0 NG
+tinkle T IH1 NG K AH0 L
+tinkling T IH1 NG K AH0 L IH0 NG
+tins T IH1 N Z
+tinsel T IH1 N S AH0 L
+tint T IH1 N T
+tinted T IH1 N T IH0 D
+tiny T AY1 N IY0
+tip T IH1 P
+tipped T IH1 P T
+tipper T IH1 P ER0
+tippet T IH1 P AH0 T
+tipping T IH1 P IH0 NG
+tippy T IH1 P IY0
+tips T IH1 P S
+tipster T IH1 P S T ER0
+tipsy T IH1 P S IY0
+tiptoe T IH1 P T OW2
+tiptoeing T IH1 P T OW2 IH0 NG
+tire T AY1 ER0
+tired T AY1 ER0 D
+tireless T AY1 ER0 L AH0 S
+tirelessly T AY1 R L AH0 S L IY0
+tires T AY1 ER0 Z
+tiresome T AY1 ER0 S AH0 M
+tiring T AY1 R IH0 NG
+tis T IH1 Z
+tissue T IH1 S Y UW2
+tissues T IH1 S Y UW2 Z
+tit T IH1 T
+titan T AY1 T AH0 N
+titanic T AY0 T AE1 N IH0 K
+titanium T AY0 T EY1 N IY0 AH0 M
+titans T AY1 T AH0 N Z
+titian T IH1 SH AH0 N
+titillating T IH1 T AH0 L EY2 T IH0 NG
+title T AY1 T AH0 L
+titled T AY1 T AH0 L D
+titles T AY1 T AH0 L Z
+tits T IH1 T S
+tivoli T IH1 V AH0 L IY0
+to T UW1
+toa T OW1 AA0
+toad T OW1 D
+toads T OW1 D Z
+toast T OW1 S T
+toasted T OW1 S T IH0 D
+toaster T OW1 S T ER0
+toasters T OW1 S T ER0 Z
+toasting T OW1 S T IH0 NG
+toasts T OW1 S T S
+tobacco T AH0 B AE1 K OW2
+tobe T OW1 B
+toby T OW1 B IY0
+tock T AA1 K
+tod T AA1 D
+today T AH0 D EY1
+toddle T AA1 D AH0 L
+toddler T AA1 D L ER0
+toe T OW1
+toenail T OW1 N EY2 L
+toenails T OW1 N EY2 L Z
+toes T OW1 Z
+toffee T AA1 F IY0
+tofu T OW1 F UW0
+toga T OW1 G AH0
+together T AH0 G EH1 DH ER0
+togetherness T AH0 G EH1 DH ER0 N AH0 S
+toggle T AA1 G AH0 L
+toil T OY1 L
+toilet T OY1 L AH0 T
+toilets T OY1 L AH0 T S
+token T OW1 K AH0 N
+tokens T OW1 K AH0 N Z
+tokyo T OW1 K IY0 OW2
+told T OW1 L D
+toledo T AH0 L IY1 D OW0
+tolerable T AA1 L ER0 AH0 B AH0 L
+tolerance T AA1 L ER0 AH0 N S
+tolerant T AA1 L ER0 AH0 N T
+tolerate T AA1 L ER0 EY2 T
+tolerated T AA1 L ER0 EY2 T IH0 D
+tolerates T AO1 L ER0 EY2 T S
+toll T OW1 L
+toller T OW1 L ER0
+tolling T OW1 L IH0 NG
+tolls T OW1 L Z
+tolstoy T OW1 L S T OY2
+tom T AA1 M
+tomahawk T AA1 M AH0 HH AO2 K
+tomato T AH0 M EY1 T OW2
+tomatoes T AH0 M EY1 T OW0 Z
+tomb T UW1 M
+tomboy T AA1 M B OY2
+tombs T UW1 M Z
+tombstone T UW1 M S T OW2 N
+tomcat T AA1 M K AE2 T
+tome T OW1 M
+tommy T AA1 M IY0
+tomorrow T AH0 M AA1 R OW2
+tomorrows T AH0 M AA1 R OW2 Z
+toms T AA1 M Z
+ton T AH1 N
+tone T OW1 N
+toned T OW1 N D
+toner T OW1 N ER0
+tones T OW1 N Z
+tong T AO1 NG
+tonga T AA1 N G AH0
+tongs T AA1 NG Z
+tongue T AH1 NG
+tongues T AH1 NG Z
+tonic T AA1 N IH0 K
+tonics T AA1 N IH0 K S
+tonight T AH0 N AY1 T
+tonkin T AA1 NG K IH0 N
+tonnage T AH1 N AH0 JH
+tons T AH1 N Z
+tonsil T AA2 N S AH0 L
+tonsils T AA1 N S AH0 L Z
+tony T OW1 N IY0
+too T UW1
+took T UH1 K
+tool T UW1 L
+toolbox T UW1 L B AO2 K S
+tooling T UW1 L IH0 NG
+tools T UW1 L Z
+toon T UW1 N
+toot T UW1 T
+tooth T UW1 TH
+toothbrush T UW1 TH B R AH0 SH
+toothbrushes T UW1 TH B R AH2 SH IH0 Z
+toothless T UW1 TH L AH0 S
+toothpaste T UW1 TH P EY2 S T
+toothpick T UW1 TH P IH2 K
+toothpicks T UW1 TH P IH2 K S
+toots T UW1 T S
+tootsie T UW1 T S IY1
+top T AA1 P
+topaz T OW1 P AE2 Z
+topeka T AH0 P IY1 K AA0
+topic T AA1 P IH0 K
+topical T AA1 P AH0 K AH0 L
+topics T AA1 P IH0 K S
+topless T AA1 P L AH0 S
+topped T AA1 P T
+topper T AA1 P ER0
+topping T AA1 P IH0 NG
+toppings T AA1 P IH0 NG Z
+topple T AA1 P AH0 L
+tops T AA1 P S
+topsy T AA1 P S IY0
+tor T AO1 R
+torah T AO1 R AH0
+torch T AO1 R CH
+torched T AO1 R CH T
+torches T AO1 R CH IH0 Z
+torching T AO1 R CH IH0 NG
+tore T AO1 R
+tori T AO1 R IY0
+tories T AO1 R IY2 Z
+torment T AO1 R M EH2 N T
+tormented T AO1 R M EH2 N T IH0 D
+tormenting T AO1 R M EH2 N T IH0 NG
+torments T AO1 R M EH2 N T S
+torn T AO1 R N
+tornado T AO0 R N EY1 D OW2
+tornadoes T AO0 R N EY1 D OW0 Z
+toro T AO1 R OW0
+toronto T ER0 AA1 N T OW0
+torpedo T AO0 R P IY1 D OW2
+torpedoed T AO0 R P IY1 D OW2 D
+torpedoes T AO0 R P IY1 D OW0 Z
+torque T AO1 R K
+torrent T AO1 R AH0 N T
+torrid T AO1 R AH0 D
+torso T AO1 R S OW2
+tortilla T AO0 R T IY1 AH0
+tortillas T AO2 R T IY1 AH0 Z
+tortoise T AO1 R T AH0 S
+torture T AO1 R CH ER0
+tortured T AO1 R CH ER0 D
+torturer T AO1 R CH ER0 ER0
+tortures T AO1 R CH ER0 Z
+torturing T AO1 R CH ER0 IH0 NG
+torturous T AO1 R CH UW2 AH0 S
+tory T AO1 R IY0
+toss T AO1 S
+tossed T AO1 S T
+tosses T AO1 S IH0 Z
+tossing T AO1 S IH0 NG
+tot T AA1 T
+total T OW1 T AH0 L
+totaled T OW1 T AH0 L D
+totalled T OW1 T AH0 L D
+totally T OW1 T AH0 L IY0
+totals T OW1 T AH0 L Z
+tote T OW1 T
+totem T OW1 T AH0 M
+toting T OW1 T IH0 NG
+toto T OW1 T OW0
+tots T AA1 T S
+touch T AH1 CH
+touchdown T AH1 CH D AW2 N
+touchdowns T AH1 CH D AW2 N Z
+touche T UW1 SH
+touched T AH1 CH T
+touches T AH1 CH AH0 Z
+touching T AH1 CH IH0 NG
+touchy T AH1 CH IY0
+tough T AH1 F
+toughen T AH1 F AH0 N
+tougher T AH1 F ER0
+toughest T AH1 F AH0 S T
+toughness T AH1 F N AH0 S
+toupee T UW2 P EY1
+tour T UH1 R
+toured T UH1 R D
+tourette T ER0 EH1 T
+touring T UH1 R IH0 NG
+tourism T UH1 R IH2 Z AH0 M
+tourist T UH1 R AH0 S T
+tourists T UH1 R AH0 S T S
+tournament T UH1 R N AH0 M AH0 N T
+tournaments T ER1 N AH0 M AH0 N T S
+tourniquet T ER1 N IH2 K IH0 T
+tours T UH1 R Z
+tout T AW1 T
+tov T OW1 V
+tow T OW1
+toward T AH0 W AO1 R D
+towards T AH0 W AO1 R D Z
+towed T OW1 D
+towel T AW1 AH0 L
+towels T AW1 AH0 L Z
+tower T AW1 ER0
+towering T AW1 ER0 IH0 NG
+towers T AW1 ER0 Z
+towing T OW1 IH0 NG
+town T AW1 N
+townhouse T AW1 N HH AW2 S
+townie T AW1 N IY0
+towns T AW1 N Z
+townsfolk T AW1 N Z F OW2 K
+township T AW1 N SH IH0 P
+townspeople T AW1 N Z P IY2 P AH0 L
+toxic T AA1 K S IH0 K
+toxicity T AA0 K S IH1 S AH0 T IY0
+toxicology T AA2 K S IH0 K AA1 L AH0 JH IY0
+toxin T AA1 K S AH0 N
+toxins T AA1 K S AH0 N Z
+toy T OY1
+toyed T OY1 D
+toying T OY1 IH0 NG
+toymaker T OY1 M EY2 K ER0
+toyota T OW0 Y OW1 T AH0
+toys T OY1 Z
+trace T R EY1 S
+traceable T R EY1 S AH0 B AH0 L
+traced T R EY1 S T
+tracer T R EY1 S ER0
+traces T R EY1 S AH0 Z
+trachea T R EY1 K IY0 AH0
+tracheal T R EY1 K IY0 AH0 L
+tracing T R EY1 S IH0 NG
+track T R AE1 K
+tracked T R AE1 K T
+tracker T R AE1 K ER0
+trackers T R AE1 K ER0 Z
+tracking T R AE1 K IH0 NG
+tracks T R AE1 K S
+tract T R AE1 K T
+traction T R AE1 K SH AH0 N
+tractor T R AE1 K T ER0
+tractors T R AE1 K T ER0 Z
+trade T R EY1 D
+traded T R EY1 D IH0 D
+trademark T R EY1 D M AA2 R K
+trader T R EY1 D ER0
+traders T R EY1 D ER0 Z
+trades T R EY1 D Z
+trading T R EY1 D IH0 NG
+tradition T R AH0 D IH1 SH AH0 N
+traditional T R AH0 D IH1 SH AH0 N AH0 L
+traditionalist T R AH0 D IH1 SH AH0 N AH0 L IH0 S T
+traditionally T R AH0 D IH1 SH AH0 N AH0 L IY0
+traditions T R AH0 D IH1 SH AH0 N Z
+traffic T R AE1 F IH0 K
+trafficking T R AE1 F IH0 K IH0 NG
+tragedies T R AE1 JH AH0 D IY0 Z
+tragedy T R AE1 JH AH0 D IY0
+tragic T R AE1 JH IH0 K
+tragically T R AE1 JH IH0 K L IY0
+trail T R EY1 L
+trailed T R EY1 L D
+trailer T R EY1 L ER0
+trailers T R EY1 L ER0 Z
+trailing T R EY1 L IH0 NG
+trails T R EY1 L Z
+train T R EY1 N
+trained T R EY1 N D
+trainee T R EY1 N IY1
+trainees T R EY1 N IY1 Z
+trainer T R EY1 N ER0
+trainers T R EY1 N ER0 Z
+training T R EY1 N IH0 NG
+trains T R EY1 N Z
+traipse T R EY1 P S
+traipsing T R EY1 P S IH0 NG
+trait T R EY1 T
+traitor T R EY1 T ER0
+traitorous T R EY1 T ER0 AH0 S
+traitors T R EY1 T ER0 Z
+traits T R EY1 T S
+trajectory T R AH0 JH EH1 K T ER0 IY0
+tram T R AE1 M
+tramell T R AA0 M EY1 L
+tramp T R AE1 M P
+trample T R AE1 M P AH0 L
+trampled T R AE1 M P AH0 L D
+trampling T R AE1 M P L IH0 NG
+trampoline T R AE2 M P AH0 L IY1 N
+tramps T R AE1 M P Z
+trance T R AE1 N S
+tranquil T R AE1 NG K W AH0 L
+tranquility T R AE0 NG K W IH1 L IH0 T IY0
+tranquilizer T R AE1 NG K W AH0 L AY2 Z ER0
+tranquilizers T R AE1 NG K W AH0 L AY2 Z ER0 Z
+tranquillity T R AE0 NG K W IH1 L IH0 T IY0
+trans T R AE1 N Z
+transaction T R AE0 N Z AE1 K SH AH0 N
+transactions T R AE0 N Z AE1 K SH AH0 N Z
+transatlantic T R AE2 N Z AH0 T L AE1 N T IH0 K
+transcend T R AE0 N S EH1 N D
+transcendent T R AE0 N S EH1 N D AH0 N T
+transcends T R AE0 N S EH1 N D Z
+transcontinental T R AE2 N Z K AA2 N T IH0 N EH1 N T AH0 L
+transcribed T R AE0 N S K R AY1 B D
+transcript T R AE1 N S K R IH2 P T
+transcription T R AE2 N S K R IH1 P SH AH0 N
+transcripts T R AE1 N S K R IH2 P T S
+transfer T R AE0 N S F ER1
+transference T R AE0 N S F ER1 AH0 N S
+transferred T R AE0 N S F ER1 D
+transferring T R AE0 N S F ER1 IH0 NG
+transfers T R AE0 N S F ER1 Z
+transform T R AE0 N S F AO1 R M
+transformation T R AE2 N S F ER0 M EY1 SH AH0 N
+transformed T R AE0 N S F AO1 R M D
+transformer T R AE0 N S F AO1 R M ER0
+transformers T R AE0 N S F AO1 R M ER0 Z
+transforming T R AE0 N S F AO1 R M IH0 NG
+transforms T R AE0 N S F AO1 R M Z
+transfuse T R AE0 N S F Y UW1 Z
+transfusion T R AE0 N S F Y UW1 ZH AH0 N
+transfusions T R AE0 N S F Y UW1 ZH AH0 N Z
+transgression T R AE0 N Z G R EH1 SH AH0 N
+transgressions T R AE0 N Z G R EH1 SH AH0 N Z
+transient T R AE1 N ZH AH0 N T
+transistor T R AE0 N Z IH1 S T ER0
+transit T R AE1 N Z IH0 T
+transition T R AE0 N Z IH1 SH AH0 N
+transitional T R AE0 N S IH1 SH AH0 N AH0 L
+translate T R AE0 N Z L EY1 T
+translated T R AE0 N Z L EY1 T IH0 D
+translates T R AE0 N Z L EY1 T S
+translating T R AE0 N Z L EY1 T IH0 NG
+translation T R AE0 N Z L EY1 SH AH0 N
+translations T R AE0 N Z L EY1 SH AH0 N Z
+translator T R AE0 N S L EY1 T ER0
+translators T R AE0 N S L EY1 T ER0 Z
+translucent T R AE0 N S L UW1 S AH0 N T
+transmission T R AE0 N S M IH1 SH AH0 N
+transmissions T R AE0 N Z M IH1 SH AH0 N Z
+transmit T R AE0 N Z M IH1 T
+transmits T R AE0 N Z M IH1 T S
+transmitted T R AE0 N S M IH1 T IH0 D
+transmitter T R AE0 N S M IH1 T ER0
+transmitters T R AE0 N S M IH1 T ER0 Z
+transmitting T R AE0 N S M IH1 T IH0 NG
+transparent T R AE0 N S P EH1 R AH0 N T
+transpired T R AE0 N S P AY1 ER0 D
+transplant T R AE0 N S P L AE1 N T
+transplanted T R AE0 N S P L AE1 N T IH0 D
+transplants T R AE0 N S P L AE1 N T S
+transponder T R AE0 N S P AA1 N D ER0
+transport T R AE0 N S P AO1 R T
+transportation T R AE2 N S P ER0 T EY1 SH AH0 N
+transported T R AE0 N S P AO1 R T IH0 D
+transporter T R AE0 N S P AO1 R T ER0
+transporting T R AE0 N S P AO1 R T IH0 NG
+transports T R AE0 N S P AO1 R T S
+transsexual T R AE0 N S EH1 K SH Y UW0 AH0 L
+transverse T R AE0 N Z V ER1 S
+transvestite T R AE0 N Z V EH1 S T AY0 T
+transvestites T R AE0 N Z V EH1 S T AY0 T S
+trap T R AE1 P
+trapeze T R AH0 P IY1 Z
+trapped T R AE1 P T
+trapper T R AE1 P ER0
+trappers T R AE1 P ER0 Z
+trapping T R AE1 P IH0 NG
+trappings T R AE1 P IH0 NG Z
+traps T R AE1 P S
+trash T R AE1 SH
+trashed T R AE1 SH T
+trashing T R AE1 SH IH0 NG
+trashy T R AE1 SH IY0
+trauma T R AO1 M AH0
+traumas T R AO1 M AH0 Z
+traumatic T R AO0 M AE1 T IH0 K
+traumatized T R AO1 M AH0 T AY2 Z D
+travel T R AE1 V AH0 L
+traveled T R AE1 V AH0 L D
+traveler T R AE1 V AH0 L ER0
+travelers T R AE1 V AH0 L ER0 Z
+traveling T R AE1 V AH0 L IH0 NG
+travelled T R AE1 V AH0 L D
+traveller T R AE1 V AH0 L ER0
+travellers T R AE1 V AH0 L ER0 Z
+travelling T R AE1 V AH0 L IH0 NG
+travels T R AE1 V AH0 L Z
+traverse T R AE1 V ER0 S
+travesty T R AE1 V AH0 S T IY0
+travis T R AE1 V IH0 S
+trawler T R AO1 L ER0
+tray T R EY1
+trays T R EY1 Z
+treacherous T R EH1 CH ER0 AH0 S
+treachery T R EH1 CH ER0 IY0
+tread T R EH1 D
+treading T R EH1 D IH0 NG
+treadmill T R EH1 D M IH2 L
+treads T R EH1 D Z
+treason T R IY1 Z AH0 N
+treasure T R EH1 ZH ER0
+treasured T R EH1 ZH ER0 D
+treasurer T R EH1 ZH ER0 ER0
+treasures T R EH1 ZH ER0 Z
+treasury T R EH1 ZH ER0 IY0
+treat T R IY1 T
+treatable T R IY1 T AH0 B AH0 L
+treated T R IY1 T IH0 D
+treaties T R IY1 T IY0 Z
+treating T R IY1 T IH0 NG
+treatise T R IY1 T AH0 S
+treatment T R IY1 T M AH0 N T
+treatments T R IY1 T M AH0 N T S
+treats T R IY1 T S
+treaty T R IY1 T IY0
+tree T R IY1
+trees T R IY1 Z
+treetops T R IY1 T AO2 P S
+trek T R EH1 K
+trellis T R EH1 L AH0 S
+tremble T R EH1 M B AH0 L
+trembled T R EH1 M B AH0 L D
+trembling T R EH1 M B AH0 L IH0 NG
+tremendous T R AH0 M EH1 N D AH0 S
+tremendously T R AH0 M EH1 N D AH0 S L IY0
+tremor T R EH1 M ER0
+tremors T R EH1 M ER0 Z
+trench T R EH1 N CH
+trenches T R EH1 N CH IH0 Z
+trend T R EH1 N D
+trends T R EH1 N D Z
+trendy T R EH1 N D IY0
+trenton T R EH1 N T AH0 N
+trespass T R EH1 S P AE2 S
+trespassing T R EH1 S P AE2 S IH0 NG
+trey T R EY1
+triad T R AY1 AE2 D
+triads T R AY1 AE2 D Z
+triage T R AY1 IH0 JH
+trial T R AY1 AH0 L
+trials T R AY1 AH0 L Z
+triangle T R AY1 AE2 NG G AH0 L
+triangles T R AY1 AE2 NG G AH0 L Z
+triangulation T R AY0 AE2 NG G Y UW0 L EY1 SH AH0 N
+triathlon T R AY2 AE1 TH L AH0 N
+trib T R IH1 B
+tribal T R AY1 B AH0 L
+tribe T R AY1 B
+tribes T R AY1 B Z
+tribulations T R IH2 B Y AH0 L EY1 SH AH0 N Z
+tribunal T R AH0 B Y UW1 N AH0 L
+tribune T R IH1 B Y UW0 N
+tributary T R IH1 B Y AH0 T EH2 R IY0
+tribute T R IH1 B Y UW0 T
+triceps T R AY1 S EH2 P S
+trick T R IH1 K
+tricked T R IH1 K T
+trickery T R IH1 K ER0 IY0
+tricking T R IH1 K IH0 NG
+trickle T R IH1 K AH0 L
+trickling T R IH1 K L IH0 NG
+tricks T R IH1 K S
+trickster T R IH1 K S T ER0
+tricky T R IH1 K IY0
+tricycle T R IH1 S IH0 K AH0 L
+trident T R AY1 D AH0 N T
+tried T R AY1 D
+tries T R AY1 Z
+trifecta T R AY0 F EH1 K T AH0
+trifle T R AY1 F AH0 L
+trifles T R AY1 F AH0 L Z
+trifling T R AY1 F L IH0 NG
+trig T R IH1 G
+trigger T R IH1 G ER0
+triggered T R IH1 G ER0 D
+triggering T R IH1 G ER0 IH0 NG
+triggers T R IH1 G ER0 Z
+trilling T R IH1 L IH0 NG
+trillion T R IH1 L Y AH0 N
+trillions T R IH1 L Y AH0 N Z
+trilogy T R IH1 L AH0 JH IY0
+trim T R IH1 M
+trimester T R AY0 M EH1 S T ER0
+trimmed T R IH1 M D
+trimmer T R IH1 M ER0
+trimming T R IH1 M IH0 NG
+trimmings T R IH1 M IH0 NG Z
+trinidad T R IH1 N IH0 D AE2 D
+trinity T R IH1 N AH0 T IY0
+trinket T R IH1 NG K AH0 T
+trinkets T R IH1 NG K AH0 T S
+trio T R IY1 OW2
+trip T R IH1 P
+tripe T R AY1 P
+triple T R IH1 P AH0 L
+tripled T R IH1 P AH0 L D
+triples T R IH1 P AH0 L Z
+triplets T R IH1 P L AH0 T S
+triplicate T R IH1 P L IH0 K AH0 T
+tripod T R AY1 P AA2 D
+tripoli T R IH1 P AH0 L IY0
+tripped T R IH1 P T
+tripping T R IH1 P IH0 NG
+trips T R IH1 P S
+trisha T R IH1 SH AH0
+tristan T R IH1 S T AE2 N
+trite T R AY1 T
+triton T R AY1 T AH0 N
+triumph T R AY1 AH0 M F
+triumphant T R AY0 AH1 M F AH0 N T
+triumphed T R AY1 AH0 M F T
+triumphs T R AY1 AH0 M F S
+triumvirate T R AY0 AH1 M V ER0 AH0 T
+trivia T R IH1 V IY0 AH0
+trivial T R IH1 V IY0 AH0 L
+trivialize T R IH1 V IY0 AH0 L AY2 Z
+trod T R AA1 D
+trois T W AA1
+trojan T R OW1 JH AH0 N
+trojans T R OW1 JH AH0 N Z
+troll T R OW1 L
+trolley T R AA1 L IY0
+trolling T R OW1 L IH0 NG
+trolls T R OW1 L Z
+trombone T R AA0 M B OW1 N
+troop T R UW1 P
+trooper T R UW1 P ER0
+troopers T R UW1 P ER0 Z
+troops T R UW1 P S
+trophies T R OW1 F IY0 Z
+trophy T R OW1 F IY0
+tropic T R AA1 P IH0 K
+tropical T R AA1 P IH0 K AH0 L
+tropics T R AA1 P IH0 K S
+trot T R AA1 T
+troth T R OW1 TH
+trotter T R AA1 T ER0
+trotting T R AA1 T IH0 NG
+troubadour T R UW1 B AH0 D AO2 R
+trouble T R AH1 B AH0 L
+troubled T R AH1 B AH0 L D
+troublemaker T R AH1 B AH0 L M EY2 K ER0
+troublemakers T R AH1 B AH0 L M EY2 K ER0 Z
+troubles T R AH1 B AH0 L Z
+troublesome T R AH1 B AH0 L S AH0 M
+troubling T R AH1 B AH0 L IH0 NG
+trough T R AO1 F
+troupe T R UW1 P
+trouser T R AW1 Z ER0
+trousers T R AW1 Z ER0 Z
+trout T R AW1 T
+trove T R OW1 V
+trowel T R AW1 W EH0 L
+troy T R OY1
+truancy T R UW1 AH0 N S IY0
+truant T R UW1 AH0 N T
+truce T R UW1 S
+truck T R AH1 K
+trucker T R AH1 K ER0
+truckers T R AH1 K ER0 Z
+trucking T R AH1 K IH0 NG
+truckload T R AH1 K L OW2 D
+trucks T R AH1 K S
+trudging T R AH1 JH IH0 NG
+true T R UW1
+truer T R UW1 ER0
+truest T R UW1 IH0 S T
+truffle T R AH1 F AH0 L
+truffles T R AH1 F AH0 L Z
+truly T R UW1 L IY0
+truman T R UW1 M AH0 N
+trump T R AH1 M P
+trumped T R AH1 M P T
+trumpet T R AH1 M P AH0 T
+trumpets T R AH1 M P AH0 T S
+trumps T R AH1 M P S
+truncheon T R AH1 N CH IH0 N
+trunk T R AH1 NG K
+trunks T R AH1 NG K S
+truss T R AH1 S
+trust T R AH1 S T
+trusted T R AH1 S T IH0 D
+trustee T R AH2 S T IY1
+trustees T R AH2 S T IY1 Z
+trusting T R AH1 S T IH0 NG
+trusts T R AH1 S T S
+trustworthy T R AH1 S T W ER2 DH IY0
+trusty T R AH1 S T IY0
+truth T R UW1 TH
+truthful T R UW1 TH F AH0 L
+truthfully T R UW1 TH F AH0 L IY0
+truths T R UW1 TH S
+try T R AY1
+trying T R AY1 IH0 NG
+tryout T R AY1 AW2 T
+tryouts T R AY1 AW2 T S
+tryst T R IH1 S T
+ts T IY1 EH1 S
+tsar Z AA1 R
+tsetse T S IY1 T S IY0
+tsunami T S UW0 N AA1 M IY0
+tu T UW1
+tub T AH1 B
+tuba T UW1 B AH0
+tubal T UW1 B AH0 L
+tubby T AH1 B IY0
+tube T UW1 B
+tuberculosis T AH0 B ER2 K Y AH0 L OW1 S IH0 S
+tubes T UW1 B Z
+tubing T UW1 B IH0 NG
+tubman T AH1 B M AH0 N
+tubs T AH1 B Z
+tubular T UW1 B Y AH0 L ER0
+tuck T AH1 K
+tucked T AH1 K T
+tucker T AH1 K ER0
+tucking T AH1 K IH0 NG
+tucks T AH1 K S
+tucson T UW1 S AA2 N
+tudor T UW1 D ER0
+tuesday T UW1 Z D IY0
+tuesdays T UW1 Z D EY2 Z
+tuff T AH1 F
+tug T AH1 G
+tugboat T AH1 G B OW2 T
+tugging T AH1 G IH0 NG
+tugs T AH1 G Z
+tuition T Y UW0 IH1 SH AH0 N
+tulip T UW1 L AH0 P
+tulips T UW1 L AH0 P S
+tulsa T AH1 L S AH0
+tumble T AH1 M B AH0 L
+tumbler T AH1 M B L ER0
+tumbling T AH1 M B AH0 L IH0 NG
+tummy T AH1 M IY0
+tumor T UW1 M ER0
+tumors T UW1 M ER0 Z
+tums T AH1 M Z
+tuna T UW1 N AH0
+tundra T AH1 N D R AH0
+tune T UW1 N
+tuned T UW1 N D
+tunes T UW1 N Z
+tung T AH1 NG
+tunic T UW1 N IH0 K
+tuning T UW1 N IH0 NG
+tunis T UW1 N IH0 S
+tunisia T UW2 N IY1 ZH AH0
+tunnel T AH1 N AH0 L
+tunnels T AH1 N AH0 L Z
+tunney T AH1 N IY0
+turban T ER1 B AH0 N
+turbine T ER1 B AY0 N
+turbines T ER1 B AY0 N Z
+turbo T ER1 B OW0
+turbulence T ER1 B Y AH0 L AH0 N S
+turbulent T ER1 B Y AH0 L AH0 N T
+turco T ER1 K OW0
+turf T ER1 F
+turk T ER1 K
+turkey T ER1 K IY0
+turkeys T ER1 K IY0 Z
+turkish T ER1 K IH0 SH
+turks T ER1 K S
+turmoil T ER1 M OY2 L
+turn T ER1 N
+turnaround T ER1 N ER0 AW2 N D
+turncoat T ER1 N K OW2 T
+turned T ER1 N D
+turner T ER1 N ER0
+turning T ER1 N IH0 NG
+turnip T ER1 N AH0 P
+turnips T ER1 N AH0 P S
+turnoff T ER1 N AO2 F
+turnout T ER1 N AW2 T
+turnover T ER1 N OW2 V ER0
+turnpike T ER1 N P AY2 K
+turns T ER1 N Z
+turnstile T ER1 N S T AY2 L
+turnstiles T ER1 N S T AY2 L Z
+turntable T ER1 N T EY2 B AH0 L
+turpentine T ER1 P AH0 N T AY2 N
+turquoise T ER1 K W OY0 Z
+turret T ER1 AH0 T
+turrets T ER1 AH0 T S
+turtle T ER1 T AH0 L
+turtleneck T ER1 T AH0 L N EH2 K
+turtles T ER1 T AH0 L Z
+tush T UH1 SH
+tusks T AH1 S K S
+tussle T AH1 S AH0 L
+tut T AH1 T
+tutor T UW1 T ER0
+tutored T UW1 T ER0 D
+tutorial T UW0 T AO1 R IY0 AH0 L
+tutoring T UW1 T ER0 IH0 NG
+tutors T UW1 T ER0 Z
+tutti T UW1 T IY0
+tutu T UW1 T UW2
+tux T AH1 K S
+tuxedo T AH2 K S IY1 D OW0
+tuxedos T AH0 K S IY1 D OW2 Z
+tv T IY1 V IY1
+twain T W EY1 N
+twas T W AH1 Z
+twat T W AA1 T
+tweak T W IY1 K
+tweaked T W IY1 K T
+tweaking T W IY1 K IH0 NG
+tweed T W IY1 D
+tweedy T W IY1 D IY0
+tweet T W IY1 T
+tweezers T W IY1 Z ER0 Z
+twelfth T W EH1 L F TH
+twelve T W EH1 L V
+twenties T W EH1 N T IY0 Z
+twentieth T W EH1 N T IY0 AH0 TH
+twenty T W EH1 N T IY0
+twice T W AY1 S
+twiddle T W IH1 D AH0 L
+twiddling T W IH1 D L IH0 NG
+twig T W IH1 G
+twigs T W IH1 G Z
+twilight T W AY1 L AY2 T
+twin T W IH1 N
+twine T W AY1 N
+twinge T W IH1 N JH
+twinkle T W IH1 NG K AH0 L
+twinkling T W IH1 NG K AH0 L IH0 NG
+twins T W IH1 N Z
+twirl T W ER1 L
+twirling T W ER1 L IH0 NG
+twist T W IH1 S T
+twisted T W IH1 S T IH0 D
+twister T W IH1 S T ER0
+twisting T W IH1 S T IH0 NG
+twists T W IH1 S T S
+twitch T W IH1 CH
+twitches T W IH1 CH IH0 Z
+twitching T W IH1 CH IH0 NG
+twitchy T W IH1 CH IY2
+twitty T W IH1 T IY0
+two T UW1
+twos T UW1 Z
+twosome T UW1 S AH0 M
+tycoon T AY0 K UW1 N
+tying T AY1 IH0 NG
+tyke T AY1 K
+tyler T AY1 L ER0
+type T AY1 P
+typed T AY1 P T
+types T AY1 P S
+typewriter T AY1 P R AY2 T ER0
+typewriters T AY1 P R AY2 T ER0 Z
+typhoid T AY1 F OY0 D
+typhoon T AY2 F UW1 N
+typhus T AY1 F AH0 S
+typical T IH1 P AH0 K AH0 L
+typically T IH1 P IH0 K L IY0
+typing T AY1 P IH0 NG
+typist T AY1 P IH0 S T
+typo T AY1 P OW0
+tyrannical T ER0 AE1 N IH0 K AH0 L
+tyrannosaurus T IH0 R AE0 N AH0 S AO1 R AH0 S
+tyranny T IH1 R AH0 N IY0
+tyrant T AY1 R AH0 N T
+tyrants T AY1 R AH0 N T S
+tyre T AY1 R
+tyres T AY1 ER0 Z
+tyrone T AY2 R OW1 N
+u Y UW1
+ubiquitous Y UW0 B IH1 K W IH0 T AH0 S
+udo UW1 D OW2
+ufo Y UW2 EH2 F OW1
+ufos Y UW2 EH2 F OW1 Z
+ugh AH1 G
+uglier AH1 G L IY0 ER0
+ugliest AH1 G L IY0 AH0 S T
+ugliness AH1 G L IY0 N AH0 S
+ugly AH1 G L IY0
+uh AH1
+ukraine Y UW0 K R EY1 N
+ukrainian Y UW0 K R EY1 N IY0 AH0 N
+ukulele Y UW2 K AH0 L EY1 L IY0
+ulcer AH1 L S ER0
+ulcers AH1 L S ER0 Z
+ulterior AH0 L T IH1 R IY0 ER0
+ultimate AH1 L T AH0 M AH0 T
+ultimately AH1 L T AH0 M AH0 T L IY0
+ultimatum AH2 L T AH0 M EY1 T AH0 M
+ultimatums AH2 L T AH0 M EY1 T AH0 M Z
+ultra AH1 L T R AH0
+ultrasound AH2 L T R AH0 S AW1 N D
+ultraviolet AH2 L T R AH0 V AY1 AH0 L IH0 T
+ulysses Y UW0 L IH1 S IY0 Z
+um AH1 M
+umbilical AH0 M B IH1 L IH0 K AH0 L
+umbrella AH0 M B R EH1 L AH0
+umbrellas AH0 M B R EH1 L AH0 Z
+umm AH1 M
+umpire AH1 M P AY2 ER0
+un AH1 N
+una UW1 N AH0
+unable AH0 N EY1 B AH0 L
+unacceptable AH2 N AE0 K S EH1 P T AH0 B AH0 L
+unaccompanied AH2 N AH0 K AH1 M P AH0 N IY0 D
+unaccounted AH2 N AH0 K AW1 N T IH0 D
+unadulterated AH2 N AH0 D AH1 L T ER0 EY2 T IH0 D
+unaffected AH2 N AH0 F EH1 K T IH0 D
+unafraid AH2 N AH0 F R EY1 D
+unanimous Y UW0 N AE1 N AH0 M AH0 S
+unanimously Y UW0 N AE1 N AH0 M AH0 S L IY0
+unannounced AH2 N AH0 N AW1 N S T
+unanswered AH2 N AE1 N S ER0 D
+unappealing AH2 N AH0 P IY1 L IH0 NG
+unappreciated AH2 N AH0 P R IY1 SH IY0 EY2 T IH0 D
+unapproachable AH2 N AH0 P R OW1 CH AH0 B AH0 L
+unarmed AH0 N AA1 R M D
+unassuming AH2 N AH0 S UW1 M IH0 NG
+unattached AH2 N AH0 T AE1 CH T
+unattainable AH2 N AH0 T EY1 N AH0 B AH0 L
+unattended AH0 N AH0 T EH1 N D IH0 D
+unattractive AH2 N AH0 T R AE1 K T IH0 V
+unauthorized AH0 N AO1 TH ER0 AY2 Z D
+unavailable AH2 N AH0 V EY1 L AH0 B AH0 L
+unavoidable AH2 N AH0 V OY1 D AH0 B AH0 L
+unavoidably AH2 N AH0 V OY1 D AH0 B L IY0
+unaware AH2 N AH0 W EH1 R
+unbalanced AH0 N B AE1 L AH0 N S T
+unbearable AH0 N B EH1 R AH0 B AH0 L
+unbearably AH0 N B EH1 R AH0 B L IY0
+unbeatable AH2 N B IY1 T AH0 B AH0 L
+unbecoming AH2 N B IH0 K AH1 M IH0 NG
+unbeknownst AH0 N B IY0 N OW1 N S T
+unbelievable AH2 N B AH0 L IY1 V AH0 B AH0 L
+unbelievably AH2 N B AH0 L IY1 V AH0 B L IY0
+unbiased AH2 N B AY1 AH0 S T
+unborn AH1 N B AO1 R N
+unbreakable AH0 N B R EY1 K AH0 B AH0 L
+unbridled AH0 N B R AY1 D AH0 L D
+unbroken AH0 N B R OW1 K AH0 N
+unbutton AH0 N B AH1 T AH0 N
+unbuttoned AH0 N B AH1 T AH0 N D
+uncalled AH0 N K AO1 L D
+uncanny AH0 N K AE1 N IY0
+uncaring AH0 N K EH1 R IH0 NG
+uncertain AH0 N S ER1 T AH0 N
+uncertainty AH0 N S ER1 T AH0 N T IY0
+unchanged AH0 N CH EY1 N JH D
+uncharted AH0 N CH AA1 R T IH0 D
+unchecked AH0 N CH EH1 K T
+uncivilized AH0 N S IH1 V AH0 L AY0 Z D
+unclaimed AH0 N K L EY1 M D
+uncle AH1 NG K AH0 L
+unclean AH0 N K L IY1 N
+unclear AH0 N K L IH1 R
+uncles AH1 NG K AH0 L Z
+uncomfortable AH0 N K AH1 M F ER0 T AH0 B AH0 L
+uncommon AH0 N K AA1 M AH0 N
+uncommonly AH2 N K AA1 M AH0 N L IY0
+uncomplicated AH0 N K AA1 M P L AH0 K EY2 T IH0 D
+uncompromising AH0 N K AA1 M P R AH0 M AY0 Z IH0 NG
+unconcerned AH2 N K AH0 N S ER1 N D
+unconditional AH2 N K AH0 N D IH1 SH AH0 N AH0 L
+unconditionally AH2 N K AH0 N D IH1 SH AH0 N AH0 L IY0
+unconfirmed AH2 N K AH0 N F ER1 M D
+unconscionable AH0 N K AA1 N SH AH0 N AH0 B AH0 L
+unconscious AH2 N K AA1 N SH AH0 S
+unconsciously AH2 N K AA1 N SH AH0 S L IY0
+unconsciousness AH2 N K AA1 N SH AH0 S N IH0 S
+unconstitutional AH2 N K AA2 N S T AH0 T UW1 SH AH0 N AH0 L
+uncontrollable AH2 N K AH0 N T R OW1 L AH0 B AH0 L
+uncontrollably AH2 N K AH0 N T R OW1 L AH0 B L IY0
+uncontrolled AH2 N K AH0 N T R OW1 L D
+unconventional AH2 N K AH0 N V EH1 N SH AH0 N AH0 L
+uncool AH2 N K UW1 L
+uncooperative AH0 N K OW0 AA1 P ER0 AH0 T IH0 V
+uncouth AH1 N K UW1 TH
+uncover AH0 N K AH1 V ER0
+uncovered AH0 N K AH1 V ER0 D
+uncovering AH0 N K AH1 V ER0 IH0 NG
+uncut AH2 N K AH1 T
+undamaged AH2 N D AE1 M AH0 JH D
+undaunted AH0 N D AO1 N T IH0 D
+undecided AH2 N D IH0 S AY1 D IH0 D
+undeclared AH0 N D IH0 K L EH1 R D
+undefeated AH2 N D IH0 F IY1 T IH0 D
+undeniable AH2 N D IH0 N AY1 AH0 B AH0 L
+undeniably AH2 N D IH0 N AY1 AH0 B L IY0
+under AH1 N D ER0
+underachiever AH1 N D ER0 AH0 CH IY2 V ER0
+underage AH1 N D ER0 IH0 JH
+underbelly AH1 N D ER0 B EH2 L IY0
+undercarriage AH1 N D ER0 K AE2 R IH0 JH
+undercover AH2 N D ER0 K AH1 V ER0
+underdog AH1 N D ER0 D AO2 G
+underestimate AH1 N D ER0 EH1 S T AH0 M EY2 T
+underestimated AH1 N D ER0 EH1 S T AH0 M EY2 T IH0 D
+underestimating AH2 N D ER0 EH1 S T IH0 M EY2 T IH0 NG
+underfoot AH2 N D ER0 F UH1 T
+undergarments AH1 N D ER0 G AA2 R M AH0 N T S
+undergo AH2 N D ER0 G OW1
+undergoing AH2 N D ER0 G OW1 IH0 NG
+undergone AH2 N D ER0 G AO1 N
+undergrad AH1 N D ER0 G R AE2 D
+undergraduate AH2 N D ER0 G R AE1 JH AH0 W AH0 T
+underground AH1 N D ER0 G R AW2 N D
+underhanded AH1 N D ER0 HH AE1 N D IH0 D
+underline AH1 N D ER0 L AY2 N
+underlined AH1 N D ER0 L AY2 N D
+underlings AH1 N D ER0 L IH0 NG Z
+underlying AH2 N D ER0 L AY1 IH0 NG
+undermine AH1 N D ER0 M AY2 N
+undermined AH2 N D ER0 M AY1 N D
+undermines AH2 N D ER0 M AY1 N Z
+undermining AH1 N D ER0 M AY2 N IH0 NG
+underneath AH2 N D ER0 N IY1 TH
+underpaid AH1 N D ER0 P EY1 D
+underpants AH1 N D ER0 P AE2 N T S
+underprivileged AH1 N D ER0 P R IH1 V L AH0 JH D
+underrated AH2 N D ER0 R EY1 T IH0 D
+undersea AH2 N D ER0 S IY1
+undersecretary AH2 N D ER0 S EH1 K R IH0 T EH2 R IY0
+undershirt AH1 N D ER0 SH ER2 T
+understaffed AH1 N D ER0 S T AE2 F T
+understand AH2 N D ER0 S T AE1 N D
+understandable AH2 N D ER0 S T AE1 N D AH0 B AH0 L
+understandably AH2 N D ER0 S T AE1 N D AH0 B L IY0
+understanding AH2 N D ER0 S T AE1 N D IH0 NG
+understands AH2 N D ER0 S T AE1 N D Z
+understated AH1 N D ER0 S T EY2 T IH0 D
+understatement AH1 N D ER0 S T EY2 T M AH0 N T
+understood AH2 N D ER0 S T UH1 D
+understudy AH1 N D ER0 S T AH2 D IY0
+undertake AH1 N D ER0 T EY2 K
+undertaken AH1 N D ER0 T EY2 K AH0 N
+undertaker AH1 N D ER0 T EY2 K ER0
+undertaking AH1 N D ER0 T EY2 K IH0 NG
+undertow AH1 N D ER0 T OW2
+underwater AH1 N D ER0 W AO2 T ER0
+underway AH2 N D ER0 W EY1
+underwear AH1 N D ER0 W EH2 R
+underwent AH2 N D ER0 W EH1 N T
+underwood AH1 N D ER0 W UH2 D
+underworld AH1 N D ER0 W ER2 L D
+underwriters AH1 N D ER0 R AY2 T ER0 Z
+undesirable AH2 N D IH0 Z AY1 R AH0 B AH0 L
+undetectable AH0 N D IH0 T EH1 K T AH0 B AH0 L
+undetected AH2 N D IH0 T EH1 K T IH0 D
+undetermined AH2 N D IH0 T ER1 M IH0 N D
+undeveloped AH2 N D IH0 V EH1 L AH0 P T
+undid AH2 N D IH1 D
+undignified AH0 N D IH1 G N IH0 F AY2 D
+undisciplined AH0 N D IH1 S IH0 P L IH0 N D
+undiscovered AH2 N D IH0 S K AH1 V ER0 D
+undisputed AH2 N D IH0 S P Y UW1 T IH0 D
+undisturbed AH2 N D IH0 S T ER1 B D
+undivided AH2 N D AH0 V AY1 D IH0 D
+undo AH0 N D UW1
+undoing AH0 N D UW1 IH0 NG
+undone AH0 N D AH1 N
+undoubtedly AH0 N D AW1 T IH0 D L IY0
+undress AH0 N D R EH1 S
+undressed AH0 N D R EH1 S T
+undue AH0 N D UW1
+unduly AH0 N D UW1 L IY0
+undying AH0 N D AY1 IH0 NG
+unearth AH0 N ER1 TH
+unearthed AH0 N ER1 TH T
+unearthly AH0 N ER1 TH L IY0
+uneasy AH0 N IY1 Z IY0
+uneducated AH0 N EH1 JH UH0 K EY2 T IH0 D
+unemployed AH2 N EH0 M P L OY1 D
+unemployment AH2 N IH0 M P L OY1 M AH0 N T
+unending AH0 N EH1 N D IH0 NG
+unequivocally AH2 N IY0 K W IH1 V AH0 K AH0 L IY0
+unethical AH0 N EH1 TH IH0 K AH0 L
+uneven AH0 N IY1 V AH0 N
+uneventful AH2 N IY0 V EH1 N T F AH0 L
+unexpected AH2 N IH0 K S P EH1 K T IH0 D
+unexpectedly AH2 N IH0 K S P EH1 K T IH0 D L IY0
+unexplainable AH2 N IH0 K S P L EY1 N AH0 B AH0 L
+unexplained AH2 N IH0 K S P L EY1 N D
+unexplored AH2 N IH0 K S P L AO1 R D
+unfair AH0 N F EH1 R
+unfairly AH0 N F EH1 R L IY0
+unfaithful AH0 N F EY1 TH F AH0 L
+unfamiliar AH2 N F AH0 M IH1 L Y ER0
+unfathomable AH0 N F AE1 DH AH0 M AH0 B AH0 L
+unfavorable AH2 N F EY1 V ER0 AH0 B AH0 L
+unfeeling AH0 N F IY1 L IH0 NG
+unfettered AH0 N F EH1 T ER0 D
+unfinished AH0 N F IH1 N IH0 SH T
+unfit AH0 N F IH1 T
+unfold AH0 N F OW1 L D
+unfolded AH0 N F OW1 L D IH0 D
+unfolding AH0 N F OW1 L D IH0 NG
+unfolds AH0 N F OW1 L D Z
+unforeseen AH2 N F AO0 R S IY1 N
+unforgettable AH2 N F ER0 G EH1 T AH0 B AH0 L
+unforgivable AH2 N F AO0 R G IH1 V AH0 B AH0 L
+unforgiving AH0 N F ER0 G IH1 V IH0 NG
+unfortunate AH0 N F AO1 R CH AH0 N AH0 T
+unfortunately AH0 N F AO1 R CH AH0 N AH0 T L IY0
+unfortunates AH0 N F AO1 R CH AH0 N AH0 T S
+unfounded AH0 N F AW1 N D IH0 D
+unfriendly AH0 N F R EH1 N D L IY0
+unfulfilled AH2 N F UH0 L F IH1 L D
+unglued AH0 N G L UW1 D
+ungodly AH0 N G AO1 D L IY0
+ungrateful AH0 N G R EY1 T F AH0 L
+unguarded AH0 N G AA1 R D IH0 D
+unhappily AH0 N HH AE1 P AH0 L IY0
+unhappiness AH0 N HH AE1 P IY0 N IH0 S
+unhappy AH0 N HH AE1 P IY0
+unharmed AH0 N HH AA1 R M D
+unhealthy AH0 N HH EH1 L TH IY0
+unheard AH0 N HH ER1 D
+unholy AH0 N HH OW1 L IY0
+unhook AH0 N HH UH1 K
+uni Y UW1 N IY0
+unicorn Y UW1 N IH0 K AO2 R N
+unidentified AH2 N AY0 D EH1 N T AH0 F AY2 D
+unification Y UW2 N AH0 F AH0 K EY1 SH AH0 N
+unified Y UW1 N AH0 F AY2 D
+uniform Y UW1 N AH0 F AO2 R M
+uniformed Y UW1 N AH0 F AO2 R M D
+uniforms Y UW1 N AH0 F AO2 R M Z
+unify Y UW1 N AH0 F AY2
+unilateral Y UW2 N AH0 L AE1 T ER0 AH0 L
+unilaterally Y UW2 N AH0 L AE1 T ER0 AH0 L IY0
+unimaginable AH2 N IH0 M AE1 JH IH0 N AH0 B AH0 L
+unimaginative AH0 N IH0 M AE1 JH IH2 N AH0 T IH0 V
+unimportant AH0 N IH0 M P AO1 R T AH0 N T
+unimpressed AH2 N IH0 M P R EH1 S T
+uninformed AH2 N IH0 N F AO1 R M D
+uninhabitable AH2 N IH0 N HH AE1 B AH0 T AH0 B AH0 L
+uninhabited AH2 N IH0 N HH AE1 B AH0 T IH0 D
+uninspired AH2 N IH0 N S P AY1 ER0 D
+uninsured AH2 N IH0 N SH UH1 R D
+unintelligible AH2 N IH0 N T EH1 L AH0 JH AH0 B AH0 L
+unintentional AH2 N IH0 N T EH1 N SH AH0 N AH0 L
+unintentionally AH2 N IH0 N T EH1 N SH AH0 N AH0 L IY0
+uninteresting AH0 N IH1 N T R AH0 S T IH0 NG
+uninterrupted AH2 N IH0 N T ER0 AH1 P T IH0 D
+uninvited AH2 N IH0 N V AY1 T IH0 D
+union Y UW1 N Y AH0 N
+unions Y UW1 N Y AH0 N Z
+unique Y UW0 N IY1 K
+uniquely Y UW0 N IY1 K L IY0
+uniqueness Y UW0 N IY1 K N AH0 S
+unisex Y UW1 N IH0 S EH2 K S
+unison Y UW1 N AH0 S AH0 N
+unit Y UW1 N AH0 T
+unite Y UW1 N AY2 T
+united Y UW0 N AY1 T IH0 D
+unites Y UW0 N AY1 T S
+uniting Y UW0 N AY1 T IH0 NG
+units Y UW1 N AH0 T S
+unity Y UW1 N AH0 T IY0
+universal Y UW2 N AH0 V ER1 S AH0 L
+universally Y UW2 N AH0 V ER1 S AH0 L IY0
+universe Y UW1 N AH0 V ER2 S
+universes Y UW1 N AH0 V ER2 S IH0 Z
+universities Y UW2 N AH0 V ER1 S AH0 T IY0 Z
+university Y UW2 N AH0 V ER1 S AH0 T IY0
+unix Y UW1 N IH0 K S
+unjust AH0 N JH AH1 S T
+unjustly AH0 N JH AH1 S T L IY0
+unkind AH0 N K AY1 N D
+unknowingly AH0 N N OW1 IH0 NG L IY0
+unknown AH0 N N OW1 N
+unknowns AH0 N OW1 N Z
+unlawful AH0 N L AO1 F AH0 L
+unleaded AH0 N L EH1 D IH0 D
+unleash AH0 N L IY1 SH
+unleashed AH0 N L IY1 SH T
+unleashes AH0 N L IY1 SH IH0 Z
+unleashing AH0 N L IY1 SH IH0 NG
+unless AH0 N L EH1 S
+unlicensed AH0 N L AY1 S AH0 N S T
+unlike AH0 N L AY1 K
+unlikely AH0 N L AY1 K L IY0
+unlimited AH0 N L IH1 M AH0 T IH0 D
+unlisted AH0 N L IH1 S T IH0 D
+unload AH0 N L OW1 D
+unloaded AH0 N L OW1 D IH0 D
+unloading AH0 N L OW1 D IH0 NG
+unlock AH0 N L AA1 K
+unlocked AH0 N L AA1 K T
+unlocking AH0 N L AA1 K IH0 NG
+unloved AH0 N L AH1 V D
+unlucky AH0 N L AH1 K IY0
+unmade AH0 N M EY1 D
+unmanned AH0 N M AE1 N D
+unmarked AH0 N M AA1 R K T
+unmarried AH0 N M EH1 R IY0 D
+unmask AH0 N M AE1 S K
+unmistakable AH2 N M IH0 S T EY1 K AH0 B AH0 L
+unmitigated AH0 N M IH1 T AH0 G EY2 T IH0 D
+unnamed AH0 N N EY1 M D
+unnatural AH0 N N AE1 CH ER0 AH0 L
+unnecessarily AH0 N N EH1 S AH0 S EH2 R AH0 L IY0
+unnecessary AH0 N N EH1 S AH0 S EH2 R IY0
+unnerved AH0 N N ER1 V D
+unnerving AH0 N ER1 V IH0 NG
+unnoticed AH0 N N OW1 T IH0 S T
+unobtrusive AH2 N AH0 B T R UW1 S IH0 V
+unoccupied AH0 N AA1 K Y AH0 P AY2 D
+unofficial AH2 N AH0 F IH1 SH AH0 L
+unofficially AH0 N AH0 F IH1 SH AH0 L IY0
+unopened AH0 N OW1 P AH0 N D
+unorthodox AH0 N AO1 R TH AH0 D AA2 K S
+unpack AH0 N P AE1 K
+unpacked AH0 N P AE1 K T
+unpacking AH0 N P AE1 K IH0 NG
+unpaid AH0 N P EY1 D
+unparalleled AH0 N P EH1 R AH0 L EH2 L D
+unpatriotic AH0 N P EY2 T R IY0 AA1 T IH0 K
+unpleasant AH0 N P L EH1 Z AH0 N T
+unpleasantness AH0 N P L EH1 Z AH0 N T N AH0 S
+unplug AH0 N P L AH1 G
+unplugged AH0 N P L AH1 G D
+unpopular AH2 N P AA1 P Y AH0 L ER0
+unprecedented AH0 N P R EH1 S IH0 D EH2 N T IH0 D
+unpredictable AH2 N P R IH0 D IH1 K T AH0 B AH0 L
+unprepared AH2 N P R IY0 P EH1 R D
+unprincipled AH0 N P R IH1 N S AH0 P AH0 L D
+unproductive AH2 N P R AH0 D AH1 K T IH0 V
+unprofessional AH2 N P R AH0 F EH1 SH AH0 N AH0 L
+unprotected AH2 N P R AH0 T EH1 K T IH0 D
+unprovoked AH2 N P R AH0 V OW1 K T
+unpunished AH0 N P AH1 N IH0 SH T
+unqualified AH0 N K W AA1 L IH0 F AY2 D
+unquestionably AH0 N K W EH1 S CH AH0 N AH0 B L IY0
+unquestioned AH0 N K W EH1 S CH AH0 N D
+unquote AH1 N K W OW1 T
+unravel AH0 N R AE1 V AH0 L
+unraveling AH0 N R AE1 V AH0 L IH0 NG
+unreachable AH0 N R IY1 CH AH0 B AH0 L
+unreal AH0 N R IY1 L
+unrealistic AH0 N R IY2 L IH1 S T IH0 K
+unreasonable AH0 N R IY1 Z N AH0 B AH0 L
+unrecognizable AH0 N R EH2 K AH0 G N AY1 Z AH0 B AH0 L
+unregistered AH0 N R EH1 JH IH0 S T ER0 D
+unrelated AH2 N R IH0 L EY1 T IH0 D
+unrelenting AH2 N R IY0 L EH1 N T IH0 NG
+unreliable AH2 N R IH0 L AY1 AH0 B AH0 L
+unremarkable AH0 N R IH0 M AA1 R K AH0 B AH0 L
+unrequited AH2 N R IY0 K W AY1 T IH0 D
+unresolved AH0 N R IH0 Z AA1 L V D
+unresponsive AH2 N R IY0 S P AA1 N S IH0 V
+unrest AH0 N R EH1 S T
+unruly AH0 N R UW1 L IY0
+unsafe AH0 N S EY1 F
+unsaid AH0 N S EH1 D
+unsanitary AH0 N S AE1 N AH0 T EH2 R IY0
+unsatisfactory AH2 N S AH0 T IH0 S F AE1 K T ER0 IY0
+unsatisfied AH0 N S AE1 T IH0 S F AY2 D
+unsatisfying AH0 N S AE1 T IH0 S F AY2 IH0 NG
+unsavory AH0 N S EY1 V ER0 IY0
+unscathed AH0 N S K EY1 DH D
+unscheduled AH0 N S K EH1 JH UW0 L D
+unscrupulous AH0 N S K R UW1 P Y AH0 L AH0 S
+unseemly AH0 N S IY1 M L IY0
+unseen AH0 N S IY1 N
+unsettled AH0 N S EH1 T AH0 L D
+unsettling AH0 N S EH1 T AH0 L IH0 NG
+unsightly AH0 N S AY1 T L IY0
+unsigned AH0 N S AY1 N D
+unsolicited AH2 N S AH0 L IH1 S IH0 T IH0 D
+unsolved AH0 N S AA1 L V D
+unsophisticated AH2 N S AH0 F IH1 S T IH0 K EY2 T IH0 D
+unsound AH0 N S AW1 N D
+unspeakable AH0 N S P IY1 K AH0 B AH0 L
+unspecified AH0 N S P EH1 S AH0 F AY2 D
+unspoiled AH0 N S P OY1 L D
+unspoken AH0 N S P OW1 K AH0 N
+unstable AH0 N S T EY1 B AH0 L
+unsteady AH0 N S T EH1 D IY0
+unstoppable AH0 N S T AA1 P AH0 B AH0 L
+unsubstantiated AH2 N S AH0 B S T AE1 N SH IY0 EY2 T IH0 D
+unsuccessful AH2 N S AH0 K S EH1 S F AH0 L
+unsuitable AH0 N S UW1 T AH0 B AH0 L
+unsung AH0 N S AH1 NG
+unsupervised AH0 N S UW1 P ER0 V AY2 Z D
+unsupported AH0 N S AH0 P AO1 R T IH0 D
+unsure AH0 N SH UH1 R
+unsurpassed AH2 N S ER0 P AE1 S T
+unsuspecting AH2 N S AH0 S P EH1 K T IH0 NG
+unsympathetic AH0 N S IH2 M P AH0 TH EH1 T IH0 K
+untangle AH0 N T AE1 NG G AH0 L
+untapped AH0 N T AE1 P T
+unthinkable AH0 N TH IH1 NG K AH0 B AH0 L
+untidy AH0 N T AY1 D IY0
+untie AH0 N T AY1
+untied AH0 N T AY1 D
+until AH0 N T IH1 L
+untimely AH0 N T AY1 M L IY0
+unto AH1 N T UW0
+untold AH0 N T OW1 L D
+untouchable AH0 N T AH1 CH AH0 B AH0 L
+untouched AH0 N T AH1 CH T
+untoward AH0 N T UW0 AO1 R D
+untraceable AH0 N T R EY1 S AH0 B AH0 L
+untrained AH0 N T R EY1 N D
+untrue AH0 N T R UW1
+untrustworthy AH0 N T R AH1 S T W ER2 DH IY0
+unturned AH0 N T ER1 N D
+unusable AH0 N Y UW1 Z AH0 B AH0 L
+unused AH0 N Y UW1 Z D
+unusual AH0 N Y UW1 ZH UW2 AH0 L
+unusually AH0 N Y UW1 ZH UW2 AH0 L IY0
+unveil AH0 N V EY1 L
+unveiled AH0 N V EY1 L D
+unveiling AH0 N V EY1 L IH0 NG
+unwanted AH0 N W AO1 N T IH0 D
+unwarranted AH0 N W AO1 R AH0 N T IH0 D
+unwashed AH0 N W AA1 SH T
+unwavering AH0 N W EY1 V ER0 IH0 NG
+unwed AH0 N W EH1 D
+unwelcome AH0 N W EH1 L K AH0 M
+unwell AH0 N W EH1 L
+unwilling AH0 N W IH1 L IH0 NG
+unwind AH0 N W AY1 N D
+unwise AH0 N W AY1 Z
+unwitting AH0 N W IH1 T IH0 NG
+unwittingly AH0 N W IH1 T IH0 NG L IY0
+unworthy AH0 N W ER1 DH IY0
+unwrap AH0 N R AE1 P
+unwrapped AH0 N R AE1 P T
+unwritten AH0 N R IH1 T AH0 N
+unzip AH0 N Z IH1 P
+unzipped AH0 N Z IH1 P T
+up AH1 P
+upbeat AH1 P B IY2 T
+upbringing AH1 P B R IH2 NG IH0 NG
+upcoming AH1 P K AH2 M IH0 NG
+update AH0 P D EY1 T
+updated AH0 P D EY1 T IH0 D
+updates AH0 P D EY1 T S
+updating AH0 P D EY1 T IH0 NG
+upfront AH1 P F R AH2 N T
+upgrade AH0 P G R EY1 D
+upgraded AH0 P G R EY1 D IH0 D
+upgrades AH0 P G R EY1 D Z
+upgrading AH0 P G R EY1 D IH0 NG
+upheaval AH0 P HH IY1 V AH0 L
+upheld AH0 P HH EH1 L D
+uphill AH1 P HH IH1 L
+uphold AH0 P HH OW1 L D
+upholding AH0 P HH OW1 L D IH0 NG
+upholstery AH0 P OW1 L S T ER0 IY0
+upkeep AH1 P K IY2 P
+uplift AH1 P L IH0 F T
+uplifting AH1 P L IH2 F T IH0 NG
+uplink AH1 P L IH2 NG K
+upload AH1 P L OW2 D
+uploaded AH1 P L OW2 D IH0 D
+uploading AH1 P L OW2 D IH0 NG
+upon AH0 P AA1 N
+upped AH1 P T
+upper AH1 P ER0
+uppers AH1 P ER0 Z
+upping AH1 P IH0 NG
+uppity AH1 P AH0 T IY0
+upright AH0 P R AY1 T
+uprising AH0 P R AY1 Z IH0 NG
+upriver AH2 P R IH1 V ER0
+uproar AH1 P R AO2 R
+uproot AH0 P R UW1 T
+uprooted AH0 P R UW1 T IH0 D
+ups AH1 P S
+upscale AH1 P S K EY2 L
+upset AH0 P S EH1 T
+upsets AH0 P S EH1 T S
+upsetting AH0 P S EH1 T IH0 NG
+upshot AH1 P SH AA2 T
+upside AH1 P S AY1 D
+upstage AH0 P S T EY1 JH
+upstairs AH0 P S T EH1 R Z
+upstanding AH1 P S T AE2 N D IH0 NG
+upstart AH1 P S T AA2 R T
+upstate AH1 P S T EY1 T
+upstream AH1 P S T R IY1 M
+uptight AH0 P T AY1 T
+uptown AH1 P T AW1 N
+upward AH1 P W ER0 D
+upwards AH1 P W ER0 D Z
+ur ER1
+uranium Y ER0 EY1 N IY0 AH0 M
+uranus Y UW1 R AH0 N AH0 S
+urban ER1 B AH0 N
+urbana ER0 B AE1 N AH0
+urchin ER1 CH AH0 N
+urge ER1 JH
+urged ER1 JH D
+urgency ER1 JH AH0 N S IY0
+urgent ER1 JH AH0 N T
+urgently ER1 JH AH0 N T L IY0
+urges ER1 JH AH0 Z
+urging ER1 JH IH0 NG
+urinary Y ER1 AH0 N EH2 R IY0
+urinate Y ER1 AH0 N EY2 T
+urinating Y ER1 AH0 N EY2 T IH0 NG
+urine Y ER1 AH0 N
+urn ER1 N
+urologist Y ER0 AA1 L AH0 JH AH0 S T
+uruguay Y ER1 AH0 G W EY2
+us AH1 S
+usa Y UW2 EH2 S EY1
+usable Y UW1 Z AH0 B AH0 L
+usage Y UW1 S AH0 JH
+use Y UW1 S
+used Y UW1 Z D
+useful Y UW1 S F AH0 L
+usefulness Y UW1 S F AH0 L N AH0 S
+useless Y UW1 S L AH0 S
+user Y UW1 Z ER0
+users Y UW1 Z ER0 Z
+uses Y UW1 S AH0 Z
+usher AH1 SH ER0
+ushers AH1 SH ER0 Z
+using Y UW1 Z IH0 NG
+ussr Y UW2 EH2 S EH2 S AA1 R
+usual Y UW1 ZH AH0 W AH0 L
+usually Y UW1 ZH AH0 W AH0 L IY0
+utah Y UW1 T AO2
+utensils Y UW0 T EH1 N S AH0 L Z
+uterine Y UW1 T ER0 AH0 N
+uterus Y UW1 T ER0 AH0 S
+uther Y UW1 TH ER0
+utilities Y UW0 T IH1 L AH0 T IY0 Z
+utility Y UW0 T IH1 L AH0 T IY0
+utilize Y UW1 T AH0 L AY2 Z
+utilized Y UW1 T AH0 L AY2 Z D
+utilizing Y UW1 T AH0 L AY2 Z IH0 NG
+utmost AH1 T M OW2 S T
+utopia Y UW0 T OW1 P IY0 AH0
+utopian Y UW0 T OW1 P IY0 AH0 N
+utter AH1 T ER0
+uttered AH1 T ER0 D
+utterly AH1 T ER0 L IY0
+v V IY1
+vacancies V EY1 K AH0 N S IY0 Z
+vacancy V EY1 K AH0 N S IY0
+vacant V EY1 K AH0 N T
+vacate V EY1 K EY0 T
+vacated V EY0 K EY1 T IH0 D
+vacation V EY0 K EY1 SH AH0 N
+vacationing V EY0 K EY1 SH AH0 N IH0 NG
+vacations V EY0 K EY1 SH AH0 N Z
+vaccinated V AE1 K S AH0 N EY0 T IH0 D
+vaccination V AE0 K S AH0 N EY1 SH AH0 N
+vaccine V AE2 K S IY1 N
+vaccines V AE2 K S IY1 N Z
+vacuous V AE1 K Y UW0 AH0 S
+vacuum V AE1 K Y UW0 M
+vacuumed V AE1 K Y UW0 M D
+vacuuming V AE1 K Y UW0 M IH0 NG
+vagabond V AE1 G AH0 B AA0 N D
+vagina V AH0 JH AY1 N AH0
+vaginal V AH0 JH AY1 N AH0 L
+vagrancy V EY1 G R AH0 N S IY0
+vagrant V EY1 G R AH0 N T
+vague V EY1 G
+vaguely V EY1 G L IY0
+vaguest V EY1 G IH0 S T
+vail V EY1 L
+vain V EY1 N
+val V AE1 L
+vale V EY1 L
+valedictorian V AE2 L AH0 D IH2 K T AO1 R IY0 AH0 N
+valencia V AH0 L EH1 N S IY0 AH0
+valentine V AE1 L AH0 N T AY2 N
+valentines V AE1 L AH0 N T AY2 N Z
+valet V AE0 L EY1
+valhalla V AE2 L HH AE1 L AH0
+valiant V AE1 L Y AH0 N T
+valiantly V AE1 L Y AH0 N T L IY0
+valid V AE1 L IH0 D
+validate V AE1 L AH0 D EY0 T
+validated V AE1 L AH0 D EY0 T IH0 D
+validation V AE2 L AH0 D EY1 SH AH0 N
+validity V AH0 L IH1 D AH0 T IY0
+valium V EY1 L IY0 AH0 M
+valley V AE1 L IY0
+valleys V AE1 L IY0 Z
+valois V AE0 L W AA1
+valor V AE1 L ER0
+valuable V AE1 L Y AH0 B AH0 L
+valuables V AE1 L Y AH0 B AH0 L Z
+value V AE1 L Y UW0
+valued V AE1 L Y UW0 D
+values V AE1 L Y UW0 Z
+valve V AE1 L V
+valves V AE1 L V Z
+vamos V AA1 M OW0 Z
+vamp V AE1 M P
+vampire V AE1 M P AY0 R
+vampires V AE1 M P AY0 R Z
+van V AE1 N
+vancouver V AE0 N K UW1 V ER0
+vandal V AE1 N D AH0 L
+vandalism V AE1 N D AH0 L IH0 Z AH0 M
+vandalized V AE1 N D AH0 L AY2 Z D
+vandalizing V AE1 N D AH0 L AY2 Z IH0 NG
+vandals V AE1 N D AH0 L Z
+vane V EY1 N
+vanessa V AH0 N EH1 S AH0
+vanguard V AE1 N G AA2 R D
+vanilla V AH0 N IH1 L AH0
+vanish V AE1 N IH0 SH
+vanished V AE1 N IH0 SH T
+vanishes V AE1 N IH0 SH IH0 Z
+vanishing V AE1 N IH0 SH IH0 NG
+vanity V AE1 N AH0 T IY0
+vanquish V AE1 NG K W IH0 SH
+vanquished V AE1 NG K W IH0 SH T
+vans V AE1 N Z
+vantage V AE1 N T AH0 JH
+vapid V AE1 P IH0 D
+vapor V EY1 P ER0
+vaporize V EY1 P ER0 AY2 Z
+vaporized V EY1 P ER0 AY2 Z D
+vapors V EY1 P ER0 Z
+variable V EH1 R IY0 AH0 B AH0 L
+variables V EH1 R IY0 AH0 B AH0 L Z
+variance V EH1 R IY0 AH0 N S
+variation V EH2 R IY0 EY1 SH AH0 N
+variations V EH2 R IY0 EY1 SH AH0 N Z
+varied V EH1 R IY0 D
+varies V EH1 R IY0 Z
+varieties V ER0 AY1 AH0 T IY0 Z
+variety V ER0 AY1 AH0 T IY0
+various V EH1 R IY0 AH0 S
+varmint V AA1 R M IH0 N T
+varnish V AA1 R N IH0 SH
+varsity V AA1 R S IH0 T IY0
+vary V EH1 R IY0
+varying V EH1 R IY0 IH0 NG
+vascular V AE1 S K Y AH0 L ER0
+vase V EY1 S
+vasectomy V AE0 Z EH1 K T AH0 M IY0
+vaseline V AE1 S AH0 L IY2 N
+vases V EY1 S AH0 Z
+vassal V AE1 S AH0 L
+vassar V AE1 S ER0
+vast V AE1 S T
+vastly V AE1 S T L IY0
+vat V AE1 T
+vatican V AE1 T IH0 K AH0 N
+vaudeville V AA1 D V IH0 L
+vault V AO1 L T
+vaults V AO1 L T S
+veal V IY1 L
+vector V EH1 K T ER0
+vectors V EH1 K T ER0 Z
+veda V EY1 D AH0
+veer V IH1 R
+veered V IH1 R D
+vega V EY1 G AH0
+vegan V EH1 G AH0 N
+vegas V EY1 G AH0 S
+vegetable V EH1 JH T AH0 B AH0 L
+vegetables V EH1 JH T AH0 B AH0 L Z
+vegetarian V EH2 JH AH0 T EH1 R IY2 AH0 N
+vegetarians V EH2 JH AH0 T EH1 R IY2 AH0 N Z
+vegetation V EH2 JH AH0 T EY1 SH AH0 N
+vegetative V EH2 JH AH0 T EY1 T IH0 V
+veggie V EH1 JH IY0
+veggies V EH1 JH IY0 Z
+vehicle V IY1 HH IH0 K AH0 L
+vehicles V IY1 HH IH0 K AH0 L Z
+vehicular V IY0 HH IH1 K Y AH0 L ER0
+veil V EY1 L
+veiled V EY1 L D
+veils V EY1 L Z
+vein V EY1 N
+veins V EY1 N Z
+velcro V EH1 L K R OW0
+velocity V AH0 L AA1 S AH0 T IY0
+velour V EH2 L UW1 R
+velvet V EH1 L V AH0 T
+venal V IY1 N AH0 L
+vendetta V EH0 N D EH1 T AH0
+vending V EH1 N D IH0 NG
+vendor V EH1 N D ER0
+vendors V EH1 N D ER0 Z
+veneer V AH0 N IH1 R
+venerable V EH1 N ER0 AH0 B AH0 L
+venereal V AH0 N IH1 R IY0 AH0 L
+venetian V AH0 N IY1 SH AH0 N
+venezuela V EH2 N IH0 Z W EY1 L AH0
+venezuelan V EH2 N IH0 Z W EY1 L AH0 N
+vengeance V EH1 N JH AH0 N S
+vengeful V EH1 N JH F AH0 L
+venice V EH1 N AH0 S
+venison V EH1 N AH0 S AH0 N
+venner V EH1 N ER0
+venom V EH1 N AH0 M
+venomous V EH1 N AH0 M AH0 S
+venous V IY1 N AH0 S
+vent V EH1 N T
+ventilate V EH1 N T AH0 L EY2 T
+ventilation V EH2 N T AH0 L EY1 SH AH0 N
+ventilator V EH1 N T AH0 L EY2 T ER0
+venting V EH1 N T IH0 NG
+ventricle V EH1 N T R IH2 K AH0 L
+ventricular V EH0 N T R IH1 K Y UW0 L ER0
+vents V EH1 N T S
+venture V EH1 N CH ER0
+ventured V EH1 N CH ER0 D
+ventures V EH1 N CH ER0 Z
+venue V EH1 N Y UW0
+venus V IY1 N AH0 S
+ver V ER1
+vera V EH1 R AH0
+veracity V ER0 AE1 S IH0 T IY0
+veranda V ER0 AE1 N D AH0
+verb V ER1 B
+verbal V ER1 B AH0 L
+verbally V ER0 B AE1 L IY0
+verbatim V ER0 B EY1 T AH0 M
+verboten V ER0 B OW1 T AH0 N
+verbs V ER1 B Z
+verde V ER1 D IY0
+verdi V EH1 R D IY0
+verdict V ER1 D IH0 K T
+verge V ER1 JH
+verification V EH2 R AH0 F AH0 K EY1 SH AH0 N
+verified V EH1 R AH0 F AY2 D
+verify V EH1 R AH0 F AY2
+verifying V EH1 R AH0 F AY2 IH0 NG
+veritable V EH1 R IH0 T AH0 B AH0 L
+vermin V ER1 M IH0 N
+vermont V ER0 M AA1 N T
+vermouth V ER0 M UW1 TH
+vernacular V ER0 N AE1 K Y AH0 L ER0
+vernon V ER1 N AH0 N
+veronica V ER0 AA1 N IH0 K AH0
+versa V ER1 S AH0
+versailles V EH0 R S AY1
+versatile V ER1 S AH0 T AH0 L
+verse V ER1 S
+versed V ER1 S T
+verses V ER1 S AH0 Z
+version V ER1 ZH AH0 N
+versions V ER1 ZH AH0 N Z
+versus V ER1 S AH0 S
+vertebra V ER1 T AH0 B R AH0
+vertebrae V ER1 T AH0 B R EY2
+vertical V ER1 T IH0 K AH0 L
+vertically V ER1 T IH0 K L IY0
+vertigo V ER1 T IH0 G OW2
+very V EH1 R IY0
+vessel V EH1 S AH0 L
+vessels V EH1 S AH0 L Z
+vest V EH1 S T
+vestal V EH1 S T AH0 L
+vested V EH1 S T IH0 D
+vestibule V EH1 S T IH0 B Y UW2 L
+vestige V EH1 S T IH0 JH
+vestigial V AH0 S T IH1 JH IY0 AH0 L
+vests V EH1 S T S
+vesuvius V AH0 S UW1 V IY0 AH0 S
+vet V EH1 T
+veta V EH1 T AH0
+veteran V EH1 T ER0 AH0 N
+veterans V EH1 T ER0 AH0 N Z
+veterinarian V EH2 T R AH0 N EH1 R IY0 AH0 N
+veterinary V EH1 T R AH0 N EH2 R IY0
+veto V IY1 T OW2
+vets V EH1 T S
+vetted V EH1 T IH0 D
+vexed V EH1 K S T
+vi V AY1
+via V AY1 AH0
+viable V AY1 AH0 B AH0 L
+vial V AY1 AH0 L
+vials V AY1 AH0 L Z
+vibe V AY1 B
+vibes V AY1 B Z
+vibrant V AY1 B R AH0 N T
+vibrate V AY1 B R EY0 T
+vibrates V AY1 B R EY0 T S
+vibrating V AY1 B R EY0 T IH0 NG
+vibration V AY0 B R EY1 SH AH0 N
+vibrations V AY0 B R EY1 SH AH0 N Z
+vibrator V AY1 B R EY0 T ER0
+vic V IH1 K
+vicar V IH1 K ER0
+vicarious V AY0 K EH1 R IY0 AH0 S
+vicariously V AY0 K EH1 R IY0 AH0 S L IY0
+vice V AY1 S
+viceroy V AY1 S R OY0
+vices V AY1 S AH0 Z
+vichy V IY1 SH IY0
+vicinity V AH0 S IH1 N AH0 T IY0
+vicious V IH1 SH AH0 S
+viciously V IH1 SH AH0 S L IY0
+victim V IH1 K T AH0 M
+victimized V IH1 K T AH0 M AY0 Z D
+victimless V IH1 K T AH0 M L AH0 S
+victims V IH1 K T AH0 M Z
+victor V IH1 K T ER0
+victoria V IH0 K T AO1 R IY0 AH0
+victorian V IH0 K T AO1 R IY0 AH0 N
+victories V IH1 K T ER0 IY0 Z
+victorious V IH0 K T AO1 R IY0 AH0 S
+victory V IH1 K T ER0 IY0
+video V IH1 D IY0 OW0
+videos V IH1 D IY0 OW0 Z
+videotape V IH1 D IY0 OW0 T EY1 P
+videotaped V IH1 D IY0 OW0 T EY1 P T
+videotapes V IH1 D IY0 OW0 T EY1 P S
+videotaping V IH1 D IY0 OW0 T EY2 P IH0 NG
+vie V AY1
+vienna V IY0 EH1 N AH0
+viennese V IY0 EH1 N IY2 S
+vietcong V IY0 EH1 T K AO1 NG
+vietnam V IY0 EH2 T N AA1 M
+vietnamese V IY0 EH2 T N AA0 M IY1 S
+view V Y UW1
+viewed V Y UW1 D
+viewer V Y UW1 ER0
+viewers V Y UW1 ER0 Z
+viewing V Y UW1 IH0 NG
+viewpoint V Y UW1 P OY2 N T
+views V Y UW1 Z
+vigil V IH1 JH AH0 L
+vigilance V IH1 JH AH0 L AH0 N S
+vigilant V IH1 JH AH0 L AH0 N T
+vigilante V IH2 JH AH0 L AE1 N T IY0
+vigilantes V IH2 JH AH0 L AE1 N T IY0 Z
+vigor V IH1 G ER0
+vigorous V IH1 G ER0 AH0 S
+vigorously V IH1 G ER0 AH0 S L IY0
+viking V AY1 K IH0 NG
+vikings V AY1 K IH0 NG Z
+vila V IY1 L AH0
+vile V AY1 L
+villa V IH1 L AH0
+village V IH1 L AH0 JH
+villagers V IH1 L IH0 JH ER0 Z
+villages V IH1 L AH0 JH AH0 Z
+villain V IH1 L AH0 N
+villainous V IH1 L AH0 N AH0 S
+villains V IH1 L AH0 N Z
+ville V IH1 L
+vin V IH1 N
+vincent V IH1 N S AH0 N T
+vinci V IH1 N S IY0
+vindicated V IH1 N D AH0 K EY0 T IH0 D
+vindication V IH0 N D AH0 K EY1 SH AH0 N
+vindictive V IH0 N D IH1 K T IH0 V
+vine V AY1 N
+vinegar V IH1 N AH0 G ER0
+vines V AY1 N Z
+vineyard V IH1 N Y ER0 D
+vineyards V IH1 N Y ER0 D Z
+vinny V IH1 N IY0
+vintage V IH1 N T IH0 JH
+vinyl V AY1 N AH0 L
+viola V AY0 OW1 L AH0
+violate V AY1 AH0 L EY0 T
+violated V AY1 AH0 L EY0 T IH0 D
+violates V AY1 AH0 L EY0 T S
+violating V AY1 AH0 L EY0 T IH0 NG
+violation V AY0 AH0 L EY1 SH AH0 N
+violations V AY0 AH0 L EY1 SH AH0 N Z
+violence V AY1 AH0 L AH0 N S
+violent V AY1 AH0 L AH0 N T
+violently V AY1 AH0 L AH0 N T L IY0
+violet V AY1 AH0 L IH0 T
+violets V AY1 AH0 L AH0 T S
+violin V AY0 AH0 L IH1 N
+violinist V AY0 AH0 L IH1 N AH0 S T
+violins V AY0 AH0 L IH1 N Z
+vip V IY2 AY2 P IY1
+viper V AY1 P ER0
+vipers V AY1 P ER0 Z
+viral V AY1 R AH0 L
+virge V ER1 JH
+virgil V ER1 JH AH0 L
+virgin V ER1 JH IH0 N
+virginal V ER1 JH AH0 N AH0 L
+virginia V ER0 JH IH1 N Y AH0
+virginian V ER0 JH IH1 N Y AH0 N
+virginity V ER0 JH IH1 N IH0 T IY0
+virgins V ER1 JH AH0 N Z
+virgo V ER1 G OW0
+virile V IH1 R AH0 L
+virility V ER0 IH1 L AH0 T IY0
+virtual V ER1 CH UW0 AH0 L
+virtually V ER1 CH UW0 AH0 L IY0
+virtue V ER1 CH UW0
+virtues V ER1 CH UW0 Z
+virtuoso V ER0 CH UW0 OW1 S OW0
+virtuous V ER1 CH UW0 AH0 S
+virus V AY1 R AH0 S
+viruses V AY1 R AH0 S AH0 Z
+visa V IY1 Z AH0
+visas V IY1 Z AH0 Z
+viscous V IH1 S K AH0 S
+vise V AY1 S
+visibility V IH2 Z AH0 B IH1 L IH0 T IY0
+visible V IH1 Z AH0 B AH0 L
+vision V IH1 ZH AH0 N
+visionaries V IH1 ZH AH0 N EH0 R IY0 Z
+visionary V IH1 ZH AH0 N EH2 R IY0
+visions V IH1 ZH AH0 N Z
+visit V IH1 Z IH0 T
+visitation V IH2 Z IH0 T EY1 SH AH0 N
+visited V IH1 Z IH0 T IH0 D
+visiting V IH1 Z IH0 T IH0 NG
+visitor V IH1 Z IH0 T ER0
+visitors V IH1 Z IH0 T ER0 Z
+visits V IH1 Z IH0 T S
+visor V AY1 Z ER0
+vista V IH1 S T AH0
+visual V IH1 ZH AH0 W AH0 L
+visualize V IH1 ZH W AH0 L AY2 Z
+visualizing V IH1 ZH W AH0 L AY2 Z IH0 NG
+visually V IH1 ZH W AH0 L IY0
+visuals V IH1 ZH W AH0 L Z
+vita V AY1 T AH0
+vital V AY1 T AH0 L
+vitality V AY0 T AE1 L AH0 T IY0
+vitally V AY1 T AH0 L IY0
+vitamin V AY1 T AH0 M AH0 N
+vitamins V AY1 T AH0 M AH0 N Z
+vitro V IH1 T R OW0
+vittles V IH1 T AH0 L Z
+viva V IY1 V AH0
+vivacious V AH0 V EY1 SH AH0 S
+vive V IY1 V
+vivian V IH1 V IY0 AH0 N
+vivid V IH1 V AH0 D
+vividly V IH1 V AH0 D L IY0
+vixen V IH1 K S IH0 N
+vo V OW1
+vocabulary V OW0 K AE1 B Y AH0 L EH2 R IY0
+vocal V OW1 K AH0 L
+vocalist V OW1 K AH0 L IH0 S T
+vocals V OW1 K AH0 L Z
+vocation V OW0 K EY1 SH AH0 N
+vocational V OW0 K EY1 SH AH0 N AH0 L
+vodka V AA1 D K AH0
+vogue V OW1 G
+voice V OY1 S
+voiced V OY1 S T
+voicemail V OY1 S M EY2 L
+voices V OY1 S AH0 Z
+void V OY1 D
+voila V W AA2 L AA1
+volatile V AA1 L AH0 T AH0 L
+volcanic V AA0 L K AE1 N IH0 K
+volcano V AA0 L K EY1 N OW0
+volcanoes V AA0 L K EY1 N OW0 Z
+volga V AA1 L G AH0
+volition V OW0 L IH1 SH AH0 N
+volkswagen V OW1 L K S W AE2 G AH0 N
+volley V AA1 L IY0
+volleyball V AA1 L IY0 B AO2 L
+volt V OW1 L T
+voltage V OW1 L T AH0 JH
+voltaire V OW0 L T EH1 R
+volts V OW1 L T S
+volume V AA1 L Y UW0 M
+volumes V AA1 L Y UW0 M Z
+voluntarily V AA2 L AH0 N T EH1 R AH0 L IY0
+voluntary V AA1 L AH0 N T EH0 R IY0
+volunteer V AA2 L AH0 N T IH1 R
+volunteered V AA2 L AH0 N T IH1 R D
+volunteering V AO2 L AH0 N T IH1 R IH0 NG
+volunteers V AA2 L AH0 N T IH1 R Z
+voluptuous V AH0 L AH1 P CH AH0 W AH0 S
+vomit V AA1 M AH0 T
+vomiting V AA1 M AH0 T IH0 NG
+von V AO1 N
+voodoo V UW1 D UW2
+voracious V AO0 R EY1 SH AH0 S
+vortex V AO1 R T EH0 K S
+vote V OW1 T
+voted V OW1 T IH0 D
+voter V OW1 T ER0
+voters V OW1 T ER0 Z
+votes V OW1 T S
+voting V OW1 T IH0 NG
+vouch V AW1 CH
+vouched V AW1 CH T
+voucher V AW1 CH ER0
+vouchers V AW1 CH ER0 Z
+vow V AW1
+vowed V AW1 D
+vowel V AW1 AH0 L
+vowels V AW1 AH0 L Z
+vows V AW1 Z
+voyage V OY1 AH0 JH
+voyager V OY1 AH0 JH ER0
+voyages V OY1 AH0 JH AH0 Z
+voyeur V OY2 Y UW1 R
+vp V IY2 P IY1
+vroom V R UW1 M
+vs V IY1 EH1 S
+vulcan V AH1 L K AH0 N
+vulgar V AH1 L G ER0
+vulgarity V AH0 L G EH1 R IH0 T IY0
+vulnerability V AH2 L N ER0 AH0 B IH1 L IH0 T IY0
+vulnerable V AH1 L N ER0 AH0 B AH0 L
+vulture V AH1 L CH ER0
+vultures V AH1 L CH ER0 Z
+vying V AY1 IH0 NG
+w D AH1 B AH0 L Y UW0
+wa W AA1
+wack W AE1 K
+wacker W AE1 K ER0
+wacko W AE1 K OW0
+wackos W AE1 K OW0 Z
+wacky W AE1 K IY0
+wad W AA1 D
+waddle W AA1 D AH0 L
+wade W EY1 D
+waders W EY1 D ER0 Z
+wading W EY1 D IH0 NG
+wafer W EY1 F ER0
+wafers W EY1 F ER0 Z
+waffle W AA1 F AH0 L
+waffles W AA1 F AH0 L Z
+wag W AE1 G
+wage W EY1 JH
+waged W EY1 JH D
+wager W EY1 JH ER0
+wagered W EY1 JH ER0 D
+wages W EY1 JH AH0 Z
+wagging W AE1 G IH0 NG
+waging W EY1 JH IH0 NG
+wagner W AE1 G N ER0
+wagon W AE1 G AH0 N
+wagons W AE1 G AH0 N Z
+wags W AE1 G Z
+wah W AA1
+waif W EY1 F
+wail W EY1 L
+wailing W EY1 L IH0 NG
+wails W EY1 L Z
+wainwright W EY1 N R AY2 T
+waist W EY1 S T
+waistline W EY1 S T L AY2 N
+wait W EY1 T
+waited W EY1 T IH0 D
+waiter W EY1 T ER0
+waiters W EY1 T ER0 Z
+waiting W EY1 T IH0 NG
+waitress W EY1 T R AH0 S
+waitresses W EY1 T R AH0 S IH0 Z
+waits W EY1 T S
+waive W EY1 V
+waived W EY1 V D
+waiver W EY1 V ER0
+waivers W EY1 V ER0 Z
+wake W EY1 K
+waken W EY1 K AH0 N
+wakes W EY1 K S
+waking W EY1 K IH0 NG
+waldorf W AO1 L D AO0 R F
+wales W EY1 L Z
+walk W AO1 K
+walked W AO1 K T
+walker W AO1 K ER0
+walkers W AO1 K ER0 Z
+walkie W AO1 K IY0
+walking W AO1 K IH0 NG
+walkout W AO1 K AW2 T
+walks W AO1 K S
+walkway W AO1 K W EY2
+wall W AO1 L
+walla W AO1 L AA0
+wallaby W AA1 L AH0 B IY2
+walled W AO1 L D
+waller W AO1 L ER0
+wallet W AO1 L AH0 T
+wallets W AO1 L AH0 T S
+wallflower W AO1 L F L AW2 ER0
+walling W AO1 L IH0 NG
+wallop W AA1 L AH0 P
+wallow W AA1 L OW0
+wallowing W AA1 L OW0 IH0 NG
+wallpaper W AO1 L P EY2 P ER0
+walls W AO1 L Z
+wally W AO1 L IY0
+walnut W AO1 L N AH2 T
+walnuts W AO1 L N AH2 T S
+walrus W AO1 L R AH0 S
+walsh W AO1 L SH
+walt W AO1 L T
+walter W AO1 L T ER0
+waltz W AO1 L T S
+waltzer W AO1 L T S ER0
+waltzes W AO1 L T S AH0 Z
+waltzing W AO1 L T S IH0 NG
+wampum W AA1 M P AH0 M
+wan W AA1 N
+wand W AA1 N D
+wander W AA1 N D ER0
+wandered W AA1 N D ER0 D
+wanderer W AA1 N D ER0 ER0
+wandering W AA1 N D ER0 IH0 NG
+wanders W AA1 N D ER0 Z
+wands W AA1 N D Z
+wane W EY1 N
+wang W AE1 NG
+waning W EY1 N IH0 NG
+wank W AA1 NG K
+wanker W AA1 NG K ER0
+wankers W AA1 NG K ER0 Z
+wanna W AA1 N AH0
+wannabe W AA1 N AH0 B IY2
+wannabes W AA1 N AH0 B IY2 Z
+want W AA1 N T
+wanted W AO1 N T IH0 D
+wanting W AA1 N T IH0 NG
+wanton W AO1 N T AH0 N
+wants W AA1 N T S
+war W AO1 R
+ward W AO1 R D
+warden W AO1 R D AH0 N
+wardens W AO1 R D AH0 N Z
+wardrobe W AO1 R D R OW2 B
+wards W AO1 R D Z
+ware W EH1 R
+warehouse W EH1 R HH AW2 S
+warehouses W EH1 R HH AW2 Z IH0 Z
+wares W EH1 R Z
+warfare W AO1 R F EH2 R
+warhead W AO1 R HH EH2 D
+warheads W AO1 R HH EH2 D Z
+waring W EH1 R IH0 NG
+warlike W AO1 R L AY2 K
+warlock W AO1 R L AO2 K
+warlocks W AO1 R L AO2 K S
+warlord W AO1 R L AO2 R D
+warlords W AO1 R L AO2 R D Z
+warm W AO1 R M
+warmed W AO1 R M D
+warmer W AO1 R M ER0
+warmest W AO1 R M AH0 S T
+warming W AO1 R M IH0 NG
+warmly W AO1 R M L IY0
+warms W AO1 R M Z
+warmth W AO1 R M TH
+warn W AO1 R N
+warned W AO1 R N D
+warner W AO1 R N ER0
+warners W AO1 R N ER0 Z
+warning W AO1 R N IH0 NG
+warnings W AO1 R N IH0 NG Z
+warns W AO1 R N Z
+warp W AO1 R P
+warpath W AO1 R P AE2 TH
+warped W AO1 R P T
+warrant W AO1 R AH0 N T
+warranted W AO1 R AH0 N T IH0 D
+warrants W AO1 R AH0 N T S
+warranty W AO1 R AH0 N T IY0
+warren W AO1 R AH0 N
+warrens W AO1 R AH0 N Z
+warring W AO1 R IH0 NG
+warrior W AO1 R IY0 ER0
+warriors W AO1 R IY0 ER0 Z
+wars W AO1 R Z
+warsaw W AO1 R S AO2
+warship W AO1 R SH IH2 P
+warships W AO1 R SH IH2 P S
+wart W AO1 R T
+wartime W AO1 R T AY2 M
+warts W AO1 R T S
+wary W EH1 R IY0
+was W AA1 Z
+wash W AA1 SH
+washcloth W AA1 SH K L AO2 TH
+washed W AA1 SH T
+washer W AA1 SH ER0
+washers W AA1 SH ER0 Z
+washes W AA1 SH IH0 Z
+washing W AA1 SH IH0 NG
+washington W AA1 SH IH0 NG T AH0 N
+washout W AA1 SH AW2 T
+washroom W AA1 SH R UW2 M
+wasn't W AA1 Z AH0 N T
+wasp W AA1 S P
+wasps W AA1 S P S
+waste W EY1 S T
+wastebasket W EY1 S T B AE2 S K AH0 T
+wasted W EY1 S T IH0 D
+wasteful W EY1 S T F AH0 L
+wasteland W EY1 S T L AE2 N D
+wastepaper W EY1 S T P EY2 P ER0
+wastes W EY1 S T S
+wasting W EY1 S T IH0 NG
+wat W AO1 T
+watch W AA1 CH
+watchdog W AA1 CH D AO2 G
+watchdogs W AA1 CH D AO2 G Z
+watched W AA1 CH T
+watcher W AA1 CH ER0
+watchers W AA1 CH ER0 Z
+watches W AA1 CH AH0 Z
+watchful W AA1 CH F AH0 L
+watching W AA1 CH IH0 NG
+watchman W AA1 CH M AH0 N
+water W AO1 T ER0
+waterbed W AO1 T ER0 B EH2 D
+waterbury W AO1 T ER0 B EH2 R IY0
+watercolors W AO1 T ER0 K AH2 L ER0 Z
+watered W AO1 T ER0 D
+waterfall W AO1 T ER0 F AO2 L
+waterfalls W AO1 T ER0 F AO2 L Z
+waterfront W AO1 T ER0 F R AH2 N T
+watergate W AO1 T ER0 G EY2 T
+watering W AO1 T ER0 IH0 NG
+waterloo W AO1 T ER0 L UW2
+waterman W AO1 T ER0 M AH0 N
+watermark W AO1 T ER0 M AA2 R K
+watermelon W AO1 T ER0 M EH2 L AH0 N
+watermelons W AO1 T ER0 M EH2 L AH0 N Z
+waterproof W AO1 T ER0 P R UW2 F
+waters W AO1 T ER0 Z
+watertight W AO1 T ER0 T AY2 T
+waterworks W AO1 T ER0 W ER2 K S
+watery W AO1 T ER0 IY0
+watson W AA1 T S AH0 N
+watt W AA1 T
+wattle W AA1 T AH0 L
+watts W AA1 T S
+wave W EY1 V
+waved W EY1 V D
+wavelength W EY1 V L EH2 NG TH
+wavelengths W EY1 V L EH2 NG TH S
+waver W EY1 V ER0
+wavering W EY1 V ER0 IH0 NG
+waves W EY1 V Z
+waving W EY1 V IH0 NG
+wavy W EY1 V IY0
+wax W AE1 K S
+waxed W AE1 K S T
+waxing W AE1 K S IH0 NG
+waxman W AE1 K S M AH0 N
+waxy W AE1 K S IY0
+way W EY1
+waylaid W EY1 L EY2 D
+wayne W EY1 N
+ways W EY1 Z
+wayside W EY1 S AY2 D
+wayward W EY1 W ER0 D
+we W IY1
+weak W IY1 K
+weaken W IY1 K AH0 N
+weakened W IY1 K AH0 N D
+weakening W IY1 K AH0 N IH0 NG
+weakens W IY1 K AH0 N Z
+weaker W IY1 K ER0
+weakest W IY1 K AH0 S T
+weakling W IY1 K L IH0 NG
+weakly W IY1 K L IY0
+weakness W IY1 K N AH0 S
+weaknesses W IY1 K N AH0 S AH0 Z
+wealth W EH1 L TH
+wealthiest W EH1 L TH IY0 AH0 S T
+wealthy W EH1 L TH IY0
+weapon W EH1 P AH0 N
+weaponry W EH1 P AH0 N R IY0
+weapons W EH1 P AH0 N Z
+wear W EH1 R
+wearer W EH1 R ER0
+wearing W EH1 R IH0 NG
+wears W EH1 R Z
+weary W IH1 R IY0
+weasel W IY1 Z AH0 L
+weasels W IY1 Z AH0 L Z
+weather W EH1 DH ER0
+weathered W EH1 DH ER0 D
+weatherman W EH1 DH ER0 M AE2 N
+weathers W EH1 DH ER0 Z
+weave W IY1 V
+weaver W IY1 V ER0
+weaves W IY1 V Z
+weaving W IY1 V IH0 NG
+web W EH1 B
+webbed W EH1 B D
+webber W EH1 B ER0
+weber W EH1 B ER0
+webs W EH1 B Z
+website W EH1 B S AY2 T
+websites W EH1 B S AY2 T S
+webster W EH1 B S T ER0
+wed W EH1 D
+wedded W EH1 D IH0 D
+wedding W EH1 D IH0 NG
+weddings W EH1 D IH0 NG Z
+wedge W EH1 JH
+wedged W EH1 JH D
+wedges W EH1 JH AH0 Z
+wedlock W EH1 D L AA2 K
+wednesday W EH1 N Z D IY0
+wednesdays W EH1 N Z D EY2 Z
+wee W IY1
+weed W IY1 D
+weeding W IY1 D IH0 NG
+weeds W IY1 D Z
+weedy W IY1 D IY0
+week W IY1 K
+weekday W IY1 K D EY2
+weekdays W IY1 K D EY2 Z
+weekend W IY1 K EH2 N D
+weekends W IY1 K EH2 N D Z
+weekly W IY1 K L IY0
+weeks W IY1 K S
+weep W IY1 P
+weeping W IY1 P IH0 NG
+weeps W IY1 P S
+weepy W IY1 P IY0
+weevil W IY1 V AH0 L
+weevils W IY1 V AH0 L Z
+weigh W EY1
+weighed W EY1 D
+weighing W EY1 IH0 NG
+weighs W EY1 Z
+weight W EY1 T
+weighted W EY1 T IH0 D
+weightless W EY1 T L AH0 S
+weights W EY1 T S
+weir W IY1 R
+weird W IH1 R D
+weirder W IH1 R D ER0
+weirdest W IH1 R D AH0 S T
+weirdly W IH1 R D L IY0
+weirdness W IH1 R D N AH0 S
+weirdo W IH1 R D OW0
+weirdos W IH1 R D OW0 Z
+welch W EH1 L CH
+welcome W EH1 L K AH0 M
+welcomed W EH1 L K AH0 M D
+welcomes W EH1 L K AH0 M Z
+welcoming W EH1 L K AH0 M IH0 NG
+weld W EH1 L D
+welded W EH1 L D IH0 D
+welder W EH1 L D ER0
+welding W EH1 L D IH0 NG
+welfare W EH1 L F EH2 R
+welk W EH1 L K
+well W EH1 L
+weller W EH1 L ER0
+welling W EH1 L IH0 NG
+wellington W EH1 L IH0 NG T AH0 N
+wellness W EH1 L N AH0 S
+wells W EH1 L Z
+welsh W EH1 L CH
+welterweight W EH1 L T ER0 W EY2 T
+wen W EH1 N
+wench W EH1 N CH
+wenches W EH1 N CH IH0 Z
+went W EH1 N T
+wept W EH1 P T
+were W ER1
+werewolf W EH1 R W UH2 L F
+werewolves W EH1 R W UH2 L V Z
+wesley W EH1 S L IY0
+west W EH1 S T
+westbound W EH1 S T B AW2 N D
+western W EH1 S T ER0 N
+westerners W EH1 S T ER0 N ER0 Z
+westerns W EH1 S T ER0 N Z
+westinghouse W EH1 S T IH0 NG HH AW2 S
+westminster W EH2 S T M IH1 N S T ER0
+westward W EH1 S T W ER0 D
+wet W EH1 T
+wetlands W EH1 T L AE2 N D Z
+wetter W EH1 T ER0
+wetting W EH1 T IH0 NG
+weymouth W EY1 M AH0 TH
+whack W AE1 K
+whacked W AE1 K T
+whacker W AE1 K ER0
+whacking W AE1 K IH0 NG
+whacks W AE1 K S
+whale W EY1 L
+whaler W EY1 L ER0
+whales W EY1 L Z
+whaling W EY1 L IH0 NG
+wham W AE1 M
+whammy W AE1 M IY0
+wharf W AO1 R F
+what W AH1 T
+what's W AH1 T S
+whatever W AH2 T EH1 V ER0
+whatnot W AH1 T N AA2 T
+whats W AH0 T S
+whatsoever W AH2 T S OW0 EH1 V ER0
+wheat W IY1 T
+wheaties W IY1 T IY0 Z
+wheel W IY1 L
+wheelbarrow W IY1 L B EH2 R OW0
+wheelchair W IY1 L CH EH2 R
+wheelchairs W IY1 L CH EH2 R Z
+wheeled W IY1 L D
+wheeler W IY1 L ER0
+wheeling W IY1 L IH0 NG
+wheels W IY1 L Z
+wheeze W IY1 Z
+wheezing W IY1 Z IH0 NG
+when W EH1 N
+whence W EH1 N S
+whenever W EH0 N EH1 V ER0
+where W EH1 R
+whereabouts W EH1 R AH0 B AW2 T S
+whereas W EH0 R AE1 Z
+whereby W EH0 R B AY1
+wherefore W EH0 R F AO1 R
+wherein W EH0 R IH1 N
+wherever W EH0 R EH1 V ER0
+whether W EH1 DH ER0
+whew W UW1
+which W IH1 CH
+whichever W IH0 CH EH1 V ER0
+whiff W IH1 F
+while W AY1 L
+whilst W AY1 L S T
+whim W IH1 M
+whimper W IH1 M P ER0
+whimpering W IH1 M P ER0 IH0 NG
+whims W IH1 M Z
+whimsical W IH1 M Z IH0 K AH0 L
+whimsy W IH1 M S IY0
+whine W AY1 N
+whiner W AY1 N ER0
+whines W AY1 N Z
+whining W AY1 N IH0 NG
+whiny W AY1 N IY0
+whip W IH1 P
+whiplash W IH1 P L AE2 SH
+whipped W IH1 P T
+whipping W IH1 P IH0 NG
+whips W IH1 P S
+whirl W ER1 L
+whirling W ER1 L IH0 NG
+whirlpool W ER1 L P UW2 L
+whirlwind W ER1 L W IH2 N D
+whirring W ER1 IH0 NG
+whisk W IH1 S K
+whisker W IH1 S K ER0
+whiskers W IH1 S K ER0 Z
+whiskey W IH1 S K IY0
+whisky W IH1 S K IY0
+whisper W IH1 S P ER0
+whispered W IH1 S P ER0 D
+whispering W IH1 S P ER0 IH0 NG
+whispers W IH1 S P ER0 Z
+whistle W IH1 S AH0 L
+whistled W IH1 S AH0 L D
+whistler W IH1 S L ER0
+whistles W IH1 S AH0 L Z
+whistling W IH1 S L IH0 NG
+whit W IH1 T
+white W AY1 T
+whitefish W AY1 T F IH2 SH
+whitehall W AY1 T HH AO2 L
+whitehead W AY1 T HH EH2 D
+whiter W AY1 T ER0
+whites W AY1 T S
+whitest W AY1 T IH0 S T
+whitewash W AY1 T W AA2 SH
+whitey W AY1 T IY2
+whitfield W IH1 T F IY0 L D
+whither W IH1 DH ER0
+whiting W AY1 T IH0 NG
+whitman W IH1 T M AH0 N
+whitney W IH1 T N IY0
+whittle W IH1 T AH0 L
+whittling W IH1 T L IH0 NG
+whitworth W IH1 T W ER2 TH
+whiz W IH1 Z
+whizzing W IH1 Z IH0 NG
+who HH UW1
+whoa W OW1
+whoever HH UW0 EH1 V ER0
+whole HH OW1 L
+wholeheartedly HH OW1 L HH AA0 R T IH0 D L IY0
+wholesale HH OW1 L S EY2 L
+wholesome HH OW1 L S AH0 M
+wholly HH OW1 L IY0
+whom HH UW1 M
+whomever HH UW0 M EH1 V ER0
+whoo W UW1
+whoop W UW1 P
+whooped W UW1 P T
+whoopee W UW1 P IY1
+whooping W UW1 P IH0 NG
+whoops W UW1 P S
+whoosh W UW1 SH
+whopper W AA1 P ER0
+whoppers W AA1 P ER0 Z
+whopping W AA1 P IH0 NG
+whore HH AO1 R
+whorehouse HH AO1 R HH AW2 S
+whores HH AO1 R Z
+whose HH UW1 Z
+whosoever HH UW2 S OW0 EH1 V ER0
+why W AY1
+whys W AY1 Z
+wicca W IH1 K AH0
+wichita W IH1 CH AH0 T AO2
+wick W IH1 K
+wicked W IH1 K AH0 D
+wickedness W IH1 K AH0 D N AH0 S
+wicker W IH1 K ER0
+wicks W IH1 K S
+wide W AY1 D
+widely W AY1 D L IY0
+widen W AY1 D AH0 N
+widened W AY1 D AH0 N D
+widening W AY1 D AH0 N IH0 NG
+wider W AY1 D ER0
+widespread W AY1 D S P R EH1 D
+widow W IH1 D OW0
+widowed W IH1 D OW0 D
+widower W IH1 D OW0 ER0
+widows W IH1 D OW0 Z
+width W IH1 D TH
+wield W IY1 L D
+wielding W IY1 L D IH0 NG
+wiener W IY1 N ER0
+wife W AY1 F
+wig W IH1 G
+wiggle W IH1 G AH0 L
+wiggles W IH1 G AH0 L Z
+wiggling W IH1 G AH0 L IH0 NG
+wiggly W IH1 G AH0 L IY0
+wigs W IH1 G Z
+wigwam W IH1 G W AA0 M
+wiki W IH1 K IY2
+wild W AY1 L D
+wildcat W AY1 L D K AE2 T
+wildcats W AY1 L D K AE2 T S
+wilder W AY1 L D ER0
+wilderness W IH1 L D ER0 N AH0 S
+wildest W AY1 L D IH0 S T
+wildfire W AY1 L D F AY2 ER0
+wildlife W AY1 L D L AY2 F
+wildly W AY1 L D L IY0
+wilds W AY1 L D Z
+wile W AY1 L
+wiles W AY1 L Z
+will W IH1 L
+willed W IH1 L D
+willes W AY1 L Z
+willet W IH1 L IH0 T
+willey W IH1 L IY0
+willful W IH1 L F AH0 L
+willfully W IH1 L F AH0 L IY0
+willi W IH1 L IY0
+william W IH1 L Y AH0 M
+williams W IH1 L Y AH0 M Z
+willie W IH1 L IY0
+willing W IH1 L IH0 NG
+willingly W IH1 L IH0 NG L IY0
+willingness W IH1 L IH0 NG N AH0 S
+willow W IH1 L OW2
+willows W IH1 L OW2 Z
+willpower W IH1 L P AW2 ER0
+wills W IH1 L Z
+willy W IH1 L IY0
+wilson W IH1 L S AH0 N
+wilt W IH1 L T
+wilton W IH1 L T AH0 N
+wily W AY1 L IY0
+wimp W IH1 M P
+wimps W IH1 M P S
+wimpy W IH1 M P IY0
+win W IH1 N
+winch W IH1 N CH
+winchester W IH1 N CH EH2 S T ER0
+wind W AY1 N D
+winded W IH1 N D IH0 D
+windfall W IH1 N D F AO2 L
+winding W AY1 N D IH0 NG
+windmill W IH1 N D M IH2 L
+windmills W IH1 N D M IH2 L Z
+window W IH1 N D OW0
+windows W IH1 N D OW0 Z
+winds W IH1 N D Z
+windshield W IH1 N D SH IY2 L D
+windshields W IH1 N D SH IY2 L D Z
+windsor W IH1 N Z ER0
+windy W IH1 N D IY0
+wine W AY1 N
+winery W AY1 N ER0 IY0
+wines W AY1 N Z
+wing W IH1 NG
+winged W IH1 NG D
+winger W IH1 NG ER0
+winging W IH1 NG IH0 NG
+wingman W IH1 NG M AH0 N
+wings W IH1 NG Z
+wink W IH1 NG K
+winked W IH1 NG K T
+winking W IH1 NG K IH0 NG
+winkle W IH1 NG K AH0 L
+winks W IH1 NG K S
+winner W IH1 N ER0
+winners W IH1 N ER0 Z
+winning W IH1 N IH0 NG
+winnings W IH1 N IH0 NG Z
+wino W IY1 N OW0
+winos W IY1 N OW0 S
+wins W IH1 N Z
+winslow W IH1 N Z L OW0
+winter W IH1 N T ER0
+winters W IH1 N T ER0 Z
+wintertime W IH1 N T ER0 T AY2 M
+wipe W AY1 P
+wiped W AY1 P T
+wipeout W AY1 P AW2 T
+wiper W AY1 P ER0
+wipers W AY1 P ER0 Z
+wipes W AY1 P S
+wiping W AY1 P IH0 NG
+wire W AY1 ER0
+wired W AY1 ER0 D
+wireless W AY1 R L IH0 S
+wires W AY1 ER0 Z
+wiretap W AY1 ER0 T AE2 P
+wiretaps W AY1 R T AE2 P S
+wiring W AY1 R IH0 NG
+wiry W IH1 R IY0
+wisconsin W IH0 S K AA1 N S AH0 N
+wisdom W IH1 Z D AH0 M
+wise W AY1 Z
+wisecrack W AY1 Z K R AE2 K
+wisecracks W AY1 Z K R AE2 K S
+wiseguy W AY1 Z G AY2
+wisely W AY1 Z L IY0
+wiser W AY1 Z ER0
+wisest W AY1 Z AH0 S T
+wish W IH1 SH
+wishbone W IH1 SH B OW2 N
+wished W IH1 SH T
+wishes W IH1 SH IH0 Z
+wishful W IH1 SH F AH0 L
+wishing W IH1 SH IH0 NG
+wisp W IH1 S P
+wit W IH1 T
+witch W IH1 CH
+witchcraft W IH1 CH K R AE2 F T
+witches W IH1 CH AH0 Z
+witching W IH1 CH IH0 NG
+with W IH1 DH
+withdraw W IH0 DH D R AO1
+withdrawal W IH0 DH D R AO1 AH0 L
+withdrawals W IH0 TH D R AO1 AH0 L Z
+withdrawing W IH0 TH D R AO1 IH0 NG
+withdrawn W IH0 TH D R AO1 N
+withdraws W IH0 DH D R AO1 Z
+withdrew W IH0 TH D R UW1
+wither W IH1 DH ER0
+withered W IH1 DH ER0 D
+withering W IH1 DH ER0 IH0 NG
+withers W IH1 DH ER0 Z
+withheld W IH0 TH HH EH1 L D
+withhold W IH0 TH HH OW1 L D
+withholding W IH0 TH HH OW1 L D IH0 NG
+within W IH0 DH IH1 N
+without W IH0 TH AW1 T
+withstand W IH0 TH S T AE1 N D
+withstanding W IH0 TH S T AE1 N D IH0 NG
+witless W IH1 T L AH0 S
+witness W IH1 T N AH0 S
+witnessed W IH1 T N AH0 S T
+witnesses W IH1 T N AH0 S AH0 Z
+witnessing W IH1 T N AH0 S IH0 NG
+wits W IH1 T S
+witter W IH1 T ER0
+witty W IH1 T IY0
+wives W AY1 V Z
+wiz W IH1 Z
+wizard W IH1 Z ER0 D
+wizardry W IH1 Z ER0 D R IY0
+wizards W IH1 Z ER0 D Z
+wo W OW1
+wobble W AA1 B AH0 L
+wobbly W AA1 B AH0 L IY0
+woe W OW1
+woes W OW1 Z
+wok W AA1 K
+woke W OW1 K
+woken W OW1 K AH0 N
+wolf W UH1 L F
+wolfman W UH1 L F M AH0 N
+wolfram W UH1 L F R AE2 M
+wolverine W UH2 L V ER0 IY1 N
+wolves W UH1 L V Z
+woman W UH1 M AH0 N
+womanhood W UH1 M AH0 N HH UH2 D
+womanizer W UH1 M AH0 N AY2 Z ER0
+womb W UW1 M
+wombat W AA1 M B AE2 T
+women W IH1 M AH0 N
+won W AH1 N
+won't W OW1 N T
+wonder W AH1 N D ER0
+wondered W AH1 N D ER0 D
+wonderful W AH1 N D ER0 F AH0 L
+wonderfully W AH1 N D ER0 F AH0 L IY0
+wondering W AH1 N D ER0 IH0 NG
+wonderland W AH1 N D ER0 L AE2 N D
+wonders W AH1 N D ER0 Z
+wondrous W AH1 N D R AH0 S
+wong W AO1 NG
+wont W OW1 N T
+woo W UW1
+wood W UH1 D
+woodbury W UH1 D B EH2 R IY0
+woodchuck W UH1 D CH AH2 K
+wooded W UH1 D IH0 D
+wooden W UH1 D AH0 N
+woodhouse W UH1 D HH AW2 S
+woodland W UH1 D L AE2 N D
+woodman W UH1 D M AH0 N
+woodpecker W UH1 D P EH2 K ER0
+woodrow W UH1 D R OW2
+woodruff W UH1 D R AH0 F
+woods W UH1 D Z
+woodshed W UH1 D SH EH2 D
+woodsman W UH1 D Z M AE0 N
+woodward W UH1 D W AO2 R D
+woodwind W UH1 D W IH2 N D
+woodwork W UH1 D W ER2 K
+woody W UH1 D IY0
+wooed W UW1 D
+woof W UW1 F
+wooing W UW1 IH0 NG
+wool W UH1 L
+woolen W UH1 L AH0 N
+woolf W UH1 L F
+woolly W UH1 L IY0
+woolworth W UH1 L W ER2 TH
+wooly W UH1 L IY0
+wooster W UW1 S T ER0
+woozy W UW1 Z IY0
+wop W AA1 P
+worcester W UH1 S T ER0
+word W ER1 D
+worded W ER1 D IH0 D
+wording W ER1 D IH0 NG
+words W ER1 D Z
+wore W AO1 R
+work W ER1 K
+workable W ER1 K AH0 B AH0 L
+workaholic W ER2 K AH0 HH AA1 L IH0 K
+workday W ER1 K D EY2
+worked W ER1 K T
+worker W ER1 K ER0
+workers W ER1 K ER0 Z
+workforce W ER1 K F AO2 R S
+working W ER1 K IH0 NG
+workings W ER1 K IH0 NG Z
+workload W ER1 K L OW2 D
+workman W ER1 K M AH0 N
+workmanship W ER1 K M AH0 N SH IH2 P
+workmen W ER1 K M IH0 N
+workout W ER1 K AW2 T
+workplace W ER1 K P L EY2 S
+works W ER1 K S
+workshop W ER1 K SH AA2 P
+workshops W ER1 K SH AA2 P S
+workspace W ER1 K S P EY2 S
+workstation W ER1 K S T EY2 SH AH0 N
+world W ER1 L D
+worldly W ER1 L D L IY0
+worlds W ER1 L D Z
+worldwide W ER1 L D W AY1 D
+worm W ER1 M
+wormhole W ER1 M HH AO2 L
+wormholes W ER1 M HH AO2 L Z
+worms W ER1 M Z
+wormwood W ER1 M W UH2 D
+worn W AO1 R N
+worried W ER1 IY0 D
+worrier W ER1 IY0 ER0
+worries W ER1 IY0 Z
+worry W ER1 IY0
+worrying W ER1 IY0 IH0 NG
+worse W ER1 S
+worsen W ER1 S AH0 N
+worsens W ER1 S AH0 N Z
+worship W ER1 SH AH0 P
+worshiped W ER1 SH IH0 P T
+worshipped W ER1 SH AH0 P T
+worshippers W ER1 SH IH0 P ER0 Z
+worshipping W ER1 SH AH0 P IH0 NG
+worships W ER1 SH AH0 P S
+worst W ER1 S T
+worth W ER1 TH
+worthing W ER1 TH IH0 NG
+worthless W ER1 TH L AH0 S
+worthwhile W ER1 TH W AY1 L
+worthy W ER1 DH IY0
+would W UH1 D
+wouldn't W UH1 D AH0 N T
+wound W AW1 N D
+wounded W UW1 N D IH0 D
+wounding W UW1 N D IH0 NG
+wounds W UW1 N D Z
+woven W OW1 V AH0 N
+wow W AW1
+wracked R AE1 K T
+wrangle R AE1 NG G AH0 L
+wrap R AE1 P
+wrapped R AE1 P T
+wrapper R AE1 P ER0
+wrappers R AE1 P ER0 Z
+wrapping R AE1 P IH0 NG
+wraps R AE1 P S
+wrath R AE1 TH
+wreak R IY1 K
+wreath R IY1 TH
+wreaths R IY1 TH S
+wreck R EH1 K
+wreckage R EH1 K AH0 JH
+wrecked R EH1 K T
+wrecker R EH1 K ER0
+wrecking R EH1 K IH0 NG
+wrecks R EH1 K S
+wren R EH1 N
+wrench R EH1 N CH
+wrenched R EH1 N CH T
+wrenches R EH1 N CH IH0 Z
+wrestle R EH1 S AH0 L
+wrestled R EH1 S AH0 L D
+wrestler R EH1 S AH0 L ER0
+wrestlers R EH1 S L ER0 Z
+wrestling R EH1 S L IH0 NG
+wretch R EH1 CH
+wretched R EH1 CH IH0 D
+wriggle R IH1 G AH0 L
+wright R AY1 T
+wrigley R IH1 G L IY0
+wring R IH1 NG
+wringer R IH1 NG ER0
+wringing R IH1 NG IH0 NG
+wrinkle R IH1 NG K AH0 L
+wrinkled R IH1 NG K AH0 L D
+wrinkles R IH1 NG K AH0 L Z
+wrist R IH1 S T
+wrists R IH1 S T S
+wristwatch R IH1 S T W AA2 CH
+writ R IH1 T
+write R AY1 T
+writer R AY1 T ER0
+writers R AY1 T ER0 Z
+writes R AY1 T S
+writhing R AY1 DH IH0 NG
+writing R AY1 T IH0 NG
+writings R AY1 T IH0 NG Z
+written R IH1 T AH0 N
+wrong R AO1 NG
+wrongdoing R AO1 NG D UW0 IH0 NG
+wronged R AO1 NG D
+wrongful R AO1 NG F AH0 L
+wrongfully R AO1 NG F AH0 L IY0
+wrongly R AO1 NG L IY0
+wrongs R AO1 NG Z
+wrote R OW1 T
+wrought R AO1 T
+wrung R AH1 NG
+wuss W AH1 S
+wuthering W AH1 DH ER0 IH0 NG
+wuzzy W UH1 Z IY0
+wynn W IH1 N
+wyoming W AY2 OW1 M IH0 NG
+x EH1 K S
+xenia Z IY1 N IY0 AH0
+xenon Z IY1 N AA0 N
+xerox Z IH1 R AA0 K S
+xi SH IY1
+xu Z UW1
+y W AY1
+ya Y AA1
+yacht Y AA1 T
+yachting Y AA1 T IH0 NG
+yachts Y AA1 T S
+yah Y AA1
+yahoo Y AA1 HH UW2
+yak Y AE1 K
+yale Y EY1 L
+yam Y AE1 M
+yams Y AE1 M Z
+yan Y AE1 N
+yang Y AE1 NG
+yank Y AE1 NG K
+yanked Y AE1 NG K T
+yankee Y AE1 NG K IY0
+yankees Y AE1 NG K IY0 Z
+yanking Y AE1 NG K IH0 NG
+yanks Y AE1 NG K S
+yap Y AE1 P
+yard Y AA1 R D
+yards Y AA1 R D Z
+yardstick Y AA1 R D S T IH2 K
+yarmulke Y AA1 R M AH2 L K AH0
+yarn Y AA1 R N
+yawn Y AO1 N
+yawning Y AO1 N IH0 NG
+yawns Y AO1 N Z
+yay Y EY1
+ye Y IY1
+yea Y EY1
+yeah Y AE1
+year Y IH1 R
+yearbook Y IH1 R B UH2 K
+yearbooks Y IH1 R B UH2 K S
+yearly Y IH1 R L IY0
+yearn Y ER1 N
+yearned Y ER1 N D
+yearning Y ER1 N IH0 NG
+yearns Y ER1 N Z
+years Y IH1 R Z
+yeast Y IY1 S T
+yee Y IY1
+yeh Y EH1
+yell Y EH1 L
+yelled Y EH1 L D
+yelling Y EH1 L IH0 NG
+yellow Y EH1 L OW0
+yellows Y EH1 L OW0 Z
+yellowstone Y EH1 L OW0 S T OW2 N
+yells Y EH1 L Z
+yelping Y EH1 L P IH0 NG
+yemen Y EH1 M AH0 N
+yen Y EH1 N
+yeo Y IY1 OW0
+yep Y EH1 P
+yer Y ER1
+yes Y EH1 S
+yeshiva Y IH0 SH IY1 V AH0
+yesterday Y EH1 S T ER0 D EY2
+yesterdays Y EH1 S T ER0 D EY2 Z
+yet Y EH1 T
+yeti Y EH1 T IY0
+yi Y IY1
+yiddish Y IH1 D IH0 SH
+yield Y IY1 L D
+yielded Y IY1 L D IH0 D
+yielding Y IY1 L D IH0 NG
+yields Y IY1 L D Z
+yikes Y AY1 K S
+yin Y IH1 N
+yip Y IH1 P
+yippee Y IH2 P IY1
+yo Y OW1
+yodel Y OW1 D AH0 L
+yoga Y OW1 G AH0
+yogi Y OW1 G IY0
+yogurt Y OW1 G ER0 T
+yoke Y OW1 K
+yokel Y OW1 K EH0 L
+yokohama Y OW2 K AH0 HH AA1 M AH0
+yolk Y OW1 K
+yom Y AA1 M
+yon Y AA1 N
+yonder Y AA1 N D ER0
+yonkers Y AA1 NG K ER0 Z
+yore Y AO1 R
+york Y AO1 R K
+yorker Y AO1 R K ER0
+yorkers Y AO1 R K ER0 Z
+yorkshire Y AO1 R K SH ER0
+yosemite Y OW0 S EH1 M IH0 T IY0
+you Y UW1
+you're Y UH1 R
+young Y AH1 NG
+younger Y AH1 NG G ER0
+youngest Y AH1 NG G AH0 S T
+youngster Y AH1 NG S T ER0
+youngsters Y AH1 NG S T ER0 Z
+your Y AO1 R
+yours Y UH1 R Z
+yourself Y ER0 S EH1 L F
+yourselves Y UH0 R S EH1 L V Z
+yous Y UW1 S
+youse Y AW1 S
+youth Y UW1 TH
+youthful Y UW1 TH F AH0 L
+youths Y UW1 DH Z
+yow Y AW1
+yoyo Y OW1 Y OW0
+yuan Y UW0 AA1 N
+yucca Y AH1 K AH0
+yuck Y AH1 K
+yucky Y AH1 K IY0
+yugoslavia Y UW2 G OW0 S L AA1 V IY0 AH0
+yuk Y AH1 K
+yukon Y UW1 K AA2 N
+yule Y UW1 L
+yuletide Y UW1 L T AY2 D
+yum Y AH1 M
+yummy Y AH1 M IY0
+yup Y AH1 P
+yuppie Y AH1 P IY0
+yuppies Y AH1 P IY0 Z
+z Z IY1
+zack Z AE1 K
+zaire Z AY0 IH1 R
+zak Z AE1 K
+zander Z AE1 N D ER0
+zant Z AE1 N T
+zanzibar Z AE1 N Z AH0 B AA2 R
+zap Z AE1 P
+zapped Z AE1 P T
+zeal Z IY1 L
+zealand Z IY1 L AH0 N D
+zealous Z EH1 L AH0 S
+zebra Z IY1 B R AH0
+zebras Z IY1 B R AH0 Z
+zed Z EH1 D
+zee Z IY1
+zen Z EH1 N
+zenith Z IY1 N AH0 TH
+zephyr Z EH1 F ER0
+zeppelin Z EH1 P IH0 L IH0 N
+zero Z IH1 R OW0
+zeroed Z IH1 R OW0 D
+zeroes Z IH1 R OW0 Z
+zeros Z IH1 R OW0 Z
+zest Z EH1 S T
+zeta Z EY1 T AH0
+zeus Z UW1 S
+zig Z IH1 G
+ziggurat Z IH1 G ER0 AE2 T
+zigzag Z IH1 G Z AE0 G
+zilch Z IH1 L CH
+zillion Z IH1 L Y AH0 N
+zimbabwe Z IH0 M B AA1 B W EY0
+zinc Z IH1 NG K
+zing Z IH1 NG
+zion Z AY1 AH0 N
+zip Z IH1 P
+zipped Z IH1 P T
+zipper Z IH1 P ER0
+zippers Z IH1 P ER0 Z
+zipping Z IH1 P IH0 NG
+zippy Z IH1 P IY0
+zips Z IH1 P S
+zodiac Z OW1 D IY0 AE2 K
+zombie Z AA1 M B IY0
+zombies Z AA1 M B IY0 Z
+zone Z OW1 N
+zoned Z OW1 N D
+zones Z OW1 N Z
+zoning Z OW1 N IH0 NG
+zoo Z UW1
+zoology Z OW0 AA1 L AH0 JH IY0
+zoom Z UW1 M
+zooming Z UW1 M IH0 NG
+zoos Z UW1 Z
+zorro Z AO1 R OW2
+zucchini Z UW0 K IY1 N IY0
+zulu Z UW1 L UW2
+zurich Z UH1 R IH0 K
+zydeco Z AY1 D AH0 K OW2
+`;
@@ -0,0 +1,149 @@
+import * as FileSystem from 'expo-file-system';
+import { encodeBase64 } from './base64';
+import { sha256 } from './hash';
+
+/**
+ * Imported voices.
+ *
+ * Voice packs imported from local files are stored as raw float32 in the
+ * voices directory next to the downloaded ones, so they load the same way.
+ * Their metadata (name, language, gender) is kept in a registry persisted as
+ * JSON in the document directory.
+ */
+
+export interface CustomVoiceMetadata {
+  name: string;
+  // Selects the phonemization rules
+  language: string;
+  gender: string;
+  traits?: string;
+}
+
+export interface CustomVoice extends CustomVoiceMetadata {
+  // SHA-256 of the stored pack, changes when the voice is imported again
+  checksum: string;
+  importedAt: number;
+}
+
+const VOICES_DIRECTORY = `${FileSystem.documentDirectory}voices/`;
+const REGISTRY_PATH = `${FileSystem.documentDirectory}custom_voices.json`;
+
+// Same rule as saved blend names, so an ID never looks like a blend spec
+const VOICE_ID = /^[A-Za-z0-9_-]+$/;
+const LANGUAGES = ['en-us', 'en-gb'];
+
+let customVoices: Record<string, CustomVoice> = {};
+let loadPromise: Promise<void> | null = null;
+
+/**
+ * Write the registry to the document directory
+ * @returns {Promise<void>}
+ */
+async function saveRegistry(): Promise<void> {
+  await FileSystem.writeAsStringAsync(REGISTRY_PATH, JSON.stringify({ version: 1, voices: customVoices }));
+}
+
+/**
+ * Load the registry of imported voices (only reads the file once)
+ * @returns {Promise<void>}
+ */
+export function loadCustomVoices(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const fileInfo = await FileSystem.getInfoAsync(REGISTRY_PATH);
+        if (!fileInfo.exists) {
+          return;
+        }
+        const data = JSON.parse(await FileSystem.readAsStringAsync(REGISTRY_PATH));
+        // Voices imported before the file finished loading take precedence
+        customVoices = { ...(data.voices || {}), ...customVoices };
+      } catch (error) {
+        console.warn('Unable to load custom voices', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Get an imported voice
+ * @param {string} voiceId - Voice ID
+ * @returns {CustomVoice | undefined} The voice, or undefined if no voice was imported under the ID
+ */
+export function getCustomVoice(voiceId: string): CustomVoice | undefined {
+  return Object.prototype.hasOwnProperty.call(customVoices, voiceId) ? customVoices[voiceId] : undefined;
+}
+
+/**
+ * Get every imported voice
+ * @returns {Record<string, CustomVoice>} Voices by ID
+ */
+export function getCustomVoices(): Record<string, CustomVoice> {
+  return { ...customVoices };
+}
+
+/**
+ * Store a style table as a voice, replacing any voice imported under the ID, and persist the registry
+ * @param {string} voiceId - ID to import the voice under
+ * @param {Float32Array} table - Style table from parseVoicePack()
+ * @param {CustomVoiceMetadata} metadata - Name, language and gender of the voice
+ * @returns {Promise<CustomVoice>} The stored voice
+ */
+export async function addCustomVoice(
+  voiceId: string,
+  table: Float32Array,
+  metadata: CustomVoiceMetadata
+): Promise<CustomVoice> {
+  if (typeof voiceId !== 'string' || !VOICE_ID.test(voiceId)) {
+    throw new Error(`Voice ID "${voiceId}" may only contain letters, digits, "_" and "-"`);
+  }
+  if (typeof metadata.name !== 'string' || !metadata.name.trim()) {
+    throw new Error('A custom voice needs a name');
+  }
+  if (!LANGUAGES.includes(metadata.language)) {
+    throw new Error(`Custom voice language must be one of ${LANGUAGES.join(', ')}, got "${metadata.language}"`);
+  }
+  if (typeof metadata.gender !== 'string' || !metadata.gender.trim()) {
+    throw new Error('A custom voice needs a gender');
+  }
+  await loadCustomVoices();
+
+  const dirInfo = await FileSystem.getInfoAsync(VOICES_DIRECTORY);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(VOICES_DIRECTORY, { intermediates: true });
+  }
+  const bytes = new Uint8Array(table.buffer, table.byteOffset, table.byteLength);
+  await FileSystem.writeAsStringAsync(`${VOICES_DIRECTORY}${voiceId}.bin`, encodeBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  const voice: CustomVoice = {
+    name: metadata.name.trim(),
+    language: metadata.language,
+    gender: metadata.gender.trim(),
+    ...(metadata.traits ? { traits: metadata.traits } : {}),
+    checksum: sha256(bytes),
+    importedAt: Date.now(),
+  };
+  customVoices = { ...customVoices, [voiceId]: voice };
+  await saveRegistry();
+  return voice;
+}
+
+/**
+ * Delete an imported voice and its pack, and persist the registry
+ * @param {string} voiceId - Voice ID
+ * @returns {Promise<boolean>} Whether a voice was deleted
+ */
+export async function removeCustomVoice(voiceId: string): Promise<boolean> {
+  await loadCustomVoices();
+  if (getCustomVoice(voiceId) === undefined) {
+    return false;
+  }
+  const { [voiceId]: _removed, ...rest } = customVoices;
+  customVoices = rest;
+  await saveRegistry();
+  await FileSystem.deleteAsync(`${VOICES_DIRECTORY}${voiceId}.bin`, { idempotent: true }).catch(() => {});
+  return true;
+}
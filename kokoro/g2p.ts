@@ -0,0 +1,284 @@
+import { lookupWord } from './lexicon';
+import { letterToSound } from './letterToSound';
+import { spellOut } from './abbreviations';
+import { lookupBritishWord, toBritishPhonemes, hasLinkingR } from './britishEnglish';
+
+/**
+ * English grapheme-to-phoneme conversion.
+ *
+ * Words are looked up in the bundled lexicon first. Inflected forms that are
+ * missing from the lexicon (plurals, possessives, -ed, -ing, -ly, ...) are
+ * derived from their stem, and anything left over is pronounced by the
+ * rule-based letter-to-sound fallback.
+ *
+ * Pronunciations are General American; British voices ('en-gb') have them
+ * rewritten by the British English rules.
+ */
+
+export interface PhonemeToken {
+  // The original text of the token
+  text: string;
+  // The phonemes for the token (punctuation is passed through unchanged)
+  phonemes: string;
+  // Whitespace that followed the token in the input
+  whitespace: string;
+  // Whether the token is a word (as opposed to punctuation)
+  isWord: boolean;
+}
+
+// Punctuation that the model understands and should be kept
+const KEPT_PUNCTUATION = ';:,.!?¡¿—…"«»“”';
+
+// Matches words (with internal apostrophes/hyphens) or single non-space characters
+const TOKEN_REGEX = /([A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*)|([^\sA-Za-z0-9])/g;
+
+const VOICELESS_FINALS = /[ptkfθ]$/;
+const SIBILANT_FINALS = /(s|z|ʃ|ʒ|ʧ|ʤ)$/;
+const VOWEL_START = /^[ˈˌ]?[ɑɐɒæəɘɚɛɜɝɞɨɪʊʌɔaeiou]/;
+
+// Numerals that form an ordinal with -th ("nin" is "ninth" without the -e of "nine")
+const ORDINAL_STEMS = new Set([
+  'four', 'six', 'seven', 'nin', 'ten', 'eleven', 'thirteen', 'fourteen', 'fifteen', 'sixteen',
+  'seventeen', 'eighteen', 'nineteen', 'hundred', 'thousand', 'million', 'billion', 'trillion',
+]);
+
+// What is left of words that only look like -ly adverbs, such as "apply" and "imply"
+const LY_FRAGMENTS = new Set(['app', 'comp', 'imp', 'multip', 'rep', 'supp']);
+
+/**
+ * Append the -s suffix (plural, possessive, third person) to a pronunciation
+ * @param {string} stem - IPA pronunciation of the stem
+ * @returns {string} IPA pronunciation with the suffix
+ */
+function addSibilantSuffix(stem: string): string {
+  if (SIBILANT_FINALS.test(stem)) {
+    return stem + 'ɪz';
+  }
+  if (VOICELESS_FINALS.test(stem)) {
+    return stem + 's';
+  }
+  return stem + 'z';
+}
+
+/**
+ * Append the -ed suffix to a pronunciation
+ * @param {string} stem - IPA pronunciation of the stem
+ * @returns {string} IPA pronunciation with the suffix
+ */
+function addPastSuffix(stem: string): string {
+  if (/[td]$/.test(stem)) {
+    return stem + 'ɪd';
+  }
+  if (/[pkfθsʃʧ]$/.test(stem)) {
+    return stem + 't';
+  }
+  return stem + 'd';
+}
+
+/**
+ * Candidate stems for a suffixed word, e.g. "stopped" -> "stopp", "stop", "stope"
+ * @param {string} stem - The word with the suffix removed
+ * @returns {string[]} Candidate stems in order of preference
+ */
+function stemCandidates(stem: string): string[] {
+  const candidates = [stem];
+  if (/([bdfgklmnprstz])\1$/.test(stem)) {
+    candidates.push(stem.slice(0, -1));
+  }
+  candidates.push(stem + 'e');
+  if (stem.endsWith('i')) {
+    candidates.push(stem.slice(0, -1) + 'y');
+  }
+  return candidates;
+}
+
+/**
+ * Try to derive the pronunciation of an inflected word from its stem
+ * @param {string} word - Lowercase word
+ * @returns {string | null} IPA pronunciation, or null if no stem was found
+ */
+function deriveFromStem(word: string): string | null {
+  const lookupStem = (stem: string) => {
+    for (const candidate of stemCandidates(stem)) {
+      const phonemes = lookupWord(candidate);
+      if (phonemes) {
+        return phonemes;
+      }
+    }
+    return null;
+  };
+
+  // Possessives
+  if (/'s$/.test(word)) {
+    return addSibilantSuffix(phonemizeAmerican(word.slice(0, -2)));
+  }
+  if (/s'$/.test(word)) {
+    return phonemizeAmerican(word.slice(0, -1));
+  }
+
+  const suffixes: [string, (stem: string) => string][] = [
+    ['ies', stem => addSibilantSuffix(stem)],
+    ['es', stem => addSibilantSuffix(stem)],
+    ['s', stem => addSibilantSuffix(stem)],
+    ['ied', stem => addPastSuffix(stem)],
+    ['ed', stem => addPastSuffix(stem)],
+    ['d', stem => addPastSuffix(stem)],
+    ['ing', stem => stem + 'ɪŋ'],
+    ['ly', stem => stem + 'li'],
+    ['ness', stem => stem + 'nəs'],
+    ['ment', stem => stem + 'mənt'],
+    ['ful', stem => stem + 'fəl'],
+    ['less', stem => stem + 'ləs'],
+    ['ers', stem => stem + 'ɚz'],
+    ['er', stem => stem + 'ɚ'],
+    ['est', stem => stem + 'ɪst'],
+    ['ieth', stem => stem.replace(/i$/, '') + 'iəθ'],
+    ['th', stem => stem + 'θ'],
+  ];
+
+  for (const [suffix, apply] of suffixes) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < 2) {
+      continue;
+    }
+
+    let stem = word.slice(0, -suffix.length);
+    if (suffix === 'ies' || suffix === 'ied' || suffix === 'ieth') {
+      stem += 'y';
+    }
+    // "health" is not "heal" + -th, nor "apply" "app" + -ly
+    if (suffix === 'th' && !ORDINAL_STEMS.has(stem)) {
+      continue;
+    }
+    if (suffix === 'ly' && (stem.length < 3 || LY_FRAGMENTS.has(stem))) {
+      continue;
+    }
+
+    const stemPhonemes = lookupStem(stem);
+    if (stemPhonemes) {
+      return apply(stemPhonemes);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Phonemize a single lowercase word with General American pronunciation
+ * @param {string} word - The lowercase word to phonemize
+ * @returns {string} IPA phonemes for the word
+ */
+function phonemizeAmerican(word: string): string {
+  const phonemes = lookupWord(word) || deriveFromStem(word);
+  if (phonemes) {
+    return phonemes;
+  }
+
+  return letterToSound(word);
+}
+
+/**
+ * Phonemize a single word
+ * @param {string} word - The word to phonemize
+ * @param {string} language - Voice language code ('en-us' or 'en-gb')
+ * @returns {string} IPA phonemes for the word
+ */
+export function phonemizeWord(word: string, language = 'en-us'): string {
+  const lowerWord = word.toLowerCase().replace(/’/g, "'");
+
+  // Hyphenated compounds are pronounced part by part
+  if (lowerWord.includes('-') && !lookupWord(lowerWord)) {
+    return lowerWord
+      .split('-')
+      .filter(Boolean)
+      .map(part => phonemizeWord(part, language))
+      .join(' ');
+  }
+
+  // A letter on its own is read by its name (x, but not the words a and i), and so is each
+  // letter of an unknown word without vowels (pdf, jpg)
+  const spelled = /^[a-z]$/.test(lowerWord) || /^[b-df-hj-np-tv-xz]{2,}$/.test(lowerWord);
+  if (spelled && !lookupWord(lowerWord)) {
+    return spellOut(lowerWord, language)
+      .split(' ')
+      .map(name => phonemizeWord(name, language))
+      .join(' ');
+  }
+
+  if (language !== 'en-gb') {
+    return phonemizeAmerican(lowerWord);
+  }
+
+  return lookupBritishWord(lowerWord) || toBritishPhonemes(phonemizeAmerican(lowerWord), lowerWord);
+}
+
+/**
+ * Split text into word and punctuation tokens and phonemize each word
+ * @param {string} text - Normalized input text
+ * @param {string} language - Voice language code ('en-us' or 'en-gb')
+ * @returns {PhonemeToken[]} Tokens with their phonemes
+ */
+export function g2p(text: string, language = 'en-us'): PhonemeToken[] {
+  const tokens: PhonemeToken[] = [];
+
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const [tokenText, word] = match;
+    const end = (match.index || 0) + tokenText.length;
+    const whitespace = /^\s*/.exec(text.slice(end))![0];
+
+    if (word) {
+      tokens.push({ text: word, phonemes: phonemizeWord(word, language), whitespace, isWord: true });
+    } else if (KEPT_PUNCTUATION.includes(tokenText)) {
+      tokens.push({ text: tokenText, phonemes: tokenText, whitespace, isWord: false });
+    } else if (tokens.length > 0 && whitespace) {
+      // Dropped symbols still separate the words around them
+      tokens[tokens.length - 1].whitespace ||= whitespace;
+    }
+  }
+
+  // "the" is pronounced ði before a vowel sound
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const next = tokens[i + 1];
+    if (tokens[i].text.toLowerCase() === 'the' && next.isWord && VOWEL_START.test(next.phonemes)) {
+      tokens[i].phonemes = 'ði';
+    }
+  }
+
+  // British English links a final written r to a following vowel ("far away")
+  if (language === 'en-gb') {
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const next = tokens[i + 1];
+      if (
+        next.isWord &&
+        hasLinkingR(tokens[i].text.toLowerCase()) &&
+        VOWEL_START.test(next.phonemes) &&
+        !tokens[i].phonemes.endsWith('ɹ')
+      ) {
+        tokens[i].phonemes += 'ɹ';
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Join phoneme tokens back into a single phoneme string
+ * @param {PhonemeToken[]} tokens - Tokens produced by g2p()
+ * @returns {string} Phoneme string with words separated by spaces
+ */
+export function joinPhonemeTokens(tokens: PhonemeToken[]): string {
+  return tokens
+    .map(token => token.phonemes + (token.whitespace ? ' ' : ''))
+    .join('')
+    .trim();
+}
+
+/**
+ * Convert text to a phoneme string
+ * @param {string} text - Normalized input text
+ * @param {string} language - Voice language code ('en-us' or 'en-gb')
+ * @returns {string} Phoneme string
+ */
+export function textToPhonemes(text: string, language = 'en-us'): string {
+  return joinPhonemeTokens(g2p(text, language));
+}
@@ -0,0 +1,96 @@
+import { utf8Encode } from './utf8';
+
+/**
+ * SHA-256 (FIPS 180-4) in plain TypeScript, for cache keys and file checks
+ * where no native crypto module is available.
+ */
+
+// First 32 bits of the fractional parts of the cube roots of the first 64 primes
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// First 32 bits of the fractional parts of the square roots of the first 8 primes
+const INITIAL_STATE = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+/**
+ * Compute the SHA-256 digest of bytes
+ * @param {Uint8Array} bytes - Data to hash
+ * @returns {string} The digest as lowercase hex
+ */
+export function sha256(bytes: Uint8Array): string {
+  // Pad with a 1 bit, zeros and the bit length so the total is a multiple of 64 bytes
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const tail = new Uint8Array(paddedLength - Math.floor(bytes.length / 64) * 64);
+  const tailStart = bytes.length - (bytes.length % 64);
+  tail.set(bytes.subarray(tailStart));
+  tail[bytes.length % 64] = 0x80;
+  const tailView = new DataView(tail.buffer);
+  const bitLength = bytes.length * 8;
+  tailView.setUint32(tail.length - 8, Math.floor(bitLength / 0x100000000));
+  tailView.setUint32(tail.length - 4, bitLength >>> 0);
+
+  const state = new Uint32Array(INITIAL_STATE);
+  const w = new Uint32Array(64);
+  const bodyView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  for (let block = 0; block < paddedLength; block += 64) {
+    // Full blocks are read in place; only the last one or two come from the padded tail
+    const [view, offset] = block < tailStart ? [bodyView, block] : [tailView, block - tailStart];
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getUint32(offset + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const a = w[t - 15];
+      const b = w[t - 2];
+      const s0 = ((a >>> 7) | (a << 25)) ^ ((a >>> 18) | (a << 14)) ^ (a >>> 3);
+      const s1 = ((b >>> 17) | (b << 15)) ^ ((b >>> 19) | (b << 13)) ^ (b >>> 10);
+      w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let t = 0; t < 64; t++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + K[t] + w[t]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+
+  return Array.from(state, word => word.toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Compute the SHA-256 digest of a string, encoded as UTF-8
+ * @param {string} text - Text to hash
+ * @returns {string} The digest as lowercase hex
+ */
+export function sha256Text(text: string): string {
+  return sha256(new Uint8Array(utf8Encode(text)));
+}
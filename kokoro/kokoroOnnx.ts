@@ -1,13 +1,106 @@
 import * as FileSystem from 'expo-file-system';
 import { InferenceSession, Tensor } from 'onnxruntime-react-native';
 import { Audio } from 'expo-av';
-import { VOICES, getVoiceData } from './voices';
+import {
+  VOICES,
+  getVoiceData,
+  getVoiceLanguage,
+  resolveVoiceId,
+  isKnownVoice,
+  getVoiceInfo,
+  getAllVoices,
+  forgetVoiceData,
+} from './voices';
 import { Platform } from 'react-native';
 import { MODELS } from './models';
+import { textToPhonemes } from './g2p';
+import { verbalizeNumbers } from './textNormalizer';
+import {
+  expandAbbreviations,
+  registerAbbreviation,
+  unregisterAbbreviation,
+  getRegisteredAbbreviations,
+} from './abbreviations';
+import type { AbbreviationEntry, AbbreviationOptions } from './abbreviations';
+import {
+  loadUserLexicon,
+  addUserLexiconEntry,
+  removeUserLexiconEntry,
+  getUserLexiconEntries,
+  importUserLexiconEntries,
+  getUserLexiconRevision,
+  splitByUserLexicon,
+} from './userLexicon';
+import type { UserLexiconEntry, LexiconSpan } from './userLexicon';
+import { hasPronunciationMarkup, parsePronunciationMarkup } from './markup';
+import { isSsml, parseSsml } from './ssml';
+import type { SsmlSegment } from './ssml';
+import { chunkPhonemes } from './chunker';
+import { encodeWav, encodeFlac } from './audioEncoder';
+import type { WavEncoding, FlacBitDepth } from './audioEncoder';
+import { resample, validateSampleRate } from './resampler';
+import { processAudio, applyDither } from './audioProcessing';
+import type { AudioProcessingOptions, ProcessingContext } from './audioProcessing';
+import { pitchShift } from './timeStretch';
+import { estimateTokenDurations, timePhonemeWords, assignWordTimings } from './wordTiming';
+import type { PhonemeWordTiming, SourceWord, WordTiming } from './wordTiming';
+import { buildMetadataChunks, readWavMetadata } from './wavMetadata';
+import type { SynthesisMetadata } from './wavMetadata';
+import { buildCaptions } from './captions';
+import type { CaptionFormat, CaptionOptions } from './captions';
+import { encodeBase64, decodeBase64 } from './base64';
+import {
+  isVoiceBlendSpec,
+  parseVoiceBlend,
+  loadVoiceBlends,
+  saveVoiceBlend,
+  deleteVoiceBlend,
+  getSavedVoiceBlends,
+} from './voiceBlend';
+import type { VoiceBlendSpec } from './voiceBlend';
+import {
+  writeAudioFile,
+  bindAudioFile,
+  releaseSound,
+  setAudioFileBudget,
+  getAudioFileBudget,
+  getAudioFileUsage,
+  clearAudioFiles,
+} from './audioFiles';
+import type { AudioFileBudget } from './audioFiles';
+import {
+  enableSynthesisCache,
+  disableSynthesisCache,
+  isSynthesisCacheEnabled,
+  synthesisCacheKey,
+  getCachedSynthesis,
+  putCachedSynthesis,
+  clearSynthesisCache,
+  getSynthesisCacheStats,
+} from './synthesisCache';
+import { STYLE_DIM, detectVoicePackFormat, parseVoicePack } from './voicePack';
+import type { VoicePackFormat } from './voicePack';
+import { queryVoices } from './voiceCatalog';
+import type { VoiceQuery } from './voiceCatalog';
+import { resolveStyles, planChunkStyles, interpolateStyles } from './styleControl';
+import type { StyleOptions, ResolvedStyles, ResolvedStylePoint, ChunkStyle } from './styleControl';
+import {
+  loadCustomVoices,
+  getCustomVoice,
+  getCustomVoices,
+  addCustomVoice,
+  removeCustomVoice,
+} from './customVoices';
+import type { CustomVoiceMetadata } from './customVoices';
+import {
+  checkVoiceFile,
+  quarantineVoiceFile,
+  getQuarantinedVoiceFiles,
+  clearVoiceQuarantine,
+} from './voiceIntegrity';
 
 // Constants
 const SAMPLE_RATE = 24000;
-const STYLE_DIM = 256;
 const MAX_PHONEME_LENGTH = 510;
 
 // Voice data URL
@@ -21,7 +114,7 @@ const VOCAB = (() => {
   const _letters_ipa = "ɑɐɒæɓʙβɔɕçɗɖðʤəɘɚɛɜɝɞɟʄɡɠɢʛɦɧħɥʜɨɪʝɭɬɫɮʟɱɯɰŋɳɲɴøɵɸθœɶʘɹɺɾɻʀʁɽʂʃʈʧʉʊʋⱱʌɣɤʍχʎʏʑʐʒʔʡʕʢǀǁǂǃˈˌːˑʼʴʰʱʲʷˠˤ˞↓↑→↗↘'̩'ᵻ";
   
   const symbols = [_pad, ..._punctuation.split(''), ..._letters.split(''), ..._letters_ipa.split('')];
-  const dicts = {};
+  const dicts: Record<string, number> = {};
   
   for (let i = 0; i < symbols.length; i++) {
     dicts[symbols[i]] = i;
@@ -30,56 +123,97 @@ const VOCAB = (() => {
   return dicts;
 })();
 
-// Common English phoneme mappings for basic phonemization
-const ENGLISH_PHONEME_MAP = {
-  'a': 'ə',
-  'e': 'ɛ',
-  'i': 'ɪ',
-  'o': 'oʊ',
-  'u': 'ʌ',
-  'th': 'θ',
-  'sh': 'ʃ',
-  'ch': 'tʃ',
-  'ng': 'ŋ',
-  'j': 'dʒ',
-  'r': 'ɹ',
-  'er': 'ɝ',
-  'ar': 'ɑɹ',
-  'or': 'ɔɹ',
-  'ir': 'ɪɹ',
-  'ur': 'ʊɹ',
-};
-
-// Common word to phoneme mappings
-const COMMON_WORD_PHONEMES = {
-  'hello': 'hɛˈloʊ',
-  'world': 'wˈɝld',
-  'this': 'ðˈɪs',
-  'is': 'ˈɪz',
-  'a': 'ə',
-  'test': 'tˈɛst',
-  'of': 'ʌv',
-  'the': 'ðə',
-  'kokoro': 'kˈoʊkəɹoʊ',
-  'text': 'tˈɛkst',
-  'to': 'tˈuː',
-  'speech': 'spˈiːtʃ',
-  'system': 'sˈɪstəm',
-  'running': 'ɹˈʌnɪŋ',
-  'on': 'ˈɑːn',
-  'expo': 'ˈɛkspoʊ',
-  'with': 'wˈɪð',
-  'onnx': 'ˈɑːnɛks',
-  'runtime': 'ɹˈʌntaɪm',
-};
+// Output options of generateAudio(), generateWaveform() and streamAudio()
+interface OutputOptions extends StyleOptions {
+  sampleRate?: number;
+  processing?: AudioProcessingOptions;
+  pitch?: number;
+  timeStretch?: number;
+  wordTimestamps?: boolean;
+}
+
+// Options of exportAudio()
+interface ExportOptions extends OutputOptions {
+  format?: string;
+  encoding?: WavEncoding;
+  bitDepth?: FlacBitDepth;
+  sourceSampleRate?: number;
+  metadata?: SynthesisMetadata;
+  ixml?: boolean;
+}
+
+// A piece of the input that fits the model, from _planChunks()
+interface SynthesisChunk {
+  phonemes: string;
+  voiceId: string;
+  speed: number;
+  // Silence after the chunk in milliseconds
+  pause: number;
+  // The text the chunk was taken from (null for a pause before any speech)
+  source: string | null;
+  style?: ChunkStyle;
+}
+
+// A synthesized chunk, from _synthesizeChunk()
+interface ChunkSynthesis {
+  waveform: Float32Array;
+  numTokens: number;
+  durations: ArrayLike<number> | null;
+  // Samples of speech before the pause
+  speechLength: number;
+}
+
+// A streamed chunk, written to a file and loaded as a sound
+interface StreamChunk {
+  index: number;
+  uri: string;
+  sound: Audio.Sound | null;
+  // Start of the chunk in the stream in milliseconds
+  offset: number;
+  phonemes: string;
+}
+
+// Progress reported by streamAudio()
+interface StreamProgress {
+  progress: number;
+  tokensPerSecond: number;
+  timeToFirstToken: number;
+  position: number;
+  duration: number;
+  phonemes: string;
+  chunkIndex: number;
+  chunkCount: number;
+  chunkStatus: string;
+  chunkPhonemes: string;
+  isGenerationDone: boolean;
+}
 
 class KokoroOnnx {
+  session: InferenceSession | null;
+  isModelLoaded: boolean;
+  voiceCache: Map<string, Float32Array>;
+  isOnnxAvailable: boolean;
+  currentModelId: string | null;
+  lexiconFingerprint: { revision: number; hash: string } | null;
+  isStreaming: boolean;
+  streamingSound: Audio.Sound | null;
+  streamingStartTime: number | null;
+  tokensProcessed: number;
+  tokensPerSecond: number;
+  timeToFirstToken: number;
+  streamingTokens: number[];
+  streamingPhonemes: string;
+  streamingCallback: ((progress: StreamProgress) => void) | null;
+  streamingQueue: StreamChunk[];
+  streamingId: number;
+
   constructor() {
     this.session = null;
     this.isModelLoaded = false;
     this.voiceCache = new Map();
     this.isOnnxAvailable = true;
     this.currentModelId = null;
+    this.lexiconFingerprint = null;
     this.isStreaming = false;
     this.streamingSound = null;
     this.streamingStartTime = null;
@@ -89,6 +223,8 @@ class KokoroOnnx {
     this.streamingTokens = [];
     this.streamingPhonemes = "";
     this.streamingCallback = null;
+    this.streamingQueue = [];
+    this.streamingId = 0;
   }
 
   /**
@@ -225,10 +361,18 @@ class KokoroOnnx {
    * @returns {Promise<void>}
    */
   async stopStreaming() {
+    // Stop generating further chunks and discard the ones waiting to play
+    this.streamingId++;
+    const queued = this.streamingQueue;
+    this.streamingQueue = [];
+    for (const chunk of queued) {
+      await releaseSound(chunk.sound!).catch(() => {});
+    }
+    
     if (this.streamingSound) {
       try {
         await this.streamingSound.stopAsync();
-        await this.streamingSound.unloadAsync();
+        await releaseSound(this.streamingSound);
       } catch (error) {
         console.error('Error stopping streaming audio:', error);
       }
@@ -249,8 +393,19 @@ class KokoroOnnx {
    * @param {string} voiceId The voice ID to download
    * @returns {Promise<boolean>} Whether the voice was downloaded successfully
    */
-  async downloadVoice(voiceId) {
+  async downloadVoice(voiceId: VoiceBlendSpec): Promise<boolean> {
     try {
+      // A blend needs every voice in it
+      const resolved = await this._resolveVoice(voiceId);
+      if (isVoiceBlendSpec(resolved)) {
+        let success = true;
+        for (const component of parseVoiceBlend(resolved)) {
+          success = (await this.downloadVoice(component.voiceId)) && success;
+        }
+        return success;
+      }
+      voiceId = resolved;
+      
       // Check if voice directory exists
       const voiceDirPath = `${FileSystem.documentDirectory}voices`;
       const dirInfo = await FileSystem.getInfoAsync(voiceDirPath);
@@ -264,38 +419,385 @@ class KokoroOnnx {
       const fileInfo = await FileSystem.getInfoAsync(voiceFilePath);
       
       if (fileInfo.exists) {
-        console.log(`Voice ${voiceId} already exists locally`);
-        return true;
+        // A corrupt pack is set aside and downloaded again
+        const problem = await checkVoiceFile(voiceId, voiceFilePath);
+        if (!problem) {
+          console.log(`Voice ${voiceId} already exists locally`);
+          return true;
+        }
+        await quarantineVoiceFile(voiceId, voiceFilePath, problem);
+        forgetVoiceData(voiceId);
+      }
+      
+      // Imported voices only exist locally
+      if (getCustomVoice(voiceId)) {
+        console.error(`The pack of imported voice ${voiceId} is missing`);
+        return false;
       }
       
       // Download voice file
       const voiceUrl = `${VOICE_DATA_URL}/${voiceId}.bin`;
       console.log(`Downloading voice from ${voiceUrl}`);
       
+      // Download next to the pack and only move it into place once it checks out
+      const downloadPath = `${voiceFilePath}.download`;
       const downloadResult = await FileSystem.downloadAsync(
         voiceUrl,
-        voiceFilePath
+        downloadPath
       );
       
-      if (downloadResult.status === 200) {
-        console.log(`Voice ${voiceId} downloaded successfully`);
-        return true;
-      } else {
+      if (downloadResult.status !== 200) {
+        await FileSystem.deleteAsync(downloadPath, { idempotent: true });
         console.error(`Failed to download voice ${voiceId}: ${downloadResult.status}`);
         return false;
       }
+      
+      const problem = await checkVoiceFile(voiceId, downloadPath, true);
+      if (problem) {
+        await FileSystem.deleteAsync(downloadPath, { idempotent: true });
+        console.error(`Downloaded voice ${voiceId} is corrupt: ${problem}`);
+        return false;
+      }
+      
+      await FileSystem.moveAsync({ from: downloadPath, to: voiceFilePath });
+      console.log(`Voice ${voiceId} downloaded successfully`);
+      return true;
     } catch (error) {
       console.error(`Error downloading voice ${voiceId}:`, error);
       return false;
     }
   }
 
+  /**
+   * Check every stored voice pack against the voice manifest (sizes and SHA-256 digests), moving
+   * corrupt packs to quarantine and downloading built-in voices again
+   * @returns {Promise<Object>} Voice IDs by outcome ({ verified, repaired, failed }); an imported voice
+   * whose pack is corrupt fails, as it has to be imported again
+   */
+  async verifyVoices() {
+    await loadCustomVoices();
+    const voiceDirPath = `${FileSystem.documentDirectory}voices`;
+    const dirInfo = await FileSystem.getInfoAsync(voiceDirPath);
+    if (!dirInfo.exists) {
+      return { verified: [], repaired: [], failed: [] };
+    }
+    
+    const verified = [];
+    const repaired = [];
+    const failed = [];
+    
+    for (const file of await FileSystem.readDirectoryAsync(voiceDirPath)) {
+      if (!file.endsWith('.bin')) {
+        continue;
+      }
+      const voiceId = file.slice(0, -'.bin'.length);
+      const voiceFilePath = `${voiceDirPath}/${file}`;
+      let problem;
+      try {
+        problem = await checkVoiceFile(voiceId, voiceFilePath);
+      } catch (error) {
+        problem = `unreadable (${(error as Error).message})`;
+      }
+      if (!problem) {
+        verified.push(voiceId);
+        continue;
+      }
+      await quarantineVoiceFile(voiceId, voiceFilePath, problem);
+      forgetVoiceData(voiceId);
+      if (!getCustomVoice(voiceId) && (await this.downloadVoice(voiceId))) {
+        repaired.push(voiceId);
+      } else {
+        failed.push(voiceId);
+      }
+    }
+    return { verified, repaired, failed };
+  }
+
+  /**
+   * List the voice packs that failed their integrity check and were moved to quarantine
+   * @returns {Promise<Object[]>} The packs ({ voiceId, uri, quarantinedAt }), oldest first
+   */
+  async getQuarantinedVoiceFiles() {
+    return getQuarantinedVoiceFiles();
+  }
+
+  /**
+   * Delete the voice packs in quarantine
+   * @returns {Promise<number>} How many packs were deleted
+   */
+  async clearVoiceQuarantine() {
+    return clearVoiceQuarantine();
+  }
+
+  /**
+   * Resolve a voice, blend or saved blend name to the ID used for synthesis
+   * @param {string|Object} voiceId The voice to resolve
+   * @returns {Promise<string>} The voice ID, or the canonical spec of a blend
+   */
+  async _resolveVoice(voiceId: VoiceBlendSpec) {
+    await Promise.all([loadVoiceBlends(), loadCustomVoices()]);
+    return resolveVoiceId(voiceId);
+  }
+
+  /**
+   * Save a voice blend under a name, e.g. saveVoiceBlend('warm', 'af_heart:0.6,af_bella:0.4'),
+   * so the name can be used as a voice ID (also in SSML <voice name>)
+   * @param {string} name The name for the blend (letters, digits, "_" and "-")
+   * @param {string|Object} blend The blend as a spec or { voiceId: weight } object
+   * @returns {Promise<string>} The canonical spec that was saved
+   */
+  async saveVoiceBlend(name: string, blend: VoiceBlendSpec) {
+    const spec = await this._resolveVoice(blend);
+    if (getVoiceInfo(name)) {
+      throw new Error(`"${name}" is the ID of a voice`);
+    }
+    if (!isKnownVoice(spec)) {
+      throw new Error(`Voice blend "${spec}" uses an unknown voice`);
+    }
+    await saveVoiceBlend(name, spec);
+    return spec;
+  }
+
+  /**
+   * Delete a saved voice blend
+   * @param {string} name The name the blend was saved under
+   * @returns {Promise<boolean>} Whether a blend was deleted
+   */
+  async deleteVoiceBlend(name: string) {
+    return deleteVoiceBlend(name);
+  }
+
+  /**
+   * List the saved voice blends
+   * @returns {Promise<Object>} Canonical blend specs by name
+   */
+  async getVoiceBlends() {
+    await loadVoiceBlends();
+    return getSavedVoiceBlends();
+  }
+
+  /**
+   * Import a voice pack from a local file, e.g. a fine-tuned voice, so its ID can be used like a
+   * built-in voice. The pack is stored with the downloaded voices; importing under an existing
+   * imported ID replaces that voice.
+   * @param {string} path The pack: a file:// URI, an absolute path, or a path relative to the document
+   * directory. Raw little-endian float32 (.bin), NumPy (.npy, float32 or float64) and PyTorch
+   * torch.save() files (.pt, float32) are read; the array must have 510 rows of 256 values.
+   * @param {Object} metadata The voice:
+   *   id - Voice ID (letters, digits, "_" and "-");
+   *   name - Display name;
+   *   language - 'en-us' or 'en-gb', selects the pronunciation;
+   *   gender - e.g. 'Female' or 'Male';
+   *   traits - Optional label such as an emoji;
+   *   format - 'bin', 'npy' or 'pt' (defaults to the path's extension, then the file's contents)
+   * @returns {Promise<Object>} The imported voice's metadata, as from getVoices()
+   */
+  async importVoice(path: string, metadata: CustomVoiceMetadata & { id: string; format?: VoicePackFormat }) {
+    const { id, format, ...info } = metadata;
+    await Promise.all([loadVoiceBlends(), loadCustomVoices()]);
+    if (id in VOICES) {
+      throw new Error(`"${id}" is a built-in voice`);
+    }
+    if (id in getSavedVoiceBlends()) {
+      throw new Error(`"${id}" is the name of a saved voice blend`);
+    }
+    
+    const uri = this._resolvePath(path);
+    const bytes = decodeBase64(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }));
+    const table = parseVoicePack(bytes, format || detectVoicePackFormat(uri, bytes));
+    await addCustomVoice(id, table, info);
+    forgetVoiceData(id);
+    
+    console.log(`Voice ${id} imported from ${uri}`);
+    return getVoiceInfo(id);
+  }
+
+  /**
+   * Remove an imported voice and its pack (built-in voices can't be removed)
+   * @param {string} voiceId The imported voice's ID
+   * @returns {Promise<boolean>} Whether a voice was removed
+   */
+  async removeImportedVoice(voiceId: string) {
+    const removed = await removeCustomVoice(voiceId);
+    if (removed) {
+      forgetVoiceData(voiceId);
+    }
+    return removed;
+  }
+
+  /**
+   * List the built-in and imported voices
+   * @returns {Promise<Object>} Voice metadata by ID ({ name, language, gender, traits, ... }); imported
+   * voices have custom: true
+   */
+  async getVoices() {
+    await loadCustomVoices();
+    return getAllVoices();
+  }
+
+  /**
+   * List the voices whose packs are stored on the device
+   * @returns {Promise<string[]>} Voice IDs
+   */
+  async getDownloadedVoices() {
+    const voiceDirPath = `${FileSystem.documentDirectory}voices`;
+    const dirInfo = await FileSystem.getInfoAsync(voiceDirPath);
+    if (!dirInfo.exists) {
+      return [];
+    }
+    const files = await FileSystem.readDirectoryAsync(voiceDirPath);
+    return files.filter(file => file.endsWith('.bin')).map(file => file.slice(0, -'.bin'.length));
+  }
+
+  /**
+   * Find voices in the catalog of built-in and imported voices, e.g.
+   * queryVoices({ language: 'en-gb', minGrade: 'C', sortBy: 'grade' })
+   * @param {Object} query Filters and sort order:
+   *   language - Language code or codes to include ('en-us', 'en-gb');
+   *   gender - Gender or genders to include ('Female', 'Male');
+   *   minGrade - Lowest overall grade to include, e.g. 'C+' (voices without a grade are left out);
+   *   minTargetQuality - Lowest target quality grade to include;
+   *   downloaded - Only voices that are (true) or aren't (false) stored on the device;
+   *   custom - Only imported (true) or built-in (false) voices;
+   *   search - Text the voice's name or ID contains (case-insensitive);
+   *   sortBy - 'grade' (best first), 'name' or 'id'
+   * @returns {Promise<Object[]>} The matching voices ({ id, name, language, gender, traits,
+   * targetQuality, overallGrade, custom, downloaded })
+   */
+  async queryVoices(query: VoiceQuery = {}) {
+    const [voices, downloaded] = await Promise.all([this.getVoices(), this.getDownloadedVoices()]);
+    return queryVoices(voices, downloaded, query);
+  }
+
+  /**
+   * Add a custom abbreviation or acronym, e.g. addAbbreviation('TTS', 'text to speech')
+   * @param {string} abbreviation The abbreviation as written, with or without a trailing period
+   * @param {string|Object} expansion The spoken expansion, or an entry with title/nextWord/inline settings
+   * @param {Object} options Registration options ({ caseSensitive })
+   */
+  addAbbreviation(abbreviation: string, expansion: string | AbbreviationEntry, options: AbbreviationOptions = {}) {
+    registerAbbreviation(abbreviation, expansion, options);
+  }
+
+  /**
+   * Remove a custom abbreviation
+   * @param {string} abbreviation The abbreviation to remove
+   * @returns {boolean} Whether the abbreviation was registered
+   */
+  removeAbbreviation(abbreviation: string) {
+    return unregisterAbbreviation(abbreviation);
+  }
+
+  /**
+   * Get the custom abbreviations that have been added
+   * @returns {Object} Map of abbreviation to expansion entry
+   */
+  getAbbreviations() {
+    return getRegisteredAbbreviations();
+  }
+
+  /**
+   * Add a pronunciation to the user lexicon, e.g. addPronunciation('Kokoro', 'kˈoʊkəɹoʊ')
+   * @param {string|RegExp} wordOrPattern The word or phrase, or a pattern matching it
+   * @param {string} phonemes The phonemes to use
+   * @param {Object} options Entry options ({ language }) to scope the entry to one voice language
+   * @returns {Promise<void>}
+   */
+  async addPronunciation(wordOrPattern: string | RegExp, phonemes: string, options: { language?: string } = {}) {
+    this._validatePhonemes(phonemes, wordOrPattern);
+    
+    const entry = wordOrPattern instanceof RegExp
+      ? { pattern: wordOrPattern.source, flags: wordOrPattern.flags, phonemes }
+      : { word: wordOrPattern, phonemes };
+    
+    await addUserLexiconEntry({ ...entry, language: options.language });
+  }
+
+  /**
+   * Check that a pinned pronunciation only uses symbols the model knows
+   * @param {string} phonemes The phonemes to check
+   * @param {string|RegExp} word The word or pattern the phonemes are for, used in the error message
+   */
+  _validatePhonemes(phonemes: string, word: string | RegExp | undefined) {
+    for (const char of phonemes) {
+      if (VOCAB[char] === undefined) {
+        throw new Error(`Character not in vocabulary: "${char}" in pronunciation of "${word}"`);
+      }
+    }
+  }
+
+  /**
+   * Remove a pronunciation from the user lexicon
+   * @param {string|RegExp} wordOrPattern The word or pattern the pronunciation was added for
+   * @param {string} language Only remove the entry for this language (all entries when omitted)
+   * @returns {Promise<boolean>} Whether a pronunciation was removed
+   */
+  async removePronunciation(wordOrPattern: string | RegExp, language: string | undefined = undefined) {
+    const key = wordOrPattern instanceof RegExp ? wordOrPattern.source : wordOrPattern;
+    return removeUserLexiconEntry(key, language);
+  }
+
+  /**
+   * List the pronunciations in the user lexicon
+   * @returns {Promise<Object[]>} Lexicon entries ({ word | pattern, flags, phonemes, language })
+   */
+  async listPronunciations() {
+    await loadUserLexicon();
+    return getUserLexiconEntries();
+  }
+
+  /**
+   * Import pronunciations into the user lexicon
+   * @param {string|Object[]} data Exported lexicon JSON or an array of entries
+   * @param {Object} options Import options ({ replace }) to discard the existing entries first
+   * @returns {Promise<number>} The number of pronunciations imported
+   */
+  async importPronunciations(
+    data: string | UserLexiconEntry[] | { entries: UserLexiconEntry[] },
+    options: { replace?: boolean } = {}
+  ) {
+    // Entries are checked by importUserLexiconEntries(), as parsed JSON can hold anything
+    let imported: unknown = data;
+    if (typeof data === 'string') {
+      try {
+        imported = JSON.parse(data);
+      } catch (error) {
+        throw new Error(`Invalid lexicon JSON: ${(error as Error).message}`);
+      }
+    }
+    
+    if (imported && !Array.isArray(imported)) {
+      imported = (imported as { entries?: unknown }).entries;
+    }
+    
+    // Reject the whole import if any entry uses symbols the model doesn't know
+    if (Array.isArray(imported)) {
+      for (const entry of imported as UserLexiconEntry[]) {
+        if (typeof entry?.phonemes === 'string') {
+          this._validatePhonemes(entry.phonemes.trim(), entry.word ?? entry.pattern);
+        }
+      }
+    }
+    
+    return importUserLexiconEntries(imported as UserLexiconEntry[], !!options.replace);
+  }
+
+  /**
+   * Export the user lexicon
+   * @returns {Promise<string>} Lexicon JSON that can be passed to importPronunciations()
+   */
+  async exportPronunciations() {
+    await loadUserLexicon();
+    return JSON.stringify({ version: 1, entries: getUserLexiconEntries() }, null, 2);
+  }
+
   /**
    * Normalize text for phonemization
    * @param {string} text The input text
+   * @param {string} language The reading conventions to use ('en-us' or 'en-gb')
    * @returns {string} Normalized text
    */
-  normalizeText(text) {
+  normalizeText(text: string, language = 'en-us') {
     // Remove leading/trailing whitespace
     text = text.trim();
     
@@ -308,89 +810,134 @@ class KokoroOnnx {
     // Replace other special characters
     text = text.replace(/…/g, '...');
     
+    // Expand abbreviations and spell out initialisms
+    text = expandAbbreviations(text, language);
+    
+    // Spell out numbers, dates, times, currency and units
+    text = verbalizeNumbers(text, language).replace(/\s+/g, ' ').trim();
+    
     return text;
   }
 
   /**
-   * Basic phonemization function
-   * @param {string} text The input text
+   * Convert text to phonemes using the dictionary-backed G2P engine
+   * @param {string} text The input text, optionally with [word](/phonemes/) markup
+   * @param {string} language The pronunciation to use ('en-us' or 'en-gb')
    * @returns {string} Phonemized text
    */
-  phonemize(text) {
-    // Normalize the text first
-    text = this.normalizeText(text);
-    
-    // Split text into words
-    const words = text.split(/\s+/);
-    
-    // Phonemize each word
-    const phonemizedWords = words.map(word => {
-      // Check if we have a pre-defined phoneme for this word
-      const lowerWord = word.toLowerCase().replace(/[.,!?;:'"]/g, '');
-      if (COMMON_WORD_PHONEMES[lowerWord]) {
-        return COMMON_WORD_PHONEMES[lowerWord];
-      }
-      
-      // Otherwise, do a simple character-by-character phonemization
-      let phonemes = '';
-      let i = 0;
-      
-      while (i < word.length) {
-        // Check for digraphs (two-letter phonemes)
-        if (i < word.length - 1) {
-          const digraph = word.substring(i, i + 2).toLowerCase();
-          if (ENGLISH_PHONEME_MAP[digraph]) {
-            phonemes += ENGLISH_PHONEME_MAP[digraph];
-            i += 2;
-            continue;
-          }
-        }
-        
-        // Check for single character phonemes
-        const char = word[i].toLowerCase();
-        if (ENGLISH_PHONEME_MAP[char]) {
-          phonemes += ENGLISH_PHONEME_MAP[char];
-        } else if (/[a-z]/.test(char)) {
-          // For other alphabetic characters, just use the character itself
-          phonemes += char;
-        } else if (/[.,!?;:'"]/g.test(char)) {
-          // For punctuation, keep it as is
-          phonemes += char;
-        }
-        
-        i++;
+  phonemize(text: string, language = 'en-us') {
+    // Everything that is not pinned is normalized and phonemized by the built-in rules
+    return this._phonemizeSpans(this._pronunciationSpans(text, language), language);
+  }
+
+  /**
+   * Split text into spans with pinned phonemes and spans for the built-in rules
+   * @param {string} text The input text, optionally with [word](/phonemes/) markup
+   * @param {string} language The pronunciation to use
+   * @returns {Object[]} Spans of the input ({ text, phonemes }) in order
+   */
+  _pronunciationSpans(text: string, language: string): LexiconSpan[] {
+    // Inline markup pins a single occurrence, then the user lexicon pins its words
+    return parsePronunciationMarkup(text).flatMap(span => {
+      if (span.phonemes !== null) {
+        this._validatePhonemes(span.phonemes, span.text);
+        return [span];
       }
-      
-      // Add stress marker to the first syllable if the word is long enough
-      if (phonemes.length > 2 && !/[.,!?;:'"]/g.test(phonemes)) {
-        // Find the first vowel
-        const firstVowelMatch = phonemes.match(/[ɑɐɒæəɘɚɛɜɝɞɨɪʊʌɔoeiuaɑː]/);
-        if (firstVowelMatch) {
-          const vowelIndex = firstVowelMatch.index;
-          phonemes = phonemes.substring(0, vowelIndex) + 'ˈ' + phonemes.substring(vowelIndex);
-        }
+      return splitByUserLexicon(span.text, language);
+    });
+  }
+
+  /**
+   * Phonemize text word by word, to match words to the phonemes that were synthesized
+   * @param {string} text The input text or phonemes
+   * @param {string} language The pronunciation to use
+   * @returns {Object[]} Words as written with their phonemes ({ word, text, phonemes }), where text
+   * keeps the word's punctuation
+   */
+  _phonemizeWords(text: string, language: string): SourceWord[] {
+    if (this._isPhonemeInput(text)) {
+      return text.split(/\s+/).filter(Boolean).map(word => ({ word, text: word, phonemes: word }));
+    }
+    
+    return this._pronunciationSpans(text, language).flatMap(span => {
+      if (span.phonemes !== null) {
+        return [{ word: span.text.trim(), text: span.text.trim(), phonemes: span.phonemes }];
       }
-      
-      return phonemes;
+      return span.text.split(/\s+/).filter(Boolean).map(token => ({
+        word: token.replace(/^["'“‘«(\[¿¡]+|["'”’»)\].,!?;:…]+$/g, '') || token,
+        text: token,
+        phonemes: textToPhonemes(this.normalizeText(token, language), language),
+      }));
     });
+  }
+
+  /**
+   * Phonemize spans of text, keeping the phonemes of spans that already have them
+   * @param {Object[]} spans Spans of the input ({ text, phonemes }) in order
+   * @param {string} language The pronunciation to use
+   * @returns {string} Phonemized text
+   */
+  _phonemizeSpans(spans: LexiconSpan[], language: string) {
+    let result = '';
+    let spaceBefore = false;
     
-    // Join the phonemized words with spaces
-    return phonemizedWords.join(' ');
+    for (const span of spans) {
+      const phonemes = span.phonemes !== null
+        ? span.phonemes
+        : textToPhonemes(this.normalizeText(span.text, language), language);
+      
+      // Keep the word break between spans, but not before punctuation
+      spaceBefore = spaceBefore || /^\s/.test(span.text);
+      if (phonemes) {
+        result += result && spaceBefore ? ' ' + phonemes : phonemes;
+        spaceBefore = false;
+      }
+      spaceBefore = spaceBefore || /\s$/.test(span.text);
+    }
+    
+    return result;
   }
 
   /**
    * Tokenize phonemized text
    * @param {string} phonemes The phonemized text
+   * @param {string} language The pronunciation to use when the input is regular text
    * @returns {number[]} Tokenized input
    */
-  tokenize(phonemes) {
-    // If input is regular text, phonemize it first
-    if (!/[ɑɐɒæəɘɚɛɜɝɞɨɪʊʌɔˈˌː]/.test(phonemes)) {
-      phonemes = this.phonemize(phonemes);
+  tokenize(phonemes: string, language = 'en-us') {
+    return this._phonemesToTokens(this._toPhonemes(phonemes, language));
+  }
+
+  /**
+   * Phonemize the input unless it is already a phoneme string
+   * @param {string} text The input text or phonemes
+   * @param {string} language The pronunciation to use when the input is regular text
+   * @returns {string} Phonemes
+   */
+  _toPhonemes(text: string, language: string) {
+    // If input is regular text (possibly with pronunciation markup), phonemize it first
+    if (!this._isPhonemeInput(text)) {
+      return this.phonemize(text, language);
     }
-    
+    return text;
+  }
+
+  /**
+   * Whether the input is already a phoneme string rather than text
+   * @param {string} text The input text or phonemes
+   * @returns {boolean} Whether the input contains IPA and no pronunciation markup
+   */
+  _isPhonemeInput(text: string) {
+    return !hasPronunciationMarkup(text) && /[ɑɐɒæəɘɚɛɜɝɞɨɪʊʌɔˈˌː]/.test(text);
+  }
+
+  /**
+   * Convert a phoneme string to model tokens
+   * @param {string} phonemes The phoneme string
+   * @returns {number[]} Tokens, including the start and end tokens
+   */
+  _phonemesToTokens(phonemes: string) {
     console.log('Phonemized text:', phonemes);
-    this.streamingPhonemes = phonemes;
     
     const tokens = [];
     
@@ -414,12 +961,29 @@ class KokoroOnnx {
 
   /**
    * Generate audio from text
-   * @param {string} text The input text
-   * @param {string} voiceId The voice ID to use
+   * @param {string} text The input text, or an SSML document starting with <speak>
+   * @param {string|Object} voiceId The voice ID, the name of a saved blend, or a blend such as
+   * "af_heart:0.6,af_bella:0.4" or { af_heart: 0.6, af_bella: 0.4 }
    * @param {number} speed The speaking speed (0.5-2.0)
-   * @returns {Promise<Audio.Sound>} The generated audio as an Expo Audio Sound object
+   * @param {Object} options Output options:
+   *   sampleRate - Resample the 24 kHz model output to this rate in Hz;
+   *   processing - Post-processing steps (trimming, normalization, fades, dither, see audioProcessing.ts);
+   *   pitch - Pitch shift in semitones (-12 to 12);
+   *   timeStretch - Duration multiplier applied after synthesis (0.25-4, 2 is twice as slow);
+   *   wordTimestamps - Also return when each word is spoken;
+   *   styleIndex - Use this row of the style table (0-509) for every sentence, instead of the row
+   *   for each chunk's length, so the delivery stays consistent;
+   *   styleRamp - Interpolate the style over the passage, { from, to, curve }: from and to are a voice
+   *   or blend, or { voice, index } (from defaults to the voice), and curve is 'linear' (default),
+   *   'easeIn', 'easeOut' or 'easeInOut';
+   *   segmentStyles - Style of each sentence in order, a voice or { voice, index } (null keeps the default)
+   *   With any style option the passage is synthesized sentence by sentence; styles change the
+   *   delivery only, words are pronounced in the voice's accent
+   * @returns {Promise<Audio.Sound|Object>} The generated audio as an Expo Audio Sound object, or
+   * { sound, timestamps } with word timings ({ word, phonemes, start, end } in milliseconds) when
+   * options.wordTimestamps is set
    */
-  async generateAudio(text, voiceId = 'af_heart', speed = 1.0) {
+  async generateAudio(text: string, voiceId: VoiceBlendSpec = 'af_heart', speed = 1.0, options: OutputOptions = {}) {
     if (!this.isOnnxAvailable) {
       throw new Error('ONNX Runtime is not available on this platform');
     }
@@ -429,59 +993,32 @@ class KokoroOnnx {
     }
 
     try {
-      // Ensure voice is downloaded
+      // Ensure voice is downloaded and the user lexicon is loaded
+      voiceId = await this._resolveVoice(voiceId);
       await this.downloadVoice(voiceId);
+      await loadUserLexicon();
+      const styles = await this._resolveStyles(options);
       
-      // 1. Tokenize the input text
-      const tokens = this.tokenize(text);
-      const numTokens = Math.min(Math.max(tokens.length - 2, 0), 509);
-      
-      // 2. Get voice style data
-      const voiceData = await getVoiceData(voiceId);
-      const offset = numTokens * STYLE_DIM;
-      const styleData = voiceData.slice(offset, offset + STYLE_DIM);
-      
-      // 3. Prepare input tensors - using regular arrays instead of Int64Array
-      const inputs = {};
-      
-      try {
-        // Try with Int32Array first (more compatible)
-        inputs['input_ids'] = new Tensor('int64', new Int32Array(tokens), [1, tokens.length]);
-      } catch (error) {
-        console.warn('Failed to create int64 tensor with Int32Array, trying with regular array:', error);
-        // Fallback to regular array
-        inputs['input_ids'] = new Tensor('int64', tokens, [1, tokens.length]);
-      }
-      
-      inputs['style'] = new Tensor('float32', new Float32Array(styleData), [1, STYLE_DIM]);
-      inputs['speed'] = new Tensor('float32', new Float32Array([speed]), [1]);
+      // 1-5. Tokenize the input text, pronounced in the voice's accent, and run inference
+      const { waveform, timestamps, phonemes } = await this._synthesizeAll(text, voiceId, speed, options.wordTimestamps, styles);
       
-      console.log('Running inference with inputs:', {
-        tokens_length: tokens.length,
-        style_length: styleData.length,
-        speed
-      });
-      
-      // 4. Run inference
-      const outputs = await this.session.run(inputs);
-      
-      if (!outputs || !outputs['waveform'] || !outputs['waveform'].data) {
-        throw new Error('Invalid output from model inference');
-      }
-      
-      // 5. Process the output waveform
-      const waveform = outputs['waveform'].data;
-      console.log('Generated waveform with length:', waveform.length);
-      
-      // 6. Convert to audio buffer
-      const audioUri = await this._floatArrayToAudioFile(waveform);
+      // 6. Post-process and convert to audio buffer at the requested rate
+      const sampleRate = options.sampleRate || SAMPLE_RATE;
+      const { samples, start } = this._prepareOutput(waveform, SAMPLE_RATE, options, 16);
+      const metadata = this._synthesisMetadata(text, voiceId, speed, phonemes);
+      const audioUri = await this._floatArrayToAudioFile(samples, sampleRate, metadata);
       
       // 7. Create and return an Expo Audio Sound object
       const { sound } = await Audio.Sound.createAsync(
         { uri: audioUri },
         { shouldPlay: false }
       );
+      bindAudioFile(sound, audioUri);
       
+      if (options.wordTimestamps) {
+        const duration = samples.length / sampleRate * 1000;
+        return { sound, timestamps: this._alignTimestamps(timestamps!, options.timeStretch || 1, start, duration) };
+      }
       return sound;
     } catch (error) {
       console.error('Error generating audio:', error);
@@ -490,14 +1027,549 @@ class KokoroOnnx {
   }
 
   /**
-   * Generate and stream audio in real-time
-   * @param {string} text The input text
+   * Run the model on a token sequence
+   * @param {number[]} tokens The input tokens, including the start and end tokens
    * @param {string} voiceId The voice ID to use
    * @param {number} speed The speaking speed (0.5-2.0)
-   * @param {function} onProgress Callback for streaming progress updates
-   * @returns {Promise<void>}
+   * @param {Object} style How to choose the style vector, from planChunkStyles() (null for the row for
+   * the token count)
+   * @returns {Promise<Object>} The waveform (Float32Array), the number of tokens and the predicted
+   * duration of each token if the model outputs one ({ waveform, numTokens, durations })
+   */
+  async _synthesize(tokens: number[], voiceId: string, speed: number, style: ChunkStyle | null = null) {
+    const numTokens = Math.min(Math.max(tokens.length - 2, 0), 509);
+    
+    // Get voice style data
+    const styleData = await this._styleVector(voiceId, numTokens, style);
+    
+    // Prepare input tensors - using regular arrays instead of Int64Array
+    const inputs: Record<string, Tensor> = {};
+    
+    try {
+      // Try with Int32Array first (more compatible)
+      inputs['input_ids'] = new Tensor('int64', new Int32Array(tokens), [1, tokens.length]);
+    } catch (error) {
+      console.warn('Failed to create int64 tensor with Int32Array, trying with regular array:', error);
+      // Fallback to regular array
+      inputs['input_ids'] = new Tensor('int64', tokens, [1, tokens.length]);
+    }
+    
+    inputs['style'] = new Tensor('float32', new Float32Array(styleData), [1, STYLE_DIM]);
+    inputs['speed'] = new Tensor('float32', new Float32Array([speed]), [1]);
+    
+    console.log('Running inference with inputs:', {
+      tokens_length: tokens.length,
+      style_length: styleData.length,
+      speed
+    });
+    
+    // Run inference
+    const outputs = await this.session!.run(inputs);
+    
+    if (!outputs || !outputs['waveform'] || !outputs['waveform'].data) {
+      throw new Error('Invalid output from model inference');
+    }
+    
+    const waveform = outputs['waveform'].data as Float32Array;
+    console.log('Generated waveform with length:', waveform.length);
+    
+    // Some exports also output the predicted duration of every token
+    const durationOutput = outputs['durations'] || outputs['duration'] || outputs['pred_dur'];
+    const durations = durationOutput ? (durationOutput.data as ArrayLike<number>) : null;
+    
+    return { waveform, numTokens, durations };
+  }
+
+  /**
+   * Get the style vector to condition the model on
+   * @param {string} voiceId The chunk's voice ID
+   * @param {number} numTokens The chunk's length in tokens
+   * @param {Object} style How to choose the vector, from planChunkStyles() ({ from, to, mix }), or null
+   * @returns {Promise<Float32Array>} STYLE_DIM values
+   */
+  async _styleVector(voiceId: string, numTokens: number, style: ChunkStyle | null) {
+    const row = async (point: ResolvedStylePoint | null | undefined) => {
+      const voiceData = await getVoiceData((point && point.voiceId) || voiceId);
+      const offset = (point && point.index !== null ? point.index : numTokens) * STYLE_DIM;
+      return voiceData.slice(offset, offset + STYLE_DIM);
+    };
+    
+    const from = await row(style && style.from);
+    if (!style || !style.to || style.mix === 0) {
+      return from;
+    }
+    return interpolateStyles(from, await row(style.to), style.mix);
+  }
+
+  /**
+   * Validate the style options of a synthesis request and resolve and download the voices they name
+   * @param {Object} options Synthesis options ({ styleIndex, styleRamp, segmentStyles })
+   * @returns {Promise<Object|null>} Styles for planChunkStyles(), or null if no style option is set
    */
-  async streamAudio(text, voiceId = 'af_heart', speed = 1.0, onProgress = null) {
+  async _resolveStyles(options: StyleOptions) {
+    return resolveStyles(options, async voice => {
+      const resolved = await this._resolveVoice(voice);
+      if (!isKnownVoice(resolved)) {
+        throw new Error(`Unknown voice "${resolved}" in style options`);
+      }
+      await this.downloadVoice(resolved);
+      return resolved;
+    });
+  }
+
+  /**
+   * Split text or SSML into chunks that fit the model, each with its voice, speed and following pause
+   * @param {string} text The input text, phonemes or SSML document
+   * @param {string} voiceId The voice ID to use (outside SSML <voice> elements)
+   * @param {number} speed The speaking speed (outside SSML <prosody> elements)
+   * @param {boolean} perSentence Whether every sentence gets its own chunk
+   * @returns {Promise<Object[]>} Chunks ({ phonemes, voiceId, speed, pause, source }); pauses are in
+   * milliseconds and source is the text the chunk was taken from
+   */
+  async _planChunks(text: string, voiceId: string, speed: number, perSentence = false) {
+    const segments: SsmlSegment[] = isSsml(text)
+      ? parseSsml(text, voiceId, speed)
+      : [{ type: 'speech', text, voiceId, speed }];
+    const chunks: SynthesisChunk[] = [];
+    
+    for (const segment of segments) {
+      if (segment.type === 'break') {
+        if (chunks.length > 0) {
+          chunks[chunks.length - 1].pause += segment.duration;
+        } else {
+          chunks.push({ phonemes: '', voiceId, speed, pause: segment.duration, source: null });
+        }
+        continue;
+      }
+      
+      // Each chunk fits the model and gets the style vector for its own length
+      await this.downloadVoice(segment.voiceId);
+      const phonemes = this._toPhonemes(segment.text, getVoiceLanguage(segment.voiceId));
+      for (const chunk of chunkPhonemes(phonemes, MAX_PHONEME_LENGTH - 1, perSentence)) {
+        chunks.push({
+          phonemes: chunk.phonemes,
+          voiceId: segment.voiceId,
+          speed: segment.speed,
+          pause: chunk.pause / segment.speed,
+          source: segment.text,
+        });
+      }
+    }
+    
+    return chunks;
+  }
+
+  /**
+   * Synthesize one chunk, followed by its pause
+   * @param {Object} chunk A chunk from _planChunks()
+   * @returns {Promise<Object>} The waveform, the number of tokens, the token durations if known and
+   * the length of the speech before the pause in samples ({ waveform, numTokens, durations, speechLength })
+   */
+  async _synthesizeChunk(chunk: SynthesisChunk): Promise<ChunkSynthesis> {
+    if (!chunk.phonemes) {
+      return { waveform: this._silence(chunk.pause), numTokens: 0, durations: null, speechLength: 0 };
+    }
+    
+    const synthesized = await this._synthesize(this._phonemesToTokens(chunk.phonemes), chunk.voiceId, chunk.speed, chunk.style);
+    const result = { ...synthesized, speechLength: synthesized.waveform.length };
+    if (chunk.pause > 0) {
+      result.waveform = this._concatWaveforms([result.waveform, this._silence(chunk.pause)]);
+    }
+    return result;
+  }
+
+  /**
+   * Synthesize text or SSML of any length and join the chunks into one waveform
+   * @param {string} text The input text, phonemes or SSML document
+   * @param {string} voiceId The voice ID to use
+   * @param {number} speed The speaking speed (0.5-2.0)
+   * @param {boolean} wordTimestamps Whether to work out when each word is spoken
+   * @param {Object} styles Styles from _resolveStyles(), or null
+   * @returns {Promise<Object>} The joined waveform, the total number of tokens, the phonemes and the
+   * word timings if requested ({ waveform, numTokens, phonemes, timestamps })
+   */
+  async _synthesizeAll(text: string, voiceId: string, speed: number, wordTimestamps = false, styles: ResolvedStyles | null = null) {
+    // Styles apply sentence by sentence
+    const chunks = await this._planChunks(text, voiceId, speed, !!styles);
+    if (styles) {
+      this._applyStyles(chunks, styles);
+    }
+    
+    const phonemes = chunks.map(chunk => chunk.phonemes).filter(Boolean).join(' ');
+    
+    // Repeated requests come from the synthesis cache when it is enabled
+    let cacheKey: string | null = null;
+    if (isSynthesisCacheEnabled()) {
+      cacheKey = synthesisCacheKey([
+        text.trim().replace(/\s+/g, ' '),
+        chunks.map(chunk => {
+          const parts = [chunk.phonemes, chunk.voiceId, chunk.speed, chunk.pause];
+          return chunk.style ? [...parts, chunk.style] : parts;
+        }),
+      ]);
+      const cached = await getCachedSynthesis(cacheKey, this._synthesisCacheGeneration(), wordTimestamps);
+      if (cached) {
+        return { ...cached, phonemes, timestamps: wordTimestamps ? cached.timestamps : null };
+      }
+    }
+    
+    const results = [];
+    let numTokens = 0;
+    
+    for (const chunk of chunks) {
+      const result = await this._synthesizeChunk(chunk);
+      results.push(result);
+      numTokens += result.numTokens;
+    }
+    
+    const synthesis = {
+      waveform: this._concatWaveforms(results.map(result => result.waveform)),
+      numTokens,
+      timestamps: wordTimestamps ? this._wordTimestamps(chunks, results) : null,
+    };
+    if (cacheKey) {
+      await putCachedSynthesis(cacheKey, this._synthesisCacheGeneration(), synthesis);
+    }
+    return { ...synthesis, phonemes };
+  }
+
+  /**
+   * Give each chunk of a passage its style
+   * @param {Object[]} chunks The chunks from _planChunks(), given a style property if they speak
+   * @param {Object} styles Styles from _resolveStyles()
+   */
+  _applyStyles(chunks: SynthesisChunk[], styles: ResolvedStyles) {
+    planChunkStyles(chunks, styles).forEach((style, index) => {
+      if (style) {
+        chunks[index].style = style;
+      }
+    });
+  }
+
+  /**
+   * Identify the model, user lexicon and imported voices in use, so the synthesis cache is discarded when
+   * any of them changes
+   * @returns {string} The cache generation
+   */
+  _synthesisCacheGeneration() {
+    const revision = getUserLexiconRevision();
+    if (!this.lexiconFingerprint || this.lexiconFingerprint.revision !== revision) {
+      this.lexiconFingerprint = { revision, hash: synthesisCacheKey(getUserLexiconEntries()) };
+    }
+    const customVoices = Object.entries(getCustomVoices()).map(([id, voice]) => [id, voice.checksum]);
+    return `${this.currentModelId}:${this.lexiconFingerprint.hash}:${synthesisCacheKey(customVoices)}`;
+  }
+
+  /**
+   * Work out when each word of the input is spoken
+   * @param {Object[]} chunks The chunks from _planChunks()
+   * @param {Object[]} results The synthesized chunks from _synthesizeChunk()
+   * @returns {Object[]} Word timings ({ word, phonemes, start, end }) in milliseconds
+   */
+  _wordTimestamps(chunks: SynthesisChunk[], results: ChunkSynthesis[]) {
+    const timestamps: WordTiming[] = [];
+    let phonemeWords: PhonemeWordTiming[] = [];
+    let offset = 0;
+    
+    chunks.forEach((chunk, index) => {
+      const result = results[index];
+      if (chunk.phonemes) {
+        // Token timing from the model's durations, or estimated from the phonemes
+        const symbols = Array.from(chunk.phonemes).filter(symbol => VOCAB[symbol] !== undefined);
+        const durations = result.durations || estimateTokenDurations(symbols);
+        const length = result.speechLength / SAMPLE_RATE * 1000;
+        phonemeWords.push(...timePhonemeWords(symbols, durations, offset, length));
+      }
+      offset += result.waveform.length / SAMPLE_RATE * 1000;
+      
+      // Match the words once every chunk of a piece of text has been timed
+      const next = chunks[index + 1];
+      if (chunk.source !== null && (!next || next.source !== chunk.source)) {
+        const sourceWords = this._phonemizeWords(chunk.source, getVoiceLanguage(chunk.voiceId));
+        timestamps.push(...assignWordTimings(sourceWords, phonemeWords));
+        phonemeWords = [];
+      }
+    });
+    
+    return timestamps;
+  }
+
+  /**
+   * Move word timings onto the output audio after time stretching and trimming
+   * @param {Object[]} timestamps Word timings for the synthesized waveform
+   * @param {number} stretch The time stretch factor applied
+   * @param {number} trimmed Milliseconds trimmed from the start of the stretched audio
+   * @param {number} duration Length of the output in milliseconds
+   * @returns {Object[]} Word timings for the output
+   */
+  _alignTimestamps(timestamps: WordTiming[], stretch: number, trimmed: number, duration: number) {
+    const align = (time: number) => Math.min(duration, Math.max(0, time * stretch - trimmed));
+    return timestamps.map(timing => ({ ...timing, start: align(timing.start), end: align(timing.end) }));
+  }
+
+  /**
+   * Create a silent waveform
+   * @param {number} duration The length of the silence in milliseconds
+   * @returns {Float32Array} Silent samples
+   */
+  _silence(duration: number) {
+    return new Float32Array(Math.round(SAMPLE_RATE * duration / 1000));
+  }
+
+  /**
+   * Join waveforms end to end
+   * @param {Float32Array[]} waveforms The waveforms to join
+   * @returns {Float32Array} The joined waveform
+   */
+  _concatWaveforms(waveforms: Float32Array[]) {
+    const joined = new Float32Array(waveforms.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    for (const part of waveforms) {
+      joined.set(part, position);
+      position += part.length;
+    }
+    return joined;
+  }
+
+  /**
+   * Pitch shift, time stretch, post-process, resample and dither a waveform for output
+   * @param {Float32Array} waveform The samples to prepare
+   * @param {number} sourceSampleRate The rate of the samples
+   * @param {Object} options Output options: { sampleRate, pitch, timeStretch, processing }
+   * @param {number} ditherBits The bit depth the output is quantized to (0 if dither does not apply)
+   * @param {Object} context Which edges of the clip the samples hold and a gain to reuse
+   * @returns {{samples: Float32Array, gain: number, start: number}} Output samples, the normalization
+   * gain used and the milliseconds trimmed from the start
+   */
+  _prepareOutput(
+    waveform: Float32Array,
+    sourceSampleRate: number,
+    options: OutputOptions = {},
+    ditherBits = 0,
+    context: ProcessingContext = {}
+  ) {
+    const { sampleRate = sourceSampleRate, pitch = 0, timeStretch = 1, processing = {} } = options;
+    const shifted = pitchShift(waveform, sourceSampleRate, pitch, timeStretch);
+    const processed = processAudio(shifted, sourceSampleRate, processing, context);
+    let samples = resample(processed.samples, sourceSampleRate, sampleRate);
+    if (processing.dither && ditherBits) {
+      samples = applyDither(samples, ditherBits);
+    }
+    return { samples, gain: processed.gain, start: processed.start / sourceSampleRate * 1000 };
+  }
+
+  /**
+   * Generate the raw waveform for text without creating a sound, e.g. to export it
+   * @param {string} text The input text, or an SSML document starting with <speak>
+   * @param {string|Object} voiceId The voice ID, the name of a saved blend, or a blend such as
+   * "af_heart:0.6,af_bella:0.4" or { af_heart: 0.6, af_bella: 0.4 }
+   * @param {number} speed The speaking speed (0.5-2.0)
+   * @param {Object} options Output options:
+   *   sampleRate - Resample the 24 kHz model output to this rate in Hz;
+   *   processing - Post-processing steps (dither is left to exportAudio());
+   *   pitch - Pitch shift in semitones (-12 to 12);
+   *   timeStretch - Duration multiplier applied after synthesis (0.25-4, 2 is twice as slow);
+   *   wordTimestamps - Also return when each word is spoken, as for generateAudio();
+   *   styleIndex, styleRamp, segmentStyles - Style control, as for generateAudio()
+   * @returns {Promise<Float32Array|Object>} Mono samples at options.sampleRate (24 kHz by default),
+   * or { waveform, timestamps } when options.wordTimestamps is set
+   */
+  async generateWaveform(text: string, voiceId: VoiceBlendSpec = 'af_heart', speed = 1.0, options: OutputOptions = {}) {
+    if (!this.isOnnxAvailable) {
+      throw new Error('ONNX Runtime is not available on this platform');
+    }
+    
+    if (!this.isModelLoaded) {
+      throw new Error('Model not loaded. Call loadModel() first.');
+    }
+    
+    voiceId = await this._resolveVoice(voiceId);
+    await this.downloadVoice(voiceId);
+    await loadUserLexicon();
+    const styles = await this._resolveStyles(options);
+    
+    const { waveform, timestamps } = await this._synthesizeAll(text, voiceId, speed, options.wordTimestamps, styles);
+    const { samples, start } = this._prepareOutput(waveform, SAMPLE_RATE, options);
+    
+    if (options.wordTimestamps) {
+      const duration = samples.length / (options.sampleRate || SAMPLE_RATE) * 1000;
+      return {
+        waveform: samples,
+        timestamps: this._alignTimestamps(timestamps!, options.timeStretch || 1, start, duration),
+      };
+    }
+    return samples;
+  }
+
+  /**
+   * Write a waveform to an audio file
+   * @param {Float32Array} waveform The samples to write, e.g. from generateWaveform()
+   * @param {string} path Output file: a file:// URI, an absolute path, or a path relative to the document directory
+   * @param {Object} options Export options:
+   *   format - 'wav' or 'flac' (defaults to the path's extension, then 'wav');
+   *   encoding - WAV sample encoding: 'pcm16' (default), 'pcm24', 'float32', 'pcm8' or 'mulaw';
+   *   bitDepth - FLAC bit depth: 16 (default) or 24;
+   *   sourceSampleRate - Rate of the waveform in Hz (defaults to the model's 24 kHz);
+   *   sampleRate - Rate of the file in Hz, the waveform is resampled if it differs;
+   *   processing - Post-processing steps, with dither matched to the file's bit depth;
+   *   pitch, timeStretch - Pitch shift and time stretch, as for generateAudio();
+   *   metadata - { text, voiceId, speed, phonemes } to embed in a WAV file (the phonemes are
+   *   worked out from the text when omitted, and the current model is recorded);
+   *   ixml - Also write the metadata as an iXML chunk
+   * @returns {Promise<string>} URI of the written file
+   */
+  async exportAudio(waveform: Float32Array, path: string, options: ExportOptions = {}) {
+    const format = (options.format || (/\.flac$/i.test(path) ? 'flac' : 'wav')).toLowerCase();
+    const sourceSampleRate = options.sourceSampleRate || SAMPLE_RATE;
+    const sampleRate = options.sampleRate || sourceSampleRate;
+    const encoding = options.encoding || 'pcm16';
+    const bitDepth = options.bitDepth || 16;
+    // Dither only applies to linear integer samples
+    const dither: Partial<Record<WavEncoding, number>> = { pcm16: 16, pcm24: 24, pcm8: 8 };
+    const ditherBits = format === 'flac' ? bitDepth : dither[encoding];
+    const { samples } = this._prepareOutput(waveform, sourceSampleRate, { ...options, sampleRate }, ditherBits);
+    
+    let buffer;
+    if (format === 'wav') {
+      let metadata: SynthesisMetadata | null = null;
+      if (options.metadata) {
+        const { text, voiceId, speed = 1.0 } = options.metadata;
+        let { phonemes } = options.metadata;
+        if (!phonemes && text && voiceId) {
+          await loadUserLexicon();
+          const chunks = await this._planChunks(text, voiceId, speed);
+          phonemes = chunks.map(chunk => chunk.phonemes).filter(Boolean).join(' ');
+        }
+        metadata = this._synthesisMetadata(text, voiceId, speed, phonemes);
+      }
+      buffer = this._floatArrayToWav(samples, sampleRate, encoding, metadata, options.ixml);
+    } else if (format === 'flac') {
+      buffer = encodeFlac(samples, sampleRate, bitDepth);
+    } else {
+      throw new Error(`Unsupported audio format: ${options.format}`);
+    }
+    
+    // Resolve the output location and make sure its directory exists
+    const uri = this._resolvePath(path);
+    const directory = uri.slice(0, uri.lastIndexOf('/'));
+    const dirInfo = await FileSystem.getInfoAsync(directory);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    
+    await FileSystem.writeAsStringAsync(
+      uri,
+      encodeBase64(buffer),
+      { encoding: FileSystem.EncodingType.Base64 }
+    );
+    
+    console.log('Audio exported to:', uri);
+    return uri;
+  }
+
+  /**
+   * Write captions for synthesized speech to an SRT or WebVTT file
+   * @param {Object[]} timestamps Word timings from generateAudio() or generateWaveform() with
+   * wordTimestamps set
+   * @param {string} path Output file: a file:// URI, an absolute path, or a path relative to the document directory
+   * @param {Object} options Caption options:
+   *   format - 'srt' or 'vtt' (defaults to the path's extension, then 'vtt');
+   *   maxLineLength - Longest line in characters (42 by default);
+   *   maxLines - Lines per cue (2 by default);
+   *   maxCueDuration - Longest time a cue stays on screen in milliseconds (6000 by default);
+   *   minCueDuration - Shortest time a cue stays on screen in milliseconds (1000 by default)
+   * @returns {Promise<string>} URI of the written file
+   */
+  async exportCaptions(timestamps: WordTiming[], path: string, options: CaptionOptions & { format?: CaptionFormat } = {}) {
+    const format = (options.format || (/\.srt$/i.test(path) ? 'srt' : 'vtt')).toLowerCase() as CaptionFormat;
+    const captions = buildCaptions(timestamps, format, options);
+    
+    const uri = this._resolvePath(path);
+    const directory = uri.slice(0, uri.lastIndexOf('/'));
+    const dirInfo = await FileSystem.getInfoAsync(directory);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    
+    await FileSystem.writeAsStringAsync(uri, captions, { encoding: FileSystem.EncodingType.UTF8 });
+    
+    console.log('Captions exported to:', uri);
+    return uri;
+  }
+
+  /**
+   * Read the synthesis metadata embedded in a WAV file
+   * @param {string} path A file:// URI, an absolute path, or a path relative to the document directory
+   * @returns {Promise<Object|null>} { text, phonemes, voiceId, speed, modelId, createdAt }, or null
+   * if the file has no metadata
+   */
+  async readAudioMetadata(path: string) {
+    const base64 = await FileSystem.readAsStringAsync(this._resolvePath(path), {
+      encoding: FileSystem.EncodingType.Base64
+    });
+    return readWavMetadata(decodeBase64(base64).buffer);
+  }
+
+  /**
+   * Resolve a file path to a URI
+   * @param {string} path A file:// URI, an absolute path, or a path relative to the document directory
+   * @returns {string} The file URI
+   */
+  _resolvePath(path: string) {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path)) {
+      return path;
+    }
+    return path.startsWith('/') ? `file://${path}` : `${FileSystem.documentDirectory}${path}`;
+  }
+
+  /**
+   * Describe how a clip was synthesized, for embedding in the audio file
+   * @param {string} text The input text
+   * @param {string} voiceId The voice ID used
+   * @param {number} speed The speaking speed used
+   * @param {string} phonemes The phonemes that were synthesized
+   * @returns {Object} Metadata for _floatArrayToWav()
+   */
+  _synthesisMetadata(
+    text: string | undefined,
+    voiceId: string | undefined,
+    speed: number,
+    phonemes: string | undefined
+  ): SynthesisMetadata {
+    return {
+      text,
+      phonemes,
+      voiceId,
+      speed,
+      modelId: this.currentModelId ?? undefined,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Generate and stream audio in real-time. The first sentence starts playing as soon as it is
+   * synthesized while the following sentences are generated and queued behind it.
+   * @param {string} text The input text, or an SSML document starting with <speak>
+   * @param {string|Object} voiceId The voice ID, the name of a saved blend, or a blend such as
+   * "af_heart:0.6,af_bella:0.4" or { af_heart: 0.6, af_bella: 0.4 }
+   * @param {number} speed The speaking speed (0.5-2.0)
+   * @param {function} onProgress Callback for streaming progress updates, called when a chunk is
+   * synthesized, starts playing or finishes and during playback
+   * @param {Object} options Output options:
+   *   sampleRate - Resample the 24 kHz model output to this rate in Hz;
+   *   processing - Post-processing steps; trimming and fades apply to the start and end of the
+   *   whole stream, and the normalization gain measured on the first chunk is reused for the rest;
+   *   pitch, timeStretch - Pitch shift and time stretch, as for generateAudio();
+   *   styleIndex, styleRamp, segmentStyles - Style control, as for generateAudio()
+   * @returns {Promise<Object>} Metrics once every chunk has been synthesized (playback may still be running)
+   */
+  async streamAudio(
+    text: string,
+    voiceId: VoiceBlendSpec = 'af_heart',
+    speed = 1.0,
+    onProgress: ((progress: StreamProgress) => void) | null = null,
+    options: OutputOptions = {}
+  ) {
     if (this.isStreaming) {
       await this.stopStreaming();
     }
@@ -510,229 +1582,310 @@ class KokoroOnnx {
       throw new Error('Model not loaded. Call loadModel() first.');
     }
 
+    const sampleRate = options.sampleRate || SAMPLE_RATE;
+    validateSampleRate(sampleRate);
+
+    const streamId = ++this.streamingId;
+    const isCurrent = () => this.streamingId === streamId;
+    
+    // Playback state shared by the generation loop and the sound status callbacks
+    let chunkCount = 0;
+    let synthesizedDuration = 0;
+    let isGenerationDone = false;
+    let phonemes = '';
+    
+    const report = (chunk: StreamChunk | null, chunkStatus: string, positionInChunk = 0) => {
+      if (!onProgress || !isCurrent()) {
+        return;
+      }
+      const position = chunk ? chunk.offset + positionInChunk : synthesizedDuration;
+      onProgress({
+        progress: synthesizedDuration > 0 ? position / synthesizedDuration : 0,
+        tokensPerSecond: this.tokensPerSecond,
+        timeToFirstToken: this.timeToFirstToken,
+        position,
+        duration: synthesizedDuration,
+        phonemes,
+        chunkIndex: chunk ? chunk.index : chunkCount - 1,
+        chunkCount,
+        chunkStatus,
+        chunkPhonemes: chunk ? chunk.phonemes : '',
+        isGenerationDone,
+      });
+    };
+    
+    // Play the next queued chunk, or finish once everything has been played
+    const playNext = async () => {
+      if (!isCurrent()) {
+        return;
+      }
+      const next = this.streamingQueue.shift();
+      if (!next) {
+        this.streamingSound = null;
+        if (isGenerationDone) {
+          this.isStreaming = false;
+          report(null, 'done');
+        }
+        return;
+      }
+      
+      this.streamingSound = next.sound;
+      await next.sound!.playAsync();
+      report(next, 'playing');
+    };
+    
+    // Stop the stream after an error, unloading the chunks still queued
+    const abort = async (error: unknown) => {
+      console.error('Error streaming audio:', error);
+      if (isCurrent()) {
+        await this.stopStreaming();
+      }
+    };
+
     try {
       this.isStreaming = true;
       this.streamingStartTime = Date.now();
       this.tokensProcessed = 0;
+      this.tokensPerSecond = 0;
       this.timeToFirstToken = 0;
       this.streamingTokens = [];
       this.streamingPhonemes = "";
       this.streamingCallback = onProgress;
+      this.streamingQueue = [];
       
-      // Ensure voice is downloaded
+      // Ensure voice is downloaded and the user lexicon is loaded
+      voiceId = await this._resolveVoice(voiceId);
       await this.downloadVoice(voiceId);
+      await loadUserLexicon();
+      const styles = await this._resolveStyles(options);
       
-      // 1. Tokenize the input text
-      const tokens = this.tokenize(text);
-      this.streamingTokens = tokens;
-      const numTokens = Math.min(Math.max(tokens.length - 2, 0), 509);
-      this.tokensProcessed = numTokens;
-      
-      // 2. Get voice style data
-      const voiceData = await getVoiceData(voiceId);
-      const offset = numTokens * STYLE_DIM;
-      const styleData = voiceData.slice(offset, offset + STYLE_DIM);
-      
-      // 3. Prepare input tensors
-      const inputs = {};
-      
-      try {
-        inputs['input_ids'] = new Tensor('int64', new Int32Array(tokens), [1, tokens.length]);
-      } catch (error) {
-        inputs['input_ids'] = new Tensor('int64', tokens, [1, tokens.length]);
-      }
-      
-      inputs['style'] = new Tensor('float32', new Float32Array(styleData), [1, STYLE_DIM]);
-      inputs['speed'] = new Tensor('float32', new Float32Array([speed]), [1]);
-      
-      // Start timing for tokens per second calculation and time to first token
-      const inferenceStartTime = Date.now();
-      
-      // 4. Run inference
-      const outputs = await this.session.run(inputs);
-      
-      // Calculate time to first token
-      this.timeToFirstToken = Date.now() - inferenceStartTime;
-      
-      // Calculate tokens per second
-      const inferenceEndTime = Date.now();
-      const inferenceTimeSeconds = (inferenceEndTime - inferenceStartTime) / 1000;
-      this.tokensPerSecond = inferenceTimeSeconds > 0 ? numTokens / inferenceTimeSeconds : 0;
-      
-      if (!outputs || !outputs['waveform'] || !outputs['waveform'].data) {
-        throw new Error('Invalid output from model inference');
+      // 1. Split the input into sentences, pronounced in the voice's accent
+      const chunks = await this._planChunks(text, voiceId, speed, true);
+      if (styles) {
+        this._applyStyles(chunks, styles);
       }
+      phonemes = chunks.map(chunk => chunk.phonemes).filter(Boolean).join(' ');
+      this.streamingPhonemes = phonemes;
+      chunkCount = chunks.length;
       
-      // 5. Process the output waveform
-      const waveform = outputs['waveform'].data;
-      
-      // 6. Convert to audio buffer and start streaming
-      const audioUri = await this._floatArrayToAudioFile(waveform);
+      let inferenceTime = 0;
+      let gain: number | undefined;
       
-      // 7. Create and play the sound
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: audioUri },
-        { shouldPlay: true },
-        (status) => {
-          // Provide progress updates
-          if (onProgress && status.isLoaded) {
-            const progress = status.positionMillis / status.durationMillis;
-            onProgress({
-              progress,
-              tokensPerSecond: this.tokensPerSecond,
-              timeToFirstToken: this.timeToFirstToken,
-              position: status.positionMillis,
-              duration: status.durationMillis,
-              phonemes: this.streamingPhonemes
-            });
-          }
-          
-          // Clean up when playback finishes
-          if (status.didJustFinish) {
-            this.isStreaming = false;
-            this.streamingSound = null;
+      for (let index = 0; index < chunks.length && isCurrent(); index++) {
+        // 2. Synthesize the next chunk
+        const inferenceStartTime = Date.now();
+        const { waveform, numTokens } = await this._synthesizeChunk(chunks[index]);
+        inferenceTime += Date.now() - inferenceStartTime;
+        
+        if (!isCurrent()) {
+          break;
+        }
+        
+        // Time to first audio, and tokens per second across the chunks so far
+        if (index === 0) {
+          this.timeToFirstToken = Date.now() - this.streamingStartTime;
+        }
+        this.tokensProcessed += numTokens;
+        this.tokensPerSecond = inferenceTime > 0 ? this.tokensProcessed / (inferenceTime / 1000) : 0;
+        
+        // 3. Post-process it, write it out and preload it so it can start as soon as the previous chunk ends
+        const output = this._prepareOutput(waveform, SAMPLE_RATE, options, 16, {
+          isStart: index === 0,
+          isEnd: index === chunks.length - 1,
+          gain,
+        });
+        gain = output.gain;
+        const uri = await this._floatArrayToAudioFile(output.samples, sampleRate);
+        const chunk: StreamChunk = {
+          index,
+          uri,
+          sound: null,
+          offset: synthesizedDuration,
+          phonemes: chunks[index].phonemes,
+        };
+        synthesizedDuration += output.samples.length / sampleRate * 1000;
+        
+        const { sound } = await Audio.Sound.createAsync(
+          { uri },
+          { shouldPlay: false },
+          (status) => {
+            if (!status.isLoaded || !isCurrent()) {
+              return;
+            }
+            
+            if (status.isPlaying) {
+              report(chunk, 'playing', status.positionMillis);
+            }
+            
+            // Move on to the next chunk and clean up this one
+            if (status.didJustFinish) {
+              report(chunk, 'finished', status.durationMillis || 0);
+              releaseSound(sound).catch(() => {});
+              playNext().catch(abort);
+            }
           }
+        );
+        chunk.sound = sound;
+        bindAudioFile(sound, uri);
+        
+        if (!isCurrent()) {
+          await releaseSound(sound);
+          break;
         }
-      );
+        
+        // 4. Queue it, starting playback if nothing is playing
+        this.streamingQueue.push(chunk);
+        report(chunk, 'synthesized');
+        if (!this.streamingSound) {
+          await playNext();
+        }
+      }
       
-      this.streamingSound = sound;
+      isGenerationDone = true;
+      if (isCurrent() && !this.streamingSound && this.streamingQueue.length === 0) {
+        this.isStreaming = false;
+        report(null, 'done');
+      }
       
-      // Return the tokens per second for immediate feedback
+      // Return the metrics for immediate feedback
       return {
         tokensPerSecond: this.tokensPerSecond,
         timeToFirstToken: this.timeToFirstToken,
-        totalTokens: numTokens
+        totalTokens: this.tokensProcessed,
+        chunkCount
       };
     } catch (error) {
-      this.isStreaming = false;
-      console.error('Error streaming audio:', error);
+      await abort(error);
       throw error;
     }
   }
 
+  /**
+   * Turn on the synthesis cache: repeated text with the same voice and speed reuses the stored
+   * waveform instead of running the model. Entries persist across launches and are discarded when
+   * the model or user lexicon changes.
+   * @param {Object} options Cache options ({ maxBytes }, 50 MB by default)
+   * @returns {Promise<void>}
+   */
+  async enableSynthesisCache(options = {}) {
+    await enableSynthesisCache(options);
+  }
+
+  /**
+   * Turn off the synthesis cache, keeping its entries on disk
+   */
+  disableSynthesisCache() {
+    disableSynthesisCache();
+  }
+
+  /**
+   * Delete every entry in the synthesis cache
+   * @returns {Promise<void>}
+   */
+  async clearSynthesisCache() {
+    await clearSynthesisCache();
+  }
+
+  /**
+   * Get the size of the synthesis cache and its hits and misses since launch
+   * @returns {Promise<Object>} { count, bytes, hits, misses }
+   */
+  async getSynthesisCacheStats() {
+    return getSynthesisCacheStats();
+  }
+
+  /**
+   * Unload a sound from generateAudio() and delete its audio file
+   * @param {Audio.Sound} sound The sound to release
+   * @returns {Promise<void>}
+   */
+  async releaseAudio(sound: Audio.Sound) {
+    await releaseSound(sound);
+  }
+
+  /**
+   * Set the budget for generated audio files. Files without a loaded sound are evicted oldest
+   * first once they exceed it; files whose sounds are still loaded are kept.
+   * @param {Object} limits { maxBytes, maxAge } in bytes and milliseconds since the file was
+   * written (100 MB and 24 hours by default)
+   * @returns {Promise<void>}
+   */
+  async setAudioCacheLimits(limits: AudioFileBudget) {
+    await setAudioFileBudget(limits);
+  }
+
+  /**
+   * Get the budget for generated audio files
+   * @returns {Object} { maxBytes, maxAge }
+   */
+  getAudioCacheLimits() {
+    return getAudioFileBudget();
+  }
+
+  /**
+   * Get the space used by generated audio files
+   * @returns {Promise<Object>} { count, bytes }
+   */
+  async getAudioCacheUsage() {
+    return getAudioFileUsage();
+  }
+
+  /**
+   * Delete every generated audio file, unloading any sounds still playing them
+   * @returns {Promise<number>} The number of files deleted
+   */
+  async clearAudioCache() {
+    if (this.isStreaming) {
+      await this.stopStreaming();
+    }
+    return clearAudioFiles();
+  }
+
   /**
    * Convert a Float32Array to an audio file that can be played by Expo Audio
    * @param {Float32Array} floatArray The float array containing audio data
-   * @returns {Promise<string>} URI to the temporary audio file
+   * @param {number} sampleRate The sample rate of the audio
+   * @param {Object} metadata Synthesis metadata to embed, if any
+   * @returns {Promise<string>} URI to the audio file, deleted when the sound playing it is unloaded
    */
-  async _floatArrayToAudioFile(floatArray) {
+  async _floatArrayToAudioFile(floatArray: Float32Array, sampleRate = SAMPLE_RATE, metadata: SynthesisMetadata | null = null) {
     try {
       // 1. Convert float array to WAV format
-      const wavBuffer = this._floatArrayToWav(floatArray, SAMPLE_RATE);
+      const wavBuffer = this._floatArrayToWav(floatArray, sampleRate, 'pcm16', metadata);
       
       // 2. Convert ArrayBuffer to base64 string
-      const base64Data = this._arrayBufferToBase64(wavBuffer);
-      
-      // 3. Save to a temporary file
-      const tempFilePath = `${FileSystem.cacheDirectory}temp_audio_${Date.now()}.wav`;
-      await FileSystem.writeAsStringAsync(
-        tempFilePath, 
-        base64Data, 
-        { encoding: FileSystem.EncodingType.Base64 }
-      );
+      const base64Data = encodeBase64(wavBuffer);
+      
+      // 3. Save to a managed file in the cache directory
+      const audioUri = await writeAudioFile(base64Data);
       
-      console.log('Audio saved to:', tempFilePath);
-      return tempFilePath;
+      console.log('Audio saved to:', audioUri);
+      return audioUri;
     } catch (error) {
       console.error('Error converting float array to audio file:', error);
       throw error;
     }
   }
 
-  /**
-   * Convert ArrayBuffer to base64 string
-   * @param {ArrayBuffer} buffer The buffer to convert
-   * @returns {string} Base64 string
-   */
-  _arrayBufferToBase64(buffer) {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
   /**
    * Convert a Float32Array to a WAV buffer
    * @param {Float32Array} floatArray The float array containing audio data
    * @param {number} sampleRate The sample rate of the audio
+   * @param {string} encoding The sample encoding ('pcm16', 'pcm24', 'float32', 'pcm8' or 'mulaw')
+   * @param {Object} metadata Synthesis metadata ({ text, phonemes, voiceId, speed, modelId }) to
+   * write as a LIST/INFO chunk, if any
+   * @param {boolean} includeIxml Whether to write the metadata as an iXML chunk too
    * @returns {ArrayBuffer} WAV buffer
    */
-  _floatArrayToWav(floatArray, sampleRate) {
-    // Convert float array to Int16Array (16-bit PCM)
-    const numSamples = floatArray.length;
-    const int16Array = new Int16Array(numSamples);
-    
-    for (let i = 0; i < numSamples; i++) {
-      // Convert float in range [-1, 1] to int16 in range [-32768, 32767]
-      int16Array[i] = Math.max(-32768, Math.min(32767, Math.floor(floatArray[i] * 32767)));
-    }
-    
-    // Create WAV header
-    const headerLength = 44;
-    const dataLength = int16Array.length * 2; // 2 bytes per sample
-    const buffer = new ArrayBuffer(headerLength + dataLength);
-    const view = new DataView(buffer);
-    
-    // Write WAV header
-    // "RIFF" chunk descriptor
-    view.setUint8(0, 'R'.charCodeAt(0));
-    view.setUint8(1, 'I'.charCodeAt(0));
-    view.setUint8(2, 'F'.charCodeAt(0));
-    view.setUint8(3, 'F'.charCodeAt(0));
-    
-    // Chunk size
-    view.setUint32(4, 36 + dataLength, true);
-    
-    // "WAVE" format
-    view.setUint8(8, 'W'.charCodeAt(0));
-    view.setUint8(9, 'A'.charCodeAt(0));
-    view.setUint8(10, 'V'.charCodeAt(0));
-    view.setUint8(11, 'E'.charCodeAt(0));
-    
-    // "fmt " subchunk
-    view.setUint8(12, 'f'.charCodeAt(0));
-    view.setUint8(13, 'm'.charCodeAt(0));
-    view.setUint8(14, 't'.charCodeAt(0));
-    view.setUint8(15, ' '.charCodeAt(0));
-    
-    // Subchunk size
-    view.setUint32(16, 16, true);
-    
-    // Audio format (PCM)
-    view.setUint16(20, 1, true);
-    
-    // Number of channels
-    view.setUint16(22, 1, true);
-    
-    // Sample rate
-    view.setUint32(24, sampleRate, true);
-    
-    // Byte rate
-    view.setUint32(28, sampleRate * 2, true);
-    
-    // Block align
-    view.setUint16(32, 2, true);
-    
-    // Bits per sample
-    view.setUint16(34, 16, true);
-    
-    // "data" subchunk
-    view.setUint8(36, 'd'.charCodeAt(0));
-    view.setUint8(37, 'a'.charCodeAt(0));
-    view.setUint8(38, 't'.charCodeAt(0));
-    view.setUint8(39, 'a'.charCodeAt(0));
-    
-    // Subchunk size
-    view.setUint32(40, dataLength, true);
-    
-    // Write audio data
-    for (let i = 0; i < numSamples; i++) {
-      view.setInt16(headerLength + i * 2, int16Array[i], true);
-    }
-    
-    return buffer;
+  _floatArrayToWav(
+    floatArray: Float32Array,
+    sampleRate: number,
+    encoding: WavEncoding = 'pcm16',
+    metadata: SynthesisMetadata | null = null,
+    includeIxml = false
+  ) {
+    const chunks = metadata ? buildMetadataChunks(metadata, includeIxml) : [];
+    return encodeWav(floatArray, sampleRate, encoding, chunks);
   }
 }
 
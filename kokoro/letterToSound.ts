@@ -0,0 +1,557 @@
+/**
+ * Rule-based letter-to-sound conversion for out-of-vocabulary words.
+ *
+ * Pronunciation happens in three steps:
+ * 1. Spelling rules turn letters into phones, looking at the letters around
+ *    each match (silent e, soft c/g, vowel teams, -tion, -ed, -ing, ...).
+ * 2. The phones are split into syllables using the maximal onset principle.
+ * 3. Stress is predicted from suffixes, prefixes and syllable weight, and
+ *    unstressed vowels are reduced.
+ */
+
+export interface Syllable {
+  // Consonants before the vowel
+  onset: string[];
+  // The vowel
+  nucleus: string;
+  // Consonants after the vowel
+  coda: string[];
+  // 0 = unstressed, 1 = primary stress, 2 = secondary stress
+  stress: number;
+}
+
+type SpellingRule = [match: string, left: RegExp | null, right: RegExp | null, phones: string];
+
+// Vowel phones produced by the spelling rules
+const VOWELS = new Set(['æ', 'eɪ', 'ɛ', 'iː', 'ɪ', 'aɪ', 'ɑː', 'oʊ', 'ʌ', 'uː', 'ʊ', 'aʊ', 'ɔɪ', 'ɔː', 'ə', 'ɝ', 'ɚ', 'i', 'u']);
+
+// Vowels that make a syllable heavy on their own
+const LONG_VOWELS = new Set(['eɪ', 'iː', 'aɪ', 'oʊ', 'uː', 'aʊ', 'ɔɪ', 'ɔː', 'ɝ']);
+
+// Consonant clusters allowed at the start of an English syllable
+const LEGAL_ONSETS = new Set([
+  'p ɹ', 'p l', 'b ɹ', 'b l', 't ɹ', 'd ɹ', 'k ɹ', 'k l', 'ɡ ɹ', 'ɡ l', 'f ɹ', 'f l', 'θ ɹ', 'ʃ ɹ',
+  's p', 's t', 's k', 's m', 's n', 's l', 's w', 'k w', 't w', 'd w', 'ɡ w', 'θ w',
+  's p ɹ', 's p l', 's t ɹ', 's k ɹ', 's k w',
+  'p j', 'b j', 'k j', 'f j', 'm j', 'v j', 'h j',
+]);
+
+// Voiceless consonants, used to devoice a final -s
+const VOICELESS = new Set(['p', 't', 'k', 'f', 'θ']);
+
+// Letter classes used in rule contexts
+const C = '[bcdfghjklmnpqrstvwxz]';
+
+// Only consonants before the match, i.e. the match is in the first syllable
+const FIRST_SYLLABLE = new RegExp(`^\\s${C}*$`);
+
+// A single consonant followed by a silent e at the end of the word or before a suffix
+const MAGIC_E = new RegExp(`^[bcdfgklmnpstvz]e(?:\\s|ly|ment|ful|less|ness)`);
+
+// A single consonant followed by a suffix that dropped a silent e (making, hoped, table)
+const MAGIC_E_SUFFIX = new RegExp(`^[bcdfgklmnpstvz](?:es|ed|ing|le)\\s`);
+
+// A single consonant followed by a final -y or -er, leaving the vowel before it in an open
+// syllable (lazy, cider, pony); v is left out, as it mostly follows a short vowel (river)
+const OPEN_SYLLABLE_END = new RegExp(`^[bcdfgklmnpstz](?:y|er)s?\\s`);
+
+// Vowels are long before -tion and friends (nation, motion, solution)
+const BEFORE_TION = /^(?:tion|sion|cian|tial|cial)/;
+
+// A single consonant followed by a vowel, i.e. an open syllable (music, human)
+const OPEN_SYLLABLE = new RegExp(`^[bcdfgklmnpstvz][aeiouy]`);
+
+// Any vowel letter somewhere before the match
+const HAS_VOWEL = /[aeiouy]/;
+
+const END = /^\s/;
+
+// Spelling rules grouped by first letter, most specific first
+const SPELLING_RULES: Record<string, SpellingRule[]> = {
+  a: [
+    ['augh', null, /^t/, 'ɔː'],
+    ['au', null, null, 'ɔː'],
+    ['aw', null, null, 'ɔː'],
+    ['air', null, null, 'ɛ ɹ'],
+    ['ai', null, null, 'eɪ'],
+    ['ay', null, null, 'eɪ'],
+    ['are', null, /^(?:\s|s\s|d\s)/, 'ɛ ɹ'],
+    ['arr', null, null, 'ɛ ɹ'],
+    ['ar', /w$/, null, 'ɔː ɹ'],
+    ['ar', null, /^[aeiou]/, 'ɛ ɹ'],
+    ['ar', null, null, 'ɑː ɹ'],
+    ['all', null, /^(?:\s|s\s|ed\s|ing)/, 'ɔː l'],
+    ['alk', null, null, 'ɔː k'],
+    ['alm', null, null, 'ɑː m'],
+    ['alt', null, null, 'ɔː l t'],
+    ['a', /(?:w|qu)$/, null, 'ɑː'],
+    ['a', null, MAGIC_E, 'eɪ'],
+    ['a', FIRST_SYLLABLE, MAGIC_E_SUFFIX, 'eɪ'],
+    ['a', FIRST_SYLLABLE, OPEN_SYLLABLE_END, 'eɪ'],
+    ['a', null, BEFORE_TION, 'eɪ'],
+    ['a', null, /^(?:nge|ste)\s/, 'eɪ'],
+    ['a', HAS_VOWEL, END, 'ə'],
+    ['a', null, null, 'æ'],
+  ],
+  b: [
+    ['bb', null, null, 'b'],
+    ['b', null, null, 'b'],
+  ],
+  c: [
+    ['cch', null, null, 'k'],
+    ['cc', null, /^[eiy]/, 'k s'],
+    ['cc', null, null, 'k'],
+    ['chr', null, null, 'k ɹ'],
+    ['ch', /s$/, null, 'k'],
+    ['ch', null, null, 'ʧ'],
+    ['ck', null, null, 'k'],
+    ['cial', null, null, 'ʃ ə l'],
+    ['cian', null, null, 'ʃ ə n'],
+    ['cious', null, null, 'ʃ ə s'],
+    ['c', null, /^[eiy]/, 's'],
+    ['c', null, null, 'k'],
+  ],
+  d: [
+    ['dge', null, null, 'ʤ'],
+    ['dd', null, null, 'd'],
+    ['d', null, null, 'd'],
+  ],
+  e: [
+    ['eau', null, null, 'oʊ'],
+    ['eigh', null, null, 'eɪ'],
+    ['ear', null, /^(?:\s|s\s|ed\s|ing)/, 'ɪ ɹ'],
+    ['ear', null, new RegExp(`^${C}`), 'ɝ'],
+    ['eer', null, null, 'ɪ ɹ'],
+    ['ere', null, END, 'ɪ ɹ'],
+    ['ee', null, null, 'iː'],
+    ['ea', null, null, 'iː'],
+    ['ei', /c$/, null, 'iː'],
+    ['ei', null, null, 'eɪ'],
+    ['ey', null, END, 'i'],
+    ['ey', null, null, 'eɪ'],
+    ['eu', null, null, 'uː'],
+    ['ew', null, null, 'uː'],
+    ['err', null, null, 'ɛ ɹ'],
+    ['er', FIRST_SYLLABLE, /^[aeiou]/, 'ɛ ɹ'],
+    ['er', null, null, 'ɝ'],
+    // Past tense: wanted, stopped, played
+    ['ed', /[aeiouy].*[td]$/, END, 'ɪ d'],
+    ['ed', /[aeiouy].*(?:[pkfsx]|ch|sh)$/, END, 't'],
+    ['ed', HAS_VOWEL, END, 'd'],
+    // Plurals after sibilants: boxes, places, pages
+    ['e', /[aeiouy].*(?:[sxzcg]|ch|sh)$/, /^s\s/, 'ɪ'],
+    ['e', /[aeiouy]/, /^s\s/, ''],
+    // Monosyllables ending in e: he, me, we
+    ['e', FIRST_SYLLABLE, END, 'iː'],
+    // Silent e at the end of a word or before a suffix
+    ['e', /[aeiouy]/, END, ''],
+    ['e', /[aeiouy].*[^aeiouy]$/, /^(?:ly|ment|ful|less|ness)/, ''],
+    ['e', null, MAGIC_E, 'iː'],
+    ['e', FIRST_SYLLABLE, MAGIC_E_SUFFIX, 'iː'],
+    ['e', null, null, 'ɛ'],
+  ],
+  f: [
+    ['ff', null, null, 'f'],
+    ['f', null, null, 'f'],
+  ],
+  g: [
+    ['gg', null, null, 'ɡ'],
+    ['gh', /^\s$/, null, 'ɡ'],
+    ['gh', /[ao]u$/, END, 'f'],
+    ['gh', null, null, ''],
+    ['gn', /^\s$/, null, 'n'],
+    ['gn', null, END, 'n'],
+    ['g', null, /^[eiy]/, 'ʤ'],
+    ['g', null, null, 'ɡ'],
+  ],
+  h: [
+    ['h', /[^\s]$/, END, ''],
+    ['h', null, null, 'h'],
+  ],
+  i: [
+    ['igh', null, null, 'aɪ'],
+    ['ire', null, /^(?:\s|s\s|d\s)/, 'aɪ ɚ'],
+    ['ir', null, null, 'ɝ'],
+    ['ie', FIRST_SYLLABLE, /^(?:\s|s\s|d\s)/, 'aɪ'],
+    ['ie', null, /^(?:\s|s\s|d\s)/, 'i'],
+    ['ie', null, null, 'iː'],
+    ['ious', null, null, 'i ə s'],
+    ['ia', null, END, 'i ə'],
+    ['ian', null, END, 'i ə n'],
+    ['ind', null, /^(?:\s|s\s)/, 'aɪ n d'],
+    ['ild', null, END, 'aɪ l d'],
+    ['i', null, /^gn?\s/, 'aɪ'],
+    ['ize', HAS_VOWEL, /^(?:\s|s\s|d\s|r)/, 'aɪ z'],
+    ['i', HAS_VOWEL, /^ve\s/, 'ɪ'],
+    ['i', null, MAGIC_E, 'aɪ'],
+    ['i', FIRST_SYLLABLE, MAGIC_E_SUFFIX, 'aɪ'],
+    ['i', FIRST_SYLLABLE, OPEN_SYLLABLE_END, 'aɪ'],
+    ['i', FIRST_SYLLABLE, /^(?:\s|[aeo])/, 'aɪ'],
+    ['i', null, /^[aeou]/, 'i'],
+    ['i', null, null, 'ɪ'],
+  ],
+  j: [
+    ['j', null, null, 'ʤ'],
+  ],
+  k: [
+    ['kn', /^\s$/, null, 'n'],
+    ['k', null, null, 'k'],
+  ],
+  l: [
+    ['ll', null, null, 'l'],
+    ['le', /[aeiouy].*[^aeiouyl]$/, /^(?:\s|s\s|d\s)/, 'ə l'],
+    ['l', null, null, 'l'],
+  ],
+  m: [
+    ['mm', null, null, 'm'],
+    ['mb', null, /^(?:\s|s\s|ed|ing)/, 'm'],
+    ['m', null, null, 'm'],
+  ],
+  n: [
+    ['nn', null, null, 'n'],
+    ['ng', null, /^(?:\s|s\s|ed|ing|er|ly)/, 'ŋ'],
+    ['ng', null, null, 'ŋ ɡ'],
+    ['nk', null, null, 'ŋ k'],
+    ['n', null, null, 'n'],
+  ],
+  o: [
+    ['ough', null, /^t/, 'ɔː'],
+    ['ough', null, END, 'ʌ f'],
+    ['ough', null, null, 'oʊ'],
+    ['oa', null, null, 'oʊ'],
+    ['oo', null, /^k/, 'ʊ'],
+    ['oo', null, /^r/, 'ɔː'],
+    ['oo', null, null, 'uː'],
+    ['oi', null, null, 'ɔɪ'],
+    ['oy', null, null, 'ɔɪ'],
+    ['ou', null, /^r/, 'ɔː'],
+    ['ou', null, null, 'aʊ'],
+    ['own', /(?:d|t|br|cr|fr|cl|dr|g)$/, null, 'aʊ n'],
+    ['ow', /[^\s]{2}$/, /^(?:\s|s\s|ed|ing|er|n)/, 'oʊ'],
+    ['ow', null, null, 'aʊ'],
+    ['ore', null, /^(?:\s|s\s|d\s)/, 'ɔː ɹ'],
+    ['or', /w$/, null, 'ɝ'],
+    ['or', null, null, 'ɔː ɹ'],
+    ['o', null, MAGIC_E, 'oʊ'],
+    ['o', FIRST_SYLLABLE, MAGIC_E_SUFFIX, 'oʊ'],
+    ['o', FIRST_SYLLABLE, OPEN_SYLLABLE_END, 'oʊ'],
+    ['o', null, BEFORE_TION, 'oʊ'],
+    ['o', null, /^(?:\s|ld|lt|[aeiu])/, 'oʊ'],
+    ['o', null, null, 'ɑː'],
+  ],
+  p: [
+    ['ph', null, null, 'f'],
+    ['pp', null, null, 'p'],
+    ['ps', /^\s$/, null, 's'],
+    ['p', null, null, 'p'],
+  ],
+  q: [
+    ['qu', null, null, 'k w'],
+    ['q', null, null, 'k'],
+  ],
+  r: [
+    ['rr', null, null, 'ɹ'],
+    ['rh', null, null, 'ɹ'],
+    ['r', null, null, 'ɹ'],
+  ],
+  s: [
+    ['sch', null, null, 's k'],
+    ['sh', null, null, 'ʃ'],
+    ['ssion', null, null, 'ʃ ə n'],
+    ['sion', /[aeiouy]$/, null, 'ʒ ə n'],
+    ['sion', null, null, 'ʃ ə n'],
+    ['sure', /[aeiou]$/, null, 'ʒ ɚ'],
+    ['sure', null, null, 'ʃ ɚ'],
+    ['ss', null, null, 's'],
+    ['s', /[aeiouy]$/, /^[aeiouy]/, 'z'],
+    // A final s is voiced where it is a plural or verb ending (dogs, goes, photos), not in gas or bus
+    ['s', /(?:[bdglmnrvwy]|[aeiouy].*[eo])$/, END, 'z'],
+    ['s', null, null, 's'],
+  ],
+  t: [
+    ['tch', null, null, 'ʧ'],
+    ['th', null, /^er/, 'ð'],
+    ['th', null, null, 'θ'],
+    ['tion', null, null, 'ʃ ə n'],
+    ['tial', null, null, 'ʃ ə l'],
+    ['tious', null, null, 'ʃ ə s'],
+    ['tient', null, null, 'ʃ ə n t'],
+    ['ture', null, null, 'ʧ ɚ'],
+    ['tt', null, null, 't'],
+    ['t', null, null, 't'],
+  ],
+  u: [
+    ['ue', null, END, 'uː'],
+    ['ui', null, null, 'uː'],
+    ['ure', null, /^(?:\s|s\s|d\s)/, 'j ʊ ɹ'],
+    ['ur', null, /^[aeiou]/, 'j ʊ ɹ'],
+    ['ur', null, null, 'ɝ'],
+    ['u', /(?:r|l|j|ch|s)$/, MAGIC_E, 'uː'],
+    ['u', null, MAGIC_E, 'j uː'],
+    ['u', FIRST_SYLLABLE, MAGIC_E_SUFFIX, 'j uː'],
+    ['u', /(?:r|l|j|ch|s)$/, BEFORE_TION, 'uː'],
+    ['u', null, BEFORE_TION, 'j uː'],
+    ['u', /(?:^\s[^aeiouy]*|[pbcfmvh])$/, OPEN_SYLLABLE, 'j uː'],
+    ['u', null, END, 'uː'],
+    ['u', /[pb]$/, /^(?:sh|ll)/, 'ʊ'],
+    ['u', null, null, 'ʌ'],
+  ],
+  v: [
+    ['vv', null, null, 'v'],
+    ['v', null, null, 'v'],
+  ],
+  w: [
+    ['wh', null, /^o/, 'h'],
+    ['wh', null, null, 'w'],
+    ['wr', /^\s$/, null, 'ɹ'],
+    ['w', null, null, 'w'],
+  ],
+  x: [
+    ['x', /^\s$/, null, 'z'],
+    ['x', /^\se$/, /^[aeiouh]/, 'ɡ z'],
+    ['x', null, null, 'k s'],
+  ],
+  y: [
+    ['y', /^\s$/, null, 'j'],
+    ['y', FIRST_SYLLABLE, END, 'aɪ'],
+    ['y', null, /^(?:\s|s\s)/, 'i'],
+    ['y', null, MAGIC_E, 'aɪ'],
+    ['y', /[aeiou]$/, /^[aeiou]/, 'j'],
+    ['y', null, null, 'ɪ'],
+  ],
+  z: [
+    ['zz', null, null, 'z'],
+    ['z', null, null, 'z'],
+  ],
+};
+
+// Suffixes that fix stress a number of syllables from the end of the word
+const STRESS_SUFFIXES: [RegExp, number][] = [
+  [/(?:ee|eer|ese|ette|oon|ique|esque)$/, 1],
+  [/ically$/, 4],
+  [/(?:ical|ity|ify|logy|graphy|ometer|ious|ian|ia)$/, 3],
+  [/(?:tion|sion|cian|tial|cial|cious|tious|tient|ic|ics)$/, 2],
+];
+
+// Suffixes that never take stress, with the number of syllables they add
+const NEUTRAL_SUFFIXES: [RegExp, number][] = [
+  [/ing$/, 1],
+  [/ly$/, 1],
+  [/ness$/, 1],
+  [/ment$/, 1],
+  [/ful$/, 1],
+  [/less$/, 1],
+  [/[^aeiouy]ers?$/, 1],
+  [/[td]ed$/, 1],
+  [/(?:[sxz]|ch|sh|[cg]e)s$/, 1],
+];
+
+// Unstressed prefixes that push stress onto the following syllable in two-syllable words
+const UNSTRESSED_PREFIXES = /^(?:be|de|re|ex|un|dis|mis|en|em|for|per|sur|pur|com|con)/;
+
+// How unstressed vowels are reduced
+const REDUCED_VOWELS: Record<string, string> = {
+  'ʌ': 'ə',
+  'æ': 'ə',
+  'ɑː': 'ə',
+  'ɛ': 'ɪ',
+  'ɝ': 'ɚ',
+  'iː': 'i',
+  'uː': 'u',
+};
+
+/**
+ * Convert the letters of a word to phones using the spelling rules
+ * @param {string} word - Lowercase word containing only letters
+ * @returns {string[]} Phones, one IPA vowel or consonant per entry
+ */
+export function spellingToPhones(word: string): string[] {
+  const phones: string[] = [];
+  let i = 0;
+
+  while (i < word.length) {
+    const rules = SPELLING_RULES[word[i]] || [];
+    let matched = false;
+
+    for (const [match, left, right, output] of rules) {
+      if (!word.startsWith(match, i)) {
+        continue;
+      }
+      if (left && !left.test(' ' + word.slice(0, i))) {
+        continue;
+      }
+      if (right && !right.test(word.slice(i + match.length) + ' ')) {
+        continue;
+      }
+
+      if (output) {
+        phones.push(...output.split(' '));
+      }
+      i += match.length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      i++;
+    }
+  }
+
+  // A final -s after a voiceless consonant is voiceless too (cats, notes)
+  const last = phones.length - 1;
+  if (/[^s]s$/.test(word) && phones[last] === 'z' && VOICELESS.has(phones[last - 1])) {
+    phones[last] = 's';
+  }
+
+  return phones;
+}
+
+/**
+ * Split phones into syllables using the maximal onset principle
+ * @param {string[]} phones - Phones produced by spellingToPhones()
+ * @returns {Syllable[]} Syllables, all unstressed
+ */
+export function syllabify(phones: string[]): Syllable[] {
+  const syllables: Syllable[] = [];
+  let consonants: string[] = [];
+
+  for (const phone of phones) {
+    if (!VOWELS.has(phone)) {
+      consonants.push(phone);
+      continue;
+    }
+
+    if (syllables.length === 0) {
+      syllables.push({ onset: consonants, nucleus: phone, coda: [], stress: 0 });
+      consonants = [];
+      continue;
+    }
+
+    // Give the next syllable the longest legal onset, the rest closes the previous one
+    let split = consonants.length;
+    for (let start = 0; start < consonants.length; start++) {
+      const cluster = consonants.slice(start);
+      if (cluster.length === 1 ? cluster[0] !== 'ŋ' : LEGAL_ONSETS.has(cluster.join(' '))) {
+        split = start;
+        break;
+      }
+    }
+
+    syllables[syllables.length - 1].coda.push(...consonants.slice(0, split));
+    syllables.push({ onset: consonants.slice(split), nucleus: phone, coda: [], stress: 0 });
+    consonants = [];
+  }
+
+  if (syllables.length > 0) {
+    syllables[syllables.length - 1].coda.push(...consonants);
+  } else if (consonants.length > 0) {
+    // No vowel at all (e.g. "hmm"): treat the consonants as a single syllable
+    syllables.push({ onset: consonants, nucleus: '', coda: [], stress: 0 });
+  }
+
+  return syllables;
+}
+
+/**
+ * Check whether a syllable is heavy (long vowel or closed by a consonant)
+ * @param {Syllable} syllable - The syllable to check
+ * @returns {boolean} Whether the syllable is heavy
+ */
+function isHeavy(syllable: Syllable): boolean {
+  return LONG_VOWELS.has(syllable.nucleus) || syllable.coda.length > 0;
+}
+
+/**
+ * Predict which syllable of a word carries primary stress
+ * @param {string} word - The spelling of the word
+ * @param {Syllable[]} syllables - The syllables of the word
+ * @returns {number} Index of the stressed syllable
+ */
+export function predictStress(word: string, syllables: Syllable[]): number {
+  const count = syllables.length;
+  if (count <= 1) {
+    return 0;
+  }
+
+  for (const [suffix, fromEnd] of STRESS_SUFFIXES) {
+    if (suffix.test(word) && count >= fromEnd) {
+      return count - fromEnd;
+    }
+  }
+
+  // Ignore syllables added by stress-neutral suffixes and predict stress on the stem
+  let stemCount = count;
+  for (const [suffix, added] of NEUTRAL_SUFFIXES) {
+    const match = word.match(suffix);
+    if (match && stemCount - added >= 1 && HAS_VOWEL.test(word.slice(0, match.index))) {
+      stemCount -= added;
+      break;
+    }
+  }
+
+  if (stemCount === 1) {
+    return 0;
+  }
+  if (stemCount === 2) {
+    return UNSTRESSED_PREFIXES.test(word) ? 1 : 0;
+  }
+
+  // Three or more syllables: stress a heavy penultimate, otherwise the antepenultimate
+  return isHeavy(syllables[stemCount - 2]) ? stemCount - 2 : stemCount - 3;
+}
+
+/**
+ * Render syllables as an IPA string with stress marks and vowel reduction
+ * @param {Syllable[]} syllables - Syllables with stress assigned
+ * @returns {string} IPA phonemes
+ */
+export function syllablesToIpa(syllables: Syllable[]): string {
+  return syllables.map(({ onset, nucleus, coda, stress }) => {
+    let vowel = nucleus;
+    let finalConsonants = coda;
+
+    if (stress === 0) {
+      // An unstressed vowel followed by r becomes a single r-colored schwa (doctor, dollar)
+      if ((vowel === 'ɔː' || vowel === 'ɑː') && coda[0] === 'ɹ') {
+        vowel = 'ɚ';
+        finalConsonants = coda.slice(1);
+      } else {
+        vowel = REDUCED_VOWELS[vowel] || vowel;
+      }
+    }
+
+    const mark = stress === 1 ? 'ˈ' : stress === 2 ? 'ˌ' : '';
+    return onset.join('') + (vowel ? mark + vowel : '') + finalConsonants.join('');
+  }).join('');
+}
+
+/**
+ * Pronounce a word that has no dictionary entry
+ * @param {string} word - The word to pronounce
+ * @returns {string} IPA phonemes with stress marks
+ */
+export function letterToSound(word: string): string {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) {
+    return '';
+  }
+
+  const syllables = syllabify(spellingToPhones(letters));
+  if (syllables.length === 0) {
+    return '';
+  }
+
+  // Schwas produced by the spelling rules (-tion, -le) never take stress
+  let primary = predictStress(letters, syllables);
+  while (primary > 0 && syllables[primary].nucleus === 'ə') {
+    primary--;
+  }
+  syllables[primary].stress = 1;
+
+  // Secondary stress two syllables before the primary (information, education)
+  if (primary >= 2 && syllables[primary - 2].nucleus !== 'ə') {
+    syllables[primary - 2].stress = 2;
+  }
+
+  return syllablesToIpa(syllables);
+}
@@ -0,0 +1,186 @@
+import { CMUDICT_DATA } from './cmudict';
+
+/**
+ * English pronunciation lexicon.
+ *
+ * Entries are stored CMUdict-style: a lowercase word followed by its ARPAbet
+ * phones, with stress digits on the vowels (1 = primary, 2 = secondary,
+ * 0 = unstressed). The bundled CMUdict subset is parsed lazily on first
+ * lookup, together with the table below, and converted to the IPA symbols
+ * understood by the Kokoro tokenizer.
+ */
+
+// Words missing from CMUdict and preferred readings that replace its entry
+// (the verb "use", the present tense "read"). One entry per line: WORD PH ON ES
+const LEXICON_DATA = `
+actually AE1 K CH UW0 AH0 L IY0
+because B IH0 K AH1 Z
+brr B ER1
+close K L OW1 Z
+company K AH1 M P AH0 N IY0
+decide D IH0 S AY1 D
+ear IH1 R
+email IY1 M EY2 L
+etcetera EH2 T S EH1 T ER0 AH0
+euro Y UH1 R OW0
+government G AH1 V ER0 N M AH0 N T
+hear HH IH1 R
+hello HH EH0 L OW1
+here HH IH1 R
+hertz HH ER1 T S
+hmm HH AH1 M
+important IH0 M P AO1 R T AH0 N T
+in IH1 N
+incorporated IH0 N K AO1 R P ER0 EY2 T IH0 D
+inside IH0 N S AY1 D
+instead IH0 N S T EH1 D
+july JH UW0 L AY1
+kilobyte K IH1 L AH0 B AY2 T
+kilohertz K IH1 L AH0 HH ER2 T S
+kilometer K IH0 L AA1 M AH0 T ER0
+knowledge N AA1 L IH0 JH
+kokoro K OW1 K AH0 R OW0
+lead L IY1 D
+live L IH1 V
+nobody N OW1 B AA2 D IY0
+of AH0 V
+office AO1 F AH0 S
+ok OW2 K EY1
+onnx AA1 N EH0 K S
+psst P S T
+read R IY1 D
+record R EH1 K ER0 D
+runtime R AH1 N T AY2 M
+sometimes S AH1 M T AY2 M Z
+sunday S AH1 N D IY0
+thirty TH ER1 T IY0
+thursday TH ER1 Z D IY0
+use Y UW1 Z
+we're W IH1 R
+wind W IH1 N D
+`;
+
+// ARPAbet vowels to IPA, keyed by phone and stress digit
+const ARPABET_VOWELS: Record<string, { stressed: string; unstressed: string }> = {
+  AA: { stressed: 'ɑː', unstressed: 'ɑ' },
+  AE: { stressed: 'æ', unstressed: 'æ' },
+  AH: { stressed: 'ʌ', unstressed: 'ə' },
+  AO: { stressed: 'ɔː', unstressed: 'ɔ' },
+  AW: { stressed: 'aʊ', unstressed: 'aʊ' },
+  AY: { stressed: 'aɪ', unstressed: 'aɪ' },
+  EH: { stressed: 'ɛ', unstressed: 'ɛ' },
+  ER: { stressed: 'ɝ', unstressed: 'ɚ' },
+  EY: { stressed: 'eɪ', unstressed: 'eɪ' },
+  IH: { stressed: 'ɪ', unstressed: 'ɪ' },
+  IY: { stressed: 'iː', unstressed: 'i' },
+  OW: { stressed: 'oʊ', unstressed: 'oʊ' },
+  OY: { stressed: 'ɔɪ', unstressed: 'ɔɪ' },
+  UH: { stressed: 'ʊ', unstressed: 'ʊ' },
+  UW: { stressed: 'uː', unstressed: 'u' },
+};
+
+// ARPAbet consonants to IPA
+const ARPABET_CONSONANTS: Record<string, string> = {
+  B: 'b',
+  CH: 'ʧ',
+  D: 'd',
+  DH: 'ð',
+  F: 'f',
+  G: 'ɡ',
+  HH: 'h',
+  JH: 'ʤ',
+  K: 'k',
+  L: 'l',
+  M: 'm',
+  N: 'n',
+  NG: 'ŋ',
+  P: 'p',
+  R: 'ɹ',
+  S: 's',
+  SH: 'ʃ',
+  T: 't',
+  TH: 'θ',
+  V: 'v',
+  W: 'w',
+  Y: 'j',
+  Z: 'z',
+  ZH: 'ʒ',
+};
+
+let LEXICON: Map<string, string[]> | null = null;
+
+/**
+ * Parse the bundled lexicon data on first use
+ * @returns {Map<string, string[]>} Map of lowercase words to ARPAbet phones
+ */
+function getLexicon(): Map<string, string[]> {
+  if (LEXICON) {
+    return LEXICON;
+  }
+
+  LEXICON = new Map();
+  for (const line of `${CMUDICT_DATA}\n${LEXICON_DATA}`.split('\n')) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 2) {
+      continue;
+    }
+    LEXICON.set(parts[0], parts.slice(1));
+  }
+
+  return LEXICON;
+}
+
+/**
+ * Convert a sequence of ARPAbet phones to IPA
+ *
+ * Stress marks are placed directly before the stressed vowel, matching the
+ * convention used by the Kokoro training data (e.g. `tˈɛst`).
+ * @param {string[]} phones - ARPAbet phones, vowels carrying a stress digit
+ * @returns {string} IPA phoneme string
+ */
+export function arpabetToIpa(phones: string[]): string {
+  let ipa = '';
+
+  for (const phone of phones) {
+    const match = phone.match(/^([A-Z]+)([012])?$/);
+    if (!match) {
+      continue;
+    }
+
+    const [, base, stress] = match;
+    const vowel = ARPABET_VOWELS[base];
+
+    if (vowel) {
+      if (stress === '1') {
+        ipa += 'ˈ' + vowel.stressed;
+      } else if (stress === '2') {
+        ipa += 'ˌ' + vowel.stressed;
+      } else {
+        ipa += vowel.unstressed;
+      }
+    } else if (ARPABET_CONSONANTS[base]) {
+      ipa += ARPABET_CONSONANTS[base];
+    }
+  }
+
+  return ipa;
+}
+
+/**
+ * Look up the ARPAbet phones for a word
+ * @param {string} word - The word to look up (case-insensitive)
+ * @returns {string[] | null} ARPAbet phones, or null if the word is unknown
+ */
+export function lookupArpabet(word: string): string[] | null {
+  return getLexicon().get(word.toLowerCase()) || null;
+}
+
+/**
+ * Look up the IPA pronunciation of a word
+ * @param {string} word - The word to look up (case-insensitive)
+ * @returns {string | null} IPA phonemes, or null if the word is unknown
+ */
+export function lookupWord(word: string): string | null {
+  const phones = lookupArpabet(word);
+  return phones ? arpabetToIpa(phones) : null;
+}
@@ -0,0 +1,93 @@
+import type { LexiconSpan } from './userLexicon';
+
+/**
+ * Inline pronunciation markup.
+ *
+ * Follows the Kokoro/misaki convention `[Kokoro](/kˈoʊkəɹoʊ/)`: the bracketed
+ * text is spoken with the phonemes between the slashes, for that occurrence
+ * only. Brackets that are not followed by `(` are ordinary text, but anything
+ * that starts like markup and does not finish like it is an error rather
+ * than being read aloud.
+ */
+
+// The start of a markup link, "](" ends the text part
+const LINK_START = '](';
+
+/**
+ * Build an error describing malformed markup
+ * @param {string} text - The full input text
+ * @param {number} index - Position of the problem
+ * @param {string} problem - What is wrong
+ * @returns {Error} Error with the position and surrounding text
+ */
+function markupError(text: string, index: number, problem: string): Error {
+  const excerpt = text.slice(Math.max(0, index - 20), index + 20);
+  return new Error(`Malformed pronunciation markup at position ${index}: ${problem} (near "${excerpt}")`);
+}
+
+/**
+ * Whether text contains pronunciation markup
+ * @param {string} text - Input text
+ * @returns {boolean} Whether the text has any "[...](" sequence
+ */
+export function hasPronunciationMarkup(text: string): boolean {
+  return /\[[^\]]*\]\(/.test(text);
+}
+
+/**
+ * Split text into spans, giving marked-up words their pinned phonemes
+ * @param {string} text - Input text with optional `[word](/phonemes/)` markup
+ * @returns {LexiconSpan[]} Spans covering the text with the markup removed
+ */
+export function parsePronunciationMarkup(text: string): LexiconSpan[] {
+  const spans: LexiconSpan[] = [];
+  let plain = '';
+  let position = 0;
+
+  while (position < text.length) {
+    const linkIndex = text.indexOf(LINK_START, position);
+    if (linkIndex === -1) {
+      plain += text.slice(position);
+      break;
+    }
+
+    const openIndex = text.lastIndexOf('[', linkIndex);
+    if (openIndex < position) {
+      throw markupError(text, linkIndex, 'found "](" without an opening "["');
+    }
+
+    const word = text.slice(openIndex + 1, linkIndex);
+    if (word.includes(']') || word.trim() === '') {
+      throw markupError(text, openIndex, 'expected text between "[" and "]("');
+    }
+
+    const phonemeStart = linkIndex + LINK_START.length;
+    if (text[phonemeStart] !== '/') {
+      throw markupError(text, phonemeStart, 'expected "/phonemes/" after "]("');
+    }
+
+    const closeIndex = text.indexOf('/)', phonemeStart + 1);
+    if (closeIndex === -1) {
+      throw markupError(text, phonemeStart, 'missing closing "/)"');
+    }
+
+    const phonemes = text.slice(phonemeStart + 1, closeIndex).trim();
+    if (phonemes === '' || phonemes.includes('(') || phonemes.includes('[')) {
+      throw markupError(text, phonemeStart, 'expected phonemes between the slashes');
+    }
+
+    plain += text.slice(position, openIndex);
+    if (plain) {
+      spans.push({ text: plain, phonemes: null });
+      plain = '';
+    }
+    spans.push({ text: word, phonemes });
+    position = closeIndex + 2;
+  }
+
+  if (plain || spans.length === 0) {
+    spans.push({ text: plain, phonemes: null });
+  }
+
+  return spans;
+}
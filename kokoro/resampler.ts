@@ -0,0 +1,138 @@
+/**
+ * Band-limited sample rate conversion.
+ *
+ * Kokoro produces 24 kHz audio; telephony wants 8 or 16 kHz and video 48 kHz.
+ * The conversion ratio is reduced to L/M (upsample by L, downsample by M) and
+ * applied with a polyphase windowed-sinc filter: each output sample is the dot
+ * product of the nearby input samples with one of L precomputed filter phases.
+ * The cutoff sits just below the lower of the two Nyquist frequencies so that
+ * downsampling does not alias and upsampling does not image.
+ */
+
+// Zero crossings of the sinc on each side of the centre (filter length and steepness)
+const ZERO_CROSSINGS = 24;
+
+// Kaiser window shape, about 90 dB of stopband attenuation
+const KAISER_BETA = 9;
+
+// Passband edge as a fraction of the lower Nyquist frequency
+const ROLLOFF = 0.945;
+
+// Above this many phases the coefficients are computed per sample instead of tabled
+const MAX_TABLE_PHASES = 1024;
+
+const MIN_SAMPLE_RATE = 1000;
+const MAX_SAMPLE_RATE = 384000;
+
+/**
+ * Greatest common divisor of two positive integers
+ * @param {number} a - First integer
+ * @param {number} b - Second integer
+ * @returns {number} The greatest common divisor
+ */
+function gcd(a: number, b: number): number {
+  while (b) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Zeroth-order modified Bessel function of the first kind
+ * @param {number} x - Argument
+ * @returns {number} I0(x)
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const quarterSquare = (x * x) / 4;
+  for (let k = 1; term > sum * 1e-12; k++) {
+    term *= quarterSquare / (k * k);
+    sum += term;
+  }
+  return sum;
+}
+
+/**
+ * Check that a sample rate is usable
+ * @param {number} sampleRate - Rate in Hz
+ */
+export function validateSampleRate(sampleRate: number): void {
+  if (!Number.isInteger(sampleRate) || sampleRate < MIN_SAMPLE_RATE || sampleRate > MAX_SAMPLE_RATE) {
+    throw new Error(
+      `Invalid sample rate ${sampleRate}: must be a whole number of Hz between ${MIN_SAMPLE_RATE} and ${MAX_SAMPLE_RATE}`
+    );
+  }
+}
+
+/**
+ * Resample mono audio to another rate
+ * @param {Float32Array} samples - Input samples
+ * @param {number} fromRate - Input sample rate in Hz
+ * @param {number} toRate - Output sample rate in Hz
+ * @returns {Float32Array} Resampled audio (the input itself when the rates match)
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  validateSampleRate(fromRate);
+  validateSampleRate(toRate);
+  if (fromRate === toRate || samples.length === 0) {
+    return samples;
+  }
+
+  // Output sample n sits at input position n * M / L
+  const divisor = gcd(fromRate, toRate);
+  const up = toRate / divisor;
+  const down = fromRate / divisor;
+
+  // Cutoff in cycles per input sample (relative to the input Nyquist), and the
+  // kernel half-width in input samples
+  const cutoff = Math.min(1, up / down) * ROLLOFF;
+  const halfWidth = ZERO_CROSSINGS / cutoff;
+  const taps = Math.ceil(halfWidth);
+  const windowNorm = besselI0(KAISER_BETA);
+
+  // Kernel value at a distance (in input samples) from the output position
+  const kernel = (distance: number): number => {
+    const ratio = distance / halfWidth;
+    if (ratio <= -1 || ratio >= 1) {
+      return 0;
+    }
+    const x = Math.PI * cutoff * distance;
+    const sinc = x === 0 ? 1 : Math.sin(x) / x;
+    return cutoff * sinc * (besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / windowNorm);
+  };
+
+  // Coefficients for one phase: input samples base - taps + 1 ... base + taps,
+  // where the output position is base + phase / up
+  const phaseCoefficients = (phase: number): Float32Array => {
+    const coefficients = new Float32Array(2 * taps);
+    const fraction = phase / up;
+    for (let j = 0; j < coefficients.length; j++) {
+      coefficients[j] = kernel(fraction - (j - taps + 1));
+    }
+    return coefficients;
+  };
+
+  const table = up <= MAX_TABLE_PHASES ? Array.from({ length: up }, (_, phase) => phaseCoefficients(phase)) : null;
+
+  const outputLength = Math.ceil((samples.length * up) / down);
+  const output = new Float32Array(outputLength);
+  for (let n = 0; n < outputLength; n++) {
+    const position = n * down;
+    const base = Math.floor(position / up);
+    const phase = position - base * up;
+    const coefficients = table ? table[phase] : phaseCoefficients(phase);
+
+    // Samples outside the input are treated as silence
+    const first = base - taps + 1;
+    const start = Math.max(0, -first);
+    const end = Math.min(coefficients.length, samples.length - first);
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += samples[first + j] * coefficients[j];
+    }
+    output[n] = sum;
+  }
+
+  return output;
+}
@@ -0,0 +1,341 @@
+import { isKnownVoice, resolveVoiceId, getVoiceLanguage } from './voices';
+import { spellOut } from './abbreviations';
+import { numberToWords, digitsToWords, dateToWords, cardinalToWords } from './textNormalizer';
+
+/**
+ * SSML subset.
+ *
+ * Supports `<break>`, `<prosody rate>`, `<say-as interpret-as="characters |
+ * cardinal | date">`, `<phoneme ph>` (IPA), `<sub alias>` and `<voice name>`.
+ * The document is split into speech segments, each with its own voice and
+ * speed, and pauses; the engine synthesizes the segments separately and
+ * stitches the waveforms. Other tags are ignored and their text is spoken.
+ */
+
+export interface SsmlSpeechSegment {
+  type: 'speech';
+  // Text to speak, with <phoneme> content as [word](/phonemes/) markup
+  text: string;
+  voiceId: string;
+  speed: number;
+}
+
+export interface SsmlBreakSegment {
+  type: 'break';
+  // Pause length in milliseconds
+  duration: number;
+}
+
+export type SsmlSegment = SsmlSpeechSegment | SsmlBreakSegment;
+
+// An open element and the voice settings inside it
+interface SsmlFrame {
+  name: string;
+  voiceId: string;
+  speed: number;
+  attributes: Record<string, string>;
+  // Text collected for elements whose content is replaced (phoneme, sub, say-as)
+  captured: string | null;
+}
+
+// Pause lengths for <break strength>, in milliseconds
+const BREAK_STRENGTHS: Record<string, number> = {
+  'none': 0,
+  'x-weak': 100,
+  'weak': 200,
+  'medium': 400,
+  'strong': 700,
+  'x-strong': 1000,
+};
+
+// Speed multipliers for <prosody rate>
+const RATES: Record<string, number> = {
+  'x-slow': 0.5,
+  'slow': 0.75,
+  'medium': 1.0,
+  'default': 1.0,
+  'fast': 1.25,
+  'x-fast': 1.5,
+};
+
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 2.0;
+const MAX_BREAK = 10000;
+
+// Elements whose content is replaced rather than spoken as written
+const CAPTURING_ELEMENTS = new Set(['phoneme', 'sub', 'say-as']);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Comments, processing instructions, doctype, CDATA and tags
+const MARKUP_REGEX =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+
+const ATTRIBUTE_REGEX = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Whether text is an SSML document
+ * @param {string} text - Input text
+ * @returns {boolean} Whether the text starts with a <speak> element
+ */
+export function isSsml(text: string): boolean {
+  return /^\s*(?:<\?xml[^>]*\?>\s*)?<speak[\s>]/.test(text);
+}
+
+/**
+ * Replace XML character entities
+ * @param {string} text - Text with entities
+ * @returns {string} Decoded text
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Not a character, leave it as written
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Parse the attributes of a tag
+ * @param {string} source - The attribute part of the tag
+ * @returns {Record<string, string>} Attribute values by name
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Convert a <break> element to a pause length
+ * @param {Record<string, string>} attributes - The element attributes
+ * @returns {number} Pause length in milliseconds
+ */
+function breakDuration(attributes: Record<string, string>): number {
+  const time = attributes.time?.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+  if (time) {
+    const duration = parseFloat(time[1]) * (time[2].toLowerCase() === 's' ? 1000 : 1);
+    return Math.min(duration, MAX_BREAK);
+  }
+  return BREAK_STRENGTHS[attributes.strength] ?? BREAK_STRENGTHS.medium;
+}
+
+/**
+ * Convert a <prosody rate> value to a speed multiplier
+ * @param {string} rate - Rate keyword, percentage ("80%", "+10%") or number
+ * @returns {number} Multiplier for the current speed
+ */
+function rateMultiplier(rate: string): number {
+  const value = rate.trim().toLowerCase();
+  if (RATES[value] !== undefined) {
+    return RATES[value];
+  }
+
+  const percent = value.match(/^([+-]?)(\d+(?:\.\d+)?)%$/);
+  if (percent) {
+    const amount = parseFloat(percent[2]) / 100;
+    return percent[1] === '+' ? 1 + amount : percent[1] === '-' ? 1 - amount : amount;
+  }
+
+  const number = parseFloat(value);
+  if (/^\d+(?:\.\d+)?$/.test(value) && number > 0) {
+    return number;
+  }
+
+  console.warn(`Ignoring unsupported prosody rate "${rate}"`);
+  return 1;
+}
+
+/**
+ * Verbalize a <say-as interpret-as="date"> value
+ * @param {string} text - The date as written
+ * @param {string} format - Field order, e.g. "mdy", "dmy", "ymd", "my", "y"
+ * @param {string} language - Voice language code
+ * @returns {string} The spoken date, or the text unchanged if it cannot be read
+ */
+function sayAsDate(text: string, format: string | undefined, language: string): string {
+  const fields = text.trim().split(/[\s/.,-]+/).filter(Boolean);
+  const order = format || (/^\d{4}/.test(text.trim()) ? 'ymd' : language === 'en-gb' ? 'dmy' : 'mdy');
+  if (fields.length !== order.length || fields.some(field => !/^\d+$/.test(field))) {
+    return text;
+  }
+
+  const value = (field: string) => {
+    const index = order.indexOf(field);
+    return index === -1 ? 0 : parseInt(fields[index], 10);
+  };
+  const year = value('y');
+  const month = value('m');
+  const day = value('d');
+
+  if (month < 0 || month > 12 || day < 0 || day > 31) {
+    return text;
+  }
+  if (!month) {
+    return [day ? `the ${numberToWords(day, language)}` : '', year ? numberToWords(year, language) : '']
+      .filter(Boolean)
+      .join(' ');
+  }
+  return dateToWords(year, month, day, language);
+}
+
+/**
+ * Get the text that replaces a phoneme, sub or say-as element
+ * @param {SsmlFrame} frame - The closed element with its captured text
+ * @returns {string} Text to speak in place of the element
+ */
+function replacementText(frame: SsmlFrame): string {
+  const content = frame.captured || '';
+  const { attributes } = frame;
+  const language = getVoiceLanguage(frame.voiceId);
+
+  switch (frame.name) {
+    case 'phoneme': {
+      const alphabet = (attributes.alphabet || 'ipa').toLowerCase();
+      const word = content.replace(/[[\]()]/g, '').trim();
+      if (alphabet !== 'ipa' || !attributes.ph || !word) {
+        return content;
+      }
+      return `[${word}](/${attributes.ph.trim()}/)`;
+    }
+    case 'sub':
+      return attributes.alias ?? content;
+    case 'say-as': {
+      const interpretAs = (attributes['interpret-as'] || '').toLowerCase();
+      if (interpretAs === 'characters' || interpretAs === 'spell-out') {
+        return Array.from(content.replace(/\s+/g, ''))
+          .map(char => (/\d/.test(char) ? digitsToWords(char, language) : spellOut(char, language)))
+          .filter(Boolean)
+          .join(' ');
+      }
+      if (interpretAs === 'cardinal' || interpretAs === 'number') {
+        return cardinalToWords(content, language) ?? content;
+      }
+      if (interpretAs === 'date') {
+        return sayAsDate(content, attributes.format?.toLowerCase(), language);
+      }
+      return content;
+    }
+    default:
+      return content;
+  }
+}
+
+/**
+ * Parse an SSML document into speech and pause segments
+ * @param {string} ssml - The SSML document
+ * @param {string} voiceId - Voice to use outside <voice> elements
+ * @param {number} speed - Speed to use outside <prosody> elements
+ * @returns {SsmlSegment[]} Segments in order
+ */
+export function parseSsml(ssml: string, voiceId: string, speed: number): SsmlSegment[] {
+  const segments: SsmlSegment[] = [];
+  const stack: SsmlFrame[] = [];
+
+  const current = () => stack[stack.length - 1] || { voiceId, speed };
+
+  const addText = (text: string) => {
+    const capturing = [...stack].reverse().find(frame => frame.captured !== null);
+    if (capturing) {
+      capturing.captured += text;
+      return;
+    }
+
+    const { voiceId: segmentVoice, speed: segmentSpeed } = current();
+    const last = segments[segments.length - 1];
+    if (last && last.type === 'speech' && last.voiceId === segmentVoice && last.speed === segmentSpeed) {
+      last.text += text;
+    } else {
+      segments.push({ type: 'speech', text, voiceId: segmentVoice, speed: segmentSpeed });
+    }
+  };
+
+  const addBreak = (duration: number) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === 'break') {
+      last.duration = Math.min(last.duration + duration, MAX_BREAK);
+    } else {
+      segments.push({ type: 'break', duration });
+    }
+  };
+
+  let position = 0;
+  for (const match of ssml.matchAll(MARKUP_REGEX)) {
+    const [tag, cdata, closing, rawName, attributeSource, selfClosing] = match;
+    const index = match.index || 0;
+
+    addText(decodeEntities(ssml.slice(position, index)));
+    position = index + tag.length;
+
+    if (cdata !== undefined) {
+      addText(cdata);
+      continue;
+    }
+    if (!rawName) {
+      // Comments, processing instructions and doctype
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const attributes = parseAttributes(attributeSource || '');
+
+    if (closing) {
+      const frame = stack.pop();
+      if (!frame || frame.name !== name) {
+        throw new Error(`Invalid SSML: unexpected </${rawName}> at position ${index}`);
+      }
+      if (frame.captured !== null) {
+        addText(replacementText(frame));
+      }
+      if (name === 'p' || name === 's') {
+        addText(' ');
+      }
+      continue;
+    }
+
+    if (name === 'break') {
+      if (!stack.some(frame => frame.captured !== null)) {
+        addBreak(breakDuration(attributes));
+      }
+      if (!selfClosing) {
+        stack.push({ ...current(), name, attributes, captured: null });
+      }
+      continue;
+    }
+
+    if (selfClosing) {
+      // Empty unsupported elements such as <mark/> and <audio/>
+      continue;
+    }
+
+    const frame: SsmlFrame = { ...current(), name, attributes, captured: null };
+    if (name === 'voice') {
+      if (attributes.name && isKnownVoice(attributes.name)) {
+        // Saved blend names resolve to their spec
+        frame.voiceId = resolveVoiceId(attributes.name);
+      } else {
+        console.warn(`Ignoring unknown SSML voice "${attributes.name}"`);
+      }
+    } else if (name === 'prosody' && attributes.rate) {
+      frame.speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, frame.speed * rateMultiplier(attributes.rate)));
+    } else if (CAPTURING_ELEMENTS.has(name)) {
+      frame.captured = '';
+    }
+    stack.push(frame);
+  }
+
+  addText(decodeEntities(ssml.slice(position)));
+
+  if (stack.length > 0) {
+    throw new Error(`Invalid SSML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+
+  return segments
+    .map(segment => (segment.type === 'speech' ? { ...segment, text: segment.text.replace(/\s+/g, ' ').trim() } : segment))
+    .filter(segment => (segment.type === 'speech' ? /[A-Za-z0-9]/.test(segment.text) : segment.duration > 0));
+}
@@ -0,0 +1,206 @@
+import type { VoiceBlendSpec } from './voiceBlend';
+import { VOICE_PACK_ROWS } from './voicePack';
+
+/**
+ * Style control across a passage.
+ *
+ * The model is conditioned on one style vector per chunk, normally the row of
+ * the voice's table for the chunk's token count, so consecutive sentences of
+ * a passage get unrelated rows. These options choose the vector instead: a
+ * fixed row for every chunk, a ramp that interpolates from one style to
+ * another over the passage, and overrides for individual segments (the
+ * sentences the passage is split into, in order). A style names a voice,
+ * whose table supplies the vector, and optionally a row; pronunciation always
+ * follows the chunk's own voice.
+ */
+
+export type StyleCurve = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface StylePoint {
+  // Voice or blend whose style table to use, defaults to the chunk's voice
+  voice?: VoiceBlendSpec;
+  // Row of the table (0-509), defaults to the styleIndex option, then the chunk's token count
+  index?: number;
+}
+
+// A style given as just a voice or blend
+export type StyleSpec = StylePoint | string;
+
+export interface StyleRamp {
+  // Style at the start of the passage, defaults to the chunk's voice
+  from?: StyleSpec;
+  // Style at the end of the passage
+  to: StyleSpec;
+  // How the mix progresses with position, 'linear' by default
+  curve?: StyleCurve;
+}
+
+export interface StyleOptions {
+  // Row of the style table to use for every chunk
+  styleIndex?: number;
+  // Interpolate between two styles over the passage
+  styleRamp?: StyleRamp;
+  // Style of each segment, null or missing entries keep the default
+  segmentStyles?: (StyleSpec | null | undefined)[];
+}
+
+// A style with its voice resolved to a voice ID or canonical blend spec
+export interface ResolvedStylePoint {
+  voiceId: string | null;
+  index: number | null;
+}
+
+export interface ResolvedStyles {
+  index: number | null;
+  ramp: { from: ResolvedStylePoint; to: ResolvedStylePoint; curve: StyleCurve } | null;
+  segments: (ResolvedStylePoint | null)[];
+}
+
+// How a chunk's style vector is made: the from style, mixed with the to style if there is one
+export interface ChunkStyle {
+  from: ResolvedStylePoint;
+  to: ResolvedStylePoint | null;
+  // Share of the to style, 0-1
+  mix: number;
+}
+
+const CURVES: Record<StyleCurve, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t,
+  easeOut: t => t * (2 - t),
+  easeInOut: t => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t)),
+};
+
+/**
+ * Check a style row index
+ * @param {unknown} index - Row index
+ * @param {string} name - Option name for the error message
+ * @returns {number | null} The index, or null if none was given
+ */
+function checkIndex(index: unknown, name: string): number | null {
+  if (index === undefined || index === null) {
+    return null;
+  }
+  if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= VOICE_PACK_ROWS) {
+    throw new Error(`${name} must be an integer from 0 to ${VOICE_PACK_ROWS - 1}, got ${index}`);
+  }
+  return index;
+}
+
+/**
+ * Whether any style option is set
+ * @param {StyleOptions} options - Synthesis options
+ * @returns {boolean} Whether the options change the style vectors
+ */
+export function hasStyleOptions(options: StyleOptions): boolean {
+  return (
+    options.styleIndex !== undefined ||
+    options.styleRamp !== undefined ||
+    (options.segmentStyles !== undefined && options.segmentStyles.some(style => style != null))
+  );
+}
+
+/**
+ * Validate the style options and resolve the voices they name
+ * @param {StyleOptions} options - Synthesis options
+ * @param {(voice: VoiceBlendSpec) => Promise<string>} resolveVoice - Resolves a voice to the ID used for synthesis
+ * @returns {Promise<ResolvedStyles | null>} The resolved styles, or null if no style option is set
+ */
+export async function resolveStyles(
+  options: StyleOptions,
+  resolveVoice: (voice: VoiceBlendSpec) => Promise<string>
+): Promise<ResolvedStyles | null> {
+  if (!hasStyleOptions(options)) {
+    return null;
+  }
+
+  const resolvePoint = async (spec: StyleSpec, name: string): Promise<ResolvedStylePoint> => {
+    const point: StylePoint = typeof spec === 'string' ? { voice: spec } : spec;
+    if (!point || typeof point !== 'object') {
+      throw new Error(`${name} must be a voice or { voice, index }`);
+    }
+    return {
+      voiceId: point.voice === undefined ? null : await resolveVoice(point.voice),
+      index: checkIndex(point.index, `${name} index`),
+    };
+  };
+
+  let ramp: ResolvedStyles['ramp'] = null;
+  if (options.styleRamp !== undefined) {
+    const { from = {}, to, curve = 'linear' } = options.styleRamp;
+    if (to === undefined) {
+      throw new Error('styleRamp needs a to style');
+    }
+    if (!Object.prototype.hasOwnProperty.call(CURVES, curve)) {
+      throw new Error(`styleRamp curve must be one of ${Object.keys(CURVES).join(', ')}, got "${curve}"`);
+    }
+    ramp = {
+      from: await resolvePoint(from, 'styleRamp.from'),
+      to: await resolvePoint(to, 'styleRamp.to'),
+      curve,
+    };
+  }
+
+  const segments: (ResolvedStylePoint | null)[] = [];
+  for (const [i, style] of (options.segmentStyles ?? []).entries()) {
+    segments.push(style == null ? null : await resolvePoint(style, `segmentStyles[${i}]`));
+  }
+
+  return { index: checkIndex(options.styleIndex, 'styleIndex'), ramp, segments };
+}
+
+/**
+ * Work out the style of every chunk of a passage
+ * @param {{ phonemes: string }[]} chunks - Chunks in order; those without phonemes are pauses
+ * @param {ResolvedStyles} styles - Styles from resolveStyles()
+ * @returns {(ChunkStyle | null)[]} Style of each chunk, null for a pause
+ */
+export function planChunkStyles(chunks: { phonemes: string }[], styles: ResolvedStyles): (ChunkStyle | null)[] {
+  const withDefaultIndex = (point: ResolvedStylePoint): ResolvedStylePoint => ({
+    voiceId: point.voiceId,
+    index: point.index ?? styles.index,
+  });
+
+  // A ramp progresses with the position of each chunk's middle in the passage's phonemes
+  const lengths = chunks.map(chunk => Array.from(chunk.phonemes).length);
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  let position = 0;
+  let segment = 0;
+
+  return chunks.map((chunk, i) => {
+    const middle = position + lengths[i] / 2;
+    position += lengths[i];
+    if (!chunk.phonemes) {
+      return null;
+    }
+
+    const override = styles.segments[segment++];
+    if (override) {
+      return { from: withDefaultIndex(override), to: null, mix: 0 };
+    }
+    if (styles.ramp) {
+      const t = total > 0 ? middle / total : 0;
+      return {
+        from: withDefaultIndex(styles.ramp.from),
+        to: withDefaultIndex(styles.ramp.to),
+        mix: CURVES[styles.ramp.curve](t),
+      };
+    }
+    return { from: { voiceId: null, index: styles.index }, to: null, mix: 0 };
+  });
+}
+
+/**
+ * Interpolate between two style vectors
+ * @param {Float32Array} from - Vector at mix 0
+ * @param {Float32Array} to - Vector at mix 1
+ * @param {number} mix - Share of the to vector, 0-1
+ * @returns {Float32Array} The interpolated vector
+ */
+export function interpolateStyles(from: Float32Array, to: Float32Array, mix: number): Float32Array {
+  const result = new Float32Array(from.length);
+  for (let i = 0; i < from.length; i++) {
+    result[i] = from[i] + (to[i] - from[i]) * mix;
+  }
+  return result;
+}
@@ -0,0 +1,287 @@
+import * as FileSystem from 'expo-file-system';
+import { sha256Text } from './hash';
+import { encodeBase64, decodeBase64 } from './base64';
+import type { WordTiming } from './wordTiming';
+
+/**
+ * Content-addressed cache of synthesized speech.
+ *
+ * Opt-in: while enabled, waveforms are stored under a hash of what produced
+ * them (the normalized text and the phonemes, voice, speed and pause of every
+ * chunk) so repeated phrases skip inference. Entries are persisted in the
+ * cache directory across launches and evicted least recently used first once
+ * they exceed the size budget. The whole cache belongs to one generation (the
+ * model and user lexicon in use); a lookup or store under a different
+ * generation discards it.
+ */
+
+export interface SynthesisCacheOptions {
+  // Total size of the stored waveforms in bytes
+  maxBytes?: number;
+}
+
+export interface CachedSynthesis {
+  // Model output at 24 kHz, before any output processing
+  waveform: Float32Array;
+  numTokens: number;
+  // Word timings, if they were worked out when the entry was stored
+  timestamps: WordTiming[] | null;
+}
+
+export interface SynthesisCacheStats {
+  count: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry {
+  size: number;
+  lastUsed: number;
+  numTokens: number;
+  timestamps: WordTiming[] | null;
+}
+
+interface CacheIndex {
+  version: number;
+  generation: string | null;
+  entries: Record<string, CacheEntry>;
+}
+
+const CACHE_DIRECTORY = `${FileSystem.cacheDirectory}kokoro_synthesis/`;
+const INDEX_PATH = `${CACHE_DIRECTORY}index.json`;
+const INDEX_VERSION = 1;
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+let enabled = false;
+let maxBytes = DEFAULT_MAX_BYTES;
+let index: CacheIndex = { version: INDEX_VERSION, generation: null, entries: {} };
+let loadPromise: Promise<void> | null = null;
+let hits = 0;
+let misses = 0;
+
+/**
+ * Load the persisted index (only reads the file once)
+ * @returns {Promise<void>}
+ */
+function loadIndex(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const dirInfo = await FileSystem.getInfoAsync(CACHE_DIRECTORY);
+        if (!dirInfo.exists) {
+          await FileSystem.makeDirectoryAsync(CACHE_DIRECTORY, { intermediates: true });
+          return;
+        }
+        const fileInfo = await FileSystem.getInfoAsync(INDEX_PATH);
+        if (!fileInfo.exists) {
+          return;
+        }
+        const data = JSON.parse(await FileSystem.readAsStringAsync(INDEX_PATH));
+        if (data.version === INDEX_VERSION && data.entries && typeof data.entries === 'object') {
+          index = { version: INDEX_VERSION, generation: data.generation ?? null, entries: data.entries };
+        }
+      } catch (error) {
+        console.warn('Unable to load synthesis cache index', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Write the index to the cache directory
+ * @returns {Promise<void>}
+ */
+async function saveIndex(): Promise<void> {
+  await FileSystem.writeAsStringAsync(INDEX_PATH, JSON.stringify(index));
+}
+
+/**
+ * Path of an entry's waveform file
+ * @param {string} key - Cache key
+ * @returns {string} File URI
+ */
+function entryPath(key: string): string {
+  return `${CACHE_DIRECTORY}${key}.f32`;
+}
+
+/**
+ * Delete an entry and its waveform file
+ * @param {string} key - Cache key
+ * @returns {Promise<void>}
+ */
+async function removeEntry(key: string): Promise<void> {
+  delete index.entries[key];
+  await FileSystem.deleteAsync(entryPath(key), { idempotent: true }).catch(() => {});
+}
+
+/**
+ * Discard the cache if it belongs to another model or lexicon
+ * @param {string} generation - Identifies the model and lexicon in use
+ * @returns {Promise<void>}
+ */
+async function useGeneration(generation: string): Promise<void> {
+  await loadIndex();
+  if (index.generation === generation) {
+    return;
+  }
+  for (const key of Object.keys(index.entries)) {
+    await removeEntry(key);
+  }
+  index.generation = generation;
+  await saveIndex();
+}
+
+/**
+ * Evict the least recently used entries until the cache fits its budget
+ * @returns {Promise<void>}
+ */
+async function evictToBudget(): Promise<void> {
+  const entries = Object.entries(index.entries).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+  let total = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+  for (const [key, entry] of entries) {
+    if (total <= maxBytes) {
+      break;
+    }
+    total -= entry.size;
+    await removeEntry(key);
+  }
+  await saveIndex();
+}
+
+/**
+ * Turn the cache on, optionally changing its size budget
+ * @param {SynthesisCacheOptions} options - Cache options
+ * @returns {Promise<void>}
+ */
+export async function enableSynthesisCache(options: SynthesisCacheOptions = {}): Promise<void> {
+  if (options.maxBytes !== undefined) {
+    if (!(options.maxBytes >= 0)) {
+      throw new Error(`Synthesis cache maxBytes must be a non-negative number, got ${options.maxBytes}`);
+    }
+    maxBytes = options.maxBytes;
+  }
+  enabled = true;
+  await loadIndex();
+  await evictToBudget();
+}
+
+/**
+ * Turn the cache off; stored entries are kept for when it is turned back on
+ */
+export function disableSynthesisCache(): void {
+  enabled = false;
+}
+
+/**
+ * Whether the cache is on
+ * @returns {boolean} Whether lookups and stores are made
+ */
+export function isSynthesisCacheEnabled(): boolean {
+  return enabled;
+}
+
+/**
+ * Build the cache key for a synthesis request
+ * @param {unknown} parts - Everything that determines the waveform (JSON-serializable)
+ * @returns {string} The key
+ */
+export function synthesisCacheKey(parts: unknown): string {
+  return sha256Text(JSON.stringify(parts));
+}
+
+/**
+ * Look up a stored synthesis
+ * @param {string} key - Key from synthesisCacheKey()
+ * @param {string} generation - Identifies the model and lexicon in use
+ * @param {boolean} needTimestamps - Only accept an entry that has word timings
+ * @returns {Promise<CachedSynthesis | null>} The stored synthesis, or null on a miss
+ */
+export async function getCachedSynthesis(
+  key: string,
+  generation: string,
+  needTimestamps = false
+): Promise<CachedSynthesis | null> {
+  if (!enabled) {
+    return null;
+  }
+  await useGeneration(generation);
+
+  const entry = index.entries[key];
+  if (!entry || (needTimestamps && !entry.timestamps)) {
+    misses++;
+    return null;
+  }
+  try {
+    const bytes = decodeBase64(
+      await FileSystem.readAsStringAsync(entryPath(key), { encoding: FileSystem.EncodingType.Base64 })
+    );
+    const waveform = new Float32Array(bytes.buffer, 0, bytes.length >> 2);
+    entry.lastUsed = Date.now();
+    await saveIndex();
+    hits++;
+    return { waveform, numTokens: entry.numTokens, timestamps: entry.timestamps };
+  } catch (error) {
+    // The file was purged by the system, forget the entry
+    await removeEntry(key);
+    await saveIndex();
+    misses++;
+    return null;
+  }
+}
+
+/**
+ * Store a synthesis, evicting the least recently used entries to stay within budget
+ * @param {string} key - Key from synthesisCacheKey()
+ * @param {string} generation - Identifies the model and lexicon in use
+ * @param {CachedSynthesis} synthesis - The synthesis to store
+ * @returns {Promise<void>}
+ */
+export async function putCachedSynthesis(key: string, generation: string, synthesis: CachedSynthesis): Promise<void> {
+  if (!enabled || synthesis.waveform.byteLength > maxBytes) {
+    return;
+  }
+  await useGeneration(generation);
+
+  await FileSystem.writeAsStringAsync(entryPath(key), encodeBase64(synthesis.waveform), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  index.entries[key] = {
+    size: synthesis.waveform.byteLength,
+    lastUsed: Date.now(),
+    numTokens: synthesis.numTokens,
+    timestamps: synthesis.timestamps,
+  };
+  await evictToBudget();
+}
+
+/**
+ * Delete every stored synthesis
+ * @returns {Promise<void>}
+ */
+export async function clearSynthesisCache(): Promise<void> {
+  await loadIndex();
+  for (const key of Object.keys(index.entries)) {
+    await removeEntry(key);
+  }
+  hits = 0;
+  misses = 0;
+  await saveIndex();
+}
+
+/**
+ * Get the size of the cache and how often it was hit since launch
+ * @returns {Promise<SynthesisCacheStats>} Entry count, size in bytes, hits and misses
+ */
+export async function getSynthesisCacheStats(): Promise<SynthesisCacheStats> {
+  await loadIndex();
+  const entries = Object.values(index.entries);
+  return {
+    count: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    hits,
+    misses,
+  };
+}
@@ -0,0 +1,560 @@
+import { expandAbbreviations, spellOut } from './abbreviations';
+
+/**
+ * Text normalization: verbalizes numbers, dates, times, currencies,
+ * percentages, phone numbers and units so that the phonemizer only ever
+ * sees words.
+ *
+ * American and British reading conventions differ in a few places
+ * ("one hundred and five", "the fifth of December", day/month order),
+ * selected with the voice language ('en-us' or 'en-gb').
+ */
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen',
+  'seventeen', 'eighteen', 'nineteen',
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+// Irregular ordinals; the rest add -th (with -y becoming -ieth)
+const ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Currency symbols with their singular/plural unit and subunit names
+const CURRENCIES: Record<string, { unit: [string, string]; subunit: [string, string] | null }> = {
+  '$': { unit: ['dollar', 'dollars'], subunit: ['cent', 'cents'] },
+  '£': { unit: ['pound', 'pounds'], subunit: ['penny', 'pence'] },
+  '€': { unit: ['euro', 'euros'], subunit: ['cent', 'cents'] },
+  '¥': { unit: ['yen', 'yen'], subunit: null },
+};
+
+// Unit abbreviations with their singular/plural spoken forms
+const UNITS: Record<string, [string, string]> = {
+  mm: ['millimeter', 'millimeters'],
+  cm: ['centimeter', 'centimeters'],
+  m: ['meter', 'meters'],
+  km: ['kilometer', 'kilometers'],
+  mg: ['milligram', 'milligrams'],
+  g: ['gram', 'grams'],
+  kg: ['kilogram', 'kilograms'],
+  ml: ['milliliter', 'milliliters'],
+  l: ['liter', 'liters'],
+  lb: ['pound', 'pounds'],
+  lbs: ['pound', 'pounds'],
+  oz: ['ounce', 'ounces'],
+  in: ['inch', 'inches'],
+  ft: ['foot', 'feet'],
+  yd: ['yard', 'yards'],
+  mi: ['mile', 'miles'],
+  gal: ['gallon', 'gallons'],
+  mph: ['mile per hour', 'miles per hour'],
+  kph: ['kilometer per hour', 'kilometers per hour'],
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  kb: ['kilobyte', 'kilobytes'],
+  mb: ['megabyte', 'megabytes'],
+  gb: ['gigabyte', 'gigabytes'],
+  tb: ['terabyte', 'terabytes'],
+  hz: ['hertz', 'hertz'],
+  khz: ['kilohertz', 'kilohertz'],
+  mhz: ['megahertz', 'megahertz'],
+  ghz: ['gigahertz', 'gigahertz'],
+  w: ['watt', 'watts'],
+  kw: ['kilowatt', 'kilowatts'],
+  kwh: ['kilowatt hour', 'kilowatt hours'],
+  v: ['volt', 'volts'],
+  ms: ['millisecond', 'milliseconds'],
+  s: ['second', 'seconds'],
+  sec: ['second', 'seconds'],
+  min: ['minute', 'minutes'],
+  h: ['hour', 'hours'],
+  hr: ['hour', 'hours'],
+  hrs: ['hour', 'hours'],
+  '°c': ['degree Celsius', 'degrees Celsius'],
+  '°f': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  '°': ['degree', 'degrees'],
+};
+
+// Units that are ordinary words when separated from the number by a space
+const ATTACHED_ONLY_UNITS = new Set(['m', 'g', 'l', 'in', 's', 'h', 'w', 'v', 'mi']);
+
+// Words after which a four digit number is read as a year
+const YEAR_CONTEXT = /\b(?:in|since|by|from|until|till|year|circa|of)\s+$/i;
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+|\d+`;
+
+// am/pm with or without periods; a final period that also ends the sentence is left in place
+const MERIDIEM = String.raw`([AaPp])\.?[Mm]\b(?:\.(?!\s*$|\s+[A-Z]))?`;
+
+/**
+ * Whether British reading conventions apply
+ * @param {string} language - Voice language code
+ * @returns {boolean} Whether the language is British English
+ */
+function isBritish(language: string): boolean {
+  return language === 'en-gb';
+}
+
+/**
+ * Verbalize a number below one thousand
+ * @param {number} n - Number in the range 0-999
+ * @param {boolean} british - Whether to insert "and" after hundreds
+ * @returns {string} The number in words
+ */
+function hundredsToWords(n: number, british: boolean): string {
+  const words: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+
+  if (hundreds > 0) {
+    words.push(ONES[hundreds], 'hundred');
+    if (rest > 0 && british) {
+      words.push('and');
+    }
+  }
+
+  if (rest >= 20) {
+    words.push(TENS[Math.floor(rest / 10)] + (rest % 10 ? '-' + ONES[rest % 10] : ''));
+  } else if (rest > 0 || hundreds === 0) {
+    words.push(ONES[rest]);
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Verbalize a non-negative integer as a cardinal number
+ * @param {number} n - The number to verbalize
+ * @param {string} language - Voice language code
+ * @returns {string} The number in words, e.g. "two thousand and five"
+ */
+export function numberToWords(n: number, language = 'en-us'): string {
+  if (!Number.isSafeInteger(n) || n < 0) {
+    return digitsToWords(String(n), language);
+  }
+  if (n === 0) {
+    return ONES[0];
+  }
+
+  const british = isBritish(language);
+  const groups: number[] = [];
+  for (let rest = n; rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  // Too large for the named scales: read the digits
+  if (groups.length > SCALES.length) {
+    return digitsToWords(String(n), language);
+  }
+
+  const words: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    if (groups[i] === 0) {
+      continue;
+    }
+    // British English also says "and" before a final group below one hundred
+    if (i === 0 && british && groups[i] < 100 && n > 100) {
+      words.push('and');
+    }
+    words.push(hundredsToWords(groups[i], british));
+    if (SCALES[i]) {
+      words.push(SCALES[i]);
+    }
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Turn a cardinal in words into an ordinal in words
+ * @param {string} cardinal - e.g. "twenty-one"
+ * @returns {string} e.g. "twenty-first"
+ */
+function cardinalToOrdinal(cardinal: string): string {
+  return cardinal.replace(/([a-z]+)$/, (word) => {
+    if (ORDINALS[word]) {
+      return ORDINALS[word];
+    }
+    if (word.endsWith('y')) {
+      return word.slice(0, -1) + 'ieth';
+    }
+    return word + 'th';
+  });
+}
+
+/**
+ * Verbalize a positive integer as an ordinal number
+ * @param {number} n - The number to verbalize
+ * @param {string} language - Voice language code
+ * @returns {string} The ordinal in words, e.g. "twenty-second"
+ */
+export function ordinalToWords(n: number, language = 'en-us'): string {
+  return cardinalToOrdinal(numberToWords(n, language));
+}
+
+/**
+ * Read a string of digits one at a time
+ * @param {string} digits - The digits to read
+ * @param {string} language - Voice language code
+ * @returns {string} e.g. "five five five"
+ */
+export function digitsToWords(digits: string, language = 'en-us'): string {
+  const zero = isBritish(language) ? 'oh' : 'zero';
+  return digits
+    .replace(/\D/g, '')
+    .split('')
+    .map(digit => (digit === '0' ? zero : ONES[Number(digit)]))
+    .join(' ');
+}
+
+/**
+ * Verbalize a year, e.g. 1999 -> "nineteen ninety-nine", 2005 -> "two thousand five"
+ * @param {number} year - The year
+ * @param {string} language - Voice language code
+ * @returns {string} The year in words
+ */
+export function yearToWords(year: number, language = 'en-us'): string {
+  if (year < 1000 || year > 9999 || (year >= 2000 && year < 2010) || year % 1000 === 0) {
+    return numberToWords(year, language);
+  }
+
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (rest === 0) {
+    return `${numberToWords(century, language)} hundred`;
+  }
+  if (rest < 10) {
+    return `${numberToWords(century, language)} oh ${ONES[rest]}`;
+  }
+  return `${numberToWords(century, language)} ${numberToWords(rest, language)}`;
+}
+
+/**
+ * Verbalize a decimal number written with digits
+ * @param {string} value - e.g. "3.14" or "2,000"
+ * @param {string} language - Voice language code
+ * @returns {string} e.g. "three point one four"
+ */
+function decimalToWords(value: string, language: string): string {
+  const [whole, fraction] = value.replace(/,/g, '').split('.');
+  let words = '';
+  if (whole) {
+    // Past the safe integer range the value would be rounded, so read the digits as written
+    words = Number.isSafeInteger(Number(whole)) ? numberToWords(Number(whole), language) : digitsToWords(whole, language);
+  }
+  if (!fraction) {
+    return words;
+  }
+  const fractionWords = fraction.split('').map(digit => ONES[Number(digit)]).join(' ');
+  return `${words} point ${fractionWords}`.trim();
+}
+
+/**
+ * Verbalize a number written with digits, including its sign and decimals
+ * @param {string} value - e.g. "-3.5" or "2,000"
+ * @param {string} language - Voice language code
+ * @returns {string | null} e.g. "minus three point five", or null if the value is not a number
+ */
+export function cardinalToWords(value: string, language = 'en-us'): string | null {
+  const match = /^([+−-]?)([\d,]*)(\.\d+)?$/.exec(value.replace(/\s+/g, ''));
+  if (!match || !/\d/.test(match[2] + (match[3] || ''))) {
+    return null;
+  }
+  const words = decimalToWords(match[2] + (match[3] || ''), language);
+  return match[1] && match[1] !== '+' ? `minus ${words}` : words;
+}
+
+/**
+ * Verbalize a decade, e.g. 1990 -> "nineteen nineties", 80 -> "eighties"
+ * @param {number} decade - First year of the decade, with two or four digits
+ * @param {string} language - Voice language code
+ * @returns {string} The decade in words
+ */
+function decadeToWords(decade: number, language: string): string {
+  const words = decade < 100 ? numberToWords(decade, language) : yearToWords(decade, language);
+  return words.replace(/([a-z]+)$/, word => (word.endsWith('y') ? word.slice(0, -1) + 'ies' : word + 's'));
+}
+
+/**
+ * Verbalize a date
+ * @param {number} year - Full year, or 0 if absent
+ * @param {number} month - Month 1-12
+ * @param {number} day - Day of the month, or 0 if absent
+ * @param {string} language - Voice language code
+ * @returns {string} e.g. "December fifth, twenty twenty-five"
+ */
+export function dateToWords(year: number, month: number, day: number, language = 'en-us'): string {
+  const monthName = MONTHS[month - 1];
+  const dayWords = ordinalToWords(day, language);
+  const yearWords = year ? yearToWords(year, language) : '';
+
+  if (!day) {
+    return `${monthName}${yearWords ? ' ' + yearWords : ''}`;
+  }
+
+  if (isBritish(language)) {
+    return `the ${dayWords} of ${monthName}${yearWords ? ' ' + yearWords : ''}`;
+  }
+  return `${monthName} ${dayWords}${yearWords ? ', ' + yearWords : ''}`;
+}
+
+/**
+ * Verbalize a time of day
+ * @param {number} hours - Hours as written
+ * @param {number} minutes - Minutes
+ * @param {string | undefined} meridiem - "am"/"pm" marker if present
+ * @param {string} language - Voice language code
+ * @returns {string} e.g. "three fifteen pee em"
+ */
+function timeToWords(hours: number, minutes: number, meridiem: string | undefined, language: string): string {
+  let words = numberToWords(hours, language);
+
+  if (minutes === 0) {
+    words += meridiem ? '' : hours <= 12 ? " o'clock" : ' hundred';
+  } else if (minutes < 10) {
+    words += ` oh ${ONES[minutes]}`;
+  } else {
+    words += ` ${numberToWords(minutes, language)}`;
+  }
+
+  if (meridiem) {
+    words += meridiem.toLowerCase().startsWith('a') ? ' ay em' : ' pee em';
+  }
+
+  return words;
+}
+
+/**
+ * Verbalize an amount of money
+ * @param {string} symbol - Currency symbol
+ * @param {string} amount - Amount as written, e.g. "4.99"
+ * @param {string | undefined} scale - Optional scale word, e.g. "million"
+ * @param {string} language - Voice language code
+ * @returns {string} e.g. "four dollars and ninety-nine cents"
+ */
+function currencyToWords(symbol: string, amount: string, scale: string | undefined, language: string): string {
+  const currency = CURRENCIES[symbol];
+  const plainAmount = amount.replace(/,/g, '');
+
+  // "$3.5 million" is read as a decimal followed by the plural unit
+  if (scale) {
+    return `${decimalToWords(plainAmount, language)} ${scale.toLowerCase()} ${currency.unit[1]}`;
+  }
+
+  const [whole, fraction = ''] = plainAmount.split('.');
+  const units = Number(whole || '0');
+  const subunits = currency.subunit && fraction ? Number(fraction.padEnd(2, '0').slice(0, 2)) : 0;
+  const parts: string[] = [];
+
+  if (units > 0 || subunits === 0) {
+    parts.push(`${numberToWords(units, language)} ${currency.unit[units === 1 ? 0 : 1]}`);
+  }
+  if (subunits > 0 && currency.subunit) {
+    parts.push(`${numberToWords(subunits, language)} ${currency.subunit[subunits === 1 ? 0 : 1]}`);
+  }
+
+  return parts.join(' and ');
+}
+
+/**
+ * Verbalize the digits of a word that mixes letters and digits
+ * @param {string} digits - A run of digits, e.g. the 3 of "MP3"
+ * @param {string} language - Voice language code
+ * @returns {string} Short runs as a number ("x86" -> eighty-six), long or zero-padded ones digit by digit
+ */
+function alphanumericDigitsToWords(digits: string, language: string): string {
+  return digits.length > 4 || (digits.length > 1 && digits.startsWith('0'))
+    ? digitsToWords(digits, language)
+    : numberToWords(Number(digits), language);
+}
+
+/**
+ * Verbalize a phone number digit by digit, pausing between groups
+ * @param {string} phone - Phone number as written
+ * @param {string} language - Voice language code
+ * @returns {string} e.g. "five five five, one two three, four five six seven"
+ */
+function phoneNumberToWords(phone: string, language: string): string {
+  const groups = phone.match(/\d+/g) || [];
+  const words = groups.map(group => digitsToWords(group, language)).join(', ');
+  return phone.trim().startsWith('+') ? `plus ${words}` : words;
+}
+
+/**
+ * Verbalize numbers, dates, times, currency, percentages and units in text
+ * @param {string} text - The input text
+ * @param {string} language - Voice language code ('en-us' or 'en-gb')
+ * @returns {string} Text with all of the above spelled out as words
+ */
+export function verbalizeNumbers(text: string, language = 'en-us'): string {
+  const british = isBritish(language);
+
+  // Phone numbers: (555) 123-4567, 555-123-4567, +1 555 123 4567, 555-1234
+  text = text.replace(
+    /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+    match => phoneNumberToWords(match, language)
+  );
+  // Local numbers without an area code: 555-1234 (before ranges read it as "555 to 1234")
+  text = text.replace(/\b\d{3}-\d{4}\b/g, match => phoneNumberToWords(match, language));
+
+  // ISO dates: 2025-12-05
+  text = text.replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, year, month, day) => {
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+      return match;
+    }
+    return dateToWords(Number(year), Number(month), Number(day), language);
+  });
+
+  // Numeric dates: 12/05/2025 (month first in en-us, day first in en-gb)
+  text = text.replace(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4}|\d{2})\b/g, (match, first, second, yearText) => {
+    const [month, day] = british ? [Number(second), Number(first)] : [Number(first), Number(second)];
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+      return match;
+    }
+    const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+    return dateToWords(year, month, day, language);
+  });
+
+  // Written dates: December 5th, 2025 / Dec. 5 / 5th December 2025
+  const monthNames = [...MONTHS, ...MONTHS.map(month => month.slice(0, 3)), 'Sept'].join('|');
+  const monthPattern = String.raw`(${monthNames})\b\.?`;
+  const monthIndex = (name: string) => MONTHS.findIndex(month => month.startsWith(name.slice(0, 3))) + 1;
+  text = text.replace(
+    new RegExp(String.raw`\b${monthPattern}\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(\d{4})\b)?`, 'g'),
+    (match, month, day, year) => dateToWords(Number(year || 0), monthIndex(month), Number(day), language)
+  );
+  text = text.replace(
+    new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?${monthPattern}(?:,?\s+(\d{4})\b)?`, 'g'),
+    (match, day, month, year) => dateToWords(Number(year || 0), monthIndex(month), Number(day), language)
+  );
+
+  // Times: 3:15pm, 3:15 p.m., 15:30, 3pm
+  text = text.replace(new RegExp(String.raw`\b(\d{1,2}):(\d{2})(?:\s?${MERIDIEM})?`, 'g'), (match, hours, minutes, meridiem) => {
+    if (Number(hours) > 23 || Number(minutes) > 59) {
+      return match;
+    }
+    return timeToWords(Number(hours), Number(minutes), meridiem, language);
+  });
+  text = text.replace(new RegExp(String.raw`\b(\d{1,2})\s?${MERIDIEM}`, 'g'), (match, hours, meridiem) => {
+    return Number(hours) > 12 ? match : timeToWords(Number(hours), 0, meridiem, language);
+  });
+
+  // Currency: $4.99, £5.20, $.99, €3.5 million, 50¢
+  text = text.replace(
+    new RegExp(String.raw`([$£€¥])\s?(?=\.?\d)(${NUMBER})?(\.\d+)?(?:\s(million|billion|trillion|thousand)\b)?`, 'gi'),
+    (match, symbol, whole, fraction, scale) => currencyToWords(symbol, (whole || '') + (fraction || ''), scale, language)
+  );
+  text = text.replace(/\b(\d+)\s?¢/g, (match, cents) => `${numberToWords(Number(cents), language)} ${cents === '1' ? 'cent' : 'cents'}`);
+
+  // Percentages: 50%, 3.5 %
+  text = text.replace(
+    new RegExp(String.raw`(${NUMBER})(\.\d+)?\s?%`, 'g'),
+    (match, whole, fraction) => `${decimalToWords(whole + (fraction || ''), language)} percent`
+  );
+
+  // Decades, before units read the "s" as seconds: the 1990s, the '80s
+  text = text.replace(/['’]?\b([1-9]\d{2}0|[1-9]0)['’]?s\b/g, (match, decade) => decadeToWords(Number(decade), language));
+
+  // Units: 5km, 3.5 GB, 20°C
+  const unitKeys = Object.keys(UNITS)
+    .sort((a, b) => b.length - a.length)
+    .map(unit => unit.replace(/[/°]/g, '\\$&'))
+    .join('|');
+  text = text.replace(
+    new RegExp(String.raw`\b(${NUMBER})(\.\d+)?(\s?)(${unitKeys})(?![A-Za-z])`, 'gi'),
+    (match, whole, fraction, space, unit) => {
+      const key = unit.toLowerCase();
+      if (space && ATTACHED_ONLY_UNITS.has(key)) {
+        return match;
+      }
+      const value = whole + (fraction || '');
+      const [singular, plural] = UNITS[key];
+      return `${decimalToWords(value, language)} ${value === '1' ? singular : plural}`;
+    }
+  );
+
+  // Ordinals: 1st, 22nd, 3rd, 4th
+  text = text.replace(/\b(\d+)(st|nd|rd|th)\b/gi, (match, n) => ordinalToWords(Number(n), language));
+
+  // Years after a preposition: in 1999, since 2010
+  text = text.replace(/\b(1[1-9]\d{2}|20\d{2})\b(?!,\d)/g, (match, year, offset, whole) => {
+    return YEAR_CONTEXT.test(whole.slice(0, offset)) ? yearToWords(Number(year), language) : match;
+  });
+
+  // Simple fractions: 1/2, 3/4
+  text = text.replace(/\b(\d{1,2})\/(\d{1,2})\b/g, (match, numerator, denominator) => {
+    const top = Number(numerator);
+    const bottom = Number(denominator);
+    if (bottom < 2 || bottom > 10 || top >= bottom) {
+      return match;
+    }
+    const topWords = numberToWords(top, language);
+    let bottomWords = bottom === 2 ? 'half' : bottom === 4 ? 'quarter' : ordinalToWords(bottom, language);
+    if (top !== 1) {
+      bottomWords = bottom === 2 ? 'halves' : bottomWords + 's';
+    }
+    return `${topWords} ${bottomWords}`;
+  });
+
+  // Numbered items: #1
+  text = text.replace(/#(\d+)\b/g, (match, n) => `number ${numberToWords(Number(n), language)}`);
+
+  // Ranges: 10-20, 1990–1995
+  text = text.replace(/\b(\d+(?:\.\d+)?)\s?[-–]\s?(\d+(?:\.\d+)?)\b/g, '$1 to $2');
+
+  // Letters and digits in one word, each run read on its own: MP3, 4K, H2O, GPT-4o
+  text = text.replace(/\b(?=[\w-]*[A-Za-z])(?=[\w-]*\d)[A-Za-z0-9]+(?:-[A-Za-z0-9]+)*\b/g, match =>
+    (match.match(/[A-Za-z]+|\d+/g) || [])
+      .map(run => {
+        if (/\d/.test(run)) {
+          return alphanumericDigitsToWords(run, language);
+        }
+        // A lone letter is a letter, not the word "a"
+        return run.length === 1 ? spellOut(run, language) : expandAbbreviations(run, language);
+      })
+      .join(' ')
+  );
+
+  // Version numbers and IP addresses, one number per part: 1.2.3, 192.168.0.1
+  text = text.replace(/\b\d+(?:\.\d+){2,}\b/g, match =>
+    match
+      .split('.')
+      .map(part => decimalToWords(part, language))
+      .join(' point ')
+  );
+
+  // Negative numbers, decimals and cardinals: -5, 3.14, .5, 2,000,000
+  text = text.replace(
+    new RegExp(String.raw`(^|[^\w.])-(?=\d)`, 'g'),
+    (match, before) => `${before}minus `
+  );
+  text = text.replace(
+    new RegExp(String.raw`(${NUMBER})?\.(\d+)\b|\b(${NUMBER})\b`, 'g'),
+    (match, whole, fraction, integer) => {
+      if (integer !== undefined) {
+        return decimalToWords(integer, language);
+      }
+      return decimalToWords(`${whole || ''}.${fraction}`, language);
+    }
+  );
+
+  // Symbols
+  text = text.replace(/\s?&\s?/g, ' and ').replace(/\s?\+\s?(?=\w)/g, ' plus ').replace(/\s=\s/g, ' equals ');
+
+  return text;
+}
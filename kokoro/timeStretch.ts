@@ -0,0 +1,143 @@
+import { resample } from './resampler';
+
+/**
+ * Time stretching and pitch shifting of synthesized speech.
+ *
+ * Time stretching uses WSOLA (waveform similarity overlap-add): Hann-windowed
+ * frames are copied from the input at a different hop than they are added to
+ * the output, and each frame is nudged within a small tolerance to the
+ * position whose waveform best continues the previous frame, which keeps the
+ * pitch periods aligned instead of smearing them. Pitch shifting resamples
+ * the waveform (changing pitch and duration together) and then stretches it
+ * back to the original length.
+ */
+
+// Frame length and how far a frame may move to line up with the last one, in seconds
+const FRAME_LENGTH = 0.03;
+const SEARCH_TOLERANCE = 0.008;
+
+const MIN_STRETCH = 0.25;
+const MAX_STRETCH = 4;
+const MAX_SEMITONES = 12;
+
+// Rates used for pitch shifting are rounded to this step (about 2 cents at
+// 24 kHz) so the resampler's polyphase table stays small
+const PITCH_RATE_STEP = 25;
+
+/**
+ * Pick the offset from the nominal frame position that best continues the output
+ * @param {Float32Array} samples - Input samples
+ * @param {number} nominal - Nominal frame start in the input
+ * @param {number} natural - Where the previous frame would naturally continue
+ * @param {number} overlap - Number of samples that overlap the previous frame
+ * @param {number} tolerance - Largest offset to try, in samples
+ * @returns {number} The frame start to use
+ */
+function bestFrameStart(samples: Float32Array, nominal: number, natural: number, overlap: number, tolerance: number): number {
+  const first = Math.max(0, nominal - tolerance);
+  const last = Math.min(samples.length - overlap, nominal + tolerance);
+  if (natural < 0 || natural + overlap > samples.length || last < first) {
+    return Math.max(0, Math.min(nominal, samples.length - 1));
+  }
+
+  // Correlate every other sample, which is plenty for speech and halves the cost
+  let best = nominal;
+  let bestScore = -Infinity;
+  for (let start = first; start <= last; start++) {
+    let score = 0;
+    for (let i = 0; i < overlap; i += 2) {
+      score += samples[start + i] * samples[natural + i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = start;
+    }
+  }
+  return best;
+}
+
+/**
+ * Change the duration of audio without changing its pitch
+ * @param {Float32Array} samples - Input samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {number} factor - Duration multiplier: 2 is twice as long (slower), 0.5 half as long
+ * @returns {Float32Array} Stretched samples
+ */
+export function timeStretch(samples: Float32Array, sampleRate: number, factor: number): Float32Array {
+  if (!(factor >= MIN_STRETCH && factor <= MAX_STRETCH)) {
+    throw new Error(`Time stretch factor must be between ${MIN_STRETCH} and ${MAX_STRETCH}, got ${factor}`);
+  }
+  if (factor === 1 || samples.length === 0) {
+    return samples;
+  }
+
+  const frameLength = 2 * Math.round((sampleRate * FRAME_LENGTH) / 2);
+  const synthesisHop = frameLength / 2;
+  const analysisHop = synthesisHop / factor;
+  const tolerance = Math.round(sampleRate * SEARCH_TOLERANCE);
+
+  // Periodic Hann window: at 50% overlap the windows sum to one
+  const window = new Float32Array(frameLength);
+  for (let i = 0; i < frameLength; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength);
+  }
+
+  const outputLength = Math.round(samples.length * factor);
+  const output = new Float32Array(outputLength + frameLength);
+  const weight = new Float32Array(outputLength + frameLength);
+
+  let previousStart = -1;
+  for (let frame = 0; frame * synthesisHop < outputLength; frame++) {
+    const nominal = Math.round(frame * analysisHop);
+    const start =
+      previousStart < 0
+        ? nominal
+        : bestFrameStart(samples, nominal, previousStart + synthesisHop, frameLength - synthesisHop, tolerance);
+
+    const outputStart = frame * synthesisHop;
+    for (let i = 0; i < frameLength && start + i < samples.length; i++) {
+      output[outputStart + i] += samples[start + i] * window[i];
+      weight[outputStart + i] += window[i];
+    }
+    previousStart = start;
+  }
+
+  // Undo the window where the frames do not sum to one (the edges)
+  const stretched = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    stretched[i] = weight[i] > 1e-3 ? output[i] / weight[i] : 0;
+  }
+  return stretched;
+}
+
+/**
+ * Change the pitch of audio without changing its duration
+ * @param {Float32Array} samples - Input samples
+ * @param {number} sampleRate - Sample rate in Hz
+ * @param {number} semitones - Shift in semitones (positive is higher)
+ * @param {number} stretch - Duration multiplier to apply in the same pass (see timeStretch)
+ * @returns {Float32Array} Shifted samples
+ */
+export function pitchShift(samples: Float32Array, sampleRate: number, semitones: number, stretch = 1): Float32Array {
+  if (!(Math.abs(semitones) <= MAX_SEMITONES)) {
+    throw new Error(`Pitch shift must be between -${MAX_SEMITONES} and ${MAX_SEMITONES} semitones, got ${semitones}`);
+  }
+  if (!(stretch >= MIN_STRETCH && stretch <= MAX_STRETCH)) {
+    throw new Error(`Time stretch factor must be between ${MIN_STRETCH} and ${MAX_STRETCH}, got ${stretch}`);
+  }
+  if (semitones === 0 || samples.length === 0) {
+    return timeStretch(samples, sampleRate, stretch);
+  }
+
+  // Reading the audio as if it were recorded at a higher rate raises the pitch
+  // and shortens it by the same ratio; the stretch restores the duration
+  const sourceRate = Math.round((sampleRate * 2 ** (semitones / 12)) / PITCH_RATE_STEP) * PITCH_RATE_STEP;
+  const shifted = resample(samples, sourceRate, sampleRate);
+  const restore = samples.length / shifted.length;
+  if (restore * stretch >= MIN_STRETCH && restore * stretch <= MAX_STRETCH) {
+    return timeStretch(shifted, sampleRate, restore * stretch);
+  }
+  // Beyond the range of a single stretch (e.g. an octave up and three times as long), restore the
+  // duration and apply the stretch in separate passes
+  return timeStretch(timeStretch(shifted, sampleRate, restore), sampleRate, stretch);
+}
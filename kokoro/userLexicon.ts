@@ -0,0 +1,291 @@
+import * as FileSystem from 'expo-file-system';
+
+/**
+ * User pronunciation lexicon.
+ *
+ * Entries map a word (or a regular expression over the text) to a phoneme
+ * string and are consulted before normalization and the built-in
+ * pronunciation rules, so "GPT-4" or "Nguyen" can be pinned exactly. An
+ * entry can be scoped to one voice language ('en-us' or 'en-gb'); scoped
+ * entries win over unscoped ones. The lexicon is persisted as JSON in the
+ * document directory.
+ */
+
+export interface UserLexiconEntry {
+  // The word or phrase to match (case-insensitive, whole words only)
+  word?: string;
+  // A regular expression source to match instead of a word
+  pattern?: string;
+  // Flags for the pattern (defaults to case-insensitive)
+  flags?: string;
+  // The phoneme string to use for the match
+  phonemes: string;
+  // Only apply the entry for voices of this language
+  language?: string;
+}
+
+export interface LexiconSpan {
+  // The original text of the span
+  text: string;
+  // The pinned phonemes, or null if the span goes through normal phonemization
+  phonemes: string | null;
+}
+
+const LEXICON_PATH = `${FileSystem.documentDirectory}user_lexicon.json`;
+
+// Entries in the order they were added
+let entries: UserLexiconEntry[] = [];
+let loadPromise: Promise<void> | null = null;
+let revision = 0;
+// Set when a lexicon file that could not be read is still in place, so saving would overwrite it
+let unreadablePath: string | null = null;
+
+/**
+ * Escape a string for use inside a regular expression
+ * @param {string} text - Literal text
+ * @returns {string} Escaped regular expression source
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether two entries have the same key (word or pattern, and language)
+ * @param {UserLexiconEntry} a - First entry
+ * @param {UserLexiconEntry} b - Second entry
+ * @returns {boolean} Whether the entries would match the same text
+ */
+function sameKey(a: UserLexiconEntry, b: UserLexiconEntry): boolean {
+  return (
+    (a.language || null) === (b.language || null) &&
+    (a.word !== undefined ? a.word.toLowerCase() === b.word?.toLowerCase() : a.pattern === b.pattern)
+  );
+}
+
+/**
+ * Check an entry and copy the fields that belong to it
+ * @param {UserLexiconEntry} entry - Entry to validate
+ * @returns {UserLexiconEntry} Normalized entry
+ */
+function validateEntry(entry: UserLexiconEntry): UserLexiconEntry {
+  if (!entry || typeof entry !== 'object') {
+    throw new Error('Lexicon entry must be an object');
+  }
+  const hasWord = typeof entry.word === 'string' && entry.word.trim() !== '';
+  const hasPattern = typeof entry.pattern === 'string' && entry.pattern !== '';
+  if (hasWord === hasPattern) {
+    throw new Error('Lexicon entry must have exactly one of "word" or "pattern"');
+  }
+  if (typeof entry.phonemes !== 'string' || entry.phonemes.trim() === '') {
+    throw new Error(`Lexicon entry for "${entry.word ?? entry.pattern}" has no phonemes`);
+  }
+  if (hasPattern) {
+    try {
+      new RegExp(entry.pattern!, entry.flags ?? 'i');
+    } catch (error) {
+      throw new Error(`Invalid lexicon pattern /${entry.pattern}/: ${(error as Error).message}`);
+    }
+  }
+
+  const normalized: UserLexiconEntry = { phonemes: entry.phonemes.trim() };
+  if (hasWord) {
+    normalized.word = entry.word!.trim();
+  } else {
+    normalized.pattern = entry.pattern;
+    if (entry.flags !== undefined) {
+      normalized.flags = entry.flags;
+    }
+  }
+  if (entry.language) {
+    normalized.language = entry.language.toLowerCase();
+  }
+  return normalized;
+}
+
+/**
+ * Build the global regular expression that finds an entry in text
+ * @param {UserLexiconEntry} entry - Lexicon entry
+ * @returns {RegExp} Regular expression whose second group is the match
+ */
+function entryRegExp(entry: UserLexiconEntry): RegExp {
+  const source = entry.word !== undefined ? escapeRegExp(entry.word) : entry.pattern!;
+  const flags = entry.word !== undefined ? 'i' : (entry.flags ?? 'i');
+  // Matches must not start or end inside a word
+  return new RegExp(`(^|[^A-Za-z0-9])(${source})(?![A-Za-z0-9])`, flags.replace('g', '') + 'g');
+}
+
+/**
+ * Write the lexicon to the document directory
+ * @returns {Promise<void>}
+ */
+async function saveUserLexicon(): Promise<void> {
+  if (unreadablePath) {
+    throw new Error(`The user lexicon at ${unreadablePath} could not be read; fix or delete it before changing the lexicon`);
+  }
+  await FileSystem.writeAsStringAsync(LEXICON_PATH, JSON.stringify({ version: 1, entries }));
+}
+
+/**
+ * Load the persisted lexicon (only reads the file once)
+ * @returns {Promise<void>}
+ */
+export function loadUserLexicon(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const fileInfo = await FileSystem.getInfoAsync(LEXICON_PATH);
+        if (!fileInfo.exists) {
+          return;
+        }
+        const data = JSON.parse(await FileSystem.readAsStringAsync(LEXICON_PATH));
+        const loaded = (data.entries || []).map(validateEntry);
+        // Entries added before the file finished loading take precedence
+        entries = [...loaded.filter((entry: UserLexiconEntry) => !entries.some(e => sameKey(e, entry))), ...entries];
+        revision++;
+      } catch (error) {
+        // Keep the user's file rather than overwriting it on the next save
+        const corruptPath = `${LEXICON_PATH}.${Date.now()}.corrupt`;
+        try {
+          await FileSystem.moveAsync({ from: LEXICON_PATH, to: corruptPath });
+          console.warn(`Unable to load user lexicon, moved it to ${corruptPath}`, error);
+        } catch (moveError) {
+          unreadablePath = LEXICON_PATH;
+          console.warn('Unable to load user lexicon or move it aside', error, moveError);
+        }
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Add or replace a lexicon entry and persist the lexicon
+ * @param {UserLexiconEntry} entry - The entry to add
+ * @returns {Promise<void>}
+ */
+export async function addUserLexiconEntry(entry: UserLexiconEntry): Promise<void> {
+  await loadUserLexicon();
+  const normalized = validateEntry(entry);
+  entries = [...entries.filter(e => !sameKey(e, normalized)), normalized];
+  revision++;
+  await saveUserLexicon();
+}
+
+/**
+ * Remove the entries for a word or pattern and persist the lexicon
+ * @param {string} wordOrPattern - The word or pattern source of the entry
+ * @param {string} language - Only remove the entry scoped to this language;
+ * all entries for the word are removed when omitted
+ * @returns {Promise<boolean>} Whether any entry was removed
+ */
+export async function removeUserLexiconEntry(wordOrPattern: string, language?: string): Promise<boolean> {
+  await loadUserLexicon();
+  const remaining = entries.filter(
+    entry =>
+      !(
+        (entry.word?.toLowerCase() === wordOrPattern.toLowerCase() || entry.pattern === wordOrPattern) &&
+        (language === undefined || (entry.language || null) === (language.toLowerCase() || null))
+      )
+  );
+  if (remaining.length === entries.length) {
+    return false;
+  }
+  entries = remaining;
+  revision++;
+  await saveUserLexicon();
+  return true;
+}
+
+/**
+ * Get a copy of all lexicon entries
+ * @returns {UserLexiconEntry[]} The entries in the order they were added
+ */
+export function getUserLexiconEntries(): UserLexiconEntry[] {
+  return entries.map(entry => ({ ...entry }));
+}
+
+/**
+ * Import lexicon entries and persist the lexicon
+ * @param {UserLexiconEntry[]} imported - Entries to import (all are validated before any is applied)
+ * @param {boolean} replace - Whether to discard the existing entries first
+ * @returns {Promise<number>} The number of entries imported
+ */
+export async function importUserLexiconEntries(imported: UserLexiconEntry[], replace = false): Promise<number> {
+  if (!Array.isArray(imported)) {
+    throw new Error('Lexicon import must be an array of entries');
+  }
+  await loadUserLexicon();
+  const normalized = imported.map(validateEntry);
+  let updated = replace ? [] : entries;
+  for (const entry of normalized) {
+    updated = [...updated.filter(e => !sameKey(e, entry)), entry];
+  }
+  entries = updated;
+  revision++;
+  await saveUserLexicon();
+  return normalized.length;
+}
+
+/**
+ * Get a counter that changes whenever the lexicon changes
+ * @returns {number} The lexicon revision
+ */
+export function getUserLexiconRevision(): number {
+  return revision;
+}
+
+/**
+ * Split text into spans pinned by the user lexicon and spans left for normal phonemization
+ * @param {string} text - Raw input text
+ * @param {string} language - Voice language code
+ * @returns {LexiconSpan[]} Spans covering the whole text in order
+ */
+export function splitByUserLexicon(text: string, language = 'en-us'): LexiconSpan[] {
+  const applicable = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !entry.language || entry.language === language);
+  if (applicable.length === 0) {
+    return [{ text, phonemes: null }];
+  }
+
+  // Language-scoped entries first, then words before patterns, then the most recently added
+  const priority = ({ entry, index }: { entry: UserLexiconEntry; index: number }) =>
+    (entry.language ? 0 : 2) + (entry.word !== undefined ? 0 : 1) - index / (entries.length + 1);
+
+  const matches: { start: number; end: number; phonemes: string; priority: number }[] = [];
+  for (const candidate of applicable) {
+    for (const match of text.matchAll(entryRegExp(candidate.entry))) {
+      if (!match[2]) {
+        continue;
+      }
+      const start = (match.index || 0) + match[1].length;
+      matches.push({
+        start,
+        end: start + match[2].length,
+        phonemes: candidate.entry.phonemes,
+        priority: priority(candidate),
+      });
+    }
+  }
+
+  // Earliest match wins, then the longest, then the highest priority
+  matches.sort((a, b) => a.start - b.start || b.end - a.end || a.priority - b.priority);
+
+  const spans: LexiconSpan[] = [];
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) {
+      continue;
+    }
+    if (match.start > position) {
+      spans.push({ text: text.slice(position, match.start), phonemes: null });
+    }
+    spans.push({ text: text.slice(match.start, match.end), phonemes: match.phonemes });
+    position = match.end;
+  }
+  if (position < text.length || spans.length === 0) {
+    spans.push({ text: text.slice(position), phonemes: null });
+  }
+
+  return spans;
+}
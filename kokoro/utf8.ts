@@ -0,0 +1,59 @@
+/**
+ * UTF-8 encoding without TextEncoder/TextDecoder, which Hermes does not
+ * provide on every version.
+ */
+
+/**
+ * Encode a string as UTF-8
+ * @param {string} text - Text to encode
+ * @returns {number[]} UTF-8 bytes
+ */
+export function utf8Encode(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return bytes;
+}
+
+// Smallest code point for each sequence length; anything below is an overlong encoding
+const MIN_CODE_POINT = [0, 0, 0x80, 0x800, 0x10000];
+
+/**
+ * Decode UTF-8 bytes, falling back to Latin-1 for invalid sequences
+ * @param {Uint8Array} bytes - Encoded bytes
+ * @returns {string} Decoded text
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    let code = length === 1 ? byte : byte & (0xff >> (length + 1));
+    let valid = i + length <= bytes.length && (length === 1 || byte < 0xf8);
+    for (let j = 1; valid && j < length; j++) {
+      valid = (bytes[i + j] & 0xc0) === 0x80;
+      code = (code << 6) | (bytes[i + j] & 0x3f);
+    }
+    // Overlong forms, surrogates and code points past U+10FFFF are not valid UTF-8
+    if (length > 1) {
+      valid = valid && code >= MIN_CODE_POINT[length] && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff);
+    }
+    if (valid && (length === 1 || byte >= 0xc0)) {
+      text += String.fromCodePoint(code);
+      i += length - 1;
+    } else {
+      text += String.fromCharCode(byte);
+    }
+  }
+  return text;
+}
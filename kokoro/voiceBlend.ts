@@ -0,0 +1,188 @@
+import * as FileSystem from 'expo-file-system';
+
+/**
+ * Voice blending.
+ *
+ * A voice pack is a table of style vectors, one per input length, so voices
+ * can be mixed by taking a weighted average of their tables row by row. A
+ * blend is written "af_heart:0.6,af_bella:0.4" (a voice without a weight
+ * counts 1) or given as an object such as { af_heart: 0.6, af_bella: 0.4 };
+ * weights are normalized to sum to one. Blends can be saved under a name,
+ * which is persisted as JSON in the document directory.
+ */
+
+export type VoiceBlendSpec = string | Record<string, number>;
+
+export interface VoiceBlendComponent {
+  voiceId: string;
+  // Share of the blend, the weights of a blend sum to one
+  weight: number;
+}
+
+const BLENDS_PATH = `${FileSystem.documentDirectory}voice_blends.json`;
+
+// Names a blend can be saved under (no ":" or "," so they never look like a spec)
+const BLEND_NAME = /^[A-Za-z0-9_-]+$/;
+
+// Saved blends by name, as canonical specs
+let savedBlends: Record<string, string> = {};
+let loadPromise: Promise<void> | null = null;
+
+/**
+ * Whether a voice ID is a blend spec rather than a single voice or a saved name
+ * @param {string} voice - Voice ID
+ * @returns {boolean} Whether the ID mixes voices
+ */
+export function isVoiceBlendSpec(voice: string): boolean {
+  return /[:,]/.test(voice);
+}
+
+/**
+ * Parse a blend into its voices with normalized weights
+ * @param {VoiceBlendSpec} spec - "af_heart:0.6,af_bella:0.4" or { af_heart: 0.6, af_bella: 0.4 }
+ * @returns {VoiceBlendComponent[]} Components sorted by voice ID, each voice once
+ */
+export function parseVoiceBlend(spec: VoiceBlendSpec): VoiceBlendComponent[] {
+  const entries: [string, number][] =
+    typeof spec === 'string'
+      ? spec
+          .split(',')
+          .map(part => part.trim())
+          .filter(Boolean)
+          .map(part => {
+            const [voiceId, weight, ...rest] = part.split(':').map(piece => piece.trim());
+            if (!voiceId || rest.length > 0 || (weight !== undefined && !/^\d*\.?\d+(e[-+]?\d+)?$/i.test(weight))) {
+              throw new Error(`Invalid voice blend component "${part}"`);
+            }
+            return [voiceId, weight === undefined ? 1 : parseFloat(weight)];
+          })
+      : Object.entries(spec ?? {});
+
+  const weights = new Map<string, number>();
+  for (const [voiceId, weight] of entries) {
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Voice blend weight for "${voiceId}" must be a non-negative number, got ${weight}`);
+    }
+    weights.set(voiceId, (weights.get(voiceId) ?? 0) + weight);
+  }
+
+  const total = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+  if (!(total > 0)) {
+    throw new Error('Voice blend needs at least one voice with a positive weight');
+  }
+  return [...weights.entries()]
+    .filter(([, weight]) => weight > 0)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([voiceId, weight]) => ({ voiceId, weight: weight / total }));
+}
+
+/**
+ * Write blend components as a canonical spec, so equal blends get equal IDs
+ * @param {VoiceBlendComponent[]} components - Components from parseVoiceBlend()
+ * @returns {string} The spec, or the voice ID for a blend of one voice
+ */
+export function formatVoiceBlend(components: VoiceBlendComponent[]): string {
+  if (components.length === 1) {
+    return components[0].voiceId;
+  }
+  return components.map(({ voiceId, weight }) => `${voiceId}:${Number(weight.toFixed(6))}`).join(',');
+}
+
+/**
+ * Mix style tables with the given weights
+ * @param {Float32Array[]} tables - Style tables of the same size
+ * @param {number[]} weights - Weight of each table
+ * @returns {Float32Array} The weighted sum
+ */
+export function mixStyleTables(tables: Float32Array[], weights: number[]): Float32Array {
+  const mixed = new Float32Array(tables[0].length);
+  tables.forEach((table, index) => {
+    if (table.length !== mixed.length) {
+      throw new Error(`Voice packs differ in size (${table.length} and ${mixed.length} values)`);
+    }
+    const weight = weights[index];
+    for (let i = 0; i < mixed.length; i++) {
+      mixed[i] += weight * table[i];
+    }
+  });
+  return mixed;
+}
+
+/**
+ * Write the saved blends to the document directory
+ * @returns {Promise<void>}
+ */
+async function saveBlends(): Promise<void> {
+  await FileSystem.writeAsStringAsync(BLENDS_PATH, JSON.stringify({ version: 1, blends: savedBlends }));
+}
+
+/**
+ * Load the saved blends (only reads the file once)
+ * @returns {Promise<void>}
+ */
+export function loadVoiceBlends(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const fileInfo = await FileSystem.getInfoAsync(BLENDS_PATH);
+        if (!fileInfo.exists) {
+          return;
+        }
+        const data = JSON.parse(await FileSystem.readAsStringAsync(BLENDS_PATH));
+        // Blends saved before the file finished loading take precedence
+        savedBlends = { ...(data.blends || {}), ...savedBlends };
+      } catch (error) {
+        console.warn('Unable to load voice blends', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Get the spec of a saved blend
+ * @param {string} name - Name the blend was saved under
+ * @returns {string | undefined} The canonical spec, or undefined if no blend has the name
+ */
+export function getSavedVoiceBlend(name: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(savedBlends, name) ? savedBlends[name] : undefined;
+}
+
+/**
+ * Get every saved blend
+ * @returns {Record<string, string>} Canonical specs by name
+ */
+export function getSavedVoiceBlends(): Record<string, string> {
+  return { ...savedBlends };
+}
+
+/**
+ * Save a blend under a name, replacing any blend saved under it, and persist the blends
+ * @param {string} name - Name to save the blend under
+ * @param {string} spec - Canonical spec from formatVoiceBlend()
+ * @returns {Promise<void>}
+ */
+export async function saveVoiceBlend(name: string, spec: string): Promise<void> {
+  if (!BLEND_NAME.test(name)) {
+    throw new Error(`Voice blend name "${name}" may only contain letters, digits, "_" and "-"`);
+  }
+  await loadVoiceBlends();
+  savedBlends = { ...savedBlends, [name]: spec };
+  await saveBlends();
+}
+
+/**
+ * Delete a saved blend and persist the blends
+ * @param {string} name - Name the blend was saved under
+ * @returns {Promise<boolean>} Whether a blend was deleted
+ */
+export async function deleteVoiceBlend(name: string): Promise<boolean> {
+  await loadVoiceBlends();
+  if (getSavedVoiceBlend(name) === undefined) {
+    return false;
+  }
+  const { [name]: _deleted, ...rest } = savedBlends;
+  savedBlends = rest;
+  await saveBlends();
+  return true;
+}
@@ -0,0 +1,129 @@
+/**
+ * Voice catalog queries.
+ *
+ * Filters and sorts voice metadata (the built-in VOICES table and imported
+ * voices) by language, gender, quality grade, download status and name.
+ * Grades run from A (best) to F, each optionally followed by + or -; a voice
+ * without a grade, such as an imported one, ranks below every grade.
+ */
+
+export interface VoiceInfo {
+  name: string;
+  language: string;
+  gender: string;
+  traits?: string;
+  targetQuality?: string;
+  overallGrade?: string;
+  custom?: boolean;
+}
+
+export interface VoiceCatalogEntry extends VoiceInfo {
+  id: string;
+  custom: boolean;
+  downloaded: boolean;
+}
+
+export type VoiceSortKey = 'grade' | 'name' | 'id';
+
+export interface VoiceQuery {
+  // Language code(s) to include, e.g. 'en-gb'
+  language?: string | string[];
+  // Gender(s) to include, e.g. 'Female' (case-insensitive)
+  gender?: string | string[];
+  // Lowest overall grade to include, e.g. 'C+'
+  minGrade?: string;
+  // Lowest target quality grade to include
+  minTargetQuality?: string;
+  // Only voices that are (true) or aren't (false) stored on the device
+  downloaded?: boolean;
+  // Only imported (true) or built-in (false) voices
+  custom?: boolean;
+  // Text the name or ID contains (case-insensitive)
+  search?: string;
+  // Best overall grade first (then target quality and name), or alphabetically by name or ID;
+  // unsorted voices keep the catalog order
+  sortBy?: VoiceSortKey;
+}
+
+const LETTERS = 'FDCBA';
+
+/**
+ * Rank a grade so that better grades rank higher
+ * @param {string | undefined} grade - Grade such as 'B-'
+ * @returns {number} The rank, -1 for a missing or unrecognized grade
+ */
+export function gradeRank(grade: string | undefined): number {
+  const match = /^([A-DF])([+-]?)$/.exec(grade?.trim().toUpperCase() ?? '');
+  if (!match) {
+    return -1;
+  }
+  return LETTERS.indexOf(match[1]) * 3 + (match[2] === '+' ? 2 : match[2] === '-' ? 0 : 1);
+}
+
+/**
+ * Check a filter value against a field, ignoring case
+ * @param {string | string[] | undefined} wanted - Accepted value(s), undefined accepts anything
+ * @param {string} value - Field value
+ * @returns {boolean} Whether the value is accepted
+ */
+function matches(wanted: string | string[] | undefined, value: string): boolean {
+  if (wanted === undefined) {
+    return true;
+  }
+  const accepted = Array.isArray(wanted) ? wanted : [wanted];
+  return accepted.some(item => item.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Find the voices that match a query
+ * @param {Record<string, VoiceInfo>} voices - Voice metadata by ID
+ * @param {Iterable<string>} downloadedIds - IDs of the voices stored on the device
+ * @param {VoiceQuery} query - Filters and sort order
+ * @returns {VoiceCatalogEntry[]} The matching voices
+ */
+export function queryVoices(
+  voices: Record<string, VoiceInfo>,
+  downloadedIds: Iterable<string>,
+  query: VoiceQuery = {}
+): VoiceCatalogEntry[] {
+  const downloaded = new Set(downloadedIds);
+  const minGrade = query.minGrade === undefined ? -1 : gradeRank(query.minGrade);
+  const minTargetQuality = query.minTargetQuality === undefined ? -1 : gradeRank(query.minTargetQuality);
+  if (minGrade < 0 && query.minGrade !== undefined) {
+    throw new Error(`Invalid grade "${query.minGrade}"`);
+  }
+  if (minTargetQuality < 0 && query.minTargetQuality !== undefined) {
+    throw new Error(`Invalid grade "${query.minTargetQuality}"`);
+  }
+  const search = query.search?.trim().toLowerCase() ?? '';
+
+  const entries = Object.entries(voices)
+    .map(([id, info]): VoiceCatalogEntry => ({ ...info, id, custom: !!info.custom, downloaded: downloaded.has(id) }))
+    .filter(
+      entry =>
+        matches(query.language, entry.language) &&
+        matches(query.gender, entry.gender) &&
+        (query.minGrade === undefined || gradeRank(entry.overallGrade) >= minGrade) &&
+        (query.minTargetQuality === undefined || gradeRank(entry.targetQuality) >= minTargetQuality) &&
+        (query.downloaded === undefined || entry.downloaded === query.downloaded) &&
+        (query.custom === undefined || entry.custom === query.custom) &&
+        (!search || entry.name.toLowerCase().includes(search) || entry.id.toLowerCase().includes(search))
+    );
+
+  const byName = (a: VoiceCatalogEntry, b: VoiceCatalogEntry) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+  switch (query.sortBy) {
+    case 'grade':
+      return entries.sort(
+        (a, b) =>
+          gradeRank(b.overallGrade) - gradeRank(a.overallGrade) ||
+          gradeRank(b.targetQuality) - gradeRank(a.targetQuality) ||
+          byName(a, b)
+      );
+    case 'name':
+      return entries.sort(byName);
+    case 'id':
+      return entries.sort((a, b) => a.id.localeCompare(b.id));
+    default:
+      return entries;
+  }
+}
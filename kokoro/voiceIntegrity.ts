@@ -0,0 +1,238 @@
+import * as FileSystem from 'expo-file-system';
+import { sha256 } from './hash';
+import { decodeBase64 } from './base64';
+import { VOICE_PACK_BYTES } from './voicePack';
+import { getCustomVoice } from './customVoices';
+
+/**
+ * Voice pack integrity checks.
+ *
+ * Downloaded packs are checked against a manifest of their sizes and SHA-256
+ * digests, taken from the Hugging Face API (the packs are LFS files, whose
+ * object ID is the digest) and kept in the document directory. Imported
+ * voices are checked against the digest recorded when they were imported.
+ * Until the manifest can be fetched, packs are only checked for size. A pack
+ * that fails its check is moved to a quarantine directory rather than
+ * deleted, so it can still be inspected.
+ */
+
+export interface VoiceManifestEntry {
+  // Size in bytes
+  size: number;
+  // Lowercase hex digest, when known
+  sha256?: string;
+}
+
+export interface QuarantinedVoiceFile {
+  voiceId: string;
+  uri: string;
+  quarantinedAt: number;
+}
+
+const MANIFEST_URL = 'https://huggingface.co/api/models/onnx-community/Kokoro-82M-v1.0-ONNX/tree/main/voices';
+const MANIFEST_PATH = `${FileSystem.documentDirectory}voice_manifest.json`;
+const QUARANTINE_DIRECTORY = `${FileSystem.documentDirectory}voice_quarantine/`;
+
+let manifest: Record<string, VoiceManifestEntry> = {};
+let loadPromise: Promise<void> | null = null;
+
+/**
+ * Fetch the manifest from the Hugging Face API
+ * @returns {Promise<Record<string, VoiceManifestEntry>>} Entries by voice ID
+ */
+async function fetchManifest(): Promise<Record<string, VoiceManifestEntry>> {
+  const response = await fetch(MANIFEST_URL);
+  if (!response.ok) {
+    throw new Error(`Voice manifest request failed with status ${response.status}`);
+  }
+  const files = await response.json();
+  const entries: Record<string, VoiceManifestEntry> = {};
+  for (const file of Array.isArray(files) ? files : []) {
+    const match = /^voices\/([^/]+)\.bin$/.exec(file?.path ?? '');
+    if (!match || file.type !== 'file') {
+      continue;
+    }
+    // Only LFS files come with a SHA-256 (a plain file's oid is a git SHA-1)
+    const digest = file.lfs?.oid;
+    entries[match[1]] = {
+      size: file.lfs?.size ?? file.size,
+      ...(typeof digest === 'string' && /^[0-9a-f]{64}$/.test(digest) ? { sha256: digest } : {}),
+    };
+  }
+  if (Object.keys(entries).length === 0) {
+    throw new Error('Voice manifest lists no voices');
+  }
+  return entries;
+}
+
+/**
+ * Write the manifest to the document directory
+ * @returns {Promise<void>}
+ */
+async function saveManifest(): Promise<void> {
+  await FileSystem.writeAsStringAsync(MANIFEST_PATH, JSON.stringify({ version: 1, fetchedAt: Date.now(), voices: manifest }));
+}
+
+/**
+ * Load the manifest, fetching it if it isn't stored yet (a failed fetch is retried on the next call)
+ * @returns {Promise<void>}
+ */
+export function loadVoiceManifest(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const fileInfo = await FileSystem.getInfoAsync(MANIFEST_PATH);
+        if (fileInfo.exists) {
+          const data = JSON.parse(await FileSystem.readAsStringAsync(MANIFEST_PATH));
+          if (data.version === 1 && data.voices && typeof data.voices === 'object') {
+            manifest = data.voices;
+            return;
+          }
+        }
+      } catch (error) {
+        console.warn('Unable to read voice manifest', error);
+      }
+
+      try {
+        manifest = await fetchManifest();
+        await saveManifest();
+      } catch (error) {
+        console.warn('Unable to fetch voice manifest, voice packs are only checked for size', error);
+        loadPromise = null;
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Fetch the manifest again, e.g. after the voices were updated upstream (the stored one is kept if this fails)
+ * @returns {Promise<void>}
+ */
+export async function refreshVoiceManifest(): Promise<void> {
+  const fetched = await fetchManifest();
+  await loadVoiceManifest();
+  manifest = fetched;
+  await saveManifest();
+}
+
+/**
+ * Get what a voice pack is expected to look like
+ * @param {string} voiceId - Built-in or imported voice ID
+ * @returns {VoiceManifestEntry} The expected size, and digest when known
+ */
+export function getVoiceManifestEntry(voiceId: string): VoiceManifestEntry {
+  const custom = getCustomVoice(voiceId);
+  if (custom) {
+    return { size: VOICE_PACK_BYTES, sha256: custom.checksum };
+  }
+  return Object.prototype.hasOwnProperty.call(manifest, voiceId) ? manifest[voiceId] : { size: VOICE_PACK_BYTES };
+}
+
+/**
+ * Compare a voice pack with its manifest entry
+ * @param {string} voiceId - Built-in or imported voice ID
+ * @param {Uint8Array} bytes - Contents of the pack
+ * @returns {string | null} What is wrong with the pack, or null if it is intact
+ */
+function findProblem(voiceId: string, bytes: Uint8Array): string | null {
+  const expected = getVoiceManifestEntry(voiceId);
+  if (bytes.length !== expected.size) {
+    return `size is ${bytes.length} bytes, expected ${expected.size}`;
+  }
+  if (expected.sha256) {
+    const digest = sha256(bytes);
+    if (digest !== expected.sha256) {
+      return `SHA-256 is ${digest}, expected ${expected.sha256}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a voice pack against the manifest
+ * @param {string} voiceId - Built-in or imported voice ID
+ * @param {Uint8Array} bytes - Contents of the pack
+ * @param {boolean} downloaded - Whether the pack was just downloaded; a download that doesn't match
+ * may mean the voice was updated upstream, so the manifest is fetched again once before it is rejected
+ * @returns {Promise<string | null>} What is wrong with the pack, or null if it is intact
+ */
+export async function checkVoicePack(voiceId: string, bytes: Uint8Array, downloaded = false): Promise<string | null> {
+  await loadVoiceManifest();
+  const problem = findProblem(voiceId, bytes);
+  if (!problem || !downloaded || getCustomVoice(voiceId)) {
+    return problem;
+  }
+  try {
+    await refreshVoiceManifest();
+  } catch (error) {
+    console.warn('Unable to fetch voice manifest', error);
+    return problem;
+  }
+  return findProblem(voiceId, bytes);
+}
+
+/**
+ * Check a stored voice pack against the manifest
+ * @param {string} voiceId - Built-in or imported voice ID
+ * @param {string} uri - URI of the pack
+ * @param {boolean} downloaded - Whether the pack was just downloaded, see checkVoicePack()
+ * @returns {Promise<string | null>} What is wrong with the pack, or null if it is intact
+ */
+export async function checkVoiceFile(voiceId: string, uri: string, downloaded = false): Promise<string | null> {
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  return checkVoicePack(voiceId, decodeBase64(base64), downloaded);
+}
+
+/**
+ * Move a voice pack that failed its check out of the voices directory
+ * @param {string} voiceId - Voice ID
+ * @param {string} uri - URI of the pack
+ * @param {string} problem - What is wrong with the pack, from checkVoicePack()
+ * @returns {Promise<void>}
+ */
+export async function quarantineVoiceFile(voiceId: string, uri: string, problem: string): Promise<void> {
+  console.warn(`Voice pack ${voiceId} is corrupt (${problem}), moving it to quarantine`);
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(QUARANTINE_DIRECTORY);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(QUARANTINE_DIRECTORY, { intermediates: true });
+    }
+    await FileSystem.moveAsync({ from: uri, to: `${QUARANTINE_DIRECTORY}${voiceId}.${Date.now()}.bin` });
+  } catch (error) {
+    // The pack must not stay where it would be loaded again
+    console.warn(`Unable to quarantine voice pack ${voiceId}, deleting it`, error);
+    await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+  }
+}
+
+/**
+ * List the voice packs in quarantine
+ * @returns {Promise<QuarantinedVoiceFile[]>} The packs, oldest first
+ */
+export async function getQuarantinedVoiceFiles(): Promise<QuarantinedVoiceFile[]> {
+  const dirInfo = await FileSystem.getInfoAsync(QUARANTINE_DIRECTORY);
+  if (!dirInfo.exists) {
+    return [];
+  }
+  const files: QuarantinedVoiceFile[] = [];
+  for (const name of await FileSystem.readDirectoryAsync(QUARANTINE_DIRECTORY)) {
+    const match = /^(.+)\.(\d+)\.bin$/.exec(name);
+    if (match) {
+      files.push({ voiceId: match[1], uri: `${QUARANTINE_DIRECTORY}${name}`, quarantinedAt: Number(match[2]) });
+    }
+  }
+  return files.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+}
+
+/**
+ * Delete every voice pack in quarantine
+ * @returns {Promise<number>} How many packs were deleted
+ */
+export async function clearVoiceQuarantine(): Promise<number> {
+  const files = await getQuarantinedVoiceFiles();
+  for (const file of files) {
+    await FileSystem.deleteAsync(file.uri, { idempotent: true }).catch(() => {});
+  }
+  return files.length;
+}
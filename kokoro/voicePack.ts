@@ -0,0 +1,245 @@
+/**
+ * Voice pack files.
+ *
+ * A voice pack is a table of style vectors, one row of STYLE_DIM values for
+ * each input length from 0 to 509 tokens. Packs can be read as raw
+ * little-endian float32 (the .bin files served with the ONNX model), as NumPy
+ * .npy arrays, or as PyTorch .pt tensors saved with torch.save(); any of
+ * these may have the shape (510, 256) or (510, 1, 256).
+ */
+
+export type VoicePackFormat = 'bin' | 'npy' | 'pt';
+
+// Values per style vector
+export const STYLE_DIM = 256;
+// Style vectors per pack, one per input length
+export const VOICE_PACK_ROWS = 510;
+// Size of a pack as raw float32 in bytes
+export const VOICE_PACK_BYTES = VOICE_PACK_ROWS * STYLE_DIM * 4;
+
+const NPY_MAGIC = '\x93NUMPY';
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+/**
+ * Work out the format of a voice pack from its file name, or failing that its contents
+ * @param {string} path - File path or URI
+ * @param {Uint8Array} bytes - File contents
+ * @returns {VoicePackFormat} The format
+ */
+export function detectVoicePackFormat(path: string, bytes: Uint8Array): VoicePackFormat {
+  const extension = /\.([a-z0-9]+)$/i.exec(path)?.[1]?.toLowerCase();
+  if (extension === 'bin' || extension === 'npy' || extension === 'pt') {
+    return extension;
+  }
+  if (extension === 'pth') {
+    return 'pt';
+  }
+  if (readAscii(bytes, 0, NPY_MAGIC.length) === NPY_MAGIC) {
+    return 'npy';
+  }
+  if (bytes.length >= 4 && new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === ZIP_LOCAL_HEADER) {
+    return 'pt';
+  }
+  return 'bin';
+}
+
+/**
+ * Read a voice pack and check that it holds a full style table
+ * @param {Uint8Array} bytes - File contents
+ * @param {VoicePackFormat} format - File format
+ * @returns {Float32Array} The style table, VOICE_PACK_ROWS rows of STYLE_DIM values
+ */
+export function parseVoicePack(bytes: Uint8Array, format: VoicePackFormat): Float32Array {
+  let table: Float32Array;
+  switch (format) {
+    case 'bin':
+      table = readFloat32(bytes, 0, bytes.length);
+      break;
+    case 'npy':
+      table = parseNpy(bytes);
+      break;
+    case 'pt':
+      table = parseTorch(bytes);
+      break;
+    default:
+      throw new Error(`Unsupported voice pack format "${format}"`);
+  }
+
+  if (table.length !== VOICE_PACK_ROWS * STYLE_DIM) {
+    throw new Error(
+      `Voice pack has ${table.length} values, expected ${VOICE_PACK_ROWS} rows of ${STYLE_DIM} (${VOICE_PACK_ROWS * STYLE_DIM})`
+    );
+  }
+  for (let i = 0; i < table.length; i++) {
+    if (!Number.isFinite(table[i])) {
+      throw new Error(`Voice pack value ${i} (row ${Math.floor(i / STYLE_DIM)}) is not a finite number`);
+    }
+  }
+  return table;
+}
+
+/**
+ * Check that an array shape is a style table, ignoring dimensions of size 1
+ * @param {number[]} shape - Array shape
+ */
+function checkShape(shape: number[]): void {
+  const dims = shape.filter(dim => dim !== 1);
+  if (dims.length !== 2 || dims[0] !== VOICE_PACK_ROWS || dims[1] !== STYLE_DIM) {
+    throw new Error(
+      `Voice pack has shape (${shape.join(', ')}), expected (${VOICE_PACK_ROWS}, ${STYLE_DIM}) or (${VOICE_PACK_ROWS}, 1, ${STYLE_DIM})`
+    );
+  }
+}
+
+/**
+ * Decode a range of bytes as ASCII
+ * @param {Uint8Array} bytes - Data
+ * @param {number} start - First byte
+ * @param {number} end - End of the range (exclusive)
+ * @returns {string} The text
+ */
+function readAscii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, Math.min(end, bytes.length)));
+}
+
+/**
+ * Copy little-endian float32 values out of a range of bytes
+ * @param {Uint8Array} bytes - Data
+ * @param {number} start - First byte
+ * @param {number} length - Length of the range in bytes
+ * @returns {Float32Array} The values
+ */
+function readFloat32(bytes: Uint8Array, start: number, length: number): Float32Array {
+  if (length % 4 !== 0) {
+    throw new Error(`Voice pack data is ${length} bytes, not a whole number of float32 values`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, length);
+  const values = new Float32Array(length / 4);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = view.getFloat32(i * 4, true);
+  }
+  return values;
+}
+
+/**
+ * Read a NumPy .npy array of little-endian float32 or float64 values in C order
+ * @param {Uint8Array} bytes - File contents
+ * @returns {Float32Array} The values
+ */
+function parseNpy(bytes: Uint8Array): Float32Array {
+  if (readAscii(bytes, 0, NPY_MAGIC.length) !== NPY_MAGIC || bytes.length < 10) {
+    throw new Error('Not a NumPy .npy file');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // Version 1 has a 2-byte header length, later versions a 4-byte one
+  const major = bytes[6];
+  const headerStart = major === 1 ? 10 : 12;
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const header = readAscii(bytes, headerStart, headerStart + headerLength);
+
+  const descr = /'descr'\s*:\s*'([^']*)'/.exec(header)?.[1];
+  const fortranOrder = /'fortran_order'\s*:\s*(True|False)/.exec(header)?.[1];
+  const shape = /'shape'\s*:\s*\(([^)]*)\)/.exec(header)?.[1];
+  if (!descr || !fortranOrder || shape === undefined) {
+    throw new Error('Invalid NumPy .npy header');
+  }
+  if (fortranOrder === 'True') {
+    throw new Error('NumPy arrays in Fortran order are not supported, save the array in C order');
+  }
+  checkShape(
+    shape
+      .split(',')
+      .map(dim => dim.trim())
+      .filter(Boolean)
+      .map(dim => parseInt(dim, 10))
+  );
+
+  const dataStart = headerStart + headerLength;
+  const count = VOICE_PACK_ROWS * STYLE_DIM;
+  if (descr === '<f4') {
+    if (bytes.length - dataStart < count * 4) {
+      throw new Error('NumPy .npy file is truncated');
+    }
+    return readFloat32(bytes, dataStart, count * 4);
+  }
+  if (descr === '<f8') {
+    if (bytes.length - dataStart < count * 8) {
+      throw new Error('NumPy .npy file is truncated');
+    }
+    const values = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      values[i] = view.getFloat64(dataStart + i * 8, true);
+    }
+    return values;
+  }
+  throw new Error(`NumPy dtype "${descr}" is not supported, save the array as float32`);
+}
+
+/**
+ * Read a float32 tensor saved with torch.save(), a zip archive whose tensor data
+ * is stored uncompressed in an entry named ".../data/<key>"
+ * @param {Uint8Array} bytes - File contents
+ * @returns {Float32Array} The values
+ */
+function parseTorch(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end of central directory record is the last 22 bytes, before any archive comment
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== ZIP_END_OF_DIRECTORY) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('Not a PyTorch .pt file (no zip directory found)');
+  }
+
+  const entries = new Map<string, { method: number; size: number; offset: number }>();
+  let position = view.getUint32(end + 16, true);
+  for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+    if (view.getUint32(position, true) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Invalid zip directory in PyTorch .pt file');
+    }
+    const nameLength = view.getUint16(position + 28, true);
+    const name = readAscii(bytes, position + 46, position + 46 + nameLength);
+    entries.set(name, {
+      method: view.getUint16(position + 10, true),
+      size: view.getUint32(position + 20, true),
+      offset: view.getUint32(position + 42, true),
+    });
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+
+  const read = (name: string) => {
+    const entry = entries.get(name)!;
+    if (entry.method !== 0) {
+      throw new Error(`PyTorch .pt entry "${name}" is compressed`);
+    }
+    const offset = entry.offset;
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    return bytes.subarray(start, start + entry.size);
+  };
+
+  const names = [...entries.keys()];
+  const pickle = names.find(name => /(^|\/)data\.pkl$/.test(name));
+  const storages = names.filter(name => /(^|\/)data\/\d+$/.test(name));
+  if (!pickle || storages.length === 0) {
+    throw new Error('Not a PyTorch .pt file (no tensor data found)');
+  }
+  if (storages.length > 1) {
+    throw new Error('PyTorch .pt file holds more than one tensor, save only the voice tensor');
+  }
+  const byteOrder = names.find(name => /(^|\/)byteorder$/.test(name));
+  if (byteOrder && readAscii(read(byteOrder), 0, Infinity) !== 'little') {
+    throw new Error('PyTorch .pt file is big-endian');
+  }
+  // The pickle names the storage class, e.g. torch.FloatStorage
+  const storageType = /([A-Za-z0-9]+)Storage/.exec(readAscii(read(pickle), 0, Infinity))?.[1];
+  if (storageType && storageType !== 'Float') {
+    throw new Error(`PyTorch tensor type "${storageType}" is not supported, save the tensor as float32`);
+  }
+
+  const data = read(storages[0]);
+  return readFloat32(data, 0, data.length);
+}
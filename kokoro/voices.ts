@@ -1,4 +1,10 @@
 import * as FileSystem from 'expo-file-system';
+import { encodeBase64, decodeBase64 } from './base64';
+import { isVoiceBlendSpec, parseVoiceBlend, formatVoiceBlend, mixStyleTables, getSavedVoiceBlend } from './voiceBlend';
+import { getCustomVoice, getCustomVoices } from './customVoices';
+import { checkVoicePack, quarantineVoiceFile } from './voiceIntegrity';
+import type { VoiceBlendSpec } from './voiceBlend';
+import type { VoiceInfo } from './voiceCatalog';
 
 export const VOICES = Object.freeze({
   af_heart: {
@@ -209,24 +215,60 @@ export const VOICES = Object.freeze({
 
 const VOICE_DATA_URL = "https://huggingface.co/onnx-community/Kokoro-82M-v1.0-ONNX/resolve/main/voices";
 
+/**
+ * Get the metadata of a built-in or imported voice
+ * @param {string} id The voice ID
+ * @returns {Object|undefined} The voice's name, language, gender and traits (imported voices
+ * have custom: true), or undefined for an unknown voice
+ */
+export function getVoiceInfo(id: string): VoiceInfo | undefined {
+  if (Object.prototype.hasOwnProperty.call(VOICES, id)) {
+    return VOICES[id as keyof typeof VOICES];
+  }
+  const custom = getCustomVoice(id);
+  return custom && { name: custom.name, language: custom.language, gender: custom.gender, traits: custom.traits, custom: true };
+}
+
+/**
+ * Get every voice, built-in and imported
+ * @returns {Object} Voice metadata by ID, as from getVoiceInfo()
+ */
+export function getAllVoices(): Record<string, VoiceInfo> {
+  const voices: Record<string, VoiceInfo> = { ...VOICES };
+  for (const id of Object.keys(getCustomVoices())) {
+    voices[id] = getVoiceInfo(id)!;
+  }
+  return voices;
+}
+
 /**
  *
- * @param {keyof typeof VOICES} id
+ * @param {string} id A built-in or imported voice ID
  * @returns {Promise<ArrayBufferLike>}
  */
-async function getVoiceFile(id) {
+async function getVoiceFile(id: string): Promise<ArrayBuffer> {
   try {
     const filePath = `${FileSystem.documentDirectory}voices/${id}.bin`;
     const fileInfo = await FileSystem.getInfoAsync(filePath);
     
     if (fileInfo.exists) {
       const base64Data = await FileSystem.readAsStringAsync(filePath, { encoding: FileSystem.EncodingType.Base64 });
-      return _base64ToArrayBuffer(base64Data);
+      const bytes = decodeBase64(base64Data);
+      // A corrupt pack is set aside and downloaded again
+      const problem = await checkVoicePack(id, bytes);
+      if (!problem) {
+        return bytes.buffer;
+      }
+      await quarantineVoiceFile(id, filePath, problem);
     }
   } catch (e) {
     console.warn("Unable to read from local file system", e);
   }
 
+  if (getCustomVoice(id)) {
+    throw new Error(`The pack of imported voice "${id}" is missing, import it again`);
+  }
+
   try {
     const url = `${VOICE_DATA_URL}/${id}.bin`;
     
@@ -235,14 +277,25 @@ async function getVoiceFile(id) {
       cache = await caches.open("kokoro-voices");
       const cachedResponse = await cache.match(url);
       if (cachedResponse) {
-        return await cachedResponse.arrayBuffer();
+        const cachedBuffer = await cachedResponse.arrayBuffer();
+        if (!(await checkVoicePack(id, new Uint8Array(cachedBuffer)))) {
+          return cachedBuffer;
+        }
+        await cache.delete(url);
       }
     } catch (e) {
       console.warn("Unable to open cache", e);
     }
 
     const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Voice ${id} request failed with status ${response.status}`);
+    }
     const buffer = await response.arrayBuffer();
+    const problem = await checkVoicePack(id, new Uint8Array(buffer), true);
+    if (problem) {
+      throw new Error(`Downloaded voice ${id} is corrupt: ${problem}`);
+    }
 
     if (cache) {
       try {
@@ -264,7 +317,7 @@ async function getVoiceFile(id) {
         await FileSystem.makeDirectoryAsync(dirPath, { intermediates: true });
       }
       
-      const base64Data = _arrayBufferToBase64(buffer);
+      const base64Data = encodeBase64(buffer);
       await FileSystem.writeAsStringAsync(
         `${dirPath}/${id}.bin`,
         base64Data,
@@ -281,33 +334,78 @@ async function getVoiceFile(id) {
   }
 }
 
-function _arrayBufferToBase64(buffer) {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+/**
+ * Resolve a voice to the ID used for synthesis
+ * @param {string|Object} voice A voice ID, the name of a saved blend, a blend spec such as
+ * "af_heart:0.6,af_bella:0.4", or a blend object such as { af_heart: 0.6, af_bella: 0.4 }
+ * @returns {string} The voice ID, or the canonical spec of a blend
+ */
+export function resolveVoiceId(voice: VoiceBlendSpec): string {
+  if (typeof voice === 'string' && !isVoiceBlendSpec(voice)) {
+    return getSavedVoiceBlend(voice) ?? voice;
   }
-  return btoa(binary);
+  return formatVoiceBlend(parseVoiceBlend(voice));
 }
 
-function _base64ToArrayBuffer(base64) {
-  const binary_string = atob(base64);
-  const len = binary_string.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binary_string.charCodeAt(i);
+/**
+ * Check whether a voice, or every voice in a blend, is a built-in or imported voice
+ * @param {string|Object} voice A voice ID, saved blend name or blend
+ * @returns {boolean} Whether the voice can be used
+ */
+export function isKnownVoice(voice: VoiceBlendSpec): boolean {
+  try {
+    const id = resolveVoiceId(voice);
+    const voiceIds = isVoiceBlendSpec(id) ? parseVoiceBlend(id).map(component => component.voiceId) : [id];
+    return voiceIds.every(voiceId => getVoiceInfo(voiceId) !== undefined);
+  } catch (e) {
+    return false;
   }
-  return bytes.buffer;
 }
 
-const VOICE_CACHE = new Map();
-export async function getVoiceData(voice) {
-  if (VOICE_CACHE.has(voice)) {
-    return VOICE_CACHE.get(voice);
+const VOICE_CACHE = new Map<string, Float32Array>();
+export async function getVoiceData(voice: VoiceBlendSpec): Promise<Float32Array> {
+  const id = resolveVoiceId(voice);
+  const cached = VOICE_CACHE.get(id);
+  if (cached) {
+    return cached;
   }
 
-  const buffer = new Float32Array(await getVoiceFile(voice));
-  VOICE_CACHE.set(voice, buffer);
+  let buffer;
+  if (isVoiceBlendSpec(id)) {
+    // Mix the style tables of the blended voices row by row
+    const components = parseVoiceBlend(id);
+    const tables = await Promise.all(components.map(component => getVoiceData(component.voiceId)));
+    buffer = mixStyleTables(tables, components.map(component => component.weight));
+  } else {
+    buffer = new Float32Array(await getVoiceFile(id));
+  }
+  VOICE_CACHE.set(id, buffer);
   return buffer;
-}
\ No newline at end of file
+}
+
+/**
+ * Drop the loaded style tables of a voice and of any blend using it, after it is imported again or removed
+ * @param {string} voiceId The voice ID
+ */
+export function forgetVoiceData(voiceId: string) {
+  for (const id of [...VOICE_CACHE.keys()]) {
+    if (id === voiceId || (isVoiceBlendSpec(id) && parseVoiceBlend(id).some(component => component.voiceId === voiceId))) {
+      VOICE_CACHE.delete(id);
+    }
+  }
+}
+
+/**
+ * Get the language of a voice, which selects the phonemization rules
+ * @param {string} voice The voice ID, saved blend name or blend spec (a blend is pronounced like
+ * its strongest voice)
+ * @returns {string} The language code ('en-us' or 'en-gb')
+ */
+export function getVoiceLanguage(voice: VoiceBlendSpec): string {
+  const id = resolveVoiceId(voice);
+  if (isVoiceBlendSpec(id)) {
+    const [strongest] = parseVoiceBlend(id).sort((a, b) => b.weight - a.weight);
+    return getVoiceLanguage(strongest.voiceId);
+  }
+  return getVoiceInfo(id)?.language || 'en-us';
+}
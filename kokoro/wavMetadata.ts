@@ -0,0 +1,215 @@
+import { utf8Encode, utf8Decode } from './utf8';
+
+/**
+ * Synthesis metadata embedded in WAV files.
+ *
+ * The text, phonemes, voice, speed and model behind a clip are written as a
+ * LIST/INFO chunk, with the standard ICMT (comment), ISFT (software) and ICRD
+ * (creation date) fields plus custom fields for the synthesis settings, and
+ * optionally as an iXML chunk for tools that read that instead. Strings are
+ * stored as UTF-8 so IPA phonemes survive. The reader accepts either chunk,
+ * preferring iXML when both are present.
+ */
+
+export interface SynthesisMetadata {
+  // The input text (plain text or SSML)
+  text?: string;
+  // The phonemes that were synthesized
+  phonemes?: string;
+  voiceId?: string;
+  speed?: number;
+  // The model file, e.g. 'model_q8f16.onnx'
+  modelId?: string;
+  // When the clip was created, as an ISO 8601 string
+  createdAt?: string;
+}
+
+const SOFTWARE = 'Kokoro TTS (ONNX Runtime)';
+
+// LIST/INFO field IDs for each metadata key
+const INFO_FIELDS: Record<keyof SynthesisMetadata, string> = {
+  text: 'ICMT',
+  phonemes: 'IPHN',
+  voiceId: 'IVOI',
+  speed: 'ISPD',
+  modelId: 'IMDL',
+  createdAt: 'ICRD',
+};
+
+// iXML element names inside <USER><KOKORO> for each metadata key
+const IXML_ELEMENTS: Record<keyof SynthesisMetadata, string> = {
+  text: 'TEXT',
+  phonemes: 'PHONEMES',
+  voiceId: 'VOICE_ID',
+  speed: 'SPEED',
+  modelId: 'MODEL_ID',
+  createdAt: 'CREATED_AT',
+};
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Build a RIFF chunk, padded to an even length
+ * @param {string} id - Four-character chunk ID
+ * @param {number[]} payload - Chunk contents
+ * @returns {number[]} The chunk bytes
+ */
+function riffChunk(id: string, payload: number[]): number[] {
+  const size = payload.length;
+  const bytes = [...Array.from(id, char => char.charCodeAt(0)), size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, (size >>> 24) & 0xff];
+  for (const byte of payload) {
+    bytes.push(byte);
+  }
+  if (size % 2) {
+    bytes.push(0);
+  }
+  return bytes;
+}
+
+/**
+ * Get the metadata entries that have a value, as strings
+ * @param {SynthesisMetadata} metadata - Metadata to write
+ * @returns {[keyof SynthesisMetadata, string][]} Keys and their string values
+ */
+function metadataEntries(metadata: SynthesisMetadata): [keyof SynthesisMetadata, string][] {
+  return (Object.keys(INFO_FIELDS) as (keyof SynthesisMetadata)[])
+    .filter(key => metadata[key] !== undefined && metadata[key] !== null && metadata[key] !== '')
+    .map(key => [key, String(metadata[key])]);
+}
+
+/**
+ * Build the LIST/INFO chunk for synthesis metadata
+ * @param {SynthesisMetadata} metadata - Metadata to write
+ * @returns {Uint8Array} The chunk bytes
+ */
+export function buildInfoChunk(metadata: SynthesisMetadata): Uint8Array {
+  // INFO strings are null-terminated
+  const fields = [
+    ...metadataEntries(metadata).map(([key, value]) => riffChunk(INFO_FIELDS[key], [...utf8Encode(value), 0])),
+    riffChunk('ISFT', [...utf8Encode(SOFTWARE), 0]),
+  ];
+  const payload = Array.from('INFO', char => char.charCodeAt(0)).concat(...fields);
+  return new Uint8Array(riffChunk('LIST', payload));
+}
+
+/**
+ * Build an iXML chunk for synthesis metadata
+ * @param {SynthesisMetadata} metadata - Metadata to write
+ * @returns {Uint8Array} The chunk bytes
+ */
+export function buildIxmlChunk(metadata: SynthesisMetadata): Uint8Array {
+  const escape = (value: string) => value.replace(/[&<>"']/g, char => XML_ESCAPES[char]);
+  const fields = metadataEntries(metadata)
+    .map(([key, value]) => `<${IXML_ELEMENTS[key]}>${escape(value)}</${IXML_ELEMENTS[key]}>`)
+    .join('');
+  const xml =
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<BWFXML><IXML_VERSION>1.61</IXML_VERSION>' +
+    (metadata.text ? `<NOTE>${escape(metadata.text)}</NOTE>` : '') +
+    `<USER><KOKORO>${fields}</KOKORO></USER></BWFXML>`;
+  return new Uint8Array(riffChunk('iXML', utf8Encode(xml)));
+}
+
+/**
+ * Build the metadata chunks to embed in a WAV file
+ * @param {SynthesisMetadata} metadata - Metadata to write
+ * @param {boolean} includeIxml - Whether to add an iXML chunk as well as LIST/INFO
+ * @returns {Uint8Array[]} Chunks to insert before the data chunk
+ */
+export function buildMetadataChunks(metadata: SynthesisMetadata, includeIxml = false): Uint8Array[] {
+  const chunks = [buildInfoChunk(metadata)];
+  if (includeIxml) {
+    chunks.push(buildIxmlChunk(metadata));
+  }
+  return chunks;
+}
+
+/**
+ * Convert parsed string fields back to metadata
+ * @param {Record<string, string>} values - String values by metadata key
+ * @returns {SynthesisMetadata} Metadata with the speed as a number
+ */
+function toMetadata(values: Partial<Record<keyof SynthesisMetadata, string>>): SynthesisMetadata {
+  const metadata: SynthesisMetadata = {};
+  for (const [key, value] of Object.entries(values) as [keyof SynthesisMetadata, string][]) {
+    if (key === 'speed') {
+      const speed = parseFloat(value);
+      if (Number.isFinite(speed)) {
+        metadata.speed = speed;
+      }
+    } else {
+      metadata[key] = value;
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Parse the fields of a LIST/INFO chunk
+ * @param {Uint8Array} payload - Chunk contents after the "INFO" list type
+ * @returns {SynthesisMetadata} The fields that were found
+ */
+function parseInfo(payload: Uint8Array): SynthesisMetadata {
+  const keys = Object.fromEntries(Object.entries(INFO_FIELDS).map(([key, id]) => [id, key])) as Record<string, keyof SynthesisMetadata>;
+  const values: Partial<Record<keyof SynthesisMetadata, string>> = {};
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  for (let offset = 0; offset + 8 <= payload.length; ) {
+    const id = String.fromCharCode(...payload.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const bytes = payload.subarray(offset + 8, Math.min(payload.length, offset + 8 + size));
+    const end = bytes.indexOf(0);
+    if (keys[id]) {
+      values[keys[id]] = utf8Decode(end === -1 ? bytes : bytes.subarray(0, end));
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return toMetadata(values);
+}
+
+/**
+ * Parse the Kokoro fields of an iXML document
+ * @param {string} xml - The iXML document
+ * @returns {SynthesisMetadata} The fields that were found
+ */
+function parseIxml(xml: string): SynthesisMetadata {
+  const values: Partial<Record<keyof SynthesisMetadata, string>> = {};
+  for (const [key, element] of Object.entries(IXML_ELEMENTS) as [keyof SynthesisMetadata, string][]) {
+    const match = xml.match(new RegExp(`<${element}>([\\s\\S]*?)</${element}>`));
+    if (match) {
+      values[key] = match[1].replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity]);
+    }
+  }
+  return toMetadata(values);
+}
+
+/**
+ * Read synthesis metadata from a WAV file
+ * @param {ArrayBuffer} buffer - WAV file contents
+ * @returns {SynthesisMetadata | null} The metadata, or null if the file has none
+ */
+export function readWavMetadata(buffer: ArrayBuffer): SynthesisMetadata | null {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 4)) !== 'RIFF' || String.fromCharCode(...bytes.subarray(8, 12)) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let info: SynthesisMetadata | null = null;
+  let ixml: SynthesisMetadata | null = null;
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const payload = bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size));
+
+    if (id === 'LIST' && String.fromCharCode(...payload.subarray(0, 4)) === 'INFO') {
+      info = parseInfo(payload.subarray(4));
+    } else if (id === 'iXML') {
+      ixml = parseIxml(utf8Decode(payload));
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  const metadata = { ...info, ...ixml };
+  return Object.keys(metadata).length > 0 ? metadata : null;
+}
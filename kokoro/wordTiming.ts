@@ -0,0 +1,257 @@
+/**
+ * Word-level timing for synthesized speech.
+ *
+ * Each model token (one phoneme symbol) gets a duration: the model's own
+ * duration prediction when the ONNX export outputs one, otherwise an estimate
+ * that shares the chunk's speech time out by symbol, with stress and length
+ * marks taking no time and punctuation standing for a short pause. Runs of
+ * symbols between spaces are phoneme words; these are then aligned with the
+ * words of the source text, phonemized one by one, to find which phoneme
+ * words each source word produced ("1999" gives several).
+ */
+
+export interface PhonemeWordTiming {
+  // The phonemes of the word, without surrounding punctuation
+  phonemes: string;
+  // Punctuation spoken straight after the word, e.g. "," or "."
+  punctuation: string;
+  // Start and end in milliseconds
+  start: number;
+  end: number;
+}
+
+export interface SourceWord {
+  // The word as written in the input text, without surrounding punctuation
+  word: string;
+  // The word with its punctuation, e.g. for captions (defaults to word)
+  text?: string;
+  // Its phonemes when phonemized on its own
+  phonemes: string;
+}
+
+export interface WordTiming {
+  word: string;
+  // The word with its punctuation, including punctuation written apart from it
+  text: string;
+  phonemes: string;
+  // Punctuation spoken after the word, which marks clause and sentence ends
+  punctuation: string;
+  // Start and end in milliseconds from the start of the audio
+  start: number;
+  end: number;
+}
+
+// Symbols that are spoken as part of a word but are pauses, not sounds
+const PUNCTUATION = new Set(Array.from(';:,.!?¡¿—…"«»“”()'));
+
+// Symbols that modify the previous or next sound and take no time of their own
+const MODIFIERS = new Set(Array.from('ˈˌːˑ'));
+
+// Estimated weights relative to a phoneme: the start and end padding tokens
+// and punctuation pauses
+const PAD_WEIGHT = 1;
+const PUNCTUATION_WEIGHT = 2;
+
+// Largest alignment table (source phoneme words x synthesized phoneme words);
+// longer texts are shared out in proportion without anchors
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+/**
+ * Whether a symbol is a sound (not a space, punctuation or a modifier)
+ * @param {string} symbol - Phoneme symbol
+ * @returns {boolean} Whether the symbol is a spoken sound
+ */
+function isSound(symbol: string): boolean {
+  return !/\s/.test(symbol) && !PUNCTUATION.has(symbol) && !MODIFIERS.has(symbol);
+}
+
+/**
+ * Estimate token durations when the model does not output them
+ * @param {string[]} symbols - The phoneme symbols that became tokens
+ * @returns {number[]} Relative durations, including the start and end padding tokens
+ */
+export function estimateTokenDurations(symbols: string[]): number[] {
+  const weights = symbols.map(symbol => {
+    if (/\s/.test(symbol) || MODIFIERS.has(symbol)) {
+      return 0;
+    }
+    return PUNCTUATION.has(symbol) ? PUNCTUATION_WEIGHT : 1;
+  });
+  return [PAD_WEIGHT, ...weights, PAD_WEIGHT];
+}
+
+/**
+ * Time the phoneme words of one synthesized chunk
+ * @param {string[]} symbols - The phoneme symbols that became tokens, in order
+ * @param {ArrayLike<number>} durations - Duration of every token, including the
+ * start and end padding tokens, in any unit
+ * @param {number} offset - Start of the chunk in the audio, in milliseconds
+ * @param {number} length - Length of the chunk's speech (without the following pause), in milliseconds
+ * @returns {PhonemeWordTiming[]} Timing of each phoneme word
+ */
+export function timePhonemeWords(
+  symbols: string[],
+  durations: ArrayLike<number>,
+  offset: number,
+  length: number
+): PhonemeWordTiming[] {
+  let total = 0;
+  for (let i = 0; i < durations.length; i++) {
+    total += Math.max(0, Number(durations[i]));
+  }
+  const scale = total > 0 ? length / total : 0;
+
+  const words: PhonemeWordTiming[] = [];
+  let current: PhonemeWordTiming | null = null;
+  // Time elapsed before the symbol, starting after the start padding token
+  let time = offset + Math.max(0, Number(durations[0])) * scale;
+
+  symbols.forEach((symbol, index) => {
+    const duration = Math.max(0, Number(durations[index + 1] ?? 0)) * scale;
+    if (/\s/.test(symbol)) {
+      current = null;
+    } else if (isSound(symbol) || (current && MODIFIERS.has(symbol))) {
+      if (!current) {
+        current = { phonemes: '', punctuation: '', start: time, end: time };
+        words.push(current);
+      }
+      current.phonemes += symbol;
+      current.end = time + duration;
+    } else if (current && PUNCTUATION.has(symbol)) {
+      current.punctuation += symbol;
+    } else if (MODIFIERS.has(symbol)) {
+      // A stress mark before the first sound belongs to the word
+      current = { phonemes: symbol, punctuation: '', start: time + duration, end: time + duration };
+      words.push(current);
+    }
+    time += duration;
+  });
+
+  return words.filter(word => Array.from(word.phonemes).some(isSound));
+}
+
+/**
+ * The sounds of a phoneme word, for comparing words phonemized in and out of context
+ * @param {string} phonemes - Phoneme word
+ * @returns {string} The word without punctuation and modifiers
+ */
+function soundKey(phonemes: string): string {
+  return Array.from(phonemes).filter(isSound).join('');
+}
+
+/**
+ * Pair up equal items of two sequences (longest common subsequence)
+ * @param {string[]} a - First sequence
+ * @param {string[]} b - Second sequence
+ * @returns {[number, number][]} Index pairs of the matched items, in order
+ */
+function matchSequences(a: string[], b: string[]): [number, number][] {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Match timed phoneme words to the words of the source text
+ *
+ * The phoneme words expected from the source words are aligned with the ones
+ * that were synthesized; words that match anchor the alignment, and the
+ * synthesized words between two anchors go to the source words between them
+ * in proportion (phonemizing in context can read "1999" or "Dr." differently).
+ * @param {SourceWord[]} sourceWords - Source words in order
+ * @param {PhonemeWordTiming[]} phonemeWords - Timed phoneme words in order
+ * @returns {WordTiming[]} Timing of every spoken source word
+ */
+export function assignWordTimings(sourceWords: SourceWord[], phonemeWords: PhonemeWordTiming[]): WordTiming[] {
+  // Every phoneme word the source words would produce, with the word it belongs to
+  const expected: { owner: number; key: string }[] = [];
+  sourceWords.forEach((sourceWord, owner) => {
+    for (const run of sourceWord.phonemes.split(/\s+/)) {
+      const key = soundKey(run);
+      if (key) {
+        expected.push({ owner, key });
+      }
+    }
+  });
+  if (expected.length === 0 || phonemeWords.length === 0) {
+    return [];
+  }
+
+  const anchors =
+    expected.length * phonemeWords.length <= MAX_ALIGNMENT_CELLS
+      ? matchSequences(expected.map(item => item.key), phonemeWords.map(word => soundKey(word.phonemes)))
+      : [];
+
+  // Owner of each synthesized phoneme word
+  const owners = new Array<number>(phonemeWords.length);
+  const bounds: [number, number][] = [[-1, -1], ...anchors, [expected.length, phonemeWords.length]];
+  for (let k = 0; k + 1 < bounds.length; k++) {
+    const [expectedStart, synthesizedStart] = bounds[k];
+    const [expectedEnd, synthesizedEnd] = bounds[k + 1];
+    if (synthesizedStart >= 0) {
+      owners[synthesizedStart] = expected[expectedStart].owner;
+    }
+
+    const gapExpected = expectedEnd - expectedStart - 1;
+    const gapSynthesized = synthesizedEnd - synthesizedStart - 1;
+    for (let m = 0; m < gapSynthesized; m++) {
+      const index = synthesizedStart + 1 + m;
+      if (gapExpected > 0) {
+        owners[index] = expected[expectedStart + 1 + Math.floor((m * gapExpected) / gapSynthesized)].owner;
+      } else {
+        // Extra words belong with the word before them (or after, at the start)
+        owners[index] = expectedStart >= 0 ? expected[expectedStart].owner : expected[0].owner;
+      }
+    }
+  }
+
+  const covering = new Map<number, PhonemeWordTiming[]>(expected.map(item => [item.owner, []]));
+  phonemeWords.forEach((word, index) => covering.get(owners[index])!.push(word));
+
+  const timings: WordTiming[] = [];
+  let previousEnd = phonemeWords[0].start;
+  sourceWords.forEach((sourceWord, owner) => {
+    const covered = covering.get(owner);
+    if (!covered) {
+      // Punctuation on its own (e.g. after a pinned pronunciation) ends the word before it
+      if (timings.length > 0 && sourceWord.text && /^\p{P}+$/u.test(sourceWord.text)) {
+        timings[timings.length - 1].text += sourceWord.text;
+      }
+      return;
+    }
+    const start = covered.length > 0 ? covered[0].start : previousEnd;
+    const end = covered.length > 0 ? covered[covered.length - 1].end : previousEnd;
+    timings.push({
+      word: sourceWord.word,
+      text: sourceWord.text ?? sourceWord.word,
+      phonemes: covered.map(word => word.phonemes).join(' '),
+      punctuation: covered.length > 0 ? covered[covered.length - 1].punctuation : '',
+      start,
+      end,
+    });
+    previousEnd = end;
+  });
+
+  return timings;
+}